@@ -4,14 +4,59 @@
  */
 export interface ApiCache {
   getAsync<T>(endpoint: string, query: Record<string, unknown>, orgId: string): Promise<T | null>;
+  /**
+   * Store a response, with the validators it was served with when the server
+   * sent any (`ETag`, `Last-Modified`).
+   */
   setAsync<T>(
     endpoint: string,
     query: Record<string, unknown>,
     orgId: string,
     data: T,
+    validators?: CacheValidators,
   ): Promise<void>;
   invalidateAsync(resource: string): Promise<void | number>;
   setOrgId(orgId: string): void;
+  /**
+   * Optional lookup that also returns entries past their TTL, as long as they
+   * carry validators. The client serves fresh entries as is and revalidates
+   * the others with a conditional request; a `304 Not Modified` stores the
+   * cached body again instead of downloading it. Caches without it are read
+   * through `getAsync` and never revalidated.
+   */
+  getEntryAsync?<T>(
+    endpoint: string,
+    query: Record<string, unknown>,
+    orgId: string,
+  ): Promise<CacheEntry<T> | null>;
+}
+
+/**
+ * Response validators, replayed as `If-None-Match` / `If-Modified-Since`.
+ */
+export interface CacheValidators {
+  etag?: string;
+  lastModified?: string;
+}
+
+/**
+ * A cached response and whether it can be served without asking the server.
+ */
+export interface CacheEntry<T> {
+  data: T;
+  fresh: boolean;
+  validators?: CacheValidators;
+}
+
+/**
+ * How the GET requests of a client were served: from the cache (`hits`), by
+ * downloading the response (`misses`) or by a `304 Not Modified` confirming
+ * the cached response (`revalidated`).
+ */
+export interface CacheCounters {
+  hits: number;
+  misses: number;
+  revalidated: number;
 }
 
 /**
@@ -28,6 +28,12 @@ describe('buildListQuery', () => {
     });
   });
 
+  it('nests filter operators', () => {
+    expect(buildListQuery({ filter: { 'updated_at[gt_eq]': '2026-01-01T00:00:00Z' } })).toEqual({
+      'filter[updated_at][gt_eq]': '2026-01-01T00:00:00Z',
+    });
+  });
+
   it('omits include when the array is empty', () => {
     expect(buildListQuery({ include: [] })).toEqual({});
   });
@@ -57,6 +63,16 @@ describe('ProductiveApi constructor', () => {
   });
 });
 
+function createRevalidatingCache(entry: unknown) {
+  return {
+    getAsync: vi.fn(),
+    getEntryAsync: vi.fn().mockResolvedValue(entry),
+    setAsync: vi.fn(),
+    invalidateAsync: vi.fn(),
+    setOrgId: vi.fn(),
+  };
+}
+
 describe('ProductiveApi requests', () => {
   let fetchSpy: ReturnType<typeof vi.spyOn>;
 
@@ -275,6 +291,121 @@ describe('ProductiveApi requests', () => {
     expect(options!.method).toBe('DELETE');
   });
 
+  describe('journal', () => {
+    function createJournaledApi() {
+      const journal = { record: vi.fn().mockResolvedValue(undefined) };
+      const api = new ProductiveApi({
+        config: validConfig,
+        useCache: false,
+        rateLimit: { enabled: false },
+        journal,
+      });
+      return { api, journal };
+    }
+
+    it('records creates with the created ID', async () => {
+      const { api, journal } = createJournaledApi();
+      mockFetchResponse({ data: { id: '77', type: 'time_entries', attributes: {} } });
+
+      await api.createTimeEntry({ person_id: '1', service_id: '2', date: '2024-01-16', time: 60 });
+
+      expect(fetchSpy).toHaveBeenCalledTimes(1);
+      expect(journal.record).toHaveBeenCalledWith(
+        expect.objectContaining({
+          method: 'POST',
+          path: '/time_entries',
+          resourceType: 'time_entries',
+          resourceId: '77',
+        }),
+      );
+    });
+
+    it('fetches the pre-image before an update', async () => {
+      const { api, journal } = createJournaledApi();
+      const before = { id: '5', type: 'tasks', attributes: { title: 'Old' } };
+      mockFetchResponse({ data: before });
+      mockFetchResponse({ data: { ...before, attributes: { title: 'New' } } });
+
+      await api.updateTask('5', { title: 'New' });
+
+      expect(fetchSpy.mock.calls[0][1]!.method).toBe('GET');
+      expect(fetchSpy.mock.calls[1][1]!.method).toBe('PATCH');
+      expect(journal.record).toHaveBeenCalledWith(
+        expect.objectContaining({ method: 'PATCH', path: '/tasks/5', resourceId: '5', before }),
+      );
+    });
+
+    it('records a delete without pre-image when the record cannot be read', async () => {
+      const { api, journal } = createJournaledApi();
+      mockFetchError(404, 'Not found');
+      fetchSpy.mockResolvedValueOnce(new Response('null', { status: 200, statusText: 'OK' }));
+
+      await api.deletePage('9');
+
+      const mutation = journal.record.mock.calls[0][0];
+      expect(mutation).toMatchObject({ method: 'DELETE', path: '/pages/9', resourceId: '9' });
+      expect(mutation.before).toBeUndefined();
+    });
+
+    it('does not record reads, failed writes or opted-out writes', async () => {
+      const { api, journal } = createJournaledApi();
+      mockFetchResponse({ data: [] });
+      mockFetchError(422, '{"errors":[{"detail":"Invalid"}]}');
+      mockFetchResponse({ data: { id: '1', type: 'tasks' } });
+
+      await api.getProjects();
+      await expect(api.requestRaw('/tasks', { method: 'POST', body: {} })).rejects.toThrow(
+        'Invalid',
+      );
+      await api.requestRaw('/tasks', { method: 'POST', body: {}, journal: false });
+
+      expect(journal.record).not.toHaveBeenCalled();
+    });
+
+    it('keeps the result of a write the journal fails to store', async () => {
+      const { api, journal } = createJournaledApi();
+      journal.record.mockRejectedValueOnce(new Error('disk full'));
+      mockFetchResponse({ data: { id: '3', type: 'comments' } });
+
+      const result = await api.requestRaw<{ data: { id: string } }>('/comments', {
+        method: 'POST',
+        body: {},
+      });
+
+      expect(result.data.id).toBe('3');
+    });
+  });
+
+  describe('onRequest', () => {
+    it('reports every request sent, failed ones included', async () => {
+      const onRequest = vi.fn();
+      const api = new ProductiveApi({
+        config: validConfig,
+        useCache: false,
+        rateLimit: { enabled: false },
+        onRequest,
+      });
+      mockFetchResponse({ data: [] });
+      fetchSpy.mockRejectedValueOnce(new TypeError('fetch failed'));
+
+      await api.getProjects();
+      await expect(api.getTasks()).rejects.toThrow('fetch failed');
+
+      expect(
+        onRequest.mock.calls.map(([event]) => [event.method, event.path, event.status]),
+      ).toEqual([
+        ['GET', '/projects', 200],
+        ['GET', '/tasks', 0],
+      ]);
+      expect(onRequest.mock.calls[0][0]).toMatchObject({
+        attempt: 0,
+        throttledMs: 0,
+        backoffMs: 0,
+        durationMs: expect.any(Number),
+      });
+    });
+  });
+
   describe('caching', () => {
     it('uses cache when enabled', async () => {
       const mockCache = {
@@ -382,6 +513,145 @@ describe('ProductiveApi requests', () => {
 
       expect(mockCache.setAsync).toHaveBeenCalled();
     });
+
+    it('stores the validators of GET responses', async () => {
+      const mockCache = {
+        getAsync: vi.fn().mockResolvedValue(null),
+        setAsync: vi.fn(),
+        invalidateAsync: vi.fn(),
+        setOrgId: vi.fn(),
+      };
+
+      const api = new ProductiveApi({ config: validConfig, cache: mockCache, useCache: true });
+      fetchSpy.mockResolvedValueOnce(
+        new Response(JSON.stringify({ data: [] }), {
+          status: 200,
+          headers: { ETag: 'W/"abc"', 'Last-Modified': 'Mon, 05 Jan 2026 10:00:00 GMT' },
+        }),
+      );
+
+      await api.getProjects();
+
+      expect(mockCache.setAsync).toHaveBeenCalledWith(
+        '/projects',
+        {},
+        'test-org',
+        { data: [] },
+        { etag: 'W/"abc"', lastModified: 'Mon, 05 Jan 2026 10:00:00 GMT' },
+      );
+    });
+
+    it('counts cache hits and misses', async () => {
+      const mockCache = {
+        getAsync: vi.fn().mockResolvedValueOnce(null).mockResolvedValueOnce({ data: [] }),
+        setAsync: vi.fn(),
+        invalidateAsync: vi.fn(),
+        setOrgId: vi.fn(),
+      };
+
+      const api = new ProductiveApi({ config: validConfig, cache: mockCache, useCache: true });
+      mockFetchResponse({ data: [] });
+
+      await api.getProjects();
+      await api.getProjects();
+
+      expect(api.getCacheCounters()).toEqual({ hits: 1, misses: 1, revalidated: 0 });
+    });
+
+    describe('revalidation', () => {
+      const validators = { etag: '"v1"', lastModified: 'Mon, 05 Jan 2026 10:00:00 GMT' };
+
+      it('serves fresh entries without a request', async () => {
+        const cache = createRevalidatingCache({ data: { data: [] }, fresh: true, validators });
+        const api = new ProductiveApi({ config: validConfig, cache, useCache: true });
+
+        expect(await api.getProjects()).toEqual({ data: [] });
+        expect(fetchSpy).not.toHaveBeenCalled();
+        expect(cache.getAsync).not.toHaveBeenCalled();
+      });
+
+      it('sends a conditional request for stale entries and reuses them on 304', async () => {
+        const cached = { data: [{ id: 'cached' }] };
+        const cache = createRevalidatingCache({ data: cached, fresh: false, validators });
+        const api = new ProductiveApi({ config: validConfig, cache, useCache: true });
+        fetchSpy.mockResolvedValueOnce(
+          new Response(null, { status: 304, headers: { ETag: '"v1"' } }),
+        );
+
+        const result = await api.getProjects();
+
+        const [, options] = fetchSpy.mock.calls[0];
+        expect(options!.headers).toMatchObject({
+          'If-None-Match': '"v1"',
+          'If-Modified-Since': 'Mon, 05 Jan 2026 10:00:00 GMT',
+        });
+        expect(result).toBe(cached);
+        expect(cache.setAsync).toHaveBeenCalledWith(
+          '/projects',
+          {},
+          'test-org',
+          cached,
+          validators,
+        );
+        expect(api.getCacheCounters()).toEqual({ hits: 0, misses: 0, revalidated: 1 });
+      });
+
+      it('replaces stale entries the server has changed', async () => {
+        const cache = createRevalidatingCache({ data: { data: [] }, fresh: false, validators });
+        const api = new ProductiveApi({ config: validConfig, cache, useCache: true });
+        fetchSpy.mockResolvedValueOnce(
+          new Response(JSON.stringify({ data: [{ id: 'new' }] }), {
+            status: 200,
+            headers: { ETag: '"v2"' },
+          }),
+        );
+
+        expect(await api.getProjects()).toEqual({ data: [{ id: 'new' }] });
+        expect(cache.setAsync).toHaveBeenCalledWith(
+          '/projects',
+          {},
+          'test-org',
+          { data: [{ id: 'new' }] },
+          { etag: '"v2"' },
+        );
+        expect(api.getCacheCounters()).toEqual({ hits: 0, misses: 1, revalidated: 0 });
+      });
+
+      it('sends no conditional headers for entries without validators', async () => {
+        const cache = createRevalidatingCache({ data: { data: [] }, fresh: false });
+        const api = new ProductiveApi({ config: validConfig, cache, useCache: true });
+        mockFetchResponse({ data: [] });
+
+        await api.getProjects();
+
+        const [, options] = fetchSpy.mock.calls[0];
+        expect(options!.headers).not.toHaveProperty('If-None-Match');
+        expect(options!.headers).not.toHaveProperty('If-Modified-Since');
+      });
+
+      it('revalidates fresh entries with forceRefresh', async () => {
+        const cache = createRevalidatingCache({ data: { data: [] }, fresh: true, validators });
+        const api = new ProductiveApi({
+          config: validConfig,
+          cache,
+          useCache: true,
+          forceRefresh: true,
+        });
+        fetchSpy.mockResolvedValueOnce(new Response(null, { status: 304 }));
+
+        expect(await api.getProjects()).toEqual({ data: [] });
+        expect(fetchSpy).toHaveBeenCalledTimes(1);
+        expect(api.getCacheCounters().revalidated).toBe(1);
+      });
+
+      it('treats a 304 without a cached entry as an error', async () => {
+        const cache = createRevalidatingCache(null);
+        const api = new ProductiveApi({ config: validConfig, cache, useCache: true });
+        fetchSpy.mockResolvedValueOnce(new Response(null, { status: 304 }));
+
+        await expect(api.getProjects()).rejects.toBeInstanceOf(ProductiveApiError);
+      });
+    });
   });
 
   describe('error handling', () => {
@@ -1233,6 +1503,429 @@ describe('ProductiveApi requests', () => {
     });
   });
 
+  describe('invoices', () => {
+    it('getInvoices with params', async () => {
+      const api = createApi();
+      mockFetchResponse({ data: [] });
+      await api.getInvoices({
+        page: 2,
+        perPage: 25,
+        filter: { company_id: '10' },
+        sort: '-invoiced_on',
+        include: ['company'],
+      });
+      const url = fetchSpy.mock.calls[0][0] as string;
+      expect(url).toContain('/invoices');
+      expect(url).toContain('page%5Bnumber%5D=2');
+      expect(url).toContain('page%5Bsize%5D=25');
+      expect(url).toContain('filter%5Bcompany_id%5D=10');
+      expect(url).toContain('sort=-invoiced_on');
+      expect(url).toContain('include=company');
+    });
+
+    it('getInvoice', async () => {
+      const api = createApi();
+      mockFetchResponse({ data: { id: '1', type: 'invoices', attributes: { number: '001' } } });
+      const result = await api.getInvoice('1', { include: ['company'] });
+      const url = fetchSpy.mock.calls[0][0] as string;
+      expect(url).toContain('/invoices/1');
+      expect(url).toContain('include=company');
+      expect(result.data.id).toBe('1');
+    });
+
+    it('createInvoice with all fields', async () => {
+      const api = createApi();
+      mockFetchResponse({ data: { id: '1', type: 'invoices', attributes: {} } });
+      await api.createInvoice({
+        company_id: '10',
+        document_type_id: '20',
+        subsidiary_id: '30',
+        invoiced_on: '2024-01-15',
+        pay_on: '2024-02-14',
+        currency: 'EUR',
+        subject: 'Phase 1',
+        note: 'Thanks',
+      });
+      const [url, options] = fetchSpy.mock.calls[0];
+      expect(url).toContain('/invoices');
+      expect(options!.method).toBe('POST');
+      const body = JSON.parse(options!.body as string);
+      expect(body.data.type).toBe('invoices');
+      expect(body.data.attributes).toEqual({
+        invoiced_on: '2024-01-15',
+        pay_on: '2024-02-14',
+        currency: 'EUR',
+        subject: 'Phase 1',
+        note: 'Thanks',
+      });
+      expect(body.data.relationships.company.data.id).toBe('10');
+      expect(body.data.relationships.document_type.data).toEqual({
+        type: 'document_types',
+        id: '20',
+      });
+      expect(body.data.relationships.subsidiary.data.id).toBe('30');
+    });
+
+    it('createInvoice defaults invoiced_on to today', async () => {
+      const api = createApi();
+      mockFetchResponse({ data: { id: '1', type: 'invoices', attributes: {} } });
+      await api.createInvoice({ company_id: '10' });
+      const body = JSON.parse(fetchSpy.mock.calls[0][1]!.body as string);
+      expect(body.data.attributes.invoiced_on).toMatch(/^\d{4}-\d{2}-\d{2}$/);
+      expect(body.data.relationships.document_type).toBeUndefined();
+    });
+
+    it('updateInvoice only sends provided fields', async () => {
+      const api = createApi();
+      mockFetchResponse({ data: { id: '1', type: 'invoices', attributes: {} } });
+      await api.updateInvoice('1', { subject: 'Updated', pay_on: '2024-03-01' });
+      const [url, options] = fetchSpy.mock.calls[0];
+      expect(url).toContain('/invoices/1');
+      expect(options!.method).toBe('PATCH');
+      const body = JSON.parse(options!.body as string);
+      expect(body.data.attributes).toEqual({ subject: 'Updated', pay_on: '2024-03-01' });
+    });
+
+    it('finalizeInvoice', async () => {
+      const api = createApi();
+      mockFetchResponse({
+        data: { id: '1', type: 'invoices', attributes: { finalized_on: '2024-01-20' } },
+      });
+      const result = await api.finalizeInvoice('1');
+      const [url, options] = fetchSpy.mock.calls[0];
+      expect(url).toContain('/invoices/1/finalize');
+      expect(options!.method).toBe('PATCH');
+      expect(result.data.attributes.finalized_on).toBe('2024-01-20');
+    });
+
+    it('getLineItems', async () => {
+      const api = createApi();
+      mockFetchResponse({ data: [] });
+      await api.getLineItems({ filter: { invoice_id: '1' } });
+      const url = fetchSpy.mock.calls[0][0] as string;
+      expect(url).toContain('/line_items');
+      expect(url).toContain('filter%5Binvoice_id%5D=1');
+    });
+  });
+
+  describe('expenses', () => {
+    it('getExpenses with params', async () => {
+      const api = createApi();
+      mockFetchResponse({ data: [] });
+      await api.getExpenses({ filter: { deal_id: '5' }, sort: '-date', include: ['service'] });
+      const url = fetchSpy.mock.calls[0][0] as string;
+      expect(url).toContain('/expenses');
+      expect(url).toContain('filter%5Bdeal_id%5D=5');
+      expect(url).toContain('sort=-date');
+      expect(url).toContain('include=service');
+    });
+
+    it('getExpense', async () => {
+      const api = createApi();
+      mockFetchResponse({ data: { id: '1', type: 'expenses', attributes: { name: 'Train' } } });
+      const result = await api.getExpense('1', { include: ['deal'] });
+      const url = fetchSpy.mock.calls[0][0] as string;
+      expect(url).toContain('/expenses/1');
+      expect(url).toContain('include=deal');
+      expect(result.data.id).toBe('1');
+    });
+
+    it('createExpense links deal, service and person', async () => {
+      const api = createApi();
+      mockFetchResponse({ data: { id: '1', type: 'expenses', attributes: {} } });
+      await api.createExpense({
+        name: 'Train ticket',
+        amount: 4500,
+        date: '2024-01-15',
+        currency: 'EUR',
+        deal_id: '5',
+        service_id: '6',
+        person_id: '7',
+        reimbursable: true,
+      });
+      const [url, options] = fetchSpy.mock.calls[0];
+      expect(url).toContain('/expenses');
+      expect(options!.method).toBe('POST');
+      const body = JSON.parse(options!.body as string);
+      expect(body.data.attributes).toEqual({
+        name: 'Train ticket',
+        amount: 4500,
+        date: '2024-01-15',
+        currency: 'EUR',
+        reimbursable: true,
+      });
+      expect(body.data.relationships).toEqual({
+        deal: { data: { type: 'deals', id: '5' } },
+        service: { data: { type: 'services', id: '6' } },
+        person: { data: { type: 'people', id: '7' } },
+      });
+    });
+
+    it('createExpense defaults date to today in the configured timezone', async () => {
+      vi.useFakeTimers({ toFake: ['Date'] });
+      vi.setSystemTime(new Date('2026-10-19T23:30:00Z'));
+      const api = new ProductiveApi({
+        config: { ...validConfig, timezone: 'Europe/Paris' },
+        useCache: false,
+        rateLimit: { enabled: false },
+      });
+      mockFetchResponse({ data: { id: '1', type: 'expenses', attributes: {} } });
+      try {
+        await api.createExpense({ name: 'Hosting', amount: 1000 });
+      } finally {
+        vi.useRealTimers();
+      }
+      const body = JSON.parse(fetchSpy.mock.calls[0][1]!.body as string);
+      expect(body.data.attributes.date).toBe('2026-10-20');
+      expect(body.data.relationships).toEqual({});
+    });
+
+    it('updateExpense only sends provided fields', async () => {
+      const api = createApi();
+      mockFetchResponse({ data: { id: '1', type: 'expenses', attributes: {} } });
+      await api.updateExpense('1', { amount: 5000, service_id: '8' });
+      const [url, options] = fetchSpy.mock.calls[0];
+      expect(url).toContain('/expenses/1');
+      expect(options!.method).toBe('PATCH');
+      const body = JSON.parse(options!.body as string);
+      expect(body.data.attributes).toEqual({ amount: 5000 });
+      expect(body.data.relationships.service.data.id).toBe('8');
+    });
+
+    it('approveExpense', async () => {
+      const api = createApi();
+      mockFetchResponse({ data: { id: '1', type: 'expenses', attributes: { approved: true } } });
+      await api.approveExpense('1');
+      const [url, options] = fetchSpy.mock.calls[0];
+      expect(url).toContain('/expenses/1/approve');
+      expect(options!.method).toBe('PATCH');
+    });
+
+    it('rejectExpense sends the reason', async () => {
+      const api = createApi();
+      mockFetchResponse({ data: { id: '1', type: 'expenses', attributes: { rejected: true } } });
+      await api.rejectExpense('1', 'Missing receipt');
+      const [url, options] = fetchSpy.mock.calls[0];
+      expect(url).toContain('/expenses/1/reject');
+      expect(options!.method).toBe('PATCH');
+      const body = JSON.parse(options!.body as string);
+      expect(body.data.attributes).toEqual({ rejected_reason: 'Missing receipt' });
+    });
+  });
+
+  describe('time entry approval', () => {
+    it('approveTimeEntry and unapproveTimeEntry', async () => {
+      const api = createApi();
+      mockFetchResponse({ data: { id: '1', type: 'time_entries', attributes: {} } });
+      mockFetchResponse({ data: { id: '1', type: 'time_entries', attributes: {} } });
+      await api.approveTimeEntry('1');
+      await api.unapproveTimeEntry('1');
+      expect(fetchSpy.mock.calls[0][0]).toContain('/time_entries/1/approve');
+      expect(fetchSpy.mock.calls[0][1]!.method).toBe('PATCH');
+      expect(fetchSpy.mock.calls[1][0]).toContain('/time_entries/1/unapprove');
+      expect(fetchSpy.mock.calls[1][1]!.method).toBe('PATCH');
+    });
+
+    it('rejectTimeEntry sends the reason', async () => {
+      const api = createApi();
+      mockFetchResponse({ data: { id: '1', type: 'time_entries', attributes: {} } });
+      await api.rejectTimeEntry('1', 'Wrong project');
+      const [url, options] = fetchSpy.mock.calls[0];
+      expect(url).toContain('/time_entries/1/reject');
+      const body = JSON.parse(options!.body as string);
+      expect(body.data.attributes).toEqual({ rejected_reason: 'Wrong project' });
+    });
+
+    it('createTimesheet submits a day for a person', async () => {
+      const api = createApi();
+      mockFetchResponse({ data: { id: '7', type: 'timesheets', attributes: {} } });
+      await api.createTimesheet({ person_id: '42', date: '2026-10-12' });
+      const [url, options] = fetchSpy.mock.calls[0];
+      expect(url).toContain('/timesheets');
+      expect(options!.method).toBe('POST');
+      expect(JSON.parse(options!.body as string)).toEqual({
+        data: {
+          type: 'timesheets',
+          attributes: { date: '2026-10-12' },
+          relationships: { person: { data: { type: 'people', id: '42' } } },
+        },
+      });
+    });
+  });
+
+  describe('task lists', () => {
+    it('getTaskLists with params', async () => {
+      const api = createApi();
+      mockFetchResponse({ data: [] });
+      await api.getTaskLists({ filter: { project_id: '100' }, include: ['board'] });
+      const url = fetchSpy.mock.calls[0][0] as string;
+      expect(url).toContain('/task_lists');
+      expect(url).toContain('filter%5Bproject_id%5D=100');
+      expect(url).toContain('include=board');
+    });
+
+    it('getTaskList', async () => {
+      const api = createApi();
+      mockFetchResponse({
+        data: { id: '10', type: 'task_lists', attributes: { name: 'Backlog' } },
+      });
+      const result = await api.getTaskList('10');
+      expect(fetchSpy.mock.calls[0][0] as string).toContain('/task_lists/10');
+      expect(result.data.id).toBe('10');
+    });
+
+    it('createTaskList links project and board', async () => {
+      const api = createApi();
+      mockFetchResponse({ data: { id: '10', type: 'task_lists', attributes: {} } });
+      await api.createTaskList({ name: 'Sprint 12', project_id: '100', board_id: '20' });
+      const [url, options] = fetchSpy.mock.calls[0];
+      expect(url).toContain('/task_lists');
+      expect(options!.method).toBe('POST');
+      const body = JSON.parse(options!.body as string);
+      expect(body.data.attributes).toEqual({ name: 'Sprint 12' });
+      expect(body.data.relationships).toEqual({
+        project: { data: { type: 'projects', id: '100' } },
+        board: { data: { type: 'boards', id: '20' } },
+      });
+    });
+
+    it('updateTaskList sends position and board', async () => {
+      const api = createApi();
+      mockFetchResponse({ data: { id: '10', type: 'task_lists', attributes: {} } });
+      await api.updateTaskList('10', { position: 2, board_id: '21' });
+      const [url, options] = fetchSpy.mock.calls[0];
+      expect(url).toContain('/task_lists/10');
+      expect(options!.method).toBe('PATCH');
+      const body = JSON.parse(options!.body as string);
+      expect(body.data.attributes).toEqual({ position: 2 });
+      expect(body.data.relationships.board.data.id).toBe('21');
+    });
+
+    it('archiveTaskList and restoreTaskList', async () => {
+      const api = createApi();
+      mockFetchResponse({ data: { id: '10', type: 'task_lists', attributes: {} } });
+      await api.archiveTaskList('10');
+      mockFetchResponse({ data: { id: '10', type: 'task_lists', attributes: {} } });
+      await api.restoreTaskList('10');
+      expect(fetchSpy.mock.calls[0][0] as string).toContain('/task_lists/10/archive');
+      expect(fetchSpy.mock.calls[0][1]!.method).toBe('PATCH');
+      expect(fetchSpy.mock.calls[1][0] as string).toContain('/task_lists/10/restore');
+    });
+  });
+
+  describe('boards', () => {
+    it('getBoards and getBoard', async () => {
+      const api = createApi();
+      mockFetchResponse({ data: [] });
+      await api.getBoards({ filter: { project_id: '100' } });
+      mockFetchResponse({ data: { id: '20', type: 'boards', attributes: {} } });
+      await api.getBoard('20');
+      expect(fetchSpy.mock.calls[0][0] as string).toContain('/boards');
+      expect(fetchSpy.mock.calls[0][0] as string).toContain('filter%5Bproject_id%5D=100');
+      expect(fetchSpy.mock.calls[1][0] as string).toContain('/boards/20');
+    });
+
+    it('createBoard links the project', async () => {
+      const api = createApi();
+      mockFetchResponse({ data: { id: '20', type: 'boards', attributes: {} } });
+      await api.createBoard({ name: 'Development', project_id: '100', position: 1 });
+      const body = JSON.parse(fetchSpy.mock.calls[0][1]!.body as string);
+      expect(body.data.attributes).toEqual({ name: 'Development', position: 1 });
+      expect(body.data.relationships.project.data.id).toBe('100');
+    });
+
+    it('updateBoard, archiveBoard and restoreBoard', async () => {
+      const api = createApi();
+      mockFetchResponse({ data: { id: '20', type: 'boards', attributes: {} } });
+      await api.updateBoard('20', { name: 'Design' });
+      mockFetchResponse({ data: { id: '20', type: 'boards', attributes: {} } });
+      await api.archiveBoard('20');
+      mockFetchResponse({ data: { id: '20', type: 'boards', attributes: {} } });
+      await api.restoreBoard('20');
+      const body = JSON.parse(fetchSpy.mock.calls[0][1]!.body as string);
+      expect(body.data.attributes).toEqual({ name: 'Design' });
+      expect(fetchSpy.mock.calls[1][0] as string).toContain('/boards/20/archive');
+      expect(fetchSpy.mock.calls[2][0] as string).toContain('/boards/20/restore');
+    });
+  });
+
+  describe('workflow statuses', () => {
+    it('getWorkflowStatuses and getWorkflowStatus', async () => {
+      const api = createApi();
+      mockFetchResponse({ data: [] });
+      await api.getWorkflowStatuses({ filter: { workflow_id: '9' }, sort: 'position' });
+      mockFetchResponse({ data: { id: '5', type: 'workflow_statuses', attributes: {} } });
+      await api.getWorkflowStatus('5');
+      const url = fetchSpy.mock.calls[0][0] as string;
+      expect(url).toContain('/workflow_statuses');
+      expect(url).toContain('filter%5Bworkflow_id%5D=9');
+      expect(url).toContain('sort=position');
+      expect(fetchSpy.mock.calls[1][0] as string).toContain('/workflow_statuses/5');
+    });
+
+    it('createWorkflowStatus links the workflow', async () => {
+      const api = createApi();
+      mockFetchResponse({ data: { id: '5', type: 'workflow_statuses', attributes: {} } });
+      await api.createWorkflowStatus({ name: 'Review', workflow_id: '9', category_id: 2 });
+      const body = JSON.parse(fetchSpy.mock.calls[0][1]!.body as string);
+      expect(body.data.attributes).toEqual({ name: 'Review', category_id: 2 });
+      expect(body.data.relationships.workflow.data).toEqual({ type: 'workflows', id: '9' });
+    });
+
+    it('updateWorkflowStatus only sends provided fields', async () => {
+      const api = createApi();
+      mockFetchResponse({ data: { id: '5', type: 'workflow_statuses', attributes: {} } });
+      await api.updateWorkflowStatus('5', { position: 4 });
+      const [url, options] = fetchSpy.mock.calls[0];
+      expect(url).toContain('/workflow_statuses/5');
+      expect(options!.method).toBe('PATCH');
+      expect(JSON.parse(options!.body as string).data.attributes).toEqual({ position: 4 });
+    });
+  });
+
+  describe('absences and capacity', () => {
+    it('getEvents', async () => {
+      const api = createApi();
+      mockFetchResponse({ data: [] });
+      await api.getEvents({ filter: { absence_type: 'time_off' } });
+      const url = fetchSpy.mock.calls[0][0] as string;
+      expect(url).toContain('/events');
+      expect(url).toContain('filter%5Babsence_type%5D=time_off');
+    });
+
+    it('getHolidayCalendars and getHolidayCalendar', async () => {
+      const api = createApi();
+      mockFetchResponse({ data: [] });
+      await api.getHolidayCalendars();
+      expect(fetchSpy.mock.calls[0][0] as string).toContain('/holiday_calendars');
+
+      mockFetchResponse({ data: { id: '5', type: 'holiday_calendars', attributes: {} } });
+      await api.getHolidayCalendar('5');
+      expect(fetchSpy.mock.calls[1][0] as string).toContain('/holiday_calendars/5');
+    });
+
+    it('getHolidays with date range', async () => {
+      const api = createApi();
+      mockFetchResponse({ data: [] });
+      await api.getHolidays({
+        filter: { holiday_calendar_id: '5', after: '2026-12-01', before: '2026-12-31' },
+      });
+      const url = fetchSpy.mock.calls[0][0] as string;
+      expect(url).toContain('/holidays');
+      expect(url).toContain('filter%5Bholiday_calendar_id%5D=5');
+      expect(url).toContain('filter%5Bafter%5D=2026-12-01');
+    });
+
+    it('getSalaries with include', async () => {
+      const api = createApi();
+      mockFetchResponse({ data: [] });
+      await api.getSalaries({ filter: { person_id: '10' }, include: ['holiday_calendar'] });
+      const url = fetchSpy.mock.calls[0][0] as string;
+      expect(url).toContain('/salaries');
+      expect(url).toContain('include=holiday_calendar');
+    });
+  });
+
   describe('custom fields', () => {
     it('getCustomFields with no params', async () => {
       const api = createApi();
@@ -1391,6 +2084,30 @@ describe('ProductiveApi requests', () => {
       expect(result.data).toHaveLength(1);
     });
 
+    it('reports each retry to onRequest', async () => {
+      const onRequest = vi.fn();
+      const api = new ProductiveApi({
+        config: validConfig,
+        useCache: false,
+        rateLimit: { maxRetries: 3, initialBackoffMs: 10 },
+        onRequest,
+      });
+      fetchSpy.mockResolvedValueOnce(new Response('', { status: 429 })).mockResolvedValueOnce(
+        new Response(JSON.stringify({ data: [] }), {
+          status: 200,
+          headers: { 'Content-Type': 'application/json' },
+        }),
+      );
+
+      await api.getProjects();
+
+      expect(onRequest.mock.calls.map(([event]) => [event.status, event.attempt])).toEqual([
+        [429, 0],
+        [200, 1],
+      ]);
+      expect(onRequest.mock.calls[1][0].backoffMs).toBeGreaterThan(0);
+    });
+
     it('throws after maxRetries exceeded', async () => {
       const api = new ProductiveApi({
         config: validConfig,
@@ -1,10 +1,15 @@
-import type { ApiCache } from './cache.js';
+import type { ApiCache, CacheCounters, CacheEntry, CacheValidators } from './cache.js';
+import type { JournalRecord, MutationJournal, MutationMethod } from './journal.js';
 import type { RateLimitConfig } from './rate-limiter.js';
 import type {
   ProductiveApiResponse,
   ProductiveProject,
   ProductiveTimeEntry,
+  ProductiveTimesheet,
   ProductiveTask,
+  ProductiveTaskList,
+  ProductiveBoard,
+  ProductiveWorkflowStatus,
   ProductivePerson,
   ProductiveService,
   ProductiveCompany,
@@ -12,10 +17,17 @@ import type {
   ProductiveTimer,
   ProductiveDeal,
   ProductiveBooking,
+  ProductiveEvent,
+  ProductiveHoliday,
+  ProductiveHolidayCalendar,
+  ProductiveSalary,
   ProductiveAttachment,
   ProductiveReport,
   ProductivePage,
   ProductiveDiscussion,
+  ProductiveExpense,
+  ProductiveInvoice,
+  ProductiveLineItem,
   ProductiveActivity,
   ProductiveCustomField,
   ProductiveCustomFieldOption,
@@ -25,6 +37,7 @@ import type {
 import { noopCache } from './cache.js';
 import { ProductiveApiError } from './error.js';
 import { RateLimiter } from './rate-limiter.js';
+import { todayInTimezone } from './utils/dates.js';
 
 /**
  * Options for constructing a ProductiveApi instance.
@@ -37,6 +50,41 @@ export interface ApiOptions {
   forceRefresh?: boolean;
   /** Rate limiting configuration */
   rateLimit?: RateLimitConfig;
+  /** Receives every write the API accepted, for undo */
+  journal?: MutationJournal;
+  /** Called after every HTTP request sent to the API, e.g. to count or time them */
+  onRequest?: (event: ApiRequestEvent) => void;
+}
+
+/**
+ * An HTTP request sent to the API. Cache hits send none.
+ */
+export interface ApiRequestEvent {
+  method: string;
+  /** Request path, e.g. `/tasks/123` */
+  path: string;
+  /** Response status, `0` when no response came back */
+  status: number;
+  durationMs: number;
+  /** `0` for the first attempt, then the number of the retry after a 429 */
+  attempt: number;
+  /** Time the rate limiter held the request back before sending it */
+  throttledMs: number;
+  /** Time waited after a 429 before this retry */
+  backoffMs: number;
+}
+
+/**
+ * Options of a single API request
+ */
+export interface RequestOptions {
+  method?: string;
+  body?: unknown;
+  query?: Record<string, string | number | boolean>;
+  /** Bypass the cache, e.g. to read a record right before changing it */
+  fresh?: boolean;
+  /** Set to `false` to keep a write out of the journal */
+  journal?: boolean;
 }
 
 /**
@@ -58,6 +106,9 @@ export interface ListParams {
  * Build the query object for a list (or single-resource `include`) request from
  * the common {@link ListParams}. Every list/get method routes through this so the
  * common params are forwarded uniformly by construction.
+ *
+ * Filter keys may carry an operator: `{ 'updated_at[gt_eq]': date }` becomes
+ * `filter[updated_at][gt_eq]`.
  */
 export function buildListQuery(params?: ListParams): Record<string, string> {
   const query: Record<string, string> = {};
@@ -67,7 +118,8 @@ export function buildListQuery(params?: ListParams): Record<string, string> {
   if (params?.sort) query['sort'] = params.sort;
   if (params?.filter) {
     Object.entries(params.filter).forEach(([key, value]) => {
-      query[`filter[${key}]`] = value;
+      const operator = /^([^[\]]+)\[([a-z_]+)\]$/.exec(key);
+      query[operator ? `filter[${operator[1]}][${operator[2]}]` : `filter[${key}]`] = value;
     });
   }
   if (params?.include?.length) {
@@ -77,14 +129,32 @@ export function buildListQuery(params?: ListParams): Record<string, string> {
   return query;
 }
 
+function isMutationMethod(method: string): method is MutationMethod {
+  return method === 'POST' || method === 'PATCH' || method === 'DELETE';
+}
+
+/**
+ * Validators of a response, or `undefined` when the server sent none.
+ */
+function readValidators(response: Response): CacheValidators | undefined {
+  const etag = response.headers.get('ETag') ?? undefined;
+  const lastModified = response.headers.get('Last-Modified') ?? undefined;
+  if (!etag && !lastModified) return undefined;
+  return { ...(etag && { etag }), ...(lastModified && { lastModified }) };
+}
+
 export class ProductiveApi {
   private baseUrl: string;
   private apiToken: string;
   private organizationId: string;
+  private timezone?: string;
   private cache: ApiCache;
   private useCache: boolean;
   private forceRefresh: boolean;
   private rateLimiter: RateLimiter;
+  private journal?: MutationJournal;
+  private onRequest?: (event: ApiRequestEvent) => void;
+  private cacheCounters: CacheCounters = { hits: 0, misses: 0, revalidated: 0 };
 
   constructor(options: ApiOptions) {
     const { config } = options;
@@ -104,29 +174,59 @@ export class ProductiveApi {
     this.baseUrl = config.baseUrl || 'https://api.productive.io/api/v2';
     this.apiToken = config.apiToken;
     this.organizationId = config.organizationId;
+    this.timezone = config.timezone;
 
     this.useCache = options.useCache ?? true;
     this.forceRefresh = options.forceRefresh ?? false;
     this.cache = options.cache ?? noopCache;
     this.cache.setOrgId(this.organizationId);
     this.rateLimiter = new RateLimiter(options.rateLimit);
+    this.journal = options.journal;
+    this.onRequest = options.onRequest;
   }
 
-  private async executeRequest<T>(
-    endpoint: string,
-    options: {
-      method?: string;
-      body?: unknown;
-      query?: Record<string, string | number | boolean>;
-    } = {},
-  ): Promise<T> {
-    const { method = 'GET', body, query } = options;
+  /**
+   * Send a request to the API, reporting it to `onRequest`
+   */
+  private async send(
+    url: URL,
+    init: RequestInit,
+    details: Pick<ApiRequestEvent, 'path' | 'attempt' | 'throttledMs' | 'backoffMs'>,
+  ): Promise<Response> {
+    const startedAt = performance.now();
+    let status = 0;
+    try {
+      const response = await globalThis.fetch(url.toString(), init);
+      status = response.status;
+      return response;
+    } finally {
+      try {
+        this.onRequest?.({
+          ...details,
+          method: init.method ?? 'GET',
+          status,
+          durationMs: performance.now() - startedAt,
+        });
+      } catch {
+        // An observer never fails the request it observes
+      }
+    }
+  }
 
-    // Check cache for GET requests
-    if (method === 'GET' && this.useCache && !this.forceRefresh) {
-      const cached = await this.cache.getAsync<T>(endpoint, query || {}, this.organizationId);
-      if (cached) {
-        return cached;
+  private async executeRequest<T>(endpoint: string, options: RequestOptions = {}): Promise<T> {
+    const { method = 'GET', body, query } = options;
+    const cacheable = method === 'GET' && this.useCache && !options.fresh;
+
+    // Serve fresh cache entries, keep stale ones with validators for revalidation
+    let stale: CacheEntry<T> | null = null;
+    if (cacheable) {
+      const entry = await this.readCache<T>(endpoint, query || {});
+      if (entry?.fresh && !this.forceRefresh) {
+        this.cacheCounters.hits++;
+        return entry.data;
+      }
+      if (entry?.validators) {
+        stale = entry;
       }
     }
 
@@ -142,20 +242,25 @@ export class ProductiveApi {
       'X-Auth-Token': this.apiToken,
       'X-Organization-Id': this.organizationId,
     };
+    if (stale?.validators?.etag) headers['If-None-Match'] = stale.validators.etag;
+    if (stale?.validators?.lastModified) {
+      headers['If-Modified-Since'] = stale.validators.lastModified;
+    }
 
     // Rate limiting with retry loop
     const maxAttempts = this.rateLimiter.enabled ? 4 : 1; // 1 initial + 3 retries
     let lastError: ProductiveApiError | null = null;
+    let backoffMs = 0;
 
     for (let attempt = 0; attempt < maxAttempts; attempt++) {
       // Proactive rate limiting - wait if needed before making request
-      await this.rateLimiter.acquire(endpoint);
+      const throttledMs = await this.rateLimiter.acquire(endpoint);
 
-      const response = await globalThis.fetch(url.toString(), {
-        method,
-        headers,
-        body: body ? JSON.stringify(body) : undefined,
-      });
+      const response = await this.send(
+        url,
+        { method, headers, body: body ? JSON.stringify(body) : undefined },
+        { path: endpoint, attempt, throttledMs, backoffMs },
+      );
 
       // Handle rate limit (429) responses
       if (response.status === 429) {
@@ -165,6 +270,7 @@ export class ProductiveApi {
         if (this.rateLimiter.shouldRetry(attempt)) {
           const delay = this.rateLimiter.getRetryDelay(attempt, retryAfter);
           await new Promise((resolve) => setTimeout(resolve, delay));
+          backoffMs = delay;
           continue;
         }
 
@@ -176,6 +282,17 @@ export class ProductiveApi {
         );
       }
 
+      // The cached response is still current: refresh its TTL without a download
+      if (response.status === 304 && stale) {
+        this.rateLimiter.recordResponse(response.status);
+        this.cacheCounters.revalidated++;
+        await this.cache.setAsync(endpoint, query || {}, this.organizationId, stale.data, {
+          ...stale.validators,
+          ...readValidators(response),
+        });
+        return stale.data;
+      }
+
       if (!response.ok) {
         const errorText = await response.text();
         let errorMessage = `API request failed: ${response.status} ${response.statusText}`;
@@ -197,8 +314,15 @@ export class ProductiveApi {
       const data = (await response.json()) as T;
 
       // Cache GET responses
-      if (method === 'GET' && this.useCache) {
-        await this.cache.setAsync(endpoint, query || {}, this.organizationId, data);
+      if (cacheable) {
+        this.cacheCounters.misses++;
+        await this.cache.setAsync(
+          endpoint,
+          query || {},
+          this.organizationId,
+          data,
+          readValidators(response),
+        );
       }
 
       // Invalidate cache on write operations
@@ -214,26 +338,92 @@ export class ProductiveApi {
     throw lastError ?? new ProductiveApiError('Request failed after all retry attempts', 500);
   }
 
-  private async request<T>(
+  /**
+   * Look up a GET response. Caches implementing `getEntryAsync` may return
+   * expired entries to revalidate; the others only return fresh ones.
+   */
+  private async readCache<T>(
     endpoint: string,
-    options: {
-      method?: string;
-      body?: unknown;
-      query?: Record<string, string | number | boolean>;
-    } = {},
-  ): Promise<T> {
-    return this.executeRequest<T>(endpoint, options);
+    query: Record<string, unknown>,
+  ): Promise<CacheEntry<T> | null> {
+    if (this.cache.getEntryAsync) {
+      return this.cache.getEntryAsync<T>(endpoint, query, this.organizationId);
+    }
+    if (this.forceRefresh) return null;
+
+    const data = await this.cache.getAsync<T>(endpoint, query, this.organizationId);
+    return data ? { data, fresh: true } : null;
+  }
+
+  /**
+   * How GET requests were served since this client was created.
+   */
+  getCacheCounters(): CacheCounters {
+    return { ...this.cacheCounters };
+  }
+
+  private async request<T>(endpoint: string, options: RequestOptions = {}): Promise<T> {
+    const method = (options.method ?? 'GET').toUpperCase();
+    if (!this.journal || options.journal === false || !isMutationMethod(method)) {
+      return this.executeRequest<T>(endpoint, options);
+    }
+    return this.executeJournaled<T>(this.journal, endpoint, method, options);
   }
 
-  async requestRaw<T>(
-    path: string,
-    options: {
-      method?: string;
-      body?: unknown;
-      query?: Record<string, string | number | boolean>;
-    } = {},
+  /**
+   * Send a write and report it to the journal, with the pre-image of the
+   * record for updates and deletes.
+   */
+  private async executeJournaled<T>(
+    journal: MutationJournal,
+    endpoint: string,
+    method: MutationMethod,
+    options: RequestOptions,
   ): Promise<T> {
-    return this.executeRequest<T>(path, options);
+    const [, resourceType, id, action] = endpoint.split('?')[0].split('/');
+    const before =
+      method !== 'POST' && id !== undefined && action === undefined
+        ? await this.fetchPreImage(endpoint)
+        : undefined;
+
+    const data = await this.executeRequest<T>(endpoint, options);
+
+    const createdId = (data as { data?: { id?: unknown } } | undefined)?.data?.id;
+    try {
+      await journal.record({
+        method,
+        path: endpoint,
+        ...(options.body !== undefined && { body: options.body }),
+        resourceType,
+        resourceId: id ?? (typeof createdId === 'string' ? createdId : undefined),
+        ...(before && { before }),
+      });
+    } catch {
+      // The write went through: a journal that cannot store it must not turn
+      // it into a failure
+    }
+
+    return data;
+  }
+
+  /**
+   * The record at an endpoint as it is on the server, or `undefined` when
+   * it cannot be read (the write then cannot be reverted).
+   */
+  private async fetchPreImage(endpoint: string): Promise<JournalRecord | undefined> {
+    try {
+      const response = await this.executeRequest<{ data?: JournalRecord }>(endpoint, {
+        fresh: true,
+      });
+      return response?.data;
+    } catch (error) {
+      if (error instanceof ProductiveApiError) return undefined;
+      throw error;
+    }
+  }
+
+  async requestRaw<T>(path: string, options: RequestOptions = {}): Promise<T> {
+    return this.request<T>(path, options);
   }
 
   // Projects
@@ -346,6 +536,57 @@ export class ProductiveApi {
     });
   }
 
+  async approveTimeEntry(id: string): Promise<ProductiveApiResponse<ProductiveTimeEntry>> {
+    return this.request<ProductiveApiResponse<ProductiveTimeEntry>>(`/time_entries/${id}/approve`, {
+      method: 'PATCH',
+    });
+  }
+
+  async unapproveTimeEntry(id: string): Promise<ProductiveApiResponse<ProductiveTimeEntry>> {
+    return this.request<ProductiveApiResponse<ProductiveTimeEntry>>(
+      `/time_entries/${id}/unapprove`,
+      { method: 'PATCH' },
+    );
+  }
+
+  async rejectTimeEntry(
+    id: string,
+    reason?: string,
+  ): Promise<ProductiveApiResponse<ProductiveTimeEntry>> {
+    const attributes: Record<string, unknown> = {};
+    if (reason) attributes.rejected_reason = reason;
+
+    return this.request<ProductiveApiResponse<ProductiveTimeEntry>>(`/time_entries/${id}/reject`, {
+      method: 'PATCH',
+      body: {
+        data: {
+          type: 'time_entries',
+          id,
+          attributes,
+        },
+      },
+    });
+  }
+
+  // Timesheets (a person's submitted day)
+  async createTimesheet(data: {
+    person_id: string;
+    date: string;
+  }): Promise<ProductiveApiResponse<ProductiveTimesheet>> {
+    return this.request<ProductiveApiResponse<ProductiveTimesheet>>('/timesheets', {
+      method: 'POST',
+      body: {
+        data: {
+          type: 'timesheets',
+          attributes: { date: data.date },
+          relationships: {
+            person: { data: { type: 'people', id: data.person_id } },
+          },
+        },
+      },
+    });
+  }
+
   // Tasks
   async getTasks(params?: {
     page?: number;
@@ -479,6 +720,257 @@ export class ProductiveApi {
     });
   }
 
+  // Task Lists
+  async getTaskLists(params?: {
+    page?: number;
+    perPage?: number;
+    filter?: Record<string, string>;
+    sort?: string;
+    include?: string[];
+  }): Promise<ProductiveApiResponse<ProductiveTaskList[]>> {
+    const query = buildListQuery(params);
+
+    return this.request<ProductiveApiResponse<ProductiveTaskList[]>>('/task_lists', { query });
+  }
+
+  async getTaskList(
+    id: string,
+    params?: { include?: string[] },
+  ): Promise<ProductiveApiResponse<ProductiveTaskList>> {
+    const query = buildListQuery(params);
+    return this.request<ProductiveApiResponse<ProductiveTaskList>>(`/task_lists/${id}`, { query });
+  }
+
+  async createTaskList(data: {
+    name: string;
+    project_id: string;
+    board_id: string;
+    position?: number;
+  }): Promise<ProductiveApiResponse<ProductiveTaskList>> {
+    const attributes: Record<string, unknown> = { name: data.name };
+    if (data.position !== undefined) attributes.position = data.position;
+
+    return this.request<ProductiveApiResponse<ProductiveTaskList>>('/task_lists', {
+      method: 'POST',
+      body: {
+        data: {
+          type: 'task_lists',
+          attributes,
+          relationships: {
+            project: { data: { type: 'projects', id: data.project_id } },
+            board: { data: { type: 'boards', id: data.board_id } },
+          },
+        },
+      },
+    });
+  }
+
+  async updateTaskList(
+    id: string,
+    data: {
+      name?: string;
+      position?: number;
+      board_id?: string;
+    },
+  ): Promise<ProductiveApiResponse<ProductiveTaskList>> {
+    const attributes: Record<string, unknown> = {};
+    if (data.name !== undefined) attributes.name = data.name;
+    if (data.position !== undefined) attributes.position = data.position;
+
+    const body: Record<string, unknown> = {
+      data: {
+        type: 'task_lists',
+        id,
+        attributes,
+      },
+    };
+
+    if (data.board_id !== undefined) {
+      (body.data as Record<string, unknown>).relationships = {
+        board: { data: { type: 'boards', id: data.board_id } },
+      };
+    }
+
+    return this.request<ProductiveApiResponse<ProductiveTaskList>>(`/task_lists/${id}`, {
+      method: 'PATCH',
+      body,
+    });
+  }
+
+  async archiveTaskList(id: string): Promise<ProductiveApiResponse<ProductiveTaskList>> {
+    return this.request<ProductiveApiResponse<ProductiveTaskList>>(`/task_lists/${id}/archive`, {
+      method: 'PATCH',
+    });
+  }
+
+  async restoreTaskList(id: string): Promise<ProductiveApiResponse<ProductiveTaskList>> {
+    return this.request<ProductiveApiResponse<ProductiveTaskList>>(`/task_lists/${id}/restore`, {
+      method: 'PATCH',
+    });
+  }
+
+  // Boards
+  async getBoards(params?: {
+    page?: number;
+    perPage?: number;
+    filter?: Record<string, string>;
+    sort?: string;
+    include?: string[];
+  }): Promise<ProductiveApiResponse<ProductiveBoard[]>> {
+    const query = buildListQuery(params);
+
+    return this.request<ProductiveApiResponse<ProductiveBoard[]>>('/boards', { query });
+  }
+
+  async getBoard(
+    id: string,
+    params?: { include?: string[] },
+  ): Promise<ProductiveApiResponse<ProductiveBoard>> {
+    const query = buildListQuery(params);
+    return this.request<ProductiveApiResponse<ProductiveBoard>>(`/boards/${id}`, { query });
+  }
+
+  async createBoard(data: {
+    name: string;
+    project_id: string;
+    position?: number;
+  }): Promise<ProductiveApiResponse<ProductiveBoard>> {
+    const attributes: Record<string, unknown> = { name: data.name };
+    if (data.position !== undefined) attributes.position = data.position;
+
+    return this.request<ProductiveApiResponse<ProductiveBoard>>('/boards', {
+      method: 'POST',
+      body: {
+        data: {
+          type: 'boards',
+          attributes,
+          relationships: {
+            project: { data: { type: 'projects', id: data.project_id } },
+          },
+        },
+      },
+    });
+  }
+
+  async updateBoard(
+    id: string,
+    data: {
+      name?: string;
+      position?: number;
+    },
+  ): Promise<ProductiveApiResponse<ProductiveBoard>> {
+    const attributes: Record<string, unknown> = {};
+    if (data.name !== undefined) attributes.name = data.name;
+    if (data.position !== undefined) attributes.position = data.position;
+
+    return this.request<ProductiveApiResponse<ProductiveBoard>>(`/boards/${id}`, {
+      method: 'PATCH',
+      body: {
+        data: {
+          type: 'boards',
+          id,
+          attributes,
+        },
+      },
+    });
+  }
+
+  async archiveBoard(id: string): Promise<ProductiveApiResponse<ProductiveBoard>> {
+    return this.request<ProductiveApiResponse<ProductiveBoard>>(`/boards/${id}/archive`, {
+      method: 'PATCH',
+    });
+  }
+
+  async restoreBoard(id: string): Promise<ProductiveApiResponse<ProductiveBoard>> {
+    return this.request<ProductiveApiResponse<ProductiveBoard>>(`/boards/${id}/restore`, {
+      method: 'PATCH',
+    });
+  }
+
+  // Workflow Statuses
+  async getWorkflowStatuses(params?: {
+    page?: number;
+    perPage?: number;
+    filter?: Record<string, string>;
+    sort?: string;
+    include?: string[];
+  }): Promise<ProductiveApiResponse<ProductiveWorkflowStatus[]>> {
+    const query = buildListQuery(params);
+
+    return this.request<ProductiveApiResponse<ProductiveWorkflowStatus[]>>('/workflow_statuses', {
+      query,
+    });
+  }
+
+  async getWorkflowStatus(
+    id: string,
+    params?: { include?: string[] },
+  ): Promise<ProductiveApiResponse<ProductiveWorkflowStatus>> {
+    const query = buildListQuery(params);
+    return this.request<ProductiveApiResponse<ProductiveWorkflowStatus>>(
+      `/workflow_statuses/${id}`,
+      { query },
+    );
+  }
+
+  async createWorkflowStatus(data: {
+    name: string;
+    workflow_id: string;
+    category_id: number;
+    position?: number;
+    color_id?: number;
+  }): Promise<ProductiveApiResponse<ProductiveWorkflowStatus>> {
+    const attributes: Record<string, unknown> = {
+      name: data.name,
+      category_id: data.category_id,
+    };
+    if (data.position !== undefined) attributes.position = data.position;
+    if (data.color_id !== undefined) attributes.color_id = data.color_id;
+
+    return this.request<ProductiveApiResponse<ProductiveWorkflowStatus>>('/workflow_statuses', {
+      method: 'POST',
+      body: {
+        data: {
+          type: 'workflow_statuses',
+          attributes,
+          relationships: {
+            workflow: { data: { type: 'workflows', id: data.workflow_id } },
+          },
+        },
+      },
+    });
+  }
+
+  async updateWorkflowStatus(
+    id: string,
+    data: {
+      name?: string;
+      category_id?: number;
+      position?: number;
+      color_id?: number;
+    },
+  ): Promise<ProductiveApiResponse<ProductiveWorkflowStatus>> {
+    const attributes: Record<string, unknown> = {};
+    if (data.name !== undefined) attributes.name = data.name;
+    if (data.category_id !== undefined) attributes.category_id = data.category_id;
+    if (data.position !== undefined) attributes.position = data.position;
+    if (data.color_id !== undefined) attributes.color_id = data.color_id;
+
+    return this.request<ProductiveApiResponse<ProductiveWorkflowStatus>>(
+      `/workflow_statuses/${id}`,
+      {
+        method: 'PATCH',
+        body: {
+          data: {
+            type: 'workflow_statuses',
+            id,
+            attributes,
+          },
+        },
+      },
+    );
+  }
+
   // People
   async getPeople(params?: {
     page?: number;
@@ -781,7 +1273,7 @@ export class ProductiveApi {
 
     const attributes: Record<string, unknown> = {
       name: data.name,
-      date: data.date || new Date().toISOString().split('T')[0],
+      date: data.date || todayInTimezone(this.timezone),
       budget: data.budget || false,
     };
     if (data.end_date !== undefined) attributes.end_date = data.end_date;
@@ -942,6 +1434,59 @@ export class ProductiveApi {
     });
   }
 
+  // Events (absence categories)
+  async getEvents(params?: {
+    page?: number;
+    perPage?: number;
+    filter?: Record<string, string>;
+    sort?: string;
+  }): Promise<ProductiveApiResponse<ProductiveEvent[]>> {
+    const query = buildListQuery(params);
+    return this.request<ProductiveApiResponse<ProductiveEvent[]>>('/events', { query });
+  }
+
+  // Holidays
+  async getHolidayCalendars(params?: {
+    page?: number;
+    perPage?: number;
+    filter?: Record<string, string>;
+    sort?: string;
+  }): Promise<ProductiveApiResponse<ProductiveHolidayCalendar[]>> {
+    const query = buildListQuery(params);
+    return this.request<ProductiveApiResponse<ProductiveHolidayCalendar[]>>('/holiday_calendars', {
+      query,
+    });
+  }
+
+  async getHolidayCalendar(id: string): Promise<ProductiveApiResponse<ProductiveHolidayCalendar>> {
+    return this.request<ProductiveApiResponse<ProductiveHolidayCalendar>>(
+      `/holiday_calendars/${id}`,
+    );
+  }
+
+  async getHolidays(params?: {
+    page?: number;
+    perPage?: number;
+    filter?: Record<string, string>;
+    sort?: string;
+    include?: string[];
+  }): Promise<ProductiveApiResponse<ProductiveHoliday[]>> {
+    const query = buildListQuery(params);
+    return this.request<ProductiveApiResponse<ProductiveHoliday[]>>('/holidays', { query });
+  }
+
+  // Salaries (working schedule / capacity)
+  async getSalaries(params?: {
+    page?: number;
+    perPage?: number;
+    filter?: Record<string, string>;
+    sort?: string;
+    include?: string[];
+  }): Promise<ProductiveApiResponse<ProductiveSalary[]>> {
+    const query = buildListQuery(params);
+    return this.request<ProductiveApiResponse<ProductiveSalary[]>>('/salaries', { query });
+  }
+
   // Attachments
   async getAttachments(params?: {
     page?: number;
@@ -1156,6 +1701,248 @@ export class ProductiveApi {
     });
   }
 
+  // Invoices
+  async getInvoices(params?: {
+    page?: number;
+    perPage?: number;
+    filter?: Record<string, string>;
+    sort?: string;
+    include?: string[];
+  }): Promise<ProductiveApiResponse<ProductiveInvoice[]>> {
+    const query = buildListQuery(params);
+
+    return this.request<ProductiveApiResponse<ProductiveInvoice[]>>('/invoices', { query });
+  }
+
+  async getInvoice(
+    id: string,
+    params?: { include?: string[] },
+  ): Promise<ProductiveApiResponse<ProductiveInvoice>> {
+    const query = buildListQuery(params);
+    return this.request<ProductiveApiResponse<ProductiveInvoice>>(`/invoices/${id}`, { query });
+  }
+
+  async createInvoice(data: {
+    company_id: string;
+    document_type_id?: string;
+    subsidiary_id?: string;
+    invoiced_on?: string;
+    pay_on?: string;
+    currency?: string;
+    subject?: string;
+    note?: string;
+  }): Promise<ProductiveApiResponse<ProductiveInvoice>> {
+    const relationships: Record<string, { data: { type: string; id: string } }> = {
+      company: { data: { type: 'companies', id: data.company_id } },
+    };
+
+    if (data.document_type_id) {
+      relationships.document_type = {
+        data: { type: 'document_types', id: data.document_type_id },
+      };
+    }
+    if (data.subsidiary_id) {
+      relationships.subsidiary = { data: { type: 'subsidiaries', id: data.subsidiary_id } };
+    }
+
+    const attributes: Record<string, unknown> = {
+      invoiced_on: data.invoiced_on || todayInTimezone(this.timezone),
+    };
+    if (data.pay_on !== undefined) attributes.pay_on = data.pay_on;
+    if (data.currency !== undefined) attributes.currency = data.currency;
+    if (data.subject !== undefined) attributes.subject = data.subject;
+    if (data.note !== undefined) attributes.note = data.note;
+
+    return this.request<ProductiveApiResponse<ProductiveInvoice>>('/invoices', {
+      method: 'POST',
+      body: {
+        data: {
+          type: 'invoices',
+          attributes,
+          relationships,
+        },
+      },
+    });
+  }
+
+  async updateInvoice(
+    id: string,
+    data: {
+      subject?: string;
+      invoiced_on?: string;
+      pay_on?: string;
+      delivery_on?: string;
+      currency?: string;
+      note?: string;
+      footer?: string;
+    },
+  ): Promise<ProductiveApiResponse<ProductiveInvoice>> {
+    const attributes: Record<string, unknown> = {};
+    if (data.subject !== undefined) attributes.subject = data.subject;
+    if (data.invoiced_on !== undefined) attributes.invoiced_on = data.invoiced_on;
+    if (data.pay_on !== undefined) attributes.pay_on = data.pay_on;
+    if (data.delivery_on !== undefined) attributes.delivery_on = data.delivery_on;
+    if (data.currency !== undefined) attributes.currency = data.currency;
+    if (data.note !== undefined) attributes.note = data.note;
+    if (data.footer !== undefined) attributes.footer = data.footer;
+
+    return this.request<ProductiveApiResponse<ProductiveInvoice>>(`/invoices/${id}`, {
+      method: 'PATCH',
+      body: {
+        data: {
+          type: 'invoices',
+          id,
+          attributes,
+        },
+      },
+    });
+  }
+
+  async finalizeInvoice(id: string): Promise<ProductiveApiResponse<ProductiveInvoice>> {
+    return this.request<ProductiveApiResponse<ProductiveInvoice>>(`/invoices/${id}/finalize`, {
+      method: 'PATCH',
+    });
+  }
+
+  // Line Items
+  async getLineItems(params?: {
+    page?: number;
+    perPage?: number;
+    filter?: Record<string, string>;
+    sort?: string;
+    include?: string[];
+  }): Promise<ProductiveApiResponse<ProductiveLineItem[]>> {
+    const query = buildListQuery(params);
+
+    return this.request<ProductiveApiResponse<ProductiveLineItem[]>>('/line_items', { query });
+  }
+
+  // Expenses
+  async getExpenses(params?: {
+    page?: number;
+    perPage?: number;
+    filter?: Record<string, string>;
+    sort?: string;
+    include?: string[];
+  }): Promise<ProductiveApiResponse<ProductiveExpense[]>> {
+    const query = buildListQuery(params);
+
+    return this.request<ProductiveApiResponse<ProductiveExpense[]>>('/expenses', { query });
+  }
+
+  async getExpense(
+    id: string,
+    params?: { include?: string[] },
+  ): Promise<ProductiveApiResponse<ProductiveExpense>> {
+    const query = buildListQuery(params);
+    return this.request<ProductiveApiResponse<ProductiveExpense>>(`/expenses/${id}`, { query });
+  }
+
+  async createExpense(data: {
+    name: string;
+    amount: number;
+    date?: string;
+    currency?: string;
+    deal_id?: string;
+    service_id?: string;
+    person_id?: string;
+    reimbursable?: boolean;
+  }): Promise<ProductiveApiResponse<ProductiveExpense>> {
+    const relationships: Record<string, { data: { type: string; id: string } }> = {};
+
+    if (data.deal_id) {
+      relationships.deal = { data: { type: 'deals', id: data.deal_id } };
+    }
+    if (data.service_id) {
+      relationships.service = { data: { type: 'services', id: data.service_id } };
+    }
+    if (data.person_id) {
+      relationships.person = { data: { type: 'people', id: data.person_id } };
+    }
+
+    const attributes: Record<string, unknown> = {
+      name: data.name,
+      amount: data.amount,
+      date: data.date || todayInTimezone(this.timezone),
+    };
+    if (data.currency !== undefined) attributes.currency = data.currency;
+    if (data.reimbursable !== undefined) attributes.reimbursable = data.reimbursable;
+
+    return this.request<ProductiveApiResponse<ProductiveExpense>>('/expenses', {
+      method: 'POST',
+      body: {
+        data: {
+          type: 'expenses',
+          attributes,
+          relationships,
+        },
+      },
+    });
+  }
+
+  async updateExpense(
+    id: string,
+    data: {
+      name?: string;
+      amount?: number;
+      date?: string;
+      currency?: string;
+      service_id?: string;
+      reimbursable?: boolean;
+    },
+  ): Promise<ProductiveApiResponse<ProductiveExpense>> {
+    const attributes: Record<string, unknown> = {};
+    if (data.name !== undefined) attributes.name = data.name;
+    if (data.amount !== undefined) attributes.amount = data.amount;
+    if (data.date !== undefined) attributes.date = data.date;
+    if (data.currency !== undefined) attributes.currency = data.currency;
+    if (data.reimbursable !== undefined) attributes.reimbursable = data.reimbursable;
+
+    const body: Record<string, unknown> = {
+      data: {
+        type: 'expenses',
+        id,
+        attributes,
+      },
+    };
+
+    if (data.service_id !== undefined) {
+      (body.data as Record<string, unknown>).relationships = {
+        service: { data: { type: 'services', id: data.service_id } },
+      };
+    }
+
+    return this.request<ProductiveApiResponse<ProductiveExpense>>(`/expenses/${id}`, {
+      method: 'PATCH',
+      body,
+    });
+  }
+
+  async approveExpense(id: string): Promise<ProductiveApiResponse<ProductiveExpense>> {
+    return this.request<ProductiveApiResponse<ProductiveExpense>>(`/expenses/${id}/approve`, {
+      method: 'PATCH',
+    });
+  }
+
+  async rejectExpense(
+    id: string,
+    reason?: string,
+  ): Promise<ProductiveApiResponse<ProductiveExpense>> {
+    const attributes: Record<string, unknown> = {};
+    if (reason) attributes.rejected_reason = reason;
+
+    return this.request<ProductiveApiResponse<ProductiveExpense>>(`/expenses/${id}/reject`, {
+      method: 'PATCH',
+      body: {
+        data: {
+          type: 'expenses',
+          id,
+          attributes,
+        },
+      },
+    });
+  }
+
   // Reports
   async getReports(
     reportType: string,
@@ -27,6 +27,8 @@ describe('config', () => {
       'PRODUCTIVE_ORG_ID',
       'PRODUCTIVE_USER_ID',
       'PRODUCTIVE_BASE_URL',
+      'PRODUCTIVE_TIMEZONE',
+      'PRODUCTIVE_PROFILE',
     ]) {
       envBackup[key] = process.env[key];
       delete process.env[key];
@@ -52,12 +54,47 @@ describe('config', () => {
       process.env.PRODUCTIVE_ORG_ID = 'env-org';
       process.env.PRODUCTIVE_USER_ID = 'env-user';
       process.env.PRODUCTIVE_BASE_URL = 'https://custom.api';
+      process.env.PRODUCTIVE_TIMEZONE = 'Europe/Paris';
 
       const config = getConfig();
       expect(config.apiToken).toBe('env-token');
       expect(config.organizationId).toBe('env-org');
       expect(config.userId).toBe('env-user');
       expect(config.baseUrl).toBe('https://custom.api');
+      expect(config.timezone).toBe('Europe/Paris');
+    });
+  });
+
+  describe('profiles', () => {
+    beforeEach(() => {
+      clearConfig();
+      setConfig('apiToken', 'default-token');
+      setConfig('apiToken', 'sandbox-token', { profile: 'sandbox' });
+      setConfig('organizationId', '2', { profile: 'sandbox' });
+    });
+
+    it('reads the profile named by PRODUCTIVE_PROFILE', () => {
+      expect(getConfig()).toMatchObject({ apiToken: 'default-token', profile: 'default' });
+
+      process.env.PRODUCTIVE_PROFILE = 'sandbox';
+      expect(getConfig()).toMatchObject({
+        apiToken: 'sandbox-token',
+        organizationId: '2',
+        profile: 'sandbox',
+      });
+    });
+
+    it('writes values into the selected profile', () => {
+      setConfig('userId', '7', { profile: 'sandbox' });
+
+      const written = JSON.parse(String(vi.mocked(writeFileSync).mock.calls.at(-1)![1]));
+      expect(written.profiles.sandbox).toEqual({
+        apiToken: 'sandbox-token',
+        organizationId: '2',
+        userId: '7',
+      });
+      expect(getConfig({ profile: 'sandbox' }).userId).toBe('7');
+      expect(getConfig().userId).toBeUndefined();
     });
   });
 
@@ -8,42 +8,68 @@
 import type { ProductiveConfig } from './types.js';
 
 import { ConfigStore } from './utils/config-store.js';
+import {
+  DEFAULT_PROFILE,
+  patchProfiles,
+  readProfile,
+  resolveProfileName,
+  type ProfileKey,
+  type StoredConfig,
+} from './utils/profiles.js';
 
-const config = new ConfigStore<ProductiveConfig>('productive-cli');
+const config = new ConfigStore<StoredConfig>('productive-cli');
 
 /**
  * Get configuration from multiple sources with priority:
  * 1. Environment variables (highest priority)
- * 2. Config file (lowest priority)
+ * 2. Config file (lowest priority), from the selected profile —
+ *    `options.profile`, `PRODUCTIVE_PROFILE` or the active one
  */
-export function getConfig(): ProductiveConfig {
+export function getConfig(options: { profile?: string } = {}): ProductiveConfig {
+  const profile = resolveProfileName(config.store, options.profile);
+  const stored = readProfile(config.store, profile) ?? {};
+
   return {
-    apiToken: process.env.PRODUCTIVE_API_TOKEN || config.get('apiToken'),
-    organizationId: process.env.PRODUCTIVE_ORG_ID || config.get('organizationId'),
-    userId: process.env.PRODUCTIVE_USER_ID || config.get('userId'),
+    apiToken: process.env.PRODUCTIVE_API_TOKEN || stored.apiToken,
+    organizationId: process.env.PRODUCTIVE_ORG_ID || stored.organizationId,
+    userId: process.env.PRODUCTIVE_USER_ID || stored.userId,
     baseUrl:
-      process.env.PRODUCTIVE_BASE_URL ||
-      config.get('baseUrl') ||
-      'https://api.productive.io/api/v2',
+      process.env.PRODUCTIVE_BASE_URL || stored.baseUrl || 'https://api.productive.io/api/v2',
+    timezone: process.env.PRODUCTIVE_TIMEZONE || stored.timezone,
+    profile,
   };
 }
 
 /**
- * Set a config value in the JSON config file.
+ * Set a config value in the JSON config file, in the selected profile.
  */
-export function setConfig(key: keyof ProductiveConfig, value: string): void {
-  config.set(key, value);
+export function setConfig(
+  key: ProfileKey,
+  value: string,
+  options: { profile?: string } = {},
+): void {
+  const profile = resolveProfileName(config.store, options.profile);
+  if (profile === DEFAULT_PROFILE) {
+    config.set(key, value);
+  } else {
+    config.set('profiles', patchProfiles(config.store, profile, { [key]: value }));
+  }
 }
 
 /**
- * Delete a config value.
+ * Delete a config value from the selected profile.
  */
-export function deleteConfig(key: keyof ProductiveConfig): void {
-  config.delete(key);
+export function deleteConfig(key: ProfileKey, options: { profile?: string } = {}): void {
+  const profile = resolveProfileName(config.store, options.profile);
+  if (profile === DEFAULT_PROFILE) {
+    config.delete(key);
+  } else {
+    config.set('profiles', patchProfiles(config.store, profile, { [key]: undefined }));
+  }
 }
 
 /**
- * Clear all config values.
+ * Clear all config values, including every profile.
  */
 export function clearConfig(): void {
   config.clear();
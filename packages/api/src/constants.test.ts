@@ -9,17 +9,26 @@ import {
   DEAL_STATUS,
   DEAL_TYPE,
   DISCUSSION_STATUS,
+  EXPENSE_APPROVAL_STATUS,
+  ABSENCE_TYPE,
+  BOOKING_METHOD,
+  BOOKING_TYPE,
+  INVOICE_STATUS,
+  INVOICE_TYPE,
   PERSON_STATUS,
   PERSON_TYPE,
   PROJECT_STATUS,
   PROJECT_TYPE,
   SERVICE_BILLING_TYPE,
   SERVICE_BUDGET_STATUS,
+  BOARD_STATUS,
+  TASK_LIST_STATUS,
   TASK_OVERDUE_STATUS,
   TASK_STATUS,
   TIME_BILLING_TYPE,
   TIME_INVOICING_STATUS,
   TIME_STATUS,
+  WORKFLOW_STATUS_CATEGORY,
 } from './constants.js';
 
 describe('createStatusMap', () => {
@@ -138,6 +147,13 @@ describe('resource constants', () => {
   it.each([
     ['TASK_STATUS', TASK_STATUS, { OPEN: '1', CLOSED: '2' }],
     ['TASK_OVERDUE_STATUS', TASK_OVERDUE_STATUS, { NOT_OVERDUE: '1', OVERDUE: '2' }],
+    ['TASK_LIST_STATUS', TASK_LIST_STATUS, { ACTIVE: '1', ARCHIVED: '2' }],
+    ['BOARD_STATUS', BOARD_STATUS, { ACTIVE: '1', ARCHIVED: '2' }],
+    [
+      'WORKFLOW_STATUS_CATEGORY',
+      WORKFLOW_STATUS_CATEGORY,
+      { NOT_STARTED: '1', STARTED: '2', CLOSED: '3' },
+    ],
     ['PROJECT_STATUS', PROJECT_STATUS, { ACTIVE: '1', ARCHIVED: '2' }],
     ['PROJECT_TYPE', PROJECT_TYPE, { INTERNAL: '1', CLIENT: '2' }],
     ['DEAL_STATUS', DEAL_STATUS, { OPEN: '1', WON: '2', LOST: '3' }],
@@ -154,8 +170,18 @@ describe('resource constants', () => {
     ['PERSON_TYPE', PERSON_TYPE, { USER: '1', CONTACT: '2', PLACEHOLDER: '3' }],
     ['COMPANY_STATUS', COMPANY_STATUS, { ACTIVE: '1', ARCHIVED: '2' }],
     ['DISCUSSION_STATUS', DISCUSSION_STATUS, { ACTIVE: '1', RESOLVED: '2' }],
+    ['INVOICE_STATUS', INVOICE_STATUS, { DRAFT: '1', FINALIZED: '2' }],
+    ['INVOICE_TYPE', INVOICE_TYPE, { INVOICE: '1', CREDIT_NOTE: '2' }],
+    [
+      'EXPENSE_APPROVAL_STATUS',
+      EXPENSE_APPROVAL_STATUS,
+      { APPROVED: '1', PENDING: '2', REJECTED: '3' },
+    ],
     ['SERVICE_BUDGET_STATUS', SERVICE_BUDGET_STATUS, { OPEN: '1', DELIVERED: '2' }],
     ['SERVICE_BILLING_TYPE', SERVICE_BILLING_TYPE, { FIXED: '1', ACTUALS: '2', NONE: '3' }],
+    ['BOOKING_TYPE', BOOKING_TYPE, { SERVICE: 'service', EVENT: 'event' }],
+    ['BOOKING_METHOD', BOOKING_METHOD, { PER_DAY: '1', PERCENTAGE: '2', TOTAL_HOURS: '3' }],
+    ['ABSENCE_TYPE', ABSENCE_TYPE, { TIME_OFF: 'time_off', REMOTE_WORK: 'remote_work' }],
   ])('%s has correct forward values', (_name, constant, expected) => {
     for (const [key, value] of Object.entries(expected)) {
       expect((constant as Record<string, string>)[key]).toBe(value);
@@ -132,6 +132,25 @@ export const TASK_OVERDUE_STATUS = createStatusMap({
   OVERDUE: '2',
 } as const);
 
+/** Task list status values (filter[status]) */
+export const TASK_LIST_STATUS = createStatusMap({
+  ACTIVE: '1',
+  ARCHIVED: '2',
+} as const);
+
+/** Board status values (filter[status]) */
+export const BOARD_STATUS = createStatusMap({
+  ACTIVE: '1',
+  ARCHIVED: '2',
+} as const);
+
+/** Workflow status category values — drive the kanban column semantics */
+export const WORKFLOW_STATUS_CATEGORY = createStatusMap({
+  NOT_STARTED: '1',
+  STARTED: '2',
+  CLOSED: '3',
+} as const);
+
 // ---------------------------------------------------------------------------
 // Project
 // ---------------------------------------------------------------------------
@@ -233,6 +252,56 @@ export const DISCUSSION_STATUS = createStatusMap({
   RESOLVED: '2',
 } as const);
 
+// ---------------------------------------------------------------------------
+// Invoice
+// ---------------------------------------------------------------------------
+
+/** Invoice status values (filter[invoice_status]) */
+export const INVOICE_STATUS = createStatusMap({
+  DRAFT: '1',
+  FINALIZED: '2',
+} as const);
+
+/** Invoice type values */
+export const INVOICE_TYPE = createStatusMap({
+  INVOICE: '1',
+  CREDIT_NOTE: '2',
+} as const);
+
+// ---------------------------------------------------------------------------
+// Expense
+// ---------------------------------------------------------------------------
+
+/** Expense approval status values (filter[approval_status]) */
+export const EXPENSE_APPROVAL_STATUS = createStatusMap({
+  APPROVED: '1',
+  PENDING: '2',
+  REJECTED: '3',
+} as const);
+
+// ---------------------------------------------------------------------------
+// Booking / Absence
+// ---------------------------------------------------------------------------
+
+/** Booking type values (filter[booking_type]): project work or absence */
+export const BOOKING_TYPE = createStatusMap({
+  SERVICE: 'service',
+  EVENT: 'event',
+} as const);
+
+/** Booking method values (booking_method_id) */
+export const BOOKING_METHOD = createStatusMap({
+  PER_DAY: '1',
+  PERCENTAGE: '2',
+  TOTAL_HOURS: '3',
+} as const);
+
+/** Absence category of an event (events.absence_type) */
+export const ABSENCE_TYPE = createStatusMap({
+  TIME_OFF: 'time_off',
+  REMOTE_WORK: 'remote_work',
+} as const);
+
 // ---------------------------------------------------------------------------
 // Service (budget line item)
 // ---------------------------------------------------------------------------
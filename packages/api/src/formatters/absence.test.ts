@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest';
+
+import { formatAbsence } from './absence.js';
+
+const absence = {
+  id: '1',
+  type: 'bookings',
+  attributes: {
+    started_on: '2024-08-05',
+    ended_on: '2024-08-09',
+    time: 480,
+    total_time: 2400,
+    percentage: null,
+    booking_method_id: 1,
+    draft: false,
+    approved_at: '2024-07-01T09:00:00Z',
+    rejected_at: null,
+    note: 'Summer break',
+  },
+  relationships: {
+    event: { data: { type: 'events', id: '2' } },
+    person: { data: { type: 'people', id: '3' } },
+  },
+};
+
+describe('formatAbsence', () => {
+  it('formats an approved absence', () => {
+    expect(formatAbsence(absence)).toEqual({
+      id: '1',
+      started_on: '2024-08-05',
+      ended_on: '2024-08-09',
+      time: 480,
+      total_time: 2400,
+      percentage: null,
+      status: 'approved',
+      note: 'Summer break',
+      event_id: '2',
+      person_id: '3',
+    });
+  });
+
+  it('resolves event and person from included resources', () => {
+    const r = formatAbsence(absence, {
+      included: [
+        { id: '2', type: 'events', attributes: { name: 'Vacation', absence_type: 'time_off' } },
+        { id: '3', type: 'people', attributes: { first_name: 'Jane', last_name: 'Doe' } },
+      ],
+    });
+    expect(r.event_name).toBe('Vacation');
+    expect(r.absence_type).toBe('time_off');
+    expect(r.person_name).toBe('Jane Doe');
+  });
+
+  it.each([
+    [{ canceled: true, approved_at: 'x' }, 'canceled'],
+    [{ rejected_at: '2024-07-02T00:00:00Z' }, 'rejected'],
+    [{ draft: true }, 'draft'],
+    [{}, 'pending'],
+  ])('derives the status from %o', (attrs, status) => {
+    const r = formatAbsence({ ...absence, attributes: { started_on: '2024-08-05', ...attrs } });
+    expect(r.status).toBe(status);
+  });
+});
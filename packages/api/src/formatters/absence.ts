@@ -0,0 +1,80 @@
+/**
+ * Formatter for absences — bookings made against an event (time off, remote work)
+ * rather than a service.
+ */
+
+import type { JsonApiResource, FormatOptions } from './types.js';
+
+import { getIncludedResource } from './included.js';
+import { DEFAULT_FORMAT_OPTIONS } from './types.js';
+
+export interface FormattedAbsence {
+  [key: string]: unknown;
+  id: string;
+  started_on: string;
+  ended_on: string;
+  /** Minutes per day, for per-day bookings */
+  time: number | null;
+  /** Total minutes, for total-hours bookings */
+  total_time: number | null;
+  percentage: number | null;
+  status: 'approved' | 'pending' | 'rejected' | 'canceled' | 'draft';
+  note: string | null;
+  event_id?: string;
+  event_name?: string;
+  absence_type?: string;
+  person_id?: string;
+  person_name?: string;
+}
+
+/**
+ * Derive a single status from the booking's approval/cancel/draft attributes
+ */
+function getAbsenceStatus(attrs: Record<string, unknown>): FormattedAbsence['status'] {
+  if (attrs.canceled || attrs.canceled_at) return 'canceled';
+  if (attrs.rejected_at) return 'rejected';
+  if (attrs.draft) return 'draft';
+  if (attrs.approved_at || attrs.approved) return 'approved';
+  return 'pending';
+}
+
+/**
+ * Format an absence booking for output
+ */
+export function formatAbsence(booking: JsonApiResource, options?: FormatOptions): FormattedAbsence {
+  const opts = { ...DEFAULT_FORMAT_OPTIONS, ...options };
+  const attrs = booking.attributes;
+
+  const eventRef = booking.relationships?.event?.data;
+  const eventData = getIncludedResource(opts.included, eventRef?.type, eventRef?.id)?.attributes;
+
+  const personRef = booking.relationships?.person?.data;
+  const personData = getIncludedResource(opts.included, personRef?.type, personRef?.id)?.attributes;
+
+  const result: FormattedAbsence = {
+    id: booking.id,
+    started_on: String(attrs.started_on || ''),
+    ended_on: String(attrs.ended_on || ''),
+    time: attrs.time != null ? Number(attrs.time) : null,
+    total_time: attrs.total_time != null ? Number(attrs.total_time) : null,
+    percentage: attrs.percentage != null ? Number(attrs.percentage) : null,
+    status: getAbsenceStatus(attrs),
+    note: attrs.note ? String(attrs.note) : null,
+  };
+
+  if (opts.includeRelationshipIds) {
+    if (eventRef?.id) result.event_id = eventRef.id;
+    if (personRef?.id) result.person_id = personRef.id;
+  }
+
+  if (eventData) {
+    result.event_name = String(eventData.name || '');
+    if (eventData.absence_type) result.absence_type = String(eventData.absence_type);
+  }
+
+  if (personData) {
+    result.person_name = `${personData.first_name} ${personData.last_name}`;
+  }
+
+  return result;
+}
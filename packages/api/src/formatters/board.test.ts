@@ -0,0 +1,42 @@
+import { describe, it, expect } from 'vitest';
+
+import { formatBoard } from './board.js';
+
+const board = {
+  id: '20',
+  type: 'boards',
+  attributes: {
+    name: 'Development',
+    position: 1,
+    archived_at: null,
+  },
+  relationships: {
+    project: { data: { type: 'projects', id: '100' } },
+  },
+};
+
+describe('formatBoard', () => {
+  it('formats a board', () => {
+    expect(formatBoard(board)).toMatchObject({
+      id: '20',
+      name: 'Development',
+      position: 1,
+      archived: false,
+      archived_at: null,
+      project_id: '100',
+    });
+  });
+
+  it('marks archived boards', () => {
+    const r = formatBoard({ ...board, attributes: { name: 'Old', archived_at: '2024-02-01' } });
+    expect(r.archived).toBe(true);
+    expect(r.position).toBeNull();
+  });
+
+  it('resolves the project name from included resources', () => {
+    const r = formatBoard(board, {
+      included: [{ id: '100', type: 'projects', attributes: { name: 'Website' } }],
+    });
+    expect(r.project_name).toBe('Website');
+  });
+});
@@ -0,0 +1,63 @@
+/**
+ * Formatter for Board resources
+ */
+
+import type { JsonApiResource, FormatOptions } from './types.js';
+
+import { applyIncluded, getIncludedResource } from './included.js';
+import { DEFAULT_FORMAT_OPTIONS } from './types.js';
+
+export interface FormattedBoard {
+  [key: string]: unknown;
+  id: string;
+  name: string;
+  position: number | null;
+  archived: boolean;
+  archived_at: string | null;
+  project_id?: string;
+  project_name?: string;
+  created_at?: string;
+  updated_at?: string;
+}
+
+/**
+ * Format a Board resource for output
+ */
+export function formatBoard(board: JsonApiResource, options?: FormatOptions): FormattedBoard {
+  const opts = { ...DEFAULT_FORMAT_OPTIONS, ...options };
+  const attrs = board.attributes;
+
+  const projectRef = board.relationships?.project?.data;
+  const projectData = getIncludedResource(
+    opts.included,
+    projectRef?.type,
+    projectRef?.id,
+  )?.attributes;
+
+  const position = attrs.position ?? attrs.placement;
+
+  const result: FormattedBoard = {
+    id: board.id,
+    name: String(attrs.name || ''),
+    position: position !== undefined && position !== null ? Number(position) : null,
+    archived: Boolean(attrs.archived_at),
+    archived_at: attrs.archived_at ? String(attrs.archived_at) : null,
+  };
+
+  if (opts.includeRelationshipIds && projectRef?.id) {
+    result.project_id = projectRef.id;
+  }
+
+  if (projectData) {
+    result.project_name = String(projectData.name || '');
+  }
+
+  if (opts.includeTimestamps) {
+    result.created_at = attrs.created_at ? String(attrs.created_at) : undefined;
+    result.updated_at = attrs.updated_at ? String(attrs.updated_at) : undefined;
+  }
+
+  applyIncluded(result, board, opts.included);
+
+  return result;
+}
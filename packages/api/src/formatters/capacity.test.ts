@@ -0,0 +1,62 @@
+import { describe, it, expect } from 'vitest';
+
+import { formatCapacity } from './capacity.js';
+
+const salary = {
+  id: '1',
+  type: 'salaries',
+  attributes: {
+    started_on: '2024-01-01',
+    ended_on: null,
+    working_hours: [480, 480, 480, 480, 240, 0, 0],
+    cost: 5000,
+    currency: 'EUR',
+  },
+  relationships: {
+    person: { data: { type: 'people', id: '7' } },
+    holiday_calendar: { data: { type: 'holiday_calendars', id: '3' } },
+  },
+};
+
+describe('formatCapacity', () => {
+  it('formats the working schedule without cost data', () => {
+    expect(formatCapacity(salary)).toEqual({
+      id: '1',
+      started_on: '2024-01-01',
+      ended_on: null,
+      working_minutes: {
+        monday: 480,
+        tuesday: 480,
+        wednesday: 480,
+        thursday: 480,
+        friday: 240,
+        saturday: 0,
+        sunday: 0,
+      },
+      weekly_minutes: 2160,
+      person_id: '7',
+      holiday_calendar_id: '3',
+    });
+  });
+
+  it('resolves person and calendar from included resources', () => {
+    const r = formatCapacity(salary, {
+      included: [
+        { id: '7', type: 'people', attributes: { first_name: 'Jane', last_name: 'Doe' } },
+        { id: '3', type: 'holiday_calendars', attributes: { name: 'France' } },
+      ],
+    });
+    expect(r.person_name).toBe('Jane Doe');
+    expect(r.holiday_calendar_name).toBe('France');
+  });
+
+  it('includes the alternating schedule and tolerates a missing one', () => {
+    const alternating = formatCapacity({
+      ...salary,
+      attributes: { started_on: '2024-01-01', alternating_hours: [0, 480, 480, 480, 480] },
+    });
+    expect(alternating.weekly_minutes).toBe(0);
+    expect(alternating.alternating_minutes?.monday).toBe(0);
+    expect(alternating.alternating_minutes?.friday).toBe(480);
+  });
+});
@@ -0,0 +1,97 @@
+/**
+ * Formatter for person capacity, read from salary records.
+ *
+ * Salaries hold the working schedule of a person for a period; cost fields are
+ * deliberately left out of the output.
+ */
+
+import type { JsonApiResource, FormatOptions } from './types.js';
+
+import { getIncludedResource } from './included.js';
+import { DEFAULT_FORMAT_OPTIONS } from './types.js';
+
+const WEEKDAYS = [
+  'monday',
+  'tuesday',
+  'wednesday',
+  'thursday',
+  'friday',
+  'saturday',
+  'sunday',
+] as const;
+
+export type Weekday = (typeof WEEKDAYS)[number];
+
+export interface FormattedCapacity {
+  [key: string]: unknown;
+  id: string;
+  started_on: string;
+  ended_on: string | null;
+  /** Working minutes per weekday */
+  working_minutes: Record<Weekday, number>;
+  weekly_minutes: number;
+  /** Working minutes per weekday of alternate weeks, when the schedule alternates */
+  alternating_minutes?: Record<Weekday, number>;
+  person_id?: string;
+  person_name?: string;
+  holiday_calendar_id?: string;
+  holiday_calendar_name?: string;
+}
+
+function toWeekdayMinutes(hours: unknown[]): Record<Weekday, number> {
+  return Object.fromEntries(
+    WEEKDAYS.map((day, index) => [day, Number(hours[index] ?? 0) || 0]),
+  ) as Record<Weekday, number>;
+}
+
+/**
+ * Format a Salary resource as a capacity record for output
+ */
+export function formatCapacity(
+  salary: JsonApiResource,
+  options?: FormatOptions,
+): FormattedCapacity {
+  const opts = { ...DEFAULT_FORMAT_OPTIONS, ...options };
+  const attrs = salary.attributes;
+
+  const personRef = salary.relationships?.person?.data;
+  const personData = getIncludedResource(opts.included, personRef?.type, personRef?.id)?.attributes;
+
+  const calendarRef = salary.relationships?.holiday_calendar?.data;
+  const calendarData = getIncludedResource(
+    opts.included,
+    calendarRef?.type,
+    calendarRef?.id,
+  )?.attributes;
+
+  const workingMinutes = toWeekdayMinutes(
+    Array.isArray(attrs.working_hours) ? attrs.working_hours : [],
+  );
+
+  const result: FormattedCapacity = {
+    id: salary.id,
+    started_on: String(attrs.started_on || ''),
+    ended_on: attrs.ended_on ? String(attrs.ended_on) : null,
+    working_minutes: workingMinutes,
+    weekly_minutes: Object.values(workingMinutes).reduce((sum, minutes) => sum + minutes, 0),
+  };
+
+  if (Array.isArray(attrs.alternating_hours) && attrs.alternating_hours.length > 0) {
+    result.alternating_minutes = toWeekdayMinutes(attrs.alternating_hours);
+  }
+
+  if (opts.includeRelationshipIds) {
+    if (personRef?.id) result.person_id = personRef.id;
+    if (calendarRef?.id) result.holiday_calendar_id = calendarRef.id;
+  }
+
+  if (personData) {
+    result.person_name = `${personData.first_name} ${personData.last_name}`;
+  }
+
+  if (calendarData) {
+    result.holiday_calendar_name = String(calendarData.name || '');
+  }
+
+  return result;
+}
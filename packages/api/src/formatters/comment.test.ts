@@ -41,6 +41,20 @@ describe('formatComment', () => {
     expect(r.body).toBe('<p>Great work!</p>');
   });
 
+  it('renders the body as Markdown when enabled', () => {
+    const r = formatComment(
+      {
+        ...fullComment,
+        attributes: {
+          ...fullComment.attributes,
+          body: '<p>Thanks [person]{"id":"10","type":"person","label":"Jane Doe"}[/person]!</p>',
+        },
+      },
+      { markdown: true },
+    );
+    expect(r.body).toBe('Thanks @[Jane Doe](person:10)!');
+  });
+
   it('handles unpinned comment', () => {
     const r = formatComment({
       ...fullComment,
@@ -5,6 +5,7 @@
 import type { JsonApiResource, FormatOptions } from './types.js';
 
 import { stripHtml } from '../utils/html.js';
+import { htmlToMarkdown } from '../utils/markdown.js';
 import { DEFAULT_FORMAT_OPTIONS } from './types.js';
 
 export interface FormattedComment {
@@ -44,9 +45,10 @@ export function formatComment(comment: JsonApiResource, options?: FormatOptions)
   const creatorId = comment.relationships?.creator?.data?.id;
   const creatorData = getIncludedResource(opts.included, 'people', creatorId);
 
+  const bodyRaw = String(attrs.body || '');
   const result: FormattedComment = {
     id: comment.id,
-    body: opts.stripHtml ? stripHtml(String(attrs.body || '')) : String(attrs.body || ''),
+    body: opts.markdown ? htmlToMarkdown(bodyRaw) : opts.stripHtml ? stripHtml(bodyRaw) : bodyRaw,
     commentable_type: String(attrs.commentable_type || ''),
     draft: Boolean(attrs.draft),
     pinned: !!attrs.pinned_at,
@@ -0,0 +1,100 @@
+import { describe, it, expect } from 'vitest';
+
+import type { JsonApiResource } from './types.js';
+
+import { formatExpense } from './expense.js';
+
+const expense = {
+  id: '1',
+  type: 'expenses',
+  attributes: {
+    name: 'Train ticket',
+    date: '2024-01-15',
+    currency: 'EUR',
+    amount: '4500',
+    amount_with_tax: '5400',
+    reimbursable: true,
+    approved: false,
+    rejected: false,
+    rejected_reason: null,
+    invoiced: false,
+    created_at: '2024-01-15T10:00:00Z',
+    updated_at: '2024-01-16T10:00:00Z',
+  },
+  relationships: {
+    deal: { data: { type: 'deals', id: '5' } },
+    service: { data: { type: 'services', id: '6' } },
+    person: { data: { type: 'people', id: '7' } },
+  },
+};
+
+describe('formatExpense', () => {
+  it('formats a pending expense with amounts in currency units', () => {
+    const r = formatExpense(expense);
+    expect(r).toMatchObject({
+      id: '1',
+      name: 'Train ticket',
+      date: '2024-01-15',
+      currency: 'EUR',
+      amount: 45,
+      amount_with_tax: 54,
+      reimbursable: true,
+      status: 'pending',
+      rejected_reason: null,
+      invoiced: false,
+      receipt_count: 0,
+      deal_id: '5',
+      service_id: '6',
+      person_id: '7',
+      created_at: '2024-01-15T10:00:00Z',
+    });
+  });
+
+  it('derives approved and rejected status', () => {
+    const approved = { ...expense, attributes: { ...expense.attributes, approved: true } };
+    expect(formatExpense(approved).status).toBe('approved');
+
+    const rejected = {
+      ...expense,
+      attributes: { ...expense.attributes, rejected: true, rejected_reason: 'No receipt' },
+    };
+    const r = formatExpense(rejected);
+    expect(r.status).toBe('rejected');
+    expect(r.rejected_reason).toBe('No receipt');
+  });
+
+  it('counts attached receipts', () => {
+    const withReceipts = {
+      ...expense,
+      relationships: {
+        ...expense.relationships,
+        attachments: {
+          data: [
+            { type: 'attachments', id: '100' },
+            { type: 'attachments', id: '101' },
+          ],
+        },
+      },
+    };
+    expect(formatExpense(withReceipts as unknown as JsonApiResource).receipt_count).toBe(2);
+  });
+
+  it('resolves deal, service and person names from included', () => {
+    const r = formatExpense(expense, {
+      included: [
+        { id: '5', type: 'deals', attributes: { name: 'Website' } },
+        { id: '6', type: 'services', attributes: { name: 'Travel' } },
+        { id: '7', type: 'people', attributes: { first_name: 'Ada', last_name: 'Lovelace' } },
+      ],
+    });
+    expect(r.deal_name).toBe('Website');
+    expect(r.service_name).toBe('Travel');
+    expect(r.person_name).toBe('Ada Lovelace');
+  });
+
+  it('respects format options', () => {
+    const r = formatExpense(expense, { includeRelationshipIds: false, includeTimestamps: false });
+    expect(r.deal_id).toBeUndefined();
+    expect(r.created_at).toBeUndefined();
+  });
+});
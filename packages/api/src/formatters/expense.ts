@@ -0,0 +1,107 @@
+/**
+ * Formatter for Expense resources
+ */
+
+import type { JsonApiResource, FormatOptions } from './types.js';
+
+import { applyIncluded, getIncludedResource } from './included.js';
+import { centsToAmount } from './invoice.js';
+import { DEFAULT_FORMAT_OPTIONS } from './types.js';
+
+export interface FormattedExpense {
+  [key: string]: unknown;
+  id: string;
+  name: string;
+  date: string;
+  currency: string | null;
+  amount: number | null;
+  amount_with_tax: number | null;
+  reimbursable: boolean;
+  status: 'pending' | 'approved' | 'rejected';
+  rejected_reason: string | null;
+  invoiced: boolean;
+  receipt_count: number;
+  deal_id?: string;
+  deal_name?: string;
+  service_id?: string;
+  service_name?: string;
+  person_id?: string;
+  person_name?: string;
+  created_at?: string;
+  updated_at?: string;
+}
+
+/**
+ * Derive the approval status from the expense flags
+ */
+function getExpenseStatus(attrs: Record<string, unknown>): FormattedExpense['status'] {
+  if (attrs.rejected) return 'rejected';
+  if (attrs.approved) return 'approved';
+  return 'pending';
+}
+
+/**
+ * Format an Expense resource for output
+ */
+export function formatExpense(expense: JsonApiResource, options?: FormatOptions): FormattedExpense {
+  const opts = { ...DEFAULT_FORMAT_OPTIONS, ...options };
+  const attrs = expense.attributes;
+
+  // Get related resources from includes
+  const dealRef = expense.relationships?.deal?.data;
+  const dealData = getIncludedResource(opts.included, dealRef?.type, dealRef?.id)?.attributes;
+
+  const serviceRef = expense.relationships?.service?.data;
+  const serviceData = getIncludedResource(
+    opts.included,
+    serviceRef?.type,
+    serviceRef?.id,
+  )?.attributes;
+
+  const personRef = expense.relationships?.person?.data;
+  const personData = getIncludedResource(opts.included, personRef?.type, personRef?.id)?.attributes;
+
+  // Receipts are uploaded as attachments on the expense
+  const receipts = expense.relationships?.attachments?.data;
+
+  const result: FormattedExpense = {
+    id: expense.id,
+    name: String(attrs.name || ''),
+    date: String(attrs.date || ''),
+    currency: attrs.currency ? String(attrs.currency) : null,
+    amount: centsToAmount(attrs.amount),
+    amount_with_tax: centsToAmount(attrs.amount_with_tax),
+    reimbursable: Boolean(attrs.reimbursable),
+    status: getExpenseStatus(attrs),
+    rejected_reason: attrs.rejected_reason ? String(attrs.rejected_reason) : null,
+    invoiced: Boolean(attrs.invoiced),
+    receipt_count: Array.isArray(receipts) ? receipts.length : 0,
+  };
+
+  if (opts.includeRelationshipIds) {
+    if (dealRef?.id) result.deal_id = dealRef.id;
+    if (serviceRef?.id) result.service_id = serviceRef.id;
+    if (personRef?.id) result.person_id = personRef.id;
+  }
+
+  if (dealData) {
+    result.deal_name = String(dealData.name || '');
+  }
+
+  if (serviceData) {
+    result.service_name = String(serviceData.name || '');
+  }
+
+  if (personData) {
+    result.person_name = `${personData.first_name} ${personData.last_name}`;
+  }
+
+  if (opts.includeTimestamps) {
+    result.created_at = attrs.created_at ? String(attrs.created_at) : undefined;
+    result.updated_at = attrs.updated_at ? String(attrs.updated_at) : undefined;
+  }
+
+  applyIncluded(result, expense, opts.included);
+
+  return result;
+}
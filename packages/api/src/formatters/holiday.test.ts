@@ -0,0 +1,51 @@
+import { describe, it, expect } from 'vitest';
+
+import { formatHoliday, formatHolidayCalendar } from './holiday.js';
+
+const holiday = {
+  id: '1',
+  type: 'holidays',
+  attributes: { name: 'Bastille Day', date: '2024-07-14' },
+  relationships: { holiday_calendar: { data: { type: 'holiday_calendars', id: '3' } } },
+};
+
+describe('formatHoliday', () => {
+  it('formats a holiday', () => {
+    expect(formatHoliday(holiday)).toEqual({
+      id: '1',
+      name: 'Bastille Day',
+      date: '2024-07-14',
+      holiday_calendar_id: '3',
+    });
+  });
+
+  it('resolves the calendar name from included resources', () => {
+    const r = formatHoliday(holiday, {
+      included: [{ id: '3', type: 'holiday_calendars', attributes: { name: 'France' } }],
+    });
+    expect(r.holiday_calendar_name).toBe('France');
+  });
+
+  it('omits the calendar id when relationship IDs are disabled', () => {
+    const r = formatHoliday(holiday, { includeRelationshipIds: false });
+    expect(r.holiday_calendar_id).toBeUndefined();
+  });
+});
+
+describe('formatHolidayCalendar', () => {
+  it('formats a holiday calendar', () => {
+    expect(
+      formatHolidayCalendar({
+        id: '3',
+        type: 'holiday_calendars',
+        attributes: { name: 'France', country: 'FR', state: null, autogenerate_holidays: true },
+      }),
+    ).toEqual({
+      id: '3',
+      name: 'France',
+      country: 'FR',
+      state: null,
+      autogenerate_holidays: true,
+    });
+  });
+});
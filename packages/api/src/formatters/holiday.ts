@@ -0,0 +1,72 @@
+/**
+ * Formatters for Holiday and Holiday Calendar resources
+ */
+
+import type { JsonApiResource, FormatOptions } from './types.js';
+
+import { getIncludedResource } from './included.js';
+import { DEFAULT_FORMAT_OPTIONS } from './types.js';
+
+export interface FormattedHoliday {
+  [key: string]: unknown;
+  id: string;
+  name: string;
+  date: string;
+  holiday_calendar_id?: string;
+  holiday_calendar_name?: string;
+}
+
+export interface FormattedHolidayCalendar {
+  [key: string]: unknown;
+  id: string;
+  name: string;
+  country: string | null;
+  state: string | null;
+  autogenerate_holidays: boolean;
+}
+
+/**
+ * Format a Holiday resource for output
+ */
+export function formatHoliday(holiday: JsonApiResource, options?: FormatOptions): FormattedHoliday {
+  const opts = { ...DEFAULT_FORMAT_OPTIONS, ...options };
+  const attrs = holiday.attributes;
+
+  const calendarRef = holiday.relationships?.holiday_calendar?.data;
+  const calendarData = getIncludedResource(
+    opts.included,
+    calendarRef?.type,
+    calendarRef?.id,
+  )?.attributes;
+
+  const result: FormattedHoliday = {
+    id: holiday.id,
+    name: String(attrs.name || ''),
+    date: String(attrs.date || ''),
+  };
+
+  if (opts.includeRelationshipIds && calendarRef?.id) {
+    result.holiday_calendar_id = calendarRef.id;
+  }
+
+  if (calendarData) {
+    result.holiday_calendar_name = String(calendarData.name || '');
+  }
+
+  return result;
+}
+
+/**
+ * Format a Holiday Calendar resource for output
+ */
+export function formatHolidayCalendar(calendar: JsonApiResource): FormattedHolidayCalendar {
+  const attrs = calendar.attributes;
+
+  return {
+    id: calendar.id,
+    name: String(attrs.name || ''),
+    country: attrs.country ? String(attrs.country) : null,
+    state: attrs.state ? String(attrs.state) : null,
+    autogenerate_holidays: Boolean(attrs.autogenerate_holidays),
+  };
+}
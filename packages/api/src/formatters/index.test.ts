@@ -118,6 +118,12 @@ describe('formatResponse', () => {
       'attachments',
       'pages',
       'discussions',
+      'invoices',
+      'line_items',
+      'expenses',
+      'task_lists',
+      'boards',
+      'workflow_statuses',
     ];
     for (const type of types) {
       const r = formatResponse({ data: [{ id: '1', type, attributes: {} }] }) as {
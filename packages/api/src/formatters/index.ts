@@ -28,6 +28,15 @@ export type { FormattedBooking } from './booking.js';
 export type { FormattedAttachment } from './attachment.js';
 export type { FormattedPage } from './page.js';
 export type { FormattedDiscussion } from './discussion.js';
+export type { FormattedInvoice } from './invoice.js';
+export type { FormattedLineItem } from './line-item.js';
+export type { FormattedExpense } from './expense.js';
+export type { FormattedTaskList } from './task-list.js';
+export type { FormattedBoard } from './board.js';
+export type { FormattedWorkflowStatus } from './workflow-status.js';
+export type { FormattedHoliday, FormattedHolidayCalendar } from './holiday.js';
+export type { FormattedAbsence } from './absence.js';
+export type { FormattedCapacity, Weekday } from './capacity.js';
 export type { FormattedActivity } from './activity.js';
 export type { FormattedCustomField, FormattedCustomFieldOption } from './custom-field.js';
 
@@ -47,6 +56,15 @@ export { formatBooking } from './booking.js';
 export { formatAttachment } from './attachment.js';
 export { formatPage } from './page.js';
 export { formatDiscussion } from './discussion.js';
+export { formatInvoice } from './invoice.js';
+export { formatLineItem } from './line-item.js';
+export { formatExpense } from './expense.js';
+export { formatTaskList } from './task-list.js';
+export { formatBoard } from './board.js';
+export { formatWorkflowStatus } from './workflow-status.js';
+export { formatHoliday, formatHolidayCalendar } from './holiday.js';
+export { formatAbsence } from './absence.js';
+export { formatCapacity } from './capacity.js';
 export { formatActivity, formatChangeset } from './activity.js';
 export { formatCustomField, formatCustomFieldOption } from './custom-field.js';
 
@@ -134,18 +152,26 @@ export function formatSingleResponse<T>(
 // ============================================================================
 
 import { formatAttachment } from './attachment.js';
+import { formatBoard } from './board.js';
 import { formatBooking } from './booking.js';
+import { formatCapacity } from './capacity.js';
 import { formatComment } from './comment.js';
 import { formatCompany } from './company.js';
 import { formatDeal } from './deal.js';
 import { formatDiscussion } from './discussion.js';
+import { formatExpense } from './expense.js';
+import { formatHoliday, formatHolidayCalendar } from './holiday.js';
+import { formatInvoice } from './invoice.js';
+import { formatLineItem } from './line-item.js';
 import { formatPage } from './page.js';
 import { formatPerson } from './person.js';
 import { formatProject } from './project.js';
 import { formatService } from './service.js';
+import { formatTaskList } from './task-list.js';
 import { formatTask } from './task.js';
 import { formatTimeEntry } from './time-entry.js';
 import { formatTimer } from './timer.js';
+import { formatWorkflowStatus } from './workflow-status.js';
 
 /**
  * Get the appropriate formatter function for a resource type
@@ -219,6 +245,51 @@ function getFormatterForType(
         item: JsonApiResource,
         options?: FormatOptions,
       ) => Record<string, unknown>;
+    case 'invoices':
+      return formatInvoice as (
+        item: JsonApiResource,
+        options?: FormatOptions,
+      ) => Record<string, unknown>;
+    case 'line_items':
+      return formatLineItem as (
+        item: JsonApiResource,
+        options?: FormatOptions,
+      ) => Record<string, unknown>;
+    case 'expenses':
+      return formatExpense as (
+        item: JsonApiResource,
+        options?: FormatOptions,
+      ) => Record<string, unknown>;
+    case 'task_lists':
+      return formatTaskList as (
+        item: JsonApiResource,
+        options?: FormatOptions,
+      ) => Record<string, unknown>;
+    case 'boards':
+      return formatBoard as (
+        item: JsonApiResource,
+        options?: FormatOptions,
+      ) => Record<string, unknown>;
+    case 'workflow_statuses':
+      return formatWorkflowStatus as (
+        item: JsonApiResource,
+        options?: FormatOptions,
+      ) => Record<string, unknown>;
+    case 'holidays':
+      return formatHoliday as (
+        item: JsonApiResource,
+        options?: FormatOptions,
+      ) => Record<string, unknown>;
+    case 'holiday_calendars':
+      return formatHolidayCalendar as (
+        item: JsonApiResource,
+        options?: FormatOptions,
+      ) => Record<string, unknown>;
+    case 'salaries':
+      return formatCapacity as (
+        item: JsonApiResource,
+        options?: FormatOptions,
+      ) => Record<string, unknown>;
     default:
       // Generic formatter: flatten id + attributes
       return (item: JsonApiResource) => ({
@@ -0,0 +1,124 @@
+import { describe, it, expect } from 'vitest';
+
+import { centsToAmount, formatInvoice } from './invoice.js';
+
+const fullInvoice = {
+  id: '1',
+  type: 'invoices',
+  attributes: {
+    number: '2024-001',
+    subject: 'Website redesign — phase 1',
+    invoiced_on: '2024-01-15',
+    pay_on: '2024-02-14',
+    finalized_on: null,
+    paid_on: null,
+    currency: 'EUR',
+    amount: '150000',
+    amount_tax: '30000',
+    amount_with_tax: '180000',
+    amount_unpaid: '180000',
+    note: '<p>Thanks for your business</p>',
+    invoice_type_id: 1,
+    created_at: '2024-01-15T10:00:00Z',
+    updated_at: '2024-01-16T10:00:00Z',
+  },
+  relationships: {
+    company: { data: { type: 'companies', id: '10' } },
+    document_type: { data: { type: 'document_types', id: '20' } },
+    subsidiary: { data: { type: 'subsidiaries', id: '30' } },
+  },
+};
+
+describe('centsToAmount', () => {
+  it('converts cents to currency units', () => {
+    expect(centsToAmount('150000')).toBe(1500);
+    expect(centsToAmount(1999)).toBe(19.99);
+  });
+
+  it('returns null for missing or invalid values', () => {
+    expect(centsToAmount(undefined)).toBeNull();
+    expect(centsToAmount(null)).toBeNull();
+    expect(centsToAmount('')).toBeNull();
+    expect(centsToAmount('abc')).toBeNull();
+  });
+});
+
+describe('formatInvoice', () => {
+  it('formats draft invoice with all fields', () => {
+    const r = formatInvoice(fullInvoice);
+    expect(r.id).toBe('1');
+    expect(r.number).toBe('2024-001');
+    expect(r.subject).toBe('Website redesign — phase 1');
+    expect(r.status).toBe('draft');
+    expect(r.type).toBe('invoice');
+    expect(r.currency).toBe('EUR');
+    expect(r.invoiced_on).toBe('2024-01-15');
+    expect(r.pay_on).toBe('2024-02-14');
+    expect(r.amount).toBe(1500);
+    expect(r.amount_tax).toBe(300);
+    expect(r.amount_with_tax).toBe(1800);
+    expect(r.amount_unpaid).toBe(1800);
+    expect(r.note).toBe('Thanks for your business'); // HTML stripped
+    expect(r.company_id).toBe('10');
+    expect(r.document_type_id).toBe('20');
+    expect(r.subsidiary_id).toBe('30');
+    expect(r.created_at).toBe('2024-01-15T10:00:00Z');
+    expect(r.updated_at).toBe('2024-01-16T10:00:00Z');
+  });
+
+  it('derives finalized and paid statuses from dates', () => {
+    const finalized = formatInvoice({
+      ...fullInvoice,
+      attributes: { ...fullInvoice.attributes, finalized_on: '2024-01-20' },
+    });
+    expect(finalized.status).toBe('finalized');
+    expect(finalized.finalized_on).toBe('2024-01-20');
+
+    const paid = formatInvoice({
+      ...fullInvoice,
+      attributes: { ...fullInvoice.attributes, finalized_on: '2024-01-20', paid_on: '2024-02-01' },
+    });
+    expect(paid.status).toBe('paid');
+    expect(paid.paid_on).toBe('2024-02-01');
+  });
+
+  it('identifies credit notes', () => {
+    const r = formatInvoice({
+      ...fullInvoice,
+      attributes: { ...fullInvoice.attributes, invoice_type_id: 2 },
+    });
+    expect(r.type).toBe('credit_note');
+  });
+
+  it('keeps HTML when stripHtml is disabled', () => {
+    const r = formatInvoice(fullInvoice, { stripHtml: false });
+    expect(r.note).toBe('<p>Thanks for your business</p>');
+  });
+
+  it('handles minimal invoice', () => {
+    const r = formatInvoice({ id: '2', type: 'invoices', attributes: {} });
+    expect(r.number).toBeNull();
+    expect(r.subject).toBeNull();
+    expect(r.currency).toBeNull();
+    expect(r.amount).toBeNull();
+    expect(r.note).toBeNull();
+    expect(r.status).toBe('draft');
+  });
+
+  it('excludes relationship IDs and timestamps when disabled', () => {
+    const r = formatInvoice(fullInvoice, {
+      includeRelationshipIds: false,
+      includeTimestamps: false,
+    });
+    expect(r.company_id).toBeUndefined();
+    expect(r.created_at).toBeUndefined();
+  });
+
+  it('inlines included company', () => {
+    const r = formatInvoice(fullInvoice, {
+      included: [{ id: '10', type: 'companies', attributes: { name: 'Acme' } }],
+    });
+    expect(r.company).toEqual({ id: '10', type: 'companies', name: 'Acme' });
+    expect(r.company_name).toBe('Acme');
+  });
+});
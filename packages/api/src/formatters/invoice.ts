@@ -0,0 +1,103 @@
+/**
+ * Formatter for Invoice resources
+ */
+
+import type { JsonApiResource, FormatOptions } from './types.js';
+
+import { stripHtml } from '../utils/html.js';
+import { applyIncluded, getIncludedResource } from './included.js';
+import { DEFAULT_FORMAT_OPTIONS } from './types.js';
+
+export interface FormattedInvoice {
+  [key: string]: unknown;
+  id: string;
+  number: string | null;
+  subject: string | null;
+  status: 'draft' | 'finalized' | 'paid';
+  type: 'invoice' | 'credit_note';
+  currency: string | null;
+  invoiced_on: string | null;
+  pay_on: string | null;
+  finalized_on: string | null;
+  paid_on: string | null;
+  amount: number | null;
+  amount_tax: number | null;
+  amount_with_tax: number | null;
+  amount_unpaid: number | null;
+  note: string | null;
+  company_id?: string;
+  company_name?: string;
+  document_type_id?: string;
+  subsidiary_id?: string;
+  created_at?: string;
+  updated_at?: string;
+}
+
+/**
+ * Convert a money attribute (integer cents, sent as string or number) to
+ * currency units. Returns null when the attribute is absent.
+ */
+export function centsToAmount(value: unknown): number | null {
+  if (value === undefined || value === null || value === '') return null;
+  const cents = Number(value);
+  return Number.isFinite(cents) ? cents / 100 : null;
+}
+
+/**
+ * Derive a readable lifecycle status from the invoice dates
+ */
+function getInvoiceStatus(attrs: Record<string, unknown>): FormattedInvoice['status'] {
+  if (attrs.paid_on) return 'paid';
+  if (attrs.finalized_on) return 'finalized';
+  return 'draft';
+}
+
+/**
+ * Format an Invoice resource for output
+ */
+export function formatInvoice(invoice: JsonApiResource, options?: FormatOptions): FormattedInvoice {
+  const opts = { ...DEFAULT_FORMAT_OPTIONS, ...options };
+  const attrs = invoice.attributes;
+
+  const noteRaw = attrs.note as string | null | undefined;
+  const note = opts.stripHtml ? stripHtml(noteRaw) || null : noteRaw || null;
+
+  const result: FormattedInvoice = {
+    id: invoice.id,
+    number: attrs.number ? String(attrs.number) : null,
+    subject: attrs.subject ? String(attrs.subject) : null,
+    status: getInvoiceStatus(attrs),
+    type: Number(attrs.invoice_type_id) === 2 ? 'credit_note' : 'invoice',
+    currency: attrs.currency ? String(attrs.currency) : null,
+    invoiced_on: attrs.invoiced_on ? String(attrs.invoiced_on) : null,
+    pay_on: attrs.pay_on ? String(attrs.pay_on) : null,
+    finalized_on: attrs.finalized_on ? String(attrs.finalized_on) : null,
+    paid_on: attrs.paid_on ? String(attrs.paid_on) : null,
+    amount: centsToAmount(attrs.amount),
+    amount_tax: centsToAmount(attrs.amount_tax),
+    amount_with_tax: centsToAmount(attrs.amount_with_tax),
+    amount_unpaid: centsToAmount(attrs.amount_unpaid),
+    note,
+  };
+
+  if (opts.includeRelationshipIds) {
+    result.company_id = invoice.relationships?.company?.data?.id;
+    result.document_type_id = invoice.relationships?.document_type?.data?.id;
+    result.subsidiary_id = invoice.relationships?.subsidiary?.data?.id;
+  }
+
+  const companyRef = invoice.relationships?.company?.data;
+  const company = getIncludedResource(opts.included, companyRef?.type, companyRef?.id);
+  if (company) {
+    result.company_name = String(company.attributes.name || '');
+  }
+
+  if (opts.includeTimestamps) {
+    result.created_at = attrs.created_at ? String(attrs.created_at) : undefined;
+    result.updated_at = attrs.updated_at ? String(attrs.updated_at) : undefined;
+  }
+
+  applyIncluded(result, invoice, opts.included);
+
+  return result;
+}
@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest';
+
+import { formatLineItem } from './line-item.js';
+
+const fullLineItem = {
+  id: '1',
+  type: 'line_items',
+  attributes: {
+    description: 'Design — 10h',
+    quantity: '10.0',
+    unit_price: '10000',
+    discount: '0.0',
+    tax_name: 'VAT 20%',
+    amount: '100000',
+    amount_with_tax: '120000',
+    created_at: '2024-01-15T10:00:00Z',
+    updated_at: '2024-01-16T10:00:00Z',
+  },
+  relationships: {
+    invoice: { data: { type: 'invoices', id: '100' } },
+    service: { data: { type: 'services', id: '200' } },
+  },
+};
+
+describe('formatLineItem', () => {
+  it('formats line item with all fields', () => {
+    const r = formatLineItem(fullLineItem);
+    expect(r.id).toBe('1');
+    expect(r.description).toBe('Design — 10h');
+    expect(r.quantity).toBe(10);
+    expect(r.unit_price).toBe(100);
+    expect(r.discount).toBe(0);
+    expect(r.tax_name).toBe('VAT 20%');
+    expect(r.amount).toBe(1000);
+    expect(r.amount_with_tax).toBe(1200);
+    expect(r.invoice_id).toBe('100');
+    expect(r.service_id).toBe('200');
+    expect(r.created_at).toBe('2024-01-15T10:00:00Z');
+  });
+
+  it('handles missing attributes', () => {
+    const r = formatLineItem({ id: '2', type: 'line_items', attributes: {} });
+    expect(r.description).toBeNull();
+    expect(r.quantity).toBeNull();
+    expect(r.unit_price).toBeNull();
+    expect(r.discount).toBeNull();
+    expect(r.tax_name).toBeNull();
+  });
+
+  it('excludes relationship IDs when disabled', () => {
+    const r = formatLineItem(fullLineItem, { includeRelationshipIds: false });
+    expect(r.invoice_id).toBeUndefined();
+    expect(r.service_id).toBeUndefined();
+  });
+});
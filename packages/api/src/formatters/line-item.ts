@@ -0,0 +1,70 @@
+/**
+ * Formatter for invoice Line Item resources
+ */
+
+import type { JsonApiResource, FormatOptions } from './types.js';
+
+import { applyIncluded } from './included.js';
+import { centsToAmount } from './invoice.js';
+import { DEFAULT_FORMAT_OPTIONS } from './types.js';
+
+export interface FormattedLineItem {
+  [key: string]: unknown;
+  id: string;
+  description: string | null;
+  quantity: number | null;
+  unit_price: number | null;
+  discount: number | null;
+  tax_name: string | null;
+  amount: number | null;
+  amount_with_tax: number | null;
+  invoice_id?: string;
+  service_id?: string;
+  created_at?: string;
+  updated_at?: string;
+}
+
+/**
+ * Parse a numeric attribute that the API may send as a string
+ */
+function toNumber(value: unknown): number | null {
+  if (value === undefined || value === null || value === '') return null;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
+/**
+ * Format a Line Item resource for output
+ */
+export function formatLineItem(
+  lineItem: JsonApiResource,
+  options?: FormatOptions,
+): FormattedLineItem {
+  const opts = { ...DEFAULT_FORMAT_OPTIONS, ...options };
+  const attrs = lineItem.attributes;
+
+  const result: FormattedLineItem = {
+    id: lineItem.id,
+    description: attrs.description ? String(attrs.description) : null,
+    quantity: toNumber(attrs.quantity),
+    unit_price: centsToAmount(attrs.unit_price),
+    discount: toNumber(attrs.discount),
+    tax_name: attrs.tax_name ? String(attrs.tax_name) : null,
+    amount: centsToAmount(attrs.amount),
+    amount_with_tax: centsToAmount(attrs.amount_with_tax),
+  };
+
+  if (opts.includeRelationshipIds) {
+    result.invoice_id = lineItem.relationships?.invoice?.data?.id;
+    result.service_id = lineItem.relationships?.service?.data?.id;
+  }
+
+  if (opts.includeTimestamps) {
+    result.created_at = attrs.created_at ? String(attrs.created_at) : undefined;
+    result.updated_at = attrs.updated_at ? String(attrs.updated_at) : undefined;
+  }
+
+  applyIncluded(result, lineItem, opts.included);
+
+  return result;
+}
@@ -42,6 +42,14 @@ describe('formatPage', () => {
     expect(r.body).toBe('<p>Welcome to the docs</p>');
   });
 
+  it('renders the body as Markdown when enabled', () => {
+    const r = formatPage(
+      { ...fullPage, attributes: { ...fullPage.attributes, body: '<h1>Intro</h1><p>Welcome</p>' } },
+      { markdown: true },
+    );
+    expect(r.body).toBe('# Intro\n\nWelcome');
+  });
+
   it('returns null body when body is empty and stripHtml is disabled', () => {
     const r = formatPage(
       { ...fullPage, attributes: { ...fullPage.attributes, body: '' } },
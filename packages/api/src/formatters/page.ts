@@ -5,6 +5,7 @@
 import type { JsonApiResource, FormatOptions } from './types.js';
 
 import { stripHtml } from '../utils/html.js';
+import { htmlToMarkdown } from '../utils/markdown.js';
 import { applyIncluded } from './included.js';
 import { DEFAULT_FORMAT_OPTIONS } from './types.js';
 
@@ -31,7 +32,11 @@ export function formatPage(page: JsonApiResource, options?: FormatOptions): Form
   const attrs = page.attributes;
 
   const bodyRaw = attrs.body as string | null | undefined;
-  const body = opts.stripHtml ? stripHtml(bodyRaw) || null : bodyRaw || null;
+  const body = opts.markdown
+    ? htmlToMarkdown(bodyRaw) || null
+    : opts.stripHtml
+      ? stripHtml(bodyRaw) || null
+      : bodyRaw || null;
 
   const result: FormattedPage = {
     id: page.id,
@@ -0,0 +1,66 @@
+import { describe, it, expect } from 'vitest';
+
+import { formatTaskList } from './task-list.js';
+
+const taskList = {
+  id: '10',
+  type: 'task_lists',
+  attributes: {
+    name: 'Sprint 12',
+    position: 3,
+    archived_at: null,
+    created_at: '2024-01-15T10:00:00Z',
+    updated_at: '2024-01-16T10:00:00Z',
+  },
+  relationships: {
+    project: { data: { type: 'projects', id: '100' } },
+    board: { data: { type: 'boards', id: '20' } },
+  },
+};
+
+describe('formatTaskList', () => {
+  it('formats an active task list', () => {
+    expect(formatTaskList(taskList)).toEqual({
+      id: '10',
+      name: 'Sprint 12',
+      position: 3,
+      archived: false,
+      archived_at: null,
+      project_id: '100',
+      board_id: '20',
+      created_at: '2024-01-15T10:00:00Z',
+      updated_at: '2024-01-16T10:00:00Z',
+    });
+  });
+
+  it('marks archived task lists and falls back to placement', () => {
+    const r = formatTaskList({
+      ...taskList,
+      attributes: { name: 'Old', placement: 1000, archived_at: '2024-02-01T00:00:00Z' },
+    });
+    expect(r.archived).toBe(true);
+    expect(r.archived_at).toBe('2024-02-01T00:00:00Z');
+    expect(r.position).toBe(1000);
+  });
+
+  it('resolves project and board names from included resources', () => {
+    const r = formatTaskList(taskList, {
+      included: [
+        { id: '100', type: 'projects', attributes: { name: 'Website' } },
+        { id: '20', type: 'boards', attributes: { name: 'Development' } },
+      ],
+    });
+    expect(r.project_name).toBe('Website');
+    expect(r.board_name).toBe('Development');
+  });
+
+  it('omits relationship IDs and timestamps when disabled', () => {
+    const r = formatTaskList(taskList, {
+      includeRelationshipIds: false,
+      includeTimestamps: false,
+    });
+    expect(r.project_id).toBeUndefined();
+    expect(r.board_id).toBeUndefined();
+    expect(r.created_at).toBeUndefined();
+  });
+});
@@ -0,0 +1,76 @@
+/**
+ * Formatter for Task List resources
+ */
+
+import type { JsonApiResource, FormatOptions } from './types.js';
+
+import { applyIncluded, getIncludedResource } from './included.js';
+import { DEFAULT_FORMAT_OPTIONS } from './types.js';
+
+export interface FormattedTaskList {
+  [key: string]: unknown;
+  id: string;
+  name: string;
+  position: number | null;
+  archived: boolean;
+  archived_at: string | null;
+  project_id?: string;
+  project_name?: string;
+  board_id?: string;
+  board_name?: string;
+  created_at?: string;
+  updated_at?: string;
+}
+
+/**
+ * Format a Task List resource for output
+ */
+export function formatTaskList(
+  taskList: JsonApiResource,
+  options?: FormatOptions,
+): FormattedTaskList {
+  const opts = { ...DEFAULT_FORMAT_OPTIONS, ...options };
+  const attrs = taskList.attributes;
+
+  const projectRef = taskList.relationships?.project?.data;
+  const projectData = getIncludedResource(
+    opts.included,
+    projectRef?.type,
+    projectRef?.id,
+  )?.attributes;
+
+  const boardRef = taskList.relationships?.board?.data;
+  const boardData = getIncludedResource(opts.included, boardRef?.type, boardRef?.id)?.attributes;
+
+  const position = attrs.position ?? attrs.placement;
+
+  const result: FormattedTaskList = {
+    id: taskList.id,
+    name: String(attrs.name || ''),
+    position: position !== undefined && position !== null ? Number(position) : null,
+    archived: Boolean(attrs.archived_at),
+    archived_at: attrs.archived_at ? String(attrs.archived_at) : null,
+  };
+
+  if (opts.includeRelationshipIds) {
+    if (projectRef?.id) result.project_id = projectRef.id;
+    if (boardRef?.id) result.board_id = boardRef.id;
+  }
+
+  if (projectData) {
+    result.project_name = String(projectData.name || '');
+  }
+
+  if (boardData) {
+    result.board_name = String(boardData.name || '');
+  }
+
+  if (opts.includeTimestamps) {
+    result.created_at = attrs.created_at ? String(attrs.created_at) : undefined;
+    result.updated_at = attrs.updated_at ? String(attrs.updated_at) : undefined;
+  }
+
+  applyIncluded(result, taskList, opts.included);
+
+  return result;
+}
@@ -81,6 +81,17 @@ describe('formatTask', () => {
     expect(r.description).toBe('<p>Do stuff</p>');
   });
 
+  it('renders the description as Markdown when enabled', () => {
+    const r = formatTask(
+      {
+        ...task,
+        attributes: { ...task.attributes, description: '<ul><li><b>Do</b> stuff</li></ul>' },
+      },
+      { markdown: true },
+    );
+    expect(r.description).toBe('- **Do** stuff');
+  });
+
   it('defaults title to Untitled', () => {
     const r = formatTask({ id: '1', type: 'tasks', attributes: {} });
     expect(r.title).toBe('Untitled');
@@ -5,6 +5,7 @@
 import type { JsonApiResource, FormatOptions, FormattedTask } from './types.js';
 
 import { stripHtml } from '../utils/html.js';
+import { htmlToMarkdown } from '../utils/markdown.js';
 import { DEFAULT_FORMAT_OPTIONS } from './types.js';
 
 /**
@@ -27,9 +28,13 @@ export function formatTask(task: JsonApiResource, options: FormatOptions = {}):
   const attrs = task.attributes;
   const rels = task.relationships;
 
-  // Process description with HTML stripping if enabled
+  // Process description as Markdown or plain text if enabled
   const descriptionRaw = attrs.description as string | null | undefined;
-  const description = opts.stripHtml ? stripHtml(descriptionRaw) || null : descriptionRaw || null;
+  const description = opts.markdown
+    ? htmlToMarkdown(descriptionRaw) || null
+    : opts.stripHtml
+      ? stripHtml(descriptionRaw) || null
+      : descriptionRaw || null;
 
   const result: FormattedTask = {
     id: task.id,
@@ -64,6 +64,13 @@ export interface FormatOptions {
    */
   stripHtml?: boolean;
 
+  /**
+   * Render rich text fields (task descriptions, comment bodies, page content)
+   * as Markdown instead of plain text
+   * @default false
+   */
+  markdown?: boolean;
+
   /**
    * Included resources from JSON:API response for resolving relationships
    */
@@ -77,6 +84,7 @@ export const DEFAULT_FORMAT_OPTIONS: Required<Omit<FormatOptions, 'included'>> =
   includeRelationshipIds: true,
   includeTimestamps: true,
   stripHtml: true,
+  markdown: false,
 };
 
 /**
@@ -0,0 +1,39 @@
+import { describe, it, expect } from 'vitest';
+
+import { formatWorkflowStatus } from './workflow-status.js';
+
+const status = {
+  id: '5',
+  type: 'workflow_statuses',
+  attributes: {
+    name: 'In progress',
+    position: 2,
+    category_id: 2,
+    color_id: 4,
+  },
+  relationships: {
+    workflow: { data: { type: 'workflows', id: '9' } },
+  },
+};
+
+describe('formatWorkflowStatus', () => {
+  it('formats a workflow status with its category label', () => {
+    expect(formatWorkflowStatus(status)).toEqual({
+      id: '5',
+      name: 'In progress',
+      position: 2,
+      category: 'started',
+      category_id: 2,
+      color_id: 4,
+      workflow_id: '9',
+    });
+  });
+
+  it('handles missing category and position', () => {
+    const r = formatWorkflowStatus({ id: '6', type: 'workflow_statuses', attributes: {} });
+    expect(r.category).toBe('unknown');
+    expect(r.category_id).toBeNull();
+    expect(r.position).toBeNull();
+    expect(r.workflow_id).toBeUndefined();
+  });
+});
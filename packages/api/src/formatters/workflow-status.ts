@@ -0,0 +1,57 @@
+/**
+ * Formatter for Workflow Status resources
+ */
+
+import type { JsonApiResource, FormatOptions } from './types.js';
+
+import { WORKFLOW_STATUS_CATEGORY } from '../constants.js';
+import { applyIncluded } from './included.js';
+import { DEFAULT_FORMAT_OPTIONS } from './types.js';
+
+export interface FormattedWorkflowStatus {
+  [key: string]: unknown;
+  id: string;
+  name: string;
+  position: number | null;
+  category: string;
+  category_id: number | null;
+  color_id: number | null;
+  workflow_id?: string;
+}
+
+/**
+ * Format a Workflow Status resource for output
+ */
+export function formatWorkflowStatus(
+  status: JsonApiResource,
+  options?: FormatOptions,
+): FormattedWorkflowStatus {
+  const opts = { ...DEFAULT_FORMAT_OPTIONS, ...options };
+  const attrs = status.attributes;
+
+  const categoryId =
+    attrs.category_id !== undefined && attrs.category_id !== null
+      ? Number(attrs.category_id)
+      : null;
+
+  const result: FormattedWorkflowStatus = {
+    id: status.id,
+    name: String(attrs.name || ''),
+    position:
+      attrs.position !== undefined && attrs.position !== null ? Number(attrs.position) : null,
+    category:
+      categoryId !== null ? WORKFLOW_STATUS_CATEGORY.fromValue(String(categoryId)) : 'unknown',
+    category_id: categoryId,
+    color_id:
+      attrs.color_id !== undefined && attrs.color_id !== null ? Number(attrs.color_id) : null,
+  };
+
+  if (opts.includeRelationshipIds) {
+    const workflowId = status.relationships?.workflow?.data?.id;
+    if (workflowId) result.workflow_id = workflowId;
+  }
+
+  applyIncluded(result, status, opts.included);
+
+  return result;
+}
@@ -7,7 +7,17 @@
 
 // API client
 export { ProductiveApi, buildListQuery } from './client.js';
-export type { ApiOptions, ListParams } from './client.js';
+export type { ApiOptions, ApiRequestEvent, ListParams, RequestOptions } from './client.js';
+
+// Undo journal
+export { buildRevertRequest } from './journal.js';
+export type {
+  JournalRecord,
+  MutationJournal,
+  MutationMethod,
+  RecordedMutation,
+  RevertRequest,
+} from './journal.js';
 
 // Rate limiter
 export { RateLimiter, DEFAULT_RATE_LIMIT_CONFIG } from './rate-limiter.js';
@@ -17,7 +27,7 @@ export type { RateLimitConfig } from './rate-limiter.js';
 export { ProductiveApiError } from './error.js';
 
 // Cache interface
-export type { ApiCache } from './cache.js';
+export type { ApiCache, CacheCounters, CacheEntry, CacheValidators } from './cache.js';
 export { noopCache } from './cache.js';
 
 // Types
@@ -35,13 +45,24 @@ export type {
   CustomFieldDataType,
   ProductiveDeal,
   ProductiveDiscussion,
+  ProductiveExpense,
+  ProductiveEvent,
+  ProductiveHoliday,
+  ProductiveHolidayCalendar,
+  ProductiveSalary,
+  ProductiveInvoice,
+  ProductiveLineItem,
   ProductivePage,
   ProductivePerson,
   ProductiveProject,
   ProductiveReport,
   ProductiveService,
   ProductiveTask,
+  ProductiveTaskList,
+  ProductiveBoard,
+  ProductiveWorkflowStatus,
   ProductiveTimeEntry,
+  ProductiveTimesheet,
   ProductiveTimer,
   ProductiveActivity,
   ActivityChangesetEntry,
@@ -54,6 +75,9 @@ export {
   formatTimeEntry,
   formatProject,
   formatTask,
+  formatTaskList,
+  formatBoard,
+  formatWorkflowStatus,
   formatPerson,
   formatService,
   formatCompany,
@@ -64,6 +88,13 @@ export {
   formatBooking,
   formatPage,
   formatDiscussion,
+  formatInvoice,
+  formatLineItem,
+  formatExpense,
+  formatHoliday,
+  formatHolidayCalendar,
+  formatAbsence,
+  formatCapacity,
   formatActivity,
   formatChangeset,
   formatCustomField,
@@ -103,6 +134,15 @@ export type { FormattedBooking } from './formatters/booking.js';
 export type { FormattedAttachment } from './formatters/attachment.js';
 export type { FormattedPage } from './formatters/page.js';
 export type { FormattedDiscussion } from './formatters/discussion.js';
+export type { FormattedInvoice } from './formatters/invoice.js';
+export type { FormattedLineItem } from './formatters/line-item.js';
+export type { FormattedExpense } from './formatters/expense.js';
+export type { FormattedTaskList } from './formatters/task-list.js';
+export type { FormattedBoard } from './formatters/board.js';
+export type { FormattedWorkflowStatus } from './formatters/workflow-status.js';
+export type { FormattedHoliday, FormattedHolidayCalendar } from './formatters/holiday.js';
+export type { FormattedAbsence } from './formatters/absence.js';
+export type { FormattedCapacity, Weekday } from './formatters/capacity.js';
 export type { FormattedActivity } from './formatters/activity.js';
 export type {
   FormattedCustomField,
@@ -116,6 +156,9 @@ export type { StatusMap, NumericStatusMap } from './constants.js';
 export {
   TASK_STATUS,
   TASK_OVERDUE_STATUS,
+  TASK_LIST_STATUS,
+  BOARD_STATUS,
+  WORKFLOW_STATUS_CATEGORY,
   PROJECT_STATUS,
   PROJECT_TYPE,
   DEAL_STATUS,
@@ -128,6 +171,12 @@ export {
   PERSON_TYPE,
   COMPANY_STATUS,
   DISCUSSION_STATUS,
+  INVOICE_STATUS,
+  INVOICE_TYPE,
+  EXPENSE_APPROVAL_STATUS,
+  BOOKING_TYPE,
+  BOOKING_METHOD,
+  ABSENCE_TYPE,
   SERVICE_BUDGET_STATUS,
   SERVICE_BILLING_TYPE,
   CUSTOM_FIELD_DATA_TYPE,
@@ -138,4 +187,25 @@ export { getConfig, setConfig, deleteConfig, clearConfig } from './config.js';
 
 // Utils
 export { stripHtml, truncate } from './utils/html.js';
+export { htmlToMarkdown, markdownToHtml } from './utils/markdown.js';
+export { addDays, todayInTimezone } from './utils/dates.js';
+export { DEFAULT_FORECAST_HORIZON_DAYS, forecastBudget } from './utils/budget-forecast.js';
+export type {
+  BudgetForecast,
+  BudgetForecastInput,
+  BudgetForecastStatus,
+  RevenueForecast,
+  ServiceForecast,
+} from './utils/budget-forecast.js';
 export { ConfigStore } from './utils/config-store.js';
+export {
+  DEFAULT_PROFILE,
+  PROFILE_KEYS,
+  isValidProfileName,
+  resolveProfileName,
+  listProfileNames,
+  readProfile,
+  patchProfiles,
+  profileKeychainAccount,
+} from './utils/profiles.js';
+export type { ProfileKey, StoredConfig } from './utils/profiles.js';
@@ -0,0 +1,126 @@
+import { describe, it, expect } from 'vitest';
+
+import { buildRevertRequest } from './journal.js';
+
+function revertTimeEntryAction(action: string) {
+  return buildRevertRequest({
+    method: 'PATCH',
+    path: `/time_entries/5/${action}`,
+    resourceType: 'time_entries',
+  });
+}
+
+describe('buildRevertRequest', () => {
+  it('deletes the record a create made', () => {
+    expect(
+      buildRevertRequest({
+        method: 'POST',
+        path: '/time_entries',
+        resourceType: 'time_entries',
+        resourceId: '77',
+      }),
+    ).toEqual({ method: 'DELETE', path: '/time_entries/77' });
+  });
+
+  it('sends back the previous value of the fields an update changed', () => {
+    const revert = buildRevertRequest({
+      method: 'PATCH',
+      path: '/tasks/5',
+      resourceType: 'tasks',
+      resourceId: '5',
+      body: {
+        data: {
+          type: 'tasks',
+          id: '5',
+          attributes: { title: 'New' },
+          relationships: { assignee: { data: { type: 'people', id: '2' } } },
+        },
+      },
+      before: {
+        id: '5',
+        type: 'tasks',
+        attributes: { title: 'Old', description: 'Kept' },
+        relationships: {
+          assignee: { data: { type: 'people', id: '1' } },
+          project: { data: { type: 'projects', id: '9' } },
+        },
+      },
+    });
+
+    expect(revert).toEqual({
+      method: 'PATCH',
+      path: '/tasks/5',
+      body: {
+        data: {
+          type: 'tasks',
+          id: '5',
+          attributes: { title: 'Old' },
+          relationships: { assignee: { data: { type: 'people', id: '1' } } },
+        },
+      },
+    });
+  });
+
+  it('re-creates a deleted record from its pre-image', () => {
+    const revert = buildRevertRequest({
+      method: 'DELETE',
+      path: '/pages/9',
+      resourceType: 'pages',
+      resourceId: '9',
+      before: {
+        id: '9',
+        type: 'pages',
+        attributes: { title: 'Notes', created_at: '2024-01-01T00:00:00Z' },
+        relationships: {
+          project: { data: { type: 'projects', id: '3' } },
+          creator: { meta: { included: false } } as { data?: unknown },
+        },
+      },
+    });
+
+    expect(revert).toEqual({
+      method: 'POST',
+      path: '/pages',
+      body: {
+        data: {
+          type: 'pages',
+          attributes: { title: 'Notes' },
+          relationships: { project: { data: { type: 'projects', id: '3' } } },
+        },
+      },
+    });
+  });
+
+  it('reverts archive and restore with each other', () => {
+    expect(
+      buildRevertRequest({ method: 'PATCH', path: '/boards/4/archive', resourceType: 'boards' }),
+    ).toEqual({ method: 'PATCH', path: '/boards/4/restore' });
+  });
+
+  it('reverts time entry approvals and rejections', () => {
+    expect(revertTimeEntryAction('approve')).toEqual({
+      method: 'PATCH',
+      path: '/time_entries/5/unapprove',
+    });
+    expect(revertTimeEntryAction('unapprove')).toEqual({
+      method: 'PATCH',
+      path: '/time_entries/5/approve',
+    });
+    expect(revertTimeEntryAction('reject')).toEqual({
+      method: 'PATCH',
+      path: '/time_entries/5/unreject',
+    });
+  });
+
+  it('returns null for writes it cannot revert', () => {
+    expect(
+      buildRevertRequest({ method: 'DELETE', path: '/pages/9', resourceType: 'pages' }),
+    ).toBeNull();
+    expect(
+      buildRevertRequest({ method: 'PATCH', path: '/timers/1/stop', resourceType: 'timers' }),
+    ).toBeNull();
+    expect(
+      buildRevertRequest({ method: 'POST', path: '/timers', resourceType: 'timers' }),
+    ).toBeNull();
+  });
+});
@@ -0,0 +1,166 @@
+/**
+ * Undo journal interface for the API client.
+ *
+ * A client given a journal reports every write it sends once the API
+ * accepted it. Updates and deletes are reported with the record as it was
+ * before the request (its pre-image), fetched right before sending it, so
+ * that {@link buildRevertRequest} can work out the request taking the change
+ * back. Implementations decide where mutations are kept.
+ */
+
+export type MutationMethod = 'POST' | 'PATCH' | 'DELETE';
+
+/**
+ * A JSON:API record as returned by the API
+ */
+export interface JournalRecord {
+  id: string;
+  type: string;
+  attributes: Record<string, unknown>;
+  relationships?: Record<string, { data?: unknown }>;
+}
+
+/**
+ * A write accepted by the API
+ */
+export interface RecordedMutation {
+  method: MutationMethod;
+  /** Request path, e.g. `/tasks/123` or `/task_lists/4/archive` */
+  path: string;
+  /** Request body as sent */
+  body?: unknown;
+  /** Resource type, e.g. `tasks` */
+  resourceType: string;
+  /** ID of the record changed or created */
+  resourceId?: string;
+  /** The record before an update or delete, when it could be fetched */
+  before?: JournalRecord;
+}
+
+export interface MutationJournal {
+  record(mutation: RecordedMutation): Promise<void>;
+}
+
+export interface RevertRequest {
+  method: MutationMethod;
+  path: string;
+  body?: unknown;
+}
+
+/** Attributes the API sets itself, left out when re-creating a deleted record */
+const READ_ONLY_ATTRIBUTES = new Set(['created_at', 'updated_at', 'deleted_at']);
+
+/** Action endpoints that take each other back, by action or by `type/action` */
+const INVERSE_ACTIONS: Record<string, string> = {
+  archive: 'restore',
+  restore: 'archive',
+  'time_entries/approve': 'unapprove',
+  'time_entries/unapprove': 'approve',
+  'time_entries/reject': 'unreject',
+};
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Attributes and relationships of a request body, e.g. the fields an update
+ * changed.
+ */
+function sentFields(body: unknown): {
+  attributes: string[];
+  relationships: string[];
+} {
+  const data = isRecord(body) && isRecord(body.data) ? body.data : {};
+  return {
+    attributes: isRecord(data.attributes) ? Object.keys(data.attributes) : [],
+    relationships: isRecord(data.relationships) ? Object.keys(data.relationships) : [],
+  };
+}
+
+/**
+ * Relationship linkage of a record, without links and meta
+ */
+function linkage(
+  relationships: JournalRecord['relationships'],
+  names?: string[],
+): Record<string, { data: unknown }> {
+  const result: Record<string, { data: unknown }> = {};
+  for (const [name, relationship] of Object.entries(relationships ?? {})) {
+    if (names && !names.includes(name)) continue;
+    if (relationship?.data !== undefined) result[name] = { data: relationship.data };
+  }
+  return result;
+}
+
+/**
+ * The request taking a mutation back, or `null` when it cannot be reverted:
+ *
+ * - a create is reverted by deleting the created record
+ * - an update is reverted by sending back the previous value of every field
+ *   it changed
+ * - a delete is reverted by creating the record again from its pre-image,
+ *   which gives it a new ID
+ * - archive and restore revert each other, as do approving and unapproving
+ *   a time entry; a rejected time entry is unrejected
+ */
+export function buildRevertRequest(mutation: RecordedMutation): RevertRequest | null {
+  const [, type, id, action] = mutation.path.split('/');
+  if (!type) return null;
+
+  if (action !== undefined) {
+    const inverse = INVERSE_ACTIONS[`${type}/${action}`] ?? INVERSE_ACTIONS[action];
+    return inverse && mutation.method === 'PATCH'
+      ? { method: 'PATCH', path: `/${type}/${id}/${inverse}` }
+      : null;
+  }
+
+  if (mutation.method === 'POST') {
+    return id === undefined && mutation.resourceId
+      ? { method: 'DELETE', path: `/${type}/${mutation.resourceId}` }
+      : null;
+  }
+
+  const before = mutation.before;
+  if (id === undefined || !before) return null;
+
+  if (mutation.method === 'PATCH') {
+    const sent = sentFields(mutation.body);
+    const attributes = Object.fromEntries(
+      sent.attributes
+        .filter((name) => name in before.attributes)
+        .map((name) => [name, before.attributes[name]]),
+    );
+    const relationships = linkage(before.relationships, sent.relationships);
+    if (Object.keys(attributes).length + Object.keys(relationships).length === 0) return null;
+
+    return {
+      method: 'PATCH',
+      path: `/${type}/${id}`,
+      body: {
+        data: {
+          type,
+          id,
+          attributes,
+          ...(Object.keys(relationships).length > 0 && { relationships }),
+        },
+      },
+    };
+  }
+
+  const attributes = Object.fromEntries(
+    Object.entries(before.attributes).filter(([name]) => !READ_ONLY_ATTRIBUTES.has(name)),
+  );
+  const relationships = linkage(before.relationships);
+  return {
+    method: 'POST',
+    path: `/${type}`,
+    body: {
+      data: {
+        type,
+        attributes,
+        ...(Object.keys(relationships).length > 0 && { relationships }),
+      },
+    },
+  };
+}
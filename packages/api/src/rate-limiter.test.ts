@@ -82,6 +82,17 @@ describe('RateLimiter', () => {
       await acquirePromise;
     });
 
+    it('returns the time waited', async () => {
+      const limiter = new RateLimiter({ maxRequestsPer10s: 1 });
+
+      expect(await limiter.acquire('/projects')).toBe(0);
+
+      const acquirePromise = limiter.acquire('/projects');
+      await vi.advanceTimersByTimeAsync(10_001);
+
+      expect(await acquirePromise).toBeGreaterThan(9000);
+    });
+
     it('delays when window is full', async () => {
       const limiter = new RateLimiter({ maxRequestsPer10s: 2 });
 
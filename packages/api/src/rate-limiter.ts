@@ -53,13 +53,14 @@ export class RateLimiter {
 
   /**
    * Acquire permission to make a request.
-   * Returns a promise that resolves when it's safe to proceed.
+   * Returns a promise that resolves when it's safe to proceed, with the time
+   * waited in milliseconds.
    *
    * @param endpoint - The API endpoint (used to detect report endpoints)
    */
-  async acquire(endpoint?: string): Promise<void> {
+  async acquire(endpoint?: string): Promise<number> {
     if (!this.config.enabled) {
-      return;
+      return 0;
     }
 
     const now = Date.now();
@@ -86,6 +87,7 @@ export class RateLimiter {
     }
     // Always track in the general window too
     this.requestTimestamps.push(timestamp);
+    return Math.max(waitTime, 0);
   }
 
   /**
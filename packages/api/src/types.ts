@@ -3,6 +3,10 @@ export interface ProductiveConfig extends Record<string, string | undefined> {
   organizationId?: string;
   userId?: string;
   baseUrl?: string;
+  /** IANA timezone dates such as "today" are derived in (default: the system timezone) */
+  timezone?: string;
+  /** Credential profile the values were read from */
+  profile?: string;
 }
 
 export interface ProductiveApiMeta {
@@ -64,6 +68,11 @@ export interface ProductiveTimeEntry {
     note?: string;
     billable_time?: number;
     approved?: boolean;
+    approved_at?: string | null;
+    rejected?: boolean;
+    rejected_reason?: string | null;
+    rejected_at?: string | null;
+    submitted?: boolean;
     overhead?: boolean;
     started_at?: string;
     created_at: string;
@@ -76,6 +85,23 @@ export interface ProductiveTimeEntry {
   };
 }
 
+/**
+ * A person's submitted day. Submitting a timesheet marks the day's time
+ * entries as ready for approval.
+ */
+export interface ProductiveTimesheet {
+  id: string;
+  type: 'timesheets';
+  attributes: {
+    date: string;
+    created_at: string;
+  };
+  relationships?: {
+    person?: RelationshipData;
+    creator?: RelationshipData;
+  };
+}
+
 export interface ProductiveTask {
   id: string;
   type: 'tasks';
@@ -117,6 +143,53 @@ export interface ProductiveTask {
   };
 }
 
+export interface ProductiveTaskList {
+  id: string;
+  type: 'task_lists';
+  attributes: {
+    name: string;
+    position?: number;
+    placement?: number;
+    archived_at?: string | null;
+    created_at?: string;
+    updated_at?: string;
+  };
+  relationships?: {
+    project?: RelationshipData;
+    board?: RelationshipData;
+  };
+}
+
+export interface ProductiveBoard {
+  id: string;
+  type: 'boards';
+  attributes: {
+    name: string;
+    position?: number;
+    placement?: number;
+    archived_at?: string | null;
+    created_at?: string;
+    updated_at?: string;
+  };
+  relationships?: {
+    project?: RelationshipData;
+  };
+}
+
+export interface ProductiveWorkflowStatus {
+  id: string;
+  type: 'workflow_statuses';
+  attributes: {
+    name: string;
+    color_id?: number;
+    position?: number;
+    category_id: number;
+  };
+  relationships?: {
+    workflow?: RelationshipData;
+  };
+}
+
 export interface ProductivePerson {
   id: string;
   type: 'people';
@@ -141,6 +214,13 @@ export interface ProductiveService {
     budgeted_time?: number;
     worked_time?: number;
     billing_type_id?: number | null;
+    /** 1 = hour, 2 = piece, 3 = day */
+    unit_id?: number | null;
+    /** Price per unit, in cents */
+    price?: string | null;
+    /** Budget and budget consumed so far, in cents */
+    budget_total?: string | null;
+    budget_used?: string | null;
     created_at: string;
     updated_at: string;
   };
@@ -183,6 +263,8 @@ export interface ProductiveBooking {
     approved_at?: string;
     rejected_at?: string;
     rejected_reason?: string;
+    canceled?: boolean;
+    canceled_at?: string | null;
     created_at: string;
     updated_at: string;
   };
@@ -194,6 +276,68 @@ export interface ProductiveBooking {
   };
 }
 
+/**
+ * Absence category (vacation, sick leave, remote work…) that absence bookings point to
+ */
+export interface ProductiveEvent {
+  id: string;
+  type: 'events';
+  attributes: {
+    name: string;
+    /** 'time_off' | 'remote_work' */
+    absence_type?: string;
+    half_day_bookings?: boolean;
+    limited?: boolean;
+    archived_at?: string | null;
+  };
+}
+
+export interface ProductiveHolidayCalendar {
+  id: string;
+  type: 'holiday_calendars';
+  attributes: {
+    name: string;
+    country?: string | null;
+    state?: string | null;
+    autogenerate_holidays?: boolean;
+  };
+}
+
+export interface ProductiveHoliday {
+  id: string;
+  type: 'holidays';
+  attributes: {
+    name: string;
+    date: string;
+  };
+  relationships?: {
+    holiday_calendar?: RelationshipData;
+  };
+}
+
+/**
+ * Salary record of a person. Besides cost data it carries the person's working
+ * schedule (capacity) and holiday calendar for the period it is effective.
+ */
+export interface ProductiveSalary {
+  id: string;
+  type: 'salaries';
+  attributes: {
+    started_on: string;
+    ended_on?: string | null;
+    /** Working minutes per weekday, Monday first */
+    working_hours?: number[] | null;
+    /** Working minutes per weekday for odd weeks, when the schedule alternates */
+    alternating_hours?: number[] | null;
+    cost?: number | null;
+    currency?: string | null;
+  };
+  relationships?: {
+    person?: RelationshipData;
+    holiday_calendar?: RelationshipData;
+  };
+}
+
 export interface ProductiveDeal {
   id: string;
   type: 'deals';
@@ -204,6 +348,10 @@ export interface ProductiveDeal {
     number?: string;
     deal_number?: string;
     budget: boolean;
+    currency?: string;
+    /** Budget and budget consumed so far, in cents */
+    budget_total?: string | null;
+    budget_used?: string | null;
     tag_list?: string[];
     profit_margin?: number;
     closed_at?: string;
@@ -221,6 +369,99 @@ export interface ProductiveDeal {
   };
 }
 
+export interface ProductiveInvoice {
+  id: string;
+  type: 'invoices';
+  attributes: {
+    number?: string;
+    subject?: string;
+    invoiced_on?: string;
+    sent_on?: string;
+    pay_on?: string;
+    delivery_on?: string;
+    paid_on?: string;
+    finalized_on?: string;
+    currency: string;
+    amount?: string;
+    amount_tax?: string;
+    amount_with_tax?: string;
+    amount_paid?: string;
+    amount_unpaid?: string;
+    note?: string;
+    footer?: string;
+    invoice_type_id?: number; // 1=invoice, 2=credit note
+    exported?: boolean;
+    tag_list?: string[];
+    created_at: string;
+    updated_at: string;
+  };
+  relationships?: {
+    company?: RelationshipData;
+    document_type?: RelationshipData;
+    subsidiary?: RelationshipData;
+    creator?: RelationshipData;
+    bill_to?: RelationshipData;
+    bill_from?: RelationshipData;
+  };
+}
+
+export interface ProductiveLineItem {
+  id: string;
+  type: 'line_items';
+  attributes: {
+    description?: string;
+    quantity?: string;
+    unit_price?: string;
+    amount?: string;
+    amount_tax?: string;
+    amount_with_tax?: string;
+    tax_name?: string;
+    tax_value?: string;
+    discount?: string;
+    position?: number;
+    created_at?: string;
+    updated_at?: string;
+  };
+  relationships?: {
+    invoice?: RelationshipData;
+    service?: RelationshipData;
+    tax_rate?: RelationshipData;
+  };
+}
+
+export interface ProductiveExpense {
+  id: string;
+  type: 'expenses';
+  attributes: {
+    name: string;
+    date: string;
+    pay_on?: string;
+    paid_on?: string;
+    currency?: string;
+    amount?: string;
+    amount_with_tax?: string;
+    quantity?: string;
+    billable_amount?: string;
+    reimbursable?: boolean;
+    approved?: boolean;
+    approved_at?: string;
+    rejected?: boolean;
+    rejected_at?: string;
+    rejected_reason?: string;
+    invoiced?: boolean;
+    created_at: string;
+    updated_at: string;
+  };
+  relationships?: {
+    deal?: RelationshipData;
+    service?: RelationshipData;
+    person?: RelationshipData;
+    vendor?: RelationshipData;
+    approver?: RelationshipData;
+    rejecter?: RelationshipData;
+  };
+}
+
 export interface ProductiveTimer {
   id: string;
   type: 'timers';
@@ -344,6 +585,10 @@ export interface ProductiveActivity {
     event: 'create' | 'update' | 'delete';
     changeset: ActivityChangesetEntry[];
     created_at: string;
+    /** Resource type of the changed record, e.g. `task` */
+    item_type?: string;
+    item_id?: number | string;
+    item_name?: string;
   };
   relationships?: {
     organization?: RelationshipData;
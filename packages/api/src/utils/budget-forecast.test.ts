@@ -0,0 +1,247 @@
+import { describe, expect, it } from 'vitest';
+
+import type {
+  ProductiveBooking,
+  ProductiveDeal,
+  ProductiveService,
+  ProductiveTimeEntry,
+} from '../types.js';
+
+import { forecastBudget } from './budget-forecast.js';
+
+const TODAY = '2026-10-19';
+
+function deal(attributes: Partial<ProductiveDeal['attributes']> = {}): ProductiveDeal {
+  return {
+    id: '10',
+    type: 'deals',
+    attributes: {
+      name: 'Website',
+      date: '2026-09-01',
+      end_date: '2026-10-30',
+      currency: 'EUR',
+      budget: true,
+      created_at: '',
+      updated_at: '',
+      ...attributes,
+    },
+  };
+}
+
+function service(
+  id: string,
+  attributes: Partial<ProductiveService['attributes']> = {},
+): ProductiveService {
+  return {
+    id,
+    type: 'services',
+    attributes: { name: `Service ${id}`, created_at: '', updated_at: '', ...attributes },
+  };
+}
+
+function entry(serviceId: string, date: string, time: number): ProductiveTimeEntry {
+  return {
+    id: `${serviceId}-${date}`,
+    type: 'time_entries',
+    attributes: { date, time, created_at: '', updated_at: '' },
+    relationships: { service: { data: { type: 'services', id: serviceId } } },
+  } as ProductiveTimeEntry;
+}
+
+function booking(
+  serviceId: string,
+  attributes: Partial<ProductiveBooking['attributes']>,
+): ProductiveBooking {
+  return {
+    id: `booking-${serviceId}`,
+    type: 'bookings',
+    attributes: {
+      started_on: TODAY,
+      ended_on: TODAY,
+      booking_method_id: 1,
+      created_at: '',
+      updated_at: '',
+      ...attributes,
+    },
+    relationships: { service: { data: { type: 'services', id: serviceId } } },
+  };
+}
+
+describe('forecastBudget', () => {
+  const design = service('1', {
+    budgeted_time: 600,
+    worked_time: 300,
+    price: '10000',
+    budget_total: '100000',
+    budget_used: '50000',
+  });
+  // 560 minutes over the 28 days before today: 20 minutes a day
+  const designEntries = [entry('1', '2026-09-21', 280), entry('1', '2026-10-18', 280)];
+  // Two hours a day from Tuesday to Thursday
+  const designBooking = booking('1', {
+    started_on: '2026-10-20',
+    ended_on: '2026-10-22',
+    time: 120,
+  });
+
+  it('follows the bookings then the burn rate to find the exhaustion date', () => {
+    const forecast = forecastBudget({
+      deal: deal(),
+      services: [design],
+      timeEntries: designEntries,
+      bookings: [designBooking],
+      today: TODAY,
+      lookbackDays: 28,
+    });
+
+    expect(forecast.services[0]).toEqual({
+      id: '1',
+      name: 'Service 1',
+      status: 'at_risk',
+      budgeted_minutes: 600,
+      worked_minutes: 300,
+      remaining_minutes: 300,
+      burn_rate_minutes_per_day: 20,
+      booked_minutes: 360,
+      exhausted_on: '2026-10-22',
+      exhausted_days_before_end: 8,
+      // 300 worked + 360 booked + 8 days at 20 minutes after the bookings
+      projected_minutes_at_end: 820,
+      projected_overrun_minutes: 220,
+      revenue: {
+        budget: 1000,
+        used: 500,
+        remaining: 500,
+        projected_at_end: 1366.67,
+        projected_overrun: 366.67,
+        exhausted_on: '2026-10-22',
+      },
+    });
+    expect(forecast.status).toBe('at_risk');
+    expect(forecast.overruns).toEqual(['1']);
+    expect(forecast.deal).toEqual({
+      id: '10',
+      name: 'Website',
+      start_date: '2026-09-01',
+      end_date: '2026-10-30',
+      currency: 'EUR',
+    });
+  });
+
+  it('classifies services and totals them', () => {
+    const forecast = forecastBudget({
+      deal: deal(),
+      services: [
+        design,
+        service('2', { budgeted_time: 6000, worked_time: 100 }),
+        service('3', { worked_time: 50 }),
+        service('4', { budgeted_time: 60, worked_time: 90 }),
+      ],
+      timeEntries: designEntries,
+      bookings: [designBooking],
+      today: TODAY,
+      lookbackDays: 28,
+    });
+
+    expect(forecast.services.map((s) => s.status)).toEqual([
+      'at_risk',
+      'on_track',
+      'no_budget',
+      'over_budget',
+    ]);
+    expect(forecast.services[1]).toMatchObject({
+      exhausted_on: null,
+      exhausted_days_before_end: null,
+      projected_minutes_at_end: 100,
+      projected_overrun_minutes: 0,
+      revenue: null,
+    });
+    expect(forecast.services[2].projected_overrun_minutes).toBeNull();
+    expect(forecast.status).toBe('over_budget');
+    expect(forecast.overruns).toEqual(['1', '4']);
+    // Service 1's revenue budget is the only one, and it runs out before the end
+    expect(forecast.totals).toMatchObject({
+      status: 'at_risk',
+      budgeted_minutes: 6660,
+      worked_minutes: 540,
+      remaining_minutes: 6170,
+      projected_minutes_at_end: 1060,
+    });
+  });
+
+  it('spreads total-hours bookings over working days and skips the rest', () => {
+    const forecast = forecastBudget({
+      deal: deal(),
+      services: [service('1', { budgeted_time: 6000 })],
+      timeEntries: [entry('1', '2026-08-01', 6000), entry('2', '2026-10-18', 6000)],
+      bookings: [
+        // Monday to Sunday: 600 minutes over five working days
+        booking('1', {
+          started_on: '2026-10-26',
+          ended_on: '2026-11-01',
+          booking_method_id: 3,
+          total_time: 600,
+        }),
+        booking('1', { booking_method_id: 2, percentage: 50, ended_on: '2026-12-31' }),
+        booking('1', { time: 480, ended_on: '2026-12-31', draft: true }),
+        booking('1', { time: 480, ended_on: '2026-12-31', canceled: true }),
+      ],
+      today: TODAY,
+      lookbackDays: 28,
+    });
+
+    expect(forecast.services[0]).toMatchObject({
+      burn_rate_minutes_per_day: 0,
+      booked_minutes: 600,
+      projected_minutes_at_end: 600,
+      status: 'on_track',
+    });
+  });
+
+  it('only projects to the horizon without an end date', () => {
+    const forecast = forecastBudget({
+      deal: deal({ end_date: undefined }),
+      services: [service('1', { budgeted_time: 600, worked_time: 0 })],
+      timeEntries: [entry('1', '2026-10-12', 280)],
+      bookings: [],
+      today: TODAY,
+      lookbackDays: 14,
+      horizonDays: 60,
+    });
+
+    expect(forecast.deal.end_date).toBeNull();
+    expect(forecast.services[0]).toMatchObject({
+      status: 'at_risk',
+      // 20 minutes a day from tomorrow
+      exhausted_on: '2026-11-18',
+      exhausted_days_before_end: null,
+      projected_minutes_at_end: null,
+      projected_overrun_minutes: null,
+    });
+
+    const shortHorizon = forecastBudget({
+      deal: deal({ end_date: undefined }),
+      services: [service('1', { budgeted_time: 600, worked_time: 0 })],
+      timeEntries: [entry('1', '2026-10-12', 280)],
+      bookings: [],
+      today: TODAY,
+      lookbackDays: 14,
+      horizonDays: 20,
+    });
+    expect(shortHorizon.services[0]).toMatchObject({ status: 'on_track', exhausted_on: null });
+  });
+
+  it('does not project revenue for services billed per piece', () => {
+    const forecast = forecastBudget({
+      deal: deal(),
+      services: [service('1', { unit_id: 2, price: '5000', budget_total: '50000' })],
+      timeEntries: [],
+      bookings: [],
+      today: TODAY,
+      lookbackDays: 28,
+    });
+
+    expect(forecast.services[0].revenue).toBeNull();
+    expect(forecast.totals.revenue).toBeNull();
+  });
+});
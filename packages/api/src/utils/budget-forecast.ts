@@ -0,0 +1,378 @@
+/**
+ * Budget forecasting.
+ *
+ * Projects when the services of a deal run out of budget, in hours and in
+ * revenue. Consumption follows the bookings up to the last booked day of each
+ * service, then continues at the burn rate measured on recent time entries.
+ * Fetching the records is left to the caller, so the projection can run on
+ * any source of deals, services, time entries and bookings.
+ */
+
+import type {
+  ProductiveBooking,
+  ProductiveDeal,
+  ProductiveService,
+  ProductiveTimeEntry,
+} from '../types.js';
+
+import { BOOKING_METHOD } from '../constants.js';
+import { addDays } from './dates.js';
+
+/** How far to look for an exhaustion date when the deal ends sooner or has no end date */
+export const DEFAULT_FORECAST_HORIZON_DAYS = 365;
+
+const SERVICE_UNIT_HOUR = 1;
+
+export interface BudgetForecastInput {
+  deal: ProductiveDeal;
+  services: ProductiveService[];
+  /** Time entries of the lookback window; entries outside of it are ignored */
+  timeEntries: ProductiveTimeEntry[];
+  /** Bookings of the services; past days, drafts and canceled bookings are ignored */
+  bookings: ProductiveBooking[];
+  /** Day the forecast is made (YYYY-MM-DD); the projection starts the day after */
+  today: string;
+  /** Number of days before today the burn rate is measured on */
+  lookbackDays: number;
+  /** @default DEFAULT_FORECAST_HORIZON_DAYS */
+  horizonDays?: number;
+}
+
+/**
+ * - no_budget: nothing budgeted to compare against
+ * - over_budget: already used more than budgeted
+ * - at_risk: projected to run out before the deal ends (or within the horizon without an end date)
+ * - on_track: projected to last
+ */
+export type BudgetForecastStatus = 'no_budget' | 'over_budget' | 'at_risk' | 'on_track';
+
+/** Revenue projection, in currency units */
+export interface RevenueForecast {
+  budget: number;
+  used: number;
+  remaining: number;
+  /** Revenue used at the deal end date, null without an end date */
+  projected_at_end: number | null;
+  /** Revenue over budget at the deal end date, null without an end date */
+  projected_overrun: number | null;
+  /** Day the budget runs out, null when it lasts past the horizon or is already spent */
+  exhausted_on: string | null;
+}
+
+export interface ServiceForecast {
+  id: string;
+  name: string;
+  status: BudgetForecastStatus;
+  budgeted_minutes: number;
+  worked_minutes: number;
+  remaining_minutes: number;
+  /** Average minutes logged per day over the lookback window */
+  burn_rate_minutes_per_day: number;
+  /** Minutes booked from tomorrow on */
+  booked_minutes: number;
+  /** Day the budgeted time runs out, null when it lasts past the horizon or is already spent */
+  exhausted_on: string | null;
+  /**
+   * Days between the first exhaustion (hours or revenue) and the deal end
+   * date, negative when it comes after the end; null when either is unknown
+   */
+  exhausted_days_before_end: number | null;
+  /** Minutes worked at the deal end date, null without an end date */
+  projected_minutes_at_end: number | null;
+  /** Minutes over budget at the deal end date, null without an end date */
+  projected_overrun_minutes: number | null;
+  /** Only for hourly services with a price and a budget amount */
+  revenue: RevenueForecast | null;
+}
+
+export interface BudgetForecast {
+  deal: {
+    id: string;
+    name: string;
+    start_date: string | null;
+    end_date: string | null;
+    currency: string | null;
+  };
+  today: string;
+  lookback_days: number;
+  /** Most severe status of the services */
+  status: BudgetForecastStatus;
+  services: ServiceForecast[];
+  /** All services projected together */
+  totals: Omit<ServiceForecast, 'id' | 'name'>;
+  /** IDs of the services that are or will be over budget */
+  overruns: string[];
+}
+
+/** Daily consumption of one service, in minutes, aligned on the projected days */
+interface Projection {
+  service: ProductiveService;
+  minutes: number[];
+  burnRate: number;
+  booked: number;
+  /** Hourly price in cents, when revenue can be projected */
+  price: number | null;
+}
+
+const STATUS_SEVERITY: BudgetForecastStatus[] = ['no_budget', 'on_track', 'at_risk', 'over_budget'];
+
+function daysBetween(from: string, to: string): number {
+  return Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / 86_400_000);
+}
+
+function isWeekday(date: string): boolean {
+  const day = new Date(`${date}T00:00:00Z`).getUTCDay();
+  return day !== 0 && day !== 6;
+}
+
+function toNumber(value: string | number | null | undefined): number {
+  return Number(value ?? 0) || 0;
+}
+
+function round(value: number, decimals = 0): number {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+}
+
+function sum(values: number[]): number {
+  return values.reduce((total, value) => total + value, 0);
+}
+
+/**
+ * Minutes a booking takes on each working day, or null when it depends on the
+ * person's capacity (percentage bookings).
+ */
+function bookedMinutesPerDay(booking: ProductiveBooking): number | null {
+  const { booking_method_id, time, total_time, started_on, ended_on } = booking.attributes;
+  const method = String(booking_method_id);
+
+  if (method === BOOKING_METHOD.PER_DAY) return time ?? 0;
+  if (method !== BOOKING_METHOD.TOTAL_HOURS) return null;
+
+  let workingDays = 0;
+  for (let date = started_on; date <= ended_on; date = addDays(date, 1)) {
+    if (isWeekday(date)) workingDays++;
+  }
+  return workingDays > 0 ? (total_time ?? 0) / workingDays : 0;
+}
+
+/**
+ * Consumption per projected day: booked minutes up to the last booked day,
+ * the burn rate after it.
+ */
+function projectService(
+  service: ProductiveService,
+  days: string[],
+  burnRate: number,
+  bookings: ProductiveBooking[],
+): Projection {
+  const booked = new Map<string, number>();
+  let lastBookedDay = '';
+
+  for (const booking of bookings) {
+    const perDay = bookedMinutesPerDay(booking);
+    if (perDay === null) continue;
+    const { started_on, ended_on } = booking.attributes;
+    for (let date = started_on; date <= ended_on; date = addDays(date, 1)) {
+      if (date >= days[0] && isWeekday(date)) booked.set(date, (booked.get(date) ?? 0) + perDay);
+    }
+    if (ended_on > lastBookedDay) lastBookedDay = ended_on;
+  }
+
+  const { unit_id, price } = service.attributes;
+  const hourly = unit_id === undefined || unit_id === null || unit_id === SERVICE_UNIT_HOUR;
+  const cents = toNumber(price);
+
+  return {
+    service,
+    minutes: days.map((date) => (date <= lastBookedDay ? (booked.get(date) ?? 0) : burnRate)),
+    burnRate,
+    booked: sum([...booked.values()]),
+    price: hourly && cents > 0 ? cents : null,
+  };
+}
+
+/** First day the cumulative consumption covers what remains */
+function exhaustionDay(days: string[], consumption: number[], remaining: number): string | null {
+  if (remaining <= 0) return null;
+  let total = 0;
+  for (const [index, amount] of consumption.entries()) {
+    total += amount;
+    if (total >= remaining) return days[index];
+  }
+  return null;
+}
+
+/** Consumption up to the end date, or null without one */
+function consumedUntil(
+  days: string[],
+  consumption: number[],
+  endDate: string | null,
+): number | null {
+  if (!endDate) return null;
+  return sum(consumption.filter((_, index) => days[index] <= endDate));
+}
+
+function statusOf(
+  budget: number,
+  used: number,
+  exhaustedOn: string | null,
+  endDate: string | null,
+): BudgetForecastStatus {
+  if (budget <= 0) return 'no_budget';
+  if (used >= budget) return 'over_budget';
+  if (exhaustedOn && (!endDate || exhaustedOn <= endDate)) return 'at_risk';
+  return 'on_track';
+}
+
+function worstStatus(statuses: BudgetForecastStatus[]): BudgetForecastStatus {
+  return statuses.reduce<BudgetForecastStatus>(
+    (worst, status) =>
+      STATUS_SEVERITY.indexOf(status) > STATUS_SEVERITY.indexOf(worst) ? status : worst,
+    'no_budget',
+  );
+}
+
+function forecastRevenue(
+  projections: Projection[],
+  days: string[],
+  endDate: string | null,
+): RevenueForecast | null {
+  const priced = projections.filter(
+    ({ service, price }) => price !== null && toNumber(service.attributes.budget_total) > 0,
+  );
+  if (priced.length === 0) return null;
+
+  const budget = sum(priced.map(({ service }) => toNumber(service.attributes.budget_total)));
+  const used = sum(priced.map(({ service }) => toNumber(service.attributes.budget_used)));
+  const consumption = days.map((_, index) =>
+    sum(priced.map(({ minutes, price }) => (minutes[index] * (price ?? 0)) / 60)),
+  );
+  const projected = consumedUntil(days, consumption, endDate);
+
+  return {
+    budget: round(budget / 100, 2),
+    used: round(used / 100, 2),
+    remaining: round(Math.max(0, budget - used) / 100, 2),
+    projected_at_end: projected === null ? null : round((used + projected) / 100, 2),
+    projected_overrun:
+      projected === null ? null : round(Math.max(0, used + projected - budget) / 100, 2),
+    exhausted_on: exhaustionDay(days, consumption, budget - used),
+  };
+}
+
+function dailyConsumption(projections: Projection[], days: string[]): number[] {
+  return days.map((_, index) => sum(projections.map(({ minutes }) => minutes[index])));
+}
+
+/**
+ * Hours and revenue projection of one or more services projected together.
+ * Time on services without a budget counts towards the projected minutes but
+ * not towards exhausting the budget of the others.
+ */
+function forecastProjections(
+  projections: Projection[],
+  days: string[],
+  endDate: string | null,
+): Omit<ServiceForecast, 'id' | 'name'> {
+  const withBudget = projections.filter(
+    ({ service }) => (service.attributes.budgeted_time ?? 0) > 0,
+  );
+  const budgeted = sum(withBudget.map(({ service }) => service.attributes.budgeted_time ?? 0));
+  const worked = sum(projections.map(({ service }) => service.attributes.worked_time ?? 0));
+  const workedOnBudget = sum(withBudget.map(({ service }) => service.attributes.worked_time ?? 0));
+  const projected = consumedUntil(days, dailyConsumption(projections, days), endDate);
+  const budgetConsumption = dailyConsumption(withBudget, days);
+  const projectedOnBudget = consumedUntil(days, budgetConsumption, endDate);
+  const exhaustedOn = exhaustionDay(days, budgetConsumption, budgeted - workedOnBudget);
+  const revenue = forecastRevenue(projections, days, endDate);
+
+  const status = worstStatus([
+    statusOf(budgeted, workedOnBudget, exhaustedOn, endDate),
+    revenue ? statusOf(revenue.budget, revenue.used, revenue.exhausted_on, endDate) : 'no_budget',
+  ]);
+  const firstExhaustion = [exhaustedOn, revenue?.exhausted_on]
+    .filter((date): date is string => Boolean(date))
+    .toSorted()[0];
+
+  return {
+    status,
+    budgeted_minutes: budgeted,
+    worked_minutes: worked,
+    remaining_minutes: Math.max(0, budgeted - workedOnBudget),
+    burn_rate_minutes_per_day: round(sum(projections.map(({ burnRate }) => burnRate)), 1),
+    booked_minutes: round(sum(projections.map(({ booked }) => booked))),
+    exhausted_on: exhaustedOn,
+    exhausted_days_before_end:
+      firstExhaustion && endDate ? daysBetween(firstExhaustion, endDate) : null,
+    projected_minutes_at_end: projected === null ? null : round(worked + projected),
+    projected_overrun_minutes:
+      projectedOnBudget === null || budgeted <= 0
+        ? null
+        : round(Math.max(0, workedOnBudget + projectedOnBudget - budgeted)),
+    revenue,
+  };
+}
+
+/**
+ * Project the budget of a deal's services and of the deal as a whole.
+ *
+ * Percentage bookings are left out: their minutes depend on capacity, which
+ * the bookings do not carry.
+ */
+export function forecastBudget(input: BudgetForecastInput): BudgetForecast {
+  const { deal, today, lookbackDays } = input;
+  const endDate = deal.attributes.end_date || null;
+  const horizon = addDays(today, input.horizonDays ?? DEFAULT_FORECAST_HORIZON_DAYS);
+  const lastDay = endDate && endDate > horizon ? endDate : horizon;
+
+  const days: string[] = [];
+  for (let date = addDays(today, 1); date <= lastDay; date = addDays(date, 1)) days.push(date);
+
+  const windowStart = addDays(today, -lookbackDays);
+  const logged = new Map<string, number>();
+  for (const entry of input.timeEntries) {
+    const serviceId = entry.relationships?.service?.data?.id;
+    const { date, time } = entry.attributes;
+    if (!serviceId || date < windowStart || date >= today) continue;
+    logged.set(serviceId, (logged.get(serviceId) ?? 0) + time);
+  }
+
+  const projections = input.services.map((service) =>
+    projectService(
+      service,
+      days,
+      lookbackDays > 0 ? (logged.get(service.id) ?? 0) / lookbackDays : 0,
+      input.bookings.filter(
+        (booking) =>
+          booking.relationships?.service?.data?.id === service.id &&
+          !booking.attributes.draft &&
+          !booking.attributes.canceled,
+      ),
+    ),
+  );
+
+  const services = projections.map((projection) => ({
+    id: projection.service.id,
+    name: projection.service.attributes.name,
+    ...forecastProjections([projection], days, endDate),
+  }));
+
+  return {
+    deal: {
+      id: deal.id,
+      name: deal.attributes.name,
+      start_date: deal.attributes.date || null,
+      end_date: endDate,
+      currency: deal.attributes.currency || null,
+    },
+    today,
+    lookback_days: lookbackDays,
+    status: worstStatus(services.map((service) => service.status)),
+    services,
+    totals: forecastProjections(projections, days, endDate),
+    overruns: services
+      .filter((service) => service.status === 'over_budget' || service.status === 'at_risk')
+      .map((service) => service.id),
+  };
+}
@@ -0,0 +1,20 @@
+import { describe, expect, it } from 'vitest';
+
+import { addDays, todayInTimezone } from './dates.js';
+
+describe('todayInTimezone', () => {
+  it('reads the date in the timezone rather than in UTC', () => {
+    const now = new Date('2026-10-19T23:30:00Z');
+
+    expect(todayInTimezone('UTC', now)).toBe('2026-10-19');
+    expect(todayInTimezone('Europe/Paris', now)).toBe('2026-10-20');
+    expect(todayInTimezone('America/Los_Angeles', now)).toBe('2026-10-19');
+  });
+});
+
+describe('addDays', () => {
+  it('shifts across months and years', () => {
+    expect(addDays('2026-10-19', 13)).toBe('2026-11-01');
+    expect(addDays('2027-01-01', -1)).toBe('2026-12-31');
+  });
+});
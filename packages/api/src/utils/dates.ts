@@ -0,0 +1,33 @@
+/**
+ * Calendar date helpers shared by the client and the budget forecast.
+ *
+ * Dates are YYYY-MM-DD strings. "Today" is read in an IANA timezone rather
+ * than from `toISOString()`, which gives the UTC date and is a day off for
+ * part of the day anywhere else.
+ */
+
+/**
+ * Shift a YYYY-MM-DD date by a number of days.
+ */
+export function addDays(date: string, days: number): string {
+  const day = new Date(`${date}T00:00:00Z`);
+  day.setUTCDate(day.getUTCDate() + days);
+  return day.toISOString().slice(0, 10);
+}
+
+/**
+ * Today's date (YYYY-MM-DD) in an IANA timezone, the system one by default.
+ */
+export function todayInTimezone(timezone?: string, now: Date = new Date()): string {
+  const parts: Record<string, string> = {};
+  const formatter = new Intl.DateTimeFormat('en-US', {
+    timeZone: timezone || undefined,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+  });
+  for (const part of formatter.formatToParts(now)) {
+    parts[part.type] = part.value;
+  }
+  return `${parts.year}-${parts.month}-${parts.day}`;
+}
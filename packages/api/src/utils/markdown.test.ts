@@ -0,0 +1,188 @@
+import { describe, expect, it } from 'vitest';
+
+import { htmlToMarkdown, markdownToHtml } from './markdown.js';
+
+describe('htmlToMarkdown', () => {
+  it('returns empty string for null/undefined', () => {
+    expect(htmlToMarkdown(null)).toBe('');
+    expect(htmlToMarkdown(undefined)).toBe('');
+  });
+
+  it('converts paragraphs, headings and line breaks', () => {
+    expect(htmlToMarkdown('<h2>Plan</h2><p>First<br>second</p><p>Third</p>')).toBe(
+      '## Plan\n\nFirst\nsecond\n\nThird',
+    );
+  });
+
+  it('converts inline formatting and links', () => {
+    expect(
+      htmlToMarkdown(
+        '<p><strong>bold</strong>, <em>italic</em>, <del>gone</del>, <code>a_b</code> and <a href="https://example.com">a link</a></p>',
+      ),
+    ).toBe('**bold**, *italic*, ~~gone~~, `a_b` and [a link](https://example.com)');
+  });
+
+  it('converts images', () => {
+    expect(htmlToMarkdown('<img src="https://example.com/a.png" alt="Chart">')).toBe(
+      '![Chart](https://example.com/a.png)',
+    );
+  });
+
+  it('keeps parentheses in link targets and drops unsafe ones', () => {
+    expect(
+      htmlToMarkdown(
+        '<a href="https://en.wikipedia.org/wiki/Tree_(graph_theory)">Trees</a> <a href="https://a.io/a)b">odd</a> <a href="javascript:alert(1)">click</a> <img src="data:image/png;base64,AA" alt="x">',
+      ),
+    ).toBe(
+      '[Trees](https://en.wikipedia.org/wiki/Tree_(graph_theory)) [odd](https://a.io/a%29b) click',
+    );
+  });
+
+  it('decodes out of range character references to the replacement character', () => {
+    expect(htmlToMarkdown('<p>&#99999999; &#x110000; &#x41;</p>')).toBe('\uFFFD \uFFFD A');
+  });
+
+  it('converts nested and ordered lists', () => {
+    expect(
+      htmlToMarkdown(
+        '<ul><li>One</li><li>Two<ul><li>Nested</li></ul></li></ul><ol start="3"><li>Three</li></ol>',
+      ),
+    ).toBe('- One\n- Two\n  - Nested\n\n3. Three');
+  });
+
+  it('converts lists nested directly in their parent list', () => {
+    expect(htmlToMarkdown('<ul><li>One</li><ul><li>Nested</li></ul></ul>')).toBe(
+      '- One\n  - Nested',
+    );
+  });
+
+  it('converts code blocks with their language', () => {
+    expect(
+      htmlToMarkdown('<pre><code class="language-ts">if (a &lt; b) {\n  run();\n}\n</code></pre>'),
+    ).toBe('```ts\nif (a < b) {\n  run();\n}\n```');
+  });
+
+  it('converts blockquotes and rules', () => {
+    expect(htmlToMarkdown('<blockquote><p>One</p><p>Two</p></blockquote><hr>')).toBe(
+      '> One\n>\n> Two\n\n---',
+    );
+  });
+
+  it('converts tables', () => {
+    expect(
+      htmlToMarkdown(
+        '<table><thead><tr><th>Name</th><th>Hours</th></tr></thead><tbody><tr><td>A | B</td><td>2</td></tr></tbody></table>',
+      ),
+    ).toBe('| Name | Hours |\n| --- | --- |\n| A \\| B | 2 |');
+  });
+
+  it('converts mentions', () => {
+    expect(
+      htmlToMarkdown(
+        '<p>Hi [person]{&quot;id&quot;:&quot;12&quot;,&quot;type&quot;:&quot;person&quot;,&quot;label&quot;:&quot;Jane Doe&quot;}[/person]</p>',
+      ),
+    ).toBe('Hi @[Jane Doe](person:12)');
+  });
+
+  it('escapes text that would read as Markdown', () => {
+    expect(htmlToMarkdown('<p>2*3 _x_ snake_case &lt;b&gt;</p>')).toBe(
+      '2\\*3 \\_x\\_ snake_case \\<b>',
+    );
+  });
+
+  it('tolerates unclosed tags', () => {
+    expect(htmlToMarkdown('<p>One<p>Two <strong>bold')).toBe('One\n\nTwo **bold**');
+  });
+});
+
+describe('markdownToHtml', () => {
+  it('keeps undefined', () => {
+    expect(markdownToHtml(undefined)).toBeUndefined();
+  });
+
+  it('converts paragraphs with line breaks', () => {
+    expect(markdownToHtml('One\ntwo\n\nThree')).toBe('<p>One<br>two</p><p>Three</p>');
+  });
+
+  it('converts headings, rules and blockquotes', () => {
+    expect(markdownToHtml('# Title\n\n---\n\n> Quoted\n> text')).toBe(
+      '<h1>Title</h1><hr><blockquote><p>Quoted<br>text</p></blockquote>',
+    );
+  });
+
+  it('converts inline formatting', () => {
+    expect(markdownToHtml('**bold** *it* _it_ ~~del~~ `a*b` snake_case_name')).toBe(
+      '<p><strong>bold</strong> <em>it</em> <em>it</em> <del>del</del> <code>a*b</code> snake_case_name</p>',
+    );
+  });
+
+  it('converts links, autolinks and images', () => {
+    expect(
+      markdownToHtml('[**Docs**](https://example.com) <https://a.io> ![Chart](https://a.io/c.png)'),
+    ).toBe(
+      '<p><a href="https://example.com"><strong>Docs</strong></a> <a href="https://a.io">https://a.io</a> <img src="https://a.io/c.png" alt="Chart"></p>',
+    );
+  });
+
+  it('keeps parentheses in link targets', () => {
+    expect(
+      markdownToHtml(
+        '[Trees](https://en.wikipedia.org/wiki/Tree_(graph_theory)) ![Plot](https://a.io/p(1).png)',
+      ),
+    ).toBe(
+      '<p><a href="https://en.wikipedia.org/wiki/Tree_(graph_theory)">Trees</a> <img src="https://a.io/p(1).png" alt="Plot"></p>',
+    );
+  });
+
+  it('drops link targets other than http(s) and mailto', () => {
+    expect(markdownToHtml('[click](javascript:alert(1)) ![x](data:x) [mail](mailto:a@b.io)')).toBe(
+      '<p>click x <a href="mailto:a@b.io">mail</a></p>',
+    );
+  });
+
+  it('converts nested lists', () => {
+    expect(markdownToHtml('- One\n- Two\n  1. Sub\n  2. Sub\n- Three')).toBe(
+      '<ul><li>One</li><li>Two<ol><li>Sub</li><li>Sub</li></ol></li><li>Three</li></ul>',
+    );
+  });
+
+  it('converts code blocks and escapes their content', () => {
+    expect(markdownToHtml('```js\nif (a < b) {}\n```')).toBe(
+      '<pre><code class="language-js">if (a &lt; b) {}</code></pre>',
+    );
+  });
+
+  it('converts tables', () => {
+    expect(markdownToHtml('| A | B |\n| --- | --- |\n| 1 | x \\| y |')).toBe(
+      '<table><thead><tr><th>A</th><th>B</th></tr></thead><tbody><tr><td>1</td><td>x | y</td></tr></tbody></table>',
+    );
+  });
+
+  it('converts mentions to Productive tokens', () => {
+    expect(markdownToHtml('Thanks @[Jane Doe](person:12)')).toBe(
+      '<p>Thanks [person]{"id":"12","type":"person","label":"Jane Doe"}[/person]</p>',
+    );
+  });
+
+  it('escapes HTML special characters and honours backslash escapes', () => {
+    expect(markdownToHtml('1 < 2 & 3 \\*not italic\\*')).toBe(
+      '<p>1 &lt; 2 &amp; 3 *not italic*</p>',
+    );
+  });
+
+  it('passes raw HTML through', () => {
+    expect(markdownToHtml('<p>Already <b>HTML</b></p>')).toBe('<p>Already <b>HTML</b></p>');
+    expect(markdownToHtml('Some <u>underlined</u> text')).toBe(
+      '<p>Some <u>underlined</u> text</p>',
+    );
+  });
+});
+
+describe('round trip', () => {
+  it('keeps rich text through Markdown', () => {
+    const html =
+      '<h2>Plan</h2><p>Ask <strong>Jane</strong> about <a href="https://example.com">the spec</a>.<br>Then ship.</p><ul><li>One</li><li>Two<ul><li>Nested</li></ul></li></ul><pre><code class="language-sh">npm test</code></pre><table><thead><tr><th>A</th></tr></thead><tbody><tr><td>1</td></tr></tbody></table><p>[person]{"id":"1","type":"person","label":"Jane"}[/person]</p>';
+
+    expect(markdownToHtml(htmlToMarkdown(html))).toBe(html);
+  });
+});
@@ -0,0 +1,641 @@
+/**
+ * Markdown ⇄ HTML conversion for Productive rich text fields (task
+ * descriptions, comment bodies, page content).
+ *
+ * Unlike `stripHtml`, both directions keep the structure: headings, lists,
+ * links, images, emphasis, inline code and code blocks, blockquotes, tables
+ * and @mentions survive a round trip. Productive stores mentions as
+ * `[person]{"id":"1","type":"person","label":"Jane Doe"}[/person]` tokens,
+ * written `@[Jane Doe](person:1)` in Markdown.
+ *
+ * `markdownToHtml` passes raw HTML through, as Markdown does, so bodies that
+ * are already HTML are sent unchanged. Links and images only keep http(s) and
+ * mailto targets in either direction; other targets leave their text alone.
+ */
+
+// ============================================================================
+// HTML → Markdown
+// ============================================================================
+
+interface ElementNode {
+  tag: string;
+  attrs: Record<string, string>;
+  children: HtmlNode[];
+}
+
+type HtmlNode = ElementNode | string;
+
+const VOID_TAGS = new Set(['br', 'hr', 'img', 'input', 'meta', 'link', 'col', 'source', 'wbr']);
+
+const BLOCK_TAGS = new Set([
+  'p',
+  'div',
+  'section',
+  'article',
+  'header',
+  'footer',
+  'figure',
+  'h1',
+  'h2',
+  'h3',
+  'h4',
+  'h5',
+  'h6',
+  'ul',
+  'ol',
+  'li',
+  'pre',
+  'blockquote',
+  'hr',
+  'table',
+]);
+
+const TOKEN_PATTERN =
+  /<!--[\s\S]*?-->|<(\/?)([a-zA-Z][a-zA-Z0-9]*)((?:[^>"']|"[^"]*"|'[^']*')*)>|[^<]+|</g;
+
+const ATTRIBUTE_PATTERN = /([^\s=/]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+)))?/g;
+
+const MENTION_TOKEN_PATTERN = /\[person\](\{.*?\})\[\/person\]/g;
+
+/** Link and image targets kept in either direction; others are dropped */
+const SAFE_URL_PATTERN = /^(?:https?:|mailto:)/i;
+
+/** A link destination Markdown reads whole: no spaces, parentheses balanced one level deep */
+const DESTINATION_PATTERN = /^(?:[^()\s]|\([^()\s]*\))+$/;
+
+const ENTITIES: Record<string, string> = {
+  nbsp: ' ',
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+};
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, name: string) => {
+    if (name[0] === '#') {
+      const code =
+        name[1] === 'x' || name[1] === 'X'
+          ? Number.parseInt(name.slice(2), 16)
+          : Number.parseInt(name.slice(1), 10);
+      // Out of range code points decode to the replacement character, as in browsers
+      return code <= 0x10ffff ? String.fromCodePoint(code) : '\uFFFD';
+    }
+    return ENTITIES[name.toLowerCase()] ?? entity;
+  });
+}
+
+function isSafeUrl(url: string): boolean {
+  return SAFE_URL_PATTERN.test(url.trim());
+}
+
+/** Percent-encode what would end a Markdown link destination early */
+function markdownDestination(url: string): string {
+  if (DESTINATION_PATTERN.test(url)) return url;
+  return url.replace(
+    /[()\s]/g,
+    (char) => `%${char.charCodeAt(0).toString(16).toUpperCase().padStart(2, '0')}`,
+  );
+}
+
+function parseAttributes(source: string): Record<string, string> {
+  const attrs: Record<string, string> = {};
+  for (const match of source.matchAll(ATTRIBUTE_PATTERN)) {
+    attrs[match[1].toLowerCase()] = decodeEntities(match[2] ?? match[3] ?? match[4] ?? '');
+  }
+  return attrs;
+}
+
+/**
+ * Parse HTML into a tree, tolerating unclosed and stray tags
+ */
+function parseHtml(html: string): ElementNode {
+  const root: ElementNode = { tag: '#root', attrs: {}, children: [] };
+  const stack: ElementNode[] = [root];
+
+  for (const match of html.matchAll(TOKEN_PATTERN)) {
+    const [token, closing, rawTag, rawAttrs] = match;
+    const parent = stack.at(-1)!;
+
+    if (token.startsWith('<!--')) continue;
+    if (!rawTag) {
+      parent.children.push(token);
+      continue;
+    }
+
+    const tag = rawTag.toLowerCase();
+    if (closing) {
+      const index = stack.findLastIndex((node) => node.tag === tag);
+      if (index > 0) stack.length = index;
+      continue;
+    }
+
+    const element: ElementNode = { tag, attrs: parseAttributes(rawAttrs), children: [] };
+    parent.children.push(element);
+    if (!VOID_TAGS.has(tag) && !rawAttrs.trimEnd().endsWith('/')) stack.push(element);
+  }
+
+  return root;
+}
+
+function textContent(node: HtmlNode): string {
+  if (typeof node === 'string') return decodeEntities(node);
+  if (node.tag === 'br') return '\n';
+  return node.children.map(textContent).join('');
+}
+
+/** Escape what `markdownToHtml` would otherwise read as syntax */
+function escapeMarkdown(text: string): string {
+  return text
+    .replace(/[\\*`]/g, '\\$&')
+    .replace(/(?<!\w)_|_(?!\w)/g, '\\_')
+    .replace(/<(?=[a-zA-Z/!])/g, '\\<');
+}
+
+/**
+ * Markdown of a text node: whitespace collapsed, Markdown syntax escaped
+ * and mention tokens turned into `@[label](person:id)`
+ */
+function renderText(text: string): string {
+  const decoded = decodeEntities(text).replace(/\s+/g, ' ');
+  let result = '';
+  let last = 0;
+  for (const match of decoded.matchAll(MENTION_TOKEN_PATTERN)) {
+    result += escapeMarkdown(decoded.slice(last, match.index));
+    result += renderMention(match[0], match[1]);
+    last = match.index + match[0].length;
+  }
+  return result + escapeMarkdown(decoded.slice(last));
+}
+
+function renderMention(token: string, json: string): string {
+  try {
+    const mention = JSON.parse(json) as { id?: unknown; type?: unknown; label?: unknown };
+    return `@[${String(mention.label ?? '')}](${String(mention.type ?? 'person')}:${String(mention.id ?? '')})`;
+  } catch {
+    return escapeMarkdown(token);
+  }
+}
+
+/** Wrap inline content in a delimiter, keeping surrounding spaces outside */
+function wrap(content: string, delimiter: string): string {
+  const match = /^(\s*)([\s\S]*?)(\s*)$/.exec(content)!;
+  if (!match[2]) return content;
+  return `${match[1]}${delimiter}${match[2]}${delimiter}${match[3]}`;
+}
+
+function codeSpan(code: string): string {
+  const longest = Math.max(0, ...(code.match(/`+/g) ?? []).map((run) => run.length));
+  const fence = '`'.repeat(longest + 1);
+  const padding = code.startsWith('`') || code.endsWith('`') ? ' ' : '';
+  return `${fence}${padding}${code}${padding}${fence}`;
+}
+
+function renderInline(nodes: HtmlNode[]): string {
+  return nodes.map(renderInlineNode).join('');
+}
+
+function renderInlineNode(node: HtmlNode): string {
+  if (typeof node === 'string') return renderText(node);
+
+  const inner = () => renderInline(node.children);
+  switch (node.tag) {
+    case 'br':
+      return '\n';
+    case 'strong':
+    case 'b':
+      return wrap(inner(), '**');
+    case 'em':
+    case 'i':
+      return wrap(inner(), '*');
+    case 's':
+    case 'del':
+    case 'strike':
+      return wrap(inner(), '~~');
+    case 'code':
+      return codeSpan(textContent(node));
+    case 'a': {
+      const text = inner();
+      const href = node.attrs.href;
+      if (!href || !isSafeUrl(href)) return text;
+      return `[${text || href}](${markdownDestination(href)})`;
+    }
+    case 'img': {
+      const src = node.attrs.src;
+      return src && isSafeUrl(src) ? `![${node.attrs.alt ?? ''}](${markdownDestination(src)})` : '';
+    }
+    default:
+      return BLOCK_TAGS.has(node.tag) ? `\n${renderBlocks(node.children, '\n')}\n` : inner();
+  }
+}
+
+/** Prefix every line but the first of a block with `indent` */
+function indentContinuation(text: string, indent: string): string {
+  return text.replaceAll('\n', `\n${indent}`).replace(/[ ]+$/gm, '');
+}
+
+function renderList(node: ElementNode): string {
+  const ordered = node.tag === 'ol';
+  let number = Number.parseInt(node.attrs.start ?? '1', 10) || 1;
+  const items: string[] = [];
+  let padding = '';
+
+  for (const child of node.children) {
+    if (typeof child === 'string') continue;
+    if (child.tag === 'li') {
+      const marker = ordered ? `${number++}. ` : '- ';
+      padding = ' '.repeat(marker.length);
+      items.push(`${marker}${indentContinuation(renderBlocks(child.children, '\n'), padding)}`);
+    } else if ((child.tag === 'ul' || child.tag === 'ol') && items.length > 0) {
+      // Some editors nest lists directly in their parent list
+      items.push(`${items.pop()}\n${padding}${indentContinuation(renderList(child), padding)}`);
+    }
+  }
+
+  return items.join('\n');
+}
+
+function renderCodeBlock(node: ElementNode): string {
+  const code = textContent(node).replace(/\n$/, '');
+  const codeElement = node.children.find(
+    (child): child is ElementNode => typeof child !== 'string' && child.tag === 'code',
+  );
+  const language = /(?:^|\s)language-(\S+)/.exec(codeElement?.attrs.class ?? '')?.[1] ?? '';
+  const longest = Math.max(2, ...(code.match(/`{3,}/g) ?? []).map((run) => run.length));
+  const fence = '`'.repeat(longest + 1);
+  return `${fence}${language}\n${code}\n${fence}`;
+}
+
+function tableRows(node: ElementNode): ElementNode[] {
+  return node.children.flatMap((child) => {
+    if (typeof child === 'string') return [];
+    if (child.tag === 'tr') return [child];
+    return ['thead', 'tbody', 'tfoot'].includes(child.tag) ? tableRows(child) : [];
+  });
+}
+
+function renderTable(node: ElementNode): string {
+  const rows = tableRows(node).map((row) =>
+    row.children
+      .filter(
+        (cell): cell is ElementNode =>
+          typeof cell !== 'string' && (cell.tag === 'td' || cell.tag === 'th'),
+      )
+      .map((cell) =>
+        renderInline(cell.children)
+          .replace(/\s*\n\s*/g, ' ')
+          .trim()
+          .replaceAll('|', '\\|'),
+      ),
+  );
+  if (rows.length === 0) return '';
+
+  const width = Math.max(...rows.map((row) => row.length));
+  const line = (cells: string[]) =>
+    `| ${Array.from({ length: width }, (_, index) => cells[index] ?? '').join(' | ')} |`;
+  return [
+    line(rows[0]),
+    line(Array.from({ length: width }, () => '---')),
+    ...rows.slice(1).map(line),
+  ].join('\n');
+}
+
+function renderBlock(node: ElementNode): string {
+  switch (node.tag) {
+    case 'h1':
+    case 'h2':
+    case 'h3':
+    case 'h4':
+    case 'h5':
+    case 'h6': {
+      const text = renderInline(node.children)
+        .replace(/\s*\n\s*/g, ' ')
+        .trim();
+      return `${'#'.repeat(Number(node.tag[1]))} ${text}`;
+    }
+    case 'ul':
+    case 'ol':
+      return renderList(node);
+    case 'pre':
+      return renderCodeBlock(node);
+    case 'blockquote':
+      return renderBlocks(node.children, '\n\n')
+        .split('\n')
+        .map((line) => (line ? `> ${line}` : '>'))
+        .join('\n');
+    case 'hr':
+      return '---';
+    case 'table':
+      return renderTable(node);
+    case 'li':
+      return `- ${indentContinuation(renderBlocks(node.children, '\n'), '  ')}`;
+    default:
+      return renderBlocks(node.children, '\n\n');
+  }
+}
+
+/** Trim a paragraph, including the spaces around its line breaks */
+function cleanParagraph(text: string): string {
+  return text
+    .split('\n')
+    .map((line) => line.trim())
+    .join('\n')
+    .trim();
+}
+
+/**
+ * Render sibling nodes: runs of inline content become paragraphs, block
+ * elements are rendered on their own, joined by `separator`
+ */
+function renderBlocks(nodes: HtmlNode[], separator: string): string {
+  const blocks: string[] = [];
+  let inline: HtmlNode[] = [];
+
+  const flush = () => {
+    const paragraph = cleanParagraph(renderInline(inline));
+    if (paragraph) blocks.push(paragraph);
+    inline = [];
+  };
+
+  for (const node of nodes) {
+    if (typeof node !== 'string' && BLOCK_TAGS.has(node.tag)) {
+      flush();
+      const block = renderBlock(node);
+      if (block.trim()) blocks.push(block);
+    } else {
+      inline.push(node);
+    }
+  }
+  flush();
+
+  return blocks.join(separator);
+}
+
+/**
+ * Convert Productive rich text HTML to Markdown.
+ */
+export function htmlToMarkdown(html: string | null | undefined): string {
+  if (!html) return '';
+  return renderBlocks(parseHtml(html).children, '\n\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+// ============================================================================
+// Markdown → HTML
+// ============================================================================
+
+const FENCE_PATTERN = /^ {0,3}(`{3,}|~{3,})\s*([\w+-]*)\s*$/;
+const HEADING_PATTERN = /^ {0,3}(#{1,6})\s+(.*?)\s*#*\s*$/;
+const RULE_PATTERN = /^ {0,3}([-*_])(\s*\1){2,}\s*$/;
+const QUOTE_PATTERN = /^ {0,3}> ?/;
+const LIST_ITEM_PATTERN = /^(\s*)([-*+]|\d{1,9}[.)])\s+(.*)$/;
+const TABLE_SEPARATOR_PATTERN = /^\s*\|?\s*:?-+:?\s*(\|\s*:?-+:?\s*)*\|?\s*$/;
+const HTML_BLOCK_PATTERN =
+  /^\s*<\/?(p|div|section|article|figure|h[1-6]|ul|ol|li|pre|blockquote|hr|table|thead|tbody|tr)\b/i;
+// Destinations may hold parentheses balanced one level deep, as in Wikipedia URLs
+const IMAGE_PATTERN = /!\[([^\]]*)\]\(((?:[^()\s]|\([^()\s]*\))+)\)/g;
+const LINK_PATTERN = /\[([^\]]+)\]\(((?:[^()\s]|\([^()\s]*\))+)\)/g;
+const INLINE_TAG_PATTERN = /<\/?[a-zA-Z][a-zA-Z0-9]*(?:[^>"']|"[^"]*"|'[^']*')*>/g;
+
+function escapeHtml(text: string): string {
+  return text.replaceAll('&', '&amp;').replaceAll('<', '&lt;').replaceAll('>', '&gt;');
+}
+
+function escapeAttribute(text: string): string {
+  return escapeHtml(text).replaceAll('"', '&quot;');
+}
+
+/**
+ * Render inline Markdown. Code spans, links, mentions, raw HTML tags and
+ * backslash escapes are set aside first so emphasis rules leave them alone.
+ */
+function renderInlineMarkdown(text: string): string {
+  const reserved: string[] = [];
+  const reserve = (html: string) => `\u0000${reserved.push(html) - 1}\u0000`;
+
+  let result = text
+    .replace(/(`+)([\s\S]*?[^`])\1(?!`)/g, (_, __, code: string) => {
+      const trimmed = /^ .* $/.test(code) ? code.slice(1, -1) : code;
+      return reserve(`<code>${escapeHtml(trimmed)}</code>`);
+    })
+    .replace(/\\([\\`*_{}[\]()#+\-.!|~<>])/g, (_, char: string) => reserve(escapeHtml(char)))
+    .replace(/@\[([^\]]*)\]\(([a-z]+):([^)\s]+)\)/g, (_, label: string, type: string, id: string) =>
+      reserve(escapeHtml(`[${type}]${JSON.stringify({ id, type, label })}[/${type}]`)),
+    )
+    .replace(IMAGE_PATTERN, (_, alt: string, src: string) =>
+      reserve(
+        isSafeUrl(src)
+          ? `<img src="${escapeAttribute(src)}" alt="${escapeAttribute(alt)}">`
+          : escapeHtml(alt),
+      ),
+    )
+    .replace(LINK_PATTERN, (_, label: string, href: string) =>
+      reserve(
+        isSafeUrl(href)
+          ? `<a href="${escapeAttribute(href)}">${renderInlineMarkdown(label)}</a>`
+          : renderInlineMarkdown(label),
+      ),
+    )
+    .replace(/<(https?:\/\/[^>\s]+)>/g, (_, href: string) =>
+      reserve(`<a href="${escapeAttribute(href)}">${escapeHtml(href)}</a>`),
+    )
+    .replace(INLINE_TAG_PATTERN, (tag) => reserve(tag));
+
+  result = escapeHtml(result)
+    .replace(/\*\*(?=\S)([\s\S]*?\S)\*\*/g, '<strong>$1</strong>')
+    .replace(/(^|[^\w])__(?=\S)([\s\S]*?\S)__(?![\w])/g, '$1<strong>$2</strong>')
+    .replace(/\*(?=\S)([\s\S]*?\S)\*/g, '<em>$1</em>')
+    .replace(/(^|[^\w])_(?=\S)([\s\S]*?\S)_(?![\w])/g, '$1<em>$2</em>')
+    .replace(/~~(?=\S)([\s\S]*?\S)~~/g, '<del>$1</del>');
+
+  // Reserved fragments may contain other reserved fragments (link labels)
+  while (result.includes('\u0000')) {
+    result = result.replace(/\u0000(\d+)\u0000/g, (_, index: string) => reserved[Number(index)]);
+  }
+  return result;
+}
+
+function splitTableRow(line: string): string[] {
+  const cells = line
+    .trim()
+    .replace(/^\|/, '')
+    .replace(/(?<!\\)\|$/, '')
+    .split(/(?<!\\)\|/);
+  return cells.map((cell) => cell.trim().replaceAll('\\|', '|'));
+}
+
+interface ListItem {
+  lines: string[];
+}
+
+/**
+ * Render the list starting at `start`, nested lists included; returns the
+ * HTML and the index of the first line after it
+ */
+function renderMarkdownList(lines: string[], start: number): { html: string; end: number } {
+  const first = LIST_ITEM_PATTERN.exec(lines[start])!;
+  const indent = first[1].length;
+  const ordered = /\d/.test(first[2]);
+  const items: ListItem[] = [];
+  let index = start;
+
+  while (index < lines.length) {
+    const line = lines[index];
+    const item = LIST_ITEM_PATTERN.exec(line);
+
+    if (item && item[1].length === indent) {
+      if (/\d/.test(item[2]) !== ordered) break;
+      items.push({ lines: [item[3]] });
+    } else if (line.trim() === '') {
+      // A blank line ends the list unless an item or indented content follows
+      const next = lines[index + 1];
+      const nextItem = next === undefined ? null : LIST_ITEM_PATTERN.exec(next);
+      const continues = nextItem
+        ? nextItem[1].length >= indent
+        : (next?.search(/\S/) ?? -1) > indent;
+      if (!continues) break;
+      items.at(-1)!.lines.push('');
+    } else if (line.search(/\S/) > indent) {
+      items.at(-1)!.lines.push(line.slice(indent));
+    } else {
+      break;
+    }
+    index++;
+  }
+
+  const tag = ordered ? 'ol' : 'ul';
+  const startNumber = Number.parseInt(first[2], 10);
+  const startAttr = ordered && startNumber !== 1 ? ` start="${startNumber}"` : '';
+  const html = items
+    .map((item) => {
+      const [text, ...rest] = item.lines;
+      const nested = rest.length > 0 ? renderMarkdownBlocks(dedent(rest)) : '';
+      return `<li>${renderInlineMarkdown(text)}${nested}</li>`;
+    })
+    .join('');
+  return { html: `<${tag}${startAttr}>${html}</${tag}>`, end: index };
+}
+
+function dedent(lines: string[]): string[] {
+  const indents = lines.filter((line) => line.trim()).map((line) => line.search(/\S/));
+  const common = Math.min(...indents);
+  return lines.map((line) => line.slice(common));
+}
+
+function isBlockStart(lines: string[], index: number): boolean {
+  const line = lines[index];
+  return (
+    FENCE_PATTERN.test(line) ||
+    HEADING_PATTERN.test(line) ||
+    RULE_PATTERN.test(line) ||
+    QUOTE_PATTERN.test(line) ||
+    LIST_ITEM_PATTERN.test(line) ||
+    (line.includes('|') && TABLE_SEPARATOR_PATTERN.test(lines[index + 1] ?? ''))
+  );
+}
+
+function renderMarkdownBlocks(lines: string[]): string {
+  const html: string[] = [];
+  let index = 0;
+
+  while (index < lines.length) {
+    const line = lines[index];
+
+    if (line.trim() === '') {
+      index++;
+      continue;
+    }
+
+    const fence = FENCE_PATTERN.exec(line);
+    if (fence) {
+      const code: string[] = [];
+      index++;
+      while (index < lines.length && !lines[index].trim().startsWith(fence[1])) {
+        code.push(lines[index++]);
+      }
+      index++;
+      const language = fence[2] ? ` class="language-${escapeAttribute(fence[2])}"` : '';
+      html.push(`<pre><code${language}>${escapeHtml(code.join('\n'))}</code></pre>`);
+      continue;
+    }
+
+    const heading = HEADING_PATTERN.exec(line);
+    if (heading) {
+      const level = heading[1].length;
+      html.push(`<h${level}>${renderInlineMarkdown(heading[2])}</h${level}>`);
+      index++;
+      continue;
+    }
+
+    if (RULE_PATTERN.test(line)) {
+      html.push('<hr>');
+      index++;
+      continue;
+    }
+
+    if (QUOTE_PATTERN.test(line)) {
+      const quoted: string[] = [];
+      while (index < lines.length && QUOTE_PATTERN.test(lines[index])) {
+        quoted.push(lines[index++].replace(QUOTE_PATTERN, ''));
+      }
+      html.push(`<blockquote>${renderMarkdownBlocks(quoted)}</blockquote>`);
+      continue;
+    }
+
+    if (LIST_ITEM_PATTERN.test(line)) {
+      const list = renderMarkdownList(lines, index);
+      html.push(list.html);
+      index = list.end;
+      continue;
+    }
+
+    if (line.includes('|') && TABLE_SEPARATOR_PATTERN.test(lines[index + 1] ?? '')) {
+      const header = splitTableRow(line);
+      const rows: string[][] = [];
+      index += 2;
+      while (index < lines.length && lines[index].includes('|') && lines[index].trim()) {
+        rows.push(splitTableRow(lines[index++]));
+      }
+      const cells = (row: string[], tag: string) =>
+        row.map((cell) => `<${tag}>${renderInlineMarkdown(cell)}</${tag}>`).join('');
+      html.push(
+        `<table><thead><tr>${cells(header, 'th')}</tr></thead><tbody>${rows
+          .map((row) => `<tr>${cells(row, 'td')}</tr>`)
+          .join('')}</tbody></table>`,
+      );
+      continue;
+    }
+
+    const paragraph: string[] = [];
+    while (
+      index < lines.length &&
+      lines[index].trim() !== '' &&
+      (paragraph.length === 0 || !isBlockStart(lines, index))
+    ) {
+      paragraph.push(lines[index++].trim());
+    }
+    const text = paragraph.join('\n');
+    html.push(
+      HTML_BLOCK_PATTERN.test(text)
+        ? text
+        : `<p>${paragraph.map(renderInlineMarkdown).join('<br>')}</p>`,
+    );
+  }
+
+  return html.join('');
+}
+
+/**
+ * Convert Markdown to HTML accepted by Productive rich text fields.
+ *
+ * Line breaks inside a paragraph are kept (as `<br>`), like in comments on
+ * most issue trackers, and raw HTML is passed through.
+ */
+export function markdownToHtml(markdown: string): string;
+export function markdownToHtml(markdown: string | undefined): string | undefined;
+export function markdownToHtml(markdown: string | undefined): string | undefined {
+  if (markdown === undefined) return undefined;
+  return renderMarkdownBlocks(markdown.replaceAll('\r\n', '\n').split('\n'));
+}
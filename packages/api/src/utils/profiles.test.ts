@@ -0,0 +1,99 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+
+import {
+  isValidProfileName,
+  listProfileNames,
+  patchProfiles,
+  profileKeychainAccount,
+  readProfile,
+  resolveProfileName,
+  type StoredConfig,
+} from './profiles.js';
+
+const stored: StoredConfig = {
+  apiToken: 'default-token',
+  organizationId: '1',
+  activeProfile: 'agency',
+  profiles: {
+    sandbox: { organizationId: '3' },
+    agency: { apiToken: 'agency-token', organizationId: '2' },
+  },
+};
+
+describe('resolveProfileName', () => {
+  let envProfile: string | undefined;
+
+  beforeEach(() => {
+    envProfile = process.env.PRODUCTIVE_PROFILE;
+    delete process.env.PRODUCTIVE_PROFILE;
+  });
+
+  afterEach(() => {
+    if (envProfile === undefined) delete process.env.PRODUCTIVE_PROFILE;
+    else process.env.PRODUCTIVE_PROFILE = envProfile;
+  });
+
+  it('prefers the explicit name, then the env var, then the active profile', () => {
+    process.env.PRODUCTIVE_PROFILE = 'sandbox';
+    expect(resolveProfileName(stored, 'other')).toBe('other');
+    expect(resolveProfileName(stored)).toBe('sandbox');
+
+    delete process.env.PRODUCTIVE_PROFILE;
+    expect(resolveProfileName(stored)).toBe('agency');
+    expect(resolveProfileName({})).toBe('default');
+  });
+});
+
+describe('readProfile', () => {
+  it('reads the default profile from the top-level keys', () => {
+    expect(readProfile(stored, 'default')).toEqual({
+      apiToken: 'default-token',
+      organizationId: '1',
+    });
+  });
+
+  it('reads named profiles and returns undefined for unknown ones', () => {
+    expect(readProfile(stored, 'sandbox')).toEqual({ organizationId: '3' });
+    expect(readProfile(stored, 'missing')).toBeUndefined();
+  });
+});
+
+describe('listProfileNames', () => {
+  it('lists the default profile first, then the others by name', () => {
+    expect(listProfileNames(stored)).toEqual(['default', 'agency', 'sandbox']);
+    expect(listProfileNames({})).toEqual(['default']);
+  });
+});
+
+describe('patchProfiles', () => {
+  it('sets and removes values without touching the other profiles', () => {
+    const profiles = patchProfiles(stored, 'agency', { userId: '9', apiToken: undefined });
+
+    expect(profiles.agency).toEqual({ organizationId: '2', userId: '9' });
+    expect(profiles.sandbox).toBe(stored.profiles!.sandbox);
+    expect(stored.profiles!.agency.apiToken).toBe('agency-token');
+  });
+
+  it('creates missing profiles', () => {
+    expect(patchProfiles({}, 'new', { organizationId: '4' })).toEqual({
+      new: { organizationId: '4' },
+    });
+  });
+});
+
+describe('isValidProfileName', () => {
+  it.each(['sandbox', 'client-a', 'org_2', 'A1'])('accepts %s', (name) => {
+    expect(isValidProfileName(name)).toBe(true);
+  });
+
+  it.each(['', '-x', 'my profile', 'a/b', 'a:b'])('rejects "%s"', (name) => {
+    expect(isValidProfileName(name)).toBe(false);
+  });
+});
+
+describe('profileKeychainAccount', () => {
+  it('keeps the bare key for the default profile', () => {
+    expect(profileKeychainAccount('apiToken', 'default')).toBe('apiToken');
+    expect(profileKeychainAccount('apiToken', 'sandbox')).toBe('apiToken:sandbox');
+  });
+});
@@ -0,0 +1,114 @@
+/**
+ * Named credential profiles
+ *
+ * The config file keeps its historical top-level keys as the `default`
+ * profile; other profiles live under `profiles`, and `activeProfile` names
+ * the one used when none is requested:
+ *
+ * ```json
+ * {
+ *   "apiToken": "…",
+ *   "organizationId": "1234",
+ *   "activeProfile": "sandbox",
+ *   "profiles": { "sandbox": { "organizationId": "5678" } }
+ * }
+ * ```
+ *
+ * These helpers work on the parsed file, so the CLI, the SDK and the MCP
+ * server — each reading it through its own `ConfigStore` — resolve profiles
+ * the same way.
+ */
+
+import type { ProductiveConfig } from '../types.js';
+
+/** Profile backed by the top-level keys of the config file */
+export const DEFAULT_PROFILE = 'default';
+
+/** Credential and preference keys a profile can hold */
+export const PROFILE_KEYS = [
+  'apiToken',
+  'organizationId',
+  'userId',
+  'baseUrl',
+  'timezone',
+] as const;
+
+export type ProfileKey = (typeof PROFILE_KEYS)[number];
+
+/**
+ * Shape of the config file
+ */
+export interface StoredConfig extends Record<string, unknown> {
+  apiToken?: string;
+  organizationId?: string;
+  userId?: string;
+  baseUrl?: string;
+  timezone?: string;
+  activeProfile?: string;
+  profiles?: Record<string, ProductiveConfig>;
+}
+
+/**
+ * Profile names end up in keychain accounts and cache file names,
+ * so they are limited to letters, digits, `-` and `_`.
+ */
+export function isValidProfileName(name: string): boolean {
+  return /^[a-z0-9][a-z0-9_-]{0,63}$/i.test(name);
+}
+
+/**
+ * Profile to use, by priority: the explicit name (e.g. `--profile`), the
+ * `PRODUCTIVE_PROFILE` environment variable, the file's `activeProfile`,
+ * then `default`.
+ */
+export function resolveProfileName(stored: StoredConfig, explicit?: string): string {
+  return explicit || process.env.PRODUCTIVE_PROFILE || stored.activeProfile || DEFAULT_PROFILE;
+}
+
+/**
+ * Names of the configured profiles, `default` first.
+ */
+export function listProfileNames(stored: StoredConfig): string[] {
+  const named = Object.keys(stored.profiles ?? {}).toSorted((a, b) => a.localeCompare(b));
+  return [DEFAULT_PROFILE, ...named.filter((name) => name !== DEFAULT_PROFILE)];
+}
+
+/**
+ * Credential values stored for a profile, or `undefined` for an unknown one.
+ */
+export function readProfile(stored: StoredConfig, profile: string): ProductiveConfig | undefined {
+  const source = profile === DEFAULT_PROFILE ? stored : stored.profiles?.[profile];
+  if (!source) return undefined;
+
+  const values: ProductiveConfig = {};
+  for (const key of PROFILE_KEYS) {
+    if (typeof source[key] === 'string') values[key] = source[key];
+  }
+  return values;
+}
+
+/**
+ * Copy of the named profiles with `patch` applied to one of them;
+ * `undefined` values remove the key. Not for the default profile,
+ * whose values are top-level keys.
+ */
+export function patchProfiles(
+  stored: StoredConfig,
+  profile: string,
+  patch: Partial<Record<ProfileKey, string | undefined>>,
+): Record<string, ProductiveConfig> {
+  const values: ProductiveConfig = { ...stored.profiles?.[profile] };
+  for (const [key, value] of Object.entries(patch)) {
+    if (value === undefined) delete values[key];
+    else values[key] = value;
+  }
+  return { ...stored.profiles, [profile]: values };
+}
+
+/**
+ * Keychain account of a secure key. The default profile keeps the bare key
+ * so credentials stored before profiles existed are still found.
+ */
+export function profileKeychainAccount(key: string, profile: string): string {
+  return profile === DEFAULT_PROFILE ? key : `${key}:${profile}`;
+}
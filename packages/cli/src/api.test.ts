@@ -86,6 +86,7 @@ describe('ProductiveApi', () => {
 
     (globalThis.fetch as any).mockResolvedValueOnce({
       ok: true,
+      headers: new Headers(),
       json: async () => mockResponse,
     });
 
@@ -122,6 +123,7 @@ describe('ProductiveApi', () => {
 
     (globalThis.fetch as any).mockResolvedValueOnce({
       ok: true,
+      headers: new Headers(),
       json: async () => mockResponse,
     });
 
@@ -175,6 +177,7 @@ describe('ProductiveApi', () => {
 
     (globalThis.fetch as any).mockResolvedValueOnce({
       ok: true,
+      headers: new Headers(),
       json: async () => mockResponse,
     });
 
@@ -213,6 +216,7 @@ describe('ProductiveApi', () => {
 
     (globalThis.fetch as any).mockResolvedValueOnce({
       ok: true,
+      headers: new Headers(),
       json: async () => mockResponse,
     });
 
@@ -234,6 +238,7 @@ describe('ProductiveApi', () => {
   it('should delete time entry', async () => {
     (globalThis.fetch as any).mockResolvedValueOnce({
       ok: true,
+      headers: new Headers(),
       json: async () => ({}),
     });
 
@@ -251,6 +256,7 @@ describe('ProductiveApi', () => {
   it('should handle pagination parameters', async () => {
     (globalThis.fetch as any).mockResolvedValueOnce({
       ok: true,
+      headers: new Headers(),
       json: async () => ({ data: [], meta: {} }),
     });
 
@@ -268,6 +274,7 @@ describe('ProductiveApi', () => {
   it('should handle filter parameters', async () => {
     (globalThis.fetch as any).mockResolvedValueOnce({
       ok: true,
+      headers: new Headers(),
       json: async () => ({ data: [], meta: {} }),
     });
 
@@ -283,6 +290,7 @@ describe('ProductiveApi', () => {
   it('should handle sort parameter', async () => {
     (globalThis.fetch as any).mockResolvedValueOnce({
       ok: true,
+      headers: new Headers(),
       json: async () => ({ data: [], meta: {} }),
     });
 
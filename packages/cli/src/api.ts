@@ -5,14 +5,17 @@
  * with CLI concerns: config file reading, keychain, SQLite cache.
  */
 
-import { ProductiveApi as BaseProductiveApi } from '@studiometa/productive-api';
+import {
+  ProductiveApi as BaseProductiveApi,
+  type MutationJournal,
+} from '@studiometa/productive-api';
 export { ProductiveApiError } from '@studiometa/productive-api';
 
 import { getConfig } from './config.js';
 import { getCache } from './utils/cache.js';
 
 export class ProductiveApi extends BaseProductiveApi {
-  constructor(options?: Record<string, string | boolean | string[]>) {
+  constructor(options?: Record<string, string | boolean | string[]>, journal?: MutationJournal) {
     const config = getConfig(options);
     const useCache = options?.['no-cache'] !== true;
 
@@ -23,9 +26,10 @@ export class ProductiveApi extends BaseProductiveApi {
         userId: config.userId,
         baseUrl: config.baseUrl,
       },
-      cache: getCache(useCache),
+      cache: getCache(useCache, config.profile),
       useCache,
       forceRefresh: options?.refresh === true,
+      journal,
     });
   }
 }
@@ -1,8 +1,13 @@
 #!/usr/bin/env node
 
+import type { OutputFormat } from './types.js';
+
+import { handleAbsencesCommand, showAbsencesHelp } from './commands/absences/index.js';
 import { handleActivitiesCommand, showActivitiesHelp } from './commands/activities/index.js';
 import { handleApiCommand, showApiHelp } from './commands/api.js';
 import { handleAttachmentsCommand, showAttachmentsHelp } from './commands/attachments/index.js';
+import { handleAvailabilityCommand, showAvailabilityHelp } from './commands/availability/index.js';
+import { handleBoardsCommand, showBoardsHelp } from './commands/boards/index.js';
 import { handleBookingsCommand, showBookingsHelp } from './commands/bookings/index.js';
 import { handleCacheCommand, showCacheHelp } from './commands/cache.js';
 import { handleCommentsCommand, showCommentsHelp } from './commands/comments/index.js';
@@ -13,16 +18,32 @@ import { handleConfigCommand, showConfigHelp } from './commands/config.js';
 import { handleCustomFieldsCommand, showCustomFieldsHelp } from './commands/custom-fields/index.js';
 import { handleDealsCommand, showDealsHelp } from './commands/deals/index.js';
 import { handleDiscussionsCommand, showDiscussionsHelp } from './commands/discussions/index.js';
+import { handleExpensesCommand, showExpensesHelp } from './commands/expenses/index.js';
+import { handleHistoryCommand, showHistoryHelp } from './commands/history/index.js';
+import { handleHolidaysCommand, showHolidaysHelp } from './commands/holidays/index.js';
+import { handleInvoicesCommand, showInvoicesHelp } from './commands/invoices/index.js';
 import { handlePagesCommand, showPagesHelp } from './commands/pages/index.js';
 import { handlePeopleCommand, showPeopleHelp } from './commands/people/index.js';
 import { handleProjectsCommand, showProjectsHelp } from './commands/projects/index.js';
+import { handleQueryCommand, showQueryHelp } from './commands/query/index.js';
 import { handleReportsCommand, showReportsHelp } from './commands/reports/index.js';
 import { handleResolveCommand, showResolveHelp } from './commands/resolve/index.js';
 import { extractRunArgs, handleRunCommand, showRunHelp } from './commands/run/index.js';
 import { handleServicesCommand, showServicesHelp } from './commands/services/index.js';
+import { handleSyncCommand, showSyncHelp } from './commands/sync/index.js';
+import { handleTaskListsCommand, showTaskListsHelp } from './commands/task-lists/index.js';
 import { handleTasksCommand, showTasksHelp } from './commands/tasks/index.js';
 import { handleTimeCommand, showTimeHelp } from './commands/time/index.js';
 import { handleTimersCommand, showTimersHelp } from './commands/timers/index.js';
+import { handleTuiCommand, showTuiHelp } from './commands/tui/index.js';
+import {
+  handleWorkflowStatusesCommand,
+  showWorkflowStatusesHelp,
+} from './commands/workflow-statuses/index.js';
+import { getActiveProfile, hasProfile } from './config.js';
+import { handleError } from './error-handler.js';
+import { ConfigError } from './errors.js';
+import { OutputFormatter } from './output.js';
 import { parseArgs } from './utils/args.js';
 import { colors, setColorEnabled } from './utils/colors.js';
 import { processRefreshQueue } from './utils/refresh-queue.js';
@@ -30,6 +51,9 @@ import { processRefreshQueue } from './utils/refresh-queue.js';
 declare const __VERSION__: string;
 const VERSION = __VERSION__;
 
+/** Commands that run without credentials, or check the profile themselves */
+const PROFILE_FREE_COMMANDS = new Set(['config', 'completion', '__completion_helper']);
+
 function showHelp(): void {
   console.log(`
 ${colors.bold('productive-cli')} v${VERSION}
@@ -42,6 +66,7 @@ ${colors.bold('COMMANDS:')}
     set <key> <val>     Set configuration value
     get [key]           Get configuration value(s)
     validate            Validate configuration
+    profile <action>    Manage credential profiles (list, add, use, remove)
     clear               Clear all configuration
 
   projects, p         Manage projects
@@ -54,6 +79,8 @@ ${colors.bold('COMMANDS:')}
     add                 Create time entry
     update <id>         Update time entry
     delete <id>         Delete time entry
+    import <file>       Import time entries (CSV, ICS, JSON)
+    export              Export a period (CSV, XLSX, ICS)
 
   tasks               Manage tasks
     list, ls            List tasks
@@ -61,6 +88,28 @@ ${colors.bold('COMMANDS:')}
     add                 Create task
     update <id>         Update task
 
+  task-lists          Manage task lists
+    list, ls            List task lists
+    get <id>            Get task list details
+    add                 Create task list
+    update <id>         Rename, reorder or move task list
+    archive <id>        Archive task list
+    restore <id>        Restore task list
+
+  boards              Manage boards (task list folders)
+    list, ls            List boards
+    get <id>            Get board details
+    add                 Create board
+    update <id>         Rename or reorder board
+    archive <id>        Archive board
+    restore <id>        Restore board
+
+  workflow-statuses   Manage workflow statuses (kanban columns)
+    list, ls            List workflow statuses
+    get <id>            Get workflow status details
+    add                 Add workflow status
+    update <id>         Rename, recategorize or reorder status
+
   people              Manage people
     list, ls            List people
     get <id>            Get person details
@@ -96,6 +145,23 @@ ${colors.bold('COMMANDS:')}
     get <id>            Get deal/budget details
     add                 Create deal/budget (use --budget for budgets)
     update <id>         Update deal
+    forecast <id>       Project when the budget runs out
+
+  invoices            Manage invoices
+    list, ls            List invoices
+    get <id>            Get invoice details
+    add                 Create draft invoice
+    update <id>         Update invoice
+    finalize <id>       Finalize draft invoice
+    line-items <id>     List invoice line items
+
+  expenses            Manage expenses
+    list, ls            List expenses
+    get <id>            Get expense details
+    add                 Log an expense
+    update <id>         Update expense
+    approve <id>        Approve expense
+    reject <id>         Reject expense
 
   bookings            Manage resource bookings
     list, ls            List bookings
@@ -103,6 +169,17 @@ ${colors.bold('COMMANDS:')}
     add                 Create booking
     update <id>         Update booking
 
+  absences            View time off (absence bookings)
+    list, ls            List absences
+
+  holidays            View public holidays
+    list, ls            List holidays
+    calendars           List holiday calendars
+
+  availability        Capacity and free time planning
+    show                Free time per person and day (default)
+    capacity            List working schedules
+
   pages               Manage pages (docs)
     list, ls            List pages
     get <id>            Get page details
@@ -140,6 +217,23 @@ ${colors.bold('COMMANDS:')}
     status              Show cache statistics
     clear [pattern]     Clear cached data
 
+  tui                 Full-screen dashboard for daily time tracking
+
+  query "<sql>"       Run read-only SQL against the local mirror
+    views               List the views and their columns
+
+  sync                Replay offline changes and mirror records locally
+    run                 Apply journaled changes (default)
+    pull [resources...] Mirror records for --offline reads
+    status              List journaled changes
+    discard <id...>     Drop journaled changes
+
+  history             List changes sent to the API
+    list, ls            List recorded changes (default)
+    undo [count]        Revert the most recent changes
+
+  undo [count]        Revert the most recent changes (see: history)
+
   run, script         Run a JS/TS script with a pre-configured Productive client
     <script>            Path to the script file (.ts, .js, .mjs)
 
@@ -169,6 +263,7 @@ ${colors.bold('AUTHENTICATION OPTIONS:')}
   --organization-id <id>  Alternative organization ID flag
   --user-id <id>      User ID (overrides config and env)
   --base-url <url>    API base URL (optional)
+  --profile <name>    Credential profile to use (see: productive config profile)
 
 ${colors.bold('EXAMPLES:')}
   # Configure via CLI
@@ -201,13 +296,17 @@ ${colors.bold('CREDENTIAL PRIORITY:')}
   Credentials are loaded in this order (highest to lowest priority):
   1. CLI arguments (--token, --org-id, --user-id)
   2. Environment variables (PRODUCTIVE_API_TOKEN, PRODUCTIVE_ORG_ID, etc.)
-  3. Config file (~/.config/productive-cli/config.json)
+  3. Keychain and config file (~/.config/productive-cli/config.json),
+     read from the selected profile: --profile, PRODUCTIVE_PROFILE,
+     the active profile, then "default"
 
 ${colors.bold('ENVIRONMENT VARIABLES:')}
   PRODUCTIVE_API_TOKEN      API token
   PRODUCTIVE_ORG_ID         Organization ID
   PRODUCTIVE_USER_ID        User ID
   PRODUCTIVE_BASE_URL       API base URL (optional)
+  PRODUCTIVE_PROFILE        Credential profile (optional)
+  PRODUCTIVE_TIMEZONE       IANA timezone for dates like "today" (optional)
   XDG_CONFIG_HOME           Config directory (respects XDG spec)
   NO_COLOR                  Disable colors
 
@@ -252,11 +351,21 @@ async function main(): Promise<void> {
     process.exit(0);
   }
 
+  // A mistyped profile would silently leave the command without credentials.
+  // The config command reports it itself; completions need no credentials.
+  const profile = getActiveProfile(options);
+  if (!PROFILE_FREE_COMMANDS.has(mainCommand) && !hasProfile(profile)) {
+    const format = (options.format || options.f || 'human') as OutputFormat;
+    handleError(ConfigError.unknownProfile(profile), new OutputFormatter(format));
+  }
+
   // Process background refresh queue (non-blocking, silent)
   // This refreshes stale cache entries queued from previous invocations
-  processRefreshQueue(options).catch(() => {
-    // Silently ignore errors - refresh is best-effort
-  });
+  if (options.offline !== true) {
+    processRefreshQueue(options).catch(() => {
+      // Silently ignore errors - refresh is best-effort
+    });
+  }
 
   // Route to appropriate handler
   try {
@@ -295,6 +404,30 @@ async function main(): Promise<void> {
         await handleTasksCommand(subcommand || 'list', positional, options);
         break;
 
+      case 'task-lists':
+        if (wantsHelp) {
+          showTaskListsHelp(subcommand);
+          process.exit(0);
+        }
+        await handleTaskListsCommand(subcommand || 'list', positional, options);
+        break;
+
+      case 'boards':
+        if (wantsHelp) {
+          showBoardsHelp(subcommand);
+          process.exit(0);
+        }
+        await handleBoardsCommand(subcommand || 'list', positional, options);
+        break;
+
+      case 'workflow-statuses':
+        if (wantsHelp) {
+          showWorkflowStatusesHelp(subcommand);
+          process.exit(0);
+        }
+        await handleWorkflowStatusesCommand(subcommand || 'list', positional, options);
+        break;
+
       case 'people':
         if (wantsHelp) {
           showPeopleHelp(subcommand);
@@ -352,6 +485,22 @@ async function main(): Promise<void> {
         await handleDealsCommand(subcommand || 'list', positional, options);
         break;
 
+      case 'invoices':
+        if (wantsHelp) {
+          showInvoicesHelp(subcommand);
+          process.exit(0);
+        }
+        await handleInvoicesCommand(subcommand || 'list', positional, options);
+        break;
+
+      case 'expenses':
+        if (wantsHelp) {
+          showExpensesHelp(subcommand);
+          process.exit(0);
+        }
+        await handleExpensesCommand(subcommand || 'list', positional, options);
+        break;
+
       case 'bookings':
         if (wantsHelp) {
           showBookingsHelp(subcommand);
@@ -360,6 +509,30 @@ async function main(): Promise<void> {
         await handleBookingsCommand(subcommand || 'list', positional, options);
         break;
 
+      case 'absences':
+        if (wantsHelp) {
+          showAbsencesHelp(subcommand);
+          process.exit(0);
+        }
+        await handleAbsencesCommand(subcommand || 'list', positional, options);
+        break;
+
+      case 'holidays':
+        if (wantsHelp) {
+          showHolidaysHelp(subcommand);
+          process.exit(0);
+        }
+        await handleHolidaysCommand(subcommand || 'list', positional, options);
+        break;
+
+      case 'availability':
+        if (wantsHelp) {
+          showAvailabilityHelp(subcommand);
+          process.exit(0);
+        }
+        await handleAvailabilityCommand(subcommand || 'show', positional, options);
+        break;
+
       case 'pages':
         if (wantsHelp) {
           showPagesHelp(subcommand);
@@ -412,6 +585,50 @@ async function main(): Promise<void> {
         handleCacheCommand(subcommand || 'status', positional, options);
         break;
 
+      case 'query':
+        if (wantsHelp) {
+          showQueryHelp(subcommand);
+          process.exit(0);
+        }
+        await handleQueryCommand(subcommand, positional, options);
+        break;
+
+      case 'tui':
+        if (wantsHelp) {
+          showTuiHelp();
+          process.exit(0);
+        }
+        await handleTuiCommand(options);
+        break;
+
+      case 'sync':
+        if (wantsHelp) {
+          showSyncHelp(subcommand);
+          process.exit(0);
+        }
+        await handleSyncCommand(subcommand || 'run', positional, options);
+        break;
+
+      case 'history':
+        if (wantsHelp) {
+          showHistoryHelp(subcommand);
+          process.exit(0);
+        }
+        await handleHistoryCommand(subcommand || 'list', positional, options);
+        break;
+
+      case 'undo':
+        if (wantsHelp) {
+          showHistoryHelp('undo');
+          process.exit(0);
+        }
+        await handleHistoryCommand(
+          'undo',
+          subcommand ? [subcommand, ...positional] : positional,
+          options,
+        );
+        break;
+
       case 'resolve':
         if (wantsHelp) {
           showResolveHelp(subcommand);
@@ -0,0 +1,107 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+import type { ProductiveApi } from '../api.js';
+
+import { createTestContext } from '../context.js';
+import { absencesList } from './absences/handlers.js';
+import { handleAbsencesCommand } from './absences/index.js';
+
+const mockAbsence = {
+  id: '1',
+  type: 'bookings',
+  attributes: {
+    started_on: '2024-01-15',
+    ended_on: '2024-01-19',
+    time: 480,
+    approved: true,
+  },
+  relationships: {
+    person: { data: { type: 'people', id: '500521' } },
+    event: { data: { type: 'events', id: '7' } },
+  },
+};
+
+describe('absences command', () => {
+  let consoleLogSpy: ReturnType<typeof vi.spyOn>;
+
+  beforeEach(() => {
+    consoleLogSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe('absencesList', () => {
+    it('should list absence bookings only', async () => {
+      const getBookings = vi.fn().mockResolvedValue({
+        data: [mockAbsence],
+        meta: { total: 1, page: 1, per_page: 100 },
+        included: [{ id: '7', type: 'events', attributes: { name: 'Vacation' } }],
+      });
+
+      const ctx = createTestContext({
+        api: { getBookings } as unknown as ProductiveApi,
+      });
+
+      await absencesList(ctx);
+
+      expect(getBookings).toHaveBeenCalledWith({
+        page: 1,
+        perPage: 100,
+        filter: { booking_type: 'event' },
+        sort: '',
+        include: ['person', 'event'],
+      });
+      expect(consoleLogSpy).toHaveBeenCalled();
+    });
+
+    it('should map list options to filters', async () => {
+      const getBookings = vi.fn().mockResolvedValue({ data: [], meta: {}, included: [] });
+
+      const ctx = createTestContext({
+        api: { getBookings } as unknown as ProductiveApi,
+        options: { mine: true, event: '7', from: '2024-01-01', to: '2024-01-31', format: 'json' },
+      });
+
+      await absencesList(ctx);
+
+      expect(getBookings).toHaveBeenCalledWith(
+        expect.objectContaining({
+          filter: {
+            person_id: '500521',
+            event_id: '7',
+            after: '2024-01-01',
+            before: '2024-01-31',
+            booking_type: 'event',
+          },
+        }),
+      );
+    });
+
+    it('should list absences in csv format', async () => {
+      const getBookings = vi.fn().mockResolvedValue({ data: [mockAbsence], meta: {} });
+      const ctx = createTestContext({
+        api: { getBookings } as unknown as ProductiveApi,
+        options: { format: 'csv' },
+      });
+      await absencesList(ctx);
+      expect(consoleLogSpy).toHaveBeenCalled();
+    });
+  });
+
+  describe('command routing', () => {
+    it('should exit with error for unknown subcommand', async () => {
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+      const processExitSpy = vi.spyOn(process, 'exit').mockImplementation(() => undefined as never);
+
+      await handleAbsencesCommand('unknown', [], {
+        format: 'json',
+        token: 'test-token',
+        'org-id': 'test-org',
+      });
+
+      expect(processExitSpy).toHaveBeenCalledWith(1);
+    });
+  });
+});
@@ -0,0 +1,17 @@
+/**
+ * Absences command entry point
+ */
+
+import { createCommandRouter } from '../../utils/command-router.js';
+import { absencesList } from './handlers.js';
+
+/**
+ * Handle absences command
+ */
+export const handleAbsencesCommand = createCommandRouter({
+  resource: 'absences',
+  handlers: {
+    list: absencesList,
+    ls: absencesList,
+  },
+});
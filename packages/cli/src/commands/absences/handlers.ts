@@ -0,0 +1,77 @@
+/**
+ * CLI adapter for absences command handlers.
+ */
+
+import { formatAbsence, formatListResponse } from '@studiometa/productive-api';
+import {
+  fromCommandContext,
+  listAbsences,
+  type ListAbsencesOptions,
+} from '@studiometa/productive-core';
+
+import type { CommandContext } from '../../context.js';
+import type { OutputFormat } from '../../types.js';
+
+import { runCommand } from '../../error-handler.js';
+import { render, createRenderContext } from '../../renderers/index.js';
+import { parseDate } from '../../utils/date.js';
+import { parseFilters } from '../../utils/parse-filters.js';
+
+function parseListOptions(ctx: CommandContext): ListAbsencesOptions {
+  const options: ListAbsencesOptions = {};
+
+  const additionalFilters: Record<string, string> = {};
+  if (ctx.options.filter)
+    Object.assign(additionalFilters, parseFilters(String(ctx.options.filter)));
+  if (Object.keys(additionalFilters).length > 0) options.additionalFilters = additionalFilters;
+
+  if (ctx.options.mine && ctx.config.userId) {
+    options.personId = ctx.config.userId;
+  } else if (ctx.options.person) {
+    options.personId = String(ctx.options.person);
+  }
+  if (ctx.options.event) options.eventId = String(ctx.options.event);
+  if (ctx.options.from)
+    options.after = parseDate(String(ctx.options.from), ctx.config.timezone) ?? undefined;
+  if (ctx.options.to)
+    options.before = parseDate(String(ctx.options.to), ctx.config.timezone) ?? undefined;
+
+  const { page, perPage } = ctx.getPagination();
+  options.page = page;
+  options.perPage = perPage;
+  options.sort = ctx.getSort();
+
+  return options;
+}
+
+export async function absencesList(ctx: CommandContext): Promise<void> {
+  const spinner = ctx.createSpinner('Fetching absences...');
+  spinner.start();
+
+  await runCommand(async () => {
+    const execCtx = fromCommandContext(ctx);
+    const result = await listAbsences(parseListOptions(ctx), execCtx);
+
+    spinner.succeed();
+
+    const format = (ctx.options.format || ctx.options.f || 'human') as OutputFormat;
+    const formattedData = formatListResponse(result.data, formatAbsence, result.meta, {
+      included: result.included,
+    });
+
+    if (format === 'csv' || format === 'table') {
+      const data = formattedData.data.map((a) => ({
+        id: a.id,
+        person: a.person_name || '',
+        absence: a.event_name || '',
+        started_on: a.started_on,
+        ended_on: a.ended_on,
+        status: a.status,
+      }));
+      ctx.formatter.output(data);
+    } else {
+      const renderCtx = createRenderContext({ noColor: ctx.options['no-color'] === true });
+      render('absence', format, formattedData, renderCtx);
+    }
+  }, ctx.formatter);
+}
@@ -0,0 +1,25 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+
+import { showAbsencesHelp } from './help.js';
+
+describe('showAbsencesHelp', () => {
+  const spy = vi.spyOn(console, 'log').mockImplementation(() => {});
+  afterEach(() => spy.mockClear());
+
+  it('shows general help with no argument', () => {
+    showAbsencesHelp();
+    const output = spy.mock.calls[0][0];
+    expect(output).toContain('productive absences');
+    expect(output).toContain('list, ls');
+  });
+
+  it.each([
+    ['list', 'productive absences list', '--event'],
+    ['ls', 'productive absences list', '--mine'],
+  ])('shows %s help', (subcommand, title, option) => {
+    showAbsencesHelp(subcommand);
+    const output = spy.mock.calls[0][0];
+    expect(output).toContain(title);
+    expect(output).toContain(option);
+  });
+});
@@ -0,0 +1,56 @@
+/**
+ * Help text for absences command
+ */
+
+import { colors } from '../../utils/colors.js';
+
+export function showAbsencesHelp(subcommand?: string): void {
+  if (subcommand === 'list' || subcommand === 'ls') {
+    console.log(`
+${colors.bold('productive absences list')} - List absences (time off, remote work)
+
+${colors.bold('USAGE:')}
+  productive absences list [options]
+
+${colors.bold('OPTIONS:')}
+  --mine                Only your own absences
+  --person <id>         Filter by person ID, email or name
+  --event <id>          Filter by absence category (event) ID
+  --from <date>         Absences ending on or after (YYYY-MM-DD, today, this week…)
+  --to <date>           Absences starting on or before
+  --filter <filters>    Generic filters (comma-separated key=value pairs)
+  -p, --page <num>      Page number (default: 1)
+  -s, --size <num>      Page size (default: 100)
+  --sort <field>        Sort by field (prefix with - for descending)
+  -f, --format <fmt>    Output format: json, human, csv, table
+
+${colors.bold('EXAMPLES:')}
+  productive absences list --from today --to 2024-08-31
+  productive absences list --person jane@example.com
+  productive absences list --mine --format json
+`);
+  } else {
+    console.log(`
+${colors.bold('productive absences')} - View absences (read-only)
+
+Absences are bookings on an event such as vacation or sick leave. Create them
+with ${colors.cyan('productive bookings add --event <id>')}.
+
+${colors.bold('USAGE:')}
+  productive absences <subcommand> [options]
+
+${colors.bold('SUBCOMMANDS:')}
+  list, ls            List absences
+
+${colors.bold('COMMON OPTIONS:')}
+  -f, --format <fmt>  Output format: json, human, csv, table
+  -h, --help          Show help for a subcommand
+
+${colors.bold('EXAMPLES:')}
+  productive absences list --from today
+  productive absences ls --mine
+
+Run ${colors.cyan('productive absences list --help')} for subcommand details.
+`);
+  }
+}
@@ -0,0 +1,2 @@
+export { handleAbsencesCommand } from './command.js';
+export { showAbsencesHelp } from './help.js';
@@ -0,0 +1,136 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+import type { ProductiveApi } from '../api.js';
+
+import { createTestContext } from '../context.js';
+import { availabilityCapacity, availabilityShow } from './availability/handlers.js';
+import { handleAvailabilityCommand } from './availability/index.js';
+
+const mockPerson = {
+  id: '500521',
+  type: 'people',
+  attributes: { first_name: 'Ada', last_name: 'Lovelace' },
+};
+
+const mockSalary = {
+  id: '1',
+  type: 'salaries',
+  attributes: {
+    started_on: '2024-01-01',
+    ended_on: null,
+    working_hours: [480, 480, 480, 480, 240, 0, 0],
+  },
+  relationships: { person: { data: { type: 'people', id: '500521' } } },
+};
+
+function createAvailabilityApi() {
+  return {
+    getPeople: vi.fn().mockResolvedValue({ data: [mockPerson], meta: {} }),
+    getSalaries: vi.fn().mockResolvedValue({ data: [mockSalary], meta: {} }),
+    getBookings: vi.fn().mockResolvedValue({ data: [], meta: {}, included: [] }),
+    getHolidays: vi.fn().mockResolvedValue({ data: [], meta: {} }),
+  };
+}
+
+describe('availability command', () => {
+  let consoleLogSpy: ReturnType<typeof vi.spyOn>;
+
+  beforeEach(() => {
+    consoleLogSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe('availabilityShow', () => {
+    it('should compute availability for the given range', async () => {
+      const api = createAvailabilityApi();
+      const ctx = createTestContext({
+        api: api as unknown as ProductiveApi,
+        options: { mine: true, from: '2024-01-15', to: '2024-01-19', format: 'json' },
+      });
+
+      await availabilityShow(ctx);
+
+      expect(api.getPeople).toHaveBeenCalledWith(
+        expect.objectContaining({ filter: { id: '500521' } }),
+      );
+      expect(api.getBookings).toHaveBeenCalledWith(
+        expect.objectContaining({
+          filter: { person_id: '500521', after: '2024-01-15', before: '2024-01-19' },
+        }),
+      );
+
+      const output = JSON.parse(consoleLogSpy.mock.calls[0][0]);
+      expect(output.people[0].totals.capacity_minutes).toBe(2160);
+      expect(output.people[0].days).toHaveLength(5);
+    });
+
+    it('should output one row per person and day in csv format', async () => {
+      const api = createAvailabilityApi();
+      const ctx = createTestContext({
+        api: api as unknown as ProductiveApi,
+        options: { person: '500521', date: '2024-01-15', format: 'csv' },
+      });
+
+      await availabilityShow(ctx);
+
+      const output = consoleLogSpy.mock.calls.map((call: unknown[]) => call.join(' ')).join('\n');
+      expect(output).toContain('Ada Lovelace');
+      expect(output).toContain('2024-01-15');
+    });
+
+    it('should exit with a validation error for an invalid range', async () => {
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+      const processExitSpy = vi.spyOn(process, 'exit').mockImplementation(() => undefined as never);
+      const api = createAvailabilityApi();
+      const ctx = createTestContext({
+        api: api as unknown as ProductiveApi,
+        options: { from: '2024-01-19', to: '2024-01-15', format: 'json' },
+      });
+
+      await availabilityShow(ctx);
+
+      expect(api.getSalaries).not.toHaveBeenCalled();
+      expect(processExitSpy).toHaveBeenCalledWith(3);
+    });
+  });
+
+  describe('availabilityCapacity', () => {
+    it('should list working schedules', async () => {
+      const getSalaries = vi.fn().mockResolvedValue({
+        data: [mockSalary],
+        meta: {},
+        included: [mockPerson],
+      });
+
+      const ctx = createTestContext({
+        api: { getSalaries } as unknown as ProductiveApi,
+        options: { person: '500521', format: 'human' },
+      });
+
+      await availabilityCapacity(ctx);
+
+      expect(getSalaries).toHaveBeenCalledWith(
+        expect.objectContaining({ filter: { person_id: '500521' } }),
+      );
+      expect(consoleLogSpy).toHaveBeenCalled();
+    });
+  });
+
+  describe('command routing', () => {
+    it('should exit with error for unknown subcommand', async () => {
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+      const processExitSpy = vi.spyOn(process, 'exit').mockImplementation(() => undefined as never);
+
+      await handleAvailabilityCommand('unknown', [], {
+        format: 'json',
+        token: 'test-token',
+        'org-id': 'test-org',
+      });
+
+      expect(processExitSpy).toHaveBeenCalledWith(1);
+    });
+  });
+});
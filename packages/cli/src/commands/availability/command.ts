@@ -0,0 +1,17 @@
+/**
+ * Availability command entry point
+ */
+
+import { createCommandRouter } from '../../utils/command-router.js';
+import { availabilityCapacity, availabilityShow } from './handlers.js';
+
+/**
+ * Handle availability command
+ */
+export const handleAvailabilityCommand = createCommandRouter({
+  resource: 'availability',
+  handlers: {
+    show: availabilityShow,
+    capacity: availabilityCapacity,
+  },
+});
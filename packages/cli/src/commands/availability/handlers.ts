@@ -0,0 +1,155 @@
+/**
+ * CLI adapter for availability command handlers.
+ */
+
+import { formatCapacity, formatListResponse } from '@studiometa/productive-api';
+import {
+  fromCommandContext,
+  getAvailability,
+  listCapacity,
+  ExecutorValidationError,
+  type GetAvailabilityOptions,
+  type ListCapacityOptions,
+} from '@studiometa/productive-core';
+
+import type { CommandContext } from '../../context.js';
+import type { OutputFormat } from '../../types.js';
+
+import { runCommand } from '../../error-handler.js';
+import { ValidationError } from '../../errors.js';
+import { render, createRenderContext } from '../../renderers/index.js';
+import { parseDate, parseDateRange } from '../../utils/date.js';
+import { parseFilters } from '../../utils/parse-filters.js';
+
+/**
+ * Resolve the requested people and date range.
+ *
+ * `--date` accepts range shortcuts ("this week", "last month"…), explicit
+ * `--from`/`--to` take precedence over it. Defaults to the current week.
+ */
+function parseShowOptions(ctx: CommandContext): GetAvailabilityOptions {
+  const range = parseDateRange(String(ctx.options.date || 'this week'), ctx.config.timezone);
+  if (!range) throw ValidationError.invalidDate(String(ctx.options.date));
+
+  const after = ctx.options.from
+    ? parseDate(String(ctx.options.from), ctx.config.timezone)
+    : range.from;
+  const before = ctx.options.to ? parseDate(String(ctx.options.to), ctx.config.timezone) : range.to;
+  if (!after) throw ValidationError.invalidDate(String(ctx.options.from));
+  if (!before) throw ValidationError.invalidDate(String(ctx.options.to));
+
+  const options: GetAvailabilityOptions = { after, before };
+
+  if (ctx.options.mine && ctx.config.userId) {
+    options.personIds = [ctx.config.userId];
+  } else if (ctx.options.person) {
+    options.personIds = String(ctx.options.person)
+      .split(',')
+      .map((id) => id.trim())
+      .filter(Boolean);
+  }
+
+  return options;
+}
+
+export async function availabilityShow(ctx: CommandContext): Promise<void> {
+  const spinner = ctx.createSpinner('Computing availability...');
+  spinner.start();
+
+  await runCommand(async () => {
+    const options = parseShowOptions(ctx);
+    const execCtx = fromCommandContext(ctx);
+
+    let result;
+    try {
+      result = await getAvailability(options, execCtx);
+    } catch (error) {
+      if (error instanceof ExecutorValidationError) {
+        spinner.fail();
+        const value = error.field === 'after' ? options.after : options.before;
+        throw ValidationError.invalid(error.field, value, error.message);
+      }
+      throw error;
+    }
+
+    spinner.succeed();
+
+    const format = (ctx.options.format || ctx.options.f || 'human') as OutputFormat;
+
+    if (format === 'csv' || format === 'table') {
+      const data = result.data.people.flatMap((person) =>
+        person.days.map((day) => ({
+          person: person.person_name,
+          date: day.date,
+          capacity: day.capacity_minutes,
+          absence: day.absence_minutes,
+          booked: day.booked_minutes,
+          free: day.free_minutes,
+          note: day.holiday || day.absence || '',
+        })),
+      );
+      ctx.formatter.output(data);
+    } else {
+      const renderCtx = createRenderContext({ noColor: ctx.options['no-color'] === true });
+      render('availability', format, result.data, renderCtx);
+    }
+  }, ctx.formatter);
+}
+
+function parseCapacityOptions(ctx: CommandContext): ListCapacityOptions {
+  const options: ListCapacityOptions = {};
+
+  const additionalFilters: Record<string, string> = {};
+  if (ctx.options.filter)
+    Object.assign(additionalFilters, parseFilters(String(ctx.options.filter)));
+  if (Object.keys(additionalFilters).length > 0) options.additionalFilters = additionalFilters;
+
+  if (ctx.options.mine && ctx.config.userId) {
+    options.personId = ctx.config.userId;
+  } else if (ctx.options.person) {
+    options.personId = String(ctx.options.person);
+  }
+  if (ctx.options.from)
+    options.after = parseDate(String(ctx.options.from), ctx.config.timezone) ?? undefined;
+  if (ctx.options.to)
+    options.before = parseDate(String(ctx.options.to), ctx.config.timezone) ?? undefined;
+
+  const { page, perPage } = ctx.getPagination();
+  options.page = page;
+  options.perPage = perPage;
+  options.sort = ctx.getSort();
+
+  return options;
+}
+
+export async function availabilityCapacity(ctx: CommandContext): Promise<void> {
+  const spinner = ctx.createSpinner('Fetching working schedules...');
+  spinner.start();
+
+  await runCommand(async () => {
+    const execCtx = fromCommandContext(ctx);
+    const result = await listCapacity(parseCapacityOptions(ctx), execCtx);
+
+    spinner.succeed();
+
+    const format = (ctx.options.format || ctx.options.f || 'human') as OutputFormat;
+    const formattedData = formatListResponse(result.data, formatCapacity, result.meta, {
+      included: result.included,
+    });
+
+    if (format === 'csv' || format === 'table') {
+      const data = formattedData.data.map((c) => ({
+        id: c.id,
+        person: c.person_name || '',
+        started_on: c.started_on,
+        ended_on: c.ended_on || '',
+        weekly_minutes: c.weekly_minutes,
+        holiday_calendar: c.holiday_calendar_name || '',
+      }));
+      ctx.formatter.output(data);
+    } else {
+      const renderCtx = createRenderContext({ noColor: ctx.options['no-color'] === true });
+      render('capacity', format, formattedData, renderCtx);
+    }
+  }, ctx.formatter);
+}
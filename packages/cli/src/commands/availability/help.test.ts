@@ -0,0 +1,26 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+
+import { showAvailabilityHelp } from './help.js';
+
+describe('showAvailabilityHelp', () => {
+  const spy = vi.spyOn(console, 'log').mockImplementation(() => {});
+  afterEach(() => spy.mockClear());
+
+  it('shows general help with no argument', () => {
+    showAvailabilityHelp();
+    const output = spy.mock.calls[0][0];
+    expect(output).toContain('productive availability');
+    expect(output).toContain('show');
+    expect(output).toContain('capacity');
+  });
+
+  it.each([
+    ['show', 'productive availability show', '--date'],
+    ['capacity', 'productive availability capacity', '--person'],
+  ])('shows %s help', (subcommand, title, option) => {
+    showAvailabilityHelp(subcommand);
+    const output = spy.mock.calls[0][0];
+    expect(output).toContain(title);
+    expect(output).toContain(option);
+  });
+});
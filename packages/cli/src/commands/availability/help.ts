@@ -0,0 +1,78 @@
+/**
+ * Help text for availability command
+ */
+
+import { colors } from '../../utils/colors.js';
+
+export function showAvailabilityHelp(subcommand?: string): void {
+  if (subcommand === 'show') {
+    console.log(`
+${colors.bold('productive availability show')} - Show free time per person and day
+
+${colors.bold('USAGE:')}
+  productive availability show [options]
+
+${colors.bold('DESCRIPTION:')}
+  Combines working schedules, public holidays, approved absences and
+  bookings to compute how much time each person has left per day.
+  People without a working schedule are assumed to work 8h Mon–Fri.
+
+${colors.bold('OPTIONS:')}
+  --mine                Only show your own availability
+  --person <ids>        Comma-separated person IDs, names or emails
+  --date <range>        today, this week, last week, this month… (default: this week)
+  --from <date>         First day of the range (overrides --date)
+  --to <date>           Last day of the range (overrides --date)
+  -f, --format <fmt>    Output format: json, human, csv, table
+
+${colors.bold('EXAMPLES:')}
+  productive availability show --mine
+  productive availability show --person 123,456 --date "this month"
+  productive availability show --from 2024-03-01 --to 2024-03-31 --format csv
+`);
+  } else if (subcommand === 'capacity') {
+    console.log(`
+${colors.bold('productive availability capacity')} - List working schedules
+
+${colors.bold('USAGE:')}
+  productive availability capacity [options]
+
+${colors.bold('OPTIONS:')}
+  --mine                Only show your own schedules
+  --person <id>         Filter by person ID
+  --from <date>         Schedules effective on or after
+  --to <date>           Schedules effective on or before
+  --filter <filters>    Generic filters (comma-separated key=value pairs)
+  -p, --page <num>      Page number (default: 1)
+  -s, --size <num>      Page size (default: 100)
+  --sort <field>        Sort by field
+  -f, --format <fmt>    Output format: json, human, csv, table
+
+${colors.bold('EXAMPLES:')}
+  productive availability capacity --mine
+  productive availability capacity --person 123 --format json
+`);
+  } else {
+    console.log(`
+${colors.bold('productive availability')} - Capacity and free time planning
+
+${colors.bold('USAGE:')}
+  productive availability <subcommand> [options]
+
+${colors.bold('SUBCOMMANDS:')}
+  show                Show free time per person and day (default)
+  capacity            List working schedules
+
+${colors.bold('COMMON OPTIONS:')}
+  -f, --format <fmt>  Output format: json, human, csv, table
+  -h, --help          Show help for a subcommand
+
+${colors.bold('EXAMPLES:')}
+  productive availability --mine
+  productive availability show --person 123 --date "this month"
+  productive availability capacity --mine
+
+Run ${colors.cyan('productive availability <subcommand> --help')} for subcommand details.
+`);
+  }
+}
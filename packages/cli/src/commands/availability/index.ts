@@ -0,0 +1,2 @@
+export { handleAvailabilityCommand } from './command.js';
+export { showAvailabilityHelp } from './help.js';
@@ -0,0 +1,237 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+import type { ProductiveApi } from '../api.js';
+
+import { createTestContext } from '../context.js';
+import {
+  boardsList,
+  boardsGet,
+  boardsAdd,
+  boardsUpdate,
+  boardsArchive,
+  boardsRestore,
+} from './boards/handlers.js';
+import { handleBoardsCommand } from './boards/index.js';
+
+const mockBoard = {
+  id: '1',
+  type: 'boards',
+  attributes: {
+    name: 'Development',
+    position: 2,
+    archived_at: null,
+    created_at: '2024-01-15T00:00:00Z',
+  },
+  relationships: { project: { data: { type: 'projects', id: '5' } } },
+};
+
+describe('boards command', () => {
+  let consoleLogSpy: ReturnType<typeof vi.spyOn>;
+
+  beforeEach(() => {
+    consoleLogSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe('boardsList', () => {
+    it('should list active boards', async () => {
+      const getBoards = vi.fn().mockResolvedValue({
+        data: [mockBoard],
+        meta: { total: 1, page: 1, per_page: 100 },
+        included: [{ id: '5', type: 'projects', attributes: { name: 'Website' } }],
+      });
+
+      const ctx = createTestContext({
+        api: { getBoards } as unknown as ProductiveApi,
+      });
+
+      await boardsList(ctx);
+
+      expect(getBoards).toHaveBeenCalledWith({
+        page: 1,
+        perPage: 100,
+        filter: { status: '1' },
+        sort: '',
+        include: ['project'],
+      });
+      expect(consoleLogSpy).toHaveBeenCalled();
+    });
+
+    it('should map list options to filters', async () => {
+      const getBoards = vi.fn().mockResolvedValue({ data: [], meta: {}, included: [] });
+
+      const ctx = createTestContext({
+        api: { getBoards } as unknown as ProductiveApi,
+        options: { project: '5', status: 'archived', format: 'json' },
+      });
+
+      await boardsList(ctx);
+
+      expect(getBoards).toHaveBeenCalledWith(
+        expect.objectContaining({ filter: { project_id: '5', status: '2' } }),
+      );
+    });
+
+    it('should list boards in csv format', async () => {
+      const getBoards = vi.fn().mockResolvedValue({ data: [mockBoard], meta: {} });
+      const ctx = createTestContext({
+        api: { getBoards } as unknown as ProductiveApi,
+        options: { format: 'csv' },
+      });
+      await boardsList(ctx);
+      expect(consoleLogSpy).toHaveBeenCalled();
+    });
+  });
+
+  describe('boardsGet', () => {
+    it('should get a board by id', async () => {
+      const getBoard = vi.fn().mockResolvedValue({ data: mockBoard, included: [] });
+
+      const ctx = createTestContext({
+        api: { getBoard } as unknown as ProductiveApi,
+        options: { format: 'json' },
+      });
+
+      await boardsGet(['1'], ctx);
+
+      expect(getBoard).toHaveBeenCalledWith('1', { include: ['project'] });
+      expect(consoleLogSpy).toHaveBeenCalled();
+    });
+
+    it('should exit with error when id is missing', async () => {
+      const processExitSpy = vi.spyOn(process, 'exit').mockImplementation(() => undefined as never);
+      const ctx = createTestContext();
+
+      try {
+        await boardsGet([], ctx);
+      } catch {
+        // exitWithValidationError throws
+      }
+
+      expect(processExitSpy).toHaveBeenCalledWith(3);
+    });
+  });
+
+  describe('boardsAdd', () => {
+    it('should create a board in a project', async () => {
+      const createBoard = vi.fn().mockResolvedValue({ data: mockBoard });
+
+      const ctx = createTestContext({
+        api: { createBoard } as unknown as ProductiveApi,
+        options: { name: 'Development', project: '5', position: '2', format: 'json' },
+      });
+
+      await boardsAdd(ctx);
+
+      expect(createBoard).toHaveBeenCalledWith({
+        name: 'Development',
+        project_id: '5',
+        position: 2,
+      });
+      expect(consoleLogSpy).toHaveBeenCalled();
+    });
+
+    it('should exit with error when project is missing', async () => {
+      const processExitSpy = vi.spyOn(process, 'exit').mockImplementation(() => undefined as never);
+
+      const ctx = createTestContext({ options: { name: 'Development', format: 'json' } });
+
+      await boardsAdd(ctx);
+
+      expect(processExitSpy).toHaveBeenCalledWith(3);
+    });
+
+    it('should exit with error when position is invalid', async () => {
+      const processExitSpy = vi.spyOn(process, 'exit').mockImplementation(() => undefined as never);
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+      const createBoard = vi.fn();
+
+      const ctx = createTestContext({
+        api: { createBoard } as unknown as ProductiveApi,
+        options: { name: 'Development', project: '5', position: 'first' },
+      });
+
+      await boardsAdd(ctx);
+
+      expect(createBoard).not.toHaveBeenCalled();
+      expect(processExitSpy).toHaveBeenCalled();
+    });
+  });
+
+  describe('boardsUpdate', () => {
+    it('should reorder a board', async () => {
+      const updateBoard = vi.fn().mockResolvedValue({ data: mockBoard });
+
+      const ctx = createTestContext({
+        api: { updateBoard } as unknown as ProductiveApi,
+        options: { position: '1', format: 'json' },
+      });
+
+      await boardsUpdate(['1'], ctx);
+
+      expect(updateBoard).toHaveBeenCalledWith('1', { position: 1 });
+    });
+
+    it('should exit with error when no updates specified', async () => {
+      const processExitSpy = vi.spyOn(process, 'exit').mockImplementation(() => undefined as never);
+
+      const ctx = createTestContext({ options: { format: 'json' } });
+
+      await boardsUpdate(['1'], ctx);
+
+      expect(processExitSpy).toHaveBeenCalled();
+    });
+  });
+
+  describe('boardsArchive / boardsRestore', () => {
+    it('should archive a board', async () => {
+      const archiveBoard = vi.fn().mockResolvedValue({
+        data: {
+          ...mockBoard,
+          attributes: { ...mockBoard.attributes, archived_at: '2024-02-01T00:00:00Z' },
+        },
+      });
+
+      const ctx = createTestContext({
+        api: { archiveBoard } as unknown as ProductiveApi,
+        options: { format: 'human' },
+      });
+
+      await boardsArchive(['1'], ctx);
+
+      expect(archiveBoard).toHaveBeenCalledWith('1');
+      expect(consoleLogSpy).toHaveBeenCalled();
+    });
+
+    it('should restore a board', async () => {
+      const restoreBoard = vi.fn().mockResolvedValue({ data: mockBoard });
+
+      const ctx = createTestContext({
+        api: { restoreBoard } as unknown as ProductiveApi,
+        options: { format: 'json' },
+      });
+
+      await boardsRestore(['1'], ctx);
+
+      expect(restoreBoard).toHaveBeenCalledWith('1');
+    });
+  });
+
+  describe('command routing', () => {
+    it('should exit with error for unknown subcommand', async () => {
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+      const processExitSpy = vi.spyOn(process, 'exit').mockImplementation(() => undefined as never);
+
+      await handleBoardsCommand('unknown', [], {
+        format: 'json',
+        token: 'test-token',
+        'org-id': 'test-org',
+      });
+
+      expect(processExitSpy).toHaveBeenCalledWith(1);
+    });
+  });
+});
@@ -0,0 +1,30 @@
+/**
+ * Boards command entry point
+ */
+
+import { createCommandRouter } from '../../utils/command-router.js';
+import {
+  boardsList,
+  boardsGet,
+  boardsAdd,
+  boardsUpdate,
+  boardsArchive,
+  boardsRestore,
+} from './handlers.js';
+
+/**
+ * Handle boards command
+ */
+export const handleBoardsCommand = createCommandRouter({
+  resource: 'boards',
+  handlers: {
+    list: boardsList,
+    ls: boardsList,
+    get: [boardsGet, 'args'],
+    add: boardsAdd,
+    create: boardsAdd,
+    update: [boardsUpdate, 'args'],
+    archive: [boardsArchive, 'args'],
+    restore: [boardsRestore, 'args'],
+  },
+});
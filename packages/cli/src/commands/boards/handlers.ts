@@ -0,0 +1,243 @@
+/**
+ * CLI adapter for boards command handlers.
+ */
+
+import { formatBoard, formatListResponse } from '@studiometa/productive-api';
+import {
+  fromCommandContext,
+  listBoards,
+  getBoard,
+  createBoard,
+  updateBoard,
+  archiveBoard,
+  restoreBoard,
+  ExecutorValidationError,
+  type ListBoardsOptions,
+} from '@studiometa/productive-core';
+
+import type { CommandContext } from '../../context.js';
+import type { OutputFormat } from '../../types.js';
+
+import { handleError, exitWithValidationError, runCommand } from '../../error-handler.js';
+import { ValidationError } from '../../errors.js';
+import { render, createRenderContext, humanBoardDetailRenderer } from '../../renderers/index.js';
+import { colors } from '../../utils/colors.js';
+import { parseFilters } from '../../utils/parse-filters.js';
+
+function parseListOptions(ctx: CommandContext): ListBoardsOptions {
+  const options: ListBoardsOptions = {};
+
+  const additionalFilters: Record<string, string> = {};
+  if (ctx.options.filter)
+    Object.assign(additionalFilters, parseFilters(String(ctx.options.filter)));
+  if (Object.keys(additionalFilters).length > 0) options.additionalFilters = additionalFilters;
+
+  if (ctx.options.project) options.projectId = String(ctx.options.project);
+  if (ctx.options.status) options.status = String(ctx.options.status);
+
+  const { page, perPage } = ctx.getPagination();
+  options.page = page;
+  options.perPage = perPage;
+  options.sort = ctx.getSort();
+
+  return options;
+}
+
+/**
+ * Parse the --position option (1-based order within the project)
+ */
+function parsePosition(value: unknown): number {
+  const position = Number.parseInt(String(value), 10);
+  if (!Number.isInteger(position) || position < 1) {
+    throw ValidationError.invalid('position', value, 'must be a positive integer');
+  }
+  return position;
+}
+
+export async function boardsList(ctx: CommandContext): Promise<void> {
+  const spinner = ctx.createSpinner('Fetching boards...');
+  spinner.start();
+
+  await runCommand(async () => {
+    const execCtx = fromCommandContext(ctx);
+    const result = await listBoards(parseListOptions(ctx), execCtx);
+
+    spinner.succeed();
+
+    const format = (ctx.options.format || ctx.options.f || 'human') as OutputFormat;
+    const formattedData = formatListResponse(result.data, formatBoard, result.meta, {
+      included: result.included,
+    });
+
+    if (format === 'csv' || format === 'table') {
+      const data = formattedData.data.map((b) => ({
+        id: b.id,
+        name: b.name,
+        position: b.position ?? '',
+        project: b.project_name || '',
+        archived: b.archived ? 'yes' : 'no',
+      }));
+      ctx.formatter.output(data);
+    } else {
+      const renderCtx = createRenderContext({ noColor: ctx.options['no-color'] === true });
+      render('board', format, formattedData, renderCtx);
+    }
+  }, ctx.formatter);
+}
+
+export async function boardsGet(args: string[], ctx: CommandContext): Promise<void> {
+  const [id] = args;
+  if (!id) exitWithValidationError('id', 'productive boards get <id>', ctx.formatter);
+
+  const spinner = ctx.createSpinner('Fetching board...');
+  spinner.start();
+
+  await runCommand(async () => {
+    const execCtx = fromCommandContext(ctx);
+    const result = await getBoard({ id }, execCtx);
+
+    spinner.succeed();
+
+    const format = (ctx.options.format || ctx.options.f || 'human') as OutputFormat;
+    const formattedData = formatBoard(result.data, { included: result.included });
+
+    if (format === 'json') {
+      ctx.formatter.output(formattedData);
+    } else {
+      const renderCtx = createRenderContext({ noColor: ctx.options['no-color'] === true });
+      humanBoardDetailRenderer.render(formattedData, renderCtx);
+    }
+  }, ctx.formatter);
+}
+
+export async function boardsAdd(ctx: CommandContext): Promise<void> {
+  const spinner = ctx.createSpinner('Creating board...');
+  spinner.start();
+
+  if (!ctx.options.name) {
+    spinner.fail();
+    handleError(ValidationError.required('name'), ctx.formatter);
+    return;
+  }
+
+  if (!ctx.options.project) {
+    spinner.fail();
+    handleError(ValidationError.required('project'), ctx.formatter);
+    return;
+  }
+
+  await runCommand(async () => {
+    const execCtx = fromCommandContext(ctx);
+    const result = await createBoard(
+      {
+        name: String(ctx.options.name),
+        projectId: String(ctx.options.project),
+        position:
+          ctx.options.position !== undefined ? parsePosition(ctx.options.position) : undefined,
+      },
+      execCtx,
+    );
+
+    spinner.succeed();
+
+    const board = result.data;
+    const format = ctx.options.format || ctx.options.f || 'human';
+
+    if (format === 'json') {
+      ctx.formatter.output({ success: true, ...formatBoard(board) });
+    } else {
+      ctx.formatter.success('Board created');
+      console.log(colors.cyan('ID:'), board.id);
+      console.log(colors.cyan('Name:'), board.attributes.name);
+    }
+  }, ctx.formatter);
+}
+
+export async function boardsUpdate(args: string[], ctx: CommandContext): Promise<void> {
+  const [id] = args;
+  if (!id) {
+    exitWithValidationError('id', 'productive boards update <id> [options]', ctx.formatter);
+  }
+
+  const spinner = ctx.createSpinner('Updating board...');
+  spinner.start();
+
+  await runCommand(async () => {
+    const execCtx = fromCommandContext(ctx);
+
+    try {
+      const result = await updateBoard(
+        {
+          id,
+          name: ctx.options.name !== undefined ? String(ctx.options.name) : undefined,
+          position:
+            ctx.options.position !== undefined ? parsePosition(ctx.options.position) : undefined,
+        },
+        execCtx,
+      );
+
+      spinner.succeed();
+
+      const format = ctx.options.format || ctx.options.f || 'human';
+      if (format === 'json') {
+        ctx.formatter.output({ status: 'success', id: result.data.id });
+      } else {
+        ctx.formatter.success(`Board ${id} updated`);
+      }
+    } catch (error) {
+      if (error instanceof ExecutorValidationError) {
+        spinner.fail();
+        throw ValidationError.invalid(
+          'options',
+          {},
+          'No updates specified. Use --name or --position.',
+        );
+      }
+      throw error;
+    }
+  }, ctx.formatter);
+}
+
+export async function boardsArchive(args: string[], ctx: CommandContext): Promise<void> {
+  const [id] = args;
+  if (!id) exitWithValidationError('id', 'productive boards archive <id>', ctx.formatter);
+
+  const spinner = ctx.createSpinner('Archiving board...');
+  spinner.start();
+
+  await runCommand(async () => {
+    const execCtx = fromCommandContext(ctx);
+    const result = await archiveBoard({ id }, execCtx);
+
+    spinner.succeed();
+
+    const format = ctx.options.format || ctx.options.f || 'human';
+    if (format === 'json') {
+      ctx.formatter.output({ success: true, ...formatBoard(result.data) });
+    } else {
+      ctx.formatter.success(`Board ${id} archived`);
+    }
+  }, ctx.formatter);
+}
+
+export async function boardsRestore(args: string[], ctx: CommandContext): Promise<void> {
+  const [id] = args;
+  if (!id) exitWithValidationError('id', 'productive boards restore <id>', ctx.formatter);
+
+  const spinner = ctx.createSpinner('Restoring board...');
+  spinner.start();
+
+  await runCommand(async () => {
+    const execCtx = fromCommandContext(ctx);
+    const result = await restoreBoard({ id }, execCtx);
+
+    spinner.succeed();
+
+    const format = ctx.options.format || ctx.options.f || 'human';
+    if (format === 'json') {
+      ctx.formatter.output({ success: true, ...formatBoard(result.data) });
+    } else {
+      ctx.formatter.success(`Board ${id} restored`);
+    }
+  }, ctx.formatter);
+}
@@ -0,0 +1,33 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+
+import { showBoardsHelp } from './help.js';
+
+describe('showBoardsHelp', () => {
+  const spy = vi.spyOn(console, 'log').mockImplementation(() => {});
+  afterEach(() => spy.mockClear());
+
+  it('shows general help with no argument', () => {
+    showBoardsHelp();
+    const output = spy.mock.calls[0][0];
+    expect(output).toContain('productive boards');
+    expect(output).toContain('list, ls');
+    expect(output).toContain('archive <id>');
+    expect(output).toContain('restore <id>');
+  });
+
+  it.each([
+    ['list', 'productive boards list', '--project'],
+    ['ls', 'productive boards list', '--status'],
+    ['get', 'productive boards get', '<id>'],
+    ['add', 'productive boards add', '--project'],
+    ['create', 'productive boards add', '--position'],
+    ['update', 'productive boards update', '--position'],
+    ['archive', 'productive boards archive', '<id>'],
+    ['restore', 'productive boards restore', '<id>'],
+  ])('shows %s help', (subcommand, title, option) => {
+    showBoardsHelp(subcommand);
+    const output = spy.mock.calls[0][0];
+    expect(output).toContain(title);
+    expect(output).toContain(option);
+  });
+});
@@ -0,0 +1,141 @@
+/**
+ * Help text for boards command
+ */
+
+import { colors } from '../../utils/colors.js';
+
+export function showBoardsHelp(subcommand?: string): void {
+  if (subcommand === 'list' || subcommand === 'ls') {
+    console.log(`
+${colors.bold('productive boards list')} - List boards
+
+${colors.bold('USAGE:')}
+  productive boards list [options]
+
+${colors.bold('OPTIONS:')}
+  --project <id>        Filter by project ID or number
+  --status <status>     Filter by status: active, archived (default: active)
+  --filter <filters>    Generic filters (comma-separated key=value pairs)
+  -p, --page <num>      Page number (default: 1)
+  -s, --size <num>      Page size (default: 100)
+  --sort <field>        Sort by field (prefix with - for descending)
+  -f, --format <fmt>    Output format: json, human, csv, table
+
+${colors.bold('EXAMPLES:')}
+  productive boards list --project PRJ-123
+  productive boards list --project 123 --status archived
+`);
+  } else if (subcommand === 'get') {
+    console.log(`
+${colors.bold('productive boards get')} - Get board details
+
+${colors.bold('USAGE:')}
+  productive boards get <id>
+
+${colors.bold('ARGUMENTS:')}
+  <id>                Board ID (required)
+
+${colors.bold('OPTIONS:')}
+  -f, --format <fmt>  Output format: json, human
+
+${colors.bold('EXAMPLES:')}
+  productive boards get 12345
+`);
+  } else if (subcommand === 'add' || subcommand === 'create') {
+    console.log(`
+${colors.bold('productive boards add')} - Create a board
+
+${colors.bold('USAGE:')}
+  productive boards add --name <text> --project <id> [options]
+
+${colors.bold('OPTIONS:')}
+  --name <text>         Board name (required)
+  --project <id>        Project ID or number (required)
+  --position <num>      Position within the project
+  -f, --format <fmt>    Output format: json, human
+
+${colors.bold('EXAMPLES:')}
+  productive boards add --name "Development" --project PRJ-123
+  productive boards add --name "Maintenance" --project 123 --position 1
+`);
+  } else if (subcommand === 'update') {
+    console.log(`
+${colors.bold('productive boards update')} - Rename or reorder a board
+
+${colors.bold('USAGE:')}
+  productive boards update <id> [options]
+
+${colors.bold('ARGUMENTS:')}
+  <id>                  Board ID (required)
+
+${colors.bold('OPTIONS:')}
+  --name <text>         New name
+  --position <num>      New position within the project
+  -f, --format <fmt>    Output format: json, human
+
+${colors.bold('EXAMPLES:')}
+  productive boards update 12345 --name "Support"
+  productive boards update 12345 --position 2
+`);
+  } else if (subcommand === 'archive') {
+    console.log(`
+${colors.bold('productive boards archive')} - Archive a board
+
+${colors.bold('USAGE:')}
+  productive boards archive <id>
+
+${colors.bold('ARGUMENTS:')}
+  <id>                Board ID (required)
+
+${colors.bold('OPTIONS:')}
+  -f, --format <fmt>  Output format: json, human
+
+${colors.bold('EXAMPLES:')}
+  productive boards archive 12345
+`);
+  } else if (subcommand === 'restore') {
+    console.log(`
+${colors.bold('productive boards restore')} - Restore an archived board
+
+${colors.bold('USAGE:')}
+  productive boards restore <id>
+
+${colors.bold('ARGUMENTS:')}
+  <id>                Board ID (required)
+
+${colors.bold('OPTIONS:')}
+  -f, --format <fmt>  Output format: json, human
+
+${colors.bold('EXAMPLES:')}
+  productive boards restore 12345
+`);
+  } else {
+    console.log(`
+${colors.bold('productive boards')} - Manage boards
+
+${colors.bold('USAGE:')}
+  productive boards <subcommand> [options]
+
+${colors.bold('SUBCOMMANDS:')}
+  list, ls            List boards
+  get <id>            Get board details
+  add, create         Create a board
+  update <id>         Rename or reorder a board
+  archive <id>        Archive a board
+  restore <id>        Restore an archived board
+
+${colors.bold('COMMON OPTIONS:')}
+  -f, --format <fmt>  Output format: json, human, csv, table
+  -p, --page <num>    Page number for pagination
+  -s, --size <num>    Page size (default: 100)
+  -h, --help          Show help for a subcommand
+
+${colors.bold('EXAMPLES:')}
+  productive boards list --project PRJ-123
+  productive boards add --name "Development" --project PRJ-123
+  productive boards archive 12345
+
+Run ${colors.cyan('productive boards <subcommand> --help')} for subcommand details.
+`);
+  }
+}
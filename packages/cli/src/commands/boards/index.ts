@@ -0,0 +1,2 @@
+export { handleBoardsCommand } from './command.js';
+export { showBoardsHelp } from './help.js';
@@ -19,6 +19,11 @@ import { handleError, exitWithValidationError, runCommand } from '../../error-ha
 import { ValidationError } from '../../errors.js';
 import { render, createRenderContext, humanBookingDetailRenderer } from '../../renderers/index.js';
 import { colors } from '../../utils/colors.js';
+import {
+  printEquivalentCommand,
+  promptMissingOptions,
+  type PromptSpec,
+} from '../../utils/interactive.js';
 import { parseFilters } from '../../utils/parse-filters.js';
 
 function formatDuration(minutes: number): string {
@@ -130,7 +135,37 @@ export async function bookingsGet(args: string[], ctx: CommandContext): Promise<
   }, ctx.formatter);
 }
 
-export async function bookingsAdd(ctx: CommandContext): Promise<void> {
+const BOOKINGS_ADD_PROMPTS: PromptSpec = {
+  command: 'productive bookings add',
+  fields: [
+    { option: 'from', message: 'From', kind: 'date' },
+    { option: 'to', message: 'To', kind: 'date' },
+    // Absence bookings use --event instead
+    { option: 'service', message: 'Service', kind: 'service', when: (options) => !options.event },
+  ],
+  options: [
+    'person',
+    'service',
+    'event',
+    'from',
+    'to',
+    'time',
+    'total-time',
+    'percentage',
+    'tentative',
+    'note',
+  ],
+  confirm: 'Create this booking?',
+};
+
+export async function bookingsAdd(cliCtx: CommandContext): Promise<void> {
+  const prompted = await runCommand(
+    () => promptMissingOptions(cliCtx, BOOKINGS_ADD_PROMPTS),
+    cliCtx.formatter,
+  );
+  if (!prompted) return;
+  const { ctx } = prompted;
+
   const spinner = ctx.createSpinner('Creating booking...');
   spinner.start();
 
@@ -194,6 +229,7 @@ export async function bookingsAdd(ctx: CommandContext): Promise<void> {
         `${booking.attributes.started_on} → ${booking.attributes.ended_on}`,
       );
       if (booking.attributes.draft) console.log(colors.yellow('Status: Tentative'));
+      printEquivalentCommand(prompted);
     }
   }, ctx.formatter);
 }
@@ -76,6 +76,7 @@ ${colors.bold('OPTIONS:')}
 
 ${colors.bold('NOTE:')}
   Either --service (for budget bookings) or --event (for absence bookings) must be specified.
+  In a terminal, missing dates and service are asked for instead.
 
 ${colors.bold('EXAMPLES:')}
   productive bookings add --service 123 --from 2024-01-15 --to 2024-01-19 --time 480
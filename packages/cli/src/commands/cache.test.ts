@@ -17,6 +17,7 @@ const mockSqliteCache = {
 
 vi.mock('../utils/sqlite-cache.js', () => ({
   getSqliteCache: vi.fn(() => mockSqliteCache),
+  cacheFileName: vi.fn((orgId: string) => `productive-${orgId}.db`),
 }));
 
 const mockCacheStore = {
@@ -6,13 +6,14 @@ import type {
 } from '../types.js';
 
 import { ProductiveApi } from '../api.js';
+import { getConfig } from '../config.js';
 import { runCommand } from '../error-handler.js';
 import { ConfigError, CommandError } from '../errors.js';
 import { OutputFormatter } from '../output.js';
 import { getCache } from '../utils/cache.js';
 import { colors } from '../utils/colors.js';
 import { Spinner } from '../utils/spinner.js';
-import { getSqliteCache } from '../utils/sqlite-cache.js';
+import { cacheFileName, getSqliteCache } from '../utils/sqlite-cache.js';
 
 // ============================================================================
 // Exported helper functions (easily testable)
@@ -183,17 +184,28 @@ export async function handleCacheCommand(
 // Subcommand implementations
 // ============================================================================
 
-async function cacheStatus(
-  formatter: OutputFormatter,
-  options: Record<string, string | boolean | string[]>,
-): Promise<void> {
-  const orgId = (options['org-id'] as string) || process.env.PRODUCTIVE_ORG_ID;
+/**
+ * Organization and credential profile whose cache a subcommand works on
+ */
+function resolveCacheTarget(options: Record<string, string | boolean | string[]>): {
+  orgId: string;
+  profile?: string;
+} {
+  const { organizationId, profile } = getConfig(options);
 
-  if (!orgId) {
+  if (!organizationId) {
     throw ConfigError.missingOrganizationId();
   }
 
-  const sqliteCache = getSqliteCache(orgId);
+  return { orgId: organizationId, profile };
+}
+
+async function cacheStatus(
+  formatter: OutputFormatter,
+  options: Record<string, string | boolean | string[]>,
+): Promise<void> {
+  const { orgId, profile } = resolveCacheTarget(options);
+  const sqliteCache = getSqliteCache(orgId, profile);
 
   try {
     const queryStats = await sqliteCache.cacheStats();
@@ -220,7 +232,7 @@ async function cacheStatus(
         database: {
           size_bytes: refStats.dbSize,
           size_human: formatBytes(refStats.dbSize),
-          location: `~/.cache/productive-cli/productive-${orgId}.db`,
+          location: `~/.cache/productive-cli/${cacheFileName(orgId, profile)}`,
         },
       });
     } else {
@@ -247,7 +259,9 @@ async function cacheStatus(
 
       console.log(colors.bold('\nDatabase:'));
       console.log(colors.cyan('  Total size:'), formatBytes(refStats.dbSize));
-      console.log(colors.dim(`  Location: ~/.cache/productive-cli/productive-${orgId}.db`));
+      console.log(
+        colors.dim(`  Location: ~/.cache/productive-cli/${cacheFileName(orgId, profile)}`),
+      );
       console.log();
     }
   } finally {
@@ -260,13 +274,8 @@ async function cacheClear(
   formatter: OutputFormatter,
   options: Record<string, string | boolean | string[]>,
 ): Promise<void> {
-  const orgId = (options['org-id'] as string) || process.env.PRODUCTIVE_ORG_ID;
-
-  if (!orgId) {
-    throw ConfigError.missingOrganizationId();
-  }
-
-  const sqliteCache = getSqliteCache(orgId);
+  const { orgId, profile } = resolveCacheTarget(options);
+  const sqliteCache = getSqliteCache(orgId, profile);
   const pattern = args[0];
 
   try {
@@ -290,13 +299,8 @@ async function cacheSync(
 
   try {
     const api = new ProductiveApi(options);
-    const orgId = (options['org-id'] as string) || process.env.PRODUCTIVE_ORG_ID;
-
-    if (!orgId) {
-      throw ConfigError.missingOrganizationId();
-    }
-
-    const sqliteCache = getSqliteCache(orgId);
+    const { orgId, profile } = resolveCacheTarget(options);
+    const sqliteCache = getSqliteCache(orgId, profile);
 
     // Sync projects
     spinner.setText('Syncing projects...');
@@ -374,13 +378,8 @@ async function cacheQueue(
   formatter: OutputFormatter,
   options: Record<string, string | boolean | string[]>,
 ): Promise<void> {
-  const orgId = (options['org-id'] as string) || process.env.PRODUCTIVE_ORG_ID;
-
-  if (!orgId) {
-    throw ConfigError.missingOrganizationId();
-  }
-
-  const cache = getCache();
+  const { orgId, profile } = resolveCacheTarget(options);
+  const cache = getCache(true, profile);
   cache.setOrgId(orgId);
 
   // Handle --clear flag
@@ -181,7 +181,7 @@ describe('comments command', () => {
       await commentsAdd(ctx);
 
       expect(createComment).toHaveBeenCalledWith({
-        body: 'New comment',
+        body: '<p>New comment</p>',
         hidden: undefined,
         task_id: '123',
         deal_id: undefined,
@@ -216,7 +216,7 @@ describe('comments command', () => {
 
       expect(createComment).toHaveBeenCalledWith(
         expect.objectContaining({
-          body: 'Hidden note',
+          body: '<p>Hidden note</p>',
           hidden: true,
           task_id: '123',
         }),
@@ -268,12 +268,14 @@ describe('comments command', () => {
 
       const ctx = createTestContext({
         api: { updateComment } as unknown as ProductiveApi,
-        options: { body: 'Updated comment', format: 'json' },
+        options: { body: 'Updated **comment**\n\n- one', format: 'json' },
       });
 
       await commentsUpdate(['1'], ctx);
 
-      expect(updateComment).toHaveBeenCalledWith('1', { body: 'Updated comment' });
+      expect(updateComment).toHaveBeenCalledWith('1', {
+        body: '<p>Updated <strong>comment</strong></p><ul><li>one</li></ul>',
+      });
     });
 
     it('should update comment hidden flag', async () => {
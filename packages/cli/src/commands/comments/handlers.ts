@@ -2,7 +2,7 @@
  * CLI adapter for comments command handlers.
  */
 
-import { formatComment, formatListResponse } from '@studiometa/productive-api';
+import { formatComment, formatListResponse, markdownToHtml } from '@studiometa/productive-api';
 import {
   fromCommandContext,
   getComment,
@@ -19,6 +19,7 @@ import { handleError, exitWithValidationError, runCommand } from '../../error-ha
 import { ValidationError } from '../../errors.js';
 import { render, createRenderContext, humanCommentDetailRenderer } from '../../renderers/index.js';
 import { colors } from '../../utils/colors.js';
+import { runMutation, reportQueuedMutation } from '../../utils/mutation-journal.js';
 import { parseFilters } from '../../utils/parse-filters.js';
 
 function parseListOptions(ctx: CommandContext): ListCommentsOptions {
@@ -98,7 +99,7 @@ export async function commentsGet(args: string[], ctx: CommandContext): Promise<
     spinner.succeed();
 
     const format = (ctx.options.format || ctx.options.f || 'human') as OutputFormat;
-    const formattedData = formatComment(result.data);
+    const formattedData = formatComment(result.data, { markdown: true });
 
     if (format === 'json') {
       ctx.formatter.output(formattedData);
@@ -152,24 +153,30 @@ export async function commentsAdd(ctx: CommandContext): Promise<void> {
   }
 
   await runCommand(async () => {
-    const execCtx = fromCommandContext(ctx);
-    const result = await createComment(
-      {
-        body: String(ctx.options.body),
-        hidden: ctx.options.hidden === true ? true : undefined,
-        taskId: ctx.options.task ? String(ctx.options.task) : undefined,
-        dealId: ctx.options.deal ? String(ctx.options.deal) : undefined,
-        companyId: ctx.options.company ? String(ctx.options.company) : undefined,
-        invoiceId: ctx.options.invoice ? String(ctx.options.invoice) : undefined,
-        personId: ctx.options.person ? String(ctx.options.person) : undefined,
-        discussionId: ctx.options.discussion ? String(ctx.options.discussion) : undefined,
-      },
-      execCtx,
+    const options = {
+      body: markdownToHtml(String(ctx.options.body)),
+      hidden: ctx.options.hidden === true ? true : undefined,
+      taskId: ctx.options.task ? String(ctx.options.task) : undefined,
+      dealId: ctx.options.deal ? String(ctx.options.deal) : undefined,
+      companyId: ctx.options.company ? String(ctx.options.company) : undefined,
+      invoiceId: ctx.options.invoice ? String(ctx.options.invoice) : undefined,
+      personId: ctx.options.person ? String(ctx.options.person) : undefined,
+      discussionId: ctx.options.discussion ? String(ctx.options.discussion) : undefined,
+    };
+    const outcome = await runMutation(
+      ctx,
+      { kind: 'comment.create', payload: options },
+      (execCtx) => createComment(options, execCtx),
     );
 
+    if (outcome.queued) {
+      spinner.stop();
+      reportQueuedMutation(ctx, outcome.entry);
+      return;
+    }
     spinner.succeed();
 
-    const comment = result.data;
+    const comment = outcome.data.data;
     const format = ctx.options.format || ctx.options.f || 'human';
 
     if (format === 'json') {
@@ -216,7 +223,7 @@ export async function commentsUpdate(args: string[], ctx: CommandContext): Promi
     const result = await updateComment(
       {
         id,
-        body: hasBody ? String(ctx.options.body) : undefined,
+        body: hasBody ? markdownToHtml(String(ctx.options.body)) : undefined,
         hidden,
       },
       execCtx,
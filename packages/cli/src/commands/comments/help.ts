@@ -51,7 +51,7 @@ ${colors.bold('USAGE:')}
   productive comments add [options]
 
 ${colors.bold('OPTIONS:')}
-  --body <text>       Comment text (required)
+  --body <text>       Comment text in Markdown (required)
   --hidden            Hide comment from client
   --task <id>         Add comment to task
   --deal <id>         Add comment to deal
@@ -59,6 +59,7 @@ ${colors.bold('OPTIONS:')}
   --invoice <id>      Add comment to invoice
   --person <id>       Add comment to person
   --discussion <id>   Add comment to discussion
+  --offline           Queue the comment for "productive sync" without calling the API
   -f, --format <fmt>  Output format: json, human
 
 ${colors.bold('NOTE:')}
@@ -80,7 +81,7 @@ ${colors.bold('ARGUMENTS:')}
   <id>                Comment ID (required)
 
 ${colors.bold('OPTIONS:')}
-  --body <text>       New comment text
+  --body <text>       New comment text (Markdown)
   --hidden            Hide comment from client
   --no-hidden         Make comment visible to client
   -f, --format <fmt>  Output format: json, human
@@ -15,7 +15,7 @@ async function getProjects(): Promise<void> {
     return;
   }
 
-  const cache = getSqliteCache(config.organizationId);
+  const cache = getSqliteCache(config.organizationId, config.profile);
   const projects = await cache.searchProjects('');
 
   // Output format: "id:name" for easy parsing
@@ -34,7 +34,7 @@ async function getPeople(): Promise<void> {
     return;
   }
 
-  const cache = getSqliteCache(config.organizationId);
+  const cache = getSqliteCache(config.organizationId, config.profile);
   const people = await cache.searchPeople('');
 
   for (const person of people.slice(0, 50)) {
@@ -52,7 +52,7 @@ async function getServices(): Promise<void> {
     return;
   }
 
-  const cache = getSqliteCache(config.organizationId);
+  const cache = getSqliteCache(config.organizationId, config.profile);
   const services = await cache.searchServices('');
 
   for (const service of services.slice(0, 50)) {
@@ -64,7 +64,7 @@ async function getServices(): Promise<void> {
  * Get config keys for completion
  */
 function getConfigKeys(): void {
-  const keys = ['apiToken', 'organizationId', 'userId', 'baseUrl', 'useKeychain'];
+  const keys = ['apiToken', 'organizationId', 'userId', 'baseUrl', 'timezone', 'useKeychain'];
   for (const key of keys) {
     console.log(key);
   }
@@ -21,17 +21,17 @@ _productive_completions() {
   commands="config projects p time t tasks people services svc cache api completion help"
 
   # Subcommands for each command
-  local config_cmds="set get validate clear"
+  local config_cmds="set get validate profile clear"
   local projects_cmds="list ls get"
-  local time_cmds="list ls get add update delete"
-  local tasks_cmds="list ls get"
+  local time_cmds="list ls get add update delete bulk-delete import export approvals approve unapprove reject submit"
+  local tasks_cmds="list ls get bulk-update"
   local people_cmds="list ls get"
   local services_cmds="list ls"
   local cache_cmds="status clear"
   local completion_cmds="bash zsh fish"
 
   # Global options
-  options="--format --no-color --no-cache --refresh --page --size --sort --help --version --token --api-token --org-id --organization-id --user-id --base-url"
+  options="--format --no-color --no-cache --refresh --page --size --sort --help --version --token --api-token --org-id --organization-id --user-id --base-url --profile"
 
   # Format options
   local formats="json human csv table"
@@ -117,7 +117,7 @@ _productive_completions() {
           local people=\$(_get_completions "people")
           COMPREPLY=( \$(compgen -W "\${people}" -- "\${cur}") )
           ;;
-        --token|--api-token|--org-id|--organization-id|--user-id|--base-url|--page|--size|--sort|clear)
+        --token|--api-token|--org-id|--organization-id|--user-id|--base-url|--profile|--page|--size|--sort|clear)
           # No completion for values
           COMPREPLY=()
           ;;
@@ -180,6 +180,7 @@ _productive() {
             'set:Set configuration value'
             'get:Get configuration value(s)'
             'validate:Validate configuration'
+            'profile:Manage credential profiles'
             'clear:Clear all configuration'
           )
           _describe 'config command' config_cmds
@@ -202,6 +203,14 @@ _productive() {
             'add:Create time entry'
             'update:Update time entry'
             'delete:Delete time entry'
+            'bulk-delete:Delete time entries matching a filter'
+            'import:Import time entries from a file'
+            'export:Export time entries to a file'
+            'approvals:Show unapproved time per person'
+            'approve:Approve time entries'
+            'unapprove:Take back time entry approvals'
+            'reject:Reject time entries'
+            'submit:Submit timesheets for approval'
           )
           _describe 'time command' time_cmds
           ;;
@@ -211,6 +220,7 @@ _productive() {
             'list:List tasks'
             'ls:List tasks (alias)'
             'get:Get task details'
+            'bulk-update:Update tasks matching a filter'
           )
           _describe 'tasks command' tasks_cmds
           ;;
@@ -287,6 +297,7 @@ _productive() {
         '--organization-id[Organization ID]:org id:' \\
         '--user-id[User ID]:user id:' \\
         '--base-url[API base URL]:url:_urls' \\
+        '--profile[Credential profile]:profile:' \\
         '*::arg:->arg_completion'
 
       # Handle positional arguments based on context
@@ -353,6 +364,7 @@ complete -c productive -f -n "__fish_use_subcommand" -a "help" -d "Show help"
 complete -c productive -f -n "__fish_seen_subcommand_from config" -a "set" -d "Set configuration value"
 complete -c productive -f -n "__fish_seen_subcommand_from config" -a "get" -d "Get configuration value(s)"
 complete -c productive -f -n "__fish_seen_subcommand_from config" -a "validate" -d "Validate configuration"
+complete -c productive -f -n "__fish_seen_subcommand_from config" -a "profile" -d "Manage credential profiles"
 complete -c productive -f -n "__fish_seen_subcommand_from config" -a "clear" -d "Clear all configuration"
 
 # Projects subcommands
@@ -367,11 +379,20 @@ complete -c productive -f -n "__fish_seen_subcommand_from time t" -a "get" -d "G
 complete -c productive -f -n "__fish_seen_subcommand_from time t" -a "add" -d "Create time entry"
 complete -c productive -f -n "__fish_seen_subcommand_from time t" -a "update" -d "Update time entry"
 complete -c productive -f -n "__fish_seen_subcommand_from time t" -a "delete" -d "Delete time entry"
+complete -c productive -f -n "__fish_seen_subcommand_from time t" -a "bulk-delete" -d "Delete time entries matching a filter"
+complete -c productive -f -n "__fish_seen_subcommand_from time t" -a "import" -d "Import time entries from a file"
+complete -c productive -f -n "__fish_seen_subcommand_from time t" -a "export" -d "Export time entries to a file"
+complete -c productive -f -n "__fish_seen_subcommand_from time t" -a "approvals" -d "Show unapproved time per person"
+complete -c productive -f -n "__fish_seen_subcommand_from time t" -a "approve" -d "Approve time entries"
+complete -c productive -f -n "__fish_seen_subcommand_from time t" -a "unapprove" -d "Take back time entry approvals"
+complete -c productive -f -n "__fish_seen_subcommand_from time t" -a "reject" -d "Reject time entries"
+complete -c productive -f -n "__fish_seen_subcommand_from time t" -a "submit" -d "Submit timesheets for approval"
 
 # Tasks subcommands
 complete -c productive -f -n "__fish_seen_subcommand_from tasks" -a "list" -d "List tasks"
 complete -c productive -f -n "__fish_seen_subcommand_from tasks" -a "ls" -d "List tasks (alias)"
 complete -c productive -f -n "__fish_seen_subcommand_from tasks" -a "get" -d "Get task details"
+complete -c productive -f -n "__fish_seen_subcommand_from tasks" -a "bulk-update" -d "Update tasks matching a filter"
 
 # People subcommands
 complete -c productive -f -n "__fish_seen_subcommand_from people" -a "list" -d "List people"
@@ -414,6 +435,7 @@ complete -c productive -l org-id -d "Organization ID" -r
 complete -c productive -l organization-id -d "Organization ID" -r
 complete -c productive -l user-id -d "User ID" -r
 complete -c productive -l base-url -d "API base URL" -r
+complete -c productive -l profile -d "Credential profile" -r
 `;
 
 /**
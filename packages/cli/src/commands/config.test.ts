@@ -1,6 +1,7 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 
 import * as configModule from '../config.js';
+import { OutputFormatter } from '../output.js';
 import { handleConfigCommand } from './config.js';
 
 // Mock dependencies
@@ -11,6 +12,14 @@ vi.mock('../config.js', () => ({
   validateConfig: vi.fn(),
   isKeychainAvailable: vi.fn().mockReturnValue(false),
   getKeychainBackend: vi.fn().mockReturnValue('none'),
+  getActiveProfile: vi.fn((options?: Record<string, unknown>) =>
+    typeof options?.profile === 'string' ? options.profile : 'default',
+  ),
+  hasProfile: vi.fn((profile: string) => ['default', 'sandbox'].includes(profile)),
+  listProfiles: vi.fn().mockReturnValue([]),
+  addProfile: vi.fn(),
+  useProfile: vi.fn(),
+  removeProfile: vi.fn(),
 }));
 
 vi.mock('../output.js', () => ({
@@ -50,25 +59,48 @@ describe('config command', () => {
     it('should set a valid configuration key', () => {
       handleConfigCommand('set', ['apiToken', 'test-token'], {});
 
-      expect(configModule.setConfig).toHaveBeenCalledWith('apiToken', 'test-token');
+      expect(configModule.setConfig).toHaveBeenCalledWith('apiToken', 'test-token', {
+        profile: 'default',
+      });
     });
 
     it('should set organizationId', () => {
       handleConfigCommand('set', ['organizationId', '12345'], {});
 
-      expect(configModule.setConfig).toHaveBeenCalledWith('organizationId', '12345');
+      expect(configModule.setConfig).toHaveBeenCalledWith('organizationId', '12345', {
+        profile: 'default',
+      });
     });
 
     it('should set userId', () => {
       handleConfigCommand('set', ['userId', '67890'], {});
 
-      expect(configModule.setConfig).toHaveBeenCalledWith('userId', '67890');
+      expect(configModule.setConfig).toHaveBeenCalledWith('userId', '67890', {
+        profile: 'default',
+      });
     });
 
     it('should set baseUrl', () => {
       handleConfigCommand('set', ['baseUrl', 'https://api.productive.io'], {});
 
-      expect(configModule.setConfig).toHaveBeenCalledWith('baseUrl', 'https://api.productive.io');
+      expect(configModule.setConfig).toHaveBeenCalledWith('baseUrl', 'https://api.productive.io', {
+        profile: 'default',
+      });
+    });
+
+    it('should set timezone', () => {
+      handleConfigCommand('set', ['timezone', 'Europe/Paris'], {});
+
+      expect(configModule.setConfig).toHaveBeenCalledWith('timezone', 'Europe/Paris', {
+        profile: 'default',
+      });
+    });
+
+    it('should exit with error for an unknown timezone', () => {
+      expect(() => handleConfigCommand('set', ['timezone', 'Paris'], {})).toThrow(
+        'process.exit(3)',
+      );
+      expect(configModule.setConfig).not.toHaveBeenCalled();
     });
 
     it('should exit with error when key is missing', () => {
@@ -251,6 +283,101 @@ describe('config command', () => {
     });
   });
 
+  describe('profiles', () => {
+    it('should target the profile given with --profile', () => {
+      handleConfigCommand('set', ['userId', '42'], { profile: 'sandbox' });
+
+      expect(configModule.setConfig).toHaveBeenCalledWith('userId', '42', { profile: 'sandbox' });
+    });
+
+    it('should exit with config error for an unknown profile', () => {
+      expect(() => handleConfigCommand('set', ['userId', '42'], { profile: 'nope' })).toThrow(
+        'process.exit(4)',
+      );
+      expect(configModule.setConfig).not.toHaveBeenCalled();
+    });
+
+    it('should list profiles as JSON', () => {
+      vi.mocked(configModule.listProfiles).mockReturnValue([
+        { name: 'default', active: false, config: { organizationId: '1', apiToken: 'a' } },
+        { name: 'sandbox', active: true, config: { organizationId: '2' } },
+      ]);
+
+      handleConfigCommand('profile', ['list'], { format: 'json' });
+
+      const formatter = vi.mocked(OutputFormatter).mock.results[0].value;
+      expect(formatter.output).toHaveBeenCalledWith({
+        profiles: [
+          { name: 'default', active: false, organizationId: '1', hasToken: true },
+          { name: 'sandbox', active: true, organizationId: '2', hasToken: false },
+        ],
+      });
+    });
+
+    it('should list profiles by default', () => {
+      vi.mocked(configModule.listProfiles).mockReturnValue([
+        { name: 'default', active: true, config: {} },
+      ]);
+
+      handleConfigCommand('profile', [], {});
+
+      expect(consoleLogSpy).toHaveBeenCalledWith(expect.stringContaining('default'));
+    });
+
+    it('should add a profile with its values', () => {
+      handleConfigCommand('profile', ['add', 'staging'], {
+        token: 'tok',
+        'org-id': '99',
+        use: true,
+      });
+
+      expect(configModule.addProfile).toHaveBeenCalledWith('staging');
+      expect(configModule.setConfig).toHaveBeenCalledWith('apiToken', 'tok', {
+        profile: 'staging',
+      });
+      expect(configModule.setConfig).toHaveBeenCalledWith('organizationId', '99', {
+        profile: 'staging',
+      });
+      expect(configModule.setConfig).toHaveBeenCalledTimes(2);
+      expect(configModule.useProfile).toHaveBeenCalledWith('staging');
+    });
+
+    it('should reject existing and invalid profile names', () => {
+      expect(() => handleConfigCommand('profile', ['add', 'sandbox'], {})).toThrow(
+        'process.exit(3)',
+      );
+      expect(() => handleConfigCommand('profile', ['add', '../etc'], {})).toThrow(
+        'process.exit(3)',
+      );
+      expect(configModule.addProfile).not.toHaveBeenCalled();
+    });
+
+    it('should switch to an existing profile', () => {
+      handleConfigCommand('profile', ['use', 'sandbox'], {});
+
+      expect(configModule.useProfile).toHaveBeenCalledWith('sandbox');
+    });
+
+    it('should not switch to an unknown profile', () => {
+      expect(() => handleConfigCommand('profile', ['use', 'nope'], {})).toThrow('process.exit(4)');
+      expect(configModule.useProfile).not.toHaveBeenCalled();
+    });
+
+    it('should remove a profile but not the default one', () => {
+      handleConfigCommand('profile', ['remove', 'sandbox'], {});
+      expect(configModule.removeProfile).toHaveBeenCalledWith('sandbox');
+
+      expect(() => handleConfigCommand('profile', ['remove', 'default'], {})).toThrow(
+        'process.exit(3)',
+      );
+      expect(configModule.removeProfile).toHaveBeenCalledTimes(1);
+    });
+
+    it('should exit with error for an unknown profile action', () => {
+      expect(() => handleConfigCommand('profile', ['rename'], {})).toThrow('process.exit(1)');
+    });
+  });
+
   describe('unknown subcommand', () => {
     it('should exit with error for unknown subcommand', () => {
       expect(() => handleConfigCommand('unknown', [], {})).toThrow('process.exit(1)');
@@ -1,6 +1,25 @@
+import {
+  DEFAULT_PROFILE,
+  isValidProfileName,
+  PROFILE_KEYS,
+  type ProfileKey,
+} from '@studiometa/productive-api';
+import { isValidTimezone } from '@studiometa/productive-core';
+
 import type { OutputFormat } from '../types.js';
 
-import { getConfig, setConfig, clearConfig, validateConfig } from '../config.js';
+import {
+  getConfig,
+  setConfig,
+  clearConfig,
+  validateConfig,
+  getActiveProfile,
+  hasProfile,
+  listProfiles,
+  addProfile,
+  useProfile,
+  removeProfile,
+} from '../config.js';
 import { handleError } from '../error-handler.js';
 import { ValidationError, ConfigError, CommandError } from '../errors.js';
 import { OutputFormatter } from '../output.js';
@@ -23,11 +42,13 @@ ${colors.bold('VALID KEYS:')}
   organizationId      Your organization ID
   userId              Your user ID
   baseUrl             API base URL (optional, has default)
+  timezone            IANA timezone for dates like "today" (optional, default: system)
 
 ${colors.bold('EXAMPLES:')}
   productive config set apiToken YOUR_API_TOKEN
   productive config set organizationId 12345
   productive config set userId 67890
+  productive config set timezone Europe/Paris
 `);
   } else if (subcommand === 'get') {
     console.log(`
@@ -48,6 +69,7 @@ ${colors.bold('VALID KEYS:')}
   organizationId      Your organization ID
   userId              Your user ID
   baseUrl             API base URL
+  timezone            IANA timezone
 
 ${colors.bold('EXAMPLES:')}
   productive config get
@@ -73,6 +95,42 @@ ${colors.bold('DESCRIPTION:')}
 ${colors.bold('EXAMPLES:')}
   productive config validate
   productive config validate --format json
+`);
+  } else if (subcommand === 'profile') {
+    console.log(`
+${colors.bold('productive config profile')} - Manage credential profiles
+
+${colors.bold('USAGE:')}
+  productive config profile <action> [name] [options]
+
+${colors.bold('ACTIONS:')}
+  list                List profiles (default)
+  add <name>          Create a profile
+  use <name>          Make a profile the active one
+  remove <name>       Remove a profile and its stored token
+
+${colors.bold('OPTIONS (add):')}
+  --token <token>     API token of the profile
+  --org-id <id>       Organization ID of the profile
+  --user-id <id>      User ID of the profile
+  --base-url <url>    API base URL of the profile
+  --use               Make the new profile the active one
+  -f, --format <fmt>  Output format: json, human
+
+${colors.bold('DESCRIPTION:')}
+  Each profile holds its own apiToken, organizationId, userId and baseUrl;
+  tokens are stored in the keychain per profile when available. The values
+  set with "productive config set" belong to the "default" profile.
+
+  The profile used by a command is, in order: the --profile flag, the
+  PRODUCTIVE_PROFILE environment variable, the active profile, "default".
+
+${colors.bold('EXAMPLES:')}
+  productive config profile add sandbox --token TOKEN --org-id 12345
+  productive config profile use sandbox
+  productive config profile list
+  productive projects list --profile default
+  productive config set userId 67890 --profile sandbox
 `);
   } else if (subcommand === 'clear') {
     console.log(`
@@ -98,6 +156,7 @@ ${colors.bold('SUBCOMMANDS:')}
   set <key> <val>     Set a configuration value
   get [key]           Get configuration value(s)
   validate            Validate configuration
+  profile <action>    Manage credential profiles (list, add, use, remove)
   clear               Clear all configuration
 
 ${colors.bold('CONFIGURATION KEYS:')}
@@ -105,6 +164,11 @@ ${colors.bold('CONFIGURATION KEYS:')}
   organizationId      Your organization ID
   userId              Your user ID
   baseUrl             API base URL (optional)
+  timezone            IANA timezone for dates like "today" (optional)
+
+${colors.bold('PROFILES:')}
+  set, get and validate act on the active profile; pass --profile <name>
+  to target another one (see "productive config profile --help").
 
 ${colors.bold('STORAGE:')}
   Sensitive values (apiToken) are stored securely when available:
@@ -137,13 +201,16 @@ export function handleConfigCommand(
   try {
     switch (subcommand) {
       case 'set':
-        configSet(args, formatter);
+        configSet(args, options, formatter);
         break;
       case 'get':
         configGet(args, options, formatter);
         break;
       case 'validate':
-        configValidate(formatter);
+        configValidate(options, formatter);
+        break;
+      case 'profile':
+        configProfile(args, options, formatter);
         break;
       case 'clear':
         configClear(formatter);
@@ -156,7 +223,29 @@ export function handleConfigCommand(
   }
 }
 
-function configSet(args: string[], formatter: OutputFormatter): void {
+/**
+ * The profile selected for a command, which must exist
+ */
+function requireProfile(options: Record<string, string | boolean | string[]>): string {
+  const profile = getActiveProfile(options);
+  if (!hasProfile(profile)) {
+    throw ConfigError.unknownProfile(profile);
+  }
+  return profile;
+}
+
+/**
+ * Suffix naming the profile in messages, empty for the default one
+ */
+function profileLabel(profile: string): string {
+  return profile === DEFAULT_PROFILE ? '' : ` (profile ${profile})`;
+}
+
+function configSet(
+  args: string[],
+  options: Record<string, string | boolean | string[]>,
+  formatter: OutputFormatter,
+): void {
   const [key, value] = args;
 
   if (!key) {
@@ -167,13 +256,19 @@ function configSet(args: string[], formatter: OutputFormatter): void {
     throw ValidationError.required('value');
   }
 
-  const validKeys = ['apiToken', 'organizationId', 'userId', 'baseUrl'];
+  const validKeys: readonly string[] = PROFILE_KEYS;
   if (!validKeys.includes(key)) {
     throw ValidationError.invalid('key', key, `must be one of: ${validKeys.join(', ')}`);
   }
+  if (key === 'timezone' && !isValidTimezone(value)) {
+    throw ValidationError.invalid('value', value, 'must be an IANA timezone like Europe/Paris');
+  }
 
-  const result = setConfig(key as 'apiToken' | 'organizationId' | 'userId' | 'baseUrl', value);
-  formatter.success(`Configuration updated: ${key} (stored in ${result.location})`);
+  const profile = requireProfile(options);
+  const result = setConfig(key as ProfileKey, value, { profile });
+  formatter.success(
+    `Configuration updated: ${key}${profileLabel(profile)} (stored in ${result.location})`,
+  );
 }
 
 function configGet(
@@ -182,11 +277,12 @@ function configGet(
   formatter: OutputFormatter,
 ): void {
   const [key] = args;
-  const currentConfig = getConfig();
+  const profile = requireProfile(options);
+  const currentConfig = getConfig({ profile });
   const noMask = options['no-mask'] === true;
 
   if (key) {
-    const validKeys = ['apiToken', 'organizationId', 'userId', 'baseUrl'];
+    const validKeys: readonly string[] = PROFILE_KEYS;
     if (!validKeys.includes(key)) {
       throw ValidationError.invalid('key', key, `must be one of: ${validKeys.join(', ')}`);
     }
@@ -214,9 +310,11 @@ function configGet(
         organizationId: currentConfig.organizationId,
         userId: currentConfig.userId,
         baseUrl: currentConfig.baseUrl,
+        timezone: currentConfig.timezone,
+        profile,
       });
     } else {
-      console.log(colors.bold('Current configuration:'));
+      console.log(colors.bold(`Current configuration${profileLabel(profile)}:`));
       console.log(
         '  apiToken:',
         currentConfig.apiToken ? maskToken(currentConfig.apiToken) : colors.yellow('not set'),
@@ -224,12 +322,16 @@ function configGet(
       console.log('  organizationId:', currentConfig.organizationId || colors.yellow('not set'));
       console.log('  userId:', currentConfig.userId || colors.yellow('not set'));
       console.log('  baseUrl:', currentConfig.baseUrl || colors.yellow('not set'));
+      console.log('  timezone:', currentConfig.timezone || colors.dim('system'));
     }
   }
 }
 
-function configValidate(formatter: OutputFormatter): void {
-  const validation = validateConfig();
+function configValidate(
+  options: Record<string, string | boolean | string[]>,
+  formatter: OutputFormatter,
+): void {
+  const validation = validateConfig({ profile: requireProfile(options) });
 
   if (formatter['format'] === 'json') {
     formatter.output({
@@ -251,6 +353,106 @@ function configValidate(formatter: OutputFormatter): void {
   }
 }
 
+function configProfile(
+  args: string[],
+  options: Record<string, string | boolean | string[]>,
+  formatter: OutputFormatter,
+): void {
+  const [action = 'list', name] = args;
+
+  switch (action) {
+    case 'list':
+      profileList(formatter);
+      return;
+    case 'add':
+      profileAdd(name, options, formatter);
+      return;
+    case 'use':
+      if (!name) throw ValidationError.required('name');
+      if (!hasProfile(name)) throw ConfigError.unknownProfile(name);
+      useProfile(name);
+      formatter.success(`Now using profile ${name}`);
+      return;
+    case 'remove':
+      if (!name) throw ValidationError.required('name');
+      if (name === DEFAULT_PROFILE) {
+        throw ValidationError.invalid('name', name, 'the default profile cannot be removed', [
+          'Clear its values with: productive config clear',
+        ]);
+      }
+      if (!hasProfile(name)) throw ConfigError.unknownProfile(name);
+      removeProfile(name);
+      formatter.success(`Profile removed: ${name}`);
+      return;
+    default:
+      throw CommandError.unknownSubcommand('config profile', action);
+  }
+}
+
+function profileList(formatter: OutputFormatter): void {
+  const profiles = listProfiles();
+
+  if (formatter['format'] === 'json') {
+    formatter.output({
+      profiles: profiles.map(({ name, active, config }) => ({
+        name,
+        active,
+        organizationId: config.organizationId,
+        userId: config.userId,
+        baseUrl: config.baseUrl,
+        hasToken: !!config.apiToken,
+      })),
+    });
+    return;
+  }
+
+  for (const { name, active, config } of profiles) {
+    const marker = active ? colors.green('*') : ' ';
+    const details = [
+      `org ${config.organizationId || colors.yellow('not set')}`,
+      `user ${config.userId || colors.yellow('not set')}`,
+      config.apiToken ? 'token set' : colors.yellow('no token'),
+    ];
+    console.log(`${marker} ${colors.bold(name)}  ${colors.dim(details.join(' · '))}`);
+  }
+}
+
+function profileAdd(
+  name: string | undefined,
+  options: Record<string, string | boolean | string[]>,
+  formatter: OutputFormatter,
+): void {
+  if (!name) throw ValidationError.required('name');
+  if (!isValidProfileName(name)) {
+    throw ValidationError.invalid('name', name, 'use letters, digits, "-" and "_" only');
+  }
+  if (hasProfile(name)) {
+    throw ValidationError.invalid('name', name, 'a profile with this name already exists', [
+      `Update it with: productive config set <key> <value> --profile ${name}`,
+    ]);
+  }
+
+  addProfile(name);
+
+  const values = {
+    apiToken: options.token ?? options['api-token'],
+    organizationId: options['org-id'] ?? options['organization-id'],
+    userId: options['user-id'],
+    baseUrl: options['base-url'],
+  };
+  for (const [key, value] of Object.entries(values)) {
+    if (typeof value === 'string') {
+      setConfig(key as keyof typeof values, value, { profile: name });
+    }
+  }
+
+  if (options.use === true) {
+    useProfile(name);
+  }
+
+  formatter.success(`Profile added: ${name}${options.use === true ? ' (now active)' : ''}`);
+}
+
 function configClear(formatter: OutputFormatter): void {
   clearConfig();
   formatter.success('Configuration cleared');
@@ -3,9 +3,38 @@ import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import type { ProductiveApi } from '../api.js';
 
 import { createTestContext } from '../context.js';
-import { dealsList, dealsGet, dealsAdd, dealsUpdate } from './deals/handlers.js';
+import { dealsList, dealsGet, dealsAdd, dealsUpdate, dealsForecast } from './deals/handlers.js';
 import { handleDealsCommand } from './deals/index.js';
 
+function forecastApi() {
+  return {
+    getDeal: vi.fn().mockResolvedValue({
+      data: {
+        id: '1',
+        type: 'deals',
+        attributes: { name: 'Website', end_date: '2099-12-31', currency: 'EUR' },
+      },
+    }),
+    getServices: vi.fn().mockResolvedValue({
+      data: [
+        {
+          id: '10',
+          type: 'services',
+          attributes: { name: 'Design', budgeted_time: 600, worked_time: 900 },
+        },
+        {
+          id: '11',
+          type: 'services',
+          attributes: { name: 'Development', budgeted_time: 6000, worked_time: 60 },
+        },
+      ],
+      meta: { total_pages: 1 },
+    }),
+    getTimeEntries: vi.fn().mockResolvedValue({ data: [], meta: { total_pages: 1 } }),
+    getBookings: vi.fn().mockResolvedValue({ data: [], meta: { total_pages: 1 } }),
+  };
+}
+
 describe('deals command', () => {
   let consoleLogSpy: ReturnType<typeof vi.spyOn>;
 
@@ -268,7 +297,7 @@ describe('deals command', () => {
       expect(createDeal).toHaveBeenCalledWith({
         name: 'New Deal',
         company_id: '123',
-        date: undefined,
+        date: expect.stringMatching(/^\d{4}-\d{2}-\d{2}$/),
         budget: false,
         responsible_id: undefined,
       });
@@ -299,7 +328,7 @@ describe('deals command', () => {
       expect(createDeal).toHaveBeenCalledWith({
         name: 'New Budget',
         company_id: '123',
-        date: undefined,
+        date: expect.stringMatching(/^\d{4}-\d{2}-\d{2}$/),
         budget: true,
         responsible_id: undefined,
       });
@@ -375,6 +404,73 @@ describe('deals command', () => {
     });
   });
 
+  describe('dealsForecast', () => {
+    it('should output the forecast as JSON', async () => {
+      const api = forecastApi();
+      const ctx = createTestContext({
+        api: api as unknown as ProductiveApi,
+        options: { format: 'json', lookback: '14' },
+      });
+
+      await dealsForecast(['1'], ctx);
+
+      expect(api.getBookings).toHaveBeenCalledWith(
+        expect.objectContaining({ filter: expect.objectContaining({ budget_id: '1' }) }),
+      );
+      const output = JSON.parse(consoleLogSpy.mock.calls[0][0] as string);
+      expect(output.lookback_days).toBe(14);
+      expect(output.status).toBe('over_budget');
+      expect(output.overruns).toEqual(['10']);
+      expect(output.services.map((s: { status: string }) => s.status)).toEqual([
+        'over_budget',
+        'on_track',
+      ]);
+    });
+
+    it('should render a table per service in human format', async () => {
+      const ctx = createTestContext({
+        api: forecastApi() as unknown as ProductiveApi,
+        options: { format: 'human', 'no-color': true },
+      });
+
+      await dealsForecast(['1'], ctx);
+
+      const output = consoleLogSpy.mock.calls.map((call) => call.join(' ')).join('\n');
+      expect(output).toContain('Website');
+      expect(output).toContain('Ends 2099-12-31');
+      expect(output).toContain('Design');
+      expect(output).toContain('over budget');
+      expect(output).toContain('1 of 2 services over budget or at risk');
+    });
+
+    it('should reject an invalid lookback', async () => {
+      const processExitSpy = vi.spyOn(process, 'exit').mockImplementation(() => undefined as never);
+      const api = forecastApi();
+      const ctx = createTestContext({
+        api: api as unknown as ProductiveApi,
+        options: { format: 'json', lookback: 'soon' },
+      });
+
+      await dealsForecast(['1'], ctx);
+
+      expect(processExitSpy).toHaveBeenCalledWith(3);
+      expect(api.getDeal).not.toHaveBeenCalled();
+    });
+
+    it('should exit with error when id is missing', async () => {
+      const processExitSpy = vi.spyOn(process, 'exit').mockImplementation(() => undefined as never);
+      const ctx = createTestContext();
+
+      try {
+        await dealsForecast([], ctx);
+      } catch {
+        // exitWithValidationError throws
+      }
+
+      expect(processExitSpy).toHaveBeenCalledWith(3);
+    });
+  });
+
   describe('format variants', () => {
     const mockDeal = {
       id: '1',
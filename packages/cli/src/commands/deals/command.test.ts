@@ -8,6 +8,7 @@ vi.mock('./handlers.js', () => ({
   dealsGet: vi.fn().mockResolvedValue(undefined),
   dealsAdd: vi.fn().mockResolvedValue(undefined),
   dealsUpdate: vi.fn().mockResolvedValue(undefined),
+  dealsForecast: vi.fn().mockResolvedValue(undefined),
 }));
 
 // Mock config to avoid file system access
@@ -54,6 +55,7 @@ describe('deals command routing', () => {
     vi.mocked(handlers.dealsGet).mockClear();
     vi.mocked(handlers.dealsAdd).mockClear();
     vi.mocked(handlers.dealsUpdate).mockClear();
+    vi.mocked(handlers.dealsForecast).mockClear();
   });
 
   afterEach(() => {
@@ -132,6 +134,18 @@ describe('deals command routing', () => {
     expect(handlers.dealsUpdate).toHaveBeenCalledWith(['456'], expect.anything());
   });
 
+  it('should route "forecast" subcommand to dealsForecast', async () => {
+    const handlers = await import('./handlers.js');
+
+    await handleDealsCommand('forecast', ['456'], {
+      format: 'json',
+      token: 'test-token',
+      'org-id': 'test-org',
+    });
+
+    expect(handlers.dealsForecast).toHaveBeenCalledWith(['456'], expect.anything());
+  });
+
   it('should exit with error for unknown subcommand', async () => {
     await handleDealsCommand('unknown', [], {
       format: 'json',
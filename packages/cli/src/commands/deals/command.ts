@@ -3,7 +3,7 @@
  */
 
 import { createCommandRouter } from '../../utils/command-router.js';
-import { dealsList, dealsGet, dealsAdd, dealsUpdate } from './handlers.js';
+import { dealsList, dealsGet, dealsAdd, dealsUpdate, dealsForecast } from './handlers.js';
 
 /**
  * Handle deals command
@@ -17,5 +17,6 @@ export const handleDealsCommand = createCommandRouter({
     add: dealsAdd,
     create: dealsAdd,
     update: [dealsUpdate, 'args'],
+    forecast: [dealsForecast, 'args'],
   },
 });
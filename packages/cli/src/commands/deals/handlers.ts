@@ -7,6 +7,7 @@ import {
   fromCommandContext,
   listDeals,
   getDeal,
+  getDealForecast,
   createDeal,
   updateDeal,
   ExecutorValidationError,
@@ -18,8 +19,18 @@ import type { OutputFormat } from '../../types.js';
 
 import { handleError, exitWithValidationError, runCommand } from '../../error-handler.js';
 import { ValidationError } from '../../errors.js';
-import { render, createRenderContext, humanDealDetailRenderer } from '../../renderers/index.js';
+import {
+  render,
+  createRenderContext,
+  humanDealDetailRenderer,
+  tableRenderer,
+} from '../../renderers/index.js';
 import { colors } from '../../utils/colors.js';
+import {
+  printEquivalentCommand,
+  promptMissingOptions,
+  type PromptSpec,
+} from '../../utils/interactive.js';
 import { parseFilters } from '../../utils/parse-filters.js';
 
 function parseListOptions(ctx: CommandContext): ListDealsOptions {
@@ -104,7 +115,24 @@ export async function dealsGet(args: string[], ctx: CommandContext): Promise<voi
   }, ctx.formatter);
 }
 
-export async function dealsAdd(ctx: CommandContext): Promise<void> {
+const DEALS_ADD_PROMPTS: PromptSpec = {
+  command: 'productive deals add',
+  fields: [
+    { option: 'name', message: 'Name', kind: 'text' },
+    { option: 'company', message: 'Company', kind: 'company' },
+  ],
+  options: ['name', 'company', 'date', 'end-date', 'budget', 'responsible'],
+  confirm: 'Create this deal?',
+};
+
+export async function dealsAdd(cliCtx: CommandContext): Promise<void> {
+  const prompted = await runCommand(
+    () => promptMissingOptions(cliCtx, DEALS_ADD_PROMPTS),
+    cliCtx.formatter,
+  );
+  if (!prompted) return;
+  const { ctx } = prompted;
+
   const spinner = ctx.createSpinner('Creating deal...');
   spinner.start();
 
@@ -148,6 +176,7 @@ export async function dealsAdd(ctx: CommandContext): Promise<void> {
       if (deal.attributes.number) {
         console.log(colors.cyan('Number:'), `#${deal.attributes.number}`);
       }
+      printEquivalentCommand(prompted);
     }
   }, ctx.formatter);
 }
@@ -198,3 +227,100 @@ export async function dealsUpdate(args: string[], ctx: CommandContext): Promise<
     }
   }, ctx.formatter);
 }
+
+const FORECAST_STATUS_LABELS = {
+  over_budget: 'over budget',
+  at_risk: 'at risk',
+  on_track: 'on track',
+  no_budget: 'no budget',
+} as const;
+
+function hours(minutes: number | null): string {
+  return minutes === null ? '' : (minutes / 60).toFixed(1);
+}
+
+export async function dealsForecast(args: string[], ctx: CommandContext): Promise<void> {
+  const [id] = args;
+  if (!id) exitWithValidationError('id', 'productive deals forecast <id>', ctx.formatter);
+
+  const spinner = ctx.createSpinner('Forecasting budget...');
+  spinner.start();
+
+  await runCommand(async () => {
+    const lookback = ctx.options.lookback === undefined ? undefined : Number(ctx.options.lookback);
+    if (lookback !== undefined && (!Number.isInteger(lookback) || lookback < 1)) {
+      throw ValidationError.invalid(
+        'lookback',
+        ctx.options.lookback,
+        'expected a positive number of days',
+      );
+    }
+
+    const result = await getDealForecast({ id, lookbackDays: lookback }, fromCommandContext(ctx));
+    const forecast = result.data;
+
+    spinner.succeed();
+
+    const format = (ctx.options.format || ctx.options.f || 'human') as OutputFormat;
+    if (format === 'json') {
+      ctx.formatter.output(forecast);
+      return;
+    }
+
+    const rows = forecast.services.map((service) => ({
+      id: service.id,
+      service: service.name,
+      status: FORECAST_STATUS_LABELS[service.status],
+      budget_h: hours(service.budgeted_minutes),
+      worked_h: hours(service.worked_minutes),
+      burn_h_per_day: hours(service.burn_rate_minutes_per_day),
+      booked_h: hours(service.booked_minutes),
+      runs_out: service.exhausted_on ?? service.revenue?.exhausted_on ?? '',
+      overrun_h: hours(service.projected_overrun_minutes),
+      revenue_left: service.revenue ? service.revenue.remaining.toFixed(2) : '',
+    }));
+
+    if (format !== 'human') {
+      ctx.formatter.output(rows);
+      return;
+    }
+
+    const { deal, totals } = forecast;
+    console.log(colors.bold(deal.name), colors.dim(`#${deal.id}`));
+    console.log(
+      colors.dim(
+        `Ends ${deal.end_date ?? 'without an end date'} · burn rate over the last ${forecast.lookback_days} days`,
+      ),
+    );
+    console.log();
+
+    if (rows.length === 0) {
+      ctx.formatter.info('No services on this deal');
+      return;
+    }
+
+    tableRenderer.render(rows, createRenderContext({ noColor: ctx.options['no-color'] === true }));
+    console.log();
+
+    const runsOut = totals.exhausted_on ?? totals.revenue?.exhausted_on;
+    const summary = runsOut
+      ? `Budget runs out on ${runsOut}`
+      : 'Budget lasts past the forecast horizon';
+    const currency = deal.currency ? ` ${deal.currency}` : '';
+    const overrun = totals.projected_overrun_minutes
+      ? `${hours(totals.projected_overrun_minutes)}h`
+      : totals.revenue?.projected_overrun
+        ? `${totals.revenue.projected_overrun.toFixed(2)}${currency}`
+        : null;
+    if (overrun) {
+      ctx.formatter.warning(`${summary}, ${overrun} over budget at the end date`);
+    } else {
+      ctx.formatter.info(summary);
+    }
+    if (forecast.overruns.length > 0) {
+      ctx.formatter.warning(
+        `${forecast.overruns.length} of ${forecast.services.length} services over budget or at risk`,
+      );
+    }
+  }, ctx.formatter);
+}
@@ -15,6 +15,14 @@ describe('showDealsHelp', () => {
     expect(output).toContain('get');
     expect(output).toContain('add, create');
     expect(output).toContain('update');
+    expect(output).toContain('forecast <id>');
+  });
+
+  it('shows forecast help', () => {
+    showDealsHelp('forecast');
+    const output = spy.mock.calls[0][0];
+    expect(output).toContain('productive deals forecast');
+    expect(output).toContain('--lookback');
   });
 
   it('shows list help for "list"', () => {
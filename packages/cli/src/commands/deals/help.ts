@@ -74,6 +74,10 @@ ${colors.bold('OPTIONS:')}
   --responsible <id>    Responsible person ID
   -f, --format <fmt>    Output format: json, human
 
+${colors.bold('INTERACTIVE:')}
+  In a terminal, a missing --name or --company is asked for, searching
+  companies by name.
+
 ${colors.bold('EXAMPLES:')}
   productive deals add --name "New Project" --company 12345
   productive deals add --name "Q1 Budget" --company 12345 --budget
@@ -101,6 +105,32 @@ ${colors.bold('EXAMPLES:')}
   productive deals update 12345 --name "Updated Name"
   productive deals update 12345 --end-date 2024-12-31
   productive deals update 12345 --responsible 789
+`);
+  } else if (subcommand === 'forecast') {
+    console.log(`
+${colors.bold('productive deals forecast')} - Project when a deal's budget runs out
+
+${colors.bold('USAGE:')}
+  productive deals forecast <id> [options]
+
+${colors.bold('ARGUMENTS:')}
+  <id>                  Deal or budget ID (required)
+
+${colors.bold('OPTIONS:')}
+  --lookback <days>     Days of time entries the burn rate is measured on (default: 28)
+  -f, --format <fmt>    Output format: json, human, csv, table
+
+${colors.bold('NOTE:')}
+  Each service follows its bookings up to the last booked day, then its
+  average daily time over the lookback window. Services are ${colors.cyan('over budget')}
+  when already overspent and ${colors.cyan('at risk')} when projected to run out of
+  hours or revenue before the deal's end date. Percentage bookings are not
+  counted.
+
+${colors.bold('EXAMPLES:')}
+  productive deals forecast 12345
+  productive deals forecast 12345 --lookback 14
+  productive deals forecast 12345 --format json
 `);
   } else {
     console.log(`
@@ -114,6 +144,7 @@ ${colors.bold('SUBCOMMANDS:')}
   get <id>            Get deal/budget details
   add, create         Create a new deal or budget
   update <id>         Update an existing deal
+  forecast <id>       Project when the budget runs out
 
 ${colors.bold('COMMON OPTIONS:')}
   -f, --format <fmt>  Output format: json, human, csv, table
@@ -132,6 +163,7 @@ ${colors.bold('EXAMPLES:')}
   productive deals add --name "Q1 Budget" --company 12345 --budget
   productive deals get 67890
   productive deals update 67890 --name "Updated Name"
+  productive deals forecast 67890
 
 Run ${colors.cyan('productive deals <subcommand> --help')} for subcommand details.
 `);
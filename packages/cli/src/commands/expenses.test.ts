@@ -0,0 +1,266 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+import type { ProductiveApi } from '../api.js';
+
+import { createTestContext } from '../context.js';
+import {
+  expensesList,
+  expensesGet,
+  expensesAdd,
+  expensesUpdate,
+  expensesApprove,
+  expensesReject,
+} from './expenses/handlers.js';
+import { handleExpensesCommand } from './expenses/index.js';
+
+const mockExpense = {
+  id: '1',
+  type: 'expenses',
+  attributes: {
+    name: 'Train ticket',
+    date: '2024-01-15',
+    currency: 'EUR',
+    amount: '4500',
+    approved: false,
+    created_at: '2024-01-15T00:00:00Z',
+  },
+  relationships: { service: { data: { type: 'services', id: '6' } } },
+};
+
+describe('expenses command', () => {
+  let consoleLogSpy: ReturnType<typeof vi.spyOn>;
+
+  beforeEach(() => {
+    consoleLogSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe('expensesList', () => {
+    it('should list expenses', async () => {
+      const getExpenses = vi.fn().mockResolvedValue({
+        data: [mockExpense],
+        meta: { total: 1, page: 1, per_page: 100 },
+        included: [{ id: '6', type: 'services', attributes: { name: 'Travel' } }],
+      });
+
+      const ctx = createTestContext({
+        api: { getExpenses } as unknown as ProductiveApi,
+      });
+
+      await expensesList(ctx);
+
+      expect(getExpenses).toHaveBeenCalledWith({
+        page: 1,
+        perPage: 100,
+        filter: {},
+        sort: '',
+        include: ['deal', 'service', 'person'],
+      });
+      expect(consoleLogSpy).toHaveBeenCalled();
+    });
+
+    it('should map list options to filters', async () => {
+      const getExpenses = vi.fn().mockResolvedValue({ data: [], meta: {}, included: [] });
+
+      const ctx = createTestContext({
+        api: { getExpenses } as unknown as ProductiveApi,
+        options: {
+          deal: '456',
+          service: '789',
+          status: 'approved',
+          from: '2024-01-01',
+          to: '2024-01-31',
+          format: 'json',
+        },
+      });
+
+      await expensesList(ctx);
+
+      expect(getExpenses).toHaveBeenCalledWith(
+        expect.objectContaining({
+          filter: {
+            deal_id: '456',
+            service_id: '789',
+            approval_status: '1',
+            after: '2024-01-01',
+            before: '2024-01-31',
+          },
+        }),
+      );
+    });
+
+    it('should list expenses in csv format', async () => {
+      const getExpenses = vi.fn().mockResolvedValue({ data: [mockExpense], meta: {} });
+      const ctx = createTestContext({
+        api: { getExpenses } as unknown as ProductiveApi,
+        options: { format: 'csv' },
+      });
+      await expensesList(ctx);
+      expect(consoleLogSpy).toHaveBeenCalled();
+    });
+  });
+
+  describe('expensesGet', () => {
+    it('should get an expense by id', async () => {
+      const getExpense = vi.fn().mockResolvedValue({ data: mockExpense, included: [] });
+
+      const ctx = createTestContext({
+        api: { getExpense } as unknown as ProductiveApi,
+        options: { format: 'json' },
+      });
+
+      await expensesGet(['1'], ctx);
+
+      expect(getExpense).toHaveBeenCalledWith('1', {
+        include: ['deal', 'service', 'person', 'attachments'],
+      });
+      expect(consoleLogSpy).toHaveBeenCalled();
+    });
+
+    it('should exit with error when id is missing', async () => {
+      const processExitSpy = vi.spyOn(process, 'exit').mockImplementation(() => undefined as never);
+      const ctx = createTestContext();
+
+      try {
+        await expensesGet([], ctx);
+      } catch {
+        // exitWithValidationError throws
+      }
+
+      expect(processExitSpy).toHaveBeenCalledWith(3);
+    });
+  });
+
+  describe('expensesAdd', () => {
+    it('should create an expense with the amount in cents', async () => {
+      const createExpense = vi.fn().mockResolvedValue({ data: mockExpense });
+
+      const ctx = createTestContext({
+        api: { createExpense } as unknown as ProductiveApi,
+        options: {
+          name: 'Train ticket',
+          amount: '45.50',
+          service: '6',
+          deal: '5',
+          reimbursable: true,
+          format: 'json',
+        },
+      });
+
+      await expensesAdd(ctx);
+
+      expect(createExpense).toHaveBeenCalledWith(
+        expect.objectContaining({
+          name: 'Train ticket',
+          amount: 4550,
+          service_id: '6',
+          deal_id: '5',
+          reimbursable: true,
+        }),
+      );
+      expect(consoleLogSpy).toHaveBeenCalled();
+    });
+
+    it('should exit with error when name is missing', async () => {
+      const processExitSpy = vi.spyOn(process, 'exit').mockImplementation(() => undefined as never);
+
+      const ctx = createTestContext({ options: { amount: '10', format: 'json' } });
+
+      await expensesAdd(ctx);
+
+      expect(processExitSpy).toHaveBeenCalledWith(3);
+    });
+
+    it('should exit with error when amount is invalid', async () => {
+      const processExitSpy = vi.spyOn(process, 'exit').mockImplementation(() => undefined as never);
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+      const createExpense = vi.fn();
+
+      const ctx = createTestContext({
+        api: { createExpense } as unknown as ProductiveApi,
+        options: { name: 'Train', amount: 'lots', format: 'json' },
+      });
+
+      await expensesAdd(ctx);
+
+      expect(createExpense).not.toHaveBeenCalled();
+      expect(processExitSpy).toHaveBeenCalled();
+    });
+  });
+
+  describe('expensesUpdate', () => {
+    it('should update an expense', async () => {
+      const updateExpense = vi.fn().mockResolvedValue({ data: mockExpense });
+
+      const ctx = createTestContext({
+        api: { updateExpense } as unknown as ProductiveApi,
+        options: { amount: '90', format: 'json' },
+      });
+
+      await expensesUpdate(['1'], ctx);
+
+      expect(updateExpense).toHaveBeenCalledWith('1', { amount: 9000 });
+    });
+
+    it('should exit with error when no updates specified', async () => {
+      const processExitSpy = vi.spyOn(process, 'exit').mockImplementation(() => undefined as never);
+
+      const ctx = createTestContext({ options: { format: 'json' } });
+
+      await expensesUpdate(['1'], ctx);
+
+      expect(processExitSpy).toHaveBeenCalled();
+    });
+  });
+
+  describe('expensesApprove / expensesReject', () => {
+    it('should approve an expense', async () => {
+      const approveExpense = vi.fn().mockResolvedValue({
+        data: { ...mockExpense, attributes: { ...mockExpense.attributes, approved: true } },
+      });
+
+      const ctx = createTestContext({
+        api: { approveExpense } as unknown as ProductiveApi,
+        options: { format: 'human' },
+      });
+
+      await expensesApprove(['1'], ctx);
+
+      expect(approveExpense).toHaveBeenCalledWith('1');
+      expect(consoleLogSpy).toHaveBeenCalled();
+    });
+
+    it('should reject an expense with a reason', async () => {
+      const rejectExpense = vi.fn().mockResolvedValue({
+        data: { ...mockExpense, attributes: { ...mockExpense.attributes, rejected: true } },
+      });
+
+      const ctx = createTestContext({
+        api: { rejectExpense } as unknown as ProductiveApi,
+        options: { reason: 'Missing receipt', format: 'json' },
+      });
+
+      await expensesReject(['1'], ctx);
+
+      expect(rejectExpense).toHaveBeenCalledWith('1', 'Missing receipt');
+    });
+  });
+
+  describe('command routing', () => {
+    it('should exit with error for unknown subcommand', async () => {
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+      const processExitSpy = vi.spyOn(process, 'exit').mockImplementation(() => undefined as never);
+
+      await handleExpensesCommand('unknown', [], {
+        format: 'json',
+        token: 'test-token',
+        'org-id': 'test-org',
+      });
+
+      expect(processExitSpy).toHaveBeenCalledWith(1);
+    });
+  });
+});
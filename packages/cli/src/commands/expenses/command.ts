@@ -0,0 +1,30 @@
+/**
+ * Expenses command entry point
+ */
+
+import { createCommandRouter } from '../../utils/command-router.js';
+import {
+  expensesList,
+  expensesGet,
+  expensesAdd,
+  expensesUpdate,
+  expensesApprove,
+  expensesReject,
+} from './handlers.js';
+
+/**
+ * Handle expenses command
+ */
+export const handleExpensesCommand = createCommandRouter({
+  resource: 'expenses',
+  handlers: {
+    list: expensesList,
+    ls: expensesList,
+    get: [expensesGet, 'args'],
+    add: expensesAdd,
+    create: expensesAdd,
+    update: [expensesUpdate, 'args'],
+    approve: [expensesApprove, 'args'],
+    reject: [expensesReject, 'args'],
+  },
+});
@@ -0,0 +1,263 @@
+/**
+ * CLI adapter for expenses command handlers.
+ */
+
+import { formatExpense, formatListResponse } from '@studiometa/productive-api';
+import {
+  fromCommandContext,
+  listExpenses,
+  getExpense,
+  createExpense,
+  updateExpense,
+  approveExpense,
+  rejectExpense,
+  ExecutorValidationError,
+  type ListExpensesOptions,
+} from '@studiometa/productive-core';
+
+import type { CommandContext } from '../../context.js';
+import type { OutputFormat } from '../../types.js';
+
+import { handleError, exitWithValidationError, runCommand } from '../../error-handler.js';
+import { ValidationError } from '../../errors.js';
+import { render, createRenderContext, humanExpenseDetailRenderer } from '../../renderers/index.js';
+import { colors } from '../../utils/colors.js';
+import { parseFilters } from '../../utils/parse-filters.js';
+
+function parseListOptions(ctx: CommandContext): ListExpensesOptions {
+  const options: ListExpensesOptions = {};
+
+  const additionalFilters: Record<string, string> = {};
+  if (ctx.options.filter)
+    Object.assign(additionalFilters, parseFilters(String(ctx.options.filter)));
+  if (Object.keys(additionalFilters).length > 0) options.additionalFilters = additionalFilters;
+
+  if (ctx.options.person) options.personId = String(ctx.options.person);
+  if (ctx.options.project) options.projectId = String(ctx.options.project);
+  if (ctx.options.deal) options.dealId = String(ctx.options.deal);
+  if (ctx.options.service) options.serviceId = String(ctx.options.service);
+  if (ctx.options.company) options.companyId = String(ctx.options.company);
+  if (ctx.options.status) options.status = String(ctx.options.status);
+  if (ctx.options.from) options.after = String(ctx.options.from);
+  if (ctx.options.to) options.before = String(ctx.options.to);
+
+  const { page, perPage } = ctx.getPagination();
+  options.page = page;
+  options.perPage = perPage;
+  options.sort = ctx.getSort();
+
+  return options;
+}
+
+/**
+ * Parse the --amount option (currency units, e.g. 45.50)
+ */
+function parseAmount(value: unknown): number {
+  const amount = Number.parseFloat(String(value));
+  if (!Number.isFinite(amount) || amount < 0) {
+    throw ValidationError.invalid('amount', value, 'must be a positive number (e.g. 45.50)');
+  }
+  return amount;
+}
+
+export async function expensesList(ctx: CommandContext): Promise<void> {
+  const spinner = ctx.createSpinner('Fetching expenses...');
+  spinner.start();
+
+  await runCommand(async () => {
+    const execCtx = fromCommandContext(ctx);
+    const result = await listExpenses(parseListOptions(ctx), execCtx);
+
+    spinner.succeed();
+
+    const format = (ctx.options.format || ctx.options.f || 'human') as OutputFormat;
+    const formattedData = formatListResponse(result.data, formatExpense, result.meta, {
+      included: result.included,
+    });
+
+    if (format === 'csv' || format === 'table') {
+      const data = formattedData.data.map((e) => ({
+        id: e.id,
+        date: e.date,
+        name: e.name,
+        amount: e.amount ?? '',
+        currency: e.currency || '',
+        status: e.status,
+        deal: e.deal_name || '',
+        service: e.service_name || '',
+        person: e.person_name || '',
+      }));
+      ctx.formatter.output(data);
+    } else {
+      const renderCtx = createRenderContext({ noColor: ctx.options['no-color'] === true });
+      render('expense', format, formattedData, renderCtx);
+    }
+  }, ctx.formatter);
+}
+
+export async function expensesGet(args: string[], ctx: CommandContext): Promise<void> {
+  const [id] = args;
+  if (!id) exitWithValidationError('id', 'productive expenses get <id>', ctx.formatter);
+
+  const spinner = ctx.createSpinner('Fetching expense...');
+  spinner.start();
+
+  await runCommand(async () => {
+    const execCtx = fromCommandContext(ctx);
+    const result = await getExpense({ id }, execCtx);
+
+    spinner.succeed();
+
+    const format = (ctx.options.format || ctx.options.f || 'human') as OutputFormat;
+    const formattedData = formatExpense(result.data, { included: result.included });
+
+    if (format === 'json') {
+      ctx.formatter.output(formattedData);
+    } else {
+      const renderCtx = createRenderContext({ noColor: ctx.options['no-color'] === true });
+      humanExpenseDetailRenderer.render(formattedData, renderCtx);
+    }
+  }, ctx.formatter);
+}
+
+export async function expensesAdd(ctx: CommandContext): Promise<void> {
+  const spinner = ctx.createSpinner('Creating expense...');
+  spinner.start();
+
+  if (!ctx.options.name) {
+    spinner.fail();
+    handleError(ValidationError.required('name'), ctx.formatter);
+    return;
+  }
+
+  if (ctx.options.amount === undefined) {
+    spinner.fail();
+    handleError(ValidationError.required('amount'), ctx.formatter);
+    return;
+  }
+
+  await runCommand(async () => {
+    const execCtx = fromCommandContext(ctx);
+    const result = await createExpense(
+      {
+        name: String(ctx.options.name),
+        amount: parseAmount(ctx.options.amount),
+        date: ctx.options.date ? String(ctx.options.date) : undefined,
+        currency: ctx.options.currency ? String(ctx.options.currency) : undefined,
+        dealId: ctx.options.deal ? String(ctx.options.deal) : undefined,
+        serviceId: ctx.options.service ? String(ctx.options.service) : undefined,
+        personId: ctx.options.person ? String(ctx.options.person) : undefined,
+        reimbursable: ctx.options.reimbursable === true,
+      },
+      execCtx,
+    );
+
+    spinner.succeed();
+
+    const expense = result.data;
+    const format = ctx.options.format || ctx.options.f || 'human';
+
+    if (format === 'json') {
+      ctx.formatter.output({ success: true, ...formatExpense(expense) });
+    } else {
+      ctx.formatter.success('Expense created');
+      console.log(colors.cyan('ID:'), expense.id);
+      console.log(colors.cyan('Name:'), expense.attributes.name);
+      console.log(colors.cyan('Date:'), expense.attributes.date);
+    }
+  }, ctx.formatter);
+}
+
+export async function expensesUpdate(args: string[], ctx: CommandContext): Promise<void> {
+  const [id] = args;
+  if (!id) {
+    exitWithValidationError('id', 'productive expenses update <id> [options]', ctx.formatter);
+  }
+
+  const spinner = ctx.createSpinner('Updating expense...');
+  spinner.start();
+
+  await runCommand(async () => {
+    const execCtx = fromCommandContext(ctx);
+
+    try {
+      const result = await updateExpense(
+        {
+          id,
+          name: ctx.options.name !== undefined ? String(ctx.options.name) : undefined,
+          amount: ctx.options.amount !== undefined ? parseAmount(ctx.options.amount) : undefined,
+          date: ctx.options.date !== undefined ? String(ctx.options.date) : undefined,
+          currency: ctx.options.currency !== undefined ? String(ctx.options.currency) : undefined,
+          serviceId: ctx.options.service !== undefined ? String(ctx.options.service) : undefined,
+          reimbursable:
+            ctx.options.reimbursable !== undefined ? ctx.options.reimbursable === true : undefined,
+        },
+        execCtx,
+      );
+
+      spinner.succeed();
+
+      const format = ctx.options.format || ctx.options.f || 'human';
+      if (format === 'json') {
+        ctx.formatter.output({ status: 'success', id: result.data.id });
+      } else {
+        ctx.formatter.success(`Expense ${id} updated`);
+      }
+    } catch (error) {
+      if (error instanceof ExecutorValidationError) {
+        spinner.fail();
+        throw ValidationError.invalid(
+          'options',
+          {},
+          'No updates specified. Use --name, --amount, --date, --currency, --service, etc.',
+        );
+      }
+      throw error;
+    }
+  }, ctx.formatter);
+}
+
+export async function expensesApprove(args: string[], ctx: CommandContext): Promise<void> {
+  const [id] = args;
+  if (!id) exitWithValidationError('id', 'productive expenses approve <id>', ctx.formatter);
+
+  const spinner = ctx.createSpinner('Approving expense...');
+  spinner.start();
+
+  await runCommand(async () => {
+    const execCtx = fromCommandContext(ctx);
+    const result = await approveExpense({ id }, execCtx);
+
+    spinner.succeed();
+
+    const format = ctx.options.format || ctx.options.f || 'human';
+    if (format === 'json') {
+      ctx.formatter.output({ success: true, ...formatExpense(result.data) });
+    } else {
+      ctx.formatter.success(`Expense ${id} approved`);
+    }
+  }, ctx.formatter);
+}
+
+export async function expensesReject(args: string[], ctx: CommandContext): Promise<void> {
+  const [id] = args;
+  if (!id) exitWithValidationError('id', 'productive expenses reject <id>', ctx.formatter);
+
+  const spinner = ctx.createSpinner('Rejecting expense...');
+  spinner.start();
+
+  await runCommand(async () => {
+    const execCtx = fromCommandContext(ctx);
+    const reason = ctx.options.reason ? String(ctx.options.reason) : undefined;
+    const result = await rejectExpense({ id, reason }, execCtx);
+
+    spinner.succeed();
+
+    const format = ctx.options.format || ctx.options.f || 'human';
+    if (format === 'json') {
+      ctx.formatter.output({ success: true, ...formatExpense(result.data) });
+    } else {
+      ctx.formatter.success(`Expense ${id} rejected`);
+    }
+  }, ctx.formatter);
+}
@@ -0,0 +1,33 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+
+import { showExpensesHelp } from './help.js';
+
+describe('showExpensesHelp', () => {
+  const spy = vi.spyOn(console, 'log').mockImplementation(() => {});
+  afterEach(() => spy.mockClear());
+
+  it('shows general help with no argument', () => {
+    showExpensesHelp();
+    const output = spy.mock.calls[0][0];
+    expect(output).toContain('productive expenses');
+    expect(output).toContain('list, ls');
+    expect(output).toContain('approve <id>');
+    expect(output).toContain('reject <id>');
+  });
+
+  it.each([
+    ['list', 'productive expenses list', '--status'],
+    ['ls', 'productive expenses list', '--deal'],
+    ['get', 'productive expenses get', '<id>'],
+    ['add', 'productive expenses add', '--amount'],
+    ['create', 'productive expenses add', '--service'],
+    ['update', 'productive expenses update', '--reimbursable'],
+    ['approve', 'productive expenses approve', '<id>'],
+    ['reject', 'productive expenses reject', '--reason'],
+  ])('shows %s help', (subcommand, title, option) => {
+    showExpensesHelp(subcommand);
+    const output = spy.mock.calls[0][0];
+    expect(output).toContain(title);
+    expect(output).toContain(option);
+  });
+});
@@ -0,0 +1,159 @@
+/**
+ * Help text for expenses command
+ */
+
+import { colors } from '../../utils/colors.js';
+
+export function showExpensesHelp(subcommand?: string): void {
+  if (subcommand === 'list' || subcommand === 'ls') {
+    console.log(`
+${colors.bold('productive expenses list')} - List expenses
+
+${colors.bold('USAGE:')}
+  productive expenses list [options]
+
+${colors.bold('OPTIONS:')}
+  --person <id>         Filter by person ID, email or name
+  --project <id>        Filter by project ID or number
+  --deal <id>           Filter by deal/budget ID
+  --service <id>        Filter by service ID
+  --company <id>        Filter by company ID or name
+  --status <status>     Filter by approval status: pending, approved, rejected
+  --from <date>         Expenses dated on or after (YYYY-MM-DD)
+  --to <date>           Expenses dated on or before (YYYY-MM-DD)
+  --filter <filters>    Generic filters (comma-separated key=value pairs)
+  -p, --page <num>      Page number (default: 1)
+  -s, --size <num>      Page size (default: 100)
+  --sort <field>        Sort by field (prefix with - for descending)
+  -f, --format <fmt>    Output format: json, human, csv, table
+
+${colors.bold('EXAMPLES:')}
+  productive expenses list --status pending
+  productive expenses list --project PRJ-123 --from 2024-01-01
+  productive expenses list --deal 12345 --format csv
+`);
+  } else if (subcommand === 'get') {
+    console.log(`
+${colors.bold('productive expenses get')} - Get expense details
+
+${colors.bold('USAGE:')}
+  productive expenses get <id>
+
+${colors.bold('ARGUMENTS:')}
+  <id>                Expense ID (required)
+
+${colors.bold('OPTIONS:')}
+  -f, --format <fmt>  Output format: json, human
+
+${colors.bold('EXAMPLES:')}
+  productive expenses get 12345
+  productive expenses get 12345 --format json
+`);
+  } else if (subcommand === 'add' || subcommand === 'create') {
+    console.log(`
+${colors.bold('productive expenses add')} - Log an expense
+
+${colors.bold('USAGE:')}
+  productive expenses add --name <text> --amount <amount> [options]
+
+${colors.bold('OPTIONS:')}
+  --name <text>           Expense description (required)
+  --amount <amount>       Amount in currency units, e.g. 45.50 (required)
+  --date <date>           Expense date (YYYY-MM-DD, default: today)
+  --currency <code>       Currency code (e.g. EUR, USD)
+  --deal <id>             Deal/budget the expense is billed to
+  --service <id>          Service (budget line) the expense is booked on
+  --person <id>           Person who incurred the expense
+  --reimbursable          Mark the expense as reimbursable
+  -f, --format <fmt>      Output format: json, human
+
+${colors.bold('EXAMPLES:')}
+  productive expenses add --name "Train to client" --amount 89.90 --service 12345
+  productive expenses add --name "Stock photos" --amount 120 --deal 6789 --currency EUR
+`);
+  } else if (subcommand === 'update') {
+    console.log(`
+${colors.bold('productive expenses update')} - Update an expense
+
+${colors.bold('USAGE:')}
+  productive expenses update <id> [options]
+
+${colors.bold('ARGUMENTS:')}
+  <id>                    Expense ID (required)
+
+${colors.bold('OPTIONS:')}
+  --name <text>           Expense description
+  --amount <amount>       Amount in currency units
+  --date <date>           Expense date (YYYY-MM-DD)
+  --currency <code>       Currency code
+  --service <id>          Move the expense to another service
+  --reimbursable <bool>   Mark as reimbursable (true/false)
+  -f, --format <fmt>      Output format: json, human
+
+${colors.bold('EXAMPLES:')}
+  productive expenses update 12345 --amount 95
+  productive expenses update 12345 --service 67890
+`);
+  } else if (subcommand === 'approve') {
+    console.log(`
+${colors.bold('productive expenses approve')} - Approve a pending expense
+
+${colors.bold('USAGE:')}
+  productive expenses approve <id>
+
+${colors.bold('ARGUMENTS:')}
+  <id>                Expense ID (required)
+
+${colors.bold('OPTIONS:')}
+  -f, --format <fmt>  Output format: json, human
+
+${colors.bold('EXAMPLES:')}
+  productive expenses approve 12345
+`);
+  } else if (subcommand === 'reject') {
+    console.log(`
+${colors.bold('productive expenses reject')} - Reject an expense
+
+${colors.bold('USAGE:')}
+  productive expenses reject <id> [options]
+
+${colors.bold('ARGUMENTS:')}
+  <id>                Expense ID (required)
+
+${colors.bold('OPTIONS:')}
+  --reason <text>     Reason shown to the submitter
+  -f, --format <fmt>  Output format: json, human
+
+${colors.bold('EXAMPLES:')}
+  productive expenses reject 12345 --reason "Missing receipt"
+`);
+  } else {
+    console.log(`
+${colors.bold('productive expenses')} - Manage expenses
+
+${colors.bold('USAGE:')}
+  productive expenses <subcommand> [options]
+
+${colors.bold('SUBCOMMANDS:')}
+  list, ls            List expenses
+  get <id>            Get expense details
+  add, create         Log an expense
+  update <id>         Update an expense
+  approve <id>        Approve a pending expense
+  reject <id>         Reject an expense
+
+${colors.bold('COMMON OPTIONS:')}
+  -f, --format <fmt>  Output format: json, human, csv, table
+  -p, --page <num>    Page number for pagination
+  -s, --size <num>    Page size (default: 100)
+  -h, --help          Show help for a subcommand
+
+${colors.bold('EXAMPLES:')}
+  productive expenses list --status pending
+  productive expenses add --name "Train" --amount 45.50 --service 12345
+  productive expenses approve 67890
+
+Run ${colors.cyan('productive expenses <subcommand> --help')} for subcommand details.
+`);
+  }
+}
@@ -0,0 +1,2 @@
+export { handleExpensesCommand } from './command.js';
+export { showExpensesHelp } from './help.js';
@@ -0,0 +1,134 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+import { createTestContext } from '../context.js';
+import { historyList, historyUndo } from './history/handlers.js';
+
+const journal = vi.hoisted(() => ({
+  getUndoHistory: vi.fn(),
+  undoRecent: vi.fn(),
+}));
+
+vi.mock('../utils/undo-journal.js', () => journal);
+
+const updated = {
+  id: 4,
+  recordedAt: Date.parse('2024-01-15T10:00:00Z'),
+  undoneAt: null,
+  mutation: {
+    method: 'PATCH' as const,
+    path: '/tasks/5',
+    resourceType: 'tasks',
+    resourceId: '5',
+    body: { data: { attributes: { title: 'New' } } },
+    before: { id: '5', type: 'tasks', attributes: { title: 'Old' } },
+  },
+};
+
+const preview = {
+  dry_run: true,
+  items: [{ id: 4, description: 'Update tasks 5 (title)', status: 'pending' }],
+  total: 1,
+  undone: 0,
+  failed: 0,
+};
+
+describe('history command', () => {
+  let consoleLogSpy: ReturnType<typeof vi.spyOn>;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    consoleLogSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  function output(): string {
+    return consoleLogSpy.mock.calls.map((call: unknown[]) => call.join(' ')).join('\n');
+  }
+
+  describe('historyList', () => {
+    it('should list recorded changes as JSON', async () => {
+      journal.getUndoHistory.mockResolvedValue([updated]);
+      const ctx = createTestContext({ options: { format: 'json', limit: '5' } });
+
+      await historyList(ctx);
+
+      expect(journal.getUndoHistory).toHaveBeenCalledWith(ctx, 5);
+      expect(JSON.parse(consoleLogSpy.mock.calls[0][0])).toEqual({
+        data: [
+          {
+            id: 4,
+            recorded_at: '2024-01-15T10:00:00.000Z',
+            method: 'PATCH',
+            path: '/tasks/5',
+            description: 'Update tasks 5 (title)',
+            undoable: true,
+            undone_at: null,
+          },
+        ],
+      });
+    });
+
+    it('should mark changes that were undone', async () => {
+      journal.getUndoHistory.mockResolvedValue([{ ...updated, undoneAt: Date.now() }]);
+      const ctx = createTestContext({ options: { format: 'human' } });
+
+      await historyList(ctx);
+
+      expect(output()).toContain('[UNDONE] #4 Update tasks 5 (title)');
+    });
+  });
+
+  describe('historyUndo', () => {
+    it('should only preview with --dry-run', async () => {
+      journal.undoRecent.mockResolvedValue(preview);
+      const ctx = createTestContext({ options: { 'dry-run': true, format: 'json' } });
+
+      await historyUndo(['3'], ctx);
+
+      expect(journal.undoRecent).toHaveBeenCalledTimes(1);
+      expect(journal.undoRecent).toHaveBeenCalledWith(ctx, 3, true);
+      expect(JSON.parse(consoleLogSpy.mock.calls.at(-1)[0])).toEqual(preview);
+    });
+
+    it('should undo the last change with --yes', async () => {
+      journal.undoRecent.mockResolvedValueOnce(preview).mockResolvedValueOnce({
+        ...preview,
+        dry_run: false,
+        items: [{ ...preview.items[0], status: 'undone' }],
+        undone: 1,
+      });
+      const ctx = createTestContext({ options: { yes: true, format: 'human' } });
+
+      await historyUndo([], ctx);
+
+      expect(journal.undoRecent).toHaveBeenLastCalledWith(ctx, 1);
+      expect(output()).toContain('1 change(s) undone');
+    });
+
+    it('should require confirmation outside a terminal', async () => {
+      journal.undoRecent.mockResolvedValue(preview);
+      const processExitSpy = vi.spyOn(process, 'exit').mockImplementation(() => undefined as never);
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+      const ctx = createTestContext({ options: { format: 'human' } });
+
+      await historyUndo([], ctx);
+
+      expect(journal.undoRecent).toHaveBeenCalledTimes(1);
+      expect(processExitSpy).toHaveBeenCalledWith(3);
+    });
+
+    it('should reject an invalid count', async () => {
+      const processExitSpy = vi.spyOn(process, 'exit').mockImplementation(() => undefined as never);
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+      const ctx = createTestContext({ options: {} });
+
+      await historyUndo(['last'], ctx);
+
+      expect(journal.undoRecent).not.toHaveBeenCalled();
+      expect(processExitSpy).toHaveBeenCalledWith(3);
+    });
+  });
+});
@@ -0,0 +1,26 @@
+/**
+ * History command entry point
+ */
+
+import { createCommandRouter } from '../../utils/command-router.js';
+import { historyList, historyUndo } from './handlers.js';
+
+const router = createCommandRouter({
+  resource: 'history',
+  handlers: {
+    list: historyList,
+    ls: historyList,
+    undo: [historyUndo, 'args'],
+  },
+});
+
+/**
+ * Handle history command
+ */
+export function handleHistoryCommand(
+  subcommand: string,
+  args: string[],
+  options: Record<string, string | boolean | string[]>,
+): Promise<void> {
+  return router(subcommand, args, options);
+}
@@ -0,0 +1,144 @@
+/**
+ * CLI handlers for listing and reverting the writes recorded in the undo
+ * journal.
+ */
+
+import { canUndo, describeRecordedMutation, type UndoResult } from '@studiometa/productive-core';
+
+import type { CommandContext } from '../../context.js';
+import type { OutputFormat } from '../../types.js';
+
+import { runCommand } from '../../error-handler.js';
+import { CommandError, ValidationError } from '../../errors.js';
+import { colors } from '../../utils/colors.js';
+import { isInteractive } from '../../utils/interactive.js';
+import { confirm } from '../../utils/prompt.js';
+import { getUndoHistory, undoRecent } from '../../utils/undo-journal.js';
+
+const DEFAULT_HISTORY_LIMIT = 20;
+
+function parseCount(value: unknown, field: string, fallback: number): number {
+  if (value === undefined) return fallback;
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 1) {
+    throw ValidationError.invalid(field, value, 'expected a positive integer');
+  }
+  return parsed;
+}
+
+function printUndoItems(result: UndoResult): void {
+  for (const item of result.items) {
+    const id = colors.dim(`#${item.id}`);
+    switch (item.status) {
+      case 'pending':
+        console.log(`  ${id} ${item.description}`);
+        break;
+      case 'undone':
+        console.log(`  ${colors.green('✓')} ${id} ${item.description}`);
+        break;
+      case 'failed':
+        console.log(
+          `  ${colors.red('✗')} ${id} ${item.description} ${colors.red(item.error ?? '')}`,
+        );
+        break;
+      case 'skipped':
+        console.log(`  ${colors.dim('-')} ${id} ${colors.dim(item.description)}`);
+        break;
+    }
+  }
+}
+
+export async function historyList(ctx: CommandContext): Promise<void> {
+  await runCommand(async () => {
+    const limit = parseCount(ctx.options.limit, 'limit', DEFAULT_HISTORY_LIMIT);
+    const entries = await getUndoHistory(ctx, limit);
+    const format = (ctx.options.format || ctx.options.f || 'human') as OutputFormat;
+
+    const rows = entries.map((entry) => ({
+      id: entry.id,
+      recorded_at: new Date(entry.recordedAt).toISOString(),
+      method: entry.mutation.method,
+      path: entry.mutation.path,
+      description: describeRecordedMutation(entry.mutation),
+      undoable: canUndo(entry.mutation),
+      undone_at: entry.undoneAt ? new Date(entry.undoneAt).toISOString() : null,
+    }));
+
+    if (format !== 'human') {
+      ctx.formatter.output(format === 'json' ? { data: rows } : rows);
+      return;
+    }
+
+    if (rows.length === 0) {
+      ctx.formatter.info('No changes recorded yet');
+      return;
+    }
+
+    for (const row of rows) {
+      const status = row.undone_at
+        ? colors.dim('[UNDONE]')
+        : row.undoable
+          ? colors.green('[ACTIVE]')
+          : colors.yellow('[FINAL]');
+      console.log(`${status} #${row.id} ${row.description} ${colors.dim(`(${row.recorded_at})`)}`);
+    }
+  }, ctx.formatter);
+}
+
+async function confirmUndo(ctx: CommandContext, total: number): Promise<void> {
+  if (ctx.options.yes === true || ctx.options.y === true) return;
+
+  if (!isInteractive(ctx)) {
+    throw ValidationError.invalid('yes', undefined, 'confirmation required to undo', [
+      'Pass --yes to confirm, or --dry-run to only list the changes',
+    ]);
+  }
+
+  const confirmed = await confirm(`Undo ${total} change(s)?`, false);
+  if (!confirmed) throw CommandError.cancelled();
+}
+
+export async function historyUndo(args: string[], ctx: CommandContext): Promise<void> {
+  await runCommand(async () => {
+    const count = parseCount(args[0], 'count', 1);
+    const format = (ctx.options.format || ctx.options.f || 'human') as OutputFormat;
+
+    const preview = await undoRecent(ctx, count, true);
+    if (preview.total === 0) {
+      if (format === 'json') ctx.formatter.output(preview);
+      else ctx.formatter.info('Nothing to undo');
+      return;
+    }
+
+    if (format !== 'json') {
+      printUndoItems(preview);
+      console.log();
+    }
+
+    if (ctx.options['dry-run'] === true) {
+      if (format === 'json') ctx.formatter.output(preview);
+      else
+        ctx.formatter.info(`Dry run: ${preview.total - preview.failed} change(s) would be undone`);
+      return;
+    }
+
+    await confirmUndo(ctx, preview.total);
+
+    const spinner = ctx.createSpinner('Undoing changes...');
+    spinner.start();
+    const result = await undoRecent(ctx, count);
+    spinner.stop();
+
+    if (format === 'json') {
+      ctx.formatter.output(result);
+    } else {
+      printUndoItems(result);
+      console.log();
+      if (result.undone > 0) ctx.formatter.success(`${result.undone} change(s) undone`);
+      if (result.failed > 0) {
+        ctx.formatter.warning('Stopped at a change that could not be undone; older ones were kept');
+      }
+    }
+    if (result.failed > 0) process.exitCode = 1;
+  }, ctx.formatter);
+}
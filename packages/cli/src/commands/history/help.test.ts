@@ -0,0 +1,25 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+
+import { showHistoryHelp } from './help.js';
+
+describe('showHistoryHelp', () => {
+  const spy = vi.spyOn(console, 'log').mockImplementation(() => {});
+  afterEach(() => spy.mockClear());
+
+  it('shows general help with no argument', () => {
+    showHistoryHelp();
+    const output = spy.mock.calls[0][0];
+    expect(output).toContain('productive history');
+    expect(output).toContain('undo [count]');
+  });
+
+  it.each([
+    ['undo', 'productive undo', '--dry-run'],
+    ['list', 'productive history list', '--limit'],
+  ])('shows %s help', (subcommand, title, option) => {
+    showHistoryHelp(subcommand);
+    const output = spy.mock.calls[0][0];
+    expect(output).toContain(title);
+    expect(output).toContain(option);
+  });
+});
@@ -0,0 +1,84 @@
+/**
+ * Help text for history and undo commands
+ */
+
+import { colors } from '../../utils/colors.js';
+
+export function showHistoryHelp(subcommand?: string): void {
+  if (subcommand === 'undo') {
+    console.log(`
+${colors.bold('productive undo')} - Revert the most recent changes
+
+${colors.bold('USAGE:')}
+  productive undo [count] [options]
+  productive history undo [count] [options]
+
+${colors.bold('DESCRIPTION:')}
+  Reverts the last ${colors.cyan('count')} changes still in effect (default: 1), most recent
+  first. The changes are listed first, then reverted once you confirm in a
+  terminal or pass ${colors.cyan('--yes')}:
+    - created records are deleted
+    - updated fields get back the value they had before the update
+    - deleted records are created again, with a new ID
+    - archived task lists and boards are restored, and the other way round
+  Other actions, like stopping a timer or approving an expense, cannot be
+  undone. The first change that cannot be reverted stops the run, so that
+  older changes are never reverted on top of it.
+
+${colors.bold('OPTIONS:')}
+  -y, --yes           Undo without asking for confirmation
+  --dry-run           Only list the changes that would be reverted
+  -f, --format <fmt>  Output format: json, human
+
+${colors.bold('EXAMPLES:')}
+  productive undo
+  productive undo 3 --dry-run
+  productive undo 3 --yes
+`);
+  } else if (subcommand === 'list' || subcommand === 'ls') {
+    console.log(`
+${colors.bold('productive history list')} - List recorded changes
+
+${colors.bold('USAGE:')}
+  productive history [list] [options]
+
+${colors.bold('OPTIONS:')}
+  --limit <n>         Number of changes to list (default: 20)
+  -f, --format <fmt>  Output format: json, human, csv, table
+
+${colors.bold('EXAMPLES:')}
+  productive history
+  productive history --limit 50 --format json
+`);
+  } else {
+    console.log(`
+${colors.bold('productive history')} - List and undo recorded changes
+
+${colors.bold('USAGE:')}
+  productive history [subcommand] [options]
+
+${colors.bold('DESCRIPTION:')}
+  Every create, update and delete sent to the API is recorded in a local
+  journal, along with the record as it was before updates and deletes. The
+  last 500 changes of each organization are kept.
+
+  ${colors.green('[ACTIVE]')} changes can be reverted with ${colors.cyan('productive undo')}, ${colors.yellow('[FINAL]')} ones
+  cannot and ${colors.dim('[UNDONE]')} ones were reverted already.
+
+${colors.bold('SUBCOMMANDS:')}
+  list, ls            List recorded changes (default)
+  undo [count]        Revert the most recent changes
+
+${colors.bold('COMMON OPTIONS:')}
+  -f, --format <fmt>  Output format: json, human
+  -h, --help          Show help for a subcommand
+
+${colors.bold('EXAMPLES:')}
+  productive history
+  productive undo
+  productive undo 2 --yes
+
+Run ${colors.cyan('productive history <subcommand> --help')} for subcommand details.
+`);
+  }
+}
@@ -0,0 +1,2 @@
+export { handleHistoryCommand } from './command.js';
+export { showHistoryHelp } from './help.js';
@@ -0,0 +1,117 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+import type { ProductiveApi } from '../api.js';
+
+import { createTestContext } from '../context.js';
+import { holidaysCalendars, holidaysList } from './holidays/handlers.js';
+import { handleHolidaysCommand } from './holidays/index.js';
+
+const mockHoliday = {
+  id: '1',
+  type: 'holidays',
+  attributes: { name: 'Christmas', date: '2024-12-25' },
+  relationships: { holiday_calendar: { data: { type: 'holiday_calendars', id: '5' } } },
+};
+
+const mockCalendar = {
+  id: '5',
+  type: 'holiday_calendars',
+  attributes: { name: 'France', country: 'FR', state: null, autogenerate_holidays: true },
+};
+
+describe('holidays command', () => {
+  let consoleLogSpy: ReturnType<typeof vi.spyOn>;
+
+  beforeEach(() => {
+    consoleLogSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe('holidaysList', () => {
+    it('should list holidays sorted by date', async () => {
+      const getHolidays = vi.fn().mockResolvedValue({
+        data: [mockHoliday],
+        meta: { total: 1, page: 1, per_page: 100 },
+        included: [mockCalendar],
+      });
+
+      const ctx = createTestContext({
+        api: { getHolidays } as unknown as ProductiveApi,
+      });
+
+      await holidaysList(ctx);
+
+      expect(getHolidays).toHaveBeenCalledWith({
+        page: 1,
+        perPage: 100,
+        filter: {},
+        sort: 'date',
+        include: ['holiday_calendar'],
+      });
+      expect(consoleLogSpy).toHaveBeenCalled();
+    });
+
+    it('should map list options to filters', async () => {
+      const getHolidays = vi.fn().mockResolvedValue({ data: [], meta: {}, included: [] });
+
+      const ctx = createTestContext({
+        api: { getHolidays } as unknown as ProductiveApi,
+        options: { calendar: '5', from: '2024-01-01', to: '2024-12-31', format: 'json' },
+      });
+
+      await holidaysList(ctx);
+
+      expect(getHolidays).toHaveBeenCalledWith(
+        expect.objectContaining({
+          filter: { holiday_calendar_id: '5', after: '2024-01-01', before: '2024-12-31' },
+        }),
+      );
+    });
+
+    it('should list holidays in csv format', async () => {
+      const getHolidays = vi.fn().mockResolvedValue({ data: [mockHoliday], meta: {} });
+      const ctx = createTestContext({
+        api: { getHolidays } as unknown as ProductiveApi,
+        options: { format: 'csv' },
+      });
+      await holidaysList(ctx);
+      expect(consoleLogSpy).toHaveBeenCalled();
+    });
+  });
+
+  describe('holidaysCalendars', () => {
+    it('should list holiday calendars', async () => {
+      const getHolidayCalendars = vi.fn().mockResolvedValue({ data: [mockCalendar], meta: {} });
+
+      const ctx = createTestContext({
+        api: { getHolidayCalendars } as unknown as ProductiveApi,
+        options: { format: 'human' },
+      });
+
+      await holidaysCalendars(ctx);
+
+      expect(getHolidayCalendars).toHaveBeenCalledWith(
+        expect.objectContaining({ page: 1, perPage: 100 }),
+      );
+      expect(consoleLogSpy).toHaveBeenCalled();
+    });
+  });
+
+  describe('command routing', () => {
+    it('should exit with error for unknown subcommand', async () => {
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+      const processExitSpy = vi.spyOn(process, 'exit').mockImplementation(() => undefined as never);
+
+      await handleHolidaysCommand('unknown', [], {
+        format: 'json',
+        token: 'test-token',
+        'org-id': 'test-org',
+      });
+
+      expect(processExitSpy).toHaveBeenCalledWith(1);
+    });
+  });
+});
@@ -0,0 +1,18 @@
+/**
+ * Holidays command entry point
+ */
+
+import { createCommandRouter } from '../../utils/command-router.js';
+import { holidaysCalendars, holidaysList } from './handlers.js';
+
+/**
+ * Handle holidays command
+ */
+export const handleHolidaysCommand = createCommandRouter({
+  resource: 'holidays',
+  handlers: {
+    list: holidaysList,
+    ls: holidaysList,
+    calendars: holidaysCalendars,
+  },
+});
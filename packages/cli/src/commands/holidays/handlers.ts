@@ -0,0 +1,103 @@
+/**
+ * CLI adapter for holidays command handlers.
+ */
+
+import {
+  formatHoliday,
+  formatHolidayCalendar,
+  formatListResponse,
+} from '@studiometa/productive-api';
+import {
+  fromCommandContext,
+  listHolidayCalendars,
+  listHolidays,
+  type ListHolidaysOptions,
+} from '@studiometa/productive-core';
+
+import type { CommandContext } from '../../context.js';
+import type { OutputFormat } from '../../types.js';
+
+import { runCommand } from '../../error-handler.js';
+import { render, createRenderContext } from '../../renderers/index.js';
+import { parseDate } from '../../utils/date.js';
+import { parseFilters } from '../../utils/parse-filters.js';
+
+function parseListOptions(ctx: CommandContext): ListHolidaysOptions {
+  const options: ListHolidaysOptions = {};
+
+  const additionalFilters: Record<string, string> = {};
+  if (ctx.options.filter)
+    Object.assign(additionalFilters, parseFilters(String(ctx.options.filter)));
+  if (Object.keys(additionalFilters).length > 0) options.additionalFilters = additionalFilters;
+
+  if (ctx.options.calendar) options.holidayCalendarId = String(ctx.options.calendar);
+  if (ctx.options.from)
+    options.after = parseDate(String(ctx.options.from), ctx.config.timezone) ?? undefined;
+  if (ctx.options.to)
+    options.before = parseDate(String(ctx.options.to), ctx.config.timezone) ?? undefined;
+
+  const { page, perPage } = ctx.getPagination();
+  options.page = page;
+  options.perPage = perPage;
+  options.sort = ctx.getSort() || 'date';
+
+  return options;
+}
+
+export async function holidaysList(ctx: CommandContext): Promise<void> {
+  const spinner = ctx.createSpinner('Fetching holidays...');
+  spinner.start();
+
+  await runCommand(async () => {
+    const execCtx = fromCommandContext(ctx);
+    const result = await listHolidays(parseListOptions(ctx), execCtx);
+
+    spinner.succeed();
+
+    const format = (ctx.options.format || ctx.options.f || 'human') as OutputFormat;
+    const formattedData = formatListResponse(result.data, formatHoliday, result.meta, {
+      included: result.included,
+    });
+
+    if (format === 'csv' || format === 'table') {
+      const data = formattedData.data.map((h) => ({
+        id: h.id,
+        date: h.date,
+        name: h.name,
+        calendar: h.holiday_calendar_name || '',
+      }));
+      ctx.formatter.output(data);
+    } else {
+      const renderCtx = createRenderContext({ noColor: ctx.options['no-color'] === true });
+      render('holiday', format, formattedData, renderCtx);
+    }
+  }, ctx.formatter);
+}
+
+export async function holidaysCalendars(ctx: CommandContext): Promise<void> {
+  const spinner = ctx.createSpinner('Fetching holiday calendars...');
+  spinner.start();
+
+  await runCommand(async () => {
+    const execCtx = fromCommandContext(ctx);
+    const result = await listHolidayCalendars(ctx.getPagination(), execCtx);
+
+    spinner.succeed();
+
+    const format = (ctx.options.format || ctx.options.f || 'human') as OutputFormat;
+    const formattedData = formatListResponse(result.data, formatHolidayCalendar, result.meta);
+
+    if (format === 'csv' || format === 'table') {
+      const data = formattedData.data.map((c) => ({
+        id: c.id,
+        name: c.name,
+        country: c.country || '',
+        state: c.state || '',
+      }));
+      ctx.formatter.output(data);
+    } else {
+      const renderCtx = createRenderContext({ noColor: ctx.options['no-color'] === true });
+      render('holiday_calendar', format, formattedData, renderCtx);
+    }
+  }, ctx.formatter);
+}
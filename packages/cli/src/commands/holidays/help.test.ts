@@ -0,0 +1,27 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+
+import { showHolidaysHelp } from './help.js';
+
+describe('showHolidaysHelp', () => {
+  const spy = vi.spyOn(console, 'log').mockImplementation(() => {});
+  afterEach(() => spy.mockClear());
+
+  it('shows general help with no argument', () => {
+    showHolidaysHelp();
+    const output = spy.mock.calls[0][0];
+    expect(output).toContain('productive holidays');
+    expect(output).toContain('list, ls');
+    expect(output).toContain('calendars');
+  });
+
+  it.each([
+    ['list', 'productive holidays list', '--calendar'],
+    ['ls', 'productive holidays list', '--from'],
+    ['calendars', 'productive holidays calendars', '--page'],
+  ])('shows %s help', (subcommand, title, option) => {
+    showHolidaysHelp(subcommand);
+    const output = spy.mock.calls[0][0];
+    expect(output).toContain(title);
+    expect(output).toContain(option);
+  });
+});
@@ -0,0 +1,66 @@
+/**
+ * Help text for holidays command
+ */
+
+import { colors } from '../../utils/colors.js';
+
+export function showHolidaysHelp(subcommand?: string): void {
+  if (subcommand === 'list' || subcommand === 'ls') {
+    console.log(`
+${colors.bold('productive holidays list')} - List public holidays
+
+${colors.bold('USAGE:')}
+  productive holidays list [options]
+
+${colors.bold('OPTIONS:')}
+  --calendar <id>       Filter by holiday calendar ID
+  --from <date>         Holidays on or after (YYYY-MM-DD, today, this month…)
+  --to <date>           Holidays on or before
+  --filter <filters>    Generic filters (comma-separated key=value pairs)
+  -p, --page <num>      Page number (default: 1)
+  -s, --size <num>      Page size (default: 100)
+  --sort <field>        Sort by field (default: date)
+  -f, --format <fmt>    Output format: json, human, csv, table
+
+${colors.bold('EXAMPLES:')}
+  productive holidays list --from 2024-01-01 --to 2024-12-31
+  productive holidays list --calendar 5 --format csv
+`);
+  } else if (subcommand === 'calendars') {
+    console.log(`
+${colors.bold('productive holidays calendars')} - List holiday calendars
+
+${colors.bold('USAGE:')}
+  productive holidays calendars [options]
+
+${colors.bold('OPTIONS:')}
+  -p, --page <num>      Page number (default: 1)
+  -s, --size <num>      Page size (default: 100)
+  -f, --format <fmt>    Output format: json, human, csv, table
+
+${colors.bold('EXAMPLES:')}
+  productive holidays calendars
+`);
+  } else {
+    console.log(`
+${colors.bold('productive holidays')} - View public holidays and holiday calendars
+
+${colors.bold('USAGE:')}
+  productive holidays <subcommand> [options]
+
+${colors.bold('SUBCOMMANDS:')}
+  list, ls            List holidays
+  calendars           List holiday calendars
+
+${colors.bold('COMMON OPTIONS:')}
+  -f, --format <fmt>  Output format: json, human, csv, table
+  -h, --help          Show help for a subcommand
+
+${colors.bold('EXAMPLES:')}
+  productive holidays list --from today --to 2024-12-31
+  productive holidays calendars
+
+Run ${colors.cyan('productive holidays <subcommand> --help')} for subcommand details.
+`);
+  }
+}
@@ -0,0 +1,2 @@
+export { handleHolidaysCommand } from './command.js';
+export { showHolidaysHelp } from './help.js';
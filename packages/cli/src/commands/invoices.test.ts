@@ -0,0 +1,274 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+import type { ProductiveApi } from '../api.js';
+
+import { createTestContext } from '../context.js';
+import {
+  invoicesList,
+  invoicesGet,
+  invoicesAdd,
+  invoicesUpdate,
+  invoicesFinalize,
+  invoicesLineItems,
+} from './invoices/handlers.js';
+import { handleInvoicesCommand } from './invoices/index.js';
+
+const mockInvoice = {
+  id: '1',
+  type: 'invoices',
+  attributes: {
+    number: '2024-001',
+    subject: 'Phase 1',
+    currency: 'EUR',
+    invoiced_on: '2024-01-15',
+    amount: '150000',
+    amount_with_tax: '180000',
+    created_at: '2024-01-15T00:00:00Z',
+  },
+  relationships: { company: { data: { type: 'companies', id: '10' } } },
+};
+
+describe('invoices command', () => {
+  let consoleLogSpy: ReturnType<typeof vi.spyOn>;
+
+  beforeEach(() => {
+    consoleLogSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe('invoicesList', () => {
+    it('should list invoices', async () => {
+      const getInvoices = vi.fn().mockResolvedValue({
+        data: [mockInvoice],
+        meta: { total: 1, page: 1, per_page: 100 },
+        included: [{ id: '10', type: 'companies', attributes: { name: 'Acme' } }],
+      });
+
+      const ctx = createTestContext({
+        api: { getInvoices } as unknown as ProductiveApi,
+      });
+
+      await invoicesList(ctx);
+
+      expect(getInvoices).toHaveBeenCalledWith({
+        page: 1,
+        perPage: 100,
+        filter: {},
+        sort: '',
+        include: ['company'],
+      });
+      expect(consoleLogSpy).toHaveBeenCalled();
+    });
+
+    it('should map list options to filters', async () => {
+      const getInvoices = vi.fn().mockResolvedValue({ data: [], meta: {}, included: [] });
+
+      const ctx = createTestContext({
+        api: { getInvoices } as unknown as ProductiveApi,
+        options: {
+          company: '123',
+          deal: '456',
+          status: 'draft',
+          from: '2024-01-01',
+          to: '2024-01-31',
+          format: 'json',
+        },
+      });
+
+      await invoicesList(ctx);
+
+      expect(getInvoices).toHaveBeenCalledWith(
+        expect.objectContaining({
+          filter: {
+            company_id: '123',
+            deal_id: '456',
+            invoice_status: '1',
+            invoiced_on_after: '2024-01-01',
+            invoiced_on_before: '2024-01-31',
+          },
+        }),
+      );
+    });
+
+    it('should list invoices in csv format', async () => {
+      const getInvoices = vi.fn().mockResolvedValue({ data: [mockInvoice], meta: {} });
+      const ctx = createTestContext({
+        api: { getInvoices } as unknown as ProductiveApi,
+        options: { format: 'csv' },
+      });
+      await invoicesList(ctx);
+      expect(consoleLogSpy).toHaveBeenCalled();
+    });
+  });
+
+  describe('invoicesGet', () => {
+    it('should get an invoice by id', async () => {
+      const getInvoice = vi.fn().mockResolvedValue({ data: mockInvoice, included: [] });
+
+      const ctx = createTestContext({
+        api: { getInvoice } as unknown as ProductiveApi,
+        options: { format: 'json' },
+      });
+
+      await invoicesGet(['1'], ctx);
+
+      expect(getInvoice).toHaveBeenCalledWith('1', {
+        include: ['company', 'document_type', 'subsidiary'],
+      });
+      expect(consoleLogSpy).toHaveBeenCalled();
+    });
+
+    it('should render an invoice in human format', async () => {
+      const getInvoice = vi.fn().mockResolvedValue({ data: mockInvoice, included: [] });
+      const ctx = createTestContext({
+        api: { getInvoice } as unknown as ProductiveApi,
+        options: { format: 'human' },
+      });
+      await invoicesGet(['1'], ctx);
+      expect(consoleLogSpy).toHaveBeenCalled();
+    });
+
+    it('should exit with error when id is missing', async () => {
+      const processExitSpy = vi.spyOn(process, 'exit').mockImplementation(() => undefined as never);
+      const ctx = createTestContext();
+
+      try {
+        await invoicesGet([], ctx);
+      } catch {
+        // exitWithValidationError throws
+      }
+
+      expect(processExitSpy).toHaveBeenCalledWith(3);
+    });
+  });
+
+  describe('invoicesAdd', () => {
+    it('should create a draft invoice', async () => {
+      const createInvoice = vi.fn().mockResolvedValue({ data: mockInvoice });
+
+      const ctx = createTestContext({
+        api: { createInvoice } as unknown as ProductiveApi,
+        options: {
+          company: '10',
+          subject: 'Phase 1',
+          currency: 'EUR',
+          'due-date': '2024-02-14',
+          format: 'json',
+        },
+      });
+
+      await invoicesAdd(ctx);
+
+      expect(createInvoice).toHaveBeenCalledWith(
+        expect.objectContaining({
+          company_id: '10',
+          subject: 'Phase 1',
+          currency: 'EUR',
+          pay_on: '2024-02-14',
+        }),
+      );
+      expect(consoleLogSpy).toHaveBeenCalled();
+    });
+
+    it('should exit with error when company is missing', async () => {
+      const processExitSpy = vi.spyOn(process, 'exit').mockImplementation(() => undefined as never);
+
+      const ctx = createTestContext({ options: { subject: 'Phase 1', format: 'json' } });
+
+      await invoicesAdd(ctx);
+
+      expect(processExitSpy).toHaveBeenCalledWith(3);
+    });
+  });
+
+  describe('invoicesUpdate', () => {
+    it('should update an invoice', async () => {
+      const updateInvoice = vi.fn().mockResolvedValue({ data: mockInvoice });
+
+      const ctx = createTestContext({
+        api: { updateInvoice } as unknown as ProductiveApi,
+        options: { subject: 'Updated', format: 'json' },
+      });
+
+      await invoicesUpdate(['1'], ctx);
+
+      expect(updateInvoice).toHaveBeenCalledWith('1', { subject: 'Updated' });
+    });
+
+    it('should exit with error when no updates specified', async () => {
+      const processExitSpy = vi.spyOn(process, 'exit').mockImplementation(() => undefined as never);
+
+      const ctx = createTestContext({ options: { format: 'json' } });
+
+      await invoicesUpdate(['1'], ctx);
+
+      expect(processExitSpy).toHaveBeenCalled();
+    });
+  });
+
+  describe('invoicesFinalize', () => {
+    it('should finalize an invoice', async () => {
+      const finalizeInvoice = vi.fn().mockResolvedValue({
+        data: {
+          ...mockInvoice,
+          attributes: { ...mockInvoice.attributes, finalized_on: '2024-01-20' },
+        },
+      });
+
+      const ctx = createTestContext({
+        api: { finalizeInvoice } as unknown as ProductiveApi,
+        options: { format: 'human' },
+      });
+
+      await invoicesFinalize(['1'], ctx);
+
+      expect(finalizeInvoice).toHaveBeenCalledWith('1');
+      expect(consoleLogSpy).toHaveBeenCalled();
+    });
+  });
+
+  describe('invoicesLineItems', () => {
+    it('should list line items of an invoice', async () => {
+      const getLineItems = vi.fn().mockResolvedValue({
+        data: [
+          {
+            id: '7',
+            type: 'line_items',
+            attributes: { description: 'Design', quantity: '10.0', amount: '100000' },
+          },
+        ],
+        meta: {},
+      });
+
+      const ctx = createTestContext({
+        api: { getLineItems } as unknown as ProductiveApi,
+        options: { format: 'human' },
+      });
+
+      await invoicesLineItems(['1'], ctx);
+
+      expect(getLineItems).toHaveBeenCalledWith(
+        expect.objectContaining({ filter: { invoice_id: '1' } }),
+      );
+      expect(consoleLogSpy).toHaveBeenCalled();
+    });
+  });
+
+  describe('command routing', () => {
+    it('should exit with error for unknown subcommand', async () => {
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+      const processExitSpy = vi.spyOn(process, 'exit').mockImplementation(() => undefined as never);
+
+      await handleInvoicesCommand('unknown', [], {
+        format: 'json',
+        token: 'test-token',
+        'org-id': 'test-org',
+      });
+
+      expect(processExitSpy).toHaveBeenCalledWith(1);
+    });
+  });
+});
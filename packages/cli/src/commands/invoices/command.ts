@@ -0,0 +1,30 @@
+/**
+ * Invoices command entry point
+ */
+
+import { createCommandRouter } from '../../utils/command-router.js';
+import {
+  invoicesList,
+  invoicesGet,
+  invoicesAdd,
+  invoicesUpdate,
+  invoicesFinalize,
+  invoicesLineItems,
+} from './handlers.js';
+
+/**
+ * Handle invoices command
+ */
+export const handleInvoicesCommand = createCommandRouter({
+  resource: 'invoices',
+  handlers: {
+    list: invoicesList,
+    ls: invoicesList,
+    get: [invoicesGet, 'args'],
+    add: invoicesAdd,
+    create: invoicesAdd,
+    update: [invoicesUpdate, 'args'],
+    finalize: [invoicesFinalize, 'args'],
+    'line-items': [invoicesLineItems, 'args'],
+  },
+});
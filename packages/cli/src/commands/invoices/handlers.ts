@@ -0,0 +1,268 @@
+/**
+ * CLI adapter for invoices command handlers.
+ */
+
+import { formatInvoice, formatLineItem, formatListResponse } from '@studiometa/productive-api';
+import {
+  fromCommandContext,
+  listInvoices,
+  getInvoice,
+  createInvoice,
+  updateInvoice,
+  finalizeInvoice,
+  listLineItems,
+  ExecutorValidationError,
+  type ListInvoicesOptions,
+} from '@studiometa/productive-core';
+
+import type { CommandContext } from '../../context.js';
+import type { OutputFormat } from '../../types.js';
+
+import { handleError, exitWithValidationError, runCommand } from '../../error-handler.js';
+import { ValidationError } from '../../errors.js';
+import { render, createRenderContext, humanInvoiceDetailRenderer } from '../../renderers/index.js';
+import { colors } from '../../utils/colors.js';
+import { parseFilters } from '../../utils/parse-filters.js';
+
+function parseListOptions(ctx: CommandContext): ListInvoicesOptions {
+  const options: ListInvoicesOptions = {};
+
+  const additionalFilters: Record<string, string> = {};
+  if (ctx.options.filter)
+    Object.assign(additionalFilters, parseFilters(String(ctx.options.filter)));
+  if (Object.keys(additionalFilters).length > 0) options.additionalFilters = additionalFilters;
+
+  if (ctx.options.company) options.companyId = String(ctx.options.company);
+  if (ctx.options.deal) options.dealId = String(ctx.options.deal);
+  if (ctx.options.project) options.projectId = String(ctx.options.project);
+  if (ctx.options.status) options.status = String(ctx.options.status);
+  if (ctx.options.type) options.invoiceType = String(ctx.options.type);
+  if (ctx.options.from) options.after = String(ctx.options.from);
+  if (ctx.options.to) options.before = String(ctx.options.to);
+
+  const { page, perPage } = ctx.getPagination();
+  options.page = page;
+  options.perPage = perPage;
+  options.sort = ctx.getSort();
+
+  return options;
+}
+
+export async function invoicesList(ctx: CommandContext): Promise<void> {
+  const spinner = ctx.createSpinner('Fetching invoices...');
+  spinner.start();
+
+  await runCommand(async () => {
+    const execCtx = fromCommandContext(ctx);
+    const result = await listInvoices(parseListOptions(ctx), execCtx);
+
+    spinner.succeed();
+
+    const format = (ctx.options.format || ctx.options.f || 'human') as OutputFormat;
+    const formattedData = formatListResponse(result.data, formatInvoice, result.meta, {
+      included: result.included,
+    });
+
+    if (format === 'csv' || format === 'table') {
+      const data = formattedData.data.map((i) => ({
+        id: i.id,
+        number: i.number || '',
+        subject: i.subject || '',
+        company: i.company_name || '',
+        status: i.status,
+        date: i.invoiced_on || '',
+        due: i.pay_on || '',
+        total: i.amount_with_tax ?? '',
+        currency: i.currency || '',
+      }));
+      ctx.formatter.output(data);
+    } else {
+      const renderCtx = createRenderContext({ noColor: ctx.options['no-color'] === true });
+      render('invoice', format, formattedData, renderCtx);
+    }
+  }, ctx.formatter);
+}
+
+export async function invoicesGet(args: string[], ctx: CommandContext): Promise<void> {
+  const [id] = args;
+  if (!id) exitWithValidationError('id', 'productive invoices get <id>', ctx.formatter);
+
+  const spinner = ctx.createSpinner('Fetching invoice...');
+  spinner.start();
+
+  await runCommand(async () => {
+    const execCtx = fromCommandContext(ctx);
+    const result = await getInvoice({ id }, execCtx);
+
+    spinner.succeed();
+
+    const format = (ctx.options.format || ctx.options.f || 'human') as OutputFormat;
+    const formattedData = formatInvoice(result.data, { included: result.included });
+
+    if (format === 'json') {
+      ctx.formatter.output(formattedData);
+    } else {
+      const renderCtx = createRenderContext({ noColor: ctx.options['no-color'] === true });
+      humanInvoiceDetailRenderer.render(formattedData, renderCtx);
+    }
+  }, ctx.formatter);
+}
+
+export async function invoicesAdd(ctx: CommandContext): Promise<void> {
+  const spinner = ctx.createSpinner('Creating invoice...');
+  spinner.start();
+
+  if (!ctx.options.company) {
+    spinner.fail();
+    handleError(ValidationError.required('company'), ctx.formatter);
+    return;
+  }
+
+  await runCommand(async () => {
+    const execCtx = fromCommandContext(ctx);
+    const result = await createInvoice(
+      {
+        companyId: String(ctx.options.company),
+        documentTypeId: ctx.options['document-type']
+          ? String(ctx.options['document-type'])
+          : undefined,
+        subsidiaryId: ctx.options.subsidiary ? String(ctx.options.subsidiary) : undefined,
+        invoicedOn: ctx.options.date ? String(ctx.options.date) : undefined,
+        payOn: ctx.options['due-date'] ? String(ctx.options['due-date']) : undefined,
+        currency: ctx.options.currency ? String(ctx.options.currency) : undefined,
+        subject: ctx.options.subject ? String(ctx.options.subject) : undefined,
+        note: ctx.options.note ? String(ctx.options.note) : undefined,
+      },
+      execCtx,
+    );
+
+    spinner.succeed();
+
+    const invoice = result.data;
+    const format = ctx.options.format || ctx.options.f || 'human';
+
+    if (format === 'json') {
+      ctx.formatter.output({ success: true, ...formatInvoice(invoice) });
+    } else {
+      ctx.formatter.success('Draft invoice created');
+      console.log(colors.cyan('ID:'), invoice.id);
+      if (invoice.attributes.subject) {
+        console.log(colors.cyan('Subject:'), invoice.attributes.subject);
+      }
+      if (invoice.attributes.invoiced_on) {
+        console.log(colors.cyan('Date:'), invoice.attributes.invoiced_on);
+      }
+    }
+  }, ctx.formatter);
+}
+
+export async function invoicesUpdate(args: string[], ctx: CommandContext): Promise<void> {
+  const [id] = args;
+  if (!id) {
+    exitWithValidationError('id', 'productive invoices update <id> [options]', ctx.formatter);
+  }
+
+  const spinner = ctx.createSpinner('Updating invoice...');
+  spinner.start();
+
+  await runCommand(async () => {
+    const execCtx = fromCommandContext(ctx);
+
+    try {
+      const result = await updateInvoice(
+        {
+          id,
+          subject: ctx.options.subject !== undefined ? String(ctx.options.subject) : undefined,
+          invoicedOn: ctx.options.date !== undefined ? String(ctx.options.date) : undefined,
+          payOn:
+            ctx.options['due-date'] !== undefined ? String(ctx.options['due-date']) : undefined,
+          deliveryOn:
+            ctx.options['delivery-date'] !== undefined
+              ? String(ctx.options['delivery-date'])
+              : undefined,
+          currency: ctx.options.currency !== undefined ? String(ctx.options.currency) : undefined,
+          note: ctx.options.note !== undefined ? String(ctx.options.note) : undefined,
+          footer: ctx.options.footer !== undefined ? String(ctx.options.footer) : undefined,
+        },
+        execCtx,
+      );
+
+      spinner.succeed();
+
+      const format = ctx.options.format || ctx.options.f || 'human';
+      if (format === 'json') {
+        ctx.formatter.output({ status: 'success', id: result.data.id });
+      } else {
+        ctx.formatter.success(`Invoice ${id} updated`);
+      }
+    } catch (error) {
+      if (error instanceof ExecutorValidationError) {
+        spinner.fail();
+        throw ValidationError.invalid(
+          'options',
+          {},
+          'No updates specified. Use --subject, --date, --due-date, --currency, --note, etc.',
+        );
+      }
+      throw error;
+    }
+  }, ctx.formatter);
+}
+
+export async function invoicesFinalize(args: string[], ctx: CommandContext): Promise<void> {
+  const [id] = args;
+  if (!id) exitWithValidationError('id', 'productive invoices finalize <id>', ctx.formatter);
+
+  const spinner = ctx.createSpinner('Finalizing invoice...');
+  spinner.start();
+
+  await runCommand(async () => {
+    const execCtx = fromCommandContext(ctx);
+    const result = await finalizeInvoice({ id }, execCtx);
+
+    spinner.succeed();
+
+    const format = ctx.options.format || ctx.options.f || 'human';
+    if (format === 'json') {
+      ctx.formatter.output({ success: true, ...formatInvoice(result.data) });
+    } else {
+      const number = result.data.attributes.number;
+      ctx.formatter.success(
+        number ? `Invoice ${id} finalized as #${number}` : `Invoice ${id} finalized`,
+      );
+    }
+  }, ctx.formatter);
+}
+
+export async function invoicesLineItems(args: string[], ctx: CommandContext): Promise<void> {
+  const [id] = args;
+  if (!id) exitWithValidationError('id', 'productive invoices line-items <id>', ctx.formatter);
+
+  const spinner = ctx.createSpinner('Fetching line items...');
+  spinner.start();
+
+  await runCommand(async () => {
+    const execCtx = fromCommandContext(ctx);
+    const { page, perPage } = ctx.getPagination();
+    const result = await listLineItems({ invoiceId: id, page, perPage }, execCtx);
+
+    spinner.succeed();
+
+    const format = (ctx.options.format || ctx.options.f || 'human') as OutputFormat;
+    const formattedData = formatListResponse(result.data, formatLineItem, result.meta);
+
+    if (format === 'csv' || format === 'table') {
+      const data = formattedData.data.map((l) => ({
+        id: l.id,
+        description: l.description || '',
+        quantity: l.quantity ?? '',
+        unit_price: l.unit_price ?? '',
+        amount: l.amount ?? '',
+      }));
+      ctx.formatter.output(data);
+    } else {
+      const renderCtx = createRenderContext({ noColor: ctx.options['no-color'] === true });
+      render('line_item', format, formattedData, renderCtx);
+    }
+  }, ctx.formatter);
+}
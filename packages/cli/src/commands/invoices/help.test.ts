@@ -0,0 +1,33 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+
+import { showInvoicesHelp } from './help.js';
+
+describe('showInvoicesHelp', () => {
+  const spy = vi.spyOn(console, 'log').mockImplementation(() => {});
+  afterEach(() => spy.mockClear());
+
+  it('shows general help with no argument', () => {
+    showInvoicesHelp();
+    const output = spy.mock.calls[0][0];
+    expect(output).toContain('productive invoices');
+    expect(output).toContain('list, ls');
+    expect(output).toContain('finalize <id>');
+    expect(output).toContain('line-items <id>');
+  });
+
+  it.each([
+    ['list', 'productive invoices list', '--status'],
+    ['ls', 'productive invoices list', '--company'],
+    ['get', 'productive invoices get', '<id>'],
+    ['add', 'productive invoices add', '--company'],
+    ['create', 'productive invoices add', '--due-date'],
+    ['update', 'productive invoices update', '--subject'],
+    ['finalize', 'productive invoices finalize', 'locks the invoice'],
+    ['line-items', 'productive invoices line-items', '<id>'],
+  ])('shows %s help', (subcommand, title, option) => {
+    showInvoicesHelp(subcommand);
+    const output = spy.mock.calls[0][0];
+    expect(output).toContain(title);
+    expect(output).toContain(option);
+  });
+});
@@ -0,0 +1,164 @@
+/**
+ * Help text for invoices command
+ */
+
+import { colors } from '../../utils/colors.js';
+
+export function showInvoicesHelp(subcommand?: string): void {
+  if (subcommand === 'list' || subcommand === 'ls') {
+    console.log(`
+${colors.bold('productive invoices list')} - List invoices
+
+${colors.bold('USAGE:')}
+  productive invoices list [options]
+
+${colors.bold('OPTIONS:')}
+  --company <id>        Filter by company ID or name
+  --deal <id>           Filter by deal/budget ID
+  --project <id>        Filter by project ID
+  --status <status>     Filter by status: draft, finalized
+  --type <type>         Filter by type: invoice, credit_note
+  --from <date>         Invoices dated on or after (YYYY-MM-DD)
+  --to <date>           Invoices dated on or before (YYYY-MM-DD)
+  --filter <filters>    Generic filters (comma-separated key=value pairs)
+  -p, --page <num>      Page number (default: 1)
+  -s, --size <num>      Page size (default: 100)
+  --sort <field>        Sort by field (prefix with - for descending)
+  -f, --format <fmt>    Output format: json, human, csv, table
+
+${colors.bold('EXAMPLES:')}
+  productive invoices list
+  productive invoices list --status draft
+  productive invoices list --company "Acme" --from 2024-01-01
+  productive invoices list --deal 12345 --format json
+`);
+  } else if (subcommand === 'get') {
+    console.log(`
+${colors.bold('productive invoices get')} - Get invoice details
+
+${colors.bold('USAGE:')}
+  productive invoices get <id>
+
+${colors.bold('ARGUMENTS:')}
+  <id>                Invoice ID (required)
+
+${colors.bold('OPTIONS:')}
+  -f, --format <fmt>  Output format: json, human
+
+${colors.bold('EXAMPLES:')}
+  productive invoices get 12345
+  productive invoices get 12345 --format json
+`);
+  } else if (subcommand === 'add' || subcommand === 'create') {
+    console.log(`
+${colors.bold('productive invoices add')} - Create a draft invoice
+
+${colors.bold('USAGE:')}
+  productive invoices add [options]
+
+${colors.bold('OPTIONS:')}
+  --company <id>          Company ID or name (required)
+  --document-type <id>    Document type ID (invoice template)
+  --subsidiary <id>       Subsidiary ID (billing entity)
+  --date <date>           Invoice date (YYYY-MM-DD, default: today)
+  --due-date <date>       Payment due date (YYYY-MM-DD)
+  --currency <code>       Currency code (e.g. EUR, USD)
+  --subject <text>        Invoice subject
+  --note <text>           Invoice note
+  -f, --format <fmt>      Output format: json, human
+
+${colors.bold('EXAMPLES:')}
+  productive invoices add --company 12345 --subject "Website redesign — phase 1"
+  productive invoices add --company "Acme" --currency EUR --due-date 2024-02-14
+`);
+  } else if (subcommand === 'update') {
+    console.log(`
+${colors.bold('productive invoices update')} - Update a draft invoice
+
+${colors.bold('USAGE:')}
+  productive invoices update <id> [options]
+
+${colors.bold('ARGUMENTS:')}
+  <id>                    Invoice ID (required)
+
+${colors.bold('OPTIONS:')}
+  --subject <text>        Invoice subject
+  --date <date>           Invoice date (YYYY-MM-DD)
+  --due-date <date>       Payment due date (YYYY-MM-DD)
+  --delivery-date <date>  Delivery date (YYYY-MM-DD)
+  --currency <code>       Currency code
+  --note <text>           Invoice note
+  --footer <text>         Invoice footer
+  -f, --format <fmt>      Output format: json, human
+
+${colors.bold('EXAMPLES:')}
+  productive invoices update 12345 --subject "Updated subject"
+  productive invoices update 12345 --due-date 2024-03-01
+`);
+  } else if (subcommand === 'finalize') {
+    console.log(`
+${colors.bold('productive invoices finalize')} - Finalize a draft invoice
+
+${colors.bold('USAGE:')}
+  productive invoices finalize <id>
+
+${colors.bold('ARGUMENTS:')}
+  <id>                Invoice ID (required)
+
+${colors.bold('NOTE:')}
+  Finalizing assigns the invoice number and locks the invoice for edits.
+
+${colors.bold('OPTIONS:')}
+  -f, --format <fmt>  Output format: json, human
+
+${colors.bold('EXAMPLES:')}
+  productive invoices finalize 12345
+`);
+  } else if (subcommand === 'line-items') {
+    console.log(`
+${colors.bold('productive invoices line-items')} - List the line items of an invoice
+
+${colors.bold('USAGE:')}
+  productive invoices line-items <id>
+
+${colors.bold('ARGUMENTS:')}
+  <id>                Invoice ID (required)
+
+${colors.bold('OPTIONS:')}
+  -f, --format <fmt>  Output format: json, human, csv, table
+
+${colors.bold('EXAMPLES:')}
+  productive invoices line-items 12345
+  productive invoices line-items 12345 --format csv
+`);
+  } else {
+    console.log(`
+${colors.bold('productive invoices')} - Manage invoices
+
+${colors.bold('USAGE:')}
+  productive invoices <subcommand> [options]
+
+${colors.bold('SUBCOMMANDS:')}
+  list, ls            List invoices
+  get <id>            Get invoice details
+  add, create         Create a draft invoice
+  update <id>         Update a draft invoice
+  finalize <id>       Finalize a draft invoice
+  line-items <id>     List the line items of an invoice
+
+${colors.bold('COMMON OPTIONS:')}
+  -f, --format <fmt>  Output format: json, human, csv, table
+  -p, --page <num>    Page number for pagination
+  -s, --size <num>    Page size (default: 100)
+  -h, --help          Show help for a subcommand
+
+${colors.bold('EXAMPLES:')}
+  productive invoices list --status draft
+  productive invoices add --company 12345 --subject "Phase 1"
+  productive invoices line-items 67890
+  productive invoices finalize 67890
+
+Run ${colors.cyan('productive invoices <subcommand> --help')} for subcommand details.
+`);
+  }
+}
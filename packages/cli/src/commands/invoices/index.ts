@@ -0,0 +1,2 @@
+export { handleInvoicesCommand } from './command.js';
+export { showInvoicesHelp } from './help.js';
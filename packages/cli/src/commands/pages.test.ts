@@ -258,6 +258,26 @@ describe('pages command', () => {
       expect(consoleLogSpy).toHaveBeenCalled();
     });
 
+    it('should render the page body as Markdown', async () => {
+      const getPage = vi.fn().mockResolvedValue({
+        data: {
+          id: '1',
+          type: 'pages',
+          attributes: { title: 'Test Page', body: '<h1>Intro</h1><ul><li>One</li></ul>' },
+        },
+      });
+
+      const ctx = createTestContext({
+        api: { getPage } as unknown as ProductiveApi,
+        options: { format: 'json' },
+      });
+
+      await pagesGet(['1'], ctx);
+
+      const output = JSON.parse(consoleLogSpy.mock.calls[0][0]);
+      expect(output.body).toBe('# Intro\n\n- One');
+    });
+
     it('should get a page in human format', async () => {
       const getPage = vi.fn().mockResolvedValue({
         data: {
@@ -337,7 +357,7 @@ describe('pages command', () => {
       expect(createPage).toHaveBeenCalledWith({
         title: 'New Page',
         project_id: '123',
-        body: 'Body',
+        body: '<p>Body</p>',
         parent_page_id: undefined,
       });
       expect(consoleLogSpy).toHaveBeenCalled();
@@ -459,12 +479,15 @@ describe('pages command', () => {
 
       const ctx = createTestContext({
         api: { updatePage } as unknown as ProductiveApi,
-        options: { body: 'New body content', format: 'json' },
+        options: { body: '## Setup\n\nRun `npm install`', format: 'json' },
       });
 
       await pagesUpdate(['1'], ctx);
 
-      expect(updatePage).toHaveBeenCalledWith('1', { title: undefined, body: 'New body content' });
+      expect(updatePage).toHaveBeenCalledWith('1', {
+        title: undefined,
+        body: '<h2>Setup</h2><p>Run <code>npm install</code></p>',
+      });
     });
 
     it('should update a page in human format', async () => {
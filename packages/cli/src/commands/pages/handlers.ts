@@ -2,7 +2,7 @@
  * CLI adapter for pages command handlers.
  */
 
-import { formatPage, formatListResponse } from '@studiometa/productive-api';
+import { formatPage, formatListResponse, markdownToHtml } from '@studiometa/productive-api';
 import {
   fromCommandContext,
   listPages,
@@ -77,7 +77,7 @@ export async function pagesGet(args: string[], ctx: CommandContext): Promise<voi
     spinner.succeed();
 
     const format = (ctx.options.format || ctx.options.f || 'human') as OutputFormat;
-    const formattedData = formatPage(result.data, { included: result.included });
+    const formattedData = formatPage(result.data, { included: result.included, markdown: true });
 
     if (format === 'json') {
       ctx.formatter.output(formattedData);
@@ -109,7 +109,7 @@ export async function pagesAdd(ctx: CommandContext): Promise<void> {
       {
         title: String(ctx.options.title),
         projectId: String(ctx.options.project),
-        body: ctx.options.body ? String(ctx.options.body) : undefined,
+        body: ctx.options.body ? markdownToHtml(String(ctx.options.body)) : undefined,
         parentPageId: ctx.options['parent-page'] ? String(ctx.options['parent-page']) : undefined,
       },
       execCtx,
@@ -145,7 +145,8 @@ export async function pagesUpdate(args: string[], ctx: CommandContext): Promise<
         {
           id,
           title: ctx.options.title !== undefined ? String(ctx.options.title) : undefined,
-          body: ctx.options.body !== undefined ? String(ctx.options.body) : undefined,
+          body:
+            ctx.options.body !== undefined ? markdownToHtml(String(ctx.options.body)) : undefined,
         },
         execCtx,
       );
@@ -54,7 +54,7 @@ ${colors.bold('USAGE:')}
 ${colors.bold('OPTIONS:')}
   --title <title>       Page title (required)
   --project <id>        Project ID (required)
-  --body <text>         Page body content
+  --body <text>         Page body content (Markdown)
   --parent-page <id>    Parent page ID (for sub-pages)
   -f, --format <fmt>    Output format: json, human
 
@@ -74,7 +74,7 @@ ${colors.bold('ARGUMENTS:')}
 
 ${colors.bold('OPTIONS:')}
   --title <title>       New page title
-  --body <text>         New page body
+  --body <text>         New page body (Markdown)
   -f, --format <fmt>    Output format: json, human
 
 ${colors.bold('EXAMPLES:')}
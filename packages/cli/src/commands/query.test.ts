@@ -0,0 +1,107 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+import { createTestContext } from '../context.js';
+import { listQueryViews, runQuery } from './query/handlers.js';
+
+const mirror = vi.hoisted(() => ({
+  readOnlyQuery: vi.fn(),
+  mirrorCounts: vi.fn(async () => ({}) as Record<string, number>),
+}));
+
+vi.mock('../utils/local-mirror.js', () => ({ getMirror: () => mirror }));
+
+function sqliteError(message: string): Error {
+  return Object.assign(new Error(message), { code: 'ERR_SQLITE_ERROR' });
+}
+
+describe('query command', () => {
+  let consoleLogSpy: ReturnType<typeof vi.spyOn>;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    consoleLogSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe('runQuery', () => {
+    it('runs the statement with the views and outputs the rows', async () => {
+      mirror.readOnlyQuery.mockResolvedValue([{ client: 'Acme', hours: 12 }]);
+      const ctx = createTestContext({ options: { format: 'json' } });
+
+      await runQuery(['SELECT client, hours FROM report;'], ctx);
+
+      expect(mirror.readOnlyQuery).toHaveBeenCalledWith(
+        'SELECT client, hours FROM report',
+        expect.stringContaining('CREATE TEMP VIEW'),
+      );
+      expect(JSON.parse(consoleLogSpy.mock.calls[0][0])).toEqual({
+        data: [{ client: 'Acme', hours: 12 }],
+      });
+    });
+
+    it('renders csv through the renderer registry', async () => {
+      mirror.readOnlyQuery.mockResolvedValue([{ id: '1', title: 'Fix, then ship' }]);
+      const ctx = createTestContext({ options: { format: 'csv' } });
+
+      await runQuery(['SELECT id, title FROM tasks'], ctx);
+
+      expect(consoleLogSpy.mock.calls.map((call: unknown[]) => call[0])).toEqual([
+        'id,title',
+        '1,"Fix, then ship"',
+      ]);
+    });
+
+    it('hints at pulling when the mirror is empty', async () => {
+      mirror.readOnlyQuery.mockResolvedValue([]);
+      vi.spyOn(console, 'warn').mockImplementation(() => {});
+      const ctx = createTestContext({ options: { format: 'human' } });
+      const warning = vi.spyOn(ctx.formatter, 'warning');
+
+      await runQuery(['SELECT * FROM tasks'], ctx);
+
+      expect(warning).toHaveBeenCalledWith(expect.stringContaining('productive sync pull'));
+    });
+
+    it('rejects writes before touching the database', async () => {
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+      const processExitSpy = vi.spyOn(process, 'exit').mockImplementation(() => undefined as never);
+      const ctx = createTestContext({ options: { format: 'json' } });
+
+      await runQuery(['DELETE FROM mirror'], ctx);
+
+      expect(processExitSpy).toHaveBeenCalledWith(3);
+      expect(mirror.readOnlyQuery).not.toHaveBeenCalled();
+    });
+
+    it('reports SQL errors as invalid input', async () => {
+      const processExitSpy = vi.spyOn(process, 'exit').mockImplementation(() => undefined as never);
+      mirror.readOnlyQuery.mockRejectedValue(sqliteError('no such column: hourz'));
+      const ctx = createTestContext({ options: { format: 'json' } });
+
+      await runQuery(['SELECT hourz FROM time_entries'], ctx);
+
+      expect(processExitSpy).toHaveBeenCalledWith(3);
+      expect(consoleLogSpy.mock.calls.flat().join('\n')).toContain('no such column: hourz');
+    });
+  });
+
+  describe('listQueryViews', () => {
+    it('lists views with their columns', async () => {
+      const ctx = createTestContext({ options: { format: 'json' } });
+
+      await listQueryViews(ctx);
+
+      const { data } = JSON.parse(consoleLogSpy.mock.calls[0][0]);
+      expect(data.map((view: { name: string }) => view.name)).toContain('time_entries');
+      expect(
+        data.find((view: { name: string }) => view.name === 'time_entries').columns,
+      ).toContainEqual({
+        name: 'hours',
+        description: 'Time in hours',
+      });
+    });
+  });
+});
@@ -0,0 +1,24 @@
+/**
+ * Query command entry point
+ */
+
+import { createContext, type CommandOptions } from '../../context.js';
+import { listQueryViews, runQuery } from './handlers.js';
+
+/**
+ * Handle query command. Anything but `views` is part of the SQL statement.
+ */
+export async function handleQueryCommand(
+  subcommand: string | undefined,
+  args: string[],
+  options: Record<string, string | boolean | string[]>,
+): Promise<void> {
+  const ctx = createContext(options as CommandOptions);
+
+  if (subcommand === 'views') {
+    await listQueryViews(ctx);
+    return;
+  }
+
+  await runQuery(subcommand ? [subcommand, ...args] : args, ctx);
+}
@@ -0,0 +1,77 @@
+/**
+ * Handler implementations for the query command
+ */
+
+import type { CommandContext } from '../../context.js';
+import type { OutputFormat } from '../../types.js';
+
+import { runCommand } from '../../error-handler.js';
+import { ValidationError } from '../../errors.js';
+import { createRenderContext, render } from '../../renderers/index.js';
+import { colors } from '../../utils/colors.js';
+import { getMirror } from '../../utils/local-mirror.js';
+import { assertReadOnlyQuery, buildQueryViewsSql, QUERY_VIEWS } from '../../utils/query-views.js';
+
+function isSqliteError(error: unknown): error is Error {
+  return error instanceof Error && (error as { code?: unknown }).code === 'ERR_SQLITE_ERROR';
+}
+
+/**
+ * Run a read-only SQL query against the local mirror views
+ */
+export async function runQuery(args: string[], ctx: CommandContext): Promise<void> {
+  await runCommand(async () => {
+    const sql = assertReadOnlyQuery(args.join(' '));
+    const mirror = getMirror(ctx);
+
+    let rows: Record<string, unknown>[];
+    try {
+      rows = await mirror.readOnlyQuery(sql, buildQueryViewsSql());
+    } catch (error) {
+      // SQL mistakes are the user's input, not a cache failure
+      if (!isSqliteError(error)) throw error;
+      throw ValidationError.invalid('query', sql, error.message, [
+        'Run "productive query views" to list the views and their columns',
+      ]);
+    }
+
+    const format = (ctx.options.format || ctx.options.f || 'human') as OutputFormat;
+    if (rows.length === 0 && format === 'human') {
+      const counts = await mirror.mirrorCounts();
+      if (Object.keys(counts).length === 0) {
+        ctx.formatter.warning('The local mirror is empty: run "productive sync pull" first');
+        return;
+      }
+    }
+
+    const renderCtx = createRenderContext({ noColor: ctx.options['no-color'] === true });
+    render('query_result', format, { data: rows }, renderCtx);
+  }, ctx.formatter);
+}
+
+/**
+ * List the views available to queries and their columns
+ */
+export async function listQueryViews(ctx: CommandContext): Promise<void> {
+  const format = (ctx.options.format || ctx.options.f || 'human') as OutputFormat;
+
+  if (format === 'json') {
+    ctx.formatter.output({
+      data: QUERY_VIEWS.map((view) => ({
+        name: view.name,
+        description: view.description,
+        columns: view.columns.map(({ name, description }) => ({ name, description })),
+      })),
+    });
+    return;
+  }
+
+  for (const view of QUERY_VIEWS) {
+    console.log(`${colors.bold(view.name)} ${colors.dim(`- ${view.description}`)}`);
+    const width = Math.max(...view.columns.map((c) => c.name.length));
+    for (const c of view.columns) {
+      console.log(`  ${colors.cyan(c.name.padEnd(width))}  ${c.description}`);
+    }
+    console.log();
+  }
+}
@@ -0,0 +1,21 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+
+import { showQueryHelp } from './help.js';
+
+describe('showQueryHelp', () => {
+  const spy = vi.spyOn(console, 'log').mockImplementation(() => {});
+  afterEach(() => spy.mockClear());
+
+  it('shows general help with an example query', () => {
+    showQueryHelp();
+    const output = spy.mock.calls[0][0];
+    expect(output).toContain('productive query');
+    expect(output).toContain('read-only');
+    expect(output).toContain('FROM time_entries');
+  });
+
+  it('shows views help', () => {
+    showQueryHelp('views');
+    expect(spy.mock.calls[0][0]).toContain('productive query views');
+  });
+});
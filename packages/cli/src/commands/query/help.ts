@@ -0,0 +1,61 @@
+/**
+ * Help text for query command
+ */
+
+import { colors } from '../../utils/colors.js';
+
+export function showQueryHelp(subcommand?: string): void {
+  if (subcommand === 'views') {
+    console.log(`
+${colors.bold('productive query views')} - List the views available to queries
+
+${colors.bold('USAGE:')}
+  productive query views [options]
+
+${colors.bold('OPTIONS:')}
+  -f, --format <fmt>  Output format: json, human
+
+${colors.bold('EXAMPLES:')}
+  productive query views
+  productive query views --format json
+`);
+    return;
+  }
+
+  console.log(`
+${colors.bold('productive query')} - Run read-only SQL against the local mirror
+
+${colors.bold('USAGE:')}
+  productive query "<sql>" [options]
+  productive query views
+
+${colors.bold('DESCRIPTION:')}
+  Runs a single SELECT statement on the records copied locally by
+  ${colors.cyan('productive sync pull')}. Each resource is exposed as a view with plain
+  columns: projects, companies, people, services, deals, tasks,
+  time_entries, bookings and comments. Relationships are ${colors.cyan('<name>_id')} columns.
+
+  Queries run on a read-only connection: statements that write, attach
+  databases or change settings are rejected.
+
+${colors.bold('OPTIONS:')}
+  -f, --format <fmt>  Output format: json, human, csv, table (default: human)
+  --no-color          Disable colored output
+
+${colors.bold('EXAMPLES:')}
+  # Hours per client per month
+  productive query "SELECT c.name AS client, substr(t.date, 1, 7) AS month,
+    ROUND(SUM(t.hours), 1) AS hours
+    FROM time_entries t
+    JOIN projects p ON p.id = t.project_id
+    JOIN companies c ON c.id = p.company_id
+    GROUP BY client, month ORDER BY month, hours DESC"
+
+  # Open tasks per assignee
+  productive query "SELECT pe.name, COUNT(*) AS open_tasks FROM tasks t
+    JOIN people pe ON pe.id = t.assignee_id WHERE t.closed = 0
+    GROUP BY pe.id ORDER BY open_tasks DESC" --format table
+
+  productive query views
+`);
+}
@@ -0,0 +1,12 @@
+/**
+ * Query command module
+ *
+ * Exports:
+ * - handleQueryCommand: Main command handler
+ * - showQueryHelp: Help text display
+ * - runQuery, listQueryViews: Individual handlers for testing
+ */
+
+export { handleQueryCommand } from './command.js';
+export { showQueryHelp } from './help.js';
+export { runQuery, listQueryViews } from './handlers.js';
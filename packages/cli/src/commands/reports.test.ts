@@ -96,6 +96,23 @@ describe('reports command', () => {
       );
     });
 
+    it('should resolve a period and echo it in meta', async () => {
+      const { ctx, getReports } = createReportCtx([], { period: '2024-q1' });
+
+      await reportsTime(ctx);
+
+      expect(getReports).toHaveBeenCalledWith(
+        'time_reports',
+        expect.objectContaining({
+          filter: expect.objectContaining({ after: '2024-01-01', before: '2024-03-31' }),
+        }),
+      );
+      expect(JSON.parse(consoleLogSpy.mock.calls[0][0]).meta.dates).toEqual({
+        after: { input: '2024-q1', date: '2024-01-01' },
+        before: { input: '2024-q1', date: '2024-03-31' },
+      });
+    });
+
     it('should apply person and project filters', async () => {
       const { ctx, getReports } = createReportCtx([], { person: '123', project: '456' });
 
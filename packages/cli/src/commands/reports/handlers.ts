@@ -13,6 +13,7 @@ import type { CommandContext } from '../../context.js';
 import type { OutputFormat } from '../../types.js';
 
 import { runCommand } from '../../error-handler.js';
+import { withLocalMirror } from '../../utils/local-mirror.js';
 import { parseFilters } from '../../utils/parse-filters.js';
 
 function formatReportData(data: unknown[]): unknown[] {
@@ -48,6 +49,7 @@ function buildReportOptions(
     group: ctx.options.group ? String(ctx.options.group) : undefined,
     from: ctx.options.from ? String(ctx.options.from) : undefined,
     to: ctx.options.to ? String(ctx.options.to) : undefined,
+    period: ctx.options.period ? String(ctx.options.period) : undefined,
     personId: ctx.options.person ? String(ctx.options.person) : undefined,
     projectId: ctx.options.project ? String(ctx.options.project) : undefined,
     companyId: ctx.options.company ? String(ctx.options.company) : undefined,
@@ -73,12 +75,13 @@ async function runReport(
   spinner.start();
 
   await runCommand(async () => {
-    const execCtx = fromCommandContext(ctx);
+    const localCtx = withLocalMirror(ctx);
+    const execCtx = fromCommandContext(localCtx);
     const options = buildReportOptions(ctx, reportType, extraFilters);
 
     // Resolve filters for time reports (human-friendly identifiers)
     if (reportType === 'time_reports' && options.additionalFilters) {
-      const { resolved } = await ctx.resolveFilters(options.additionalFilters);
+      const { resolved } = await localCtx.resolveFilters(options.additionalFilters);
       options.additionalFilters = resolved;
     }
 
@@ -90,7 +93,9 @@ async function runReport(
     const formattedData = formatReportData(result.data);
 
     if (format === 'json') {
-      ctx.formatter.output({ data: formattedData, meta: result.meta });
+      // Echo what date expressions like "last-month" resolved to
+      const meta = result.dates ? { ...result.meta, dates: result.dates } : result.meta;
+      ctx.formatter.output({ data: formattedData, meta });
     } else {
       const group = options.group || reportType.replace('_reports', '');
       humanRenderer(formattedData, group);
@@ -12,6 +12,7 @@ interface ReportHelpConfig {
 }
 
 const commonOptions = [
+  '--period <period>   Date range: this-week, last-month, q3, ytd, 2026-W42',
   '--filter <filters>  Generic filters (comma-separated key=value pairs)',
   '-p, --page <num>    Page number (default: 1)',
   '-s, --size <num>    Page size (default: 100)',
@@ -23,16 +24,19 @@ const reportConfigs: Record<string, ReportHelpConfig> = {
     name: 'time',
     description: 'Time reports',
     options: [
-      '--from <date>       Filter by start date (YYYY-MM-DD)',
-      '--to <date>         Filter by end date (YYYY-MM-DD)',
+      '--from <date>       Filter by start date (YYYY-MM-DD or expression)',
+      '--to <date>         Filter by end date (YYYY-MM-DD or expression)',
       '--person <id>       Filter by person ID',
       '--project <id>      Filter by project ID',
       '--group <field>     Group by: person, project, service, deal (default: person)',
+      '--offline           Aggregate mirrored time entries (see: productive sync pull)',
     ],
     examples: [
       'productive reports time --from 2024-01-01 --to 2024-01-31',
+      'productive reports time --period last-month --group project',
       'productive reports time --group project --format json',
       'productive reports time --person 12345 --from 2024-01-01',
+      'productive reports time --group date --from 2024-01-01 --offline',
     ],
   },
   project: {
@@ -63,8 +67,8 @@ const reportConfigs: Record<string, ReportHelpConfig> = {
     name: 'person',
     description: 'Person reports',
     options: [
-      '--from <date>       Filter by start date (YYYY-MM-DD)',
-      '--to <date>         Filter by end date (YYYY-MM-DD)',
+      '--from <date>       Filter by start date (YYYY-MM-DD or expression)',
+      '--to <date>         Filter by end date (YYYY-MM-DD or expression)',
       '--group <field>     Group by: person, team (default: person)',
     ],
     examples: [
@@ -78,8 +82,8 @@ const reportConfigs: Record<string, ReportHelpConfig> = {
     options: [
       '--company <id>      Filter by company ID',
       '--status <status>   Filter by invoice status (draft, sent, paid, overdue)',
-      '--from <date>       Filter by invoice date start (YYYY-MM-DD)',
-      '--to <date>         Filter by invoice date end (YYYY-MM-DD)',
+      '--from <date>       Filter by invoice date start (YYYY-MM-DD or expression)',
+      '--to <date>         Filter by invoice date end (YYYY-MM-DD or expression)',
       '--group <field>     Group by: invoice, company, project (default: invoice)',
     ],
     examples: [
@@ -93,8 +97,8 @@ const reportConfigs: Record<string, ReportHelpConfig> = {
     description: 'Payment reports',
     options: [
       '--company <id>      Filter by company ID',
-      '--from <date>       Filter by payment date start (YYYY-MM-DD)',
-      '--to <date>         Filter by payment date end (YYYY-MM-DD)',
+      '--from <date>       Filter by payment date start (YYYY-MM-DD or expression)',
+      '--to <date>         Filter by payment date end (YYYY-MM-DD or expression)',
       '--group <field>     Group by: payment, company, invoice (default: payment)',
     ],
     examples: [
@@ -136,8 +140,8 @@ const reportConfigs: Record<string, ReportHelpConfig> = {
     name: 'company',
     description: 'Company reports',
     options: [
-      '--from <date>       Filter by date start (YYYY-MM-DD)',
-      '--to <date>         Filter by date end (YYYY-MM-DD)',
+      '--from <date>       Filter by date start (YYYY-MM-DD or expression)',
+      '--to <date>         Filter by date end (YYYY-MM-DD or expression)',
       '--group <field>     Group by: company (default: company)',
     ],
     examples: [
@@ -151,8 +155,8 @@ const reportConfigs: Record<string, ReportHelpConfig> = {
     options: [
       '--company <id>      Filter by company ID',
       '--status <id>       Filter by deal status ID',
-      '--from <date>       Filter by deal date start (YYYY-MM-DD)',
-      '--to <date>         Filter by deal date end (YYYY-MM-DD)',
+      '--from <date>       Filter by deal date start (YYYY-MM-DD or expression)',
+      '--to <date>         Filter by deal date end (YYYY-MM-DD or expression)',
       '--group <field>     Group by: deal, company, status (default: deal)',
     ],
     examples: [
@@ -167,8 +171,8 @@ const reportConfigs: Record<string, ReportHelpConfig> = {
     options: [
       '--person <id>       Filter by person ID',
       '--status <status>   Filter by timesheet status (pending, approved, rejected)',
-      '--from <date>       Filter by date start (YYYY-MM-DD)',
-      '--to <date>         Filter by date end (YYYY-MM-DD)',
+      '--from <date>       Filter by date start (YYYY-MM-DD or expression)',
+      '--to <date>         Filter by date end (YYYY-MM-DD or expression)',
     ],
     examples: [
       'productive reports timesheet --format json',
@@ -230,8 +234,9 @@ ${colors.bold('REPORT TYPES:')}
   timesheet           Timesheet reports (approval status)
 
 ${colors.bold('COMMON OPTIONS:')}
-  --from <date>       Filter by start date (YYYY-MM-DD)
-  --to <date>         Filter by end date (YYYY-MM-DD)
+  --from <date>       Filter by start date (YYYY-MM-DD or expression)
+  --to <date>         Filter by end date (YYYY-MM-DD or expression)
+  --period <period>   Date range covering --from and --to
   --group <field>     Group results by field
   --filter <filters>  Generic filters (comma-separated key=value pairs)
   -f, --format <fmt>  Output format: json, human (default: json)
@@ -241,11 +246,18 @@ ${colors.bold('COMMON OPTIONS:')}
 
 ${colors.bold('EXAMPLES:')}
   productive reports time --from 2024-01-01 --to 2024-01-31
+  productive reports invoice --period q3
   productive reports project --company 12345 --format json
   productive reports invoice --status overdue
   productive reports deal --group company
   productive reports timesheet --person 12345 --status pending
 
+${colors.bold('DATES:')}
+  Dates are YYYY-MM-DD or expressions: today, "last monday", "2 weeks ago",
+  this-week, last-month, next-quarter, q3, 2025-q4, ytd, 2026-W42, 2026-10.
+  A period used with --to ends on its last day. JSON output lists the
+  resolved dates in meta.dates.
+
 Run ${colors.cyan('productive reports <type> --help')} for report-specific options.
 `);
 }
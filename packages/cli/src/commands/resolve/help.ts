@@ -41,8 +41,8 @@ ${colors.bold('ARGUMENTS:')}
   <query>              Search query (email, name, project number, etc.)
 
 ${colors.bold('OPTIONS:')}
-  -t, --type <type>    Resource type: person, project, company, deal, service
-  --project <id>       Project context (required for service resolution)
+  -t, --type <type>    Resource type: person, project, company, deal, service, task_list
+  --project <id>       Project context (required for service resolution, narrows task lists)
   --first              Return first match if multiple results
   -q, --quiet          Output only the ID (fails on multiple matches unless --first)
   -f, --format <fmt>   Output format: human, json (default: human)
@@ -83,6 +83,9 @@ ${colors.bold('EXAMPLES:')}
   # Resolve a service within a project
   productive resolve "Development" --type service --project 777332
 
+  # Resolve a task list within a project
+  productive resolve "Sprint 12" --type task_list --project 777332
+
   # Use with subshell in other commands
   productive tasks list --assignee $(productive resolve "user@example.com" -q)
   productive time list --project $(productive resolve "PRJ-001" -q)
@@ -143,6 +143,7 @@ export async function scriptRun(
     if (ctx.config.organizationId) env.PRODUCTIVE_ORG_ID = ctx.config.organizationId;
     if (ctx.config.userId) env.PRODUCTIVE_USER_ID = ctx.config.userId;
     if (ctx.config.baseUrl) env.PRODUCTIVE_BASE_URL = ctx.config.baseUrl;
+    if (ctx.config.timezone) env.PRODUCTIVE_TIMEZONE = ctx.config.timezone;
     if (dryRun) env.PRODUCTIVE_DRY_RUN = '1';
 
     const child = spawn(process.execPath, nodeArgs, {
@@ -0,0 +1,266 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+import { createTestContext } from '../context.js';
+import { syncDiscard, syncPull, syncRun, syncStatus } from './sync/handlers.js';
+import { handleSyncCommand } from './sync/index.js';
+
+const journal = vi.hoisted(() => ({
+  replayJournal: vi.fn(),
+  getJournalEntries: vi.fn(),
+  discardJournalEntries: vi.fn(),
+}));
+
+vi.mock('../utils/mutation-journal.js', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../utils/mutation-journal.js')>()),
+  ...journal,
+}));
+
+const mirror = vi.hoisted(() => ({
+  getMirror: vi.fn(() => ({})),
+  getMirroredResources: vi.fn(async () => [] as string[]),
+  pullMirror: vi.fn(),
+}));
+
+vi.mock('../utils/local-mirror.js', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../utils/local-mirror.js')>()),
+  ...mirror,
+}));
+
+const pullReport = {
+  resources: [{ resource: 'tasks', mode: 'incremental', fetched: 4, deleted: 1 }],
+  deleted: 1,
+};
+
+describe('sync command', () => {
+  let consoleLogSpy: ReturnType<typeof vi.spyOn>;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mirror.getMirroredResources.mockResolvedValue([]);
+    consoleLogSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  function output(): string {
+    return consoleLogSpy.mock.calls.map((call: unknown[]) => call.join(' ')).join('\n');
+  }
+
+  describe('syncRun', () => {
+    it('should replay the journal and output the report', async () => {
+      const report = {
+        applied: [
+          { id: 1, kind: 'comment.create', description: 'Comment on task 42', resultId: '9' },
+        ],
+        conflicts: [],
+        failed: [],
+        remaining: 0,
+      };
+      journal.replayJournal.mockResolvedValue(report);
+      const ctx = createTestContext({ options: { format: 'json', force: true } });
+
+      await syncRun(ctx);
+
+      expect(journal.replayJournal).toHaveBeenCalledWith(ctx, { force: true });
+      expect(JSON.parse(consoleLogSpy.mock.calls[0][0])).toEqual(report);
+    });
+
+    it('should summarize applied changes and conflicts', async () => {
+      journal.replayJournal.mockResolvedValue({
+        applied: [
+          { id: 1, kind: 'comment.create', description: 'Comment on task 42', resultId: '9' },
+        ],
+        conflicts: [
+          {
+            id: 2,
+            kind: 'task.update',
+            description: 'Update task 42 (title)',
+            reason: 'Task was modified on the server at 2024-01-15T10:00:00Z',
+          },
+        ],
+        failed: [],
+        remaining: 1,
+      });
+      const ctx = createTestContext({ options: { format: 'human', 'no-color': true } });
+
+      await syncRun(ctx);
+
+      const text = output();
+      expect(text).toContain('#1 Comment on task 42');
+      expect(text).toContain('Task was modified on the server');
+      expect(text).toContain('1 change(s) applied');
+      expect(text).toContain('1 conflict(s) kept in the journal');
+      expect(text).toContain('1 change(s) still pending');
+    });
+
+    it('should report an empty journal', async () => {
+      journal.replayJournal.mockResolvedValue({
+        applied: [],
+        conflicts: [],
+        failed: [],
+        remaining: 0,
+      });
+      const ctx = createTestContext({ options: { format: 'human' } });
+
+      await syncRun(ctx);
+
+      expect(output()).toContain('Nothing to sync');
+      expect(mirror.pullMirror).not.toHaveBeenCalled();
+    });
+
+    it('should refresh mirrored resources once the journal is applied', async () => {
+      journal.replayJournal.mockResolvedValue({
+        applied: [],
+        conflicts: [],
+        failed: [],
+        remaining: 0,
+      });
+      mirror.getMirroredResources.mockResolvedValue(['tasks']);
+      mirror.pullMirror.mockResolvedValue(pullReport);
+      const ctx = createTestContext({ options: { format: 'json' } });
+
+      await syncRun(ctx);
+
+      expect(mirror.pullMirror).toHaveBeenCalledWith(ctx.api, {}, { resources: ['tasks'] });
+      expect(JSON.parse(consoleLogSpy.mock.calls[0][0]).mirror).toEqual(pullReport);
+    });
+
+    it('should not refresh the mirror with --no-pull', async () => {
+      journal.replayJournal.mockResolvedValue({
+        applied: [],
+        conflicts: [],
+        failed: [],
+        remaining: 0,
+      });
+      mirror.getMirroredResources.mockResolvedValue(['tasks']);
+      const ctx = createTestContext({ options: { format: 'json', 'no-pull': true } });
+
+      await syncRun(ctx);
+
+      expect(mirror.pullMirror).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('syncPull', () => {
+    it('should pull the requested resources', async () => {
+      mirror.pullMirror.mockResolvedValue(pullReport);
+      const ctx = createTestContext({ options: { format: 'json', prune: true } });
+
+      await syncPull(['tasks'], ctx);
+
+      expect(mirror.pullMirror).toHaveBeenCalledWith(
+        ctx.api,
+        {},
+        expect.objectContaining({ resources: ['tasks'], prune: true }),
+      );
+      expect(JSON.parse(consoleLogSpy.mock.calls[0][0])).toEqual(pullReport);
+    });
+
+    it('should print a summary per resource', async () => {
+      mirror.pullMirror.mockResolvedValue(pullReport);
+      const ctx = createTestContext({ options: { format: 'human', 'no-color': true } });
+
+      await syncPull([], ctx);
+
+      expect(mirror.pullMirror).toHaveBeenCalledWith(
+        ctx.api,
+        {},
+        expect.objectContaining({ resources: undefined }),
+      );
+      expect(output()).toContain('tasks: 4 updated, 1 removed');
+    });
+
+    it('should reject unknown resources', async () => {
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+      const processExitSpy = vi.spyOn(process, 'exit').mockImplementation(() => undefined as never);
+      const ctx = createTestContext({ options: { format: 'json' } });
+
+      await syncPull(['invoices'], ctx);
+
+      expect(processExitSpy).toHaveBeenCalledWith(3);
+      expect(mirror.pullMirror).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('syncStatus', () => {
+    it('should list journaled changes', async () => {
+      journal.getJournalEntries.mockResolvedValue([
+        {
+          id: 3,
+          kind: 'time.create',
+          payload: { time: 60, serviceId: '6', date: '2024-01-15' },
+          status: 'failed',
+          error: 'Service not found',
+          queuedAt: Date.parse('2024-01-15T08:00:00Z'),
+        },
+      ]);
+      const ctx = createTestContext({ options: { format: 'json' } });
+
+      await syncStatus(ctx);
+
+      expect(JSON.parse(consoleLogSpy.mock.calls[0][0])).toEqual({
+        data: [
+          {
+            id: 3,
+            kind: 'time.create',
+            status: 'failed',
+            queued_at: '2024-01-15T08:00:00.000Z',
+            description: 'Log 60m on service 6 (2024-01-15)',
+            reason: 'Service not found',
+          },
+        ],
+      });
+    });
+  });
+
+  describe('syncDiscard', () => {
+    it('should discard entries by id', async () => {
+      journal.discardJournalEntries.mockResolvedValue(2);
+      const ctx = createTestContext({ options: { format: 'json' } });
+
+      await syncDiscard(['3', '4'], ctx);
+
+      expect(journal.discardJournalEntries).toHaveBeenCalledWith(ctx, [3, 4]);
+      expect(JSON.parse(consoleLogSpy.mock.calls[0][0])).toEqual({
+        status: 'success',
+        discarded: 2,
+      });
+    });
+
+    it('should discard everything with --all', async () => {
+      journal.discardJournalEntries.mockResolvedValue(5);
+      const ctx = createTestContext({ options: { format: 'json', all: true } });
+
+      await syncDiscard([], ctx);
+
+      expect(journal.discardJournalEntries).toHaveBeenCalledWith(ctx, 'all');
+    });
+
+    it('should reject non-numeric ids', async () => {
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+      const processExitSpy = vi.spyOn(process, 'exit').mockImplementation(() => undefined as never);
+      const ctx = createTestContext({ options: { format: 'json' } });
+
+      await syncDiscard(['abc'], ctx);
+
+      expect(processExitSpy).toHaveBeenCalledWith(3);
+    });
+  });
+
+  describe('command routing', () => {
+    it('should exit with error for unknown subcommand', async () => {
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+      const processExitSpy = vi.spyOn(process, 'exit').mockImplementation(() => undefined as never);
+
+      await handleSyncCommand('unknown', [], {
+        format: 'json',
+        token: 'test-token',
+        'org-id': 'test-org',
+      });
+
+      expect(processExitSpy).toHaveBeenCalledWith(1);
+    });
+  });
+});
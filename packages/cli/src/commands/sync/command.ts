@@ -0,0 +1,29 @@
+/**
+ * Sync command entry point
+ */
+
+import { createCommandRouter } from '../../utils/command-router.js';
+import { syncDiscard, syncPull, syncRun, syncStatus } from './handlers.js';
+
+const router = createCommandRouter({
+  resource: 'sync',
+  handlers: {
+    run: syncRun,
+    pull: [syncPull, 'args'],
+    status: syncStatus,
+    discard: [syncDiscard, 'args'],
+  },
+});
+
+/**
+ * Handle sync command.
+ *
+ * Reads bypass the cache: conflict checks must see the current server state.
+ */
+export function handleSyncCommand(
+  subcommand: string,
+  args: string[],
+  options: Record<string, string | boolean | string[]>,
+): Promise<void> {
+  return router(subcommand, args, { ...options, refresh: true });
+}
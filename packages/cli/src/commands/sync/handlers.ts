@@ -0,0 +1,197 @@
+/**
+ * CLI handlers for replaying the offline mutation journal and pulling the
+ * local mirror.
+ */
+
+import type { CommandContext } from '../../context.js';
+import type { OutputFormat } from '../../types.js';
+
+import { exitWithValidationError, runCommand } from '../../error-handler.js';
+import { ValidationError } from '../../errors.js';
+import { colors } from '../../utils/colors.js';
+import {
+  getMirror,
+  getMirroredResources,
+  isMirrorResource,
+  MIRROR_RESOURCES,
+  pullMirror,
+  type MirrorPullReport,
+} from '../../utils/local-mirror.js';
+import {
+  describeMutation,
+  discardJournalEntries,
+  getJournalEntries,
+  replayJournal,
+  type SyncItem,
+} from '../../utils/mutation-journal.js';
+
+function printItems(items: SyncItem[], mark: string): void {
+  for (const item of items) {
+    const result = item.resultId ? colors.dim(` → ${item.resultId}`) : '';
+    console.log(`${mark} #${item.id} ${item.description}${result}`);
+    if (item.reason) console.log(colors.dim(`    ${item.reason}`));
+  }
+}
+
+function printPullReport(report: MirrorPullReport): void {
+  for (const item of report.resources) {
+    const deleted = item.deleted > 0 ? colors.dim(`, ${item.deleted} removed`) : '';
+    console.log(
+      `  ${item.resource}: ${item.fetched} ${item.mode === 'full' ? 'fetched' : 'updated'}${deleted}`,
+    );
+  }
+}
+
+/**
+ * Bring the resources pulled before up to date, once the journal is applied
+ * so that the mirror reflects the changes just synced.
+ */
+async function refreshMirror(ctx: CommandContext): Promise<MirrorPullReport | undefined> {
+  if (ctx.options['no-pull'] === true) return undefined;
+
+  const mirror = getMirror(ctx);
+  const resources = await getMirroredResources(mirror);
+  if (resources.length === 0) return undefined;
+
+  return pullMirror(ctx.api, mirror, { resources });
+}
+
+export async function syncRun(ctx: CommandContext): Promise<void> {
+  const spinner = ctx.createSpinner('Syncing offline changes...');
+  spinner.start();
+
+  await runCommand(async () => {
+    const report = await replayJournal(ctx, { force: ctx.options.force === true });
+    const mirror = report.remaining === 0 ? await refreshMirror(ctx) : undefined;
+
+    spinner.succeed();
+
+    const format = (ctx.options.format || ctx.options.f || 'human') as OutputFormat;
+    if (format === 'json') {
+      ctx.formatter.output(mirror ? { ...report, mirror } : report);
+      return;
+    }
+
+    if (mirror) {
+      ctx.formatter.info('Local mirror refreshed');
+      printPullReport(mirror);
+    }
+
+    const { applied, conflicts, failed, remaining } = report;
+    if (applied.length + conflicts.length + failed.length + remaining === 0) {
+      if (!mirror) ctx.formatter.info('Nothing to sync');
+      return;
+    }
+
+    printItems(applied, colors.green('✓'));
+    printItems(conflicts, colors.yellow('⚠'));
+    printItems(failed, colors.red('✗'));
+
+    console.log();
+    ctx.formatter.success(`${applied.length} change(s) applied`);
+    if (conflicts.length > 0) {
+      ctx.formatter.warning(
+        `${conflicts.length} conflict(s) kept in the journal. Use --force to apply them anyway or "productive sync discard <id>" to drop them`,
+      );
+    }
+    if (failed.length > 0) {
+      ctx.formatter.warning(`${failed.length} change(s) rejected by the API, kept in the journal`);
+    }
+    if (remaining > 0) {
+      ctx.formatter.warning(`Connection lost: ${remaining} change(s) still pending`);
+    }
+  }, ctx.formatter);
+}
+
+export async function syncPull(args: string[], ctx: CommandContext): Promise<void> {
+  await runCommand(async () => {
+    const invalid = args.find((arg) => !isMirrorResource(arg));
+    if (invalid !== undefined) {
+      throw ValidationError.invalid('resource', invalid, 'not a mirrored resource', [
+        `Mirrored resources: ${MIRROR_RESOURCES.join(', ')}`,
+      ]);
+    }
+
+    const spinner = ctx.createSpinner('Pulling records...');
+    spinner.start();
+
+    const report = await pullMirror(ctx.api, getMirror(ctx), {
+      resources: args.length > 0 ? args.filter(isMirrorResource) : undefined,
+      prune: ctx.options.prune === true,
+      onProgress: (resource, fetched) => spinner.setText(`Pulling ${resource}... (${fetched})`),
+    });
+
+    spinner.succeed('Local mirror up to date');
+
+    const format = (ctx.options.format || ctx.options.f || 'human') as OutputFormat;
+    if (format === 'json') {
+      ctx.formatter.output(report);
+      return;
+    }
+
+    printPullReport(report);
+  }, ctx.formatter);
+}
+
+export async function syncStatus(ctx: CommandContext): Promise<void> {
+  await runCommand(async () => {
+    const entries = await getJournalEntries(ctx);
+    const format = (ctx.options.format || ctx.options.f || 'human') as OutputFormat;
+
+    const rows = entries.map((entry) => ({
+      id: entry.id,
+      kind: entry.kind,
+      status: entry.status,
+      queued_at: new Date(entry.queuedAt).toISOString(),
+      description: describeMutation(entry),
+      reason: entry.error ?? '',
+    }));
+
+    if (format !== 'human') {
+      ctx.formatter.output(format === 'json' ? { data: rows } : rows);
+      return;
+    }
+
+    if (rows.length === 0) {
+      ctx.formatter.info('Journal is empty: nothing to sync');
+      return;
+    }
+
+    for (const row of rows) {
+      const status =
+        row.status === 'pending'
+          ? colors.dim('[PENDING]')
+          : row.status === 'conflict'
+            ? colors.yellow('[CONFLICT]')
+            : colors.red('[FAILED]');
+      console.log(`${status} #${row.id} ${row.description} ${colors.dim(`(${row.queued_at})`)}`);
+      if (row.reason) console.log(colors.dim(`    ${row.reason}`));
+    }
+  }, ctx.formatter);
+}
+
+export async function syncDiscard(args: string[], ctx: CommandContext): Promise<void> {
+  const all = ctx.options.all === true;
+  if (args.length === 0 && !all) {
+    exitWithValidationError('id', 'productive sync discard <id...> | --all', ctx.formatter);
+  }
+
+  await runCommand(async () => {
+    const ids = args.map((arg) => Number.parseInt(arg, 10));
+    const invalid = args.find((_, index) => !Number.isInteger(ids[index]));
+    if (invalid !== undefined) {
+      throw ValidationError.invalid('id', invalid, 'journal IDs are numbers', [
+        'Use "productive sync status" to list journaled changes',
+      ]);
+    }
+
+    const removed = await discardJournalEntries(ctx, all ? 'all' : ids);
+
+    const format = ctx.options.format || ctx.options.f || 'human';
+    if (format === 'json') {
+      ctx.formatter.output({ status: 'success', discarded: removed });
+    } else {
+      ctx.formatter.success(`${removed} change(s) discarded`);
+    }
+  }, ctx.formatter);
+}
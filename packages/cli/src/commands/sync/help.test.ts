@@ -0,0 +1,28 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+
+import { showSyncHelp } from './help.js';
+
+describe('showSyncHelp', () => {
+  const spy = vi.spyOn(console, 'log').mockImplementation(() => {});
+  afterEach(() => spy.mockClear());
+
+  it('shows general help with no argument', () => {
+    showSyncHelp();
+    const output = spy.mock.calls[0][0];
+    expect(output).toContain('productive sync');
+    expect(output).toContain('--offline');
+    expect(output).toContain('discard <id...>');
+  });
+
+  it.each([
+    ['run', 'productive sync run', '--force'],
+    ['status', 'productive sync status', '--format'],
+    ['discard', 'productive sync discard', '--all'],
+    ['pull', 'productive sync pull', '--prune'],
+  ])('shows %s help', (subcommand, title, option) => {
+    showSyncHelp(subcommand);
+    const output = spy.mock.calls[0][0];
+    expect(output).toContain(title);
+    expect(output).toContain(option);
+  });
+});
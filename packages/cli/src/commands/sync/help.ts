@@ -0,0 +1,127 @@
+/**
+ * Help text for sync command
+ */
+
+import { colors } from '../../utils/colors.js';
+
+export function showSyncHelp(subcommand?: string): void {
+  if (subcommand === 'run') {
+    console.log(`
+${colors.bold('productive sync run')} - Apply changes recorded offline
+
+${colors.bold('USAGE:')}
+  productive sync [run] [options]
+
+${colors.bold('DESCRIPTION:')}
+  Replays the offline journal in the order changes were recorded. Before
+  applying a change, sync checks the server for conflicts:
+    - time entries: an identical entry already exists for that day
+    - task updates: the task was modified after the change was queued
+    - timer stops: the timer was already stopped
+  Conflicting and rejected changes stay in the journal with their reason.
+  Timers started offline are logged as time entries for the time tracked.
+
+  Once the journal is empty, resources already mirrored with
+  ${colors.cyan('productive sync pull')} are brought up to date.
+
+${colors.bold('OPTIONS:')}
+  --force             Apply changes even when they conflict
+  --no-pull           Do not refresh the local mirror
+  -f, --format <fmt>  Output format: json, human
+
+${colors.bold('EXAMPLES:')}
+  productive sync
+  productive sync --force
+`);
+  } else if (subcommand === 'pull') {
+    console.log(`
+${colors.bold('productive sync pull')} - Mirror records locally for offline reads
+
+${colors.bold('USAGE:')}
+  productive sync pull [resources...] [options]
+
+${colors.bold('DESCRIPTION:')}
+  Copies records into the local database so that ${colors.cyan('tasks list')}, ${colors.cyan('time list')}
+  and ${colors.cyan('reports time/person')} can answer with ${colors.cyan('--offline')}. The first pull of a
+  resource fetches everything; later pulls only fetch records updated since,
+  and drop the ones the activity feed reports as deleted.
+
+  Resources: projects, people, services, deals, tasks, time_entries,
+  bookings, comments (default: all)
+
+${colors.bold('OPTIONS:')}
+  --prune             Fetch everything again and drop records the API no
+                      longer returns
+  -f, --format <fmt>  Output format: json, human
+
+${colors.bold('EXAMPLES:')}
+  productive sync pull
+  productive sync pull tasks time_entries
+  productive sync pull --prune
+  productive tasks list --assignee me --offline
+`);
+  } else if (subcommand === 'status') {
+    console.log(`
+${colors.bold('productive sync status')} - List changes waiting to be synced
+
+${colors.bold('USAGE:')}
+  productive sync status [options]
+
+${colors.bold('OPTIONS:')}
+  -f, --format <fmt>  Output format: json, human, csv, table
+
+${colors.bold('EXAMPLES:')}
+  productive sync status
+  productive sync status --format json
+`);
+  } else if (subcommand === 'discard') {
+    console.log(`
+${colors.bold('productive sync discard')} - Drop changes from the offline journal
+
+${colors.bold('USAGE:')}
+  productive sync discard <id...> [options]
+
+${colors.bold('OPTIONS:')}
+  --all               Discard every journaled change
+  -f, --format <fmt>  Output format: json, human
+
+${colors.bold('EXAMPLES:')}
+  productive sync discard 3
+  productive sync discard 3 4 7
+  productive sync discard --all
+`);
+  } else {
+    console.log(`
+${colors.bold('productive sync')} - Replay offline changes and mirror records locally
+
+${colors.bold('USAGE:')}
+  productive sync [subcommand] [options]
+
+${colors.bold('DESCRIPTION:')}
+  ${colors.cyan('time add')}, ${colors.cyan('tasks update')}, ${colors.cyan('comments add')} and ${colors.cyan('timers start/stop')} are recorded in a local
+  journal when the API cannot be reached, or always with ${colors.cyan('--offline')}.
+  Run ${colors.cyan('productive sync')} once back online to apply them.
+
+  ${colors.cyan('productive sync pull')} keeps a local copy of your records, which list
+  commands and time reports read with ${colors.cyan('--offline')}.
+
+${colors.bold('SUBCOMMANDS:')}
+  run                 Apply journaled changes (default)
+  pull [resources...] Mirror records for --offline reads
+  status              List journaled changes
+  discard <id...>     Drop journaled changes
+
+${colors.bold('COMMON OPTIONS:')}
+  -f, --format <fmt>  Output format: json, human
+  -h, --help          Show help for a subcommand
+
+${colors.bold('EXAMPLES:')}
+  productive time add --service 123 --time 90 --offline
+  productive sync status
+  productive sync
+  productive sync pull tasks time_entries
+
+Run ${colors.cyan('productive sync <subcommand> --help')} for subcommand details.
+`);
+  }
+}
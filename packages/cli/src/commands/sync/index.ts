@@ -0,0 +1,2 @@
+export { handleSyncCommand } from './command.js';
+export { showSyncHelp } from './help.js';
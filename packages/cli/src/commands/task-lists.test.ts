@@ -0,0 +1,241 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+import type { ProductiveApi } from '../api.js';
+
+import { createTestContext } from '../context.js';
+import {
+  taskListsList,
+  taskListsGet,
+  taskListsAdd,
+  taskListsUpdate,
+  taskListsArchive,
+  taskListsRestore,
+} from './task-lists/handlers.js';
+import { handleTaskListsCommand } from './task-lists/index.js';
+
+const mockTaskList = {
+  id: '1',
+  type: 'task_lists',
+  attributes: {
+    name: 'Sprint 12',
+    position: 2,
+    archived_at: null,
+    created_at: '2024-01-15T00:00:00Z',
+  },
+  relationships: {
+    project: { data: { type: 'projects', id: '5' } },
+    board: { data: { type: 'boards', id: '6' } },
+  },
+};
+
+describe('task-lists command', () => {
+  let consoleLogSpy: ReturnType<typeof vi.spyOn>;
+
+  beforeEach(() => {
+    consoleLogSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe('taskListsList', () => {
+    it('should list active task lists', async () => {
+      const getTaskLists = vi.fn().mockResolvedValue({
+        data: [mockTaskList],
+        meta: { total: 1, page: 1, per_page: 100 },
+        included: [{ id: '6', type: 'boards', attributes: { name: 'Development' } }],
+      });
+
+      const ctx = createTestContext({
+        api: { getTaskLists } as unknown as ProductiveApi,
+      });
+
+      await taskListsList(ctx);
+
+      expect(getTaskLists).toHaveBeenCalledWith({
+        page: 1,
+        perPage: 100,
+        filter: { status: '1' },
+        sort: '',
+        include: ['project', 'board'],
+      });
+      expect(consoleLogSpy).toHaveBeenCalled();
+    });
+
+    it('should map list options to filters', async () => {
+      const getTaskLists = vi.fn().mockResolvedValue({ data: [], meta: {}, included: [] });
+
+      const ctx = createTestContext({
+        api: { getTaskLists } as unknown as ProductiveApi,
+        options: { board: '6', status: 'archived', format: 'json' },
+      });
+
+      await taskListsList(ctx);
+
+      expect(getTaskLists).toHaveBeenCalledWith(
+        expect.objectContaining({ filter: { board_id: '6', status: '2' } }),
+      );
+    });
+
+    it('should list task lists in csv format', async () => {
+      const getTaskLists = vi.fn().mockResolvedValue({ data: [mockTaskList], meta: {} });
+      const ctx = createTestContext({
+        api: { getTaskLists } as unknown as ProductiveApi,
+        options: { format: 'csv' },
+      });
+      await taskListsList(ctx);
+      expect(consoleLogSpy).toHaveBeenCalled();
+    });
+  });
+
+  describe('taskListsGet', () => {
+    it('should get a task list by id', async () => {
+      const getTaskList = vi.fn().mockResolvedValue({ data: mockTaskList, included: [] });
+
+      const ctx = createTestContext({
+        api: { getTaskList } as unknown as ProductiveApi,
+        options: { format: 'json' },
+      });
+
+      await taskListsGet(['1'], ctx);
+
+      expect(getTaskList).toHaveBeenCalledWith('1', { include: ['project', 'board'] });
+      expect(consoleLogSpy).toHaveBeenCalled();
+    });
+
+    it('should exit with error when id is missing', async () => {
+      const processExitSpy = vi.spyOn(process, 'exit').mockImplementation(() => undefined as never);
+      const ctx = createTestContext();
+
+      try {
+        await taskListsGet([], ctx);
+      } catch {
+        // exitWithValidationError throws
+      }
+
+      expect(processExitSpy).toHaveBeenCalledWith(3);
+    });
+  });
+
+  describe('taskListsAdd', () => {
+    it('should create a task list in the given board', async () => {
+      const createTaskList = vi.fn().mockResolvedValue({ data: mockTaskList });
+
+      const ctx = createTestContext({
+        api: { createTaskList } as unknown as ProductiveApi,
+        options: { name: 'Sprint 12', project: '5', board: '6', position: '2', format: 'json' },
+      });
+
+      await taskListsAdd(ctx);
+
+      expect(createTaskList).toHaveBeenCalledWith({
+        name: 'Sprint 12',
+        project_id: '5',
+        board_id: '6',
+        position: 2,
+      });
+      expect(consoleLogSpy).toHaveBeenCalled();
+    });
+
+    it('should exit with error when project is missing', async () => {
+      const processExitSpy = vi.spyOn(process, 'exit').mockImplementation(() => undefined as never);
+
+      const ctx = createTestContext({ options: { name: 'Sprint 12', format: 'json' } });
+
+      await taskListsAdd(ctx);
+
+      expect(processExitSpy).toHaveBeenCalledWith(3);
+    });
+
+    it('should exit with error when position is invalid', async () => {
+      const processExitSpy = vi.spyOn(process, 'exit').mockImplementation(() => undefined as never);
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+      const createTaskList = vi.fn();
+
+      const ctx = createTestContext({
+        api: { createTaskList } as unknown as ProductiveApi,
+        options: { name: 'Sprint 12', project: '5', board: '6', position: 'first' },
+      });
+
+      await taskListsAdd(ctx);
+
+      expect(createTaskList).not.toHaveBeenCalled();
+      expect(processExitSpy).toHaveBeenCalled();
+    });
+  });
+
+  describe('taskListsUpdate', () => {
+    it('should reorder a task list', async () => {
+      const updateTaskList = vi.fn().mockResolvedValue({ data: mockTaskList });
+
+      const ctx = createTestContext({
+        api: { updateTaskList } as unknown as ProductiveApi,
+        options: { position: '1', format: 'json' },
+      });
+
+      await taskListsUpdate(['1'], ctx);
+
+      expect(updateTaskList).toHaveBeenCalledWith('1', { position: 1 });
+    });
+
+    it('should exit with error when no updates specified', async () => {
+      const processExitSpy = vi.spyOn(process, 'exit').mockImplementation(() => undefined as never);
+
+      const ctx = createTestContext({ options: { format: 'json' } });
+
+      await taskListsUpdate(['1'], ctx);
+
+      expect(processExitSpy).toHaveBeenCalled();
+    });
+  });
+
+  describe('taskListsArchive / taskListsRestore', () => {
+    it('should archive a task list', async () => {
+      const archiveTaskList = vi.fn().mockResolvedValue({
+        data: {
+          ...mockTaskList,
+          attributes: { ...mockTaskList.attributes, archived_at: '2024-02-01T00:00:00Z' },
+        },
+      });
+
+      const ctx = createTestContext({
+        api: { archiveTaskList } as unknown as ProductiveApi,
+        options: { format: 'human' },
+      });
+
+      await taskListsArchive(['1'], ctx);
+
+      expect(archiveTaskList).toHaveBeenCalledWith('1');
+      expect(consoleLogSpy).toHaveBeenCalled();
+    });
+
+    it('should restore a task list', async () => {
+      const restoreTaskList = vi.fn().mockResolvedValue({ data: mockTaskList });
+
+      const ctx = createTestContext({
+        api: { restoreTaskList } as unknown as ProductiveApi,
+        options: { format: 'json' },
+      });
+
+      await taskListsRestore(['1'], ctx);
+
+      expect(restoreTaskList).toHaveBeenCalledWith('1');
+    });
+  });
+
+  describe('command routing', () => {
+    it('should exit with error for unknown subcommand', async () => {
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+      const processExitSpy = vi.spyOn(process, 'exit').mockImplementation(() => undefined as never);
+
+      await handleTaskListsCommand('unknown', [], {
+        format: 'json',
+        token: 'test-token',
+        'org-id': 'test-org',
+      });
+
+      expect(processExitSpy).toHaveBeenCalledWith(1);
+    });
+  });
+});
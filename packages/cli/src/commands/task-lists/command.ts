@@ -0,0 +1,30 @@
+/**
+ * Task lists command entry point
+ */
+
+import { createCommandRouter } from '../../utils/command-router.js';
+import {
+  taskListsList,
+  taskListsGet,
+  taskListsAdd,
+  taskListsUpdate,
+  taskListsArchive,
+  taskListsRestore,
+} from './handlers.js';
+
+/**
+ * Handle task-lists command
+ */
+export const handleTaskListsCommand = createCommandRouter({
+  resource: 'task-lists',
+  handlers: {
+    list: taskListsList,
+    ls: taskListsList,
+    get: [taskListsGet, 'args'],
+    add: taskListsAdd,
+    create: taskListsAdd,
+    update: [taskListsUpdate, 'args'],
+    archive: [taskListsArchive, 'args'],
+    restore: [taskListsRestore, 'args'],
+  },
+});
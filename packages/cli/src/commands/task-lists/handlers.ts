@@ -0,0 +1,247 @@
+/**
+ * CLI adapter for task-lists command handlers.
+ */
+
+import { formatTaskList, formatListResponse } from '@studiometa/productive-api';
+import {
+  fromCommandContext,
+  listTaskLists,
+  getTaskList,
+  createTaskList,
+  updateTaskList,
+  archiveTaskList,
+  restoreTaskList,
+  ExecutorValidationError,
+  type ListTaskListsOptions,
+} from '@studiometa/productive-core';
+
+import type { CommandContext } from '../../context.js';
+import type { OutputFormat } from '../../types.js';
+
+import { handleError, exitWithValidationError, runCommand } from '../../error-handler.js';
+import { ValidationError } from '../../errors.js';
+import { render, createRenderContext, humanTaskListDetailRenderer } from '../../renderers/index.js';
+import { colors } from '../../utils/colors.js';
+import { parseFilters } from '../../utils/parse-filters.js';
+
+function parseListOptions(ctx: CommandContext): ListTaskListsOptions {
+  const options: ListTaskListsOptions = {};
+
+  const additionalFilters: Record<string, string> = {};
+  if (ctx.options.filter)
+    Object.assign(additionalFilters, parseFilters(String(ctx.options.filter)));
+  if (Object.keys(additionalFilters).length > 0) options.additionalFilters = additionalFilters;
+
+  if (ctx.options.project) options.projectId = String(ctx.options.project);
+  if (ctx.options.board) options.boardId = String(ctx.options.board);
+  if (ctx.options.status) options.status = String(ctx.options.status);
+
+  const { page, perPage } = ctx.getPagination();
+  options.page = page;
+  options.perPage = perPage;
+  options.sort = ctx.getSort();
+
+  return options;
+}
+
+/**
+ * Parse the --position option (1-based order within the board)
+ */
+function parsePosition(value: unknown): number {
+  const position = Number.parseInt(String(value), 10);
+  if (!Number.isInteger(position) || position < 1) {
+    throw ValidationError.invalid('position', value, 'must be a positive integer');
+  }
+  return position;
+}
+
+export async function taskListsList(ctx: CommandContext): Promise<void> {
+  const spinner = ctx.createSpinner('Fetching task lists...');
+  spinner.start();
+
+  await runCommand(async () => {
+    const execCtx = fromCommandContext(ctx);
+    const result = await listTaskLists(parseListOptions(ctx), execCtx);
+
+    spinner.succeed();
+
+    const format = (ctx.options.format || ctx.options.f || 'human') as OutputFormat;
+    const formattedData = formatListResponse(result.data, formatTaskList, result.meta, {
+      included: result.included,
+    });
+
+    if (format === 'csv' || format === 'table') {
+      const data = formattedData.data.map((l) => ({
+        id: l.id,
+        name: l.name,
+        position: l.position ?? '',
+        project: l.project_name || '',
+        board: l.board_name || '',
+        archived: l.archived ? 'yes' : 'no',
+      }));
+      ctx.formatter.output(data);
+    } else {
+      const renderCtx = createRenderContext({ noColor: ctx.options['no-color'] === true });
+      render('task_list', format, formattedData, renderCtx);
+    }
+  }, ctx.formatter);
+}
+
+export async function taskListsGet(args: string[], ctx: CommandContext): Promise<void> {
+  const [id] = args;
+  if (!id) exitWithValidationError('id', 'productive task-lists get <id>', ctx.formatter);
+
+  const spinner = ctx.createSpinner('Fetching task list...');
+  spinner.start();
+
+  await runCommand(async () => {
+    const execCtx = fromCommandContext(ctx);
+    const result = await getTaskList({ id }, execCtx);
+
+    spinner.succeed();
+
+    const format = (ctx.options.format || ctx.options.f || 'human') as OutputFormat;
+    const formattedData = formatTaskList(result.data, { included: result.included });
+
+    if (format === 'json') {
+      ctx.formatter.output(formattedData);
+    } else {
+      const renderCtx = createRenderContext({ noColor: ctx.options['no-color'] === true });
+      humanTaskListDetailRenderer.render(formattedData, renderCtx);
+    }
+  }, ctx.formatter);
+}
+
+export async function taskListsAdd(ctx: CommandContext): Promise<void> {
+  const spinner = ctx.createSpinner('Creating task list...');
+  spinner.start();
+
+  if (!ctx.options.name) {
+    spinner.fail();
+    handleError(ValidationError.required('name'), ctx.formatter);
+    return;
+  }
+
+  if (!ctx.options.project) {
+    spinner.fail();
+    handleError(ValidationError.required('project'), ctx.formatter);
+    return;
+  }
+
+  await runCommand(async () => {
+    const execCtx = fromCommandContext(ctx);
+    const result = await createTaskList(
+      {
+        name: String(ctx.options.name),
+        projectId: String(ctx.options.project),
+        boardId: ctx.options.board ? String(ctx.options.board) : undefined,
+        position:
+          ctx.options.position !== undefined ? parsePosition(ctx.options.position) : undefined,
+      },
+      execCtx,
+    );
+
+    spinner.succeed();
+
+    const taskList = result.data;
+    const format = ctx.options.format || ctx.options.f || 'human';
+
+    if (format === 'json') {
+      ctx.formatter.output({ success: true, ...formatTaskList(taskList) });
+    } else {
+      ctx.formatter.success('Task list created');
+      console.log(colors.cyan('ID:'), taskList.id);
+      console.log(colors.cyan('Name:'), taskList.attributes.name);
+    }
+  }, ctx.formatter);
+}
+
+export async function taskListsUpdate(args: string[], ctx: CommandContext): Promise<void> {
+  const [id] = args;
+  if (!id) {
+    exitWithValidationError('id', 'productive task-lists update <id> [options]', ctx.formatter);
+  }
+
+  const spinner = ctx.createSpinner('Updating task list...');
+  spinner.start();
+
+  await runCommand(async () => {
+    const execCtx = fromCommandContext(ctx);
+
+    try {
+      const result = await updateTaskList(
+        {
+          id,
+          name: ctx.options.name !== undefined ? String(ctx.options.name) : undefined,
+          position:
+            ctx.options.position !== undefined ? parsePosition(ctx.options.position) : undefined,
+          boardId: ctx.options.board !== undefined ? String(ctx.options.board) : undefined,
+        },
+        execCtx,
+      );
+
+      spinner.succeed();
+
+      const format = ctx.options.format || ctx.options.f || 'human';
+      if (format === 'json') {
+        ctx.formatter.output({ status: 'success', id: result.data.id });
+      } else {
+        ctx.formatter.success(`Task list ${id} updated`);
+      }
+    } catch (error) {
+      if (error instanceof ExecutorValidationError) {
+        spinner.fail();
+        throw ValidationError.invalid(
+          'options',
+          {},
+          'No updates specified. Use --name, --position or --board.',
+        );
+      }
+      throw error;
+    }
+  }, ctx.formatter);
+}
+
+export async function taskListsArchive(args: string[], ctx: CommandContext): Promise<void> {
+  const [id] = args;
+  if (!id) exitWithValidationError('id', 'productive task-lists archive <id>', ctx.formatter);
+
+  const spinner = ctx.createSpinner('Archiving task list...');
+  spinner.start();
+
+  await runCommand(async () => {
+    const execCtx = fromCommandContext(ctx);
+    const result = await archiveTaskList({ id }, execCtx);
+
+    spinner.succeed();
+
+    const format = ctx.options.format || ctx.options.f || 'human';
+    if (format === 'json') {
+      ctx.formatter.output({ success: true, ...formatTaskList(result.data) });
+    } else {
+      ctx.formatter.success(`Task list ${id} archived`);
+    }
+  }, ctx.formatter);
+}
+
+export async function taskListsRestore(args: string[], ctx: CommandContext): Promise<void> {
+  const [id] = args;
+  if (!id) exitWithValidationError('id', 'productive task-lists restore <id>', ctx.formatter);
+
+  const spinner = ctx.createSpinner('Restoring task list...');
+  spinner.start();
+
+  await runCommand(async () => {
+    const execCtx = fromCommandContext(ctx);
+    const result = await restoreTaskList({ id }, execCtx);
+
+    spinner.succeed();
+
+    const format = ctx.options.format || ctx.options.f || 'human';
+    if (format === 'json') {
+      ctx.formatter.output({ success: true, ...formatTaskList(result.data) });
+    } else {
+      ctx.formatter.success(`Task list ${id} restored`);
+    }
+  }, ctx.formatter);
+}
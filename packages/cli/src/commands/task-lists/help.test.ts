@@ -0,0 +1,33 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+
+import { showTaskListsHelp } from './help.js';
+
+describe('showTaskListsHelp', () => {
+  const spy = vi.spyOn(console, 'log').mockImplementation(() => {});
+  afterEach(() => spy.mockClear());
+
+  it('shows general help with no argument', () => {
+    showTaskListsHelp();
+    const output = spy.mock.calls[0][0];
+    expect(output).toContain('productive task-lists');
+    expect(output).toContain('list, ls');
+    expect(output).toContain('archive <id>');
+    expect(output).toContain('restore <id>');
+  });
+
+  it.each([
+    ['list', 'productive task-lists list', '--board'],
+    ['ls', 'productive task-lists list', '--status'],
+    ['get', 'productive task-lists get', '<id>'],
+    ['add', 'productive task-lists add', '--project'],
+    ['create', 'productive task-lists add', '--position'],
+    ['update', 'productive task-lists update', '--board'],
+    ['archive', 'productive task-lists archive', '<id>'],
+    ['restore', 'productive task-lists restore', '<id>'],
+  ])('shows %s help', (subcommand, title, option) => {
+    showTaskListsHelp(subcommand);
+    const output = spy.mock.calls[0][0];
+    expect(output).toContain(title);
+    expect(output).toContain(option);
+  });
+});
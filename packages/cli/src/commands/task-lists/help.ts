@@ -0,0 +1,144 @@
+/**
+ * Help text for task-lists command
+ */
+
+import { colors } from '../../utils/colors.js';
+
+export function showTaskListsHelp(subcommand?: string): void {
+  if (subcommand === 'list' || subcommand === 'ls') {
+    console.log(`
+${colors.bold('productive task-lists list')} - List task lists
+
+${colors.bold('USAGE:')}
+  productive task-lists list [options]
+
+${colors.bold('OPTIONS:')}
+  --project <id>        Filter by project ID or number
+  --board <id>          Filter by board ID
+  --status <status>     Filter by status: active, archived (default: active)
+  --filter <filters>    Generic filters (comma-separated key=value pairs)
+  -p, --page <num>      Page number (default: 1)
+  -s, --size <num>      Page size (default: 100)
+  --sort <field>        Sort by field (prefix with - for descending)
+  -f, --format <fmt>    Output format: json, human, csv, table
+
+${colors.bold('EXAMPLES:')}
+  productive task-lists list --project PRJ-123
+  productive task-lists list --board 456 --status archived
+`);
+  } else if (subcommand === 'get') {
+    console.log(`
+${colors.bold('productive task-lists get')} - Get task list details
+
+${colors.bold('USAGE:')}
+  productive task-lists get <id>
+
+${colors.bold('ARGUMENTS:')}
+  <id>                Task list ID (required)
+
+${colors.bold('OPTIONS:')}
+  -f, --format <fmt>  Output format: json, human
+
+${colors.bold('EXAMPLES:')}
+  productive task-lists get 12345
+`);
+  } else if (subcommand === 'add' || subcommand === 'create') {
+    console.log(`
+${colors.bold('productive task-lists add')} - Create a task list
+
+${colors.bold('USAGE:')}
+  productive task-lists add --name <text> --project <id> [options]
+
+${colors.bold('OPTIONS:')}
+  --name <text>         Task list name (required)
+  --project <id>        Project ID or number (required)
+  --board <id>          Board to create the list in (default: first active board)
+  --position <num>      Position within the board
+  -f, --format <fmt>    Output format: json, human
+
+${colors.bold('EXAMPLES:')}
+  productive task-lists add --name "Sprint 12" --project PRJ-123
+  productive task-lists add --name "Backlog" --project 123 --board 456 --position 1
+`);
+  } else if (subcommand === 'update') {
+    console.log(`
+${colors.bold('productive task-lists update')} - Rename, reorder or move a task list
+
+${colors.bold('USAGE:')}
+  productive task-lists update <id> [options]
+
+${colors.bold('ARGUMENTS:')}
+  <id>                  Task list ID (required)
+
+${colors.bold('OPTIONS:')}
+  --name <text>         New name
+  --position <num>      New position within the board
+  --board <id>          Move the list to another board
+  -f, --format <fmt>    Output format: json, human
+
+${colors.bold('EXAMPLES:')}
+  productive task-lists update 12345 --name "Sprint 13"
+  productive task-lists update 12345 --position 2
+`);
+  } else if (subcommand === 'archive') {
+    console.log(`
+${colors.bold('productive task-lists archive')} - Archive a task list
+
+${colors.bold('USAGE:')}
+  productive task-lists archive <id>
+
+${colors.bold('ARGUMENTS:')}
+  <id>                Task list ID (required)
+
+${colors.bold('OPTIONS:')}
+  -f, --format <fmt>  Output format: json, human
+
+${colors.bold('EXAMPLES:')}
+  productive task-lists archive 12345
+`);
+  } else if (subcommand === 'restore') {
+    console.log(`
+${colors.bold('productive task-lists restore')} - Restore an archived task list
+
+${colors.bold('USAGE:')}
+  productive task-lists restore <id>
+
+${colors.bold('ARGUMENTS:')}
+  <id>                Task list ID (required)
+
+${colors.bold('OPTIONS:')}
+  -f, --format <fmt>  Output format: json, human
+
+${colors.bold('EXAMPLES:')}
+  productive task-lists restore 12345
+`);
+  } else {
+    console.log(`
+${colors.bold('productive task-lists')} - Manage task lists
+
+${colors.bold('USAGE:')}
+  productive task-lists <subcommand> [options]
+
+${colors.bold('SUBCOMMANDS:')}
+  list, ls            List task lists
+  get <id>            Get task list details
+  add, create         Create a task list
+  update <id>         Rename, reorder or move a task list
+  archive <id>        Archive a task list
+  restore <id>        Restore an archived task list
+
+${colors.bold('COMMON OPTIONS:')}
+  -f, --format <fmt>  Output format: json, human, csv, table
+  -p, --page <num>    Page number for pagination
+  -s, --size <num>    Page size (default: 100)
+  -h, --help          Show help for a subcommand
+
+${colors.bold('EXAMPLES:')}
+  productive task-lists list --project PRJ-123
+  productive task-lists add --name "Sprint 12" --project PRJ-123
+  productive task-lists archive 12345
+
+Run ${colors.cyan('productive task-lists <subcommand> --help')} for subcommand details.
+`);
+  }
+}
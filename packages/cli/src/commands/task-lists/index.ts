@@ -0,0 +1,2 @@
+export { handleTaskListsCommand } from './command.js';
+export { showTaskListsHelp } from './help.js';
@@ -12,6 +12,7 @@ import {
   tasksGet,
   tasksAdd,
   tasksUpdate,
+  tasksBulkUpdate,
   getIncludedResource,
 } from './tasks/handlers.js';
 import { showTasksHelp } from './tasks/help.js';
@@ -198,6 +199,16 @@ describe('showTasksHelp', () => {
   });
 });
 
+function mockBulkTasks() {
+  return vi.fn().mockResolvedValue({
+    data: [
+      { id: '1', type: 'tasks', attributes: { title: 'Fix login', number: '12' } },
+      { id: '2', type: 'tasks', attributes: { title: 'Add logout', number: '13' } },
+    ],
+    meta: { total_pages: 1 },
+  });
+}
+
 describe('tasks command', () => {
   let consoleLogSpy: ReturnType<typeof vi.spyOn>;
 
@@ -302,6 +313,66 @@ describe('tasks command', () => {
       });
     });
 
+    it('should load project workflow statuses for the kanban view', async () => {
+      const getTasks = vi.fn().mockResolvedValue({ data: [], meta: { total: 0 } });
+      const getProject = vi.fn().mockResolvedValue({
+        data: {
+          id: '123',
+          type: 'projects',
+          attributes: { name: 'Website' },
+          relationships: { workflow: { data: { type: 'workflows', id: '9' } } },
+        },
+      });
+      const getWorkflowStatuses = vi.fn().mockResolvedValue({
+        data: [
+          {
+            id: '11',
+            type: 'workflow_statuses',
+            attributes: { name: 'Backlog', position: 1, category_id: 1 },
+          },
+          {
+            id: '12',
+            type: 'workflow_statuses',
+            attributes: { name: 'Review', position: 2, category_id: 2 },
+          },
+        ],
+        meta: {},
+      });
+
+      const ctx = createTestContext({
+        api: { getTasks, getProject, getWorkflowStatuses } as unknown as ProductiveApi,
+        options: { project: '123', format: 'kanban' },
+      });
+
+      await tasksList(ctx);
+
+      expect(getProject).toHaveBeenCalledWith('123', { include: ['workflow'] });
+      expect(getWorkflowStatuses).toHaveBeenCalledWith(
+        expect.objectContaining({ filter: { workflow_id: '9' }, sort: 'position' }),
+      );
+      const output = consoleLogSpy.mock.calls.map((call) => String(call[0])).join('\n');
+      expect(output).toContain('Backlog');
+      expect(output).toContain('Review');
+    });
+
+    it('should fall back to task statuses when the project has no workflow', async () => {
+      const getTasks = vi.fn().mockResolvedValue({ data: [], meta: { total: 0 } });
+      const getProject = vi.fn().mockResolvedValue({
+        data: { id: '123', type: 'projects', attributes: { name: 'Website' } },
+      });
+      const getWorkflowStatuses = vi.fn();
+
+      const ctx = createTestContext({
+        api: { getTasks, getProject, getWorkflowStatuses } as unknown as ProductiveApi,
+        options: { project: '123', format: 'kanban' },
+      });
+
+      await tasksList(ctx);
+
+      expect(getWorkflowStatuses).not.toHaveBeenCalled();
+      expect(consoleLogSpy).toHaveBeenCalled();
+    });
+
     it('should filter tasks with extended filters', async () => {
       const getTasks = vi.fn().mockResolvedValue({ data: [], meta: { total: 0 } });
 
@@ -696,6 +767,78 @@ describe('tasks command', () => {
     });
   });
 
+  describe('tasksBulkUpdate', () => {
+    it('should update every matching task with --yes', async () => {
+      const updateTask = vi.fn().mockResolvedValue({ data: { id: '1', type: 'tasks' } });
+      const ctx = createTestContext({
+        api: { getTasks: mockBulkTasks(), updateTask } as unknown as ProductiveApi,
+        options: { project: '10', set: ['assignee=me'], yes: true, format: 'json' },
+      });
+
+      await tasksBulkUpdate(ctx);
+
+      expect(updateTask).toHaveBeenCalledTimes(2);
+      expect(updateTask).toHaveBeenCalledWith('1', { assignee_id: '500521' });
+      const output = JSON.parse(consoleLogSpy.mock.calls.at(-1)[0]);
+      expect(output).toMatchObject({ action: 'bulk_update', total: 2, succeeded: 2, failed: 0 });
+    });
+
+    it('should only list the tasks with --dry-run', async () => {
+      const updateTask = vi.fn();
+      const ctx = createTestContext({
+        api: { getTasks: mockBulkTasks(), updateTask } as unknown as ProductiveApi,
+        options: { project: '10', set: 'closed=true', 'dry-run': true, format: 'human' },
+      });
+
+      await tasksBulkUpdate(ctx);
+
+      expect(updateTask).not.toHaveBeenCalled();
+      const lines = consoleLogSpy.mock.calls.map((call) => String(call[0])).join('\n');
+      expect(lines).toContain('#12 Fix login');
+      expect(lines).toContain('Dry run: 2 tasks would be updated');
+    });
+
+    it('should require --yes outside a terminal', async () => {
+      const processExitSpy = vi.spyOn(process, 'exit').mockImplementation(() => undefined as never);
+      const updateTask = vi.fn();
+      const ctx = createTestContext({
+        api: { getTasks: mockBulkTasks(), updateTask } as unknown as ProductiveApi,
+        options: { project: '10', set: 'closed=true', format: 'json' },
+      });
+
+      await tasksBulkUpdate(ctx);
+
+      expect(updateTask).not.toHaveBeenCalled();
+      expect(processExitSpy).toHaveBeenCalledWith(3);
+    });
+
+    it('should require a filter', async () => {
+      const processExitSpy = vi.spyOn(process, 'exit').mockImplementation(() => undefined as never);
+      const getTasksSpy = mockBulkTasks();
+      const ctx = createTestContext({
+        api: { getTasks: getTasksSpy } as unknown as ProductiveApi,
+        options: { set: 'closed=true', yes: true, format: 'json' },
+      });
+
+      await tasksBulkUpdate(ctx);
+
+      expect(getTasksSpy).not.toHaveBeenCalled();
+      expect(processExitSpy).toHaveBeenCalledWith(3);
+    });
+
+    it('should reject unknown fields', async () => {
+      const processExitSpy = vi.spyOn(process, 'exit').mockImplementation(() => undefined as never);
+      const ctx = createTestContext({
+        api: { getTasks: mockBulkTasks() } as unknown as ProductiveApi,
+        options: { project: '10', set: 'colour=red', yes: true, format: 'json' },
+      });
+
+      await tasksBulkUpdate(ctx);
+
+      expect(processExitSpy).toHaveBeenCalledWith(3);
+    });
+  });
+
   describe('command routing', () => {
     it('should handle unknown subcommand', async () => {
       vi.spyOn(console, 'error').mockImplementation(() => {});
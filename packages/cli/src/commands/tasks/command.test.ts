@@ -8,6 +8,7 @@ vi.mock('./handlers.js', () => ({
   tasksGet: vi.fn().mockResolvedValue(undefined),
   tasksAdd: vi.fn().mockResolvedValue(undefined),
   tasksUpdate: vi.fn().mockResolvedValue(undefined),
+  tasksBulkUpdate: vi.fn().mockResolvedValue(undefined),
 }));
 
 // Mock config to avoid file system access
@@ -132,6 +133,18 @@ describe('tasks command routing', () => {
     expect(handlers.tasksUpdate).toHaveBeenCalledWith(['456'], expect.anything());
   });
 
+  it('should route "bulk-update" subcommand to tasksBulkUpdate', async () => {
+    const handlers = await import('./handlers.js');
+
+    await handleTasksCommand('bulk-update', [], {
+      format: 'json',
+      token: 'test-token',
+      'org-id': 'test-org',
+    });
+
+    expect(handlers.tasksBulkUpdate).toHaveBeenCalled();
+  });
+
   it('should exit with error for unknown subcommand', async () => {
     await handleTasksCommand('unknown', [], {
       format: 'json',
@@ -3,7 +3,7 @@
  */
 
 import { createCommandRouter } from '../../utils/command-router.js';
-import { tasksList, tasksGet, tasksAdd, tasksUpdate } from './handlers.js';
+import { tasksList, tasksGet, tasksAdd, tasksUpdate, tasksBulkUpdate } from './handlers.js';
 
 /**
  * Handle tasks command
@@ -17,5 +17,6 @@ export const handleTasksCommand = createCommandRouter({
     add: tasksAdd,
     create: tasksAdd,
     update: [tasksUpdate, 'args'],
+    'bulk-update': tasksBulkUpdate,
   },
 });
@@ -2,10 +2,19 @@
  * CLI adapter for tasks command handlers.
  */
 
-import { formatTask, formatListResponse } from '@studiometa/productive-api';
 import {
+  formatTask,
+  formatListResponse,
+  formatWorkflowStatus,
+  markdownToHtml,
+  type FormattedWorkflowStatus,
+} from '@studiometa/productive-api';
+import {
+  buildTaskFilters,
+  bulkUpdate,
   fromCommandContext,
   listTasks,
+  listWorkflowStatuses,
   getTask,
   createTask,
   updateTask,
@@ -24,7 +33,15 @@ import {
   humanTaskDetailRenderer,
   formatTime,
 } from '../../renderers/index.js';
+import { parseBulkLimits, parseSetOptions, runBulkCommand } from '../../utils/bulk.js';
 import { colors } from '../../utils/colors.js';
+import {
+  printEquivalentCommand,
+  promptMissingOptions,
+  type PromptSpec,
+} from '../../utils/interactive.js';
+import { withLocalMirror } from '../../utils/local-mirror.js';
+import { runMutation, reportQueuedMutation } from '../../utils/mutation-journal.js';
 import { parseFilters } from '../../utils/parse-filters.js';
 
 export function getIncludedResource(
@@ -73,17 +90,45 @@ function parseListOptions(ctx: CommandContext): ListTasksOptions {
   return options;
 }
 
+/**
+ * Load the workflow statuses of the filtered project so the kanban view can
+ * show every column in workflow order, including empty ones.
+ */
+async function loadKanbanWorkflowStatuses(
+  ctx: CommandContext,
+  execCtx: ReturnType<typeof fromCommandContext>,
+): Promise<FormattedWorkflowStatus[] | undefined> {
+  if (!ctx.options.project) return undefined;
+
+  try {
+    const result = await listWorkflowStatuses(
+      { projectId: String(ctx.options.project), perPage: 200 },
+      execCtx,
+    );
+    return result.data.map((status) => formatWorkflowStatus(status));
+  } catch (error) {
+    // A project without a workflow falls back to columns derived from the tasks
+    if (error instanceof ExecutorValidationError) return undefined;
+    throw error;
+  }
+}
+
 export async function tasksList(ctx: CommandContext): Promise<void> {
   const spinner = ctx.createSpinner('Fetching tasks...');
   spinner.start();
 
   await runCommand(async () => {
-    const execCtx = fromCommandContext(ctx);
+    const execCtx = fromCommandContext(withLocalMirror(ctx));
     const result = await listTasks(parseListOptions(ctx), execCtx);
+    const format = (ctx.options.format || ctx.options.f || 'human') as OutputFormat;
+    // Workflow statuses are not mirrored: offline boards only show the columns in use
+    const workflowStatuses =
+      format === 'kanban' && ctx.options.offline !== true
+        ? await loadKanbanWorkflowStatuses(ctx, execCtx)
+        : undefined;
 
     spinner.succeed();
 
-    const format = (ctx.options.format || ctx.options.f || 'human') as OutputFormat;
     const formattedData = formatListResponse(result.data, formatTask, result.meta, {
       included: result.included,
     });
@@ -120,7 +165,14 @@ export async function tasksList(ctx: CommandContext): Promise<void> {
       ctx.formatter.output(data);
     } else {
       const renderCtx = createRenderContext({ noColor: ctx.options['no-color'] === true });
-      render('task', format, formattedData, renderCtx);
+      render(
+        'task',
+        format,
+        workflowStatuses
+          ? { ...formattedData, workflow_statuses: workflowStatuses }
+          : formattedData,
+        renderCtx,
+      );
     }
   }, ctx.formatter);
 }
@@ -139,7 +191,7 @@ export async function tasksGet(args: string[], ctx: CommandContext): Promise<voi
     spinner.succeed();
 
     const format = (ctx.options.format || ctx.options.f || 'human') as OutputFormat;
-    const formattedData = formatTask(result.data, { included: result.included });
+    const formattedData = formatTask(result.data, { included: result.included, markdown: true });
 
     if (format === 'json') {
       ctx.formatter.output(formattedData);
@@ -150,7 +202,36 @@ export async function tasksGet(args: string[], ctx: CommandContext): Promise<voi
   }, ctx.formatter);
 }
 
-export async function tasksAdd(ctx: CommandContext): Promise<void> {
+const TASKS_ADD_PROMPTS: PromptSpec = {
+  command: 'productive tasks add',
+  fields: [
+    { option: 'title', message: 'Title', kind: 'text' },
+    { option: 'project', message: 'Project', kind: 'project' },
+    { option: 'task-list', message: 'Task list', kind: 'task_list', projectOption: 'project' },
+  ],
+  options: [
+    'title',
+    'project',
+    'task-list',
+    'assignee',
+    'description',
+    'due-date',
+    'start-date',
+    'estimate',
+    'status',
+    'private',
+  ],
+  confirm: 'Create this task?',
+};
+
+export async function tasksAdd(cliCtx: CommandContext): Promise<void> {
+  const prompted = await runCommand(
+    () => promptMissingOptions(cliCtx, TASKS_ADD_PROMPTS),
+    cliCtx.formatter,
+  );
+  if (!prompted) return;
+  const { ctx } = prompted;
+
   const spinner = ctx.createSpinner('Creating task...');
   spinner.start();
 
@@ -178,7 +259,9 @@ export async function tasksAdd(ctx: CommandContext): Promise<void> {
         projectId: String(ctx.options.project),
         taskListId: String(ctx.options['task-list']),
         assigneeId: ctx.options.assignee ? String(ctx.options.assignee) : undefined,
-        description: ctx.options.description ? String(ctx.options.description) : undefined,
+        description: ctx.options.description
+          ? markdownToHtml(String(ctx.options.description))
+          : undefined,
         dueDate: ctx.options['due-date'] ? String(ctx.options['due-date']) : undefined,
         startDate: ctx.options['start-date'] ? String(ctx.options['start-date']) : undefined,
         initialEstimate: ctx.options.estimate ? parseInt(String(ctx.options.estimate)) : undefined,
@@ -205,7 +288,32 @@ export async function tasksAdd(ctx: CommandContext): Promise<void> {
       if (task.attributes.due_date) {
         console.log(colors.cyan('Due date:'), task.attributes.due_date);
       }
+      printEquivalentCommand(prompted);
+    }
+  }, ctx.formatter);
+}
+
+/**
+ * Apply the same changes to every task matching the list filters
+ */
+export async function tasksBulkUpdate(ctx: CommandContext): Promise<void> {
+  await runCommand(async () => {
+    const filter = buildTaskFilters(parseListOptions(ctx));
+    // The open status is always applied, it does not narrow the selection by itself
+    if (Object.keys(filter).every((key) => key === 'status')) {
+      throw ValidationError.required('filter', [
+        'Select tasks with --project, --assignee, --status, --filter, etc.',
+      ]);
     }
+    const set = parseSetOptions(ctx.options.set);
+    const limits = parseBulkLimits(ctx);
+
+    await runBulkCommand(ctx, {
+      noun: 'tasks',
+      action: 'update',
+      run: (selection, execCtx) =>
+        bulkUpdate({ resource: 'tasks', filter, set, ...limits, ...selection }, execCtx),
+    });
   }, ctx.formatter);
 }
 
@@ -217,34 +325,38 @@ export async function tasksUpdate(args: string[], ctx: CommandContext): Promise<
   spinner.start();
 
   await runCommand(async () => {
-    const execCtx = fromCommandContext(ctx);
+    const options = {
+      id,
+      title: ctx.options.title !== undefined ? String(ctx.options.title) : undefined,
+      description:
+        ctx.options.description !== undefined
+          ? markdownToHtml(String(ctx.options.description))
+          : undefined,
+      dueDate: ctx.options['due-date'] !== undefined ? String(ctx.options['due-date']) : undefined,
+      startDate:
+        ctx.options['start-date'] !== undefined ? String(ctx.options['start-date']) : undefined,
+      initialEstimate:
+        ctx.options.estimate !== undefined ? parseInt(String(ctx.options.estimate)) : undefined,
+      isPrivate: ctx.options.private !== undefined ? ctx.options.private === true : undefined,
+      assigneeId: ctx.options.assignee !== undefined ? String(ctx.options.assignee) : undefined,
+      workflowStatusId: ctx.options.status !== undefined ? String(ctx.options.status) : undefined,
+    };
 
     try {
-      const result = await updateTask(
-        {
-          id,
-          title: ctx.options.title !== undefined ? String(ctx.options.title) : undefined,
-          description:
-            ctx.options.description !== undefined ? String(ctx.options.description) : undefined,
-          dueDate:
-            ctx.options['due-date'] !== undefined ? String(ctx.options['due-date']) : undefined,
-          startDate:
-            ctx.options['start-date'] !== undefined ? String(ctx.options['start-date']) : undefined,
-          initialEstimate:
-            ctx.options.estimate !== undefined ? parseInt(String(ctx.options.estimate)) : undefined,
-          isPrivate: ctx.options.private !== undefined ? ctx.options.private === true : undefined,
-          assigneeId: ctx.options.assignee !== undefined ? String(ctx.options.assignee) : undefined,
-          workflowStatusId:
-            ctx.options.status !== undefined ? String(ctx.options.status) : undefined,
-        },
-        execCtx,
+      const outcome = await runMutation(ctx, { kind: 'task.update', payload: options }, (execCtx) =>
+        updateTask(options, execCtx),
       );
 
+      if (outcome.queued) {
+        spinner.stop();
+        reportQueuedMutation(ctx, outcome.entry);
+        return;
+      }
       spinner.succeed();
 
       const format = ctx.options.format || ctx.options.f || 'human';
       if (format === 'json') {
-        ctx.formatter.output({ status: 'success', id: result.data.id });
+        ctx.formatter.output({ status: 'success', id: outcome.data.data.id });
       } else {
         ctx.formatter.success(`Task ${id} updated`);
       }
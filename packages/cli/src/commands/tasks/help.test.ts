@@ -31,4 +31,9 @@ describe('showTasksHelp', () => {
     showTasksHelp('update');
     expect(spy).toHaveBeenCalled();
   });
+
+  it('shows bulk-update subcommand help', () => {
+    showTasksHelp('bulk-update');
+    expect(spy.mock.calls[0][0]).toContain('productive tasks bulk-update');
+  });
 });
@@ -20,7 +20,7 @@ ${colors.bold('OPTIONS:')}
   --project <id>      Filter by project ID
   --company <id>      Filter by company ID
   --board <id>        Filter by board ID
-  --task-list <id>    Filter by task list ID
+  --task-list <id>    Filter by task list ID or name
   --workflow-status   Filter by workflow status ID
   --parent <id>       Filter by parent task ID (subtasks)
   --overdue           Filter overdue tasks only
@@ -32,6 +32,7 @@ ${colors.bold('OPTIONS:')}
   -s, --size <num>    Page size (default: 100)
   --sort <field>      Sort by field (prefix with - for descending)
   -f, --format <fmt>  Output format: json, human, csv, table, kanban
+  --offline           Read from the local mirror (see: productive sync pull)
 
 ${colors.bold('EXAMPLES:')}
   productive tasks list
@@ -71,9 +72,9 @@ ${colors.bold('USAGE:')}
 ${colors.bold('OPTIONS:')}
   --title <title>       Task title (required)
   --project <id>        Project ID (required)
-  --task-list <id>      Task list ID (required)
+  --task-list <id>      Task list ID or name (required)
   --assignee <id>       Assignee person ID
-  --description <text>  Task description
+  --description <text>  Task description (Markdown)
   --due-date <date>     Due date (YYYY-MM-DD)
   --start-date <date>   Start date (YYYY-MM-DD)
   --estimate <minutes>  Initial estimate in minutes
@@ -81,10 +82,15 @@ ${colors.bold('OPTIONS:')}
   --private             Mark task as private
   -f, --format <fmt>    Output format: json, human
 
+${colors.bold('INTERACTIVE:')}
+  In a terminal, missing --title, --project and --task-list are asked for,
+  with searchable lists of projects and task lists.
+
 ${colors.bold('EXAMPLES:')}
   productive tasks add --title "New feature" --project 123 --task-list 456
   productive tasks add --title "Bug fix" --project 123 --task-list 456 --assignee 789
   productive tasks add --title "Review" --project 123 --task-list 456 --due-date 2024-12-31 --estimate 120
+  productive tasks add --title "Polish" --project 123 --task-list "Sprint 12"
 `);
   } else if (subcommand === 'update') {
     console.log(`
@@ -98,19 +104,49 @@ ${colors.bold('ARGUMENTS:')}
 
 ${colors.bold('OPTIONS:')}
   --title <title>       New task title
-  --description <text>  New description
+  --description <text>  New description (Markdown)
   --due-date <date>     Due date (YYYY-MM-DD)
   --start-date <date>   Start date (YYYY-MM-DD)
   --estimate <minutes>  Initial estimate in minutes
   --assignee <id>       Assignee person ID
   --status <id>         Workflow status ID
   --private             Mark task as private
+  --offline             Queue the update for "productive sync" without calling the API
   -f, --format <fmt>    Output format: json, human
 
 ${colors.bold('EXAMPLES:')}
   productive tasks update 12345 --title "Updated title"
   productive tasks update 12345 --assignee 789 --status 456
   productive tasks update 12345 --due-date 2024-12-31
+`);
+  } else if (subcommand === 'bulk-update') {
+    console.log(`
+${colors.bold('productive tasks bulk-update')} - Update every task matching a filter
+
+${colors.bold('USAGE:')}
+  productive tasks bulk-update [filters] --set <field=value> [--set ...] [options]
+
+${colors.bold('FILTERS:')}
+  Same as ${colors.cyan('productive tasks list')}: --mine, --project, --assignee, --status,
+  --task-list, --workflow-status, --overdue, --due-before, --filter, etc.
+  At least one filter is required. Only open tasks are selected by default.
+
+${colors.bold('FIELDS:')}
+  title, description, assignee (ID, email or "me"), status (workflow status ID),
+  due_date, start_date, estimate (duration, e.g. 2h), private, closed (true/false)
+
+${colors.bold('OPTIONS:')}
+  --set <field=value>   Change to apply, repeat for several fields (required)
+  --dry-run             Only list the matching tasks
+  -y, --yes             Skip the confirmation (required outside a terminal)
+  --limit <n>           Refuse to run when more tasks match (default: 200)
+  --concurrency <n>     Tasks updated in parallel (default: 4, max: 10)
+  -f, --format <fmt>    Output format: json, human
+
+${colors.bold('EXAMPLES:')}
+  productive tasks bulk-update --project 123 --task-list "Backlog" --set assignee=me
+  productive tasks bulk-update --overdue --mine --set due_date=2024-12-31 --dry-run
+  productive tasks bulk-update --filter workflow_status_id=456 --set closed=true --yes
 `);
   } else {
     console.log(`
@@ -124,6 +160,7 @@ ${colors.bold('SUBCOMMANDS:')}
   get <id>            Get task details
   add, create         Create a new task
   update <id>         Update an existing task
+  bulk-update         Update every task matching a filter
 
 ${colors.bold('COMMON OPTIONS:')}
   -f, --format <fmt>  Output format: json, human, csv, table
@@ -137,6 +174,7 @@ ${colors.bold('EXAMPLES:')}
   productive tasks get 67890
   productive tasks add --title "New task" --project 123 --task-list 456
   productive tasks update 67890 --status 789
+  productive tasks bulk-update --project 123 --mine --set status=789
 
 Run ${colors.cyan('productive tasks <subcommand> --help')} for subcommand details.
 `);
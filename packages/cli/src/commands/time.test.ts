@@ -1,11 +1,82 @@
+import { vol } from 'memfs';
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 
 import type { ProductiveApi } from '../api.js';
 
 import { createTestContext } from '../context.js';
-import { timeList, timeGet, timeAdd, timeUpdate, timeDelete } from './time/handlers.js';
+import {
+  timeList,
+  timeGet,
+  timeAdd,
+  timeUpdate,
+  timeDelete,
+  timeBulkDelete,
+  timeImport,
+  timeExport,
+  timeApprove,
+  timeReject,
+  timeSubmit,
+  timeApprovals,
+} from './time/handlers.js';
 import { handleTimeCommand } from './time/index.js';
 
+const journaled = vi.hoisted(() => [] as Array<{ kind: string; payload: Record<string, unknown> }>);
+
+vi.mock('../utils/sqlite-cache.js', () => ({
+  getSqliteCache: () => ({
+    journalAppend: async (kind: string, payload: Record<string, unknown>) => {
+      journaled.push({ kind, payload });
+      return { id: journaled.length, kind, payload, status: 'pending', error: null, queuedAt: 0 };
+    },
+  }),
+}));
+
+const prompts = vi.hoisted(() => ({
+  select: vi.fn(),
+  text: vi.fn(),
+  confirm: vi.fn(),
+}));
+
+vi.mock('../utils/prompt.js', () => prompts);
+
+function createImportContext(options: Record<string, unknown>) {
+  const api = {
+    getTimeEntries: vi.fn().mockResolvedValue({ data: [], meta: {} }),
+    createTimeEntry: vi.fn().mockResolvedValue({ data: { id: '999' } }),
+  };
+  const ctx = createTestContext({ api: api as unknown as ProductiveApi, options });
+  return { api, ctx };
+}
+
+function createExportContext(options: Record<string, unknown>) {
+  const api = {
+    getTimeEntries: vi.fn().mockResolvedValue({
+      data: [
+        {
+          id: '1',
+          type: 'time_entries',
+          attributes: { date: '2024-01-15', time: 90, note: 'Dev' },
+          relationships: { project: { data: { type: 'projects', id: '10' } } },
+        },
+      ],
+      meta: { total_pages: 1 },
+      included: [{ id: '10', type: 'projects', attributes: { name: 'Acme' } }],
+    }),
+  };
+  const ctx = createTestContext({ api: api as unknown as ProductiveApi, options });
+  return { api, ctx };
+}
+
+function mockBulkTimeEntries() {
+  return vi.fn().mockResolvedValue({
+    data: [
+      { id: '7', type: 'time_entries', attributes: { date: '2024-01-15', time: 90 } },
+      { id: '8', type: 'time_entries', attributes: { date: '2024-01-15', time: 30 } },
+    ],
+    meta: { total_pages: 1 },
+  });
+}
+
 describe('time command', () => {
   let consoleLogSpy: ReturnType<typeof vi.spyOn>;
 
@@ -89,6 +160,24 @@ describe('time command', () => {
       });
     });
 
+    it('should resolve date expressions and echo them in JSON meta', async () => {
+      const getTimeEntries = vi.fn().mockResolvedValue({ data: [], meta: {} });
+
+      const ctx = createTestContext({
+        api: { getTimeEntries } as unknown as ProductiveApi,
+        options: { format: 'json', period: '2024-W03', to: '2024-01-18' },
+      });
+
+      await timeList(ctx);
+
+      expect(getTimeEntries).toHaveBeenCalledWith(
+        expect.objectContaining({ filter: { after: '2024-01-15', before: '2024-01-18' } }),
+      );
+      expect(JSON.parse(consoleLogSpy.mock.calls[0][0]).meta).toEqual({
+        dates: { after: { input: '2024-W03', date: '2024-01-15' } },
+      });
+    });
+
     it('should list time entries with extended filters', async () => {
       const getTimeEntries = vi.fn().mockResolvedValue({
         data: [],
@@ -305,6 +394,29 @@ describe('time command', () => {
   });
 
   describe('timeAdd', () => {
+    it('should queue the entry when the API is unreachable', async () => {
+      const createTimeEntry = vi.fn().mockRejectedValue(new TypeError('fetch failed'));
+      const ctx = createTestContext({
+        api: { createTimeEntry } as unknown as ProductiveApi,
+        options: { format: 'json', service: '6028361', time: '60' },
+      });
+
+      await timeAdd(ctx);
+
+      expect(journaled).toEqual([
+        {
+          kind: 'time.create',
+          payload: expect.objectContaining({
+            personId: '500521',
+            serviceId: '6028361',
+            time: 60,
+            date: expect.stringMatching(/^\d{4}-\d{2}-\d{2}$/),
+          }),
+        },
+      ]);
+      expect(JSON.parse(consoleLogSpy.mock.calls[0][0])).toMatchObject({ status: 'queued' });
+    });
+
     it('should create time entry with all parameters', async () => {
       const createTimeEntry = vi.fn().mockResolvedValue({
         data: {
@@ -441,6 +553,38 @@ describe('time command', () => {
       expect(processExitSpy).toHaveBeenCalledWith(3);
     });
 
+    it('should prompt for missing options in a terminal', async () => {
+      const createTimeEntry = vi.fn().mockResolvedValue({
+        data: { id: '1', type: 'time_entries', attributes: { date: '2024-01-15', time: 90 } },
+      });
+      prompts.select.mockResolvedValue({ value: '6028361', label: 'Development' });
+      prompts.text.mockResolvedValue('90');
+      prompts.confirm.mockResolvedValue(true);
+      Object.defineProperty(process.stdin, 'isTTY', { value: true, configurable: true });
+      Object.defineProperty(process.stdout, 'isTTY', { value: true, configurable: true });
+      vi.stubEnv('CI', undefined);
+
+      const ctx = createTestContext({
+        api: { createTimeEntry } as unknown as ProductiveApi,
+        options: { format: 'human', date: '2024-01-15' },
+      });
+
+      try {
+        await timeAdd(ctx);
+      } finally {
+        Object.defineProperty(process.stdin, 'isTTY', { value: false, configurable: true });
+        Object.defineProperty(process.stdout, 'isTTY', { value: false, configurable: true });
+        vi.unstubAllEnvs();
+      }
+
+      expect(createTimeEntry).toHaveBeenCalledWith(
+        expect.objectContaining({ service_id: '6028361', time: 90 }),
+      );
+      expect(consoleLogSpy).toHaveBeenCalledWith(
+        '  productive time add --service 6028361 --time 90 --date 2024-01-15',
+      );
+    });
+
     it('should handle API errors', async () => {
       const { ProductiveApiError } = await import('@studiometa/productive-api');
       const createTimeEntry = vi
@@ -567,6 +711,59 @@ describe('time command', () => {
     });
   });
 
+  describe('timeBulkDelete', () => {
+    it('should delete every matching entry and report failures', async () => {
+      const deleteTimeEntry = vi
+        .fn()
+        .mockResolvedValueOnce(undefined)
+        .mockRejectedValueOnce(new Error('Time entry is locked'));
+      const ctx = createTestContext({
+        api: { getTimeEntries: mockBulkTimeEntries(), deleteTimeEntry } as unknown as ProductiveApi,
+        options: {
+          service: '100',
+          from: '2024-01-15',
+          yes: true,
+          concurrency: '1',
+          format: 'human',
+        },
+      });
+
+      await timeBulkDelete(ctx);
+
+      expect(deleteTimeEntry.mock.calls).toEqual([['7'], ['8']]);
+      const lines = consoleLogSpy.mock.calls.map((call) => String(call[0])).join('\n');
+      expect(lines).toContain('Time entry is locked');
+      expect(lines).toContain('1 time entries deleted');
+      expect(process.exitCode).toBe(1);
+      process.exitCode = undefined;
+    });
+
+    it('should pass the list filters to the selection', async () => {
+      const getTimeEntriesSpy = mockBulkTimeEntries();
+      const ctx = createTestContext({
+        api: { getTimeEntries: getTimeEntriesSpy } as unknown as ProductiveApi,
+        options: { mine: true, service: '100', 'dry-run': true, format: 'json' },
+      });
+
+      await timeBulkDelete(ctx);
+
+      expect(getTimeEntriesSpy).toHaveBeenCalledWith(
+        expect.objectContaining({ filter: { person_id: '500521', service_id: '100' } }),
+      );
+      const output = JSON.parse(consoleLogSpy.mock.calls.at(-1)[0]);
+      expect(output).toMatchObject({ action: 'bulk_delete', dry_run: true, total: 2 });
+    });
+
+    it('should reject an invalid concurrency', async () => {
+      const processExitSpy = vi.spyOn(process, 'exit').mockImplementation(() => undefined as never);
+      const ctx = createTestContext({ options: { service: '100', concurrency: 'many' } });
+
+      await timeBulkDelete(ctx);
+
+      expect(processExitSpy).toHaveBeenCalledWith(3);
+    });
+  });
+
   describe('format variants', () => {
     const mockTimeEntry = {
       id: '1',
@@ -670,6 +867,235 @@ describe('time command', () => {
     });
   });
 
+  describe('timeImport', () => {
+    const csv = '/timesheets/week.csv';
+
+    beforeEach(() => {
+      vol.fromJSON({
+        [csv]: [
+          'date,service,duration,note',
+          '2024-01-15,123,1h30,Dev',
+          'someday,123,30,Oops',
+        ].join('\n'),
+      });
+    });
+
+    it('should preview a dry run without creating entries', async () => {
+      const { api, ctx } = createImportContext({ format: 'json', 'dry-run': true });
+
+      await timeImport([csv], ctx);
+
+      expect(api.createTimeEntry).not.toHaveBeenCalled();
+      const output = JSON.parse(consoleLogSpy.mock.calls[0][0]);
+      expect(output).toMatchObject({ dry_run: true, created: 1, total_minutes: 90 });
+      expect(output.rows[0]).toMatchObject({ line: 2, status: 'pending', service: '123' });
+      expect(output.invalid_rows).toEqual([
+        { line: 3, message: 'Missing or invalid date (expected YYYY-MM-DD)' },
+      ]);
+    });
+
+    it('should create entries and summarize the import', async () => {
+      const { api, ctx } = createImportContext({ format: 'human', 'no-color': true });
+
+      await timeImport([csv], ctx);
+
+      expect(api.createTimeEntry).toHaveBeenCalledWith(
+        expect.objectContaining({ person_id: '500521', service_id: '123', time: 90 }),
+      );
+      const text = consoleLogSpy.mock.calls.map((call: unknown[]) => call.join(' ')).join('\n');
+      expect(text).toContain('created 999');
+      expect(text).toContain('Line 3 skipped');
+      expect(text).toContain('1 time entries (1h 30m) created');
+    });
+
+    it('should reject files of unknown type', async () => {
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+      const processExitSpy = vi.spyOn(process, 'exit').mockImplementation(() => undefined as never);
+      const { ctx } = createImportContext({ format: 'json' });
+
+      await timeImport(['/timesheets/week.txt'], ctx);
+
+      expect(processExitSpy).toHaveBeenCalledWith(3);
+    });
+  });
+
+  describe('time approval', () => {
+    it('should approve a single time entry', async () => {
+      const approveTimeEntry = vi.fn().mockResolvedValue({
+        data: { id: '7', type: 'time_entries', attributes: { date: '2024-01-15', time: 90 } },
+      });
+      const ctx = createTestContext({
+        api: { approveTimeEntry } as unknown as ProductiveApi,
+        options: { format: 'json' },
+      });
+
+      await timeApprove(['7'], ctx);
+
+      expect(approveTimeEntry).toHaveBeenCalledWith('7');
+      const output = JSON.parse(consoleLogSpy.mock.calls.at(-1)[0]);
+      expect(output).toMatchObject({ status: 'success', id: '7' });
+    });
+
+    it("should approve a person's unapproved entries", async () => {
+      const getTimeEntriesSpy = mockBulkTimeEntries();
+      const approveTimeEntry = vi.fn().mockResolvedValue({ data: {} });
+      const ctx = createTestContext({
+        api: { getTimeEntries: getTimeEntriesSpy, approveTimeEntry } as unknown as ProductiveApi,
+        options: { person: '42', from: '2024-01-15', to: '2024-01-21', yes: true, format: 'json' },
+      });
+
+      await timeApprove([], ctx);
+
+      expect(getTimeEntriesSpy).toHaveBeenCalledWith(
+        expect.objectContaining({
+          filter: { status: '2', after: '2024-01-15', before: '2024-01-21', person_id: '42' },
+        }),
+      );
+      expect(approveTimeEntry.mock.calls).toEqual([['7'], ['8']]);
+      const output = JSON.parse(consoleLogSpy.mock.calls.at(-1)[0]);
+      expect(output).toMatchObject({ action: 'bulk_approve', succeeded: 2 });
+    });
+
+    it('should preview a bulk rejection on a dry run', async () => {
+      const rejectTimeEntry = vi.fn();
+      const ctx = createTestContext({
+        api: {
+          getTimeEntries: mockBulkTimeEntries(),
+          rejectTimeEntry,
+        } as unknown as ProductiveApi,
+        options: { mine: true, reason: 'Missing notes', 'dry-run': true, format: 'json' },
+      });
+
+      await timeReject([], ctx);
+
+      expect(rejectTimeEntry).not.toHaveBeenCalled();
+      const output = JSON.parse(consoleLogSpy.mock.calls.at(-1)[0]);
+      expect(output).toMatchObject({ action: 'bulk_reject', dry_run: true, total: 2 });
+    });
+
+    it('should require an ID or a filter', async () => {
+      const processExitSpy = vi.spyOn(process, 'exit').mockImplementation(() => undefined as never);
+      const ctx = createTestContext({ options: { format: 'json' } });
+
+      await timeApprove([], ctx);
+
+      expect(processExitSpy).toHaveBeenCalledWith(3);
+    });
+
+    it('should submit the timesheets of a period', async () => {
+      const createTimesheet = vi.fn().mockResolvedValue({ data: { id: '1' } });
+      const getTimeEntries = vi.fn().mockResolvedValue({
+        data: [{ id: '7', type: 'time_entries', attributes: { date: '2024-01-15', time: 90 } }],
+        meta: { total_pages: 1 },
+      });
+      const ctx = createTestContext({
+        api: { createTimesheet, getTimeEntries } as unknown as ProductiveApi,
+        options: { date: '2024-01-15', format: 'json' },
+      });
+
+      await timeSubmit(ctx);
+
+      expect(createTimesheet).toHaveBeenCalledWith({ person_id: '500521', date: '2024-01-15' });
+      const output = JSON.parse(consoleLogSpy.mock.calls.at(-1)[0]);
+      expect(output).toMatchObject({ from: '2024-01-15', to: '2024-01-15', submitted: 1 });
+    });
+
+    it('should show unapproved time per person', async () => {
+      const getTimeEntriesSpy = vi.fn().mockResolvedValue({
+        data: [
+          {
+            id: '7',
+            type: 'time_entries',
+            attributes: { date: '2024-01-15', time: 90 },
+            relationships: { person: { data: { type: 'people', id: '42' } } },
+          },
+        ],
+        included: [
+          { id: '42', type: 'people', attributes: { first_name: 'Jane', last_name: 'Doe' } },
+        ],
+        meta: { total_pages: 1 },
+      });
+      const ctx = createTestContext({
+        api: { getTimeEntries: getTimeEntriesSpy } as unknown as ProductiveApi,
+        options: { project: '123', format: 'csv' },
+      });
+
+      await timeApprovals(ctx);
+
+      expect(getTimeEntriesSpy).toHaveBeenCalledWith(
+        expect.objectContaining({ filter: { project_id: '123', status: '2' } }),
+      );
+      const output = consoleLogSpy.mock.calls.map((call) => String(call[0])).join('\n');
+      expect(output).toContain('Jane Doe');
+      expect(output).toContain('1.50');
+    });
+  });
+
+  describe('timeExport', () => {
+    it('should write the period to a file in the format of its extension', async () => {
+      vol.fromJSON({ '/exports/.keep': '' });
+      const { api, ctx } = createExportContext({
+        from: '2024-01-01',
+        to: '2024-01-31',
+        mine: true,
+        output: '/exports/january.xlsx',
+        'no-color': true,
+      });
+
+      await timeExport(ctx);
+
+      expect(api.getTimeEntries).toHaveBeenCalledWith(
+        expect.objectContaining({
+          filter: { person_id: '500521', after: '2024-01-01', before: '2024-01-31' },
+          include: ['project', 'service', 'person'],
+        }),
+      );
+      const file = vol.readFileSync('/exports/january.xlsx') as Buffer;
+      expect(file.subarray(0, 2).toString()).toBe('PK');
+      expect(consoleLogSpy).toHaveBeenCalledWith(
+        expect.stringContaining('Exported 1 time entries (1h 30m) to /exports/january.xlsx'),
+      );
+    });
+
+    it('should print to stdout with grouping levels', async () => {
+      const writeSpy = vi.spyOn(process.stdout, 'write').mockImplementation(() => true);
+      const { ctx } = createExportContext({
+        date: '2024-01-15',
+        format: 'csv',
+        output: '-',
+        'group-by': 'project',
+      });
+
+      await timeExport(ctx);
+
+      expect(writeSpy).toHaveBeenCalledWith(
+        [
+          'Date,Project,Service,Person,Note,Hours,Minutes',
+          '2024-01-15,Acme,,,Dev,1.50,90',
+          ',Acme,,,Subtotal,1.50,90',
+          ',,,,Total,1.50,90',
+          '',
+        ].join('\r\n'),
+      );
+    });
+
+    it.each([
+      [{ from: '2024-01-01' }],
+      [{ from: 'someday', to: '2024-01-31' }],
+      [{ from: '2024-01-01', to: '2024-01-31', format: 'pdf' }],
+      [{ from: '2024-01-01', to: '2024-01-31', 'group-by': 'task' }],
+    ])('should reject invalid options %o', async (options) => {
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+      const processExitSpy = vi.spyOn(process, 'exit').mockImplementation(() => undefined as never);
+      const { api, ctx } = createExportContext(options);
+
+      await timeExport(ctx);
+
+      expect(processExitSpy).toHaveBeenCalledWith(3);
+      expect(api.getTimeEntries).not.toHaveBeenCalled();
+    });
+  });
+
   describe('command routing', () => {
     it('should handle unknown subcommand', async () => {
       const consoleErrorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
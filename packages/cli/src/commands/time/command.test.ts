@@ -9,6 +9,14 @@ vi.mock('./handlers.js', () => ({
   timeAdd: vi.fn().mockResolvedValue(undefined),
   timeUpdate: vi.fn().mockResolvedValue(undefined),
   timeDelete: vi.fn().mockResolvedValue(undefined),
+  timeBulkDelete: vi.fn().mockResolvedValue(undefined),
+  timeImport: vi.fn().mockResolvedValue(undefined),
+  timeExport: vi.fn().mockResolvedValue(undefined),
+  timeApprove: vi.fn().mockResolvedValue(undefined),
+  timeUnapprove: vi.fn().mockResolvedValue(undefined),
+  timeReject: vi.fn().mockResolvedValue(undefined),
+  timeSubmit: vi.fn().mockResolvedValue(undefined),
+  timeApprovals: vi.fn().mockResolvedValue(undefined),
 }));
 
 // Mock config to avoid file system access
@@ -146,6 +154,48 @@ describe('time command routing', () => {
     expect(handlers.timeDelete).toHaveBeenCalledWith(['789'], expect.anything());
   });
 
+  it('should route "bulk-delete" subcommand to timeBulkDelete', async () => {
+    const handlers = await import('./handlers.js');
+
+    await handleTimeCommand('bulk-delete', [], {
+      format: 'json',
+      token: 'test-token',
+      'org-id': 'test-org',
+    });
+
+    expect(handlers.timeBulkDelete).toHaveBeenCalled();
+  });
+
+  it('should route "export" subcommand to timeExport', async () => {
+    const handlers = await import('./handlers.js');
+
+    await handleTimeCommand('export', [], {
+      from: '2024-01-01',
+      to: '2024-01-31',
+      token: 'test-token',
+      'org-id': 'test-org',
+    });
+
+    expect(handlers.timeExport).toHaveBeenCalled();
+  });
+
+  it('should route the approval subcommands', async () => {
+    const handlers = await import('./handlers.js');
+    const options = { format: 'json', token: 'test-token', 'org-id': 'test-org' };
+
+    await handleTimeCommand('approve', ['123'], options);
+    await handleTimeCommand('unapprove', ['123'], options);
+    await handleTimeCommand('reject', ['123'], options);
+    await handleTimeCommand('submit', [], options);
+    await handleTimeCommand('approvals', [], options);
+
+    expect(handlers.timeApprove).toHaveBeenCalledWith(['123'], expect.anything());
+    expect(handlers.timeUnapprove).toHaveBeenCalledWith(['123'], expect.anything());
+    expect(handlers.timeReject).toHaveBeenCalledWith(['123'], expect.anything());
+    expect(handlers.timeSubmit).toHaveBeenCalled();
+    expect(handlers.timeApprovals).toHaveBeenCalled();
+  });
+
   it('should exit with error for unknown subcommand', async () => {
     await handleTimeCommand('unknown', [], {
       format: 'json',
@@ -5,7 +5,21 @@
  */
 
 import { createCommandRouter } from '../../utils/command-router.js';
-import { timeList, timeGet, timeAdd, timeUpdate, timeDelete } from './handlers.js';
+import {
+  timeList,
+  timeGet,
+  timeAdd,
+  timeUpdate,
+  timeDelete,
+  timeBulkDelete,
+  timeImport,
+  timeExport,
+  timeApprove,
+  timeUnapprove,
+  timeReject,
+  timeSubmit,
+  timeApprovals,
+} from './handlers.js';
 
 /**
  * Handle time command
@@ -20,5 +34,13 @@ export const handleTimeCommand = createCommandRouter({
     update: [timeUpdate, 'args'],
     delete: [timeDelete, 'args'],
     rm: [timeDelete, 'args'],
+    'bulk-delete': timeBulkDelete,
+    import: [timeImport, 'args'],
+    export: timeExport,
+    approve: [timeApprove, 'args'],
+    unapprove: [timeUnapprove, 'args'],
+    reject: [timeReject, 'args'],
+    submit: timeSubmit,
+    approvals: timeApprovals,
   },
 });
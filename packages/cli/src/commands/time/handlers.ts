@@ -14,13 +14,39 @@ import { formatTimeEntry, formatListResponse } from '@studiometa/productive-api'
 import {
   fromCommandContext,
   listTimeEntries,
+  buildTimeEntryFilters,
+  bulkApprove,
+  bulkDelete,
+  getApprovalQueue,
   getTimeEntry,
   createTimeEntry,
   updateTimeEntry,
   deleteTimeEntry,
+  importTimeEntries,
+  approveTimeEntry,
+  unapproveTimeEntry,
+  rejectTimeEntry,
+  submitTimesheets,
+  detectTimesheetFormat,
+  parseTimesheet,
   ExecutorValidationError,
+  createDateService,
+  resolveDateFilters,
+  type BulkApprovalAction,
+  type ImportRowResult,
   type ListTimeEntriesOptions,
+  type TimesheetFormat,
+  type TimesheetParseResult,
 } from '@studiometa/productive-core';
+import {
+  TimeCollection,
+  TIME_EXPORT_FORMATS,
+  TIME_EXPORT_GROUP_BY,
+  type TimeExportFormat,
+  type TimeExportGroupBy,
+} from '@studiometa/productive-sdk';
+import { readFileSync, writeFileSync } from 'node:fs';
+import { extname } from 'node:path';
 
 import type { CommandContext } from '../../context.js';
 import type { OutputFormat } from '../../types.js';
@@ -31,9 +57,18 @@ import {
   render,
   createRenderContext,
   humanTimeEntryDetailRenderer,
+  tableRenderer,
 } from '../../renderers/index.js';
+import { parseBulkLimits, runBulkCommand } from '../../utils/bulk.js';
 import { colors } from '../../utils/colors.js';
-import { parseDate, parseDateRange } from '../../utils/date.js';
+import { parseDate } from '../../utils/date.js';
+import {
+  printEquivalentCommand,
+  promptMissingOptions,
+  type PromptSpec,
+} from '../../utils/interactive.js';
+import { withLocalMirror } from '../../utils/local-mirror.js';
+import { runMutation, reportQueuedMutation } from '../../utils/mutation-journal.js';
 import { parseFilters } from '../../utils/parse-filters.js';
 
 /**
@@ -52,23 +87,11 @@ function parseListOptions(ctx: CommandContext): ListTimeEntriesOptions {
     options.additionalFilters = additionalFilters;
   }
 
-  // Date filtering with smart parsing
-  if (ctx.options.date) {
-    const range = parseDateRange(String(ctx.options.date));
-    if (range) {
-      options.after = range.from;
-      options.before = range.to;
-    }
-  }
-  // --from and --to override --date
-  if (ctx.options.from) {
-    const parsed = parseDate(String(ctx.options.from));
-    if (parsed) options.after = parsed;
-  }
-  if (ctx.options.to) {
-    const parsed = parseDate(String(ctx.options.to));
-    if (parsed) options.before = parsed;
-  }
+  // Date expressions are resolved by the executor; --from and --to override the period
+  const period = ctx.options.period ?? ctx.options.date;
+  if (period) options.period = String(period);
+  if (ctx.options.from) options.after = String(ctx.options.from);
+  if (ctx.options.to) options.before = String(ctx.options.to);
 
   // Person filtering
   if (ctx.options.mine && ctx.config.userId) {
@@ -108,7 +131,7 @@ export async function timeList(ctx: CommandContext): Promise<void> {
   spinner.start();
 
   await runCommand(async () => {
-    const execCtx = fromCommandContext(ctx);
+    const execCtx = fromCommandContext(withLocalMirror(ctx));
     const options = parseListOptions(ctx);
     const result = await listTimeEntries(options, execCtx);
 
@@ -131,7 +154,12 @@ export async function timeList(ctx: CommandContext): Promise<void> {
       const renderCtx = createRenderContext({
         noColor: ctx.options['no-color'] === true,
       });
-      render('time_entry', format, formattedData, renderCtx);
+      // JSON output echoes what date expressions resolved to
+      const output =
+        format === 'json' && result.dates
+          ? { ...formattedData, meta: { ...formattedData.meta, dates: result.dates } }
+          : formattedData;
+      render('time_entry', format, output, renderCtx);
     }
   }, ctx.formatter);
 }
@@ -170,10 +198,27 @@ export async function timeGet(args: string[], ctx: CommandContext): Promise<void
   }, ctx.formatter);
 }
 
+const TIME_ADD_PROMPTS: PromptSpec = {
+  command: 'productive time add',
+  fields: [
+    { option: 'service', message: 'Service', kind: 'service' },
+    { option: 'time', message: 'Duration', kind: 'duration' },
+  ],
+  options: ['service', 'time', 'date', 'note', 'person', 'offline'],
+  confirm: 'Create this time entry?',
+};
+
 /**
  * Add a new time entry
  */
-export async function timeAdd(ctx: CommandContext): Promise<void> {
+export async function timeAdd(cliCtx: CommandContext): Promise<void> {
+  const prompted = await runCommand(
+    () => promptMissingOptions(cliCtx, TIME_ADD_PROMPTS),
+    cliCtx.formatter,
+  );
+  if (!prompted) return;
+  const { ctx } = prompted;
+
   const spinner = ctx.createSpinner('Creating time entry...');
   spinner.start();
 
@@ -201,21 +246,25 @@ export async function timeAdd(ctx: CommandContext): Promise<void> {
   }
 
   await runCommand(async () => {
-    const execCtx = fromCommandContext(ctx);
-    const result = await createTimeEntry(
-      {
-        personId,
-        serviceId: String(ctx.options.service),
-        time: parseInt(String(ctx.options.time)),
-        date: ctx.options.date ? String(ctx.options.date) : undefined,
-        note: ctx.options.note ? String(ctx.options.note) : undefined,
-      },
-      execCtx,
+    const options = {
+      personId,
+      serviceId: String(ctx.options.service),
+      time: parseInt(String(ctx.options.time)),
+      date: ctx.options.date ? String(ctx.options.date) : undefined,
+      note: ctx.options.note ? String(ctx.options.note) : undefined,
+    };
+    const outcome = await runMutation(ctx, { kind: 'time.create', payload: options }, (execCtx) =>
+      createTimeEntry(options, execCtx),
     );
 
+    if (outcome.queued) {
+      spinner.stop();
+      reportQueuedMutation(ctx, outcome.entry);
+      return;
+    }
     spinner.succeed();
 
-    const entry = result.data;
+    const entry = outcome.data.data;
     const hours = Math.floor(entry.attributes.time / 60);
     const minutes = entry.attributes.time % 60;
 
@@ -233,6 +282,7 @@ export async function timeAdd(ctx: CommandContext): Promise<void> {
       if (entry.attributes.note) {
         console.log(colors.cyan('Note:'), entry.attributes.note);
       }
+      printEquivalentCommand(prompted);
     }
   }, ctx.formatter);
 }
@@ -313,3 +363,456 @@ export async function timeDelete(args: string[], ctx: CommandContext): Promise<v
     }
   }, ctx.formatter);
 }
+
+/**
+ * Delete every time entry matching the list filters
+ */
+export async function timeBulkDelete(ctx: CommandContext): Promise<void> {
+  await runCommand(async () => {
+    const { filter } = resolveDateFilters(
+      buildTimeEntryFilters(parseListOptions(ctx)),
+      createDateService({ timezone: ctx.config.timezone }),
+    );
+    if (Object.keys(filter).length === 0) {
+      throw ValidationError.required('filter', [
+        'Select time entries with --date, --mine, --project, --service, --filter, etc.',
+      ]);
+    }
+    const limits = parseBulkLimits(ctx);
+
+    await runBulkCommand(ctx, {
+      noun: 'time entries',
+      action: 'delete',
+      run: (selection, execCtx) =>
+        bulkDelete({ resource: 'time_entries', filter, ...limits, ...selection }, execCtx),
+    });
+  }, ctx.formatter);
+}
+
+const APPROVAL_EXECUTORS = {
+  approve: approveTimeEntry,
+  unapprove: unapproveTimeEntry,
+  reject: rejectTimeEntry,
+};
+
+const APPROVAL_PAST: Record<BulkApprovalAction, string> = {
+  approve: 'approved',
+  unapprove: 'unapproved',
+  reject: 'rejected',
+};
+
+/**
+ * Change the approval of one time entry, or of every entry matching the list
+ * filters when no ID is given
+ */
+async function changeApproval(
+  action: BulkApprovalAction,
+  args: string[],
+  ctx: CommandContext,
+): Promise<void> {
+  const [id] = args;
+  const reason = ctx.options.reason ? String(ctx.options.reason) : undefined;
+
+  await runCommand(async () => {
+    if (!id) {
+      const filter = buildTimeEntryFilters(parseListOptions(ctx));
+      if (Object.keys(filter).length === 0) {
+        throw ValidationError.required('id or filter', [
+          `Pass a time entry ID: productive time ${action} <id>`,
+          'Or select entries with --person, --mine, --period, --project, --filter, etc.',
+        ]);
+      }
+      const limits = parseBulkLimits(ctx);
+
+      await runBulkCommand(ctx, {
+        noun: 'time entries',
+        action,
+        run: (selection, execCtx) =>
+          bulkApprove(
+            { resource: 'time_entries', action, filter, reason, ...limits, ...selection },
+            execCtx,
+          ),
+      });
+      return;
+    }
+
+    const spinner = ctx.createSpinner('Updating time entry...');
+    spinner.start();
+    const result = await APPROVAL_EXECUTORS[action]({ id, reason }, fromCommandContext(ctx));
+    spinner.succeed();
+
+    const format = ctx.options.format || ctx.options.f || 'human';
+    if (format === 'json') {
+      ctx.formatter.output({ status: 'success', ...formatTimeEntry(result.data) });
+    } else {
+      ctx.formatter.success(`Time entry ${id} ${APPROVAL_PAST[action]}`);
+    }
+  }, ctx.formatter);
+}
+
+/**
+ * Approve a time entry, or every unapproved entry matching the list filters
+ */
+export async function timeApprove(args: string[], ctx: CommandContext): Promise<void> {
+  await changeApproval('approve', args, ctx);
+}
+
+/**
+ * Take back the approval of a time entry, or of every approved entry matching the list filters
+ */
+export async function timeUnapprove(args: string[], ctx: CommandContext): Promise<void> {
+  await changeApproval('unapprove', args, ctx);
+}
+
+/**
+ * Reject a time entry, or every unapproved entry matching the list filters
+ */
+export async function timeReject(args: string[], ctx: CommandContext): Promise<void> {
+  await changeApproval('reject', args, ctx);
+}
+
+/**
+ * Submit timesheets for approval, one per day of the period with time entries
+ */
+export async function timeSubmit(ctx: CommandContext): Promise<void> {
+  await runCommand(async () => {
+    const period = ctx.options.period ?? ctx.options.date;
+    const spinner = ctx.createSpinner('Submitting timesheets...');
+    spinner.start();
+
+    const { data: result } = await submitTimesheets(
+      {
+        personId: ctx.options.person ? String(ctx.options.person) : undefined,
+        period: period ? String(period) : undefined,
+      },
+      fromCommandContext(ctx),
+    );
+    spinner.stop();
+
+    const format = ctx.options.format || ctx.options.f || 'human';
+    if (format === 'json') {
+      ctx.formatter.output(result);
+    } else {
+      for (const day of result.days) {
+        if (day.status === 'failed') ctx.formatter.warning(`${day.date}: ${day.error}`);
+      }
+      if (result.submitted > 0) {
+        ctx.formatter.success(
+          `Submitted ${result.submitted} day(s) from ${result.from} to ${result.to}`,
+        );
+      }
+      if (result.skipped > 0) {
+        ctx.formatter.info(`Skipped ${result.skipped} day(s) without time entries`);
+      }
+    }
+    if (result.failed > 0) process.exitCode = 1;
+  }, ctx.formatter);
+}
+
+/**
+ * Show unapproved time per person
+ */
+export async function timeApprovals(ctx: CommandContext): Promise<void> {
+  const spinner = ctx.createSpinner('Fetching approval queue...');
+  spinner.start();
+
+  await runCommand(async () => {
+    const options = parseListOptions(ctx);
+    const limit = ctx.options.limit === undefined ? undefined : Number(ctx.options.limit);
+    if (limit !== undefined && (!Number.isInteger(limit) || limit < 1)) {
+      throw ValidationError.invalid('limit', ctx.options.limit, 'expected a positive integer');
+    }
+
+    const result = await getApprovalQueue(
+      {
+        personId: options.personId,
+        projectId: options.projectId,
+        after: options.after,
+        before: options.before,
+        period: options.period,
+        additionalFilters: options.additionalFilters,
+        limit,
+      },
+      fromCommandContext(ctx),
+    );
+    const queue = result.data;
+
+    spinner.succeed();
+
+    const format = (ctx.options.format || ctx.options.f || 'human') as OutputFormat;
+    if (format === 'json') {
+      ctx.formatter.output(result.dates ? { ...queue, meta: { dates: result.dates } } : queue);
+      return;
+    }
+
+    const rows = queue.people.map((person) => ({
+      person_id: person.person_id,
+      person: person.person_name ?? '',
+      entries: person.entries,
+      hours: (person.minutes / 60).toFixed(2),
+      from: person.first_date,
+      to: person.last_date,
+    }));
+
+    if (format !== 'human') {
+      ctx.formatter.output(rows);
+      return;
+    }
+
+    if (rows.length === 0) {
+      ctx.formatter.info('No time entries waiting for approval');
+      return;
+    }
+
+    tableRenderer.render(rows, createRenderContext({ noColor: ctx.options['no-color'] === true }));
+    console.log();
+    ctx.formatter.info(
+      `${queue.total_entries} time entries (${formatDuration(queue.total_minutes)}) waiting for approval`,
+    );
+    if (queue.truncated) {
+      ctx.formatter.warning('More entries match: raise --limit or narrow the filters');
+    }
+    console.log(
+      colors.dim('Approve a person with: productive time approve --person <person_id> [--period]'),
+    );
+  }, ctx.formatter);
+}
+
+const TIMESHEET_FORMATS: TimesheetFormat[] = ['csv', 'ics', 'json'];
+
+/**
+ * Format minutes as "Xh YYm"
+ */
+function formatDuration(minutes: number): string {
+  const hours = Math.floor(minutes / 60);
+  const mins = minutes % 60;
+  return `${hours}h ${mins.toString().padStart(2, '0')}m`;
+}
+
+function describeImportStatus(row: ImportRowResult): string {
+  switch (row.status) {
+    case 'created':
+      return `created ${row.time_entry_id}`;
+    case 'pending':
+      return 'to create';
+    case 'duplicate':
+      return `duplicate of ${row.duplicate_of}`;
+    case 'failed':
+      return `failed: ${row.error}`;
+  }
+}
+
+/**
+ * Read and parse a timesheet file, reporting unreadable files as validation errors
+ */
+function readTimesheet(file: string, type: TimesheetFormat): TimesheetParseResult {
+  let content: string;
+  try {
+    content = readFileSync(file, 'utf-8');
+  } catch {
+    throw ValidationError.invalid('file', file, 'file not found or not readable');
+  }
+
+  try {
+    return parseTimesheet(content, type);
+  } catch (error) {
+    if (error instanceof ExecutorValidationError) {
+      throw ValidationError.invalid('file', file, error.message);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Import time entries from a CSV, iCalendar or JSON timesheet
+ */
+export async function timeImport(args: string[], ctx: CommandContext): Promise<void> {
+  const [file] = args;
+
+  if (!file) {
+    exitWithValidationError('file', 'productive time import <file> [options]', ctx.formatter);
+  }
+
+  await runCommand(async () => {
+    const type = (ctx.options.type ? String(ctx.options.type) : detectTimesheetFormat(file)) as
+      | TimesheetFormat
+      | undefined;
+    if (!type || !TIMESHEET_FORMATS.includes(type)) {
+      throw ValidationError.invalid('type', ctx.options.type ?? file, 'expected csv, ics or json', [
+        'Use a .csv, .ics or .json file, or pass --type csv|ics|json',
+      ]);
+    }
+
+    const parsed = readTimesheet(file, type);
+
+    if (parsed.rows.length === 0) {
+      throw ValidationError.invalid(
+        'file',
+        file,
+        'no time entries found',
+        parsed.errors.slice(0, 5).map((e) => `Line ${e.line}: ${e.message}`),
+      );
+    }
+
+    const dryRun = ctx.options['dry-run'] === true;
+    const spinner = ctx.createSpinner(
+      dryRun ? 'Checking time entries...' : 'Importing time entries...',
+    );
+    spinner.start();
+
+    const execCtx = fromCommandContext(ctx);
+    const { data: result } = await importTimeEntries(
+      {
+        rows: parsed.rows,
+        personId: ctx.options.person ? String(ctx.options.person) : undefined,
+        serviceId: ctx.options.service ? String(ctx.options.service) : undefined,
+        projectId: ctx.options.project ? String(ctx.options.project) : undefined,
+        dryRun,
+        allowDuplicates: ctx.options['allow-duplicates'] === true,
+      },
+      execCtx,
+    );
+
+    spinner.succeed();
+
+    const format = (ctx.options.format || ctx.options.f || 'human') as OutputFormat;
+    if (format === 'json') {
+      ctx.formatter.output({ ...result, invalid_rows: parsed.errors });
+      return;
+    }
+
+    const rows = result.rows.map((row) => ({
+      line: row.line,
+      date: row.date,
+      duration: formatDuration(row.time),
+      project: row.project ?? '',
+      service: row.service ?? '',
+      note: row.note ?? '',
+      status: describeImportStatus(row),
+    }));
+
+    if (format !== 'human') {
+      ctx.formatter.output(rows);
+      return;
+    }
+
+    tableRenderer.render(rows, createRenderContext({ noColor: ctx.options['no-color'] === true }));
+    console.log();
+
+    for (const error of parsed.errors) {
+      ctx.formatter.warning(`Line ${error.line} skipped: ${error.message}`);
+    }
+
+    const total = `${result.created} time entries (${formatDuration(result.total_minutes)})`;
+    if (result.dry_run) {
+      ctx.formatter.info(`Dry run: ${total} would be created`);
+    } else {
+      ctx.formatter.success(`${total} created`);
+    }
+    if (result.duplicates > 0) {
+      ctx.formatter.warning(
+        `${result.duplicates} duplicate(s) skipped. Use --allow-duplicates to import them anyway`,
+      );
+    }
+    if (result.failed > 0) {
+      ctx.formatter.warning(`${result.failed} row(s) failed`);
+    }
+  }, ctx.formatter);
+}
+
+/**
+ * Parse --group-by into grouping levels (default: project, then service).
+ * `none` only keeps the grand total.
+ */
+function parseGroupBy(value: unknown): TimeExportGroupBy[] | undefined {
+  if (value === undefined || value === true) return undefined;
+  if (String(value) === 'none') return [];
+
+  const levels = String(value)
+    .split(',')
+    .map((level) => level.trim())
+    .filter(Boolean);
+  for (const level of levels) {
+    if (!TIME_EXPORT_GROUP_BY.includes(level as TimeExportGroupBy)) {
+      throw ValidationError.invalid('group-by', level, 'expected project, service or person', [
+        'Combine levels with commas, e.g. --group-by project,person',
+        'Use --group-by none to only keep the total',
+      ]);
+    }
+  }
+  return levels as TimeExportGroupBy[];
+}
+
+/**
+ * Export time entries of a period to a CSV, XLSX or iCalendar file
+ */
+export async function timeExport(ctx: CommandContext): Promise<void> {
+  await runCommand(async () => {
+    for (const key of ['from', 'to'] as const) {
+      const value = ctx.options[key];
+      if (value !== undefined && !parseDate(String(value), ctx.config.timezone)) {
+        throw ValidationError.invalidDate(String(value));
+      }
+    }
+
+    const options = parseListOptions(ctx);
+    const {
+      filter: { after: from, before: to },
+    } = resolveDateFilters(
+      buildTimeEntryFilters({
+        after: options.after,
+        before: options.before,
+        period: options.period,
+      }),
+      createDateService({ timezone: ctx.config.timezone }),
+    );
+    if (!from || !to) {
+      throw ValidationError.required('from and to', [
+        'Pass a period, e.g. --from 2024-01-01 --to 2024-01-31',
+        'Or a date range, e.g. --date "last month"',
+      ]);
+    }
+
+    const outputOption = ctx.options.output ?? ctx.options.o;
+    const output = outputOption ? String(outputOption) : undefined;
+    const requested = ctx.options.format || ctx.options.f;
+    const format = String(
+      requested ?? (output && output !== '-' ? extname(output).slice(1).toLowerCase() : 'csv'),
+    ) as TimeExportFormat;
+    if (!TIME_EXPORT_FORMATS.includes(format)) {
+      throw ValidationError.invalid('format', format, 'expected csv, xlsx or ics', [
+        'Use --format csv|xlsx|ics',
+      ]);
+    }
+    const groupBy = parseGroupBy(ctx.options['group-by']);
+    const file = output ?? `timesheet-${from}-${to}.${format}`;
+
+    const spinner = ctx.createSpinner('Exporting time entries...');
+    spinner.start();
+
+    const execCtx = fromCommandContext(ctx);
+    const { resolved } = await execCtx.resolver.resolveFilters(
+      buildTimeEntryFilters({ ...options, after: undefined, before: undefined, period: undefined }),
+    );
+
+    const result = await new TimeCollection(ctx.api).export({
+      from,
+      to,
+      format,
+      groupBy,
+      filter: resolved,
+    });
+
+    spinner.succeed();
+
+    if (file === '-') {
+      process.stdout.write(result.content);
+      return;
+    }
+
+    writeFileSync(file, result.content);
+    ctx.formatter.success(
+      `Exported ${result.entryCount} time entries (${formatDuration(result.totalMinutes)}) to ${file}`,
+    );
+  }, ctx.formatter);
+}
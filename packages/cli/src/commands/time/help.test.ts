@@ -36,4 +36,30 @@ describe('showTimeHelp', () => {
     showTimeHelp('update');
     expect(spy).toHaveBeenCalled();
   });
+
+  it('shows import subcommand help', () => {
+    showTimeHelp('import');
+    expect(spy.mock.calls[0][0]).toContain('productive time import');
+  });
+
+  it('shows export subcommand help', () => {
+    showTimeHelp('export');
+    expect(spy.mock.calls[0][0]).toContain('productive time export');
+  });
+
+  it('shows bulk-delete subcommand help', () => {
+    showTimeHelp('bulk-delete');
+    expect(spy.mock.calls[0][0]).toContain('productive time bulk-delete');
+  });
+
+  it('shows approval subcommand help', () => {
+    showTimeHelp('approvals');
+    expect(spy.mock.calls[0][0]).toContain('Show unapproved time per person');
+    showTimeHelp('submit');
+    expect(spy.mock.calls[1][0]).toContain('productive time submit');
+    showTimeHelp('reject');
+    expect(spy.mock.calls[2][0]).toContain('--reason <text>');
+    showTimeHelp('unapprove');
+    expect(spy.mock.calls[3][0]).toContain('Approved entries are selected');
+  });
 });
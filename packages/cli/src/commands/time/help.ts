@@ -4,6 +4,161 @@
 
 import { colors } from '../../utils/colors.js';
 
+function showBulkDeleteHelp(): void {
+  console.log(`
+${colors.bold('productive time bulk-delete')} - Delete every time entry matching a filter
+
+${colors.bold('USAGE:')}
+  productive time bulk-delete [filters] [options]
+
+${colors.bold('FILTERS:')}
+  Same as ${colors.cyan('productive time list')}: --date, --from, --to, --mine, --person,
+  --project, --service, --task, --status, --filter, etc.
+  At least one filter is required.
+
+${colors.bold('OPTIONS:')}
+  --dry-run           Only list the matching time entries
+  -y, --yes           Skip the confirmation (required outside a terminal)
+  --limit <n>         Refuse to run when more entries match (default: 200)
+  --concurrency <n>   Entries deleted in parallel (default: 4, max: 10)
+  -f, --format <fmt>  Output format: json, human
+
+${colors.bold('EXAMPLES:')}
+  productive time bulk-delete --mine --date today --service 123 --dry-run
+  productive time bulk-delete --mine --date "last week" --task 456
+  productive time bulk-delete --filter service_id=123 --from 2024-01-01 --yes --format json
+`);
+}
+
+const APPROVAL_SUBCOMMANDS = new Set(['approve', 'unapprove', 'reject', 'submit', 'approvals']);
+
+function showApprovalHelp(subcommand: string): void {
+  if (subcommand === 'approvals') {
+    console.log(`
+${colors.bold('productive time approvals')} - Show unapproved time per person
+
+${colors.bold('USAGE:')}
+  productive time approvals [filters] [options]
+
+${colors.bold('OPTIONS:')}
+  --date <date>       Period to look at, e.g. last-week, 2026-W42 (alias: --period)
+  --from, --to <date> Bounds of the period
+  --person <id>       Only this person (--mine for yourself)
+  --project <id>      Only this project
+  --filter <filters>  Generic filters (comma-separated key=value pairs)
+  --limit <n>         Stop after this many entries (default: 1000)
+  -f, --format <fmt>  Output format: json, human, csv, table
+
+${colors.bold('EXAMPLES:')}
+  productive time approvals --period last-week
+  productive time approvals --project 123 --format json
+`);
+  } else if (subcommand === 'submit') {
+    console.log(`
+${colors.bold('productive time submit')} - Submit timesheets for approval
+
+${colors.bold('USAGE:')}
+  productive time submit [options]
+
+${colors.bold('OPTIONS:')}
+  --date <date>       Day or period to submit, at most 31 days (default: this-week,
+                      alias: --period)
+  --person <id>       Person ID (default: from config userId)
+  -f, --format <fmt>  Output format: json, human
+
+Each day with time entries is submitted on its own; days without any are
+skipped, and days that fail are reported.
+
+${colors.bold('EXAMPLES:')}
+  productive time submit
+  productive time submit --period last-week
+  productive time submit --date yesterday
+`);
+  } else {
+    showApprovalChangeHelp(subcommand);
+  }
+}
+
+const APPROVAL_CHANGES: Record<string, { summary: string; selects: string }> = {
+  approve: { summary: 'Approve time entries', selects: 'Unapproved' },
+  unapprove: { summary: 'Take back the approval of time entries', selects: 'Approved' },
+  reject: { summary: 'Reject time entries', selects: 'Unapproved' },
+};
+
+function showApprovalChangeHelp(subcommand: string): void {
+  const { summary, selects } = APPROVAL_CHANGES[subcommand];
+  const reason =
+    subcommand === 'reject'
+      ? '\n  --reason <text>     Why the entries are rejected, shown to their author'
+      : '';
+
+  console.log(`
+${colors.bold(`productive time ${subcommand}`)} - ${summary}
+
+${colors.bold('USAGE:')}
+  productive time ${subcommand} <id>
+  productive time ${subcommand} [filters] [options]
+
+With an ID, only that entry changes. Without one, the entries matching the
+filters of ${colors.cyan('productive time list')} (--date, --from, --to, --mine, --person,
+--project, --filter, etc.) are listed, then changed once confirmed.
+${selects} entries are selected unless --status is given.
+
+${colors.bold('OPTIONS:')}${reason}
+  --dry-run           Only list the matching time entries
+  -y, --yes           Skip the confirmation (required outside a terminal)
+  --limit <n>         Refuse to run when more entries match (default: 200)
+  --concurrency <n>   Entries changed in parallel (default: 4, max: 10)
+  -f, --format <fmt>  Output format: json, human
+
+${colors.bold('EXAMPLES:')}
+  productive time ${subcommand} 12345
+  productive time ${subcommand} --person 42 --period last-week --dry-run
+  productive time ${subcommand} --project 123 --date 2026-W42 --yes
+`);
+}
+
+function showTimeOverview(): void {
+  console.log(`
+${colors.bold('productive time')} - Manage time entries
+
+${colors.bold('USAGE:')}
+  productive time <subcommand> [options]
+
+${colors.bold('ALIASES:')}
+  productive t
+
+${colors.bold('SUBCOMMANDS:')}
+  list, ls            List time entries
+  get <id>            Get time entry details
+  add                 Create a new time entry
+  update <id>         Update a time entry
+  delete, rm <id>     Delete a time entry
+  bulk-delete         Delete every time entry matching a filter
+  import <file>       Import time entries from a CSV, ICS or JSON file
+  export              Export a period to a CSV, XLSX or ICS file
+  approvals           Show unapproved time per person
+  approve [id]        Approve a time entry, or every match of the filters
+  unapprove [id]      Take back an approval
+  reject [id]         Reject a time entry, or every match of the filters
+  submit              Submit your timesheets for approval
+
+${colors.bold('COMMON OPTIONS:')}
+  -f, --format <fmt>  Output format: json, human, csv, table
+  -p, --page <num>    Page number for pagination
+  -s, --size <num>    Page size (default: 100)
+  -h, --help          Show help for a subcommand
+
+${colors.bold('EXAMPLES:')}
+  productive time list --from 2024-01-01
+  productive time add --service 123 --time 480
+  productive time get 12345
+  productive time delete 12345
+
+Run ${colors.cyan('productive time <subcommand> --help')} for subcommand details.
+`);
+}
+
 export function showTimeHelp(subcommand?: string): void {
   if (subcommand === 'list' || subcommand === 'ls') {
     console.log(`
@@ -13,9 +168,9 @@ ${colors.bold('USAGE:')}
   productive time list [options]
 
 ${colors.bold('OPTIONS:')}
-  --date <date>       Filter by date (single day or range shortcut)
+  --date <date>       Filter by date or period, e.g. this-week (alias: --period)
   --from <date>       Filter entries after this date
-  --to <date>         Filter entries before this date
+  --to <date>         Filter entries before this date (periods: their last day)
   --mine              Filter by configured user ID (shortcut for --person)
   --person <id>       Filter by person ID
   --project <id>      Filter by project ID
@@ -32,12 +187,13 @@ ${colors.bold('OPTIONS:')}
   -s, --size <num>    Page size (default: 100)
   --sort <field>      Sort by field (prefix with - for descending)
   -f, --format <fmt>  Output format: json, human, csv, table
+  --offline           Read from the local mirror (see: productive sync pull)
 
 ${colors.bold('DATE FORMATS:')}
   ISO format:         2024-01-15
   Keywords:           today, yesterday, tomorrow
-  Relative:           "2 days ago", "1 week ago", "3 months ago"
-  Ranges:             "this week", "last week", "this month", "last month"
+  Relative:           "2 days ago", "3 months ago", "last friday", "next tue"
+  Periods:            this-week, last-month, "last 7 days", ytd, q3, 2026-W42
 
 ${colors.bold('EXAMPLES:')}
   productive time list --date today
@@ -45,6 +201,7 @@ ${colors.bold('EXAMPLES:')}
   productive time list --date "last week"
   productive time list --date "this month" --project 123
   productive time list --from "3 days ago" --to today
+  productive time list --period last-month --mine
   productive time list --from 2024-01-01 --to 2024-01-31
   productive time list --status approved --mine
   productive time list --status unapproved --date "this week"
@@ -83,8 +240,13 @@ ${colors.bold('OPTIONS:')}
   --date <date>       Date (YYYY-MM-DD, default: today)
   --note <text>       Note/description
   --person <id>       Person ID (default: from config userId)
+  --offline           Queue the entry for "productive sync" without calling the API
   -f, --format <fmt>  Output format: json, human
 
+${colors.bold('INTERACTIVE:')}
+  In a terminal, a missing --service or --time is asked for, with a
+  searchable list of services. Scripts and --format json still fail fast.
+
 ${colors.bold('EXAMPLES:')}
   productive time add --service 123 --time 480 --note "Development work"
   productive time add --service 123 --time 120 --date 2024-01-15
@@ -131,36 +293,76 @@ ${colors.bold('EXAMPLES:')}
   productive time delete 12345
   productive time rm 12345 --format json
 `);
-  } else {
+  } else if (subcommand === 'bulk-delete') {
+    showBulkDeleteHelp();
+  } else if (subcommand === 'import') {
     console.log(`
-${colors.bold('productive time')} - Manage time entries
+${colors.bold('productive time import')} - Import time entries from a timesheet file
 
 ${colors.bold('USAGE:')}
-  productive time <subcommand> [options]
-
-${colors.bold('ALIASES:')}
-  productive t
+  productive time import <file> [options]
 
-${colors.bold('SUBCOMMANDS:')}
-  list, ls            List time entries
-  get <id>            Get time entry details
-  add                 Create a new time entry
-  update <id>         Update a time entry
-  delete, rm <id>     Delete a time entry
+${colors.bold('ARGUMENTS:')}
+  <file>              CSV, iCalendar (.ics) or JSON file (required)
 
-${colors.bold('COMMON OPTIONS:')}
+${colors.bold('OPTIONS:')}
+  --dry-run           Preview the entries without creating them
+  --type <type>       File type when the extension is not explicit: csv, ics, json
+  --service <name>    Service (ID or name) for rows without one
+  --project <name>    Project (ID, number or name) used to resolve service names
+  --person <id>       Person ID (default: from config userId)
+  --allow-duplicates  Import rows matching an existing entry of the same day
   -f, --format <fmt>  Output format: json, human, csv, table
-  -p, --page <num>    Page number for pagination
-  -s, --size <num>    Page size (default: 100)
-  -h, --help          Show help for a subcommand
+
+${colors.bold('FILE FORMATS:')}
+  CSV                 Header row with date, duration (or time, minutes, hours),
+                      service, project, note and task_id columns
+  iCalendar           Timed events; "[Project / Service] Note" or "[Service] Note"
+                      in the summary sets the service
+  JSON                [{ "date", "minutes" | "hours", "service", "project", "note" }]
+
+Durations accept 90, 90m, 1.5h, 1h30 or 1:30. Rows that match an existing entry
+(same day, service, duration and note) are skipped as duplicates.
 
 ${colors.bold('EXAMPLES:')}
-  productive time list --from 2024-01-01
-  productive time add --service 123 --time 480
-  productive time get 12345
-  productive time delete 12345
+  productive time import week.csv --dry-run
+  productive time import calendar.ics --project "Acme" --service Development
+  productive time import entries.json --format json
+`);
+  } else if (subcommand === 'export') {
+    console.log(`
+${colors.bold('productive time export')} - Export time entries of a period to a file
 
-Run ${colors.cyan('productive time <subcommand> --help')} for subcommand details.
+${colors.bold('USAGE:')}
+  productive time export --from <date> --to <date> [options]
+
+${colors.bold('OPTIONS:')}
+  --from <date>       Start date (YYYY-MM-DD or relative, required)
+  --to <date>         End date (YYYY-MM-DD or relative, required)
+  --date <range>      Period shortcut instead of --from/--to (e.g. "last month")
+  -f, --format <fmt>  File format: csv, xlsx, ics (default: from --output, else csv)
+  -o, --output <file> Output file, or - for stdout (default: timesheet-<from>-<to>.<fmt>)
+  --group-by <levels> Subtotal levels: project, service, person, comma-separated,
+                      or none (default: project,service)
+  --mine              Only my time entries
+  --person <id>       Filter by person
+  --project <id>      Filter by project
+  --service <id>      Filter by service
+  --company <id>      Filter by company
+  --filter <filters>  Generic filters (e.g. billing_type_id=1)
+
+Every page of the period is exported. CSV and XLSX files list the entries with
+a subtotal row after each group and a total row; iCalendar files hold one event
+per entry, laid out from 09:00 each day, which "productive time import" reads back.
+
+${colors.bold('EXAMPLES:')}
+  productive time export --from 2024-01-01 --to 2024-01-31 --format xlsx
+  productive time export --date "last month" --project "Acme" --group-by service,person
+  productive time export --date "this week" --mine -o week.ics
 `);
+  } else if (APPROVAL_SUBCOMMANDS.has(subcommand ?? '')) {
+    showApprovalHelp(subcommand as string);
+  } else {
+    showTimeOverview();
   }
 }
@@ -4,9 +4,24 @@
  * Exports:
  * - handleTimeCommand: Main command handler
  * - showTimeHelp: Help text display
- * - timeList, timeGet, timeAdd, timeUpdate, timeDelete: Individual handlers for testing
+ * - timeList, timeGet, timeAdd, timeUpdate, timeDelete, timeBulkDelete, timeImport, timeExport,
+ *   timeApprove, timeUnapprove, timeReject, timeSubmit, timeApprovals: Individual handlers for testing
  */
 
 export { handleTimeCommand } from './command.js';
 export { showTimeHelp } from './help.js';
-export { timeList, timeGet, timeAdd, timeUpdate, timeDelete } from './handlers.js';
+export {
+  timeList,
+  timeGet,
+  timeAdd,
+  timeUpdate,
+  timeDelete,
+  timeBulkDelete,
+  timeImport,
+  timeExport,
+  timeApprove,
+  timeUnapprove,
+  timeReject,
+  timeSubmit,
+  timeApprovals,
+} from './handlers.js';
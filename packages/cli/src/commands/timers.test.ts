@@ -6,6 +6,17 @@ import { createTestContext } from '../context.js';
 import { timersList, timersGet, timersStart, timersStop } from './timers/handlers.js';
 import { handleTimersCommand } from './timers/index.js';
 
+const journaled = vi.hoisted(() => [] as Array<{ kind: string; payload: Record<string, unknown> }>);
+
+vi.mock('../utils/sqlite-cache.js', () => ({
+  getSqliteCache: () => ({
+    journalAppend: async (kind: string, payload: Record<string, unknown>) => {
+      journaled.push({ kind, payload });
+      return { id: journaled.length, kind, payload, status: 'pending', error: null, queuedAt: 0 };
+    },
+  }),
+}));
+
 describe('timers command', () => {
   let consoleLogSpy: ReturnType<typeof vi.spyOn>;
 
@@ -158,6 +169,24 @@ describe('timers command', () => {
   });
 
   describe('timersStart', () => {
+    it('should hand out a local timer ID with --offline', async () => {
+      journaled.length = 0;
+      const startTimer = vi.fn();
+      const ctx = createTestContext({
+        api: { startTimer } as unknown as ProductiveApi,
+        options: { service: '6', offline: true, format: 'json' },
+      });
+
+      await timersStart(ctx);
+
+      expect(startTimer).not.toHaveBeenCalled();
+      expect(journaled[0]).toMatchObject({ kind: 'timer.start', payload: { serviceId: '6' } });
+      expect(JSON.parse(consoleLogSpy.mock.calls[0][0])).toMatchObject({
+        status: 'queued',
+        id: 'local-1',
+      });
+    });
+
     it('should start a timer with service', async () => {
       const startTimer = vi.fn().mockResolvedValue({
         data: {
@@ -252,6 +281,26 @@ describe('timers command', () => {
       expect(consoleLogSpy).toHaveBeenCalled();
     });
 
+    it('should journal stops of timers started offline', async () => {
+      journaled.length = 0;
+      const stopTimer = vi.fn();
+      const ctx = createTestContext({
+        api: { stopTimer } as unknown as ProductiveApi,
+        options: { format: 'json' },
+      });
+
+      await timersStop(['local-1'], ctx);
+
+      expect(stopTimer).not.toHaveBeenCalled();
+      expect(journaled).toEqual([
+        { kind: 'timer.stop', payload: { id: 'local-1', stoppedAt: expect.any(String) } },
+      ]);
+      expect(JSON.parse(consoleLogSpy.mock.calls[0][0])).toMatchObject({
+        status: 'queued',
+        kind: 'timer.stop',
+      });
+    });
+
     it('should exit with error when id is missing', async () => {
       const processExitSpy = vi.spyOn(process, 'exit').mockImplementation(() => undefined as never);
       const ctx = createTestContext();
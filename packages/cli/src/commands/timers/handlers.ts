@@ -19,6 +19,12 @@ import { handleError, exitWithValidationError, runCommand } from '../../error-ha
 import { ValidationError } from '../../errors.js';
 import { render, createRenderContext, humanTimerDetailRenderer } from '../../renderers/index.js';
 import { colors } from '../../utils/colors.js';
+import {
+  LOCAL_TIMER_PREFIX,
+  recordMutation,
+  reportQueuedMutation,
+  runMutation,
+} from '../../utils/mutation-journal.js';
 import { parseFilters } from '../../utils/parse-filters.js';
 
 function parseListOptions(ctx: CommandContext): ListTimersOptions {
@@ -121,18 +127,27 @@ export async function timersStart(ctx: CommandContext): Promise<void> {
   }
 
   await runCommand(async () => {
-    const execCtx = fromCommandContext(ctx);
-    const result = await startTimer(
-      {
-        serviceId: ctx.options.service ? String(ctx.options.service) : undefined,
-        timeEntryId: ctx.options['time-entry'] ? String(ctx.options['time-entry']) : undefined,
-      },
-      execCtx,
+    const options = {
+      serviceId: ctx.options.service ? String(ctx.options.service) : undefined,
+      timeEntryId: ctx.options['time-entry'] ? String(ctx.options['time-entry']) : undefined,
+    };
+    const outcome = await runMutation(
+      ctx,
+      { kind: 'timer.start', payload: { ...options, startedAt: new Date().toISOString() } },
+      (execCtx) => startTimer(options, execCtx),
     );
 
+    if (outcome.queued) {
+      spinner.stop();
+      // Offline timers get a local ID so they can be stopped before syncing
+      reportQueuedMutation(ctx, outcome.entry, {
+        id: `${LOCAL_TIMER_PREFIX}${outcome.entry.id}`,
+      });
+      return;
+    }
     spinner.succeed();
 
-    const timer = result.data;
+    const timer = outcome.data.data;
     const format = ctx.options.format || ctx.options.f || 'human';
 
     if (format === 'json') {
@@ -153,12 +168,24 @@ export async function timersStop(args: string[], ctx: CommandContext): Promise<v
   spinner.start();
 
   await runCommand(async () => {
-    const execCtx = fromCommandContext(ctx);
-    const result = await stopTimer({ id }, execCtx);
-
+    const mutation = {
+      kind: 'timer.stop' as const,
+      payload: { id, stoppedAt: new Date().toISOString() },
+    };
+
+    // Timers started offline only exist in the journal
+    const outcome = id.startsWith(LOCAL_TIMER_PREFIX)
+      ? { queued: true as const, entry: await recordMutation(ctx, mutation) }
+      : await runMutation(ctx, mutation, (execCtx) => stopTimer({ id }, execCtx));
+
+    if (outcome.queued) {
+      spinner.stop();
+      reportQueuedMutation(ctx, outcome.entry);
+      return;
+    }
     spinner.succeed();
 
-    const timer = result.data;
+    const timer = outcome.data.data;
     const format = ctx.options.format || ctx.options.f || 'human';
 
     if (format === 'json') {
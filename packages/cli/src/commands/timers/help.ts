@@ -53,6 +53,7 @@ ${colors.bold('USAGE:')}
 ${colors.bold('OPTIONS:')}
   --service <id>      Start timer for service (creates new time entry)
   --time-entry <id>   Start timer for existing time entry
+  --offline           Start a local timer, logged on "productive sync"
   -f, --format <fmt>  Output format: json, human
 
 ${colors.bold('NOTE:')}
@@ -71,9 +72,10 @@ ${colors.bold('USAGE:')}
   productive timers stop <id>
 
 ${colors.bold('ARGUMENTS:')}
-  <id>                Timer ID (required)
+  <id>                Timer ID (required), or local-<n> for a timer started offline
 
 ${colors.bold('OPTIONS:')}
+  --offline           Queue the stop for "productive sync" without calling the API
   -f, --format <fmt>  Output format: json, human
 
 ${colors.bold('EXAMPLES:')}
@@ -0,0 +1,63 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+import { createTestContext } from '../context.js';
+import { tuiRun } from './tui/handlers.js';
+
+const mocks = vi.hoisted(() => ({ runTui: vi.fn() }));
+
+vi.mock('../tui/app.js', () => ({ runTui: mocks.runTui }));
+vi.mock('../tui/terminal.js', () => ({ createTerminal: () => ({}) }));
+
+function setTTY(value: boolean) {
+  process.stdin.isTTY = value;
+  process.stdout.isTTY = value;
+}
+
+describe('tui command', () => {
+  let processExitSpy: ReturnType<typeof vi.spyOn>;
+  const tty = { stdin: process.stdin.isTTY, stdout: process.stdout.isTTY };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    processExitSpy = vi.spyOn(process, 'exit').mockImplementation(() => undefined as never);
+  });
+
+  afterEach(() => {
+    process.stdin.isTTY = tty.stdin;
+    process.stdout.isTTY = tty.stdout;
+    vi.restoreAllMocks();
+  });
+
+  it('opens the dashboard on a terminal', async () => {
+    setTTY(true);
+    const ctx = createTestContext();
+
+    await tuiRun(ctx);
+
+    expect(mocks.runTui).toHaveBeenCalledWith(ctx, expect.any(Object));
+    expect(processExitSpy).not.toHaveBeenCalled();
+  });
+
+  it('requires an interactive terminal', async () => {
+    setTTY(false);
+
+    await tuiRun(createTestContext());
+
+    expect(mocks.runTui).not.toHaveBeenCalled();
+    expect(processExitSpy).toHaveBeenCalledWith(3);
+  });
+
+  it('requires a user ID', async () => {
+    setTTY(true);
+    const ctx = createTestContext({
+      config: { apiToken: 'token', organizationId: '1', baseUrl: 'https://api.productive.io' },
+    });
+
+    await tuiRun(ctx);
+
+    expect(mocks.runTui).not.toHaveBeenCalled();
+    expect(processExitSpy).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,15 @@
+/**
+ * Tui command entry point
+ */
+
+import { createContext, type CommandOptions } from '../../context.js';
+import { tuiRun } from './handlers.js';
+
+/**
+ * Handle tui command
+ */
+export async function handleTuiCommand(
+  options: Record<string, string | boolean | string[]>,
+): Promise<void> {
+  await tuiRun(createContext(options as CommandOptions));
+}
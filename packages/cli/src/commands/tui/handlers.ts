@@ -0,0 +1,33 @@
+/**
+ * CLI adapter for the tui command.
+ */
+
+import type { CommandContext } from '../../context.js';
+
+import { runCommand } from '../../error-handler.js';
+import { ConfigError, ValidationError } from '../../errors.js';
+import { runTui } from '../../tui/app.js';
+import { createTerminal } from '../../tui/terminal.js';
+
+/**
+ * Open the dashboard on the current terminal
+ */
+export async function tuiRun(ctx: CommandContext): Promise<void> {
+  await runCommand(async () => {
+    if (!process.stdin.isTTY || !process.stdout.isTTY) {
+      throw ValidationError.invalid(
+        'terminal',
+        undefined,
+        'productive tui needs an interactive terminal',
+        [
+          'Use "productive time list", "productive timers list" or "productive tasks list --mine" in scripts',
+        ],
+      );
+    }
+    if (!ctx.config.userId) {
+      throw ConfigError.missingUserId();
+    }
+
+    await runTui(ctx, createTerminal());
+  }, ctx.formatter);
+}
@@ -0,0 +1,16 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+
+import { showTuiHelp } from './help.js';
+
+describe('showTuiHelp', () => {
+  const spy = vi.spyOn(console, 'log').mockImplementation(() => {});
+  afterEach(() => spy.mockClear());
+
+  it('lists the keyboard shortcuts', () => {
+    showTuiHelp();
+    const output = spy.mock.calls[0][0];
+    expect(output).toContain('productive tui');
+    expect(output).toContain('Log time on a service');
+    expect(output).toContain('q, ctrl+c');
+  });
+});
@@ -0,0 +1,34 @@
+/**
+ * Help text for tui command
+ */
+
+import { colors } from '../../utils/colors.js';
+
+export function showTuiHelp(): void {
+  console.log(`
+${colors.bold('productive tui')} - Full-screen dashboard for daily time tracking
+
+${colors.bold('USAGE:')}
+  productive tui [options]
+
+${colors.bold('DESCRIPTION:')}
+  Shows today's time entries, the running timer, your open tasks and
+  the hours logged this week, refreshed after every change. Requires
+  an interactive terminal and a configured user ID.
+
+${colors.bold('KEYS:')}
+  tab          Switch between today's entries and tasks
+  ↑ ↓ / j k    Move the selection
+  s            Start a timer on a service (fuzzy search), or stop it
+  enter        Resume the timer of the selected entry, or change the
+               workflow status of the selected task
+  l            Log time on a service (fuzzy search)
+  r            Reload
+  ?            Show the shortcuts
+  q, ctrl+c    Quit
+
+${colors.bold('OPTIONS:')}
+  --profile <name>  Credential profile to use
+  --no-color        Disable colored output
+`);
+}
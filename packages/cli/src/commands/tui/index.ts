@@ -0,0 +1,12 @@
+/**
+ * Tui command module
+ *
+ * Exports:
+ * - handleTuiCommand: Main command handler
+ * - showTuiHelp: Help text display
+ * - tuiRun: Handler for testing
+ */
+
+export { handleTuiCommand } from './command.js';
+export { showTuiHelp } from './help.js';
+export { tuiRun } from './handlers.js';
@@ -0,0 +1,212 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+import type { ProductiveApi } from '../api.js';
+
+import { createTestContext } from '../context.js';
+import {
+  workflowStatusesList,
+  workflowStatusesGet,
+  workflowStatusesAdd,
+  workflowStatusesUpdate,
+} from './workflow-statuses/handlers.js';
+import { handleWorkflowStatusesCommand } from './workflow-statuses/index.js';
+
+const mockStatus = {
+  id: '1',
+  type: 'workflow_statuses',
+  attributes: { name: 'In review', position: 3, category_id: 2, color_id: 4 },
+  relationships: { workflow: { data: { type: 'workflows', id: '42' } } },
+};
+
+describe('workflow-statuses command', () => {
+  let consoleLogSpy: ReturnType<typeof vi.spyOn>;
+
+  beforeEach(() => {
+    consoleLogSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe('workflowStatusesList', () => {
+    it('should list workflow statuses in position order', async () => {
+      const getWorkflowStatuses = vi.fn().mockResolvedValue({
+        data: [mockStatus],
+        meta: { total: 1, page: 1, per_page: 100 },
+      });
+
+      const ctx = createTestContext({
+        api: { getWorkflowStatuses } as unknown as ProductiveApi,
+        options: { workflow: '42', category: 'started' },
+      });
+
+      await workflowStatusesList(ctx);
+
+      expect(getWorkflowStatuses).toHaveBeenCalledWith({
+        page: 1,
+        perPage: 100,
+        sort: 'position',
+        filter: { workflow_id: '42', category_id: '2' },
+      });
+      expect(consoleLogSpy).toHaveBeenCalled();
+    });
+
+    it('should list the statuses of a project workflow', async () => {
+      const getProject = vi.fn().mockResolvedValue({
+        data: {
+          id: '5',
+          type: 'projects',
+          attributes: { name: 'Website' },
+          relationships: { workflow: { data: { type: 'workflows', id: '42' } } },
+        },
+      });
+      const getWorkflowStatuses = vi.fn().mockResolvedValue({ data: [], meta: {} });
+
+      const ctx = createTestContext({
+        api: { getProject, getWorkflowStatuses } as unknown as ProductiveApi,
+        options: { project: '5', format: 'json' },
+      });
+
+      await workflowStatusesList(ctx);
+
+      expect(getWorkflowStatuses).toHaveBeenCalledWith(
+        expect.objectContaining({ filter: { workflow_id: '42' } }),
+      );
+    });
+
+    it('should list workflow statuses in csv format', async () => {
+      const getWorkflowStatuses = vi.fn().mockResolvedValue({ data: [mockStatus], meta: {} });
+      const ctx = createTestContext({
+        api: { getWorkflowStatuses } as unknown as ProductiveApi,
+        options: { format: 'csv' },
+      });
+      await workflowStatusesList(ctx);
+      expect(consoleLogSpy).toHaveBeenCalled();
+    });
+  });
+
+  describe('workflowStatusesGet', () => {
+    it('should get a workflow status by id', async () => {
+      const getWorkflowStatus = vi.fn().mockResolvedValue({ data: mockStatus, included: [] });
+
+      const ctx = createTestContext({
+        api: { getWorkflowStatus } as unknown as ProductiveApi,
+      });
+
+      await workflowStatusesGet(['1'], ctx);
+
+      expect(getWorkflowStatus).toHaveBeenCalledWith('1', { include: ['workflow'] });
+      expect(consoleLogSpy).toHaveBeenCalled();
+    });
+
+    it('should exit with error when id is missing', async () => {
+      const processExitSpy = vi.spyOn(process, 'exit').mockImplementation(() => undefined as never);
+      const ctx = createTestContext();
+
+      try {
+        await workflowStatusesGet([], ctx);
+      } catch {
+        // exitWithValidationError throws
+      }
+
+      expect(processExitSpy).toHaveBeenCalledWith(3);
+    });
+  });
+
+  describe('workflowStatusesAdd', () => {
+    it('should create a workflow status with a category label', async () => {
+      const createWorkflowStatus = vi.fn().mockResolvedValue({ data: mockStatus });
+
+      const ctx = createTestContext({
+        api: { createWorkflowStatus } as unknown as ProductiveApi,
+        options: {
+          name: 'In review',
+          workflow: '42',
+          category: 'started',
+          position: '3',
+          format: 'json',
+        },
+      });
+
+      await workflowStatusesAdd(ctx);
+
+      expect(createWorkflowStatus).toHaveBeenCalledWith({
+        name: 'In review',
+        workflow_id: '42',
+        category_id: 2,
+        position: 3,
+        color_id: undefined,
+      });
+      expect(consoleLogSpy).toHaveBeenCalled();
+    });
+
+    it('should exit with error when workflow is missing', async () => {
+      const processExitSpy = vi.spyOn(process, 'exit').mockImplementation(() => undefined as never);
+
+      const ctx = createTestContext({
+        options: { name: 'In review', category: 'started', format: 'json' },
+      });
+
+      await workflowStatusesAdd(ctx);
+
+      expect(processExitSpy).toHaveBeenCalledWith(3);
+    });
+
+    it('should exit with error when category is invalid', async () => {
+      const processExitSpy = vi.spyOn(process, 'exit').mockImplementation(() => undefined as never);
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+      const createWorkflowStatus = vi.fn();
+
+      const ctx = createTestContext({
+        api: { createWorkflowStatus } as unknown as ProductiveApi,
+        options: { name: 'In review', workflow: '42', category: 'paused' },
+      });
+
+      await workflowStatusesAdd(ctx);
+
+      expect(createWorkflowStatus).not.toHaveBeenCalled();
+      expect(processExitSpy).toHaveBeenCalled();
+    });
+  });
+
+  describe('workflowStatusesUpdate', () => {
+    it('should move a status to another column position', async () => {
+      const updateWorkflowStatus = vi.fn().mockResolvedValue({ data: mockStatus });
+
+      const ctx = createTestContext({
+        api: { updateWorkflowStatus } as unknown as ProductiveApi,
+        options: { position: '1', format: 'json' },
+      });
+
+      await workflowStatusesUpdate(['1'], ctx);
+
+      expect(updateWorkflowStatus).toHaveBeenCalledWith('1', { position: 1 });
+    });
+
+    it('should exit with error when no updates specified', async () => {
+      const processExitSpy = vi.spyOn(process, 'exit').mockImplementation(() => undefined as never);
+
+      const ctx = createTestContext({ options: { format: 'json' } });
+
+      await workflowStatusesUpdate(['1'], ctx);
+
+      expect(processExitSpy).toHaveBeenCalled();
+    });
+  });
+
+  describe('command routing', () => {
+    it('should exit with error for unknown subcommand', async () => {
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+      const processExitSpy = vi.spyOn(process, 'exit').mockImplementation(() => undefined as never);
+
+      await handleWorkflowStatusesCommand('unknown', [], {
+        format: 'json',
+        token: 'test-token',
+        'org-id': 'test-org',
+      });
+
+      expect(processExitSpy).toHaveBeenCalledWith(1);
+    });
+  });
+});
@@ -0,0 +1,26 @@
+/**
+ * Workflow statuses command entry point
+ */
+
+import { createCommandRouter } from '../../utils/command-router.js';
+import {
+  workflowStatusesList,
+  workflowStatusesGet,
+  workflowStatusesAdd,
+  workflowStatusesUpdate,
+} from './handlers.js';
+
+/**
+ * Handle workflow-statuses command
+ */
+export const handleWorkflowStatusesCommand = createCommandRouter({
+  resource: 'workflow-statuses',
+  handlers: {
+    list: workflowStatusesList,
+    ls: workflowStatusesList,
+    get: [workflowStatusesGet, 'args'],
+    add: workflowStatusesAdd,
+    create: workflowStatusesAdd,
+    update: [workflowStatusesUpdate, 'args'],
+  },
+});
@@ -0,0 +1,233 @@
+/**
+ * CLI adapter for workflow-statuses command handlers.
+ */
+
+import { formatWorkflowStatus, formatListResponse } from '@studiometa/productive-api';
+import {
+  fromCommandContext,
+  listWorkflowStatuses,
+  getWorkflowStatus,
+  createWorkflowStatus,
+  updateWorkflowStatus,
+  ExecutorValidationError,
+  type ListWorkflowStatusesOptions,
+} from '@studiometa/productive-core';
+
+import type { CommandContext } from '../../context.js';
+import type { OutputFormat } from '../../types.js';
+
+import { handleError, exitWithValidationError, runCommand } from '../../error-handler.js';
+import { ValidationError } from '../../errors.js';
+import {
+  render,
+  createRenderContext,
+  humanWorkflowStatusDetailRenderer,
+} from '../../renderers/index.js';
+import { colors } from '../../utils/colors.js';
+import { parseFilters } from '../../utils/parse-filters.js';
+
+function parseListOptions(ctx: CommandContext): ListWorkflowStatusesOptions {
+  const options: ListWorkflowStatusesOptions = {};
+
+  const additionalFilters: Record<string, string> = {};
+  if (ctx.options.filter)
+    Object.assign(additionalFilters, parseFilters(String(ctx.options.filter)));
+  if (Object.keys(additionalFilters).length > 0) options.additionalFilters = additionalFilters;
+
+  if (ctx.options.workflow) options.workflowId = String(ctx.options.workflow);
+  if (ctx.options.project) options.projectId = String(ctx.options.project);
+  if (ctx.options.category) options.category = String(ctx.options.category);
+
+  const { page, perPage } = ctx.getPagination();
+  options.page = page;
+  options.perPage = perPage;
+  if (ctx.getSort()) options.sort = ctx.getSort();
+
+  return options;
+}
+
+/**
+ * Parse a positive integer option such as --position or --color
+ */
+function parsePositiveInt(name: string, value: unknown): number {
+  const parsed = Number.parseInt(String(value), 10);
+  if (!Number.isInteger(parsed) || parsed < 1) {
+    throw ValidationError.invalid(name, value, 'must be a positive integer');
+  }
+  return parsed;
+}
+
+/**
+ * Surface an invalid --category as a CLI validation error
+ */
+function toCategoryError(error: unknown, value: unknown): unknown {
+  if (error instanceof ExecutorValidationError && error.field === 'category') {
+    return ValidationError.invalid('category', value, 'must be not_started, started or closed');
+  }
+  return error;
+}
+
+export async function workflowStatusesList(ctx: CommandContext): Promise<void> {
+  const spinner = ctx.createSpinner('Fetching workflow statuses...');
+  spinner.start();
+
+  await runCommand(async () => {
+    const execCtx = fromCommandContext(ctx);
+    const result = await listWorkflowStatuses(parseListOptions(ctx), execCtx);
+
+    spinner.succeed();
+
+    const format = (ctx.options.format || ctx.options.f || 'human') as OutputFormat;
+    const formattedData = formatListResponse(result.data, formatWorkflowStatus, result.meta, {
+      included: result.included,
+    });
+
+    if (format === 'csv' || format === 'table') {
+      const data = formattedData.data.map((s) => ({
+        id: s.id,
+        position: s.position ?? '',
+        name: s.name,
+        category: s.category,
+        workflow: s.workflow_id || '',
+      }));
+      ctx.formatter.output(data);
+    } else {
+      const renderCtx = createRenderContext({ noColor: ctx.options['no-color'] === true });
+      render('workflow_status', format, formattedData, renderCtx);
+    }
+  }, ctx.formatter);
+}
+
+export async function workflowStatusesGet(args: string[], ctx: CommandContext): Promise<void> {
+  const [id] = args;
+  if (!id) exitWithValidationError('id', 'productive workflow-statuses get <id>', ctx.formatter);
+
+  const spinner = ctx.createSpinner('Fetching workflow status...');
+  spinner.start();
+
+  await runCommand(async () => {
+    const execCtx = fromCommandContext(ctx);
+    const result = await getWorkflowStatus({ id }, execCtx);
+
+    spinner.succeed();
+
+    const format = (ctx.options.format || ctx.options.f || 'human') as OutputFormat;
+    const formattedData = formatWorkflowStatus(result.data, { included: result.included });
+
+    if (format === 'json') {
+      ctx.formatter.output(formattedData);
+    } else {
+      const renderCtx = createRenderContext({ noColor: ctx.options['no-color'] === true });
+      humanWorkflowStatusDetailRenderer.render(formattedData, renderCtx);
+    }
+  }, ctx.formatter);
+}
+
+export async function workflowStatusesAdd(ctx: CommandContext): Promise<void> {
+  const spinner = ctx.createSpinner('Creating workflow status...');
+  spinner.start();
+
+  for (const field of ['name', 'workflow', 'category']) {
+    if (!ctx.options[field]) {
+      spinner.fail();
+      handleError(ValidationError.required(field), ctx.formatter);
+      return;
+    }
+  }
+
+  await runCommand(async () => {
+    const execCtx = fromCommandContext(ctx);
+
+    try {
+      const result = await createWorkflowStatus(
+        {
+          name: String(ctx.options.name),
+          workflowId: String(ctx.options.workflow),
+          category: String(ctx.options.category),
+          position:
+            ctx.options.position !== undefined
+              ? parsePositiveInt('position', ctx.options.position)
+              : undefined,
+          colorId:
+            ctx.options.color !== undefined
+              ? parsePositiveInt('color', ctx.options.color)
+              : undefined,
+        },
+        execCtx,
+      );
+
+      spinner.succeed();
+
+      const status = result.data;
+      const format = ctx.options.format || ctx.options.f || 'human';
+
+      if (format === 'json') {
+        ctx.formatter.output({ success: true, ...formatWorkflowStatus(status) });
+      } else {
+        ctx.formatter.success('Workflow status created');
+        console.log(colors.cyan('ID:'), status.id);
+        console.log(colors.cyan('Name:'), status.attributes.name);
+      }
+    } catch (error) {
+      spinner.fail();
+      throw toCategoryError(error, ctx.options.category);
+    }
+  }, ctx.formatter);
+}
+
+export async function workflowStatusesUpdate(args: string[], ctx: CommandContext): Promise<void> {
+  const [id] = args;
+  if (!id) {
+    exitWithValidationError(
+      'id',
+      'productive workflow-statuses update <id> [options]',
+      ctx.formatter,
+    );
+  }
+
+  const spinner = ctx.createSpinner('Updating workflow status...');
+  spinner.start();
+
+  await runCommand(async () => {
+    const execCtx = fromCommandContext(ctx);
+
+    try {
+      const result = await updateWorkflowStatus(
+        {
+          id,
+          name: ctx.options.name !== undefined ? String(ctx.options.name) : undefined,
+          category: ctx.options.category !== undefined ? String(ctx.options.category) : undefined,
+          position:
+            ctx.options.position !== undefined
+              ? parsePositiveInt('position', ctx.options.position)
+              : undefined,
+          colorId:
+            ctx.options.color !== undefined
+              ? parsePositiveInt('color', ctx.options.color)
+              : undefined,
+        },
+        execCtx,
+      );
+
+      spinner.succeed();
+
+      const format = ctx.options.format || ctx.options.f || 'human';
+      if (format === 'json') {
+        ctx.formatter.output({ status: 'success', id: result.data.id });
+      } else {
+        ctx.formatter.success(`Workflow status ${id} updated`);
+      }
+    } catch (error) {
+      if (error instanceof ExecutorValidationError) {
+        spinner.fail();
+        if (error.field === 'category') throw toCategoryError(error, ctx.options.category);
+        throw ValidationError.invalid(
+          'options',
+          {},
+          'No updates specified. Use --name, --category, --position or --color.',
+        );
+      }
+      throw error;
+    }
+  }, ctx.formatter);
+}
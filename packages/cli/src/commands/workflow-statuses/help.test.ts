@@ -0,0 +1,30 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+
+import { showWorkflowStatusesHelp } from './help.js';
+
+describe('showWorkflowStatusesHelp', () => {
+  const spy = vi.spyOn(console, 'log').mockImplementation(() => {});
+  afterEach(() => spy.mockClear());
+
+  it('shows general help with no argument', () => {
+    showWorkflowStatusesHelp();
+    const output = spy.mock.calls[0][0];
+    expect(output).toContain('productive workflow-statuses');
+    expect(output).toContain('list, ls');
+    expect(output).toContain('update <id>');
+  });
+
+  it.each([
+    ['list', 'productive workflow-statuses list', '--project'],
+    ['ls', 'productive workflow-statuses list', '--category'],
+    ['get', 'productive workflow-statuses get', '<id>'],
+    ['add', 'productive workflow-statuses add', '--workflow'],
+    ['create', 'productive workflow-statuses add', '--category'],
+    ['update', 'productive workflow-statuses update', '--position'],
+  ])('shows %s help', (subcommand, title, option) => {
+    showWorkflowStatusesHelp(subcommand);
+    const output = spy.mock.calls[0][0];
+    expect(output).toContain(title);
+    expect(output).toContain(option);
+  });
+});
@@ -0,0 +1,112 @@
+/**
+ * Help text for workflow-statuses command
+ */
+
+import { colors } from '../../utils/colors.js';
+
+export function showWorkflowStatusesHelp(subcommand?: string): void {
+  if (subcommand === 'list' || subcommand === 'ls') {
+    console.log(`
+${colors.bold('productive workflow-statuses list')} - List workflow statuses
+
+${colors.bold('USAGE:')}
+  productive workflow-statuses list [options]
+
+${colors.bold('OPTIONS:')}
+  --workflow <id>       Filter by workflow ID
+  --project <id>        Use the workflow of this project (ID or number)
+  --category <cat>      Filter by category: not_started, started, closed
+  --filter <filters>    Generic filters (comma-separated key=value pairs)
+  -p, --page <num>      Page number (default: 1)
+  -s, --size <num>      Page size (default: 100)
+  --sort <field>        Sort by field (default: position)
+  -f, --format <fmt>    Output format: json, human, csv, table
+
+${colors.bold('EXAMPLES:')}
+  productive workflow-statuses list --project PRJ-123
+  productive workflow-statuses list --workflow 42 --category closed
+`);
+  } else if (subcommand === 'get') {
+    console.log(`
+${colors.bold('productive workflow-statuses get')} - Get workflow status details
+
+${colors.bold('USAGE:')}
+  productive workflow-statuses get <id>
+
+${colors.bold('ARGUMENTS:')}
+  <id>                Workflow status ID (required)
+
+${colors.bold('OPTIONS:')}
+  -f, --format <fmt>  Output format: json, human
+
+${colors.bold('EXAMPLES:')}
+  productive workflow-statuses get 12345
+`);
+  } else if (subcommand === 'add' || subcommand === 'create') {
+    console.log(`
+${colors.bold('productive workflow-statuses add')} - Add a status to a workflow
+
+${colors.bold('USAGE:')}
+  productive workflow-statuses add --name <text> --workflow <id> --category <cat> [options]
+
+${colors.bold('OPTIONS:')}
+  --name <text>         Status name (required)
+  --workflow <id>       Workflow ID (required)
+  --category <cat>      Category: not_started, started, closed (required)
+  --position <num>      Column position within the workflow
+  --color <id>          Color ID
+  -f, --format <fmt>    Output format: json, human
+
+${colors.bold('EXAMPLES:')}
+  productive workflow-statuses add --name "In review" --workflow 42 --category started
+  productive workflow-statuses add --name "Done" --workflow 42 --category closed --position 5
+`);
+  } else if (subcommand === 'update') {
+    console.log(`
+${colors.bold('productive workflow-statuses update')} - Rename, recategorize or reorder a status
+
+${colors.bold('USAGE:')}
+  productive workflow-statuses update <id> [options]
+
+${colors.bold('ARGUMENTS:')}
+  <id>                  Workflow status ID (required)
+
+${colors.bold('OPTIONS:')}
+  --name <text>         New name
+  --category <cat>      Category: not_started, started, closed
+  --position <num>      New column position within the workflow
+  --color <id>          Color ID
+  -f, --format <fmt>    Output format: json, human
+
+${colors.bold('EXAMPLES:')}
+  productive workflow-statuses update 12345 --name "QA"
+  productive workflow-statuses update 12345 --position 2
+`);
+  } else {
+    console.log(`
+${colors.bold('productive workflow-statuses')} - Manage workflow statuses (kanban columns)
+
+${colors.bold('USAGE:')}
+  productive workflow-statuses <subcommand> [options]
+
+${colors.bold('SUBCOMMANDS:')}
+  list, ls            List workflow statuses
+  get <id>            Get workflow status details
+  add, create         Add a status to a workflow
+  update <id>         Rename, recategorize or reorder a status
+
+${colors.bold('COMMON OPTIONS:')}
+  -f, --format <fmt>  Output format: json, human, csv, table
+  -p, --page <num>    Page number for pagination
+  -s, --size <num>    Page size (default: 100)
+  -h, --help          Show help for a subcommand
+
+${colors.bold('EXAMPLES:')}
+  productive workflow-statuses list --project PRJ-123
+  productive workflow-statuses add --name "In review" --workflow 42 --category started
+  productive workflow-statuses update 12345 --position 2
+
+Run ${colors.cyan('productive workflow-statuses <subcommand> --help')} for subcommand details.
+`);
+  }
+}
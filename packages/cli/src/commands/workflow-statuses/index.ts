@@ -0,0 +1,2 @@
+export { handleWorkflowStatusesCommand } from './command.js';
+export { showWorkflowStatusesHelp } from './help.js';
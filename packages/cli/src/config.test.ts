@@ -7,6 +7,12 @@ import {
   showConfig,
   validateConfig,
   deleteConfigValue,
+  getActiveProfile,
+  hasProfile,
+  listProfiles,
+  addProfile,
+  useProfile,
+  removeProfile,
 } from './config.js';
 import * as keychainStore from './utils/keychain-store.js';
 
@@ -186,7 +192,11 @@ describe('config with keychain available', () => {
 
     const result = setConfig('apiToken', 'my-secret-token');
 
-    expect(keychainStore.setKeychainValue).toHaveBeenCalledWith('apiToken', 'my-secret-token');
+    expect(keychainStore.setKeychainValue).toHaveBeenCalledWith(
+      'apiToken',
+      'my-secret-token',
+      'default',
+    );
     expect(result.stored).toBe(true);
     expect(result.location).toBe('macOS Keychain');
   });
@@ -224,7 +234,7 @@ describe('config with keychain available', () => {
     const config = getConfig();
 
     expect(config.apiToken).toBe('keychain-token');
-    expect(keychainStore.getKeychainValue).toHaveBeenCalledWith('apiToken');
+    expect(keychainStore.getKeychainValue).toHaveBeenCalledWith('apiToken', 'default');
   });
 
   it('should clear keychain value when clearConfig is called with keychain available', () => {
@@ -232,7 +242,7 @@ describe('config with keychain available', () => {
 
     clearConfig();
 
-    expect(keychainStore.deleteKeychainValue).toHaveBeenCalledWith('apiToken');
+    expect(keychainStore.deleteKeychainValue).toHaveBeenCalledWith('apiToken', 'default');
   });
 
   it('should not call keychain when clearConfig is called and keychain not available', () => {
@@ -248,7 +258,7 @@ describe('config with keychain available', () => {
 
     deleteConfigValue('apiToken');
 
-    expect(keychainStore.deleteKeychainValue).toHaveBeenCalledWith('apiToken');
+    expect(keychainStore.deleteKeychainValue).toHaveBeenCalledWith('apiToken', 'default');
   });
 
   it('should only delete from config file for non-secure keys via deleteConfigValue', () => {
@@ -314,3 +324,82 @@ describe('config with keychain available', () => {
     expect(config.organizationId).toBe('org-alias-id');
   });
 });
+
+describe('config profiles', () => {
+  const originalEnv = { ...process.env };
+
+  beforeEach(() => {
+    delete process.env.PRODUCTIVE_API_TOKEN;
+    delete process.env.PRODUCTIVE_ORG_ID;
+    delete process.env.PRODUCTIVE_USER_ID;
+    delete process.env.PRODUCTIVE_BASE_URL;
+    delete process.env.PRODUCTIVE_PROFILE;
+
+    vi.mocked(keychainStore.isKeychainAvailable).mockReturnValue(false);
+    vi.mocked(keychainStore.getKeychainValue).mockReturnValue(null);
+    clearConfig();
+
+    setConfig('organizationId', 'default-org');
+    addProfile('sandbox');
+    setConfig('organizationId', 'sandbox-org', { profile: 'sandbox' });
+  });
+
+  afterEach(() => {
+    process.env = { ...originalEnv };
+  });
+
+  it('should use the default profile unless another one is selected', () => {
+    expect(getActiveProfile()).toBe('default');
+    expect(getConfig()).toMatchObject({ organizationId: 'default-org', profile: 'default' });
+  });
+
+  it('should read the profile given with --profile or PRODUCTIVE_PROFILE', () => {
+    expect(getConfig({ profile: 'sandbox' }).organizationId).toBe('sandbox-org');
+
+    process.env.PRODUCTIVE_PROFILE = 'sandbox';
+    expect(getConfig()).toMatchObject({ organizationId: 'sandbox-org', profile: 'sandbox' });
+    expect(getConfig({ profile: 'default' }).organizationId).toBe('default-org');
+  });
+
+  it('should keep profile values apart from the default ones', () => {
+    expect(showConfig()).toMatchObject({
+      organizationId: 'default-org',
+      profiles: { sandbox: { organizationId: 'sandbox-org' } },
+    });
+  });
+
+  it('should switch the active profile', () => {
+    useProfile('sandbox');
+    expect(getConfig().organizationId).toBe('sandbox-org');
+    expect(listProfiles().map(({ name, active }) => [name, active])).toEqual([
+      ['default', false],
+      ['sandbox', true],
+    ]);
+
+    useProfile('default');
+    expect(showConfig().activeProfile).toBeUndefined();
+  });
+
+  it('should scope keychain tokens by profile', () => {
+    vi.mocked(keychainStore.getKeychainValue).mockImplementation((key, profile) =>
+      profile === 'sandbox' ? 'sandbox-token' : null,
+    );
+
+    expect(getConfig({ profile: 'sandbox' }).apiToken).toBe('sandbox-token');
+    expect(getConfig().apiToken).toBeUndefined();
+  });
+
+  it('should remove a profile with its token', () => {
+    useProfile('sandbox');
+    removeProfile('sandbox');
+
+    expect(hasProfile('sandbox')).toBe(false);
+    expect(keychainStore.deleteKeychainValue).toHaveBeenCalledWith('apiToken', 'sandbox');
+    expect(getActiveProfile()).toBe('default');
+  });
+
+  it('should report unknown profiles', () => {
+    expect(hasProfile('default')).toBe(true);
+    expect(hasProfile('missing')).toBe(false);
+  });
+});
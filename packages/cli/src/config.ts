@@ -1,4 +1,13 @@
-import { ConfigStore } from '@studiometa/productive-api';
+import {
+  ConfigStore,
+  DEFAULT_PROFILE,
+  listProfileNames,
+  patchProfiles,
+  readProfile,
+  resolveProfileName,
+  type ProfileKey,
+  type StoredConfig,
+} from '@studiometa/productive-api';
 
 import type { ProductiveConfig } from './types.js';
 
@@ -11,22 +20,40 @@ import {
   getKeychainBackend,
 } from './utils/keychain-store.js';
 
-const config = new ConfigStore<ProductiveConfig>('productive-cli');
+const config = new ConfigStore<StoredConfig>('productive-cli');
 
 /**
- * Get a config value, checking keychain first for secure keys
+ * Get the credential profile to use:
+ * 1. --profile flag (highest priority)
+ * 2. PRODUCTIVE_PROFILE environment variable
+ * 3. Profile selected with `productive config profile use`
+ * 4. The default profile
  */
-function getConfigValue(key: keyof ProductiveConfig): string | undefined {
-  const keyStr = String(key);
+export function getActiveProfile(cliOptions?: Record<string, string | boolean | string[]>): string {
+  const explicit = typeof cliOptions?.profile === 'string' ? cliOptions.profile : undefined;
+  return resolveProfileName(config.store, explicit);
+}
+
+/**
+ * Check whether a profile exists (the default profile always does)
+ */
+export function hasProfile(profile: string): boolean {
+  return readProfile(config.store, profile) !== undefined;
+}
+
+/**
+ * Get a config value of a profile, checking keychain first for secure keys
+ */
+function getConfigValue(key: ProfileKey, profile: string): string | undefined {
   // For secure keys, try keychain first
-  if (isSecureKey(keyStr)) {
-    const keychainValue = getKeychainValue(keyStr);
+  if (isSecureKey(key)) {
+    const keychainValue = getKeychainValue(key, profile);
     if (keychainValue) {
       return keychainValue;
     }
   }
   // Fall back to config file
-  return config.get(key);
+  return readProfile(config.store, profile)?.[key];
 }
 
 /**
@@ -35,91 +62,167 @@ function getConfigValue(key: keyof ProductiveConfig): string | undefined {
  * 2. Environment variables
  * 3. Keychain (for secure keys)
  * 4. Config file (lowest priority)
+ *
+ * Keychain and config file values come from the active profile.
  */
 export function getConfig(
   cliOptions?: Record<string, string | boolean | string[]>,
 ): ProductiveConfig {
+  const profile = getActiveProfile(cliOptions);
+
   return {
     apiToken:
       (cliOptions?.['api-token'] as string) ||
       (cliOptions?.token as string) ||
       process.env.PRODUCTIVE_API_TOKEN ||
-      getConfigValue('apiToken'),
+      getConfigValue('apiToken', profile),
     organizationId:
       (cliOptions?.['org-id'] as string) ||
       (cliOptions?.['organization-id'] as string) ||
       process.env.PRODUCTIVE_ORG_ID ||
-      getConfigValue('organizationId'),
+      getConfigValue('organizationId', profile),
     userId:
       (cliOptions?.['user-id'] as string) ||
       process.env.PRODUCTIVE_USER_ID ||
-      getConfigValue('userId'),
+      getConfigValue('userId', profile),
     baseUrl:
       (cliOptions?.['base-url'] as string) ||
       process.env.PRODUCTIVE_BASE_URL ||
-      getConfigValue('baseUrl') ||
+      getConfigValue('baseUrl', profile) ||
       'https://api.productive.io/api/v2',
+    timezone: process.env.PRODUCTIVE_TIMEZONE || getConfigValue('timezone', profile),
+    profile,
   };
 }
 
+/**
+ * Write a value to the config file section of a profile
+ */
+function writeProfileValue(key: ProfileKey, value: string | undefined, profile: string): void {
+  if (profile !== DEFAULT_PROFILE) {
+    config.set('profiles', patchProfiles(config.store, profile, { [key]: value }));
+  } else if (value === undefined) {
+    config.delete(key);
+  } else {
+    config.set(key, value);
+  }
+}
+
 /**
  * Set a config value, using keychain for secure keys if available
  * @returns Object with storage location info
  */
 export function setConfig(
-  key: keyof ProductiveConfig,
+  key: ProfileKey,
   value: string,
-  options?: { useKeychain?: boolean },
+  options?: { useKeychain?: boolean; profile?: string },
 ): { stored: boolean; location: string } {
   const keyStr = String(key);
   const useKeychain = options?.useKeychain ?? isSecureKey(keyStr);
+  const profile = options?.profile ?? getActiveProfile();
 
   if (useKeychain && isKeychainAvailable()) {
-    const success = setKeychainValue(keyStr, value);
+    const success = setKeychainValue(keyStr, value, profile);
     if (success) {
       // Remove from config file if it exists there
-      if (config.get(key)) {
-        config.delete(key);
+      if (readProfile(config.store, profile)?.[key]) {
+        writeProfileValue(key, undefined, profile);
       }
       return { stored: true, location: getKeychainBackend() };
     }
   }
 
   // Fall back to config file
-  config.set(key, value);
+  writeProfileValue(key, value, profile);
   return { stored: true, location: 'config file' };
 }
 
 /**
  * Delete a config value from both keychain and config file
  */
-export function deleteConfigValue(key: keyof ProductiveConfig): void {
+export function deleteConfigValue(key: ProfileKey, profile = getActiveProfile()): void {
   const keyStr = String(key);
   // Try to delete from keychain
   if (isSecureKey(keyStr)) {
-    deleteKeychainValue(keyStr);
+    deleteKeychainValue(keyStr, profile);
   }
   // Also delete from config file
-  config.delete(key);
+  writeProfileValue(key, undefined, profile);
 }
 
 export function clearConfig(): void {
-  // Clear secure keys from keychain
+  // Clear secure keys of every profile from keychain
   if (isKeychainAvailable()) {
-    deleteKeychainValue('apiToken');
+    for (const profile of listProfileNames(config.store)) {
+      deleteKeychainValue('apiToken', profile);
+    }
   }
   config.clear();
 }
 
-export function showConfig(): ProductiveConfig {
+export function showConfig(): StoredConfig {
   return config.store;
 }
 
+/**
+ * List the configured profiles, `default` first
+ */
+export function listProfiles(): Array<{ name: string; active: boolean; config: ProductiveConfig }> {
+  const active = getActiveProfile();
+  return listProfileNames(config.store).map((name) => ({
+    name,
+    active: name === active,
+    config: {
+      apiToken: getConfigValue('apiToken', name),
+      organizationId: getConfigValue('organizationId', name),
+      userId: getConfigValue('userId', name),
+      baseUrl: getConfigValue('baseUrl', name),
+      timezone: getConfigValue('timezone', name),
+    },
+  }));
+}
+
+/**
+ * Create an empty named profile
+ */
+export function addProfile(profile: string): void {
+  config.set('profiles', { ...config.store.profiles, [profile]: {} });
+}
+
+/**
+ * Make a profile the one used when neither --profile nor PRODUCTIVE_PROFILE is set
+ */
+export function useProfile(profile: string): void {
+  if (profile === DEFAULT_PROFILE) {
+    config.delete('activeProfile');
+  } else {
+    config.set('activeProfile', profile);
+  }
+}
+
+/**
+ * Remove a named profile and its keychain token
+ */
+export function removeProfile(profile: string): void {
+  deleteKeychainValue('apiToken', profile);
+
+  const profiles = { ...config.store.profiles };
+  delete profiles[profile];
+  config.set('profiles', profiles);
+
+  if (config.store.activeProfile === profile) {
+    config.delete('activeProfile');
+  }
+}
+
 // Re-export keychain utilities for use in commands
 export { isKeychainAvailable, getKeychainBackend } from './utils/keychain-store.js';
 
-export function validateConfig(): { valid: boolean; missing: string[] } {
-  const cfg = getConfig();
+export function validateConfig(cliOptions?: Record<string, string | boolean | string[]>): {
+  valid: boolean;
+  missing: string[];
+} {
+  const cfg = getConfig(cliOptions);
   const missing: string[] = [];
 
   if (!cfg.apiToken) missing.push('apiToken');
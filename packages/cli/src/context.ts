@@ -40,6 +40,7 @@ import {
   type ResolveCommandFiltersResult,
   type ResolveCommandFiltersOptions,
 } from './utils/resolve-filters.js';
+import { createUndoJournal } from './utils/undo-journal.js';
 
 // Default no-op resolver that returns filters unchanged (for testing)
 const noopResolveFilters = async (
@@ -160,8 +161,11 @@ export function createContext(options: CommandOptions = {}): CommandContext {
 
   const config = getConfig(options as Record<string, string | boolean | string[]>);
   const formatter = new OutputFormatter(format, noColor);
-  const api = new ProductiveApi(options as Record<string, string | boolean | string[]>);
-  const cache = getCache(options['no-cache'] !== true);
+  const api = new ProductiveApi(
+    options as Record<string, string | boolean | string[]>,
+    createUndoJournal(config),
+  );
+  const cache = getCache(options['no-cache'] !== true, config.profile);
 
   const ctx: CommandContext = {
     api,
@@ -416,6 +416,16 @@ describe('Error classes', () => {
       expect(converted).toBeInstanceOf(ApiError);
       expect(converted.message).toBe('string error');
     });
+
+    it('should convert executor validation errors', () => {
+      const error = Object.assign(new Error('Unrecognized date "soon" for after'), {
+        name: 'ExecutorValidationError',
+        field: 'after',
+      });
+      const converted = fromLegacyError(error);
+      expect(converted).toBeInstanceOf(ValidationError);
+      expect((converted as ValidationError).field).toBe('after');
+    });
   });
 
   describe('JSON serialization', () => {
@@ -135,6 +135,13 @@ export class ConfigError extends CliError {
     );
   }
 
+  static unknownProfile(profile: string): ConfigError {
+    return new ConfigError(`Unknown profile '${profile}'`, undefined, [
+      'List profiles with: productive config profile list',
+      `Create it with: productive config profile add ${profile} --token <token> --org-id <id>`,
+    ]);
+  }
+
   static invalid(key: string, reason: string): ConfigError {
     return new ConfigError(
       `Invalid configuration for '${key}': ${reason}`,
@@ -449,6 +456,23 @@ export class CacheError extends CliError {
       cause,
     );
   }
+
+  static notMirrored(resource: string): CacheError {
+    return new CacheError(`No local copy of ${resource}`, 'read', [
+      `Mirror it first with: productive sync pull ${resource}`,
+      'Or run without --offline',
+    ]);
+  }
+
+  static offlineUnsupported(what: string, supported?: string[]): CacheError {
+    return new CacheError(
+      `${what} is not available offline`,
+      'read',
+      supported
+        ? [`Available offline: ${supported.join(', ')}`, 'Or run without --offline']
+        : ['Run without --offline'],
+    );
+  }
 }
 
 // ============================================================================
@@ -495,6 +519,10 @@ export class CommandError extends CliError {
       `Usage: ${usage}`,
     ]);
   }
+
+  static cancelled(): CommandError {
+    return new CommandError('Cancelled');
+  }
 }
 
 // ============================================================================
@@ -543,6 +571,11 @@ export function fromLegacyError(error: unknown): CliError {
     );
   }
 
+  // Input rejected by a core executor (e.g. an unknown date expression)
+  if (error instanceof Error && error.name === 'ExecutorValidationError' && 'field' in error) {
+    return new ValidationError(error.message, String(error.field));
+  }
+
   // Wrap unknown errors
   if (error instanceof Error) {
     return new ApiError(error.message, undefined, undefined, undefined, undefined, error);
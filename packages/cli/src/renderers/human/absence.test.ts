@@ -0,0 +1,67 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+
+import type { RenderContext } from '../types.js';
+
+import { HumanAbsenceListRenderer } from './absence.js';
+
+const ctx: RenderContext = { noColor: true, terminalWidth: 80 };
+
+const absence = {
+  id: '1',
+  started_on: '2024-01-15',
+  ended_on: '2024-01-19',
+  time: 480,
+  total_time: 2400,
+  percentage: null,
+  status: 'approved' as const,
+  note: null,
+  event_name: 'Vacation',
+  absence_type: 'time_off' as const,
+  person_name: 'Ada Lovelace',
+};
+
+function output(spy: ReturnType<typeof vi.spyOn>): string {
+  return spy.mock.calls.map((call: unknown[]) => call.join(' ')).join('\n');
+}
+
+describe('HumanAbsenceListRenderer', () => {
+  const spy = vi.spyOn(console, 'log').mockImplementation(() => {});
+  afterEach(() => spy.mockClear());
+
+  it('renders a list', () => {
+    new HumanAbsenceListRenderer().render(
+      { data: [absence], meta: { page: 1, total_pages: 1, total_count: 1 } },
+      ctx,
+    );
+    const text = output(spy);
+    expect(text).toContain('Page 1/1 (1 total)');
+    expect(text).toContain('[APPROVED] Ada Lovelace — Vacation');
+    expect(text).toContain('2024-01-15 → 2024-01-19 | 8h/day | ID: 1');
+  });
+
+  it('renders single-day remote work', () => {
+    new HumanAbsenceListRenderer().render(
+      {
+        data: [
+          {
+            ...absence,
+            ended_on: '2024-01-15',
+            time: null,
+            percentage: 50,
+            status: 'pending' as const,
+            absence_type: 'remote_work' as const,
+          },
+        ],
+      },
+      ctx,
+    );
+    const text = output(spy);
+    expect(text).toContain('[PENDING]');
+    expect(text).toContain('2024-01-15 | 50% | remote | ID: 1');
+  });
+
+  it('renders an empty state', () => {
+    new HumanAbsenceListRenderer().render({ data: [] }, ctx);
+    expect(output(spy)).toContain('No absences found');
+  });
+});
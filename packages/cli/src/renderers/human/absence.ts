@@ -0,0 +1,63 @@
+/**
+ * Human-readable renderer for absences (bookings on an event)
+ */
+
+import type { FormattedAbsence, FormattedListResponse } from '@studiometa/productive-api';
+
+import type { RenderContext, ListRenderer } from '../types.js';
+
+import { colors } from '../../utils/colors.js';
+import { formatTime } from './task.js';
+
+function statusBadge(status: FormattedAbsence['status'], noColor: boolean): string {
+  const badge = `[${status.toUpperCase()}]`;
+  if (noColor) return badge;
+  if (status === 'approved') return colors.green(badge);
+  if (status === 'rejected' || status === 'canceled') return colors.red(badge);
+  return colors.yellow(badge);
+}
+
+/**
+ * Render a list of absences in human-readable format
+ */
+export class HumanAbsenceListRenderer implements ListRenderer<FormattedAbsence> {
+  render(data: FormattedListResponse<FormattedAbsence>, ctx: RenderContext): void {
+    const { data: absences, meta } = data;
+
+    if (absences.length === 0) {
+      console.log(ctx.noColor ? 'No absences found' : colors.dim('No absences found'));
+      return;
+    }
+
+    if (meta) {
+      const pageInfo = `Page ${meta.page}/${meta.total_pages} (${meta.total_count} total)`;
+      console.log(ctx.noColor ? pageInfo : colors.dim(pageInfo));
+      console.log();
+    }
+
+    for (const absence of absences) {
+      const badge = statusBadge(absence.status, ctx.noColor);
+      const who = absence.person_name || 'Unknown person';
+      const what = absence.event_name || 'Absence';
+      console.log(
+        ctx.noColor ? `${badge} ${who} — ${what}` : `${badge} ${colors.bold(who)} — ${what}`,
+      );
+
+      const period =
+        absence.started_on === absence.ended_on
+          ? absence.started_on
+          : `${absence.started_on} → ${absence.ended_on}`;
+      const details: string[] = [period];
+      if (absence.time !== null) details.push(`${formatTime(absence.time)}/day`);
+      if (absence.percentage !== null) details.push(`${absence.percentage}%`);
+      if (absence.absence_type === 'remote_work') details.push('remote');
+
+      const detailLine = `${details.join(' | ')} | ID: ${absence.id}`;
+      console.log(ctx.noColor ? `  ${detailLine}` : colors.dim(`  ${detailLine}`));
+      console.log();
+    }
+  }
+}
+
+// Singleton instance
+export const humanAbsenceListRenderer = new HumanAbsenceListRenderer();
@@ -0,0 +1,130 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+
+import type { RenderContext } from '../types.js';
+
+import { HumanAvailabilityRenderer, HumanCapacityListRenderer } from './availability.js';
+
+const ctx: RenderContext = { noColor: true, terminalWidth: 80 };
+
+function output(spy: ReturnType<typeof vi.spyOn>): string {
+  return spy.mock.calls.map((call: unknown[]) => call.join(' ')).join('\n');
+}
+
+const totals = { capacity_minutes: 480, absence_minutes: 0, booked_minutes: 0, free_minutes: 480 };
+
+describe('HumanCapacityListRenderer', () => {
+  const spy = vi.spyOn(console, 'log').mockImplementation(() => {});
+  afterEach(() => spy.mockClear());
+
+  it('renders working schedules', () => {
+    new HumanCapacityListRenderer().render(
+      {
+        data: [
+          {
+            id: '1',
+            started_on: '2024-01-01',
+            ended_on: null,
+            working_minutes: {
+              monday: 480,
+              tuesday: 480,
+              wednesday: 480,
+              thursday: 480,
+              friday: 240,
+              saturday: 0,
+              sunday: 0,
+            },
+            weekly_minutes: 2160,
+            person_name: 'Ada Lovelace',
+            holiday_calendar_name: 'France',
+          },
+        ],
+      },
+      ctx,
+    );
+    const text = output(spy);
+    expect(text).toContain('Ada Lovelace (2024-01-01 → now)');
+    expect(text).toContain('Mon 8h');
+    expect(text).toContain('Fri 4h  Sat -  Sun -  = 36h/week');
+    expect(text).toContain('Holidays: France');
+  });
+
+  it('renders an empty state', () => {
+    new HumanCapacityListRenderer().render({ data: [] }, ctx);
+    expect(output(spy)).toContain('No working schedules found');
+  });
+});
+
+describe('HumanAvailabilityRenderer', () => {
+  const spy = vi.spyOn(console, 'log').mockImplementation(() => {});
+  afterEach(() => spy.mockClear());
+
+  it('renders one line per day for a range', () => {
+    new HumanAvailabilityRenderer().render(
+      {
+        after: '2024-01-15',
+        before: '2024-01-16',
+        people: [
+          {
+            person_id: '1',
+            person_name: 'Ada Lovelace',
+            capacity_source: 'salary',
+            totals: { ...totals, capacity_minutes: 480, absence_minutes: 240, booked_minutes: 120 },
+            days: [
+              {
+                date: '2024-01-15',
+                capacity_minutes: 480,
+                absence_minutes: 240,
+                booked_minutes: 120,
+                free_minutes: 120,
+                absence: 'Vacation',
+              },
+              {
+                date: '2024-01-16',
+                capacity_minutes: 0,
+                absence_minutes: 0,
+                booked_minutes: 0,
+                free_minutes: 0,
+                holiday: 'Founders Day',
+              },
+            ],
+          },
+        ],
+      },
+      ctx,
+    );
+    const text = output(spy);
+    expect(text).toContain('Availability 2024-01-15 → 2024-01-16');
+    expect(text).toContain('2024-01-15  2h free, 4h Vacation, 2h booked');
+    expect(text).toContain('2024-01-16  holiday: Founders Day');
+  });
+
+  it('renders a single day summary with the default schedule note', () => {
+    new HumanAvailabilityRenderer().render(
+      {
+        after: '2024-01-15',
+        before: '2024-01-15',
+        people: [
+          {
+            person_id: '1',
+            person_name: 'Ada Lovelace',
+            capacity_source: 'default',
+            totals,
+            days: [{ date: '2024-01-15', ...totals }],
+          },
+        ],
+      },
+      ctx,
+    );
+    const text = output(spy);
+    expect(text).toContain('Ada Lovelace: 8h free of 8h (default schedule)');
+    expect(text).toContain('  8h free');
+  });
+
+  it('renders an empty state', () => {
+    new HumanAvailabilityRenderer().render(
+      { after: '2024-01-15', before: '2024-01-15', people: [] },
+      ctx,
+    );
+    expect(output(spy)).toContain('No people found');
+  });
+});
@@ -0,0 +1,105 @@
+/**
+ * Human-readable renderers for capacity (working schedules) and availability
+ */
+
+import type { FormattedCapacity, FormattedListResponse } from '@studiometa/productive-api';
+import type { AvailabilityResult, DayAvailability } from '@studiometa/productive-core';
+
+import type { RenderContext, ListRenderer, Renderer } from '../types.js';
+
+import { colors } from '../../utils/colors.js';
+import { formatTime } from './task.js';
+
+const WEEKDAY_LABELS = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
+
+/**
+ * Render working schedules, one block per schedule
+ */
+export class HumanCapacityListRenderer implements ListRenderer<FormattedCapacity> {
+  render(data: FormattedListResponse<FormattedCapacity>, ctx: RenderContext): void {
+    const { data: schedules } = data;
+
+    if (schedules.length === 0) {
+      console.log(
+        ctx.noColor ? 'No working schedules found' : colors.dim('No working schedules found'),
+      );
+      return;
+    }
+
+    for (const schedule of schedules) {
+      const who = schedule.person_name || `Schedule ${schedule.id}`;
+      const period = `${schedule.started_on} → ${schedule.ended_on ?? 'now'}`;
+      console.log(
+        ctx.noColor ? `${who} (${period})` : `${colors.bold(who)} ${colors.dim(`(${period})`)}`,
+      );
+
+      const days = Object.values(schedule.working_minutes)
+        .map(
+          (minutes, index) => `${WEEKDAY_LABELS[index]} ${minutes > 0 ? formatTime(minutes) : '-'}`,
+        )
+        .join('  ');
+      console.log(`  ${days}  = ${formatTime(schedule.weekly_minutes)}/week`);
+
+      if (schedule.holiday_calendar_name) {
+        const calendar = `Holidays: ${schedule.holiday_calendar_name}`;
+        console.log(ctx.noColor ? `  ${calendar}` : colors.dim(`  ${calendar}`));
+      }
+      console.log();
+    }
+  }
+}
+
+function describeDay(day: DayAvailability): string {
+  if (day.holiday) return `holiday: ${day.holiday}`;
+  if (day.capacity_minutes === 0) return 'non-working day';
+
+  const parts = [`${formatTime(day.free_minutes)} free`];
+  if (day.absence_minutes > 0) {
+    parts.push(`${formatTime(day.absence_minutes)} ${day.absence ?? 'absence'}`);
+  }
+  if (day.booked_minutes > 0) parts.push(`${formatTime(day.booked_minutes)} booked`);
+  return parts.join(', ');
+}
+
+/**
+ * Render availability per person with a line per day
+ */
+export class HumanAvailabilityRenderer implements Renderer<AvailabilityResult> {
+  render(result: AvailabilityResult, ctx: RenderContext): void {
+    const range =
+      result.after === result.before ? result.after : `${result.after} → ${result.before}`;
+    console.log(ctx.noColor ? `Availability ${range}` : colors.bold(`Availability ${range}`));
+    console.log();
+
+    if (result.people.length === 0) {
+      console.log(ctx.noColor ? 'No people found' : colors.dim('No people found'));
+      return;
+    }
+
+    for (const person of result.people) {
+      const { totals } = person;
+      const summary = `${formatTime(totals.free_minutes)} free of ${formatTime(totals.capacity_minutes)}`;
+      const assumed = person.capacity_source === 'default' ? ' (default schedule)' : '';
+      console.log(
+        ctx.noColor
+          ? `${person.person_name}: ${summary}${assumed}`
+          : `${colors.bold(person.person_name)}: ${colors.green(summary)}${colors.dim(assumed)}`,
+      );
+
+      if (result.after !== result.before) {
+        for (const day of person.days) {
+          const line = `  ${day.date}  ${describeDay(day)}`;
+          console.log(ctx.noColor || day.free_minutes > 0 ? line : colors.dim(line));
+        }
+      } else {
+        const line = `  ${describeDay(person.days[0])}`;
+        console.log(ctx.noColor ? line : colors.dim(line));
+      }
+      console.log();
+    }
+  }
+}
+
+// Singleton instances
+export const humanCapacityListRenderer = new HumanCapacityListRenderer();
+export const humanAvailabilityRenderer = new HumanAvailabilityRenderer();
@@ -0,0 +1,49 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+
+import type { RenderContext } from '../types.js';
+
+import { HumanBoardDetailRenderer, HumanBoardListRenderer } from './board.js';
+
+const ctx: RenderContext = { noColor: true, terminalWidth: 80 };
+
+const board = {
+  id: '20',
+  name: 'Development',
+  position: 1,
+  archived: false,
+  archived_at: null,
+  project_name: 'Website',
+};
+
+function output(spy: ReturnType<typeof vi.spyOn>): string {
+  return spy.mock.calls.map((call: unknown[]) => call.join(' ')).join('\n');
+}
+
+describe('HumanBoardListRenderer', () => {
+  const spy = vi.spyOn(console, 'log').mockImplementation(() => {});
+  afterEach(() => spy.mockClear());
+
+  it('renders a list', () => {
+    new HumanBoardListRenderer().render({ data: [board] }, ctx);
+    const text = output(spy);
+    expect(text).toContain('Development');
+    expect(text).toContain('ID: 20 | Project: Website | Position: 1');
+  });
+
+  it('renders an empty message', () => {
+    new HumanBoardListRenderer().render({ data: [] }, ctx);
+    expect(output(spy)).toContain('No boards found');
+  });
+});
+
+describe('HumanBoardDetailRenderer', () => {
+  const spy = vi.spyOn(console, 'log').mockImplementation(() => {});
+  afterEach(() => spy.mockClear());
+
+  it('renders details', () => {
+    new HumanBoardDetailRenderer().render(board, ctx);
+    const text = output(spy);
+    expect(text).toContain('ID: 20');
+    expect(text).toContain('Project: Website');
+  });
+});
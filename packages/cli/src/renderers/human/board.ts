@@ -0,0 +1,68 @@
+/**
+ * Human-readable renderers for Board resources
+ */
+
+import type { FormattedBoard, FormattedListResponse } from '@studiometa/productive-api';
+
+import type { RenderContext, ListRenderer, Renderer } from '../types.js';
+
+import { colors } from '../../utils/colors.js';
+
+/**
+ * Render a list of boards in human-readable format
+ */
+export class HumanBoardListRenderer implements ListRenderer<FormattedBoard> {
+  render(data: FormattedListResponse<FormattedBoard>, ctx: RenderContext): void {
+    const { data: boards, meta } = data;
+
+    if (boards.length === 0) {
+      console.log(ctx.noColor ? 'No boards found' : colors.dim('No boards found'));
+      return;
+    }
+
+    if (meta) {
+      const pageInfo = `Page ${meta.page}/${meta.total_pages} (${meta.total_count} total)`;
+      console.log(ctx.noColor ? pageInfo : colors.dim(pageInfo));
+      console.log();
+    }
+
+    for (const board of boards) {
+      const name = board.name || 'Untitled board';
+      const title = ctx.noColor ? name : colors.bold(name);
+      const badge = ctx.noColor ? '[ARCHIVED]' : colors.dim('[ARCHIVED]');
+      console.log(board.archived ? `${badge} ${title}` : title);
+
+      const details: string[] = [`ID: ${board.id}`];
+      if (board.project_name) details.push(`Project: ${board.project_name}`);
+      if (board.position !== null) details.push(`Position: ${board.position}`);
+
+      const detailLine = details.join(' | ');
+      console.log(ctx.noColor ? `  ${detailLine}` : colors.dim(`  ${detailLine}`));
+      console.log();
+    }
+  }
+}
+
+/**
+ * Render a single board detail in human-readable format
+ */
+export class HumanBoardDetailRenderer implements Renderer<FormattedBoard> {
+  render(board: FormattedBoard, ctx: RenderContext): void {
+    const label = (text: string) => (ctx.noColor ? text : colors.cyan(text));
+
+    console.log();
+    const name = board.name || 'Untitled board';
+    console.log(ctx.noColor ? name : colors.bold(name));
+    console.log();
+
+    console.log(label('ID:'), board.id);
+    if (board.project_name) console.log(label('Project:'), board.project_name);
+    if (board.position !== null) console.log(label('Position:'), String(board.position));
+    if (board.archived_at) console.log(label('Archived:'), board.archived_at);
+    console.log();
+  }
+}
+
+// Singleton instances
+export const humanBoardListRenderer = new HumanBoardListRenderer();
+export const humanBoardDetailRenderer = new HumanBoardDetailRenderer();
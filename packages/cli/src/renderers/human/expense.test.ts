@@ -0,0 +1,78 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+
+import type { RenderContext } from '../types.js';
+
+import { HumanExpenseDetailRenderer, HumanExpenseListRenderer } from './expense.js';
+
+const ctx: RenderContext = { noColor: true, terminalWidth: 80 };
+
+const expense = {
+  id: '1',
+  name: 'Train ticket',
+  date: '2024-01-15',
+  currency: 'EUR',
+  amount: 45,
+  amount_with_tax: 54,
+  reimbursable: true,
+  status: 'pending' as const,
+  rejected_reason: null,
+  invoiced: false,
+  receipt_count: 1,
+  deal_name: 'Website',
+  service_name: 'Travel',
+  person_name: 'Ada Lovelace',
+};
+
+function output(spy: ReturnType<typeof vi.spyOn>): string {
+  return spy.mock.calls.map((call: unknown[]) => call.join(' ')).join('\n');
+}
+
+describe('HumanExpenseListRenderer', () => {
+  const spy = vi.spyOn(console, 'log').mockImplementation(() => {});
+  afterEach(() => spy.mockClear());
+
+  it('renders a list', () => {
+    new HumanExpenseListRenderer().render(
+      { data: [expense], meta: { page: 1, total_pages: 1, total_count: 1 } },
+      ctx,
+    );
+    const text = output(spy);
+    expect(text).toContain('Page 1/1 (1 total)');
+    expect(text).toContain('[PENDING] Train ticket');
+    expect(text).toContain(
+      '45.00 EUR | 2024-01-15 | Budget: Website | Service: Travel | By: Ada Lovelace',
+    );
+    expect(text).toContain('ID: 1');
+  });
+
+  it('renders an empty state', () => {
+    new HumanExpenseListRenderer().render({ data: [] }, ctx);
+    expect(output(spy)).toContain('No expenses found');
+  });
+});
+
+describe('HumanExpenseDetailRenderer', () => {
+  const spy = vi.spyOn(console, 'log').mockImplementation(() => {});
+  afterEach(() => spy.mockClear());
+
+  it('renders expense details', () => {
+    new HumanExpenseDetailRenderer().render(expense, ctx);
+    const text = output(spy);
+    expect(text).toContain('[PENDING] Train ticket');
+    expect(text).toContain('Amount: 45.00 EUR');
+    expect(text).toContain('With tax: 54.00 EUR');
+    expect(text).toContain('Service: Travel');
+    expect(text).toContain('Reimbursable: yes');
+    expect(text).toContain('Receipts: 1');
+  });
+
+  it('shows the rejection reason', () => {
+    new HumanExpenseDetailRenderer().render(
+      { ...expense, status: 'rejected', rejected_reason: 'No receipt' },
+      ctx,
+    );
+    const text = output(spy);
+    expect(text).toContain('[REJECTED] Train ticket');
+    expect(text).toContain('Rejection reason: No receipt');
+  });
+});
@@ -0,0 +1,103 @@
+/**
+ * Human-readable renderers for Expense resources
+ */
+
+import type { FormattedExpense, FormattedListResponse } from '@studiometa/productive-api';
+
+import type { RenderContext, ListRenderer, Renderer } from '../types.js';
+
+import { colors } from '../../utils/colors.js';
+import { formatMoney } from './invoice.js';
+
+function statusBadge(status: FormattedExpense['status'], noColor: boolean): string {
+  const badge = `[${status.toUpperCase()}]`;
+  if (noColor) return badge;
+  if (status === 'approved') return colors.green(badge);
+  if (status === 'rejected') return colors.red(badge);
+  return colors.yellow(badge);
+}
+
+/**
+ * Render a list of expenses in human-readable format
+ */
+export class HumanExpenseListRenderer implements ListRenderer<FormattedExpense> {
+  render(data: FormattedListResponse<FormattedExpense>, ctx: RenderContext): void {
+    const { data: expenses, meta } = data;
+
+    if (expenses.length === 0) {
+      console.log(ctx.noColor ? 'No expenses found' : colors.dim('No expenses found'));
+      return;
+    }
+
+    if (meta) {
+      const pageInfo = `Page ${meta.page}/${meta.total_pages} (${meta.total_count} total)`;
+      console.log(ctx.noColor ? pageInfo : colors.dim(pageInfo));
+      console.log();
+    }
+
+    for (const expense of expenses) {
+      const badge = statusBadge(expense.status, ctx.noColor);
+      const name = expense.name || 'Untitled expense';
+      console.log(ctx.noColor ? `${badge} ${name}` : `${badge} ${colors.bold(name)}`);
+
+      const details: string[] = [formatMoney(expense.amount, expense.currency)];
+      if (expense.date) details.push(expense.date);
+      if (expense.deal_name) details.push(`Budget: ${expense.deal_name}`);
+      if (expense.service_name) details.push(`Service: ${expense.service_name}`);
+      if (expense.person_name) details.push(`By: ${expense.person_name}`);
+
+      const detailLine = details.join(' | ');
+      console.log(ctx.noColor ? `  ${detailLine}` : colors.dim(`  ${detailLine}`));
+
+      const idLine = `ID: ${expense.id}`;
+      console.log(ctx.noColor ? `  ${idLine}` : colors.dim(`  ${idLine}`));
+      console.log();
+    }
+  }
+}
+
+/**
+ * Render a single expense detail in human-readable format
+ */
+export class HumanExpenseDetailRenderer implements Renderer<FormattedExpense> {
+  render(expense: FormattedExpense, ctx: RenderContext): void {
+    const label = (text: string) => (ctx.noColor ? text : colors.cyan(text));
+
+    console.log();
+    const badge = statusBadge(expense.status, ctx.noColor);
+    const name = expense.name || 'Untitled expense';
+    console.log(ctx.noColor ? `${badge} ${name}` : `${badge} ${colors.bold(name)}`);
+    console.log();
+
+    console.log(label('ID:'), expense.id);
+    console.log(label('Date:'), expense.date);
+    console.log(label('Amount:'), formatMoney(expense.amount, expense.currency));
+    if (expense.amount_with_tax !== null && expense.amount_with_tax !== expense.amount) {
+      console.log(label('With tax:'), formatMoney(expense.amount_with_tax, expense.currency));
+    }
+
+    if (expense.deal_name) {
+      console.log(label('Budget:'), expense.deal_name);
+    }
+
+    if (expense.service_name) {
+      console.log(label('Service:'), expense.service_name);
+    }
+
+    if (expense.person_name) {
+      console.log(label('Submitted by:'), expense.person_name);
+    }
+
+    console.log(label('Reimbursable:'), expense.reimbursable ? 'yes' : 'no');
+    console.log(label('Receipts:'), String(expense.receipt_count));
+
+    if (expense.rejected_reason) {
+      console.log(label('Rejection reason:'), expense.rejected_reason);
+    }
+    console.log();
+  }
+}
+
+// Singleton instances
+export const humanExpenseListRenderer = new HumanExpenseListRenderer();
+export const humanExpenseDetailRenderer = new HumanExpenseDetailRenderer();
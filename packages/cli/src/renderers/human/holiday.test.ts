@@ -0,0 +1,61 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+
+import type { RenderContext } from '../types.js';
+
+import { HumanHolidayCalendarListRenderer, HumanHolidayListRenderer } from './holiday.js';
+
+const ctx: RenderContext = { noColor: true, terminalWidth: 80 };
+
+function output(spy: ReturnType<typeof vi.spyOn>): string {
+  return spy.mock.calls.map((call: unknown[]) => call.join(' ')).join('\n');
+}
+
+describe('HumanHolidayListRenderer', () => {
+  const spy = vi.spyOn(console, 'log').mockImplementation(() => {});
+  afterEach(() => spy.mockClear());
+
+  it('renders a list', () => {
+    new HumanHolidayListRenderer().render(
+      {
+        data: [
+          { id: '1', name: 'Christmas', date: '2024-12-25', holiday_calendar_name: 'France' },
+          { id: '2', name: 'Boxing Day', date: '2024-12-26' },
+        ],
+      },
+      ctx,
+    );
+    const text = output(spy);
+    expect(text).toContain('2024-12-25 Christmas (France)');
+    expect(text).toContain('2024-12-26 Boxing Day');
+  });
+
+  it('renders an empty state', () => {
+    new HumanHolidayListRenderer().render({ data: [] }, ctx);
+    expect(output(spy)).toContain('No holidays found');
+  });
+});
+
+describe('HumanHolidayCalendarListRenderer', () => {
+  const spy = vi.spyOn(console, 'log').mockImplementation(() => {});
+  afterEach(() => spy.mockClear());
+
+  it('renders a list', () => {
+    new HumanHolidayCalendarListRenderer().render(
+      {
+        data: [
+          { id: '5', name: 'France', country: 'FR', state: null, autogenerate_holidays: true },
+          { id: '6', name: 'Custom', country: null, state: null, autogenerate_holidays: false },
+        ],
+      },
+      ctx,
+    );
+    const text = output(spy);
+    expect(text).toContain('France (FR | ID: 5)');
+    expect(text).toContain('Custom (ID: 6)');
+  });
+
+  it('renders an empty state', () => {
+    new HumanHolidayCalendarListRenderer().render({ data: [] }, ctx);
+    expect(output(spy)).toContain('No holiday calendars found');
+  });
+});
@@ -0,0 +1,61 @@
+/**
+ * Human-readable renderers for holidays and holiday calendars
+ */
+
+import type {
+  FormattedHoliday,
+  FormattedHolidayCalendar,
+  FormattedListResponse,
+} from '@studiometa/productive-api';
+
+import type { RenderContext, ListRenderer } from '../types.js';
+
+import { colors } from '../../utils/colors.js';
+
+/**
+ * Render a list of holidays, one per line
+ */
+export class HumanHolidayListRenderer implements ListRenderer<FormattedHoliday> {
+  render(data: FormattedListResponse<FormattedHoliday>, ctx: RenderContext): void {
+    const { data: holidays } = data;
+
+    if (holidays.length === 0) {
+      console.log(ctx.noColor ? 'No holidays found' : colors.dim('No holidays found'));
+      return;
+    }
+
+    for (const holiday of holidays) {
+      const date = ctx.noColor ? holiday.date : colors.cyan(holiday.date);
+      const name = ctx.noColor ? holiday.name : colors.bold(holiday.name);
+      const calendar = holiday.holiday_calendar_name ? ` (${holiday.holiday_calendar_name})` : '';
+      console.log(`${date} ${name}${ctx.noColor ? calendar : colors.dim(calendar)}`);
+    }
+  }
+}
+
+/**
+ * Render a list of holiday calendars, one per line
+ */
+export class HumanHolidayCalendarListRenderer implements ListRenderer<FormattedHolidayCalendar> {
+  render(data: FormattedListResponse<FormattedHolidayCalendar>, ctx: RenderContext): void {
+    const { data: calendars } = data;
+
+    if (calendars.length === 0) {
+      console.log(
+        ctx.noColor ? 'No holiday calendars found' : colors.dim('No holiday calendars found'),
+      );
+      return;
+    }
+
+    for (const calendar of calendars) {
+      const name = ctx.noColor ? calendar.name : colors.bold(calendar.name);
+      const region = [calendar.country, calendar.state].filter(Boolean).join(' / ');
+      const details = `${region ? `${region} | ` : ''}ID: ${calendar.id}`;
+      console.log(`${name} ${ctx.noColor ? `(${details})` : colors.dim(`(${details})`)}`);
+    }
+  }
+}
+
+// Singleton instances
+export const humanHolidayListRenderer = new HumanHolidayListRenderer();
+export const humanHolidayCalendarListRenderer = new HumanHolidayCalendarListRenderer();
@@ -32,7 +32,7 @@ export {
 
 // Kanban
 export { KanbanRenderer, kanbanRenderer, stripAnsi, truncateText, padText } from './kanban.js';
-export type { KanbanTask, KanbanColumn } from './kanban.js';
+export type { KanbanTask, KanbanColumn, KanbanData } from './kanban.js';
 
 // People
 export {
@@ -108,5 +108,69 @@ export {
   humanDiscussionDetailRenderer,
 } from './discussion.js';
 
+// Invoices
+export {
+  HumanInvoiceListRenderer,
+  HumanInvoiceDetailRenderer,
+  HumanLineItemListRenderer,
+  humanInvoiceListRenderer,
+  humanInvoiceDetailRenderer,
+  humanLineItemListRenderer,
+} from './invoice.js';
+
+// Task lists
+export {
+  HumanTaskListListRenderer,
+  HumanTaskListDetailRenderer,
+  humanTaskListListRenderer,
+  humanTaskListDetailRenderer,
+} from './task-list.js';
+
+// Boards
+export {
+  HumanBoardListRenderer,
+  HumanBoardDetailRenderer,
+  humanBoardListRenderer,
+  humanBoardDetailRenderer,
+} from './board.js';
+
+// Workflow statuses
+export {
+  HumanWorkflowStatusListRenderer,
+  HumanWorkflowStatusDetailRenderer,
+  humanWorkflowStatusListRenderer,
+  humanWorkflowStatusDetailRenderer,
+} from './workflow-status.js';
+
+// Expenses
+export {
+  HumanExpenseListRenderer,
+  HumanExpenseDetailRenderer,
+  humanExpenseListRenderer,
+  humanExpenseDetailRenderer,
+} from './expense.js';
+
+// Absences
+export { HumanAbsenceListRenderer, humanAbsenceListRenderer } from './absence.js';
+
+// Holidays
+export {
+  HumanHolidayListRenderer,
+  HumanHolidayCalendarListRenderer,
+  humanHolidayListRenderer,
+  humanHolidayCalendarListRenderer,
+} from './holiday.js';
+
+// Capacity and availability
+export {
+  HumanCapacityListRenderer,
+  HumanAvailabilityRenderer,
+  humanCapacityListRenderer,
+  humanAvailabilityRenderer,
+} from './availability.js';
+
 // Activities
 export { HumanActivityListRenderer, humanActivityListRenderer } from './activity.js';
+
+// SQL query results
+export { HumanQueryResultRenderer, humanQueryResultRenderer } from './query-result.js';
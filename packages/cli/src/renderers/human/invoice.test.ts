@@ -0,0 +1,124 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+
+import type { RenderContext } from '../types.js';
+
+import {
+  formatMoney,
+  HumanInvoiceDetailRenderer,
+  HumanInvoiceListRenderer,
+  HumanLineItemListRenderer,
+} from './invoice.js';
+
+const ctx: RenderContext = { noColor: true, terminalWidth: 80 };
+
+const invoice = {
+  id: '1',
+  number: '2024-001',
+  subject: 'Phase 1',
+  status: 'finalized' as const,
+  type: 'invoice' as const,
+  currency: 'EUR',
+  invoiced_on: '2024-01-15',
+  pay_on: '2024-02-14',
+  finalized_on: '2024-01-16',
+  paid_on: null,
+  amount: 1500,
+  amount_tax: 300,
+  amount_with_tax: 1800,
+  amount_unpaid: 1800,
+  note: 'Thanks',
+  company_name: 'Acme',
+};
+
+function output(spy: ReturnType<typeof vi.spyOn>): string {
+  return spy.mock.calls.map((call: unknown[]) => call.join(' ')).join('\n');
+}
+
+describe('formatMoney', () => {
+  it('formats amount with currency', () => {
+    expect(formatMoney(1250, 'EUR')).toBe('1,250.00 EUR');
+    expect(formatMoney(19.5, null)).toBe('19.50');
+    expect(formatMoney(null, 'EUR')).toBe('-');
+  });
+});
+
+describe('HumanInvoiceListRenderer', () => {
+  const spy = vi.spyOn(console, 'log').mockImplementation(() => {});
+  afterEach(() => spy.mockClear());
+
+  it('renders a list', () => {
+    new HumanInvoiceListRenderer().render(
+      { data: [invoice], meta: { page: 1, total_pages: 1, total_count: 1 } },
+      ctx,
+    );
+    const text = output(spy);
+    expect(text).toContain('[FINALIZED] #2024-001 Phase 1');
+    expect(text).toContain('Company: Acme | Total: 1,800.00 EUR');
+    expect(text).toContain('ID: 1');
+  });
+
+  it('falls back to the invoice kind when subject is missing', () => {
+    new HumanInvoiceListRenderer().render(
+      { data: [{ ...invoice, number: null, subject: null, type: 'credit_note' as const }] },
+      ctx,
+    );
+    expect(output(spy)).toContain('Credit note');
+  });
+
+  it('renders empty list', () => {
+    new HumanInvoiceListRenderer().render({ data: [] }, ctx);
+    expect(spy).toHaveBeenCalledWith('No invoices found');
+  });
+});
+
+describe('HumanInvoiceDetailRenderer', () => {
+  const spy = vi.spyOn(console, 'log').mockImplementation(() => {});
+  afterEach(() => spy.mockClear());
+
+  it('renders detail with totals', () => {
+    new HumanInvoiceDetailRenderer().render(invoice, ctx);
+    const text = output(spy);
+    expect(text).toContain('Company: Acme');
+    expect(text).toContain('Total: 1,800.00 EUR');
+    expect(text).toContain('Unpaid: 1,800.00 EUR');
+    expect(text).toContain('Thanks');
+  });
+
+  it('hides unpaid amount for drafts', () => {
+    new HumanInvoiceDetailRenderer().render({ ...invoice, status: 'draft' as const }, ctx);
+    expect(output(spy)).not.toContain('Unpaid:');
+  });
+});
+
+describe('HumanLineItemListRenderer', () => {
+  const spy = vi.spyOn(console, 'log').mockImplementation(() => {});
+  afterEach(() => spy.mockClear());
+
+  it('renders line items', () => {
+    new HumanLineItemListRenderer().render(
+      {
+        data: [
+          {
+            id: '7',
+            description: 'Design',
+            quantity: 10,
+            unit_price: 100,
+            discount: 0,
+            tax_name: 'VAT 20%',
+            amount: 1000,
+            amount_with_tax: 1200,
+          },
+        ],
+      },
+      ctx,
+    );
+    const text = output(spy);
+    expect(text).toContain('Design');
+    expect(text).toContain('10 × 100.00 | Tax: VAT 20% | Amount: 1,000.00');
+  });
+
+  it('renders empty list', () => {
+    new HumanLineItemListRenderer().render({ data: [] }, ctx);
+    expect(spy).toHaveBeenCalledWith('No line items found');
+  });
+});
@@ -0,0 +1,169 @@
+/**
+ * Human-readable renderers for Invoice and Line Item resources
+ */
+
+import type {
+  FormattedInvoice,
+  FormattedLineItem,
+  FormattedListResponse,
+} from '@studiometa/productive-api';
+
+import type { RenderContext, ListRenderer, Renderer } from '../types.js';
+
+import { colors } from '../../utils/colors.js';
+
+/**
+ * Format an amount with its currency code, e.g. "1,250.00 EUR"
+ */
+export function formatMoney(amount: number | null, currency: string | null): string {
+  if (amount === null) return '-';
+  const value = amount.toLocaleString('en-US', {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  });
+  return currency ? `${value} ${currency}` : value;
+}
+
+function statusBadge(status: FormattedInvoice['status'], noColor: boolean): string {
+  const badge = `[${status.toUpperCase()}]`;
+  if (noColor) return badge;
+  if (status === 'paid') return colors.green(badge);
+  if (status === 'finalized') return colors.blue(badge);
+  return colors.yellow(badge);
+}
+
+function invoiceTitle(invoice: FormattedInvoice): string {
+  const numberStr = invoice.number ? `#${invoice.number} ` : '';
+  const kind = invoice.type === 'credit_note' ? 'Credit note' : 'Invoice';
+  return `${numberStr}${invoice.subject || kind}`;
+}
+
+/**
+ * Render a list of invoices in human-readable format
+ */
+export class HumanInvoiceListRenderer implements ListRenderer<FormattedInvoice> {
+  render(data: FormattedListResponse<FormattedInvoice>, ctx: RenderContext): void {
+    const { data: invoices, meta } = data;
+
+    if (invoices.length === 0) {
+      console.log(ctx.noColor ? 'No invoices found' : colors.dim('No invoices found'));
+      return;
+    }
+
+    if (meta) {
+      const pageInfo = `Page ${meta.page}/${meta.total_pages} (${meta.total_count} total)`;
+      console.log(ctx.noColor ? pageInfo : colors.dim(pageInfo));
+      console.log();
+    }
+
+    for (const invoice of invoices) {
+      const title = invoiceTitle(invoice);
+      const badge = statusBadge(invoice.status, ctx.noColor);
+      console.log(ctx.noColor ? `${badge} ${title}` : `${badge} ${colors.bold(title)}`);
+
+      const details: string[] = [];
+      if (invoice.company_name) details.push(`Company: ${invoice.company_name}`);
+      details.push(`Total: ${formatMoney(invoice.amount_with_tax, invoice.currency)}`);
+      if (invoice.invoiced_on) details.push(`Date: ${invoice.invoiced_on}`);
+      if (invoice.pay_on) details.push(`Due: ${invoice.pay_on}`);
+
+      const detailLine = details.join(' | ');
+      console.log(ctx.noColor ? `  ${detailLine}` : colors.dim(`  ${detailLine}`));
+
+      const idLine = `ID: ${invoice.id}`;
+      console.log(ctx.noColor ? `  ${idLine}` : colors.dim(`  ${idLine}`));
+      console.log();
+    }
+  }
+}
+
+/**
+ * Render a single invoice detail in human-readable format
+ */
+export class HumanInvoiceDetailRenderer implements Renderer<FormattedInvoice> {
+  render(invoice: FormattedInvoice, ctx: RenderContext): void {
+    const label = (text: string) => (ctx.noColor ? text : colors.cyan(text));
+
+    console.log();
+    const title = invoiceTitle(invoice);
+    const badge = statusBadge(invoice.status, ctx.noColor);
+    console.log(ctx.noColor ? `${badge} ${title}` : `${badge} ${colors.bold(title)}`);
+    console.log();
+
+    console.log(label('ID:'), invoice.id);
+
+    if (invoice.company_name) {
+      console.log(label('Company:'), invoice.company_name);
+    }
+
+    if (invoice.invoiced_on) {
+      console.log(label('Invoice date:'), invoice.invoiced_on);
+    }
+
+    if (invoice.pay_on) {
+      console.log(label('Due date:'), invoice.pay_on);
+    }
+
+    if (invoice.finalized_on) {
+      console.log(label('Finalized:'), invoice.finalized_on.split('T')[0]);
+    }
+
+    if (invoice.paid_on) {
+      console.log(label('Paid:'), invoice.paid_on.split('T')[0]);
+    }
+    console.log();
+
+    console.log(label('Amount:'), formatMoney(invoice.amount, invoice.currency));
+    console.log(label('Tax:'), formatMoney(invoice.amount_tax, invoice.currency));
+    console.log(label('Total:'), formatMoney(invoice.amount_with_tax, invoice.currency));
+    if (invoice.amount_unpaid !== null && invoice.status !== 'draft') {
+      console.log(label('Unpaid:'), formatMoney(invoice.amount_unpaid, invoice.currency));
+    }
+    console.log();
+
+    if (invoice.note) {
+      console.log(label('Note:'));
+      console.log(invoice.note);
+      console.log();
+    }
+  }
+}
+
+/**
+ * Render the line items of an invoice in human-readable format
+ */
+export class HumanLineItemListRenderer implements ListRenderer<FormattedLineItem> {
+  render(data: FormattedListResponse<FormattedLineItem>, ctx: RenderContext): void {
+    const { data: lineItems } = data;
+
+    if (lineItems.length === 0) {
+      console.log(ctx.noColor ? 'No line items found' : colors.dim('No line items found'));
+      return;
+    }
+
+    for (const item of lineItems) {
+      const description = item.description || 'Untitled line item';
+      console.log(ctx.noColor ? description : colors.bold(description));
+
+      const details: string[] = [];
+      if (item.quantity !== null) {
+        details.push(`${item.quantity} × ${formatMoney(item.unit_price, null)}`);
+      }
+      if (item.discount) details.push(`Discount: ${item.discount}%`);
+      if (item.tax_name) details.push(`Tax: ${item.tax_name}`);
+      details.push(`Amount: ${formatMoney(item.amount, null)}`);
+
+      const detailLine = details.join(' | ');
+      console.log(ctx.noColor ? `  ${detailLine}` : colors.dim(`  ${detailLine}`));
+
+      const idLine = `ID: ${item.id}`;
+      console.log(ctx.noColor ? `  ${idLine}` : colors.dim(`  ${idLine}`));
+      console.log();
+    }
+  }
+}
+
+// Singleton instances
+export const humanInvoiceListRenderer = new HumanInvoiceListRenderer();
+export const humanInvoiceDetailRenderer = new HumanInvoiceDetailRenderer();
+export const humanLineItemListRenderer = new HumanLineItemListRenderer();
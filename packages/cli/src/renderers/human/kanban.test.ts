@@ -78,6 +78,61 @@ describe('KanbanRenderer', () => {
     });
   });
 
+  describe('render with workflow statuses', () => {
+    const workflowStatuses = [
+      { id: 's3', name: 'Done', position: 3, category: 'closed', category_id: 3, color_id: null },
+      {
+        id: 's1',
+        name: 'To Do',
+        position: 1,
+        category: 'not_started',
+        category_id: 1,
+        color_id: null,
+      },
+      {
+        id: 's2',
+        name: 'Review',
+        position: 2,
+        category: 'started',
+        category_id: 2,
+        color_id: null,
+      },
+    ];
+
+    it('orders columns by workflow position and keeps empty columns', () => {
+      const tasks = [
+        createTask({ id: '1', title: 'Task 1', status_name: 'Done', status_id: 's3' }),
+        createTask({ id: '2', title: 'Task 2', status_name: 'To Do', status_id: 's1' }),
+      ];
+
+      new KanbanRenderer().render({ data: tasks, workflow_statuses: workflowStatuses }, ctx);
+
+      const header = spy.mock.calls[0][0] as string;
+      expect(header.indexOf('To Do')).toBeLessThan(header.indexOf('Review'));
+      expect(header.indexOf('Review')).toBeLessThan(header.indexOf('Done'));
+      expect(header).toContain('Review (0)');
+    });
+
+    it('renders empty workflow columns when there are no tasks', () => {
+      new KanbanRenderer().render({ data: [], workflow_statuses: workflowStatuses }, ctx);
+
+      expect(spy).not.toHaveBeenCalledWith('No columns to display');
+      expect(spy.mock.calls[0][0]).toContain('To Do (0)');
+    });
+
+    it('appends statuses outside the workflow after the workflow columns', () => {
+      const tasks = [
+        createTask({ id: '1', title: 'Task 1', status_name: 'Blocked', status_id: 's9' }),
+        createTask({ id: '2', title: 'Task 2', status_name: 'To Do', status_id: 's1' }),
+      ];
+
+      new KanbanRenderer().render({ data: tasks, workflow_statuses: workflowStatuses }, ctx);
+
+      const header = spy.mock.calls[0][0] as string;
+      expect(header.indexOf('Done')).toBeLessThan(header.indexOf('Blocked'));
+    });
+  });
+
   describe('render empty data', () => {
     it('displays message when no columns', () => {
       new KanbanRenderer().render({ data: [] }, ctx);
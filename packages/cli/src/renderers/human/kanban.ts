@@ -2,9 +2,15 @@
  * Kanban board renderer for tasks
  *
  * Displays tasks grouped by workflow status in a multi-column board layout.
+ * When the workflow statuses are provided, columns follow the workflow order
+ * and statuses without tasks still get an (empty) column.
  */
 
-import type { FormattedTask, FormattedPagination } from '@studiometa/productive-api';
+import type {
+  FormattedTask,
+  FormattedPagination,
+  FormattedWorkflowStatus,
+} from '@studiometa/productive-api';
 
 import type { ListRenderer, RenderContext } from '../types.js';
 
@@ -80,12 +86,21 @@ interface KanbanColumn {
   tasks: KanbanTask[];
 }
 
+/**
+ * Kanban board data: tasks plus the optional workflow statuses defining the columns
+ */
+interface KanbanData {
+  data: FormattedTask[];
+  meta?: FormattedPagination;
+  workflow_statuses?: FormattedWorkflowStatus[];
+}
+
 /**
  * Kanban board renderer - displays tasks in columns by status
  */
 export class KanbanRenderer implements ListRenderer<FormattedTask> {
-  render(data: { data: FormattedTask[]; meta?: FormattedPagination }, ctx: RenderContext): void {
-    const columns = this.buildColumns(data.data);
+  render(data: KanbanData, ctx: RenderContext): void {
+    const columns = this.buildColumns(data.data, data.workflow_statuses);
     this.renderBoard(columns, ctx.terminalWidth);
 
     if (data.meta) {
@@ -99,9 +114,19 @@ export class KanbanRenderer implements ListRenderer<FormattedTask> {
   }
 
   /**
-   * Build kanban columns from tasks
+   * Build kanban columns from tasks, in workflow order when statuses are known
    */
-  private buildColumns(tasks: FormattedTask[]): KanbanColumn[] {
+  private buildColumns(
+    tasks: FormattedTask[],
+    workflowStatuses: FormattedWorkflowStatus[] = [],
+  ): KanbanColumn[] {
+    const workflowColumns: KanbanColumn[] = workflowStatuses
+      .toSorted(
+        (a, b) => (a.position ?? Number.MAX_SAFE_INTEGER) - (b.position ?? Number.MAX_SAFE_INTEGER),
+      )
+      .map((status) => ({ id: status.id, name: status.name, tasks: [] }));
+    const workflowColumnsById = new Map(workflowColumns.map((column) => [column.id, column]));
+
     const statusMap = new Map<string, KanbanColumn>();
     const defaultColumn: KanbanColumn = {
       id: 'unknown',
@@ -122,7 +147,11 @@ export class KanbanRenderer implements ListRenderer<FormattedTask> {
         statusName,
       };
 
-      if (statusName) {
+      const workflowColumn = statusId ? workflowColumnsById.get(statusId) : undefined;
+
+      if (workflowColumn) {
+        workflowColumn.tasks.push(kanbanTask);
+      } else if (statusName) {
         if (!statusMap.has(statusName)) {
           statusMap.set(statusName, {
             id: statusId || statusName,
@@ -136,9 +165,12 @@ export class KanbanRenderer implements ListRenderer<FormattedTask> {
       }
     }
 
-    const columns = Array.from(statusMap.values())
-      .slice()
-      .toSorted((a, b) => a.name.localeCompare(b.name));
+    // Statuses outside the known workflow(s) keep the alphabetical fallback
+    const otherColumns = Array.from(statusMap.values()).toSorted((a, b) =>
+      a.name.localeCompare(b.name),
+    );
+
+    const columns = [...workflowColumns, ...otherColumns];
 
     if (defaultColumn.tasks.length > 0) {
       columns.push(defaultColumn);
@@ -227,4 +259,4 @@ export const kanbanRenderer = new KanbanRenderer();
 
 // Re-export helpers for testing
 export { stripAnsi, truncateText, padText };
-export type { KanbanTask, KanbanColumn };
+export type { KanbanTask, KanbanColumn, KanbanData };
@@ -0,0 +1,43 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+
+import type { RenderContext } from '../types.js';
+
+import { HumanQueryResultRenderer } from './query-result.js';
+
+const ctx: RenderContext = { noColor: true, terminalWidth: 80 };
+
+describe('HumanQueryResultRenderer', () => {
+  const spy = vi.spyOn(console, 'log').mockImplementation(() => {});
+  afterEach(() => spy.mockClear());
+
+  it('aligns columns and right-aligns numbers', () => {
+    new HumanQueryResultRenderer().render(
+      {
+        data: [
+          { client: 'Acme', hours: 12.5 },
+          { client: 'Globex Corporation', hours: 3 },
+        ],
+      },
+      ctx,
+    );
+
+    const lines = spy.mock.calls.map((call) => String(call[0]));
+    expect(lines[0]).toBe('client              hours');
+    expect(lines[1]).toBe('Acme                 12.5');
+    expect(lines[2]).toBe('Globex Corporation      3');
+    expect(lines[3]).toBe('\n2 rows');
+  });
+
+  it('renders NULL as an empty cell', () => {
+    new HumanQueryResultRenderer().render({ data: [{ id: '1', due_date: null }] }, ctx);
+
+    expect(spy.mock.calls[1][0]).toBe('1');
+    expect(spy.mock.calls[2][0]).toBe('\n1 row');
+  });
+
+  it('renders an empty state', () => {
+    new HumanQueryResultRenderer().render({ data: [] }, ctx);
+
+    expect(spy.mock.calls[0][0]).toBe('No rows');
+  });
+});
@@ -0,0 +1,49 @@
+/**
+ * Human-readable renderer for `productive query` results
+ */
+
+import type { GenericRenderer, RenderContext } from '../types.js';
+
+import { colors } from '../../utils/colors.js';
+
+function formatCell(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
+
+/**
+ * Render rows as aligned columns, numbers right-aligned, with a row count
+ */
+export class HumanQueryResultRenderer implements GenericRenderer {
+  render(data: { data: Record<string, unknown>[] }, ctx: RenderContext): void {
+    const { data: rows } = data;
+
+    if (rows.length === 0) {
+      console.log(ctx.noColor ? 'No rows' : colors.dim('No rows'));
+      return;
+    }
+
+    const headers = Object.keys(rows[0]);
+    const cells = rows.map((row) => headers.map((header) => formatCell(row[header])));
+    const numeric = headers.map((header) =>
+      rows.every((row) => row[header] === null || typeof row[header] === 'number'),
+    );
+    const widths = headers.map((header, i) =>
+      Math.max(header.length, ...cells.map((row) => row[i].length)),
+    );
+    const pad = (value: string, i: number) =>
+      numeric[i] ? value.padStart(widths[i]) : value.padEnd(widths[i]);
+
+    const header = headers.map(pad).join('  ');
+    console.log(ctx.noColor ? header : colors.bold(header));
+    for (const row of cells) {
+      console.log(row.map(pad).join('  ').trimEnd());
+    }
+
+    const count = `${rows.length} row${rows.length === 1 ? '' : 's'}`;
+    console.log(ctx.noColor ? `\n${count}` : colors.dim(`\n${count}`));
+  }
+}
+
+export const humanQueryResultRenderer = new HumanQueryResultRenderer();
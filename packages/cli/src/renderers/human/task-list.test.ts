@@ -0,0 +1,62 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+
+import type { RenderContext } from '../types.js';
+
+import { HumanTaskListDetailRenderer, HumanTaskListListRenderer } from './task-list.js';
+
+const ctx: RenderContext = { noColor: true, terminalWidth: 80 };
+
+const taskList = {
+  id: '10',
+  name: 'Sprint 12',
+  position: 2,
+  archived: false,
+  archived_at: null,
+  project_name: 'Website',
+  board_name: 'Development',
+};
+
+function output(spy: ReturnType<typeof vi.spyOn>): string {
+  return spy.mock.calls.map((call: unknown[]) => call.join(' ')).join('\n');
+}
+
+describe('HumanTaskListListRenderer', () => {
+  const spy = vi.spyOn(console, 'log').mockImplementation(() => {});
+  afterEach(() => spy.mockClear());
+
+  it('renders a list', () => {
+    new HumanTaskListListRenderer().render(
+      {
+        data: [taskList, { ...taskList, id: '11', name: 'Old', archived: true }],
+        meta: { page: 1, total_pages: 1, total_count: 2 },
+      },
+      ctx,
+    );
+    const text = output(spy);
+    expect(text).toContain('Page 1/1 (2 total)');
+    expect(text).toContain('Sprint 12');
+    expect(text).toContain('ID: 10 | Project: Website | Board: Development | Position: 2');
+    expect(text).toContain('[ARCHIVED] Old');
+  });
+
+  it('renders an empty message', () => {
+    new HumanTaskListListRenderer().render({ data: [] }, ctx);
+    expect(output(spy)).toContain('No task lists found');
+  });
+});
+
+describe('HumanTaskListDetailRenderer', () => {
+  const spy = vi.spyOn(console, 'log').mockImplementation(() => {});
+  afterEach(() => spy.mockClear());
+
+  it('renders details', () => {
+    new HumanTaskListDetailRenderer().render(
+      { ...taskList, archived: true, archived_at: '2024-02-01' },
+      ctx,
+    );
+    const text = output(spy);
+    expect(text).toContain('Sprint 12');
+    expect(text).toContain('Board: Development');
+    expect(text).toContain('Archived: 2024-02-01');
+  });
+});
@@ -0,0 +1,73 @@
+/**
+ * Human-readable renderers for Task List resources
+ */
+
+import type { FormattedTaskList, FormattedListResponse } from '@studiometa/productive-api';
+
+import type { RenderContext, ListRenderer, Renderer } from '../types.js';
+
+import { colors } from '../../utils/colors.js';
+
+function archivedBadge(noColor: boolean): string {
+  return noColor ? '[ARCHIVED]' : colors.dim('[ARCHIVED]');
+}
+
+/**
+ * Render a list of task lists in human-readable format
+ */
+export class HumanTaskListListRenderer implements ListRenderer<FormattedTaskList> {
+  render(data: FormattedListResponse<FormattedTaskList>, ctx: RenderContext): void {
+    const { data: taskLists, meta } = data;
+
+    if (taskLists.length === 0) {
+      console.log(ctx.noColor ? 'No task lists found' : colors.dim('No task lists found'));
+      return;
+    }
+
+    if (meta) {
+      const pageInfo = `Page ${meta.page}/${meta.total_pages} (${meta.total_count} total)`;
+      console.log(ctx.noColor ? pageInfo : colors.dim(pageInfo));
+      console.log();
+    }
+
+    for (const taskList of taskLists) {
+      const name = taskList.name || 'Untitled list';
+      const title = ctx.noColor ? name : colors.bold(name);
+      console.log(taskList.archived ? `${archivedBadge(ctx.noColor)} ${title}` : title);
+
+      const details: string[] = [`ID: ${taskList.id}`];
+      if (taskList.project_name) details.push(`Project: ${taskList.project_name}`);
+      if (taskList.board_name) details.push(`Board: ${taskList.board_name}`);
+      if (taskList.position !== null) details.push(`Position: ${taskList.position}`);
+
+      const detailLine = details.join(' | ');
+      console.log(ctx.noColor ? `  ${detailLine}` : colors.dim(`  ${detailLine}`));
+      console.log();
+    }
+  }
+}
+
+/**
+ * Render a single task list detail in human-readable format
+ */
+export class HumanTaskListDetailRenderer implements Renderer<FormattedTaskList> {
+  render(taskList: FormattedTaskList, ctx: RenderContext): void {
+    const label = (text: string) => (ctx.noColor ? text : colors.cyan(text));
+
+    console.log();
+    const name = taskList.name || 'Untitled list';
+    console.log(ctx.noColor ? name : colors.bold(name));
+    console.log();
+
+    console.log(label('ID:'), taskList.id);
+    if (taskList.project_name) console.log(label('Project:'), taskList.project_name);
+    if (taskList.board_name) console.log(label('Board:'), taskList.board_name);
+    if (taskList.position !== null) console.log(label('Position:'), String(taskList.position));
+    if (taskList.archived_at) console.log(label('Archived:'), taskList.archived_at);
+    console.log();
+  }
+}
+
+// Singleton instances
+export const humanTaskListListRenderer = new HumanTaskListListRenderer();
+export const humanTaskListDetailRenderer = new HumanTaskListDetailRenderer();
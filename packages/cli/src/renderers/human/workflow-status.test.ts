@@ -0,0 +1,56 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+
+import type { RenderContext } from '../types.js';
+
+import {
+  HumanWorkflowStatusDetailRenderer,
+  HumanWorkflowStatusListRenderer,
+} from './workflow-status.js';
+
+const ctx: RenderContext = { noColor: true, terminalWidth: 80 };
+
+const status = {
+  id: '5',
+  name: 'To do',
+  position: 1,
+  category: 'not_started',
+  category_id: 1,
+  color_id: null,
+  workflow_id: '9',
+};
+
+function output(spy: ReturnType<typeof vi.spyOn>): string {
+  return spy.mock.calls.map((call: unknown[]) => call.join(' ')).join('\n');
+}
+
+describe('HumanWorkflowStatusListRenderer', () => {
+  const spy = vi.spyOn(console, 'log').mockImplementation(() => {});
+  afterEach(() => spy.mockClear());
+
+  it('renders statuses in order with their category', () => {
+    new HumanWorkflowStatusListRenderer().render(
+      { data: [status, { ...status, id: '6', name: 'Done', position: 2, category: 'closed' }] },
+      ctx,
+    );
+    const text = output(spy);
+    expect(text).toContain('1. To do [NOT STARTED] (ID: 5)');
+    expect(text).toContain('2. Done [CLOSED] (ID: 6)');
+  });
+
+  it('renders an empty message', () => {
+    new HumanWorkflowStatusListRenderer().render({ data: [] }, ctx);
+    expect(output(spy)).toContain('No workflow statuses found');
+  });
+});
+
+describe('HumanWorkflowStatusDetailRenderer', () => {
+  const spy = vi.spyOn(console, 'log').mockImplementation(() => {});
+  afterEach(() => spy.mockClear());
+
+  it('renders details', () => {
+    new HumanWorkflowStatusDetailRenderer().render(status, ctx);
+    const text = output(spy);
+    expect(text).toContain('Category: [NOT STARTED]');
+    expect(text).toContain('Workflow: 9');
+  });
+});
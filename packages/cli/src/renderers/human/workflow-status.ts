@@ -0,0 +1,63 @@
+/**
+ * Human-readable renderers for Workflow Status resources
+ */
+
+import type { FormattedWorkflowStatus, FormattedListResponse } from '@studiometa/productive-api';
+
+import type { RenderContext, ListRenderer, Renderer } from '../types.js';
+
+import { colors } from '../../utils/colors.js';
+
+function categoryBadge(category: string, noColor: boolean): string {
+  const badge = `[${category.toUpperCase().replaceAll('_', ' ')}]`;
+  if (noColor) return badge;
+  if (category === 'closed') return colors.green(badge);
+  if (category === 'started') return colors.yellow(badge);
+  return colors.dim(badge);
+}
+
+/**
+ * Render workflow statuses in column order
+ */
+export class HumanWorkflowStatusListRenderer implements ListRenderer<FormattedWorkflowStatus> {
+  render(data: FormattedListResponse<FormattedWorkflowStatus>, ctx: RenderContext): void {
+    const { data: statuses } = data;
+
+    if (statuses.length === 0) {
+      console.log(
+        ctx.noColor ? 'No workflow statuses found' : colors.dim('No workflow statuses found'),
+      );
+      return;
+    }
+
+    for (const status of statuses) {
+      const position = status.position !== null ? `${status.position}.` : '-';
+      const name = ctx.noColor ? status.name : colors.bold(status.name);
+      const idText = ctx.noColor ? `(ID: ${status.id})` : colors.dim(`(ID: ${status.id})`);
+      console.log(`${position} ${name} ${categoryBadge(status.category, ctx.noColor)} ${idText}`);
+    }
+  }
+}
+
+/**
+ * Render a single workflow status in human-readable format
+ */
+export class HumanWorkflowStatusDetailRenderer implements Renderer<FormattedWorkflowStatus> {
+  render(status: FormattedWorkflowStatus, ctx: RenderContext): void {
+    const label = (text: string) => (ctx.noColor ? text : colors.cyan(text));
+
+    console.log();
+    console.log(ctx.noColor ? status.name : colors.bold(status.name));
+    console.log();
+
+    console.log(label('ID:'), status.id);
+    console.log(label('Category:'), categoryBadge(status.category, ctx.noColor));
+    if (status.position !== null) console.log(label('Position:'), String(status.position));
+    if (status.workflow_id) console.log(label('Workflow:'), status.workflow_id);
+    console.log();
+  }
+}
+
+// Singleton instances
+export const humanWorkflowStatusListRenderer = new HumanWorkflowStatusListRenderer();
+export const humanWorkflowStatusDetailRenderer = new HumanWorkflowStatusDetailRenderer();
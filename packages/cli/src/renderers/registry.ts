@@ -8,22 +8,31 @@
 import type { GenericRenderer, OutputFormat, ResourceType, RenderContext } from './types.js';
 
 import { csvRenderer } from './csv.js';
+import { humanAbsenceListRenderer } from './human/absence.js';
 import { humanActivityListRenderer } from './human/activity.js';
 import { humanAttachmentListRenderer } from './human/attachment.js';
+import { humanAvailabilityRenderer, humanCapacityListRenderer } from './human/availability.js';
+import { humanBoardListRenderer } from './human/board.js';
 import { humanBookingListRenderer } from './human/booking.js';
 import { humanCommentListRenderer } from './human/comment.js';
 import { humanCompanyListRenderer } from './human/company.js';
 import { humanCustomFieldListRenderer } from './human/custom-field.js';
 import { humanDealListRenderer } from './human/deal.js';
 import { humanDiscussionListRenderer } from './human/discussion.js';
+import { humanExpenseListRenderer } from './human/expense.js';
+import { humanHolidayCalendarListRenderer, humanHolidayListRenderer } from './human/holiday.js';
+import { humanInvoiceListRenderer, humanLineItemListRenderer } from './human/invoice.js';
 import { kanbanRenderer } from './human/kanban.js';
 import { humanPageListRenderer } from './human/page.js';
 import { humanPersonListRenderer } from './human/person.js';
 import { humanProjectListRenderer } from './human/project.js';
+import { humanQueryResultRenderer } from './human/query-result.js';
 import { humanServiceListRenderer } from './human/service.js';
+import { humanTaskListListRenderer } from './human/task-list.js';
 import { humanTaskListRenderer } from './human/task.js';
 import { humanTimeEntryListRenderer } from './human/time-entry.js';
 import { humanTimerListRenderer } from './human/timer.js';
+import { humanWorkflowStatusListRenderer } from './human/workflow-status.js';
 import { jsonRenderer } from './json.js';
 import { tableRenderer } from './table.js';
 
@@ -137,6 +146,9 @@ registerRenderer('time_entry', 'human', humanTimeEntryListRenderer);
 registerRenderer('project', 'human', humanProjectListRenderer);
 registerRenderer('task', 'human', humanTaskListRenderer);
 registerRenderer('task', 'kanban', kanbanRenderer);
+registerRenderer('task_list', 'human', humanTaskListListRenderer);
+registerRenderer('board', 'human', humanBoardListRenderer);
+registerRenderer('workflow_status', 'human', humanWorkflowStatusListRenderer);
 registerRenderer('person', 'human', humanPersonListRenderer);
 registerRenderer('service', 'human', humanServiceListRenderer);
 registerRenderer('company', 'human', humanCompanyListRenderer);
@@ -147,5 +159,14 @@ registerRenderer('booking', 'human', humanBookingListRenderer);
 registerRenderer('attachment', 'human', humanAttachmentListRenderer);
 registerRenderer('page', 'human', humanPageListRenderer);
 registerRenderer('discussion', 'human', humanDiscussionListRenderer);
+registerRenderer('invoice', 'human', humanInvoiceListRenderer);
+registerRenderer('line_item', 'human', humanLineItemListRenderer);
+registerRenderer('expense', 'human', humanExpenseListRenderer);
+registerRenderer('absence', 'human', humanAbsenceListRenderer);
+registerRenderer('holiday', 'human', humanHolidayListRenderer);
+registerRenderer('holiday_calendar', 'human', humanHolidayCalendarListRenderer);
+registerRenderer('capacity', 'human', humanCapacityListRenderer);
+registerRenderer('availability', 'human', humanAvailabilityRenderer);
 registerRenderer('activity', 'human', humanActivityListRenderer);
 registerRenderer('custom-field', 'human', humanCustomFieldListRenderer);
+registerRenderer('query_result', 'human', humanQueryResultRenderer);
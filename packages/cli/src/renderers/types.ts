@@ -73,6 +73,9 @@ export interface GenericRenderer {
 export type ResourceType =
   | 'time_entry'
   | 'task'
+  | 'task_list'
+  | 'board'
+  | 'workflow_status'
   | 'project'
   | 'person'
   | 'service'
@@ -84,5 +87,14 @@ export type ResourceType =
   | 'attachment'
   | 'page'
   | 'discussion'
+  | 'invoice'
+  | 'line_item'
+  | 'expense'
+  | 'absence'
+  | 'holiday'
+  | 'holiday_calendar'
+  | 'capacity'
+  | 'availability'
   | 'activity'
-  | 'custom-field';
+  | 'custom-field'
+  | 'query_result';
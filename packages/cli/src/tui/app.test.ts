@@ -0,0 +1,154 @@
+import { describe, it, expect, vi } from 'vitest';
+
+import type { ProductiveApi } from '../api.js';
+import type { Terminal, TuiKey } from './terminal.js';
+
+import { createTestContext } from '../context.js';
+import { runTui } from './app.js';
+
+function createFakeTerminal() {
+  let keyListener: ((key: TuiKey) => void) | undefined;
+  const terminal = {
+    columns: 100,
+    rows: 30,
+    start: vi.fn(),
+    stop: vi.fn(),
+    draw: vi.fn(),
+    onKey: vi.fn((listener: (key: TuiKey) => void) => {
+      keyListener = listener;
+    }),
+    onResize: vi.fn(),
+  };
+
+  return {
+    terminal: terminal as Terminal & typeof terminal,
+    /** Press keys once the dashboard is listening */
+    async press(...keys: string[]) {
+      await vi.waitFor(() => expect(keyListener).toBeDefined());
+      for (const key of keys) keyListener!({ name: key, sequence: key });
+    },
+    screen: () => String(terminal.draw.mock.lastCall?.[0].join('\n')),
+  };
+}
+
+function emptyPage() {
+  return { data: [], meta: { total_pages: 1 } };
+}
+
+function createApi() {
+  return {
+    getTimeEntries: vi.fn().mockResolvedValue({
+      data: [
+        {
+          id: '2',
+          type: 'time_entries',
+          attributes: { date: '2024-03-06', time: 90, note: 'Review' },
+          relationships: { service: { data: { type: 'services', id: '100' } } },
+        },
+      ],
+      included: [{ id: '100', type: 'services', attributes: { name: 'Design' } }],
+      meta: { total_pages: 1 },
+    }),
+    getTimers: vi.fn().mockResolvedValue(emptyPage()),
+    getTasks: vi.fn().mockResolvedValue(emptyPage()),
+    getServices: vi.fn().mockResolvedValue({
+      data: [{ id: '100', type: 'services', attributes: { name: 'Design' } }],
+      meta: { total_pages: 1 },
+    }),
+    startTimer: vi.fn().mockResolvedValue({ data: { id: '55', type: 'timers', attributes: {} } }),
+  };
+}
+
+const now = () => new Date('2024-03-06T10:00:00');
+
+describe('runTui', () => {
+  it('loads the dashboard of the configured user', async () => {
+    const api = createApi();
+    const fake = createFakeTerminal();
+    const ctx = createTestContext({ api: api as unknown as ProductiveApi });
+
+    const done = runTui(ctx, fake.terminal, { now });
+    await fake.press('q');
+    await done;
+
+    expect(api.getTimeEntries).toHaveBeenCalledWith(
+      expect.objectContaining({
+        filter: expect.objectContaining({
+          person_id: '500521',
+          after: '2024-03-04',
+          before: '2024-03-10',
+        }),
+        include: ['service'],
+      }),
+    );
+    expect(fake.screen()).toContain('2024-03-06  1h 30m  #2  Design');
+    expect(fake.terminal.start).toHaveBeenCalled();
+    expect(fake.terminal.stop).toHaveBeenCalled();
+  });
+
+  it('starts a timer and reloads', async () => {
+    const api = createApi();
+    const fake = createFakeTerminal();
+    const ctx = createTestContext({ api: api as unknown as ProductiveApi });
+
+    const done = runTui(ctx, fake.terminal, { now });
+    await fake.press('s', 'return');
+    await vi.waitFor(() => expect(fake.screen()).toContain('Timer started'));
+    await fake.press('q');
+    await done;
+
+    expect(api.startTimer).toHaveBeenCalledWith({ service_id: '100', time_entry_id: undefined });
+    expect(api.getTimers).toHaveBeenCalledTimes(2);
+  });
+
+  it('reports failed actions in the footer', async () => {
+    const api = createApi();
+    api.startTimer.mockRejectedValue(new Error('Service is closed'));
+    const fake = createFakeTerminal();
+    const ctx = createTestContext({ api: api as unknown as ProductiveApi });
+
+    const done = runTui(ctx, fake.terminal, { now });
+    await fake.press('s', 'return');
+    await vi.waitFor(() => expect(fake.screen()).toContain('Service is closed'));
+    await fake.press('q');
+    await done;
+  });
+
+  it('takes the week and the day time is logged on in the configured timezone', async () => {
+    const api = {
+      ...createApi(),
+      createTimeEntry: vi.fn().mockResolvedValue({ data: { id: '3', type: 'time_entries' } }),
+    };
+    const fake = createFakeTerminal();
+    const ctx = createTestContext({
+      api: api as unknown as ProductiveApi,
+      config: { apiToken: 'test-token', userId: '500521', timezone: 'Pacific/Auckland' },
+    });
+
+    // Sunday evening in UTC is already Monday morning in Auckland
+    const done = runTui(ctx, fake.terminal, { now: () => new Date('2024-03-10T20:00:00Z') });
+    await fake.press('l', 'return', '1', 'h', 'return', 'return');
+    await vi.waitFor(() => expect(fake.screen()).toContain('Logged'));
+    await fake.press('q');
+    await done;
+
+    expect(api.getTimeEntries).toHaveBeenCalledWith(
+      expect.objectContaining({
+        filter: expect.objectContaining({ after: '2024-03-11', before: '2024-03-17' }),
+      }),
+    );
+    expect(api.createTimeEntry).toHaveBeenCalledWith(
+      expect.objectContaining({ date: '2024-03-11', time: 60 }),
+    );
+  });
+
+  it('restores the terminal when loading fails', async () => {
+    const api = createApi();
+    api.getTasks.mockRejectedValue(new Error('Unauthorized'));
+    const fake = createFakeTerminal();
+    const ctx = createTestContext({ api: api as unknown as ProductiveApi });
+
+    await expect(runTui(ctx, fake.terminal, { now })).rejects.toThrow('Unauthorized');
+    expect(fake.terminal.stop).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,163 @@
+/**
+ * Main loop of `productive tui`
+ *
+ * Draws the dashboard, turns key presses into actions and runs them through
+ * the core executors, reloading the dashboard after every change.
+ */
+
+import {
+  createTimeEntry,
+  fromCommandContext,
+  startTimer,
+  stopTimer,
+  updateTask,
+} from '@studiometa/productive-core';
+
+import type { CommandContext } from '../context.js';
+import type { Terminal } from './terminal.js';
+
+import { formatTime } from '../renderers/index.js';
+import { loadTaskStatuses, loadTuiData } from './data.js';
+import {
+  createTuiState,
+  handleKey,
+  openStatusPicker,
+  withData,
+  withMessage,
+  type TuiAction,
+} from './state.js';
+import { renderScreen } from './view.js';
+
+/** Redraw interval keeping the running timer up to date */
+const TICK_INTERVAL = 30_000;
+
+export interface RunTuiOptions {
+  /** Current time, for tests */
+  now?: () => Date;
+}
+
+/**
+ * Run the dashboard until the user quits
+ */
+export async function runTui(
+  ctx: CommandContext,
+  terminal: Terminal,
+  options: RunTuiOptions = {},
+): Promise<void> {
+  const now = options.now ?? (() => new Date());
+  const execCtx = fromCommandContext(ctx, { clock: now });
+  // Checked by the command before starting
+  const personId = String(ctx.config.userId);
+
+  const load = () => loadTuiData(execCtx, personId);
+
+  terminal.start();
+  terminal.draw(['Loading…']);
+
+  try {
+    let state = createTuiState(await load());
+    let queue = Promise.resolve();
+
+    const draw = () => terminal.draw(renderScreen(state, terminal, now()));
+    const fail = (error: unknown) => {
+      state = withMessage(state, error instanceof Error ? error.message : String(error), 'error');
+    };
+
+    /**
+     * Run an action's API calls, then reload and report the outcome in the footer
+     */
+    const run = async (pending: string, call: () => Promise<string | undefined>) => {
+      state = withMessage(state, pending, 'info');
+      draw();
+      try {
+        const done = await call();
+        state = withData(state, await load());
+        state = done ? withMessage(state, done, 'success') : { ...state, message: undefined };
+      } catch (error) {
+        fail(error);
+      }
+      draw();
+    };
+
+    const perform = async (action: TuiAction): Promise<void> => {
+      switch (action.type) {
+        case 'refresh':
+          return run('Reloading…', async () => undefined);
+        case 'startTimer':
+          return run('Starting timer…', async () => {
+            await startTimer(
+              { serviceId: action.serviceId, timeEntryId: action.timeEntryId },
+              execCtx,
+            );
+            return 'Timer started';
+          });
+        case 'stopTimer':
+          return run('Stopping timer…', async () => {
+            await stopTimer({ id: action.timerId }, execCtx);
+            return 'Timer stopped';
+          });
+        case 'logTime':
+          return run('Logging time…', async () => {
+            await createTimeEntry(
+              {
+                personId,
+                serviceId: action.serviceId,
+                time: action.minutes,
+                date: state.data.today,
+                note: action.note,
+              },
+              execCtx,
+            );
+            return `Logged ${formatTime(action.minutes)}`;
+          });
+        case 'setTaskStatus':
+          return run('Updating task…', async () => {
+            await updateTask({ id: action.taskId, workflowStatusId: action.statusId }, execCtx);
+            return 'Task updated';
+          });
+        case 'pickStatus':
+          state = withMessage(state, 'Loading statuses…', 'info');
+          draw();
+          try {
+            const statuses = await loadTaskStatuses(execCtx, action.task);
+            state = openStatusPicker({ ...state, message: undefined }, action.task, statuses);
+          } catch (error) {
+            fail(error);
+          }
+          draw();
+          return;
+        case 'quit':
+          return;
+      }
+    };
+
+    draw();
+    const tick = setInterval(draw, TICK_INTERVAL);
+    terminal.onResize(draw);
+
+    let quit: (() => void) | undefined;
+    const closed = new Promise<void>((resolve) => {
+      quit = resolve;
+    });
+
+    terminal.onKey((key) => {
+      const transition = handleKey(state, key);
+      state = transition.state;
+      draw();
+
+      const { action } = transition;
+      if (action?.type === 'quit') {
+        clearInterval(tick);
+        quit?.();
+      } else if (action) {
+        // Actions run one at a time, in the order of the key presses
+        queue = queue.then(() => perform(action));
+      }
+    });
+
+    await closed;
+    await queue;
+  } finally {
+    terminal.stop();
+  }
+}
@@ -0,0 +1,117 @@
+/**
+ * Data shown by `productive tui`, loaded through the core executors
+ */
+
+import {
+  formatListResponse,
+  formatTask,
+  formatTimeEntry,
+  formatTimer,
+  type FormattedTask,
+  type FormattedTimeEntry,
+  type FormattedTimer,
+} from '@studiometa/productive-api';
+import {
+  getDateService,
+  listServices,
+  listTasks,
+  listTimeEntries,
+  listTimers,
+  listWorkflowStatuses,
+  type DateService,
+  type ExecutorContext,
+} from '@studiometa/productive-core';
+
+/**
+ * A service time can be tracked on, with the deal it belongs to
+ */
+export interface TuiService {
+  id: string;
+  name: string;
+  deal?: string;
+}
+
+export interface TuiStatus {
+  id: string;
+  name: string;
+}
+
+export interface TuiData {
+  /** Today (YYYY-MM-DD) */
+  today: string;
+  /** Monday to Sunday of the current week (YYYY-MM-DD) */
+  week: string[];
+  /** The user's time entries of the week */
+  entries: FormattedTimeEntry[];
+  /** The user's running timer */
+  timer: FormattedTimer | null;
+  /** Open tasks assigned to the user */
+  tasks: FormattedTask[];
+  services: TuiService[];
+}
+
+/**
+ * Dates of the week containing `date` (YYYY-MM-DD), Monday first
+ */
+export function weekOf(dates: DateService, date: string): string[] {
+  const monday = dates.startOfWeek(date);
+  return Array.from({ length: 7 }, (_, index) => dates.addDays(monday, index));
+}
+
+/**
+ * Load everything the dashboard shows for a person, as of today in the
+ * configured timezone
+ */
+export async function loadTuiData(execCtx: ExecutorContext, personId: string): Promise<TuiData> {
+  const dates = getDateService(execCtx);
+  const today = dates.today();
+  const week = weekOf(dates, today);
+
+  const [entries, timers, tasks, services] = await Promise.all([
+    listTimeEntries(
+      { personId, after: week[0], before: week[6], perPage: 200, include: ['service'] },
+      execCtx,
+    ),
+    listTimers({ personId, perPage: 1, sort: '-started_at' }, execCtx),
+    listTasks({ assigneeId: personId, status: 'open', perPage: 100 }, execCtx),
+    listServices(
+      { personId, timeTracking: true, budgetStatus: 'open', perPage: 200, include: ['deal'] },
+      execCtx,
+    ),
+  ]);
+
+  const latestTimer = timers.data[0] ? formatTimer(timers.data[0]) : null;
+
+  return {
+    today,
+    week,
+    entries: formatListResponse(entries.data, formatTimeEntry, entries.meta, {
+      included: entries.included,
+    }).data,
+    timer: latestTimer?.running ? latestTimer : null,
+    tasks: formatListResponse(tasks.data, formatTask, tasks.meta, { included: tasks.included })
+      .data,
+    services: services.data.map((service) => {
+      const dealId = service.relationships?.deal?.data?.id;
+      const deal = services.included?.find((item) => item.type === 'deals' && item.id === dealId);
+      return {
+        id: service.id,
+        name: service.attributes.name,
+        deal: deal ? String(deal.attributes.name) : undefined,
+      };
+    }),
+  };
+}
+
+/**
+ * Load the workflow statuses a task can be moved to, in column order
+ */
+export async function loadTaskStatuses(
+  execCtx: ExecutorContext,
+  task: FormattedTask,
+): Promise<TuiStatus[]> {
+  if (!task.project_id) return [];
+
+  const result = await listWorkflowStatuses({ projectId: task.project_id }, execCtx);
+  return result.data.map((status) => ({ id: status.id, name: status.attributes.name }));
+}
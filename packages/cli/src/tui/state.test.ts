@@ -0,0 +1,187 @@
+import type { FormattedTask, FormattedTimeEntry } from '@studiometa/productive-api';
+
+import { describe, it, expect } from 'vitest';
+
+import type { TuiData } from './data.js';
+import type { TuiKey } from './terminal.js';
+
+import {
+  createTuiState,
+  handleKey,
+  openStatusPicker,
+  withData,
+  type TuiState,
+  type TuiTransition,
+} from './state.js';
+
+function entry(id: string, date: string, minutes: number): FormattedTimeEntry {
+  return { id, date, time_minutes: minutes, time_hours: (minutes / 60).toFixed(2), note: null };
+}
+
+function task(id: string, title: string): FormattedTask {
+  return { id, title, closed: false, due_date: null, project_id: '7', status_id: '2' };
+}
+
+function data(overrides: Partial<TuiData> = {}): TuiData {
+  return {
+    today: '2024-03-06',
+    week: [
+      '2024-03-04',
+      '2024-03-05',
+      '2024-03-06',
+      '2024-03-07',
+      '2024-03-08',
+      '2024-03-09',
+      '2024-03-10',
+    ],
+    entries: [
+      entry('1', '2024-03-05', 60),
+      entry('2', '2024-03-06', 90),
+      entry('3', '2024-03-06', 30),
+    ],
+    timer: null,
+    tasks: [task('10', 'Fix login'), task('11', 'Write docs')],
+    services: [
+      { id: '100', name: 'Design', deal: 'Website' },
+      { id: '101', name: 'Development', deal: 'Website' },
+      { id: '102', name: 'Support', deal: 'Maintenance' },
+    ],
+    ...overrides,
+  };
+}
+
+/**
+ * Key presses for typed text
+ */
+function typed(text: string): TuiKey[] {
+  return [...text].map((char) => ({ name: char.toLowerCase(), sequence: char }));
+}
+
+/**
+ * Apply key presses one after the other, collecting the actions
+ */
+function press(state: TuiState, ...keys: Array<TuiKey | string>) {
+  const actions: NonNullable<TuiTransition['action']>[] = [];
+  let current = state;
+  for (const key of keys) {
+    const transition = handleKey(
+      current,
+      typeof key === 'string' ? { name: key, sequence: key } : key,
+    );
+    current = transition.state;
+    if (transition.action) actions.push(transition.action);
+  }
+  return { state: current, actions };
+}
+
+describe('handleKey', () => {
+  it('moves the selection within the focused panel', () => {
+    const { state } = press(createTuiState(data()), 'down', 'down', 'tab', 'j');
+
+    expect(state.panel).toBe('tasks');
+    expect(state.selected).toEqual({ entries: 1, tasks: 1 });
+  });
+
+  it('quits with q and ctrl+c', () => {
+    expect(press(createTuiState(data()), 'q').actions).toEqual([{ type: 'quit' }]);
+    expect(
+      press(createTuiState(data()), 'l', { name: 'c', sequence: '\x03', ctrl: true }).actions,
+    ).toEqual([{ type: 'quit' }]);
+  });
+
+  it('starts a timer on a fuzzy-searched service', () => {
+    const { state, actions } = press(createTuiState(data()), 's', ...typed('supp'), 'return');
+
+    expect(actions).toEqual([{ type: 'startTimer', serviceId: '102' }]);
+    expect(state.mode).toEqual({ type: 'normal' });
+  });
+
+  it('stops the running timer', () => {
+    const timer = {
+      id: '55',
+      person_id: 1,
+      started_at: '2024-03-06T09:00:00Z',
+      stopped_at: null,
+      total_time: 0,
+      running: true,
+    };
+
+    expect(press(createTuiState(data({ timer })), 's').actions).toEqual([
+      { type: 'stopTimer', timerId: '55' },
+    ]);
+  });
+
+  it('resumes the timer of the selected entry', () => {
+    expect(press(createTuiState(data()), 'down', 'return').actions).toEqual([
+      { type: 'startTimer', timeEntryId: '3' },
+    ]);
+  });
+
+  it('logs time with a duration and a note', () => {
+    const { actions } = press(
+      createTuiState(data()),
+      'l',
+      'down',
+      'return',
+      ...typed('1h30'),
+      'return',
+      ...typed('Review'),
+      'return',
+    );
+
+    expect(actions).toEqual([{ type: 'logTime', serviceId: '101', minutes: 90, note: 'Review' }]);
+  });
+
+  it('keeps the duration prompt open on invalid input', () => {
+    const { state, actions } = press(
+      createTuiState(data()),
+      'l',
+      'return',
+      ...typed('soon'),
+      'return',
+    );
+
+    expect(actions).toEqual([]);
+    expect(state.mode.type).toBe('duration');
+    expect(state.message).toEqual({ text: 'Invalid duration: "soon"', kind: 'error' });
+  });
+
+  it('edits the search with backspace and cancels with escape', () => {
+    const { state } = press(createTuiState(data()), 's', ...typed('dx'), 'backspace');
+    expect(state.mode).toMatchObject({ type: 'services', query: 'd' });
+
+    expect(press(state, 'escape').state.mode).toEqual({ type: 'normal' });
+  });
+
+  it('changes the status of the selected task', () => {
+    const { actions } = press(createTuiState(data()), 'tab', 'return');
+    expect(actions).toEqual([{ type: 'pickStatus', task: data().tasks[0] }]);
+
+    const picking = openStatusPicker(createTuiState(data()), data().tasks[0], [
+      { id: '1', name: 'To do' },
+      { id: '2', name: 'In progress' },
+      { id: '3', name: 'Done' },
+    ]);
+    expect(picking.mode).toMatchObject({ type: 'statuses', selected: 1 });
+
+    expect(press(picking, 'down', 'return').actions).toEqual([
+      { type: 'setTaskStatus', taskId: '10', statusId: '3' },
+    ]);
+  });
+
+  it('opens and closes the help', () => {
+    const { state } = press(createTuiState(data()), { name: undefined, sequence: '?' });
+    expect(state.mode).toEqual({ type: 'help' });
+    expect(press(state, 'x').state.mode).toEqual({ type: 'normal' });
+  });
+});
+
+describe('withData', () => {
+  it('keeps selections within the new lists', () => {
+    const state = press(createTuiState(data()), 'down', 'tab', 'down').state;
+
+    const next = withData(state, data({ entries: [], tasks: [task('10', 'Fix login')] }));
+
+    expect(next.selected).toEqual({ entries: 0, tasks: 0 });
+  });
+});
@@ -0,0 +1,317 @@
+/**
+ * TUI state and keyboard handling
+ *
+ * Key presses are reduced to a new state plus an optional action; the app
+ * performs actions (API calls) and feeds the results back into the state.
+ * Keeping this pure makes the keyboard behavior testable without a terminal.
+ */
+
+import type { FormattedTask, FormattedTimeEntry } from '@studiometa/productive-api';
+
+import { parseDuration } from '@studiometa/productive-core';
+
+import type { TuiData, TuiService, TuiStatus } from './data.js';
+import type { TuiKey } from './terminal.js';
+
+import { fuzzyFilter } from '../utils/fuzzy.js';
+
+export type TuiPanel = 'entries' | 'tasks';
+
+export type TuiMode =
+  | { type: 'normal' }
+  | { type: 'help' }
+  | { type: 'services'; purpose: 'timer' | 'log'; query: string; selected: number }
+  | { type: 'duration'; service: TuiService; input: string }
+  | { type: 'note'; service: TuiService; minutes: number; input: string }
+  | { type: 'statuses'; task: FormattedTask; statuses: TuiStatus[]; selected: number };
+
+export interface TuiMessage {
+  text: string;
+  kind: 'info' | 'success' | 'error';
+}
+
+export interface TuiState {
+  data: TuiData;
+  panel: TuiPanel;
+  selected: Record<TuiPanel, number>;
+  mode: TuiMode;
+  message?: TuiMessage;
+}
+
+export type TuiAction =
+  | { type: 'quit' }
+  | { type: 'refresh' }
+  | { type: 'startTimer'; serviceId?: string; timeEntryId?: string }
+  | { type: 'stopTimer'; timerId: string }
+  | { type: 'logTime'; serviceId: string; minutes: number; note?: string }
+  | { type: 'pickStatus'; task: FormattedTask }
+  | { type: 'setTaskStatus'; taskId: string; statusId: string };
+
+export interface TuiTransition {
+  state: TuiState;
+  action?: TuiAction;
+}
+
+const PANELS: TuiPanel[] = ['entries', 'tasks'];
+
+export function createTuiState(data: TuiData): TuiState {
+  return { data, panel: 'entries', selected: { entries: 0, tasks: 0 }, mode: { type: 'normal' } };
+}
+
+/**
+ * Time entries of today, shown in the entries panel
+ */
+export function todayEntries(data: TuiData): FormattedTimeEntry[] {
+  return data.entries.filter((entry) => entry.date === data.today);
+}
+
+/**
+ * Services matching the picker query, best matches first
+ */
+export function filterServices(services: TuiService[], query: string): TuiService[] {
+  return fuzzyFilter(services, query, (service) =>
+    service.deal ? `${service.deal} ${service.name}` : service.name,
+  );
+}
+
+function panelSize(state: TuiState, panel: TuiPanel): number {
+  return panel === 'entries' ? todayEntries(state.data).length : state.data.tasks.length;
+}
+
+function clamp(index: number, size: number): number {
+  return Math.max(0, Math.min(index, size - 1));
+}
+
+/**
+ * Replace the data, keeping selections within the new lists
+ */
+export function withData(state: TuiState, data: TuiData): TuiState {
+  const next = { ...state, data };
+  return {
+    ...next,
+    selected: {
+      entries: clamp(state.selected.entries, panelSize(next, 'entries')),
+      tasks: clamp(state.selected.tasks, panelSize(next, 'tasks')),
+    },
+  };
+}
+
+export function withMessage(state: TuiState, text: string, kind: TuiMessage['kind']): TuiState {
+  return { ...state, message: { text, kind } };
+}
+
+/**
+ * Open the status picker once the task's workflow statuses are loaded
+ */
+export function openStatusPicker(
+  state: TuiState,
+  task: FormattedTask,
+  statuses: TuiStatus[],
+): TuiState {
+  if (statuses.length === 0) {
+    return withMessage(state, 'This task has no workflow statuses', 'error');
+  }
+  const current = statuses.findIndex((status) => status.id === task.status_id);
+  return {
+    ...state,
+    mode: { type: 'statuses', task, statuses, selected: Math.max(current, 0) },
+  };
+}
+
+function isUp(key: TuiKey): boolean {
+  return key.name === 'up' || (key.name === 'k' && !key.ctrl);
+}
+
+function isDown(key: TuiKey): boolean {
+  return key.name === 'down' || (key.name === 'j' && !key.ctrl);
+}
+
+/**
+ * Printable character typed in a text field
+ */
+function typedChar(key: TuiKey): string | undefined {
+  if (key.ctrl || key.meta || !key.sequence) return undefined;
+  return key.sequence.length === 1 && key.sequence >= ' ' && key.sequence !== '\x7f'
+    ? key.sequence
+    : undefined;
+}
+
+function editInput(input: string, key: TuiKey): string | undefined {
+  if (key.name === 'backspace') return input.slice(0, -1);
+  const char = typedChar(key);
+  return char === undefined ? undefined : input + char;
+}
+
+function normal(state: TuiState): TuiState {
+  return { ...state, mode: { type: 'normal' } };
+}
+
+function handleNormalKey(state: TuiState, key: TuiKey): TuiTransition {
+  const { data, panel } = state;
+  const selected = state.selected[panel];
+
+  if (isUp(key) || isDown(key)) {
+    const index = clamp(selected + (isUp(key) ? -1 : 1), panelSize(state, panel));
+    return { state: { ...state, selected: { ...state.selected, [panel]: index } } };
+  }
+
+  switch (key.name) {
+    case 'q':
+      return { state, action: { type: 'quit' } };
+    case 'tab': {
+      const next = PANELS[(PANELS.indexOf(panel) + 1) % PANELS.length];
+      return { state: { ...state, panel: next } };
+    }
+    case 'r':
+      return { state, action: { type: 'refresh' } };
+    case 's':
+      if (data.timer) {
+        return { state, action: { type: 'stopTimer', timerId: data.timer.id } };
+      }
+      return {
+        state: { ...state, mode: { type: 'services', purpose: 'timer', query: '', selected: 0 } },
+      };
+    case 'l':
+      return {
+        state: { ...state, mode: { type: 'services', purpose: 'log', query: '', selected: 0 } },
+      };
+    case 'return': {
+      if (panel === 'tasks') {
+        const task = data.tasks[selected];
+        return task ? { state, action: { type: 'pickStatus', task } } : { state };
+      }
+      const entry = todayEntries(data)[selected];
+      if (!entry) return { state };
+      if (data.timer) {
+        return { state: withMessage(state, 'Stop the running timer first (s)', 'error') };
+      }
+      return { state, action: { type: 'startTimer', timeEntryId: entry.id } };
+    }
+  }
+
+  if (key.sequence === '?') {
+    return { state: { ...state, mode: { type: 'help' } } };
+  }
+  return { state };
+}
+
+function handleServicesKey(
+  state: TuiState,
+  mode: Extract<TuiMode, { type: 'services' }>,
+  key: TuiKey,
+): TuiTransition {
+  const matches = filterServices(state.data.services, mode.query);
+
+  if (key.name === 'up' || key.name === 'down') {
+    const selected = clamp(mode.selected + (key.name === 'up' ? -1 : 1), matches.length);
+    return { state: { ...state, mode: { ...mode, selected } } };
+  }
+
+  if (key.name === 'return') {
+    const service = matches[mode.selected];
+    if (!service) return { state };
+    if (mode.purpose === 'timer') {
+      return { state: normal(state), action: { type: 'startTimer', serviceId: service.id } };
+    }
+    return { state: { ...state, mode: { type: 'duration', service, input: '' } } };
+  }
+
+  const query = editInput(mode.query, key);
+  if (query === undefined) return { state };
+  return { state: { ...state, mode: { ...mode, query, selected: 0 } } };
+}
+
+function handleDurationKey(
+  state: TuiState,
+  mode: Extract<TuiMode, { type: 'duration' }>,
+  key: TuiKey,
+): TuiTransition {
+  if (key.name === 'return') {
+    const minutes = parseDuration(mode.input);
+    if (minutes === undefined) {
+      return { state: withMessage(state, `Invalid duration: "${mode.input}"`, 'error') };
+    }
+    return {
+      state: { ...state, mode: { type: 'note', service: mode.service, minutes, input: '' } },
+    };
+  }
+
+  const input = editInput(mode.input, key);
+  if (input === undefined) return { state };
+  return { state: { ...state, mode: { ...mode, input } } };
+}
+
+function handleNoteKey(
+  state: TuiState,
+  mode: Extract<TuiMode, { type: 'note' }>,
+  key: TuiKey,
+): TuiTransition {
+  if (key.name === 'return') {
+    const note = mode.input.trim();
+    return {
+      state: normal(state),
+      action: {
+        type: 'logTime',
+        serviceId: mode.service.id,
+        minutes: mode.minutes,
+        note: note || undefined,
+      },
+    };
+  }
+
+  const input = editInput(mode.input, key);
+  if (input === undefined) return { state };
+  return { state: { ...state, mode: { ...mode, input } } };
+}
+
+function handleStatusesKey(
+  state: TuiState,
+  mode: Extract<TuiMode, { type: 'statuses' }>,
+  key: TuiKey,
+): TuiTransition {
+  if (isUp(key) || isDown(key)) {
+    const selected = clamp(mode.selected + (isUp(key) ? -1 : 1), mode.statuses.length);
+    return { state: { ...state, mode: { ...mode, selected } } };
+  }
+
+  if (key.name === 'return') {
+    const status = mode.statuses[mode.selected];
+    return {
+      state: normal(state),
+      action: { type: 'setTaskStatus', taskId: mode.task.id, statusId: status.id },
+    };
+  }
+  return { state };
+}
+
+/**
+ * Apply a key press to the state
+ */
+export function handleKey(state: TuiState, key: TuiKey): TuiTransition {
+  if (key.ctrl && key.name === 'c') {
+    return { state, action: { type: 'quit' } };
+  }
+
+  // Any key press acknowledges the previous message
+  const current = state.message ? { ...state, message: undefined } : state;
+  const { mode } = current;
+
+  if (mode.type !== 'normal' && key.name === 'escape') {
+    return { state: normal(current) };
+  }
+
+  switch (mode.type) {
+    case 'normal':
+      return handleNormalKey(current, key);
+    case 'help':
+      return { state: normal(current) };
+    case 'services':
+      return handleServicesKey(current, mode, key);
+    case 'duration':
+      return handleDurationKey(current, mode, key);
+    case 'note':
+      return handleNoteKey(current, mode, key);
+    case 'statuses':
+      return handleStatusesKey(current, mode, key);
+  }
+}
@@ -0,0 +1,100 @@
+/**
+ * Full-screen terminal control using native Node.js
+ *
+ * Switches to the alternate screen buffer, reads single key presses in raw
+ * mode and restores the terminal on exit, without external dependencies.
+ */
+
+import type { ReadStream, WriteStream } from 'node:tty';
+
+import { emitKeypressEvents } from 'node:readline';
+
+const ENTER_ALT_SCREEN = '\x1b[?1049h';
+const LEAVE_ALT_SCREEN = '\x1b[?1049l';
+const HIDE_CURSOR = '\x1b[?25l';
+const SHOW_CURSOR = '\x1b[?25h';
+const HOME = '\x1b[H';
+const CLEAR_LINE = '\x1b[2K';
+const CLEAR_BELOW = '\x1b[J';
+
+/**
+ * A key press, as emitted by `readline.emitKeypressEvents`
+ */
+export interface TuiKey {
+  name?: string;
+  sequence?: string;
+  ctrl?: boolean;
+  meta?: boolean;
+  shift?: boolean;
+}
+
+export interface Terminal {
+  readonly columns: number;
+  readonly rows: number;
+  /** Enter the alternate screen and start reading keys */
+  start(): void;
+  /** Restore the screen and the input mode */
+  stop(): void;
+  /** Replace the screen content */
+  draw(lines: string[]): void;
+  onKey(listener: (key: TuiKey) => void): void;
+  onResize(listener: () => void): void;
+}
+
+/**
+ * Create a terminal on TTY streams (stdin/stdout by default)
+ */
+export function createTerminal(
+  input: ReadStream = process.stdin as ReadStream,
+  output: WriteStream = process.stdout as WriteStream,
+): Terminal {
+  const keyListeners: Array<(key: TuiKey) => void> = [];
+  const resizeListeners: Array<() => void> = [];
+
+  const handleKeypress = (text: string | undefined, key: TuiKey | undefined) => {
+    const pressed = key ?? { name: text, sequence: text };
+    for (const listener of keyListeners) listener(pressed);
+  };
+  const handleResize = () => {
+    for (const listener of resizeListeners) listener();
+  };
+
+  return {
+    get columns() {
+      return output.columns ?? 80;
+    },
+    get rows() {
+      return output.rows ?? 24;
+    },
+
+    start() {
+      emitKeypressEvents(input);
+      input.setRawMode(true);
+      input.resume();
+      input.on('keypress', handleKeypress);
+      output.on('resize', handleResize);
+      output.write(ENTER_ALT_SCREEN + HIDE_CURSOR);
+    },
+
+    stop() {
+      input.off('keypress', handleKeypress);
+      output.off('resize', handleResize);
+      input.setRawMode(false);
+      input.pause();
+      output.write(SHOW_CURSOR + LEAVE_ALT_SCREEN);
+    },
+
+    draw(lines) {
+      // Overwrite in place rather than clearing the screen to avoid flicker
+      output.write(HOME + lines.map((line) => CLEAR_LINE + line).join('\r\n') + CLEAR_BELOW);
+    },
+
+    onKey(listener) {
+      keyListeners.push(listener);
+    },
+
+    onResize(listener) {
+      resizeListeners.push(listener);
+    },
+  };
+}
@@ -0,0 +1,136 @@
+import type { FormattedTimeEntry } from '@studiometa/productive-api';
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+
+import type { TuiData } from './data.js';
+
+import { setColorEnabled } from '../utils/colors.js';
+import { createTuiState, handleKey } from './state.js';
+import { captureLines, renderScreen, scrollBlocks, weekGrid } from './view.js';
+
+function entry(id: string, date: string, minutes: number, note: string | null = null) {
+  return {
+    id,
+    date,
+    time_minutes: minutes,
+    time_hours: (minutes / 60).toFixed(2),
+    note,
+  } as FormattedTimeEntry;
+}
+
+function data(overrides: Partial<TuiData> = {}): TuiData {
+  return {
+    today: '2024-03-06',
+    week: [
+      '2024-03-04',
+      '2024-03-05',
+      '2024-03-06',
+      '2024-03-07',
+      '2024-03-08',
+      '2024-03-09',
+      '2024-03-10',
+    ],
+    entries: [
+      entry('1', '2024-03-05', 480),
+      {
+        ...entry('2', '2024-03-06', 90, 'Sprint review'),
+        service: { id: '100', type: 'services', name: 'Design' },
+      },
+    ],
+    timer: null,
+    tasks: [{ id: '10', number: 42, title: 'Fix login', closed: false, due_date: null }],
+    services: [{ id: '100', name: 'Design', deal: 'Website' }],
+    ...overrides,
+  };
+}
+
+describe('captureLines', () => {
+  it('collects console output without trailing blank lines', () => {
+    const lines = captureLines(() => {
+      console.log('first\nsecond');
+      console.log('%s items', 3);
+      console.log();
+    });
+
+    expect(lines).toEqual(['first', 'second', '3 items']);
+  });
+});
+
+describe('scrollBlocks', () => {
+  const blocks = [
+    ['a1', 'a2'],
+    ['b1', 'b2'],
+    ['c1', 'c2'],
+  ];
+
+  it('shows the first items that fit', () => {
+    expect(scrollBlocks(blocks, 0, 5)).toEqual(['a1', 'a2', 'b1', 'b2']);
+  });
+
+  it('scrolls to the selected item', () => {
+    expect(scrollBlocks(blocks, 2, 4)).toEqual(['  ↑ 1 more', 'b2', 'c1', 'c2']);
+  });
+});
+
+describe('view', () => {
+  beforeEach(() => {
+    setColorEnabled(false);
+  });
+
+  afterEach(() => {
+    setColorEnabled(true);
+  });
+
+  it('renders the hours of the week', () => {
+    expect(weekGrid(data())).toEqual([
+      '  Week',
+      '   Mon 04  Tue 05  Wed 06  Thu 07  Fri 08  Sat 09  Sun 10   Total',
+      '        -      8h   1h30m       -       -       -       -   9h30m',
+    ]);
+  });
+
+  it('renders the panels with the human renderers', () => {
+    const screen = renderScreen(createTuiState(data()), { columns: 100, rows: 30 }).join('\n');
+
+    expect(screen).toContain('No timer running');
+    expect(screen).toContain('▸ Today 1h30m');
+    expect(screen).toContain('› 2024-03-06  1h 30m  #2  Design');
+    expect(screen).toContain('    Sprint review');
+    expect(screen).toContain('  My tasks 1');
+    expect(screen).toContain('#42 Fix login');
+  });
+
+  it('fills the terminal height', () => {
+    expect(renderScreen(createTuiState(data()), { columns: 100, rows: 30 })).toHaveLength(30);
+  });
+
+  it('renders the running timer with its elapsed time', () => {
+    const timer = {
+      id: '55',
+      person_id: 1,
+      started_at: '2024-03-06T09:00:00.000Z',
+      stopped_at: null,
+      total_time: 0,
+      running: true,
+      time_entry_id: '2',
+    };
+
+    const screen = renderScreen(
+      createTuiState(data({ timer })),
+      { columns: 100, rows: 30 },
+      new Date('2024-03-06T10:15:00Z'),
+    ).join('\n');
+
+    expect(screen).toContain('[RUNNING] 2024-03-06 at 09:00:00  Design');
+    expect(screen).toContain('Duration: 1h 15m');
+  });
+
+  it('renders the service picker', () => {
+    const { state } = handleKey(createTuiState(data()), { name: 's', sequence: 's' });
+
+    const screen = renderScreen(state, { columns: 100, rows: 30 }).join('\n');
+
+    expect(screen).toContain('Start a timer on…');
+    expect(screen).toContain('› Design · Website');
+  });
+});
@@ -0,0 +1,311 @@
+/**
+ * Screen layout of `productive tui`
+ *
+ * Panels reuse the human renderers: their console output is captured and
+ * laid out in the terminal instead of being printed.
+ */
+
+import { format } from 'node:util';
+
+import type { RenderContext } from '../renderers/types.js';
+import type { TuiData } from './data.js';
+import type { TuiMode, TuiPanel, TuiState } from './state.js';
+
+import {
+  formatTime,
+  humanTaskListRenderer,
+  humanTimeEntryListRenderer,
+  humanTimerListRenderer,
+  stripAnsi,
+  truncateText,
+} from '../renderers/index.js';
+import { colors, isColorEnabled } from '../utils/colors.js';
+import { filterServices, todayEntries } from './state.js';
+
+export interface ScreenSize {
+  columns: number;
+  rows: number;
+}
+
+const DAY_NAMES = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
+
+const KEY_HINTS: Record<TuiMode['type'], string> = {
+  normal: 'tab panel  ↑↓ move  s timer  l log time  enter resume/status  r refresh  ? help  q quit',
+  help: 'any key to close',
+  services: 'type to search  ↑↓ move  enter select  esc cancel',
+  duration: 'e.g. 45m, 1h30, 1.5h  enter next  esc cancel',
+  note: 'enter save  esc cancel',
+  statuses: '↑↓ move  enter apply  esc cancel',
+};
+
+/**
+ * Run a renderer and collect the lines it prints
+ */
+export function captureLines(render: () => void): string[] {
+  const lines: string[] = [];
+  const log = console.log;
+  console.log = (...args: unknown[]) => {
+    lines.push(...format(...args).split('\n'));
+  };
+  try {
+    render();
+  } finally {
+    console.log = log;
+  }
+  while (lines.length > 0 && stripAnsi(lines[lines.length - 1]).trim() === '') lines.pop();
+  return lines;
+}
+
+/**
+ * Elapsed minutes of a running timer
+ */
+function timerMinutes(startedAt: string, now: Date): number {
+  return Math.max(0, Math.floor((now.getTime() - Date.parse(startedAt)) / 60000));
+}
+
+function title(text: string, focused = false): string {
+  return focused ? colors.bold(colors.cyan(`▸ ${text}`)) : colors.bold(`  ${text}`);
+}
+
+/**
+ * Lines of each item, with a marker on the selected one
+ */
+function selectable(blocks: string[][], selected: number, focused: boolean): string[][] {
+  return blocks.map((lines, index) =>
+    lines.map((line, lineIndex) => {
+      const marker = index === selected && focused && lineIndex === 0 ? colors.cyan('› ') : '  ';
+      return `${marker}${line}`;
+    }),
+  );
+}
+
+/**
+ * Show as many items as fit in `height` lines, keeping the selected one visible
+ */
+export function scrollBlocks(blocks: string[][], selected: number, height: number): string[] {
+  const size = (from: number, to: number) =>
+    blocks.slice(from, to + 1).reduce((total, lines) => total + lines.length, 0);
+
+  let start = 0;
+  while (start < selected && size(start, selected) > height) start++;
+
+  const lines: string[] = [];
+  for (const block of blocks.slice(start)) {
+    if (lines.length + block.length > height) break;
+    lines.push(...block);
+  }
+  if (start > 0 && lines.length > 0) lines[0] = colors.dim(`  ↑ ${start} more`);
+  return lines;
+}
+
+function timerPanel(data: TuiData, now: Date, renderCtx: RenderContext): string[] {
+  if (!data.timer) {
+    return [title('Timer'), colors.dim('  No timer running, press s to start one')];
+  }
+
+  const timer = { ...data.timer, total_time: timerMinutes(data.timer.started_at, now) };
+  const entry = data.entries.find((item) => item.id === timer.time_entry_id);
+  const service = (entry?.service as { name?: string } | undefined)?.name;
+  const lines = captureLines(() => humanTimerListRenderer.render({ data: [timer] }, renderCtx));
+  if (service) lines[0] = `${lines[0]}  ${colors.cyan(service)}`;
+
+  return [title('Timer'), ...lines.map((line) => `  ${line}`)];
+}
+
+function entryBlocks(state: TuiState, renderCtx: RenderContext): string[][] {
+  return todayEntries(state.data).map((entry) => {
+    const lines = captureLines(() => humanTimeEntryListRenderer.renderItem(entry, renderCtx));
+    const service = (entry.service as { name?: string } | undefined)?.name;
+    if (service) lines[0] = `${lines[0]}  ${colors.cyan(service)}`;
+    return lines;
+  });
+}
+
+function taskBlocks(state: TuiState, renderCtx: RenderContext): string[][] {
+  return state.data.tasks.map((task) =>
+    captureLines(() => humanTaskListRenderer.renderItem(task, renderCtx)),
+  );
+}
+
+function panelLines(
+  state: TuiState,
+  panel: TuiPanel,
+  heading: string,
+  blocks: string[][],
+  empty: string,
+  height: number,
+): string[] {
+  const focused = state.panel === panel;
+  const body =
+    blocks.length === 0
+      ? [colors.dim(`  ${empty}`)]
+      : scrollBlocks(
+          selectable(blocks, state.selected[panel], focused),
+          state.selected[panel],
+          height - 1,
+        );
+  return [title(heading, focused), ...body];
+}
+
+/**
+ * Hours per day of the current week, today highlighted
+ */
+export function weekGrid(data: TuiData): string[] {
+  const minutes = data.week.map((date) =>
+    data.entries
+      .filter((entry) => entry.date === date)
+      .reduce((total, entry) => total + entry.time_minutes, 0),
+  );
+  const total = minutes.reduce((sum, value) => sum + value, 0);
+
+  const cell = (text: string, date?: string) => {
+    const padded = text.padStart(7);
+    return date === data.today ? colors.bold(colors.cyan(padded)) : padded;
+  };
+
+  const header = data.week.map((date, index) => cell(`${DAY_NAMES[index]} ${date.slice(8)}`, date));
+  const hours = minutes.map((value, index) =>
+    value > 0 ? cell(formatTime(value), data.week[index]) : colors.dim(cell('-')),
+  );
+
+  return [
+    title('Week'),
+    `  ${header.join(' ')} ${colors.bold('  Total')}`,
+    `  ${hours.join(' ')} ${colors.bold(formatTime(total).padStart(7))}`,
+  ];
+}
+
+function pickerLines(items: string[], selected: number, height: number, empty: string): string[] {
+  if (items.length === 0) return [colors.dim(`  ${empty}`)];
+  const blocks = items.map((item, index) => [
+    index === selected ? colors.cyan(`› ${item}`) : `  ${item}`,
+  ]);
+  return scrollBlocks(blocks, selected, height);
+}
+
+function overlayLines(state: TuiState, height: number): string[] | undefined {
+  const { mode } = state;
+
+  switch (mode.type) {
+    case 'normal':
+      return undefined;
+    case 'help':
+      return [
+        title('Keyboard shortcuts', true),
+        '  tab        Switch between today’s entries and tasks',
+        '  ↑ ↓ / j k  Move the selection',
+        '  s          Start a timer on a service, or stop the running one',
+        '  enter      Resume the timer of the selected entry / change the task status',
+        '  l          Log time on a service',
+        '  r          Reload',
+        '  q          Quit',
+      ];
+    case 'services': {
+      const services = filterServices(state.data.services, mode.query);
+      const heading = mode.purpose === 'timer' ? 'Start a timer on…' : 'Log time on…';
+      return [
+        title(heading, true),
+        `  ${colors.dim('Search:')} ${mode.query}${colors.cyan('▏')}`,
+        ...pickerLines(
+          services.map((service) =>
+            service.deal ? `${service.name} ${colors.dim(`· ${service.deal}`)}` : service.name,
+          ),
+          mode.selected,
+          height - 2,
+          'No matching service',
+        ),
+      ];
+    }
+    case 'duration':
+      return [
+        title(`Log time on ${mode.service.name}`, true),
+        `  ${colors.dim('Duration:')} ${mode.input}${colors.cyan('▏')}`,
+      ];
+    case 'note':
+      return [
+        title(`Log ${formatTime(mode.minutes)} on ${mode.service.name}`, true),
+        `  ${colors.dim('Note (optional):')} ${mode.input}${colors.cyan('▏')}`,
+      ];
+    case 'statuses':
+      return [
+        title(`Move "${mode.task.title}" to…`, true),
+        ...pickerLines(
+          mode.statuses.map((status) =>
+            status.id === mode.task.status_id
+              ? `${status.name} ${colors.dim('(current)')}`
+              : status.name,
+          ),
+          mode.selected,
+          height - 1,
+          'No status',
+        ),
+      ];
+  }
+}
+
+function footer(state: TuiState): string {
+  const { message } = state;
+  if (!message) return colors.dim(KEY_HINTS[state.mode.type]);
+  if (message.kind === 'error') return colors.red(`✗ ${message.text}`);
+  if (message.kind === 'success') return colors.green(`✓ ${message.text}`);
+  return colors.cyan(message.text);
+}
+
+/**
+ * Build the lines of the whole screen
+ */
+export function renderScreen(state: TuiState, size: ScreenSize, now: Date = new Date()): string[] {
+  const renderCtx: RenderContext = { noColor: !isColorEnabled(), terminalWidth: size.columns - 2 };
+  const { data } = state;
+
+  const header = `${colors.bold('Productive')}  ${colors.dim(data.today)}`;
+  const rule = colors.dim('─'.repeat(size.columns));
+  const timer = timerPanel(data, now, renderCtx);
+  const week = weekGrid(data);
+
+  // Header, rules, footer and the blank lines around the panels take 6 lines
+  const available = Math.max(size.rows - 6 - timer.length - week.length, 4);
+  const overlay = overlayLines(state, available);
+
+  let body: string[];
+  if (overlay) {
+    body = overlay;
+  } else {
+    const todayTotal = todayEntries(data).reduce((total, entry) => total + entry.time_minutes, 0);
+    const entriesHeight = Math.max(Math.floor(available / 2), 2);
+    body = [
+      ...panelLines(
+        state,
+        'entries',
+        `Today ${colors.dim(formatTime(todayTotal))}`,
+        entryBlocks(state, renderCtx),
+        'No time logged today, press l to log time',
+        entriesHeight,
+      ),
+      '',
+      ...panelLines(
+        state,
+        'tasks',
+        `My tasks ${colors.dim(String(data.tasks.length))}`,
+        taskBlocks(state, renderCtx),
+        'No open task assigned to you',
+        available - entriesHeight - 1,
+      ),
+    ];
+  }
+
+  const content = [...timer, '', ...body.slice(0, available)];
+  const padding = Math.max(size.rows - 5 - content.length - week.length, 0);
+  const lines = [
+    header,
+    rule,
+    ...content,
+    ...Array.from({ length: padding }, () => ''),
+    '',
+    ...week,
+    rule,
+    footer(state),
+  ];
+
+  return lines.slice(0, size.rows).map((line) => truncateText(line, size.columns));
+}
@@ -108,6 +108,11 @@ describe('parseArgs', () => {
       expect(result.options.field).toEqual(['a=1', 'b=2']);
     });
 
+    it('should collect repeated --set into array', () => {
+      const result = parseArgs(['--set', 'assignee=me', '--set', 'closed=true']);
+      expect(result.options.set).toEqual(['assignee=me', 'closed=true']);
+    });
+
     it('should collect repeated --header into array', () => {
       const result = parseArgs(['--header', 'X-A: 1', '--header', 'X-B: 2']);
       expect(result.options.header).toEqual(['X-A: 1', 'X-B: 2']);
@@ -13,7 +13,7 @@ export interface ParsedArgs {
 
 // Options that accept repeated values (collected into arrays)
 // Note: -F/-f short aliases are NOT included to avoid conflicts with --format etc.
-const REPEATABLE_OPTIONS = new Set(['field', 'raw-field', 'header', 'filter']);
+const REPEATABLE_OPTIONS = new Set(['field', 'raw-field', 'header', 'filter', 'set']);
 
 function resolveOptionValue(
   existing: OptionValue | undefined,
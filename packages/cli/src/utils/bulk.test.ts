@@ -0,0 +1,126 @@
+import type { BulkItemStatus, BulkResult } from '@studiometa/productive-core';
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+import { createTestContext } from '../context.js';
+import { ValidationError } from '../errors.js';
+import { parseBulkLimits, parseSetOptions, runBulkCommand } from './bulk.js';
+
+function bulkResult(dryRun: boolean, ids: string[], failed: string[] = []): BulkResult {
+  const items = ids.map((id) => {
+    let status: BulkItemStatus = 'pending';
+    if (!dryRun) status = failed.includes(id) ? 'failed' : 'succeeded';
+    return { id, label: `Entry ${id}`, status };
+  });
+  return {
+    action: 'bulk_delete',
+    resource: 'time_entries',
+    dry_run: dryRun,
+    filter: { person_id: '500' },
+    items,
+    total: items.length,
+    succeeded: items.filter((item) => item.status === 'succeeded').length,
+    failed: items.filter((item) => item.status === 'failed').length,
+  };
+}
+
+describe('parseSetOptions', () => {
+  it('reads repeated key=value pairs', () => {
+    expect(parseSetOptions(['assignee=me', 'title = Fix = now'])).toEqual({
+      assignee: 'me',
+      title: 'Fix = now',
+    });
+    expect(parseSetOptions(undefined)).toEqual({});
+  });
+
+  it('rejects pairs without a key', () => {
+    expect(() => parseSetOptions('=me')).toThrow(ValidationError);
+  });
+});
+
+describe('parseBulkLimits', () => {
+  it('reads positive integers', () => {
+    const ctx = createTestContext({ options: { limit: '50', concurrency: '2' } });
+
+    expect(parseBulkLimits(ctx)).toEqual({ limit: 50, concurrency: 2 });
+  });
+
+  it('rejects other values', () => {
+    const ctx = createTestContext({ options: { limit: '0' } });
+
+    expect(() => parseBulkLimits(ctx)).toThrow(ValidationError);
+  });
+});
+
+describe('runBulkCommand', () => {
+  let consoleLogSpy: ReturnType<typeof vi.spyOn>;
+
+  beforeEach(() => {
+    consoleLogSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    consoleLogSpy.mockRestore();
+    process.exitCode = undefined;
+  });
+
+  it('only changes the records of the preview', async () => {
+    const run = vi
+      .fn()
+      .mockResolvedValueOnce({ data: bulkResult(true, ['7', '8']) })
+      .mockResolvedValueOnce({ data: bulkResult(false, ['7', '8']) });
+    const ctx = createTestContext({ options: { yes: true, format: 'json' } });
+
+    await runBulkCommand(ctx, { noun: 'time entries', action: 'delete', run });
+
+    expect(run.mock.calls.map((call) => call[0])).toEqual([
+      { dryRun: true },
+      { dryRun: false, ids: ['7', '8'] },
+    ]);
+    const output = JSON.parse(consoleLogSpy.mock.calls.at(-1)[0]);
+    expect(output).toMatchObject({ dry_run: false, succeeded: 2 });
+  });
+
+  it('stops after the preview on a dry run or when nothing matches', async () => {
+    const run = vi.fn().mockResolvedValue({ data: bulkResult(true, ['7']) });
+
+    await runBulkCommand(createTestContext({ options: { 'dry-run': true, format: 'json' } }), {
+      noun: 'time entries',
+      action: 'delete',
+      run,
+    });
+    run.mockResolvedValue({ data: bulkResult(true, []) });
+    await runBulkCommand(createTestContext({ options: { yes: true, format: 'json' } }), {
+      noun: 'time entries',
+      action: 'delete',
+      run,
+    });
+
+    expect(run).toHaveBeenCalledTimes(2);
+    expect(run.mock.calls.every((call) => call[0].dryRun)).toBe(true);
+  });
+
+  it('requires --yes outside a terminal', async () => {
+    const run = vi.fn().mockResolvedValue({ data: bulkResult(true, ['7']) });
+    const ctx = createTestContext({ options: { format: 'json' } });
+
+    await expect(
+      runBulkCommand(ctx, { noun: 'time entries', action: 'delete', run }),
+    ).rejects.toThrow(ValidationError);
+    expect(run).toHaveBeenCalledTimes(1);
+  });
+
+  it('reports failures with a non-zero exit code', async () => {
+    const run = vi
+      .fn()
+      .mockResolvedValueOnce({ data: bulkResult(true, ['7', '8']) })
+      .mockResolvedValueOnce({ data: bulkResult(false, ['7', '8'], ['8']) });
+    const ctx = createTestContext({ options: { yes: true, format: 'human' } });
+
+    await runBulkCommand(ctx, { noun: 'time entries', action: 'delete', run });
+
+    const lines = consoleLogSpy.mock.calls.map((call) => String(call[0])).join('\n');
+    expect(lines).toContain('1 time entries deleted');
+    expect(process.exitCode).toBe(1);
+  });
+});
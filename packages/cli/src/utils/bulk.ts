@@ -0,0 +1,176 @@
+/**
+ * Shared flow of the bulk-update, bulk-delete and bulk approval commands
+ *
+ * Records matching the filter are listed first, then changed only once the
+ * user confirms in a terminal or passes `--yes` — and only those listed. `--dry-run` stops after the
+ * preview. Each record is reported on its own line so partial failures are
+ * visible.
+ */
+
+import {
+  ExecutorValidationError,
+  fromCommandContext,
+  type BulkResult,
+  type ExecutorContext,
+  type ExecutorResult,
+} from '@studiometa/productive-core';
+
+import type { CommandContext } from '../context.js';
+
+import { CommandError, ValidationError } from '../errors.js';
+import { colors } from './colors.js';
+import { isInteractive } from './interactive.js';
+import { confirm } from './prompt.js';
+
+const VERBS = {
+  update: { verb: 'Update', past: 'updated', progress: 'Updating' },
+  delete: { verb: 'Delete', past: 'deleted', progress: 'Deleting' },
+  approve: { verb: 'Approve', past: 'approved', progress: 'Approving' },
+  unapprove: { verb: 'Unapprove', past: 'unapproved', progress: 'Unapproving' },
+  reject: { verb: 'Reject', past: 'rejected', progress: 'Rejecting' },
+};
+
+export interface BulkCommand {
+  /** Plural noun used in messages, e.g. `tasks` */
+  noun: string;
+  action: keyof typeof VERBS;
+  /**
+   * Run the executor, only listing the records when `dryRun` is set and
+   * only changing those of `ids` when given
+   */
+  run: (
+    selection: { dryRun: boolean; ids?: string[] },
+    execCtx: ExecutorContext,
+  ) => Promise<ExecutorResult<BulkResult>>;
+}
+
+/**
+ * Parse repeated `--set key=value` options into a record
+ */
+export function parseSetOptions(value: unknown): Record<string, string> {
+  if (value === undefined) return {};
+  const pairs = Array.isArray(value) ? value.map(String) : [String(value)];
+  const set: Record<string, string> = {};
+
+  for (const pair of pairs) {
+    const index = pair.indexOf('=');
+    if (index <= 0) {
+      throw ValidationError.invalid('set', pair, 'expected key=value', [
+        'Repeat --set for each field, e.g. --set assignee=me --set status=123',
+      ]);
+    }
+    set[pair.slice(0, index).trim()] = pair.slice(index + 1).trim();
+  }
+
+  return set;
+}
+
+/**
+ * Read `--limit` and `--concurrency` as positive integers
+ */
+export function parseBulkLimits(ctx: CommandContext): { limit?: number; concurrency?: number } {
+  const limits: { limit?: number; concurrency?: number } = {};
+
+  for (const key of ['limit', 'concurrency'] as const) {
+    const value = ctx.options[key];
+    if (value === undefined) continue;
+    const parsed = Number(value);
+    if (!Number.isInteger(parsed) || parsed < 1) {
+      throw ValidationError.invalid(key, value, 'expected a positive integer');
+    }
+    limits[key] = parsed;
+  }
+
+  return limits;
+}
+
+function printItems(result: BulkResult): void {
+  for (const item of result.items) {
+    const id = colors.dim(item.id.padEnd(10));
+    switch (item.status) {
+      case 'pending':
+        console.log(`  ${id} ${item.label}`);
+        break;
+      case 'succeeded':
+        console.log(`  ${colors.green('✓')} ${id} ${item.label}`);
+        break;
+      case 'failed':
+        console.log(`  ${colors.red('✗')} ${id} ${item.label} ${colors.red(item.error ?? '')}`);
+        break;
+    }
+  }
+}
+
+async function confirmBulk(ctx: CommandContext, command: BulkCommand, total: number) {
+  if (ctx.options.yes === true || ctx.options.y === true) return;
+
+  if (!isInteractive(ctx)) {
+    throw ValidationError.invalid('yes', undefined, `confirmation required to ${command.action}`, [
+      'Pass --yes to confirm, or --dry-run to only list the records',
+    ]);
+  }
+
+  const confirmed = await confirm(`${VERBS[command.action].verb} ${total} ${command.noun}?`, false);
+  if (!confirmed) throw CommandError.cancelled();
+}
+
+async function runBulk(ctx: CommandContext, command: BulkCommand): Promise<void> {
+  const format = ctx.options.format || ctx.options.f || 'human';
+  const { past, progress } = VERBS[command.action];
+  const execCtx = fromCommandContext(ctx);
+
+  const spinner = ctx.createSpinner(`Selecting ${command.noun}...`);
+  spinner.start();
+  const { data: preview } = await command.run({ dryRun: true }, execCtx);
+  spinner.succeed();
+
+  if (preview.total === 0) {
+    if (format === 'json') ctx.formatter.output(preview);
+    else ctx.formatter.info(`No ${command.noun} match the filter`);
+    return;
+  }
+
+  if (format !== 'json') {
+    printItems(preview);
+    console.log();
+  }
+
+  if (ctx.options['dry-run'] === true) {
+    if (format === 'json') ctx.formatter.output(preview);
+    else ctx.formatter.info(`Dry run: ${preview.total} ${command.noun} would be ${past}`);
+    return;
+  }
+
+  await confirmBulk(ctx, command, preview.total);
+
+  const running = ctx.createSpinner(`${progress} ${command.noun}...`);
+  running.start();
+  // Only the records the user was shown: the filter may match others by now
+  const ids = preview.items.map((item) => item.id);
+  const { data: result } = await command.run({ dryRun: false, ids }, execCtx);
+  running.stop();
+
+  if (format === 'json') {
+    ctx.formatter.output(result);
+  } else {
+    printItems(result);
+    console.log();
+    if (result.succeeded > 0) ctx.formatter.success(`${result.succeeded} ${command.noun} ${past}`);
+    if (result.failed > 0) ctx.formatter.warning(`${result.failed} ${command.noun} failed`);
+  }
+  if (result.failed > 0) process.exitCode = 1;
+}
+
+/**
+ * Preview, confirm and run a bulk command
+ */
+export async function runBulkCommand(ctx: CommandContext, command: BulkCommand): Promise<void> {
+  try {
+    await runBulk(ctx, command);
+  } catch (error) {
+    if (error instanceof ExecutorValidationError) {
+      throw new ValidationError(error.message, error.field);
+    }
+    throw error;
+  }
+}
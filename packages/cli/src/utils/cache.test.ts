@@ -5,6 +5,7 @@ import { CacheStore, getCache, resetCache, disableCache, clearCache } from './ca
 // Mock the sqlite-cache module
 const mockCacheGet = vi.fn();
 const mockCacheGetWithMeta = vi.fn();
+const mockCacheGetEntry = vi.fn();
 const mockCacheSet = vi.fn();
 const mockCacheInvalidate = vi.fn();
 const mockCacheCleanup = vi.fn();
@@ -19,6 +20,7 @@ vi.mock('./sqlite-cache.js', () => ({
   getSqliteCache: vi.fn(() => ({
     cacheGet: mockCacheGet,
     cacheGetWithMeta: mockCacheGetWithMeta,
+    cacheGetEntry: mockCacheGetEntry,
     cacheSet: mockCacheSet,
     cacheInvalidate: mockCacheInvalidate,
     cacheCleanup: mockCacheCleanup,
@@ -37,6 +39,7 @@ describe('CacheStore', () => {
     resetCache();
     mockCacheGet.mockResolvedValue(null);
     mockCacheGetWithMeta.mockResolvedValue(null);
+    mockCacheGetEntry.mockResolvedValue(null);
     mockCacheSet.mockResolvedValue(undefined);
     mockCacheInvalidate.mockResolvedValue(0);
     mockCacheCleanup.mockResolvedValue(0);
@@ -173,6 +176,7 @@ describe('CacheStore', () => {
       '/projects',
       3600 * 1000,
       {},
+      {},
     );
 
     // Time entries should have 5 min TTL (300 * 1000 ms)
@@ -183,6 +187,7 @@ describe('CacheStore', () => {
       '/time_entries',
       300 * 1000,
       {},
+      {},
     );
 
     // Tasks should have 15 min TTL (900 * 1000 ms)
@@ -193,6 +198,7 @@ describe('CacheStore', () => {
       '/tasks',
       900 * 1000,
       {},
+      {},
     );
   });
 
@@ -208,6 +214,7 @@ describe('CacheStore', () => {
       '/projects',
       60 * 1000, // 60 seconds in ms
       {},
+      {},
     );
   });
 
@@ -228,7 +235,7 @@ describe('CacheStore', () => {
     expect(mockCacheGetWithMeta).toHaveBeenCalled();
 
     const { getSqliteCache } = await import('./sqlite-cache.js');
-    expect(getSqliteCache).toHaveBeenCalledWith('org-1');
+    expect(getSqliteCache).toHaveBeenCalledWith('org-1', undefined);
   });
 
   it('should switch orgId and reset cache', async () => {
@@ -242,8 +249,18 @@ describe('CacheStore', () => {
 
     // Should have called getSqliteCache for each org change
     const { getSqliteCache } = await import('./sqlite-cache.js');
-    expect(getSqliteCache).toHaveBeenCalledWith('org-1');
-    expect(getSqliteCache).toHaveBeenCalledWith('org-2');
+    expect(getSqliteCache).toHaveBeenCalledWith('org-1', undefined);
+    expect(getSqliteCache).toHaveBeenCalledWith('org-2', undefined);
+  });
+
+  it('should open the SQLite cache of its profile', async () => {
+    const cache = new CacheStore(true, 'sandbox');
+
+    cache.setOrgId('org-1');
+    await cache.getAsync('/projects', {}, 'org-1');
+
+    const { getSqliteCache } = await import('./sqlite-cache.js');
+    expect(getSqliteCache).toHaveBeenCalledWith('org-1', 'sandbox');
   });
 
   it('should queue refresh for stale cache entries', async () => {
@@ -651,6 +668,67 @@ describe('CacheStore', () => {
     });
   });
 
+  describe('getEntryAsync method', () => {
+    const entry = {
+      data: { items: [1] },
+      isStale: false,
+      isExpired: false,
+      etag: '"v1"',
+      lastModified: null,
+    };
+
+    it('should return unexpired entries as fresh with their validators', async () => {
+      const cache = new CacheStore(true);
+      mockCacheGetEntry.mockResolvedValue(entry);
+
+      const result = await cache.getEntryAsync('/projects', {}, 'org-1');
+
+      expect(result).toEqual({ data: { items: [1] }, fresh: true, validators: { etag: '"v1"' } });
+      expect(mockQueueRefresh).not.toHaveBeenCalled();
+    });
+
+    it('should queue stale entries for refresh', async () => {
+      const cache = new CacheStore(true);
+      mockCacheGetEntry.mockResolvedValue({ ...entry, isStale: true });
+
+      const result = await cache.getEntryAsync('/projects', {}, 'org-1');
+
+      expect(result?.fresh).toBe(true);
+      expect(mockQueueRefresh).toHaveBeenCalledWith(expect.any(String), '/projects', {});
+    });
+
+    it('should return expired entries with validators for revalidation', async () => {
+      const cache = new CacheStore(true);
+      mockCacheGetEntry.mockResolvedValue({ ...entry, isStale: true, isExpired: true });
+
+      const result = await cache.getEntryAsync('/projects', {}, 'org-1');
+
+      expect(result).toEqual({ data: { items: [1] }, fresh: false, validators: { etag: '"v1"' } });
+    });
+
+    it('should drop expired entries without validators', async () => {
+      const cache = new CacheStore(true);
+      mockCacheGetEntry.mockResolvedValue({ ...entry, isExpired: true, etag: null });
+
+      expect(await cache.getEntryAsync('/projects', {}, 'org-1')).toBeNull();
+    });
+
+    it('should store response validators', async () => {
+      const cache = new CacheStore(true);
+
+      await cache.setAsync('/projects', {}, 'org-1', { items: [] }, { etag: '"v2"' });
+
+      expect(mockCacheSet).toHaveBeenCalledWith(
+        expect.any(String),
+        { items: [] },
+        '/projects',
+        3600 * 1000,
+        {},
+        { etag: '"v2"', lastModified: undefined },
+      );
+    });
+  });
+
   describe('Error handling in async methods', () => {
     it('should handle getAsync errors gracefully', async () => {
       const cache = new CacheStore(true);
@@ -1,9 +1,13 @@
+import type { CacheEntry } from '@studiometa/productive-api';
+
 import { createHash } from 'node:crypto';
 
 import { getSqliteCache, type SqliteCache } from './sqlite-cache.js';
 
 interface CacheOptions {
   ttl?: number; // TTL in seconds
+  etag?: string; // Response validators, for conditional revalidation
+  lastModified?: string;
 }
 
 interface CacheGetResult<T> {
@@ -28,9 +32,11 @@ export class CacheStore {
   private sqliteCache: SqliteCache | null = null;
   private enabled: boolean;
   private orgId: string | null = null;
+  private profile: string | undefined;
 
-  constructor(enabled = true) {
+  constructor(enabled = true, profile?: string) {
     this.enabled = enabled;
+    this.profile = profile;
   }
 
   /**
@@ -50,7 +56,7 @@ export class CacheStore {
     if (!this.enabled || !this.orgId) return null;
 
     if (!this.sqliteCache) {
-      this.sqliteCache = getSqliteCache(this.orgId);
+      this.sqliteCache = getSqliteCache(this.orgId, this.profile);
     }
     return this.sqliteCache;
   }
@@ -158,6 +164,49 @@ export class CacheStore {
     }
   }
 
+  /**
+   * Get a cache entry for the API client (async version)
+   * Unexpired entries are fresh (stale ones are still queued for background
+   * refresh); expired entries are only returned when they carry validators,
+   * so the client can revalidate them with a conditional request.
+   */
+  async getEntryAsync<T>(
+    endpoint: string,
+    params: Record<string, unknown>,
+    orgId: string,
+  ): Promise<CacheEntry<T> | null> {
+    if (!this.enabled) return null;
+
+    this.setOrgId(orgId);
+    const cache = this.getCache();
+    if (!cache) return null;
+
+    try {
+      const key = this.getCacheKey(endpoint, params, orgId);
+      const result = await cache.cacheGetEntry<T>(key);
+
+      if (!result) return null;
+
+      const validators = {
+        ...(result.etag && { etag: result.etag }),
+        ...(result.lastModified && { lastModified: result.lastModified }),
+      };
+      const hasValidators = Object.keys(validators).length > 0;
+
+      if (result.isExpired) {
+        return hasValidators ? { data: result.data, fresh: false, validators } : null;
+      }
+
+      if (result.isStale) {
+        await cache.queueRefresh(key, endpoint, params);
+      }
+
+      return { data: result.data, fresh: true, ...(hasValidators && { validators }) };
+    } catch {
+      return null;
+    }
+  }
+
   /**
    * Get cached data with staleness info (async version)
    * Allows caller to know if data is stale without triggering queue.
@@ -239,7 +288,10 @@ export class CacheStore {
     try {
       const key = this.getCacheKey(endpoint, params, orgId);
       const ttl = this.getTTL(endpoint, options?.ttl);
-      await cache.cacheSet(key, data, endpoint, ttl, params);
+      await cache.cacheSet(key, data, endpoint, ttl, params, {
+        etag: options?.etag,
+        lastModified: options?.lastModified,
+      });
     } catch {
       // Silently fail cache writes
     }
@@ -404,9 +456,9 @@ export { CacheStore as FileCache };
 // Singleton instance
 let cacheInstance: CacheStore | null = null;
 
-export function getCache(enabled = true): CacheStore {
+export function getCache(enabled = true, profile?: string): CacheStore {
   if (!cacheInstance) {
-    cacheInstance = new CacheStore(enabled);
+    cacheInstance = new CacheStore(enabled, profile);
   }
   return cacheInstance;
 }
@@ -69,9 +69,15 @@ describe('parseDate', () => {
   it('should return null for invalid input', () => {
     expect(parseDate('')).toBeNull();
     expect(parseDate('invalid')).toBeNull();
-    expect(parseDate('next week')).toBeNull();
+    expect(parseDate('next fortnight')).toBeNull();
     expect(parseDate('2024/01/01')).toBeNull();
   });
+
+  it('should parse the shared date expressions', () => {
+    expect(parseDate('next week')).toBe('2024-01-22');
+    expect(parseDate('last friday')).toBe('2024-01-12');
+    expect(parseDate('q1')).toBe('2024-01-01');
+  });
 });
 
 describe('parseDateRange', () => {
@@ -141,6 +147,24 @@ describe('parseDateRange', () => {
     });
   });
 
+  it('should derive relative dates in the given timezone', () => {
+    vi.setSystemTime(new Date('2024-01-15T23:30:00Z'));
+
+    expect(parseDateRange('today', 'Europe/Paris')).toEqual({
+      from: '2024-01-16',
+      to: '2024-01-16',
+    });
+    expect(parseDateRange('today', 'America/Los_Angeles')).toEqual({
+      from: '2024-01-15',
+      to: '2024-01-15',
+    });
+  });
+
+  it('should parse periods', () => {
+    expect(parseDateRange('2024-W03')).toEqual({ from: '2024-01-15', to: '2024-01-21' });
+    expect(parseDateRange('ytd')).toEqual({ from: '2024-01-01', to: '2024-01-15' });
+  });
+
   it('should return null for invalid input', () => {
     expect(parseDateRange('')).toBeNull();
     expect(parseDateRange('invalid')).toBeNull();
@@ -0,0 +1,32 @@
+import { describe, it, expect } from 'vitest';
+
+import { fuzzyFilter, fuzzyScore } from './fuzzy.js';
+
+describe('fuzzyScore', () => {
+  it('matches characters in order', () => {
+    expect(fuzzyScore('dsgn', 'Design')).not.toBeNull();
+    expect(fuzzyScore('ngis', 'Design')).toBeNull();
+  });
+
+  it('ignores case and spaces in the query', () => {
+    expect(fuzzyScore('WEB dev', 'Website development')).not.toBeNull();
+  });
+
+  it('prefers consecutive characters and word starts', () => {
+    expect(fuzzyScore('dev', 'Development')!).toBeGreaterThan(fuzzyScore('dev', 'Drive overview')!);
+    expect(fuzzyScore('pm', 'Project management')!).toBeGreaterThan(fuzzyScore('pm', 'Upmarket')!);
+  });
+});
+
+describe('fuzzyFilter', () => {
+  const services = ['Design', 'Development', 'Project management'];
+
+  it('returns every item without a query', () => {
+    expect(fuzzyFilter(services, ' ', (s) => s)).toEqual(services);
+  });
+
+  it('keeps matching items, best first', () => {
+    expect(fuzzyFilter(services, 'de', (s) => s)).toEqual(['Design', 'Development']);
+    expect(fuzzyFilter(services, 'pm', (s) => s)).toEqual(['Project management', 'Development']);
+  });
+});
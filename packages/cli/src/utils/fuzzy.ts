@@ -0,0 +1,45 @@
+/**
+ * Fuzzy matching for pickers (TUI and interactive prompts)
+ */
+
+/**
+ * Score how well `query` matches `text`: every query character must appear in
+ * order. Consecutive characters and matches at word starts score higher.
+ *
+ * @returns The score, or null when the text does not match
+ */
+export function fuzzyScore(query: string, text: string): number | null {
+  const needle = query.toLowerCase().replace(/\s+/g, '');
+  const haystack = text.toLowerCase();
+  if (!needle) return 0;
+
+  let score = 0;
+  let position = -1;
+  let streak = 0;
+
+  for (const char of needle) {
+    const index = haystack.indexOf(char, position + 1);
+    if (index === -1) return null;
+
+    streak = index === position + 1 ? streak + 1 : 0;
+    score += 1 + streak * 2;
+    if (index === 0 || /[\s\-_/([]/.test(haystack[index - 1])) score += 3;
+    position = index;
+  }
+
+  // Prefer shorter texts when scores tie
+  return score - haystack.length / 100;
+}
+
+/**
+ * Filter items matching `query`, best matches first
+ */
+export function fuzzyFilter<T>(items: T[], query: string, getText: (item: T) => string): T[] {
+  if (!query.trim()) return items;
+
+  return items
+    .map((item, index) => ({ item, index, score: fuzzyScore(query, getText(item)) }))
+    .filter((match): match is { item: T; index: number; score: number } => match.score !== null)
+    .toSorted((a, b) => b.score - a.score || a.index - b.index)
+    .map((match) => match.item);
+}
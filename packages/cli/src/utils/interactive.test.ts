@@ -0,0 +1,239 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+import type { ProductiveApi } from '../api.js';
+
+import { createTestContext } from '../context.js';
+import { CommandError } from '../errors.js';
+import { promptMissingOptions, toCommandLine, type PromptSpec } from './interactive.js';
+
+const mocks = vi.hoisted(() => ({
+  text: vi.fn(),
+  confirm: vi.fn(),
+  select: vi.fn(),
+  getAllProjects: vi.fn(),
+  searchServices: vi.fn(),
+  getServicesByProject: vi.fn(),
+}));
+
+vi.mock('./prompt.js', () => ({
+  text: mocks.text,
+  confirm: mocks.confirm,
+  select: mocks.select,
+}));
+
+vi.mock('./sqlite-cache.js', () => ({
+  getSqliteCache: () => ({
+    getAllProjects: mocks.getAllProjects,
+    searchServices: mocks.searchServices,
+    getServicesByProject: mocks.getServicesByProject,
+  }),
+}));
+
+const TIME_ADD: PromptSpec = {
+  command: 'productive time add',
+  fields: [
+    { option: 'service', message: 'Service', kind: 'service' },
+    { option: 'time', message: 'Duration', kind: 'duration' },
+  ],
+  options: ['service', 'time', 'date', 'note'],
+  confirm: 'Create this time entry?',
+};
+
+function setTTY(value: boolean) {
+  Object.defineProperty(process.stdin, 'isTTY', { value, configurable: true });
+  Object.defineProperty(process.stdout, 'isTTY', { value, configurable: true });
+}
+
+describe('promptMissingOptions', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.stubEnv('CI', undefined);
+    setTTY(true);
+    mocks.confirm.mockResolvedValue(true);
+    mocks.getAllProjects.mockResolvedValue([
+      { id: '10', name: 'Website', project_number: 'PRJ-1', archived: false },
+      { id: '11', name: 'Old site', project_number: null, archived: true },
+    ]);
+    mocks.searchServices.mockResolvedValue([{ id: '100', name: 'Design', project_id: '10' }]);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    vi.unstubAllEnvs();
+    setTTY(false);
+  });
+
+  it('leaves validation to the command outside a terminal', async () => {
+    setTTY(false);
+    const ctx = createTestContext({ options: { format: 'human' } });
+
+    const prompted = await promptMissingOptions(ctx, TIME_ADD);
+
+    expect(prompted).toEqual({ ctx });
+    expect(mocks.select).not.toHaveBeenCalled();
+  });
+
+  it('never prompts with --format json', async () => {
+    const ctx = createTestContext({ options: { format: 'json' } });
+
+    const prompted = await promptMissingOptions(ctx, TIME_ADD);
+
+    expect(prompted.command).toBeUndefined();
+    expect(mocks.select).not.toHaveBeenCalled();
+  });
+
+  it('does nothing when every option is given', async () => {
+    const ctx = createTestContext({ options: { format: 'human', service: '1', time: '60' } });
+
+    expect(await promptMissingOptions(ctx, TIME_ADD)).toEqual({ ctx });
+  });
+
+  it('asks for missing options and returns the equivalent command', async () => {
+    mocks.select.mockResolvedValue({ value: '100', label: 'Design' });
+    mocks.text.mockResolvedValue('90');
+    const ctx = createTestContext({
+      options: { format: 'human', token: 'secret', note: 'Sprint review' },
+    });
+
+    const prompted = await promptMissingOptions(ctx, TIME_ADD);
+
+    expect(mocks.select).toHaveBeenCalledWith(
+      'Service',
+      [{ value: '100', label: 'Design', hint: 'Website' }],
+      expect.objectContaining({ search: expect.any(Function) }),
+    );
+    expect(mocks.confirm).toHaveBeenCalledWith('Create this time entry?');
+    expect(prompted.ctx.options).toMatchObject({ service: '100', time: '90' });
+    expect(prompted.command).toBe(
+      "productive time add --service 100 --time 90 --note 'Sprint review'",
+    );
+  });
+
+  it('parses durations into minutes', async () => {
+    mocks.text.mockResolvedValue('90');
+    const ctx = createTestContext({ options: { format: 'human', service: '100' } });
+
+    await promptMissingOptions(ctx, TIME_ADD);
+
+    const { parse } = mocks.text.mock.calls[0][1];
+    expect(parse('1h30')).toEqual({ value: '90' });
+    expect(parse('soon')).toEqual({ error: 'Invalid duration: "soon"' });
+  });
+
+  it('lists the non-archived projects from the cache', async () => {
+    mocks.select.mockResolvedValue({ value: '10', label: 'Website' });
+    const ctx = createTestContext({ options: { format: 'human' } });
+
+    await promptMissingOptions(ctx, {
+      command: 'productive tasks add',
+      fields: [{ option: 'project', message: 'Project', kind: 'project' }],
+      options: ['project'],
+      confirm: 'Create this task?',
+    });
+
+    expect(mocks.select.mock.calls[0][1]).toEqual([
+      { value: '10', label: 'Website', hint: 'PRJ-1' },
+    ]);
+  });
+
+  it('loads task lists of the chosen project through the resolver', async () => {
+    const getTaskLists = vi.fn().mockResolvedValue({
+      data: [{ id: '7', attributes: { name: 'Backlog' } }],
+    });
+    mocks.select.mockResolvedValue({ value: '7', label: 'Backlog' });
+    const ctx = createTestContext({
+      api: { getTaskLists } as unknown as ProductiveApi,
+      options: { format: 'human', project: '10' },
+    });
+
+    const prompted = await promptMissingOptions(ctx, {
+      command: 'productive tasks add',
+      fields: [
+        { option: 'project', message: 'Project', kind: 'project' },
+        { option: 'task-list', message: 'Task list', kind: 'task_list', projectOption: 'project' },
+      ],
+      options: ['project', 'task-list'],
+      confirm: 'Create this task?',
+    });
+
+    expect(getTaskLists).toHaveBeenCalledWith(
+      expect.objectContaining({ filter: expect.objectContaining({ project_id: '10' }) }),
+    );
+    expect(mocks.select.mock.calls[0][1]).toEqual([{ value: '7', label: 'Backlog' }]);
+    expect(prompted.ctx.options['task-list']).toBe('7');
+  });
+
+  it('searches Productive when nothing is cached', async () => {
+    const getCompanies = vi.fn().mockResolvedValue({
+      data: [{ id: '3', attributes: { name: 'Acme' } }],
+    });
+    mocks.select.mockResolvedValue({ value: '3', label: 'Acme' });
+    const ctx = createTestContext({
+      api: { getCompanies } as unknown as ProductiveApi,
+      options: { format: 'human', name: 'Redesign' },
+    });
+
+    await promptMissingOptions(ctx, {
+      command: 'productive deals add',
+      fields: [{ option: 'company', message: 'Company', kind: 'company' }],
+      options: ['name', 'company'],
+      confirm: 'Create this deal?',
+    });
+
+    const [, choices, { search }] = mocks.select.mock.calls[0];
+    expect(choices).toEqual([]);
+    expect(await search('acm')).toEqual([{ value: '3', label: 'Acme' }]);
+  });
+
+  it('skips fields whose condition does not hold', async () => {
+    const ctx = createTestContext({ options: { format: 'human', event: '5' } });
+
+    const prompted = await promptMissingOptions(ctx, {
+      command: 'productive bookings add',
+      fields: [{ option: 'service', message: 'Service', kind: 'service', when: (o) => !o.event }],
+      options: ['service', 'event'],
+      confirm: 'Create this booking?',
+    });
+
+    expect(prompted).toEqual({ ctx });
+  });
+
+  it('throws when the user declines', async () => {
+    mocks.select.mockResolvedValue({ value: '100', label: 'Design' });
+    mocks.text.mockResolvedValue('90');
+    mocks.confirm.mockResolvedValue(false);
+    const ctx = createTestContext({ options: { format: 'human' } });
+
+    await expect(promptMissingOptions(ctx, TIME_ADD)).rejects.toBeInstanceOf(CommandError);
+  });
+});
+
+describe('toCommandLine', () => {
+  it('quotes values for the shell', () => {
+    expect(
+      toCommandLine(
+        'productive tasks add',
+        { title: "Fix the 'login' page", private: true, tentative: false, p: '2' },
+        ['title', 'private', 'tentative', 'p'],
+      ),
+    ).toBe(`productive tasks add --title 'Fix the '\\''login'\\'' page' --private -p 2`);
+  });
+
+  it('only prints the command options and never credentials', () => {
+    expect(
+      toCommandLine(
+        'productive time add',
+        {
+          service: '100',
+          token: 'secret',
+          'api-token': 'secret',
+          profile: 'work',
+          format: 'human',
+          'no-color': true,
+        },
+        ['service', 'token', 'api-token'],
+      ),
+    ).toBe('productive time add --service 100');
+  });
+});
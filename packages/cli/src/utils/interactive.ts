@@ -0,0 +1,274 @@
+/**
+ * Interactive fallback for missing required options of write commands
+ *
+ * When a human runs e.g. `productive time add` in a terminal without
+ * `--service`, the command asks for it with a fuzzy-search picker instead of
+ * failing, confirms, and prints the equivalent non-interactive command so it
+ * can be reused in scripts. Outside a TTY or with `--format json`, nothing is
+ * prompted and commands keep their strict validation.
+ */
+
+import {
+  parseDuration,
+  resolveResource,
+  ResolveError,
+  type ResolvableResourceType,
+} from '@studiometa/productive-core';
+
+import type { CommandContext, CommandOptions } from '../context.js';
+
+import { CommandError } from '../errors.js';
+import { colors } from './colors.js';
+import { parseDate } from './date.js';
+import { confirm, select, text, type PromptChoice } from './prompt.js';
+import { getSqliteCache } from './sqlite-cache.js';
+
+export type PromptFieldKind =
+  | 'text'
+  | 'duration'
+  | 'date'
+  | 'project'
+  | 'service'
+  | 'task_list'
+  | 'company';
+
+export interface PromptField {
+  /** CLI option the answer is stored in, e.g. `task-list` */
+  option: string;
+  message: string;
+  kind: PromptFieldKind;
+  /** Option holding the project the choices are scoped to */
+  projectOption?: string;
+  /** Only prompt when this returns true for the options gathered so far */
+  when?: (options: CommandOptions) => boolean;
+}
+
+export interface PromptSpec {
+  /** Command as typed, e.g. `productive time add` */
+  command: string;
+  fields: PromptField[];
+  /** Options of the command, the only ones reproduced in the equivalent command */
+  options: string[];
+  /** Question asked before running, e.g. `Create this time entry?` */
+  confirm: string;
+}
+
+export interface PromptedCommand {
+  /** Context with the prompted options merged in */
+  ctx: CommandContext;
+  /** Equivalent non-interactive command, when something was prompted */
+  command?: string;
+}
+
+const RESOURCE_TYPES: Partial<Record<PromptFieldKind, ResolvableResourceType>> = {
+  project: 'project',
+  service: 'service',
+  task_list: 'task_list',
+  company: 'company',
+};
+
+/** Never printed, even when a command declares them */
+const CREDENTIAL_OPTIONS = new Set(['token', 'api-token']);
+
+/** Shell-safe characters that never need quoting */
+const SAFE_ARGUMENT = /^[\w@%+=:,./-]+$/;
+
+/**
+ * Whether missing options can be asked for: a human at a terminal
+ */
+export function isInteractive(ctx: CommandContext): boolean {
+  const format = ctx.options.format || ctx.options.f || 'human';
+  return (
+    format === 'human' &&
+    process.stdin.isTTY === true &&
+    process.stdout.isTTY === true &&
+    process.env.CI === undefined
+  );
+}
+
+function quote(value: string): string {
+  return SAFE_ARGUMENT.test(value) ? value : `'${value.replaceAll("'", `'\\''`)}'`;
+}
+
+/**
+ * Build the command line reproducing the `names` options without prompts
+ *
+ * Global options such as `--format` or `--profile` are left out, and
+ * credentials are never printed.
+ */
+export function toCommandLine(
+  command: string,
+  options: CommandOptions,
+  names: readonly string[],
+): string {
+  const parts = [command];
+  for (const key of names) {
+    const value = options[key];
+    if (value === undefined || value === false || CREDENTIAL_OPTIONS.has(key)) continue;
+    const flag = key.length === 1 ? `-${key}` : `--${key}`;
+    parts.push(value === true ? flag : `${flag} ${quote(String(value))}`);
+  }
+  return parts.join(' ');
+}
+
+function toChoices(results: Array<{ id: string; label: string }>): PromptChoice[] {
+  return results.map((result) => ({ value: result.id, label: result.label }));
+}
+
+/**
+ * Search Productive through the resource resolver, no match is an empty list
+ */
+async function searchResources(
+  ctx: CommandContext,
+  type: ResolvableResourceType,
+  query: string,
+  projectId?: string,
+): Promise<PromptChoice[]> {
+  try {
+    return toChoices(await resolveResource(ctx.api, query, { type, projectId }));
+  } catch (error) {
+    if (error instanceof ResolveError) return [];
+    throw error;
+  }
+}
+
+/**
+ * Initial picker choices, from the local cache when it has them
+ */
+async function loadChoices(
+  ctx: CommandContext,
+  kind: PromptFieldKind,
+  projectId?: string,
+): Promise<PromptChoice[]> {
+  if (kind === 'task_list') {
+    // Task lists are not cached, but a project rarely has many
+    return projectId ? searchResources(ctx, 'task_list', '', projectId) : [];
+  }
+  const { organizationId, profile } = ctx.config;
+  if ((kind !== 'project' && kind !== 'service') || !organizationId) return [];
+
+  try {
+    const cache = getSqliteCache(organizationId, profile);
+    const projects = await cache.getAllProjects();
+
+    if (kind === 'project') {
+      return projects
+        .filter((project) => !project.archived)
+        .map((project) => ({
+          value: project.id,
+          label: project.name,
+          hint: project.project_number ?? undefined,
+        }));
+    }
+
+    const projectNames = new Map(projects.map((project) => [project.id, project.name]));
+    const services = projectId
+      ? await cache.getServicesByProject(projectId)
+      : await cache.searchServices('', 1000);
+    return services.map((service) => ({
+      value: service.id,
+      label: service.name,
+      hint: service.project_id ? projectNames.get(service.project_id) : undefined,
+    }));
+  } catch {
+    // The cache is optional (e.g. node:sqlite unavailable), search instead
+    return [];
+  }
+}
+
+function isMissing(field: PromptField, options: CommandOptions): boolean {
+  return !options[field.option] && (field.when?.(options) ?? true);
+}
+
+/**
+ * Ask for one field, returning the option value
+ */
+async function promptField(
+  ctx: CommandContext,
+  field: PromptField,
+  options: CommandOptions,
+): Promise<string> {
+  if (field.kind === 'text' || field.kind === 'duration' || field.kind === 'date') {
+    return askText(field);
+  }
+
+  const type = RESOURCE_TYPES[field.kind] as ResolvableResourceType;
+  let projectId: string | undefined;
+  if (field.projectOption && options[field.projectOption]) {
+    projectId = await ctx.tryResolveValue(String(options[field.projectOption]), 'project');
+  }
+
+  const choice = await select(field.message, await loadChoices(ctx, field.kind, projectId), {
+    search: (query) => searchResources(ctx, type, query, projectId),
+  });
+  return choice.value;
+}
+
+function askText(field: PromptField): Promise<string> {
+  switch (field.kind) {
+    case 'duration':
+      return text(field.message, {
+        placeholder: 'e.g. 1h30, 90 or 1.5h',
+        parse: (value) => {
+          const minutes = parseDuration(value);
+          return minutes === undefined || minutes <= 0
+            ? { error: `Invalid duration: "${value}"` }
+            : { value: String(minutes) };
+        },
+      });
+    case 'date':
+      return text(field.message, {
+        placeholder: 'e.g. today, tomorrow or 2024-01-15',
+        parse: (value) => {
+          const date = parseDate(value);
+          return date ? { value: date } : { error: `Invalid date: "${value}"` };
+        },
+      });
+    default:
+      return text(field.message, {
+        parse: (value) =>
+          value.trim() ? { value: value.trim() } : { error: `${field.message} is required` },
+      });
+  }
+}
+
+/**
+ * Prompt for the options of `spec` missing from the command line
+ *
+ * Returns the context unchanged when nothing is missing or when the session
+ * is not interactive, leaving validation to the command. Throws a
+ * `CommandError` when the user cancels.
+ */
+export async function promptMissingOptions(
+  ctx: CommandContext,
+  spec: PromptSpec,
+): Promise<PromptedCommand> {
+  if (!spec.fields.some((field) => isMissing(field, ctx.options)) || !isInteractive(ctx)) {
+    return { ctx };
+  }
+
+  const options: CommandOptions = { ...ctx.options };
+  for (const field of spec.fields) {
+    // Checked in order, so `when` sees the answers given so far
+    if (isMissing(field, options)) {
+      options[field.option] = await promptField(ctx, field, options);
+    }
+  }
+
+  // Answers stay on screen above the confirmation
+  if (!(await confirm(spec.confirm))) {
+    throw CommandError.cancelled();
+  }
+
+  return { ctx: { ...ctx, options }, command: toCommandLine(spec.command, options, spec.options) };
+}
+
+/**
+ * Print the equivalent command after an interactive run, for reuse in scripts
+ */
+export function printEquivalentCommand(prompted: PromptedCommand): void {
+  if (!prompted.command) return;
+  console.log();
+  console.log(colors.dim('Equivalent command:'));
+  console.log(`  ${prompted.command}`);
+}
@@ -6,6 +6,7 @@
  * - Fallback: Returns null (caller should use config file)
  */
 
+import { DEFAULT_PROFILE, profileKeychainAccount } from '@studiometa/productive-api';
 import { execSync, spawnSync } from 'node:child_process';
 
 const SERVICE_NAME = 'productive-cli';
@@ -183,51 +184,54 @@ export function getKeychainBackend(): string {
 }
 
 /**
- * Store a secret in the system keychain
+ * Store a secret in the system keychain, scoped to a credential profile
  * @returns true if successful, false otherwise
  */
-export function setKeychainValue(key: string, value: string): boolean {
+export function setKeychainValue(key: string, value: string, profile = DEFAULT_PROFILE): boolean {
   const platform = getPlatform();
+  const account = profileKeychainAccount(key, profile);
 
   switch (platform) {
     case 'darwin':
-      return setKeychainMacOS(key, value);
+      return setKeychainMacOS(account, value);
     case 'linux':
-      return setKeychainLinux(key, value);
+      return setKeychainLinux(account, value);
     default:
       return false;
   }
 }
 
 /**
- * Get a secret from the system keychain
+ * Get a secret of a credential profile from the system keychain
  * @returns the secret value, or null if not found or not supported
  */
-export function getKeychainValue(key: string): string | null {
+export function getKeychainValue(key: string, profile = DEFAULT_PROFILE): string | null {
   const platform = getPlatform();
+  const account = profileKeychainAccount(key, profile);
 
   switch (platform) {
     case 'darwin':
-      return getKeychainMacOS(key);
+      return getKeychainMacOS(account);
     case 'linux':
-      return getKeychainLinux(key);
+      return getKeychainLinux(account);
     default:
       return null;
   }
 }
 
 /**
- * Delete a secret from the system keychain
+ * Delete a secret of a credential profile from the system keychain
  * @returns true if successful, false otherwise
  */
-export function deleteKeychainValue(key: string): boolean {
+export function deleteKeychainValue(key: string, profile = DEFAULT_PROFILE): boolean {
   const platform = getPlatform();
+  const account = profileKeychainAccount(key, profile);
 
   switch (platform) {
     case 'darwin':
-      return deleteKeychainMacOS(key);
+      return deleteKeychainMacOS(account);
     case 'linux':
-      return deleteKeychainLinux(key);
+      return deleteKeychainLinux(account);
     default:
       return false;
   }
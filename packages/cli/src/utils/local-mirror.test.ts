@@ -0,0 +1,333 @@
+import { createDateService } from '@studiometa/productive-core';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+import type { ProductiveApi } from '../api.js';
+import type { MirrorRecord, MirrorState, SqliteCache } from './sqlite-cache.js';
+
+import { createTestContext } from '../context.js';
+import { CacheError } from '../errors.js';
+import {
+  buildMirrorConditions,
+  buildMirrorOrder,
+  createMirrorApi,
+  pullMirror,
+  withLocalMirror,
+} from './local-mirror.js';
+
+const sqlite = vi.hoisted(() => ({ instance: null as unknown }));
+
+vi.mock('./sqlite-cache.js', () => ({ getSqliteCache: () => sqlite.instance }));
+
+function record(
+  type: string,
+  id: string,
+  attributes: Record<string, unknown> = {},
+  relationships: MirrorRecord['relationships'] = {},
+): MirrorRecord {
+  return { id, type, attributes, relationships };
+}
+
+/**
+ * In-memory stand-in for the mirror tables; queries return every record of
+ * the type, the SQL itself is covered by the condition tests.
+ */
+function createFakeMirror(states: Record<string, MirrorState> = {}) {
+  const records = new Map<string, MirrorRecord>();
+  const state = new Map(Object.entries(states));
+
+  return {
+    records,
+    state,
+    getMirrorState: vi.fn(async (resource: string) => state.get(resource) ?? null),
+    setMirrorState: vi.fn(async (resource: string, value: MirrorState) => {
+      state.set(resource, value);
+    }),
+    mirrorUpsert: vi.fn(async (items: MirrorRecord[]) => {
+      for (const item of items) records.set(`${item.type}:${item.id}`, item);
+    }),
+    mirrorDelete: vi.fn(async (type: string, ids: string[]) => {
+      return ids.filter((id) => records.delete(`${type}:${id}`)).length;
+    }),
+    mirrorPrune: vi.fn(async () => 0),
+    mirrorGetMany: vi.fn(async (type: string, ids: string[]) =>
+      ids.flatMap((id) => records.get(`${type}:${id}`) ?? []),
+    ),
+    mirrorQuery: vi.fn(async (type: string) => {
+      const matching = [...records.values()].filter((item) => item.type === type);
+      return { records: matching, total: matching.length };
+    }),
+  };
+}
+
+function page<T>(data: T[], included: MirrorRecord[] = []) {
+  return { data, included, meta: { total_pages: 1 } };
+}
+
+describe('buildMirrorConditions', () => {
+  it('matches relationships against comma-separated IDs', () => {
+    expect(buildMirrorConditions('tasks', { assignee_id: '1,2' })).toEqual([
+      {
+        sql: "CAST(json_extract(data, '$.relationships.assignee.data.id') AS TEXT) IN (?, ?)",
+        params: ['1', '2'],
+      },
+    ]);
+  });
+
+  it('maps status filters to boolean attributes', () => {
+    expect(buildMirrorConditions('tasks', { status: '1' })[0].params).toEqual([0]);
+    expect(buildMirrorConditions('time_entries', { status: '1' })[0].params).toEqual([1]);
+  });
+
+  it('filters time entries by project through their service', () => {
+    const [condition] = buildMirrorConditions('time_entries', { project_id: '7' });
+
+    expect(condition.sql).toContain("s.type = 'services'");
+    expect(condition.params).toEqual(['7', '7']);
+  });
+
+  it('compares due dates with today in the given timezone', () => {
+    const dates = createDateService({
+      timezone: 'Europe/Paris',
+      clock: () => new Date('2026-10-19T23:30:00Z'),
+    });
+
+    expect(buildMirrorConditions('tasks', { overdue_status: '2' }, dates)[0].params).toEqual([
+      '2026-10-20',
+    ]);
+  });
+
+  it('ignores empty values', () => {
+    expect(buildMirrorConditions('tasks', { assignee_id: '' })).toEqual([]);
+  });
+
+  it('rejects filters that cannot be evaluated offline', () => {
+    expect(() => buildMirrorConditions('tasks', { board_id: '3' })).toThrow(CacheError);
+    expect(() => buildMirrorConditions('tasks', { board_id: '3' })).toThrow(
+      'Filtering tasks by board_id is not available offline',
+    );
+  });
+});
+
+describe('buildMirrorOrder', () => {
+  it('defaults to the newest records first', () => {
+    expect(buildMirrorOrder()).toBe('CAST(id AS INTEGER) DESC');
+  });
+
+  it('sorts by attributes', () => {
+    expect(buildMirrorOrder('-date,id')).toBe(
+      "json_extract(data, '$.attributes.date') DESC, CAST(id AS INTEGER) ASC",
+    );
+  });
+
+  it('rejects anything but field names', () => {
+    expect(() => buildMirrorOrder('date; DROP TABLE mirror')).toThrow(CacheError);
+  });
+});
+
+describe('pullMirror', () => {
+  it('fetches everything on the first pull and starts the activities feed', async () => {
+    const mirror = createFakeMirror();
+    const api = {
+      getTasks: vi
+        .fn()
+        .mockResolvedValue(
+          page(
+            [
+              record('tasks', '1', { updated_at: '2024-03-01T10:00:00Z' }),
+              record('tasks', '2', { updated_at: '2024-03-02T10:00:00Z' }),
+            ],
+            [record('projects', '7', { name: 'Website' })],
+          ),
+        ),
+      getActivities: vi.fn(),
+    };
+
+    const report = await pullMirror(
+      api as unknown as ProductiveApi,
+      mirror as unknown as SqliteCache,
+      {
+        resources: ['tasks'],
+      },
+    );
+
+    expect(api.getTasks).toHaveBeenCalledWith(
+      expect.objectContaining({ filter: undefined, include: expect.arrayContaining(['project']) }),
+    );
+    expect(mirror.records.has('projects:7')).toBe(true);
+    expect(mirror.state.get('tasks')?.cursor).toBe('2024-03-02T10:00:00Z');
+    expect(mirror.state.get('activities')?.cursor).toEqual(expect.any(String));
+    expect(api.getActivities).not.toHaveBeenCalled();
+    expect(report.resources).toEqual([{ resource: 'tasks', mode: 'full', fetched: 2, deleted: 0 }]);
+  });
+
+  it('only fetches updated records and applies deletions afterwards', async () => {
+    const mirror = createFakeMirror({
+      tasks: { cursor: '2024-03-02T10:00:00Z', syncedAt: 1 },
+      activities: { cursor: '2024-03-02T12:00:00Z', syncedAt: 1 },
+    });
+    await mirror.mirrorUpsert([record('tasks', '1'), record('tasks', '2')]);
+    const api = {
+      getTasks: vi.fn().mockResolvedValue(page([])),
+      getActivities: vi.fn().mockResolvedValue(
+        page([
+          {
+            id: 'a1',
+            type: 'activities',
+            attributes: { event: 'delete', item_type: 'Task', item_id: 2 },
+          },
+          {
+            id: 'a2',
+            type: 'activities',
+            attributes: { event: 'delete', item_type: 'Invoice', item_id: 5 },
+          },
+        ]),
+      ),
+    };
+
+    const report = await pullMirror(
+      api as unknown as ProductiveApi,
+      mirror as unknown as SqliteCache,
+      {
+        resources: ['tasks'],
+      },
+    );
+
+    expect(api.getTasks).toHaveBeenCalledWith(
+      expect.objectContaining({ filter: { 'updated_at[gt_eq]': '2024-03-02T10:00:00Z' } }),
+    );
+    expect(api.getActivities).toHaveBeenCalledWith(
+      expect.objectContaining({ filter: { event: 'delete', after: '2024-03-02T12:00:00Z' } }),
+    );
+    expect(mirror.records.has('tasks:2')).toBe(false);
+    expect(mirror.state.get('tasks')?.cursor).toBe('2024-03-02T10:00:00Z');
+    expect(report.deleted).toBe(1);
+    expect(report.resources[0]).toMatchObject({ mode: 'incremental', deleted: 1 });
+  });
+
+  it('refetches everything and prunes the rest with prune', async () => {
+    const mirror = createFakeMirror({
+      tasks: { cursor: '2024-03-02T10:00:00Z', syncedAt: 1 },
+      activities: { cursor: '2024-03-02T12:00:00Z', syncedAt: 1 },
+    });
+    mirror.mirrorPrune.mockResolvedValue(3);
+    const api = { getTasks: vi.fn().mockResolvedValue(page([])), getActivities: vi.fn() };
+
+    const report = await pullMirror(
+      api as unknown as ProductiveApi,
+      mirror as unknown as SqliteCache,
+      {
+        resources: ['tasks'],
+        prune: true,
+      },
+    );
+
+    expect(api.getTasks).toHaveBeenCalledWith(expect.objectContaining({ filter: undefined }));
+    expect(mirror.mirrorPrune).toHaveBeenCalledWith('tasks', expect.any(Number));
+    expect(api.getActivities).not.toHaveBeenCalled();
+    expect(report.resources[0]).toMatchObject({ mode: 'full', deleted: 3 });
+  });
+});
+
+describe('createMirrorApi', () => {
+  let mirror: ReturnType<typeof createFakeMirror>;
+  let api: ProductiveApi;
+
+  beforeEach(async () => {
+    mirror = createFakeMirror({
+      tasks: { cursor: null, syncedAt: 1 },
+      time_entries: { cursor: null, syncedAt: 1 },
+    });
+    api = createMirrorApi(mirror as unknown as SqliteCache);
+    await mirror.mirrorUpsert([
+      record(
+        'tasks',
+        '1',
+        { title: 'Fix login' },
+        { project: { data: { type: 'projects', id: '7' } } },
+      ),
+      record('projects', '7', { name: 'Website' }),
+      record('people', '3', { first_name: 'Ada', last_name: 'Lovelace' }),
+      record(
+        'time_entries',
+        '10',
+        { date: '2024-03-01', time: 60, billable_time: 60 },
+        {
+          person: { data: { type: 'people', id: '3' } },
+        },
+      ),
+      record(
+        'time_entries',
+        '11',
+        { date: '2024-03-02', time: 30, billable_time: 0 },
+        {
+          person: { data: { type: 'people', id: '3' } },
+        },
+      ),
+    ]);
+  });
+
+  it('lists records with pagination meta and includes', async () => {
+    const result = await api.getTasks({
+      page: 1,
+      perPage: 50,
+      filter: { project_id: '7' },
+      include: ['project'],
+    });
+
+    expect(result.data).toHaveLength(1);
+    expect(result.included).toEqual([record('projects', '7', { name: 'Website' })]);
+    expect(result.meta).toEqual({ current_page: 1, total_pages: 1, total_count: 1, page_size: 50 });
+    expect(mirror.mirrorQuery).toHaveBeenCalledWith('tasks', {
+      where: buildMirrorConditions('tasks', { project_id: '7' }),
+      orderBy: 'CAST(id AS INTEGER) DESC',
+      limit: 50,
+      offset: 0,
+    });
+  });
+
+  it('aggregates time reports from mirrored time entries', async () => {
+    const result = await api.getReports('time_reports', { group: 'person' });
+
+    expect(result.data).toEqual([
+      {
+        id: '3',
+        type: 'time_reports',
+        attributes: {
+          group: 'Ada Lovelace',
+          total_worked_time: 90,
+          total_billable_time: 60,
+          count: 2,
+        },
+      },
+    ]);
+  });
+
+  it('rejects resources that were never pulled', async () => {
+    await expect(api.getDeals()).rejects.toThrow('No local copy of deals');
+  });
+
+  it('rejects calls it cannot answer', async () => {
+    await expect(api.getReports('invoice_reports')).rejects.toThrow(CacheError);
+    await expect(api.createTask({} as never)).rejects.toThrow(
+      'createTask is not available offline',
+    );
+  });
+});
+
+describe('withLocalMirror', () => {
+  it('keeps the context online', () => {
+    const ctx = createTestContext();
+
+    expect(withLocalMirror(ctx)).toBe(ctx);
+  });
+
+  it('swaps the API for the mirror with --offline', async () => {
+    sqlite.instance = createFakeMirror();
+    const ctx = createTestContext({ options: { offline: true } });
+
+    const local = withLocalMirror(ctx);
+
+    expect(local.api).not.toBe(ctx.api);
+    await expect(local.api.getTimeEntries()).rejects.toThrow('No local copy of time_entries');
+  });
+});
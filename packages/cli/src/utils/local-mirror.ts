@@ -0,0 +1,749 @@
+/**
+ * Local mirror of Productive records.
+ *
+ * `productive sync pull` copies projects, people, services, deals, tasks, time
+ * entries, bookings and comments into the organization's SQLite database. The
+ * first pull of a resource fetches everything; later pulls only ask for
+ * records updated since the last one (`filter[updated_at][gt_eq]`), and the
+ * activities feed tells which records were deleted in between. `--prune`
+ * forces a full pull and drops whatever the API no longer returns.
+ *
+ * With `--offline`, list commands get an API stand-in that answers from the
+ * mirror: filters, sorting, pagination and includes are evaluated in SQL, and
+ * time reports are aggregated from the mirrored time entries.
+ */
+
+import type { ProductiveApi } from '@studiometa/productive-api';
+import type { DateService } from '@studiometa/productive-core';
+
+import {
+  DEAL_TYPE,
+  PERSON_STATUS,
+  PROJECT_STATUS,
+  TASK_OVERDUE_STATUS,
+  TASK_STATUS,
+  TIME_STATUS,
+} from '@studiometa/productive-api';
+import { createDateService } from '@studiometa/productive-core';
+
+import type { CommandContext } from '../context.js';
+
+import { CacheError, ConfigError } from '../errors.js';
+import { resolveCommandFilters, tryResolveValue } from './resolve-filters.js';
+import {
+  getSqliteCache,
+  type MirrorCondition,
+  type MirrorRecord,
+  type SqliteCache,
+} from './sqlite-cache.js';
+
+export const MIRROR_RESOURCES = [
+  'projects',
+  'people',
+  'services',
+  'deals',
+  'tasks',
+  'time_entries',
+  'bookings',
+  'comments',
+] as const;
+
+export type MirrorResource = (typeof MIRROR_RESOURCES)[number];
+
+/** Builds the condition of a filter value; `dates` gives "today" for relative filters */
+type FilterBuilder = (value: string, dates: DateService) => MirrorCondition;
+
+interface MirrorResourceSpec {
+  /** List method of `ProductiveApi` */
+  list: string;
+  /** Single-record method of `ProductiveApi` */
+  get: string;
+  /** `item_type` of the resource in the activities feed, normalized */
+  activityType: string;
+  /** Related records pulled along, so offline includes resolve */
+  include: string[];
+  /** API filters that can be evaluated offline */
+  filters: Record<string, FilterBuilder>;
+}
+
+interface MirrorSyncReport {
+  resource: string;
+  mode: 'full' | 'incremental';
+  fetched: number;
+  deleted: number;
+}
+
+export interface MirrorPullReport {
+  resources: MirrorSyncReport[];
+  /** Records removed because the activities feed reported them deleted */
+  deleted: number;
+}
+
+export interface MirrorPullOptions {
+  resources?: readonly MirrorResource[];
+  /** Re-fetch everything and drop records the API did not return */
+  prune?: boolean;
+  onProgress?: (resource: MirrorResource, fetched: number) => void;
+}
+
+const PAGE_SIZE = 200;
+const ACTIVITIES_STATE = 'activities';
+
+// ============================================================================
+// Offline filters
+// ============================================================================
+
+const ATTR = (name: string) => `$.attributes.${name}`;
+const REL = (name: string) => `$.relationships.${name}.data.id`;
+
+function list(value: string): string[] {
+  return value
+    .split(',')
+    .map((item) => item.trim())
+    .filter(Boolean);
+}
+
+function placeholders(values: unknown[]): string {
+  return values.map(() => '?').join(', ');
+}
+
+/** Value at `path` equals `value`, or one of a comma-separated list */
+function eq(path: string): FilterBuilder {
+  return (value) => {
+    const values = list(value);
+    return {
+      sql: `CAST(json_extract(data, '${path}') AS TEXT) IN (${placeholders(values)})`,
+      params: values,
+    };
+  };
+}
+
+function onOrAfter(path: string): FilterBuilder {
+  return (value) => ({ sql: `json_extract(data, '${path}') >= ?`, params: [value] });
+}
+
+function onOrBefore(path: string): FilterBuilder {
+  return (value) => ({ sql: `json_extract(data, '${path}') <= ?`, params: [value] });
+}
+
+/** Case-insensitive substring match on any of `paths` */
+function search(...paths: string[]): FilterBuilder {
+  return (value) => ({
+    sql: paths
+      .map((path) => `LOWER(COALESCE(json_extract(data, '${path}'), '')) LIKE ?`)
+      .join(' OR '),
+    params: paths.map(() => `%${value.toLowerCase()}%`),
+  });
+}
+
+/** Boolean attribute selected by an enum value, e.g. task status 1 → `closed = 0` */
+function flag(path: string, values: Record<string, boolean>): FilterBuilder {
+  return (value) => {
+    if (!(value in values)) {
+      throw CacheError.offlineUnsupported(`Filter value "${value}"`, Object.keys(values));
+    }
+    return {
+      sql: `COALESCE(json_extract(data, '${path}'), 0) = ?`,
+      params: [values[value] ? 1 : 0],
+    };
+  };
+}
+
+/**
+ * Time entries point to their service; project, deal and budget filters
+ * go through the mirrored services.
+ */
+function viaService(relation: 'project' | 'deal'): FilterBuilder {
+  return (value) => {
+    const values = list(value);
+    const services = `SELECT s.id FROM mirror s WHERE s.type = 'services' AND json_extract(s.data, '${REL(relation)}') IN (${placeholders(values)})`;
+    if (relation === 'project') {
+      return {
+        sql: `json_extract(data, '${REL('project')}') IN (${placeholders(values)}) OR json_extract(data, '${REL('service')}') IN (${services})`,
+        params: [...values, ...values],
+      };
+    }
+    return { sql: `json_extract(data, '${REL('service')}') IN (${services})`, params: values };
+  };
+}
+
+function overdue(value: string, dates: DateService): MirrorCondition {
+  const condition = `COALESCE(json_extract(data, '${ATTR('closed')}'), 0) = 0 AND COALESCE(json_extract(data, '${ATTR('due_date')}') < ?, 0)`;
+  const today = dates.today();
+  return value === TASK_OVERDUE_STATUS.OVERDUE
+    ? { sql: condition, params: [today] }
+    : { sql: `NOT (${condition})`, params: [today] };
+}
+
+const TIME_ENTRY_FILTERS: Record<string, FilterBuilder> = {
+  person_id: eq(REL('person')),
+  service_id: eq(REL('service')),
+  task_id: eq(REL('task')),
+  project_id: viaService('project'),
+  deal_id: viaService('deal'),
+  budget_id: viaService('deal'),
+  after: onOrAfter(ATTR('date')),
+  before: onOrBefore(ATTR('date')),
+  status: (value, dates) => {
+    if (value === TIME_STATUS.REJECTED) {
+      return { sql: `COALESCE(json_extract(data, '${ATTR('rejected')}'), 0) = 1`, params: [] };
+    }
+    return flag(ATTR('approved'), {
+      [TIME_STATUS.APPROVED]: true,
+      [TIME_STATUS.UNAPPROVED]: false,
+    })(value, dates);
+  },
+};
+
+const SPECS: Record<MirrorResource, MirrorResourceSpec> = {
+  projects: {
+    list: 'getProjects',
+    get: 'getProject',
+    activityType: 'project',
+    include: ['company'],
+    filters: {
+      query: search(ATTR('name'), ATTR('project_number')),
+      project_number: eq(ATTR('project_number')),
+      company_id: eq(REL('company')),
+      status: flag(ATTR('archived'), {
+        [PROJECT_STATUS.ACTIVE]: false,
+        [PROJECT_STATUS.ARCHIVED]: true,
+      }),
+    },
+  },
+  people: {
+    list: 'getPeople',
+    get: 'getPerson',
+    activityType: 'person',
+    include: [],
+    filters: {
+      email: (value) => ({
+        sql: `LOWER(json_extract(data, '${ATTR('email')}')) = ?`,
+        params: [value.toLowerCase()],
+      }),
+      query: search(ATTR('first_name'), ATTR('last_name'), ATTR('email')),
+      status: flag(ATTR('active'), {
+        [PERSON_STATUS.ACTIVE]: true,
+        [PERSON_STATUS.DEACTIVATED]: false,
+      }),
+    },
+  },
+  services: {
+    list: 'getServices',
+    get: 'getService',
+    activityType: 'service',
+    include: [],
+    filters: {
+      query: search(ATTR('name')),
+      name: search(ATTR('name')),
+      project_id: eq(REL('project')),
+      deal_id: eq(REL('deal')),
+    },
+  },
+  deals: {
+    list: 'getDeals',
+    get: 'getDeal',
+    activityType: 'deal',
+    include: ['company'],
+    filters: {
+      query: search(ATTR('name'), ATTR('number')),
+      deal_number: eq(ATTR('number')),
+      project_id: eq(REL('project')),
+      company_id: eq(REL('company')),
+      responsible_id: eq(REL('responsible')),
+      type: flag(ATTR('budget'), {
+        [DEAL_TYPE.DEAL]: false,
+        [DEAL_TYPE.BUDGET]: true,
+      }),
+    },
+  },
+  tasks: {
+    list: 'getTasks',
+    get: 'getTask',
+    activityType: 'task',
+    include: ['project', 'assignee', 'workflow_status', 'task_list'],
+    filters: {
+      assignee_id: eq(REL('assignee')),
+      creator_id: eq(REL('creator')),
+      project_id: eq(REL('project')),
+      task_list_id: eq(REL('task_list')),
+      parent_task_id: eq(REL('parent_task')),
+      workflow_status_id: eq(REL('workflow_status')),
+      status: flag(ATTR('closed'), {
+        [TASK_STATUS.OPEN]: false,
+        [TASK_STATUS.CLOSED]: true,
+      }),
+      overdue_status: overdue,
+      due_date_on: eq(ATTR('due_date')),
+      due_date_before: onOrBefore(ATTR('due_date')),
+      due_date_after: onOrAfter(ATTR('due_date')),
+      query: search(ATTR('title')),
+    },
+  },
+  time_entries: {
+    list: 'getTimeEntries',
+    get: 'getTimeEntry',
+    activityType: 'timeentry',
+    include: ['person', 'service'],
+    filters: TIME_ENTRY_FILTERS,
+  },
+  bookings: {
+    list: 'getBookings',
+    get: 'getBooking',
+    activityType: 'booking',
+    include: ['person', 'service'],
+    filters: {
+      person_id: eq(REL('person')),
+      service_id: eq(REL('service')),
+      after: onOrAfter(ATTR('ended_on')),
+      before: onOrBefore(ATTR('started_on')),
+    },
+  },
+  comments: {
+    list: 'getComments',
+    get: 'getComment',
+    activityType: 'comment',
+    include: ['creator'],
+    filters: {
+      task_id: eq(REL('task')),
+      deal_id: eq(REL('deal')),
+      company_id: eq(REL('company')),
+      discussion_id: eq(REL('discussion')),
+      person_id: eq(REL('person')),
+      creator_id: eq(REL('creator')),
+    },
+  },
+};
+
+export function isMirrorResource(value: string): value is MirrorResource {
+  return (MIRROR_RESOURCES as readonly string[]).includes(value);
+}
+
+/**
+ * Translate API filters of a resource to SQL conditions on the mirror.
+ * Filters that cannot be evaluated offline are rejected rather than ignored,
+ * so an offline answer is never broader than the online one.
+ */
+export function buildMirrorConditions(
+  resource: MirrorResource,
+  filter: Record<string, string> = {},
+  dates: DateService = createDateService(),
+): MirrorCondition[] {
+  const builders = SPECS[resource].filters;
+  return Object.entries(filter)
+    .filter(([, value]) => value !== undefined && value !== '')
+    .map(([key, value]) => {
+      const build = builders[key];
+      if (!build) {
+        throw CacheError.offlineUnsupported(
+          `Filtering ${resource} by ${key}`,
+          Object.keys(builders),
+        );
+      }
+      return build(String(value), dates);
+    });
+}
+
+/**
+ * `ORDER BY` expression of a JSON:API sort parameter. The default is the
+ * newest records first, like most API list endpoints.
+ */
+export function buildMirrorOrder(sort?: string): string {
+  const fields = list(sort ?? '');
+  if (fields.length === 0) return 'CAST(id AS INTEGER) DESC';
+
+  return fields
+    .map((field) => {
+      if (!/^-?[a-z_]+$/.test(field)) {
+        throw CacheError.offlineUnsupported(`Sorting by ${field}`);
+      }
+      const name = field.replace(/^-/, '');
+      const column = name === 'id' ? 'CAST(id AS INTEGER)' : `json_extract(data, '${ATTR(name)}')`;
+      return `${column} ${field.startsWith('-') ? 'DESC' : 'ASC'}`;
+    })
+    .join(', ');
+}
+
+// ============================================================================
+// Pull
+// ============================================================================
+
+type ListMethod = (params: {
+  page: number;
+  perPage: number;
+  filter?: Record<string, string>;
+  include?: string[];
+}) => Promise<{ data: MirrorRecord[]; included?: MirrorRecord[]; meta?: { total_pages?: number } }>;
+
+function latest(current: string | null, records: MirrorRecord[]): string | null {
+  let cursor = current;
+  for (const record of records) {
+    const updatedAt = record.attributes?.updated_at;
+    if (typeof updatedAt === 'string' && (cursor === null || updatedAt > cursor)) {
+      cursor = updatedAt;
+    }
+  }
+  return cursor;
+}
+
+/**
+ * Resource of an activity `item_type` (`Task`, `TimeEntry`, `time_entry`…)
+ */
+function resourceOfActivity(itemType: string | undefined): MirrorResource | undefined {
+  const normalized = (itemType ?? '')
+    .split('::')
+    .pop()!
+    .toLowerCase()
+    .replace(/[^a-z]/g, '');
+  return MIRROR_RESOURCES.find((resource) => SPECS[resource].activityType === normalized);
+}
+
+/**
+ * Remove the records the activities feed reports as deleted since the last pull
+ */
+async function applyDeletions(
+  api: ProductiveApi,
+  mirror: SqliteCache,
+  since: string,
+): Promise<Map<MirrorResource, number>> {
+  const deleted = new Map<MirrorResource, number>();
+
+  for (let page = 1; ; page++) {
+    const response = await api.getActivities({
+      page,
+      perPage: PAGE_SIZE,
+      filter: { event: 'delete', after: since },
+    });
+
+    for (const activity of response.data) {
+      const resource = resourceOfActivity(activity.attributes.item_type);
+      const id = activity.attributes.item_id;
+      if (!resource || id === undefined) continue;
+      const removed = await mirror.mirrorDelete(resource, [String(id)]);
+      deleted.set(resource, (deleted.get(resource) ?? 0) + removed);
+    }
+
+    const totalPages = response.meta?.total_pages ?? 1;
+    if (page >= totalPages || response.data.length < PAGE_SIZE) break;
+  }
+
+  return deleted;
+}
+
+/**
+ * Pull resources into the mirror: everything on the first pull (or with
+ * `prune`), only the records updated since the previous pull otherwise.
+ */
+export async function pullMirror(
+  api: ProductiveApi,
+  mirror: SqliteCache,
+  options: MirrorPullOptions = {},
+): Promise<MirrorPullReport> {
+  const resources = options.resources ?? MIRROR_RESOURCES;
+  const startedAt = Date.now();
+  const report: MirrorPullReport = { resources: [], deleted: 0 };
+
+  for (const resource of resources) {
+    const spec = SPECS[resource];
+    const state = await mirror.getMirrorState(resource);
+    const full = options.prune === true || state === null;
+    const fetch = (api as unknown as Record<string, ListMethod>)[spec.list].bind(api);
+
+    let cursor = state?.cursor ?? null;
+    let fetched = 0;
+    for (let page = 1; ; page++) {
+      const response = await fetch({
+        page,
+        perPage: PAGE_SIZE,
+        filter: !full && cursor ? { 'updated_at[gt_eq]': cursor } : undefined,
+        include: spec.include.length > 0 ? spec.include : undefined,
+      });
+
+      await mirror.mirrorUpsert([...response.data, ...(response.included ?? [])]);
+      cursor = latest(cursor, response.data);
+      fetched += response.data.length;
+      options.onProgress?.(resource, fetched);
+
+      const totalPages = response.meta?.total_pages ?? 1;
+      if (page >= totalPages || response.data.length < PAGE_SIZE) break;
+    }
+
+    const deleted = options.prune ? await mirror.mirrorPrune(resource, startedAt) : 0;
+    await mirror.setMirrorState(resource, { cursor, syncedAt: Date.now() });
+    report.resources.push({ resource, mode: full ? 'full' : 'incremental', fetched, deleted });
+  }
+
+  // Deletions are only needed since the previous pull: a first pull starts
+  // the feed at the current time
+  const activities = await mirror.getMirrorState(ACTIVITIES_STATE);
+  if (activities?.cursor && options.prune !== true) {
+    const deleted = await applyDeletions(api, mirror, activities.cursor);
+    for (const item of report.resources) {
+      item.deleted += deleted.get(item.resource as MirrorResource) ?? 0;
+    }
+    report.deleted = [...deleted.values()].reduce((sum, count) => sum + count, 0);
+  }
+  await mirror.setMirrorState(ACTIVITIES_STATE, {
+    cursor: new Date(startedAt).toISOString(),
+    syncedAt: Date.now(),
+  });
+
+  return report;
+}
+
+/**
+ * Resources that have been pulled at least once
+ */
+export async function getMirroredResources(mirror: SqliteCache): Promise<MirrorResource[]> {
+  const pulled: MirrorResource[] = [];
+  for (const resource of MIRROR_RESOURCES) {
+    if (await mirror.getMirrorState(resource)) pulled.push(resource);
+  }
+  return pulled;
+}
+
+// ============================================================================
+// Offline API
+// ============================================================================
+
+interface ListParams {
+  page?: number;
+  perPage?: number;
+  filter?: Record<string, string>;
+  sort?: string;
+  include?: string[];
+}
+
+const REPORT_GROUPS: Record<string, { path: string; type?: string }> = {
+  person: { path: REL('person'), type: 'people' },
+  project: { path: REL('project'), type: 'projects' },
+  service: { path: REL('service'), type: 'services' },
+  date: { path: ATTR('date') },
+};
+
+const OFFLINE_REPORTS = ['time_reports', 'person_reports'];
+
+function recordLabel(record: MirrorRecord | undefined): string | undefined {
+  const attributes = record?.attributes;
+  if (!attributes) return undefined;
+  if (attributes.first_name || attributes.last_name) {
+    return `${attributes.first_name ?? ''} ${attributes.last_name ?? ''}`.trim();
+  }
+  return typeof attributes.name === 'string' ? attributes.name : undefined;
+}
+
+/**
+ * Related records named in `include`, read from the mirror
+ */
+async function resolveIncluded(
+  mirror: SqliteCache,
+  records: MirrorRecord[],
+  include: string[] = [],
+): Promise<MirrorRecord[]> {
+  const wanted = new Map<string, Set<string>>();
+  for (const record of records) {
+    for (const relation of include) {
+      const data = record.relationships?.[relation]?.data;
+      if (!data) continue;
+      if (!wanted.has(data.type)) wanted.set(data.type, new Set());
+      wanted.get(data.type)!.add(data.id);
+    }
+  }
+
+  const included: MirrorRecord[] = [];
+  for (const [type, ids] of wanted) {
+    included.push(...(await mirror.mirrorGetMany(type, [...ids])));
+  }
+  return included;
+}
+
+async function assertMirrored(mirror: SqliteCache, resource: MirrorResource): Promise<void> {
+  if (!(await mirror.getMirrorState(resource))) {
+    throw CacheError.notMirrored(resource);
+  }
+}
+
+async function listMirrored(
+  mirror: SqliteCache,
+  resource: MirrorResource,
+  params: ListParams,
+  dates: DateService,
+) {
+  await assertMirrored(mirror, resource);
+
+  const page = params.page ?? 1;
+  const perPage = params.perPage ?? 30;
+  const { records, total } = await mirror.mirrorQuery(resource, {
+    where: buildMirrorConditions(resource, params.filter, dates),
+    orderBy: buildMirrorOrder(params.sort),
+    limit: perPage,
+    offset: (page - 1) * perPage,
+  });
+
+  return {
+    data: records,
+    included: await resolveIncluded(mirror, records, params.include),
+    meta: {
+      current_page: page,
+      total_pages: Math.max(1, Math.ceil(total / perPage)),
+      total_count: total,
+      page_size: perPage,
+    },
+  };
+}
+
+async function getMirrored(
+  mirror: SqliteCache,
+  resource: MirrorResource,
+  id: string,
+  params: { include?: string[] } = {},
+) {
+  await assertMirrored(mirror, resource);
+
+  const [record] = await mirror.mirrorGetMany(resource, [String(id)]);
+  if (!record) {
+    throw CacheError.offlineUnsupported(`${resource} ${id}`);
+  }
+  return { data: record, included: await resolveIncluded(mirror, [record], params.include) };
+}
+
+/**
+ * Time and person reports aggregated from the mirrored time entries
+ */
+async function reportMirrored(
+  mirror: SqliteCache,
+  reportType: string,
+  params: ListParams & { group?: string },
+  dates: DateService,
+) {
+  if (!OFFLINE_REPORTS.includes(reportType)) {
+    throw CacheError.offlineUnsupported(`The ${reportType} report`, OFFLINE_REPORTS);
+  }
+  const groupName = params.group ?? 'person';
+  const group = REPORT_GROUPS[groupName];
+  if (!group) {
+    throw CacheError.offlineUnsupported(`Grouping by ${groupName}`, Object.keys(REPORT_GROUPS));
+  }
+  await assertMirrored(mirror, 'time_entries');
+
+  const { records } = await mirror.mirrorQuery('time_entries', {
+    where: buildMirrorConditions('time_entries', params.filter, dates),
+  });
+
+  const totals = new Map<string, { worked: number; billable: number; count: number }>();
+  for (const record of records) {
+    const key =
+      groupName === 'date'
+        ? String(record.attributes.date ?? '')
+        : (record.relationships?.[groupName]?.data?.id ?? '');
+    const total = totals.get(key) ?? { worked: 0, billable: 0, count: 0 };
+    total.worked += Number(record.attributes.time ?? 0);
+    total.billable += Number(record.attributes.billable_time ?? 0);
+    total.count += 1;
+    totals.set(key, total);
+  }
+
+  const labels = new Map<string, string>();
+  if (group.type) {
+    for (const record of await mirror.mirrorGetMany(group.type, [...totals.keys()])) {
+      const label = recordLabel(record);
+      if (label) labels.set(record.id, label);
+    }
+  }
+
+  const rows = [...totals.entries()]
+    .map(([key, total]) => ({
+      id: key || 'none',
+      type: reportType,
+      attributes: {
+        group: labels.get(key) ?? (key || 'none'),
+        total_worked_time: total.worked,
+        total_billable_time: total.billable,
+        count: total.count,
+      },
+    }))
+    .toSorted((a, b) =>
+      groupName === 'date'
+        ? a.id.localeCompare(b.id)
+        : b.attributes.total_worked_time - a.attributes.total_worked_time,
+    );
+
+  const page = params.page ?? 1;
+  const perPage = params.perPage ?? 100;
+  return {
+    data: rows.slice((page - 1) * perPage, page * perPage),
+    meta: {
+      current_page: page,
+      total_pages: Math.max(1, Math.ceil(rows.length / perPage)),
+      total_count: rows.length,
+      page_size: perPage,
+    },
+  };
+}
+
+/**
+ * API stand-in used by list commands with `--offline`: reads are answered
+ * from the mirror, anything else fails with a hint to go online.
+ */
+export function createMirrorApi(
+  mirror: SqliteCache,
+  dates: DateService = createDateService(),
+): ProductiveApi {
+  const methods: Record<string, (...args: never[]) => Promise<unknown>> = {
+    getReports: (reportType: string, params: ListParams & { group?: string } = {}) =>
+      reportMirrored(mirror, reportType, params, dates),
+  };
+  for (const resource of MIRROR_RESOURCES) {
+    const spec = SPECS[resource];
+    methods[spec.list] = (params: ListParams = {}) => listMirrored(mirror, resource, params, dates);
+    methods[spec.get] = (id: string, params?: { include?: string[] }) =>
+      getMirrored(mirror, resource, id, params);
+  }
+
+  return new Proxy(
+    {},
+    {
+      get(_, prop) {
+        if (typeof prop !== 'string') return undefined;
+        return (
+          methods[prop] ??
+          (() =>
+            Promise.reject(
+              CacheError.offlineUnsupported(
+                prop,
+                MIRROR_RESOURCES.map((resource) => `${resource} lists`),
+              ),
+            ))
+        );
+      },
+    },
+  ) as ProductiveApi;
+}
+
+/**
+ * The mirror database of the context's organization and profile
+ */
+export function getMirror(ctx: CommandContext): SqliteCache {
+  if (!ctx.config.organizationId) {
+    throw ConfigError.missingOrganizationId();
+  }
+  return getSqliteCache(ctx.config.organizationId, ctx.config.profile);
+}
+
+/**
+ * The context to run a read with: unchanged online, backed by the local
+ * mirror with `--offline`. Filter resolution (emails, project numbers…)
+ * then also runs against the mirror.
+ */
+export function withLocalMirror(ctx: CommandContext): CommandContext {
+  if (ctx.options.offline !== true) return ctx;
+
+  const local: CommandContext = {
+    ...ctx,
+    api: createMirrorApi(getMirror(ctx), createDateService({ timezone: ctx.config.timezone })),
+    resolveFilters: (filters, typeMapping, options) =>
+      resolveCommandFilters(local, filters, typeMapping, options),
+    tryResolveValue: (value, type, options) => tryResolveValue(local, value, type, options),
+  };
+  return local;
+}
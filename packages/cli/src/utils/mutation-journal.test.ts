@@ -0,0 +1,454 @@
+import { ProductiveApiError } from '@studiometa/productive-api';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+import type { ProductiveApi } from '../api.js';
+import type { JournalEntry } from './sqlite-cache.js';
+
+import { createTestContext } from '../context.js';
+import { ApiError } from '../errors.js';
+import {
+  describeMutation,
+  discardJournalEntries,
+  isNetworkError,
+  recordMutation,
+  replayJournal,
+  runMutation,
+} from './mutation-journal.js';
+
+const journal = vi.hoisted(() => {
+  let entries: JournalEntry[] = [];
+  let nextId = 1;
+
+  return {
+    reset(initial: Array<Omit<JournalEntry, 'id' | 'status' | 'error'>> = []) {
+      nextId = 1;
+      entries = initial.map((e) => ({ ...e, id: nextId++, status: 'pending', error: null }));
+    },
+    get entries() {
+      return entries;
+    },
+    journalAppend: vi.fn(async (kind: string, payload: Record<string, unknown>) => {
+      const entry: JournalEntry = {
+        id: nextId++,
+        kind,
+        payload,
+        status: 'pending',
+        error: null,
+        queuedAt: Date.now(),
+      };
+      entries.push(entry);
+      return entry;
+    }),
+    journalEntries: vi.fn(async () => entries.map((e) => ({ ...e }))),
+    journalMark: vi.fn(async (id: number, status: JournalEntry['status'], error: string | null) => {
+      const entry = entries.find((e) => e.id === id);
+      if (entry) Object.assign(entry, { status, error });
+    }),
+    journalRemove: vi.fn(async (id: number) => {
+      const before = entries.length;
+      entries = entries.filter((e) => e.id !== id);
+      return entries.length < before;
+    }),
+    journalClear: vi.fn(async () => {
+      const count = entries.length;
+      entries = [];
+      return count;
+    }),
+  };
+});
+
+vi.mock('./sqlite-cache.js', () => ({ getSqliteCache: () => journal }));
+
+function networkError(): Error {
+  return new TypeError('fetch failed', {
+    cause: Object.assign(new Error('connect ECONNREFUSED'), { code: 'ECONNREFUSED' }),
+  });
+}
+
+const HOUR_AGO = Date.now() - 3_600_000;
+
+describe('isNetworkError', () => {
+  it('detects unreachable API errors', () => {
+    expect(isNetworkError(networkError())).toBe(true);
+    expect(isNetworkError(Object.assign(new Error('dns'), { code: 'ENOTFOUND' }))).toBe(true);
+    expect(isNetworkError(ApiError.networkError('/tasks', networkError()))).toBe(true);
+  });
+
+  it('ignores errors returned by the API', () => {
+    expect(isNetworkError(new ProductiveApiError('Not found', 404))).toBe(false);
+    expect(isNetworkError(new Error('boom'))).toBe(false);
+    expect(isNetworkError('offline')).toBe(false);
+  });
+});
+
+describe('describeMutation', () => {
+  it.each([
+    [
+      {
+        kind: 'time.create',
+        payload: { time: 90, serviceId: '6', date: '2024-01-15', note: 'Dev' },
+      },
+      'Log 90m on service 6 (2024-01-15) "Dev"',
+    ],
+    [
+      { kind: 'task.update', payload: { id: '42', title: 'A', dueDate: 'B' } },
+      'Update task 42 (title, dueDate)',
+    ],
+    [{ kind: 'comment.create', payload: { body: 'Hi', taskId: '42' } }, 'Comment on task 42'],
+    [{ kind: 'timer.start', payload: { serviceId: '6' } }, 'Start timer on service 6'],
+    [{ kind: 'timer.stop', payload: { id: 'local-3' } }, 'Stop timer local-3'],
+  ])('describes %o', (entry, expected) => {
+    expect(describeMutation(entry)).toBe(expected);
+  });
+});
+
+describe('recordMutation', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    journal.reset();
+  });
+
+  it('freezes the date of time entries', async () => {
+    const ctx = createTestContext();
+    const entry = await recordMutation(ctx, {
+      kind: 'time.create',
+      payload: { personId: '1', serviceId: '6', time: 60 },
+    });
+
+    expect(entry.payload.date).toBe(new Date().toISOString().split('T')[0]);
+  });
+});
+
+describe('runMutation', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    journal.reset();
+  });
+
+  const mutation = { kind: 'comment.create' as const, payload: { body: 'Hi', taskId: '42' } };
+
+  it('returns the result when the API is reachable', async () => {
+    const createComment = vi.fn().mockResolvedValue({ data: { id: '9' } });
+    const ctx = createTestContext({ api: { createComment } as unknown as ProductiveApi });
+
+    const outcome = await runMutation(ctx, mutation, (execCtx) =>
+      execCtx.api.createComment({ body: 'Hi', task_id: '42' }),
+    );
+
+    expect(outcome).toEqual({ queued: false, data: { data: { id: '9' } } });
+    expect(journal.journalAppend).not.toHaveBeenCalled();
+  });
+
+  it('queues the mutation when the network is down', async () => {
+    const createComment = vi.fn().mockRejectedValue(networkError());
+    const ctx = createTestContext({ api: { createComment } as unknown as ProductiveApi });
+
+    const outcome = await runMutation(ctx, mutation, (execCtx) =>
+      execCtx.api.createComment({ body: 'Hi', task_id: '42' }),
+    );
+
+    expect(outcome.queued).toBe(true);
+    expect(journal.entries).toHaveLength(1);
+    expect(journal.entries[0]).toMatchObject({ kind: 'comment.create', payload: mutation.payload });
+  });
+
+  it('does not call the API with --offline', async () => {
+    const createComment = vi.fn();
+    const ctx = createTestContext({
+      api: { createComment } as unknown as ProductiveApi,
+      options: { offline: true, format: 'json' },
+    });
+
+    const outcome = await runMutation(ctx, mutation, (execCtx) =>
+      execCtx.api.createComment({ body: 'Hi', task_id: '42' }),
+    );
+
+    expect(outcome.queued).toBe(true);
+    expect(createComment).not.toHaveBeenCalled();
+  });
+
+  it('rethrows API errors', async () => {
+    const createComment = vi.fn().mockRejectedValue(new ProductiveApiError('Not found', 404));
+    const ctx = createTestContext({ api: { createComment } as unknown as ProductiveApi });
+
+    await expect(
+      runMutation(ctx, mutation, (execCtx) =>
+        execCtx.api.createComment({ body: 'Hi', task_id: '42' }),
+      ),
+    ).rejects.toThrow('Not found');
+    expect(journal.entries).toHaveLength(0);
+  });
+});
+
+describe('replayJournal', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    journal.reset();
+  });
+
+  it('applies mutations in order and removes them from the journal', async () => {
+    journal.reset([
+      { kind: 'comment.create', payload: { body: 'Hi', taskId: '42' }, queuedAt: HOUR_AGO },
+      {
+        kind: 'time.create',
+        payload: { personId: '1', serviceId: '6', time: 60, date: '2024-01-15' },
+        queuedAt: HOUR_AGO,
+      },
+    ]);
+    const api = {
+      createComment: vi.fn().mockResolvedValue({ data: { id: '9' } }),
+      getTimeEntries: vi.fn().mockResolvedValue({ data: [], meta: {} }),
+      createTimeEntry: vi.fn().mockResolvedValue({ data: { id: '10' } }),
+    };
+    const ctx = createTestContext({ api: api as unknown as ProductiveApi });
+
+    const report = await replayJournal(ctx);
+
+    expect(report.applied.map((item) => item.resultId)).toEqual(['9', '10']);
+    expect(api.createTimeEntry).toHaveBeenCalledWith(
+      expect.objectContaining({ person_id: '1', service_id: '6', time: 60, date: '2024-01-15' }),
+    );
+    expect(journal.entries).toHaveLength(0);
+  });
+
+  it('keeps duplicate time entries as conflicts unless forced', async () => {
+    journal.reset([
+      {
+        kind: 'time.create',
+        payload: { personId: '1', serviceId: '6', time: 60, date: '2024-01-15', note: 'Dev' },
+        queuedAt: HOUR_AGO,
+      },
+    ]);
+    const api = {
+      getTimeEntries: vi.fn().mockResolvedValue({
+        data: [{ id: '77', attributes: { time: 60, note: 'Dev' } }],
+        meta: {},
+      }),
+      createTimeEntry: vi.fn().mockResolvedValue({ data: { id: '10' } }),
+    };
+    const ctx = createTestContext({ api: api as unknown as ProductiveApi });
+
+    const report = await replayJournal(ctx);
+
+    expect(report.conflicts[0].reason).toContain('77');
+    expect(journal.entries[0]).toMatchObject({ status: 'conflict' });
+    expect(api.createTimeEntry).not.toHaveBeenCalled();
+
+    const forced = await replayJournal(ctx, { force: true });
+
+    expect(forced.applied).toHaveLength(1);
+    expect(journal.entries).toHaveLength(0);
+  });
+
+  it('flags task updates when the task changed after queuing', async () => {
+    journal.reset([
+      { kind: 'task.update', payload: { id: '42', title: 'New' }, queuedAt: HOUR_AGO },
+    ]);
+    const api = {
+      getTask: vi.fn().mockResolvedValue({
+        data: { id: '42', attributes: { updated_at: new Date().toISOString() } },
+      }),
+      updateTask: vi.fn(),
+    };
+    const ctx = createTestContext({ api: api as unknown as ProductiveApi });
+
+    const report = await replayJournal(ctx);
+
+    expect(report.conflicts).toHaveLength(1);
+    expect(report.conflicts[0].reason).toContain('modified on the server');
+    expect(api.updateTask).not.toHaveBeenCalled();
+  });
+
+  it('applies task updates when the task is unchanged', async () => {
+    journal.reset([
+      { kind: 'task.update', payload: { id: '42', title: 'New' }, queuedAt: HOUR_AGO },
+    ]);
+    const api = {
+      getTask: vi.fn().mockResolvedValue({
+        data: { id: '42', attributes: { updated_at: new Date(HOUR_AGO - 1000).toISOString() } },
+      }),
+      updateTask: vi.fn().mockResolvedValue({ data: { id: '42' } }),
+    };
+    const ctx = createTestContext({ api: api as unknown as ProductiveApi });
+
+    const report = await replayJournal(ctx);
+
+    expect(report.applied).toHaveLength(1);
+    expect(api.updateTask).toHaveBeenCalledWith('42', { title: 'New' });
+  });
+
+  it('logs a timer started and stopped offline as a time entry', async () => {
+    journal.reset([
+      {
+        kind: 'timer.start',
+        payload: { serviceId: '6', startedAt: '2024-01-15T09:00:00.000Z' },
+        queuedAt: HOUR_AGO,
+      },
+      {
+        kind: 'timer.stop',
+        payload: { id: 'local-1', stoppedAt: '2024-01-15T10:30:00.000Z' },
+        queuedAt: HOUR_AGO,
+      },
+    ]);
+    const api = { createTimeEntry: vi.fn().mockResolvedValue({ data: { id: '10' } }) };
+    const ctx = createTestContext({ api: api as unknown as ProductiveApi });
+
+    const report = await replayJournal(ctx);
+
+    expect(api.createTimeEntry).toHaveBeenCalledWith(
+      expect.objectContaining({
+        person_id: '500521',
+        service_id: '6',
+        time: 90,
+        date: '2024-01-15',
+      }),
+    );
+    expect(report.applied).toEqual([expect.objectContaining({ id: 1, resultId: '10' })]);
+    expect(journal.entries).toHaveLength(0);
+  });
+
+  it('dates an offline timer on the day it started in the user timezone', async () => {
+    journal.reset([
+      {
+        kind: 'timer.start',
+        payload: { serviceId: '6', startedAt: '2024-01-15T23:30:00.000Z' },
+        queuedAt: HOUR_AGO,
+      },
+      {
+        kind: 'timer.stop',
+        payload: { id: 'local-1', stoppedAt: '2024-01-16T00:30:00.000Z' },
+        queuedAt: HOUR_AGO,
+      },
+    ]);
+    const api = { createTimeEntry: vi.fn().mockResolvedValue({ data: { id: '10' } }) };
+    const ctx = createTestContext({
+      api: api as unknown as ProductiveApi,
+      config: {
+        apiToken: 'test-token',
+        organizationId: '12345',
+        userId: '500521',
+        timezone: 'Europe/Paris',
+      },
+    });
+
+    await replayJournal(ctx);
+
+    expect(api.createTimeEntry).toHaveBeenCalledWith(
+      expect.objectContaining({ time: 60, date: '2024-01-16' }),
+    );
+  });
+
+  it('continues a timer still running offline on the server', async () => {
+    journal.reset([
+      {
+        kind: 'timer.start',
+        payload: { serviceId: '6', startedAt: new Date(HOUR_AGO).toISOString() },
+        queuedAt: HOUR_AGO,
+      },
+    ]);
+    const api = {
+      createTimeEntry: vi.fn().mockResolvedValue({ data: { id: '10' } }),
+      startTimer: vi.fn().mockResolvedValue({ data: { id: '55' } }),
+    };
+    const ctx = createTestContext({ api: api as unknown as ProductiveApi });
+
+    const report = await replayJournal(ctx);
+
+    expect(api.createTimeEntry).toHaveBeenCalledWith(expect.objectContaining({ time: 60 }));
+    expect(api.startTimer).toHaveBeenCalledWith({ time_entry_id: '10' });
+    expect(report.applied[0].resultId).toBe('55');
+  });
+
+  it('flags timers already stopped on the server', async () => {
+    journal.reset([
+      {
+        kind: 'timer.stop',
+        payload: { id: '55', stoppedAt: new Date().toISOString() },
+        queuedAt: HOUR_AGO,
+      },
+    ]);
+    const api = {
+      getTimer: vi.fn().mockResolvedValue({
+        data: { id: '55', attributes: { stopped_at: '2024-01-15T10:00:00Z' } },
+      }),
+      stopTimer: vi.fn(),
+    };
+    const ctx = createTestContext({ api: api as unknown as ProductiveApi });
+
+    const report = await replayJournal(ctx);
+
+    expect(report.conflicts).toHaveLength(1);
+    expect(api.stopTimer).not.toHaveBeenCalled();
+  });
+
+  it('removes the minutes a timer ran after being stopped offline', async () => {
+    journal.reset([
+      {
+        kind: 'timer.stop',
+        payload: { id: '55', stoppedAt: new Date(HOUR_AGO).toISOString() },
+        queuedAt: HOUR_AGO,
+      },
+    ]);
+    const api = {
+      getTimer: vi.fn().mockResolvedValue({ data: { id: '55', attributes: {} } }),
+      stopTimer: vi.fn().mockResolvedValue({
+        data: {
+          id: '55',
+          attributes: {},
+          relationships: { time_entry: { data: { type: 'time_entries', id: '10' } } },
+        },
+      }),
+      getTimeEntry: vi.fn().mockResolvedValue({ data: { id: '10', attributes: { time: 150 } } }),
+      updateTimeEntry: vi.fn().mockResolvedValue({ data: { id: '10' } }),
+    };
+    const ctx = createTestContext({ api: api as unknown as ProductiveApi });
+
+    await replayJournal(ctx);
+
+    expect(api.updateTimeEntry).toHaveBeenCalledWith('10', { time: 90 });
+  });
+
+  it('marks entries rejected by the API as failed', async () => {
+    journal.reset([
+      { kind: 'comment.create', payload: { body: 'Hi', taskId: '404' }, queuedAt: HOUR_AGO },
+    ]);
+    const api = {
+      createComment: vi.fn().mockRejectedValue(new ProductiveApiError('Task not found', 404)),
+    };
+    const ctx = createTestContext({ api: api as unknown as ProductiveApi });
+
+    const report = await replayJournal(ctx);
+
+    expect(report.failed[0].reason).toBe('Task not found');
+    expect(journal.entries[0]).toMatchObject({ status: 'failed', error: 'Task not found' });
+  });
+
+  it('stops at the first network error and leaves the rest pending', async () => {
+    journal.reset([
+      { kind: 'comment.create', payload: { body: 'One', taskId: '1' }, queuedAt: HOUR_AGO },
+      { kind: 'comment.create', payload: { body: 'Two', taskId: '1' }, queuedAt: HOUR_AGO },
+    ]);
+    const api = { createComment: vi.fn().mockRejectedValue(networkError()) };
+    const ctx = createTestContext({ api: api as unknown as ProductiveApi });
+
+    const report = await replayJournal(ctx);
+
+    expect(report.remaining).toBe(2);
+    expect(api.createComment).toHaveBeenCalledTimes(1);
+    expect(journal.entries.every((e) => e.status === 'pending')).toBe(true);
+  });
+});
+
+describe('discardJournalEntries', () => {
+  it('removes selected or all entries', async () => {
+    journal.reset([
+      { kind: 'comment.create', payload: { body: 'One' }, queuedAt: HOUR_AGO },
+      { kind: 'comment.create', payload: { body: 'Two' }, queuedAt: HOUR_AGO },
+      { kind: 'comment.create', payload: { body: 'Three' }, queuedAt: HOUR_AGO },
+    ]);
+    const ctx = createTestContext();
+
+    expect(await discardJournalEntries(ctx, [1, 99])).toBe(1);
+    expect(await discardJournalEntries(ctx, 'all')).toBe(2);
+  });
+});
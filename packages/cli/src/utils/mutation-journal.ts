@@ -0,0 +1,494 @@
+/**
+ * Offline mutation journal.
+ *
+ * Writes that cannot reach the API — because the network is down or because
+ * `--offline` was passed — are recorded in the organization's SQLite database
+ * and replayed later by `productive sync`, which checks each one against the
+ * current server state before applying it.
+ */
+
+import type { ProductiveApi } from '@studiometa/productive-api';
+
+import {
+  createComment,
+  createDateService,
+  createTimeEntry,
+  fromCommandContext,
+  getTask,
+  getTimeEntry,
+  getTimer,
+  listTimeEntries,
+  startTimer,
+  stopTimer,
+  updateTask,
+  updateTimeEntry,
+  type CreateCommentOptions,
+  type CreateTimeEntryOptions,
+  type ExecutorContext,
+  type StartTimerOptions,
+  type StopTimerOptions,
+  type UpdateTaskOptions,
+} from '@studiometa/productive-core';
+
+import type { CommandContext } from '../context.js';
+
+import { ConfigError } from '../errors.js';
+import { colors } from './colors.js';
+import { getSqliteCache, type JournalEntry, type SqliteCache } from './sqlite-cache.js';
+
+/**
+ * Mutations that can be recorded offline
+ */
+export interface MutationPayloads {
+  'time.create': CreateTimeEntryOptions;
+  'task.update': UpdateTaskOptions;
+  'comment.create': CreateCommentOptions;
+  'timer.start': StartTimerOptions & { startedAt: string };
+  'timer.stop': StopTimerOptions & { stoppedAt: string };
+}
+
+export type MutationKind = keyof MutationPayloads;
+
+export type Mutation = {
+  [K in MutationKind]: { kind: K; payload: MutationPayloads[K] };
+}[MutationKind];
+
+export type MutationOutcome<T> = { queued: false; data: T } | { queued: true; entry: JournalEntry };
+
+export interface SyncItem {
+  id: number;
+  kind: MutationKind;
+  description: string;
+  /** ID of the created or updated resource, when applied */
+  resultId?: string;
+  /** Conflict reason or error message */
+  reason?: string;
+}
+
+export interface SyncReport {
+  applied: SyncItem[];
+  conflicts: SyncItem[];
+  failed: SyncItem[];
+  /** Entries left untouched because the network dropped during sync */
+  remaining: number;
+}
+
+export interface SyncOptions {
+  /** Apply mutations even when the server changed since they were queued */
+  force?: boolean;
+}
+
+/** Prefix of timer IDs handed out for timers started offline */
+export const LOCAL_TIMER_PREFIX = 'local-';
+
+const NETWORK_ERROR_CODES = new Set([
+  'ECONNREFUSED',
+  'ECONNRESET',
+  'ENOTFOUND',
+  'EAI_AGAIN',
+  'ETIMEDOUT',
+  'ENETUNREACH',
+  'EHOSTUNREACH',
+  'UND_ERR_CONNECT_TIMEOUT',
+  'UND_ERR_SOCKET',
+]);
+
+class OfflineModeError extends Error {
+  constructor() {
+    super('Request not sent: offline mode');
+    this.name = 'OfflineModeError';
+  }
+}
+
+/**
+ * Whether an error means the API could not be reached at all, as opposed to
+ * the API rejecting the request.
+ */
+export function isNetworkError(error: unknown): boolean {
+  if (error instanceof OfflineModeError) return true;
+  if (!(error instanceof Error)) return false;
+
+  const code = (error as { code?: unknown }).code;
+  if (typeof code === 'string' && NETWORK_ERROR_CODES.has(code)) return true;
+  if (error instanceof TypeError && error.message === 'fetch failed') return true;
+
+  return error.cause !== undefined && isNetworkError(error.cause);
+}
+
+/**
+ * API stand-in used with `--offline`: every call fails as if the network was
+ * down, so validation still runs but nothing is sent.
+ */
+function createOfflineApi(): ProductiveApi {
+  return new Proxy(
+    {},
+    {
+      get(_, prop) {
+        if (typeof prop === 'string') {
+          return () => Promise.reject(new OfflineModeError());
+        }
+      },
+    },
+  ) as ProductiveApi;
+}
+
+function getJournal(ctx: CommandContext): SqliteCache {
+  if (!ctx.config.organizationId) {
+    throw ConfigError.missingOrganizationId();
+  }
+  return getSqliteCache(ctx.config.organizationId, ctx.config.profile);
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Human-readable one-line summary of a journaled mutation
+ */
+export function describeMutation(entry: {
+  kind: string;
+  payload: Record<string, unknown>;
+}): string {
+  const p = entry.payload;
+  switch (entry.kind) {
+    case 'time.create':
+      return `Log ${p.time}m on service ${p.serviceId} (${p.date})${p.note ? ` "${p.note}"` : ''}`;
+    case 'task.update':
+      return `Update task ${p.id} (${Object.keys(p)
+        .filter((key) => key !== 'id' && p[key] !== undefined)
+        .join(', ')})`;
+    case 'comment.create': {
+      const parent = ['taskId', 'dealId', 'companyId', 'invoiceId', 'personId', 'discussionId']
+        .filter((key) => p[key])
+        .map((key) => `${key.replace(/Id$/, '')} ${p[key]}`)[0];
+      return `Comment on ${parent ?? 'unknown parent'}`;
+    }
+    case 'timer.start':
+      return p.timeEntryId
+        ? `Start timer on time entry ${p.timeEntryId}`
+        : `Start timer on service ${p.serviceId}`;
+    case 'timer.stop':
+      return `Stop timer ${p.id}`;
+    default:
+      return entry.kind;
+  }
+}
+
+/**
+ * Record a mutation in the journal.
+ *
+ * Payloads are frozen at record time: a time entry without a date gets
+ * today's date, not the date it is eventually synced on.
+ */
+export async function recordMutation(
+  ctx: CommandContext,
+  mutation: Mutation,
+): Promise<JournalEntry> {
+  const payload =
+    mutation.kind === 'time.create'
+      ? {
+          ...mutation.payload,
+          date:
+            mutation.payload.date ?? createDateService({ timezone: ctx.config.timezone }).today(),
+        }
+      : mutation.payload;
+
+  return getJournal(ctx).journalAppend(mutation.kind, payload as Record<string, unknown>);
+}
+
+/**
+ * Run a mutation, recording it in the journal instead when the API is
+ * unreachable or `--offline` is set. API and validation errors are rethrown.
+ */
+export async function runMutation<T>(
+  ctx: CommandContext,
+  mutation: Mutation,
+  execute: (execCtx: ExecutorContext) => Promise<T>,
+): Promise<MutationOutcome<T>> {
+  const offline = ctx.options.offline === true;
+  const execCtx = fromCommandContext(offline ? { ...ctx, api: createOfflineApi() } : ctx);
+
+  try {
+    return { queued: false, data: await execute(execCtx) };
+  } catch (error) {
+    if (!isNetworkError(error)) throw error;
+    return { queued: true, entry: await recordMutation(ctx, mutation) };
+  }
+}
+
+/**
+ * Tell the user a mutation was journaled instead of applied
+ */
+export function reportQueuedMutation(
+  ctx: CommandContext,
+  entry: JournalEntry,
+  extra: Record<string, unknown> = {},
+): void {
+  const format = ctx.options.format || ctx.options.f || 'human';
+  if (format === 'json') {
+    ctx.formatter.output({ status: 'queued', journal_id: entry.id, kind: entry.kind, ...extra });
+    return;
+  }
+
+  ctx.formatter.warning(`Offline, queued for sync: ${describeMutation(entry)} (#${entry.id})`);
+  for (const [key, value] of Object.entries(extra)) {
+    console.log(colors.cyan(`${key}:`), value);
+  }
+  console.log(colors.dim('Run "productive sync" once back online to apply it.'));
+}
+
+/**
+ * Get all journaled mutations
+ */
+export async function getJournalEntries(ctx: CommandContext): Promise<JournalEntry[]> {
+  return getJournal(ctx).journalEntries();
+}
+
+/**
+ * Remove mutations from the journal without applying them
+ */
+export async function discardJournalEntries(
+  ctx: CommandContext,
+  ids: number[] | 'all',
+): Promise<number> {
+  const journal = getJournal(ctx);
+  if (ids === 'all') return journal.journalClear();
+
+  let removed = 0;
+  for (const id of ids) {
+    if (await journal.journalRemove(id)) removed++;
+  }
+  return removed;
+}
+
+class SyncConflict extends Error {}
+
+function minutesBetween(from: string, to: string): number {
+  return Math.max(0, Math.round((Date.parse(to) - Date.parse(from)) / 60_000));
+}
+
+/**
+ * Add (or remove, with a negative delta) minutes on an existing time entry
+ */
+async function adjustTimeEntry(id: string, delta: number, execCtx: ExecutorContext) {
+  const entry = await getTimeEntry({ id }, execCtx);
+  const time = Math.max(0, entry.data.attributes.time + delta);
+  return updateTimeEntry({ id, time }, execCtx);
+}
+
+/**
+ * Replay a timer started offline.
+ *
+ * The server cannot start a timer in the past, so the time tracked offline
+ * is written to a time entry instead. When the timer was also stopped
+ * offline that is all there is to do; otherwise a server timer is started on
+ * that entry so tracking carries on.
+ */
+async function applyTimerStart(
+  entry: JournalEntry,
+  stop: JournalEntry | undefined,
+  ctx: CommandContext,
+  execCtx: ExecutorContext,
+): Promise<string> {
+  const payload = entry.payload as unknown as MutationPayloads['timer.start'];
+  const stoppedAt = stop
+    ? (stop.payload as unknown as MutationPayloads['timer.stop']).stoppedAt
+    : new Date().toISOString();
+  const minutes = minutesBetween(payload.startedAt, stoppedAt);
+
+  let timeEntryId = payload.timeEntryId;
+  if (timeEntryId) {
+    await adjustTimeEntry(timeEntryId, minutes, execCtx);
+  } else {
+    const personId = payload.personId ?? ctx.config.userId;
+    if (!personId || !payload.serviceId) {
+      throw new Error('Cannot log offline timer: missing person or service');
+    }
+    const created = await createTimeEntry(
+      {
+        personId,
+        serviceId: payload.serviceId,
+        time: minutes,
+        // The day the timer was started on, in the user's timezone
+        date: createDateService({
+          timezone: ctx.config.timezone,
+          clock: () => new Date(payload.startedAt),
+        }).today(),
+      },
+      execCtx,
+    );
+    timeEntryId = created.data.id;
+  }
+
+  if (stop) return timeEntryId;
+
+  const timer = await startTimer({ timeEntryId }, execCtx);
+  return timer.data.id;
+}
+
+/**
+ * Stop a server timer that was stopped offline, then remove the minutes the
+ * timer kept running between the offline stop and the sync.
+ */
+async function applyTimerStop(
+  payload: MutationPayloads['timer.stop'],
+  force: boolean,
+  execCtx: ExecutorContext,
+): Promise<string> {
+  const current = await getTimer({ id: payload.id }, execCtx);
+  if (current.data.attributes.stopped_at && !force) {
+    throw new SyncConflict(
+      `Timer already stopped on the server at ${current.data.attributes.stopped_at}`,
+    );
+  }
+
+  const result = await stopTimer({ id: payload.id }, execCtx);
+  const overshoot = minutesBetween(payload.stoppedAt, new Date().toISOString());
+  const timeEntryId = result.data.relationships?.time_entry?.data?.id;
+  if (overshoot > 0 && timeEntryId) {
+    await adjustTimeEntry(timeEntryId, -overshoot, execCtx);
+  }
+  return result.data.id;
+}
+
+async function applyTimeCreate(
+  payload: MutationPayloads['time.create'],
+  force: boolean,
+  execCtx: ExecutorContext,
+): Promise<string> {
+  if (!force) {
+    const existing = await listTimeEntries(
+      {
+        personId: payload.personId,
+        serviceId: payload.serviceId,
+        after: payload.date,
+        before: payload.date,
+      },
+      execCtx,
+    );
+    const duplicate = existing.data.find(
+      (e) =>
+        e.attributes.time === payload.time && (e.attributes.note ?? '') === (payload.note ?? ''),
+    );
+    if (duplicate) {
+      throw new SyncConflict(`An identical time entry already exists (${duplicate.id})`);
+    }
+  }
+
+  const result = await createTimeEntry(payload, execCtx);
+  return result.data.id;
+}
+
+async function applyTaskUpdate(
+  payload: MutationPayloads['task.update'],
+  queuedAt: number,
+  force: boolean,
+  execCtx: ExecutorContext,
+): Promise<string> {
+  if (!force) {
+    const current = await getTask({ id: payload.id, include: [] }, execCtx);
+    const updatedAt = current.data.attributes.updated_at;
+    if (updatedAt && Date.parse(updatedAt) > queuedAt) {
+      throw new SyncConflict(`Task was modified on the server at ${updatedAt}`);
+    }
+  }
+
+  const result = await updateTask(payload, execCtx);
+  return result.data.id;
+}
+
+/**
+ * Replay the journal in recording order.
+ *
+ * Applied mutations are removed. Conflicts (the server changed since the
+ * mutation was queued) and API errors are kept with their reason so they can
+ * be forced or discarded. A network error stops the sync and leaves the rest
+ * of the journal untouched.
+ */
+export async function replayJournal(
+  ctx: CommandContext,
+  options: SyncOptions = {},
+): Promise<SyncReport> {
+  const journal = getJournal(ctx);
+  const execCtx = fromCommandContext(ctx);
+  const force = options.force === true;
+  const report: SyncReport = { applied: [], conflicts: [], failed: [], remaining: 0 };
+
+  const entries = await journal.journalEntries();
+  const consumed = new Set<number>();
+
+  for (const [index, entry] of entries.entries()) {
+    if (consumed.has(entry.id)) continue;
+
+    const kind = entry.kind as MutationKind;
+    const item: SyncItem = { id: entry.id, kind, description: describeMutation(entry) };
+
+    try {
+      switch (kind) {
+        case 'time.create':
+          item.resultId = await applyTimeCreate(
+            entry.payload as unknown as MutationPayloads['time.create'],
+            force,
+            execCtx,
+          );
+          break;
+        case 'task.update':
+          item.resultId = await applyTaskUpdate(
+            entry.payload as unknown as MutationPayloads['task.update'],
+            entry.queuedAt,
+            force,
+            execCtx,
+          );
+          break;
+        case 'comment.create': {
+          const result = await createComment(
+            entry.payload as unknown as MutationPayloads['comment.create'],
+            execCtx,
+          );
+          item.resultId = result.data.id;
+          break;
+        }
+        case 'timer.start': {
+          const localId = `${LOCAL_TIMER_PREFIX}${entry.id}`;
+          const stop = entries.find((e) => e.kind === 'timer.stop' && e.payload.id === localId);
+          item.resultId = await applyTimerStart(entry, stop, ctx, execCtx);
+          if (stop) {
+            await journal.journalRemove(stop.id);
+            consumed.add(stop.id);
+          }
+          break;
+        }
+        case 'timer.stop': {
+          const payload = entry.payload as unknown as MutationPayloads['timer.stop'];
+          if (payload.id.startsWith(LOCAL_TIMER_PREFIX)) {
+            throw new Error(`Unknown offline timer ${payload.id}`);
+          }
+          item.resultId = await applyTimerStop(payload, force, execCtx);
+          break;
+        }
+        default:
+          throw new Error(`Unsupported mutation: ${entry.kind}`);
+      }
+
+      await journal.journalRemove(entry.id);
+      report.applied.push(item);
+    } catch (error) {
+      if (isNetworkError(error)) {
+        report.remaining = entries.slice(index).filter((e) => !consumed.has(e.id)).length;
+        break;
+      }
+
+      item.reason = errorMessage(error);
+      if (error instanceof SyncConflict) {
+        await journal.journalMark(entry.id, 'conflict', item.reason);
+        report.conflicts.push(item);
+      } else {
+        await journal.journalMark(entry.id, 'failed', item.reason);
+        report.failed.push(item);
+      }
+    }
+  }
+
+  return report;
+}
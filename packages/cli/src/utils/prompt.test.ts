@@ -0,0 +1,144 @@
+import type { ReadStream, WriteStream } from 'node:tty';
+
+import { PassThrough } from 'node:stream';
+import { describe, it, expect, vi } from 'vitest';
+
+import { CommandError } from '../errors.js';
+import { confirm, select, text, type PromptIO } from './prompt.js';
+
+function createFakeIO() {
+  const input = Object.assign(new PassThrough(), { isTTY: true, setRawMode: vi.fn() });
+  const output = { write: vi.fn() };
+  const io: PromptIO = {
+    input: input as unknown as ReadStream,
+    output: output as unknown as WriteStream,
+  };
+
+  return {
+    io,
+    input,
+    /** Press keys once the prompt is listening */
+    async press(...keys: string[]) {
+      await vi.waitFor(() => expect(input.listenerCount('keypress')).toBeGreaterThan(0));
+      for (const key of keys) {
+        input.emit('keypress', key, { name: key, sequence: key });
+        // Let async handlers (e.g. searches) settle between key presses
+        await new Promise((resolve) => setImmediate(resolve));
+      }
+    },
+    type: (value: string) => [...value],
+    screen: () => String(output.write.mock.lastCall?.[0]),
+  };
+}
+
+describe('text', () => {
+  it('returns the typed value on enter', async () => {
+    const fake = createFakeIO();
+    const answer = text('Title', {}, fake.io);
+
+    await fake.press(...fake.type('Fixx'), 'backspace', 'return');
+
+    await expect(answer).resolves.toBe('Fix');
+    expect(fake.input.setRawMode).toHaveBeenLastCalledWith(false);
+  });
+
+  it('keeps asking until the answer parses', async () => {
+    const fake = createFakeIO();
+    const answer = text(
+      'Duration',
+      { parse: (value) => (value === '90' ? { value } : { error: 'Invalid duration' }) },
+      fake.io,
+    );
+
+    await fake.press('x', 'return');
+    expect(fake.screen()).toContain('Invalid duration');
+
+    await fake.press('backspace', '9', '0', 'return');
+    await expect(answer).resolves.toBe('90');
+  });
+
+  it('throws a CommandError on escape', async () => {
+    const fake = createFakeIO();
+    const answer = text('Title', {}, fake.io).catch((error: unknown) => error);
+
+    await fake.press('escape');
+
+    expect(await answer).toBeInstanceOf(CommandError);
+    expect(fake.input.listenerCount('keypress')).toBe(0);
+  });
+});
+
+describe('confirm', () => {
+  it('uses the default on enter', async () => {
+    const fake = createFakeIO();
+    const answer = confirm('Create?', true, fake.io);
+
+    await fake.press('return');
+
+    await expect(answer).resolves.toBe(true);
+  });
+
+  it('accepts y and n', async () => {
+    const fake = createFakeIO();
+    const answer = confirm('Create?', true, fake.io);
+
+    await fake.press('n');
+
+    await expect(answer).resolves.toBe(false);
+  });
+});
+
+describe('select', () => {
+  const choices = [
+    { value: '1', label: 'Design', hint: 'Website' },
+    { value: '2', label: 'Development', hint: 'Website' },
+    { value: '3', label: 'Project management', hint: 'Intranet' },
+  ];
+
+  it('narrows the choices with a fuzzy query', async () => {
+    const fake = createFakeIO();
+    const answer = select('Service', choices, {}, fake.io);
+
+    await fake.press(...fake.type('pm'));
+    expect(fake.screen()).toContain('Project management');
+    expect(fake.screen()).not.toContain('Design');
+
+    await fake.press('return');
+    await expect(answer).resolves.toEqual(choices[2]);
+  });
+
+  it('moves the selection with the arrow keys', async () => {
+    const fake = createFakeIO();
+    const answer = select('Service', choices, {}, fake.io);
+
+    await fake.press('down', 'down', 'down', 'up', 'return');
+
+    await expect(answer).resolves.toEqual(choices[1]);
+  });
+
+  it('searches when nothing matches locally', async () => {
+    const fake = createFakeIO();
+    const search = vi.fn().mockResolvedValue([{ value: '9', label: 'Support' }]);
+    const answer = select('Service', [], { search }, fake.io);
+
+    await fake.press(...fake.type('sup'));
+    expect(fake.screen()).toContain('press enter to search');
+
+    await fake.press('return');
+    expect(search).toHaveBeenCalledWith('sup');
+
+    await fake.press('return');
+    await expect(answer).resolves.toEqual({ value: '9', label: 'Support' });
+  });
+
+  it('reports searches without results', async () => {
+    const fake = createFakeIO();
+    const search = vi.fn().mockResolvedValue([]);
+    select('Service', [], { search }, fake.io).catch(() => {});
+
+    await fake.press('x', 'return');
+
+    expect(fake.screen()).toContain('Nothing found for "x"');
+    await fake.press('escape');
+  });
+});
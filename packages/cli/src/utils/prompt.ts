@@ -0,0 +1,272 @@
+/**
+ * Interactive terminal prompts using native Node.js
+ *
+ * Text input, yes/no confirmation and a fuzzy-search picker, rendered below
+ * the cursor and redrawn on every key press. Escape and Ctrl+C cancel with a
+ * `CommandError`.
+ */
+
+import type { ReadStream, WriteStream } from 'node:tty';
+
+import { emitKeypressEvents } from 'node:readline';
+
+import { CommandError } from '../errors.js';
+import { colors } from './colors.js';
+import { fuzzyFilter } from './fuzzy.js';
+
+/** Choices shown at once by `select` */
+const VISIBLE_CHOICES = 8;
+
+export interface PromptKey {
+  name?: string;
+  sequence?: string;
+  ctrl?: boolean;
+  meta?: boolean;
+}
+
+export interface PromptIO {
+  input: ReadStream;
+  output: WriteStream;
+}
+
+export interface PromptChoice {
+  /** Value returned when picked, e.g. a resource ID */
+  value: string;
+  label: string;
+  /** Secondary text, e.g. the project of a service */
+  hint?: string;
+}
+
+export interface SelectOptions {
+  /** Look up more choices when none matches the query, e.g. through the API */
+  search?: (query: string) => Promise<PromptChoice[]>;
+}
+
+export interface TextOptions {
+  /** Turn the answer into the stored value, or return an error message */
+  parse?: (value: string) => { value: string } | { error: string };
+  /** Shown dimmed while the input is empty */
+  placeholder?: string;
+}
+
+function defaultIO(): PromptIO {
+  return { input: process.stdin as ReadStream, output: process.stdout as WriteStream };
+}
+
+function typedText(input: string, key: PromptKey): string | undefined {
+  if (key.name === 'backspace') return input.slice(0, -1);
+  if (key.ctrl || key.meta || !key.sequence || key.sequence.length !== 1) return undefined;
+  return key.sequence >= ' ' && key.sequence !== '\x7f' ? input + key.sequence : undefined;
+}
+
+function question(message: string, answer: string): string {
+  return `${colors.cyan('?')} ${colors.bold(message)} ${answer}`;
+}
+
+/**
+ * Read key presses until `handle` settles the prompt, redrawing the lines
+ * returned by `view` in place.
+ */
+function interact<T>(
+  io: PromptIO,
+  view: () => string[],
+  handle: (key: PromptKey, done: (value: T, summary: string) => void) => void | Promise<void>,
+): Promise<T> {
+  const { input, output } = io;
+  let drawn = 0;
+
+  const draw = (lines: string[]) => {
+    const up = drawn > 1 ? `\x1b[${drawn - 1}A` : '';
+    output.write(`${up}\r\x1b[J${lines.join('\n')}`);
+    drawn = lines.length;
+  };
+
+  return new Promise<T>((resolve, reject) => {
+    // Ignore key presses while an async handler (e.g. a search) is running
+    let busy = false;
+    let settled = false;
+
+    const cleanup = () => {
+      settled = true;
+      input.off('keypress', onKeypress);
+      input.setRawMode(false);
+      input.pause();
+    };
+
+    const done = (value: T, summary: string) => {
+      cleanup();
+      draw([summary]);
+      output.write('\n');
+      resolve(value);
+    };
+
+    const fail = (error: unknown) => {
+      cleanup();
+      draw([]);
+      reject(error);
+    };
+
+    const onKeypress = async (sequence: string | undefined, key: PromptKey | undefined) => {
+      const pressed = key ?? { name: sequence, sequence };
+      if (busy) return;
+
+      if (pressed.name === 'escape' || (pressed.ctrl && pressed.name === 'c')) {
+        fail(CommandError.cancelled());
+        return;
+      }
+
+      busy = true;
+      try {
+        await handle(pressed, done);
+      } catch (error) {
+        fail(error);
+      } finally {
+        busy = false;
+      }
+      if (!settled) draw(view());
+    };
+
+    emitKeypressEvents(input);
+    input.setRawMode(true);
+    input.resume();
+    input.on('keypress', onKeypress);
+    draw(view());
+  });
+}
+
+/**
+ * Ask for a line of text
+ */
+export function text(
+  message: string,
+  options: TextOptions = {},
+  io = defaultIO(),
+): Promise<string> {
+  let value = '';
+  let error: string | undefined;
+
+  return interact<string>(
+    io,
+    () => [
+      question(message, value || colors.dim(options.placeholder ?? '')),
+      ...(error ? [colors.red(`  ${error}`)] : []),
+    ],
+    (key, done) => {
+      if (key.name === 'return') {
+        const parsed = options.parse ? options.parse(value) : { value };
+        if ('error' in parsed) {
+          error = parsed.error;
+          return;
+        }
+        done(parsed.value, question(message, colors.cyan(value)));
+        return;
+      }
+
+      const next = typedText(value, key);
+      if (next !== undefined) {
+        value = next;
+        error = undefined;
+      }
+    },
+  );
+}
+
+/**
+ * Ask a yes/no question, `enter` picks the default
+ */
+export function confirm(message: string, initial = true, io = defaultIO()): Promise<boolean> {
+  const choices = initial ? 'Y/n' : 'y/N';
+
+  return interact<boolean>(
+    io,
+    () => [question(message, colors.dim(`(${choices})`))],
+    (key, done) => {
+      const answer =
+        key.name === 'return' ? initial : key.name === 'y' ? true : key.name === 'n' ? false : null;
+      if (answer !== null) done(answer, question(message, colors.cyan(answer ? 'yes' : 'no')));
+    },
+  );
+}
+
+/**
+ * Pick one of `choices`, narrowed by fuzzy search as the user types
+ */
+export function select(
+  message: string,
+  choices: PromptChoice[],
+  options: SelectOptions = {},
+  io = defaultIO(),
+): Promise<PromptChoice> {
+  let all = choices;
+  let query = '';
+  let selected = 0;
+  let status: string | undefined;
+
+  const matches = () =>
+    fuzzyFilter(all, query, (choice) =>
+      choice.hint ? `${choice.label} ${choice.hint}` : choice.label,
+    );
+
+  const view = () => {
+    const visible = matches();
+    const start = Math.min(
+      Math.max(selected - VISIBLE_CHOICES + 1, 0),
+      Math.max(visible.length - VISIBLE_CHOICES, 0),
+    );
+    const lines = visible.slice(start, start + VISIBLE_CHOICES).map((choice, index) => {
+      const label = choice.hint
+        ? `${choice.label} ${colors.dim(`· ${choice.hint}`)}`
+        : choice.label;
+      return start + index === selected ? colors.cyan(`› ${label}`) : `  ${label}`;
+    });
+
+    if (visible.length === 0) {
+      lines.push(
+        colors.dim(
+          options.search && query ? '  No match, press enter to search Productive' : '  No match',
+        ),
+      );
+    } else if (visible.length > VISIBLE_CHOICES) {
+      lines.push(colors.dim(`  ${visible.length} matches, type to narrow down`));
+    }
+    if (status) lines.push(colors.dim(`  ${status}`));
+
+    return [question(message, query || colors.dim('type to search')), ...lines];
+  };
+
+  return interact<PromptChoice>(io, view, async (key, done) => {
+    const visible = matches();
+    status = undefined;
+
+    if (key.name === 'up' || key.name === 'down') {
+      const move = key.name === 'up' ? -1 : 1;
+      selected = Math.max(0, Math.min(selected + move, visible.length - 1));
+      return;
+    }
+
+    if (key.name === 'return') {
+      const choice = visible[selected];
+      if (choice) {
+        done(choice, question(message, colors.cyan(choice.label)));
+        return;
+      }
+      if (options.search && query) {
+        const found = await options.search(query);
+        if (found.length === 0) {
+          status = `Nothing found for "${query}"`;
+          return;
+        }
+        all = found;
+        query = '';
+        selected = 0;
+      }
+      return;
+    }
+
+    const next = typedText(query, key);
+    if (next !== undefined) {
+      query = next;
+      selected = 0;
+    }
+  });
+}
@@ -0,0 +1,59 @@
+import { describe, it, expect } from 'vitest';
+
+import { ValidationError } from '../errors.js';
+import { assertReadOnlyQuery, buildQueryViewsSql, QUERY_VIEWS } from './query-views.js';
+
+describe('assertReadOnlyQuery', () => {
+  it.each([
+    'SELECT * FROM tasks',
+    'select count(*) from people;',
+    'WITH open AS (SELECT * FROM tasks WHERE closed = 0) SELECT * FROM open',
+    "SELECT 'a; DELETE FROM mirror' AS text",
+    '-- leading comment\nSELECT 1',
+  ])('accepts %j', (sql) => {
+    expect(() => assertReadOnlyQuery(sql)).not.toThrow();
+  });
+
+  it('strips the trailing semicolon', () => {
+    expect(assertReadOnlyQuery('  SELECT 1;  ')).toBe('SELECT 1');
+  });
+
+  it.each([
+    'DELETE FROM mirror',
+    'ATTACH DATABASE "/tmp/x.db" AS x',
+    'PRAGMA query_only = OFF',
+    '/* SELECT */ UPDATE mirror SET data = 1',
+  ])('rejects %j', (sql) => {
+    expect(() => assertReadOnlyQuery(sql)).toThrow('only SELECT queries are allowed');
+  });
+
+  it('rejects several statements', () => {
+    expect(() => assertReadOnlyQuery('SELECT 1; DROP TABLE mirror')).toThrow(
+      'only one statement can be run at a time',
+    );
+  });
+
+  it('requires a query', () => {
+    expect(() => assertReadOnlyQuery('  -- nothing  ')).toThrow(ValidationError);
+  });
+});
+
+describe('buildQueryViewsSql', () => {
+  it('creates one TEMP view per resource over the mirror', () => {
+    const sql = buildQueryViewsSql();
+
+    expect(sql.match(/CREATE TEMP VIEW/g)).toHaveLength(QUERY_VIEWS.length);
+    expect(sql).toContain(
+      "CREATE TEMP VIEW IF NOT EXISTS tasks AS SELECT id AS id, json_extract(data, '$.attributes.number') AS number",
+    );
+    expect(sql).toContain("FROM main.mirror WHERE type = 'time_entries';");
+  });
+
+  it('documents every column', () => {
+    for (const view of QUERY_VIEWS) {
+      for (const column of view.columns) {
+        expect(column.description, `${view.name}.${column.name}`).not.toBe('');
+      }
+    }
+  });
+});
@@ -0,0 +1,231 @@
+/**
+ * SQL views over the local mirror for `productive query`.
+ *
+ * Mirrored records are stored as JSON; each view flattens one resource into
+ * plain columns (IDs, attributes, relationship IDs) so ad-hoc queries read
+ * like queries on regular tables. The views are created as TEMP objects on a
+ * read-only connection: they shadow the cache tables of the same name and
+ * disappear with the connection.
+ */
+
+import { ValidationError } from '../errors.js';
+
+export interface QueryViewColumn {
+  name: string;
+  /** SQL expression on the `data` column of the mirror */
+  sql: string;
+  description: string;
+}
+
+export interface QueryView {
+  name: string;
+  /** Record type in the mirror */
+  type: string;
+  description: string;
+  columns: QueryViewColumn[];
+}
+
+const attr = (name: string) => `json_extract(data, '$.attributes.${name}')`;
+const rel = (name: string) => `json_extract(data, '$.relationships.${name}.data.id')`;
+
+function column(name: string, sql: string, description: string): QueryViewColumn {
+  return { name, sql, description };
+}
+
+const ID = column('id', 'id', 'Record ID');
+const CREATED_AT = column('created_at', attr('created_at'), 'Creation timestamp (ISO 8601)');
+const UPDATED_AT = column('updated_at', attr('updated_at'), 'Last update timestamp (ISO 8601)');
+
+export const QUERY_VIEWS: QueryView[] = [
+  {
+    name: 'projects',
+    type: 'projects',
+    description: 'Projects',
+    columns: [
+      ID,
+      column('name', attr('name'), 'Project name'),
+      column('project_number', attr('project_number'), 'Project number'),
+      column('company_id', rel('company'), 'Client company (companies.id)'),
+      column('archived', attr('archived'), '1 when archived'),
+      CREATED_AT,
+      UPDATED_AT,
+    ],
+  },
+  {
+    name: 'companies',
+    type: 'companies',
+    description: 'Clients, mirrored along with projects and deals',
+    columns: [
+      ID,
+      column('name', attr('name'), 'Company name'),
+      column('company_code', attr('company_code'), 'Company code'),
+      column('archived_at', attr('archived_at'), 'Archive timestamp, NULL when active'),
+    ],
+  },
+  {
+    name: 'people',
+    type: 'people',
+    description: 'People of the organization',
+    columns: [
+      ID,
+      column('first_name', attr('first_name'), 'First name'),
+      column('last_name', attr('last_name'), 'Last name'),
+      column(
+        'name',
+        `TRIM(COALESCE(${attr('first_name')}, '') || ' ' || COALESCE(${attr('last_name')}, ''))`,
+        'Full name',
+      ),
+      column('email', attr('email'), 'Email address'),
+      column('title', attr('title'), 'Job title'),
+      column('active', attr('active'), '1 when active'),
+    ],
+  },
+  {
+    name: 'services',
+    type: 'services',
+    description: 'Services (budget lines) of deals and projects',
+    columns: [
+      ID,
+      column('name', attr('name'), 'Service name'),
+      column('project_id', rel('project'), 'Project (projects.id)'),
+      column('deal_id', rel('deal'), 'Deal or budget (deals.id)'),
+      column('budgeted_minutes', attr('budgeted_time'), 'Budgeted time in minutes'),
+      column('worked_minutes', attr('worked_time'), 'Worked time in minutes'),
+    ],
+  },
+  {
+    name: 'deals',
+    type: 'deals',
+    description: 'Deals and budgets',
+    columns: [
+      ID,
+      column('name', attr('name'), 'Deal name'),
+      column('number', attr('number'), 'Deal number'),
+      column('budget', attr('budget'), '1 for budgets, 0 for deals'),
+      column('company_id', rel('company'), 'Client company (companies.id)'),
+      column('project_id', rel('project'), 'Project (projects.id)'),
+      column('responsible_id', rel('responsible'), 'Responsible person (people.id)'),
+      column('date', attr('date'), 'Start date'),
+      column('end_date', attr('end_date'), 'End date'),
+      column('won_at', attr('won_at'), 'Won timestamp'),
+      column('lost_at', attr('lost_at'), 'Lost timestamp'),
+    ],
+  },
+  {
+    name: 'tasks',
+    type: 'tasks',
+    description: 'Tasks',
+    columns: [
+      ID,
+      column('number', attr('number'), 'Task number within the project'),
+      column('title', attr('title'), 'Title'),
+      column('project_id', rel('project'), 'Project (projects.id)'),
+      column('task_list_id', rel('task_list'), 'Task list ID'),
+      column('assignee_id', rel('assignee'), 'Assignee (people.id)'),
+      column('creator_id', rel('creator'), 'Creator (people.id)'),
+      column('workflow_status_id', rel('workflow_status'), 'Workflow status ID'),
+      column('parent_task_id', rel('parent_task'), 'Parent task (tasks.id)'),
+      column('closed', attr('closed'), '1 when closed'),
+      column('due_date', attr('due_date'), 'Due date (YYYY-MM-DD)'),
+      column('estimate_minutes', attr('initial_estimate'), 'Initial estimate in minutes'),
+      column('worked_minutes', attr('worked_time'), 'Worked time in minutes'),
+      CREATED_AT,
+      UPDATED_AT,
+    ],
+  },
+  {
+    name: 'time_entries',
+    type: 'time_entries',
+    description: 'Time entries',
+    columns: [
+      ID,
+      column('date', attr('date'), 'Date (YYYY-MM-DD)'),
+      column('minutes', attr('time'), 'Time in minutes'),
+      column('hours', `ROUND(${attr('time')} / 60.0, 2)`, 'Time in hours'),
+      column('billable_minutes', attr('billable_time'), 'Billable time in minutes'),
+      column('note', attr('note'), 'Note'),
+      column('approved', attr('approved'), '1 when approved'),
+      column('person_id', rel('person'), 'Person (people.id)'),
+      column('service_id', rel('service'), 'Service (services.id)'),
+      column(
+        'project_id',
+        `COALESCE(${rel('project')}, (SELECT json_extract(s.data, '$.relationships.project.data.id') FROM main.mirror s WHERE s.type = 'services' AND s.id = ${rel('service')}))`,
+        'Project (projects.id), from the entry or its service',
+      ),
+      column('task_id', rel('task'), 'Task (tasks.id)'),
+    ],
+  },
+  {
+    name: 'bookings',
+    type: 'bookings',
+    description: 'Resource bookings',
+    columns: [
+      ID,
+      column('started_on', attr('started_on'), 'First day (YYYY-MM-DD)'),
+      column('ended_on', attr('ended_on'), 'Last day (YYYY-MM-DD)'),
+      column('minutes_per_day', attr('time'), 'Booked minutes per day'),
+      column('total_minutes', attr('total_time'), 'Total booked minutes'),
+      column('person_id', rel('person'), 'Person (people.id)'),
+      column('service_id', rel('service'), 'Service (services.id)'),
+    ],
+  },
+  {
+    name: 'comments',
+    type: 'comments',
+    description: 'Comments',
+    columns: [
+      ID,
+      column('body', attr('body'), 'Comment body (HTML)'),
+      column('task_id', rel('task'), 'Task (tasks.id)'),
+      column('deal_id', rel('deal'), 'Deal (deals.id)'),
+      column('creator_id', rel('creator'), 'Author (people.id)'),
+      CREATED_AT,
+    ],
+  },
+];
+
+/**
+ * Statements creating the views on a connection
+ */
+export function buildQueryViewsSql(views: QueryView[] = QUERY_VIEWS): string {
+  return views
+    .map((view) => {
+      const columns = view.columns.map((c) => `${c.sql} AS ${c.name}`).join(', ');
+      return `CREATE TEMP VIEW IF NOT EXISTS ${view.name} AS SELECT ${columns} FROM main.mirror WHERE type = '${view.type}';`;
+    })
+    .join('\n');
+}
+
+/**
+ * Blank out comments and string literals so keywords inside them are ignored
+ */
+function stripLiterals(sql: string): string {
+  return sql.replace(/'(?:[^']|'')*'|"(?:[^"]|"")*"|--[^\n]*|\/\*[\s\S]*?\*\//g, (match) =>
+    match.startsWith('-') || match.startsWith('/') ? ' ' : `${match[0]}${match[0]}`,
+  );
+}
+
+/**
+ * Reject anything but a single SELECT statement. This is a first line of
+ * defense for clear error messages: the query also runs on a read-only
+ * connection with `PRAGMA query_only`.
+ *
+ * @returns The statement without its trailing semicolon
+ */
+export function assertReadOnlyQuery(sql: string): string {
+  const statement = sql.trim().replace(/;\s*$/, '');
+  const code = stripLiterals(statement).trim();
+
+  if (!code) {
+    throw ValidationError.required('query');
+  }
+  if (code.includes(';')) {
+    throw ValidationError.invalid('query', sql, 'only one statement can be run at a time');
+  }
+  if (!/^(select|with|values)\b/i.test(code)) {
+    throw ValidationError.invalid('query', sql, 'only SELECT queries are allowed', [
+      'The local cache is read-only: use the other commands to change data',
+    ]);
+  }
+  return statement;
+}
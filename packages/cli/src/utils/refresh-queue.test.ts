@@ -6,6 +6,7 @@ const mockCache = {
   getPendingRefreshJobsAsync: vi.fn(),
   dequeueRefreshAsync: vi.fn(),
   setAsync: vi.fn(),
+  getEntryAsync: vi.fn(),
   getRefreshQueueCountAsync: vi.fn(),
 };
 
@@ -33,6 +34,7 @@ describe('refresh-queue', () => {
     });
     mockCache.getPendingRefreshJobsAsync.mockResolvedValue([]);
     mockCache.getRefreshQueueCountAsync.mockResolvedValue(0);
+    mockCache.getEntryAsync.mockResolvedValue(null);
   });
 
   afterEach(() => {
@@ -119,6 +121,7 @@ describe('refresh-queue', () => {
       // Mock successful fetch
       const mockFetch = vi.fn().mockResolvedValue({
         ok: true,
+        headers: new Headers(),
         json: () => Promise.resolve({ data: [] }),
       });
       vi.stubGlobal('fetch', mockFetch);
@@ -133,6 +136,62 @@ describe('refresh-queue', () => {
       vi.unstubAllGlobals();
     });
 
+    it('should revalidate entries with their validators', async () => {
+      const jobs = [{ cacheKey: 'key1', endpoint: '/projects', params: {} }];
+      mockCache.getPendingRefreshJobsAsync.mockResolvedValue(jobs);
+      mockCache.getEntryAsync.mockResolvedValue({
+        data: { data: [{ id: '1' }] },
+        fresh: true,
+        validators: { etag: '"v1"', lastModified: 'Mon, 05 Jan 2026 10:00:00 GMT' },
+      });
+
+      const mockFetch = vi.fn().mockResolvedValue({ ok: false, status: 304 });
+      vi.stubGlobal('fetch', mockFetch);
+
+      const result = await processRefreshQueue({});
+
+      expect(mockFetch.mock.calls[0][1].headers).toMatchObject({
+        'If-None-Match': '"v1"',
+        'If-Modified-Since': 'Mon, 05 Jan 2026 10:00:00 GMT',
+      });
+      expect(result.succeeded).toBe(1);
+      expect(mockCache.setAsync).toHaveBeenCalledWith(
+        '/projects',
+        {},
+        'test-org',
+        { data: [{ id: '1' }] },
+        { etag: '"v1"', lastModified: 'Mon, 05 Jan 2026 10:00:00 GMT' },
+      );
+
+      vi.unstubAllGlobals();
+    });
+
+    it('should store the validators of refreshed responses', async () => {
+      const jobs = [{ cacheKey: 'key1', endpoint: '/projects', params: {} }];
+      mockCache.getPendingRefreshJobsAsync.mockResolvedValue(jobs);
+
+      const mockFetch = vi.fn().mockResolvedValue({
+        ok: true,
+        status: 200,
+        headers: new Headers({ ETag: '"v2"' }),
+        json: () => Promise.resolve({ data: [] }),
+      });
+      vi.stubGlobal('fetch', mockFetch);
+
+      await processRefreshQueue({});
+
+      expect(mockFetch.mock.calls[0][1].headers).not.toHaveProperty('If-None-Match');
+      expect(mockCache.setAsync).toHaveBeenCalledWith(
+        '/projects',
+        {},
+        'test-org',
+        { data: [] },
+        { etag: '"v2"', lastModified: undefined },
+      );
+
+      vi.unstubAllGlobals();
+    });
+
     it('should handle failed API requests', async () => {
       const jobs = [{ cacheKey: 'key1', endpoint: '/projects', params: {} }];
       mockCache.getPendingRefreshJobsAsync.mockResolvedValue(jobs);
@@ -182,6 +241,7 @@ describe('refresh-queue', () => {
 
       const mockFetch = vi.fn().mockResolvedValue({
         ok: true,
+        headers: new Headers(),
         json: () => Promise.resolve({ data: [] }),
       });
       vi.stubGlobal('fetch', mockFetch);
@@ -206,6 +266,7 @@ describe('refresh-queue', () => {
 
       const mockFetch = vi.fn().mockResolvedValue({
         ok: true,
+        headers: new Headers(),
         json: () => Promise.resolve({ data: [] }),
       });
       vi.stubGlobal('fetch', mockFetch);
@@ -232,6 +293,7 @@ describe('refresh-queue', () => {
 
       const mockFetch = vi.fn().mockResolvedValue({
         ok: true,
+        headers: new Headers(),
         json: () => Promise.resolve({ data: [] }),
       });
       vi.stubGlobal('fetch', mockFetch);
@@ -258,6 +320,7 @@ describe('refresh-queue', () => {
 
       const mockFetch = vi.fn().mockResolvedValue({
         ok: true,
+        headers: new Headers(),
         json: () => Promise.resolve({ data: [] }),
       });
       vi.stubGlobal('fetch', mockFetch);
@@ -50,7 +50,7 @@ export async function processRefreshQueue(
     return result;
   }
 
-  const cache = getCache();
+  const cache = getCache(true, config.profile);
   cache.setOrgId(config.organizationId);
 
   // Get pending jobs
@@ -79,15 +79,33 @@ export async function processRefreshQueue(
         }
       }
 
+      // Revalidate with the stored validators when the server provided any
+      const cached = await cache.getEntryAsync(job.endpoint, job.params, config.organizationId);
+      const headers: Record<string, string> = {
+        'Content-Type': 'application/vnd.api+json',
+        'X-Auth-Token': config.apiToken,
+        'X-Organization-Id': config.organizationId,
+      };
+      if (cached?.validators?.etag) headers['If-None-Match'] = cached.validators.etag;
+      if (cached?.validators?.lastModified) {
+        headers['If-Modified-Since'] = cached.validators.lastModified;
+      }
+
       // Make the API request
-      const response = await globalThis.fetch(url.toString(), {
-        method: 'GET',
-        headers: {
-          'Content-Type': 'application/vnd.api+json',
-          'X-Auth-Token': config.apiToken,
-          'X-Organization-Id': config.organizationId,
-        },
-      });
+      const response = await globalThis.fetch(url.toString(), { method: 'GET', headers });
+
+      // Unchanged: store the cached data again to restart its TTL
+      if (response.status === 304 && cached) {
+        await cache.setAsync(
+          job.endpoint,
+          job.params,
+          config.organizationId,
+          cached.data,
+          cached.validators,
+        );
+        result.succeeded++;
+        continue;
+      }
 
       if (!response.ok) {
         result.failed++;
@@ -99,7 +117,10 @@ export async function processRefreshQueue(
       const data = await response.json();
 
       // Update cache with fresh data
-      await cache.setAsync(job.endpoint, job.params, config.organizationId, data);
+      await cache.setAsync(job.endpoint, job.params, config.organizationId, data, {
+        etag: response.headers.get('ETag') ?? undefined,
+        lastModified: response.headers.get('Last-Modified') ?? undefined,
+      });
 
       result.succeeded++;
     } catch {
@@ -136,7 +157,7 @@ export async function getRefreshQueueCount(
     return 0;
   }
 
-  const cache = getCache();
+  const cache = getCache(true, config.profile);
   cache.setOrgId(config.organizationId);
 
   return cache.getRefreshQueueCountAsync();
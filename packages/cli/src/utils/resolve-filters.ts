@@ -56,6 +56,9 @@ export const COMMON_FILTER_TYPES: Record<string, ResolvableResourceType> = {
 
   // Service filters (note: may need project context)
   service_id: 'service',
+
+  // Task list filters (note: may need project context)
+  task_list_id: 'task_list',
 };
 
 /**
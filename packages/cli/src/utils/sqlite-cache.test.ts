@@ -1,6 +1,11 @@
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 
-import { SqliteCache, getSqliteCache, clearSqliteCacheInstances } from './sqlite-cache.js';
+import {
+  SqliteCache,
+  cacheFileName,
+  getSqliteCache,
+  clearSqliteCacheInstances,
+} from './sqlite-cache.js';
 
 // Mock node:sqlite to avoid Vitest transformation issues
 const mockDbInstance = {
@@ -348,6 +353,8 @@ describe('SqliteCache', () => {
       expect(mockDbInstance.exec).toHaveBeenCalledWith('DELETE FROM projects');
       expect(mockDbInstance.exec).toHaveBeenCalledWith('DELETE FROM people');
       expect(mockDbInstance.exec).toHaveBeenCalledWith('DELETE FROM services');
+      expect(mockDbInstance.exec).toHaveBeenCalledWith('DELETE FROM mirror');
+      expect(mockDbInstance.exec).toHaveBeenCalledWith('DELETE FROM mirror_state');
       expect(mockDbInstance.exec).toHaveBeenCalledWith('DELETE FROM _meta');
       expect(mockDbInstance.exec).toHaveBeenCalledWith('VACUUM');
     });
@@ -373,6 +380,17 @@ describe('SqliteCache', () => {
       expect(cache1).not.toBe(cache3);
     });
 
+    it('should return separate instances per profile', () => {
+      expect(getSqliteCache('org-1', 'sandbox')).not.toBe(getSqliteCache('org-1'));
+      expect(getSqliteCache('org-1', 'default')).toBe(getSqliteCache('org-1'));
+    });
+
+    it('should name database files per profile', () => {
+      expect(cacheFileName('org-1')).toBe('productive-org-1.db');
+      expect(cacheFileName('org-1', 'default')).toBe('productive-org-1.db');
+      expect(cacheFileName('org-1', 'sandbox')).toBe('productive-sandbox-org-1.db');
+    });
+
     it('should clear all cache instances', () => {
       getSqliteCache('org-1');
       getSqliteCache('org-2');
@@ -418,6 +436,8 @@ describe('SqliteCache', () => {
         expect.any(Number), // stale_at
         expect.any(Number), // expires_at
         expect.any(Number), // created_at
+        null, // etag
+        null, // last_modified
       );
     });
 
@@ -458,6 +478,55 @@ describe('SqliteCache', () => {
       expect(result!.isStale).toBe(true);
     });
 
+    it('should get entries past their expiry with their validators', async () => {
+      const now = Date.now();
+      mockPreparedStatement.get.mockReturnValue({
+        data: JSON.stringify({ result: 'test' }),
+        stale_at: now - 2000,
+        expires_at: now - 1000,
+        etag: '"v1"',
+        last_modified: null,
+      });
+
+      const result = await cache.cacheGetEntry('test-key');
+
+      expect(result).toEqual({
+        data: { result: 'test' },
+        isStale: true,
+        isExpired: true,
+        etag: '"v1"',
+        lastModified: null,
+      });
+      expect(mockPreparedStatement.get).toHaveBeenCalledWith('test-key');
+    });
+
+    it('should store response validators', async () => {
+      await cache.cacheSet('test-key', {}, '/endpoint', 3600000, {}, { etag: '"v1"' });
+
+      expect(mockPreparedStatement.run).toHaveBeenCalledWith(
+        'test-key',
+        '{}',
+        '/endpoint',
+        '{}',
+        expect.any(Number),
+        expect.any(Number),
+        expect.any(Number),
+        '"v1"',
+        null,
+      );
+    });
+
+    it('should add validator columns to existing cache tables', async () => {
+      mockPreparedStatement.all.mockReturnValue([{ name: 'key' }, { name: 'data' }]);
+
+      await cache.cacheGet('test-key');
+
+      expect(mockDbInstance.exec).toHaveBeenCalledWith('ALTER TABLE cache ADD COLUMN etag TEXT');
+      expect(mockDbInstance.exec).toHaveBeenCalledWith(
+        'ALTER TABLE cache ADD COLUMN last_modified TEXT',
+      );
+    });
+
     it('should check if key exists', async () => {
       mockPreparedStatement.get.mockReturnValue({ '1': 1 });
 
@@ -505,7 +574,10 @@ describe('SqliteCache', () => {
       const cleaned = await cache.cacheCleanup();
 
       expect(cleaned).toBe(3);
-      expect(mockPreparedStatement.run).toHaveBeenCalledWith(expect.any(Number));
+      expect(mockPreparedStatement.run).toHaveBeenCalledWith(
+        expect.any(Number),
+        expect.any(Number),
+      );
     });
 
     it('should return cache stats', async () => {
@@ -609,4 +681,205 @@ describe('SqliteCache', () => {
       expect(mockPreparedStatement.run).toHaveBeenCalledWith('test-key');
     });
   });
+
+  describe('Mutation Journal', () => {
+    it('should append a mutation', async () => {
+      mockPreparedStatement.run.mockReturnValue({ changes: 1, lastInsertRowid: 7 });
+
+      const entry = await cache.journalAppend('time.create', { serviceId: '1', time: 60 });
+
+      expect(mockPreparedStatement.run).toHaveBeenCalledWith(
+        'time.create',
+        JSON.stringify({ serviceId: '1', time: 60 }),
+        expect.any(Number), // queued_at
+      );
+      expect(entry).toMatchObject({ id: 7, kind: 'time.create', status: 'pending', error: null });
+    });
+
+    it('should list journal entries', async () => {
+      mockPreparedStatement.all.mockReturnValue([
+        {
+          id: 1,
+          kind: 'task.update',
+          payload: JSON.stringify({ id: '42', title: 'New' }),
+          status: 'conflict',
+          error: 'Task was modified',
+          queued_at: 1000,
+        },
+      ]);
+
+      const entries = await cache.journalEntries();
+
+      expect(entries).toEqual([
+        {
+          id: 1,
+          kind: 'task.update',
+          payload: { id: '42', title: 'New' },
+          status: 'conflict',
+          error: 'Task was modified',
+          queuedAt: 1000,
+        },
+      ]);
+    });
+
+    it('should mark an entry after a sync attempt', async () => {
+      await cache.journalMark(3, 'failed', 'Not found');
+
+      expect(mockPreparedStatement.run).toHaveBeenCalledWith('failed', 'Not found', 3);
+    });
+
+    it('should remove an entry', async () => {
+      mockPreparedStatement.run.mockReturnValue({ changes: 1 });
+
+      expect(await cache.journalRemove(3)).toBe(true);
+      expect(mockPreparedStatement.run).toHaveBeenCalledWith(3);
+    });
+
+    it('should count and clear entries', async () => {
+      mockPreparedStatement.get.mockReturnValue({ count: 2 });
+      mockPreparedStatement.run.mockReturnValue({ changes: 2 });
+
+      expect(await cache.journalCount()).toBe(2);
+      expect(await cache.journalClear()).toBe(2);
+    });
+
+    it('should keep the journal when clearing the cache', async () => {
+      await cache.clear();
+
+      expect(mockDbInstance.exec).not.toHaveBeenCalledWith('DELETE FROM mutation_journal');
+    });
+  });
+
+  describe('Undo Journal', () => {
+    const mutation = {
+      method: 'PATCH' as const,
+      path: '/tasks/5',
+      resourceType: 'tasks',
+      resourceId: '5',
+    };
+
+    it('should append a write and drop the oldest ones', async () => {
+      mockPreparedStatement.run.mockReturnValue({ changes: 1, lastInsertRowid: 502 });
+
+      const entry = await cache.undoAppend(mutation);
+
+      expect(mockPreparedStatement.run).toHaveBeenCalledWith(
+        JSON.stringify(mutation),
+        expect.any(Number), // recorded_at
+      );
+      expect(mockPreparedStatement.run).toHaveBeenCalledWith(2);
+      expect(entry).toMatchObject({ id: 502, mutation, undoneAt: null });
+    });
+
+    it('should list pending writes, most recent first', async () => {
+      mockPreparedStatement.all.mockReturnValue([
+        { id: 4, mutation: JSON.stringify(mutation), recorded_at: 1000, undone_at: null },
+      ]);
+
+      const entries = await cache.undoEntries({ limit: 3, pendingOnly: true });
+
+      expect(mockDbInstance.prepare).toHaveBeenCalledWith(
+        expect.stringContaining('WHERE undone_at IS NULL ORDER BY id DESC'),
+      );
+      expect(mockPreparedStatement.all).toHaveBeenCalledWith(3);
+      expect(entries).toEqual([{ id: 4, mutation, recordedAt: 1000, undoneAt: null }]);
+    });
+
+    it('should mark writes as undone', async () => {
+      await cache.undoMarkUndone([4, 3]);
+
+      expect(mockPreparedStatement.run).toHaveBeenCalledWith(expect.any(Number), 4);
+      expect(mockPreparedStatement.run).toHaveBeenCalledWith(expect.any(Number), 3);
+    });
+  });
+
+  describe('Local Mirror', () => {
+    const task = {
+      id: '42',
+      type: 'tasks',
+      attributes: { title: 'Fix login', updated_at: '2024-03-01T10:00:00Z' },
+      relationships: { project: { data: { type: 'projects', id: '7' } } },
+    };
+
+    it('should upsert records with their updated_at', async () => {
+      await cache.mirrorUpsert([task]);
+
+      expect(mockPreparedStatement.run).toHaveBeenCalledWith(
+        'tasks',
+        '42',
+        JSON.stringify(task),
+        '2024-03-01T10:00:00Z',
+        expect.any(Number), // synced_at
+      );
+    });
+
+    it('should delete and prune records', async () => {
+      mockPreparedStatement.run.mockReturnValue({ changes: 1 });
+
+      expect(await cache.mirrorDelete('tasks', ['1', '2'])).toBe(2);
+      expect(await cache.mirrorPrune('tasks', 1000)).toBe(1);
+      expect(mockPreparedStatement.run).toHaveBeenLastCalledWith('tasks', 1000);
+    });
+
+    it('should query records with conditions, order and pagination', async () => {
+      mockPreparedStatement.get.mockReturnValue({ count: 3 });
+      mockPreparedStatement.all.mockReturnValue([{ data: JSON.stringify(task) }]);
+
+      const result = await cache.mirrorQuery('tasks', {
+        where: [{ sql: "json_extract(data, '$.attributes.title') LIKE ?", params: ['%fix%'] }],
+        orderBy: 'CAST(id AS INTEGER) DESC',
+        limit: 1,
+        offset: 2,
+      });
+
+      expect(result).toEqual({ records: [task], total: 3 });
+      expect(mockDbInstance.prepare).toHaveBeenCalledWith(
+        expect.stringContaining(
+          "WHERE type = ? AND (json_extract(data, '$.attributes.title') LIKE ?) ORDER BY CAST(id AS INTEGER) DESC LIMIT ? OFFSET ?",
+        ),
+      );
+      expect(mockPreparedStatement.all).toHaveBeenCalledWith('tasks', '%fix%', 1, 2);
+    });
+
+    it('should not query the database for an empty ID list', async () => {
+      expect(await cache.mirrorGetMany('people', [])).toEqual([]);
+      expect(mockPreparedStatement.all).not.toHaveBeenCalled();
+    });
+
+    it('should store and read the sync state', async () => {
+      await cache.setMirrorState('tasks', { cursor: '2024-03-01T10:00:00Z', syncedAt: 5 });
+      expect(mockPreparedStatement.run).toHaveBeenCalledWith('tasks', '2024-03-01T10:00:00Z', 5);
+
+      mockPreparedStatement.get.mockReturnValue(undefined);
+      expect(await cache.getMirrorState('deals')).toBeNull();
+
+      mockPreparedStatement.get.mockReturnValue({ cursor: null, synced_at: 9 });
+      expect(await cache.getMirrorState('deals')).toEqual({ cursor: null, syncedAt: 9 });
+    });
+
+    it('should run queries on a read-only connection', async () => {
+      const { DatabaseSync } = await import('node:sqlite');
+      mockPreparedStatement.all.mockReturnValue([{ count: 3 }]);
+
+      const rows = await cache.readOnlyQuery(
+        'SELECT COUNT(*) AS count FROM tasks',
+        'CREATE TEMP VIEW tasks AS SELECT 1',
+      );
+
+      expect(rows).toEqual([{ count: 3 }]);
+      expect(DatabaseSync).toHaveBeenLastCalledWith(expect.any(String), { readOnly: true });
+      expect(mockDbInstance.exec).toHaveBeenCalledWith('CREATE TEMP VIEW tasks AS SELECT 1');
+      expect(mockDbInstance.exec).toHaveBeenCalledWith('PRAGMA query_only = ON');
+      expect(mockDbInstance.close).toHaveBeenCalled();
+    });
+
+    it('should count records per type', async () => {
+      mockPreparedStatement.all.mockReturnValue([
+        { type: 'tasks', count: 4 },
+        { type: 'people', count: 2 },
+      ]);
+
+      expect(await cache.mirrorCounts()).toEqual({ tasks: 4, people: 2 });
+    });
+  });
 });
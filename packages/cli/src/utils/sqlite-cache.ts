@@ -5,6 +5,7 @@
  * Uses Node.js native sqlite module (Node 22+)
  */
 
+import { DEFAULT_PROFILE, type RecordedMutation } from '@studiometa/productive-api';
 import { existsSync, mkdirSync } from 'node:fs';
 import { homedir } from 'node:os';
 import { join } from 'node:path';
@@ -56,6 +57,60 @@ interface CachedPerson {
   synced_at: number;
 }
 
+/**
+ * Status of a journaled mutation. Entries are removed once applied, so only
+ * pending, conflicting or failed ones are ever stored.
+ */
+export type JournalStatus = 'pending' | 'conflict' | 'failed';
+
+export interface JournalEntry {
+  id: number;
+  kind: string;
+  payload: Record<string, unknown>;
+  status: JournalStatus;
+  /** Conflict reason or error message from the last sync attempt */
+  error: string | null;
+  queuedAt: number;
+}
+
+/**
+ * A write kept for "productive undo"
+ */
+export interface UndoJournalEntry {
+  id: number;
+  mutation: RecordedMutation;
+  recordedAt: number;
+  /** When the write was reverted, `null` while it is still in effect */
+  undoneAt: number | null;
+}
+
+/** Writes kept in the undo journal; older ones are dropped */
+const UNDO_JOURNAL_SIZE = 500;
+
+/**
+ * A JSON:API record as stored in the local mirror
+ */
+export interface MirrorRecord {
+  id: string;
+  type: string;
+  attributes: Record<string, unknown>;
+  relationships?: Record<string, { data?: { type: string; id: string } | null }>;
+}
+
+export interface MirrorState {
+  /** Latest `updated_at` (or activity timestamp) pulled from the API */
+  cursor: string | null;
+  syncedAt: number;
+}
+
+/**
+ * SQL condition on the `data` column of mirrored records
+ */
+export interface MirrorCondition {
+  sql: string;
+  params: Array<string | number>;
+}
+
 interface CachedService {
   id: string;
   name: string;
@@ -80,7 +135,9 @@ const SCHEMA = `
     params JSON NOT NULL DEFAULT '{}',
     expires_at INTEGER NOT NULL,
     stale_at INTEGER NOT NULL,
-    created_at INTEGER NOT NULL
+    created_at INTEGER NOT NULL,
+    etag TEXT,
+    last_modified TEXT
   );
   CREATE INDEX IF NOT EXISTS idx_cache_expires ON cache(expires_at);
   CREATE INDEX IF NOT EXISTS idx_cache_endpoint ON cache(endpoint);
@@ -95,6 +152,24 @@ const SCHEMA = `
   );
   CREATE INDEX IF NOT EXISTS idx_refresh_queue_queued ON refresh_queue(queued_at);
 
+  -- Offline mutation journal, replayed by "productive sync"
+  CREATE TABLE IF NOT EXISTS mutation_journal (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    kind TEXT NOT NULL,
+    payload JSON NOT NULL,
+    status TEXT NOT NULL DEFAULT 'pending',
+    error TEXT,
+    queued_at INTEGER NOT NULL
+  );
+
+  -- Writes accepted by the API, reverted by "productive undo"
+  CREATE TABLE IF NOT EXISTS undo_journal (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    mutation JSON NOT NULL,
+    recorded_at INTEGER NOT NULL,
+    undone_at INTEGER
+  );
+
   -- Projects
   CREATE TABLE IF NOT EXISTS projects (
     id TEXT PRIMARY KEY,
@@ -133,6 +208,24 @@ const SCHEMA = `
   );
   CREATE INDEX IF NOT EXISTS idx_services_name ON services(name COLLATE NOCASE);
   CREATE INDEX IF NOT EXISTS idx_services_project ON services(project_id);
+
+  -- Local mirror of API records, filled by "productive sync pull"
+  CREATE TABLE IF NOT EXISTS mirror (
+    type TEXT NOT NULL,
+    id TEXT NOT NULL,
+    data JSON NOT NULL,
+    updated_at TEXT,
+    synced_at INTEGER NOT NULL,
+    PRIMARY KEY (type, id)
+  );
+  CREATE INDEX IF NOT EXISTS idx_mirror_synced ON mirror(type, synced_at);
+
+  -- Incremental sync position per mirrored resource
+  CREATE TABLE IF NOT EXISTS mirror_state (
+    resource TEXT PRIMARY KEY,
+    cursor TEXT,
+    synced_at INTEGER NOT NULL
+  );
 `;
 
 // Default TTL for SQLite cache (1 hour)
@@ -144,7 +237,7 @@ export class SqliteCache {
   private orgId: string;
   private initialized = false;
 
-  constructor(orgId: string) {
+  constructor(orgId: string, profile: string = DEFAULT_PROFILE) {
     const cacheBase = process.env.XDG_CACHE_HOME || join(homedir(), '.cache');
     const cacheDir = join(cacheBase, 'productive-cli');
 
@@ -152,8 +245,8 @@ export class SqliteCache {
       mkdirSync(cacheDir, { recursive: true });
     }
 
-    // Separate database per organization
-    this.dbPath = join(cacheDir, `productive-${orgId}.db`);
+    // Separate database per organization and credential profile
+    this.dbPath = join(cacheDir, cacheFileName(orgId, profile));
     this.orgId = orgId;
   }
 
@@ -163,9 +256,21 @@ export class SqliteCache {
     const DB = await loadSqlite();
     this.db = new DB(this.dbPath);
     this.db.exec(SCHEMA);
+    this.migrateCacheTable();
     this.initialized = true;
   }
 
+  /**
+   * Add the validator columns to cache tables created before they existed
+   */
+  private migrateCacheTable(): void {
+    const columns = this.db!.prepare('PRAGMA table_info(cache)').all() as Array<{ name: string }>;
+    if (!columns.some((column) => column.name === 'etag')) {
+      this.db!.exec('ALTER TABLE cache ADD COLUMN etag TEXT');
+      this.db!.exec('ALTER TABLE cache ADD COLUMN last_modified TEXT');
+    }
+  }
+
   private isStale(syncedAt: number, ttl = DEFAULT_TTL): boolean {
     return Date.now() - syncedAt > ttl;
   }
@@ -448,7 +553,50 @@ export class SqliteCache {
   }
 
   /**
-   * Store data with TTL and staleness threshold
+   * Get a cached entry even past its expiry, with the validators it was
+   * stored with, so that it can be revalidated instead of downloaded again
+   */
+  async cacheGetEntry<T>(key: string): Promise<{
+    data: T;
+    isStale: boolean;
+    isExpired: boolean;
+    etag: string | null;
+    lastModified: string | null;
+  } | null> {
+    await this.ensureInitialized();
+
+    const now = Date.now();
+    const stmt = this.db!.prepare(
+      'SELECT data, stale_at, expires_at, etag, last_modified FROM cache WHERE key = ?',
+    );
+    const row = stmt.get(key) as
+      | {
+          data: string;
+          stale_at: number;
+          expires_at: number;
+          etag: string | null;
+          last_modified: string | null;
+        }
+      | undefined;
+
+    if (!row) return null;
+
+    try {
+      return {
+        data: JSON.parse(row.data) as T,
+        isStale: now >= row.stale_at,
+        isExpired: now >= row.expires_at,
+        etag: row.etag,
+        lastModified: row.last_modified,
+      };
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Store data with TTL and staleness threshold, and the response validators
+   * (`ETag`, `Last-Modified`) when the server sent any
    */
   async cacheSet<T>(
     key: string,
@@ -456,6 +604,7 @@ export class SqliteCache {
     endpoint: string,
     ttlMs: number,
     params: Record<string, unknown> = {},
+    validators: { etag?: string; lastModified?: string } = {},
   ): Promise<void> {
     await this.ensureInitialized();
 
@@ -464,11 +613,21 @@ export class SqliteCache {
     const expiresAt = now + ttlMs;
 
     const stmt = this.db!.prepare(`
-      INSERT OR REPLACE INTO cache (key, data, endpoint, params, stale_at, expires_at, created_at)
-      VALUES (?, ?, ?, ?, ?, ?, ?)
+      INSERT OR REPLACE INTO cache (key, data, endpoint, params, stale_at, expires_at, created_at, etag, last_modified)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
     `);
 
-    stmt.run(key, JSON.stringify(data), endpoint, JSON.stringify(params), staleAt, expiresAt, now);
+    stmt.run(
+      key,
+      JSON.stringify(data),
+      endpoint,
+      JSON.stringify(params),
+      staleAt,
+      expiresAt,
+      now,
+      validators.etag ?? null,
+      validators.lastModified ?? null,
+    );
 
     // Remove from refresh queue if it was pending
     await this.dequeueRefresh(key);
@@ -512,13 +671,24 @@ export class SqliteCache {
   }
 
   /**
-   * Remove expired entries
+   * How long expired entries with validators are kept for revalidation
+   */
+  private static readonly REVALIDATION_WINDOW = 7 * 24 * 3600 * 1000;
+
+  /**
+   * Remove expired entries, keeping those that can still be revalidated
+   * for a while
    */
   async cacheCleanup(): Promise<number> {
     await this.ensureInitialized();
 
-    const stmt = this.db!.prepare('DELETE FROM cache WHERE expires_at < ?');
-    const result = stmt.run(Date.now());
+    const now = Date.now();
+    const stmt = this.db!.prepare(`
+      DELETE FROM cache
+      WHERE expires_at < ?
+        AND ((etag IS NULL AND last_modified IS NULL) OR expires_at < ?)
+    `);
+    const result = stmt.run(now, now - SqliteCache.REVALIDATION_WINDOW);
     return Number(result.changes);
   }
 
@@ -638,6 +808,309 @@ export class SqliteCache {
     return Number(result.changes);
   }
 
+  // ============ Mutation Journal ============
+
+  /**
+   * Record a mutation for later replay
+   */
+  async journalAppend(kind: string, payload: Record<string, unknown>): Promise<JournalEntry> {
+    await this.ensureInitialized();
+
+    const queuedAt = Date.now();
+    const result = this.db!.prepare(`
+      INSERT INTO mutation_journal (kind, payload, status, queued_at)
+      VALUES (?, ?, 'pending', ?)
+    `).run(kind, JSON.stringify(payload), queuedAt);
+
+    return {
+      id: Number(result.lastInsertRowid),
+      kind,
+      payload,
+      status: 'pending',
+      error: null,
+      queuedAt,
+    };
+  }
+
+  /**
+   * Get all journaled mutations in the order they were recorded
+   */
+  async journalEntries(): Promise<JournalEntry[]> {
+    await this.ensureInitialized();
+
+    const rows = this.db!.prepare(
+      'SELECT id, kind, payload, status, error, queued_at FROM mutation_journal ORDER BY id ASC',
+    ).all() as Array<{
+      id: number;
+      kind: string;
+      payload: string;
+      status: JournalStatus;
+      error: string | null;
+      queued_at: number;
+    }>;
+
+    return rows.map((row) => ({
+      id: Number(row.id),
+      kind: row.kind,
+      payload: JSON.parse(row.payload) as Record<string, unknown>,
+      status: row.status,
+      error: row.error,
+      queuedAt: row.queued_at,
+    }));
+  }
+
+  /**
+   * Update the status of a journaled mutation after a sync attempt
+   */
+  async journalMark(id: number, status: JournalStatus, error: string | null = null): Promise<void> {
+    await this.ensureInitialized();
+
+    this.db!.prepare('UPDATE mutation_journal SET status = ?, error = ? WHERE id = ?').run(
+      status,
+      error,
+      id,
+    );
+  }
+
+  /**
+   * Remove a mutation from the journal (applied or discarded)
+   */
+  async journalRemove(id: number): Promise<boolean> {
+    await this.ensureInitialized();
+
+    const result = this.db!.prepare('DELETE FROM mutation_journal WHERE id = ?').run(id);
+    return Number(result.changes) > 0;
+  }
+
+  /**
+   * Get count of journaled mutations
+   */
+  async journalCount(): Promise<number> {
+    await this.ensureInitialized();
+
+    const result = this.db!.prepare('SELECT COUNT(*) as count FROM mutation_journal').get() as {
+      count: number;
+    };
+
+    return result.count;
+  }
+
+  /**
+   * Discard every journaled mutation
+   */
+  async journalClear(): Promise<number> {
+    await this.ensureInitialized();
+
+    const result = this.db!.prepare('DELETE FROM mutation_journal').run();
+    return Number(result.changes);
+  }
+
+  // ============ Undo Journal ============
+
+  /**
+   * Record a write the API accepted, dropping the oldest ones beyond the
+   * journal size
+   */
+  async undoAppend(mutation: RecordedMutation): Promise<UndoJournalEntry> {
+    await this.ensureInitialized();
+
+    const recordedAt = Date.now();
+    const result = this.db!.prepare(
+      'INSERT INTO undo_journal (mutation, recorded_at) VALUES (?, ?)',
+    ).run(JSON.stringify(mutation), recordedAt);
+    const id = Number(result.lastInsertRowid);
+    this.db!.prepare('DELETE FROM undo_journal WHERE id <= ?').run(id - UNDO_JOURNAL_SIZE);
+
+    return { id, mutation, recordedAt, undoneAt: null };
+  }
+
+  /**
+   * Get recorded writes, most recent first
+   */
+  async undoEntries(
+    options: { limit?: number; pendingOnly?: boolean } = {},
+  ): Promise<UndoJournalEntry[]> {
+    await this.ensureInitialized();
+
+    const where = options.pendingOnly ? 'WHERE undone_at IS NULL' : '';
+    const rows = this.db!.prepare(
+      `SELECT id, mutation, recorded_at, undone_at FROM undo_journal ${where} ORDER BY id DESC LIMIT ?`,
+    ).all(options.limit ?? UNDO_JOURNAL_SIZE) as Array<{
+      id: number;
+      mutation: string;
+      recorded_at: number;
+      undone_at: number | null;
+    }>;
+
+    return rows.map((row) => ({
+      id: Number(row.id),
+      mutation: JSON.parse(row.mutation) as RecordedMutation,
+      recordedAt: row.recorded_at,
+      undoneAt: row.undone_at,
+    }));
+  }
+
+  /**
+   * Flag writes as reverted, so that the next undo starts before them
+   */
+  async undoMarkUndone(ids: number[]): Promise<void> {
+    await this.ensureInitialized();
+
+    const stmt = this.db!.prepare('UPDATE undo_journal SET undone_at = ? WHERE id = ?');
+    const now = Date.now();
+    for (const id of ids) {
+      stmt.run(now, id);
+    }
+  }
+
+  // ============ Local Mirror ============
+
+  /**
+   * Insert or replace mirrored records
+   */
+  async mirrorUpsert(records: MirrorRecord[]): Promise<void> {
+    await this.ensureInitialized();
+
+    const stmt = this.db!.prepare(`
+      INSERT OR REPLACE INTO mirror (type, id, data, updated_at, synced_at)
+      VALUES (?, ?, ?, ?, ?)
+    `);
+
+    const now = Date.now();
+    for (const record of records) {
+      const updatedAt = record.attributes?.updated_at;
+      stmt.run(
+        record.type,
+        record.id,
+        JSON.stringify(record),
+        typeof updatedAt === 'string' ? updatedAt : null,
+        now,
+      );
+    }
+  }
+
+  /**
+   * Remove mirrored records by ID
+   */
+  async mirrorDelete(type: string, ids: string[]): Promise<number> {
+    await this.ensureInitialized();
+
+    const stmt = this.db!.prepare('DELETE FROM mirror WHERE type = ? AND id = ?');
+    let deleted = 0;
+    for (const id of ids) {
+      deleted += Number(stmt.run(type, id).changes);
+    }
+    return deleted;
+  }
+
+  /**
+   * Remove the records of a type that were not written since `syncedBefore`,
+   * i.e. that a full pull started at that time did not return
+   */
+  async mirrorPrune(type: string, syncedBefore: number): Promise<number> {
+    await this.ensureInitialized();
+
+    const result = this.db!.prepare('DELETE FROM mirror WHERE type = ? AND synced_at < ?').run(
+      type,
+      syncedBefore,
+    );
+    return Number(result.changes);
+  }
+
+  /**
+   * Get mirrored records of a type by ID
+   */
+  async mirrorGetMany(type: string, ids: string[]): Promise<MirrorRecord[]> {
+    if (ids.length === 0) return [];
+    await this.ensureInitialized();
+
+    const placeholders = ids.map(() => '?').join(', ');
+    const rows = this.db!.prepare(
+      `SELECT data FROM mirror WHERE type = ? AND id IN (${placeholders})`,
+    ).all(type, ...ids) as Array<{ data: string }>;
+
+    return rows.map((row) => JSON.parse(row.data) as MirrorRecord);
+  }
+
+  /**
+   * Query mirrored records of a type. Conditions are ANDed; `orderBy` is an
+   * SQL expression built by the caller from known columns.
+   */
+  async mirrorQuery(
+    type: string,
+    options: { where?: MirrorCondition[]; orderBy?: string; limit?: number; offset?: number } = {},
+  ): Promise<{ records: MirrorRecord[]; total: number }> {
+    await this.ensureInitialized();
+
+    const where = options.where ?? [];
+    const clause = ['type = ?', ...where.map((condition) => `(${condition.sql})`)].join(' AND ');
+    const params = [type, ...where.flatMap((condition) => condition.params)];
+
+    const { count } = this.db!.prepare(`SELECT COUNT(*) as count FROM mirror WHERE ${clause}`).get(
+      ...params,
+    ) as { count: number };
+
+    const rows = this.db!.prepare(
+      `SELECT data FROM mirror WHERE ${clause} ORDER BY ${options.orderBy ?? 'rowid'} LIMIT ? OFFSET ?`,
+    ).all(...params, options.limit ?? -1, options.offset ?? 0) as Array<{ data: string }>;
+
+    return {
+      records: rows.map((row) => JSON.parse(row.data) as MirrorRecord),
+      total: count,
+    };
+  }
+
+  /**
+   * Count mirrored records per type
+   */
+  async mirrorCounts(): Promise<Record<string, number>> {
+    await this.ensureInitialized();
+
+    const rows = this.db!.prepare(
+      'SELECT type, COUNT(*) as count FROM mirror GROUP BY type ORDER BY type',
+    ).all() as Array<{ type: string; count: number }>;
+
+    return Object.fromEntries(rows.map((row) => [row.type, row.count]));
+  }
+
+  async getMirrorState(resource: string): Promise<MirrorState | null> {
+    await this.ensureInitialized();
+
+    const row = this.db!.prepare(
+      'SELECT cursor, synced_at FROM mirror_state WHERE resource = ?',
+    ).get(resource) as { cursor: string | null; synced_at: number } | undefined;
+
+    return row ? { cursor: row.cursor, syncedAt: row.synced_at } : null;
+  }
+
+  async setMirrorState(resource: string, state: MirrorState): Promise<void> {
+    await this.ensureInitialized();
+
+    this.db!.prepare(
+      'INSERT OR REPLACE INTO mirror_state (resource, cursor, synced_at) VALUES (?, ?, ?)',
+    ).run(resource, state.cursor, state.syncedAt);
+  }
+
+  /**
+   * Run a query on a separate read-only connection. `setup` runs first and
+   * can only create TEMP objects (views); the connection then refuses any
+   * write, TEMP objects included.
+   */
+  async readOnlyQuery(sql: string, setup = ''): Promise<Record<string, unknown>[]> {
+    // Creates the database file and its schema on first use
+    await this.ensureInitialized();
+
+    const DB = await loadSqlite();
+    const db = new DB(this.dbPath, { readOnly: true });
+    try {
+      if (setup) db.exec(setup);
+      db.exec('PRAGMA query_only = ON');
+      return db.prepare(sql).all() as Record<string, unknown>[];
+    } finally {
+      db.close();
+    }
+  }
+
   // ============ Utilities ============
 
   async getStats(): Promise<{
@@ -676,6 +1149,10 @@ export class SqliteCache {
     };
   }
 
+  /**
+   * Clear cached data. The mutation and undo journals are kept: they hold
+   * writes, not cached server state.
+   */
   async clear(): Promise<void> {
     await this.ensureInitialized();
 
@@ -684,6 +1161,8 @@ export class SqliteCache {
     this.db!.exec('DELETE FROM projects');
     this.db!.exec('DELETE FROM people');
     this.db!.exec('DELETE FROM services');
+    this.db!.exec('DELETE FROM mirror');
+    this.db!.exec('DELETE FROM mirror_state');
     this.db!.exec('DELETE FROM _meta');
     this.db!.exec('VACUUM');
   }
@@ -697,14 +1176,25 @@ export class SqliteCache {
   }
 }
 
+/**
+ * Database file name of an organization and profile. The default profile
+ * keeps the name the cache had before profiles existed.
+ */
+export function cacheFileName(orgId: string, profile: string = DEFAULT_PROFILE): string {
+  return profile === DEFAULT_PROFILE
+    ? `productive-${orgId}.db`
+    : `productive-${profile}-${orgId}.db`;
+}
+
 // Factory function
 const instances: Map<string, SqliteCache> = new Map();
 
-export function getSqliteCache(orgId: string): SqliteCache {
-  if (!instances.has(orgId)) {
-    instances.set(orgId, new SqliteCache(orgId));
+export function getSqliteCache(orgId: string, profile: string = DEFAULT_PROFILE): SqliteCache {
+  const key = `${profile}:${orgId}`;
+  if (!instances.has(key)) {
+    instances.set(key, new SqliteCache(orgId, profile));
   }
-  return instances.get(orgId)!;
+  return instances.get(key)!;
 }
 
 export function clearSqliteCacheInstances(): void {
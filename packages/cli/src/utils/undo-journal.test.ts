@@ -0,0 +1,79 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+import type { ProductiveApi } from '../api.js';
+
+import { createTestContext } from '../context.js';
+import { createUndoJournal, undoRecent } from './undo-journal.js';
+
+const store = vi.hoisted(() => ({
+  undoAppend: vi.fn(),
+  undoEntries: vi.fn(),
+  undoMarkUndone: vi.fn(),
+}));
+
+vi.mock('./sqlite-cache.js', () => ({ getSqliteCache: vi.fn(() => store) }));
+
+const created = {
+  id: 2,
+  recordedAt: 1000,
+  undoneAt: null,
+  mutation: {
+    method: 'POST' as const,
+    path: '/comments',
+    resourceType: 'comments',
+    resourceId: '9',
+  },
+};
+
+const stopped = {
+  id: 1,
+  recordedAt: 900,
+  undoneAt: null,
+  mutation: { method: 'PATCH' as const, path: '/timers/3/stop', resourceType: 'timers' },
+};
+
+describe('undo journal', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('records writes in the organization database', async () => {
+    const journal = createUndoJournal({ organizationId: 'org-1' });
+
+    await journal!.record(created.mutation);
+
+    expect(store.undoAppend).toHaveBeenCalledWith(created.mutation);
+  });
+
+  it('is disabled without an organization', () => {
+    expect(createUndoJournal({})).toBeUndefined();
+  });
+
+  it('reverts the most recent writes and marks them as undone', async () => {
+    store.undoEntries.mockResolvedValue([created, stopped]);
+    const requestRaw = vi.fn().mockResolvedValue(null);
+    const ctx = createTestContext({ api: { requestRaw } as unknown as ProductiveApi });
+
+    const result = await undoRecent(ctx, 2);
+
+    expect(store.undoEntries).toHaveBeenCalledWith({ limit: 2, pendingOnly: true });
+    expect(requestRaw).toHaveBeenCalledWith(
+      '/comments/9',
+      expect.objectContaining({ method: 'DELETE' }),
+    );
+    expect(store.undoMarkUndone).toHaveBeenCalledWith([2]);
+    expect(result).toMatchObject({ undone: 1, failed: 1 });
+  });
+
+  it('changes nothing on a dry run', async () => {
+    store.undoEntries.mockResolvedValue([created]);
+    const requestRaw = vi.fn();
+    const ctx = createTestContext({ api: { requestRaw } as unknown as ProductiveApi });
+
+    const result = await undoRecent(ctx, 1, true);
+
+    expect(requestRaw).not.toHaveBeenCalled();
+    expect(store.undoMarkUndone).not.toHaveBeenCalled();
+    expect(result.items[0].status).toBe('pending');
+  });
+});
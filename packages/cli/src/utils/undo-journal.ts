@@ -0,0 +1,71 @@
+/**
+ * Undo journal.
+ *
+ * Every write the API accepts is recorded in the organization's SQLite
+ * database — with the record as it was before, for updates and deletes — so
+ * that `productive undo` can revert the most recent ones. Unlike the offline
+ * mutation journal, entries are kept after they are reverted, to show them
+ * in `productive history`.
+ */
+
+import type { MutationJournal } from '@studiometa/productive-api';
+
+import { fromCommandContext, undoMutations, type UndoResult } from '@studiometa/productive-core';
+
+import type { CommandContext } from '../context.js';
+import type { ProductiveConfig } from '../types.js';
+
+import { ConfigError } from '../errors.js';
+import { getSqliteCache, type SqliteCache, type UndoJournalEntry } from './sqlite-cache.js';
+
+function getStore(ctx: CommandContext): SqliteCache {
+  if (!ctx.config.organizationId) {
+    throw ConfigError.missingOrganizationId();
+  }
+  return getSqliteCache(ctx.config.organizationId, ctx.config.profile);
+}
+
+/**
+ * Journal recording the writes of a client, or `undefined` without an
+ * organization to keep them for
+ */
+export function createUndoJournal(config: ProductiveConfig): MutationJournal | undefined {
+  const { organizationId, profile } = config;
+  if (!organizationId) return undefined;
+
+  return {
+    async record(mutation) {
+      await getSqliteCache(organizationId, profile).undoAppend(mutation);
+    },
+  };
+}
+
+/**
+ * Recorded writes, most recent first
+ */
+export async function getUndoHistory(
+  ctx: CommandContext,
+  limit?: number,
+): Promise<UndoJournalEntry[]> {
+  return getStore(ctx).undoEntries({ limit });
+}
+
+/**
+ * Revert the `count` most recent writes that are still in effect. A dry run
+ * only lists them.
+ */
+export async function undoRecent(
+  ctx: CommandContext,
+  count: number,
+  dryRun = false,
+): Promise<UndoResult> {
+  const store = getStore(ctx);
+  const entries = await store.undoEntries({ limit: count, pendingOnly: true });
+  const result = await undoMutations({ entries, dryRun }, fromCommandContext(ctx));
+
+  const undone = result.data.items.filter((item) => item.status === 'undone');
+  if (undone.length > 0) {
+    await store.undoMarkUndone(undone.map((item) => item.id));
+  }
+  return result.data;
+}
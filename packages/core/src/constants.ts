@@ -18,6 +18,9 @@ export const RESOURCES = [
   'projects',
   'time',
   'tasks',
+  'task_lists',
+  'boards',
+  'workflow_statuses',
   'services',
   'people',
   'companies',
@@ -26,8 +29,15 @@ export const RESOURCES = [
   'timers',
   'deals',
   'bookings',
+  'absences',
+  'holidays',
+  'holiday_calendars',
+  'capacity',
+  'availability',
   'pages',
   'discussions',
+  'invoices',
+  'expenses',
   'reports',
   'activities',
   'batch',
@@ -35,6 +45,7 @@ export const RESOURCES = [
   'summaries',
   'workflows',
   'custom_fields',
+  'history',
 ] as const;
 
 export type Resource = (typeof RESOURCES)[number];
@@ -52,6 +63,12 @@ export const ACTIONS = [
   'delete',
   'resolve',
   'reopen',
+  'finalize',
+  'line_items',
+  'approve',
+  'reject',
+  'archive',
+  'restore',
   'me',
   'start',
   'stop',
@@ -62,9 +79,12 @@ export const ACTIONS = [
   'my_day',
   'project_health',
   'team_pulse',
+  'forecast',
   'complete_task',
   'log_day',
   'weekly_standup',
+  'bulk_update',
+  'undo',
 ] as const;
 
 export type Action = (typeof ACTIONS)[number];
@@ -51,4 +51,13 @@ describe('fromCommandContext', () => {
 
     expect(ctx.resolver).toBeDefined();
   });
+
+  it('derives dates in the configured timezone', () => {
+    const ctx = fromCommandContext(
+      { api: mockApi, config: { timezone: 'America/New_York' } },
+      { clock: () => new Date('2024-01-16T03:00:00Z') },
+    );
+
+    expect(ctx.dates?.today()).toBe('2024-01-15');
+  });
 });
@@ -9,6 +9,7 @@ import type { ProductiveApi } from '@studiometa/productive-api';
 
 import type { ExecutorContext } from './types.js';
 
+import { createDateService, type Clock } from '../dates/date-service.js';
 import { createResourceResolver, type ResolverCache } from '../resolvers/index.js';
 
 /**
@@ -16,7 +17,7 @@ import { createResourceResolver, type ResolverCache } from '../resolvers/index.j
  */
 export interface CommandContextLike {
   api: ProductiveApi;
-  config: { userId?: string; organizationId?: string };
+  config: { userId?: string; organizationId?: string; timezone?: string };
 }
 
 /**
@@ -25,6 +26,8 @@ export interface CommandContextLike {
 export interface FromCommandContextOptions {
   /** Optional cache for the resource resolver */
   cache?: ResolverCache;
+  /** Clock for the date service (default: the system clock) */
+  clock?: Clock;
 }
 
 /**
@@ -62,5 +65,6 @@ export function fromCommandContext(
       userId: ctx.config.userId,
       organizationId: orgId,
     },
+    dates: createDateService({ timezone: ctx.config.timezone, clock: options.clock }),
   };
 }
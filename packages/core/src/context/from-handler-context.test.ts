@@ -40,4 +40,14 @@ describe('fromHandlerContext', () => {
     expect(ctx.config.userId).toBe('user-123');
     expect(ctx.config.organizationId).toBe('org-1');
   });
+
+  it('derives dates in the given timezone', () => {
+    const ctx = fromHandlerContext(
+      { api: mockApi },
+      { timezone: 'Europe/Paris', clock: () => new Date('2024-01-15T23:30:00Z') },
+    );
+
+    expect(ctx.dates?.timezone).toBe('Europe/Paris');
+    expect(ctx.dates?.today()).toBe('2024-01-16');
+  });
 });
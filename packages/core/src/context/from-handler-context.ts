@@ -8,6 +8,7 @@ import type { ProductiveApi } from '@studiometa/productive-api';
 
 import type { ExecutorContext } from './types.js';
 
+import { createDateService, type Clock } from '../dates/date-service.js';
 import { createResourceResolver, type ResolverCache } from '../resolvers/index.js';
 
 /**
@@ -27,6 +28,10 @@ export interface FromHandlerContextOptions {
   orgId?: string;
   /** User ID for executors that need it (e.g., my_day summary) */
   userId?: string;
+  /** IANA timezone "today" is derived in (default: the system timezone) */
+  timezone?: string;
+  /** Clock for the date service (default: the system clock) */
+  clock?: Clock;
 }
 
 /**
@@ -63,5 +68,6 @@ export function fromHandlerContext(
       organizationId: options.orgId ?? '',
       userId: options.userId,
     },
+    dates: createDateService({ timezone: options.timezone, clock: options.clock }),
   };
 }
@@ -16,8 +16,11 @@
 
 import type { ProductiveApi } from '@studiometa/productive-api';
 
+import type { DateService } from '../dates/date-service.js';
 import type { ExecutorConfig, ExecutorContext, ResourceResolver } from './types.js';
 
+import { createDateService } from '../dates/date-service.js';
+
 /**
  * No-op resource resolver that returns values unchanged.
  * Useful for tests that don't need resolution.
@@ -70,17 +73,20 @@ function createMockApi(overrides: Partial<ProductiveApi> = {}): ProductiveApi {
  * - api: Proxy that throws descriptive errors for unconfigured methods
  * - resolver: No-op resolver (returns values unchanged)
  * - config: Default test config with fake IDs
+ * - dates: UTC date service on the (possibly faked) system clock
  */
 export function createTestExecutorContext(
   overrides: {
     api?: Partial<ProductiveApi>;
     resolver?: Partial<ResourceResolver>;
     config?: Partial<ExecutorConfig>;
+    dates?: DateService;
   } = {},
 ): ExecutorContext {
   return {
     api: createMockApi(overrides.api),
     resolver: { ...noopResolver, ...overrides.resolver },
     config: { ...defaultTestConfig, ...overrides.config },
+    dates: overrides.dates ?? createDateService({ timezone: 'UTC' }),
   };
 }
@@ -7,10 +7,18 @@
 
 import type { ProductiveApi } from '@studiometa/productive-api';
 
+import type { DateService } from '../dates/date-service.js';
+
 /**
  * Supported resource types for smart ID resolution
  */
-export type ResolvableResourceType = 'person' | 'project' | 'company' | 'deal' | 'service';
+export type ResolvableResourceType =
+  | 'person'
+  | 'project'
+  | 'company'
+  | 'deal'
+  | 'service'
+  | 'task_list';
 
 /**
  * Result of resolving a human-friendly identifier to a numeric ID
@@ -77,4 +85,10 @@ export interface ExecutorContext {
 
   /** Minimal configuration */
   readonly config: ExecutorConfig;
+
+  /**
+   * Date service deriving "today" in the user's timezone.
+   * Read it with `getDateService(ctx)`, which falls back to the system timezone.
+   */
+  readonly dates?: DateService;
 }
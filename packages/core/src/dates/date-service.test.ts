@@ -0,0 +1,107 @@
+import { describe, expect, it } from 'vitest';
+
+import { createDateService, getDateService, isValidTimezone } from './date-service.js';
+
+/** 2024-01-15T23:30:00Z — Monday evening in UTC, already Tuesday in Paris */
+const clock = () => new Date('2024-01-15T23:30:00Z');
+
+describe('createDateService', () => {
+  it('derives today in its timezone', () => {
+    expect(createDateService({ timezone: 'UTC', clock }).today()).toBe('2024-01-15');
+    expect(createDateService({ timezone: 'Europe/Paris', clock }).today()).toBe('2024-01-16');
+    expect(createDateService({ timezone: 'America/New_York', clock }).today()).toBe('2024-01-15');
+  });
+
+  it('rejects unknown timezones', () => {
+    expect(() => createDateService({ timezone: 'Mars/Olympus' })).toThrow(
+      'Invalid timezone "Mars/Olympus"',
+    );
+  });
+
+  it('exposes the clock', () => {
+    expect(createDateService({ clock }).now().toISOString()).toBe('2024-01-15T23:30:00.000Z');
+  });
+
+  it('does calendar arithmetic on plain dates', () => {
+    const dates = createDateService({ timezone: 'UTC', clock });
+
+    expect(dates.addDays('2024-02-28', 2)).toBe('2024-03-01');
+    expect(dates.addMonths('2024-01-31', 1)).toBe('2024-02-29');
+    expect(dates.addMonths('2024-03-15', -3)).toBe('2023-12-15');
+    expect(dates.startOfWeek('2024-01-14')).toBe('2024-01-08');
+    expect(dates.endOfWeek('2024-01-15')).toBe('2024-01-21');
+    expect(dates.startOfMonth('2024-02-17')).toBe('2024-02-01');
+    expect(dates.endOfMonth('2024-02-17')).toBe('2024-02-29');
+  });
+});
+
+describe('parse', () => {
+  const dates = createDateService({ timezone: 'Europe/Paris', clock });
+
+  it.each([
+    ['2023-12-31', '2023-12-31'],
+    ['today', '2024-01-16'],
+    [' Yesterday ', '2024-01-15'],
+    ['tomorrow', '2024-01-17'],
+    ['3 days ago', '2024-01-13'],
+    ['1 week ago', '2024-01-09'],
+    ['2 months ago', '2023-11-16'],
+    ['this week', '2024-01-15'],
+    ['last week', '2024-01-08'],
+    ['this month', '2024-01-01'],
+    ['last month', '2023-12-01'],
+  ])('parses %s', (input, expected) => {
+    expect(dates.parse(input)).toBe(expected);
+  });
+
+  it('returns null for unknown expressions', () => {
+    expect(dates.parse('')).toBeNull();
+    expect(dates.parse('next fortnight')).toBeNull();
+    expect(dates.parse('2024-1-1')).toBeNull();
+  });
+
+  it('takes the last day of periods with the end edge', () => {
+    expect(dates.parse('last week', 'end')).toBe('2024-01-14');
+    expect(dates.parse('q1', 'end')).toBe('2024-03-31');
+    expect(dates.parse('yesterday', 'end')).toBe('2024-01-15');
+  });
+});
+
+describe('parseRange', () => {
+  const dates = createDateService({ timezone: 'Europe/Paris', clock });
+
+  it.each([
+    ['today', '2024-01-16', '2024-01-16'],
+    ['this week', '2024-01-15', '2024-01-21'],
+    ['last week', '2024-01-08', '2024-01-14'],
+    ['this month', '2024-01-01', '2024-01-31'],
+    ['last month', '2023-12-01', '2023-12-31'],
+    ['2 days ago', '2024-01-14', '2024-01-14'],
+    ['next-week', '2024-01-22', '2024-01-28'],
+    ['2024-W02', '2024-01-08', '2024-01-14'],
+  ])('parses %s', (input, from, to) => {
+    expect(dates.parseRange(input)).toEqual({ from, to });
+  });
+
+  it('returns null for unknown expressions', () => {
+    expect(dates.parseRange('next fortnight')).toBeNull();
+  });
+});
+
+describe('isValidTimezone', () => {
+  it('accepts IANA names only', () => {
+    expect(isValidTimezone('Europe/Paris')).toBe(true);
+    expect(isValidTimezone('UTC')).toBe(true);
+    expect(isValidTimezone('Paris')).toBe(false);
+    expect(isValidTimezone('')).toBe(false);
+  });
+});
+
+describe('getDateService', () => {
+  it('prefers the service of the context', () => {
+    const dates = createDateService({ timezone: 'Asia/Tokyo', clock });
+
+    expect(getDateService({ dates })).toBe(dates);
+    expect(getDateService({}).timezone).toBeTruthy();
+  });
+});
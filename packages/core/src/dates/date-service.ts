@@ -0,0 +1,173 @@
+/**
+ * Timezone-aware calendar dates.
+ *
+ * Executors work with YYYY-MM-DD strings. "Today" depends on where the user
+ * is: at 23:00 in Paris it is already tomorrow in UTC, so deriving it from
+ * `toISOString()` is off by one for part of the day. The date service reads
+ * the clock in a configured IANA timezone and does all calendar arithmetic
+ * on plain dates, which keeps it independent of the host timezone.
+ */
+
+import {
+  addDays,
+  addMonths,
+  type DateRange,
+  endOfMonth,
+  endOfWeek,
+  parseDateExpression,
+  startOfMonth,
+  startOfWeek,
+} from './expressions.js';
+
+export type { DateRange } from './expressions.js';
+
+/** Returns the current instant — injectable so tests can freeze time */
+export type Clock = () => Date;
+
+/** Which end of a range a single date is taken from */
+export type DateEdge = 'start' | 'end';
+
+/**
+ * Calendar operations relative to "now" in a timezone.
+ */
+export interface DateService {
+  /** IANA timezone the service derives "today" in */
+  readonly timezone: string;
+
+  /** Current instant, from the clock */
+  now(): Date;
+
+  /** Today's date in the timezone (YYYY-MM-DD) */
+  today(): string;
+
+  /** Shift a YYYY-MM-DD date by a number of days */
+  addDays(date: string, days: number): string;
+
+  /** Shift a YYYY-MM-DD date by a number of months, clamped to the last day of the month */
+  addMonths(date: string, months: number): string;
+
+  /** Monday of the week containing the date */
+  startOfWeek(date: string): string;
+
+  /** Sunday of the week containing the date */
+  endOfWeek(date: string): string;
+
+  /** First day of the month containing the date */
+  startOfMonth(date: string): string;
+
+  /** Last day of the month containing the date */
+  endOfMonth(date: string): string;
+
+  /**
+   * Parse a date expression to a YYYY-MM-DD date. Periods ("last week",
+   * "q3", "2026-W42") give their first day, or their last with `edge: 'end'`.
+   * See `parseDateExpression` for the grammar.
+   *
+   * @returns The date, or null when the expression is not understood
+   */
+  parse(input: string, edge?: DateEdge): string | null;
+
+  /**
+   * Parse a date expression to the range it covers. Periods cover their
+   * whole span, dates a single day.
+   *
+   * @returns The range, or null when the expression is not understood
+   */
+  parseRange(input: string): DateRange | null;
+}
+
+/**
+ * Options for creating a date service.
+ */
+export interface DateServiceOptions {
+  /** IANA timezone, e.g. "Europe/Paris" (default: the system timezone) */
+  timezone?: string;
+  /** Clock to read the current instant from (default: the system clock) */
+  clock?: Clock;
+}
+
+/**
+ * Timezone of the host, as reported by Intl.
+ */
+export function getSystemTimezone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone;
+}
+
+/**
+ * Check whether a string is an IANA timezone known to the runtime.
+ */
+export function isValidTimezone(timezone: string): boolean {
+  if (!timezone) return false;
+  try {
+    return Boolean(new Intl.DateTimeFormat('en-US', { timeZone: timezone }));
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Create a date service for a timezone.
+ *
+ * @throws Error when the timezone is not a valid IANA timezone
+ *
+ * @example
+ * ```typescript
+ * const dates = createDateService({ timezone: 'Europe/Paris' });
+ * dates.today(); // '2024-01-16' at 2024-01-15T23:30:00Z
+ * dates.parseRange('last week'); // { from: '2024-01-08', to: '2024-01-14' }
+ * ```
+ */
+export function createDateService(options: DateServiceOptions = {}): DateService {
+  const timezone = options.timezone || getSystemTimezone();
+  if (!isValidTimezone(timezone)) {
+    throw new Error(`Invalid timezone "${timezone}", expected an IANA name like "Europe/Paris"`);
+  }
+
+  const clock = options.clock ?? (() => new Date());
+  const formatter = new Intl.DateTimeFormat('en-US', {
+    timeZone: timezone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+  });
+
+  function today(): string {
+    const parts: Record<string, string> = {};
+    for (const part of formatter.formatToParts(clock())) {
+      parts[part.type] = part.value;
+    }
+    return `${parts.year}-${parts.month}-${parts.day}`;
+  }
+
+  function parseRange(input: string): DateRange | null {
+    return parseDateExpression(input, today());
+  }
+
+  function parse(input: string, edge: DateEdge = 'start'): string | null {
+    const range = parseRange(input);
+    if (!range) return null;
+    return edge === 'end' ? range.to : range.from;
+  }
+
+  return {
+    timezone,
+    now: () => clock(),
+    today,
+    addDays,
+    addMonths,
+    startOfWeek,
+    endOfWeek,
+    startOfMonth,
+    endOfMonth,
+    parse,
+    parseRange,
+  };
+}
+
+/**
+ * Date service of an executor context, falling back to the system timezone
+ * and clock for contexts built without one.
+ */
+export function getDateService(ctx: { readonly dates?: DateService }): DateService {
+  return ctx.dates ?? createDateService();
+}
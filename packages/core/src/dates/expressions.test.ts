@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+
+import { parseDateExpression } from './expressions.js';
+
+/** A Wednesday */
+const today = '2026-10-21';
+
+describe('parseDateExpression', () => {
+  it.each([
+    ['2026-02-28', '2026-02-28', '2026-02-28'],
+    ['yesterday', '2026-10-20', '2026-10-20'],
+    ['3 days ago', '2026-10-18', '2026-10-18'],
+    ['monday', '2026-10-19', '2026-10-19'],
+    ['this friday', '2026-10-23', '2026-10-23'],
+    ['last monday', '2026-10-19', '2026-10-19'],
+    ['last wednesday', '2026-10-14', '2026-10-14'],
+    ['next wed', '2026-10-28', '2026-10-28'],
+    ['Next-Sun', '2026-10-25', '2026-10-25'],
+  ])('parses the date %s', (input, from, to) => {
+    expect(parseDateExpression(input, today)).toEqual({ from, to });
+  });
+
+  it.each([
+    ['this-week', '2026-10-19', '2026-10-25'],
+    ['last_week', '2026-10-12', '2026-10-18'],
+    ['last-month', '2026-09-01', '2026-09-30'],
+    ['next month', '2026-11-01', '2026-11-30'],
+    ['this quarter', '2026-10-01', '2026-12-31'],
+    ['next quarter', '2027-01-01', '2027-03-31'],
+    ['last year', '2025-01-01', '2025-12-31'],
+    ['ytd', '2026-01-01', '2026-10-21'],
+    ['last 7 days', '2026-10-15', '2026-10-21'],
+    ['past 2 weeks', '2026-10-08', '2026-10-21'],
+    ['last 2 months', '2026-08-22', '2026-10-21'],
+    ['q3', '2026-07-01', '2026-09-30'],
+    ['Q1 2027', '2027-01-01', '2027-03-31'],
+    ['2025-q4', '2025-10-01', '2025-12-31'],
+    ['2026-W42', '2026-10-12', '2026-10-18'],
+    ['2026w01', '2025-12-29', '2026-01-04'],
+    ['2026-W53', '2026-12-28', '2027-01-03'],
+    ['2024-02', '2024-02-01', '2024-02-29'],
+    ['2025', '2025-01-01', '2025-12-31'],
+  ])('parses the period %s', (input, from, to) => {
+    expect(parseDateExpression(input, today)).toEqual({ from, to });
+  });
+
+  it.each(['', 'someday', 'q5', '2026-02-30', '2026-13', '2025-W53', '2026-W00', 'last 0 days'])(
+    'returns null for %j',
+    (input) => {
+      expect(parseDateExpression(input, today)).toBeNull();
+    },
+  );
+});
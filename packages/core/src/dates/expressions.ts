@@ -0,0 +1,244 @@
+/**
+ * Calendar arithmetic and the date expression grammar.
+ *
+ * Everything here works on YYYY-MM-DD strings relative to a given "today",
+ * so it is pure and independent of the host timezone. The date service
+ * supplies "today" in the user's timezone.
+ */
+
+/** Inclusive range of YYYY-MM-DD dates */
+export interface DateRange {
+  from: string;
+  to: string;
+}
+
+const WEEKDAYS = ['monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday'];
+const WEEKDAY_ALIASES: Record<string, string> = {
+  mon: 'monday',
+  tue: 'tuesday',
+  tues: 'tuesday',
+  wed: 'wednesday',
+  thu: 'thursday',
+  thur: 'thursday',
+  thurs: 'thursday',
+  fri: 'friday',
+  sat: 'saturday',
+  sun: 'sunday',
+};
+
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const ISO_WEEK_PATTERN = /^(\d{4})-?w(\d{1,2})$/;
+const ISO_MONTH_PATTERN = /^(\d{4})-(\d{2})$/;
+const YEAR_PATTERN = /^\d{4}$/;
+const QUARTER_PATTERN = /^(?:(\d{4}) ?q([1-4])|q([1-4])(?: (\d{4}))?)$/;
+const AGO_PATTERN = /^(\d+) (day|week|month)s? ago$/;
+const LAST_N_PATTERN = /^(?:last|past) (\d+) (day|week|month)s?$/;
+const PERIOD_PATTERN = /^(this|last|next) (week|month|quarter|year)$/;
+const WEEKDAY_PATTERN = /^(?:(this|last|next) )?([a-z]+)$/;
+
+function parseIsoDate(date: string): Date {
+  return new Date(`${date}T00:00:00Z`);
+}
+
+function formatIsoDate(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+function isCalendarDate(date: string): boolean {
+  const parsed = parseIsoDate(date);
+  return !Number.isNaN(parsed.getTime()) && formatIsoDate(parsed) === date;
+}
+
+/**
+ * Shift a YYYY-MM-DD date by a number of days.
+ */
+export function addDays(date: string, days: number): string {
+  const result = parseIsoDate(date);
+  result.setUTCDate(result.getUTCDate() + days);
+  return formatIsoDate(result);
+}
+
+/**
+ * Shift a YYYY-MM-DD date by a number of months, clamped to the last day of the month.
+ */
+export function addMonths(date: string, months: number): string {
+  const source = parseIsoDate(date);
+  const target = new Date(
+    Date.UTC(source.getUTCFullYear(), source.getUTCMonth() + months, source.getUTCDate()),
+  );
+  // Overflowing into the following month (Jan 31 + 1 month) clamps to its last day
+  if (target.getUTCDate() !== source.getUTCDate()) {
+    target.setUTCDate(0);
+  }
+  return formatIsoDate(target);
+}
+
+/** Day of the week, 0 for Monday through 6 for Sunday */
+function weekdayIndex(date: string): number {
+  return (parseIsoDate(date).getUTCDay() + 6) % 7;
+}
+
+/**
+ * Monday of the week containing the date.
+ */
+export function startOfWeek(date: string): string {
+  return addDays(date, -weekdayIndex(date));
+}
+
+/**
+ * Sunday of the week containing the date.
+ */
+export function endOfWeek(date: string): string {
+  return addDays(startOfWeek(date), 6);
+}
+
+/**
+ * First day of the month containing the date.
+ */
+export function startOfMonth(date: string): string {
+  return `${date.slice(0, 7)}-01`;
+}
+
+/**
+ * Last day of the month containing the date.
+ */
+export function endOfMonth(date: string): string {
+  return addDays(addMonths(startOfMonth(date), 1), -1);
+}
+
+function quarterRange(year: number, quarter: number): DateRange {
+  const from = `${year}-${String(quarter * 3 - 2).padStart(2, '0')}-01`;
+  return { from, to: endOfMonth(addMonths(from, 2)) };
+}
+
+/** Monday of ISO week 1 is the Monday of the week holding January 4th */
+function isoWeekRange(year: number, week: number): DateRange | null {
+  const from = addDays(startOfWeek(`${year}-01-04`), (week - 1) * 7);
+  // Years have 52 or 53 weeks; week 53 only exists when it still holds a day of the year
+  if (week < 1 || week > 53 || (week === 53 && !addDays(from, 3).startsWith(String(year)))) {
+    return null;
+  }
+  return { from, to: addDays(from, 6) };
+}
+
+function single(date: string): DateRange {
+  return { from: date, to: date };
+}
+
+function periodRange(modifier: string, unit: string, today: string): DateRange {
+  const step = modifier === 'last' ? -1 : modifier === 'next' ? 1 : 0;
+  switch (unit) {
+    case 'week': {
+      const from = addDays(startOfWeek(today), step * 7);
+      return { from, to: addDays(from, 6) };
+    }
+    case 'month': {
+      const from = startOfMonth(addMonths(startOfMonth(today), step));
+      return { from, to: endOfMonth(from) };
+    }
+    case 'quarter': {
+      const from = addMonths(startOfMonth(today), step * 3);
+      return quarterRange(Number(from.slice(0, 4)), Math.ceil(Number(from.slice(5, 7)) / 3));
+    }
+    default: {
+      const year = Number(today.slice(0, 4)) + step;
+      return { from: `${year}-01-01`, to: `${year}-12-31` };
+    }
+  }
+}
+
+function weekdayDate(modifier: string | undefined, name: string, today: string): string | null {
+  const index = WEEKDAYS.indexOf(WEEKDAY_ALIASES[name] ?? name);
+  if (index === -1) return null;
+
+  const offset = index - weekdayIndex(today);
+  if (modifier === 'last') return addDays(today, offset < 0 ? offset : offset - 7);
+  if (modifier === 'next') return addDays(today, offset > 0 ? offset : offset + 7);
+  return addDays(today, offset);
+}
+
+function parseRelative(normalized: string, today: string): DateRange | null {
+  switch (normalized) {
+    case 'today':
+      return single(today);
+    case 'yesterday':
+      return single(addDays(today, -1));
+    case 'tomorrow':
+      return single(addDays(today, 1));
+    case 'ytd':
+    case 'year to date':
+      return { from: `${today.slice(0, 4)}-01-01`, to: today };
+  }
+
+  const period = normalized.match(PERIOD_PATTERN);
+  if (period) return periodRange(period[1], period[2], today);
+
+  const ago = normalized.match(AGO_PATTERN);
+  if (ago) {
+    const amount = Number(ago[1]);
+    if (ago[2] === 'month') return single(addMonths(today, -amount));
+    return single(addDays(today, ago[2] === 'week' ? -amount * 7 : -amount));
+  }
+
+  const lastN = normalized.match(LAST_N_PATTERN);
+  if (lastN) {
+    const amount = Number(lastN[1]);
+    if (amount < 1) return null;
+    if (lastN[2] === 'month') return { from: addDays(addMonths(today, -amount), 1), to: today };
+    const days = lastN[2] === 'week' ? amount * 7 : amount;
+    return { from: addDays(today, 1 - days), to: today };
+  }
+
+  const weekday = normalized.match(WEEKDAY_PATTERN);
+  if (weekday) {
+    const date = weekdayDate(weekday[1], weekday[2], today);
+    return date ? single(date) : null;
+  }
+
+  return null;
+}
+
+/**
+ * Parse a date expression to the range it covers, relative to `today`:
+ *
+ * - Dates: `2026-10-19`, `today`, `yesterday`, `tomorrow`, `3 days ago`,
+ *   `2 weeks ago`, `monday`, `last friday`, `next tue`
+ * - Periods: `this week`, `last month`, `next quarter`, `this year`,
+ *   `last 7 days`, `ytd`, `q3` (this year), `2026-q3`, `2026-W42`,
+ *   `2026-10`, `2026`
+ *
+ * Words may be separated by spaces, dashes or underscores (`last-month`).
+ * A date is a range of one day.
+ *
+ * @returns The range, or null when the expression is not understood
+ */
+export function parseDateExpression(input: string, today: string): DateRange | null {
+  if (!input) return null;
+
+  const normalized = input.trim().toLowerCase();
+  if (ISO_DATE_PATTERN.test(normalized)) {
+    return isCalendarDate(normalized) ? single(normalized) : null;
+  }
+
+  const week = normalized.match(ISO_WEEK_PATTERN);
+  if (week) return isoWeekRange(Number(week[1]), Number(week[2]));
+
+  const month = normalized.match(ISO_MONTH_PATTERN);
+  if (month) {
+    const from = `${normalized}-01`;
+    return isCalendarDate(from) ? { from, to: endOfMonth(from) } : null;
+  }
+
+  if (YEAR_PATTERN.test(normalized)) {
+    return { from: `${normalized}-01-01`, to: `${normalized}-12-31` };
+  }
+
+  const words = normalized.replaceAll(/[\s_-]+/g, ' ');
+  const quarter = words.match(QUARTER_PATTERN);
+  if (quarter) {
+    const year = Number(quarter[1] ?? quarter[4] ?? today.slice(0, 4));
+    return quarterRange(year, Number(quarter[2] ?? quarter[3]));
+  }
+
+  return parseRelative(words, today);
+}
@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+
+import { ExecutorValidationError } from '../executors/errors.js';
+import { createDateService } from './date-service.js';
+import { resolveDateFilters } from './filters.js';
+
+const dates = createDateService({
+  timezone: 'UTC',
+  clock: () => new Date('2026-10-21T12:00:00Z'),
+});
+
+describe('resolveDateFilters', () => {
+  it('resolves after and before bounds to the edges of their period', () => {
+    expect(
+      resolveDateFilters(
+        { due_date_after: 'last week', due_date_before: 'last week', project_id: '42' },
+        dates,
+      ),
+    ).toEqual({
+      filter: { due_date_after: '2026-10-12', due_date_before: '2026-10-18', project_id: '42' },
+      dates: {
+        due_date_after: { input: 'last week', date: '2026-10-12' },
+        due_date_before: { input: 'last week', date: '2026-10-18' },
+      },
+    });
+  });
+
+  it('leaves literal dates out of the resolutions', () => {
+    expect(resolveDateFilters({ after: '2026-01-01', before: 'today' }, dates)).toEqual({
+      filter: { after: '2026-01-01', before: '2026-10-21' },
+      dates: { before: { input: 'today', date: '2026-10-21' } },
+    });
+  });
+
+  it('expands a period to the bounds that are not set', () => {
+    expect(resolveDateFilters({ period: 'q3', before: '2026-08-15' }, dates)).toEqual({
+      filter: { after: '2026-07-01', before: '2026-08-15' },
+      dates: { after: { input: 'q3', date: '2026-07-01' } },
+    });
+  });
+
+  it('ignores other filters and timestamps', () => {
+    expect(
+      resolveDateFilters(
+        { status: 'last week', starts_after: '', created_at_before: '2026-10-01T08:00:00Z' },
+        dates,
+      ),
+    ).toEqual({
+      filter: { status: 'last week', starts_after: '', created_at_before: '2026-10-01T08:00:00Z' },
+      dates: {},
+    });
+  });
+
+  it('rejects expressions it does not understand', () => {
+    expect(() => resolveDateFilters({ after: 'soon' }, dates)).toThrow(ExecutorValidationError);
+    expect(() => resolveDateFilters({ period: 'soon' }, dates)).toThrow(
+      expect.objectContaining({ field: 'period' }),
+    );
+  });
+});
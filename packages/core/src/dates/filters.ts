@@ -0,0 +1,108 @@
+/**
+ * Date expressions in API filters.
+ *
+ * Adapters accept expressions like "last monday" or "q3" wherever the API
+ * expects a YYYY-MM-DD date. Resolving them in one place keeps the CLI and
+ * MCP server in agreement on what a given expression means.
+ */
+
+import type { DateEdge, DateService } from './date-service.js';
+
+import { ExecutorValidationError } from '../executors/errors.js';
+
+/**
+ * A date expression and the absolute date it resolved to.
+ */
+export interface ResolvedDate {
+  /** Expression as given, e.g. "last month" */
+  input: string;
+  /** Resolved YYYY-MM-DD date */
+  date: string;
+}
+
+/**
+ * Filters with their date expressions replaced by absolute dates.
+ */
+export interface ResolvedDateFilters {
+  filter: Record<string, string>;
+  /** Resolutions by filter key, only for values that were not already YYYY-MM-DD */
+  dates: Record<string, ResolvedDate>;
+}
+
+const DATE_FILTER_PATTERN = /(?:^|_)(after|before)$/;
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const ISO_DATETIME_PATTERN = /^\d{4}-\d{2}-\d{2}T/;
+
+function unrecognizedDate(key: string, input: string): ExecutorValidationError {
+  return new ExecutorValidationError(
+    `Unrecognized date "${input}" for ${key}. Use YYYY-MM-DD or an expression like "last monday", "this-week", "q3" or "2026-W42"`,
+    key,
+  );
+}
+
+/**
+ * Resolve a date expression, recording it when it was not a literal date.
+ *
+ * `after`-style bounds take the first day of a period and `before`-style
+ * bounds its last, so "last month" covers the whole month on both ends.
+ *
+ * @throws ExecutorValidationError when the expression is not understood
+ */
+export function resolveDateExpression(
+  key: string,
+  input: string,
+  edge: DateEdge,
+  dates: DateService,
+  resolved: Record<string, ResolvedDate>,
+): string {
+  const date = dates.parse(input, edge);
+  if (!date) throw unrecognizedDate(key, input);
+  if (!ISO_DATE_PATTERN.test(input.trim())) {
+    resolved[key] = { input, date };
+  }
+  return date;
+}
+
+/**
+ * Replace date expressions in `*after` and `*before` filters with absolute
+ * dates. A `period` filter expands to `after` and `before` unless they are
+ * set explicitly.
+ *
+ * @throws ExecutorValidationError when an expression is not understood
+ *
+ * @example
+ * ```typescript
+ * resolveDateFilters({ period: 'last-month', project_id: '42' }, dates);
+ * // filter: { project_id: '42', after: '2026-09-01', before: '2026-09-30' }
+ * // dates: { after: { input: 'last-month', date: '2026-09-01' }, before: { ... } }
+ * ```
+ */
+export function resolveDateFilters(
+  filter: Record<string, string>,
+  dates: DateService,
+): ResolvedDateFilters {
+  const { period, ...rest } = filter;
+  const result: Record<string, string> = { ...rest };
+  const resolved: Record<string, ResolvedDate> = {};
+
+  if (period) {
+    if (!dates.parseRange(period)) throw unrecognizedDate('period', period);
+    result.after ??= period;
+    result.before ??= period;
+  }
+
+  for (const [key, value] of Object.entries(result)) {
+    const bound = key.match(DATE_FILTER_PATTERN)?.[1];
+    // Timestamps are already absolute and more precise than a date
+    if (!bound || !value || ISO_DATETIME_PATTERN.test(value)) continue;
+    result[key] = resolveDateExpression(
+      key,
+      value,
+      bound === 'after' ? 'start' : 'end',
+      dates,
+      resolved,
+    );
+  }
+
+  return { filter: result, dates: resolved };
+}
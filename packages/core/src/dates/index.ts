@@ -0,0 +1,22 @@
+/**
+ * Date service — timezone-aware "today", date expressions and their use in filters.
+ */
+
+export {
+  createDateService,
+  getDateService,
+  getSystemTimezone,
+  isValidTimezone,
+  type Clock,
+  type DateEdge,
+  type DateRange,
+  type DateService,
+  type DateServiceOptions,
+} from './date-service.js';
+export { parseDateExpression } from './expressions.js';
+export {
+  resolveDateExpression,
+  resolveDateFilters,
+  type ResolvedDate,
+  type ResolvedDateFilters,
+} from './filters.js';
@@ -0,0 +1,2 @@
+export { buildAbsenceFilters, listAbsences } from './list.js';
+export type { ListAbsencesOptions } from './types.js';
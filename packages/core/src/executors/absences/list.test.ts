@@ -0,0 +1,53 @@
+import { describe, expect, it, vi } from 'vitest';
+
+import { createTestExecutorContext } from '../../context/test-utils.js';
+import { buildAbsenceFilters, listAbsences } from './list.js';
+
+describe('buildAbsenceFilters', () => {
+  it('maps options and always restricts to event bookings', () => {
+    expect(
+      buildAbsenceFilters({
+        personId: '1',
+        eventId: '2',
+        after: '2024-08-01',
+        before: '2024-08-31',
+        additionalFilters: { booking_type: 'service', approval_status: '1' },
+      }),
+    ).toEqual({
+      person_id: '1',
+      event_id: '2',
+      after: '2024-08-01',
+      before: '2024-08-31',
+      approval_status: '1',
+      booking_type: 'event',
+    });
+  });
+});
+
+describe('listAbsences', () => {
+  it('lists event bookings with person and event included', async () => {
+    const getBookings = vi.fn().mockResolvedValue({ data: [], meta: {}, included: [] });
+    const resolveFilters = vi.fn().mockResolvedValue({
+      resolved: { person_id: '42', booking_type: 'event' },
+      metadata: {
+        person_id: { input: 'jane@example.com', id: '42', label: 'Jane', type: 'person' },
+      },
+    });
+    const ctx = createTestExecutorContext({ api: { getBookings }, resolver: { resolveFilters } });
+
+    const result = await listAbsences({ personId: 'jane@example.com' }, ctx);
+
+    expect(resolveFilters).toHaveBeenCalledWith({
+      person_id: 'jane@example.com',
+      booking_type: 'event',
+    });
+    expect(getBookings).toHaveBeenCalledWith({
+      page: 1,
+      perPage: 100,
+      sort: undefined,
+      filter: { person_id: '42', booking_type: 'event' },
+      include: ['person', 'event'],
+    });
+    expect(result.resolved).toBeDefined();
+  });
+});
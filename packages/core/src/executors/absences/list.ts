@@ -0,0 +1,48 @@
+import type { ProductiveBooking } from '@studiometa/productive-api';
+
+import { BOOKING_TYPE } from '@studiometa/productive-api';
+
+import type { ExecutorContext } from '../../context/types.js';
+import type { ExecutorResult } from '../types.js';
+import type { ListAbsencesOptions } from './types.js';
+
+import { buildListParams } from '../types.js';
+
+/**
+ * Absences are bookings made against an event instead of a service, so the
+ * filter always pins `booking_type` to events.
+ */
+export function buildAbsenceFilters(options: ListAbsencesOptions): Record<string, string> {
+  const filter: Record<string, string> = {};
+
+  if (options.additionalFilters) Object.assign(filter, options.additionalFilters);
+  if (options.personId) filter.person_id = options.personId;
+  if (options.eventId) filter.event_id = options.eventId;
+  if (options.after) filter.after = options.after;
+  if (options.before) filter.before = options.before;
+
+  filter.booking_type = BOOKING_TYPE.EVENT;
+
+  return filter;
+}
+
+export async function listAbsences(
+  options: ListAbsencesOptions,
+  ctx: ExecutorContext,
+): Promise<ExecutorResult<ProductiveBooking[]>> {
+  const filter = buildAbsenceFilters(options);
+  const { resolved: resolvedFilter, metadata } = await ctx.resolver.resolveFilters(filter);
+
+  const response = await ctx.api.getBookings({
+    ...buildListParams(options),
+    filter: resolvedFilter,
+    include: options.include ?? ['person', 'event'],
+  });
+
+  return {
+    data: response.data,
+    meta: response.meta,
+    included: response.included,
+    resolved: Object.keys(metadata).length > 0 ? metadata : undefined,
+  };
+}
@@ -0,0 +1,12 @@
+import type { PaginationOptions } from '../types.js';
+
+export interface ListAbsencesOptions extends PaginationOptions {
+  personId?: string;
+  /** Absence category (event) ID */
+  eventId?: string;
+  /** Only absences ending on or after this date (YYYY-MM-DD) */
+  after?: string;
+  /** Only absences starting on or before this date (YYYY-MM-DD) */
+  before?: string;
+  additionalFilters?: Record<string, string>;
+}
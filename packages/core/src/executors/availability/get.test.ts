@@ -0,0 +1,259 @@
+import { describe, expect, it, vi } from 'vitest';
+
+import { createTestExecutorContext } from '../../context/test-utils.js';
+import { ExecutorValidationError } from '../errors.js';
+import { computeAvailability, getAvailability } from './get.js';
+
+const alice = {
+  id: '1',
+  type: 'people',
+  attributes: { first_name: 'Alice', last_name: 'Smith' },
+};
+const bob = {
+  id: '2',
+  type: 'people',
+  attributes: { first_name: 'Bob', last_name: 'Jones' },
+};
+
+// 2024-07-15 is a Monday
+const salaries = {
+  data: [
+    {
+      id: '10',
+      type: 'salaries',
+      attributes: {
+        started_on: '2024-01-01',
+        ended_on: null,
+        working_hours: [480, 480, 480, 480, 240, 0, 0],
+      },
+      relationships: {
+        person: { data: { type: 'people', id: '1' } },
+        holiday_calendar: { data: { type: 'holiday_calendars', id: '5' } },
+      },
+    },
+  ],
+  meta: {},
+};
+
+function booking(
+  id: string,
+  personId: string,
+  attributes: Record<string, unknown>,
+  eventId?: string,
+) {
+  return {
+    id,
+    type: 'bookings',
+    attributes: { booking_method_id: 1, ...attributes },
+    relationships: {
+      person: { data: { type: 'people', id: personId } },
+      ...(eventId
+        ? { event: { data: { type: 'events', id: eventId } } }
+        : { service: { data: { type: 'services', id: '99' } } }),
+    },
+  };
+}
+
+function createApi(bookings: unknown[] = [], holidays: unknown[] = []) {
+  return {
+    getPeople: vi.fn().mockResolvedValue({ data: [alice, bob], meta: {} }),
+    getSalaries: vi.fn().mockResolvedValue(salaries),
+    getHolidays: vi.fn().mockResolvedValue({ data: holidays, meta: {} }),
+    getBookings: vi.fn().mockResolvedValue({
+      data: bookings,
+      meta: {},
+      included: [
+        { id: '7', type: 'events', attributes: { name: 'Vacation', absence_type: 'time_off' } },
+        { id: '8', type: 'events', attributes: { name: 'Remote', absence_type: 'remote_work' } },
+      ],
+    }),
+  };
+}
+
+describe('getAvailability', () => {
+  it('uses the working schedule and falls back to a default week', async () => {
+    const api = createApi();
+    const ctx = createTestExecutorContext({ api });
+
+    const result = await getAvailability({ after: '2024-07-19', before: '2024-07-20' }, ctx);
+
+    expect(api.getPeople).toHaveBeenCalledWith({
+      page: 1,
+      perPage: 200,
+      filter: { status: '1', person_type: '1' },
+    });
+    expect(api.getSalaries).toHaveBeenCalledWith({
+      page: 1,
+      perPage: 200,
+      filter: { person_id: '1,2' },
+    });
+    const [aliceAvailability, bobAvailability] = result.data.people;
+    expect(aliceAvailability.capacity_source).toBe('salary');
+    expect(aliceAvailability.days.map((d) => d.capacity_minutes)).toEqual([240, 0]);
+    expect(bobAvailability.capacity_source).toBe('default');
+    expect(bobAvailability.person_name).toBe('Bob Jones');
+    expect(bobAvailability.totals.free_minutes).toBe(480);
+  });
+
+  it('zeroes capacity on holidays of the person calendar', async () => {
+    const api = createApi(
+      [],
+      [
+        {
+          id: '3',
+          type: 'holidays',
+          attributes: { name: 'Bastille Day', date: '2024-07-15' },
+          relationships: { holiday_calendar: { data: { type: 'holiday_calendars', id: '5' } } },
+        },
+      ],
+    );
+    const ctx = createTestExecutorContext({ api });
+
+    const result = await getAvailability({ after: '2024-07-15' }, ctx);
+
+    expect(api.getHolidays).toHaveBeenCalledWith({
+      page: 1,
+      perPage: 200,
+      filter: { holiday_calendar_id: '5', after: '2024-07-15', before: '2024-07-15' },
+    });
+    expect(result.data.people[0].days[0]).toEqual({
+      date: '2024-07-15',
+      capacity_minutes: 0,
+      absence_minutes: 0,
+      booked_minutes: 0,
+      free_minutes: 0,
+      holiday: 'Bastille Day',
+    });
+    // Bob has no calendar, so the day is a regular working day
+    expect(result.data.people[1].days[0].free_minutes).toBe(480);
+  });
+
+  it('subtracts absences and bookings, ignoring remote work and inactive bookings', async () => {
+    const api = createApi([
+      booking('1', '1', { started_on: '2024-07-16', ended_on: '2024-07-16', time: 240 }, '7'),
+      booking('2', '1', { started_on: '2024-07-16', ended_on: '2024-07-16', time: 480 }, '8'),
+      booking('3', '1', {
+        started_on: '2024-07-15',
+        ended_on: '2024-07-16',
+        percentage: 25,
+        booking_method_id: 2,
+      }),
+      booking('4', '2', {
+        started_on: '2024-07-15',
+        ended_on: '2024-07-19',
+        total_time: 1200,
+        booking_method_id: 3,
+      }),
+      booking(
+        '5',
+        '2',
+        { started_on: '2024-07-15', ended_on: '2024-07-16', time: 480, draft: true },
+        '7',
+      ),
+      booking(
+        '6',
+        '2',
+        { started_on: '2024-07-15', ended_on: '2024-07-16', time: 480, rejected_at: 'x' },
+        '7',
+      ),
+      booking(
+        '7',
+        '2',
+        { started_on: '2024-07-15', ended_on: '2024-07-16', time: 480, canceled: true },
+        '7',
+      ),
+    ]);
+    const ctx = createTestExecutorContext({ api });
+
+    const result = await getAvailability({ after: '2024-07-15', before: '2024-07-16' }, ctx);
+
+    expect(api.getBookings).toHaveBeenCalledWith({
+      page: 1,
+      perPage: 200,
+      filter: { person_id: '1,2', after: '2024-07-15', before: '2024-07-16' },
+      include: ['event'],
+    });
+
+    const [aliceDays, bobDays] = result.data.people.map((p) => p.days);
+    expect(aliceDays[0]).toMatchObject({
+      absence_minutes: 0,
+      booked_minutes: 120,
+      free_minutes: 360,
+    });
+    expect(aliceDays[1]).toMatchObject({
+      absence: 'Vacation',
+      absence_minutes: 240,
+      booked_minutes: 120,
+      free_minutes: 120,
+    });
+    // 1200 minutes spread over five working days
+    expect(bobDays[0]).toMatchObject({
+      absence_minutes: 0,
+      booked_minutes: 240,
+      free_minutes: 240,
+    });
+  });
+
+  it('fetches every page of people and bookings', async () => {
+    const api = createApi();
+    api.getPeople
+      .mockResolvedValueOnce({ data: [alice], meta: { total_pages: 2 } })
+      .mockResolvedValueOnce({ data: [bob], meta: { total_pages: 2 } });
+    api.getBookings
+      .mockResolvedValueOnce({
+        data: [booking('1', '1', { started_on: '2024-07-15', ended_on: '2024-07-15', time: 60 })],
+        meta: { total_pages: 2 },
+      })
+      .mockResolvedValueOnce({
+        data: [
+          booking('2', '2', { started_on: '2024-07-15', ended_on: '2024-07-15', time: 480 }, '7'),
+        ],
+        meta: { total_pages: 2 },
+        included: [{ id: '7', type: 'events', attributes: { name: 'Vacation' } }],
+      });
+    const ctx = createTestExecutorContext({ api });
+
+    const result = await getAvailability({ after: '2024-07-15' }, ctx);
+
+    expect(api.getPeople).toHaveBeenLastCalledWith(expect.objectContaining({ page: 2 }));
+    expect(api.getBookings).toHaveBeenLastCalledWith(expect.objectContaining({ page: 2 }));
+    expect(result.data.people.map((p) => p.days[0])).toMatchObject([
+      { booked_minutes: 60, free_minutes: 420 },
+      { absence: 'Vacation', absence_minutes: 480, free_minutes: 0 },
+    ]);
+  });
+
+  it('resolves explicit people before fetching them', async () => {
+    const api = createApi();
+    const resolveValue = vi.fn().mockResolvedValue('1');
+    const ctx = createTestExecutorContext({ api, resolver: { resolveValue } });
+
+    await getAvailability({ personIds: ['alice@example.com'], after: '2024-07-15' }, ctx);
+
+    expect(resolveValue).toHaveBeenCalledWith('alice@example.com', 'person');
+    expect(api.getPeople).toHaveBeenCalledWith({ page: 1, perPage: 200, filter: { id: '1' } });
+  });
+
+  it.each([
+    [{ after: '15/07/2024' }, 'after'],
+    [{ after: '2024-07-15', before: '2024-07-01' }, 'before'],
+    [{ after: '2024-01-01', before: '2024-12-31' }, 'before'],
+  ])('rejects invalid ranges %o', async (options, field) => {
+    const ctx = createTestExecutorContext({ api: createApi() });
+
+    const error = await getAvailability(options, ctx).catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(ExecutorValidationError);
+    expect((error as ExecutorValidationError).field).toBe(field);
+  });
+});
+
+describe('computeAvailability', () => {
+  it('returns an empty list without calling the API when there is nobody', async () => {
+    const api = createApi();
+    const ctx = createTestExecutorContext({ api });
+
+    expect(await computeAvailability([], '2024-07-15', '2024-07-15', ctx)).toEqual([]);
+    expect(api.getSalaries).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,310 @@
+/**
+ * Availability executor.
+ *
+ * Combines each person's working schedule (salaries), their holiday calendar,
+ * absence bookings and project bookings into free minutes per day:
+ *
+ *   free = capacity − absences − bookings   (never below 0)
+ *
+ * Holidays zero the day's capacity. Remote work, drafts, rejected and canceled
+ * bookings don't reduce availability. Alternating weekly schedules are not
+ * modelled; the primary `working_hours` are used for every week.
+ */
+
+import type {
+  IncludedResource,
+  ProductiveBooking,
+  ProductivePerson,
+  ProductiveSalary,
+} from '@studiometa/productive-api';
+
+import {
+  ABSENCE_TYPE,
+  BOOKING_METHOD,
+  PERSON_STATUS,
+  PERSON_TYPE,
+} from '@studiometa/productive-api';
+
+import type { ExecutorContext } from '../../context/types.js';
+import type { ExecutorResult } from '../types.js';
+import type {
+  AvailabilityResult,
+  AvailabilityTotals,
+  DayAvailability,
+  GetAvailabilityOptions,
+  PersonAvailability,
+} from './types.js';
+
+import { ExecutorValidationError } from '../errors.js';
+import { fetchAllPages, MAX_PAGE_SIZE } from '../pagination.js';
+
+/** Longest range accepted, to keep the number of fetched bookings reasonable */
+export const MAX_AVAILABILITY_DAYS = 92;
+
+/** Schedule assumed for people without a salary record: 8h Monday to Friday */
+const DEFAULT_WORKING_MINUTES = [480, 480, 480, 480, 480, 0, 0];
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function parseDate(value: string, field: string): number {
+  const time = DATE_PATTERN.test(value) ? Date.parse(`${value}T00:00:00Z`) : Number.NaN;
+  if (Number.isNaN(time)) {
+    throw new ExecutorValidationError(`Invalid date "${value}", expected YYYY-MM-DD`, field);
+  }
+  return time;
+}
+
+function toDateString(time: number): string {
+  return new Date(time).toISOString().split('T')[0];
+}
+
+/** Index into a Monday-first schedule */
+function weekdayIndex(date: string): number {
+  return (new Date(`${date}T00:00:00Z`).getUTCDay() + 6) % 7;
+}
+
+function dateRange(after: string, before: string): string[] {
+  const dates: string[] = [];
+  const end = Date.parse(`${before}T00:00:00Z`);
+  for (let time = Date.parse(`${after}T00:00:00Z`); time <= end; time += DAY_MS) {
+    dates.push(toDateString(time));
+  }
+  return dates;
+}
+
+function findSalary(salaries: ProductiveSalary[], date: string): ProductiveSalary | undefined {
+  return salaries.find(
+    (salary) =>
+      salary.attributes.started_on <= date &&
+      (!salary.attributes.ended_on || salary.attributes.ended_on >= date),
+  );
+}
+
+function scheduleFor(salary: ProductiveSalary | undefined): number[] {
+  const hours = salary?.attributes.working_hours;
+  return Array.isArray(hours) && hours.length > 0 ? hours : DEFAULT_WORKING_MINUTES;
+}
+
+function isEffective(booking: ProductiveBooking): boolean {
+  const attrs = booking.attributes;
+  return !attrs.draft && !attrs.rejected_at && !attrs.canceled && !attrs.canceled_at;
+}
+
+/**
+ * Minutes a booking takes on a given working day of `capacity` minutes.
+ * Total-hours bookings are spread evenly over the working days they span.
+ */
+function bookingMinutes(booking: ProductiveBooking, capacity: number, schedule: number[]): number {
+  const attrs = booking.attributes;
+
+  switch (String(attrs.booking_method_id)) {
+    case BOOKING_METHOD.PERCENTAGE:
+      return Math.round((capacity * (attrs.percentage ?? 0)) / 100);
+    case BOOKING_METHOD.TOTAL_HOURS: {
+      const workingDays = dateRange(attrs.started_on, attrs.ended_on).filter(
+        (date) => schedule[weekdayIndex(date)] > 0,
+      ).length;
+      return workingDays > 0 ? Math.round((attrs.total_time ?? 0) / workingDays) : 0;
+    }
+    default:
+      return attrs.time ?? 0;
+  }
+}
+
+function groupByPerson<T extends { relationships?: { person?: { data?: { id: string } | null } } }>(
+  items: T[],
+): Map<string, T[]> {
+  const map = new Map<string, T[]>();
+  for (const item of items) {
+    const personId = item.relationships?.person?.data?.id;
+    if (!personId) continue;
+    const list = map.get(personId) ?? [];
+    list.push(item);
+    map.set(personId, list);
+  }
+  return map;
+}
+
+/**
+ * Fetch the people to report on: explicit IDs (resolved from names/emails) or
+ * every active user.
+ */
+async function fetchPeople(
+  personIds: string[] | undefined,
+  ctx: ExecutorContext,
+): Promise<ProductivePerson[]> {
+  if (personIds && personIds.length > 0) {
+    const resolved = await Promise.all(
+      personIds.map((id) => ctx.resolver.resolveValue(id, 'person')),
+    );
+    const filter = { id: resolved.join(',') };
+    const { data } = await fetchAllPages((page) =>
+      ctx.api.getPeople({ page, perPage: MAX_PAGE_SIZE, filter }),
+    );
+    return data;
+  }
+
+  const filter = { status: PERSON_STATUS.ACTIVE, person_type: PERSON_TYPE.USER };
+  const { data } = await fetchAllPages((page) =>
+    ctx.api.getPeople({ page, perPage: MAX_PAGE_SIZE, filter }),
+  );
+  return data;
+}
+
+/**
+ * Compute availability for already-fetched people over a validated range.
+ * Shared with summaries that have the people list at hand.
+ */
+export async function computeAvailability(
+  people: ProductivePerson[],
+  after: string,
+  before: string,
+  ctx: ExecutorContext,
+): Promise<PersonAvailability[]> {
+  if (people.length === 0) return [];
+
+  const personFilter = people.map((person) => person.id).join(',');
+
+  const [salariesRes, bookingsRes] = await Promise.all([
+    fetchAllPages((page) =>
+      ctx.api.getSalaries({ page, perPage: MAX_PAGE_SIZE, filter: { person_id: personFilter } }),
+    ),
+    fetchAllPages((page) =>
+      ctx.api.getBookings({
+        page,
+        perPage: MAX_PAGE_SIZE,
+        filter: { person_id: personFilter, after, before },
+        include: ['event'],
+      }),
+    ),
+  ]);
+
+  // Holidays for every calendar referenced by a salary
+  const calendarIds = [
+    ...new Set(
+      salariesRes.data
+        .map((salary) => salary.relationships?.holiday_calendar?.data?.id)
+        .filter((id): id is string => Boolean(id)),
+    ),
+  ];
+  const holidays = new Map<string, string>(); // `${calendarId}:${date}` -> name
+  if (calendarIds.length > 0) {
+    const holidaysRes = await fetchAllPages((page) =>
+      ctx.api.getHolidays({
+        page,
+        perPage: MAX_PAGE_SIZE,
+        filter: { holiday_calendar_id: calendarIds.join(','), after, before },
+      }),
+    );
+    for (const holiday of holidaysRes.data) {
+      const calendarId = holiday.relationships?.holiday_calendar?.data?.id;
+      if (calendarId)
+        holidays.set(`${calendarId}:${holiday.attributes.date}`, holiday.attributes.name);
+    }
+  }
+
+  const events = new Map<string, IncludedResource>();
+  for (const resource of bookingsRes.included) {
+    if (resource.type === 'events') events.set(resource.id, resource);
+  }
+
+  const salariesByPerson = groupByPerson(salariesRes.data);
+  const bookingsByPerson = groupByPerson(bookingsRes.data.filter(isEffective));
+  const dates = dateRange(after, before);
+
+  const result: PersonAvailability[] = people.map((person) => {
+    const salaries = salariesByPerson.get(person.id) ?? [];
+    const bookings = bookingsByPerson.get(person.id) ?? [];
+    const totals: AvailabilityTotals = {
+      capacity_minutes: 0,
+      absence_minutes: 0,
+      booked_minutes: 0,
+      free_minutes: 0,
+    };
+
+    const days = dates.map((date): DayAvailability => {
+      const salary = findSalary(salaries, date);
+      const schedule = scheduleFor(salary);
+      const calendarId = salary?.relationships?.holiday_calendar?.data?.id;
+      const holiday = calendarId ? holidays.get(`${calendarId}:${date}`) : undefined;
+      const capacity = holiday ? 0 : (schedule[weekdayIndex(date)] ?? 0);
+
+      const day: DayAvailability = {
+        date,
+        capacity_minutes: capacity,
+        absence_minutes: 0,
+        booked_minutes: 0,
+        free_minutes: 0,
+      };
+      if (holiday) day.holiday = holiday;
+
+      if (capacity > 0) {
+        for (const booking of bookings) {
+          const { started_on, ended_on } = booking.attributes;
+          if (started_on > date || ended_on < date) continue;
+
+          const minutes = bookingMinutes(booking, capacity, schedule);
+          const eventId = booking.relationships?.event?.data?.id;
+          if (!eventId) {
+            day.booked_minutes += minutes;
+            continue;
+          }
+
+          const event = events.get(eventId);
+          if (event?.attributes.absence_type === ABSENCE_TYPE.REMOTE_WORK) continue;
+          day.absence_minutes += minutes;
+          if (event?.attributes.name) day.absence = String(event.attributes.name);
+        }
+        day.absence_minutes = Math.min(day.absence_minutes, capacity);
+      }
+
+      day.free_minutes = Math.max(0, capacity - day.absence_minutes - day.booked_minutes);
+
+      totals.capacity_minutes += day.capacity_minutes;
+      totals.absence_minutes += day.absence_minutes;
+      totals.booked_minutes += day.booked_minutes;
+      totals.free_minutes += day.free_minutes;
+
+      return day;
+    });
+
+    return {
+      person_id: person.id,
+      person_name: `${person.attributes.first_name} ${person.attributes.last_name}`,
+      capacity_source: salaries.length > 0 ? 'salary' : 'default',
+      totals,
+      days,
+    };
+  });
+
+  return result;
+}
+
+/**
+ * Compute free time per person per day over a date range.
+ */
+export async function getAvailability(
+  options: GetAvailabilityOptions,
+  ctx: ExecutorContext,
+): Promise<ExecutorResult<AvailabilityResult>> {
+  const after = options.after;
+  const before = options.before ?? options.after;
+  const start = parseDate(after, 'after');
+  const end = parseDate(before, 'before');
+
+  if (end < start) {
+    throw new ExecutorValidationError('"before" must not be earlier than "after"', 'before');
+  }
+  if ((end - start) / DAY_MS + 1 > MAX_AVAILABILITY_DAYS) {
+    throw new ExecutorValidationError(
+      `Date range is too long (max ${MAX_AVAILABILITY_DAYS} days)`,
+      'before',
+    );
+  }
+
+  const people = await fetchPeople(options.personIds, ctx);
+  const result = await computeAvailability(people, after, before, ctx);
+
+  return { data: { after, before, people: result } };
+}
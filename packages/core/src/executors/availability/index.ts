@@ -0,0 +1,8 @@
+export { computeAvailability, getAvailability, MAX_AVAILABILITY_DAYS } from './get.js';
+export type {
+  AvailabilityResult,
+  AvailabilityTotals,
+  DayAvailability,
+  GetAvailabilityOptions,
+  PersonAvailability,
+} from './types.js';
@@ -0,0 +1,45 @@
+export interface GetAvailabilityOptions {
+  /** People to compute availability for (IDs, names or emails). Defaults to all active users. */
+  personIds?: string[];
+  /** First day of the range (YYYY-MM-DD) */
+  after: string;
+  /** Last day of the range, inclusive (YYYY-MM-DD). Defaults to `after`. */
+  before?: string;
+}
+
+/**
+ * Availability of one person on one day. All durations are in minutes.
+ */
+export interface DayAvailability {
+  date: string;
+  capacity_minutes: number;
+  absence_minutes: number;
+  booked_minutes: number;
+  free_minutes: number;
+  /** Name of the public holiday falling on this day */
+  holiday?: string;
+  /** Name of the absence category (e.g. "Vacation") booked on this day */
+  absence?: string;
+}
+
+export interface AvailabilityTotals {
+  capacity_minutes: number;
+  absence_minutes: number;
+  booked_minutes: number;
+  free_minutes: number;
+}
+
+export interface PersonAvailability {
+  person_id: string;
+  person_name: string;
+  /** 'salary' when a working schedule was found, 'default' when a 40h Mon–Fri week was assumed */
+  capacity_source: 'salary' | 'default';
+  totals: AvailabilityTotals;
+  days: DayAvailability[];
+}
+
+export interface AvailabilityResult {
+  after: string;
+  before: string;
+  people: PersonAvailability[];
+}
@@ -0,0 +1,30 @@
+import { describe, expect, it, vi } from 'vitest';
+
+import { createTestExecutorContext } from '../../context/test-utils.js';
+import { archiveBoard, restoreBoard } from './archive.js';
+
+describe('archiveBoard', () => {
+  it('archives board by id', async () => {
+    const archiveBoardApi = vi
+      .fn()
+      .mockResolvedValue({ data: { id: '20', type: 'boards', attributes: {} } });
+    const ctx = createTestExecutorContext({ api: { archiveBoard: archiveBoardApi } });
+
+    await archiveBoard({ id: '20' }, ctx);
+
+    expect(archiveBoardApi).toHaveBeenCalledWith('20');
+  });
+});
+
+describe('restoreBoard', () => {
+  it('restores board by id', async () => {
+    const restoreBoardApi = vi
+      .fn()
+      .mockResolvedValue({ data: { id: '20', type: 'boards', attributes: {} } });
+    const ctx = createTestExecutorContext({ api: { restoreBoard: restoreBoardApi } });
+
+    await restoreBoard({ id: '20' }, ctx);
+
+    expect(restoreBoardApi).toHaveBeenCalledWith('20');
+  });
+});
@@ -0,0 +1,21 @@
+import type { ProductiveBoard } from '@studiometa/productive-api';
+
+import type { ExecutorContext } from '../../context/types.js';
+import type { ExecutorResult } from '../types.js';
+import type { ArchiveBoardOptions, RestoreBoardOptions } from './types.js';
+
+export async function archiveBoard(
+  options: ArchiveBoardOptions,
+  ctx: ExecutorContext,
+): Promise<ExecutorResult<ProductiveBoard>> {
+  const response = await ctx.api.archiveBoard(options.id);
+  return { data: response.data };
+}
+
+export async function restoreBoard(
+  options: RestoreBoardOptions,
+  ctx: ExecutorContext,
+): Promise<ExecutorResult<ProductiveBoard>> {
+  const response = await ctx.api.restoreBoard(options.id);
+  return { data: response.data };
+}
@@ -0,0 +1,26 @@
+import { describe, expect, it, vi } from 'vitest';
+
+import { createTestExecutorContext } from '../../context/test-utils.js';
+import { createBoard } from './create.js';
+
+describe('createBoard', () => {
+  it('resolves the project and creates the board', async () => {
+    const createBoardApi = vi
+      .fn()
+      .mockResolvedValue({ data: { id: '20', type: 'boards', attributes: { name: 'Dev' } } });
+    const resolveValue = vi.fn().mockResolvedValue('100');
+    const ctx = createTestExecutorContext({
+      api: { createBoard: createBoardApi },
+      resolver: { resolveValue },
+    });
+
+    await createBoard({ name: 'Dev', projectId: 'PRJ-1' }, ctx);
+
+    expect(resolveValue).toHaveBeenCalledWith('PRJ-1', 'project');
+    expect(createBoardApi).toHaveBeenCalledWith({
+      name: 'Dev',
+      project_id: '100',
+      position: undefined,
+    });
+  });
+});
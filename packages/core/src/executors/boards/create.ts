@@ -0,0 +1,20 @@
+import type { ProductiveBoard } from '@studiometa/productive-api';
+
+import type { ExecutorContext } from '../../context/types.js';
+import type { ExecutorResult } from '../types.js';
+import type { CreateBoardOptions } from './types.js';
+
+export async function createBoard(
+  options: CreateBoardOptions,
+  ctx: ExecutorContext,
+): Promise<ExecutorResult<ProductiveBoard>> {
+  const projectId = await ctx.resolver.resolveValue(options.projectId, 'project');
+
+  const response = await ctx.api.createBoard({
+    name: options.name,
+    project_id: projectId,
+    position: options.position,
+  });
+
+  return { data: response.data };
+}
@@ -0,0 +1,17 @@
+import { describe, expect, it, vi } from 'vitest';
+
+import { createTestExecutorContext } from '../../context/test-utils.js';
+import { getBoard } from './get.js';
+
+describe('getBoard', () => {
+  it('includes the project by default', async () => {
+    const getBoardApi = vi
+      .fn()
+      .mockResolvedValue({ data: { id: '20', type: 'boards', attributes: { name: 'Dev' } } });
+    const ctx = createTestExecutorContext({ api: { getBoard: getBoardApi } });
+
+    await getBoard({ id: '20' }, ctx);
+
+    expect(getBoardApi).toHaveBeenCalledWith('20', { include: ['project'] });
+  });
+});
@@ -0,0 +1,15 @@
+import type { ProductiveBoard } from '@studiometa/productive-api';
+
+import type { ExecutorContext } from '../../context/types.js';
+import type { ExecutorResult } from '../types.js';
+import type { GetBoardOptions } from './types.js';
+
+export async function getBoard(
+  options: GetBoardOptions,
+  ctx: ExecutorContext,
+): Promise<ExecutorResult<ProductiveBoard>> {
+  const response = await ctx.api.getBoard(options.id, {
+    include: options.include ?? ['project'],
+  });
+  return { data: response.data, included: response.included };
+}
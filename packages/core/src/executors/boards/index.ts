@@ -0,0 +1,13 @@
+export { archiveBoard, restoreBoard } from './archive.js';
+export { createBoard } from './create.js';
+export { getBoard } from './get.js';
+export { buildBoardFilters, listBoards } from './list.js';
+export { updateBoard } from './update.js';
+export type {
+  ArchiveBoardOptions,
+  CreateBoardOptions,
+  GetBoardOptions,
+  ListBoardsOptions,
+  RestoreBoardOptions,
+  UpdateBoardOptions,
+} from './types.js';
@@ -0,0 +1,44 @@
+import { describe, expect, it, vi } from 'vitest';
+
+import { createTestExecutorContext } from '../../context/test-utils.js';
+import { buildBoardFilters, listBoards } from './list.js';
+
+describe('buildBoardFilters', () => {
+  it('defaults to active boards', () => {
+    expect(buildBoardFilters({ projectId: '100' })).toEqual({ project_id: '100', status: '1' });
+  });
+
+  it('maps archived status and merges additionalFilters', () => {
+    expect(buildBoardFilters({ status: 'archived', additionalFilters: { name: 'x' } })).toEqual({
+      name: 'x',
+      status: '2',
+    });
+  });
+
+  it('keeps a raw status filter from additionalFilters', () => {
+    expect(buildBoardFilters({ additionalFilters: { status: '2' } })).toEqual({ status: '2' });
+  });
+});
+
+describe('listBoards', () => {
+  it('resolves filters and includes the project', async () => {
+    const mockResponse = {
+      data: [{ id: '20', type: 'boards', attributes: { name: 'Development' } }],
+      meta: {},
+    };
+    const getBoards = vi.fn().mockResolvedValue(mockResponse);
+    const ctx = createTestExecutorContext({ api: { getBoards } });
+
+    const result = await listBoards({ projectId: '100', perPage: 20 }, ctx);
+
+    expect(getBoards).toHaveBeenCalledWith({
+      page: 1,
+      perPage: 20,
+      sort: undefined,
+      filter: { project_id: '100', status: '1' },
+      include: ['project'],
+    });
+    expect(result.data).toEqual(mockResponse.data);
+    expect(result.resolved).toBeUndefined();
+  });
+});
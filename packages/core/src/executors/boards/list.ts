@@ -0,0 +1,46 @@
+import type { ProductiveBoard } from '@studiometa/productive-api';
+
+import { BOARD_STATUS } from '@studiometa/productive-api';
+
+import type { ExecutorContext } from '../../context/types.js';
+import type { ExecutorResult } from '../types.js';
+import type { ListBoardsOptions } from './types.js';
+
+import { buildListParams } from '../types.js';
+
+export function buildBoardFilters(options: ListBoardsOptions): Record<string, string> {
+  const filter: Record<string, string> = {};
+
+  if (options.additionalFilters) Object.assign(filter, options.additionalFilters);
+  if (options.projectId) filter.project_id = options.projectId;
+
+  // A raw status passed through additionalFilters wins over the 'active' default
+  if (options.status || !filter.status) {
+    const status = (options.status || 'active').toLowerCase();
+    const mapped = BOARD_STATUS.toValue(status);
+    if (mapped !== status) filter.status = mapped;
+  }
+
+  return filter;
+}
+
+export async function listBoards(
+  options: ListBoardsOptions,
+  ctx: ExecutorContext,
+): Promise<ExecutorResult<ProductiveBoard[]>> {
+  const filter = buildBoardFilters(options);
+  const { resolved: resolvedFilter, metadata } = await ctx.resolver.resolveFilters(filter);
+
+  const response = await ctx.api.getBoards({
+    ...buildListParams(options),
+    filter: resolvedFilter,
+    include: options.include ?? ['project'],
+  });
+
+  return {
+    data: response.data,
+    meta: response.meta,
+    included: response.included,
+    resolved: Object.keys(metadata).length > 0 ? metadata : undefined,
+  };
+}
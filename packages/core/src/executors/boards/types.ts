@@ -0,0 +1,34 @@
+import type { PaginationOptions } from '../types.js';
+
+export interface ListBoardsOptions extends PaginationOptions {
+  projectId?: string;
+  /** Status: 'active' | 'archived' (default: 'active') */
+  status?: string;
+  additionalFilters?: Record<string, string>;
+}
+
+export interface GetBoardOptions {
+  id: string;
+  include?: string[];
+}
+
+export interface CreateBoardOptions {
+  name: string;
+  projectId: string;
+  position?: number;
+}
+
+export interface UpdateBoardOptions {
+  id: string;
+  name?: string;
+  /** Reorder the board within its project */
+  position?: number;
+}
+
+export interface ArchiveBoardOptions {
+  id: string;
+}
+
+export interface RestoreBoardOptions {
+  id: string;
+}
@@ -0,0 +1,23 @@
+import { describe, expect, it, vi } from 'vitest';
+
+import { createTestExecutorContext } from '../../context/test-utils.js';
+import { ExecutorValidationError } from '../errors.js';
+import { updateBoard } from './update.js';
+
+describe('updateBoard', () => {
+  it('sends only provided fields', async () => {
+    const updateBoardApi = vi
+      .fn()
+      .mockResolvedValue({ data: { id: '20', type: 'boards', attributes: {} } });
+    const ctx = createTestExecutorContext({ api: { updateBoard: updateBoardApi } });
+
+    await updateBoard({ id: '20', name: 'Design' }, ctx);
+
+    expect(updateBoardApi).toHaveBeenCalledWith('20', { name: 'Design' });
+  });
+
+  it('throws when no fields are given', async () => {
+    const ctx = createTestExecutorContext();
+    await expect(updateBoard({ id: '20' }, ctx)).rejects.toThrow(ExecutorValidationError);
+  });
+});
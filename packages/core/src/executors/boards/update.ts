@@ -0,0 +1,27 @@
+import type { ProductiveBoard } from '@studiometa/productive-api';
+
+import type { ExecutorContext } from '../../context/types.js';
+import type { ExecutorResult } from '../types.js';
+import type { UpdateBoardOptions } from './types.js';
+
+import { ExecutorValidationError } from '../errors.js';
+
+export async function updateBoard(
+  options: UpdateBoardOptions,
+  ctx: ExecutorContext,
+): Promise<ExecutorResult<ProductiveBoard>> {
+  const data: Record<string, string | number | undefined> = {};
+
+  if (options.name !== undefined) data.name = options.name;
+  if (options.position !== undefined) data.position = options.position;
+
+  if (Object.keys(data).length === 0) {
+    throw new ExecutorValidationError(
+      'No updates specified. Provide at least one field to update',
+      'options',
+    );
+  }
+
+  const response = await ctx.api.updateBoard(options.id, data);
+  return { data: response.data };
+}
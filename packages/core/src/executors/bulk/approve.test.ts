@@ -0,0 +1,97 @@
+import { describe, expect, it, vi } from 'vitest';
+
+import { createTestExecutorContext } from '../../context/test-utils.js';
+import { createDateService } from '../../dates/date-service.js';
+import { ExecutorValidationError } from '../errors.js';
+import { bulkApprove } from './approve.js';
+
+const entries = {
+  data: [
+    { id: '7', type: 'time_entries', attributes: { date: '2026-10-12', time: 90 } },
+    { id: '8', type: 'time_entries', attributes: { date: '2026-10-13', time: 30 } },
+  ],
+  meta: { total_pages: 1 },
+};
+
+// Monday 2026-10-19
+const dates = createDateService({
+  timezone: 'UTC',
+  clock: () => new Date('2026-10-19T12:00:00Z'),
+});
+
+describe('bulkApprove', () => {
+  it("approves a person's unapproved entries for a week", async () => {
+    const getTimeEntries = vi.fn().mockResolvedValue(entries);
+    const approveTimeEntry = vi.fn().mockResolvedValue({ data: {} });
+    const ctx = createTestExecutorContext({ api: { getTimeEntries, approveTimeEntry }, dates });
+
+    const result = await bulkApprove(
+      {
+        resource: 'time_entries',
+        action: 'approve',
+        filter: { person_id: '500', period: 'last week' },
+      },
+      ctx,
+    );
+
+    expect(getTimeEntries).toHaveBeenCalledWith(
+      expect.objectContaining({
+        filter: { status: '2', person_id: '500', after: '2026-10-12', before: '2026-10-18' },
+      }),
+    );
+    expect(approveTimeEntry.mock.calls).toEqual([['7'], ['8']]);
+    expect(result.data).toMatchObject({ action: 'bulk_approve', total: 2, succeeded: 2 });
+    expect(result.dates?.before).toEqual({ input: 'last week', date: '2026-10-18' });
+  });
+
+  it('selects approved entries to unapprove and rejects with a reason', async () => {
+    const getTimeEntries = vi.fn().mockResolvedValue(entries);
+    const rejectTimeEntry = vi.fn().mockResolvedValue({ data: {} });
+    const ctx = createTestExecutorContext({ api: { getTimeEntries, rejectTimeEntry }, dates });
+
+    await bulkApprove(
+      { resource: 'time_entries', action: 'unapprove', filter: { person_id: '5' }, dryRun: true },
+      ctx,
+    );
+    expect(getTimeEntries).toHaveBeenLastCalledWith(
+      expect.objectContaining({ filter: { status: '1', person_id: '5' } }),
+    );
+
+    const result = await bulkApprove(
+      {
+        resource: 'time_entries',
+        action: 'reject',
+        filter: { person_id: '5' },
+        reason: 'Missing notes',
+      },
+      ctx,
+    );
+    expect(rejectTimeEntry).toHaveBeenCalledWith('7', 'Missing notes');
+    expect(result.data.action).toBe('bulk_reject');
+  });
+
+  it('lists without changing anything on a dry run', async () => {
+    const approveTimeEntry = vi.fn();
+    const ctx = createTestExecutorContext({
+      api: { getTimeEntries: vi.fn().mockResolvedValue(entries), approveTimeEntry },
+      dates,
+    });
+
+    const result = await bulkApprove(
+      { resource: 'time_entries', action: 'approve', filter: { person_id: '5' }, dryRun: true },
+      ctx,
+    );
+
+    expect(approveTimeEntry).not.toHaveBeenCalled();
+    expect(result.data).toMatchObject({ dry_run: true, total: 2, succeeded: 0 });
+    expect(result.data.items[0].status).toBe('pending');
+  });
+
+  it('requires a filter', async () => {
+    const ctx = createTestExecutorContext({ dates });
+
+    await expect(
+      bulkApprove({ resource: 'time_entries', action: 'approve', filter: {} }, ctx),
+    ).rejects.toThrow(ExecutorValidationError);
+  });
+});
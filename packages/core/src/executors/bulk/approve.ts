@@ -0,0 +1,88 @@
+/**
+ * Bulk approval executor.
+ *
+ * Approves, unapproves or rejects every time entry matching a filter, e.g. a
+ * person's week. Without a status in the filter, approving and rejecting
+ * select unapproved entries and unapproving selects approved ones, so a run
+ * never touches entries that are already in the target state.
+ */
+
+import { TIME_STATUS } from '@studiometa/productive-api';
+
+import type { ExecutorContext } from '../../context/types.js';
+import type { ExecutorResult } from '../types.js';
+import type { BulkApprovalAction, BulkApproveOptions, BulkResult } from './types.js';
+
+import { getDateService } from '../../dates/date-service.js';
+import { resolveDateFilters } from '../../dates/filters.js';
+import { ExecutorValidationError } from '../errors.js';
+import { runOnItems, selectRecords } from './select.js';
+
+const SELECTED_STATUS: Record<BulkApprovalAction, string> = {
+  approve: TIME_STATUS.UNAPPROVED,
+  unapprove: TIME_STATUS.APPROVED,
+  reject: TIME_STATUS.UNAPPROVED,
+};
+
+/**
+ * Change the approval of every time entry matching the filter.
+ *
+ * Date expressions in the filter ("last-week", "2026-W42") are resolved
+ * like in `listTimeEntries`.
+ */
+export async function bulkApprove(
+  options: BulkApproveOptions,
+  ctx: ExecutorContext,
+): Promise<ExecutorResult<BulkResult>> {
+  if (options.resource !== 'time_entries') {
+    throw new ExecutorValidationError(
+      `Bulk approval is not supported for ${options.resource as string}`,
+      'resource',
+    );
+  }
+  if (!(options.action in SELECTED_STATUS)) {
+    throw new ExecutorValidationError(
+      `Unknown approval action "${options.action as string}". Use approve, unapprove or reject`,
+      'action',
+    );
+  }
+  if (Object.keys(options.filter).length === 0) {
+    throw new ExecutorValidationError(
+      'A filter is required to select the records to change',
+      'filter',
+    );
+  }
+
+  const { filter, dates } = resolveDateFilters(
+    { status: SELECTED_STATUS[options.action], ...options.filter },
+    getDateService(ctx),
+  );
+  const items = await selectRecords({ ...options, filter }, ctx);
+
+  if (!options.dryRun) {
+    await runOnItems(items, options.concurrency, (id) => {
+      switch (options.action) {
+        case 'approve':
+          return ctx.api.approveTimeEntry(id);
+        case 'unapprove':
+          return ctx.api.unapproveTimeEntry(id);
+        case 'reject':
+          return ctx.api.rejectTimeEntry(id, options.reason);
+      }
+    });
+  }
+
+  return {
+    data: {
+      action: `bulk_${options.action}`,
+      resource: options.resource,
+      dry_run: options.dryRun ?? false,
+      filter,
+      items,
+      total: items.length,
+      succeeded: items.filter((item) => item.status === 'succeeded').length,
+      failed: items.filter((item) => item.status === 'failed').length,
+    },
+    dates: Object.keys(dates).length > 0 ? dates : undefined,
+  };
+}
@@ -0,0 +1,63 @@
+import { describe, expect, it, vi } from 'vitest';
+
+import { createTestExecutorContext } from '../../context/test-utils.js';
+import { bulkDelete } from './delete.js';
+
+const entries = {
+  data: [
+    { id: '7', type: 'time_entries', attributes: { date: '2024-01-15', time: 90, note: 'Oops' } },
+    { id: '8', type: 'time_entries', attributes: { date: '2024-01-16', time: 30 } },
+  ],
+  meta: { total_pages: 1 },
+};
+
+describe('bulkDelete', () => {
+  it('deletes every matching time entry', async () => {
+    const deleteTimeEntry = vi.fn().mockResolvedValue(undefined);
+    const ctx = createTestExecutorContext({
+      api: { getTimeEntries: vi.fn().mockResolvedValue(entries), deleteTimeEntry },
+    });
+
+    const result = await bulkDelete(
+      { resource: 'time_entries', filter: { service_id: '100' } },
+      ctx,
+    );
+
+    expect(deleteTimeEntry.mock.calls).toEqual([['7'], ['8']]);
+    expect(result.data).toMatchObject({ action: 'bulk_delete', total: 2, succeeded: 2 });
+  });
+
+  it('resolves the filter before listing', async () => {
+    const getTimeEntries = vi.fn().mockResolvedValue(entries);
+    const ctx = createTestExecutorContext({
+      api: { getTimeEntries },
+      resolver: {
+        resolveFilters: vi.fn().mockResolvedValue({ resolved: { person_id: '500' }, metadata: {} }),
+      },
+    });
+
+    await bulkDelete({ resource: 'time_entries', filter: { person_id: 'me' }, dryRun: true }, ctx);
+
+    expect(getTimeEntries).toHaveBeenCalledWith(
+      expect.objectContaining({ filter: { person_id: '500' } }),
+    );
+  });
+
+  it('keeps going when a deletion fails', async () => {
+    const deleteTimeEntry = vi
+      .fn()
+      .mockRejectedValueOnce(new Error('Time entry is locked'))
+      .mockResolvedValueOnce(undefined);
+    const ctx = createTestExecutorContext({
+      api: { getTimeEntries: vi.fn().mockResolvedValue(entries), deleteTimeEntry },
+    });
+
+    const result = await bulkDelete(
+      { resource: 'time_entries', filter: { service_id: '100' }, concurrency: 1 },
+      ctx,
+    );
+
+    expect(result.data).toMatchObject({ succeeded: 1, failed: 1 });
+    expect(result.data.items[0].error).toBe('Time entry is locked');
+  });
+});
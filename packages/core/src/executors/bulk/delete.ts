@@ -0,0 +1,46 @@
+/**
+ * Bulk delete executor.
+ *
+ * Deletes every time entry matching a filter. A dry run only lists them, and
+ * a failing entry never stops the others.
+ */
+
+import type { ExecutorContext } from '../../context/types.js';
+import type { ExecutorResult } from '../types.js';
+import type { BulkDeleteOptions, BulkResult } from './types.js';
+
+import { ExecutorValidationError } from '../errors.js';
+import { runOnItems, selectRecords } from './select.js';
+
+/**
+ * Delete every record matching the filter.
+ */
+export async function bulkDelete(
+  options: BulkDeleteOptions,
+  ctx: ExecutorContext,
+): Promise<ExecutorResult<BulkResult>> {
+  if (options.resource !== 'time_entries') {
+    throw new ExecutorValidationError(
+      `Bulk delete is not supported for ${options.resource as string}`,
+      'resource',
+    );
+  }
+
+  const items = await selectRecords(options, ctx);
+  if (!options.dryRun) {
+    await runOnItems(items, options.concurrency, (id) => ctx.api.deleteTimeEntry(id));
+  }
+
+  return {
+    data: {
+      action: 'bulk_delete',
+      resource: options.resource,
+      dry_run: options.dryRun ?? false,
+      filter: options.filter,
+      items,
+      total: items.length,
+      succeeded: items.filter((item) => item.status === 'succeeded').length,
+      failed: items.filter((item) => item.status === 'failed').length,
+    },
+  };
+}
@@ -0,0 +1,19 @@
+/**
+ * Bulk executors — change, delete or approve every record matching a filter.
+ */
+
+export { bulkApprove } from './approve.js';
+export { bulkDelete } from './delete.js';
+export { bulkUpdate } from './update.js';
+
+export type {
+  BulkApprovalAction,
+  BulkApproveOptions,
+  BulkDeleteOptions,
+  BulkItemResult,
+  BulkItemStatus,
+  BulkResource,
+  BulkResult,
+  BulkSelectionOptions,
+  BulkUpdateOptions,
+} from './types.js';
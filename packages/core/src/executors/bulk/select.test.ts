@@ -0,0 +1,119 @@
+import { describe, expect, it, vi } from 'vitest';
+
+import type { BulkItemResult } from './types.js';
+
+import { createTestExecutorContext } from '../../context/test-utils.js';
+import { ExecutorValidationError } from '../errors.js';
+import { runOnItems, selectRecords } from './select.js';
+
+function entry(id: string, attributes: Record<string, unknown> = {}) {
+  return { id, type: 'time_entries', attributes: { date: '2024-01-15', time: 60, ...attributes } };
+}
+
+function page(data: unknown[], totalPages = 1) {
+  return { data, meta: { total_pages: totalPages } };
+}
+
+function pending(...ids: string[]): BulkItemResult[] {
+  return ids.map((id) => ({ id, label: id, status: 'pending' }));
+}
+
+describe('selectRecords', () => {
+  it('lists the matching records with a label', async () => {
+    const getTimeEntries = vi
+      .fn()
+      .mockResolvedValue(page([entry('1', { note: 'Review' }), entry('2')]));
+    const ctx = createTestExecutorContext({ api: { getTimeEntries } });
+
+    const items = await selectRecords(
+      { resource: 'time_entries', filter: { person_id: '500' } },
+      ctx,
+    );
+
+    expect(getTimeEntries).toHaveBeenCalledWith({
+      filter: { person_id: '500' },
+      page: 1,
+      perPage: 200,
+    });
+    expect(items).toEqual([
+      { id: '1', label: '2024-01-15 · 60m · Review', status: 'pending' },
+      { id: '2', label: '2024-01-15 · 60m', status: 'pending' },
+    ]);
+  });
+
+  it('resolves the filter before listing', async () => {
+    const getTimeEntries = vi.fn().mockResolvedValue(page([]));
+    const resolveFilters = vi.fn().mockResolvedValue({ resolved: { person_id: '500' } });
+    const ctx = createTestExecutorContext({
+      api: { getTimeEntries },
+      resolver: { resolveFilters },
+    });
+
+    await selectRecords({ resource: 'time_entries', filter: { person_id: 'me' } }, ctx);
+
+    expect(resolveFilters).toHaveBeenCalledWith({ person_id: 'me' });
+    expect(getTimeEntries).toHaveBeenCalledWith(
+      expect.objectContaining({ filter: { person_id: '500' } }),
+    );
+  });
+
+  it('only keeps the given records that still match the filter', async () => {
+    const getTimeEntries = vi
+      .fn()
+      .mockResolvedValueOnce(page([entry('1'), entry('2')], 2))
+      .mockResolvedValueOnce(page([entry('3'), entry('4')], 2));
+    const ctx = createTestExecutorContext({ api: { getTimeEntries } });
+
+    const items = await selectRecords(
+      { resource: 'time_entries', filter: { person_id: '500' }, ids: ['2', '4', '9'], limit: 2 },
+      ctx,
+    );
+
+    expect(items.map((item) => item.id)).toEqual(['2', '4']);
+  });
+
+  it('refuses selections over the limit and empty filters', async () => {
+    const getTimeEntries = vi.fn().mockResolvedValue(page([entry('1'), entry('2')]));
+    const ctx = createTestExecutorContext({ api: { getTimeEntries } });
+
+    await expect(
+      selectRecords({ resource: 'time_entries', filter: { person_id: '500' }, limit: 1 }, ctx),
+    ).rejects.toThrow('More than 1 records match the filter');
+    await expect(selectRecords({ resource: 'time_entries', filter: {} }, ctx)).rejects.toThrow(
+      ExecutorValidationError,
+    );
+  });
+});
+
+describe('runOnItems', () => {
+  it('records the outcome of every item', async () => {
+    const items = pending('1', '2', '3');
+    const change = vi.fn(async (id: string) => {
+      if (id === '2') throw new Error('Locked');
+    });
+
+    await runOnItems(items, undefined, change);
+
+    expect(change).toHaveBeenCalledTimes(3);
+    expect(items.map((item) => [item.id, item.status, item.error])).toEqual([
+      ['1', 'succeeded', undefined],
+      ['2', 'failed', 'Locked'],
+      ['3', 'succeeded', undefined],
+    ]);
+  });
+
+  it('caps the concurrency', async () => {
+    let inFlight = 0;
+    let maxInFlight = 0;
+    const change = async () => {
+      inFlight++;
+      maxInFlight = Math.max(maxInFlight, inFlight);
+      await new Promise((resolve) => setTimeout(resolve, 1));
+      inFlight--;
+    };
+
+    await runOnItems(pending(...'abcdefghijklmn'), 50, change);
+
+    expect(maxInFlight).toBe(10);
+  });
+});
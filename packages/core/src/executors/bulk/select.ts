@@ -0,0 +1,115 @@
+/**
+ * Record selection and execution shared by the bulk executors.
+ *
+ * Records are listed page by page from the filter, then changed a few at a
+ * time: the API client's rate limiter paces the requests, the concurrency
+ * bound keeps a large selection from queueing them all at once.
+ */
+
+import type { ProductiveTask, ProductiveTimeEntry } from '@studiometa/productive-api';
+
+import type { ExecutorContext } from '../../context/types.js';
+import type { BulkItemResult, BulkSelectionOptions } from './types.js';
+
+import { ExecutorValidationError } from '../errors.js';
+
+const DEFAULT_LIMIT = 200;
+const DEFAULT_CONCURRENCY = 4;
+const MAX_CONCURRENCY = 10;
+const PAGE_SIZE = 200;
+
+function taskLabel(task: ProductiveTask): string {
+  const { number, title } = task.attributes;
+  return number ? `#${number} ${title}` : title;
+}
+
+function timeEntryLabel(entry: ProductiveTimeEntry): string {
+  const { date, time, note } = entry.attributes;
+  return [date, `${time}m`, note].filter(Boolean).join(' · ');
+}
+
+async function listPage(
+  options: BulkSelectionOptions,
+  filter: Record<string, string>,
+  page: number,
+  ctx: ExecutorContext,
+): Promise<{ items: BulkItemResult[]; totalPages: number }> {
+  const params = { filter, page, perPage: PAGE_SIZE };
+  const response =
+    options.resource === 'tasks'
+      ? await ctx.api.getTasks(params)
+      : await ctx.api.getTimeEntries(params);
+
+  const items = response.data.map((record) => ({
+    id: record.id,
+    label:
+      options.resource === 'tasks'
+        ? taskLabel(record as ProductiveTask)
+        : timeEntryLabel(record as ProductiveTimeEntry),
+    status: 'pending' as const,
+  }));
+  return { items, totalPages: response.meta?.total_pages ?? 1 };
+}
+
+/**
+ * List every record matching the filter, or those of `ids` that still match
+ * it, refusing selections over the limit
+ */
+export async function selectRecords(
+  options: BulkSelectionOptions,
+  ctx: ExecutorContext,
+): Promise<BulkItemResult[]> {
+  if (Object.keys(options.filter).length === 0) {
+    throw new ExecutorValidationError(
+      'A filter is required to select the records to change',
+      'filter',
+    );
+  }
+
+  const limit = options.limit ?? DEFAULT_LIMIT;
+  const { resolved } = await ctx.resolver.resolveFilters(options.filter);
+  const ids = options.ids && new Set(options.ids);
+  const items: BulkItemResult[] = [];
+
+  for (let page = 1; ; page++) {
+    const result = await listPage(options, resolved, page, ctx);
+    items.push(...(ids ? result.items.filter((item) => ids.has(item.id)) : result.items));
+
+    if (items.length > limit) {
+      throw new ExecutorValidationError(
+        `More than ${limit} records match the filter. Narrow it down or raise the limit`,
+        'limit',
+      );
+    }
+    if (page >= result.totalPages || result.items.length === 0) break;
+  }
+
+  return items;
+}
+
+/**
+ * Run `change` on every pending item, a few at a time, recording each outcome
+ */
+export async function runOnItems(
+  items: BulkItemResult[],
+  concurrency: number | undefined,
+  change: (id: string) => Promise<unknown>,
+): Promise<void> {
+  const workers = Math.max(1, Math.min(concurrency ?? DEFAULT_CONCURRENCY, MAX_CONCURRENCY));
+  let next = 0;
+
+  const work = async () => {
+    while (next < items.length) {
+      const item = items[next++];
+      try {
+        await change(item.id);
+        item.status = 'succeeded';
+      } catch (error) {
+        item.status = 'failed';
+        item.error = error instanceof Error ? error.message : String(error);
+      }
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(workers, items.length) }, work));
+}
@@ -0,0 +1,77 @@
+/**
+ * Option and result types for bulk executors.
+ */
+
+/**
+ * Resources that can be changed in bulk
+ */
+export type BulkResource = 'tasks' | 'time_entries';
+
+export interface BulkSelectionOptions {
+  resource: BulkResource;
+  /** API filters selecting the records, e.g. `{ project_id: '123' }` */
+  filter: Record<string, string>;
+  /** Refuse to run when more records match (default: 200) */
+  limit?: number;
+  /** Requests sent in parallel (default: 4, at most 10) */
+  concurrency?: number;
+  /** List the matching records without changing anything */
+  dryRun?: boolean;
+  /**
+   * Only change these records, e.g. those a dry run listed: records matching
+   * the filter since then are left alone, and listed ones that no longer
+   * match are not changed
+   */
+  ids?: string[];
+}
+
+export interface BulkUpdateOptions extends BulkSelectionOptions {
+  /**
+   * Fields to change, e.g. `{ assignee: 'me' }`. Tasks accept title,
+   * description, assignee, status, due_date, start_date, estimate, private
+   * and closed; time entries accept time, billable_time, date and note.
+   */
+  set: Record<string, string>;
+}
+
+export interface BulkDeleteOptions extends BulkSelectionOptions {
+  resource: 'time_entries';
+}
+
+/**
+ * Approval changes that can be made in bulk
+ */
+export type BulkApprovalAction = 'approve' | 'unapprove' | 'reject';
+
+export interface BulkApproveOptions extends BulkSelectionOptions {
+  resource: 'time_entries';
+  action: BulkApprovalAction;
+  /** Rejection reason, for `reject` */
+  reason?: string;
+}
+
+/**
+ * Outcome of a record: `pending` records would be changed by a real run
+ */
+export type BulkItemStatus = 'pending' | 'succeeded' | 'failed';
+
+export interface BulkItemResult {
+  id: string;
+  /** Short description, e.g. the task title */
+  label: string;
+  status: BulkItemStatus;
+  error?: string;
+}
+
+export interface BulkResult {
+  action: 'bulk_update' | 'bulk_delete' | 'bulk_approve' | 'bulk_unapprove' | 'bulk_reject';
+  resource: BulkResource;
+  dry_run: boolean;
+  filter: Record<string, string>;
+  /** Fields changed by a bulk update */
+  set?: Record<string, string>;
+  items: BulkItemResult[];
+  total: number;
+  succeeded: number;
+  failed: number;
+}
@@ -0,0 +1,192 @@
+import { describe, expect, it, vi } from 'vitest';
+
+import { createTestExecutorContext } from '../../context/test-utils.js';
+import { ExecutorValidationError } from '../errors.js';
+import { bulkUpdate } from './update.js';
+
+function task(id: string, title: string, number?: string) {
+  return { id, type: 'tasks', attributes: { title, number }, relationships: {} };
+}
+
+function page(data: unknown[], totalPages = 1) {
+  return { data, meta: { total_pages: totalPages } };
+}
+
+describe('bulkUpdate', () => {
+  it('updates every matching task', async () => {
+    const getTasks = vi
+      .fn()
+      .mockResolvedValue(page([task('1', 'Fix login', '12'), task('2', 'Add logout')]));
+    const updateTask = vi.fn().mockResolvedValue({ data: task('1', 'Fix login') });
+    const ctx = createTestExecutorContext({
+      api: { getTasks, updateTask },
+      resolver: { resolveValue: vi.fn().mockResolvedValue('500') },
+    });
+
+    const result = await bulkUpdate(
+      { resource: 'tasks', filter: { project_id: '10' }, set: { assignee: 'me' } },
+      ctx,
+    );
+
+    expect(getTasks).toHaveBeenCalledWith({ filter: { project_id: '10' }, page: 1, perPage: 200 });
+    expect(updateTask).toHaveBeenCalledTimes(2);
+    expect(updateTask).toHaveBeenCalledWith('2', { assignee_id: '500' });
+    expect(result.data).toMatchObject({
+      action: 'bulk_update',
+      dry_run: false,
+      total: 2,
+      succeeded: 2,
+      failed: 0,
+    });
+    expect(result.data.items[0]).toEqual({ id: '1', label: '#12 Fix login', status: 'succeeded' });
+  });
+
+  it('only lists the records in a dry run', async () => {
+    const getTimeEntries = vi.fn().mockResolvedValue(
+      page([
+        {
+          id: '7',
+          type: 'time_entries',
+          attributes: { date: '2024-01-15', time: 90, note: 'Review' },
+        },
+      ]),
+    );
+    const updateTimeEntry = vi.fn();
+    const ctx = createTestExecutorContext({ api: { getTimeEntries, updateTimeEntry } });
+
+    const result = await bulkUpdate(
+      {
+        resource: 'time_entries',
+        filter: { after: '2024-01-15' },
+        set: { note: 'Sprint review' },
+        dryRun: true,
+      },
+      ctx,
+    );
+
+    expect(updateTimeEntry).not.toHaveBeenCalled();
+    expect(result.data.items).toEqual([
+      { id: '7', label: '2024-01-15 · 90m · Review', status: 'pending' },
+    ]);
+  });
+
+  it('reports failures per record', async () => {
+    const getTimeEntries = vi.fn().mockResolvedValue(
+      page([
+        { id: '7', type: 'time_entries', attributes: { date: '2024-01-15', time: 90 } },
+        { id: '8', type: 'time_entries', attributes: { date: '2024-01-15', time: 30 } },
+      ]),
+    );
+    const updateTimeEntry = vi
+      .fn()
+      .mockRejectedValueOnce(new Error('Locked'))
+      .mockResolvedValueOnce({ data: { id: '8' } });
+    const ctx = createTestExecutorContext({ api: { getTimeEntries, updateTimeEntry } });
+
+    const result = await bulkUpdate(
+      { resource: 'time_entries', filter: { after: '2024-01-15' }, set: { time: '1h30' } },
+      ctx,
+    );
+
+    expect(updateTimeEntry).toHaveBeenCalledWith('8', { time: 90 });
+    expect(result.data.items.map((item) => [item.status, item.error])).toEqual([
+      ['failed', 'Locked'],
+      ['succeeded', undefined],
+    ]);
+    expect(result.data).toMatchObject({ succeeded: 1, failed: 1 });
+  });
+
+  it('limits the requests in flight', async () => {
+    const tasks = Array.from({ length: 6 }, (_, index) => task(String(index), `Task ${index}`));
+    let inFlight = 0;
+    let maxInFlight = 0;
+    const updateTask = vi.fn(async () => {
+      inFlight++;
+      maxInFlight = Math.max(maxInFlight, inFlight);
+      await new Promise((resolve) => setTimeout(resolve, 1));
+      inFlight--;
+      return { data: tasks[0] };
+    });
+    const ctx = createTestExecutorContext({
+      api: { getTasks: vi.fn().mockResolvedValue(page(tasks)), updateTask },
+    });
+
+    await bulkUpdate(
+      { resource: 'tasks', filter: { project_id: '10' }, set: { closed: 'true' }, concurrency: 2 },
+      ctx,
+    );
+
+    expect(updateTask).toHaveBeenCalledTimes(6);
+    expect(maxInFlight).toBe(2);
+  });
+
+  it('reads every page of the selection', async () => {
+    const getTasks = vi
+      .fn()
+      .mockResolvedValueOnce(page([task('1', 'One')], 2))
+      .mockResolvedValueOnce(page([task('2', 'Two')], 2));
+    const ctx = createTestExecutorContext({ api: { getTasks } });
+
+    const result = await bulkUpdate(
+      { resource: 'tasks', filter: { project_id: '10' }, set: { title: 'Done' }, dryRun: true },
+      ctx,
+    );
+
+    expect(getTasks).toHaveBeenLastCalledWith(expect.objectContaining({ page: 2 }));
+    expect(result.data.total).toBe(2);
+  });
+
+  it('only updates the given records', async () => {
+    const getTasks = vi.fn().mockResolvedValue(page([task('1', 'One'), task('2', 'New')]));
+    const updateTask = vi.fn().mockResolvedValue({ data: task('1', 'One') });
+    const ctx = createTestExecutorContext({ api: { getTasks, updateTask } });
+
+    const result = await bulkUpdate(
+      { resource: 'tasks', filter: { project_id: '10' }, set: { title: 'Done' }, ids: ['1'] },
+      ctx,
+    );
+
+    expect(updateTask).toHaveBeenCalledTimes(1);
+    expect(updateTask).toHaveBeenCalledWith('1', { title: 'Done' });
+    expect(result.data.total).toBe(1);
+  });
+
+  it('refuses selections over the limit', async () => {
+    const getTasks = vi.fn().mockResolvedValue(page([task('1', 'One'), task('2', 'Two')]));
+    const ctx = createTestExecutorContext({ api: { getTasks } });
+
+    await expect(
+      bulkUpdate(
+        { resource: 'tasks', filter: { project_id: '10' }, set: { title: 'Done' }, limit: 1 },
+        ctx,
+      ),
+    ).rejects.toThrow('More than 1 records match the filter');
+  });
+
+  it('validates the changes before listing anything', async () => {
+    const getTasks = vi.fn();
+    const ctx = createTestExecutorContext({ api: { getTasks } });
+
+    await expect(
+      bulkUpdate({ resource: 'tasks', filter: { project_id: '10' }, set: { colour: 'red' } }, ctx),
+    ).rejects.toThrow('Unknown tasks field(s): colour');
+    await expect(
+      bulkUpdate(
+        { resource: 'tasks', filter: { project_id: '10' }, set: { closed: 'maybe' } },
+        ctx,
+      ),
+    ).rejects.toThrow(ExecutorValidationError);
+    await expect(
+      bulkUpdate({ resource: 'tasks', filter: { project_id: '10' }, set: {} }, ctx),
+    ).rejects.toThrow('No changes specified');
+    expect(getTasks).not.toHaveBeenCalled();
+  });
+
+  it('requires a filter', async () => {
+    const ctx = createTestExecutorContext();
+
+    await expect(
+      bulkUpdate({ resource: 'tasks', filter: {}, set: { title: 'Done' } }, ctx),
+    ).rejects.toThrow('A filter is required');
+  });
+});
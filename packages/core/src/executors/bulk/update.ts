@@ -0,0 +1,176 @@
+/**
+ * Bulk update executor.
+ *
+ * Applies the same field changes to every task or time entry matching a
+ * filter. The changes are checked before anything is listed, a dry run only
+ * lists the records, and a failing record never stops the others.
+ */
+
+import type { ExecutorContext } from '../../context/types.js';
+import type { UpdateTaskOptions } from '../tasks/types.js';
+import type { UpdateTimeEntryOptions } from '../time/types.js';
+import type { ExecutorResult } from '../types.js';
+import type { BulkResource, BulkResult, BulkUpdateOptions } from './types.js';
+
+import { ExecutorValidationError } from '../errors.js';
+import { updateTask } from '../tasks/update.js';
+import { parseDuration } from '../time/timesheet.js';
+import { updateTimeEntry } from '../time/update.js';
+import { runOnItems, selectRecords } from './select.js';
+
+type TaskChanges = Omit<UpdateTaskOptions, 'id'>;
+type TimeEntryChanges = Omit<UpdateTimeEntryOptions, 'id'>;
+
+/** Accepted `set` keys, aliases included */
+const FIELDS: Record<BulkResource, string[]> = {
+  tasks: [
+    'title',
+    'description',
+    'assignee',
+    'assignee_id',
+    'status',
+    'workflow_status_id',
+    'due_date',
+    'start_date',
+    'estimate',
+    'initial_estimate',
+    'private',
+    'closed',
+  ],
+  time_entries: ['time', 'billable_time', 'date', 'note'],
+};
+
+function invalid(field: string, value: string, expected: string): ExecutorValidationError {
+  return new ExecutorValidationError(`Invalid ${field}: "${value}" (${expected})`, 'set');
+}
+
+function toBoolean(field: string, value: string): boolean {
+  const normalized = value.toLowerCase();
+  if (['true', 'yes', '1'].includes(normalized)) return true;
+  if (['false', 'no', '0'].includes(normalized)) return false;
+  throw invalid(field, value, 'expected true or false');
+}
+
+function toMinutes(field: string, value: string): number {
+  const minutes = parseDuration(value);
+  if (minutes === undefined) throw invalid(field, value, 'expected a duration, e.g. 90 or 1h30');
+  return minutes;
+}
+
+async function taskChanges(
+  set: Record<string, string>,
+  ctx: ExecutorContext,
+): Promise<TaskChanges> {
+  const changes: TaskChanges = {};
+
+  for (const [field, value] of Object.entries(set)) {
+    switch (field) {
+      case 'title':
+        changes.title = value;
+        break;
+      case 'description':
+        changes.description = value;
+        break;
+      case 'assignee':
+      case 'assignee_id':
+        // Resolved once rather than for every task
+        changes.assigneeId = await ctx.resolver.resolveValue(value, 'person');
+        break;
+      case 'status':
+      case 'workflow_status_id':
+        changes.workflowStatusId = value;
+        break;
+      case 'due_date':
+        changes.dueDate = value;
+        break;
+      case 'start_date':
+        changes.startDate = value;
+        break;
+      case 'estimate':
+      case 'initial_estimate':
+        changes.initialEstimate = toMinutes(field, value);
+        break;
+      case 'private':
+        changes.isPrivate = toBoolean(field, value);
+        break;
+      case 'closed':
+        changes.closed = toBoolean(field, value);
+        break;
+    }
+  }
+
+  return changes;
+}
+
+function timeEntryChanges(set: Record<string, string>): TimeEntryChanges {
+  const changes: TimeEntryChanges = {};
+
+  for (const [field, value] of Object.entries(set)) {
+    switch (field) {
+      case 'time':
+        changes.time = toMinutes(field, value);
+        break;
+      case 'billable_time':
+        changes.billable_time = toMinutes(field, value);
+        break;
+      case 'date':
+        changes.date = value;
+        break;
+      case 'note':
+        changes.note = value;
+        break;
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * Update every record matching the filter with the same changes.
+ */
+export async function bulkUpdate(
+  options: BulkUpdateOptions,
+  ctx: ExecutorContext,
+): Promise<ExecutorResult<BulkResult>> {
+  const fields = FIELDS[options.resource];
+  const entries = Object.keys(options.set);
+
+  if (entries.length === 0) {
+    throw new ExecutorValidationError('No changes specified. Provide at least one field', 'set');
+  }
+  const unknown = entries.filter((field) => !fields.includes(field));
+  if (unknown.length > 0) {
+    throw new ExecutorValidationError(
+      `Unknown ${options.resource} field(s): ${unknown.join(', ')}. Valid fields: ${fields.join(', ')}`,
+      'set',
+    );
+  }
+
+  let change: (id: string) => Promise<unknown>;
+  if (options.resource === 'tasks') {
+    const changes = await taskChanges(options.set, ctx);
+    change = (id) => updateTask({ id, ...changes }, ctx);
+  } else {
+    const changes = timeEntryChanges(options.set);
+    change = (id) => updateTimeEntry({ id, ...changes }, ctx);
+  }
+
+  const items = await selectRecords(options, ctx);
+  if (!options.dryRun) {
+    await runOnItems(items, options.concurrency, change);
+  }
+
+  return {
+    data: {
+      action: 'bulk_update',
+      resource: options.resource,
+      dry_run: options.dryRun ?? false,
+      filter: options.filter,
+      set: options.set,
+      items,
+      total: items.length,
+      succeeded: items.filter((item) => item.status === 'succeeded').length,
+      failed: items.filter((item) => item.status === 'failed').length,
+    },
+  };
+}
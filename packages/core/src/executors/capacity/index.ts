@@ -0,0 +1,2 @@
+export { buildCapacityFilters, listCapacity } from './list.js';
+export type { ListCapacityOptions } from './types.js';
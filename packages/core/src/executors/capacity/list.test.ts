@@ -0,0 +1,35 @@
+import { describe, expect, it, vi } from 'vitest';
+
+import { createTestExecutorContext } from '../../context/test-utils.js';
+import { buildCapacityFilters, listCapacity } from './list.js';
+
+describe('buildCapacityFilters', () => {
+  it('maps options to API filter names', () => {
+    expect(
+      buildCapacityFilters({
+        personId: '1',
+        after: '2024-01-01',
+        before: '2024-12-31',
+        additionalFilters: { custom: 'x' },
+      }),
+    ).toEqual({ custom: 'x', person_id: '1', after: '2024-01-01', before: '2024-12-31' });
+  });
+});
+
+describe('listCapacity', () => {
+  it('reads salaries with person and holiday calendar included', async () => {
+    const getSalaries = vi.fn().mockResolvedValue({ data: [], meta: {}, included: [] });
+    const ctx = createTestExecutorContext({ api: { getSalaries } });
+
+    const result = await listCapacity({ personId: '1' }, ctx);
+
+    expect(getSalaries).toHaveBeenCalledWith({
+      page: 1,
+      perPage: 100,
+      sort: undefined,
+      filter: { person_id: '1' },
+      include: ['person', 'holiday_calendar'],
+    });
+    expect(result.resolved).toBeUndefined();
+  });
+});
@@ -0,0 +1,43 @@
+import type { ProductiveSalary } from '@studiometa/productive-api';
+
+import type { ExecutorContext } from '../../context/types.js';
+import type { ExecutorResult } from '../types.js';
+import type { ListCapacityOptions } from './types.js';
+
+import { buildListParams } from '../types.js';
+
+export function buildCapacityFilters(options: ListCapacityOptions): Record<string, string> {
+  const filter: Record<string, string> = {};
+
+  if (options.additionalFilters) Object.assign(filter, options.additionalFilters);
+  if (options.personId) filter.person_id = options.personId;
+  if (options.after) filter.after = options.after;
+  if (options.before) filter.before = options.before;
+
+  return filter;
+}
+
+/**
+ * List working schedules. Productive stores them on salary records, which are
+ * read here purely for their capacity fields.
+ */
+export async function listCapacity(
+  options: ListCapacityOptions,
+  ctx: ExecutorContext,
+): Promise<ExecutorResult<ProductiveSalary[]>> {
+  const filter = buildCapacityFilters(options);
+  const { resolved: resolvedFilter, metadata } = await ctx.resolver.resolveFilters(filter);
+
+  const response = await ctx.api.getSalaries({
+    ...buildListParams(options),
+    filter: resolvedFilter,
+    include: options.include ?? ['person', 'holiday_calendar'],
+  });
+
+  return {
+    data: response.data,
+    meta: response.meta,
+    included: response.included,
+    resolved: Object.keys(metadata).length > 0 ? metadata : undefined,
+  };
+}
@@ -0,0 +1,10 @@
+import type { PaginationOptions } from '../types.js';
+
+export interface ListCapacityOptions extends PaginationOptions {
+  personId?: string;
+  /** Only schedules effective on or after this date (YYYY-MM-DD) */
+  after?: string;
+  /** Only schedules effective on or before this date (YYYY-MM-DD) */
+  before?: string;
+  additionalFilters?: Record<string, string>;
+}
@@ -1,8 +1,15 @@
 import { describe, expect, it, vi } from 'vitest';
 
 import { createTestExecutorContext } from '../../context/test-utils.js';
+import { createDateService } from '../../dates/date-service.js';
 import { createDeal } from './create.js';
 
+// 23:30 in UTC is already the next day in Paris
+const dates = createDateService({
+  timezone: 'Europe/Paris',
+  clock: () => new Date('2026-10-19T23:30:00Z'),
+});
+
 describe('createDeal', () => {
   const mockDeal = {
     id: '999',
@@ -16,6 +23,7 @@ describe('createDeal', () => {
     const ctx = createTestExecutorContext({
       api: { createDeal: createDealApi },
       resolver: { resolveValue },
+      dates,
     });
 
     const result = await createDeal({ name: 'New Deal', companyId: 'Acme Corp' }, ctx);
@@ -24,6 +32,7 @@ describe('createDeal', () => {
     expect(createDealApi).toHaveBeenCalledWith({
       name: 'New Deal',
       company_id: '100',
+      date: '2026-10-20',
     });
     expect(result.data).toEqual(mockDeal);
   });
@@ -80,6 +89,7 @@ describe('createDeal', () => {
     const ctx = createTestExecutorContext({
       api: { createDeal: createDealApi },
       resolver: { resolveValue },
+      dates,
     });
 
     await createDeal({ name: 'Deal', companyId: '100' }, ctx);
@@ -89,6 +99,7 @@ describe('createDeal', () => {
     expect(createDealApi).toHaveBeenCalledWith({
       name: 'Deal',
       company_id: '100',
+      date: '2026-10-20',
     });
   });
 });
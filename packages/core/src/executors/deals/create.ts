@@ -4,6 +4,8 @@ import type { ExecutorContext } from '../../context/types.js';
 import type { ExecutorResult } from '../types.js';
 import type { CreateDealOptions } from './types.js';
 
+import { getDateService } from '../../dates/date-service.js';
+
 export async function createDeal(
   options: CreateDealOptions,
   ctx: ExecutorContext,
@@ -16,7 +18,7 @@ export async function createDeal(
   const response = await ctx.api.createDeal({
     name: options.name,
     company_id: companyId,
-    date: options.date,
+    date: options.date ?? getDateService(ctx).today(),
     end_date: options.endDate,
     budget: options.budget,
     responsible_id: responsibleId,
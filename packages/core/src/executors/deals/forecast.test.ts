@@ -0,0 +1,139 @@
+import { describe, expect, it, vi } from 'vitest';
+
+import { createTestExecutorContext } from '../../context/test-utils.js';
+import { createDateService } from '../../dates/date-service.js';
+import { ExecutorValidationError } from '../errors.js';
+import { getDealForecast } from './forecast.js';
+
+const dates = createDateService({
+  timezone: 'UTC',
+  clock: () => new Date('2026-10-19T12:00:00Z'),
+});
+
+const deal = {
+  id: '10',
+  type: 'deals' as const,
+  attributes: { name: 'Website', end_date: '2026-10-30', budget: true },
+};
+
+const service = {
+  id: '1',
+  type: 'services' as const,
+  attributes: { name: 'Design', budgeted_time: 600, worked_time: 300 },
+};
+
+function createApi() {
+  return {
+    getDeal: vi.fn().mockResolvedValue({ data: deal }),
+    getServices: vi.fn().mockResolvedValue({ data: [service], meta: { total_pages: 1 } }),
+    getTimeEntries: vi.fn().mockResolvedValue({
+      data: [
+        {
+          id: '100',
+          type: 'time_entries',
+          attributes: { date: '2026-10-16', time: 560 },
+          relationships: { service: { data: { type: 'services', id: '1' } } },
+        },
+      ],
+      meta: { total_pages: 1 },
+    }),
+    getBookings: vi.fn().mockResolvedValue({ data: [], meta: { total_pages: 1 } }),
+  };
+}
+
+describe('getDealForecast', () => {
+  it('fetches the deal records and projects its budget', async () => {
+    const api = createApi();
+    const ctx = createTestExecutorContext({ api, dates });
+
+    const result = await getDealForecast({ id: '10' }, ctx);
+
+    expect(api.getDeal).toHaveBeenCalledWith('10');
+    expect(api.getServices).toHaveBeenCalledWith({
+      page: 1,
+      perPage: 200,
+      filter: { deal_id: '10' },
+    });
+    expect(api.getTimeEntries).toHaveBeenCalledWith({
+      page: 1,
+      perPage: 200,
+      filter: { deal_id: '10', after: '2026-09-21', before: '2026-10-18' },
+    });
+    expect(api.getBookings).toHaveBeenCalledWith({
+      page: 1,
+      perPage: 200,
+      filter: { budget_id: '10', booking_type: 'service', after: '2026-10-19' },
+    });
+    expect(result.data.today).toBe('2026-10-19');
+    expect(result.data.lookback_days).toBe(28);
+    // 560 minutes over 28 days: 20 a day, so 300 remaining minutes last 15 days
+    expect(result.data.services[0]).toMatchObject({
+      burn_rate_minutes_per_day: 20,
+      exhausted_on: '2026-11-03',
+      status: 'on_track',
+      projected_minutes_at_end: 520,
+    });
+  });
+
+  it('measures the burn rate on a custom window', async () => {
+    const api = createApi();
+    const ctx = createTestExecutorContext({ api, dates });
+
+    const result = await getDealForecast({ id: '10', lookbackDays: 7 }, ctx);
+
+    expect(api.getTimeEntries).toHaveBeenCalledWith(
+      expect.objectContaining({
+        filter: { deal_id: '10', after: '2026-10-12', before: '2026-10-18' },
+      }),
+    );
+    expect(result.data.services[0]).toMatchObject({
+      burn_rate_minutes_per_day: 80,
+      exhausted_on: '2026-10-23',
+      status: 'at_risk',
+    });
+  });
+
+  it('fetches every page of time entries', async () => {
+    const api = createApi();
+    api.getTimeEntries
+      .mockResolvedValueOnce({ data: [], meta: { total_pages: 2 } })
+      .mockResolvedValueOnce({ data: [], meta: { total_pages: 2 } });
+    const ctx = createTestExecutorContext({ api, dates });
+
+    await getDealForecast({ id: '10' }, ctx);
+
+    expect(api.getTimeEntries).toHaveBeenCalledTimes(1);
+
+    api.getTimeEntries.mockReset();
+    api.getTimeEntries
+      .mockResolvedValueOnce({ data: [{ id: '1', attributes: {} }], meta: { total_pages: 2 } })
+      .mockResolvedValueOnce({ data: [], meta: { total_pages: 2 } });
+
+    await getDealForecast({ id: '10' }, ctx);
+
+    expect(api.getTimeEntries).toHaveBeenCalledTimes(2);
+    expect(api.getTimeEntries).toHaveBeenLastCalledWith(expect.objectContaining({ page: 2 }));
+  });
+
+  it('resolves the deal ID', async () => {
+    const api = createApi();
+    const resolveValue = vi.fn().mockResolvedValue('10');
+    const ctx = createTestExecutorContext({ api, dates, resolver: { resolveValue } });
+
+    await getDealForecast({ id: 'D-42' }, ctx);
+
+    expect(resolveValue).toHaveBeenCalledWith('D-42', 'deal');
+    expect(api.getDeal).toHaveBeenCalledWith('10');
+  });
+
+  it('rejects an invalid lookback window', async () => {
+    const ctx = createTestExecutorContext({ api: createApi(), dates });
+
+    await expect(getDealForecast({ id: '10', lookbackDays: 0 }, ctx)).rejects.toThrow(
+      ExecutorValidationError,
+    );
+    await expect(getDealForecast({ id: '10', lookbackDays: 400 }, ctx)).rejects.toThrow(
+      'between 1 and 365',
+    );
+  });
+});
@@ -0,0 +1,87 @@
+/**
+ * Deal budget forecast executor.
+ *
+ * Fetches a deal's services, the time logged on it over a trailing window and
+ * its upcoming bookings, then projects when each service — and the deal as a
+ * whole — runs out of budgeted time and revenue (see `forecastBudget`).
+ */
+
+import type { BudgetForecast } from '@studiometa/productive-api';
+
+import { BOOKING_TYPE, forecastBudget } from '@studiometa/productive-api';
+
+import type { ExecutorContext } from '../../context/types.js';
+import type { ExecutorResult } from '../types.js';
+import type { GetDealForecastOptions } from './types.js';
+
+import { getDateService } from '../../dates/date-service.js';
+import { ExecutorValidationError } from '../errors.js';
+import { fetchAllPages, MAX_PAGE_SIZE } from '../pagination.js';
+
+/** Days of time entries the burn rate is measured on by default */
+export const DEFAULT_FORECAST_LOOKBACK_DAYS = 28;
+/** Longest lookback window accepted */
+export const MAX_FORECAST_LOOKBACK_DAYS = 365;
+
+/**
+ * Forecast when a deal's budget runs out.
+ *
+ * @throws ExecutorValidationError when lookbackDays is out of range
+ */
+export async function getDealForecast(
+  options: GetDealForecastOptions,
+  ctx: ExecutorContext,
+): Promise<ExecutorResult<BudgetForecast>> {
+  const lookbackDays = options.lookbackDays ?? DEFAULT_FORECAST_LOOKBACK_DAYS;
+  if (
+    !Number.isInteger(lookbackDays) ||
+    lookbackDays < 1 ||
+    lookbackDays > MAX_FORECAST_LOOKBACK_DAYS
+  ) {
+    throw new ExecutorValidationError(
+      `lookbackDays must be a whole number of days between 1 and ${MAX_FORECAST_LOOKBACK_DAYS}`,
+      'lookbackDays',
+    );
+  }
+
+  const dealId = await ctx.resolver.resolveValue(options.id, 'deal');
+  const dates = getDateService(ctx);
+  const today = dates.today();
+
+  const [dealResponse, servicesRes, timeEntriesRes, bookingsRes] = await Promise.all([
+    ctx.api.getDeal(dealId),
+    fetchAllPages((page) =>
+      ctx.api.getServices({ page, perPage: MAX_PAGE_SIZE, filter: { deal_id: dealId } }),
+    ),
+    fetchAllPages((page) =>
+      ctx.api.getTimeEntries({
+        page,
+        perPage: MAX_PAGE_SIZE,
+        filter: {
+          deal_id: dealId,
+          after: dates.addDays(today, -lookbackDays),
+          before: dates.addDays(today, -1),
+        },
+      }),
+    ),
+    fetchAllPages((page) =>
+      ctx.api.getBookings({
+        page,
+        perPage: MAX_PAGE_SIZE,
+        filter: { budget_id: dealId, booking_type: BOOKING_TYPE.SERVICE, after: today },
+      }),
+    ),
+  ]);
+
+  return {
+    data: forecastBudget({
+      deal: dealResponse.data,
+      services: servicesRes.data,
+      timeEntries: timeEntriesRes.data,
+      bookings: bookingsRes.data,
+      today,
+      lookbackDays,
+      horizonDays: options.horizonDays,
+    }),
+  };
+}
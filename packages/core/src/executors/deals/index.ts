@@ -1,5 +1,10 @@
 export { getDealContext } from './context.js';
 export { createDeal } from './create.js';
+export {
+  DEFAULT_FORECAST_LOOKBACK_DAYS,
+  getDealForecast,
+  MAX_FORECAST_LOOKBACK_DAYS,
+} from './forecast.js';
 export { getDeal } from './get.js';
 export { buildDealFilters, listDeals } from './list.js';
 export { updateDeal } from './update.js';
@@ -7,6 +12,7 @@ export type {
   CreateDealOptions,
   DealContextResult,
   GetDealContextOptions,
+  GetDealForecastOptions,
   GetDealOptions,
   ListDealsOptions,
   UpdateDealOptions,
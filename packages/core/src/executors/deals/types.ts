@@ -41,6 +41,14 @@ export interface GetDealContextOptions {
   id: string;
 }
 
+export interface GetDealForecastOptions {
+  id: string;
+  /** Days of time entries the burn rate is measured on (default: 28) */
+  lookbackDays?: number;
+  /** How far to look for an exhaustion date past the deal end (default: a year) */
+  horizonDays?: number;
+}
+
 export interface DealContextResult {
   deal: import('@studiometa/productive-api').ProductiveDeal;
   services: import('@studiometa/productive-api').ProductiveService[];
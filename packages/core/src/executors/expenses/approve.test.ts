@@ -0,0 +1,30 @@
+import { describe, expect, it, vi } from 'vitest';
+
+import { createTestExecutorContext } from '../../context/test-utils.js';
+import { approveExpense, rejectExpense } from './approve.js';
+
+describe('approveExpense', () => {
+  it('approves expense by id', async () => {
+    const mockResponse = { data: { id: '1', type: 'expenses', attributes: { approved: true } } };
+    const approveExpenseApi = vi.fn().mockResolvedValue(mockResponse);
+    const ctx = createTestExecutorContext({ api: { approveExpense: approveExpenseApi } });
+
+    const result = await approveExpense({ id: '1' }, ctx);
+
+    expect(approveExpenseApi).toHaveBeenCalledWith('1');
+    expect(result.data).toEqual(mockResponse.data);
+  });
+});
+
+describe('rejectExpense', () => {
+  it('rejects expense with a reason', async () => {
+    const mockResponse = { data: { id: '1', type: 'expenses', attributes: { rejected: true } } };
+    const rejectExpenseApi = vi.fn().mockResolvedValue(mockResponse);
+    const ctx = createTestExecutorContext({ api: { rejectExpense: rejectExpenseApi } });
+
+    const result = await rejectExpense({ id: '1', reason: 'Missing receipt' }, ctx);
+
+    expect(rejectExpenseApi).toHaveBeenCalledWith('1', 'Missing receipt');
+    expect(result.data).toEqual(mockResponse.data);
+  });
+});
@@ -0,0 +1,21 @@
+import type { ProductiveExpense } from '@studiometa/productive-api';
+
+import type { ExecutorContext } from '../../context/types.js';
+import type { ExecutorResult } from '../types.js';
+import type { ApproveExpenseOptions, RejectExpenseOptions } from './types.js';
+
+export async function approveExpense(
+  options: ApproveExpenseOptions,
+  ctx: ExecutorContext,
+): Promise<ExecutorResult<ProductiveExpense>> {
+  const response = await ctx.api.approveExpense(options.id);
+  return { data: response.data };
+}
+
+export async function rejectExpense(
+  options: RejectExpenseOptions,
+  ctx: ExecutorContext,
+): Promise<ExecutorResult<ProductiveExpense>> {
+  const response = await ctx.api.rejectExpense(options.id, options.reason);
+  return { data: response.data };
+}
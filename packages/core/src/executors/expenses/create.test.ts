@@ -0,0 +1,92 @@
+import { describe, expect, it, vi } from 'vitest';
+
+import { createTestExecutorContext } from '../../context/test-utils.js';
+import { createDateService } from '../../dates/date-service.js';
+import { ExecutorValidationError } from '../errors.js';
+import { amountToCents, createExpense } from './create.js';
+
+describe('amountToCents', () => {
+  it('converts currency units to integer cents', () => {
+    expect(amountToCents(45)).toBe(4500);
+    expect(amountToCents(19.99)).toBe(1999);
+  });
+});
+
+describe('createExpense', () => {
+  const mockExpense = { id: '1', type: 'expenses' as const, attributes: { name: 'Train' } };
+
+  it('resolves deal, service and person and converts the amount', async () => {
+    const createExpenseApi = vi.fn().mockResolvedValue({ data: mockExpense });
+    const resolveValue = vi.fn(async (value: string) => `resolved-${value}`);
+    const ctx = createTestExecutorContext({
+      api: { createExpense: createExpenseApi },
+      resolver: { resolveValue },
+    });
+
+    const result = await createExpense(
+      {
+        name: 'Train',
+        amount: 45.5,
+        date: '2024-01-15',
+        currency: 'EUR',
+        dealId: 'D-1',
+        serviceId: 'Travel',
+        personId: 'me@example.com',
+        reimbursable: true,
+      },
+      ctx,
+    );
+
+    expect(resolveValue).toHaveBeenCalledWith('D-1', 'deal');
+    expect(resolveValue).toHaveBeenCalledWith('Travel', 'service');
+    expect(resolveValue).toHaveBeenCalledWith('me@example.com', 'person');
+    expect(createExpenseApi).toHaveBeenCalledWith({
+      name: 'Train',
+      amount: 4550,
+      date: '2024-01-15',
+      currency: 'EUR',
+      deal_id: 'resolved-D-1',
+      service_id: 'resolved-Travel',
+      person_id: 'resolved-me@example.com',
+      reimbursable: true,
+    });
+    expect(result.data).toEqual(mockExpense);
+  });
+
+  it('skips resolution for missing links', async () => {
+    const createExpenseApi = vi.fn().mockResolvedValue({ data: mockExpense });
+    const resolveValue = vi.fn();
+    const ctx = createTestExecutorContext({
+      api: { createExpense: createExpenseApi },
+      resolver: { resolveValue },
+      dates: createDateService({
+        timezone: 'Europe/Paris',
+        clock: () => new Date('2026-10-19T23:30:00Z'),
+      }),
+    });
+
+    await createExpense({ name: 'Hosting', amount: 10 }, ctx);
+
+    expect(resolveValue).not.toHaveBeenCalled();
+    // Dated today in the user's timezone, already the next day in Paris
+    expect(createExpenseApi).toHaveBeenCalledWith(
+      expect.objectContaining({
+        amount: 1000,
+        date: '2026-10-20',
+        deal_id: undefined,
+        service_id: undefined,
+      }),
+    );
+  });
+
+  it('rejects invalid amounts', async () => {
+    const ctx = createTestExecutorContext();
+
+    await expect(createExpense({ name: 'Bad', amount: Number.NaN }, ctx)).rejects.toThrow(
+      ExecutorValidationError,
+    );
+    await expect(createExpense({ name: 'Bad', amount: -5 }, ctx)).rejects.toThrow(
+      ExecutorValidationError,
+    );
+  });
+});
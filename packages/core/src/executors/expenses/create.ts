@@ -0,0 +1,48 @@
+import type { ProductiveExpense } from '@studiometa/productive-api';
+
+import type { ExecutorContext } from '../../context/types.js';
+import type { ExecutorResult } from '../types.js';
+import type { CreateExpenseOptions } from './types.js';
+
+import { getDateService } from '../../dates/date-service.js';
+import { ExecutorValidationError } from '../errors.js';
+
+/**
+ * Convert an amount in currency units to the integer cents the API expects
+ */
+export function amountToCents(amount: number): number {
+  return Math.round(amount * 100);
+}
+
+export async function createExpense(
+  options: CreateExpenseOptions,
+  ctx: ExecutorContext,
+): Promise<ExecutorResult<ProductiveExpense>> {
+  if (!Number.isFinite(options.amount) || options.amount < 0) {
+    throw new ExecutorValidationError('amount must be a positive number', 'amount');
+  }
+
+  // Expenses hang off a deal's service the same way time entries do
+  const dealId = options.dealId
+    ? await ctx.resolver.resolveValue(options.dealId, 'deal')
+    : undefined;
+  const serviceId = options.serviceId
+    ? await ctx.resolver.resolveValue(options.serviceId, 'service')
+    : undefined;
+  const personId = options.personId
+    ? await ctx.resolver.resolveValue(options.personId, 'person')
+    : undefined;
+
+  const response = await ctx.api.createExpense({
+    name: options.name,
+    amount: amountToCents(options.amount),
+    date: options.date ?? getDateService(ctx).today(),
+    currency: options.currency,
+    deal_id: dealId,
+    service_id: serviceId,
+    person_id: personId,
+    reimbursable: options.reimbursable,
+  });
+
+  return { data: response.data };
+}
@@ -0,0 +1,32 @@
+import { describe, expect, it, vi } from 'vitest';
+
+import { createTestExecutorContext } from '../../context/test-utils.js';
+import { getExpense } from './get.js';
+
+describe('getExpense', () => {
+  const mockResponse = {
+    data: { id: '1', type: 'expenses', attributes: { name: 'Train' } },
+    included: [{ id: '100', type: 'attachments', attributes: { name: 'receipt.pdf' } }],
+  };
+
+  it('includes receipts and related resources by default', async () => {
+    const getExpenseApi = vi.fn().mockResolvedValue(mockResponse);
+    const ctx = createTestExecutorContext({ api: { getExpense: getExpenseApi } });
+
+    const result = await getExpense({ id: '1' }, ctx);
+
+    expect(getExpenseApi).toHaveBeenCalledWith('1', {
+      include: ['deal', 'service', 'person', 'attachments'],
+    });
+    expect(result.included).toEqual(mockResponse.included);
+  });
+
+  it('passes custom include', async () => {
+    const getExpenseApi = vi.fn().mockResolvedValue(mockResponse);
+    const ctx = createTestExecutorContext({ api: { getExpense: getExpenseApi } });
+
+    await getExpense({ id: '1', include: ['deal'] }, ctx);
+
+    expect(getExpenseApi).toHaveBeenCalledWith('1', { include: ['deal'] });
+  });
+});
@@ -0,0 +1,15 @@
+import type { ProductiveExpense } from '@studiometa/productive-api';
+
+import type { ExecutorContext } from '../../context/types.js';
+import type { ExecutorResult } from '../types.js';
+import type { GetExpenseOptions } from './types.js';
+
+export async function getExpense(
+  options: GetExpenseOptions,
+  ctx: ExecutorContext,
+): Promise<ExecutorResult<ProductiveExpense>> {
+  const response = await ctx.api.getExpense(options.id, {
+    include: options.include ?? ['deal', 'service', 'person', 'attachments'],
+  });
+  return { data: response.data, included: response.included };
+}
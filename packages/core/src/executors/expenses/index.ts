@@ -0,0 +1,13 @@
+export { approveExpense, rejectExpense } from './approve.js';
+export { amountToCents, createExpense } from './create.js';
+export { getExpense } from './get.js';
+export { buildExpenseFilters, listExpenses } from './list.js';
+export { updateExpense } from './update.js';
+export type {
+  ApproveExpenseOptions,
+  CreateExpenseOptions,
+  GetExpenseOptions,
+  ListExpensesOptions,
+  RejectExpenseOptions,
+  UpdateExpenseOptions,
+} from './types.js';
@@ -0,0 +1,77 @@
+import { describe, expect, it, vi } from 'vitest';
+
+import { createTestExecutorContext } from '../../context/test-utils.js';
+import { buildExpenseFilters, listExpenses } from './list.js';
+
+describe('buildExpenseFilters', () => {
+  it('maps typed options to API filter names', () => {
+    const filters = buildExpenseFilters({
+      personId: '1',
+      projectId: '2',
+      dealId: '3',
+      serviceId: '4',
+      companyId: '5',
+      status: 'pending',
+      after: '2024-01-01',
+      before: '2024-01-31',
+    });
+    expect(filters).toEqual({
+      person_id: '1',
+      project_id: '2',
+      deal_id: '3',
+      service_id: '4',
+      company_id: '5',
+      approval_status: '2', // 'pending' maps to '2'
+      after: '2024-01-01',
+      before: '2024-01-31',
+    });
+  });
+
+  it('does not set filter for unknown status values', () => {
+    const filters = buildExpenseFilters({ status: 'unknown' });
+    expect(filters.approval_status).toBeUndefined();
+  });
+
+  it('merges additionalFilters', () => {
+    const filters = buildExpenseFilters({ dealId: '3', additionalFilters: { custom: 'value' } });
+    expect(filters).toEqual({ deal_id: '3', custom: 'value' });
+  });
+});
+
+describe('listExpenses', () => {
+  const mockResponse = {
+    data: [{ id: '1', type: 'expenses', attributes: { name: 'Train' } }],
+    meta: { current_page: 1, total_pages: 1 },
+    included: [{ id: '3', type: 'deals', attributes: { name: 'Website' } }],
+  };
+
+  it('resolves filters through resolver', async () => {
+    const getExpenses = vi.fn().mockResolvedValue(mockResponse);
+    const resolveFilters = vi.fn().mockResolvedValue({
+      resolved: { project_id: '200' },
+      metadata: { project_id: { original: 'PRJ-1', resolved: '200', type: 'project' } },
+    });
+    const ctx = createTestExecutorContext({ api: { getExpenses }, resolver: { resolveFilters } });
+
+    const result = await listExpenses({ projectId: 'PRJ-1' }, ctx);
+
+    expect(resolveFilters).toHaveBeenCalledWith({ project_id: 'PRJ-1' });
+    expect(getExpenses).toHaveBeenCalledWith(
+      expect.objectContaining({ filter: { project_id: '200' } }),
+    );
+    expect(result.resolved).toBeDefined();
+    expect(result.included).toEqual(mockResponse.included);
+  });
+
+  it('includes deal, service and person by default', async () => {
+    const getExpenses = vi.fn().mockResolvedValue(mockResponse);
+    const ctx = createTestExecutorContext({ api: { getExpenses } });
+
+    const result = await listExpenses({}, ctx);
+
+    expect(getExpenses).toHaveBeenCalledWith(
+      expect.objectContaining({ include: ['deal', 'service', 'person'] }),
+    );
+    expect(result.resolved).toBeUndefined();
+  });
+});
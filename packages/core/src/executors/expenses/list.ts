@@ -0,0 +1,50 @@
+import type { ProductiveExpense } from '@studiometa/productive-api';
+
+import { EXPENSE_APPROVAL_STATUS } from '@studiometa/productive-api';
+
+import type { ExecutorContext } from '../../context/types.js';
+import type { ExecutorResult } from '../types.js';
+import type { ListExpensesOptions } from './types.js';
+
+import { buildListParams } from '../types.js';
+
+export function buildExpenseFilters(options: ListExpensesOptions): Record<string, string> {
+  const filter: Record<string, string> = {};
+
+  if (options.additionalFilters) Object.assign(filter, options.additionalFilters);
+  if (options.after) filter.after = options.after;
+  if (options.before) filter.before = options.before;
+  if (options.personId) filter.person_id = options.personId;
+  if (options.projectId) filter.project_id = options.projectId;
+  if (options.dealId) filter.deal_id = options.dealId;
+  if (options.serviceId) filter.service_id = options.serviceId;
+  if (options.companyId) filter.company_id = options.companyId;
+
+  if (options.status) {
+    const mapped = EXPENSE_APPROVAL_STATUS.toValue(options.status);
+    if (mapped !== options.status.toLowerCase()) filter.approval_status = mapped;
+  }
+
+  return filter;
+}
+
+export async function listExpenses(
+  options: ListExpensesOptions,
+  ctx: ExecutorContext,
+): Promise<ExecutorResult<ProductiveExpense[]>> {
+  const filter = buildExpenseFilters(options);
+  const { resolved: resolvedFilter, metadata } = await ctx.resolver.resolveFilters(filter);
+
+  const response = await ctx.api.getExpenses({
+    ...buildListParams(options),
+    filter: resolvedFilter,
+    include: options.include ?? ['deal', 'service', 'person'],
+  });
+
+  return {
+    data: response.data,
+    meta: response.meta,
+    included: response.included,
+    resolved: Object.keys(metadata).length > 0 ? metadata : undefined,
+  };
+}
@@ -0,0 +1,53 @@
+import type { PaginationOptions } from '../types.js';
+
+export interface ListExpensesOptions extends PaginationOptions {
+  personId?: string;
+  projectId?: string;
+  dealId?: string;
+  serviceId?: string;
+  companyId?: string;
+  /** Approval status: 'approved' | 'pending' | 'rejected' */
+  status?: string;
+  /** Only expenses dated on or after this date (YYYY-MM-DD) */
+  after?: string;
+  /** Only expenses dated on or before this date (YYYY-MM-DD) */
+  before?: string;
+  additionalFilters?: Record<string, string>;
+}
+
+export interface GetExpenseOptions {
+  id: string;
+  include?: string[];
+}
+
+export interface CreateExpenseOptions {
+  name: string;
+  /** Amount in currency units (e.g. 45.5); sent to the API in cents */
+  amount: number;
+  date?: string;
+  currency?: string;
+  dealId?: string;
+  serviceId?: string;
+  personId?: string;
+  reimbursable?: boolean;
+}
+
+export interface UpdateExpenseOptions {
+  id: string;
+  name?: string;
+  /** Amount in currency units (e.g. 45.5); sent to the API in cents */
+  amount?: number;
+  date?: string;
+  currency?: string;
+  serviceId?: string;
+  reimbursable?: boolean;
+}
+
+export interface ApproveExpenseOptions {
+  id: string;
+}
+
+export interface RejectExpenseOptions {
+  id: string;
+  reason?: string;
+}
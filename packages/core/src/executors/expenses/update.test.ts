@@ -0,0 +1,38 @@
+import { describe, expect, it, vi } from 'vitest';
+
+import { createTestExecutorContext } from '../../context/test-utils.js';
+import { ExecutorValidationError } from '../errors.js';
+import { updateExpense } from './update.js';
+
+describe('updateExpense', () => {
+  const mockResponse = { data: { id: '1', type: 'expenses', attributes: { name: 'Train' } } };
+
+  it('maps provided fields and converts the amount', async () => {
+    const updateExpenseApi = vi.fn().mockResolvedValue(mockResponse);
+    const resolveValue = vi.fn().mockResolvedValue('6');
+    const ctx = createTestExecutorContext({
+      api: { updateExpense: updateExpenseApi },
+      resolver: { resolveValue },
+    });
+
+    const result = await updateExpense(
+      { id: '1', name: 'Train (return)', amount: 90, serviceId: 'Travel', reimbursable: false },
+      ctx,
+    );
+
+    expect(resolveValue).toHaveBeenCalledWith('Travel', 'service');
+    expect(updateExpenseApi).toHaveBeenCalledWith('1', {
+      name: 'Train (return)',
+      amount: 9000,
+      service_id: '6',
+      reimbursable: false,
+    });
+    expect(result.data).toEqual(mockResponse.data);
+  });
+
+  it('throws when no fields are provided', async () => {
+    const ctx = createTestExecutorContext();
+
+    await expect(updateExpense({ id: '1' }, ctx)).rejects.toThrow(ExecutorValidationError);
+  });
+});
@@ -0,0 +1,34 @@
+import type { ProductiveExpense } from '@studiometa/productive-api';
+
+import type { ExecutorContext } from '../../context/types.js';
+import type { ExecutorResult } from '../types.js';
+import type { UpdateExpenseOptions } from './types.js';
+
+import { ExecutorValidationError } from '../errors.js';
+import { amountToCents } from './create.js';
+
+export async function updateExpense(
+  options: UpdateExpenseOptions,
+  ctx: ExecutorContext,
+): Promise<ExecutorResult<ProductiveExpense>> {
+  const data: Record<string, string | number | boolean | undefined> = {};
+
+  if (options.name !== undefined) data.name = options.name;
+  if (options.amount !== undefined) data.amount = amountToCents(options.amount);
+  if (options.date !== undefined) data.date = options.date;
+  if (options.currency !== undefined) data.currency = options.currency;
+  if (options.reimbursable !== undefined) data.reimbursable = options.reimbursable;
+  if (options.serviceId !== undefined) {
+    data.service_id = await ctx.resolver.resolveValue(options.serviceId, 'service');
+  }
+
+  if (Object.keys(data).length === 0) {
+    throw new ExecutorValidationError(
+      'No updates specified. Provide at least one field to update',
+      'options',
+    );
+  }
+
+  const response = await ctx.api.updateExpense(options.id, data);
+  return { data: response.data };
+}
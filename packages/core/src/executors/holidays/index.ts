@@ -0,0 +1,3 @@
+export { buildHolidayFilters, listHolidayCalendars, listHolidays } from './list.js';
+export { getPersonHolidays } from './person.js';
+export type { ListHolidayCalendarsOptions, ListHolidaysOptions } from './types.js';
@@ -0,0 +1,44 @@
+import { describe, expect, it, vi } from 'vitest';
+
+import { createTestExecutorContext } from '../../context/test-utils.js';
+import { buildHolidayFilters, listHolidayCalendars, listHolidays } from './list.js';
+
+describe('buildHolidayFilters', () => {
+  it('maps options to API filter names', () => {
+    expect(
+      buildHolidayFilters({ holidayCalendarId: '5', after: '2024-01-01', before: '2024-12-31' }),
+    ).toEqual({ holiday_calendar_id: '5', after: '2024-01-01', before: '2024-12-31' });
+  });
+});
+
+describe('listHolidays', () => {
+  it('includes the holiday calendar by default', async () => {
+    const getHolidays = vi.fn().mockResolvedValue({ data: [], meta: {}, included: [] });
+    const ctx = createTestExecutorContext({ api: { getHolidays } });
+
+    await listHolidays({ holidayCalendarId: '5' }, ctx);
+
+    expect(getHolidays).toHaveBeenCalledWith({
+      page: 1,
+      perPage: 100,
+      sort: undefined,
+      filter: { holiday_calendar_id: '5' },
+      include: ['holiday_calendar'],
+    });
+  });
+});
+
+describe('listHolidayCalendars', () => {
+  it('lists holiday calendars', async () => {
+    const data = [{ id: '5', type: 'holiday_calendars', attributes: { name: 'France' } }];
+    const getHolidayCalendars = vi.fn().mockResolvedValue({ data, meta: {} });
+    const ctx = createTestExecutorContext({ api: { getHolidayCalendars } });
+
+    const result = await listHolidayCalendars({ page: 2 }, ctx);
+
+    expect(getHolidayCalendars).toHaveBeenCalledWith(
+      expect.objectContaining({ page: 2, filter: {} }),
+    );
+    expect(result.data).toEqual(data);
+  });
+});
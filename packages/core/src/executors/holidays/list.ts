@@ -0,0 +1,43 @@
+import type { ProductiveHoliday, ProductiveHolidayCalendar } from '@studiometa/productive-api';
+
+import type { ExecutorContext } from '../../context/types.js';
+import type { ExecutorResult } from '../types.js';
+import type { ListHolidayCalendarsOptions, ListHolidaysOptions } from './types.js';
+
+import { buildListParams } from '../types.js';
+
+export function buildHolidayFilters(options: ListHolidaysOptions): Record<string, string> {
+  const filter: Record<string, string> = {};
+
+  if (options.additionalFilters) Object.assign(filter, options.additionalFilters);
+  if (options.holidayCalendarId) filter.holiday_calendar_id = options.holidayCalendarId;
+  if (options.after) filter.after = options.after;
+  if (options.before) filter.before = options.before;
+
+  return filter;
+}
+
+export async function listHolidays(
+  options: ListHolidaysOptions,
+  ctx: ExecutorContext,
+): Promise<ExecutorResult<ProductiveHoliday[]>> {
+  const response = await ctx.api.getHolidays({
+    ...buildListParams(options),
+    filter: buildHolidayFilters(options),
+    include: options.include ?? ['holiday_calendar'],
+  });
+
+  return { data: response.data, meta: response.meta, included: response.included };
+}
+
+export async function listHolidayCalendars(
+  options: ListHolidayCalendarsOptions,
+  ctx: ExecutorContext,
+): Promise<ExecutorResult<ProductiveHolidayCalendar[]>> {
+  const response = await ctx.api.getHolidayCalendars({
+    ...buildListParams(options),
+    filter: { ...options.additionalFilters },
+  });
+
+  return { data: response.data, meta: response.meta };
+}
@@ -0,0 +1,63 @@
+import { describe, expect, it, vi } from 'vitest';
+
+import { createTestExecutorContext } from '../../context/test-utils.js';
+import { getPersonHolidays } from './person.js';
+
+const salary = (id: string, calendarId: string, startedOn: string, endedOn: string | null) => ({
+  id,
+  type: 'salaries',
+  attributes: { started_on: startedOn, ended_on: endedOn },
+  relationships: { holiday_calendar: { data: { type: 'holiday_calendars', id: calendarId } } },
+});
+
+const holiday = (id: string, calendarId: string, date: string, name: string) => ({
+  id,
+  type: 'holidays',
+  attributes: { name, date },
+  relationships: { holiday_calendar: { data: { type: 'holiday_calendars', id: calendarId } } },
+});
+
+describe('getPersonHolidays', () => {
+  it('matches holidays against the calendar effective on each date', async () => {
+    const getSalaries = vi.fn().mockResolvedValue({
+      data: [salary('1', '5', '2024-01-01', '2024-06-30'), salary('2', '6', '2024-07-01', null)],
+    });
+    const getHolidays = vi.fn().mockResolvedValue({
+      data: [
+        holiday('1', '5', '2024-05-01', 'Labour Day'),
+        holiday('2', '6', '2024-05-01', 'May Day'),
+        holiday('3', '5', '2024-07-14', 'Bastille Day'),
+        holiday('4', '6', '2024-08-15', 'Assumption'),
+      ],
+    });
+    const ctx = createTestExecutorContext({ api: { getSalaries, getHolidays } });
+
+    const holidays = await getPersonHolidays('42', ['2024-08-15', '2024-05-01', '2024-07-14'], ctx);
+
+    expect(getSalaries).toHaveBeenCalledWith({
+      page: 1,
+      perPage: 200,
+      filter: { person_id: '42' },
+    });
+    expect(getHolidays).toHaveBeenCalledWith({
+      page: 1,
+      perPage: 200,
+      filter: { holiday_calendar_id: '5,6', after: '2024-05-01', before: '2024-08-15' },
+    });
+    expect([...holidays]).toEqual([
+      ['2024-05-01', 'Labour Day'],
+      ['2024-08-15', 'Assumption'],
+    ]);
+  });
+
+  it('skips the holiday lookup when the person has no calendar', async () => {
+    const getSalaries = vi.fn().mockResolvedValue({ data: [] });
+    const getHolidays = vi.fn();
+    const ctx = createTestExecutorContext({ api: { getSalaries, getHolidays } });
+
+    const holidays = await getPersonHolidays('42', ['2024-05-01'], ctx);
+
+    expect(holidays.size).toBe(0);
+    expect(getHolidays).not.toHaveBeenCalled();
+  });
+});
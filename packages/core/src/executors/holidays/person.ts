@@ -0,0 +1,53 @@
+import type { ExecutorContext } from '../../context/types.js';
+
+/**
+ * Find the public holidays falling on the given dates for one person.
+ *
+ * The person's holiday calendar comes from the salary effective on each date.
+ * Returns a map of date → holiday name; dates that aren't holidays are absent.
+ */
+export async function getPersonHolidays(
+  personId: string,
+  dates: string[],
+  ctx: ExecutorContext,
+): Promise<Map<string, string>> {
+  const holidays = new Map<string, string>();
+  if (dates.length === 0) return holidays;
+
+  const sorted = [...new Set(dates)].toSorted();
+  const salariesRes = await ctx.api.getSalaries({
+    page: 1,
+    perPage: 200,
+    filter: { person_id: personId },
+  });
+
+  const calendarByDate = new Map<string, string>();
+  for (const date of sorted) {
+    const salary = salariesRes.data.find(
+      (s) =>
+        s.attributes.started_on <= date &&
+        (!s.attributes.ended_on || s.attributes.ended_on >= date),
+    );
+    const calendarId = salary?.relationships?.holiday_calendar?.data?.id;
+    if (calendarId) calendarByDate.set(date, calendarId);
+  }
+  if (calendarByDate.size === 0) return holidays;
+
+  const holidaysRes = await ctx.api.getHolidays({
+    page: 1,
+    perPage: 200,
+    filter: {
+      holiday_calendar_id: [...new Set(calendarByDate.values())].join(','),
+      after: sorted[0],
+      before: sorted[sorted.length - 1],
+    },
+  });
+
+  for (const holiday of holidaysRes.data) {
+    const { date, name } = holiday.attributes;
+    const calendarId = holiday.relationships?.holiday_calendar?.data?.id;
+    if (calendarId && calendarByDate.get(date) === calendarId) holidays.set(date, name);
+  }
+
+  return holidays;
+}
@@ -0,0 +1,14 @@
+import type { PaginationOptions } from '../types.js';
+
+export interface ListHolidaysOptions extends PaginationOptions {
+  holidayCalendarId?: string;
+  /** Only holidays on or after this date (YYYY-MM-DD) */
+  after?: string;
+  /** Only holidays on or before this date (YYYY-MM-DD) */
+  before?: string;
+  additionalFilters?: Record<string, string>;
+}
+
+export interface ListHolidayCalendarsOptions extends PaginationOptions {
+  additionalFilters?: Record<string, string>;
+}
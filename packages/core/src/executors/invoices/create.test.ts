@@ -0,0 +1,62 @@
+import { describe, expect, it, vi } from 'vitest';
+
+import { createTestExecutorContext } from '../../context/test-utils.js';
+import { createDateService } from '../../dates/date-service.js';
+import { createInvoice } from './create.js';
+
+describe('createInvoice', () => {
+  const mockInvoice = { id: '1', type: 'invoices' as const, attributes: { currency: 'EUR' } };
+
+  it('resolves company and maps options to API fields', async () => {
+    const createInvoiceApi = vi.fn().mockResolvedValue({ data: mockInvoice });
+    const resolveValue = vi.fn().mockResolvedValue('100');
+    const ctx = createTestExecutorContext({
+      api: { createInvoice: createInvoiceApi },
+      resolver: { resolveValue },
+    });
+
+    const result = await createInvoice(
+      {
+        companyId: 'Acme',
+        documentTypeId: '20',
+        subsidiaryId: '30',
+        invoicedOn: '2024-01-15',
+        payOn: '2024-02-14',
+        currency: 'EUR',
+        subject: 'Phase 1',
+        note: 'Thanks',
+      },
+      ctx,
+    );
+
+    expect(resolveValue).toHaveBeenCalledWith('Acme', 'company');
+    expect(createInvoiceApi).toHaveBeenCalledWith({
+      company_id: '100',
+      document_type_id: '20',
+      subsidiary_id: '30',
+      invoiced_on: '2024-01-15',
+      pay_on: '2024-02-14',
+      currency: 'EUR',
+      subject: 'Phase 1',
+      note: 'Thanks',
+    });
+    expect(result.data).toEqual(mockInvoice);
+  });
+
+  it('defaults invoiced_on to today in the configured timezone', async () => {
+    const createInvoiceApi = vi.fn().mockResolvedValue({ data: mockInvoice });
+    const ctx = createTestExecutorContext({
+      api: { createInvoice: createInvoiceApi },
+      dates: createDateService({
+        timezone: 'Europe/Paris',
+        clock: () => new Date('2026-10-19T23:30:00Z'),
+      }),
+    });
+
+    await createInvoice({ companyId: '100' }, ctx);
+
+    expect(createInvoiceApi).toHaveBeenCalledWith(
+      expect.objectContaining({ invoiced_on: '2026-10-20' }),
+    );
+  });
+});
@@ -0,0 +1,27 @@
+import type { ProductiveInvoice } from '@studiometa/productive-api';
+
+import type { ExecutorContext } from '../../context/types.js';
+import type { ExecutorResult } from '../types.js';
+import type { CreateInvoiceOptions } from './types.js';
+
+import { getDateService } from '../../dates/date-service.js';
+
+export async function createInvoice(
+  options: CreateInvoiceOptions,
+  ctx: ExecutorContext,
+): Promise<ExecutorResult<ProductiveInvoice>> {
+  const companyId = await ctx.resolver.resolveValue(options.companyId, 'company');
+
+  const response = await ctx.api.createInvoice({
+    company_id: companyId,
+    document_type_id: options.documentTypeId,
+    subsidiary_id: options.subsidiaryId,
+    invoiced_on: options.invoicedOn ?? getDateService(ctx).today(),
+    pay_on: options.payOn,
+    currency: options.currency,
+    subject: options.subject,
+    note: options.note,
+  });
+
+  return { data: response.data };
+}
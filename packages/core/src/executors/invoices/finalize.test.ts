@@ -0,0 +1,19 @@
+import { describe, expect, it, vi } from 'vitest';
+
+import { createTestExecutorContext } from '../../context/test-utils.js';
+import { finalizeInvoice } from './finalize.js';
+
+describe('finalizeInvoice', () => {
+  it('finalizes invoice by id', async () => {
+    const mockResponse = {
+      data: { id: '1', type: 'invoices', attributes: { finalized_on: '2024-01-20' } },
+    };
+    const finalizeInvoiceApi = vi.fn().mockResolvedValue(mockResponse);
+    const ctx = createTestExecutorContext({ api: { finalizeInvoice: finalizeInvoiceApi } });
+
+    const result = await finalizeInvoice({ id: '1' }, ctx);
+
+    expect(finalizeInvoiceApi).toHaveBeenCalledWith('1');
+    expect(result.data).toEqual(mockResponse.data);
+  });
+});
@@ -0,0 +1,13 @@
+import type { ProductiveInvoice } from '@studiometa/productive-api';
+
+import type { ExecutorContext } from '../../context/types.js';
+import type { ExecutorResult } from '../types.js';
+import type { FinalizeInvoiceOptions } from './types.js';
+
+export async function finalizeInvoice(
+  options: FinalizeInvoiceOptions,
+  ctx: ExecutorContext,
+): Promise<ExecutorResult<ProductiveInvoice>> {
+  const response = await ctx.api.finalizeInvoice(options.id);
+  return { data: response.data };
+}
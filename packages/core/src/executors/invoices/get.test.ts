@@ -0,0 +1,33 @@
+import { describe, expect, it, vi } from 'vitest';
+
+import { createTestExecutorContext } from '../../context/test-utils.js';
+import { getInvoice } from './get.js';
+
+describe('getInvoice', () => {
+  const mockResponse = {
+    data: { id: '1', type: 'invoices', attributes: { number: '2024-001' } },
+    included: [{ id: '10', type: 'companies', attributes: { name: 'Acme' } }],
+  };
+
+  it('fetches invoice with default includes', async () => {
+    const getInvoiceApi = vi.fn().mockResolvedValue(mockResponse);
+    const ctx = createTestExecutorContext({ api: { getInvoice: getInvoiceApi } });
+
+    const result = await getInvoice({ id: '1' }, ctx);
+
+    expect(getInvoiceApi).toHaveBeenCalledWith('1', {
+      include: ['company', 'document_type', 'subsidiary'],
+    });
+    expect(result.data).toEqual(mockResponse.data);
+    expect(result.included).toEqual(mockResponse.included);
+  });
+
+  it('uses custom include when specified', async () => {
+    const getInvoiceApi = vi.fn().mockResolvedValue(mockResponse);
+    const ctx = createTestExecutorContext({ api: { getInvoice: getInvoiceApi } });
+
+    await getInvoice({ id: '1', include: ['company'] }, ctx);
+
+    expect(getInvoiceApi).toHaveBeenCalledWith('1', { include: ['company'] });
+  });
+});
@@ -0,0 +1,15 @@
+import type { ProductiveInvoice } from '@studiometa/productive-api';
+
+import type { ExecutorContext } from '../../context/types.js';
+import type { ExecutorResult } from '../types.js';
+import type { GetInvoiceOptions } from './types.js';
+
+export async function getInvoice(
+  options: GetInvoiceOptions,
+  ctx: ExecutorContext,
+): Promise<ExecutorResult<ProductiveInvoice>> {
+  const response = await ctx.api.getInvoice(options.id, {
+    include: options.include ?? ['company', 'document_type', 'subsidiary'],
+  });
+  return { data: response.data, included: response.included };
+}
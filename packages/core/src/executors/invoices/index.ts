@@ -0,0 +1,14 @@
+export { createInvoice } from './create.js';
+export { finalizeInvoice } from './finalize.js';
+export { getInvoice } from './get.js';
+export { listLineItems } from './line-items.js';
+export { buildInvoiceFilters, listInvoices } from './list.js';
+export { updateInvoice } from './update.js';
+export type {
+  CreateInvoiceOptions,
+  FinalizeInvoiceOptions,
+  GetInvoiceOptions,
+  ListInvoicesOptions,
+  ListLineItemsOptions,
+  UpdateInvoiceOptions,
+} from './types.js';
@@ -0,0 +1,26 @@
+import { describe, expect, it, vi } from 'vitest';
+
+import { createTestExecutorContext } from '../../context/test-utils.js';
+import { listLineItems } from './line-items.js';
+
+describe('listLineItems', () => {
+  it('lists line items scoped to the invoice', async () => {
+    const mockResponse = {
+      data: [{ id: '1', type: 'line_items', attributes: { description: 'Design' } }],
+      meta: { current_page: 1, total_pages: 1 },
+    };
+    const getLineItems = vi.fn().mockResolvedValue(mockResponse);
+    const ctx = createTestExecutorContext({ api: { getLineItems } });
+
+    const result = await listLineItems(
+      { invoiceId: '100', additionalFilters: { invoice_id: '999', service_id: '5' } },
+      ctx,
+    );
+
+    expect(getLineItems).toHaveBeenCalledWith(
+      expect.objectContaining({ filter: { invoice_id: '100', service_id: '5' } }),
+    );
+    expect(result.data).toEqual(mockResponse.data);
+    expect(result.meta).toEqual(mockResponse.meta);
+  });
+});
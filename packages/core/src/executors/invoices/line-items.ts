@@ -0,0 +1,19 @@
+import type { ProductiveLineItem } from '@studiometa/productive-api';
+
+import type { ExecutorContext } from '../../context/types.js';
+import type { ExecutorResult } from '../types.js';
+import type { ListLineItemsOptions } from './types.js';
+
+import { buildListParams } from '../types.js';
+
+export async function listLineItems(
+  options: ListLineItemsOptions,
+  ctx: ExecutorContext,
+): Promise<ExecutorResult<ProductiveLineItem[]>> {
+  const response = await ctx.api.getLineItems({
+    ...buildListParams(options),
+    filter: { ...options.additionalFilters, invoice_id: options.invoiceId },
+  });
+
+  return { data: response.data, meta: response.meta, included: response.included };
+}
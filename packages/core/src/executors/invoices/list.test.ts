@@ -0,0 +1,84 @@
+import { describe, expect, it, vi } from 'vitest';
+
+import { createTestExecutorContext } from '../../context/test-utils.js';
+import { buildInvoiceFilters, listInvoices } from './list.js';
+
+describe('buildInvoiceFilters', () => {
+  it('maps typed options to API filter names', () => {
+    const filters = buildInvoiceFilters({
+      companyId: '100',
+      dealId: '200',
+      projectId: '300',
+      subsidiaryId: '400',
+      status: 'finalized',
+      invoiceType: 'credit_note',
+      after: '2024-01-01',
+      before: '2024-01-31',
+    });
+    expect(filters).toEqual({
+      company_id: '100',
+      deal_id: '200',
+      project_id: '300',
+      subsidiary_id: '400',
+      invoice_status: '2', // 'finalized' maps to '2'
+      invoice_type: '2', // 'credit_note' maps to '2'
+      invoiced_on_after: '2024-01-01',
+      invoiced_on_before: '2024-01-31',
+    });
+  });
+
+  it('does not set filter for unknown status or type values', () => {
+    const filters = buildInvoiceFilters({ status: 'unknown', invoiceType: 'unknown' });
+    expect(filters.invoice_status).toBeUndefined();
+    expect(filters.invoice_type).toBeUndefined();
+  });
+
+  it('merges additionalFilters', () => {
+    const filters = buildInvoiceFilters({
+      companyId: '100',
+      additionalFilters: { custom: 'value' },
+    });
+    expect(filters).toEqual({ company_id: '100', custom: 'value' });
+  });
+});
+
+describe('listInvoices', () => {
+  const mockResponse = {
+    data: [{ id: '1', type: 'invoices', attributes: { number: '2024-001' } }],
+    meta: { current_page: 1, total_pages: 1 },
+    included: [{ id: '10', type: 'companies', attributes: { name: 'Acme' } }],
+  };
+
+  it('resolves filters through resolver', async () => {
+    const getInvoices = vi.fn().mockResolvedValue(mockResponse);
+    const resolveFilters = vi.fn().mockResolvedValue({
+      resolved: { company_id: '100' },
+      metadata: { company_id: { original: 'Acme', resolved: '100', type: 'company' } },
+    });
+    const ctx = createTestExecutorContext({
+      api: { getInvoices },
+      resolver: { resolveFilters },
+    });
+
+    const result = await listInvoices({ companyId: 'Acme' }, ctx);
+
+    expect(resolveFilters).toHaveBeenCalledWith({ company_id: 'Acme' });
+    expect(getInvoices).toHaveBeenCalledWith(
+      expect.objectContaining({ filter: { company_id: '100' } }),
+    );
+    expect(result.resolved).toBeDefined();
+    expect(result.included).toEqual(mockResponse.included);
+  });
+
+  it('includes company by default', async () => {
+    const getInvoices = vi.fn().mockResolvedValue(mockResponse);
+    const ctx = createTestExecutorContext({ api: { getInvoices } });
+
+    const result = await listInvoices({}, ctx);
+
+    expect(getInvoices).toHaveBeenCalledWith(
+      expect.objectContaining({ page: 1, perPage: 100, include: ['company'] }),
+    );
+    expect(result.resolved).toBeUndefined();
+  });
+});
@@ -0,0 +1,53 @@
+import type { ProductiveInvoice } from '@studiometa/productive-api';
+
+import { INVOICE_STATUS, INVOICE_TYPE } from '@studiometa/productive-api';
+
+import type { ExecutorContext } from '../../context/types.js';
+import type { ExecutorResult } from '../types.js';
+import type { ListInvoicesOptions } from './types.js';
+
+import { buildListParams } from '../types.js';
+
+export function buildInvoiceFilters(options: ListInvoicesOptions): Record<string, string> {
+  const filter: Record<string, string> = {};
+
+  if (options.additionalFilters) Object.assign(filter, options.additionalFilters);
+  if (options.companyId) filter.company_id = options.companyId;
+  if (options.dealId) filter.deal_id = options.dealId;
+  if (options.projectId) filter.project_id = options.projectId;
+  if (options.subsidiaryId) filter.subsidiary_id = options.subsidiaryId;
+  if (options.after) filter.invoiced_on_after = options.after;
+  if (options.before) filter.invoiced_on_before = options.before;
+
+  if (options.status) {
+    const mapped = INVOICE_STATUS.toValue(options.status);
+    if (mapped !== options.status.toLowerCase()) filter.invoice_status = mapped;
+  }
+  if (options.invoiceType) {
+    const mapped = INVOICE_TYPE.toValue(options.invoiceType);
+    if (mapped !== options.invoiceType.toLowerCase()) filter.invoice_type = mapped;
+  }
+
+  return filter;
+}
+
+export async function listInvoices(
+  options: ListInvoicesOptions,
+  ctx: ExecutorContext,
+): Promise<ExecutorResult<ProductiveInvoice[]>> {
+  const filter = buildInvoiceFilters(options);
+  const { resolved: resolvedFilter, metadata } = await ctx.resolver.resolveFilters(filter);
+
+  const response = await ctx.api.getInvoices({
+    ...buildListParams(options),
+    filter: resolvedFilter,
+    include: options.include ?? ['company'],
+  });
+
+  return {
+    data: response.data,
+    meta: response.meta,
+    included: response.included,
+    resolved: Object.keys(metadata).length > 0 ? metadata : undefined,
+  };
+}
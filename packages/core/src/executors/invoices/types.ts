@@ -0,0 +1,53 @@
+import type { PaginationOptions } from '../types.js';
+
+export interface ListInvoicesOptions extends PaginationOptions {
+  companyId?: string;
+  dealId?: string;
+  projectId?: string;
+  subsidiaryId?: string;
+  /** Status: 'draft' | 'finalized' */
+  status?: string;
+  /** Type: 'invoice' | 'credit_note' */
+  invoiceType?: string;
+  /** Only invoices dated on or after this date (YYYY-MM-DD) */
+  after?: string;
+  /** Only invoices dated on or before this date (YYYY-MM-DD) */
+  before?: string;
+  additionalFilters?: Record<string, string>;
+}
+
+export interface GetInvoiceOptions {
+  id: string;
+  include?: string[];
+}
+
+export interface CreateInvoiceOptions {
+  companyId: string;
+  documentTypeId?: string;
+  subsidiaryId?: string;
+  invoicedOn?: string;
+  payOn?: string;
+  currency?: string;
+  subject?: string;
+  note?: string;
+}
+
+export interface UpdateInvoiceOptions {
+  id: string;
+  subject?: string;
+  invoicedOn?: string;
+  payOn?: string;
+  deliveryOn?: string;
+  currency?: string;
+  note?: string;
+  footer?: string;
+}
+
+export interface FinalizeInvoiceOptions {
+  id: string;
+}
+
+export interface ListLineItemsOptions extends PaginationOptions {
+  invoiceId: string;
+  additionalFilters?: Record<string, string>;
+}
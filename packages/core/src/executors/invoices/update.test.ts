@@ -0,0 +1,45 @@
+import { describe, expect, it, vi } from 'vitest';
+
+import { createTestExecutorContext } from '../../context/test-utils.js';
+import { ExecutorValidationError } from '../errors.js';
+import { updateInvoice } from './update.js';
+
+describe('updateInvoice', () => {
+  const mockInvoice = { id: '1', type: 'invoices' as const, attributes: { subject: 'New' } };
+
+  it('maps all update fields', async () => {
+    const updateInvoiceApi = vi.fn().mockResolvedValue({ data: mockInvoice });
+    const ctx = createTestExecutorContext({ api: { updateInvoice: updateInvoiceApi } });
+
+    const result = await updateInvoice(
+      {
+        id: '1',
+        subject: 'New',
+        invoicedOn: '2024-01-15',
+        payOn: '2024-02-14',
+        deliveryOn: '2024-01-10',
+        currency: 'USD',
+        note: 'Note',
+        footer: 'Footer',
+      },
+      ctx,
+    );
+
+    expect(updateInvoiceApi).toHaveBeenCalledWith('1', {
+      subject: 'New',
+      invoiced_on: '2024-01-15',
+      pay_on: '2024-02-14',
+      delivery_on: '2024-01-10',
+      currency: 'USD',
+      note: 'Note',
+      footer: 'Footer',
+    });
+    expect(result.data).toEqual(mockInvoice);
+  });
+
+  it('throws validation error when no updates provided', async () => {
+    const ctx = createTestExecutorContext();
+
+    await expect(updateInvoice({ id: '1' }, ctx)).rejects.toThrow(ExecutorValidationError);
+  });
+});
@@ -0,0 +1,32 @@
+import type { ProductiveInvoice } from '@studiometa/productive-api';
+
+import type { ExecutorContext } from '../../context/types.js';
+import type { ExecutorResult } from '../types.js';
+import type { UpdateInvoiceOptions } from './types.js';
+
+import { ExecutorValidationError } from '../errors.js';
+
+export async function updateInvoice(
+  options: UpdateInvoiceOptions,
+  ctx: ExecutorContext,
+): Promise<ExecutorResult<ProductiveInvoice>> {
+  const data: Record<string, string> = {};
+
+  if (options.subject !== undefined) data.subject = options.subject;
+  if (options.invoicedOn !== undefined) data.invoiced_on = options.invoicedOn;
+  if (options.payOn !== undefined) data.pay_on = options.payOn;
+  if (options.deliveryOn !== undefined) data.delivery_on = options.deliveryOn;
+  if (options.currency !== undefined) data.currency = options.currency;
+  if (options.note !== undefined) data.note = options.note;
+  if (options.footer !== undefined) data.footer = options.footer;
+
+  if (Object.keys(data).length === 0) {
+    throw new ExecutorValidationError(
+      'No updates specified. Provide at least one field to update',
+      'options',
+    );
+  }
+
+  const response = await ctx.api.updateInvoice(options.id, data);
+  return { data: response.data };
+}
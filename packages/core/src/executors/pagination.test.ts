@@ -0,0 +1,35 @@
+import { describe, expect, it, vi } from 'vitest';
+
+import { fetchAllPages } from './pagination.js';
+
+describe('fetchAllPages', () => {
+  it('reads every page with its included resources', async () => {
+    const fetchPage = vi
+      .fn()
+      .mockResolvedValueOnce({
+        data: [{ id: '1' }],
+        included: [{ id: '10', type: 'people', attributes: {} }],
+        meta: { total_pages: 2 },
+      })
+      .mockResolvedValueOnce({ data: [{ id: '2' }], meta: { total_pages: 2 } });
+
+    const result = await fetchAllPages(fetchPage);
+
+    expect(fetchPage.mock.calls).toEqual([[1], [2]]);
+    expect(result).toEqual({
+      data: [{ id: '1' }, { id: '2' }],
+      included: [{ id: '10', type: 'people', attributes: {} }],
+    });
+  });
+
+  it('stops on an empty page or without pagination metadata', async () => {
+    const empty = vi.fn().mockResolvedValue({ data: [], meta: { total_pages: 5 } });
+    const single = vi.fn().mockResolvedValue({ data: [{ id: '1' }] });
+
+    await fetchAllPages(empty);
+    await fetchAllPages(single);
+
+    expect(empty).toHaveBeenCalledTimes(1);
+    expect(single).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,28 @@
+/**
+ * Reading whole lists.
+ *
+ * Executors that compute over every record of a list (availability, budget
+ * forecasts…) fetch it page by page at the largest page size the API serves.
+ */
+
+import type { IncludedResource, ProductiveApiResponse } from '@studiometa/productive-api';
+
+/** Largest page size the API serves */
+export const MAX_PAGE_SIZE = 200;
+
+/**
+ * Fetch every page of a list, with the resources included along the way
+ */
+export async function fetchAllPages<T>(
+  fetchPage: (page: number) => Promise<ProductiveApiResponse<T[]>>,
+): Promise<{ data: T[]; included: IncludedResource[] }> {
+  const data: T[] = [];
+  const included: IncludedResource[] = [];
+  for (let page = 1; ; page++) {
+    const response = await fetchPage(page);
+    data.push(...response.data);
+    included.push(...(response.included ?? []));
+    if (page >= (response.meta?.total_pages ?? 1) || response.data.length === 0) break;
+  }
+  return { data, included };
+}
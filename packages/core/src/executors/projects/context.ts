@@ -14,20 +14,13 @@ import type { ExecutorContext } from '../../context/types.js';
 import type { ExecutorResult } from '../types.js';
 import type { GetProjectContextOptions, ProjectContextResult } from './types.js';
 
+import { getDateService } from '../../dates/date-service.js';
+
 /** Maximum number of related items to fetch per category */
 const MAX_TASKS = 5;
 const MAX_SERVICES = 20;
 const MAX_TIME_ENTRIES = 20;
 
-/**
- * Get date string for N days ago (YYYY-MM-DD format)
- */
-function getDateDaysAgo(days: number): string {
-  const date = new Date();
-  date.setDate(date.getDate() - days);
-  return date.toISOString().split('T')[0];
-}
-
 export async function getProjectContext(
   options: GetProjectContextOptions,
   ctx: ExecutorContext,
@@ -35,7 +28,8 @@ export async function getProjectContext(
   // Resolve human-friendly ID first
   const resolvedId = await ctx.resolver.resolveValue(options.id, 'project');
 
-  const sevenDaysAgo = getDateDaysAgo(7);
+  const dates = getDateService(ctx);
+  const sevenDaysAgo = dates.addDays(dates.today(), -7);
 
   // Fetch all related data in parallel
   const [projectResponse, tasksResponse, servicesResponse, timeEntriesResponse] = await Promise.all(
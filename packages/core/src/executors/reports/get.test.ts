@@ -1,6 +1,7 @@
 import { describe, expect, it, vi } from 'vitest';
 
 import { createTestExecutorContext } from '../../context/test-utils.js';
+import { createDateService } from '../../dates/date-service.js';
 import { buildReportFilters, getReport, resolveGroup, resolveIncludes } from './get.js';
 
 describe('buildReportFilters', () => {
@@ -52,6 +53,15 @@ describe('buildReportFilters', () => {
     expect(filters).toEqual({ after: '2026-01-01', before: '2026-01-31' });
   });
 
+  it('uses the period for unset ends of the range', () => {
+    expect(
+      buildReportFilters({ reportType: 'invoice_reports', period: 'q3', to: '2026-08-15' }),
+    ).toEqual({ invoice_date_after: 'q3', invoice_date_before: '2026-08-15' });
+    expect(
+      buildReportFilters({ reportType: 'time_reports', additionalFilters: { period: 'ytd' } }),
+    ).toEqual({ after: 'ytd', before: 'ytd' });
+  });
+
   it('maps personId to assignee_id for task_reports', () => {
     const filters = buildReportFilters({
       reportType: 'task_reports',
@@ -214,6 +224,26 @@ describe('getReport', () => {
     });
     expect(result.data).toEqual(mockResponse.data);
     expect(result.meta).toEqual(mockResponse.meta);
+    expect(result.dates).toBeUndefined();
+  });
+
+  it('resolves date expressions in the range', async () => {
+    const getReports = vi.fn().mockResolvedValue(mockResponse);
+    const ctx = createTestExecutorContext({
+      api: { getReports },
+      dates: createDateService({ timezone: 'UTC', clock: () => new Date('2026-10-19T12:00:00Z') }),
+    });
+
+    const result = await getReport({ reportType: 'payment_reports', period: 'q3' }, ctx);
+
+    expect(getReports).toHaveBeenCalledWith(
+      'payment_reports',
+      expect.objectContaining({ filter: { date_after: '2026-07-01', date_before: '2026-09-30' } }),
+    );
+    expect(result.dates).toEqual({
+      date_after: { input: 'q3', date: '2026-07-01' },
+      date_before: { input: 'q3', date: '2026-09-30' },
+    });
   });
 
   it('uses custom pagination, group, and includes', async () => {
@@ -2,6 +2,8 @@ import type { ExecutorContext } from '../../context/types.js';
 import type { ExecutorResult } from '../types.js';
 import type { GetReportOptions, ReportType } from './types.js';
 
+import { getDateService } from '../../dates/date-service.js';
+import { resolveDateFilters } from '../../dates/filters.js';
 import { DEFAULT_GROUPS, DEFAULT_INCLUDES } from './types.js';
 
 /**
@@ -13,26 +15,32 @@ import { DEFAULT_GROUPS, DEFAULT_INCLUDES } from './types.js';
 export function buildReportFilters(options: GetReportOptions): Record<string, string> {
   const filter: Record<string, string> = {};
 
-  if (options.additionalFilters) Object.assign(filter, options.additionalFilters);
+  // A raw `period` filter is a date range like the option, not an API filter
+  const { period: rawPeriod, ...additionalFilters } = options.additionalFilters ?? {};
+  Object.assign(filter, additionalFilters);
 
   // Date filters — naming varies by report type
-  if (options.from) {
+  const period = options.period ?? rawPeriod;
+  const from = options.from ?? period;
+  const to = options.to ?? period;
+
+  if (from) {
     if (options.reportType === 'invoice_reports') {
-      filter.invoice_date_after = options.from;
+      filter.invoice_date_after = from;
     } else if (options.reportType === 'payment_reports' || options.reportType === 'deal_reports') {
-      filter.date_after = options.from;
+      filter.date_after = from;
     } else {
-      filter.after = options.from;
+      filter.after = from;
     }
   }
 
-  if (options.to) {
+  if (to) {
     if (options.reportType === 'invoice_reports') {
-      filter.invoice_date_before = options.to;
+      filter.invoice_date_before = to;
     } else if (options.reportType === 'payment_reports' || options.reportType === 'deal_reports') {
-      filter.date_before = options.to;
+      filter.date_before = to;
     } else {
-      filter.before = options.to;
+      filter.before = to;
     }
   }
 
@@ -81,11 +89,15 @@ export function resolveIncludes(reportType: ReportType, include?: string[]): str
   return include ?? DEFAULT_INCLUDES[reportType];
 }
 
+/**
+ * Get a report. Date expressions in the range are resolved to absolute dates
+ * in the context's timezone and reported in `dates`.
+ */
 export async function getReport(
   options: GetReportOptions,
   ctx: ExecutorContext,
 ): Promise<ExecutorResult<unknown[]>> {
-  const filter = buildReportFilters(options);
+  const { filter, dates } = resolveDateFilters(buildReportFilters(options), getDateService(ctx));
   const effectiveGroup = resolveGroup(options.reportType, options.group);
   const effectiveInclude = resolveIncludes(options.reportType, options.include);
 
@@ -101,5 +113,6 @@ export async function getReport(
     data: response.data,
     meta: response.meta,
     included: response.included,
+    dates: Object.keys(dates).length > 0 ? dates : undefined,
   };
 }
@@ -6,10 +6,12 @@ export type { ReportType } from '../../constants.js';
 export interface GetReportOptions extends PaginationOptions {
   reportType: ReportType;
   group?: string;
-  /** Date range start */
+  /** Date range start (YYYY-MM-DD or an expression like "last monday") */
   from?: string;
-  /** Date range end */
+  /** Date range end (YYYY-MM-DD or an expression like "yesterday") */
   to?: string;
+  /** Period covering both ends, e.g. "last-month", "q3", "ytd"; `from`/`to` take precedence */
+  period?: string;
   /** Person filter (mapped to person_id or assignee_id depending on report type) */
   personId?: string;
   projectId?: string;
@@ -4,7 +4,7 @@
  * Dashboard-style summaries that aggregate data from multiple resources:
  * - my_day: Personal dashboard for the current user
  * - project_health: Project status with budget burn and task stats
- * - team_pulse: Team-wide time tracking activity
+ * - team_pulse: Team-wide time tracking activity and who is out today
  */
 
 export { getMyDaySummary } from './my-day.js';
@@ -13,6 +13,7 @@ export { getTeamPulseSummary } from './team-pulse.js';
 export type {
   MyDaySummaryOptions,
   MyDaySummaryResult,
+  OutTodaySummary,
   PersonTimeSummary,
   ProjectHealthSummaryOptions,
   ProjectHealthSummaryResult,
@@ -1,6 +1,7 @@
 import { describe, expect, it, vi } from 'vitest';
 
 import { createTestExecutorContext } from '../../context/test-utils.js';
+import { createDateService } from '../../dates/date-service.js';
 import { ExecutorValidationError } from '../errors.js';
 import { getMyDaySummary } from './my-day.js';
 
@@ -184,6 +185,36 @@ describe('getMyDaySummary', () => {
     );
   });
 
+  it('derives today in the timezone of the context', async () => {
+    const getTasks = vi.fn().mockResolvedValue({ data: [], meta: {}, included: [] });
+    const getTimeEntries = vi.fn().mockResolvedValue({ data: [], meta: {}, included: [] });
+    const getTimers = vi.fn().mockResolvedValue({ data: [], meta: {}, included: [] });
+
+    const ctx = createTestExecutorContext({
+      api: { getTasks, getTimeEntries, getTimers },
+      config: { userId: 'user-123', organizationId: 'org-456' },
+      // 23:30 in UTC is already the next day in Paris
+      dates: createDateService({
+        timezone: 'Europe/Paris',
+        clock: () => new Date('2026-02-20T23:30:00Z'),
+      }),
+    });
+
+    const result = await getMyDaySummary({}, ctx);
+
+    expect(getTimeEntries).toHaveBeenCalledWith(
+      expect.objectContaining({
+        filter: expect.objectContaining({ after: '2026-02-21', before: '2026-02-21' }),
+      }),
+    );
+    expect(getTasks).toHaveBeenCalledWith(
+      expect.objectContaining({
+        filter: expect.objectContaining({ due_date_before: '2026-02-22' }),
+      }),
+    );
+    expect(result.data.generated_at).toBe('2026-02-20T23:30:00.000Z');
+  });
+
   it('handles empty responses gracefully', async () => {
     const emptyResponse = { data: [], meta: { total_count: 0 }, included: [] };
     const getTasks = vi.fn().mockResolvedValue(emptyResponse);
@@ -16,27 +16,12 @@ import type { ExecutorContext } from '../../context/types.js';
 import type { ExecutorResult } from '../types.js';
 import type { MyDaySummaryOptions, MyDaySummaryResult } from './types.js';
 
+import { getDateService } from '../../dates/date-service.js';
 import { ExecutorValidationError } from '../errors.js';
 import { toSummaryTask, toSummaryTimeEntry, toSummaryTimer } from './types.js';
 
 const MAX_ITEMS = 20;
 
-/**
- * Get today's date in YYYY-MM-DD format
- */
-function getToday(): string {
-  return new Date().toISOString().split('T')[0];
-}
-
-/**
- * Get tomorrow's date in YYYY-MM-DD format (for overdue filter)
- */
-function getTomorrow(): string {
-  const tomorrow = new Date();
-  tomorrow.setDate(tomorrow.getDate() + 1);
-  return tomorrow.toISOString().split('T')[0];
-}
-
 /**
  * Fetch my_day summary.
  *
@@ -58,8 +43,9 @@ export async function getMyDaySummary(
     );
   }
 
-  const today = getToday();
-  const tomorrow = getTomorrow();
+  const dates = getDateService(ctx);
+  const today = dates.today();
+  const tomorrow = dates.addDays(today, 1); // for the overdue filter
 
   // Parallel fetch all data
   const [openTasksRes, overdueTasksRes, timeEntriesRes, timersRes] = await Promise.all([
@@ -128,7 +114,7 @@ export async function getMyDaySummary(
 
   const result: MyDaySummaryResult = {
     summary_type: 'my_day',
-    generated_at: new Date().toISOString(),
+    generated_at: dates.now().toISOString(),
     user_id: userId,
     tasks: {
       open: openTasksRes.meta?.total_count ?? openTasksRes.data.length,
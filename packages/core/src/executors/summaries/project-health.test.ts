@@ -4,6 +4,8 @@ import { createTestExecutorContext } from '../../context/test-utils.js';
 import { ExecutorValidationError } from '../errors.js';
 import { getProjectHealthSummary } from './project-health.js';
 
+const emptyExpenses = () => vi.fn().mockResolvedValue({ data: [], meta: {} });
+
 describe('getProjectHealthSummary', () => {
   const mockProjectResponse = {
     data: {
@@ -78,6 +80,30 @@ describe('getProjectHealthSummary', () => {
     meta: { total_count: 15 },
   };
 
+  const mockExpensesResponse = {
+    data: [
+      {
+        id: '600',
+        type: 'expenses',
+        attributes: { name: 'Fonts', amount: '12000' },
+        relationships: { service: { data: { type: 'services', id: '401' } } },
+      },
+      {
+        id: '601',
+        type: 'expenses',
+        attributes: { name: 'Hosting', amount: '5050' },
+        relationships: { service: { data: { type: 'services', id: '400' } } },
+      },
+      {
+        id: '602',
+        type: 'expenses',
+        attributes: { name: 'Rejected taxi', amount: '3000', rejected: true },
+        relationships: { service: { data: { type: 'services', id: '400' } } },
+      },
+    ],
+    meta: { total_count: 3 },
+  };
+
   it('fetches and aggregates data for project_health summary', async () => {
     const getProject = vi.fn().mockResolvedValue(mockProjectResponse);
     const getTasks = vi
@@ -86,9 +112,10 @@ describe('getProjectHealthSummary', () => {
       .mockResolvedValueOnce(mockOverdueTasksResponse);
     const getServices = vi.fn().mockResolvedValue(mockServicesResponse);
     const getTimeEntries = vi.fn().mockResolvedValue(mockTimeEntriesResponse);
+    const getExpenses = vi.fn().mockResolvedValue(mockExpensesResponse);
 
     const ctx = createTestExecutorContext({
-      api: { getProject, getTasks, getServices, getTimeEntries },
+      api: { getProject, getTasks, getServices, getTimeEntries, getExpenses },
     });
 
     const result = await getProjectHealthSummary({ projectId: '100' }, ctx);
@@ -104,8 +131,81 @@ describe('getProjectHealthSummary', () => {
     expect(result.data.budget.total_budgeted_minutes).toBe(8000); // 6000 + 2000
     expect(result.data.budget.total_worked_minutes).toBe(4500); // 3000 + 1500
     expect(result.data.budget.burn_rate_percent).toBe(56); // 4500 / 8000 * 100 ≈ 56
+    expect(result.data.budget.burn_rate_basis).toBe('time');
     expect(result.data.recent_activity.time_entries_last_7_days).toBe(15);
     expect(result.data.recent_activity.total_time_last_7_days_minutes).toBe(270); // 120 + 60 + 90
+    expect(result.data.budget.expenses).toEqual({ count: 2, total_amount: 170.5 });
+    expect(getExpenses).toHaveBeenCalledWith(
+      expect.objectContaining({ filter: { project_id: '100' } }),
+    );
+  });
+
+  it('counts non-rejected expenses per service', async () => {
+    const getProject = vi.fn().mockResolvedValue(mockProjectResponse);
+    const getTasks = vi.fn().mockResolvedValue({ data: [], meta: {}, included: [] });
+    const getServices = vi.fn().mockResolvedValue(mockServicesResponse);
+    const getTimeEntries = vi.fn().mockResolvedValue({ data: [], meta: {} });
+    const getExpenses = vi.fn().mockResolvedValue(mockExpensesResponse);
+
+    const ctx = createTestExecutorContext({
+      api: { getProject, getTasks, getServices, getTimeEntries, getExpenses },
+    });
+
+    const result = await getProjectHealthSummary({ projectId: '100' }, ctx);
+
+    const devService = result.data.budget.services.find((s) => s.id === '400');
+    const designService = result.data.budget.services.find((s) => s.id === '401');
+    expect(devService?.expense_amount).toBe(50.5);
+    expect(designService?.expense_amount).toBe(120);
+  });
+
+  it('adds the expenses to the budget used when the services have a budget amount', async () => {
+    const getServices = vi.fn().mockResolvedValue({
+      data: mockServicesResponse.data.map((service) => ({
+        ...service,
+        attributes: { ...service.attributes, budget_total: '500000', budget_used: '200000' },
+      })),
+      meta: {},
+    });
+    const ctx = createTestExecutorContext({
+      api: {
+        getProject: vi.fn().mockResolvedValue(mockProjectResponse),
+        getTasks: vi.fn().mockResolvedValue({ data: [], meta: {}, included: [] }),
+        getServices,
+        getTimeEntries: vi.fn().mockResolvedValue({ data: [], meta: {} }),
+        getExpenses: vi.fn().mockResolvedValue(mockExpensesResponse),
+      },
+    });
+
+    const result = await getProjectHealthSummary({ projectId: '100' }, ctx);
+
+    // (4000 + 170.50 of expenses) / 10000 ≈ 42
+    expect(result.data.budget.burn_rate_percent).toBe(42);
+    expect(result.data.budget.burn_rate_basis).toBe('amount');
+  });
+
+  it('reads every page of expenses', async () => {
+    const [fonts, hosting] = mockExpensesResponse.data;
+    const getExpenses = vi
+      .fn()
+      .mockResolvedValueOnce({ data: [fonts], meta: { total_pages: 2 } })
+      .mockResolvedValueOnce({ data: [hosting], meta: { total_pages: 2 } });
+    const ctx = createTestExecutorContext({
+      api: {
+        getProject: vi.fn().mockResolvedValue(mockProjectResponse),
+        getTasks: vi.fn().mockResolvedValue({ data: [], meta: {}, included: [] }),
+        getServices: vi.fn().mockResolvedValue(mockServicesResponse),
+        getTimeEntries: vi.fn().mockResolvedValue({ data: [], meta: {} }),
+        getExpenses,
+      },
+    });
+
+    const result = await getProjectHealthSummary({ projectId: '100' }, ctx);
+
+    expect(getExpenses).toHaveBeenLastCalledWith(
+      expect.objectContaining({ page: 2, perPage: 200 }),
+    );
+    expect(result.data.budget.expenses).toEqual({ count: 2, total_amount: 170.5 });
   });
 
   it('throws ExecutorValidationError when projectId is missing', async () => {
@@ -127,7 +227,7 @@ describe('getProjectHealthSummary', () => {
     const resolveValue = vi.fn().mockResolvedValue('100');
 
     const ctx = createTestExecutorContext({
-      api: { getProject, getTasks, getServices, getTimeEntries },
+      api: { getProject, getTasks, getServices, getTimeEntries, getExpenses: emptyExpenses() },
       resolver: { resolveValue },
     });
 
@@ -144,7 +244,7 @@ describe('getProjectHealthSummary', () => {
     const getTimeEntries = vi.fn().mockResolvedValue({ data: [], meta: {} });
 
     const ctx = createTestExecutorContext({
-      api: { getProject, getTasks, getServices, getTimeEntries },
+      api: { getProject, getTasks, getServices, getTimeEntries, getExpenses: emptyExpenses() },
     });
 
     await getProjectHealthSummary({ projectId: '100' }, ctx);
@@ -200,7 +300,7 @@ describe('getProjectHealthSummary', () => {
     const getTimeEntries = vi.fn().mockResolvedValue({ data: [], meta: {} });
 
     const ctx = createTestExecutorContext({
-      api: { getProject, getTasks, getServices, getTimeEntries },
+      api: { getProject, getTasks, getServices, getTimeEntries, getExpenses: emptyExpenses() },
     });
 
     const result = await getProjectHealthSummary({ projectId: '100' }, ctx);
@@ -228,7 +328,7 @@ describe('getProjectHealthSummary', () => {
     const getTimeEntries = vi.fn().mockResolvedValue({ data: [], meta: {} });
 
     const ctx = createTestExecutorContext({
-      api: { getProject, getTasks, getServices, getTimeEntries },
+      api: { getProject, getTasks, getServices, getTimeEntries, getExpenses: emptyExpenses() },
     });
 
     const result = await getProjectHealthSummary({ projectId: '100' }, ctx);
@@ -247,7 +347,7 @@ describe('getProjectHealthSummary', () => {
     const getTimeEntries = vi.fn().mockResolvedValue({ data: [], meta: { total_count: 0 } });
 
     const ctx = createTestExecutorContext({
-      api: { getProject, getTasks, getServices, getTimeEntries },
+      api: { getProject, getTasks, getServices, getTimeEntries, getExpenses: emptyExpenses() },
     });
 
     const result = await getProjectHealthSummary({ projectId: '100' }, ctx);
@@ -4,11 +4,15 @@
  * Provides a project dashboard summary including:
  * - Project details
  * - Open and overdue tasks
- * - Budget burn rate per service
+ * - Budget burn rate, including project expenses
  * - Recent activity (time entries in last 7 days)
  */
 
-import type { IncludedResource, ProductiveService } from '@studiometa/productive-api';
+import type {
+  IncludedResource,
+  ProductiveExpense,
+  ProductiveService,
+} from '@studiometa/productive-api';
 
 import { TASK_OVERDUE_STATUS, TASK_STATUS } from '@studiometa/productive-api';
 
@@ -20,27 +24,13 @@ import type {
   SummaryBudgetService,
 } from './types.js';
 
+import { getDateService } from '../../dates/date-service.js';
 import { ExecutorValidationError } from '../errors.js';
+import { fetchAllPages, MAX_PAGE_SIZE } from '../pagination.js';
 import { toSummaryTask } from './types.js';
 
 const MAX_ITEMS = 20;
 
-/**
- * Get today's date in YYYY-MM-DD format
- */
-function getToday(): string {
-  return new Date().toISOString().split('T')[0];
-}
-
-/**
- * Get date 7 days ago in YYYY-MM-DD format
- */
-function getSevenDaysAgo(): string {
-  const date = new Date();
-  date.setDate(date.getDate() - 7);
-  return date.toISOString().split('T')[0];
-}
-
 /**
  * Convert service to budget summary
  */
@@ -57,6 +47,53 @@ function toSummaryBudgetService(service: ProductiveService): SummaryBudgetServic
   };
 }
 
+/**
+ * Sum non-rejected expense amounts (integer cents) per service.
+ * Expenses without a service are collected under the empty key.
+ */
+function sumExpensesByService(expenses: ProductiveExpense[]): Map<string, number> {
+  const totals = new Map<string, number>();
+  for (const expense of expenses) {
+    if (expense.attributes.rejected) continue;
+    const serviceId = expense.relationships?.service?.data?.id ?? '';
+    const cents = Number(expense.attributes.amount ?? 0) || 0;
+    totals.set(serviceId, (totals.get(serviceId) ?? 0) + cents);
+  }
+  return totals;
+}
+
+/**
+ * Share of the budget consumed, in percent. When the services have a budget
+ * amount, the expenses count towards it with the value of the time worked;
+ * otherwise only the time worked is measured against the budgeted time.
+ */
+function burnRate(
+  services: ProductiveService[],
+  expenseCents: number,
+): Pick<ProjectHealthSummaryResult['budget'], 'burn_rate_percent' | 'burn_rate_basis'> {
+  const budgetCents = services.reduce(
+    (sum, s) => sum + (Number(s.attributes.budget_total ?? 0) || 0),
+    0,
+  );
+  if (budgetCents > 0) {
+    const usedCents = services.reduce(
+      (sum, s) => sum + (Number(s.attributes.budget_used ?? 0) || 0),
+      expenseCents,
+    );
+    return {
+      burn_rate_percent: Math.round((usedCents / budgetCents) * 100),
+      burn_rate_basis: 'amount',
+    };
+  }
+
+  const budgeted = services.reduce((sum, s) => sum + (s.attributes.budgeted_time ?? 0), 0);
+  const worked = services.reduce((sum, s) => sum + (s.attributes.worked_time ?? 0), 0);
+  return {
+    burn_rate_percent: budgeted > 0 ? Math.round((worked / budgeted) * 100) : 0,
+    burn_rate_basis: 'time',
+  };
+}
+
 /**
  * Fetch project_health summary.
  *
@@ -66,6 +103,7 @@ function toSummaryBudgetService(service: ProductiveService): SummaryBudgetServic
  * - listTasks(project_id, overdue)
  * - listServices(project_id)
  * - listTimeEntries(project_id, last 7 days)
+ * - listExpenses(project_id), every page
  */
 export async function getProjectHealthSummary(
   options: ProjectHealthSummaryOptions,
@@ -81,12 +119,13 @@ export async function getProjectHealthSummary(
   // Resolve project ID if it's a smart identifier
   const projectId = await ctx.resolver.resolveValue(options.projectId, 'project');
 
-  const today = getToday();
-  const sevenDaysAgo = getSevenDaysAgo();
+  const dates = getDateService(ctx);
+  const today = dates.today();
+  const sevenDaysAgo = dates.addDays(today, -7);
 
   // Parallel fetch all data
-  const [projectRes, openTasksRes, overdueTasksRes, servicesRes, recentTimeRes] = await Promise.all(
-    [
+  const [projectRes, openTasksRes, overdueTasksRes, servicesRes, recentTimeRes, expensesRes] =
+    await Promise.all([
       // Project details
       ctx.api.getProject(projectId),
       // Open tasks in project
@@ -130,8 +169,17 @@ export async function getProjectHealthSummary(
           before: today,
         },
       }),
-    ],
-  );
+      // Expenses booked on the project, counted towards budget burn
+      fetchAllPages((page) =>
+        ctx.api.getExpenses({
+          page,
+          perPage: MAX_PAGE_SIZE,
+          filter: {
+            project_id: projectId,
+          },
+        }),
+      ),
+    ]);
 
   const project = projectRes.data;
 
@@ -142,17 +190,25 @@ export async function getProjectHealthSummary(
   ];
 
   // Calculate budget metrics
-  const services = servicesRes.data.map(toSummaryBudgetService);
+  const expenseCents = sumExpensesByService(expensesRes.data);
+  const services = servicesRes.data.map((service) => {
+    const summary = toSummaryBudgetService(service);
+    const cents = expenseCents.get(service.id);
+    if (cents) summary.expense_amount = cents / 100;
+    return summary;
+  });
+  let totalExpenseCents = 0;
+  for (const cents of expenseCents.values()) totalExpenseCents += cents;
+  const expenseCount = expensesRes.data.filter((e) => !e.attributes.rejected).length;
   const totalBudgeted = services.reduce((sum, s) => sum + (s.budgeted_time ?? 0), 0);
   const totalWorked = services.reduce((sum, s) => sum + (s.worked_time ?? 0), 0);
-  const burnRatePercent = totalBudgeted > 0 ? Math.round((totalWorked / totalBudgeted) * 100) : 0;
 
   // Calculate recent activity
   const recentTimeTotal = recentTimeRes.data.reduce((sum, entry) => sum + entry.attributes.time, 0);
 
   const result: ProjectHealthSummaryResult = {
     summary_type: 'project_health',
-    generated_at: new Date().toISOString(),
+    generated_at: dates.now().toISOString(),
     project: {
       id: project.id,
       name: project.attributes.name,
@@ -167,7 +223,11 @@ export async function getProjectHealthSummary(
       services,
       total_budgeted_minutes: totalBudgeted,
       total_worked_minutes: totalWorked,
-      burn_rate_percent: burnRatePercent,
+      ...burnRate(servicesRes.data, totalExpenseCents),
+      expenses: {
+        count: expenseCount,
+        total_amount: totalExpenseCents / 100,
+      },
     },
     recent_activity: {
       time_entries_last_7_days: recentTimeRes.meta?.total_count ?? recentTimeRes.data.length,
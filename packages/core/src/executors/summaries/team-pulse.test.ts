@@ -3,6 +3,17 @@ import { describe, expect, it, vi } from 'vitest';
 import { createTestExecutorContext } from '../../context/test-utils.js';
 import { getTeamPulseSummary } from './team-pulse.js';
 
+// Seven-day schedule so the absence counts whatever weekday the test runs on
+const salary = (id: string, personId: string) => ({
+  id,
+  type: 'salaries',
+  attributes: { started_on: '2020-01-01', working_hours: [480, 480, 480, 480, 480, 480, 480] },
+  relationships: {
+    person: { data: { type: 'people', id: personId } },
+    holiday_calendar: { data: { type: 'holiday_calendars', id: personId === '1' ? '5' : '6' } },
+  },
+});
+
 describe('getTeamPulseSummary', () => {
   const mockPeopleResponse = {
     data: [
@@ -280,4 +291,86 @@ describe('getTeamPulseSummary', () => {
 
     expect(result.data.people).toHaveLength(50);
   });
+
+  describe('out_today', () => {
+    const today = new Date().toISOString().split('T')[0];
+    it('flags people on holiday or absent today', async () => {
+      const ctx = createTestExecutorContext({
+        api: {
+          getPeople: vi.fn().mockResolvedValue(mockPeopleResponse),
+          getTimeEntries: vi.fn().mockResolvedValue(mockTimeEntriesResponse),
+          getTimers: vi.fn().mockResolvedValue({ data: [], meta: {}, included: [] }),
+          getSalaries: vi.fn().mockResolvedValue({
+            data: [salary('10', '1'), salary('11', '2'), salary('12', '3')],
+            meta: {},
+          }),
+          getHolidays: vi.fn().mockResolvedValue({
+            data: [
+              {
+                id: '1',
+                type: 'holidays',
+                attributes: { name: 'Public Holiday', date: today },
+                relationships: {
+                  holiday_calendar: { data: { type: 'holiday_calendars', id: '5' } },
+                },
+              },
+            ],
+            meta: {},
+          }),
+          getBookings: vi.fn().mockResolvedValue({
+            data: [
+              {
+                id: '20',
+                type: 'bookings',
+                attributes: { started_on: today, ended_on: today, time: 240, booking_method_id: 1 },
+                relationships: {
+                  person: { data: { type: 'people', id: '2' } },
+                  event: { data: { type: 'events', id: '7' } },
+                },
+              },
+            ],
+            meta: {},
+            included: [{ id: '7', type: 'events', attributes: { name: 'Sick leave' } }],
+          }),
+        },
+      });
+
+      const result = await getTeamPulseSummary({}, ctx);
+
+      expect(result.data.team.out_today).toBe(2);
+      expect(result.data.out_today).toEqual([
+        {
+          person_id: '1',
+          person_name: 'Alice Smith',
+          reason: 'holiday',
+          label: 'Public Holiday',
+        },
+        {
+          person_id: '2',
+          person_name: 'Bob Jones',
+          reason: 'absence',
+          label: 'Sick leave',
+          absence_minutes: 240,
+        },
+      ]);
+    });
+
+    it('omits out_today when availability cannot be computed', async () => {
+      const ctx = createTestExecutorContext({
+        api: {
+          getPeople: vi.fn().mockResolvedValue(mockPeopleResponse),
+          getTimeEntries: vi.fn().mockResolvedValue(mockTimeEntriesResponse),
+          getTimers: vi.fn().mockResolvedValue({ data: [], meta: {}, included: [] }),
+          getSalaries: vi.fn().mockRejectedValue(new Error('Forbidden')),
+          getBookings: vi.fn().mockResolvedValue({ data: [], meta: {} }),
+        },
+      });
+
+      const result = await getTeamPulseSummary({}, ctx);
+
+      expect(result.data.out_today).toBeUndefined();
+      expect(result.data.team.out_today).toBeUndefined();
+      expect(result.data.team.tracking_today).toBe(2);
+    });
+  });
 });
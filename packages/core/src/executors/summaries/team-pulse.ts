@@ -6,6 +6,7 @@
  * - Who's tracking time today
  * - Who has active timers
  * - Time logged per person
+ * - Who is out today (holiday or absence)
  */
 
 import type {
@@ -18,20 +19,48 @@ import type {
 import { PERSON_STATUS, PERSON_TYPE } from '@studiometa/productive-api';
 
 import type { ExecutorContext } from '../../context/types.js';
+import type { PersonAvailability } from '../availability/types.js';
 import type { ExecutorResult } from '../types.js';
 import type {
+  OutTodaySummary,
   PersonTimeSummary,
   TeamPulseSummaryOptions,
   TeamPulseSummaryResult,
 } from './types.js';
 
+import { getDateService } from '../../dates/date-service.js';
+import { computeAvailability } from '../availability/get.js';
 import { toSummaryTimer } from './types.js';
 
 /**
- * Get today's date in YYYY-MM-DD format
+ * List people on holiday or with an absence booked today.
  */
-function getToday(): string {
-  return new Date().toISOString().split('T')[0];
+function getOutToday(availability: PersonAvailability[]): OutTodaySummary[] {
+  const out: OutTodaySummary[] = [];
+
+  for (const person of availability) {
+    const day = person.days[0];
+    if (!day) continue;
+
+    if (day.holiday) {
+      out.push({
+        person_id: person.person_id,
+        person_name: person.person_name,
+        reason: 'holiday',
+        label: day.holiday,
+      });
+    } else if (day.absence_minutes > 0) {
+      out.push({
+        person_id: person.person_id,
+        person_name: person.person_name,
+        reason: 'absence',
+        label: day.absence,
+        absence_minutes: day.absence_minutes,
+      });
+    }
+  }
+
+  return out;
 }
 
 /**
@@ -41,12 +70,16 @@ function getToday(): string {
  * - listPeople(status=active, type=user)
  * - listTimeEntries(date=today)
  * - listTimers()
+ *
+ * Then, best effort, today's availability of the active users to flag who is
+ * out. Failures there (e.g. no access to salaries) leave `out_today` unset.
  */
 export async function getTeamPulseSummary(
   _options: TeamPulseSummaryOptions,
   ctx: ExecutorContext,
 ): Promise<ExecutorResult<TeamPulseSummaryResult>> {
-  const today = getToday();
+  const dates = getDateService(ctx);
+  const today = dates.today();
 
   // Parallel fetch all data
   const [peopleRes, timeEntriesRes, timersRes] = await Promise.all([
@@ -76,6 +109,13 @@ export async function getTeamPulseSummary(
     }),
   ]);
 
+  let outToday: OutTodaySummary[] | undefined;
+  try {
+    outToday = getOutToday(await computeAvailability(peopleRes.data, today, today, ctx));
+  } catch {
+    outToday = undefined;
+  }
+
   const allIncluded: IncludedResource[] = [...(timersRes.included || [])];
 
   // Create a map of person ID -> person data
@@ -156,7 +196,7 @@ export async function getTeamPulseSummary(
 
   const result: TeamPulseSummaryResult = {
     summary_type: 'team_pulse',
-    generated_at: new Date().toISOString(),
+    generated_at: dates.now().toISOString(),
     date: today,
     team: {
       total_active: peopleRes.meta?.total_count ?? peopleRes.data.length,
@@ -166,5 +206,10 @@ export async function getTeamPulseSummary(
     people: personSummaries.slice(0, 50), // Limit to 50 people
   };
 
+  if (outToday) {
+    result.team.out_today = outToday.length;
+    result.out_today = outToday;
+  }
+
   return { data: result };
 }
@@ -83,6 +83,8 @@ export interface SummaryBudgetService {
   budgeted_time?: number;
   worked_time?: number;
   remaining_time?: number;
+  /** Non-rejected expenses booked on this service, in currency units */
+  expense_amount?: number;
 }
 
 /**
@@ -105,7 +107,15 @@ export interface ProjectHealthSummaryResult {
     services: SummaryBudgetService[];
     total_budgeted_minutes: number;
     total_worked_minutes: number;
+    /** Budget consumed, expenses included when the services have a budget amount */
     burn_rate_percent: number;
+    /** Whether the burn rate compares amounts (time worked and expenses) or time only */
+    burn_rate_basis: 'amount' | 'time';
+    /** Non-rejected project expenses, in currency units */
+    expenses: {
+      count: number;
+      total_amount: number;
+    };
   };
   recent_activity: {
     time_entries_last_7_days: number;
@@ -132,6 +142,19 @@ export interface PersonTimeSummary {
   active_timer?: SummaryTimer;
 }
 
+/**
+ * Person who is not working today, or only part of the day
+ */
+export interface OutTodaySummary {
+  person_id: string;
+  person_name: string;
+  reason: 'holiday' | 'absence';
+  /** Holiday or absence category name */
+  label?: string;
+  /** Minutes of absence today (partial when lower than capacity) */
+  absence_minutes?: number;
+}
+
 /**
  * Result for team_pulse summary
  */
@@ -143,8 +166,12 @@ export interface TeamPulseSummaryResult {
     total_active: number;
     tracking_today: number;
     with_active_timer: number;
+    /** Only present when availability could be computed */
+    out_today?: number;
   };
   people: PersonTimeSummary[];
+  /** People on holiday or absent today; omitted when availability could not be computed */
+  out_today?: OutTodaySummary[];
 }
 
 /**
@@ -0,0 +1,30 @@
+import { describe, expect, it, vi } from 'vitest';
+
+import { createTestExecutorContext } from '../../context/test-utils.js';
+import { archiveTaskList, restoreTaskList } from './archive.js';
+
+describe('archiveTaskList', () => {
+  it('archives task list by id', async () => {
+    const mockResponse = { data: { id: '10', type: 'task_lists', attributes: {} } };
+    const archiveTaskListApi = vi.fn().mockResolvedValue(mockResponse);
+    const ctx = createTestExecutorContext({ api: { archiveTaskList: archiveTaskListApi } });
+
+    const result = await archiveTaskList({ id: '10' }, ctx);
+
+    expect(archiveTaskListApi).toHaveBeenCalledWith('10');
+    expect(result.data).toEqual(mockResponse.data);
+  });
+});
+
+describe('restoreTaskList', () => {
+  it('restores task list by id', async () => {
+    const restoreTaskListApi = vi
+      .fn()
+      .mockResolvedValue({ data: { id: '10', type: 'task_lists', attributes: {} } });
+    const ctx = createTestExecutorContext({ api: { restoreTaskList: restoreTaskListApi } });
+
+    await restoreTaskList({ id: '10' }, ctx);
+
+    expect(restoreTaskListApi).toHaveBeenCalledWith('10');
+  });
+});
@@ -0,0 +1,21 @@
+import type { ProductiveTaskList } from '@studiometa/productive-api';
+
+import type { ExecutorContext } from '../../context/types.js';
+import type { ExecutorResult } from '../types.js';
+import type { ArchiveTaskListOptions, RestoreTaskListOptions } from './types.js';
+
+export async function archiveTaskList(
+  options: ArchiveTaskListOptions,
+  ctx: ExecutorContext,
+): Promise<ExecutorResult<ProductiveTaskList>> {
+  const response = await ctx.api.archiveTaskList(options.id);
+  return { data: response.data };
+}
+
+export async function restoreTaskList(
+  options: RestoreTaskListOptions,
+  ctx: ExecutorContext,
+): Promise<ExecutorResult<ProductiveTaskList>> {
+  const response = await ctx.api.restoreTaskList(options.id);
+  return { data: response.data };
+}
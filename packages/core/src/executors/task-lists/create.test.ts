@@ -0,0 +1,53 @@
+import { describe, expect, it, vi } from 'vitest';
+
+import { createTestExecutorContext } from '../../context/test-utils.js';
+import { ExecutorValidationError } from '../errors.js';
+import { createTaskList } from './create.js';
+
+describe('createTaskList', () => {
+  const mockTaskList = { id: '10', type: 'task_lists' as const, attributes: { name: 'Sprint 12' } };
+
+  it('creates a task list on the given board', async () => {
+    const createTaskListApi = vi.fn().mockResolvedValue({ data: mockTaskList });
+    const ctx = createTestExecutorContext({ api: { createTaskList: createTaskListApi } });
+
+    const result = await createTaskList(
+      { name: 'Sprint 12', projectId: '100', boardId: '20', position: 2 },
+      ctx,
+    );
+
+    expect(createTaskListApi).toHaveBeenCalledWith({
+      name: 'Sprint 12',
+      project_id: '100',
+      board_id: '20',
+      position: 2,
+    });
+    expect(result.data).toEqual(mockTaskList);
+  });
+
+  it("defaults to the project's first active board", async () => {
+    const getBoards = vi.fn().mockResolvedValue({ data: [{ id: '21', type: 'boards' }] });
+    const createTaskListApi = vi.fn().mockResolvedValue({ data: mockTaskList });
+    const ctx = createTestExecutorContext({
+      api: { getBoards, createTaskList: createTaskListApi },
+    });
+
+    await createTaskList({ name: 'Sprint 12', projectId: '100' }, ctx);
+
+    expect(getBoards).toHaveBeenCalledWith({
+      filter: { project_id: '100', status: '1' },
+      perPage: 1,
+      sort: 'position',
+    });
+    expect(createTaskListApi).toHaveBeenCalledWith(expect.objectContaining({ board_id: '21' }));
+  });
+
+  it('throws when the project has no board', async () => {
+    const getBoards = vi.fn().mockResolvedValue({ data: [] });
+    const ctx = createTestExecutorContext({ api: { getBoards } });
+
+    await expect(createTaskList({ name: 'Sprint 12', projectId: '100' }, ctx)).rejects.toThrow(
+      ExecutorValidationError,
+    );
+  });
+});
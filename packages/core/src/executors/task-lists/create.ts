@@ -0,0 +1,41 @@
+import type { ProductiveTaskList } from '@studiometa/productive-api';
+
+import { BOARD_STATUS } from '@studiometa/productive-api';
+
+import type { ExecutorContext } from '../../context/types.js';
+import type { ExecutorResult } from '../types.js';
+import type { CreateTaskListOptions } from './types.js';
+
+import { ExecutorValidationError } from '../errors.js';
+
+export async function createTaskList(
+  options: CreateTaskListOptions,
+  ctx: ExecutorContext,
+): Promise<ExecutorResult<ProductiveTaskList>> {
+  const projectId = await ctx.resolver.resolveValue(options.projectId, 'project');
+
+  let boardId = options.boardId;
+  if (!boardId) {
+    const boards = await ctx.api.getBoards({
+      filter: { project_id: projectId, status: BOARD_STATUS.ACTIVE },
+      perPage: 1,
+      sort: 'position',
+    });
+    boardId = boards.data[0]?.id;
+    if (!boardId) {
+      throw new ExecutorValidationError(
+        `Project ${projectId} has no active board. Create a board first or pass a board ID`,
+        'boardId',
+      );
+    }
+  }
+
+  const response = await ctx.api.createTaskList({
+    name: options.name,
+    project_id: projectId,
+    board_id: boardId,
+    position: options.position,
+  });
+
+  return { data: response.data };
+}
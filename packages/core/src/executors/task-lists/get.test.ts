@@ -0,0 +1,19 @@
+import { describe, expect, it, vi } from 'vitest';
+
+import { createTestExecutorContext } from '../../context/test-utils.js';
+import { getTaskList } from './get.js';
+
+describe('getTaskList', () => {
+  it('includes project and board by default', async () => {
+    const mockResponse = {
+      data: { id: '10', type: 'task_lists', attributes: { name: 'Backlog' } },
+    };
+    const getTaskListApi = vi.fn().mockResolvedValue(mockResponse);
+    const ctx = createTestExecutorContext({ api: { getTaskList: getTaskListApi } });
+
+    const result = await getTaskList({ id: '10' }, ctx);
+
+    expect(getTaskListApi).toHaveBeenCalledWith('10', { include: ['project', 'board'] });
+    expect(result.data).toEqual(mockResponse.data);
+  });
+});
@@ -0,0 +1,15 @@
+import type { ProductiveTaskList } from '@studiometa/productive-api';
+
+import type { ExecutorContext } from '../../context/types.js';
+import type { ExecutorResult } from '../types.js';
+import type { GetTaskListOptions } from './types.js';
+
+export async function getTaskList(
+  options: GetTaskListOptions,
+  ctx: ExecutorContext,
+): Promise<ExecutorResult<ProductiveTaskList>> {
+  const response = await ctx.api.getTaskList(options.id, {
+    include: options.include ?? ['project', 'board'],
+  });
+  return { data: response.data, included: response.included };
+}
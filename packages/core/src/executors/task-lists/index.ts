@@ -0,0 +1,13 @@
+export { archiveTaskList, restoreTaskList } from './archive.js';
+export { createTaskList } from './create.js';
+export { getTaskList } from './get.js';
+export { buildTaskListFilters, listTaskLists } from './list.js';
+export { updateTaskList } from './update.js';
+export type {
+  ArchiveTaskListOptions,
+  CreateTaskListOptions,
+  GetTaskListOptions,
+  ListTaskListsOptions,
+  RestoreTaskListOptions,
+  UpdateTaskListOptions,
+} from './types.js';
@@ -0,0 +1,67 @@
+import { describe, expect, it, vi } from 'vitest';
+
+import { createTestExecutorContext } from '../../context/test-utils.js';
+import { buildTaskListFilters, listTaskLists } from './list.js';
+
+describe('buildTaskListFilters', () => {
+  it('defaults to active task lists', () => {
+    expect(buildTaskListFilters({ projectId: '100' })).toEqual({
+      project_id: '100',
+      status: '1',
+    });
+  });
+
+  it('maps board and archived status', () => {
+    expect(buildTaskListFilters({ boardId: '20', status: 'archived' })).toEqual({
+      board_id: '20',
+      status: '2',
+    });
+  });
+
+  it('does not set filter for unknown status values', () => {
+    expect(buildTaskListFilters({ status: 'all' }).status).toBeUndefined();
+  });
+
+  it('merges additionalFilters', () => {
+    expect(buildTaskListFilters({ status: 'all', additionalFilters: { name: 'x' } })).toEqual({
+      name: 'x',
+    });
+  });
+
+  it('keeps a raw status filter from additionalFilters', () => {
+    expect(buildTaskListFilters({ additionalFilters: { status: '2' } })).toEqual({ status: '2' });
+  });
+});
+
+describe('listTaskLists', () => {
+  const mockResponse = {
+    data: [{ id: '10', type: 'task_lists', attributes: { name: 'Sprint 12' } }],
+    meta: { current_page: 1, total_pages: 1 },
+    included: [],
+  };
+
+  it('resolves filters and includes project and board', async () => {
+    const getTaskLists = vi.fn().mockResolvedValue(mockResponse);
+    const resolveFilters = vi.fn().mockResolvedValue({
+      resolved: { project_id: '100', status: '1' },
+      metadata: { project_id: { query: 'PRJ-1', id: '100', label: 'Website', type: 'project' } },
+    });
+    const ctx = createTestExecutorContext({
+      api: { getTaskLists },
+      resolver: { resolveFilters },
+    });
+
+    const result = await listTaskLists({ projectId: 'PRJ-1' }, ctx);
+
+    expect(resolveFilters).toHaveBeenCalledWith({ project_id: 'PRJ-1', status: '1' });
+    expect(getTaskLists).toHaveBeenCalledWith({
+      page: 1,
+      perPage: 100,
+      sort: undefined,
+      filter: { project_id: '100', status: '1' },
+      include: ['project', 'board'],
+    });
+    expect(result.data).toEqual(mockResponse.data);
+    expect(result.resolved?.project_id.id).toBe('100');
+  });
+});
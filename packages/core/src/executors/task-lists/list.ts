@@ -0,0 +1,47 @@
+import type { ProductiveTaskList } from '@studiometa/productive-api';
+
+import { TASK_LIST_STATUS } from '@studiometa/productive-api';
+
+import type { ExecutorContext } from '../../context/types.js';
+import type { ExecutorResult } from '../types.js';
+import type { ListTaskListsOptions } from './types.js';
+
+import { buildListParams } from '../types.js';
+
+export function buildTaskListFilters(options: ListTaskListsOptions): Record<string, string> {
+  const filter: Record<string, string> = {};
+
+  if (options.additionalFilters) Object.assign(filter, options.additionalFilters);
+  if (options.projectId) filter.project_id = options.projectId;
+  if (options.boardId) filter.board_id = options.boardId;
+
+  // A raw status passed through additionalFilters wins over the 'active' default
+  if (options.status || !filter.status) {
+    const status = (options.status || 'active').toLowerCase();
+    const mapped = TASK_LIST_STATUS.toValue(status);
+    if (mapped !== status) filter.status = mapped;
+  }
+
+  return filter;
+}
+
+export async function listTaskLists(
+  options: ListTaskListsOptions,
+  ctx: ExecutorContext,
+): Promise<ExecutorResult<ProductiveTaskList[]>> {
+  const filter = buildTaskListFilters(options);
+  const { resolved: resolvedFilter, metadata } = await ctx.resolver.resolveFilters(filter);
+
+  const response = await ctx.api.getTaskLists({
+    ...buildListParams(options),
+    filter: resolvedFilter,
+    include: options.include ?? ['project', 'board'],
+  });
+
+  return {
+    data: response.data,
+    meta: response.meta,
+    included: response.included,
+    resolved: Object.keys(metadata).length > 0 ? metadata : undefined,
+  };
+}
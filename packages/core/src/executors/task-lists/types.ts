@@ -0,0 +1,39 @@
+import type { PaginationOptions } from '../types.js';
+
+export interface ListTaskListsOptions extends PaginationOptions {
+  projectId?: string;
+  boardId?: string;
+  /** Status: 'active' | 'archived' (default: 'active') */
+  status?: string;
+  additionalFilters?: Record<string, string>;
+}
+
+export interface GetTaskListOptions {
+  id: string;
+  include?: string[];
+}
+
+export interface CreateTaskListOptions {
+  name: string;
+  projectId: string;
+  /** Board (folder) to create the list in — defaults to the project's first active board */
+  boardId?: string;
+  position?: number;
+}
+
+export interface UpdateTaskListOptions {
+  id: string;
+  name?: string;
+  /** Reorder the list within its board */
+  position?: number;
+  /** Move the list to another board */
+  boardId?: string;
+}
+
+export interface ArchiveTaskListOptions {
+  id: string;
+}
+
+export interface RestoreTaskListOptions {
+  id: string;
+}
@@ -0,0 +1,23 @@
+import { describe, expect, it, vi } from 'vitest';
+
+import { createTestExecutorContext } from '../../context/test-utils.js';
+import { ExecutorValidationError } from '../errors.js';
+import { updateTaskList } from './update.js';
+
+describe('updateTaskList', () => {
+  it('reorders and moves a task list', async () => {
+    const updateTaskListApi = vi
+      .fn()
+      .mockResolvedValue({ data: { id: '10', type: 'task_lists', attributes: {} } });
+    const ctx = createTestExecutorContext({ api: { updateTaskList: updateTaskListApi } });
+
+    await updateTaskList({ id: '10', position: 1, boardId: '21' }, ctx);
+
+    expect(updateTaskListApi).toHaveBeenCalledWith('10', { position: 1, board_id: '21' });
+  });
+
+  it('throws when no fields are given', async () => {
+    const ctx = createTestExecutorContext();
+    await expect(updateTaskList({ id: '10' }, ctx)).rejects.toThrow(ExecutorValidationError);
+  });
+});
@@ -0,0 +1,28 @@
+import type { ProductiveTaskList } from '@studiometa/productive-api';
+
+import type { ExecutorContext } from '../../context/types.js';
+import type { ExecutorResult } from '../types.js';
+import type { UpdateTaskListOptions } from './types.js';
+
+import { ExecutorValidationError } from '../errors.js';
+
+export async function updateTaskList(
+  options: UpdateTaskListOptions,
+  ctx: ExecutorContext,
+): Promise<ExecutorResult<ProductiveTaskList>> {
+  const data: Record<string, string | number | undefined> = {};
+
+  if (options.name !== undefined) data.name = options.name;
+  if (options.position !== undefined) data.position = options.position;
+  if (options.boardId !== undefined) data.board_id = options.boardId;
+
+  if (Object.keys(data).length === 0) {
+    throw new ExecutorValidationError(
+      'No updates specified. Provide at least one field to update',
+      'options',
+    );
+  }
+
+  const response = await ctx.api.updateTaskList(options.id, data);
+  return { data: response.data };
+}
@@ -67,4 +67,24 @@ describe('createTask', () => {
       private: true,
     });
   });
+
+  it('resolves the task list name within the resolved project', async () => {
+    const createTaskApi = vi.fn().mockResolvedValue({ data: mockTask });
+    const resolveValue = vi.fn(async (value: string, type: string) => {
+      if (type === 'project') return '100';
+      if (type === 'task_list') return '200';
+      return value;
+    });
+    const ctx = createTestExecutorContext({
+      api: { createTask: createTaskApi },
+      resolver: { resolveValue },
+    });
+
+    await createTask({ title: 'New Task', projectId: 'PRJ-1', taskListId: 'Sprint 12' }, ctx);
+
+    expect(resolveValue).toHaveBeenCalledWith('Sprint 12', 'task_list', { projectId: '100' });
+    expect(createTaskApi).toHaveBeenCalledWith(
+      expect.objectContaining({ project_id: '100', task_list_id: '200' }),
+    );
+  });
 });
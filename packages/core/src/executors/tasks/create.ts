@@ -9,6 +9,10 @@ export async function createTask(
   ctx: ExecutorContext,
 ): Promise<ExecutorResult<ProductiveTask>> {
   const projectId = await ctx.resolver.resolveValue(options.projectId, 'project');
+  // Task list names are only unique within a project
+  const taskListId = await ctx.resolver.resolveValue(options.taskListId, 'task_list', {
+    projectId,
+  });
   const assigneeId = options.assigneeId
     ? await ctx.resolver.resolveValue(options.assigneeId, 'person')
     : undefined;
@@ -16,7 +20,7 @@ export async function createTask(
   const response = await ctx.api.createTask({
     title: options.title,
     project_id: projectId,
-    task_list_id: options.taskListId,
+    task_list_id: taskListId,
     assignee_id: assigneeId,
     description: options.description,
     due_date: options.dueDate,
@@ -0,0 +1,85 @@
+import { describe, expect, it, vi } from 'vitest';
+
+import { createTestExecutorContext } from '../../context/test-utils.js';
+import { createDateService } from '../../dates/date-service.js';
+import { getApprovalQueue } from './approvals.js';
+
+// Monday 2026-10-19
+const dates = createDateService({
+  timezone: 'UTC',
+  clock: () => new Date('2026-10-19T12:00:00Z'),
+});
+
+function timeEntry(id: string, personId: string, date: string, time: number) {
+  return {
+    id,
+    type: 'time_entries',
+    attributes: { date, time },
+    relationships: { person: { data: { type: 'people', id: personId } } },
+  };
+}
+
+const people = [
+  { id: '1', type: 'people', attributes: { first_name: 'Zoe', last_name: 'Martin' } },
+  { id: '2', type: 'people', attributes: { first_name: 'Adam', last_name: 'Roux' } },
+];
+
+describe('getApprovalQueue', () => {
+  it('totals unapproved entries per person', async () => {
+    const getTimeEntries = vi.fn().mockResolvedValue({
+      data: [
+        timeEntry('10', '1', '2026-10-14', 120),
+        timeEntry('11', '2', '2026-10-12', 60),
+        timeEntry('12', '1', '2026-10-12', 30),
+      ],
+      included: people,
+      meta: { total_pages: 1 },
+    });
+    const ctx = createTestExecutorContext({ api: { getTimeEntries }, dates });
+
+    const result = await getApprovalQueue({ period: 'last week' }, ctx);
+
+    expect(getTimeEntries).toHaveBeenCalledWith({
+      filter: { status: '2', after: '2026-10-12', before: '2026-10-18' },
+      page: 1,
+      perPage: 200,
+      include: ['person'],
+    });
+    expect(result.data.people).toEqual([
+      {
+        person_id: '2',
+        person_name: 'Adam Roux',
+        entries: 1,
+        minutes: 60,
+        first_date: '2026-10-12',
+        last_date: '2026-10-12',
+        time_entry_ids: ['11'],
+      },
+      {
+        person_id: '1',
+        person_name: 'Zoe Martin',
+        entries: 2,
+        minutes: 150,
+        first_date: '2026-10-12',
+        last_date: '2026-10-14',
+        time_entry_ids: ['10', '12'],
+      },
+    ]);
+    expect(result.data).toMatchObject({ total_entries: 3, total_minutes: 210, truncated: false });
+    expect(result.dates?.after).toEqual({ input: 'last week', date: '2026-10-12' });
+  });
+
+  it('stops at the limit and reports the queue as truncated', async () => {
+    const getTimeEntries = vi.fn().mockResolvedValue({
+      data: [timeEntry('10', '1', '2026-10-14', 120), timeEntry('11', '1', '2026-10-15', 60)],
+      meta: { total_pages: 3 },
+    });
+    const ctx = createTestExecutorContext({ api: { getTimeEntries }, dates });
+
+    const result = await getApprovalQueue({ personId: '1', limit: 1 }, ctx);
+
+    expect(getTimeEntries).toHaveBeenCalledTimes(1);
+    expect(result.data).toMatchObject({ total_entries: 1, truncated: true });
+    expect(result.data.people[0].person_name).toBeNull();
+  });
+});
@@ -0,0 +1,116 @@
+/**
+ * Approval queue executor.
+ *
+ * Lists the unapproved time entries matching the options and totals them per
+ * person, which is how approvers work through the queue: one person and one
+ * week at a time.
+ */
+
+import type { IncludedResource, ProductiveTimeEntry } from '@studiometa/productive-api';
+
+import type { ExecutorContext } from '../../context/types.js';
+import type { ExecutorResult } from '../types.js';
+import type { ApprovalQueue, ApprovalQueueOptions, ApprovalQueuePerson } from './types.js';
+
+import { getDateService } from '../../dates/date-service.js';
+import { resolveDateFilters } from '../../dates/filters.js';
+import { buildTimeEntryFilters } from './list.js';
+
+const DEFAULT_LIMIT = 1000;
+const PAGE_SIZE = 200;
+
+function personName(included: IncludedResource[], id: string): string | null {
+  const person = included.find((resource) => resource.type === 'people' && resource.id === id);
+  if (!person) return null;
+  const { first_name, last_name } = person.attributes as {
+    first_name?: string;
+    last_name?: string;
+  };
+  return [first_name, last_name].filter(Boolean).join(' ') || null;
+}
+
+function groupByPerson(
+  entries: ProductiveTimeEntry[],
+  included: IncludedResource[],
+): ApprovalQueuePerson[] {
+  const people = new Map<string, ApprovalQueuePerson>();
+
+  for (const entry of entries) {
+    const personId = entry.relationships?.person?.data?.id;
+    if (!personId) continue;
+
+    const { date, time } = entry.attributes;
+    const person = people.get(personId) ?? {
+      person_id: personId,
+      person_name: personName(included, personId),
+      entries: 0,
+      minutes: 0,
+      first_date: date,
+      last_date: date,
+      time_entry_ids: [],
+    };
+    person.entries++;
+    person.minutes += time;
+    if (date < person.first_date) person.first_date = date;
+    if (date > person.last_date) person.last_date = date;
+    person.time_entry_ids.push(entry.id);
+    people.set(personId, person);
+  }
+
+  return [...people.values()].toSorted((a, b) =>
+    (a.person_name ?? a.person_id).localeCompare(b.person_name ?? b.person_id),
+  );
+}
+
+/**
+ * List unapproved time entries grouped by person.
+ *
+ * @throws ExecutorValidationError when a date expression is not understood
+ */
+export async function getApprovalQueue(
+  options: ApprovalQueueOptions,
+  ctx: ExecutorContext,
+): Promise<ExecutorResult<ApprovalQueue>> {
+  const limit = options.limit ?? DEFAULT_LIMIT;
+  const { filter, dates } = resolveDateFilters(
+    buildTimeEntryFilters({ ...options, status: 'unapproved' }),
+    getDateService(ctx),
+  );
+  const { resolved, metadata } = await ctx.resolver.resolveFilters(filter);
+
+  const entries: ProductiveTimeEntry[] = [];
+  const included: IncludedResource[] = [];
+  let truncated = false;
+
+  for (let page = 1; ; page++) {
+    const response = await ctx.api.getTimeEntries({
+      filter: resolved,
+      page,
+      perPage: PAGE_SIZE,
+      include: ['person'],
+    });
+    entries.push(...response.data);
+    included.push(...(response.included ?? []));
+
+    if (entries.length >= limit) {
+      truncated = entries.length > limit || page < (response.meta?.total_pages ?? 1);
+      entries.length = Math.min(entries.length, limit);
+      break;
+    }
+    if (page >= (response.meta?.total_pages ?? 1) || response.data.length === 0) break;
+  }
+
+  const people = groupByPerson(entries, included);
+
+  return {
+    data: {
+      people,
+      total_entries: people.reduce((sum, person) => sum + person.entries, 0),
+      total_minutes: people.reduce((sum, person) => sum + person.minutes, 0),
+      filter: resolved,
+      truncated,
+    },
+    resolved: Object.keys(metadata).length > 0 ? metadata : undefined,
+    dates: Object.keys(dates).length > 0 ? dates : undefined,
+  };
+}
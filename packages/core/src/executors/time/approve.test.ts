@@ -0,0 +1,31 @@
+import { describe, expect, it, vi } from 'vitest';
+
+import { createTestExecutorContext } from '../../context/test-utils.js';
+import { approveTimeEntry, rejectTimeEntry, unapproveTimeEntry } from './approve.js';
+
+const entry = { id: '42', type: 'time_entries', attributes: { date: '2026-10-12', time: 60 } };
+
+describe('time entry approval', () => {
+  it('approves and unapproves an entry', async () => {
+    const approve = vi.fn().mockResolvedValue({ data: entry });
+    const unapprove = vi.fn().mockResolvedValue({ data: entry });
+    const ctx = createTestExecutorContext({
+      api: { approveTimeEntry: approve, unapproveTimeEntry: unapprove },
+    });
+
+    expect((await approveTimeEntry({ id: '42' }, ctx)).data).toEqual(entry);
+    await unapproveTimeEntry({ id: '42' }, ctx);
+
+    expect(approve).toHaveBeenCalledWith('42');
+    expect(unapprove).toHaveBeenCalledWith('42');
+  });
+
+  it('rejects an entry with a reason', async () => {
+    const reject = vi.fn().mockResolvedValue({ data: entry });
+    const ctx = createTestExecutorContext({ api: { rejectTimeEntry: reject } });
+
+    await rejectTimeEntry({ id: '42', reason: 'Wrong service' }, ctx);
+
+    expect(reject).toHaveBeenCalledWith('42', 'Wrong service');
+  });
+});
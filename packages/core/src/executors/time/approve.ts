@@ -0,0 +1,33 @@
+/**
+ * Time entry approval executors.
+ */
+
+import type { ProductiveTimeEntry } from '@studiometa/productive-api';
+
+import type { ExecutorContext } from '../../context/types.js';
+import type { ExecutorResult } from '../types.js';
+import type { ApproveTimeEntryOptions, RejectTimeEntryOptions } from './types.js';
+
+export async function approveTimeEntry(
+  options: ApproveTimeEntryOptions,
+  ctx: ExecutorContext,
+): Promise<ExecutorResult<ProductiveTimeEntry>> {
+  const response = await ctx.api.approveTimeEntry(options.id);
+  return { data: response.data };
+}
+
+export async function unapproveTimeEntry(
+  options: ApproveTimeEntryOptions,
+  ctx: ExecutorContext,
+): Promise<ExecutorResult<ProductiveTimeEntry>> {
+  const response = await ctx.api.unapproveTimeEntry(options.id);
+  return { data: response.data };
+}
+
+export async function rejectTimeEntry(
+  options: RejectTimeEntryOptions,
+  ctx: ExecutorContext,
+): Promise<ExecutorResult<ProductiveTimeEntry>> {
+  const response = await ctx.api.rejectTimeEntry(options.id, options.reason);
+  return { data: response.data };
+}
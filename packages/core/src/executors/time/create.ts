@@ -8,6 +8,8 @@ import type { ExecutorContext } from '../../context/types.js';
 import type { ExecutorResult } from '../types.js';
 import type { CreateTimeEntryOptions } from './types.js';
 
+import { getDateService } from '../../dates/date-service.js';
+
 /**
  * Create a new time entry.
  *
@@ -27,7 +29,7 @@ export async function createTimeEntry(
     projectId: options.projectId,
   });
 
-  const date = options.date ?? new Date().toISOString().split('T')[0];
+  const date = options.date ?? getDateService(ctx).today();
 
   const response = await ctx.api.createTimeEntry({
     person_id: resolvedPersonId,
@@ -0,0 +1,154 @@
+import { describe, expect, it, vi } from 'vitest';
+
+import { createTestExecutorContext } from '../../context/test-utils.js';
+import { ExecutorValidationError } from '../errors.js';
+import { importTimeEntries } from './import.js';
+
+const NAMES: Record<string, string> = {
+  Acme: '100',
+  Development: '600',
+  Design: '700',
+};
+
+const resolveValue = vi.fn(async (value: string) => NAMES[value] ?? value);
+
+function existingEntry(id: string, serviceId: string, time: number, note = '') {
+  return {
+    id,
+    type: 'time_entries',
+    attributes: { date: '2024-01-15', time, note },
+    relationships: { service: { data: { type: 'services', id: serviceId } } },
+  };
+}
+
+function createContext(existing: unknown[] = []) {
+  let nextId = 1;
+  const api = {
+    getTimeEntries: vi.fn().mockResolvedValue({ data: existing, meta: {} }),
+    createTimeEntry: vi.fn(async () => ({ data: { id: `te-${nextId++}` } })),
+  };
+  const ctx = createTestExecutorContext({
+    api,
+    resolver: { resolveValue },
+    config: { userId: '500', organizationId: 'org-1' },
+  });
+  return { api, ctx };
+}
+
+const rows = [
+  { line: 2, date: '2024-01-15', time: 90, project: 'Acme', service: 'Development', note: 'Dev' },
+  { line: 3, date: '2024-01-15', time: 30, service: 'Design' },
+];
+
+describe('importTimeEntries', () => {
+  it('throws when there is nothing to import', async () => {
+    const { ctx } = createContext();
+    await expect(importTimeEntries({ rows: [] }, ctx)).rejects.toThrow(ExecutorValidationError);
+  });
+
+  it('resolves names and creates the entries', async () => {
+    const { api, ctx } = createContext();
+
+    const result = await importTimeEntries({ rows }, ctx);
+
+    expect(resolveValue).toHaveBeenCalledWith('Development', 'service', { projectId: '100' });
+    expect(api.getTimeEntries).toHaveBeenCalledWith({
+      filter: { person_id: '500', after: '2024-01-15', before: '2024-01-15' },
+      perPage: 200,
+    });
+    expect(api.createTimeEntry).toHaveBeenCalledWith({
+      person_id: '500',
+      service_id: '600',
+      time: 90,
+      date: '2024-01-15',
+      note: 'Dev',
+      task_id: undefined,
+    });
+    expect(result.data).toMatchObject({
+      person_id: '500',
+      dry_run: false,
+      created: 2,
+      duplicates: 0,
+      failed: 0,
+      total_minutes: 120,
+    });
+    expect(result.data.rows.map((r) => [r.status, r.time_entry_id])).toEqual([
+      ['created', 'te-1'],
+      ['created', 'te-2'],
+    ]);
+  });
+
+  it('previews without creating in a dry run', async () => {
+    const { api, ctx } = createContext();
+
+    const result = await importTimeEntries({ rows, dryRun: true }, ctx);
+
+    expect(api.createTimeEntry).not.toHaveBeenCalled();
+    expect(result.data.rows.map((r) => r.status)).toEqual(['pending', 'pending']);
+    expect(result.data).toMatchObject({ dry_run: true, created: 2, total_minutes: 120 });
+  });
+
+  it('skips entries that already exist that day or earlier in the file', async () => {
+    const { api, ctx } = createContext([existingEntry('77', '600', 90, 'Dev')]);
+
+    const result = await importTimeEntries({ rows: [...rows, { ...rows[1], line: 4 }] }, ctx);
+
+    expect(api.createTimeEntry).toHaveBeenCalledTimes(1);
+    expect(result.data.rows.map((r) => [r.status, r.duplicate_of])).toEqual([
+      ['duplicate', '77'],
+      ['created', undefined],
+      ['duplicate', 'line:3'],
+    ]);
+    expect(result.data.duplicates).toBe(2);
+  });
+
+  it('creates duplicates when allowed', async () => {
+    const { api, ctx } = createContext([existingEntry('77', '600', 90, 'Dev')]);
+
+    const result = await importTimeEntries({ rows, allowDuplicates: true }, ctx);
+
+    expect(api.getTimeEntries).not.toHaveBeenCalled();
+    expect(result.data.created).toBe(2);
+  });
+
+  it('applies the default service and project to rows without one', async () => {
+    const { api, ctx } = createContext();
+
+    await importTimeEntries(
+      {
+        rows: [{ line: 1, date: '2024-01-15', time: 60 }],
+        serviceId: 'Development',
+        projectId: 'Acme',
+      },
+      ctx,
+    );
+
+    expect(api.createTimeEntry).toHaveBeenCalledWith(
+      expect.objectContaining({ service_id: '600' }),
+    );
+  });
+
+  it('reports unresolved and failing rows without stopping the others', async () => {
+    const { api, ctx } = createContext();
+    api.createTimeEntry.mockRejectedValueOnce(new Error('Service is archived'));
+
+    const result = await importTimeEntries(
+      {
+        rows: [
+          ...rows,
+          { line: 4, date: '2024-01-15', time: 15, service: 'Unknown' },
+          { line: 5, date: '2024-01-15', time: 15 },
+        ],
+      },
+      ctx,
+    );
+
+    expect(result.data.rows.map((r) => [r.status, r.error])).toEqual([
+      ['failed', 'Service is archived'],
+      ['created', undefined],
+      ['failed', 'Service not found: Unknown'],
+      ['failed', 'No service: add a service column or pass a default service'],
+    ]);
+    expect(result.data).toMatchObject({ created: 1, failed: 3, total_minutes: 30 });
+  });
+});
@@ -0,0 +1,197 @@
+/**
+ * Import time entries executor.
+ *
+ * Creates time entries from timesheet rows (see `parseTimesheet`). Project and
+ * service names are resolved first, so a dry run previews exactly what would
+ * be created. Rows identical to an existing entry of the same day (same
+ * service, duration and note) are skipped as duplicates, and a failing row
+ * never stops the others.
+ */
+
+import type { ProductiveTimeEntry } from '@studiometa/productive-api';
+
+import type { ExecutorContext } from '../../context/types.js';
+import type { ExecutorResult } from '../types.js';
+import type {
+  ImportRowResult,
+  ImportTimeEntriesOptions,
+  ImportTimeEntriesResult,
+  TimesheetRow,
+} from './types.js';
+
+import { isNumericId } from '../../resolvers/index.js';
+import { ExecutorValidationError } from '../errors.js';
+
+interface ResolvedRow {
+  row: TimesheetRow;
+  serviceId: string;
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+function duplicateKey(date: string, serviceId: string, time: number, note?: string): string {
+  return [date, serviceId, time, (note ?? '').trim()].join('|');
+}
+
+/**
+ * Resolve the service of a row, through its project when one is given.
+ * The resolver hands back unknown names unchanged, so anything that is not
+ * an ID afterwards is reported as not found.
+ */
+async function resolveServiceId(
+  service: string,
+  project: string | undefined,
+  ctx: ExecutorContext,
+): Promise<string> {
+  let projectId: string | undefined;
+  if (project) {
+    projectId = await ctx.resolver.resolveValue(project, 'project');
+    if (!isNumericId(projectId)) {
+      throw new Error(`Project not found: ${project}`);
+    }
+  }
+
+  const serviceId = await ctx.resolver.resolveValue(service, 'service', { projectId });
+  if (!isNumericId(serviceId)) {
+    throw new Error(`Service not found: ${service}${project ? ` in project ${project}` : ''}`);
+  }
+  return serviceId;
+}
+
+/**
+ * Index the person's existing entries on the given dates by duplicate key.
+ */
+async function getExistingEntries(
+  personId: string,
+  dates: string[],
+  ctx: ExecutorContext,
+): Promise<Map<string, string>> {
+  const existing = new Map<string, string>();
+
+  for (const date of dates) {
+    const response = await ctx.api.getTimeEntries({
+      filter: { person_id: personId, after: date, before: date },
+      perPage: 200,
+    });
+    for (const entry of response.data as ProductiveTimeEntry[]) {
+      const serviceId = entry.relationships?.service?.data?.id;
+      if (serviceId) {
+        existing.set(
+          duplicateKey(
+            entry.attributes.date,
+            serviceId,
+            entry.attributes.time,
+            entry.attributes.note,
+          ),
+          entry.id,
+        );
+      }
+    }
+  }
+
+  return existing;
+}
+
+/**
+ * Import time entries from timesheet rows.
+ */
+export async function importTimeEntries(
+  options: ImportTimeEntriesOptions,
+  ctx: ExecutorContext,
+): Promise<ExecutorResult<ImportTimeEntriesResult>> {
+  if (options.rows.length === 0) {
+    throw new ExecutorValidationError('No time entries to import', 'rows');
+  }
+
+  const person = options.personId ?? ctx.config.userId;
+  if (!person) {
+    throw new ExecutorValidationError(
+      'personId is required to import time entries (or set userId in ExecutorContext.config)',
+      'personId',
+    );
+  }
+  const personId = await ctx.resolver.resolveValue(person, 'person');
+
+  const results: ImportRowResult[] = [];
+  const resolved = new Map<ImportRowResult, ResolvedRow>();
+
+  for (const row of options.rows) {
+    const project = row.project ?? options.projectId;
+    const service = row.service ?? options.serviceId;
+    const result: ImportRowResult = {
+      line: row.line,
+      date: row.date,
+      time: row.time,
+      project,
+      service,
+      note: row.note,
+      status: 'pending',
+    };
+    results.push(result);
+
+    if (!service) {
+      result.status = 'failed';
+      result.error = 'No service: add a service column or pass a default service';
+      continue;
+    }
+
+    try {
+      resolved.set(result, { row, serviceId: await resolveServiceId(service, project, ctx) });
+    } catch (error) {
+      result.status = 'failed';
+      result.error = errorMessage(error);
+    }
+  }
+
+  const dates = [...new Set([...resolved.values()].map(({ row }) => row.date))].toSorted();
+  const existing = options.allowDuplicates
+    ? new Map<string, string>()
+    : await getExistingEntries(personId, dates, ctx);
+
+  for (const [result, { row, serviceId }] of resolved) {
+    const key = duplicateKey(row.date, serviceId, row.time, row.note);
+    const duplicateOf = existing.get(key);
+    if (duplicateOf) {
+      result.status = 'duplicate';
+      result.duplicate_of = duplicateOf;
+      continue;
+    }
+    if (!options.allowDuplicates) {
+      existing.set(key, `line:${row.line}`);
+    }
+
+    if (options.dryRun) continue;
+
+    try {
+      const response = await ctx.api.createTimeEntry({
+        person_id: personId,
+        service_id: serviceId,
+        time: row.time,
+        date: row.date,
+        note: row.note ?? '',
+        task_id: row.taskId,
+      });
+      result.status = 'created';
+      result.time_entry_id = response.data.id;
+    } catch (error) {
+      result.status = 'failed';
+      result.error = errorMessage(error);
+    }
+  }
+
+  const toCreate = results.filter((r) => r.status === (options.dryRun ? 'pending' : 'created'));
+
+  return {
+    data: {
+      person_id: personId,
+      dry_run: options.dryRun ?? false,
+      rows: results,
+      created: toCreate.length,
+      duplicates: results.filter((r) => r.status === 'duplicate').length,
+      failed: results.filter((r) => r.status === 'failed').length,
+      total_minutes: toCreate.reduce((sum, r) => sum + r.time, 0),
+    },
+  };
+}
@@ -2,16 +2,43 @@
  * Time entry executors — pure business logic for time tracking.
  */
 
+export { getApprovalQueue } from './approvals.js';
+export { approveTimeEntry, rejectTimeEntry, unapproveTimeEntry } from './approve.js';
 export { createTimeEntry } from './create.js';
 export { deleteTimeEntry, type DeleteResult } from './delete.js';
 export { getTimeEntry } from './get.js';
+export { importTimeEntries } from './import.js';
 export { buildTimeEntryFilters, listTimeEntries } from './list.js';
+export {
+  detectTimesheetFormat,
+  parseDuration,
+  parseTimesheet,
+  parseTimesheetCsv,
+  parseTimesheetIcs,
+  parseTimesheetJson,
+} from './timesheet.js';
+export { submitTimesheets } from './submit.js';
 export { updateTimeEntry } from './update.js';
 
 export type {
+  ApprovalQueue,
+  ApprovalQueueOptions,
+  ApprovalQueuePerson,
+  ApproveTimeEntryOptions,
   CreateTimeEntryOptions,
   DeleteTimeEntryOptions,
   GetTimeEntryOptions,
+  ImportRowResult,
+  ImportRowStatus,
+  ImportTimeEntriesOptions,
+  ImportTimeEntriesResult,
   ListTimeEntriesOptions,
+  RejectTimeEntryOptions,
+  SubmitTimesheetsOptions,
+  SubmitTimesheetsResult,
+  SubmittedDay,
+  TimesheetFormat,
+  TimesheetParseResult,
+  TimesheetRow,
   UpdateTimeEntryOptions,
 } from './types.js';
@@ -1,6 +1,8 @@
 import { describe, expect, it, vi } from 'vitest';
 
 import { createTestExecutorContext } from '../../context/test-utils.js';
+import { createDateService } from '../../dates/date-service.js';
+import { ExecutorValidationError } from '../errors.js';
 import { buildTimeEntryFilters, listTimeEntries } from './list.js';
 
 describe('buildTimeEntryFilters', () => {
@@ -174,6 +176,32 @@ describe('listTimeEntries', () => {
     });
   });
 
+  it('resolves date expressions and reports them', async () => {
+    const getTimeEntries = vi.fn().mockResolvedValue({ data: [], meta: {} });
+    const ctx = createTestExecutorContext({
+      api: { getTimeEntries },
+      dates: createDateService({ timezone: 'UTC', clock: () => new Date('2026-10-19T12:00:00Z') }),
+    });
+
+    const result = await listTimeEntries({ period: 'last-month', before: 'yesterday' }, ctx);
+
+    expect(getTimeEntries).toHaveBeenCalledWith(
+      expect.objectContaining({ filter: { after: '2026-09-01', before: '2026-10-18' } }),
+    );
+    expect(result.dates).toEqual({
+      after: { input: 'last-month', date: '2026-09-01' },
+      before: { input: 'yesterday', date: '2026-10-18' },
+    });
+  });
+
+  it('rejects unrecognized date expressions', async () => {
+    const ctx = createTestExecutorContext({ api: { getTimeEntries: vi.fn() } });
+
+    await expect(listTimeEntries({ period: 'someday' }, ctx)).rejects.toThrow(
+      ExecutorValidationError,
+    );
+  });
+
   it('omits resolved field when no resolutions occurred', async () => {
     const getTimeEntries = vi.fn().mockResolvedValue({ data: [], meta: {} });
     const resolveFilters = vi.fn().mockResolvedValue({
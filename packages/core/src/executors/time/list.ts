@@ -13,6 +13,8 @@ import type { ExecutorContext } from '../../context/types.js';
 import type { ExecutorResult } from '../types.js';
 import type { ListTimeEntriesOptions } from './types.js';
 
+import { getDateService } from '../../dates/date-service.js';
+import { resolveDateFilters } from '../../dates/filters.js';
 import { buildListParams } from '../types.js';
 
 /**
@@ -30,6 +32,7 @@ export function buildTimeEntryFilters(options: ListTimeEntriesOptions): Record<s
   // Date range
   if (options.after) filter.after = options.after;
   if (options.before) filter.before = options.before;
+  if (options.period) filter.period = options.period;
 
   // Resource filters
   if (options.personId) filter.person_id = options.personId;
@@ -61,16 +64,17 @@ export function buildTimeEntryFilters(options: ListTimeEntriesOptions): Record<s
  * List time entries.
  *
  * 1. Builds filter object from typed options
- * 2. Resolves human-friendly identifiers (emails, project numbers, etc.)
- * 3. Calls API with resolved filters and pagination
- * 4. Returns raw API data — formatting is the adapter's responsibility
+ * 2. Resolves date expressions ("last week", "q3") to absolute dates
+ * 3. Resolves human-friendly identifiers (emails, project numbers, etc.)
+ * 4. Calls API with resolved filters and pagination
+ * 5. Returns raw API data — formatting is the adapter's responsibility
  */
 export async function listTimeEntries(
   options: ListTimeEntriesOptions,
   ctx: ExecutorContext,
 ): Promise<ExecutorResult<ProductiveTimeEntry[]>> {
   // Build filters from typed options
-  const filter = buildTimeEntryFilters(options);
+  const { filter, dates } = resolveDateFilters(buildTimeEntryFilters(options), getDateService(ctx));
 
   // Resolve human-friendly identifiers
   const { resolved: resolvedFilter, metadata } = await ctx.resolver.resolveFilters(filter);
@@ -86,5 +90,6 @@ export async function listTimeEntries(
     meta: response.meta,
     included: response.included,
     resolved: Object.keys(metadata).length > 0 ? metadata : undefined,
+    dates: Object.keys(dates).length > 0 ? dates : undefined,
   };
 }
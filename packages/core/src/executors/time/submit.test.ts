@@ -0,0 +1,103 @@
+import { describe, expect, it, vi } from 'vitest';
+
+import { createTestExecutorContext } from '../../context/test-utils.js';
+import { createDateService } from '../../dates/date-service.js';
+import { ExecutorValidationError } from '../errors.js';
+import { submitTimesheets } from './submit.js';
+
+// Monday 2026-10-19
+const dates = createDateService({
+  timezone: 'UTC',
+  clock: () => new Date('2026-10-19T12:00:00Z'),
+});
+
+function page(entryDates: string[]) {
+  return {
+    data: entryDates.map((date, index) => ({
+      id: String(index + 1),
+      type: 'time_entries',
+      attributes: { date, time: 60 },
+    })),
+    meta: { total_pages: 1 },
+  };
+}
+
+describe('submitTimesheets', () => {
+  it("submits the days of the current user's week with time entries", async () => {
+    const createTimesheet = vi.fn().mockResolvedValue({ data: { id: 't1' } });
+    const getTimeEntries = vi
+      .fn()
+      .mockResolvedValue(page(['2026-10-19', '2026-10-20', '2026-10-20', '2026-10-23']));
+    const ctx = createTestExecutorContext({ api: { createTimesheet, getTimeEntries }, dates });
+
+    const result = await submitTimesheets({}, ctx);
+
+    expect(getTimeEntries).toHaveBeenCalledWith({
+      page: 1,
+      perPage: 200,
+      filter: { person_id: 'test-user-123', after: '2026-10-19', before: '2026-10-25' },
+    });
+    expect(createTimesheet.mock.calls.map(([body]) => body.date)).toEqual([
+      '2026-10-19',
+      '2026-10-20',
+      '2026-10-23',
+    ]);
+    expect(createTimesheet).toHaveBeenNthCalledWith(1, {
+      person_id: 'test-user-123',
+      date: '2026-10-19',
+    });
+    expect(result.data).toMatchObject({
+      person_id: 'test-user-123',
+      from: '2026-10-19',
+      to: '2026-10-25',
+      submitted: 3,
+      failed: 0,
+      skipped: 4,
+    });
+    expect(result.data.days[2]).toEqual({ date: '2026-10-21', status: 'skipped' });
+  });
+
+  it('resolves the person and keeps going when a day fails', async () => {
+    const createTimesheet = vi
+      .fn()
+      .mockRejectedValueOnce(new Error('Timesheet already submitted'))
+      .mockResolvedValue({ data: { id: 't2' } });
+    const getTimeEntries = vi.fn().mockResolvedValue(page(['2026-10-16']));
+    const resolveValue = vi.fn().mockResolvedValue('500');
+    const ctx = createTestExecutorContext({
+      api: { createTimesheet, getTimeEntries },
+      resolver: { resolveValue },
+      dates,
+    });
+
+    const result = await submitTimesheets(
+      { personId: 'jane@example.com', period: 'last friday' },
+      ctx,
+    );
+
+    expect(resolveValue).toHaveBeenCalledWith('jane@example.com', 'person');
+    expect(result.data.days).toEqual([
+      { date: '2026-10-16', status: 'failed', error: 'Timesheet already submitted' },
+    ]);
+
+    await submitTimesheets({ personId: '500', period: '2026-10-16' }, ctx);
+    expect(createTimesheet).toHaveBeenLastCalledWith({ person_id: '500', date: '2026-10-16' });
+  });
+
+  it('refuses unknown and overlong periods', async () => {
+    const ctx = createTestExecutorContext({ dates });
+
+    await expect(submitTimesheets({ period: 'someday' }, ctx)).rejects.toThrow(
+      ExecutorValidationError,
+    );
+    await expect(submitTimesheets({ period: 'last quarter' }, ctx)).rejects.toThrow(
+      'Cannot submit more than 31 days at once, "last quarter" covers 92',
+    );
+  });
+
+  it('requires a person when no user is configured', async () => {
+    const ctx = createTestExecutorContext({ config: { userId: undefined }, dates });
+
+    await expect(submitTimesheets({}, ctx)).rejects.toThrow('personId is required');
+  });
+});
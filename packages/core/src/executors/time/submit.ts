@@ -0,0 +1,96 @@
+/**
+ * Submit timesheets executor.
+ *
+ * Productive tracks submission per person and day: submitting a timesheet
+ * tells approvers the day's time entries are complete. Each day with time
+ * entries is submitted on its own so an already submitted day does not stop
+ * the rest; days without any (weekends, days off) are skipped.
+ */
+
+import type { ExecutorContext } from '../../context/types.js';
+import type { ExecutorResult } from '../types.js';
+import type { SubmitTimesheetsOptions, SubmitTimesheetsResult, SubmittedDay } from './types.js';
+
+import { getDateService } from '../../dates/date-service.js';
+import { ExecutorValidationError } from '../errors.js';
+import { fetchAllPages, MAX_PAGE_SIZE } from '../pagination.js';
+
+/** A month at most, so a mistyped period cannot submit a whole year */
+const MAX_DAYS = 31;
+
+/**
+ * Submit a person's timesheet for every day of a period they logged time on.
+ */
+export async function submitTimesheets(
+  options: SubmitTimesheetsOptions,
+  ctx: ExecutorContext,
+): Promise<ExecutorResult<SubmitTimesheetsResult>> {
+  const person = options.personId ?? ctx.config.userId;
+  if (!person) {
+    throw new ExecutorValidationError(
+      'personId is required to submit timesheets (or set userId in ExecutorContext.config)',
+      'personId',
+    );
+  }
+
+  const dates = getDateService(ctx);
+  const period = options.period ?? 'this week';
+  const range = dates.parseRange(period);
+  if (!range) {
+    throw new ExecutorValidationError(
+      `Unrecognized period "${period}". Use YYYY-MM-DD or an expression like "this-week", "last-week" or "2026-W42"`,
+      'period',
+    );
+  }
+
+  const days: string[] = [];
+  for (let date = range.from; date <= range.to; date = dates.addDays(date, 1)) {
+    days.push(date);
+  }
+  if (days.length > MAX_DAYS) {
+    throw new ExecutorValidationError(
+      `Cannot submit more than ${MAX_DAYS} days at once, "${period}" covers ${days.length}`,
+      'period',
+    );
+  }
+
+  const personId = await ctx.resolver.resolveValue(person, 'person');
+  const entries = await fetchAllPages((page) =>
+    ctx.api.getTimeEntries({
+      page,
+      perPage: MAX_PAGE_SIZE,
+      filter: { person_id: personId, after: range.from, before: range.to },
+    }),
+  );
+  const loggedDays = new Set(entries.data.map((entry) => entry.attributes.date));
+
+  const results: SubmittedDay[] = [];
+  for (const date of days) {
+    if (!loggedDays.has(date)) {
+      results.push({ date, status: 'skipped' });
+      continue;
+    }
+    try {
+      const response = await ctx.api.createTimesheet({ person_id: personId, date });
+      results.push({ date, status: 'succeeded', timesheet_id: response.data.id });
+    } catch (error) {
+      results.push({
+        date,
+        status: 'failed',
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  return {
+    data: {
+      person_id: personId,
+      from: range.from,
+      to: range.to,
+      days: results,
+      submitted: results.filter((day) => day.status === 'succeeded').length,
+      failed: results.filter((day) => day.status === 'failed').length,
+      skipped: results.filter((day) => day.status === 'skipped').length,
+    },
+  };
+}
@@ -0,0 +1,232 @@
+import { describe, expect, it } from 'vitest';
+
+import { ExecutorValidationError } from '../errors.js';
+import {
+  detectTimesheetFormat,
+  parseDuration,
+  parseTimesheet,
+  parseTimesheetCsv,
+  parseTimesheetIcs,
+  parseTimesheetJson,
+} from './timesheet.js';
+
+describe('detectTimesheetFormat', () => {
+  it.each([
+    ['week.csv', 'csv'],
+    ['export.TSV', 'csv'],
+    ['calendar.ics', 'ics'],
+    ['entries.json', 'json'],
+    ['notes.txt', undefined],
+  ])('detects %s', (fileName, format) => {
+    expect(detectTimesheetFormat(fileName)).toBe(format);
+  });
+});
+
+describe('parseDuration', () => {
+  it.each([
+    ['90', 90],
+    ['90m', 90],
+    ['45 min', 45],
+    ['1.5h', 90],
+    ['1h30', 90],
+    ['1h 30m', 90],
+    ['1:30', 90],
+    ['2,5h', 150],
+  ])('parses %s', (value, minutes) => {
+    expect(parseDuration(value)).toBe(minutes);
+  });
+
+  it('reads bare numbers in the given unit', () => {
+    expect(parseDuration('1.5', 'hours')).toBe(90);
+    expect(parseDuration(2, 'hours')).toBe(120);
+  });
+
+  it('rejects invalid or empty durations', () => {
+    expect(parseDuration('soon')).toBeUndefined();
+    expect(parseDuration('0')).toBeUndefined();
+    expect(parseDuration('')).toBeUndefined();
+  });
+});
+
+describe('parseTimesheetCsv', () => {
+  it('reads rows with header aliases', () => {
+    const csv = [
+      'Date,Project,Service,Duration,Description',
+      '2024-01-15,Acme,Development,1h30,"Feature work, part 1"',
+      '2024-01-16,,Design,45,',
+    ].join('\n');
+
+    expect(parseTimesheetCsv(csv)).toEqual({
+      rows: [
+        {
+          line: 2,
+          date: '2024-01-15',
+          time: 90,
+          project: 'Acme',
+          service: 'Development',
+          note: 'Feature work, part 1',
+          taskId: undefined,
+        },
+        {
+          line: 3,
+          date: '2024-01-16',
+          time: 45,
+          project: undefined,
+          service: 'Design',
+          note: undefined,
+          taskId: undefined,
+        },
+      ],
+      errors: [],
+    });
+  });
+
+  it('detects semicolons and reads hours', () => {
+    const csv = '\uFEFFdate;hours;service\r\n2024/01/15;1,5;6\r\n';
+
+    expect(parseTimesheetCsv(csv).rows).toEqual([
+      expect.objectContaining({ date: '2024-01-15', time: 90, service: '6' }),
+    ]);
+  });
+
+  it('keeps the starting line of multi-line quoted fields', () => {
+    const csv = 'date,time,note\n2024-01-15,30,"line one\nline two"\n2024-01-15,15,next';
+
+    expect(parseTimesheetCsv(csv).rows.map((r) => [r.line, r.note])).toEqual([
+      [2, 'line one\nline two'],
+      [4, 'next'],
+    ]);
+  });
+
+  it('reports invalid rows without dropping the others', () => {
+    const csv = 'date,time,service\n15/01/2024,30,6\n2024-01-15,soon,6\n2024-01-15,30,6';
+
+    const result = parseTimesheetCsv(csv);
+
+    expect(result.rows).toHaveLength(1);
+    expect(result.errors).toEqual([
+      { line: 2, message: 'Missing or invalid date (expected YYYY-MM-DD)' },
+      { line: 3, message: 'Missing or invalid duration' },
+    ]);
+  });
+
+  it('requires date and duration columns', () => {
+    expect(() => parseTimesheetCsv('day,service\n2024-01-15,6')).toThrow(ExecutorValidationError);
+  });
+});
+
+function ics(...events: string[]): string {
+  return ['BEGIN:VCALENDAR', 'VERSION:2.0', ...events, 'END:VCALENDAR'].join('\r\n');
+}
+
+describe('parseTimesheetIcs', () => {
+  it('reads timed events with the service and project from the summary', () => {
+    const result = parseTimesheetIcs(
+      ics(
+        'BEGIN:VEVENT',
+        'DTSTART;TZID=Europe/Paris:20240115T090000',
+        'DTEND;TZID=Europe/Paris:20240115T103000',
+        'SUMMARY:[Acme / Development] Sprint planning\\, backlog',
+        'END:VEVENT',
+        'BEGIN:VEVENT',
+        'DTSTART:20240116T140000',
+        'DURATION:PT45M',
+        'SUMMARY:[Design] Mockups',
+        'END:VEVENT',
+        'BEGIN:VEVENT',
+        'DTSTART:20240117T080000',
+        'DTEND:20240117T090000',
+        'SUMMARY:Standup with a very long title that the calendar app folded',
+        '  over two lines',
+        'END:VEVENT',
+      ),
+    );
+
+    expect(result.errors).toEqual([]);
+    expect(result.rows).toEqual([
+      expect.objectContaining({
+        line: 3,
+        date: '2024-01-15',
+        time: 90,
+        project: 'Acme',
+        service: 'Development',
+        note: 'Sprint planning, backlog',
+      }),
+      expect.objectContaining({
+        date: '2024-01-16',
+        time: 45,
+        project: undefined,
+        service: 'Design',
+        note: 'Mockups',
+      }),
+      expect.objectContaining({
+        date: '2024-01-17',
+        time: 60,
+        service: undefined,
+        note: 'Standup with a very long title that the calendar app folded over two lines',
+      }),
+    ]);
+  });
+
+  it('reports all-day and recurring events', () => {
+    const result = parseTimesheetIcs(
+      ics(
+        'BEGIN:VEVENT',
+        'DTSTART;VALUE=DATE:20240115',
+        'SUMMARY:Holiday',
+        'END:VEVENT',
+        'BEGIN:VEVENT',
+        'DTSTART:20240115T090000',
+        'DTEND:20240115T091500',
+        'RRULE:FREQ=DAILY',
+        'SUMMARY:Standup',
+        'END:VEVENT',
+      ),
+    );
+
+    expect(result.rows).toEqual([]);
+    expect(result.errors).toEqual([
+      { line: 3, message: 'All-day events are not supported' },
+      { line: 7, message: 'Recurring events are not supported' },
+    ]);
+  });
+});
+
+describe('parseTimesheetJson', () => {
+  it('reads an array or an entries object', () => {
+    const entries = [
+      { date: '2024-01-15', minutes: 60, service: 'Development', project: 'Acme', note: 'Dev' },
+      { date: '2024-01-16', hours: 1.5, service_id: 6, task_id: 42 },
+    ];
+
+    const fromArray = parseTimesheetJson(JSON.stringify(entries));
+    const fromObject = parseTimesheetJson(JSON.stringify({ entries }));
+
+    expect(fromArray).toEqual(fromObject);
+    expect(fromArray.rows).toEqual([
+      expect.objectContaining({ line: 1, time: 60, service: 'Development', project: 'Acme' }),
+      expect.objectContaining({ line: 2, time: 90, service: '6', taskId: '42' }),
+    ]);
+  });
+
+  it('reports invalid entries', () => {
+    const result = parseTimesheetJson(JSON.stringify([null, { date: '2024-01-15' }]));
+
+    expect(result.errors).toEqual([
+      { line: 1, message: 'Entry must be an object' },
+      { line: 2, message: 'Missing or invalid duration' },
+    ]);
+  });
+
+  it('rejects invalid documents', () => {
+    expect(() => parseTimesheetJson('{')).toThrow('Invalid JSON');
+    expect(() => parseTimesheetJson('{"rows": []}')).toThrow(ExecutorValidationError);
+  });
+});
+
+describe('parseTimesheet', () => {
+  it('dispatches on the format', () => {
+    expect(parseTimesheet('[{"date":"2024-01-15","minutes":30}]', 'json').rows).toHaveLength(1);
+    expect(parseTimesheet('date,time\n2024-01-15,30', 'csv').rows).toHaveLength(1);
+  });
+});
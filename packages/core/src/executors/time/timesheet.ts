@@ -0,0 +1,490 @@
+/**
+ * Timesheet parsers for time entry imports.
+ *
+ * Turns CSV spreadsheets, iCalendar exports and JSON files into timesheet
+ * rows. Parsing never throws on a bad row: it is reported in `errors` with
+ * its line so the rest of the file can still be imported.
+ */
+
+import type { TimesheetFormat, TimesheetParseResult, TimesheetRow } from './types.js';
+
+import { ExecutorValidationError } from '../errors.js';
+
+const DATE_PATTERN = /^(\d{4})[-/](\d{2})[-/](\d{2})$/;
+
+/** CSV header aliases, lowercased */
+const CSV_COLUMNS: Record<string, keyof CsvRecord> = {
+  date: 'date',
+  day: 'date',
+  duration: 'duration',
+  time: 'duration',
+  minutes: 'duration',
+  hours: 'hours',
+  service: 'service',
+  service_id: 'service',
+  project: 'project',
+  project_id: 'project',
+  note: 'note',
+  notes: 'note',
+  description: 'note',
+  task: 'task',
+  task_id: 'task',
+};
+
+interface CsvRecord {
+  date?: string;
+  duration?: string;
+  hours?: string;
+  service?: string;
+  project?: string;
+  note?: string;
+  task?: string;
+}
+
+/**
+ * Detect a timesheet format from a file name.
+ */
+export function detectTimesheetFormat(fileName: string): TimesheetFormat | undefined {
+  const extension = fileName.toLowerCase().split('.').pop();
+  switch (extension) {
+    case 'csv':
+    case 'tsv':
+      return 'csv';
+    case 'ics':
+    case 'ical':
+      return 'ics';
+    case 'json':
+      return 'json';
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Parse a duration in minutes.
+ *
+ * Accepts `90`, `90m`, `1.5h`, `1h30`, `1h 30m` and `1:30`. Bare numbers are
+ * read in `unit`.
+ */
+export function parseDuration(
+  value: string | number,
+  unit: 'minutes' | 'hours' = 'minutes',
+): number | undefined {
+  if (typeof value === 'number') {
+    return toMinutes(value, unit);
+  }
+
+  const text = value.trim().toLowerCase().replace(',', '.');
+  if (/^\d+(\.\d+)?$/.test(text)) {
+    return toMinutes(Number(text), unit);
+  }
+
+  const clock = text.match(/^(\d+):(\d{2})$/);
+  if (clock) {
+    return toMinutes(Number(clock[1]) * 60 + Number(clock[2]), 'minutes');
+  }
+
+  const units = text.match(/^(?:(\d+(?:\.\d+)?)\s*h)?\s*(?:(\d+)\s*(?:m|min)?)?$/);
+  if (units && (units[1] || units[2])) {
+    return toMinutes(Number(units[1] ?? 0) * 60 + Number(units[2] ?? 0), 'minutes');
+  }
+
+  return undefined;
+}
+
+function toMinutes(value: number, unit: 'minutes' | 'hours'): number | undefined {
+  const minutes = Math.round(unit === 'hours' ? value * 60 : value);
+  return Number.isFinite(minutes) && minutes > 0 ? minutes : undefined;
+}
+
+function normalizeDate(value: string): string | undefined {
+  const match = value.trim().match(DATE_PATTERN);
+  return match ? `${match[1]}-${match[2]}-${match[3]}` : undefined;
+}
+
+function optional(value: string | undefined): string | undefined {
+  const trimmed = value?.trim();
+  return trimmed ? trimmed : undefined;
+}
+
+/**
+ * Build a row from raw fields, or describe why it is invalid.
+ */
+function buildRow(
+  line: number,
+  fields: {
+    date?: string;
+    minutes?: number;
+    service?: string;
+    project?: string;
+    note?: string;
+    taskId?: string;
+  },
+): TimesheetRow | string {
+  if (!fields.date) {
+    return 'Missing or invalid date (expected YYYY-MM-DD)';
+  }
+  if (!fields.minutes) {
+    return 'Missing or invalid duration';
+  }
+
+  return {
+    line,
+    date: fields.date,
+    time: fields.minutes,
+    service: optional(fields.service),
+    project: optional(fields.project),
+    note: optional(fields.note),
+    taskId: optional(fields.taskId),
+  };
+}
+
+function collect(entries: Array<[number, TimesheetRow | string]>): TimesheetParseResult {
+  const result: TimesheetParseResult = { rows: [], errors: [] };
+  for (const [line, entry] of entries) {
+    if (typeof entry === 'string') {
+      result.errors.push({ line, message: entry });
+    } else {
+      result.rows.push(entry);
+    }
+  }
+  return result;
+}
+
+// ============ CSV ============
+
+/**
+ * Split CSV content into records, keeping the line each record starts on.
+ * Handles quoted fields, escaped quotes and line breaks inside quotes.
+ */
+function splitCsv(content: string, delimiter: string): Array<{ line: number; fields: string[] }> {
+  const records: Array<{ line: number; fields: string[] }> = [];
+  let fields: string[] = [];
+  let field = '';
+  let quoted = false;
+  let line = 1;
+  let start = 1;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+
+    if (quoted) {
+      if (char === '"' && content[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        if (char === '\n') line++;
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      fields.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') i++;
+      fields.push(field);
+      if (fields.some((f) => f.trim() !== '')) records.push({ line: start, fields });
+      fields = [];
+      field = '';
+      line++;
+      start = line;
+    } else {
+      field += char;
+    }
+  }
+
+  fields.push(field);
+  if (fields.some((f) => f.trim() !== '')) records.push({ line: start, fields });
+
+  return records;
+}
+
+function detectDelimiter(headerLine: string): string {
+  const candidates = [',', ';', '\t'];
+  return candidates.reduce((best, candidate) =>
+    headerLine.split(candidate).length > headerLine.split(best).length ? candidate : best,
+  );
+}
+
+/**
+ * Parse a CSV timesheet with a header row.
+ *
+ * Recognized columns: `date`, `duration` (or `time`, `minutes`), `hours`,
+ * `service`, `project`, `note` (or `description`) and `task_id`. The
+ * delimiter (comma, semicolon or tab) is detected from the header.
+ */
+export function parseTimesheetCsv(content: string): TimesheetParseResult {
+  const text = content.replace(/^\uFEFF/, '');
+  const [headerRecord, ...records] = splitCsv(text, detectDelimiter(text.split(/\r?\n/)[0]));
+
+  if (!headerRecord) {
+    return { rows: [], errors: [] };
+  }
+
+  const columns = headerRecord.fields.map(
+    (name) => CSV_COLUMNS[name.trim().toLowerCase().replace(/\s+/g, '_')],
+  );
+  if (!columns.includes('date') || (!columns.includes('duration') && !columns.includes('hours'))) {
+    throw new ExecutorValidationError(
+      'CSV header must include a date column and a duration, time, minutes or hours column',
+      'file',
+    );
+  }
+
+  return collect(
+    records.map(({ line, fields }) => {
+      const record: CsvRecord = {};
+      columns.forEach((column, index) => {
+        if (column && fields[index] !== undefined) record[column] = fields[index];
+      });
+
+      const minutes = record.duration
+        ? parseDuration(record.duration)
+        : record.hours
+          ? parseDuration(record.hours, 'hours')
+          : undefined;
+
+      return [
+        line,
+        buildRow(line, {
+          date: record.date ? normalizeDate(record.date) : undefined,
+          minutes,
+          service: record.service,
+          project: record.project,
+          note: record.note,
+          taskId: record.task,
+        }),
+      ];
+    }),
+  );
+}
+
+// ============ iCalendar ============
+
+interface IcsProperty {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+function unfoldIcs(content: string): Array<{ line: number; text: string }> {
+  const lines: Array<{ line: number; text: string }> = [];
+  content.split(/\r?\n/).forEach((text, index) => {
+    if (/^[ \t]/.test(text) && lines.length > 0) {
+      lines[lines.length - 1].text += text.slice(1);
+    } else if (text !== '') {
+      lines.push({ line: index + 1, text });
+    }
+  });
+  return lines;
+}
+
+function parseIcsProperty(text: string): IcsProperty {
+  const colon = text.indexOf(':');
+  const [name, ...params] = text.slice(0, colon).split(';');
+  return {
+    name: name.toUpperCase(),
+    params: Object.fromEntries(
+      params.map((param) => {
+        const [key, value = ''] = param.split('=');
+        return [key.toUpperCase(), value];
+      }),
+    ),
+    value: text.slice(colon + 1),
+  };
+}
+
+function unescapeIcsText(value: string): string {
+  return value.replace(/\\([nN,;\\])/g, (_, char: string) =>
+    char === 'n' || char === 'N' ? '\n' : char,
+  );
+}
+
+/**
+ * Parse an iCalendar date-time into a timestamp and its calendar date.
+ * UTC times (`Z`) use the local date; floating and TZID times are taken as
+ * written.
+ */
+function parseIcsDateTime(value: string): { timestamp: number; date: string } | undefined {
+  const match = value.match(/^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})(Z?)$/);
+  if (!match) return undefined;
+
+  const [, year, month, day, hour, minute, second, utc] = match;
+  const timestamp = Date.UTC(+year, +month - 1, +day, +hour, +minute, +second);
+
+  if (utc) {
+    const local = new Date(timestamp);
+    const date = [
+      local.getFullYear(),
+      String(local.getMonth() + 1).padStart(2, '0'),
+      String(local.getDate()).padStart(2, '0'),
+    ].join('-');
+    return { timestamp, date };
+  }
+
+  return { timestamp, date: `${year}-${month}-${day}` };
+}
+
+/** Parse an iCalendar DURATION such as `PT1H30M` into minutes. */
+function parseIcsDuration(value: string): number | undefined {
+  const match = value.match(/^P(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:\d+S)?)?$/);
+  if (!match) return undefined;
+  return Number(match[1] ?? 0) * 1440 + Number(match[2] ?? 0) * 60 + Number(match[3] ?? 0);
+}
+
+/**
+ * Parse an iCalendar (.ics) export.
+ *
+ * Each timed VEVENT becomes a row; all-day and recurring events are reported
+ * as errors. The summary is the note, and may name the service and project
+ * in a leading bracket: `[Project / Service] Note` or `[Service] Note`.
+ */
+export function parseTimesheetIcs(content: string): TimesheetParseResult {
+  const entries: Array<[number, TimesheetRow | string]> = [];
+  let event: { line: number; properties: IcsProperty[] } | undefined;
+
+  for (const { line, text } of unfoldIcs(content)) {
+    const upper = text.toUpperCase();
+    if (upper === 'BEGIN:VEVENT') {
+      event = { line, properties: [] };
+    } else if (upper === 'END:VEVENT' && event) {
+      entries.push([event.line, buildIcsRow(event.line, event.properties)]);
+      event = undefined;
+    } else if (event && text.includes(':')) {
+      event.properties.push(parseIcsProperty(text));
+    }
+  }
+
+  return collect(entries);
+}
+
+function buildIcsRow(line: number, properties: IcsProperty[]): TimesheetRow | string {
+  const get = (name: string) => properties.find((p) => p.name === name);
+
+  if (get('RRULE')) {
+    return 'Recurring events are not supported';
+  }
+
+  const dtstart = get('DTSTART');
+  if (!dtstart) {
+    return 'Event has no DTSTART';
+  }
+  if (dtstart.params.VALUE === 'DATE' || /^\d{8}$/.test(dtstart.value)) {
+    return 'All-day events are not supported';
+  }
+
+  const start = parseIcsDateTime(dtstart.value);
+  if (!start) {
+    return `Invalid DTSTART: ${dtstart.value}`;
+  }
+
+  const dtend = get('DTEND');
+  const end = dtend ? parseIcsDateTime(dtend.value) : undefined;
+  const duration = get('DURATION');
+  const minutes = end
+    ? Math.round((end.timestamp - start.timestamp) / 60_000)
+    : duration
+      ? parseIcsDuration(duration.value)
+      : undefined;
+
+  const summary = unescapeIcsText(get('SUMMARY')?.value ?? '').trim();
+  const bracket = summary.match(/^\[([^\]]+)\]\s*(.*)$/s);
+  let service: string | undefined;
+  let project: string | undefined;
+  let note = summary;
+
+  if (bracket) {
+    const parts = bracket[1].split('/').map((part) => part.trim());
+    service = parts.pop();
+    project = parts.length > 0 ? parts.join(' / ') : undefined;
+    note = bracket[2];
+  }
+
+  return buildRow(line, {
+    date: start.date,
+    minutes: minutes && minutes > 0 ? minutes : undefined,
+    service,
+    project,
+    note,
+  });
+}
+
+// ============ JSON ============
+
+function jsonText(value: unknown): string | undefined {
+  return typeof value === 'string' || typeof value === 'number' ? String(value) : undefined;
+}
+
+/**
+ * Parse a JSON timesheet: an array of entries, or `{ "entries": [...] }`.
+ *
+ * Each entry has `date`, a duration (`minutes`, `time` or `duration` in
+ * minutes, or `hours`), `service`, and optional `project`, `note` and
+ * `task_id`. Rows are numbered from 1 in `line`.
+ */
+export function parseTimesheetJson(content: string): TimesheetParseResult {
+  let data: unknown;
+  try {
+    data = JSON.parse(content);
+  } catch (error) {
+    throw new ExecutorValidationError(
+      `Invalid JSON: ${error instanceof Error ? error.message : String(error)}`,
+      'file',
+    );
+  }
+
+  const entries = Array.isArray(data) ? data : (data as { entries?: unknown } | null)?.entries;
+  if (!Array.isArray(entries)) {
+    throw new ExecutorValidationError(
+      'JSON timesheet must be an array of entries or an object with an "entries" array',
+      'file',
+    );
+  }
+
+  return collect(
+    entries.map((entry: unknown, index): [number, TimesheetRow | string] => {
+      const line = index + 1;
+      if (!entry || typeof entry !== 'object') {
+        return [line, 'Entry must be an object'];
+      }
+
+      const e = entry as Record<string, unknown>;
+      const duration = e.minutes ?? e.time ?? e.duration;
+      const minutes =
+        typeof duration === 'string' || typeof duration === 'number'
+          ? parseDuration(duration)
+          : typeof e.hours === 'string' || typeof e.hours === 'number'
+            ? parseDuration(e.hours, 'hours')
+            : undefined;
+
+      return [
+        line,
+        buildRow(line, {
+          date: typeof e.date === 'string' ? normalizeDate(e.date) : undefined,
+          minutes,
+          service: jsonText(e.service ?? e.service_id),
+          project: jsonText(e.project ?? e.project_id),
+          note: jsonText(e.note),
+          taskId: jsonText(e.task_id),
+        }),
+      ];
+    }),
+  );
+}
+
+/**
+ * Parse a timesheet in the given format.
+ */
+export function parseTimesheet(content: string, format: TimesheetFormat): TimesheetParseResult {
+  switch (format) {
+    case 'csv':
+      return parseTimesheetCsv(content);
+    case 'ics':
+      return parseTimesheetIcs(content);
+    case 'json':
+      return parseTimesheetJson(content);
+  }
+}
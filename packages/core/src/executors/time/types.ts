@@ -24,10 +24,12 @@ export interface ListTimeEntriesOptions extends PaginationOptions {
   dealId?: string;
   /** Filter by budget ID */
   budgetId?: string;
-  /** Filter entries after this date (YYYY-MM-DD) */
+  /** Filter entries after this date (YYYY-MM-DD or an expression like "last monday") */
   after?: string;
-  /** Filter entries before this date (YYYY-MM-DD) */
+  /** Filter entries before this date (YYYY-MM-DD or an expression like "yesterday") */
   before?: string;
+  /** Period to filter on, e.g. "this-week", "last-month", "q3", "2026-W42" */
+  period?: string;
   /** Approval status: 'approved' | 'unapproved' | 'rejected' */
   status?: string;
   /** Billing type: 'fixed' | 'actuals' | 'non_billable' */
@@ -91,3 +93,187 @@ export interface DeleteTimeEntryOptions {
   /** Time entry ID */
   id: string;
 }
+
+/**
+ * Options for approving or unapproving a time entry
+ */
+export interface ApproveTimeEntryOptions {
+  /** Time entry ID */
+  id: string;
+}
+
+/**
+ * Options for rejecting a time entry
+ */
+export interface RejectTimeEntryOptions {
+  /** Time entry ID */
+  id: string;
+  /** Why the entry was rejected, shown to its author */
+  reason?: string;
+}
+
+/**
+ * Options for submitting a person's timesheets
+ */
+export interface SubmitTimesheetsOptions {
+  /** Person ID or human-friendly identifier (email, name), defaults to the current user */
+  personId?: string;
+  /** Days to submit, e.g. "this-week", "last-week", "2026-W42" (default: this week) */
+  period?: string;
+}
+
+/**
+ * A day of a timesheet submission
+ */
+export interface SubmittedDay {
+  /** Date (YYYY-MM-DD) */
+  date: string;
+  /** `skipped` when no time was logged that day */
+  status: 'succeeded' | 'failed' | 'skipped';
+  timesheet_id?: string;
+  error?: string;
+}
+
+/**
+ * Outcome of a timesheet submission
+ */
+export interface SubmitTimesheetsResult {
+  person_id: string;
+  from: string;
+  to: string;
+  days: SubmittedDay[];
+  submitted: number;
+  failed: number;
+  /** Days without time entries, left unsubmitted */
+  skipped: number;
+}
+
+/**
+ * Options for building the approval queue
+ */
+export interface ApprovalQueueOptions {
+  /** Filter by person ID or human-friendly identifier (email, name) */
+  personId?: string;
+  /** Filter by project ID or human-friendly identifier (number, name) */
+  projectId?: string;
+  /** Entries after this date (YYYY-MM-DD or an expression like "last monday") */
+  after?: string;
+  /** Entries before this date (YYYY-MM-DD or an expression like "yesterday") */
+  before?: string;
+  /** Period to look at, e.g. "last-week", "2026-W42" */
+  period?: string;
+  /** Additional raw time entry filters */
+  additionalFilters?: Record<string, string>;
+  /** Stop after this many entries (default: 1000) */
+  limit?: number;
+}
+
+/**
+ * Hours a person has waiting for approval
+ */
+export interface ApprovalQueuePerson {
+  person_id: string;
+  /** Full name, null when the person was not included in the response */
+  person_name: string | null;
+  entries: number;
+  /** Total time in minutes */
+  minutes: number;
+  /** Earliest and latest entry dates (YYYY-MM-DD) */
+  first_date: string;
+  last_date: string;
+  time_entry_ids: string[];
+}
+
+/**
+ * Unapproved time entries grouped by person
+ */
+export interface ApprovalQueue {
+  people: ApprovalQueuePerson[];
+  total_entries: number;
+  total_minutes: number;
+  /** Filters the entries were listed with, date expressions resolved */
+  filter: Record<string, string>;
+  /** More entries matched than the limit, so the totals are partial */
+  truncated: boolean;
+}
+
+/**
+ * Timesheet file formats accepted by imports
+ */
+export type TimesheetFormat = 'csv' | 'ics' | 'json';
+
+/**
+ * A time entry read from a timesheet file, before resolution
+ */
+export interface TimesheetRow {
+  /** Line (CSV, ICS) or 1-based entry index (JSON) the row comes from */
+  line: number;
+  /** Date (YYYY-MM-DD) */
+  date: string;
+  /** Duration in minutes */
+  time: number;
+  /** Service ID or name */
+  service?: string;
+  /** Project ID, number or name, used to resolve the service */
+  project?: string;
+  note?: string;
+  taskId?: string;
+}
+
+/**
+ * Result of parsing a timesheet file
+ */
+export interface TimesheetParseResult {
+  rows: TimesheetRow[];
+  /** Rows that could not be read */
+  errors: Array<{ line: number; message: string }>;
+}
+
+/**
+ * Options for importing time entries from timesheet rows
+ */
+export interface ImportTimeEntriesOptions {
+  rows: TimesheetRow[];
+  /** Person ID or human-friendly identifier, defaults to the configured user */
+  personId?: string;
+  /** Service used for rows without one */
+  serviceId?: string;
+  /** Project used for rows without one */
+  projectId?: string;
+  /** Resolve and check rows without creating anything */
+  dryRun?: boolean;
+  /** Create rows even when an identical entry already exists that day */
+  allowDuplicates?: boolean;
+}
+
+/**
+ * Outcome of an imported row: `pending` rows would be created by a real run
+ */
+export type ImportRowStatus = 'created' | 'pending' | 'duplicate' | 'failed';
+
+export interface ImportRowResult {
+  line: number;
+  date: string;
+  time: number;
+  project?: string;
+  service?: string;
+  note?: string;
+  status: ImportRowStatus;
+  /** ID of the created entry */
+  time_entry_id?: string;
+  /** ID of the existing entry, or `line:<n>` for an earlier row of the file */
+  duplicate_of?: string;
+  error?: string;
+}
+
+export interface ImportTimeEntriesResult {
+  person_id: string;
+  dry_run: boolean;
+  rows: ImportRowResult[];
+  /** Rows created, or that would be created in a dry run */
+  created: number;
+  duplicates: number;
+  failed: number;
+  /** Minutes created, or that would be created in a dry run */
+  total_minutes: number;
+}
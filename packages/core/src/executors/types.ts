@@ -13,6 +13,7 @@ import type { IncludedResource, JsonApiMeta } from '@studiometa/productive-api';
 import { DEFAULT_PAGE_SIZE } from '@studiometa/productive-api';
 
 import type { ExecutorContext, ResolvedInfo } from '../context/types.js';
+import type { ResolvedDate } from '../dates/filters.js';
 
 /**
  * Result returned by all executor functions.
@@ -31,6 +32,9 @@ export interface ExecutorResult<T> {
 
   /** Information about any smart ID resolutions that occurred */
   resolved?: Record<string, ResolvedInfo>;
+
+  /** Date expressions (e.g. "last month") and the absolute dates they resolved to */
+  dates?: Record<string, ResolvedDate>;
 }
 
 /**
@@ -0,0 +1,13 @@
+/**
+ * Undo executor — revert mutations recorded in an undo journal.
+ */
+
+export { canUndo, describeRecordedMutation, undoMutations } from './undo.js';
+
+export type {
+  UndoEntry,
+  UndoItemResult,
+  UndoItemStatus,
+  UndoOptions,
+  UndoResult,
+} from './types.js';
@@ -0,0 +1,45 @@
+/**
+ * Option and result types for the undo executor.
+ */
+
+import type { RecordedMutation } from '@studiometa/productive-api';
+
+/**
+ * A mutation kept in an undo journal
+ */
+export interface UndoEntry {
+  /** Journal ID */
+  id: number;
+  /** When the API accepted the mutation (epoch milliseconds) */
+  recordedAt: number;
+  mutation: RecordedMutation;
+}
+
+export interface UndoOptions {
+  /** Mutations to revert, most recent first */
+  entries: UndoEntry[];
+  /** Show what would be reverted without sending anything */
+  dryRun?: boolean;
+}
+
+/**
+ * Outcome of a mutation: `pending` ones would be reverted by a real run,
+ * `skipped` ones were left alone because an earlier revert failed
+ */
+export type UndoItemStatus = 'pending' | 'undone' | 'failed' | 'skipped';
+
+export interface UndoItemResult {
+  id: number;
+  /** Short description, e.g. "Update tasks 123 (title)" */
+  description: string;
+  status: UndoItemStatus;
+  error?: string;
+}
+
+export interface UndoResult {
+  dry_run: boolean;
+  items: UndoItemResult[];
+  total: number;
+  undone: number;
+  failed: number;
+}
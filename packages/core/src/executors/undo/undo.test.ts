@@ -0,0 +1,105 @@
+import type { RecordedMutation } from '@studiometa/productive-api';
+
+import { describe, expect, it, vi } from 'vitest';
+
+import { createTestExecutorContext } from '../../context/test-utils.js';
+import { canUndo, describeRecordedMutation, undoMutations } from './undo.js';
+
+const created: RecordedMutation = {
+  method: 'POST',
+  path: '/time_entries',
+  resourceType: 'time_entries',
+  resourceId: '77',
+};
+
+const updated: RecordedMutation = {
+  method: 'PATCH',
+  path: '/tasks/5',
+  resourceType: 'tasks',
+  resourceId: '5',
+  body: { data: { type: 'tasks', id: '5', attributes: { title: 'New' } } },
+  before: { id: '5', type: 'tasks', attributes: { title: 'Old' } },
+};
+
+const stopped: RecordedMutation = {
+  method: 'PATCH',
+  path: '/timers/3/stop',
+  resourceType: 'timers',
+  resourceId: '3',
+};
+
+const entry = (id: number, mutation: RecordedMutation) => ({ id, recordedAt: 0, mutation });
+
+describe('describeRecordedMutation', () => {
+  it('summarizes each kind of mutation', () => {
+    expect(describeRecordedMutation(created)).toBe('Create time_entries 77');
+    expect(describeRecordedMutation(updated)).toBe('Update tasks 5 (title)');
+    expect(describeRecordedMutation(stopped)).toBe('Stop timers 3');
+  });
+});
+
+describe('canUndo', () => {
+  it('tells whether a mutation can be reverted', () => {
+    expect(canUndo(created)).toBe(true);
+    expect(canUndo(stopped)).toBe(false);
+  });
+});
+
+describe('undoMutations', () => {
+  it('reverts mutations in the given order, outside of the journal', async () => {
+    const requestRaw = vi.fn().mockResolvedValue({});
+    const ctx = createTestExecutorContext({ api: { requestRaw } });
+
+    const result = await undoMutations({ entries: [entry(2, updated), entry(1, created)] }, ctx);
+
+    expect(requestRaw.mock.calls).toEqual([
+      [
+        '/tasks/5',
+        {
+          method: 'PATCH',
+          body: { data: { type: 'tasks', id: '5', attributes: { title: 'Old' } } },
+          journal: false,
+        },
+      ],
+      ['/time_entries/77', { method: 'DELETE', body: undefined, journal: false }],
+    ]);
+    expect(result.data).toMatchObject({ dry_run: false, total: 2, undone: 2, failed: 0 });
+  });
+
+  it('only lists the mutations on a dry run', async () => {
+    const requestRaw = vi.fn();
+    const ctx = createTestExecutorContext({ api: { requestRaw } });
+
+    const result = await undoMutations({ entries: [entry(1, created)], dryRun: true }, ctx);
+
+    expect(requestRaw).not.toHaveBeenCalled();
+    expect(result.data.items).toEqual([
+      { id: 1, description: 'Create time_entries 77', status: 'pending' },
+    ]);
+  });
+
+  it('stops at the first mutation it cannot revert', async () => {
+    const requestRaw = vi.fn().mockRejectedValueOnce(new Error('Task is locked'));
+    const ctx = createTestExecutorContext({ api: { requestRaw } });
+
+    const result = await undoMutations(
+      { entries: [entry(3, updated), entry(2, stopped), entry(1, created)] },
+      ctx,
+    );
+
+    expect(requestRaw).toHaveBeenCalledTimes(1);
+    expect(result.data.items.map((item) => item.status)).toEqual(['failed', 'skipped', 'skipped']);
+    expect(result.data.items[0].error).toBe('Task is locked');
+  });
+
+  it('reports mutations that cannot be reverted', async () => {
+    const ctx = createTestExecutorContext({ api: { requestRaw: vi.fn() } });
+
+    const result = await undoMutations({ entries: [entry(1, stopped)], dryRun: true }, ctx);
+
+    expect(result.data.items[0]).toMatchObject({
+      status: 'failed',
+      error: expect.stringContaining('cannot be undone'),
+    });
+  });
+});
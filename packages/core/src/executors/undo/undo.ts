@@ -0,0 +1,113 @@
+/**
+ * Undo executor.
+ *
+ * Reverts journaled mutations from the most recent one back. Later changes
+ * may depend on earlier ones (an update of a record created just before), so
+ * the first mutation that cannot be reverted stops the run and the older
+ * ones are left alone.
+ */
+
+import { buildRevertRequest, type RecordedMutation } from '@studiometa/productive-api';
+
+import type { ExecutorContext } from '../../context/types.js';
+import type { ExecutorResult } from '../types.js';
+import type { UndoItemResult, UndoOptions, UndoResult } from './types.js';
+
+const VERBS: Record<RecordedMutation['method'], string> = {
+  POST: 'Create',
+  PATCH: 'Update',
+  DELETE: 'Delete',
+};
+
+/**
+ * One-line summary of a journaled mutation, e.g. "Update tasks 123 (title)"
+ */
+export function describeRecordedMutation(mutation: RecordedMutation): string {
+  const [, type, id, action] = mutation.path.split('/');
+  if (action !== undefined) {
+    return `${action.charAt(0).toUpperCase()}${action.slice(1)} ${type} ${id}`;
+  }
+
+  const target = [type, mutation.resourceId].filter(Boolean).join(' ');
+  if (mutation.method !== 'PATCH') return `${VERBS[mutation.method]} ${target}`;
+
+  const data = (mutation.body as { data?: Record<string, unknown> } | undefined)?.data ?? {};
+  const fields = [
+    ...Object.keys((data.attributes as object | undefined) ?? {}),
+    ...Object.keys((data.relationships as object | undefined) ?? {}),
+  ];
+  return fields.length > 0 ? `Update ${target} (${fields.join(', ')})` : `Update ${target}`;
+}
+
+/**
+ * Whether a journaled mutation can be reverted
+ */
+export function canUndo(mutation: RecordedMutation): boolean {
+  return buildRevertRequest(mutation) !== null;
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Revert journaled mutations, most recent first.
+ */
+export async function undoMutations(
+  options: UndoOptions,
+  ctx: ExecutorContext,
+): Promise<ExecutorResult<UndoResult>> {
+  const dryRun = options.dryRun ?? false;
+  const items: UndoItemResult[] = [];
+  let blocked = false;
+
+  for (const entry of options.entries) {
+    const item: UndoItemResult = {
+      id: entry.id,
+      description: describeRecordedMutation(entry.mutation),
+      status: 'pending',
+    };
+    items.push(item);
+
+    if (blocked) {
+      item.status = 'skipped';
+      continue;
+    }
+
+    const revert = buildRevertRequest(entry.mutation);
+    if (!revert) {
+      item.status = 'failed';
+      item.error = entry.mutation.before
+        ? 'This change cannot be undone'
+        : 'This change cannot be undone: the record could not be read before it';
+      blocked = true;
+      continue;
+    }
+    if (dryRun) continue;
+
+    try {
+      // The revert itself stays out of the journal, or undoing twice would
+      // revert the revert
+      await ctx.api.requestRaw(revert.path, {
+        method: revert.method,
+        body: revert.body,
+        journal: false,
+      });
+      item.status = 'undone';
+    } catch (error) {
+      item.status = 'failed';
+      item.error = errorMessage(error);
+      blocked = true;
+    }
+  }
+
+  return {
+    data: {
+      dry_run: dryRun,
+      items,
+      total: items.length,
+      undone: items.filter((item) => item.status === 'undone').length,
+      failed: items.filter((item) => item.status === 'failed').length,
+    },
+  };
+}
@@ -0,0 +1,46 @@
+import { describe, expect, it, vi } from 'vitest';
+
+import { createTestExecutorContext } from '../../context/test-utils.js';
+import { ExecutorValidationError } from '../errors.js';
+import { createWorkflowStatus, parseWorkflowStatusCategory } from './create.js';
+
+describe('parseWorkflowStatusCategory', () => {
+  it.each([
+    ['not_started', 1],
+    ['Not-Started', 1],
+    ['started', 2],
+    ['closed', 3],
+    ['3', 3],
+  ])('parses %s', (input, expected) => {
+    expect(parseWorkflowStatusCategory(input)).toBe(expected);
+  });
+
+  it('rejects unknown categories', () => {
+    expect(() => parseWorkflowStatusCategory('blocked')).toThrow(ExecutorValidationError);
+    expect(() => parseWorkflowStatusCategory('7')).toThrow(ExecutorValidationError);
+  });
+});
+
+describe('createWorkflowStatus', () => {
+  it('creates a status in the workflow', async () => {
+    const createWorkflowStatusApi = vi
+      .fn()
+      .mockResolvedValue({ data: { id: '5', type: 'workflow_statuses', attributes: {} } });
+    const ctx = createTestExecutorContext({
+      api: { createWorkflowStatus: createWorkflowStatusApi },
+    });
+
+    await createWorkflowStatus(
+      { name: 'Review', workflowId: '9', category: 'started', position: 3 },
+      ctx,
+    );
+
+    expect(createWorkflowStatusApi).toHaveBeenCalledWith({
+      name: 'Review',
+      workflow_id: '9',
+      category_id: 2,
+      position: 3,
+      color_id: undefined,
+    });
+  });
+});
@@ -0,0 +1,41 @@
+import type { ProductiveWorkflowStatus } from '@studiometa/productive-api';
+
+import { WORKFLOW_STATUS_CATEGORY } from '@studiometa/productive-api';
+
+import type { ExecutorContext } from '../../context/types.js';
+import type { ExecutorResult } from '../types.js';
+import type { CreateWorkflowStatusOptions } from './types.js';
+
+import { ExecutorValidationError } from '../errors.js';
+
+/**
+ * Convert a category label ('not_started', 'started', 'closed') or ID to its numeric ID.
+ */
+export function parseWorkflowStatusCategory(category: string): number {
+  const value = WORKFLOW_STATUS_CATEGORY.toValue(category.toLowerCase().replaceAll('-', '_'));
+  const categoryId = Number(value);
+
+  if (!WORKFLOW_STATUS_CATEGORY.entries().some(([, id]) => id === value)) {
+    throw new ExecutorValidationError(
+      `Invalid category "${category}". Use not_started, started or closed`,
+      'category',
+    );
+  }
+
+  return categoryId;
+}
+
+export async function createWorkflowStatus(
+  options: CreateWorkflowStatusOptions,
+  ctx: ExecutorContext,
+): Promise<ExecutorResult<ProductiveWorkflowStatus>> {
+  const response = await ctx.api.createWorkflowStatus({
+    name: options.name,
+    workflow_id: options.workflowId,
+    category_id: parseWorkflowStatusCategory(options.category),
+    position: options.position,
+    color_id: options.colorId,
+  });
+
+  return { data: response.data };
+}
@@ -0,0 +1,17 @@
+import { describe, expect, it, vi } from 'vitest';
+
+import { createTestExecutorContext } from '../../context/test-utils.js';
+import { getWorkflowStatus } from './get.js';
+
+describe('getWorkflowStatus', () => {
+  it('includes the workflow by default', async () => {
+    const getWorkflowStatusApi = vi
+      .fn()
+      .mockResolvedValue({ data: { id: '5', type: 'workflow_statuses', attributes: {} } });
+    const ctx = createTestExecutorContext({ api: { getWorkflowStatus: getWorkflowStatusApi } });
+
+    await getWorkflowStatus({ id: '5' }, ctx);
+
+    expect(getWorkflowStatusApi).toHaveBeenCalledWith('5', { include: ['workflow'] });
+  });
+});
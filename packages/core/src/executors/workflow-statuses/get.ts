@@ -0,0 +1,15 @@
+import type { ProductiveWorkflowStatus } from '@studiometa/productive-api';
+
+import type { ExecutorContext } from '../../context/types.js';
+import type { ExecutorResult } from '../types.js';
+import type { GetWorkflowStatusOptions } from './types.js';
+
+export async function getWorkflowStatus(
+  options: GetWorkflowStatusOptions,
+  ctx: ExecutorContext,
+): Promise<ExecutorResult<ProductiveWorkflowStatus>> {
+  const response = await ctx.api.getWorkflowStatus(options.id, {
+    include: options.include ?? ['workflow'],
+  });
+  return { data: response.data, included: response.included };
+}
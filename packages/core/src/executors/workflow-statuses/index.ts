@@ -0,0 +1,10 @@
+export { createWorkflowStatus, parseWorkflowStatusCategory } from './create.js';
+export { getWorkflowStatus } from './get.js';
+export { buildWorkflowStatusFilters, listWorkflowStatuses } from './list.js';
+export { updateWorkflowStatus } from './update.js';
+export type {
+  CreateWorkflowStatusOptions,
+  GetWorkflowStatusOptions,
+  ListWorkflowStatusesOptions,
+  UpdateWorkflowStatusOptions,
+} from './types.js';
@@ -0,0 +1,72 @@
+import { describe, expect, it, vi } from 'vitest';
+
+import { createTestExecutorContext } from '../../context/test-utils.js';
+import { ExecutorValidationError } from '../errors.js';
+import { buildWorkflowStatusFilters, listWorkflowStatuses } from './list.js';
+
+describe('buildWorkflowStatusFilters', () => {
+  it('maps workflow and category', () => {
+    expect(buildWorkflowStatusFilters({ workflowId: '9', category: 'not-started' })).toEqual({
+      workflow_id: '9',
+      category_id: '1',
+    });
+  });
+
+  it('does not set filter for unknown categories', () => {
+    expect(buildWorkflowStatusFilters({ category: 'blocked' })).toEqual({});
+  });
+});
+
+describe('listWorkflowStatuses', () => {
+  const mockResponse = {
+    data: [{ id: '5', type: 'workflow_statuses', attributes: { name: 'To do' } }],
+    meta: {},
+  };
+
+  it('sorts by position by default', async () => {
+    const getWorkflowStatuses = vi.fn().mockResolvedValue(mockResponse);
+    const ctx = createTestExecutorContext({ api: { getWorkflowStatuses } });
+
+    const result = await listWorkflowStatuses({ workflowId: '9' }, ctx);
+
+    expect(getWorkflowStatuses).toHaveBeenCalledWith({
+      page: 1,
+      perPage: 100,
+      sort: 'position',
+      include: undefined,
+      filter: { workflow_id: '9' },
+    });
+    expect(result.data).toEqual(mockResponse.data);
+  });
+
+  it("looks up the project's workflow", async () => {
+    const getProject = vi.fn().mockResolvedValue({
+      data: {
+        id: '100',
+        type: 'projects',
+        attributes: {},
+        relationships: { workflow: { data: { type: 'workflows', id: '9' } } },
+      },
+    });
+    const getWorkflowStatuses = vi.fn().mockResolvedValue(mockResponse);
+    const ctx = createTestExecutorContext({ api: { getProject, getWorkflowStatuses } });
+
+    await listWorkflowStatuses({ projectId: '100' }, ctx);
+
+    expect(getProject).toHaveBeenCalledWith('100', { include: ['workflow'] });
+    expect(getWorkflowStatuses).toHaveBeenCalledWith(
+      expect.objectContaining({ filter: { workflow_id: '9' } }),
+    );
+  });
+
+  it('throws when the project has no workflow', async () => {
+    const getProject = vi.fn().mockResolvedValue({
+      data: { id: '100', type: 'projects', attributes: {}, relationships: {} },
+    });
+    const ctx = createTestExecutorContext({ api: { getProject } });
+
+    await expect(listWorkflowStatuses({ projectId: '100' }, ctx)).rejects.toThrow(
+      ExecutorValidationError,
+    );
+  });
+});
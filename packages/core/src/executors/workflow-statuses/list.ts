@@ -0,0 +1,66 @@
+import type { ProductiveWorkflowStatus } from '@studiometa/productive-api';
+
+import { WORKFLOW_STATUS_CATEGORY } from '@studiometa/productive-api';
+
+import type { ExecutorContext } from '../../context/types.js';
+import type { ExecutorResult } from '../types.js';
+import type { ListWorkflowStatusesOptions } from './types.js';
+
+import { ExecutorValidationError } from '../errors.js';
+import { buildListParams } from '../types.js';
+
+export function buildWorkflowStatusFilters(
+  options: ListWorkflowStatusesOptions,
+): Record<string, string> {
+  const filter: Record<string, string> = {};
+
+  if (options.additionalFilters) Object.assign(filter, options.additionalFilters);
+  if (options.workflowId) filter.workflow_id = options.workflowId;
+
+  if (options.category) {
+    const category = options.category.toLowerCase().replaceAll('-', '_');
+    const mapped = WORKFLOW_STATUS_CATEGORY.toValue(category);
+    if (mapped !== category) filter.category_id = mapped;
+  }
+
+  return filter;
+}
+
+/**
+ * Find the workflow a project uses for its tasks.
+ */
+async function getProjectWorkflowId(projectId: string, ctx: ExecutorContext): Promise<string> {
+  const resolvedId = await ctx.resolver.resolveValue(projectId, 'project');
+  const project = await ctx.api.getProject(resolvedId, { include: ['workflow'] });
+  const workflowId = project.data.relationships?.workflow?.data?.id;
+
+  if (!workflowId) {
+    throw new ExecutorValidationError(`Project ${resolvedId} has no workflow`, 'projectId');
+  }
+
+  return workflowId;
+}
+
+export async function listWorkflowStatuses(
+  options: ListWorkflowStatusesOptions,
+  ctx: ExecutorContext,
+): Promise<ExecutorResult<ProductiveWorkflowStatus[]>> {
+  const workflowId =
+    options.workflowId ??
+    (options.projectId ? await getProjectWorkflowId(options.projectId, ctx) : undefined);
+
+  const filter = buildWorkflowStatusFilters({ ...options, workflowId });
+
+  const response = await ctx.api.getWorkflowStatuses({
+    ...buildListParams(options),
+    // Position is the kanban column order
+    sort: options.sort ?? 'position',
+    filter,
+  });
+
+  return {
+    data: response.data,
+    meta: response.meta,
+    included: response.included,
+  };
+}
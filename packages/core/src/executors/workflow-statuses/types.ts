@@ -0,0 +1,34 @@
+import type { PaginationOptions } from '../types.js';
+
+export interface ListWorkflowStatusesOptions extends PaginationOptions {
+  workflowId?: string;
+  /** Look up the statuses of the workflow used by this project */
+  projectId?: string;
+  /** Category: 'not_started' | 'started' | 'closed' */
+  category?: string;
+  additionalFilters?: Record<string, string>;
+}
+
+export interface GetWorkflowStatusOptions {
+  id: string;
+  include?: string[];
+}
+
+export interface CreateWorkflowStatusOptions {
+  name: string;
+  workflowId: string;
+  /** Category label ('not_started' | 'started' | 'closed') or ID */
+  category: string;
+  position?: number;
+  colorId?: number;
+}
+
+export interface UpdateWorkflowStatusOptions {
+  id: string;
+  name?: string;
+  /** Category label ('not_started' | 'started' | 'closed') or ID */
+  category?: string;
+  /** Reorder the status within its workflow (kanban column order) */
+  position?: number;
+  colorId?: number;
+}
@@ -0,0 +1,25 @@
+import { describe, expect, it, vi } from 'vitest';
+
+import { createTestExecutorContext } from '../../context/test-utils.js';
+import { ExecutorValidationError } from '../errors.js';
+import { updateWorkflowStatus } from './update.js';
+
+describe('updateWorkflowStatus', () => {
+  it('reorders and recategorises a status', async () => {
+    const updateWorkflowStatusApi = vi
+      .fn()
+      .mockResolvedValue({ data: { id: '5', type: 'workflow_statuses', attributes: {} } });
+    const ctx = createTestExecutorContext({
+      api: { updateWorkflowStatus: updateWorkflowStatusApi },
+    });
+
+    await updateWorkflowStatus({ id: '5', position: 1, category: 'closed' }, ctx);
+
+    expect(updateWorkflowStatusApi).toHaveBeenCalledWith('5', { position: 1, category_id: 3 });
+  });
+
+  it('throws when no fields are given', async () => {
+    const ctx = createTestExecutorContext();
+    await expect(updateWorkflowStatus({ id: '5' }, ctx)).rejects.toThrow(ExecutorValidationError);
+  });
+});
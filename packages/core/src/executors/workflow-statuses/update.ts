@@ -0,0 +1,32 @@
+import type { ProductiveWorkflowStatus } from '@studiometa/productive-api';
+
+import type { ExecutorContext } from '../../context/types.js';
+import type { ExecutorResult } from '../types.js';
+import type { UpdateWorkflowStatusOptions } from './types.js';
+
+import { ExecutorValidationError } from '../errors.js';
+import { parseWorkflowStatusCategory } from './create.js';
+
+export async function updateWorkflowStatus(
+  options: UpdateWorkflowStatusOptions,
+  ctx: ExecutorContext,
+): Promise<ExecutorResult<ProductiveWorkflowStatus>> {
+  const data: Record<string, string | number | undefined> = {};
+
+  if (options.name !== undefined) data.name = options.name;
+  if (options.category !== undefined) {
+    data.category_id = parseWorkflowStatusCategory(options.category);
+  }
+  if (options.position !== undefined) data.position = options.position;
+  if (options.colorId !== undefined) data.color_id = options.colorId;
+
+  if (Object.keys(data).length === 0) {
+    throw new ExecutorValidationError(
+      'No updates specified. Provide at least one field to update',
+      'options',
+    );
+  }
+
+  const response = await ctx.api.updateWorkflowStatus(options.id, data);
+  return { data: response.data };
+}
@@ -165,4 +165,59 @@ describe('logDay', () => {
     expect(result.data.total_minutes_logged).toBe(0);
     expect(result.data.entries.every((e) => !e.success)).toBe(true);
   });
+
+  it('warns when time is logged on a public holiday', async () => {
+    const createTimeEntry = vi.fn().mockResolvedValue(mockTimeEntryResponse('te-1'));
+    const getSalaries = vi.fn().mockResolvedValue({
+      data: [
+        {
+          id: '1',
+          type: 'salaries',
+          attributes: { started_on: '2026-01-01', ended_on: null },
+          relationships: { holiday_calendar: { data: { type: 'holiday_calendars', id: '5' } } },
+        },
+      ],
+    });
+    const getHolidays = vi.fn().mockResolvedValue({
+      data: [
+        {
+          id: '9',
+          type: 'holidays',
+          attributes: { name: 'Labour Day', date: '2026-05-01' },
+          relationships: { holiday_calendar: { data: { type: 'holiday_calendars', id: '5' } } },
+        },
+      ],
+    });
+    const ctx = createTestExecutorContext({
+      api: { createTimeEntry, getSalaries, getHolidays },
+      config: { userId: 'user-1', organizationId: 'org-1' },
+    });
+
+    const result = await logDay(
+      { entries: [baseEntries[0], { ...baseEntries[1], date: '2026-05-04' }], date: '2026-05-01' },
+      ctx,
+    );
+
+    expect(getHolidays).toHaveBeenCalledWith({
+      page: 1,
+      perPage: 200,
+      filter: { holiday_calendar_id: '5', after: '2026-05-01', before: '2026-05-04' },
+    });
+    expect(result.data.succeeded).toBe(2);
+    expect(result.data.warnings).toEqual(['2026-05-01 is a public holiday (Labour Day)']);
+  });
+
+  it('logs without warnings when the holiday lookup fails', async () => {
+    const createTimeEntry = vi.fn().mockResolvedValue(mockTimeEntryResponse('te-1'));
+    const getSalaries = vi.fn().mockRejectedValue(new Error('Forbidden'));
+    const ctx = createTestExecutorContext({
+      api: { createTimeEntry, getSalaries },
+      config: { userId: 'user-1', organizationId: 'org-1' },
+    });
+
+    const result = await logDay({ entries: [baseEntries[0]], date: '2026-05-01' }, ctx);
+
+    expect(result.data.succeeded).toBe(1);
+    expect(result.data.warnings).toBeUndefined();
+  });
 });
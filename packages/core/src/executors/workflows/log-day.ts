@@ -3,6 +3,7 @@
  *
  * Accepts a structured list of time entry definitions and creates all entries
  * in parallel. Individual failures are isolated — partial results are returned.
+ * Entries logged on one of the person's public holidays produce a warning.
  *
  * Example use: "Log 2h on project A and 1h on project B for today"
  */
@@ -11,13 +12,25 @@ import type { ExecutorContext } from '../../context/types.js';
 import type { ExecutorResult } from '../types.js';
 import type { LogDayOptions, LogDayResult, LogDayEntryResult } from './types.js';
 
+import { getDateService } from '../../dates/date-service.js';
 import { ExecutorValidationError } from '../errors.js';
+import { getPersonHolidays } from '../holidays/person.js';
 
 /**
- * Get today's date in YYYY-MM-DD format.
+ * Build holiday warnings for the dates time was logged on. Best effort: the
+ * lookup needs access to salaries and holidays, so any failure yields none.
  */
-function getToday(): string {
-  return new Date().toISOString().split('T')[0];
+async function getHolidayWarnings(
+  personId: string,
+  dates: string[],
+  ctx: ExecutorContext,
+): Promise<string[]> {
+  try {
+    const holidays = await getPersonHolidays(personId, dates, ctx);
+    return [...holidays].map(([date, name]) => `${date} is a public holiday (${name})`);
+  } catch {
+    return [];
+  }
 }
 
 /**
@@ -35,7 +48,7 @@ export async function logDay(
     );
   }
 
-  const defaultDate = options.date ?? getToday();
+  const defaultDate = options.date ?? getDateService(ctx).today();
   const personId = options.personId ?? ctx.config.userId;
 
   if (!personId) {
@@ -120,5 +133,12 @@ export async function logDay(
     total_minutes_logged: totalMinutes,
   };
 
+  const warnings = await getHolidayWarnings(
+    personId,
+    entryResults.filter((r) => r.success).map((r) => r.date),
+    ctx,
+  );
+  if (warnings.length > 0) result.warnings = warnings;
+
   return { data: result };
 }
@@ -77,6 +77,8 @@ export interface LogDayResult {
   succeeded: number;
   failed: number;
   total_minutes_logged: number;
+  /** Non-blocking notices, e.g. time logged on a public holiday */
+  warnings?: string[];
 }
 
 // ---------------------------------------------------------------------------
@@ -86,7 +88,10 @@ export interface LogDayResult {
 export interface WeeklyStandupOptions {
   /** Person to generate standup for (defaults to current user) */
   personId?: string;
-  /** ISO date for the Monday of the week (defaults to this Monday) */
+  /**
+   * ISO date for the Monday of the week (defaults to this Monday), or an
+   * expression like "last week" or "2026-W42" for the week it falls in.
+   */
   weekStart?: string;
 }
 
@@ -1,6 +1,7 @@
 import { describe, expect, it, vi } from 'vitest';
 
 import { createTestExecutorContext } from '../../context/test-utils.js';
+import { createDateService } from '../../dates/date-service.js';
 import { ExecutorValidationError } from '../errors.js';
 import { weeklyStandup } from './weekly-standup.js';
 
@@ -229,6 +230,22 @@ describe('weeklyStandup', () => {
     expect(result.data.week.end).toBe('2026-02-22');
   });
 
+  it('resolves weekStart expressions to the Monday of their week', async () => {
+    const getTasks = vi.fn().mockResolvedValue({ data: [], meta: {}, included: [] });
+    const getTimeEntries = vi.fn().mockResolvedValue({ data: [], meta: {}, included: [] });
+
+    const ctx = createTestExecutorContext({
+      api: { getTasks, getTimeEntries },
+      config: { userId: 'user-1', organizationId: 'org-1' },
+      dates: createDateService({ timezone: 'UTC', clock: () => new Date('2026-10-21T12:00:00Z') }),
+    });
+
+    const result = await weeklyStandup({ weekStart: 'last week' }, ctx);
+
+    expect(result.data.week).toEqual({ start: '2026-10-12', end: '2026-10-18' });
+    expect(result.dates).toEqual({ weekStart: { input: 'last week', date: '2026-10-12' } });
+  });
+
   it('passes correct filters to API calls', async () => {
     const getTasks = vi.fn().mockResolvedValue({ data: [], meta: {}, included: [] });
     const getTimeEntries = vi.fn().mockResolvedValue({ data: [], meta: {}, included: [] });
@@ -14,6 +14,7 @@ import type { IncludedResource } from '@studiometa/productive-api';
 import { TASK_STATUS } from '@studiometa/productive-api';
 
 import type { ExecutorContext } from '../../context/types.js';
+import type { ResolvedDate } from '../../dates/filters.js';
 import type { ExecutorResult } from '../types.js';
 import type {
   WeeklyStandupOptions,
@@ -23,31 +24,12 @@ import type {
   StandupUpcomingTask,
 } from './types.js';
 
+import { getDateService } from '../../dates/date-service.js';
+import { resolveDateExpression } from '../../dates/filters.js';
 import { ExecutorValidationError } from '../errors.js';
 
 const MAX_ITEMS = 50;
 
-/**
- * Get this Monday's date in YYYY-MM-DD format.
- */
-function getThisMonday(): string {
-  const today = new Date();
-  const day = today.getDay(); // 0=Sunday, 1=Monday, …
-  const diff = day === 0 ? -6 : 1 - day; // How many days to go back to Monday
-  const monday = new Date(today);
-  monday.setDate(today.getDate() + diff);
-  return monday.toISOString().split('T')[0];
-}
-
-/**
- * Add N days to a YYYY-MM-DD string, returning YYYY-MM-DD.
- */
-function addDays(date: string, days: number): string {
-  const d = new Date(date);
-  d.setDate(d.getDate() + days);
-  return d.toISOString().split('T')[0];
-}
-
 /**
  * Difference in calendar days between two YYYY-MM-DD strings.
  * Positive = toDate is in the future.
@@ -90,10 +72,23 @@ export async function weeklyStandup(
     );
   }
 
-  const weekStart = options.weekStart ?? getThisMonday();
-  const weekEnd = addDays(weekStart, 6); // Sunday
-  const today = new Date().toISOString().split('T')[0];
-  const nextWeek = addDays(today, 7);
+  const dates = getDateService(ctx);
+  const today = dates.today();
+  const resolvedDates: Record<string, ResolvedDate> = {};
+  let weekStart = dates.startOfWeek(today);
+  if (options.weekStart) {
+    weekStart = resolveDateExpression(
+      'weekStart',
+      options.weekStart,
+      'start',
+      dates,
+      resolvedDates,
+    );
+    // Expressions name a week or a day in it; literal dates start the week as given
+    if (resolvedDates.weekStart) weekStart = dates.startOfWeek(weekStart);
+  }
+  const weekEnd = dates.addDays(weekStart, 6); // Sunday
+  const nextWeek = dates.addDays(today, 7);
 
   // Parallel fetch all data
   const [closedTasksRes, timeEntriesRes, upcomingTasksRes] = await Promise.all([
@@ -105,7 +100,7 @@ export async function weeklyStandup(
         assignee_id: userId,
         status: TASK_STATUS.CLOSED,
         due_date_after: weekStart,
-        due_date_before: addDays(weekEnd, 1), // exclusive upper bound
+        due_date_before: dates.addDays(weekEnd, 1), // exclusive upper bound
       },
       include: ['project'],
       sort: '-closed_at',
@@ -131,7 +126,7 @@ export async function weeklyStandup(
         assignee_id: userId,
         status: TASK_STATUS.OPEN,
         due_date_after: today,
-        due_date_before: addDays(nextWeek, 1), // exclusive upper bound
+        due_date_before: dates.addDays(nextWeek, 1), // exclusive upper bound
       },
       include: ['project'],
       sort: 'due_date',
@@ -206,7 +201,7 @@ export async function weeklyStandup(
 
   const result: WeeklyStandupResult = {
     workflow: 'weekly_standup',
-    generated_at: new Date().toISOString(),
+    generated_at: dates.now().toISOString(),
     person_id: userId,
     week: {
       start: weekStart,
@@ -226,5 +221,8 @@ export async function weeklyStandup(
     },
   };
 
-  return { data: result };
+  return {
+    data: result,
+    dates: Object.keys(resolvedDates).length > 0 ? resolvedDates : undefined,
+  };
 }
@@ -29,6 +29,26 @@ export {
   type FromHandlerContextOptions,
 } from './context/index.js';
 
+// Date service
+export {
+  createDateService,
+  getDateService,
+  getSystemTimezone,
+  isValidTimezone,
+  parseDateExpression,
+  resolveDateExpression,
+  resolveDateFilters,
+} from './dates/index.js';
+export type {
+  Clock,
+  DateEdge,
+  DateRange,
+  DateService,
+  DateServiceOptions,
+  ResolvedDate,
+  ResolvedDateFilters,
+} from './dates/index.js';
+
 // Resource resolver
 export {
   createResourceResolver,
@@ -56,19 +76,46 @@ export { ExecutorValidationError } from './executors/errors.js';
 
 // Time executors
 export {
+  approveTimeEntry,
   buildTimeEntryFilters,
   createTimeEntry,
   deleteTimeEntry,
+  detectTimesheetFormat,
+  getApprovalQueue,
   getTimeEntry,
+  importTimeEntries,
   listTimeEntries,
+  parseDuration,
+  parseTimesheet,
+  parseTimesheetCsv,
+  parseTimesheetIcs,
+  parseTimesheetJson,
+  rejectTimeEntry,
+  submitTimesheets,
+  unapproveTimeEntry,
   updateTimeEntry,
 } from './executors/time/index.js';
 export type {
+  ApprovalQueue,
+  ApprovalQueueOptions,
+  ApprovalQueuePerson,
+  ApproveTimeEntryOptions,
   CreateTimeEntryOptions,
   DeleteTimeEntryOptions,
   DeleteResult,
   GetTimeEntryOptions,
+  ImportRowResult,
+  ImportRowStatus,
+  ImportTimeEntriesOptions,
+  ImportTimeEntriesResult,
   ListTimeEntriesOptions,
+  RejectTimeEntryOptions,
+  SubmitTimesheetsOptions,
+  SubmitTimesheetsResult,
+  SubmittedDay,
+  TimesheetFormat,
+  TimesheetParseResult,
+  TimesheetRow,
   UpdateTimeEntryOptions,
 } from './executors/time/index.js';
 
@@ -131,8 +178,11 @@ export type {
 export {
   buildDealFilters,
   createDeal,
+  DEFAULT_FORECAST_LOOKBACK_DAYS,
   getDeal,
   getDealContext,
+  getDealForecast,
+  MAX_FORECAST_LOOKBACK_DAYS,
   listDeals,
   updateDeal,
 } from './executors/deals/index.js';
@@ -140,6 +190,7 @@ export type {
   CreateDealOptions,
   DealContextResult,
   GetDealContextOptions,
+  GetDealForecastOptions,
   GetDealOptions,
   ListDealsOptions,
   UpdateDealOptions,
@@ -242,6 +293,133 @@ export type {
   UpdateDiscussionOptions,
 } from './executors/discussions/index.js';
 
+// Invoices executors
+export {
+  buildInvoiceFilters,
+  createInvoice,
+  finalizeInvoice,
+  getInvoice,
+  listInvoices,
+  listLineItems,
+  updateInvoice,
+} from './executors/invoices/index.js';
+export type {
+  CreateInvoiceOptions,
+  FinalizeInvoiceOptions,
+  GetInvoiceOptions,
+  ListInvoicesOptions,
+  ListLineItemsOptions,
+  UpdateInvoiceOptions,
+} from './executors/invoices/index.js';
+
+// Expenses executors
+export {
+  amountToCents,
+  approveExpense,
+  buildExpenseFilters,
+  createExpense,
+  getExpense,
+  listExpenses,
+  rejectExpense,
+  updateExpense,
+} from './executors/expenses/index.js';
+export type {
+  ApproveExpenseOptions,
+  CreateExpenseOptions,
+  GetExpenseOptions,
+  ListExpensesOptions,
+  RejectExpenseOptions,
+  UpdateExpenseOptions,
+} from './executors/expenses/index.js';
+
+// Task lists executors
+export {
+  archiveTaskList,
+  buildTaskListFilters,
+  createTaskList,
+  getTaskList,
+  listTaskLists,
+  restoreTaskList,
+  updateTaskList,
+} from './executors/task-lists/index.js';
+export type {
+  ArchiveTaskListOptions,
+  CreateTaskListOptions,
+  GetTaskListOptions,
+  ListTaskListsOptions,
+  RestoreTaskListOptions,
+  UpdateTaskListOptions,
+} from './executors/task-lists/index.js';
+
+// Boards executors
+export {
+  archiveBoard,
+  buildBoardFilters,
+  createBoard,
+  getBoard,
+  listBoards,
+  restoreBoard,
+  updateBoard,
+} from './executors/boards/index.js';
+export type {
+  ArchiveBoardOptions,
+  CreateBoardOptions,
+  GetBoardOptions,
+  ListBoardsOptions,
+  RestoreBoardOptions,
+  UpdateBoardOptions,
+} from './executors/boards/index.js';
+
+// Workflow statuses executors
+export {
+  buildWorkflowStatusFilters,
+  createWorkflowStatus,
+  getWorkflowStatus,
+  listWorkflowStatuses,
+  parseWorkflowStatusCategory,
+  updateWorkflowStatus,
+} from './executors/workflow-statuses/index.js';
+export type {
+  CreateWorkflowStatusOptions,
+  GetWorkflowStatusOptions,
+  ListWorkflowStatusesOptions,
+  UpdateWorkflowStatusOptions,
+} from './executors/workflow-statuses/index.js';
+
+// Absences executors
+export { buildAbsenceFilters, listAbsences } from './executors/absences/index.js';
+export type { ListAbsencesOptions } from './executors/absences/index.js';
+
+// Holidays executors
+export {
+  buildHolidayFilters,
+  getPersonHolidays,
+  listHolidayCalendars,
+  listHolidays,
+} from './executors/holidays/index.js';
+export type {
+  ListHolidayCalendarsOptions,
+  ListHolidaysOptions,
+} from './executors/holidays/index.js';
+
+// Capacity executors
+export { buildCapacityFilters, listCapacity } from './executors/capacity/index.js';
+export type { ListCapacityOptions } from './executors/capacity/index.js';
+
+// Availability executors
+export {
+  computeAvailability,
+  getAvailability,
+  MAX_AVAILABILITY_DAYS,
+} from './executors/availability/index.js';
+export type {
+  AvailabilityResult,
+  AvailabilityTotals,
+  DayAvailability,
+  GetAvailabilityOptions,
+  PersonAvailability,
+} from './executors/availability/index.js';
+
 // Raw API executors
 export { DEFAULT_MAX_PAGES, MAX_MAX_PAGES, readApi, writeApi } from './executors/api/index.js';
 export type {
@@ -287,6 +465,7 @@ export {
 export type {
   MyDaySummaryOptions,
   MyDaySummaryResult,
+  OutTodaySummary,
   PersonTimeSummary,
   ProjectHealthSummaryOptions,
   ProjectHealthSummaryResult,
@@ -313,3 +492,27 @@ export type {
   WeeklyStandupOptions,
   WeeklyStandupResult,
 } from './executors/workflows/index.js';
+
+// Bulk executors
+export { bulkApprove, bulkDelete, bulkUpdate } from './executors/bulk/index.js';
+export type {
+  BulkApprovalAction,
+  BulkApproveOptions,
+  BulkDeleteOptions,
+  BulkItemResult,
+  BulkItemStatus,
+  BulkResource,
+  BulkResult,
+  BulkSelectionOptions,
+  BulkUpdateOptions,
+} from './executors/bulk/index.js';
+
+// Undo executor
+export { canUndo, describeRecordedMutation, undoMutations } from './executors/undo/index.js';
+export type {
+  UndoEntry,
+  UndoItemResult,
+  UndoItemStatus,
+  UndoOptions,
+  UndoResult,
+} from './executors/undo/index.js';
@@ -62,6 +62,13 @@ const mockService = (id: string, name: string) => ({
   relationships: {},
 });
 
+const mockTaskList = (id: string, name: string) => ({
+  id,
+  type: 'task_lists',
+  attributes: { name },
+  relationships: {},
+});
+
 // ============================================================================
 // isNumericId
 // ============================================================================
@@ -271,6 +278,23 @@ describe('resolve', () => {
     );
   });
 
+  it('resolves task list by name within a project, preferring exact matches', async () => {
+    const getTaskLists = vi.fn().mockResolvedValue({
+      data: [mockTaskList('600', 'Sprint 12'), mockTaskList('601', 'Sprint 1')],
+      meta: {},
+    });
+    const api = mockApi({ getTaskLists });
+
+    const results = await resolve(api, 'Sprint 1', { type: 'task_list', projectId: '999' });
+    expect(getTaskLists).toHaveBeenCalledWith(
+      expect.objectContaining({
+        filter: { status: '1', project_id: '999' },
+      }),
+    );
+    expect(results.map((r) => r.id)).toEqual(['601', '600']);
+    expect(results[0]).toMatchObject({ type: 'task_list', label: 'Sprint 1', exact: true });
+  });
+
   it('returns first match when requested', async () => {
     const api = mockApi({
       getPeople: vi.fn().mockResolvedValue({
@@ -479,6 +503,7 @@ describe('FILTER_TYPE_MAPPING', () => {
     expect(FILTER_TYPE_MAPPING.company_id).toBe('company');
     expect(FILTER_TYPE_MAPPING.deal_id).toBe('deal');
     expect(FILTER_TYPE_MAPPING.service_id).toBe('service');
+    expect(FILTER_TYPE_MAPPING.task_list_id).toBe('task_list');
   });
 });
 
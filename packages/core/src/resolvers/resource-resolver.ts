@@ -14,6 +14,8 @@
 
 import type { ProductiveApi } from '@studiometa/productive-api';
 
+import { TASK_LIST_STATUS } from '@studiometa/productive-api';
+
 import type { ResolvableResourceType, ResolvedInfo, ResourceResolver } from '../context/types.js';
 
 // ============================================================================
@@ -317,6 +319,36 @@ async function resolveServiceByName(
   }));
 }
 
+async function resolveTaskListByName(
+  api: ProductiveApi,
+  name: string,
+  projectId?: string,
+): Promise<ResolveResult[]> {
+  const filter: Record<string, string> = { status: TASK_LIST_STATUS.ACTIVE };
+  if (projectId) filter.project_id = projectId;
+
+  const response = await api.getTaskLists({
+    filter,
+    perPage: 200,
+  });
+
+  const nameLower = name.toLowerCase();
+  const matches = response.data.filter((taskList) =>
+    (taskList.attributes.name || '').toLowerCase().includes(nameLower),
+  );
+
+  // Prefer exact name matches so "Sprint 1" does not pick "Sprint 12"
+  return matches
+    .map((taskList) => ({
+      id: taskList.id,
+      type: 'task_list' as const,
+      label: taskList.attributes.name || '',
+      query: name,
+      exact: (taskList.attributes.name || '').toLowerCase() === nameLower,
+    }))
+    .toSorted((a, b) => Number(b.exact) - Number(a.exact));
+}
+
 // ============================================================================
 // Main resolve function
 // ============================================================================
@@ -401,6 +433,10 @@ export async function resolve(
     case 'service':
       results = await resolveServiceByName(api, query, projectId);
       break;
+
+    case 'task_list':
+      results = await resolveTaskListByName(api, query, projectId);
+      break;
   }
 
   if (results.length === 0) {
@@ -430,6 +466,7 @@ export const FILTER_TYPE_MAPPING: Record<string, ResolvableResourceType> = {
   company_id: 'company',
   deal_id: 'deal',
   service_id: 'service',
+  task_list_id: 'task_list',
 };
 
 // ============================================================================
@@ -0,0 +1,22 @@
+/**
+ * Authentication of the operator routes (`/audit`, `/metrics`), each
+ * protected by its own token sent as a bearer token.
+ */
+
+import { timingSafeEqual } from 'node:crypto';
+
+/**
+ * Whether an Authorization header carries the expected bearer token,
+ * compared in constant time.
+ */
+export function bearerTokenMatches(
+  authHeader: string | null | undefined,
+  expected: string,
+): boolean {
+  const provided = authHeader?.match(/^Bearer\s+(.+)$/i)?.[1];
+  if (!provided) return false;
+  const a = Buffer.from(provided);
+  const b = Buffer.from(expected);
+  if (a.length !== b.length) return false;
+  return timingSafeEqual(a, b);
+}
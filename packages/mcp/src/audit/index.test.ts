@@ -0,0 +1,113 @@
+import { describe, expect, it } from 'vitest';
+
+import type { ProductiveCredentials } from '../auth.js';
+
+import { AuditLog, auditToolCall, countApiRequest, handleAuditRequest } from './index.js';
+
+const credentials: ProductiveCredentials = {
+  apiToken: 'secret-token',
+  organizationId: 'org-1',
+  userId: '42',
+};
+
+const ok = { content: [{ type: 'text' as const, text: '{}' }] };
+
+describe('auditToolCall', () => {
+  it('records the call with its API requests', async () => {
+    const log = new AuditLog();
+
+    await auditToolCall(
+      'productive',
+      { resource: 'tasks', action: 'list', filter: { project_id: '1' } },
+      credentials,
+      async () => {
+        countApiRequest();
+        await Promise.resolve();
+        countApiRequest();
+        return ok;
+      },
+      log,
+    );
+
+    const [entry] = log.query();
+    expect(entry).toMatchObject({
+      organization_id: 'org-1',
+      user_id: '42',
+      tool: 'productive',
+      resource: 'tasks',
+      action: 'list',
+      args: { resource: 'tasks', action: 'list', filter: { project_id: '1' } },
+      outcome: 'success',
+      api_calls: 2,
+    });
+    expect(entry.identity).toMatch(/^[0-9a-f]{16}$/);
+    expect(JSON.stringify(entry)).not.toContain('secret-token');
+  });
+
+  it('records error results and thrown errors', async () => {
+    const log = new AuditLog();
+    const failed = {
+      content: [{ type: 'text' as const, text: '**Input Error:** id is required\n\n**Hints:**' }],
+      isError: true,
+    };
+
+    await auditToolCall('productive', {}, credentials, async () => failed, log);
+    await expect(
+      auditToolCall(
+        'api_read',
+        {},
+        credentials,
+        async () => {
+          throw new Error('boom');
+        },
+        log,
+      ),
+    ).rejects.toThrow('boom');
+
+    expect(log.query().map((entry) => [entry.outcome, entry.error])).toEqual([
+      ['error', 'boom'],
+      ['error', 'Input Error: id is required'],
+    ]);
+  });
+
+  it('ignores API requests made outside of an audited call', () => {
+    expect(() => countApiRequest()).not.toThrow();
+  });
+});
+
+describe('AuditLog', () => {
+  it('keeps the most recent entries and forwards them to the sinks', async () => {
+    const written: string[] = [];
+    const log = new AuditLog([{ write: (entry) => void written.push(entry.tool) }], 2);
+
+    for (const tool of ['a', 'b', 'c']) {
+      await auditToolCall(tool, {}, credentials, async () => ok, log);
+    }
+
+    expect(written).toEqual(['a', 'b', 'c']);
+    expect(log.query().map((entry) => entry.tool)).toEqual(['c', 'b']);
+    expect(log.query({ tool: 'b' })).toHaveLength(1);
+  });
+});
+
+describe('handleAuditRequest', () => {
+  const env = { PRODUCTIVE_MCP_AUDIT_TOKEN: 'admin' };
+
+  it('requires the admin token', () => {
+    const params = new URLSearchParams();
+
+    expect(handleAuditRequest(params, 'Bearer admin', {}).status).toBe(404);
+    expect(handleAuditRequest(params, 'Bearer other', env).status).toBe(401);
+    expect(handleAuditRequest(params, null, env).status).toBe(401);
+  });
+
+  it('validates the query', () => {
+    const check = (query: string) =>
+      handleAuditRequest(new URLSearchParams(query), 'Bearer admin', env, new AuditLog()).status;
+
+    expect(check('limit=0')).toBe(400);
+    expect(check('outcome=maybe')).toBe(400);
+    expect(check('since=yesterday')).toBe(400);
+    expect(check('limit=10&outcome=error&since=2026-01-01')).toBe(200);
+  });
+});
@@ -0,0 +1,194 @@
+/**
+ * Audit log of the tool calls served over HTTP.
+ *
+ * Every call is recorded with the caller's hashed credential identity, the
+ * resource and action, redacted arguments, its outcome, latency and the
+ * number of Productive API requests it made. Configured through the
+ * environment:
+ *
+ *   PRODUCTIVE_MCP_AUDIT              sinks, comma-separated: stdout,
+ *                                     file:<path> (JSON Lines) and
+ *                                     syslog[:<socket>] (default /dev/log)
+ *   PRODUCTIVE_MCP_AUDIT_MAX_ENTRIES  entries kept in memory for /audit (default 1000)
+ *   PRODUCTIVE_MCP_AUDIT_TOKEN        admin token of GET /audit; the route
+ *                                     reports 404 without it
+ */
+
+import { AsyncLocalStorage } from 'node:async_hooks';
+
+import type { ProductiveCredentials } from '../auth.js';
+import type { ToolResult } from '../handlers/types.js';
+import type { AuditOutcome, AuditQuery } from './types.js';
+
+import { bearerTokenMatches } from '../admin.js';
+import { credentialNamespace } from '../cache/api-cache.js';
+import { AuditLog } from './log.js';
+import { summarizeArgs } from './redact.js';
+import { createSinks } from './sinks.js';
+
+export { AuditLog } from './log.js';
+export { summarizeArgs } from './redact.js';
+export { createSinks, JsonlFileSink, StdoutSink, SyslogSink } from './sinks.js';
+export type { AuditEntry, AuditOutcome, AuditQuery, AuditSink } from './types.js';
+
+const DEFAULT_MAX_ENTRIES = 1000;
+
+/** Most entries a single `/audit` query returns */
+const MAX_QUERY_LIMIT = 1000;
+
+/** Longest error message kept in an entry */
+const MAX_ERROR_LENGTH = 200;
+
+const OUTCOMES = new Set<string>(['success', 'error']);
+
+export interface AuditConfig {
+  sinks?: string;
+  maxEntries: number;
+  adminToken?: string;
+}
+
+export function resolveAuditConfig(env: NodeJS.ProcessEnv = process.env): AuditConfig {
+  const maxEntries = Number.parseInt(env.PRODUCTIVE_MCP_AUDIT_MAX_ENTRIES ?? '', 10);
+  return {
+    sinks: env.PRODUCTIVE_MCP_AUDIT || undefined,
+    maxEntries: maxEntries > 0 ? maxEntries : DEFAULT_MAX_ENTRIES,
+    adminToken: env.PRODUCTIVE_MCP_AUDIT_TOKEN || undefined,
+  };
+}
+
+let auditLog: AuditLog | null = null;
+
+/**
+ * The process-wide audit log, created from the environment on first use
+ */
+export function getAuditLog(): AuditLog {
+  if (!auditLog) {
+    const config = resolveAuditConfig();
+    auditLog = new AuditLog(createSinks(config.sinks), config.maxEntries);
+  }
+  return auditLog;
+}
+
+/** API request counter of the tool call being audited */
+const callScope = new AsyncLocalStorage<{ apiCalls: number }>();
+
+/**
+ * Add one to the API request count of the tool call being audited. Requests
+ * sent outside `auditToolCall` are not counted.
+ */
+export function countApiRequest(): void {
+  const scope = callScope.getStore();
+  if (scope) scope.apiCalls++;
+}
+
+/**
+ * First line of the error text of a failed result
+ */
+function errorSummary(result: ToolResult): string {
+  const first = result.content.find((item) => item.type === 'text');
+  const line = (first?.type === 'text' ? first.text : '').split('\n')[0].replaceAll('**', '');
+  return line.length > MAX_ERROR_LENGTH ? `${line.slice(0, MAX_ERROR_LENGTH)}…` : line;
+}
+
+/**
+ * Run a tool call and record it in the audit log
+ */
+export async function auditToolCall(
+  tool: string,
+  args: Record<string, unknown>,
+  credentials: ProductiveCredentials,
+  run: () => Promise<ToolResult>,
+  log: AuditLog = getAuditLog(),
+): Promise<ToolResult> {
+  const timestamp = new Date().toISOString();
+  const startedAt = performance.now();
+  const scope = { apiCalls: 0 };
+  let outcome: AuditOutcome = 'error';
+  let error: string | undefined;
+
+  try {
+    const result = await callScope.run(scope, run);
+    if (result.isError) {
+      error = errorSummary(result);
+    } else {
+      outcome = 'success';
+    }
+    return result;
+  } catch (thrown) {
+    error = thrown instanceof Error ? thrown.message : String(thrown);
+    throw thrown;
+  } finally {
+    log.record({
+      timestamp,
+      identity: credentialNamespace(credentials.apiToken, credentials.organizationId),
+      organization_id: credentials.organizationId,
+      ...(credentials.userId && { user_id: credentials.userId }),
+      tool,
+      ...(typeof args.resource === 'string' && { resource: args.resource }),
+      ...(typeof args.action === 'string' && { action: args.action }),
+      args: summarizeArgs(args),
+      outcome,
+      ...(error !== undefined && { error }),
+      latency_ms: Math.round(performance.now() - startedAt),
+      api_calls: scope.apiCalls,
+    });
+  }
+}
+
+export interface AuditRequestResult {
+  status: number;
+  body: unknown;
+}
+
+/**
+ * Core logic of the `GET /audit` route, decoupled from the HTTP framework.
+ *
+ * Query parameters narrow the entries down: `identity`, `user_id`, `tool`,
+ * `resource`, `action`, `outcome`, `since` (ISO 8601) and `limit`.
+ */
+export function handleAuditRequest(
+  params: URLSearchParams,
+  authHeader: string | null | undefined,
+  env: NodeJS.ProcessEnv = process.env,
+  log: AuditLog = getAuditLog(),
+): AuditRequestResult {
+  const { adminToken } = resolveAuditConfig(env);
+  if (!adminToken) {
+    return { status: 404, body: { error: 'Not found' } };
+  }
+
+  if (!bearerTokenMatches(authHeader, adminToken)) {
+    return { status: 401, body: { error: 'Unauthorized' } };
+  }
+
+  const limit = params.has('limit') ? Number(params.get('limit')) : undefined;
+  if (limit !== undefined && (!Number.isInteger(limit) || limit < 1 || limit > MAX_QUERY_LIMIT)) {
+    return {
+      status: 400,
+      body: { error: `limit must be an integer between 1 and ${MAX_QUERY_LIMIT}` },
+    };
+  }
+
+  const outcome = params.get('outcome') ?? undefined;
+  if (outcome !== undefined && !OUTCOMES.has(outcome)) {
+    return { status: 400, body: { error: 'outcome must be success or error' } };
+  }
+
+  const since = params.get('since') ?? undefined;
+  if (since !== undefined && Number.isNaN(Date.parse(since))) {
+    return { status: 400, body: { error: 'since must be an ISO 8601 date' } };
+  }
+
+  const query: AuditQuery = {
+    limit,
+    identity: params.get('identity') ?? undefined,
+    user_id: params.get('user_id') ?? undefined,
+    tool: params.get('tool') ?? undefined,
+    resource: params.get('resource') ?? undefined,
+    action: params.get('action') ?? undefined,
+    outcome: outcome as AuditOutcome | undefined,
+    since,
+  };
+  const entries = log.query(query);
+  return { status: 200, body: { entries, count: entries.length, retained: log.size } };
+}
@@ -0,0 +1,66 @@
+/**
+ * In-memory audit log.
+ */
+
+import type { AuditEntry, AuditQuery, AuditSink } from './types.js';
+
+/** Entries returned by a query without a limit */
+const DEFAULT_QUERY_LIMIT = 100;
+
+/**
+ * Keeps the most recent entries in memory for `/audit` and forwards every
+ * entry to the configured sinks.
+ */
+export class AuditLog {
+  private entries: AuditEntry[] = [];
+
+  constructor(
+    private readonly sinks: AuditSink[] = [],
+    private readonly maxEntries = 1000,
+  ) {}
+
+  record(entry: AuditEntry): void {
+    this.entries.push(entry);
+    if (this.entries.length > this.maxEntries) {
+      this.entries.splice(0, this.entries.length - this.maxEntries);
+    }
+
+    for (const sink of this.sinks) {
+      try {
+        void sink.write(entry);
+      } catch {
+        // Sinks report their own failures
+      }
+    }
+  }
+
+  /**
+   * Recorded entries matching a query, most recent first
+   */
+  query(query: AuditQuery = {}): AuditEntry[] {
+    const since = query.since ? Date.parse(query.since) : Number.NaN;
+    const matching = this.entries.filter(
+      (entry) =>
+        (query.identity === undefined || entry.identity === query.identity) &&
+        (query.user_id === undefined || entry.user_id === query.user_id) &&
+        (query.tool === undefined || entry.tool === query.tool) &&
+        (query.resource === undefined || entry.resource === query.resource) &&
+        (query.action === undefined || entry.action === query.action) &&
+        (query.outcome === undefined || entry.outcome === query.outcome) &&
+        (Number.isNaN(since) || Date.parse(entry.timestamp) >= since),
+    );
+    return matching.toReversed().slice(0, query.limit ?? DEFAULT_QUERY_LIMIT);
+  }
+
+  get size(): number {
+    return this.entries.length;
+  }
+
+  close(): void {
+    for (const sink of this.sinks) sink.close?.();
+  }
+
+  clear(): void {
+    this.entries = [];
+  }
+}
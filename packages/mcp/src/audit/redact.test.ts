@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+
+import { summarizeArgs } from './redact.js';
+
+describe('summarizeArgs', () => {
+  it('drops secrets and reduces free text to its length', () => {
+    expect(
+      summarizeArgs({
+        resource: 'comments',
+        action: 'create',
+        task_id: '5',
+        body: 'Hello there',
+        apiToken: 'abc',
+        entries: [{ service_id: '1', note: 'Meeting' }],
+      }),
+    ).toEqual({
+      resource: 'comments',
+      action: 'create',
+      task_id: '5',
+      body: '[11 chars]',
+      apiToken: '[redacted]',
+      entries: [{ service_id: '1', note: '[7 chars]' }],
+    });
+  });
+
+  it('redacts non-string bodies and truncates long strings', () => {
+    const summary = summarizeArgs({ body: { data: {} }, title: 'x'.repeat(150) });
+
+    expect(summary.body).toBe('[redacted]');
+    expect(summary.title).toBe(`${'x'.repeat(100)}…`);
+  });
+
+  it('elides deeply nested values', () => {
+    expect(summarizeArgs({ filter: { a: { b: { c: { d: 1 } } } } })).toEqual({
+      filter: { a: { b: { c: '[object]' } } },
+    });
+  });
+});
@@ -0,0 +1,59 @@
+/**
+ * Argument summaries for the audit log.
+ *
+ * Entries end up in files and log pipelines with a wider audience than the
+ * Productive data itself, so secrets are dropped and free text (comment
+ * bodies, notes, scripts…) is reduced to its length.
+ */
+
+const SECRET_KEY = /token|secret|password|authorization|api_?key/i;
+
+/** Arguments holding free text or request bodies */
+const BODY_KEYS = new Set([
+  'body',
+  'code',
+  'comment',
+  'content',
+  'description',
+  'note',
+  'reason',
+  'subject',
+]);
+
+/** Longest string kept as is */
+const MAX_STRING_LENGTH = 100;
+
+/** Deepest nesting summarized; deeper values are elided */
+const MAX_DEPTH = 3;
+
+function summarizeValue(key: string, value: unknown, depth: number): unknown {
+  if (value === undefined || value === null) return value;
+  if (SECRET_KEY.test(key)) return '[redacted]';
+  if (BODY_KEYS.has(key)) {
+    return typeof value === 'string' ? `[${value.length} chars]` : '[redacted]';
+  }
+
+  if (typeof value === 'string') {
+    return value.length > MAX_STRING_LENGTH ? `${value.slice(0, MAX_STRING_LENGTH)}…` : value;
+  }
+  if (typeof value !== 'object') return value;
+  if (depth >= MAX_DEPTH) return Array.isArray(value) ? `[${value.length} items]` : '[object]';
+
+  if (Array.isArray(value)) {
+    return value.map((item) => summarizeValue(key, item, depth + 1));
+  }
+  return summarizeObject(value as Record<string, unknown>, depth + 1);
+}
+
+function summarizeObject(value: Record<string, unknown>, depth: number): Record<string, unknown> {
+  return Object.fromEntries(
+    Object.entries(value).map(([key, item]) => [key, summarizeValue(key, item, depth)]),
+  );
+}
+
+/**
+ * Tool arguments fit for the audit log
+ */
+export function summarizeArgs(args: Record<string, unknown>): Record<string, unknown> {
+  return summarizeObject(args, 0);
+}
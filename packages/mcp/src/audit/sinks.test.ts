@@ -0,0 +1,104 @@
+import type { Socket } from 'node:net';
+
+import { EventEmitter } from 'node:events';
+import { mkdtemp, readFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+import type { AuditEntry } from './types.js';
+
+import { createSinks, JsonlFileSink, StdoutSink, SyslogSink } from './sinks.js';
+
+const entry: AuditEntry = {
+  timestamp: '2026-10-19T10:00:00.000Z',
+  identity: 'abcd',
+  organization_id: '1',
+  tool: 'productive',
+  args: {},
+  outcome: 'success',
+  latency_ms: 12,
+  api_calls: 1,
+};
+
+class FakeSocket extends EventEmitter {
+  written: string[] = [];
+  write(data: string) {
+    this.written.push(data);
+    return true;
+  }
+  unref() {
+    return this;
+  }
+  end() {
+    return this;
+  }
+}
+
+describe('JsonlFileSink', () => {
+  let dir: string | undefined;
+
+  afterEach(async () => {
+    if (dir) await rm(dir, { recursive: true, force: true });
+  });
+
+  it('appends one JSON document per line', async () => {
+    dir = await mkdtemp(join(tmpdir(), 'productive-audit-'));
+    const sink = new JsonlFileSink(join(dir, 'audit.jsonl'));
+
+    void sink.write(entry);
+    await sink.write({ ...entry, tool: 'api_read' });
+
+    const lines = (await readFile(sink.path, 'utf8')).trim().split('\n');
+    expect(lines.map((line) => JSON.parse(line).tool)).toEqual(['productive', 'api_read']);
+  });
+
+  it('reports write failures once', async () => {
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const sink = new JsonlFileSink('/nonexistent/dir/audit.jsonl');
+
+    await sink.write(entry);
+    await sink.write(entry);
+
+    expect(error).toHaveBeenCalledTimes(1);
+    error.mockRestore();
+  });
+});
+
+describe('SyslogSink', () => {
+  it('sends RFC 5424 messages and reconnects after an error', () => {
+    const sockets: FakeSocket[] = [];
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const sink = new SyslogSink('/dev/log', () => {
+      const socket = new FakeSocket();
+      sockets.push(socket);
+      return socket as unknown as Socket;
+    });
+
+    sink.write(entry);
+    sockets[0].emit('error', new Error('ECONNREFUSED'));
+    sink.write(entry);
+
+    expect(sockets).toHaveLength(2);
+    expect(sockets[0].written[0]).toMatch(
+      /^<134>1 2026-10-19T10:00:00\.000Z \S+ productive-mcp \d+ audit - \{"timestamp"/,
+    );
+    error.mockRestore();
+  });
+});
+
+describe('createSinks', () => {
+  it('parses the sink list', () => {
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    const sinks = createSinks('stdout, file:/var/log/audit.jsonl,syslog:/run/syslog.sock,kafka');
+
+    expect(sinks[0]).toBeInstanceOf(StdoutSink);
+    expect(sinks[1]).toMatchObject({ path: '/var/log/audit.jsonl' });
+    expect(sinks[2]).toMatchObject({ path: '/run/syslog.sock' });
+    expect(sinks).toHaveLength(3);
+    expect(error).toHaveBeenCalledWith('Audit log: ignoring unknown sink "kafka"');
+    expect(createSinks(undefined)).toEqual([]);
+    error.mockRestore();
+  });
+});
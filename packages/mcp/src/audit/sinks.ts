@@ -0,0 +1,118 @@
+/**
+ * Audit sinks: where entries go besides the in-memory log served by `/audit`.
+ *
+ * Each sink writes one JSON document per entry. Write errors are reported
+ * once on stderr and otherwise ignored, so that an unavailable log
+ * destination never takes tool calls down with it.
+ */
+
+import { appendFile } from 'node:fs/promises';
+import { createConnection, type Socket } from 'node:net';
+import { hostname } from 'node:os';
+
+import type { AuditEntry, AuditSink } from './types.js';
+
+/** Default socket of the local syslog daemon */
+export const DEFAULT_SYSLOG_SOCKET = '/dev/log';
+
+/** Facility local0, severity informational */
+const SYSLOG_PRIORITY = 16 * 8 + 6;
+
+function warnOnce(sink: { warned: boolean }, message: string, error: unknown): void {
+  if (sink.warned) return;
+  sink.warned = true;
+  console.error(`${message}: ${error instanceof Error ? error.message : String(error)}`);
+}
+
+/**
+ * Appends entries to a JSON Lines file, in the order they were recorded.
+ */
+export class JsonlFileSink implements AuditSink {
+  warned = false;
+  private pending: Promise<void> = Promise.resolve();
+
+  constructor(readonly path: string) {}
+
+  write(entry: AuditEntry): Promise<void> {
+    this.pending = this.pending
+      .then(() => appendFile(this.path, `${JSON.stringify(entry)}\n`))
+      .catch((error: unknown) => warnOnce(this, `Audit log: cannot write ${this.path}`, error));
+    return this.pending;
+  }
+}
+
+/**
+ * Writes entries to stdout, for deployments collecting container logs.
+ * Not usable in stdio mode, where stdout carries the protocol.
+ */
+export class StdoutSink implements AuditSink {
+  write(entry: AuditEntry): void {
+    process.stdout.write(`${JSON.stringify(entry)}\n`);
+  }
+}
+
+/**
+ * Sends entries to a local syslog daemon over a Unix stream socket, as
+ * RFC 5424 messages with the entry as message.
+ */
+export class SyslogSink implements AuditSink {
+  warned = false;
+  private socket: Socket | null = null;
+  private readonly host = hostname();
+
+  constructor(
+    readonly path: string = DEFAULT_SYSLOG_SOCKET,
+    private readonly connect: (path: string) => Socket = (socketPath) =>
+      createConnection(socketPath),
+  ) {}
+
+  write(entry: AuditEntry): void {
+    const message = `<${SYSLOG_PRIORITY}>1 ${entry.timestamp} ${this.host} productive-mcp ${process.pid} audit - ${JSON.stringify(entry)}\n`;
+    this.getSocket().write(message);
+  }
+
+  close(): void {
+    this.socket?.end();
+    this.socket = null;
+  }
+
+  private getSocket(): Socket {
+    if (this.socket) return this.socket;
+
+    const socket = this.connect(this.path);
+    socket.on('error', (error) => {
+      warnOnce(this, `Audit log: cannot write to syslog at ${this.path}`, error);
+      // Reconnect on the next entry
+      if (this.socket === socket) this.socket = null;
+    });
+    socket.unref();
+    this.socket = socket;
+    return socket;
+  }
+}
+
+/**
+ * Create the sinks of a `PRODUCTIVE_MCP_AUDIT` value: a comma-separated list
+ * of `stdout`, `file:<path>` and `syslog[:<socket path>]`. Unknown sinks are
+ * ignored with a warning.
+ */
+export function createSinks(spec: string | undefined): AuditSink[] {
+  const sinks: AuditSink[] = [];
+  for (const item of (spec ?? '').split(',')) {
+    const value = item.trim();
+    if (!value) continue;
+
+    const [kind, ...rest] = value.split(':');
+    const target = rest.join(':');
+    if (kind === 'stdout') {
+      sinks.push(new StdoutSink());
+    } else if (kind === 'file' && target) {
+      sinks.push(new JsonlFileSink(target));
+    } else if (kind === 'syslog') {
+      sinks.push(new SyslogSink(target || DEFAULT_SYSLOG_SOCKET));
+    } else {
+      console.error(`Audit log: ignoring unknown sink "${value}"`);
+    }
+  }
+  return sinks;
+}
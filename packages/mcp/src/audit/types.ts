@@ -0,0 +1,49 @@
+/**
+ * Types of the audit log.
+ */
+
+export type AuditOutcome = 'success' | 'error';
+
+/**
+ * A tool call, as recorded by the audit log
+ */
+export interface AuditEntry {
+  /** ISO 8601 time the call started */
+  timestamp: string;
+  /** Hash of the caller's API token and organization, never the token itself */
+  identity: string;
+  organization_id: string;
+  user_id?: string;
+  tool: string;
+  resource?: string;
+  action?: string;
+  /** Arguments with secrets and free text redacted */
+  args: Record<string, unknown>;
+  outcome: AuditOutcome;
+  /** First line of the error returned to the agent */
+  error?: string;
+  latency_ms: number;
+  /** HTTP requests sent to the Productive API, nested batch operations included */
+  api_calls: number;
+}
+
+/**
+ * Destination of audit entries. Sinks must not throw: a failing sink never
+ * fails a tool call.
+ */
+export interface AuditSink {
+  write(entry: AuditEntry): void | Promise<void>;
+  close?(): void;
+}
+
+export interface AuditQuery {
+  limit?: number;
+  identity?: string;
+  user_id?: string;
+  tool?: string;
+  resource?: string;
+  action?: string;
+  outcome?: AuditOutcome;
+  /** Only entries recorded at or after this ISO 8601 time */
+  since?: string;
+}
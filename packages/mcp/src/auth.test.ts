@@ -50,6 +50,26 @@ describe('parseAuthHeader', () => {
     });
   });
 
+  it('parses a timezone after an optional userId', () => {
+    const token = Buffer.from('myOrg:myToken::Europe/Paris').toString('base64');
+    const result = parseAuthHeader(`Bearer ${token}`);
+
+    expect(result).toEqual({
+      organizationId: 'myOrg',
+      apiToken: 'myToken',
+      userId: undefined,
+      timezone: 'Europe/Paris',
+    });
+  });
+
+  it('ignores an unknown timezone', () => {
+    const token = Buffer.from('myOrg:myToken:myUser:Mars/Olympus').toString('base64');
+    const result = parseAuthHeader(`Bearer ${token}`);
+
+    expect(result?.userId).toBe('myUser');
+    expect(result?.timezone).toBeUndefined();
+  });
+
   it('handles case-insensitive Bearer prefix', () => {
     const token = Buffer.from('org:token').toString('base64');
     const result = parseAuthHeader(`bearer ${token}`);
@@ -94,6 +114,17 @@ describe('createAuthToken', () => {
     expect(decoded).toBe('myOrg:myToken:myUser');
   });
 
+  it('creates token with a timezone and no userId', () => {
+    const token = createAuthToken({
+      organizationId: 'myOrg',
+      apiToken: 'myToken',
+      timezone: 'Europe/Paris',
+    });
+
+    const decoded = Buffer.from(token, 'base64').toString('utf-8');
+    expect(decoded).toBe('myOrg:myToken::Europe/Paris');
+  });
+
   it('roundtrips correctly', () => {
     const original = {
       organizationId: 'org123',
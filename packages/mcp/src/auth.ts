@@ -2,15 +2,20 @@
  * Authentication utilities for Productive MCP server
  */
 
+import { isValidTimezone } from '@studiometa/productive-core';
+
 export interface ProductiveCredentials {
   organizationId: string;
   apiToken: string;
   userId?: string;
+  /** IANA timezone dates such as "today" are derived in */
+  timezone?: string;
 }
 
 /**
  * Parse Bearer token containing Productive credentials
- * Token format: base64(organizationId:apiToken) or base64(organizationId:apiToken:userId)
+ * Token format: base64(organizationId:apiToken), base64(organizationId:apiToken:userId)
+ * or base64(organizationId:apiToken:userId:timezone), userId may be empty
  *
  * @param authHeader - Authorization header value (e.g., "Bearer base64...")
  * @returns Parsed credentials or null if invalid
@@ -37,7 +42,7 @@ export function parseAuthHeader(
       return null;
     }
 
-    const [organizationId, apiToken, userId] = parts;
+    const [organizationId, apiToken, userId, timezone] = parts;
 
     if (!organizationId || !apiToken) {
       return null;
@@ -47,6 +52,8 @@ export function parseAuthHeader(
       organizationId,
       apiToken,
       userId: userId || undefined,
+      // Unknown timezones fall back to the server's rather than rejecting the token
+      timezone: timezone && isValidTimezone(timezone) ? timezone : undefined,
     };
   } catch {
     return null;
@@ -62,8 +69,11 @@ export function parseAuthHeader(
  */
 export function createAuthToken(credentials: ProductiveCredentials): string {
   const parts = [credentials.organizationId, credentials.apiToken];
-  if (credentials.userId) {
-    parts.push(credentials.userId);
+  if (credentials.userId || credentials.timezone) {
+    parts.push(credentials.userId ?? '');
+  }
+  if (credentials.timezone) {
+    parts.push(credentials.timezone);
   }
   return Buffer.from(parts.join(':')).toString('base64');
 }
@@ -0,0 +1,110 @@
+import { describe, expect, it, vi } from 'vitest';
+
+import type { CacheBackend } from './types.js';
+
+import { credentialNamespace, McpApiCache, resourceOf } from './api-cache.js';
+import { LruCacheBackend } from './lru.js';
+
+describe('resourceOf', () => {
+  it.each([
+    ['/time_entries/12', 'time_entries'],
+    ['/tasks', 'tasks'],
+    ['time_entries', 'time_entries'],
+  ])('reads %s as %s', (endpoint, resource) => {
+    expect(resourceOf(endpoint)).toBe(resource);
+  });
+});
+
+describe('credentialNamespace', () => {
+  it('differs per token and organization without exposing the token', () => {
+    const ns = credentialNamespace('secret-token', 'org-1');
+    expect(ns).toMatch(/^[0-9a-f]{16}$/);
+    expect(ns).not.toBe(credentialNamespace('secret-token', 'org-2'));
+    expect(ns).not.toBe(credentialNamespace('other-token', 'org-1'));
+  });
+});
+
+describe('McpApiCache', () => {
+  const query = { 'filter[project_id]': '1', 'page[size]': '20' };
+
+  it('returns stored responses and counts hits and misses', async () => {
+    const cache = new McpApiCache(new LruCacheBackend(10), 'ns');
+
+    expect(await cache.getAsync('/tasks', query, 'org')).toBeNull();
+    await cache.setAsync('/tasks', query, 'org', { data: [{ id: '1' }] });
+    const reordered = { 'page[size]': '20', 'filter[project_id]': '1' };
+
+    expect(await cache.getAsync('/tasks', reordered, 'org')).toEqual({ data: [{ id: '1' }] });
+    expect(await cache.getAsync('/tasks', { ...query, 'page[number]': '2' }, 'org')).toBeNull();
+    expect(await cache.stats()).toMatchObject({
+      backend: 'memory',
+      entries: 1,
+      hits: 1,
+      misses: 2,
+      hit_rate: 0.333,
+      writes: 1,
+      max_entries: 10,
+      evictions: 0,
+    });
+  });
+
+  it('uses the TTL of the resource type and skips uncached ones', async () => {
+    const backend = new LruCacheBackend(10);
+    const set = vi.spyOn(backend, 'set');
+    const cache = new McpApiCache(backend, 'ns', { default: 300, tasks: 60, timers: 0 });
+
+    await cache.setAsync('/tasks/1', {}, 'org', {});
+    await cache.setAsync('/projects', {}, 'org', {});
+    await cache.setAsync('/timers', {}, 'org', {});
+
+    expect(set.mock.calls.map(([, , ttl]) => ttl)).toEqual([60_000, 300_000]);
+    expect(await cache.getAsync('/timers', {}, 'org')).toBeNull();
+    expect((await cache.stats()).misses).toBe(0);
+  });
+
+  it('invalidates a resource and the resources depending on it', async () => {
+    const cache = new McpApiCache(new LruCacheBackend(10), 'ns');
+    for (const endpoint of ['/time_entries', '/reports/time_reports', '/services', '/tasks']) {
+      await cache.setAsync(endpoint, {}, 'org', { endpoint });
+    }
+
+    expect(await cache.invalidateAsync('time_entries')).toBe(3);
+    expect(await cache.getAsync('/tasks', {}, 'org')).toEqual({ endpoint: '/tasks' });
+    expect(await cache.getAsync('/services', {}, 'org')).toBeNull();
+    expect((await cache.stats()).invalidations).toBe(1);
+  });
+
+  it('keeps credentials sharing a backend apart', async () => {
+    const backend = new LruCacheBackend(10);
+    const a = new McpApiCache(backend, 'a');
+    const b = new McpApiCache(backend, 'b');
+
+    await a.setAsync('/tasks', {}, 'org', { owner: 'a' });
+    await b.invalidateAsync('tasks');
+
+    expect(await b.getAsync('/tasks', {}, 'org')).toBeNull();
+    expect(await a.getAsync('/tasks', {}, 'org')).toEqual({ owner: 'a' });
+    expect(await a.clear()).toBe(1);
+  });
+
+  it('degrades to misses when the backend fails', async () => {
+    const failing: CacheBackend = {
+      name: 'redis',
+      get: vi.fn().mockRejectedValue(new Error('down')),
+      set: vi.fn().mockRejectedValue(new Error('down')),
+      deleteByPrefix: vi.fn().mockRejectedValue(new Error('down')),
+      count: vi.fn().mockRejectedValue(new Error('down')),
+    };
+    const cache = new McpApiCache(failing, 'ns');
+
+    await cache.setAsync('/tasks', {}, 'org', {});
+    expect(await cache.getAsync('/tasks', {}, 'org')).toBeNull();
+    expect(await cache.invalidateAsync('tasks')).toBe(0);
+    expect(await cache.stats()).toMatchObject({
+      backend: 'redis',
+      entries: 0,
+      misses: 1,
+      errors: 4,
+    });
+  });
+});
@@ -0,0 +1,186 @@
+/**
+ * `ApiCache` implementation for the MCP server.
+ *
+ * One instance per credential: keys are prefixed with a hash of the token and
+ * organization, so no two credentials can read each other's responses even
+ * when they share a backend. Responses are cached per resource type with their
+ * own TTL, and a write to a resource drops that resource's entries (plus the
+ * resources derived from it) through `invalidateAsync`, which `ProductiveApi`
+ * calls after every successful non-GET request.
+ *
+ * Backend failures never fail a request: reads degrade to misses and are
+ * counted under `errors`.
+ */
+
+import type { ApiCache } from '@studiometa/productive-api';
+
+import { createHash } from 'node:crypto';
+
+import type { CacheBackend, CacheStats } from './types.js';
+
+import { recordCacheLookup } from '../telemetry/index.js';
+
+/** Default TTL in seconds per resource type; 0 disables caching */
+export const DEFAULT_TTLS: Record<string, number> = {
+  default: 300,
+  people: 3600,
+  companies: 3600,
+  custom_fields: 3600,
+  workflow_statuses: 3600,
+  holiday_calendars: 3600,
+  projects: 900,
+  services: 900,
+  deals: 900,
+  task_lists: 900,
+  boards: 900,
+  tasks: 120,
+  comments: 120,
+  time_entries: 60,
+  bookings: 60,
+  timers: 0,
+};
+
+/**
+ * Resources whose cached responses depend on another resource: logging time
+ * changes reports and the budgets shown on services and deals, and stopping a
+ * timer writes a time entry.
+ */
+export const DEPENDENT_RESOURCES: Record<string, string[]> = {
+  time_entries: ['reports', 'services', 'deals'],
+  timers: ['time_entries', 'reports'],
+  bookings: ['reports'],
+  expenses: ['deals', 'reports'],
+};
+
+/** First path segment of an endpoint: `/time_entries/12` → `time_entries` */
+export function resourceOf(endpoint: string): string {
+  return endpoint.split('/').find(Boolean) ?? '';
+}
+
+/** Stable, non-reversible namespace for a credential. */
+export function credentialNamespace(apiToken: string, organizationId: string): string {
+  return createHash('sha256').update(`${organizationId}:${apiToken}`).digest('hex').slice(0, 16);
+}
+
+function queryHash(endpoint: string, query: Record<string, unknown>): string {
+  const sorted = Object.fromEntries(
+    Object.entries(query).toSorted(([a], [b]) => a.localeCompare(b)),
+  );
+  return createHash('sha256')
+    .update(JSON.stringify([endpoint, sorted]))
+    .digest('hex')
+    .slice(0, 24);
+}
+
+export class McpApiCache implements ApiCache {
+  private hits = 0;
+  private misses = 0;
+  private writes = 0;
+  private invalidations = 0;
+  private errors = 0;
+
+  constructor(
+    private backend: CacheBackend,
+    private namespace: string,
+    private ttls: Record<string, number> = DEFAULT_TTLS,
+  ) {}
+
+  /** TTL in seconds of a resource type */
+  ttlOf(resource: string): number {
+    return this.ttls[resource] ?? this.ttls.default ?? DEFAULT_TTLS.default;
+  }
+
+  private key(endpoint: string, query: Record<string, unknown>, orgId: string): string {
+    return `${this.namespace}:${resourceOf(endpoint)}:${queryHash(`${orgId}${endpoint}`, query)}`;
+  }
+
+  async getAsync<T>(
+    endpoint: string,
+    query: Record<string, unknown>,
+    orgId: string,
+  ): Promise<T | null> {
+    if (this.ttlOf(resourceOf(endpoint)) <= 0) return null;
+
+    try {
+      const value = await this.backend.get(this.key(endpoint, query, orgId));
+      recordCacheLookup(resourceOf(endpoint), value !== null);
+      if (value === null) {
+        this.misses++;
+        return null;
+      }
+      this.hits++;
+      return JSON.parse(value) as T;
+    } catch {
+      this.errors++;
+      this.misses++;
+      return null;
+    }
+  }
+
+  async setAsync<T>(
+    endpoint: string,
+    query: Record<string, unknown>,
+    orgId: string,
+    data: T,
+  ): Promise<void> {
+    const ttl = this.ttlOf(resourceOf(endpoint));
+    if (ttl <= 0) return;
+
+    try {
+      await this.backend.set(this.key(endpoint, query, orgId), JSON.stringify(data), ttl * 1000);
+      this.writes++;
+    } catch {
+      this.errors++;
+    }
+  }
+
+  async invalidateAsync(resource: string): Promise<number> {
+    let deleted = 0;
+    for (const target of [resource, ...(DEPENDENT_RESOURCES[resource] ?? [])]) {
+      try {
+        deleted += await this.backend.deleteByPrefix(`${this.namespace}:${target}:`);
+      } catch {
+        this.errors++;
+      }
+    }
+    this.invalidations++;
+    return deleted;
+  }
+
+  /** Entries are namespaced by credential, so the organization needs no tracking. */
+  setOrgId(): void {}
+
+  /** Drop every entry of this credential. */
+  async clear(): Promise<number> {
+    try {
+      return await this.backend.deleteByPrefix(`${this.namespace}:`);
+    } catch {
+      this.errors++;
+      return 0;
+    }
+  }
+
+  async stats(): Promise<CacheStats> {
+    let entries = 0;
+    try {
+      entries = await this.backend.count(`${this.namespace}:`);
+    } catch {
+      this.errors++;
+    }
+
+    const lookups = this.hits + this.misses;
+    return {
+      backend: this.backend.name,
+      entries,
+      hits: this.hits,
+      misses: this.misses,
+      hit_rate: lookups > 0 ? Math.round((this.hits / lookups) * 1000) / 1000 : null,
+      writes: this.writes,
+      invalidations: this.invalidations,
+      errors: this.errors,
+      ...(this.backend.maxEntries !== undefined && { max_entries: this.backend.maxEntries }),
+      ...(this.backend.evictions !== undefined && { evictions: this.backend.evictions }),
+      ttl: { ...DEFAULT_TTLS, ...this.ttls },
+    };
+  }
+}
@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+
+import { CacheRegistry, readCacheStats, resolveCacheConfig } from './index.js';
+
+const credentials = { apiToken: 'token', organizationId: 'org' };
+
+describe('resolveCacheConfig', () => {
+  it('defaults to an in-memory cache', () => {
+    const config = resolveCacheConfig({});
+    expect(config).toMatchObject({ mode: 'memory', maxEntries: 500 });
+    expect(config.ttls.tasks).toBe(120);
+  });
+
+  it('reads the capacity and TTL overrides', () => {
+    const config = resolveCacheConfig({
+      PRODUCTIVE_MCP_CACHE_MAX_ENTRIES: '50',
+      PRODUCTIVE_MCP_CACHE_TTL: 'tasks=30, default=60,broken,people=-1',
+    });
+    expect(config.maxEntries).toBe(50);
+    expect(config.ttls).toMatchObject({ tasks: 30, default: 60, people: 3600 });
+  });
+
+  it('selects redis when a URL is set', () => {
+    expect(resolveCacheConfig({ PRODUCTIVE_MCP_REDIS_URL: 'redis://localhost' }).mode).toBe(
+      'redis',
+    );
+    expect(resolveCacheConfig({ PRODUCTIVE_MCP_CACHE: 'redis' }).mode).toBe('memory');
+    expect(
+      resolveCacheConfig({
+        PRODUCTIVE_MCP_CACHE: 'off',
+        PRODUCTIVE_MCP_REDIS_URL: 'redis://localhost',
+      }).mode,
+    ).toBe('off');
+  });
+});
+
+describe('CacheRegistry', () => {
+  it('gives each credential its own cache', () => {
+    const registry = new CacheRegistry(resolveCacheConfig({}));
+    const cache = registry.forCredentials(credentials);
+
+    expect(registry.forCredentials({ ...credentials })).toBe(cache);
+    expect(registry.forCredentials({ ...credentials, organizationId: 'other' })).not.toBe(cache);
+  });
+
+  it('hands out no cache when disabled', () => {
+    const registry = new CacheRegistry(resolveCacheConfig({ PRODUCTIVE_MCP_CACHE: 'off' }));
+    expect(registry.forCredentials(credentials)).toBeUndefined();
+  });
+});
+
+describe('readCacheStats', () => {
+  it('reports the statistics of the credential cache', async () => {
+    const registry = new CacheRegistry(resolveCacheConfig({}));
+    await registry.forCredentials(credentials)!.setAsync('/tasks', {}, 'org', {});
+
+    expect(await readCacheStats(credentials, registry)).toMatchObject({
+      enabled: true,
+      backend: 'memory',
+      entries: 1,
+      writes: 1,
+    });
+  });
+
+  it('explains how to enable a disabled cache', async () => {
+    const registry = new CacheRegistry(resolveCacheConfig({ PRODUCTIVE_MCP_CACHE: 'off' }));
+    expect(await readCacheStats(credentials, registry)).toMatchObject({ enabled: false });
+  });
+});
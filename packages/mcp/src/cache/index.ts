@@ -0,0 +1,140 @@
+/**
+ * API response cache for the MCP server.
+ *
+ * Every `ProductiveApi` the server builds gets the cache of its credential, so
+ * repeated reads within a session (or across HTTP requests) skip the API.
+ * Configured through the environment:
+ *
+ *   PRODUCTIVE_MCP_CACHE              memory (default), redis or off
+ *   PRODUCTIVE_MCP_CACHE_MAX_ENTRIES  LRU capacity per credential (default 500)
+ *   PRODUCTIVE_MCP_CACHE_TTL          TTL overrides in seconds, e.g. "tasks=60,default=120"
+ *   PRODUCTIVE_MCP_REDIS_URL          redis[s]://[user:password@]host[:port][/db];
+ *                                     selects the redis backend when set
+ *
+ * The memory backend keeps a separate LRU per credential (stdio mode only ever
+ * has one). The Redis backend shares one connection between credentials,
+ * isolated by key namespace, and outlives server restarts — the option for
+ * HTTP deployments running several instances.
+ */
+
+import type { ProductiveCredentials } from '../auth.js';
+import type { CacheBackend } from './types.js';
+
+import { credentialNamespace, DEFAULT_TTLS, McpApiCache } from './api-cache.js';
+import { LruCacheBackend } from './lru.js';
+import { RedisCacheBackend } from './redis.js';
+
+export { McpApiCache, DEFAULT_TTLS, DEPENDENT_RESOURCES } from './api-cache.js';
+export { LruCacheBackend } from './lru.js';
+export { RedisCacheBackend, RespClient } from './redis.js';
+export type { CacheBackend, CacheStats } from './types.js';
+
+const DEFAULT_MAX_ENTRIES = 500;
+
+/** Credentials with an in-memory cache; the least recently used one is dropped beyond it. */
+const MAX_MEMORY_CREDENTIALS = 100;
+
+export interface CacheConfig {
+  mode: 'memory' | 'redis' | 'off';
+  maxEntries: number;
+  ttls: Record<string, number>;
+  redisUrl?: string;
+}
+
+/**
+ * Parse `resource=seconds` pairs, ignoring malformed ones.
+ */
+function parseTtls(value: string | undefined): Record<string, number> {
+  const ttls: Record<string, number> = {};
+  for (const pair of (value ?? '').split(',')) {
+    const [resource, seconds] = pair.split('=').map((part) => part.trim());
+    const parsed = Number(seconds);
+    if (resource && seconds && Number.isFinite(parsed) && parsed >= 0) {
+      ttls[resource] = parsed;
+    }
+  }
+  return ttls;
+}
+
+export function resolveCacheConfig(env: NodeJS.ProcessEnv = process.env): CacheConfig {
+  const redisUrl = env.PRODUCTIVE_MCP_REDIS_URL || undefined;
+  const requested = env.PRODUCTIVE_MCP_CACHE?.toLowerCase();
+  const mode =
+    requested === 'off' || requested === 'memory' || requested === 'redis'
+      ? requested
+      : redisUrl
+        ? 'redis'
+        : 'memory';
+  const maxEntries = Number.parseInt(env.PRODUCTIVE_MCP_CACHE_MAX_ENTRIES ?? '', 10);
+
+  return {
+    // Without a URL there is no Redis to talk to
+    mode: mode === 'redis' && !redisUrl ? 'memory' : mode,
+    maxEntries: maxEntries > 0 ? maxEntries : DEFAULT_MAX_ENTRIES,
+    ttls: { ...DEFAULT_TTLS, ...parseTtls(env.PRODUCTIVE_MCP_CACHE_TTL) },
+    redisUrl,
+  };
+}
+
+/**
+ * Hands out one `McpApiCache` per credential.
+ */
+export class CacheRegistry {
+  private caches = new Map<string, McpApiCache>();
+  private redis: CacheBackend | null = null;
+
+  constructor(readonly config: CacheConfig) {}
+
+  /** The cache of a credential, or `undefined` when caching is off */
+  forCredentials(credentials: ProductiveCredentials): McpApiCache | undefined {
+    if (this.config.mode === 'off') return undefined;
+
+    const namespace = credentialNamespace(credentials.apiToken, credentials.organizationId);
+    const existing = this.caches.get(namespace);
+    if (existing) {
+      // Keep the credential map in LRU order
+      this.caches.delete(namespace);
+      this.caches.set(namespace, existing);
+      return existing;
+    }
+
+    const cache = new McpApiCache(this.backend(), namespace, this.config.ttls);
+    this.caches.set(namespace, cache);
+    if (this.config.mode === 'memory' && this.caches.size > MAX_MEMORY_CREDENTIALS) {
+      this.caches.delete(this.caches.keys().next().value as string);
+    }
+    return cache;
+  }
+
+  private backend(): CacheBackend {
+    if (this.config.mode === 'redis' && this.config.redisUrl) {
+      this.redis ??= RedisCacheBackend.fromUrl(this.config.redisUrl);
+      return this.redis;
+    }
+    return new LruCacheBackend(this.config.maxEntries);
+  }
+}
+
+/** Process-wide registry shared by tool calls and resources. */
+export const cacheRegistry = new CacheRegistry(resolveCacheConfig());
+
+/**
+ * The API cache of a credential, to pass to `new ProductiveApi({ cache })`.
+ */
+export function getApiCache(credentials: ProductiveCredentials): McpApiCache | undefined {
+  return cacheRegistry.forCredentials(credentials);
+}
+
+/**
+ * Cache statistics of a credential, for the `productive://cache` resource.
+ */
+export async function readCacheStats(
+  credentials: ProductiveCredentials,
+  registry: CacheRegistry = cacheRegistry,
+): Promise<Record<string, unknown>> {
+  const cache = registry.forCredentials(credentials);
+  if (!cache) {
+    return { enabled: false, hint: 'Set PRODUCTIVE_MCP_CACHE=memory or redis to enable it' };
+  }
+  return { enabled: true, ...(await cache.stats()) };
+}
@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+
+import { LruCacheBackend } from './lru.js';
+
+describe('LruCacheBackend', () => {
+  it('evicts the least recently used entry beyond its capacity', async () => {
+    const lru = new LruCacheBackend(2);
+    await lru.set('a', '1', 1000);
+    await lru.set('b', '2', 1000);
+    await lru.get('a');
+    await lru.set('c', '3', 1000);
+
+    expect(await lru.get('b')).toBeNull();
+    expect(await lru.get('a')).toBe('1');
+    expect(await lru.get('c')).toBe('3');
+    expect(lru.evictions).toBe(1);
+  });
+
+  it('expires entries after their TTL', async () => {
+    let now = 0;
+    const lru = new LruCacheBackend(10, () => now);
+    await lru.set('a', '1', 1000);
+    await lru.set('b', '2', 5000);
+
+    now = 1000;
+    expect(await lru.get('a')).toBeNull();
+    expect(await lru.count('')).toBe(1);
+  });
+
+  it('deletes and counts by prefix', async () => {
+    const lru = new LruCacheBackend(10);
+    await lru.set('x:tasks:1', '1', 1000);
+    await lru.set('x:tasks:2', '2', 1000);
+    await lru.set('x:projects:1', '3', 1000);
+
+    expect(await lru.deleteByPrefix('x:tasks:')).toBe(2);
+    expect(await lru.count('x:')).toBe(1);
+  });
+});
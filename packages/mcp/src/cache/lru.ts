@@ -0,0 +1,79 @@
+/**
+ * In-memory LRU cache backend.
+ */
+
+import type { CacheBackend } from './types.js';
+
+interface Entry {
+  value: string;
+  expiresAt: number;
+}
+
+/**
+ * Bounded least-recently-used store with per-entry expiry.
+ *
+ * A `Map` keeps insertion order, so re-inserting an entry on read moves it to
+ * the most recent end and the first key is always the one to evict.
+ * Expired entries are dropped lazily, when read or counted.
+ */
+export class LruCacheBackend implements CacheBackend {
+  readonly name = 'memory';
+  private entries = new Map<string, Entry>();
+  private evicted = 0;
+
+  constructor(
+    readonly maxEntries: number,
+    private now: () => number = Date.now,
+  ) {}
+
+  async get(key: string): Promise<string | null> {
+    const entry = this.entries.get(key);
+    if (!entry) return null;
+
+    this.entries.delete(key);
+    if (entry.expiresAt <= this.now()) return null;
+
+    this.entries.set(key, entry);
+    return entry.value;
+  }
+
+  async set(key: string, value: string, ttlMs: number): Promise<void> {
+    this.entries.delete(key);
+    this.entries.set(key, { value, expiresAt: this.now() + ttlMs });
+
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value as string;
+      this.entries.delete(oldest);
+      this.evicted++;
+    }
+  }
+
+  async deleteByPrefix(prefix: string): Promise<number> {
+    let deleted = 0;
+    for (const key of this.entries.keys()) {
+      if (key.startsWith(prefix)) {
+        this.entries.delete(key);
+        deleted++;
+      }
+    }
+    return deleted;
+  }
+
+  async count(prefix: string): Promise<number> {
+    const now = this.now();
+    let count = 0;
+    for (const [key, entry] of this.entries) {
+      if (entry.expiresAt <= now) {
+        this.entries.delete(key);
+      } else if (key.startsWith(prefix)) {
+        count++;
+      }
+    }
+    return count;
+  }
+
+  /** Entries dropped to stay within `maxEntries` */
+  get evictions(): number {
+    return this.evicted;
+  }
+}
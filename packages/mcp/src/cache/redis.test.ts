@@ -0,0 +1,169 @@
+import { createServer, type Server } from 'node:net';
+import { afterEach, describe, expect, it } from 'vitest';
+
+import type { RespValue } from './redis.js';
+
+import { encodeCommand, parseResp, RedisCacheBackend, RespClient } from './redis.js';
+
+/** In-memory stand-in for the few commands the backend sends. */
+function createFakeClient(keys: Record<string, string> = {}) {
+  const store = new Map(Object.entries(keys));
+  const commands: string[][] = [];
+  return {
+    commands,
+    store,
+    async command(args: string[]): Promise<RespValue> {
+      commands.push(args);
+      const [name, ...rest] = args;
+      switch (name) {
+        case 'GET':
+          return store.get(rest[0]) ?? null;
+        case 'SET':
+          store.set(rest[0], rest[1]);
+          return 'OK';
+        case 'DEL':
+          return rest.filter((key) => store.delete(key)).length;
+        case 'SCAN': {
+          const prefix = rest[2].slice(0, -1).replaceAll('\\', '');
+          return ['0', [...store.keys()].filter((key) => key.startsWith(prefix))];
+        }
+        default:
+          throw new Error(`Unexpected command ${name}`);
+      }
+    },
+  };
+}
+
+describe('parseResp', () => {
+  it('parses simple, integer, bulk and array replies', () => {
+    const buffer = Buffer.from(
+      '+OK\r\n:42\r\n$5\r\nhello\r\n$-1\r\n*2\r\n$1\r\n0\r\n*1\r\n$1\r\na\r\n',
+    );
+    const values: RespValue[] = [];
+    let offset = 0;
+    while (offset < buffer.length) {
+      const reply = parseResp(buffer, offset)!;
+      values.push(reply.value as RespValue);
+      offset = reply.offset;
+    }
+
+    expect(values).toEqual(['OK', 42, 'hello', null, ['0', ['a']]]);
+  });
+
+  it('waits for incomplete replies', () => {
+    expect(parseResp(Buffer.from('$5\r\nhel'))).toBeUndefined();
+    expect(parseResp(Buffer.from('*2\r\n$1\r\na\r\n'))).toBeUndefined();
+  });
+
+  it('returns errors as values', () => {
+    const reply = parseResp(Buffer.from('-WRONGPASS invalid password\r\n'))!;
+    expect(reply.value).toBeInstanceOf(Error);
+    expect((reply.value as Error).message).toBe('WRONGPASS invalid password');
+  });
+
+  it('sizes bulk strings in bytes', () => {
+    expect(parseResp(Buffer.from('$3\r\né!\r\n'))?.value).toBe('é!');
+  });
+});
+
+describe('encodeCommand', () => {
+  it('encodes arguments as bulk strings', () => {
+    expect(encodeCommand(['SET', 'k', 'é'])).toBe('*3\r\n$3\r\nSET\r\n$1\r\nk\r\n$2\r\né\r\n');
+  });
+});
+
+describe('RedisCacheBackend', () => {
+  it('stores values with a millisecond expiry under its key prefix', async () => {
+    const client = createFakeClient();
+    const backend = new RedisCacheBackend(client, 'test:');
+
+    await backend.set('ns:tasks:1', '{}', 60_000);
+
+    expect(client.commands[0]).toEqual(['SET', 'test:ns:tasks:1', '{}', 'PX', '60000']);
+    expect(await backend.get('ns:tasks:1')).toBe('{}');
+    expect(await backend.get('ns:tasks:2')).toBeNull();
+  });
+
+  it('counts and deletes by prefix with SCAN', async () => {
+    const client = createFakeClient({
+      'test:ns:tasks:1': '1',
+      'test:ns:tasks:2': '2',
+      'test:ns:projects:1': '3',
+    });
+    const backend = new RedisCacheBackend(client, 'test:');
+
+    expect(await backend.count('ns:')).toBe(3);
+    expect(await backend.deleteByPrefix('ns:tasks:')).toBe(2);
+    expect([...client.store.keys()]).toEqual(['test:ns:projects:1']);
+  });
+
+  it('escapes glob characters in the SCAN pattern', async () => {
+    const client = createFakeClient();
+    await new RedisCacheBackend(client, 'a*[b]:').count('');
+
+    expect(client.commands[0][3]).toBe('a\\*\\[b\\]:*');
+  });
+});
+
+describe('RespClient', () => {
+  let server: Server | undefined;
+
+  afterEach(() => {
+    server?.close();
+  });
+
+  async function listen(onCommand: (data: string) => string): Promise<string> {
+    server = createServer((socket) => {
+      socket.on('data', (data) => socket.write(onCommand(data.toString())));
+    });
+    await new Promise<void>((resolve) => server!.listen(0, '127.0.0.1', resolve));
+    const address = server.address() as { port: number };
+    return `redis://:secret@127.0.0.1:${address.port}/2`;
+  }
+
+  it('authenticates, selects the database and resolves replies in order', async () => {
+    const received: string[] = [];
+    const url = await listen((data) => {
+      received.push(data);
+      return data.includes('GET') ? '$3\r\nbar\r\n' : '+OK\r\n';
+    });
+    const client = new RespClient(new URL(url));
+
+    expect(await client.command(['GET', 'foo'])).toBe('bar');
+    client.close();
+
+    expect(received.join('')).toBe(
+      encodeCommand(['AUTH', 'secret']) +
+        encodeCommand(['SELECT', '2']) +
+        encodeCommand(['GET', 'foo']),
+    );
+  });
+
+  it('fails pending commands on a malformed reply and reconnects', async () => {
+    let connections = 0;
+    server = createServer((socket) => {
+      const connection = ++connections;
+      socket.on('data', (data) => {
+        if (!data.toString().includes('GET')) socket.write('+OK\r\n');
+        else socket.write(connection === 1 ? '?oops\r\n' : '$3\r\nbar\r\n');
+      });
+    });
+    await new Promise<void>((resolve) => server!.listen(0, '127.0.0.1', resolve));
+    const { port } = server.address() as { port: number };
+    const client = new RespClient(new URL(`redis://127.0.0.1:${port}`));
+
+    await expect(client.command(['GET', 'foo'])).rejects.toThrow('Unexpected RESP reply type');
+    expect(await client.command(['GET', 'foo'])).toBe('bar');
+    expect(connections).toBe(2);
+    client.close();
+  });
+
+  it('fails fast once connecting has failed', async () => {
+    const url = await listen(() => '');
+    server!.close();
+    const client = new RespClient(new URL(url), 500);
+
+    await expect(client.command(['GET', 'foo'])).rejects.toThrow();
+    await expect(client.command(['GET', 'foo'])).rejects.toThrow('Redis unavailable');
+  });
+});
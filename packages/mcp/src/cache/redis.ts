@@ -0,0 +1,257 @@
+/**
+ * Redis-compatible cache backend (Redis, Valkey, KeyDB, Dragonfly…).
+ *
+ * Speaks RESP2 over a single lazily opened connection — the handful of
+ * commands the cache needs does not warrant a client dependency. Expiry is
+ * delegated to the server (`SET … PX`), and prefix operations use `SCAN` so
+ * they never block the server the way `KEYS` would.
+ */
+
+import { connect as connectTcp, type Socket } from 'node:net';
+import { connect as connectTls } from 'node:tls';
+
+import type { CacheBackend } from './types.js';
+
+export type RespValue = string | number | null | RespValue[];
+
+class RespError extends Error {
+  override name = 'RespError';
+}
+
+const SCAN_COUNT = '500';
+const DEFAULT_TIMEOUT_MS = 2000;
+/** How long to fail fast after a failed connection instead of retrying */
+const RETRY_DELAY_MS = 30_000;
+
+/**
+ * Parse one RESP2 reply from `buffer` starting at `offset`.
+ * Returns `undefined` until the whole reply has been received.
+ */
+export function parseResp(
+  buffer: Buffer,
+  offset = 0,
+): { value: RespValue | RespError; offset: number } | undefined {
+  const lineEnd = buffer.indexOf('\r\n', offset);
+  if (lineEnd === -1) return undefined;
+
+  const type = String.fromCharCode(buffer[offset]);
+  const line = buffer.toString('utf8', offset + 1, lineEnd);
+  const next = lineEnd + 2;
+
+  switch (type) {
+    case '+':
+      return { value: line, offset: next };
+    case '-':
+      return { value: new RespError(line), offset: next };
+    case ':':
+      return { value: Number(line), offset: next };
+    case '$': {
+      const length = Number(line);
+      if (length === -1) return { value: null, offset: next };
+      if (buffer.length < next + length + 2) return undefined;
+      return { value: buffer.toString('utf8', next, next + length), offset: next + length + 2 };
+    }
+    case '*': {
+      const length = Number(line);
+      if (length === -1) return { value: null, offset: next };
+      const items: RespValue[] = [];
+      let cursor = next;
+      for (let i = 0; i < length; i++) {
+        const item = parseResp(buffer, cursor);
+        if (!item) return undefined;
+        if (item.value instanceof RespError) return item;
+        items.push(item.value);
+        cursor = item.offset;
+      }
+      return { value: items, offset: cursor };
+    }
+    default:
+      throw new RespError(`Unexpected RESP reply type: ${type}`);
+  }
+}
+
+/** Encode a command as a RESP array of bulk strings. */
+export function encodeCommand(args: string[]): string {
+  return `*${args.length}\r\n${args
+    .map((arg) => `$${Buffer.byteLength(arg)}\r\n${arg}\r\n`)
+    .join('')}`;
+}
+
+/**
+ * Minimal pipelined RESP client. Replies arrive in command order, so pending
+ * commands are a FIFO queue. Any socket error or malformed reply fails the
+ * pending commands and drops the connection; the next command reconnects, unless connecting failed
+ * less than `RETRY_DELAY_MS` ago — a down server must not slow every request.
+ */
+export class RespClient {
+  private socket: Socket | null = null;
+  private ready: Promise<void> | null = null;
+  private buffer = Buffer.alloc(0);
+  private retryAt = 0;
+  private pending: Array<{ resolve: (value: RespValue) => void; reject: (e: Error) => void }> = [];
+
+  constructor(
+    private url: URL,
+    private timeoutMs = DEFAULT_TIMEOUT_MS,
+  ) {}
+
+  async command(args: string[]): Promise<RespValue> {
+    await this.connect();
+    return this.send(args);
+  }
+
+  close(): void {
+    this.socket?.destroy();
+    this.reset(new Error('Connection closed'));
+  }
+
+  private send(args: string[]): Promise<RespValue> {
+    return new Promise((resolve, reject) => {
+      this.pending.push({ resolve, reject });
+      this.socket!.write(encodeCommand(args));
+    });
+  }
+
+  private connect(): Promise<void> {
+    if (this.ready) return this.ready;
+    if (Date.now() < this.retryAt) {
+      return Promise.reject(new Error('Redis unavailable, retrying later'));
+    }
+
+    this.ready = new Promise<void>((resolve, reject) => {
+      const port = Number(this.url.port) || 6379;
+      const host = this.url.hostname || '127.0.0.1';
+      const onConnect = () => {
+        socket.setTimeout(0);
+        resolve();
+      };
+      const socket =
+        this.url.protocol === 'rediss:'
+          ? connectTls({ host, port, servername: host }, onConnect)
+          : connectTcp({ host, port }, onConnect);
+
+      socket.setTimeout(this.timeoutMs, () => {
+        socket.destroy(new Error(`Redis connection to ${host}:${port} timed out`));
+      });
+      socket.on('data', (chunk) => this.onData(chunk));
+      socket.on('error', (error) => {
+        reject(error);
+        this.reset(error);
+      });
+      socket.on('close', () => {
+        if (this.socket === socket) this.reset(new Error('Redis connection closed'));
+      });
+      this.socket = socket;
+    })
+      .then(() => this.handshake())
+      .catch((error: unknown) => {
+        this.retryAt = Date.now() + RETRY_DELAY_MS;
+        this.close();
+        throw error;
+      });
+
+    return this.ready;
+  }
+
+  /** AUTH and SELECT from the URL: redis://[user:password@]host[:port][/db] */
+  private async handshake(): Promise<void> {
+    const password = decodeURIComponent(this.url.password);
+    const user = decodeURIComponent(this.url.username);
+    if (password) {
+      await this.send(user ? ['AUTH', user, password] : ['AUTH', password]);
+    }
+    const db = this.url.pathname.replace(/^\//, '');
+    if (db && db !== '0') {
+      await this.send(['SELECT', db]);
+    }
+  }
+
+  private onData(chunk: Buffer): void {
+    this.buffer = Buffer.concat([this.buffer, chunk]);
+    let offset = 0;
+    try {
+      for (;;) {
+        const reply = parseResp(this.buffer, offset);
+        if (!reply) break;
+        offset = reply.offset;
+        const request = this.pending.shift();
+        if (reply.value instanceof RespError) request?.reject(reply.value);
+        else request?.resolve(reply.value);
+      }
+    } catch (error) {
+      // Replies can no longer be matched to commands: drop the connection
+      this.socket?.destroy();
+      this.reset(error as Error);
+      return;
+    }
+    this.buffer = this.buffer.subarray(offset);
+  }
+
+  private reset(error: Error): void {
+    this.socket = null;
+    this.ready = null;
+    this.buffer = Buffer.alloc(0);
+    for (const request of this.pending.splice(0)) {
+      request.reject(error);
+    }
+  }
+}
+
+export class RedisCacheBackend implements CacheBackend {
+  readonly name = 'redis';
+
+  constructor(
+    private client: Pick<RespClient, 'command'>,
+    private keyPrefix = 'productive-mcp:',
+  ) {}
+
+  static fromUrl(url: string, keyPrefix?: string): RedisCacheBackend {
+    return new RedisCacheBackend(new RespClient(new URL(url)), keyPrefix);
+  }
+
+  async get(key: string): Promise<string | null> {
+    const value = await this.client.command(['GET', this.keyPrefix + key]);
+    return typeof value === 'string' ? value : null;
+  }
+
+  async set(key: string, value: string, ttlMs: number): Promise<void> {
+    await this.client.command(['SET', this.keyPrefix + key, value, 'PX', String(ttlMs)]);
+  }
+
+  async deleteByPrefix(prefix: string): Promise<number> {
+    let deleted = 0;
+    for await (const keys of this.scan(prefix)) {
+      if (keys.length > 0) {
+        deleted += Number(await this.client.command(['DEL', ...keys]));
+      }
+    }
+    return deleted;
+  }
+
+  async count(prefix: string): Promise<number> {
+    let count = 0;
+    for await (const keys of this.scan(prefix)) {
+      count += keys.length;
+    }
+    return count;
+  }
+
+  private async *scan(prefix: string): AsyncGenerator<string[]> {
+    // Escape glob characters so the prefix matches literally
+    const pattern = `${(this.keyPrefix + prefix).replace(/[*?[\]\\]/g, '\\$&')}*`;
+    let cursor = '0';
+    do {
+      const reply = await this.client.command([
+        'SCAN',
+        cursor,
+        'MATCH',
+        pattern,
+        'COUNT',
+        SCAN_COUNT,
+      ]);
+      const [next, keys] = reply as [string, string[]];
+      cursor = next;
+      yield keys;
+    } while (cursor !== '0');
+  }
+}
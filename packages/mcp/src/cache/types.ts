@@ -0,0 +1,39 @@
+/**
+ * Shared types for the MCP API cache.
+ */
+
+/**
+ * Key/value store the API cache writes serialized responses to.
+ * Keys are namespaced by credential and resource type, so a prefix
+ * selects one credential's entries, or one resource type of them.
+ */
+export interface CacheBackend {
+  readonly name: 'memory' | 'redis';
+  get(key: string): Promise<string | null>;
+  set(key: string, value: string, ttlMs: number): Promise<void>;
+  /** Delete every key starting with `prefix`, returning how many were removed */
+  deleteByPrefix(prefix: string): Promise<number>;
+  /** Count the live keys starting with `prefix` */
+  count(prefix: string): Promise<number>;
+  /** Capacity and entries evicted for lack of space, for bounded backends */
+  readonly maxEntries?: number;
+  readonly evictions?: number;
+}
+
+/**
+ * Cache statistics of one credential, as exposed by `productive://cache`
+ */
+export interface CacheStats {
+  backend: CacheBackend['name'];
+  entries: number;
+  hits: number;
+  misses: number;
+  hit_rate: number | null;
+  writes: number;
+  invalidations: number;
+  errors: number;
+  evictions?: number;
+  max_entries?: number;
+  /** TTL in seconds per resource type, `default` for the others */
+  ttl: Record<string, number>;
+}
@@ -382,6 +382,7 @@ describe('withIncluded', () => {
       includeRelationshipIds: false,
       includeTimestamps: false,
       stripHtml: true,
+      markdown: true,
       included,
     });
   });
@@ -391,6 +392,7 @@ describe('withIncluded', () => {
       includeRelationshipIds: false,
       includeTimestamps: false,
       stripHtml: true,
+      markdown: true,
       included: undefined,
     });
   });
@@ -24,6 +24,16 @@ import {
   formatDiscussion as cliFormatDiscussion,
   formatActivity as cliFormatActivity,
   formatCustomField as cliFormatCustomField,
+  formatInvoice as cliFormatInvoice,
+  formatLineItem as cliFormatLineItem,
+  formatExpense as cliFormatExpense,
+  formatTaskList as cliFormatTaskList,
+  formatBoard as cliFormatBoard,
+  formatWorkflowStatus as cliFormatWorkflowStatus,
+  formatAbsence as cliFormatAbsence,
+  formatHoliday as cliFormatHoliday,
+  formatHolidayCalendar as cliFormatHolidayCalendar,
+  formatCapacity as cliFormatCapacity,
   formatListResponse as cliFormatListResponse,
   type JsonApiResource,
   type JsonApiMeta,
@@ -38,12 +48,13 @@ export type { JsonApiResource, JsonApiMeta, FormatOptions, FormattedPagination }
  * MCP-specific format options
  * - No relationship IDs (cleaner output for agents)
  * - No timestamps (reduce noise)
- * - HTML stripping enabled
+ * - HTML stripping enabled, rich text (descriptions, comments, pages) as Markdown
  */
 const MCP_FORMAT_OPTIONS: FormatOptions = {
   includeRelationshipIds: false,
   includeTimestamps: false,
   stripHtml: true,
+  markdown: true,
 };
 
 /**
@@ -275,6 +286,131 @@ export function formatCustomField(
   return cliFormatCustomField(field, withIncluded(options));
 }
 
+/**
+ * Format invoice for agent consumption
+ */
+export function formatInvoice(
+  invoice: JsonApiResource,
+  options?: McpFormatOptions,
+): Record<string, unknown> {
+  const result = cliFormatInvoice(invoice, withIncluded(options));
+  if (options?.compact) {
+    return compactify(result, ['note']);
+  }
+  return result;
+}
+
+/**
+ * Format invoice line item for agent consumption
+ */
+export function formatLineItem(
+  lineItem: JsonApiResource,
+  options?: McpFormatOptions,
+): Record<string, unknown> {
+  return cliFormatLineItem(lineItem, withIncluded(options));
+}
+
+/**
+ * Format expense for agent consumption
+ */
+export function formatExpense(
+  expense: JsonApiResource,
+  options?: McpFormatOptions,
+): Record<string, unknown> {
+  const result = cliFormatExpense(expense, withIncluded(options));
+  if (options?.compact) {
+    return compactify(result, ['rejected_reason', 'receipt_count']);
+  }
+  return result;
+}
+
+/**
+ * Format task list for agent consumption
+ */
+export function formatTaskList(
+  taskList: JsonApiResource,
+  options?: McpFormatOptions,
+): Record<string, unknown> {
+  const result = cliFormatTaskList(taskList, withIncluded(options));
+  if (options?.compact) {
+    return compactify(result, ['archived_at']);
+  }
+  return result;
+}
+
+/**
+ * Format board for agent consumption
+ */
+export function formatBoard(
+  board: JsonApiResource,
+  options?: McpFormatOptions,
+): Record<string, unknown> {
+  const result = cliFormatBoard(board, withIncluded(options));
+  if (options?.compact) {
+    return compactify(result, ['archived_at']);
+  }
+  return result;
+}
+
+/**
+ * Format workflow status for agent consumption
+ */
+export function formatWorkflowStatus(
+  status: JsonApiResource,
+  options?: McpFormatOptions,
+): Record<string, unknown> {
+  const result = cliFormatWorkflowStatus(status, withIncluded(options));
+  if (options?.compact) {
+    return compactify(result, ['category_id', 'color_id']);
+  }
+  return result;
+}
+
+/**
+ * Format absence booking for agent consumption
+ */
+export function formatAbsence(
+  absence: JsonApiResource,
+  options?: McpFormatOptions,
+): Record<string, unknown> {
+  const result = cliFormatAbsence(absence, withIncluded(options));
+  if (options?.compact) {
+    return compactify(result, ['note', 'total_time', 'percentage']);
+  }
+  return result;
+}
+
+/**
+ * Format public holiday for agent consumption
+ */
+export function formatHoliday(
+  holiday: JsonApiResource,
+  options?: McpFormatOptions,
+): Record<string, unknown> {
+  return cliFormatHoliday(holiday, withIncluded(options));
+}
+
+/**
+ * Format holiday calendar for agent consumption
+ */
+export function formatHolidayCalendar(calendar: JsonApiResource): Record<string, unknown> {
+  return cliFormatHolidayCalendar(calendar);
+}
+
+/**
+ * Format person capacity (working schedule) for agent consumption
+ */
+export function formatCapacity(
+  salary: JsonApiResource,
+  options?: McpFormatOptions,
+): Record<string, unknown> {
+  const result = cliFormatCapacity(salary, withIncluded(options));
+  if (options?.compact) {
+    return compactify(result, ['alternating_minutes']);
+  }
+  return result;
+}
+
 /**
  * Format list response with pagination
  *
@@ -1,9 +1,10 @@
-import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 
 import type { ProductiveCredentials } from './auth.js';
 
 import { UserInputError } from './errors.js';
 import { executeToolWithCredentials } from './handlers.js';
+import { parsePolicy, setPolicy } from './policy/index.js';
 
 // Mock the ProductiveApi (re-export real constants so core executors work)
 vi.mock('@studiometa/productive-api', async (importOriginal) => {
@@ -62,6 +63,7 @@ vi.mock('@studiometa/productive-api', async (importOriginal) => {
     resolveDiscussion: vi.fn(),
     reopenDiscussion: vi.fn(),
     getActivities: vi.fn(),
+    getExpenses: vi.fn(),
     getCustomFields: vi.fn(),
     getCustomField: vi.fn(),
     getCustomFieldOptions: vi.fn(),
@@ -92,6 +94,9 @@ vi.mock('@studiometa/productive-api', async (importOriginal) => {
       data: data.map((item: Record<string, unknown>) => formatter(item)),
       meta,
     })),
+    markdownToHtml: actual.markdownToHtml,
+    forecastBudget: actual.forecastBudget,
+    BOOKING_TYPE: actual.BOOKING_TYPE,
     // Re-export real constants so core executors work correctly
     createStatusMap: actual.createStatusMap,
     TASK_STATUS: actual.TASK_STATUS,
@@ -732,6 +737,46 @@ describe('handlers', () => {
         );
       });
 
+      it('should resolve date expressions and echo them in _dates', async () => {
+        mockApi.getReports.mockResolvedValue({ data: [], meta: {} });
+
+        const result = await executeToolWithCredentials(
+          'productive',
+          {
+            resource: 'reports',
+            action: 'get',
+            report_type: 'time_reports',
+            from: '2024-q2',
+            to: '2024-05',
+          },
+          credentials,
+        );
+
+        expect(mockApi.getReports).toHaveBeenCalledWith(
+          'time_reports',
+          expect.objectContaining({
+            filter: expect.objectContaining({ after: '2024-04-01', before: '2024-05-31' }),
+          }),
+        );
+        const content = JSON.parse(result.content[0].text as string);
+        expect(content._dates).toEqual({
+          after: { input: '2024-q2', date: '2024-04-01' },
+          before: { input: '2024-05', date: '2024-05-31' },
+        });
+      });
+
+      it('should reject unrecognized date expressions as input errors', async () => {
+        const result = await executeToolWithCredentials(
+          'productive',
+          { resource: 'reports', action: 'get', report_type: 'time_reports', from: 'someday' },
+          credentials,
+        );
+
+        expect(result.isError).toBe(true);
+        expect(result.content[0].text).toContain('Unrecognized date "someday"');
+        expect(mockApi.getReports).not.toHaveBeenCalled();
+      });
+
       it('should handle get action with deal_reports and filters', async () => {
         const mockResponse = {
           data: [
@@ -1099,6 +1144,47 @@ describe('handlers', () => {
       });
     });
 
+    describe('deployment policy', () => {
+      afterEach(() => {
+        setPolicy(null);
+      });
+
+      it('should reject denied calls before reaching the API', async () => {
+        setPolicy(parsePolicy({ rules: [{ resource: 'time', action: 'delete', effect: 'deny' }] }));
+
+        const result = await executeToolWithCredentials(
+          'productive',
+          { resource: 'time', action: 'delete', id: '1' },
+          credentials,
+        );
+
+        expect(result.isError).toBe(true);
+        expect(result.content[0].text).toContain(
+          'Policy denies action="delete" on resource="time"',
+        );
+        expect(mockApi.deleteTimeEntry).not.toHaveBeenCalled();
+      });
+
+      it('should check each operation of a batch', async () => {
+        setPolicy(
+          parsePolicy({ rules: [{ resource: 'time', action: 'create', max: { time: 720 } }] }),
+        );
+
+        const result = await executeToolWithCredentials(
+          'productive',
+          {
+            resource: 'batch',
+            action: 'run',
+            operations: [{ resource: 'time', action: 'create', time: 900, service_id: '1' }],
+          },
+          credentials,
+        );
+
+        expect(result.content[0].text).toContain('exceeds the policy maximum of 720');
+        expect(mockApi.createTimeEntry).not.toHaveBeenCalled();
+      });
+    });
+
     describe('error handling', () => {
       it('should return error for unknown tool', async () => {
         const result = await executeToolWithCredentials('unknown_tool', {}, credentials);
@@ -1268,6 +1354,22 @@ describe('handlers', () => {
         expect(mockApi.createTask).toHaveBeenCalled();
       });
 
+      it('should send a Markdown description as HTML', async () => {
+        mockApi.updateTask.mockResolvedValue({
+          data: { id: '789', type: 'tasks', attributes: { title: 'Task' } },
+        });
+
+        await executeToolWithCredentials(
+          'productive',
+          { resource: 'tasks', action: 'update', id: '789', description: '## Steps\n\n- **One**' },
+          credentials,
+        );
+
+        expect(mockApi.updateTask).toHaveBeenCalledWith('789', {
+          description: '<h2>Steps</h2><ul><li><strong>One</strong></li></ul>',
+        });
+      });
+
       it('should handle update action', async () => {
         const mockResponse = {
           data: { id: '789', type: 'tasks', attributes: { title: 'Updated Task' } },
@@ -1472,7 +1574,9 @@ describe('handlers', () => {
         );
 
         expect(result.isError).toBeUndefined();
-        expect(mockApi.updateComment).toHaveBeenCalledWith('123', { body: 'Updated comment' });
+        expect(mockApi.updateComment).toHaveBeenCalledWith('123', {
+          body: '<p>Updated comment</p>',
+        });
       });
 
       it('should create hidden comment', async () => {
@@ -1499,7 +1603,7 @@ describe('handlers', () => {
 
         expect(result.isError).toBeUndefined();
         expect(mockApi.createComment).toHaveBeenCalledWith(
-          expect.objectContaining({ body: 'Secret', hidden: true }),
+          expect.objectContaining({ body: '<p>Secret</p>', hidden: true }),
         );
       });
 
@@ -3851,6 +3955,18 @@ describe('smart ID resolution', () => {
         data: [{ id: '10', type: 'time_entries', attributes: { time: 60 } }],
         meta: { total_count: 1 },
       });
+      // Mock expenses
+      mockApi.getExpenses.mockResolvedValue({
+        data: [
+          {
+            id: '20',
+            type: 'expenses',
+            attributes: { name: 'Fonts', amount: '12000' },
+            relationships: { service: { data: { type: 'services', id: '300' } } },
+          },
+        ],
+        meta: { total_count: 1 },
+      });
 
       const result = await executeToolWithCredentials(
         'productive',
@@ -3865,6 +3981,7 @@ describe('smart ID resolution', () => {
       expect(content.project.name).toBe('Test Project');
       expect(content.tasks).toBeDefined();
       expect(content.budget).toBeDefined();
+      expect(content.budget.expenses).toEqual({ count: 1, total_amount: 120 });
       expect(content.recent_activity).toBeDefined();
     });
 
@@ -3928,6 +4045,80 @@ describe('smart ID resolution', () => {
       expect(content.people).toBeDefined();
     });
 
+    it('should handle forecast action with deal_id', async () => {
+      mockApi.getDeal.mockResolvedValue({
+        data: {
+          id: '10',
+          type: 'deals',
+          attributes: { name: 'Website', end_date: '2099-12-31', budget: true },
+        },
+      });
+      mockApi.getServices.mockResolvedValue({
+        data: [
+          {
+            id: '300',
+            type: 'services',
+            attributes: { name: 'Design', budgeted_time: 600, worked_time: 700 },
+          },
+        ],
+        meta: { total_pages: 1 },
+      });
+      mockApi.getTimeEntries.mockResolvedValue({ data: [], meta: { total_pages: 1 } });
+      mockApi.getBookings.mockResolvedValue({ data: [], meta: { total_pages: 1 } });
+
+      const result = await executeToolWithCredentials(
+        'productive',
+        { resource: 'summaries', action: 'forecast', deal_id: '10' },
+        credentials,
+      );
+
+      expect(result.isError).toBeUndefined();
+      const content = JSON.parse(result.content[0].text as string);
+      expect(content.summary_type).toBe('forecast');
+      expect(content.deal.id).toBe('10');
+      expect(content.status).toBe('over_budget');
+      expect(content.overruns).toEqual(['300']);
+      expect(mockApi.getBookings).toHaveBeenCalledWith(
+        expect.objectContaining({ filter: expect.objectContaining({ budget_id: '10' }) }),
+      );
+    });
+
+    it('should measure the forecast burn rate over lookback_days', async () => {
+      mockApi.getDeal.mockResolvedValue({
+        data: { id: '10', type: 'deals', attributes: { name: 'Website', budget: true } },
+      });
+      mockApi.getServices.mockResolvedValue({ data: [], meta: { total_pages: 1 } });
+      mockApi.getTimeEntries.mockResolvedValue({ data: [], meta: { total_pages: 1 } });
+      mockApi.getBookings.mockResolvedValue({ data: [], meta: { total_pages: 1 } });
+
+      const result = await executeToolWithCredentials(
+        'productive',
+        { resource: 'summaries', action: 'forecast', deal_id: '10', lookback_days: 7 },
+        credentials,
+      );
+
+      expect(JSON.parse(result.content[0].text as string).lookback_days).toBe(7);
+
+      const invalid = await executeToolWithCredentials(
+        'productive',
+        { resource: 'summaries', action: 'forecast', deal_id: '10', lookback_days: 0 },
+        credentials,
+      );
+      expect(invalid.isError).toBe(true);
+      expect(invalid.content[0].text).toContain('between 1 and 365');
+    });
+
+    it('should return error for forecast without deal_id', async () => {
+      const result = await executeToolWithCredentials(
+        'productive',
+        { resource: 'summaries', action: 'forecast' },
+        credentials,
+      );
+
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toContain('deal_id is required');
+    });
+
     it('should handle help action', async () => {
       const result = await executeToolWithCredentials(
         'productive',
@@ -3943,6 +4134,7 @@ describe('smart ID resolution', () => {
       expect(content.actions.my_day).toBeDefined();
       expect(content.actions.project_health).toBeDefined();
       expect(content.actions.team_pulse).toBeDefined();
+      expect(content.actions.forecast).toBeDefined();
     });
 
     it('should return error for invalid action', async () => {
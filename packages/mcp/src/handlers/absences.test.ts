@@ -0,0 +1,91 @@
+/**
+ * Tests for the absences MCP handler.
+ */
+
+import type { ExecutorContext } from '@studiometa/productive-core';
+
+import { describe, it, expect, vi } from 'vitest';
+
+import type { HandlerContext } from './types.js';
+
+import { handleAbsences } from './absences.js';
+
+const createMockExecutorContext = (
+  overrides: Partial<ExecutorContext['api']> = {},
+): ExecutorContext => ({
+  api: overrides as ExecutorContext['api'],
+  resolver: {
+    resolveValue: vi.fn(async (value: string) => value),
+    resolveFilters: vi.fn(async (filters: Record<string, string>) => ({
+      resolved: filters,
+      metadata: {},
+    })),
+  },
+  config: { organizationId: 'test-org' },
+});
+
+const createMockHandlerContext = (overrides?: Partial<HandlerContext>): HandlerContext => ({
+  formatOptions: {},
+  perPage: 20,
+  executor: () => createMockExecutorContext(),
+  ...overrides,
+});
+
+const parse = (result: { content: unknown }) =>
+  JSON.parse((result.content as Array<{ text: string }>)[0].text);
+
+describe('handleAbsences', () => {
+  it('lists event bookings with event and person resolved', async () => {
+    const getBookings = vi.fn().mockResolvedValue({
+      data: [
+        {
+          id: '1',
+          type: 'bookings',
+          attributes: { started_on: '2026-08-03', ended_on: '2026-08-07', time: 480 },
+          relationships: {
+            event: { data: { type: 'events', id: '2' } },
+            person: { data: { type: 'people', id: '3' } },
+          },
+        },
+      ],
+      meta: {},
+      included: [
+        { id: '2', type: 'events', attributes: { name: 'Vacation', absence_type: 'time_off' } },
+        { id: '3', type: 'people', attributes: { first_name: 'Jane', last_name: 'Doe' } },
+      ],
+    });
+    const ctx = createMockHandlerContext({
+      executor: () => createMockExecutorContext({ getBookings }),
+    });
+
+    const result = await handleAbsences(
+      'list',
+      { person_id: '3', from: '2026-08-01', to: '2026-08-31' },
+      ctx,
+    );
+
+    expect(getBookings).toHaveBeenCalledWith(
+      expect.objectContaining({
+        filter: {
+          person_id: '3',
+          after: '2026-08-01',
+          before: '2026-08-31',
+          booking_type: 'event',
+        },
+        include: ['person', 'event'],
+      }),
+    );
+    const content = parse(result);
+    expect(content.data[0]).toMatchObject({
+      event_name: 'Vacation',
+      absence_type: 'time_off',
+      person_name: 'Jane Doe',
+      status: 'pending',
+    });
+  });
+
+  it('rejects unsupported actions', async () => {
+    const result = await handleAbsences('create', {}, createMockHandlerContext());
+    expect(result.isError).toBe(true);
+  });
+});
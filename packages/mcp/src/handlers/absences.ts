@@ -0,0 +1,34 @@
+/**
+ * Absences MCP handler.
+ *
+ * Absences are bookings on an event (vacation, sick leave, remote work…)
+ * instead of a service. Read-only; use bookings to create them.
+ */
+
+import { listAbsences } from '@studiometa/productive-core';
+
+import type { AbsenceArgs } from './types.js';
+
+import { formatAbsence } from '../formatters.js';
+import { createResourceHandler } from './factory.js';
+
+export const handleAbsences = createResourceHandler<AbsenceArgs>({
+  resource: 'absences',
+  displayName: 'absence',
+  actions: ['list'],
+  formatter: formatAbsence,
+  defaultInclude: {
+    list: ['person', 'event'],
+  },
+  listFilterFromArgs: (args) => {
+    const filters: Record<string, string> = {};
+    if (args.person_id) filters.person_id = args.person_id;
+    if (args.event_id) filters.event_id = args.event_id;
+    if (args.from) filters.after = args.from;
+    if (args.to) filters.before = args.to;
+    return filters;
+  },
+  executors: {
+    list: listAbsences,
+  },
+});
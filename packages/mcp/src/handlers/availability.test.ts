@@ -0,0 +1,80 @@
+/**
+ * Tests for the availability MCP handler.
+ */
+
+import type { ExecutorContext } from '@studiometa/productive-core';
+
+import { describe, it, expect, vi } from 'vitest';
+
+import type { HandlerContext } from './types.js';
+
+import { handleAvailability } from './availability.js';
+
+const createMockExecutorContext = (
+  overrides: Partial<ExecutorContext['api']> = {},
+): ExecutorContext => ({
+  api: overrides as ExecutorContext['api'],
+  resolver: {
+    resolveValue: vi.fn(async (value: string) => value),
+    resolveFilters: vi.fn(async (filters: Record<string, string>) => ({
+      resolved: filters,
+      metadata: {},
+    })),
+  },
+  config: { organizationId: 'test-org' },
+});
+
+const createMockHandlerContext = (overrides?: Partial<HandlerContext>): HandlerContext => ({
+  formatOptions: {},
+  perPage: 20,
+  executor: () => createMockExecutorContext(),
+  ...overrides,
+});
+
+const parse = (result: { content: unknown }) =>
+  JSON.parse((result.content as Array<{ text: string }>)[0].text);
+
+describe('handleAvailability', () => {
+  it('computes availability for the requested people', async () => {
+    const api = {
+      getPeople: vi.fn().mockResolvedValue({
+        data: [
+          { id: '1', type: 'people', attributes: { first_name: 'Alice', last_name: 'Smith' } },
+          { id: '2', type: 'people', attributes: { first_name: 'Bob', last_name: 'Jones' } },
+        ],
+        meta: {},
+      }),
+      getSalaries: vi.fn().mockResolvedValue({ data: [], meta: {} }),
+      getBookings: vi.fn().mockResolvedValue({ data: [], meta: {}, included: [] }),
+    };
+    const ctx = createMockHandlerContext({ executor: () => createMockExecutorContext(api) });
+
+    // 2026-07-13 is a Monday
+    const result = await handleAvailability(
+      'get',
+      { person_id: '1, 2', from: '2026-07-13', to: '2026-07-14' },
+      ctx,
+    );
+
+    expect(api.getPeople).toHaveBeenCalledWith(expect.objectContaining({ filter: { id: '1,2' } }));
+    const content = parse(result);
+    expect(content.after).toBe('2026-07-13');
+    expect(content.people).toHaveLength(2);
+    expect(content.people[0].totals.free_minutes).toBe(960);
+  });
+
+  it('requires from', async () => {
+    const result = await handleAvailability('get', {}, createMockHandlerContext());
+    expect(result.isError).toBe(true);
+    expect((result.content as Array<{ text: string }>)[0].text).toContain('from is required');
+  });
+
+  it('rejects unsupported actions', async () => {
+    const result = await handleAvailability(
+      'list',
+      { from: '2026-07-13' },
+      createMockHandlerContext(),
+    );
+    expect(result.isError).toBe(true);
+  });
+});
@@ -0,0 +1,57 @@
+/**
+ * Availability MCP handler.
+ *
+ * Custom handler (not using createResourceHandler): availability is computed
+ * from schedules, holidays and bookings rather than read from one endpoint.
+ */
+
+import { getAvailability, MAX_AVAILABILITY_DAYS } from '@studiometa/productive-core';
+
+import type { HandlerContext, ToolResult } from './types.js';
+
+import { ErrorMessages, UserInputError } from '../errors.js';
+import { inputErrorResult, jsonResult } from './utils.js';
+
+const VALID_ACTIONS = ['get'];
+
+interface AvailabilityArgs {
+  person_id?: string;
+  from?: string;
+  to?: string;
+}
+
+/**
+ * Handle availability resource.
+ *
+ * Supports: get (free minutes per person per day over a date range)
+ */
+export async function handleAvailability(
+  action: string,
+  args: AvailabilityArgs,
+  ctx: HandlerContext,
+): Promise<ToolResult> {
+  if (!VALID_ACTIONS.includes(action)) {
+    return inputErrorResult(ErrorMessages.invalidAction(action, 'availability', VALID_ACTIONS));
+  }
+
+  if (!args.from) {
+    return inputErrorResult(
+      new UserInputError('from is required for availability', [
+        'Provide the first day as from (YYYY-MM-DD), and optionally the last day as to',
+        `The range can span up to ${MAX_AVAILABILITY_DAYS} days`,
+        'Omit person_id to get availability for every active user',
+      ]),
+    );
+  }
+
+  const personIds = args.person_id
+    ?.split(',')
+    .map((id) => id.trim())
+    .filter(Boolean);
+
+  const result = await getAvailability(
+    { personIds, after: args.from, before: args.to },
+    ctx.executor(),
+  );
+  return jsonResult(result.data);
+}
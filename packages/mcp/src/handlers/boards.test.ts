@@ -0,0 +1,91 @@
+/**
+ * Tests for the boards MCP handler.
+ */
+
+import type { JsonApiResource } from '@studiometa/productive-api';
+import type { ExecutorContext } from '@studiometa/productive-core';
+
+import { describe, it, expect, vi } from 'vitest';
+
+import type { HandlerContext } from './types.js';
+
+import { handleBoards } from './boards.js';
+
+const mockBoard: JsonApiResource = {
+  id: '6',
+  type: 'boards',
+  attributes: { name: 'Development', position: 1, archived_at: null },
+  relationships: { project: { data: { type: 'projects', id: '5' } } },
+};
+
+const createMockExecutorContext = (
+  overrides: Partial<ExecutorContext['api']> = {},
+): ExecutorContext => ({
+  api: overrides as ExecutorContext['api'],
+  resolver: {
+    resolveValue: vi.fn(async (value: string) => value),
+    resolveFilters: vi.fn(async (filters: Record<string, string>) => ({
+      resolved: filters,
+      metadata: {},
+    })),
+  },
+  config: { organizationId: 'test-org' },
+});
+
+const createMockHandlerContext = (overrides?: Partial<HandlerContext>): HandlerContext => ({
+  formatOptions: {},
+  perPage: 20,
+  executor: () => createMockExecutorContext(),
+  ...overrides,
+});
+
+const parse = (result: { content: unknown }) =>
+  JSON.parse((result.content as Array<{ text: string }>)[0].text);
+
+describe('handleBoards', () => {
+  it('lists boards of a project', async () => {
+    const getBoards = vi.fn().mockResolvedValue({ data: [mockBoard], meta: {} });
+    const ctx = createMockHandlerContext({
+      executor: () => createMockExecutorContext({ getBoards }),
+    });
+
+    const result = await handleBoards('list', { project_id: '5' }, ctx);
+
+    expect(getBoards.mock.calls[0][0].filter).toEqual({ project_id: '5', status: '1' });
+    expect(parse(result).data[0].name).toBe('Development');
+  });
+
+  it('creates a board', async () => {
+    const createBoard = vi.fn().mockResolvedValue({ data: mockBoard });
+    const ctx = createMockHandlerContext({
+      executor: () => createMockExecutorContext({ createBoard }),
+    });
+
+    const result = await handleBoards('create', { name: 'Development', project_id: '5' }, ctx);
+
+    expect(createBoard).toHaveBeenCalledWith(
+      expect.objectContaining({ name: 'Development', project_id: '5' }),
+    );
+    expect(parse(result).success).toBe(true);
+  });
+
+  it('archives and restores a board', async () => {
+    const archiveBoard = vi.fn().mockResolvedValue({ data: mockBoard });
+    const restoreBoard = vi.fn().mockResolvedValue({ data: mockBoard });
+    const ctx = createMockHandlerContext({
+      executor: () => createMockExecutorContext({ archiveBoard, restoreBoard }),
+    });
+
+    await handleBoards('archive', { id: '6' }, ctx);
+    await handleBoards('restore', { id: '6' }, ctx);
+
+    expect(archiveBoard).toHaveBeenCalledWith('6');
+    expect(restoreBoard).toHaveBeenCalledWith('6');
+  });
+
+  it('requires id for archive', async () => {
+    const result = await handleBoards('archive', {}, createMockHandlerContext());
+
+    expect(result.isError).toBe(true);
+  });
+});
@@ -0,0 +1,82 @@
+/**
+ * Boards MCP handler.
+ */
+
+import {
+  listBoards,
+  getBoard,
+  createBoard,
+  updateBoard,
+  archiveBoard,
+  restoreBoard,
+} from '@studiometa/productive-core';
+
+import type { BoardArgs } from './types.js';
+
+import { ErrorMessages } from '../errors.js';
+import { formatBoard } from '../formatters.js';
+import { getBoardHints } from '../hints.js';
+import { createResourceHandler } from './factory.js';
+import { inputErrorResult, jsonResult } from './utils.js';
+
+/**
+ * Map user-friendly status to API status filter value
+ */
+const STATUS_MAP: Record<string, string> = {
+  active: '1',
+  archived: '2',
+};
+
+export const handleBoards = createResourceHandler<BoardArgs>({
+  resource: 'boards',
+  displayName: 'board',
+  actions: ['list', 'get', 'create', 'update', 'archive', 'restore'],
+  formatter: formatBoard,
+  hints: (_data, id) => getBoardHints(id),
+  defaultInclude: {
+    list: ['project'],
+    get: ['project'],
+  },
+  listFilterFromArgs: (args) => {
+    const filters: Record<string, string> = {};
+    if (args.project_id) filters.project_id = args.project_id;
+    if (args.status) {
+      const mapped = STATUS_MAP[args.status.toLowerCase()];
+      if (mapped) filters.status = mapped;
+    }
+    return filters;
+  },
+  create: {
+    required: ['name', 'project_id'],
+    mapOptions: (args) => ({
+      name: args.name,
+      projectId: args.project_id,
+      position: args.position,
+    }),
+  },
+  update: {
+    allowedFields: ['name', 'position'],
+    mapOptions: (args) => ({
+      name: args.name,
+      position: args.position,
+    }),
+  },
+  customActions: {
+    archive: async (args, ctx, execCtx) => {
+      if (!args.id) return inputErrorResult(ErrorMessages.missingId('archive'));
+      const result = await archiveBoard({ id: args.id }, execCtx);
+      return jsonResult({ success: true, ...formatBoard(result.data, ctx.formatOptions) });
+    },
+    restore: async (args, ctx, execCtx) => {
+      if (!args.id) return inputErrorResult(ErrorMessages.missingId('restore'));
+      const result = await restoreBoard({ id: args.id }, execCtx);
+      return jsonResult({ success: true, ...formatBoard(result.data, ctx.formatOptions) });
+    },
+  },
+  executors: {
+    list: listBoards,
+    get: getBoard,
+    create: createBoard,
+    update: updateBoard,
+  },
+});
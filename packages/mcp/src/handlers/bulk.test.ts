@@ -0,0 +1,162 @@
+/**
+ * Tests for the bulk_update action of the tasks and time handlers.
+ */
+
+import type { ExecutorContext } from '@studiometa/productive-core';
+
+import { describe, it, expect, vi } from 'vitest';
+
+import type { HandlerContext } from './types.js';
+
+import { handleTasks } from './tasks.js';
+import { handleTime } from './time.js';
+
+const tasks = {
+  data: [
+    { id: '1', type: 'tasks', attributes: { title: 'Fix login', number: '12' } },
+    { id: '2', type: 'tasks', attributes: { title: 'Add logout', number: '13' } },
+  ],
+  meta: { total_pages: 1 },
+};
+
+const createMockExecutorContext = (
+  overrides: Partial<ExecutorContext['api']> = {},
+): ExecutorContext => ({
+  api: overrides as ExecutorContext['api'],
+  resolver: {
+    resolveValue: vi.fn(async (value: string) => (value === 'me' ? '500' : value)),
+    resolveFilters: vi.fn(async (filters: Record<string, string>) => ({
+      resolved: filters,
+      metadata: {},
+    })),
+  },
+  config: { organizationId: 'test-org' },
+});
+
+const createMockHandlerContext = (
+  api: Partial<ExecutorContext['api']>,
+  filter?: Record<string, string>,
+): HandlerContext => {
+  const execCtx = createMockExecutorContext(api);
+  return { formatOptions: {}, perPage: 20, filter, executor: () => execCtx };
+};
+
+const parse = (result: { content: unknown }) =>
+  JSON.parse((result.content as Array<{ text: string }>)[0].text);
+
+describe('bulk_update action', () => {
+  it('previews the matching tasks without confirm', async () => {
+    const getTasks = vi.fn().mockResolvedValue(tasks);
+    const updateTask = vi.fn();
+    const ctx = createMockHandlerContext({ getTasks, updateTask }, { project_id: '10' });
+
+    const result = await handleTasks('bulk_update', { set: { assignee: 'me' } }, ctx);
+
+    expect(updateTask).not.toHaveBeenCalled();
+    expect(getTasks).toHaveBeenCalledWith(
+      expect.objectContaining({ filter: { status: '1', project_id: '10' } }),
+    );
+    const data = parse(result);
+    expect(data).toMatchObject({ dry_run: true, total: 2 });
+    expect(data.items[0]).toMatchObject({ label: '#12 Fix login', status: 'pending' });
+    expect(data._hints[0]).toContain('confirm=true');
+  });
+
+  it('updates every task with confirm=true and reports each one', async () => {
+    const updateTask = vi
+      .fn()
+      .mockResolvedValueOnce({ data: tasks.data[0] })
+      .mockRejectedValueOnce(new Error('Forbidden'));
+    const ctx = createMockHandlerContext(
+      { getTasks: vi.fn().mockResolvedValue(tasks), updateTask },
+      { project_id: '10' },
+    );
+
+    const result = await handleTasks(
+      'bulk_update',
+      { set: { assignee: 'me' }, confirm: true, ids: ['1', '2'], concurrency: 1 },
+      ctx,
+    );
+
+    expect(updateTask).toHaveBeenCalledWith('1', { assignee_id: '500' });
+    expect(parse(result)).toMatchObject({
+      dry_run: false,
+      succeeded: 1,
+      failed: 1,
+      items: [{ status: 'succeeded' }, { status: 'failed', error: 'Forbidden' }],
+    });
+  });
+
+  it('converts set values to strings for time entries', async () => {
+    const getTimeEntries = vi.fn().mockResolvedValue({
+      data: [{ id: '7', type: 'time_entries', attributes: { date: '2024-01-16', time: 60 } }],
+      meta: { total_pages: 1 },
+    });
+    const updateTimeEntry = vi.fn().mockResolvedValue({ data: { id: '7' } });
+    const ctx = createMockHandlerContext(
+      { getTimeEntries, updateTimeEntry },
+      { person_id: 'me', date: '2024-01-16' },
+    );
+
+    const result = await handleTime(
+      'bulk_update',
+      { set: { time: 90 }, confirm: true, ids: ['7'] },
+      ctx,
+    );
+
+    expect(getTimeEntries).toHaveBeenCalledWith(
+      expect.objectContaining({ filter: { person_id: 'me', date: '2024-01-16' } }),
+    );
+    expect(updateTimeEntry).toHaveBeenCalledWith('7', { time: 90 });
+    expect(parse(result)).toMatchObject({ resource: 'time_entries', succeeded: 1 });
+  });
+
+  it('only updates the previewed records', async () => {
+    const updateTask = vi.fn().mockResolvedValue({ data: tasks.data[0] });
+    const getTasks = vi.fn().mockResolvedValue(tasks);
+    const ctx = createMockHandlerContext({ getTasks, updateTask }, { project_id: '10' });
+
+    const unconfirmed = await handleTasks(
+      'bulk_update',
+      { set: { closed: true }, confirm: true },
+      ctx,
+    );
+    const result = await handleTasks(
+      'bulk_update',
+      { set: { closed: true }, confirm: true, ids: ['2'] },
+      ctx,
+    );
+
+    expect(unconfirmed.isError).toBe(true);
+    expect(updateTask).toHaveBeenCalledTimes(1);
+    expect(updateTask).toHaveBeenCalledWith('2', { closed: true });
+    expect(parse(result)).toMatchObject({ total: 1, succeeded: 1 });
+  });
+
+  it('requires a filter and changes', async () => {
+    const getTasks = vi.fn();
+    const unfiltered = await handleTasks(
+      'bulk_update',
+      { set: { closed: true } },
+      createMockHandlerContext({ getTasks }),
+    );
+    const unchanged = await handleTasks(
+      'bulk_update',
+      {},
+      createMockHandlerContext({ getTasks }, { project_id: '10' }),
+    );
+
+    expect(unfiltered.isError).toBe(true);
+    expect(unchanged.isError).toBe(true);
+    expect(getTasks).not.toHaveBeenCalled();
+  });
+
+  it('returns validation errors as input errors', async () => {
+    const ctx = createMockHandlerContext({ getTasks: vi.fn() }, { project_id: '10' });
+
+    const result = await handleTasks('bulk_update', { set: { colour: 'red' } }, ctx);
+
+    expect(result.isError).toBe(true);
+    expect((result.content as Array<{ text: string }>)[0].text).toContain('Unknown tasks field');
+  });
+});
@@ -0,0 +1,93 @@
+/**
+ * Bulk update custom action shared by the tasks and time handlers.
+ *
+ * Without `confirm: true` the action only previews the records matching the
+ * filter, so an agent always sees what it is about to change first. The
+ * confirmed call passes the IDs of that preview and only changes those, so
+ * records matching the filter since then are never changed unseen. Records
+ * are updated a few at a time and each one reports its own outcome.
+ */
+
+import {
+  bulkUpdate,
+  ExecutorValidationError,
+  type BulkResource,
+  type ExecutorContext,
+} from '@studiometa/productive-core';
+
+import type { BulkArgs, HandlerContext, ToolResult } from './types.js';
+
+import { UserInputError } from '../errors.js';
+import { inputErrorResult, jsonResult } from './utils.js';
+
+/**
+ * Create the `bulk_update` custom action for a resource
+ */
+export function bulkUpdateAction(resource: BulkResource) {
+  return async (
+    args: BulkArgs,
+    ctx: HandlerContext,
+    execCtx: ExecutorContext,
+  ): Promise<ToolResult> => {
+    if (!args.set || Object.keys(args.set).length === 0) {
+      return inputErrorResult(
+        new UserInputError('set is required for bulk_update', [
+          'Provide the changes as an object, e.g. { "set": { "assignee": "me" } }',
+          'Use action="help" to list the fields that can be set',
+        ]),
+      );
+    }
+
+    if (!ctx.filter || Object.keys(ctx.filter).length === 0) {
+      return inputErrorResult(
+        new UserInputError('filter is required for bulk_update', [
+          'Select the records with the same filters as action="list", e.g. { "filter": { "project_id": "123" } }',
+        ]),
+      );
+    }
+
+    // Like action="list", tasks are limited to open ones unless a status is given
+    const filter = resource === 'tasks' ? { status: '1', ...ctx.filter } : ctx.filter;
+    const set = Object.fromEntries(
+      Object.entries(args.set).map(([field, value]) => [field, String(value)]),
+    );
+    const dryRun = args.confirm !== true;
+    if (!dryRun && !args.ids?.length) {
+      return inputErrorResult(
+        new UserInputError('ids is required with confirm=true for bulk_update', [
+          'Preview without confirm first, then pass the ids of the listed items',
+        ]),
+      );
+    }
+
+    try {
+      const result = await bulkUpdate(
+        {
+          resource,
+          filter,
+          set,
+          limit: args.limit,
+          concurrency: args.concurrency,
+          dryRun,
+          ids: dryRun ? undefined : args.ids,
+        },
+        execCtx,
+      );
+
+      if (dryRun) {
+        return jsonResult({
+          ...result.data,
+          _hints: [
+            `Nothing was changed. Call again with confirm=true and the ids of these ${result.data.total} items to update them`,
+          ],
+        });
+      }
+      return jsonResult(result.data);
+    } catch (error) {
+      if (error instanceof ExecutorValidationError) {
+        return inputErrorResult(new UserInputError(error.message));
+      }
+      throw error;
+    }
+  };
+}
@@ -0,0 +1,72 @@
+/**
+ * Tests for the capacity MCP handler.
+ */
+
+import type { ExecutorContext } from '@studiometa/productive-core';
+
+import { describe, it, expect, vi } from 'vitest';
+
+import type { HandlerContext } from './types.js';
+
+import { handleCapacity } from './capacity.js';
+
+const createMockExecutorContext = (
+  overrides: Partial<ExecutorContext['api']> = {},
+): ExecutorContext => ({
+  api: overrides as ExecutorContext['api'],
+  resolver: {
+    resolveValue: vi.fn(async (value: string) => value),
+    resolveFilters: vi.fn(async (filters: Record<string, string>) => ({
+      resolved: filters,
+      metadata: {},
+    })),
+  },
+  config: { organizationId: 'test-org' },
+});
+
+const createMockHandlerContext = (overrides?: Partial<HandlerContext>): HandlerContext => ({
+  formatOptions: {},
+  perPage: 20,
+  executor: () => createMockExecutorContext(),
+  ...overrides,
+});
+
+const parse = (result: { content: unknown }) =>
+  JSON.parse((result.content as Array<{ text: string }>)[0].text);
+
+describe('handleCapacity', () => {
+  it('lists working schedules without cost data', async () => {
+    const getSalaries = vi.fn().mockResolvedValue({
+      data: [
+        {
+          id: '1',
+          type: 'salaries',
+          attributes: {
+            started_on: '2026-01-01',
+            working_hours: [480, 480, 480, 480, 480, 0, 0],
+            cost: 5000,
+          },
+          relationships: { person: { data: { type: 'people', id: '3' } } },
+        },
+      ],
+      meta: {},
+      included: [{ id: '3', type: 'people', attributes: { first_name: 'Jane', last_name: 'Doe' } }],
+    });
+    const ctx = createMockHandlerContext({
+      executor: () => createMockExecutorContext({ getSalaries }),
+    });
+
+    const result = await handleCapacity('list', { person_id: '3' }, ctx);
+
+    expect(getSalaries).toHaveBeenCalledWith(
+      expect.objectContaining({
+        filter: { person_id: '3' },
+        include: ['person', 'holiday_calendar'],
+      }),
+    );
+    const capacity = parse(result).data[0];
+    expect(capacity.person_name).toBe('Jane Doe');
+    expect(capacity.weekly_minutes).toBe(2400);
+    expect(capacity.cost).toBeUndefined();
+  });
+});
@@ -0,0 +1,32 @@
+/**
+ * Capacity MCP handler.
+ *
+ * Exposes each person's working schedule (minutes per weekday) and holiday
+ * calendar, read from their salary records without the cost data.
+ */
+
+import { listCapacity } from '@studiometa/productive-core';
+
+import type { CapacityArgs } from './types.js';
+
+import { formatCapacity } from '../formatters.js';
+import { createResourceHandler } from './factory.js';
+
+export const handleCapacity = createResourceHandler<CapacityArgs>({
+  resource: 'capacity',
+  actions: ['list'],
+  formatter: formatCapacity,
+  defaultInclude: {
+    list: ['person', 'holiday_calendar'],
+  },
+  listFilterFromArgs: (args) => {
+    const filters: Record<string, string> = {};
+    if (args.person_id) filters.person_id = args.person_id;
+    if (args.from) filters.after = args.from;
+    if (args.to) filters.before = args.to;
+    return filters;
+  },
+  executors: {
+    list: listCapacity,
+  },
+});
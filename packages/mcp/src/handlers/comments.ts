@@ -2,6 +2,7 @@
  * Comments MCP handler.
  */
 
+import { markdownToHtml } from '@studiometa/productive-api';
 import {
   listComments,
   getComment,
@@ -46,7 +47,7 @@ export const handleComments = createResourceHandler<CommentArgs>({
       return undefined;
     },
     mapOptions: (args) => ({
-      body: args.body,
+      body: markdownToHtml(args.body),
       hidden: args.hidden,
       taskId: args.task_id,
       dealId: args.deal_id,
@@ -55,7 +56,7 @@ export const handleComments = createResourceHandler<CommentArgs>({
   },
   update: {
     allowedFields: ['body', 'hidden'],
-    mapOptions: (args) => ({ body: args.body, hidden: args.hidden }),
+    mapOptions: (args) => ({ body: markdownToHtml(args.body), hidden: args.hidden }),
   },
   executors: {
     list: listComments,
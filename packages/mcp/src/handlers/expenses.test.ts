@@ -0,0 +1,173 @@
+/**
+ * Tests for the expenses MCP handler.
+ */
+
+import type { JsonApiResource } from '@studiometa/productive-api';
+import type { ExecutorContext } from '@studiometa/productive-core';
+
+import { describe, it, expect, vi } from 'vitest';
+
+import type { HandlerContext } from './types.js';
+
+import { handleExpenses } from './expenses.js';
+
+const mockExpense: JsonApiResource = {
+  id: '1',
+  type: 'expenses',
+  attributes: {
+    name: 'Train ticket',
+    date: '2026-03-02',
+    currency: 'EUR',
+    amount: 4550,
+    approved: false,
+    rejected: false,
+  },
+  relationships: {
+    service: { data: { type: 'services', id: '6' } },
+  },
+};
+
+const createMockExecutorContext = (
+  overrides: Partial<ExecutorContext['api']> = {},
+): ExecutorContext => ({
+  api: overrides as ExecutorContext['api'],
+  resolver: {
+    resolveValue: vi.fn(async (value: string) => value),
+    resolveFilters: vi.fn(async (filters: Record<string, string>) => ({
+      resolved: filters,
+      metadata: {},
+    })),
+  },
+  config: { organizationId: 'test-org' },
+});
+
+const createMockHandlerContext = (overrides?: Partial<HandlerContext>): HandlerContext => ({
+  formatOptions: {},
+  perPage: 20,
+  executor: () => createMockExecutorContext(),
+  ...overrides,
+});
+
+const parse = (result: { content: unknown }) =>
+  JSON.parse((result.content as Array<{ text: string }>)[0].text);
+
+describe('handleExpenses', () => {
+  describe('list action', () => {
+    it('returns formatted expenses with amounts in currency units', async () => {
+      const getExpenses = vi.fn().mockResolvedValue({
+        data: [mockExpense],
+        meta: { current_page: 1, total_pages: 1, total_count: 1 },
+      });
+      const ctx = createMockHandlerContext({
+        executor: () => createMockExecutorContext({ getExpenses }),
+      });
+
+      const result = await handleExpenses('list', {}, ctx);
+
+      expect(result.isError).toBeUndefined();
+      const content = parse(result);
+      expect(content.data[0].name).toBe('Train ticket');
+      expect(content.data[0].amount).toBe(45.5);
+      expect(content.data[0].status).toBe('pending');
+    });
+
+    it('maps status and link args to filters', async () => {
+      const getExpenses = vi.fn().mockResolvedValue({ data: [], meta: {} });
+      const ctx = createMockHandlerContext({
+        executor: () => createMockExecutorContext({ getExpenses }),
+      });
+
+      await handleExpenses('list', { status: 'rejected', deal_id: '5', service_id: '6' }, ctx);
+
+      const callArgs = getExpenses.mock.calls[0][0];
+      expect(callArgs.filter).toMatchObject({
+        approval_status: '3',
+        deal_id: '5',
+        service_id: '6',
+      });
+      expect(callArgs.include).toEqual(expect.arrayContaining(['deal', 'service', 'person']));
+    });
+  });
+
+  describe('create action', () => {
+    it('requires name and amount', async () => {
+      const result = await handleExpenses('create', { name: 'Train' }, createMockHandlerContext());
+
+      expect(result.isError).toBe(true);
+      expect((result.content as Array<{ text: string }>)[0].text).toContain('amount');
+    });
+
+    it('creates an expense linked to a deal and service', async () => {
+      const createExpense = vi.fn().mockResolvedValue({ data: mockExpense });
+      const ctx = createMockHandlerContext({
+        executor: () => createMockExecutorContext({ createExpense }),
+      });
+
+      const result = await handleExpenses(
+        'create',
+        { name: 'Train ticket', amount: 45.5, deal_id: '5', service_id: '6' },
+        ctx,
+      );
+
+      expect(result.isError).toBeUndefined();
+      expect(createExpense).toHaveBeenCalledWith(
+        expect.objectContaining({
+          name: 'Train ticket',
+          amount: 4550,
+          deal_id: '5',
+          service_id: '6',
+        }),
+      );
+      expect(parse(result).success).toBe(true);
+    });
+  });
+
+  describe('approve / reject actions', () => {
+    it('requires id', async () => {
+      const approve = await handleExpenses('approve', {}, createMockHandlerContext());
+      const reject = await handleExpenses('reject', {}, createMockHandlerContext());
+
+      expect(approve.isError).toBe(true);
+      expect(reject.isError).toBe(true);
+    });
+
+    it('approves the expense', async () => {
+      const approveExpense = vi.fn().mockResolvedValue({
+        data: { ...mockExpense, attributes: { ...mockExpense.attributes, approved: true } },
+      });
+      const ctx = createMockHandlerContext({
+        executor: () => createMockExecutorContext({ approveExpense }),
+      });
+
+      const result = await handleExpenses('approve', { id: '1' }, ctx);
+
+      expect(approveExpense).toHaveBeenCalledWith('1');
+      expect(parse(result).status).toBe('approved');
+    });
+
+    it('rejects the expense with a reason', async () => {
+      const rejectExpense = vi.fn().mockResolvedValue({
+        data: {
+          ...mockExpense,
+          attributes: { ...mockExpense.attributes, rejected: true, rejected_reason: 'No receipt' },
+        },
+      });
+      const ctx = createMockHandlerContext({
+        executor: () => createMockExecutorContext({ rejectExpense }),
+      });
+
+      const result = await handleExpenses('reject', { id: '1', reason: 'No receipt' }, ctx);
+
+      expect(rejectExpense).toHaveBeenCalledWith('1', 'No receipt');
+      const content = parse(result);
+      expect(content.status).toBe('rejected');
+      expect(content.rejected_reason).toBe('No receipt');
+    });
+  });
+
+  it('rejects unknown actions', async () => {
+    const result = await handleExpenses('delete', { id: '1' }, createMockHandlerContext());
+
+    expect(result.isError).toBe(true);
+  });
+});
@@ -0,0 +1,98 @@
+/**
+ * Expenses MCP handler.
+ */
+
+import {
+  listExpenses,
+  getExpense,
+  createExpense,
+  updateExpense,
+  approveExpense,
+  rejectExpense,
+} from '@studiometa/productive-core';
+
+import type { ExpenseArgs } from './types.js';
+
+import { ErrorMessages } from '../errors.js';
+import { formatExpense } from '../formatters.js';
+import { getExpenseHints } from '../hints.js';
+import { createResourceHandler } from './factory.js';
+import { inputErrorResult, jsonResult } from './utils.js';
+
+/**
+ * Map user-friendly approval status to API approval_status filter value
+ */
+const STATUS_MAP: Record<string, string> = {
+  approved: '1',
+  pending: '2',
+  rejected: '3',
+};
+
+export const handleExpenses = createResourceHandler<ExpenseArgs>({
+  resource: 'expenses',
+  displayName: 'expense',
+  actions: ['list', 'get', 'create', 'update', 'approve', 'reject'],
+  formatter: formatExpense,
+  hints: (data, id) => {
+    const serviceId = data.relationships?.service?.data?.id;
+    return getExpenseHints(id, serviceId);
+  },
+  defaultInclude: {
+    list: ['deal', 'service', 'person'],
+    get: ['deal', 'service', 'person', 'attachments'],
+  },
+  listFilterFromArgs: (args) => {
+    const filters: Record<string, string> = {};
+    if (args.person_id) filters.person_id = args.person_id;
+    if (args.project_id) filters.project_id = args.project_id;
+    if (args.deal_id) filters.deal_id = args.deal_id;
+    if (args.service_id) filters.service_id = args.service_id;
+    if (args.status) {
+      const mapped = STATUS_MAP[args.status.toLowerCase()];
+      if (mapped) filters.approval_status = mapped;
+    }
+    return filters;
+  },
+  create: {
+    required: ['name', 'amount'],
+    mapOptions: (args) => ({
+      name: args.name,
+      amount: args.amount,
+      date: args.date,
+      currency: args.currency,
+      dealId: args.deal_id,
+      serviceId: args.service_id,
+      personId: args.person_id,
+      reimbursable: args.reimbursable,
+    }),
+  },
+  update: {
+    allowedFields: ['name', 'amount', 'date', 'currency', 'service_id', 'reimbursable'],
+    mapOptions: (args) => ({
+      name: args.name,
+      amount: args.amount,
+      date: args.date,
+      currency: args.currency,
+      serviceId: args.service_id,
+      reimbursable: args.reimbursable,
+    }),
+  },
+  customActions: {
+    approve: async (args, ctx, execCtx) => {
+      if (!args.id) return inputErrorResult(ErrorMessages.missingId('approve'));
+      const result = await approveExpense({ id: args.id }, execCtx);
+      return jsonResult({ success: true, ...formatExpense(result.data, ctx.formatOptions) });
+    },
+    reject: async (args, ctx, execCtx) => {
+      if (!args.id) return inputErrorResult(ErrorMessages.missingId('reject'));
+      const result = await rejectExpense({ id: args.id, reason: args.reason }, execCtx);
+      return jsonResult({ success: true, ...formatExpense(result.data, ctx.formatOptions) });
+    },
+  },
+  executors: {
+    list: listExpenses,
+    get: getExpense,
+    create: createExpense,
+    update: updateExpense,
+  },
+});
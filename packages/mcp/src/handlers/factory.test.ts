@@ -5,6 +5,7 @@
 import type { JsonApiResource } from '@studiometa/productive-api';
 import type { ExecutorContext } from '@studiometa/productive-core';
 
+import { createDateService } from '@studiometa/productive-core';
 import { describe, it, expect, vi } from 'vitest';
 
 import type { HandlerContext } from './types.js';
@@ -123,6 +124,41 @@ describe('createResourceHandler', () => {
       expect(content._resolved).toEqual({ project: 'Test Project → 123' });
     });
 
+    it('should resolve date expressions in filters and echo them in _dates', async () => {
+      const listExecutor = vi.fn().mockResolvedValue({ data: [] });
+
+      const handler = createResourceHandler({
+        resource: 'projects',
+        actions: ['list'],
+        formatter: mockFormatter,
+        executors: { list: listExecutor },
+      });
+
+      const result = await handler(
+        'list',
+        {},
+        createMockHandlerContext({
+          filter: { period: '2026-W42', company_id: '7' },
+          executor: () => ({
+            ...createMockExecutorContext(),
+            dates: createDateService({ timezone: 'UTC' }),
+          }),
+        }),
+      );
+
+      expect(listExecutor).toHaveBeenCalledWith(
+        expect.objectContaining({
+          additionalFilters: { company_id: '7', after: '2026-10-12', before: '2026-10-18' },
+        }),
+        expect.anything(),
+      );
+      const content = JSON.parse((result.content[0] as { text: string }).text);
+      expect(content._dates).toEqual({
+        after: { input: '2026-W42', date: '2026-10-12' },
+        before: { input: '2026-W42', date: '2026-10-18' },
+      });
+    });
+
     it('should merge user includes with defaults', async () => {
       const listExecutor = vi.fn().mockResolvedValue({ data: [] });
 
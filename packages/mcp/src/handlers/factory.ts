@@ -6,7 +6,9 @@
  */
 
 import type { JsonApiResource } from '@studiometa/productive-api';
-import type { ExecutorContext, ResolvedInfo } from '@studiometa/productive-core';
+import type { ExecutorContext, ResolvedDate, ResolvedInfo } from '@studiometa/productive-core';
+
+import { getDateService, resolveDateFilters } from '@studiometa/productive-core';
 
 import type { McpFormatOptions } from '../formatters.js';
 import type { ContextualHints } from '../hints.js';
@@ -33,6 +35,7 @@ interface ListExecutorResult {
   meta?: { total_count?: number; total_pages?: number; current_page?: number };
   included?: JsonApiResource[];
   resolved?: Record<string, ResolvedInfo>;
+  dates?: Record<string, ResolvedDate>;
 }
 
 /**
@@ -81,8 +84,8 @@ export interface ResourceHandlerConfig<TArgs extends CommonArgs = CommonArgs> {
   /** Formatter function for this resource */
   formatter: (item: JsonApiResource, options?: McpFormatOptions) => Record<string, unknown>;
 
-  /** Optional hints generator for get action */
-  hints?: (data: JsonApiResource, id: string) => ContextualHints;
+  /** Optional hints generator for get action, given today's date in the user's timezone */
+  hints?: (data: JsonApiResource, id: string, today: string) => ContextualHints;
 
   /** Default include for list/get operations */
   defaultInclude?: {
@@ -215,7 +218,7 @@ export function createResourceHandler<TArgs extends CommonArgs = CommonArgs>(
 
       if (ctx.includeHints) {
         if (hints) {
-          getResponseData._hints = hints(result.data, id);
+          getResponseData._hints = hints(result.data, id, getDateService(execCtx).today());
         }
       }
 
@@ -223,7 +226,11 @@ export function createResourceHandler<TArgs extends CommonArgs = CommonArgs>(
       if (ctx.includeSuggestions !== false) {
         let getSuggestions: string[] = [];
         if (resource === 'tasks') {
-          getSuggestions = getTaskGetSuggestions(result.data, result.included);
+          getSuggestions = getTaskGetSuggestions(
+            result.data,
+            result.included,
+            getDateService(execCtx).today(),
+          );
         }
         if (getSuggestions.length > 0) {
           getResponseData._suggestions = getSuggestions;
@@ -294,10 +301,11 @@ export function createResourceHandler<TArgs extends CommonArgs = CommonArgs>(
     // Handle list action
     if (action === 'list') {
       const include = mergeIncludes(userInclude, defaultInclude?.list);
-      const additionalFilters = {
-        ...filter,
-        ...listFilterFromArgs?.(args),
-      };
+      // Date expressions ("last week", "q3") become absolute dates for every resource
+      const { filter: additionalFilters, dates } = resolveDateFilters(
+        { ...filter, ...listFilterFromArgs?.(args) },
+        getDateService(execCtx),
+      );
       const result = await executors.list({ page, perPage, additionalFilters, include }, execCtx);
 
       const response = formatListResponse(result.data, formatter, result.meta, {
@@ -312,13 +320,23 @@ export function createResourceHandler<TArgs extends CommonArgs = CommonArgs>(
         listResponseData._resolved = result.resolved;
       }
 
+      // Echo the absolute dates that date expressions resolved to
+      const resolvedDates = { ...dates, ...result.dates };
+      if (Object.keys(resolvedDates).length > 0) {
+        listResponseData._dates = resolvedDates;
+      }
+
       // Add resource-specific suggestions
       if (ctx.includeSuggestions !== false) {
         let listSuggestions: string[] = [];
         if (resource === 'tasks') {
-          listSuggestions = getTaskListSuggestions(result.data);
+          listSuggestions = getTaskListSuggestions(result.data, getDateService(execCtx).today());
         } else if (resource === 'time') {
-          listSuggestions = getTimeListSuggestions(result.data, additionalFilters);
+          listSuggestions = getTimeListSuggestions(
+            result.data,
+            additionalFilters,
+            getDateService(execCtx).today(),
+          );
         }
         if (listSuggestions.length > 0) {
           listResponseData._suggestions = listSuggestions;
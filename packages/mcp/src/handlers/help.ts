@@ -130,6 +130,8 @@ const RESOURCE_HELP: Record<string, ResourceHelp> = {
       get: 'Get a single task by ID with full details (description, comments, etc.)',
       create: 'Create a new task (requires title, project_id, task_list_id)',
       update: 'Update an existing task',
+      bulk_update:
+        'Update every task matching filter with the changes in set (title, description, assignee, status, due_date, start_date, estimate, private, closed). Previews unless confirm=true, which takes the ids of the previewed items',
       resolve: 'Resolve by text search',
       context:
         'Get full task context in one call: task details + comments + time entries + subtasks',
@@ -157,8 +159,8 @@ const RESOURCE_HELP: Record<string, ResourceHelp> = {
       overdue_status: 'Filter by overdue: 1=not overdue, 2=overdue',
       due_date: 'Filter by due date: 1=any, 2=overdue',
       due_date_on: 'Filter by exact due date (YYYY-MM-DD)',
-      due_date_before: 'Filter by due date before (YYYY-MM-DD)',
-      due_date_after: 'Filter by due date after (YYYY-MM-DD)',
+      due_date_before: 'Filter by due date before (YYYY-MM-DD or e.g. "next friday")',
+      due_date_after: 'Filter by due date after (YYYY-MM-DD or e.g. "today")',
       start_date: 'Filter by exact start date (YYYY-MM-DD)',
       start_date_before: 'Filter by start date before (YYYY-MM-DD)',
       start_date_after: 'Filter by start date after (YYYY-MM-DD)',
@@ -185,7 +187,7 @@ const RESOURCE_HELP: Record<string, ResourceHelp> = {
     fields: {
       id: 'Unique task identifier',
       title: 'Task title',
-      description: 'Full task description (HTML)',
+      description: 'Full task description (Markdown)',
       number: 'Task number within project',
       due_date: 'Due date (YYYY-MM-DD)',
       initial_estimate: 'Estimated time in minutes',
@@ -249,6 +251,16 @@ const RESOURCE_HELP: Record<string, ResourceHelp> = {
         description: 'Get full task context',
         params: { resource: 'tasks', action: 'context', id: '67890' },
       },
+      {
+        description: 'Assign every open task of a task list to me (call first without confirm)',
+        params: {
+          resource: 'tasks',
+          action: 'bulk_update',
+          filter: { project_id: '12345', task_list_id: '111' },
+          set: { assignee: 'me' },
+          confirm: true,
+        },
+      },
     ],
   },
 
@@ -259,7 +271,13 @@ const RESOURCE_HELP: Record<string, ResourceHelp> = {
       get: 'Get a single time entry by ID',
       create: 'Create a new time entry (requires person_id, service_id, date, time)',
       update: 'Update an existing time entry',
+      bulk_update:
+        'Update every time entry matching filter with the changes in set (time, billable_time, date, note). Previews unless confirm=true, which takes the ids of the previewed items',
       delete: 'Delete a time entry',
+      approve:
+        'Approve a time entry by id, or every unapproved entry matching filter (e.g. person_id and period). Without id, returns the approval queue (unapproved hours per person with entry ids) unless confirm=true, which takes the reviewed time_entry_ids as ids; limit and concurrency as for bulk_update. To take an approval back, use resource=history action=undo',
+      reject:
+        'Reject a time entry by id, or every unapproved entry matching filter, with an optional reason. Without id, previews like approve unless confirm=true',
       resolve: 'Resolve related resources (person, project, service)',
     },
     filters: {
@@ -270,8 +288,10 @@ const RESOURCE_HELP: Record<string, ResourceHelp> = {
       company_id: 'Filter by company (array)',
       deal_id: 'Filter by deal (array)',
       budget_id: 'Filter by budget (array)',
-      after: 'Filter entries after date (YYYY-MM-DD)',
-      before: 'Filter entries before date (YYYY-MM-DD)',
+      after: 'Filter entries after date (YYYY-MM-DD or e.g. "last monday", "2 weeks ago")',
+      before: 'Filter entries before date (YYYY-MM-DD or e.g. "yesterday")',
+      period:
+        'Filter by period, sets after/before: this-week, last-month, q3, 2025-q4, ytd, 2026-W42, last 7 days',
       date: 'Filter by exact date (YYYY-MM-DD)',
       status:
         'Filter by approval status: 1=approved, 2=unapproved, 3=rejected (5=submitted, 6=draft if timesheet feature enabled)',
@@ -301,7 +321,7 @@ const RESOURCE_HELP: Record<string, ResourceHelp> = {
         params: {
           resource: 'time',
           action: 'list',
-          filter: { person_id: 'me', after: '2024-01-15', before: '2024-01-21' },
+          filter: { person_id: 'me', period: 'this-week' },
         },
       },
       {
@@ -315,6 +335,24 @@ const RESOURCE_HELP: Record<string, ResourceHelp> = {
           note: 'Development work',
         },
       },
+      {
+        description:
+          "Prepare last week's approval list for a person, then confirm=true with its time_entry_ids to approve it",
+        params: {
+          resource: 'time',
+          action: 'approve',
+          filter: { person_id: '42', period: 'last-week' },
+        },
+      },
+      {
+        description: 'Preview moving my entries of a day to another date',
+        params: {
+          resource: 'time',
+          action: 'bulk_update',
+          filter: { person_id: 'me', date: '2024-01-16' },
+          set: { date: '2024-01-17' },
+        },
+      },
     ],
   },
 
@@ -499,7 +537,7 @@ const RESOURCE_HELP: Record<string, ResourceHelp> = {
     includes: ['creator', 'task', 'deal'],
     fields: {
       id: 'Unique comment identifier',
-      body: 'Comment text (may contain HTML)',
+      body: 'Comment text (Markdown; mention people with @[Name](person:ID))',
       hidden: 'Boolean — true if hidden from client (default: false)',
       creator: 'Person who created the comment',
     },
@@ -682,7 +720,7 @@ const RESOURCE_HELP: Record<string, ResourceHelp> = {
     fields: {
       id: 'Unique page identifier',
       title: 'Page title',
-      body: 'Page body content (HTML)',
+      body: 'Page body content (Markdown)',
       public: 'Whether the page is publicly accessible',
       version_number: 'Current version number',
       parent_page_id: 'Parent page ID (for sub-pages)',
@@ -773,6 +811,356 @@ const RESOURCE_HELP: Record<string, ResourceHelp> = {
     ],
   },
 
+  invoices: {
+    description: 'Manage client invoices and review their line items',
+    actions: {
+      list: 'List invoices with optional filters',
+      get: 'Get a single invoice by ID',
+      create: 'Create a draft invoice (requires company_id)',
+      update: 'Update a draft invoice (subject, date, pay_on, currency, note)',
+      finalize: 'Finalize a draft invoice so it can be sent',
+      line_items: 'List the line items of an invoice (requires id)',
+    },
+    filters: {
+      company_id: 'Filter by client company',
+      deal_id: 'Filter by deal (budget)',
+      project_id: 'Filter by project',
+      invoice_status: 'Filter by status: 1=draft, 2=finalized',
+      invoice_type: 'Filter by type: 1=invoice, 2=credit_note',
+      invoiced_on_after: 'Invoiced on or after date (YYYY-MM-DD)',
+      invoiced_on_before: 'Invoiced on or before date (YYYY-MM-DD)',
+    },
+    fields: {
+      id: 'Unique invoice identifier',
+      number: 'Invoice number (assigned on finalization)',
+      subject: 'Invoice subject',
+      status: 'Status: draft, finalized or paid',
+      invoiced_on: 'Invoice date',
+      pay_on: 'Due date',
+      amount: 'Net amount in currency units',
+      amount_with_tax: 'Gross amount in currency units',
+      amount_unpaid: 'Outstanding amount in currency units',
+    },
+    includes: ['company', 'document_type', 'subsidiary', 'creator', 'bill_to', 'bill_from'],
+    examples: [
+      {
+        description: 'List draft invoices for a company',
+        params: { resource: 'invoices', action: 'list', company_id: '12345', status: 'draft' },
+      },
+      {
+        description: 'Create a draft invoice',
+        params: {
+          resource: 'invoices',
+          action: 'create',
+          company_id: '12345',
+          subject: 'March retainer',
+        },
+      },
+      {
+        description: 'Review line items before finalizing',
+        params: { resource: 'invoices', action: 'line_items', id: '67890' },
+      },
+      {
+        description: 'Finalize a draft invoice',
+        params: { resource: 'invoices', action: 'finalize', id: '67890' },
+      },
+    ],
+  },
+
+  expenses: {
+    description: 'Manage project expenses, their receipts and approval',
+    actions: {
+      list: 'List expenses with optional filters',
+      get: 'Get a single expense by ID (includes receipts)',
+      create: 'Log an expense (requires name, amount)',
+      update: 'Update an expense (name, amount, date, currency, service_id, reimbursable)',
+      approve: 'Approve a pending expense',
+      reject: 'Reject an expense, optionally with a reason',
+    },
+    filters: {
+      person_id: 'Filter by person who incurred the expense',
+      project_id: 'Filter by project',
+      deal_id: 'Filter by deal (budget)',
+      service_id: 'Filter by service',
+      approval_status: 'Filter by status: 1=approved, 2=pending, 3=rejected',
+      after: 'Expenses dated on or after (YYYY-MM-DD)',
+      before: 'Expenses dated on or before (YYYY-MM-DD)',
+    },
+    fields: {
+      id: 'Unique expense identifier',
+      name: 'Expense description',
+      date: 'Expense date',
+      amount: 'Amount in currency units',
+      status: 'Approval status: pending, approved or rejected',
+      reimbursable: 'Whether the expense is reimbursed to the person',
+      receipt_count: 'Number of attached receipts',
+    },
+    includes: ['deal', 'service', 'person', 'vendor', 'approver', 'attachments'],
+    examples: [
+      {
+        description: 'List pending expenses on a project',
+        params: { resource: 'expenses', action: 'list', project_id: '12345', status: 'pending' },
+      },
+      {
+        description: 'Log an expense on a budget service',
+        params: {
+          resource: 'expenses',
+          action: 'create',
+          name: 'Train to client',
+          amount: 89.9,
+          service_id: '67890',
+        },
+      },
+      {
+        description: 'Reject an expense',
+        params: { resource: 'expenses', action: 'reject', id: '111', reason: 'Missing receipt' },
+      },
+    ],
+  },
+
+  task_lists: {
+    description: 'Manage task lists, the columns of tasks grouped on a project board',
+    actions: {
+      list: 'List task lists (active by default)',
+      get: 'Get a single task list by ID',
+      create:
+        "Create a task list (requires name, project_id; defaults to the project's first board)",
+      update: 'Rename, reorder (position) or move (board_id) a task list',
+      archive: 'Archive a task list',
+      restore: 'Restore an archived task list',
+    },
+    filters: {
+      project_id: 'Filter by project',
+      board_id: 'Filter by board',
+      status: 'Filter by status: 1=active, 2=archived',
+    },
+    fields: {
+      id: 'Unique task list identifier',
+      name: 'Task list name',
+      position: 'Order of the list within its board',
+      archived: 'Whether the list is archived',
+      board_name: 'Board (folder) the list belongs to',
+    },
+    includes: ['project', 'board'],
+    examples: [
+      {
+        description: 'List the task lists of a project',
+        params: { resource: 'task_lists', action: 'list', project_id: '12345' },
+      },
+      {
+        description: 'Create a sprint list',
+        params: {
+          resource: 'task_lists',
+          action: 'create',
+          name: 'Sprint 12',
+          project_id: '12345',
+        },
+      },
+      {
+        description: 'Archive a finished sprint',
+        params: { resource: 'task_lists', action: 'archive', id: '111' },
+      },
+    ],
+  },
+
+  boards: {
+    description: 'Manage boards, the folders that group task lists within a project',
+    actions: {
+      list: 'List boards (active by default)',
+      get: 'Get a single board by ID',
+      create: 'Create a board (requires name, project_id)',
+      update: 'Rename or reorder (position) a board',
+      archive: 'Archive a board',
+      restore: 'Restore an archived board',
+    },
+    filters: {
+      project_id: 'Filter by project',
+      status: 'Filter by status: 1=active, 2=archived',
+    },
+    fields: {
+      id: 'Unique board identifier',
+      name: 'Board name',
+      position: 'Order of the board within its project',
+      archived: 'Whether the board is archived',
+    },
+    includes: ['project'],
+    examples: [
+      {
+        description: 'List the boards of a project',
+        params: { resource: 'boards', action: 'list', project_id: '12345' },
+      },
+      {
+        description: 'Create a board',
+        params: { resource: 'boards', action: 'create', name: 'Maintenance', project_id: '12345' },
+      },
+    ],
+  },
+
+  absences: {
+    description:
+      'Read absence bookings (vacation, sick leave, remote work…). Create them with resource=bookings and event_id.',
+    actions: {
+      list: 'List absences with optional filters',
+    },
+    filters: {
+      person_id: 'Filter by person',
+      event_id: 'Filter by absence category (event)',
+      after: 'Absences ending on or after (YYYY-MM-DD); or use from',
+      before: 'Absences starting on or before (YYYY-MM-DD); or use to',
+    },
+    fields: {
+      event_name: 'Absence category, e.g. Vacation',
+      absence_type: 'time_off or remote_work',
+      started_on: 'First day of the absence',
+      ended_on: 'Last day of the absence',
+      time: 'Minutes per day, for per-day absences',
+      status: 'approved, pending, rejected, canceled or draft',
+    },
+    includes: ['person', 'event', 'approver'],
+    examples: [
+      {
+        description: 'Who is away next week',
+        params: { resource: 'absences', action: 'list', from: '2024-08-05', to: '2024-08-09' },
+      },
+    ],
+  },
+
+  holidays: {
+    description: 'Read public holidays of holiday calendars',
+    actions: {
+      list: 'List holidays with optional filters',
+    },
+    filters: {
+      holiday_calendar_id: 'Filter by holiday calendar',
+      after: 'Holidays on or after (YYYY-MM-DD); or use from',
+      before: 'Holidays on or before (YYYY-MM-DD); or use to',
+    },
+    fields: {
+      name: 'Holiday name',
+      date: 'Holiday date',
+      holiday_calendar_name: 'Calendar the holiday belongs to',
+    },
+    includes: ['holiday_calendar'],
+    examples: [
+      {
+        description: 'List holidays of a calendar this year',
+        params: {
+          resource: 'holidays',
+          action: 'list',
+          holiday_calendar_id: '5',
+          from: '2024-01-01',
+          to: '2024-12-31',
+        },
+      },
+    ],
+  },
+
+  holiday_calendars: {
+    description: 'Read holiday calendars (one per country or region)',
+    actions: {
+      list: 'List holiday calendars',
+    },
+    fields: {
+      name: 'Calendar name',
+      country: 'Country code',
+      state: 'State or region',
+    },
+  },
+
+  capacity: {
+    description:
+      "Read each person's working schedule (minutes per weekday) and holiday calendar. Cost data is never exposed.",
+    actions: {
+      list: 'List working schedules with optional filters',
+    },
+    filters: {
+      person_id: 'Filter by person',
+      after: 'Schedules effective on or after (YYYY-MM-DD); or use from',
+      before: 'Schedules effective on or before (YYYY-MM-DD); or use to',
+    },
+    fields: {
+      started_on: 'First day the schedule applies',
+      ended_on: 'Last day the schedule applies (null when current)',
+      working_minutes: 'Working minutes per weekday (monday…sunday)',
+      weekly_minutes: 'Total working minutes per week',
+      holiday_calendar_name: 'Holiday calendar followed by the person',
+    },
+    includes: ['person', 'holiday_calendar'],
+    examples: [
+      {
+        description: "Get a person's working schedule",
+        params: { resource: 'capacity', action: 'list', person_id: '500' },
+      },
+    ],
+  },
+
+  availability: {
+    description:
+      'Free time per person per day: working schedule minus holidays, absences and bookings (all in minutes)',
+    actions: {
+      get: 'Compute availability over a date range (requires from)',
+    },
+    fields: {
+      from: 'Required. First day (YYYY-MM-DD)',
+      to: 'Optional. Last day, inclusive (defaults to from, max 92 days)',
+      person_id: 'Optional. Comma-separated person IDs (defaults to all active users)',
+      'people[].days[]':
+        'date, capacity_minutes, absence_minutes, booked_minutes, free_minutes, holiday?, absence?',
+      'people[].capacity_source': 'salary, or default when a 40h Monday–Friday week was assumed',
+    },
+    examples: [
+      {
+        description: 'Who has free time this week',
+        params: { resource: 'availability', action: 'get', from: '2024-07-15', to: '2024-07-19' },
+      },
+      {
+        description: 'Availability of two people tomorrow',
+        params: { resource: 'availability', action: 'get', from: '2024-07-16', person_id: '1,2' },
+      },
+    ],
+  },
+
+  workflow_statuses: {
+    description: 'Manage workflow statuses, the kanban columns tasks move through',
+    actions: {
+      list: 'List statuses of a workflow in column order (workflow_id or project_id)',
+      get: 'Get a single workflow status by ID',
+      create: 'Add a status to a workflow (requires name, workflow_id, category)',
+      update: 'Rename, recategorize or reorder (position) a status',
+    },
+    filters: {
+      workflow_id: 'Filter by workflow',
+      category_id: 'Filter by category: 1=not started, 2=started, 3=closed',
+    },
+    fields: {
+      id: 'Unique workflow status identifier',
+      name: 'Status name (kanban column title)',
+      position: 'Column order within the workflow',
+      category: 'Category: not_started, started or closed',
+    },
+    includes: ['workflow'],
+    examples: [
+      {
+        description: 'List the kanban columns of a project',
+        params: { resource: 'workflow_statuses', action: 'list', project_id: '12345' },
+      },
+      {
+        description: 'Add a review column',
+        params: {
+          resource: 'workflow_statuses',
+          action: 'create',
+          name: 'In review',
+          workflow_id: '42',
+          category: 'started',
+        },
+      },
+      {
+        description: 'Move a column to the front',
+        params: { resource: 'workflow_statuses', action: 'update', id: '222', position: 1 },
+      },
+    ],
+  },
+
   workflows: {
     description:
       'Compound workflows that chain multiple resource operations into a single tool call. Use these for common multi-step patterns.',
@@ -790,7 +1178,7 @@ const RESOURCE_HELP: Record<string, ResourceHelp> = {
       date: '(log_day) Optional. Default date for all entries (YYYY-MM-DD, defaults to today)',
       person_id: '(log_day / weekly_standup) Optional. Person to act on (defaults to current user)',
       week_start:
-        '(weekly_standup) Optional. Monday date of the target week (defaults to this Monday)',
+        '(weekly_standup) Optional. Monday date of the target week, or an expression like "last week" or "2026-W42" (defaults to this week)',
     },
     examples: [
       {
@@ -842,6 +1230,38 @@ const RESOURCE_HELP: Record<string, ResourceHelp> = {
     ],
   },
 
+  history: {
+    description:
+      'Writes sent with your credentials since the server started (last 100), recorded with ' +
+      'the record as it was before updates and deletes so that they can be reverted.',
+    actions: {
+      list: 'List recorded writes, most recent first',
+      undo: 'Revert the last write, or every write since id, most recent first. Previews unless confirm=true',
+    },
+    fields: {
+      id: '(undo) Optional. History id of the oldest write to revert',
+      confirm: '(undo) Set to true to revert; without it the writes are only listed',
+      description: 'What the write did, e.g. "Update tasks 123 (title)"',
+      undoable:
+        'Whether the write can be reverted: creates, updates, deletes (re-created with a new ID), archive and restore',
+      undone: 'Whether the write was reverted already',
+    },
+    examples: [
+      {
+        description: 'List recent writes',
+        params: { resource: 'history', action: 'list' },
+      },
+      {
+        description: 'Preview undoing every write since history id 12',
+        params: { resource: 'history', action: 'undo', id: '12' },
+      },
+      {
+        description: 'Undo the last write',
+        params: { resource: 'history', action: 'undo', confirm: true },
+      },
+    ],
+  },
+
   custom_fields: {
     description:
       'Custom field definitions — list and inspect custom fields configured in your organization. ' +
@@ -982,13 +1402,14 @@ const RESOURCE_HELP: Record<string, ResourceHelp> = {
       company_id: 'Filter by company',
       after: 'Filter from date (YYYY-MM-DD)',
       before: 'Filter to date (YYYY-MM-DD)',
+      period: 'Date range for from/to: this-month, last-quarter, q3, ytd, 2026-W42',
     },
     fields: {
       report_type:
         'Type of report: time_reports, project_reports, budget_reports, person_reports, invoice_reports, payment_reports, service_reports, task_reports, company_reports, deal_reports, timesheet_reports',
       group: 'Grouping dimension (varies by report type)',
-      from: 'Start date for date range',
-      to: 'End date for date range',
+      from: 'Start date for date range (YYYY-MM-DD or e.g. "last monday", "q3")',
+      to: 'End date for date range (YYYY-MM-DD or e.g. "yesterday"); periods end on their last day',
     },
     examples: [
       {
@@ -1002,6 +1423,15 @@ const RESOURCE_HELP: Record<string, ResourceHelp> = {
           to: '2024-01-31',
         },
       },
+      {
+        description: 'Invoice report for last quarter',
+        params: {
+          resource: 'reports',
+          action: 'get',
+          report_type: 'invoice_reports',
+          filter: { period: 'last-quarter' },
+        },
+      },
       {
         description: 'Project budget report',
         params: {
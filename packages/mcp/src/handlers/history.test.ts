@@ -0,0 +1,137 @@
+/**
+ * Tests for the history resource handler.
+ */
+
+import type { ExecutorContext } from '@studiometa/productive-core';
+
+import { describe, it, expect, vi } from 'vitest';
+
+import type { HandlerContext } from './types.js';
+
+import { getUndoJournal } from '../journal.js';
+import { parsePolicy, setPolicy } from '../policy/index.js';
+import { handleHistory } from './history.js';
+
+let credentialCount = 0;
+
+/** Fresh credentials, so that every test starts with an empty journal */
+const createCredentials = () => ({
+  apiToken: `token-${++credentialCount}`,
+  organizationId: 'org',
+  userId: '500',
+});
+
+const createMockHandlerContext = (api: Partial<ExecutorContext['api']> = {}): HandlerContext => {
+  const execCtx = {
+    api: api as ExecutorContext['api'],
+    resolver: { resolveValue: vi.fn(), resolveFilters: vi.fn() },
+    config: { organizationId: 'org' },
+  } as unknown as ExecutorContext;
+  return { formatOptions: {}, perPage: 20, executor: () => execCtx };
+};
+
+const parse = (result: { content: unknown }) =>
+  JSON.parse((result.content as Array<{ text: string }>)[0].text);
+
+const createdComment = {
+  method: 'POST' as const,
+  path: '/comments',
+  resourceType: 'comments',
+  resourceId: '9',
+};
+
+const updatedTask = {
+  method: 'PATCH' as const,
+  path: '/tasks/5',
+  resourceType: 'tasks',
+  resourceId: '5',
+  body: { data: { attributes: { title: 'New' } } },
+  before: { id: '5', type: 'tasks', attributes: { title: 'Old' } },
+};
+
+describe('history handler', () => {
+  it('lists recorded writes, most recent first', async () => {
+    const credentials = createCredentials();
+    await getUndoJournal(credentials).record(createdComment);
+    await getUndoJournal(credentials).record(updatedTask);
+
+    const result = await handleHistory('list', {}, createMockHandlerContext(), credentials);
+
+    expect(parse(result).data).toMatchObject([
+      { id: '2', description: 'Update tasks 5 (title)', undoable: true, undone: false },
+      { id: '1', description: 'Create comments 9', undoable: true, undone: false },
+    ]);
+  });
+
+  it('previews undoing the last write without confirm', async () => {
+    const credentials = createCredentials();
+    await getUndoJournal(credentials).record(createdComment);
+    const requestRaw = vi.fn();
+
+    const result = await handleHistory(
+      'undo',
+      {},
+      createMockHandlerContext({ requestRaw }),
+      credentials,
+    );
+
+    expect(requestRaw).not.toHaveBeenCalled();
+    const data = parse(result);
+    expect(data).toMatchObject({ dry_run: true, total: 1 });
+    expect(data._hints[0]).toContain('confirm=true');
+  });
+
+  it('reverts every write since id with confirm=true', async () => {
+    const credentials = createCredentials();
+    const journal = getUndoJournal(credentials);
+    await journal.record(createdComment);
+    await journal.record(updatedTask);
+    const requestRaw = vi.fn().mockResolvedValue({});
+    const ctx = createMockHandlerContext({ requestRaw });
+
+    const result = await handleHistory('undo', { id: '1', confirm: true }, ctx, credentials);
+
+    expect(requestRaw.mock.calls.map((call) => call[0])).toEqual(['/tasks/5', '/comments/9']);
+    expect(parse(result)).toMatchObject({ dry_run: false, undone: 2 });
+    expect(journal.recent({ pendingOnly: true })).toEqual([]);
+  });
+
+  it('checks the reverts against the policy', async () => {
+    const credentials = createCredentials();
+    await getUndoJournal(credentials).record(createdComment);
+    const requestRaw = vi.fn().mockResolvedValue({});
+    setPolicy(parsePolicy({ rules: [{ resource: 'comments', action: 'delete', effect: 'deny' }] }));
+
+    try {
+      const result = await handleHistory(
+        'undo',
+        { confirm: true },
+        createMockHandlerContext({ requestRaw }),
+        credentials,
+      );
+
+      expect(result.isError).toBe(true);
+      expect((result.content[0] as { text: string }).text).toContain(
+        'Policy denies DELETE /comments/9',
+      );
+      expect(requestRaw).not.toHaveBeenCalled();
+    } finally {
+      setPolicy(null);
+    }
+  });
+
+  it('rejects unknown actions and invalid ids', async () => {
+    const credentials = createCredentials();
+
+    const unknown = await handleHistory('delete', {}, createMockHandlerContext(), credentials);
+    const invalid = await handleHistory(
+      'undo',
+      { id: 'last' },
+      createMockHandlerContext(),
+      credentials,
+    );
+
+    expect(unknown.isError).toBe(true);
+    expect(invalid.isError).toBe(true);
+  });
+});
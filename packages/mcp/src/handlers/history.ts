@@ -0,0 +1,102 @@
+/**
+ * History MCP handler.
+ *
+ * Lists the writes made with the caller's credentials and reverts the most
+ * recent ones. Standalone routing like workflows.ts: the journal belongs to
+ * the credential, not to the API.
+ *
+ * Supported actions:
+ * - list: Recorded writes, most recent first
+ * - undo: Revert the last write, or every write since `id` (preview without
+ *   confirm=true)
+ */
+
+import { buildRevertRequest } from '@studiometa/productive-api';
+import { canUndo, describeRecordedMutation, undoMutations } from '@studiometa/productive-core';
+
+import type { ProductiveCredentials } from '../auth.js';
+import type { HandlerContext, ToolResult } from './types.js';
+
+import { ErrorMessages, UserInputError } from '../errors.js';
+import { getUndoJournal } from '../journal.js';
+import { evaluateApiRequest, getPolicy } from '../policy/index.js';
+import { inputErrorResult, jsonResult } from './utils.js';
+
+const VALID_ACTIONS = ['list', 'undo', 'help'];
+
+interface HistoryArgs {
+  /** Journal ID of the oldest write to revert */
+  id?: string;
+  /** Revert the writes, otherwise only preview them */
+  confirm?: boolean;
+}
+
+/**
+ * Handle history resource.
+ *
+ * Supports: list, undo
+ */
+export async function handleHistory(
+  action: string,
+  args: HistoryArgs,
+  ctx: HandlerContext,
+  credentials: ProductiveCredentials,
+): Promise<ToolResult> {
+  if (!VALID_ACTIONS.includes(action)) {
+    return inputErrorResult(ErrorMessages.invalidAction(action, 'history', VALID_ACTIONS));
+  }
+
+  const journal = getUndoJournal(credentials);
+
+  if (action === 'list') {
+    return jsonResult({
+      data: journal.recent({ limit: ctx.perPage }).map((entry) => ({
+        id: String(entry.id),
+        recorded_at: new Date(entry.recordedAt).toISOString(),
+        description: describeRecordedMutation(entry.mutation),
+        undoable: canUndo(entry.mutation),
+        undone: entry.undoneAt !== undefined,
+      })),
+    });
+  }
+
+  const since = args.id === undefined ? undefined : Number(args.id);
+  if (since !== undefined && !Number.isInteger(since)) {
+    return inputErrorResult(
+      new UserInputError(`Invalid history id: ${args.id}`, [
+        'Use the id of an entry from resource="history" action="list"',
+      ]),
+    );
+  }
+
+  const entries =
+    since === undefined ? journal.recent({ limit: 1, pendingOnly: true }) : journal.since(since);
+  const dryRun = args.confirm !== true;
+
+  // Reverts are writes of their own (a create is undone by a delete), held to
+  // the policy like the same requests sent through api_write
+  if (!dryRun) {
+    for (const entry of entries) {
+      const revert = buildRevertRequest(entry.mutation);
+      const violation =
+        revert && evaluateApiRequest(getPolicy(), { ...revert, confirm: true }, credentials);
+      if (violation) return inputErrorResult(violation);
+    }
+  }
+
+  const result = await undoMutations({ entries, dryRun }, ctx.executor());
+
+  journal.markUndone(
+    result.data.items.filter((item) => item.status === 'undone').map((item) => item.id),
+  );
+
+  if (dryRun && result.data.total > result.data.failed) {
+    return jsonResult({
+      ...result.data,
+      _hints: [
+        `Nothing was reverted. Call again with confirm=true to undo these ${result.data.total} changes`,
+      ],
+    });
+  }
+  return jsonResult(result.data);
+}
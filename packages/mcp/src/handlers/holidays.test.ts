@@ -0,0 +1,90 @@
+/**
+ * Tests for the holidays and holiday calendars MCP handlers.
+ */
+
+import type { ExecutorContext } from '@studiometa/productive-core';
+
+import { describe, it, expect, vi } from 'vitest';
+
+import type { HandlerContext } from './types.js';
+
+import { handleHolidayCalendars, handleHolidays } from './holidays.js';
+
+const createMockExecutorContext = (
+  overrides: Partial<ExecutorContext['api']> = {},
+): ExecutorContext => ({
+  api: overrides as ExecutorContext['api'],
+  resolver: {
+    resolveValue: vi.fn(async (value: string) => value),
+    resolveFilters: vi.fn(async (filters: Record<string, string>) => ({
+      resolved: filters,
+      metadata: {},
+    })),
+  },
+  config: { organizationId: 'test-org' },
+});
+
+const createMockHandlerContext = (overrides?: Partial<HandlerContext>): HandlerContext => ({
+  formatOptions: {},
+  perPage: 20,
+  executor: () => createMockExecutorContext(),
+  ...overrides,
+});
+
+const parse = (result: { content: unknown }) =>
+  JSON.parse((result.content as Array<{ text: string }>)[0].text);
+
+describe('handleHolidays', () => {
+  it('lists holidays filtered by calendar and date range', async () => {
+    const getHolidays = vi.fn().mockResolvedValue({
+      data: [
+        {
+          id: '1',
+          type: 'holidays',
+          attributes: { name: 'Bastille Day', date: '2026-07-14' },
+          relationships: { holiday_calendar: { data: { type: 'holiday_calendars', id: '5' } } },
+        },
+      ],
+      meta: {},
+      included: [{ id: '5', type: 'holiday_calendars', attributes: { name: 'France' } }],
+    });
+    const ctx = createMockHandlerContext({
+      executor: () => createMockExecutorContext({ getHolidays }),
+    });
+
+    const result = await handleHolidays(
+      'list',
+      { holiday_calendar_id: '5', from: '2026-01-01', to: '2026-12-31' },
+      ctx,
+    );
+
+    expect(getHolidays).toHaveBeenCalledWith(
+      expect.objectContaining({
+        filter: { holiday_calendar_id: '5', after: '2026-01-01', before: '2026-12-31' },
+        include: ['holiday_calendar'],
+      }),
+    );
+    expect(parse(result).data[0]).toEqual({
+      id: '1',
+      name: 'Bastille Day',
+      date: '2026-07-14',
+      holiday_calendar_name: 'France',
+    });
+  });
+});
+
+describe('handleHolidayCalendars', () => {
+  it('lists holiday calendars', async () => {
+    const getHolidayCalendars = vi.fn().mockResolvedValue({
+      data: [{ id: '5', type: 'holiday_calendars', attributes: { name: 'France', country: 'FR' } }],
+      meta: {},
+    });
+    const ctx = createMockHandlerContext({
+      executor: () => createMockExecutorContext({ getHolidayCalendars }),
+    });
+
+    const result = await handleHolidayCalendars('list', {}, ctx);
+
+    expect(parse(result).data[0]).toMatchObject({ id: '5', name: 'France', country: 'FR' });
+  });
+});
@@ -0,0 +1,40 @@
+/**
+ * Holidays and holiday calendars MCP handlers.
+ */
+
+import { listHolidayCalendars, listHolidays } from '@studiometa/productive-core';
+
+import type { CommonArgs, HolidayArgs } from './types.js';
+
+import { formatHoliday, formatHolidayCalendar } from '../formatters.js';
+import { createResourceHandler } from './factory.js';
+
+export const handleHolidays = createResourceHandler<HolidayArgs>({
+  resource: 'holidays',
+  displayName: 'holiday',
+  actions: ['list'],
+  formatter: formatHoliday,
+  defaultInclude: {
+    list: ['holiday_calendar'],
+  },
+  listFilterFromArgs: (args) => {
+    const filters: Record<string, string> = {};
+    if (args.holiday_calendar_id) filters.holiday_calendar_id = args.holiday_calendar_id;
+    if (args.from) filters.after = args.from;
+    if (args.to) filters.before = args.to;
+    return filters;
+  },
+  executors: {
+    list: listHolidays,
+  },
+});
+
+export const handleHolidayCalendars = createResourceHandler<CommonArgs>({
+  resource: 'holiday_calendars',
+  displayName: 'holiday calendar',
+  actions: ['list'],
+  formatter: formatHolidayCalendar,
+  executors: {
+    list: listHolidayCalendars,
+  },
+});
@@ -6,32 +6,50 @@
  * - productive: resource + action based API
  */
 
-import { ProductiveApi } from '@studiometa/productive-api';
-import { fromHandlerContext, RESOURCES } from '@studiometa/productive-core';
+import { ProductiveApi, type ApiRequestEvent } from '@studiometa/productive-api';
+import {
+  ExecutorValidationError,
+  fromHandlerContext,
+  RESOURCES,
+  type ExecutorContext,
+} from '@studiometa/productive-core';
 
 import type { ProductiveCredentials } from '../auth.js';
 import type { McpFormatOptions } from '../formatters.js';
 import type { HandlerContext, ToolResult } from './types.js';
 
+import { countApiRequest } from '../audit/index.js';
+import { getApiCache } from '../cache/index.js';
 import { ErrorMessages, UserInputError, isUserInputError } from '../errors.js';
+import { getUndoJournal } from '../journal.js';
+import { evaluatePolicy, getPolicy } from '../policy/index.js';
 import {
   ApiReadToolInputSchema,
   ApiWriteToolInputSchema,
   RunScriptToolInputSchema,
   formatValidationErrors,
 } from '../schema.js';
+import { instrumentExecutor, instrumentToolCall, recordApiRequest } from '../telemetry/index.js';
+import { handleAbsences } from './absences.js';
 import { handleActivities } from './activities.js';
 import { handleApiRead, type ApiReadArgs } from './api-read.js';
 import { handleApiWrite, type ApiWriteArgs } from './api-write.js';
 import { handleAttachments } from './attachments.js';
+import { handleAvailability } from './availability.js';
 import { handleBatch } from './batch.js';
+import { handleBoards } from './boards.js';
 import { handleBookings } from './bookings.js';
+import { handleCapacity } from './capacity.js';
 import { handleComments } from './comments.js';
 import { handleCompanies } from './companies.js';
 import { handleCustomFields } from './custom-fields.js';
 import { handleDeals } from './deals.js';
 import { handleDiscussions } from './discussions.js';
+import { handleExpenses } from './expenses.js';
 import { handleHelp, handleHelpOverview, handleHelpSearch } from './help.js';
+import { handleHistory } from './history.js';
+import { handleHolidayCalendars, handleHolidays } from './holidays.js';
+import { handleInvoices } from './invoices.js';
 import { handlePages } from './pages.js';
 import { handlePeople } from './people.js';
 import { runPreValidationGuards } from './pre-validation-guards.js';
@@ -45,11 +63,13 @@ import { handleSearchDocs } from './search-docs.js';
 import { handleSearch } from './search.js';
 import { handleServices } from './services.js';
 import { handleSummaries } from './summaries.js';
+import { handleTaskLists } from './task-lists.js';
 import { handleTasks } from './tasks.js';
 import { handleTime } from './time.js';
 import { handleTimers } from './timers.js';
 import { errorResult, formatError, inputErrorResult, toStringFilter } from './utils.js';
 import { VALID_INCLUDES, validateIncludes } from './valid-includes.js';
+import { handleWorkflowStatuses } from './workflow-statuses.js';
 import { handleWorkflows } from './workflows.js';
 
 // Re-export types
@@ -105,6 +125,24 @@ interface ProductiveArgs {
   started_on?: string;
   ended_on?: string;
   event_id?: string;
+  // Holiday fields
+  holiday_calendar_id?: string;
+  // Invoice fields
+  subject?: string;
+  currency?: string;
+  pay_on?: string;
+  document_type_id?: string;
+  subsidiary_id?: string;
+  // Expense fields
+  amount?: number;
+  reimbursable?: boolean;
+  reason?: string;
+  // Task list, board and workflow status fields
+  board_id?: string;
+  workflow_id?: string;
+  category?: string;
+  position?: number;
+  color_id?: number;
   // Report fields
   report_type?: string;
   group?: string;
@@ -169,12 +207,42 @@ async function routeToHandler(
     case 'bookings':
       return await handleBookings(action, restArgs, ctx);
 
+    case 'absences':
+      return await handleAbsences(action, restArgs, ctx);
+
+    case 'holidays':
+      return await handleHolidays(action, restArgs, ctx);
+
+    case 'holiday_calendars':
+      return await handleHolidayCalendars(action, restArgs, ctx);
+
+    case 'capacity':
+      return await handleCapacity(action, restArgs, ctx);
+
+    case 'availability':
+      return await handleAvailability(action, restArgs, ctx);
+
     case 'pages':
       return await handlePages(action, restArgs, ctx);
 
     case 'discussions':
       return await handleDiscussions(action, restArgs, ctx);
 
+    case 'invoices':
+      return await handleInvoices(action, restArgs, ctx);
+
+    case 'expenses':
+      return await handleExpenses(action, restArgs, ctx);
+
+    case 'task_lists':
+      return await handleTaskLists(action, restArgs, ctx);
+
+    case 'boards':
+      return await handleBoards(action, restArgs, ctx);
+
+    case 'workflow_statuses':
+      return await handleWorkflowStatuses(action, restArgs, ctx);
+
     case 'activities':
       return await handleActivities(action, restArgs, ctx);
 
@@ -190,11 +258,39 @@ async function routeToHandler(
     case 'workflows':
       return await handleWorkflows(action, restArgs, ctx);
 
+    case 'history':
+      return await handleHistory(action, restArgs, ctx, credentials);
+
     default:
       return inputErrorResult(ErrorMessages.unknownResource(resource, VALID_RESOURCES));
   }
 }
 
+/**
+ * Report an API request to the audit log and the metrics
+ */
+function observeApiRequest(event: ApiRequestEvent): void {
+  countApiRequest();
+  recordApiRequest(event);
+}
+
+/**
+ * Executor context of a request; dates follow the credentials' timezone,
+ * then `PRODUCTIVE_TIMEZONE`
+ */
+function createExecutorContext(
+  api: ProductiveApi,
+  credentials: ProductiveCredentials,
+): ExecutorContext {
+  return fromHandlerContext(
+    { api },
+    {
+      userId: credentials.userId,
+      timezone: credentials.timezone ?? process.env.PRODUCTIVE_TIMEZONE,
+    },
+  );
+}
+
 /**
  * Execute a tool with the given credentials and arguments
  */
@@ -203,6 +299,19 @@ export async function executeToolWithCredentials(
   args: Record<string, unknown>,
   credentials: ProductiveCredentials,
 ): Promise<ToolResult> {
+  return instrumentToolCall(name, args, () => executeTool(name, args, credentials));
+}
+
+async function executeTool(
+  name: string,
+  args: Record<string, unknown>,
+  credentials: ProductiveCredentials,
+): Promise<ToolResult> {
+  // Deployment policy applies to every call, including those made by batch,
+  // search and run_script which come back through here
+  const violation = evaluatePolicy(getPolicy(), name, args, credentials);
+  if (violation) return inputErrorResult(violation);
+
   if (name === 'api_read') {
     const parsed = ApiReadToolInputSchema.safeParse(args);
     if (!parsed.success) {
@@ -216,8 +325,10 @@ export async function executeToolWithCredentials(
         userId: credentials.userId,
         baseUrl: process.env.PRODUCTIVE_BASE_URL,
       },
+      cache: getApiCache(credentials),
+      onRequest: observeApiRequest,
     });
-    const execCtx = fromHandlerContext({ api }, { userId: credentials.userId });
+    const execCtx = createExecutorContext(api, credentials);
     return handleApiRead(parsed.data as ApiReadToolArgs, {
       formatOptions: { compact: false },
       perPage: DEFAULT_PER_PAGE,
@@ -240,8 +351,11 @@ export async function executeToolWithCredentials(
         userId: credentials.userId,
         baseUrl: process.env.PRODUCTIVE_BASE_URL,
       },
+      cache: getApiCache(credentials),
+      onRequest: observeApiRequest,
+      journal: getUndoJournal(credentials),
     });
-    const execCtx = fromHandlerContext({ api }, { userId: credentials.userId });
+    const execCtx = createExecutorContext(api, credentials);
     return handleApiWrite(parsed.data as ApiWriteToolArgs, {
       formatOptions: { compact: false },
       perPage: DEFAULT_PER_PAGE,
@@ -310,6 +424,9 @@ export async function executeToolWithCredentials(
       userId: credentials.userId,
       baseUrl: process.env.PRODUCTIVE_BASE_URL,
     },
+    cache: getApiCache(credentials),
+    onRequest: observeApiRequest,
+    journal: getUndoJournal(credentials),
   });
 
   // Default compact to false for 'get' action (single resource), true for 'list'
@@ -357,7 +474,7 @@ export async function executeToolWithCredentials(
 
   // Build handler context — api is not exposed directly.
   // Handlers access executors via ctx.executor() which creates an ExecutorContext.
-  const execCtx = fromHandlerContext({ api }, { userId: credentials.userId });
+  const execCtx = createExecutorContext(api, credentials);
   const ctx: HandlerContext = {
     formatOptions,
     filter: stringFilter,
@@ -384,13 +501,20 @@ export async function executeToolWithCredentials(
 
     // Route to appropriate resource handler
     const resolveArgs = { query, type };
-    return await routeToHandler(resource, action, restArgs, resolveArgs, ctx, credentials);
+    return await instrumentExecutor(resource, action, () =>
+      routeToHandler(resource, action, restArgs, resolveArgs, ctx, credentials),
+    );
   } catch (error) {
     // Handle UserInputError with formatted hints
     if (isUserInputError(error)) {
       return formatError(error);
     }
 
+    // Executors reject bad input (e.g. an unknown date expression) before calling the API
+    if (error instanceof ExecutorValidationError) {
+      return inputErrorResult(new UserInputError(error.message));
+    }
+
     // Handle API errors with status codes
     const message = error instanceof Error ? error.message : String(error);
     const statusMatch = message.match(/(\d{3})/);
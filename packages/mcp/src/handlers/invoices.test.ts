@@ -0,0 +1,198 @@
+/**
+ * Tests for the invoices MCP handler.
+ */
+
+import type { JsonApiResource } from '@studiometa/productive-api';
+import type { ExecutorContext } from '@studiometa/productive-core';
+
+import { describe, it, expect, vi } from 'vitest';
+
+import type { HandlerContext } from './types.js';
+
+import { handleInvoices } from './invoices.js';
+
+const mockInvoice: JsonApiResource = {
+  id: '1',
+  type: 'invoices',
+  attributes: {
+    number: null,
+    subject: 'March retainer',
+    invoiced_on: '2026-03-31',
+    pay_on: '2026-04-30',
+    currency: 'EUR',
+    amount: 125000,
+    amount_tax: 25000,
+    amount_with_tax: 150000,
+    amount_unpaid: 150000,
+    finalized_on: null,
+    paid_on: null,
+    note: '<p>Thanks!</p>',
+  },
+  relationships: {
+    company: { data: { type: 'companies', id: '10' } },
+  },
+};
+
+const mockLineItem: JsonApiResource = {
+  id: '100',
+  type: 'line_items',
+  attributes: {
+    description: 'Development',
+    quantity: '10.0',
+    unit_price: 12500,
+    amount: 125000,
+    amount_with_tax: 150000,
+  },
+};
+
+const createMockExecutorContext = (
+  overrides: Partial<ExecutorContext['api']> = {},
+): ExecutorContext => ({
+  api: overrides as ExecutorContext['api'],
+  resolver: {
+    resolveValue: vi.fn(async (value: string) => value),
+    resolveFilters: vi.fn(async (filters: Record<string, string>) => ({
+      resolved: filters,
+      metadata: {},
+    })),
+  },
+  config: { organizationId: 'test-org' },
+});
+
+const createMockHandlerContext = (overrides?: Partial<HandlerContext>): HandlerContext => ({
+  formatOptions: {},
+  perPage: 20,
+  executor: () => createMockExecutorContext(),
+  ...overrides,
+});
+
+const parse = (result: { content: unknown }) =>
+  JSON.parse((result.content as Array<{ text: string }>)[0].text);
+
+describe('handleInvoices', () => {
+  describe('list action', () => {
+    it('returns formatted invoices with amounts in currency units', async () => {
+      const getInvoices = vi.fn().mockResolvedValue({
+        data: [mockInvoice],
+        meta: { current_page: 1, total_pages: 1, total_count: 1 },
+      });
+      const ctx = createMockHandlerContext({
+        executor: () => createMockExecutorContext({ getInvoices }),
+      });
+
+      const result = await handleInvoices('list', {}, ctx);
+
+      expect(result.isError).toBeUndefined();
+      const content = parse(result);
+      expect(content.data[0].subject).toBe('March retainer');
+      expect(content.data[0].status).toBe('draft');
+      expect(content.data[0].amount_with_tax).toBe(1500);
+    });
+
+    it('maps status and company_id args to filters', async () => {
+      const getInvoices = vi.fn().mockResolvedValue({ data: [], meta: {} });
+      const ctx = createMockHandlerContext({
+        executor: () => createMockExecutorContext({ getInvoices }),
+      });
+
+      await handleInvoices('list', { status: 'draft', company_id: '10' }, ctx);
+
+      const callArgs = getInvoices.mock.calls[0][0];
+      expect(callArgs.filter).toMatchObject({ invoice_status: '1', company_id: '10' });
+      expect(callArgs.include).toContain('company');
+    });
+  });
+
+  describe('create action', () => {
+    it('requires company_id', async () => {
+      const result = await handleInvoices(
+        'create',
+        { subject: 'Missing company' },
+        createMockHandlerContext(),
+      );
+
+      expect(result.isError).toBe(true);
+      expect((result.content as Array<{ text: string }>)[0].text).toContain('company_id');
+    });
+
+    it('creates a draft invoice', async () => {
+      const createInvoice = vi.fn().mockResolvedValue({ data: mockInvoice });
+      const ctx = createMockHandlerContext({
+        executor: () => createMockExecutorContext({ createInvoice }),
+      });
+
+      const result = await handleInvoices(
+        'create',
+        { company_id: '10', subject: 'March retainer', date: '2026-03-31', currency: 'EUR' },
+        ctx,
+      );
+
+      expect(result.isError).toBeUndefined();
+      expect(createInvoice).toHaveBeenCalledWith(
+        expect.objectContaining({
+          company_id: '10',
+          subject: 'March retainer',
+          invoiced_on: '2026-03-31',
+          currency: 'EUR',
+        }),
+      );
+      expect(parse(result).success).toBe(true);
+    });
+  });
+
+  describe('finalize action', () => {
+    it('requires id', async () => {
+      const result = await handleInvoices('finalize', {}, createMockHandlerContext());
+
+      expect(result.isError).toBe(true);
+    });
+
+    it('finalizes the invoice', async () => {
+      const finalizeInvoice = vi.fn().mockResolvedValue({
+        data: {
+          ...mockInvoice,
+          attributes: { ...mockInvoice.attributes, number: '2026-001', finalized_on: '2026-04-01' },
+        },
+      });
+      const ctx = createMockHandlerContext({
+        executor: () => createMockExecutorContext({ finalizeInvoice }),
+      });
+
+      const result = await handleInvoices('finalize', { id: '1' }, ctx);
+
+      expect(finalizeInvoice).toHaveBeenCalledWith('1');
+      const content = parse(result);
+      expect(content.success).toBe(true);
+      expect(content.status).toBe('finalized');
+      expect(content.number).toBe('2026-001');
+    });
+  });
+
+  describe('line_items action', () => {
+    it('requires id', async () => {
+      const result = await handleInvoices('line_items', {}, createMockHandlerContext());
+
+      expect(result.isError).toBe(true);
+    });
+
+    it('lists line items filtered by invoice', async () => {
+      const getLineItems = vi.fn().mockResolvedValue({ data: [mockLineItem], meta: {} });
+      const ctx = createMockHandlerContext({
+        executor: () => createMockExecutorContext({ getLineItems }),
+      });
+
+      const result = await handleInvoices('line_items', { id: '1' }, ctx);
+
+      expect(getLineItems.mock.calls[0][0].filter).toEqual({ invoice_id: '1' });
+      const content = parse(result);
+      expect(content.data[0].description).toBe('Development');
+      expect(content.data[0].unit_price).toBe(125);
+    });
+  });
+
+  it('rejects unknown actions', async () => {
+    const result = await handleInvoices('delete', { id: '1' }, createMockHandlerContext());
+
+    expect(result.isError).toBe(true);
+  });
+});
@@ -0,0 +1,100 @@
+/**
+ * Invoices MCP handler.
+ */
+
+import {
+  listInvoices,
+  getInvoice,
+  createInvoice,
+  updateInvoice,
+  finalizeInvoice,
+  listLineItems,
+} from '@studiometa/productive-core';
+
+import type { InvoiceArgs } from './types.js';
+
+import { ErrorMessages } from '../errors.js';
+import { formatInvoice, formatLineItem, formatListResponse } from '../formatters.js';
+import { getInvoiceHints } from '../hints.js';
+import { createResourceHandler } from './factory.js';
+import { inputErrorResult, jsonResult } from './utils.js';
+
+/**
+ * Map user-friendly status to API invoice_status filter value
+ */
+const STATUS_MAP: Record<string, string> = {
+  draft: '1',
+  finalized: '2',
+};
+
+export const handleInvoices = createResourceHandler<InvoiceArgs>({
+  resource: 'invoices',
+  displayName: 'invoice',
+  actions: ['list', 'get', 'create', 'update', 'finalize', 'line_items'],
+  formatter: formatInvoice,
+  hints: (data, id) => {
+    const companyId = data.relationships?.company?.data?.id;
+    return getInvoiceHints(id, companyId);
+  },
+  defaultInclude: {
+    list: ['company'],
+    get: ['company'],
+  },
+  listFilterFromArgs: (args) => {
+    const filters: Record<string, string> = {};
+    if (args.company_id) filters.company_id = args.company_id;
+    if (args.deal_id) filters.deal_id = args.deal_id;
+    if (args.status) {
+      const mapped = STATUS_MAP[args.status.toLowerCase()];
+      if (mapped) filters.invoice_status = mapped;
+    }
+    return filters;
+  },
+  create: {
+    required: ['company_id'],
+    mapOptions: (args) => ({
+      companyId: args.company_id,
+      documentTypeId: args.document_type_id,
+      subsidiaryId: args.subsidiary_id,
+      invoicedOn: args.date,
+      payOn: args.pay_on,
+      currency: args.currency,
+      subject: args.subject,
+      note: args.note,
+    }),
+  },
+  update: {
+    allowedFields: ['subject', 'date', 'pay_on', 'currency', 'note'],
+    mapOptions: (args) => ({
+      subject: args.subject,
+      invoicedOn: args.date,
+      payOn: args.pay_on,
+      currency: args.currency,
+      note: args.note,
+    }),
+  },
+  customActions: {
+    finalize: async (args, ctx, execCtx) => {
+      if (!args.id) return inputErrorResult(ErrorMessages.missingId('finalize'));
+      const result = await finalizeInvoice({ id: args.id }, execCtx);
+      return jsonResult({ success: true, ...formatInvoice(result.data, ctx.formatOptions) });
+    },
+    line_items: async (args, ctx, execCtx) => {
+      if (!args.id) return inputErrorResult(ErrorMessages.missingId('line_items'));
+      const result = await listLineItems(
+        { invoiceId: args.id, page: ctx.page, perPage: ctx.perPage },
+        execCtx,
+      );
+      const formatOptions = { ...ctx.formatOptions, included: result.included };
+      return jsonResult(
+        formatListResponse(result.data, formatLineItem, result.meta, formatOptions),
+      );
+    },
+  },
+  executors: {
+    list: listInvoices,
+    get: getInvoice,
+    create: createInvoice,
+    update: updateInvoice,
+  },
+});
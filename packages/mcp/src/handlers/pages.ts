@@ -4,6 +4,7 @@
  * Uses the createResourceHandler factory for the common list/get/create/update/delete pattern.
  */
 
+import { markdownToHtml } from '@studiometa/productive-api';
 import {
   listPages,
   getPage,
@@ -37,12 +38,12 @@ export const handlePages = createResourceHandler<PageArgs>({
     mapOptions: (args) => ({
       title: args.title,
       projectId: args.project_id,
-      body: args.body,
+      body: markdownToHtml(args.body),
       parentPageId: args.parent_page_id,
     }),
   },
   update: {
-    mapOptions: (args) => ({ title: args.title, body: args.body }),
+    mapOptions: (args) => ({ title: args.title, body: markdownToHtml(args.body) }),
   },
   executors: {
     list: listPages,
@@ -79,5 +79,6 @@ export async function handleReports(
   return jsonResult({
     data: formattedData,
     meta: result.meta,
+    ...(result.dates && { _dates: result.dates }),
   });
 }
@@ -20,7 +20,7 @@ export type { ResolvableResourceType, ResolveResult } from '@studiometa/producti
  */
 interface ResolveArgs {
   query?: string;
-  type?: 'person' | 'project' | 'company' | 'deal' | 'service';
+  type?: 'person' | 'project' | 'company' | 'deal' | 'service' | 'task_list';
   project_id?: string;
 }
 
@@ -20,6 +20,7 @@ import { isRunScriptEnabled, resolveRunLimits } from '../run/limits.js';
 import { resolveRunnerConfig, runScriptRemote } from '../run/remote.js';
 import { renderRunResult } from '../run/render.js';
 import { stripTypes } from '../run/strip.js';
+import { classifyScriptError, recordScriptRun } from '../telemetry/index.js';
 import { errorResult, inputErrorResult } from './utils.js';
 
 export interface RunScriptArgs {
@@ -107,6 +108,7 @@ export async function handleRunScript(
   const dryRun = rawArgs.dry_run === true;
   const controller = new AbortController();
   const timer = setTimeout(() => controller.abort(), limits.timeoutMs);
+  const startedAt = performance.now();
 
   try {
     const bridge = createBridge({ credentials, exec, limits, dryRun, signal: controller.signal });
@@ -119,6 +121,8 @@ export async function handleRunScript(
       hostCall: (channel, payload) => bridge.call(channel as BridgeChannel, payload),
     });
 
+    recordScriptRun('success', performance.now() - startedAt);
+
     const stats = bridge.getStats();
     const run = {
       apiCalls: stats.apiCalls,
@@ -140,10 +144,12 @@ export async function handleRunScript(
       structuredContent: { result: result.result, output: result.output, _run: run },
     };
   } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    recordScriptRun(classifyScriptError(message), performance.now() - startedAt);
     if (error instanceof ScriptError) {
       return errorResult(error.message);
     }
-    return errorResult(error instanceof Error ? error.message : String(error));
+    return errorResult(message);
   } finally {
     clearTimeout(timer);
   }
@@ -305,6 +305,145 @@ const RESOURCE_SCHEMAS: Record<string, ResourceSchemaData> = {
     },
   },
 
+  invoices: {
+    actions: ['list', 'get', 'create', 'update', 'finalize', 'line_items'],
+    filters: {
+      company_id: 'string|array',
+      deal_id: 'string|array',
+      project_id: 'string|array',
+      invoice_status: '1=draft|2=finalized',
+      invoice_type: '1=invoice|2=credit_note',
+      invoiced_on_after: 'date ISO 8601',
+      invoiced_on_before: 'date ISO 8601',
+    },
+    create: {
+      company_id: { required: true, type: 'string' },
+      document_type_id: { required: false, type: 'string' },
+      subsidiary_id: { required: false, type: 'string' },
+      date: { required: false, type: 'string (YYYY-MM-DD, defaults to today)' },
+      pay_on: { required: false, type: 'string (YYYY-MM-DD)' },
+      currency: { required: false, type: 'string' },
+      subject: { required: false, type: 'string' },
+      note: { required: false, type: 'string' },
+    },
+    includes: ['company', 'document_type', 'subsidiary', 'creator', 'bill_to', 'bill_from'],
+  },
+
+  expenses: {
+    actions: ['list', 'get', 'create', 'update', 'approve', 'reject'],
+    filters: {
+      person_id: 'string|array',
+      project_id: 'string|array',
+      deal_id: 'string|array',
+      service_id: 'string|array',
+      approval_status: '1=approved|2=pending|3=rejected',
+      after: 'date ISO 8601',
+      before: 'date ISO 8601',
+    },
+    create: {
+      name: { required: true, type: 'string' },
+      amount: { required: true, type: 'number (currency units)' },
+      date: { required: false, type: 'string (YYYY-MM-DD, defaults to today)' },
+      currency: { required: false, type: 'string' },
+      deal_id: { required: false, type: 'string' },
+      service_id: { required: false, type: 'string' },
+      person_id: { required: false, type: 'string' },
+      reimbursable: { required: false, type: 'boolean' },
+    },
+    includes: ['deal', 'service', 'person', 'vendor', 'approver', 'attachments'],
+  },
+
+  task_lists: {
+    actions: ['list', 'get', 'create', 'update', 'archive', 'restore'],
+    filters: {
+      project_id: 'string|array',
+      board_id: 'string|array',
+      status: '1=active|2=archived',
+    },
+    create: {
+      name: { required: true, type: 'string' },
+      project_id: { required: true, type: 'string' },
+      board_id: { required: false, type: "string (defaults to the project's first board)" },
+      position: { required: false, type: 'number' },
+    },
+    includes: ['project', 'board'],
+  },
+
+  boards: {
+    actions: ['list', 'get', 'create', 'update', 'archive', 'restore'],
+    filters: {
+      project_id: 'string|array',
+      status: '1=active|2=archived',
+    },
+    create: {
+      name: { required: true, type: 'string' },
+      project_id: { required: true, type: 'string' },
+      position: { required: false, type: 'number' },
+    },
+    includes: ['project'],
+  },
+
+  workflow_statuses: {
+    actions: ['list', 'get', 'create', 'update'],
+    filters: {
+      workflow_id: 'string|array',
+      category_id: '1=not_started|2=started|3=closed',
+    },
+    create: {
+      name: { required: true, type: 'string' },
+      workflow_id: { required: true, type: 'string' },
+      category: { required: true, type: 'not_started|started|closed' },
+      position: { required: false, type: 'number' },
+      color_id: { required: false, type: 'number' },
+    },
+    includes: ['workflow'],
+  },
+
+  absences: {
+    actions: ['list'],
+    filters: {
+      person_id: 'string|array',
+      event_id: 'string|array — absence category',
+      after: 'date YYYY-MM-DD',
+      before: 'date YYYY-MM-DD',
+    },
+    includes: ['person', 'event', 'approver'],
+  },
+
+  holidays: {
+    actions: ['list'],
+    filters: {
+      holiday_calendar_id: 'string|array',
+      after: 'date YYYY-MM-DD',
+      before: 'date YYYY-MM-DD',
+    },
+    includes: ['holiday_calendar'],
+  },
+
+  holiday_calendars: {
+    actions: ['list'],
+    filters: {},
+  },
+
+  capacity: {
+    actions: ['list'],
+    filters: {
+      person_id: 'string|array',
+      after: 'date YYYY-MM-DD',
+      before: 'date YYYY-MM-DD',
+    },
+    includes: ['person', 'holiday_calendar'],
+  },
+
+  availability: {
+    actions: ['get'],
+    filters: {
+      person_id: 'string — comma-separated IDs; defaults to all active users',
+      from: 'date YYYY-MM-DD — required',
+      to: 'date YYYY-MM-DD — defaults to from, max 92 days',
+    },
+  },
+
   custom_fields: {
     actions: ['list', 'get'],
     filters: {
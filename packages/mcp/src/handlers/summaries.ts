@@ -6,9 +6,12 @@
  */
 
 import {
+  DEFAULT_FORECAST_LOOKBACK_DAYS,
+  getDealForecast,
   getMyDaySummary,
   getProjectHealthSummary,
   getTeamPulseSummary,
+  MAX_FORECAST_LOOKBACK_DAYS,
 } from '@studiometa/productive-core';
 
 import type { HandlerContext, ToolResult } from './types.js';
@@ -17,16 +20,19 @@ import { ErrorMessages, UserInputError } from '../errors.js';
 import { getMyDaySuggestions } from '../suggestions.js';
 import { inputErrorResult, jsonResult } from './utils.js';
 
-const VALID_ACTIONS = ['my_day', 'project_health', 'team_pulse', 'help'];
+const VALID_ACTIONS = ['my_day', 'project_health', 'team_pulse', 'forecast', 'help'];
 
 interface SummaryArgs {
   project_id?: string;
+  deal_id?: string;
+  /** Days of time entries the forecast burn rate is measured on */
+  lookback_days?: number;
 }
 
 /**
  * Handle summaries resource.
  *
- * Supports: my_day, project_health, team_pulse
+ * Supports: my_day, project_health, team_pulse, forecast
  */
 export async function handleSummaries(
   action: string,
@@ -71,6 +77,23 @@ export async function handleSummaries(
       return jsonResult(result.data);
     }
 
+    case 'forecast': {
+      if (!args.deal_id) {
+        return inputErrorResult(
+          new UserInputError('deal_id is required for forecast summary', [
+            'Provide the deal_id parameter (a deal or budget)',
+            'You can find deal IDs using resource="deals" action="list"',
+          ]),
+        );
+      }
+
+      const result = await getDealForecast(
+        { id: args.deal_id, lookbackDays: args.lookback_days },
+        execCtx,
+      );
+      return jsonResult({ summary_type: 'forecast', ...result.data });
+    }
+
     case 'help': {
       return jsonResult({
         resource: 'summaries',
@@ -93,7 +116,7 @@ export async function handleSummaries(
             returns: {
               project: 'Project details',
               tasks: 'Open and overdue task counts',
-              budget: 'Budget burn rate by service',
+              budget: 'Budget burn rate by service, plus project expenses',
               recent_activity: 'Time tracking activity in last 7 days',
             },
           },
@@ -103,6 +126,22 @@ export async function handleSummaries(
             returns: {
               team: 'Counts of active users, those tracking time, and with timers',
               people: 'Per-person breakdown of time logged and active timers',
+              out_today: 'People on holiday or with an absence booked today',
+            },
+          },
+          forecast: {
+            description:
+              'Budget burn projection of a deal: when each service runs out of hours and revenue',
+            parameters: {
+              deal_id: 'Required. Deal (budget) ID',
+              lookback_days: `Days of time entries the burn rate is measured on (1-${MAX_FORECAST_LOOKBACK_DAYS}, default ${DEFAULT_FORECAST_LOOKBACK_DAYS})`,
+            },
+            returns: {
+              status: 'Most severe service status: over_budget, at_risk, on_track or no_budget',
+              services:
+                'Per service: burn rate over the lookback window, future bookings, exhaustion date, projected overrun at the deal end date and revenue',
+              totals: 'All services projected together',
+              overruns: 'IDs of services over budget or projected to run out before the deal ends',
             },
           },
         },
@@ -0,0 +1,168 @@
+/**
+ * Tests for the task lists MCP handler.
+ */
+
+import type { JsonApiResource } from '@studiometa/productive-api';
+import type { ExecutorContext } from '@studiometa/productive-core';
+
+import { describe, it, expect, vi } from 'vitest';
+
+import type { HandlerContext } from './types.js';
+
+import { handleTaskLists } from './task-lists.js';
+
+const mockTaskList: JsonApiResource = {
+  id: '1',
+  type: 'task_lists',
+  attributes: { name: 'Sprint 12', position: 2, archived_at: null },
+  relationships: {
+    project: { data: { type: 'projects', id: '5' } },
+    board: { data: { type: 'boards', id: '6' } },
+  },
+};
+
+const createMockExecutorContext = (
+  overrides: Partial<ExecutorContext['api']> = {},
+): ExecutorContext => ({
+  api: overrides as ExecutorContext['api'],
+  resolver: {
+    resolveValue: vi.fn(async (value: string) => value),
+    resolveFilters: vi.fn(async (filters: Record<string, string>) => ({
+      resolved: filters,
+      metadata: {},
+    })),
+  },
+  config: { organizationId: 'test-org' },
+});
+
+const createMockHandlerContext = (overrides?: Partial<HandlerContext>): HandlerContext => ({
+  formatOptions: {},
+  perPage: 20,
+  executor: () => createMockExecutorContext(),
+  ...overrides,
+});
+
+const parse = (result: { content: unknown }) =>
+  JSON.parse((result.content as Array<{ text: string }>)[0].text);
+
+describe('handleTaskLists', () => {
+  describe('list action', () => {
+    it('maps project, board and status args to filters', async () => {
+      const getTaskLists = vi.fn().mockResolvedValue({ data: [mockTaskList], meta: {} });
+      const ctx = createMockHandlerContext({
+        executor: () => createMockExecutorContext({ getTaskLists }),
+      });
+
+      const result = await handleTaskLists(
+        'list',
+        { project_id: '5', board_id: '6', status: 'archived' },
+        ctx,
+      );
+
+      const callArgs = getTaskLists.mock.calls[0][0];
+      expect(callArgs.filter).toEqual({ project_id: '5', board_id: '6', status: '2' });
+      expect(callArgs.include).toEqual(expect.arrayContaining(['project', 'board']));
+      expect(parse(result).data[0].name).toBe('Sprint 12');
+    });
+
+    it('lists active task lists by default', async () => {
+      const getTaskLists = vi.fn().mockResolvedValue({ data: [], meta: {} });
+      const ctx = createMockHandlerContext({
+        executor: () => createMockExecutorContext({ getTaskLists }),
+      });
+
+      await handleTaskLists('list', {}, ctx);
+
+      expect(getTaskLists.mock.calls[0][0].filter).toEqual({ status: '1' });
+    });
+  });
+
+  describe('create action', () => {
+    it('requires name and project_id', async () => {
+      const result = await handleTaskLists(
+        'create',
+        { name: 'Sprint 12' },
+        createMockHandlerContext(),
+      );
+
+      expect(result.isError).toBe(true);
+      expect((result.content as Array<{ text: string }>)[0].text).toContain('project_id');
+    });
+
+    it('creates a task list in the given board', async () => {
+      const createTaskList = vi.fn().mockResolvedValue({ data: mockTaskList });
+      const ctx = createMockHandlerContext({
+        executor: () => createMockExecutorContext({ createTaskList }),
+      });
+
+      const result = await handleTaskLists(
+        'create',
+        { name: 'Sprint 12', project_id: '5', board_id: '6' },
+        ctx,
+      );
+
+      expect(createTaskList).toHaveBeenCalledWith(
+        expect.objectContaining({ name: 'Sprint 12', project_id: '5', board_id: '6' }),
+      );
+      expect(parse(result).success).toBe(true);
+    });
+  });
+
+  describe('update action', () => {
+    it('reorders a task list', async () => {
+      const updateTaskList = vi.fn().mockResolvedValue({ data: mockTaskList });
+      const ctx = createMockHandlerContext({
+        executor: () => createMockExecutorContext({ updateTaskList }),
+      });
+
+      await handleTaskLists('update', { id: '1', position: 1 }, ctx);
+
+      expect(updateTaskList).toHaveBeenCalledWith('1', { position: 1 });
+    });
+  });
+
+  describe('archive / restore actions', () => {
+    it('requires id', async () => {
+      const archive = await handleTaskLists('archive', {}, createMockHandlerContext());
+      const restore = await handleTaskLists('restore', {}, createMockHandlerContext());
+
+      expect(archive.isError).toBe(true);
+      expect(restore.isError).toBe(true);
+    });
+
+    it('archives the task list', async () => {
+      const archiveTaskList = vi.fn().mockResolvedValue({
+        data: {
+          ...mockTaskList,
+          attributes: { ...mockTaskList.attributes, archived_at: '2026-03-02T10:00:00Z' },
+        },
+      });
+      const ctx = createMockHandlerContext({
+        executor: () => createMockExecutorContext({ archiveTaskList }),
+      });
+
+      const result = await handleTaskLists('archive', { id: '1' }, ctx);
+
+      expect(archiveTaskList).toHaveBeenCalledWith('1');
+      expect(parse(result).archived).toBe(true);
+    });
+
+    it('restores the task list', async () => {
+      const restoreTaskList = vi.fn().mockResolvedValue({ data: mockTaskList });
+      const ctx = createMockHandlerContext({
+        executor: () => createMockExecutorContext({ restoreTaskList }),
+      });
+
+      const result = await handleTaskLists('restore', { id: '1' }, ctx);
+
+      expect(restoreTaskList).toHaveBeenCalledWith('1');
+      expect(parse(result).archived).toBe(false);
+    });
+  });
+
+  it('rejects unknown actions', async () => {
+    const result = await handleTaskLists('delete', { id: '1' }, createMockHandlerContext());
+
+    expect(result.isError).toBe(true);
+  });
+});
@@ -0,0 +1,88 @@
+/**
+ * Task lists MCP handler.
+ */
+
+import {
+  listTaskLists,
+  getTaskList,
+  createTaskList,
+  updateTaskList,
+  archiveTaskList,
+  restoreTaskList,
+} from '@studiometa/productive-core';
+
+import type { TaskListArgs } from './types.js';
+
+import { ErrorMessages } from '../errors.js';
+import { formatTaskList } from '../formatters.js';
+import { getTaskListHints } from '../hints.js';
+import { createResourceHandler } from './factory.js';
+import { inputErrorResult, jsonResult } from './utils.js';
+
+/**
+ * Map user-friendly status to API status filter value
+ */
+const STATUS_MAP: Record<string, string> = {
+  active: '1',
+  archived: '2',
+};
+
+export const handleTaskLists = createResourceHandler<TaskListArgs>({
+  resource: 'task_lists',
+  displayName: 'task list',
+  actions: ['list', 'get', 'create', 'update', 'archive', 'restore'],
+  formatter: formatTaskList,
+  hints: (data, id) => {
+    const projectId = data.relationships?.project?.data?.id;
+    return getTaskListHints(id, projectId);
+  },
+  defaultInclude: {
+    list: ['project', 'board'],
+    get: ['project', 'board'],
+  },
+  listFilterFromArgs: (args) => {
+    const filters: Record<string, string> = {};
+    if (args.project_id) filters.project_id = args.project_id;
+    if (args.board_id) filters.board_id = args.board_id;
+    if (args.status) {
+      const mapped = STATUS_MAP[args.status.toLowerCase()];
+      if (mapped) filters.status = mapped;
+    }
+    return filters;
+  },
+  create: {
+    required: ['name', 'project_id'],
+    mapOptions: (args) => ({
+      name: args.name,
+      projectId: args.project_id,
+      boardId: args.board_id,
+      position: args.position,
+    }),
+  },
+  update: {
+    allowedFields: ['name', 'position', 'board_id'],
+    mapOptions: (args) => ({
+      name: args.name,
+      position: args.position,
+      boardId: args.board_id,
+    }),
+  },
+  customActions: {
+    archive: async (args, ctx, execCtx) => {
+      if (!args.id) return inputErrorResult(ErrorMessages.missingId('archive'));
+      const result = await archiveTaskList({ id: args.id }, execCtx);
+      return jsonResult({ success: true, ...formatTaskList(result.data, ctx.formatOptions) });
+    },
+    restore: async (args, ctx, execCtx) => {
+      if (!args.id) return inputErrorResult(ErrorMessages.missingId('restore'));
+      const result = await restoreTaskList({ id: args.id }, execCtx);
+      return jsonResult({ success: true, ...formatTaskList(result.data, ctx.formatOptions) });
+    },
+  },
+  executors: {
+    list: listTaskLists,
+    get: getTaskList,
+    create: createTaskList,
+    update: updateTaskList,
+  },
+});
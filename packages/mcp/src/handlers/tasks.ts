@@ -2,6 +2,7 @@
  * Tasks MCP handler.
  */
 
+import { markdownToHtml } from '@studiometa/productive-api';
 import {
   listTasks,
   getTask,
@@ -15,17 +16,18 @@ import type { TaskArgs } from './types.js';
 import { ErrorMessages } from '../errors.js';
 import { formatTask, formatComment, formatTimeEntry } from '../formatters.js';
 import { getTaskHints } from '../hints.js';
+import { bulkUpdateAction } from './bulk.js';
 import { createResourceHandler } from './factory.js';
 import { inputErrorResult, jsonResult } from './utils.js';
 
 export const handleTasks = createResourceHandler<TaskArgs>({
   resource: 'tasks',
   displayName: 'task',
-  actions: ['list', 'get', 'create', 'update', 'resolve', 'context'],
+  actions: ['list', 'get', 'create', 'update', 'bulk_update', 'resolve', 'context'],
   formatter: formatTask,
-  hints: (data, id) => {
+  hints: (data, id, today) => {
     const serviceId = data.relationships?.service?.data?.id;
-    return getTaskHints(id, serviceId);
+    return getTaskHints(id, serviceId, today);
   },
   supportsResolve: true,
   resolveArgsFromArgs: (args) => ({ project_id: args.project_id }),
@@ -40,17 +42,18 @@ export const handleTasks = createResourceHandler<TaskArgs>({
       projectId: args.project_id,
       taskListId: args.task_list_id,
       assigneeId: args.assignee_id,
-      description: args.description,
+      description: markdownToHtml(args.description),
     }),
   },
   update: {
     mapOptions: (args) => ({
       title: args.title,
-      description: args.description,
+      description: markdownToHtml(args.description),
       assigneeId: args.assignee_id,
     }),
   },
   customActions: {
+    bulk_update: bulkUpdateAction('tasks'),
     context: async (args, ctx, execCtx) => {
       if (!args.id) return inputErrorResult(ErrorMessages.missingId('context'));
       const result = await getTaskContext({ id: args.id }, execCtx);
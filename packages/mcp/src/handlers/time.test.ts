@@ -0,0 +1,136 @@
+/**
+ * Tests for the approve and reject actions of the time handler.
+ */
+
+import type { ExecutorContext } from '@studiometa/productive-core';
+
+import { describe, it, expect, vi } from 'vitest';
+
+import type { HandlerContext } from './types.js';
+
+import { handleTime } from './time.js';
+
+const entries = {
+  data: [
+    {
+      id: '7',
+      type: 'time_entries',
+      attributes: { date: '2026-10-12', time: 90 },
+      relationships: { person: { data: { type: 'people', id: '42' } } },
+    },
+    {
+      id: '8',
+      type: 'time_entries',
+      attributes: { date: '2026-10-13', time: 30 },
+      relationships: { person: { data: { type: 'people', id: '42' } } },
+    },
+  ],
+  included: [{ id: '42', type: 'people', attributes: { first_name: 'Jane', last_name: 'Doe' } }],
+  meta: { total_pages: 1 },
+};
+
+const createMockHandlerContext = (
+  api: Partial<ExecutorContext['api']>,
+  filter?: Record<string, string>,
+): HandlerContext => {
+  const execCtx: ExecutorContext = {
+    api: api as ExecutorContext['api'],
+    resolver: {
+      resolveValue: vi.fn(async (value: string) => value),
+      resolveFilters: vi.fn(async (filters: Record<string, string>) => ({
+        resolved: filters,
+        metadata: {},
+      })),
+    },
+    config: { organizationId: 'test-org' },
+  };
+  return { formatOptions: {}, perPage: 20, filter, executor: () => execCtx };
+};
+
+const parse = (result: { content: unknown }) =>
+  JSON.parse((result.content as Array<{ text: string }>)[0].text);
+
+describe('time approval actions', () => {
+  it('approves a single entry by id', async () => {
+    const approveTimeEntry = vi.fn().mockResolvedValue({ data: entries.data[0] });
+    const ctx = createMockHandlerContext({ approveTimeEntry });
+
+    const result = await handleTime('approve', { id: '7' }, ctx);
+
+    expect(approveTimeEntry).toHaveBeenCalledWith('7');
+    expect(parse(result)).toMatchObject({ success: true, id: '7' });
+  });
+
+  it('returns the approval queue without confirm', async () => {
+    const getTimeEntries = vi.fn().mockResolvedValue(entries);
+    const approveTimeEntry = vi.fn();
+    const ctx = createMockHandlerContext(
+      { getTimeEntries, approveTimeEntry },
+      { person_id: '42', after: '2026-10-12' },
+    );
+
+    const result = await handleTime('approve', {}, ctx);
+
+    expect(approveTimeEntry).not.toHaveBeenCalled();
+    expect(getTimeEntries).toHaveBeenCalledWith(
+      expect.objectContaining({ filter: { person_id: '42', after: '2026-10-12', status: '2' } }),
+    );
+    const data = parse(result);
+    expect(data.people).toEqual([
+      expect.objectContaining({
+        person_name: 'Jane Doe',
+        minutes: 120,
+        time_entry_ids: ['7', '8'],
+      }),
+    ]);
+    expect(data._hints[0]).toContain(
+      'confirm=true and the time_entry_ids as ids to approve these 2 time entries',
+    );
+  });
+
+  it('rejects every matching entry with confirm=true', async () => {
+    const rejectTimeEntry = vi.fn().mockResolvedValue({ data: {} });
+    const ctx = createMockHandlerContext(
+      { getTimeEntries: vi.fn().mockResolvedValue(entries), rejectTimeEntry },
+      { person_id: '42' },
+    );
+
+    const result = await handleTime(
+      'reject',
+      { confirm: true, ids: ['7', '8'], reason: 'Missing notes', concurrency: 1 },
+      ctx,
+    );
+
+    expect(rejectTimeEntry.mock.calls).toEqual([
+      ['7', 'Missing notes'],
+      ['8', 'Missing notes'],
+    ]);
+    expect(parse(result)).toMatchObject({ action: 'bulk_reject', succeeded: 2 });
+  });
+
+  it('only approves the reviewed entries with confirm=true', async () => {
+    const approveTimeEntry = vi.fn().mockResolvedValue({ data: {} });
+    const getTimeEntries = vi.fn().mockResolvedValue(entries);
+    const ctx = createMockHandlerContext({ getTimeEntries, approveTimeEntry }, { person_id: '42' });
+
+    const missing = await handleTime('approve', { confirm: true }, ctx);
+    const stale = await handleTime('approve', { confirm: true, ids: ['7', '9'] }, ctx);
+    const result = await handleTime('approve', { confirm: true, ids: ['8'] }, ctx);
+
+    expect(missing.isError).toBe(true);
+    expect(stale.isError).toBe(true);
+    expect((stale.content as Array<{ text: string }>)[0].text).toContain(
+      '1 of the reviewed time entries no longer match the filter',
+    );
+    expect(approveTimeEntry.mock.calls).toEqual([['8']]);
+    expect(parse(result)).toMatchObject({ action: 'bulk_approve', succeeded: 1 });
+  });
+
+  it('requires an id or a filter', async () => {
+    const getTimeEntries = vi.fn();
+    const result = await handleTime('approve', {}, createMockHandlerContext({ getTimeEntries }));
+
+    expect(result.isError).toBe(true);
+    expect(getTimeEntries).not.toHaveBeenCalled();
+  });
+});
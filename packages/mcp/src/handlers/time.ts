@@ -11,20 +11,117 @@ import {
   createTimeEntry,
   updateTimeEntry,
   deleteTimeEntry,
+  approveTimeEntry,
+  rejectTimeEntry,
+  bulkApprove,
+  getApprovalQueue,
+  type ExecutorContext,
 } from '@studiometa/productive-core';
 
-import type { TimeArgs } from './types.js';
+import type { HandlerContext, TimeArgs, ToolResult } from './types.js';
 
 import { ErrorMessages, UserInputError } from '../errors.js';
 import { formatTimeEntry } from '../formatters.js';
 import { getTimeEntryHints } from '../hints.js';
+import { bulkUpdateAction } from './bulk.js';
 import { createResourceHandler } from './factory.js';
 import { inputErrorResult, jsonResult } from './utils.js';
 
+/**
+ * Create the `approve` or `reject` custom action.
+ *
+ * With an id, the entry changes right away. With a filter, the action returns
+ * the approval queue of the matching unapproved entries unless `confirm: true`
+ * is set, so an agent prepares the list and a human confirms it.
+ */
+function approvalAction(action: 'approve' | 'reject') {
+  return async (
+    args: TimeArgs,
+    ctx: HandlerContext,
+    execCtx: ExecutorContext,
+  ): Promise<ToolResult> => {
+    if (args.id) {
+      const result =
+        action === 'approve'
+          ? await approveTimeEntry({ id: args.id }, execCtx)
+          : await rejectTimeEntry({ id: args.id, reason: args.reason }, execCtx);
+      return jsonResult({ success: true, ...formatTimeEntry(result.data, ctx.formatOptions) });
+    }
+
+    if (!ctx.filter || Object.keys(ctx.filter).length === 0) {
+      return inputErrorResult(
+        new UserInputError(`id or filter is required for ${action}`, [
+          'Provide id to change a single time entry',
+          'Or select entries with the same filters as action="list", e.g. { "filter": { "person_id": "42", "period": "last-week" } }',
+        ]),
+      );
+    }
+
+    if (args.confirm !== true) {
+      const queue = await getApprovalQueue(
+        { additionalFilters: ctx.filter, limit: args.limit },
+        execCtx,
+      );
+      return jsonResult({
+        ...queue.data,
+        ...(queue.dates && { _dates: queue.dates }),
+        _hints: [
+          `Nothing was changed. Once a human has reviewed this list, call again with the same filter, confirm=true and the time_entry_ids as ids to ${action} these ${queue.data.total_entries} time entries`,
+        ],
+      });
+    }
+
+    if (!args.ids?.length) {
+      return inputErrorResult(
+        new UserInputError(`ids is required with confirm=true for ${action}`, [
+          'Get the approval queue without confirm first, then pass the time_entry_ids a human reviewed',
+        ]),
+      );
+    }
+
+    const selection = {
+      resource: 'time_entries',
+      action,
+      filter: ctx.filter,
+      ids: args.ids,
+      limit: args.limit,
+    } as const;
+    // Only change the reviewed queue, and only while all of it still matches
+    const check = await bulkApprove({ ...selection, dryRun: true }, execCtx);
+    const stale = new Set(args.ids).size - check.data.total;
+    if (stale > 0) {
+      return inputErrorResult(
+        new UserInputError(
+          `${stale} of the reviewed time entries no longer match the filter, nothing was changed`,
+          [
+            `Get the approval queue again without confirm and have it reviewed before you ${action}`,
+          ],
+        ),
+      );
+    }
+
+    const result = await bulkApprove(
+      { ...selection, reason: args.reason, concurrency: args.concurrency },
+      execCtx,
+    );
+    return jsonResult({ ...result.data, ...(result.dates && { _dates: result.dates }) });
+  };
+}
+
 export const handleTime = createResourceHandler<TimeArgs>({
   resource: 'time',
   displayName: 'time entry',
-  actions: ['list', 'get', 'create', 'update', 'delete', 'resolve'],
+  actions: [
+    'list',
+    'get',
+    'create',
+    'update',
+    'bulk_update',
+    'delete',
+    'approve',
+    'reject',
+    'resolve',
+  ],
   formatter: formatTimeEntry,
   hints: (data, id) => {
     const serviceId = data.relationships?.service?.data?.id;
@@ -33,6 +130,9 @@ export const handleTime = createResourceHandler<TimeArgs>({
   supportsResolve: true,
   resolveArgsFromArgs: (args) => ({ project_id: args.project_id }),
   customActions: {
+    bulk_update: bulkUpdateAction('time_entries'),
+    approve: approvalAction('approve'),
+    reject: approvalAction('reject'),
     create: async (args, ctx, execCtx) => {
       // Validate required fields (person_id is optional — defaults to current user)
       const missingFields = (['service_id', 'time', 'date'] as (keyof TimeArgs)[]).filter(
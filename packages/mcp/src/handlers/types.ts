@@ -52,10 +52,24 @@ export interface CommonArgs {
   note?: string;
 }
 
+/**
+ * Args of the bulk_update action
+ */
+export interface BulkArgs {
+  /** Changes applied to every matching record, e.g. { assignee: 'me' } */
+  set?: Record<string, string | number | boolean>;
+  /** Apply the changes, otherwise only preview them */
+  confirm?: boolean;
+  /** Records of the preview a confirmed run is limited to */
+  ids?: string[];
+  limit?: number;
+  concurrency?: number;
+}
+
 /**
  * Task-specific args
  */
-export interface TaskArgs extends CommonArgs {
+export interface TaskArgs extends CommonArgs, BulkArgs {
   title?: string;
   project_id?: string;
   task_list_id?: string;
@@ -66,9 +80,11 @@ export interface TaskArgs extends CommonArgs {
 /**
  * Time entry-specific args
  */
-export interface TimeArgs extends CommonArgs {
+export interface TimeArgs extends CommonArgs, BulkArgs {
   project_id?: string;
   billable_time?: number;
+  /** Rejection reason */
+  reason?: string;
 }
 
 /**
@@ -138,6 +154,92 @@ export interface DiscussionArgs extends CommonArgs {
   status?: string;
 }
 
+/**
+ * Invoice-specific args
+ */
+export interface InvoiceArgs extends CommonArgs {
+  deal_id?: string;
+  subject?: string;
+  currency?: string;
+  pay_on?: string;
+  document_type_id?: string;
+  subsidiary_id?: string;
+  status?: string;
+}
+
+/**
+ * Expense-specific args
+ */
+export interface ExpenseArgs extends CommonArgs {
+  project_id?: string;
+  deal_id?: string;
+  name?: string;
+  amount?: number;
+  currency?: string;
+  reimbursable?: boolean;
+  reason?: string;
+  status?: string;
+}
+
+/**
+ * Task list-specific args
+ */
+export interface TaskListArgs extends CommonArgs {
+  project_id?: string;
+  board_id?: string;
+  name?: string;
+  position?: number;
+  status?: string;
+}
+
+/**
+ * Board-specific args
+ */
+export interface BoardArgs extends CommonArgs {
+  project_id?: string;
+  name?: string;
+  position?: number;
+  status?: string;
+}
+
+/**
+ * Workflow status-specific args
+ */
+export interface WorkflowStatusArgs extends CommonArgs {
+  workflow_id?: string;
+  project_id?: string;
+  name?: string;
+  category?: string;
+  position?: number;
+  color_id?: number;
+}
+
+/**
+ * Absence-specific args
+ */
+export interface AbsenceArgs extends CommonArgs {
+  event_id?: string;
+  from?: string;
+  to?: string;
+}
+
+/**
+ * Holiday-specific args
+ */
+export interface HolidayArgs extends CommonArgs {
+  holiday_calendar_id?: string;
+  from?: string;
+  to?: string;
+}
+
+/**
+ * Capacity-specific args
+ */
+export interface CapacityArgs extends CommonArgs {
+  from?: string;
+  to?: string;
+}
+
 /**
  * Resource handler function signature
  */
@@ -30,7 +30,15 @@ export const VALID_INCLUDES: Record<string, string[]> = {
   services: ['deal', 'service_type', 'person', 'section'],
   pages: ['project', 'creator', 'parent_page', 'root_page'],
   discussions: ['page', 'creator'],
+  expenses: ['deal', 'service', 'person', 'vendor', 'approver', 'attachments'],
+  invoices: ['company', 'document_type', 'subsidiary', 'creator', 'bill_to', 'bill_from'],
   attachments: ['attachable', 'creator', 'task'],
+  task_lists: ['project', 'board'],
+  boards: ['project'],
+  workflow_statuses: ['workflow'],
+  absences: ['person', 'event', 'approver'],
+  holidays: ['holiday_calendar'],
+  capacity: ['person', 'holiday_calendar'],
 };
 
 export interface ValidateIncludesResult {
@@ -0,0 +1,138 @@
+/**
+ * Tests for the workflow statuses MCP handler.
+ */
+
+import type { JsonApiResource } from '@studiometa/productive-api';
+import type { ExecutorContext } from '@studiometa/productive-core';
+
+import { describe, it, expect, vi } from 'vitest';
+
+import type { HandlerContext } from './types.js';
+
+import { handleWorkflowStatuses } from './workflow-statuses.js';
+
+const mockStatus: JsonApiResource = {
+  id: '11',
+  type: 'workflow_statuses',
+  attributes: { name: 'In review', position: 3, category_id: 2 },
+  relationships: { workflow: { data: { type: 'workflows', id: '42' } } },
+};
+
+const createMockExecutorContext = (
+  overrides: Partial<ExecutorContext['api']> = {},
+): ExecutorContext => ({
+  api: overrides as ExecutorContext['api'],
+  resolver: {
+    resolveValue: vi.fn(async (value: string) => value),
+    resolveFilters: vi.fn(async (filters: Record<string, string>) => ({
+      resolved: filters,
+      metadata: {},
+    })),
+  },
+  config: { organizationId: 'test-org' },
+});
+
+const createMockHandlerContext = (overrides?: Partial<HandlerContext>): HandlerContext => ({
+  formatOptions: {},
+  perPage: 20,
+  executor: () => createMockExecutorContext(),
+  ...overrides,
+});
+
+const parse = (result: { content: unknown }) =>
+  JSON.parse((result.content as Array<{ text: string }>)[0].text);
+
+describe('handleWorkflowStatuses', () => {
+  describe('list action', () => {
+    it('looks up the workflow of a project', async () => {
+      const getProject = vi.fn().mockResolvedValue({
+        data: {
+          id: '5',
+          type: 'projects',
+          attributes: { name: 'Website' },
+          relationships: { workflow: { data: { type: 'workflows', id: '42' } } },
+        },
+      });
+      const getWorkflowStatuses = vi.fn().mockResolvedValue({ data: [mockStatus], meta: {} });
+      const ctx = createMockHandlerContext({
+        executor: () => createMockExecutorContext({ getProject, getWorkflowStatuses }),
+      });
+
+      const result = await handleWorkflowStatuses('list', { project_id: '5' }, ctx);
+
+      expect(getProject).toHaveBeenCalledWith('5', { include: ['workflow'] });
+      expect(getWorkflowStatuses).toHaveBeenCalledWith(
+        expect.objectContaining({ filter: { workflow_id: '42' }, sort: 'position' }),
+      );
+      const content = parse(result);
+      expect(content.data[0].name).toBe('In review');
+      expect(content.data[0].category).toBe('started');
+    });
+
+    it('filters by workflow and category', async () => {
+      const getWorkflowStatuses = vi.fn().mockResolvedValue({ data: [], meta: {} });
+      const ctx = createMockHandlerContext({
+        executor: () => createMockExecutorContext({ getWorkflowStatuses }),
+      });
+
+      await handleWorkflowStatuses('list', { workflow_id: '42', category: 'closed' }, ctx);
+
+      expect(getWorkflowStatuses.mock.calls[0][0].filter).toEqual({
+        workflow_id: '42',
+        category_id: '3',
+      });
+    });
+  });
+
+  describe('create action', () => {
+    it('requires name, workflow_id and category', async () => {
+      const result = await handleWorkflowStatuses(
+        'create',
+        { name: 'In review', workflow_id: '42' },
+        createMockHandlerContext(),
+      );
+
+      expect(result.isError).toBe(true);
+      expect((result.content as Array<{ text: string }>)[0].text).toContain('category');
+    });
+
+    it('creates a status from a category label', async () => {
+      const createWorkflowStatus = vi.fn().mockResolvedValue({ data: mockStatus });
+      const ctx = createMockHandlerContext({
+        executor: () => createMockExecutorContext({ createWorkflowStatus }),
+      });
+
+      const result = await handleWorkflowStatuses(
+        'create',
+        { name: 'In review', workflow_id: '42', category: 'started' },
+        ctx,
+      );
+
+      expect(createWorkflowStatus).toHaveBeenCalledWith(
+        expect.objectContaining({ name: 'In review', workflow_id: '42', category_id: 2 }),
+      );
+      expect(parse(result).success).toBe(true);
+    });
+  });
+
+  it('reorders a status', async () => {
+    const updateWorkflowStatus = vi.fn().mockResolvedValue({ data: mockStatus });
+    const ctx = createMockHandlerContext({
+      executor: () => createMockExecutorContext({ updateWorkflowStatus }),
+    });
+
+    await handleWorkflowStatuses('update', { id: '11', position: 1 }, ctx);
+
+    expect(updateWorkflowStatus).toHaveBeenCalledWith('11', { position: 1 });
+  });
+
+  it('rejects archive since statuses cannot be archived', async () => {
+    const result = await handleWorkflowStatuses(
+      'archive',
+      { id: '11' },
+      createMockHandlerContext(),
+    );
+
+    expect(result.isError).toBe(true);
+  });
+});
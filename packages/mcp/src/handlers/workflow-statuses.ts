@@ -0,0 +1,83 @@
+/**
+ * Workflow statuses MCP handler.
+ *
+ * Workflow statuses are the kanban columns of a project. The list action is
+ * custom so that `project_id` can be used to look up the project's workflow.
+ */
+
+import {
+  listWorkflowStatuses,
+  getWorkflowStatus,
+  createWorkflowStatus,
+  updateWorkflowStatus,
+} from '@studiometa/productive-core';
+
+import type { WorkflowStatusArgs } from './types.js';
+
+import { formatWorkflowStatus, formatListResponse } from '../formatters.js';
+import { getWorkflowStatusHints } from '../hints.js';
+import { createResourceHandler } from './factory.js';
+import { jsonResult } from './utils.js';
+
+export const handleWorkflowStatuses = createResourceHandler<WorkflowStatusArgs>({
+  resource: 'workflow_statuses',
+  displayName: 'workflow status',
+  actions: ['list', 'get', 'create', 'update'],
+  formatter: formatWorkflowStatus,
+  hints: (data, id) => {
+    const workflowId = data.relationships?.workflow?.data?.id;
+    return getWorkflowStatusHints(id, workflowId);
+  },
+  defaultInclude: {
+    get: ['workflow'],
+  },
+  create: {
+    required: ['name', 'workflow_id', 'category'],
+    mapOptions: (args) => ({
+      name: args.name,
+      workflowId: args.workflow_id,
+      category: args.category,
+      position: args.position,
+      colorId: args.color_id,
+    }),
+  },
+  update: {
+    allowedFields: ['name', 'category', 'position', 'color_id'],
+    mapOptions: (args) => ({
+      name: args.name,
+      category: args.category,
+      position: args.position,
+      colorId: args.color_id,
+    }),
+  },
+  customActions: {
+    list: async (args, ctx, execCtx) => {
+      const { formatOptions, filter, page, perPage } = ctx;
+
+      const result = await listWorkflowStatuses(
+        {
+          page,
+          perPage,
+          workflowId: args.workflow_id,
+          projectId: args.project_id,
+          category: args.category,
+          additionalFilters: { ...filter },
+        },
+        execCtx,
+      );
+
+      return jsonResult(
+        formatListResponse(result.data, formatWorkflowStatus, result.meta, {
+          ...formatOptions,
+          included: result.included,
+        }),
+      );
+    },
+  },
+  executors: {
+    list: listWorkflowStatuses,
+    get: getWorkflowStatus,
+    create: createWorkflowStatus,
+    update: updateWorkflowStatus,
+  },
+});
@@ -255,6 +255,18 @@ describe('handleWorkflows — weekly_standup', () => {
     expect(week.end).toBe('2026-02-22');
   });
 
+  it('resolves week_start expressions and echoes them in _dates', async () => {
+    const getTasks = vi.fn().mockResolvedValue({ data: [], meta: {}, included: [] });
+    const getTimeEntries = vi.fn().mockResolvedValue({ data: [], meta: {}, included: [] });
+
+    const ctx = createCtx({ getTasks, getTimeEntries });
+    const result = await handleWorkflows('weekly_standup', { week_start: '2026-W07' }, ctx);
+
+    const data = parseResult(result) as Record<string, unknown>;
+    expect(data.week).toEqual({ start: '2026-02-09', end: '2026-02-15' });
+    expect(data._dates).toEqual({ weekStart: { input: '2026-W07', date: '2026-02-09' } });
+  });
+
   it('returns structured standup with completed tasks and time data', async () => {
     const getTasks = vi
       .fn()
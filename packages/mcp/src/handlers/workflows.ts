@@ -128,7 +128,7 @@ export async function handleWorkflows(
         },
         execCtx,
       );
-      return jsonResult(result.data);
+      return jsonResult({ ...result.data, ...(result.dates && { _dates: result.dates }) });
     }
 
     case 'help': {
@@ -166,6 +166,7 @@ export async function handleWorkflows(
               succeeded: 'Number of entries successfully created',
               failed: 'Number of entries that failed',
               total_minutes_logged: 'Sum of minutes for successful entries',
+              warnings: 'Notices such as time logged on a public holiday (when any)',
             },
           },
           weekly_standup: {
@@ -173,7 +174,8 @@ export async function handleWorkflows(
               'Aggregate a weekly standup: completed tasks, time logged, and upcoming deadlines',
             parameters: {
               person_id: 'Optional. Person to generate standup for (defaults to current user)',
-              week_start: 'Optional. ISO date for Monday of the week (defaults to this Monday)',
+              week_start:
+                'Optional. ISO date for Monday of the week, or an expression like "last week" (defaults to this week)',
             },
             returns: {
               completed_tasks: 'Tasks closed this week (count + list)',
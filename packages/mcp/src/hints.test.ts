@@ -71,6 +71,13 @@ describe('hints', () => {
       expect(timeAction?.example.service_id).toBe('67890');
       expect(timeAction?.example.task_id).toBe('12345');
     });
+
+    it('dates the time logging example with the given day', () => {
+      const hints = getTaskHints('12345', '67890', '2026-10-20');
+
+      const timeAction = hints.common_actions?.find((a) => a.action === 'Log time on this task');
+      expect(timeAction?.example.date).toBe('2026-10-20');
+    });
   });
 
   describe('getProjectHints', () => {
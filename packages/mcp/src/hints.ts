@@ -5,6 +5,8 @@
  * to help agents discover how to fetch additional context.
  */
 
+import { createDateService } from '@studiometa/productive-core';
+
 export interface ResourceHint {
   resource: string;
   description: string;
@@ -22,9 +24,20 @@ export interface ContextualHints {
 }
 
 /**
- * Generate hints for a task
+ * Today's date in the system timezone, for callers without a date service
+ */
+function systemToday(): string {
+  return createDateService().today();
+}
+
+/**
+ * Generate hints for a task; `today` dates the time logging example
  */
-export function getTaskHints(taskId: string, serviceId?: string): ContextualHints {
+export function getTaskHints(
+  taskId: string,
+  serviceId?: string,
+  today: string = systemToday(),
+): ContextualHints {
   const hints: ContextualHints = {
     related_resources: [
       {
@@ -86,7 +99,7 @@ export function getTaskHints(taskId: string, serviceId?: string): ContextualHint
         action: 'create',
         service_id: serviceId,
         task_id: taskId,
-        date: new Date().toISOString().split('T')[0],
+        date: today,
         time: 60,
         note: '<description of work>',
       },
@@ -306,9 +319,9 @@ export function getServiceListHints(
 }
 
 /**
- * Generate hints for a service
+ * Generate hints for a service; `today` dates the time logging example
  */
-export function getServiceHints(serviceId: string): ContextualHints {
+export function getServiceHints(serviceId: string, today: string = systemToday()): ContextualHints {
   return {
     related_resources: [
       {
@@ -346,7 +359,7 @@ export function getServiceHints(serviceId: string): ContextualHints {
           resource: 'time',
           action: 'create',
           service_id: serviceId,
-          date: new Date().toISOString().split('T')[0],
+          date: today,
           time: 60,
           note: '<description of work>',
         },
@@ -696,6 +709,228 @@ export function getDiscussionHints(discussionId: string, pageId?: string): Conte
   return hints;
 }
 
+/**
+ * Generate hints for an invoice
+ */
+export function getInvoiceHints(invoiceId: string, companyId?: string): ContextualHints {
+  const hints: ContextualHints = {
+    related_resources: [
+      {
+        resource: 'invoices',
+        description: 'Review the line items of this invoice',
+        example: {
+          resource: 'invoices',
+          action: 'line_items',
+          id: invoiceId,
+        },
+      },
+    ],
+    common_actions: [
+      {
+        action: 'Finalize this draft invoice',
+        example: {
+          resource: 'invoices',
+          action: 'finalize',
+          id: invoiceId,
+        },
+      },
+    ],
+  };
+
+  if (companyId) {
+    hints.related_resources!.push({
+      resource: 'companies',
+      description: 'Get the client company being invoiced',
+      example: {
+        resource: 'companies',
+        action: 'get',
+        id: companyId,
+      },
+    });
+  }
+
+  return hints;
+}
+
+/**
+ * Generate hints for an expense
+ */
+export function getExpenseHints(expenseId: string, serviceId?: string): ContextualHints {
+  const hints: ContextualHints = {
+    related_resources: [
+      {
+        resource: 'expenses',
+        description: 'Get this expense with its receipts',
+        example: {
+          resource: 'expenses',
+          action: 'get',
+          id: expenseId,
+          include: ['attachments'],
+        },
+      },
+    ],
+    common_actions: [
+      {
+        action: 'Approve this expense',
+        example: {
+          resource: 'expenses',
+          action: 'approve',
+          id: expenseId,
+        },
+      },
+      {
+        action: 'Reject this expense',
+        example: {
+          resource: 'expenses',
+          action: 'reject',
+          id: expenseId,
+          reason: '<why it was rejected>',
+        },
+      },
+    ],
+  };
+
+  if (serviceId) {
+    hints.related_resources!.push({
+      resource: 'services',
+      description: 'Get the budget service this expense is booked on',
+      example: {
+        resource: 'services',
+        action: 'get',
+        id: serviceId,
+      },
+    });
+  }
+
+  return hints;
+}
+
+/**
+ * Generate hints for a task list
+ */
+export function getTaskListHints(taskListId: string, projectId?: string): ContextualHints {
+  const hints: ContextualHints = {
+    related_resources: [
+      {
+        resource: 'tasks',
+        description: 'Get tasks in this task list',
+        example: {
+          resource: 'tasks',
+          action: 'list',
+          filter: { task_list_id: taskListId },
+        },
+      },
+    ],
+    common_actions: [
+      {
+        action: 'Create a task in this list',
+        example: {
+          resource: 'tasks',
+          action: 'create',
+          task_list_id: taskListId,
+          project_id: projectId ?? '<project_id>',
+          title: '<task title>',
+        },
+      },
+      {
+        action: 'Archive this task list',
+        example: {
+          resource: 'task_lists',
+          action: 'archive',
+          id: taskListId,
+        },
+      },
+    ],
+  };
+
+  if (projectId) {
+    hints.related_resources!.push({
+      resource: 'workflow_statuses',
+      description: 'Get the kanban columns of this project',
+      example: {
+        resource: 'workflow_statuses',
+        action: 'list',
+        project_id: projectId,
+      },
+    });
+  }
+
+  return hints;
+}
+
+/**
+ * Generate hints for a board
+ */
+export function getBoardHints(boardId: string): ContextualHints {
+  return {
+    related_resources: [
+      {
+        resource: 'task_lists',
+        description: 'Get task lists on this board',
+        example: {
+          resource: 'task_lists',
+          action: 'list',
+          board_id: boardId,
+        },
+      },
+    ],
+    common_actions: [
+      {
+        action: 'Archive this board',
+        example: {
+          resource: 'boards',
+          action: 'archive',
+          id: boardId,
+        },
+      },
+    ],
+  };
+}
+
+/**
+ * Generate hints for a workflow status
+ */
+export function getWorkflowStatusHints(statusId: string, workflowId?: string): ContextualHints {
+  const hints: ContextualHints = {
+    related_resources: [
+      {
+        resource: 'tasks',
+        description: 'Get tasks in this status',
+        example: {
+          resource: 'tasks',
+          action: 'list',
+          filter: { workflow_status_id: statusId },
+        },
+      },
+    ],
+    common_actions: [
+      {
+        action: 'Move this column',
+        example: {
+          resource: 'workflow_statuses',
+          action: 'update',
+          id: statusId,
+          position: 1,
+        },
+      },
+    ],
+  };
+
+  if (workflowId) {
+    hints.related_resources!.push({
+      resource: 'workflow_statuses',
+      description: 'Get the other statuses of this workflow',
+      example: {
+        resource: 'workflow_statuses',
+        action: 'list',
+        workflow_id: workflowId,
+      },
+    });
+  }
+
+  return hints;
+}
+
 /**
  * Generate hints for a custom field definition
  */
@@ -1,6 +1,6 @@
 import { toNodeHandler } from 'h3';
 import { createServer, type Server as HttpServer } from 'node:http';
-import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
 
 vi.mock('./handlers.js', () => ({
   executeToolWithCredentials: vi.fn().mockImplementation((name, args, _credentials) => {
@@ -15,6 +15,7 @@ vi.mock('./handlers.js', () => ({
 }));
 
 vi.mock('./resources.js', () => ({
+  EVENTS_RESOURCE_URI: 'productive://events',
   listResources: vi.fn().mockReturnValue([
     {
       uri: 'productive://schema',
@@ -48,10 +49,12 @@ vi.mock('./resources.js', () => ({
   }),
 }));
 
+import { getAuditLog } from './audit/index.js';
 import { executeToolWithCredentials } from './handlers.js';
 import { createHttpApp } from './http.js';
 import { listResources, listResourceTemplates, readResource } from './resources.js';
 import { VERSION } from './version.js';
+import { eventLog } from './webhooks.js';
 
 const JSON_HEADERS = {
   'Content-Type': 'application/json',
@@ -173,7 +176,7 @@ describe('HTTP Server Integration', () => {
       expect(data.result.serverInfo.name).toBe('productive-mcp');
       expect(data.result.protocolVersion).toBe('2025-11-25');
       expect(data.result.capabilities.tools).toEqual({});
-      expect(data.result.capabilities.resources).toEqual({});
+      expect(data.result.capabilities.resources).toEqual({ subscribe: true });
     });
 
     it('should list tools', async () => {
@@ -305,5 +308,212 @@ describe('HTTP Server Integration', () => {
 
       expect(response.status).toBe(404);
     });
+
+    it('should acknowledge resources/subscribe', async () => {
+      const { response, data } = await mcpCall('resources/subscribe', {
+        uri: 'productive://events',
+      });
+
+      expect(response.status).toBe(200);
+      expect(data.result).toEqual({});
+    });
+  });
+
+  describe('webhooks', () => {
+    const task = {
+      data: {
+        id: '42',
+        type: 'tasks',
+        attributes: { title: 'Review' },
+        relationships: { assignee: { data: { type: 'people', id: 'test-user' } } },
+      },
+      meta: { event: 'task.updated' },
+    };
+
+    function postWebhook(body: unknown, secret = 'hook-secret') {
+      return fetch(`${baseUrl}/webhooks/productive`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'X-Webhook-Secret': secret,
+        },
+        body: JSON.stringify(body),
+      });
+    }
+
+    beforeEach(() => {
+      eventLog.clear();
+      vi.stubEnv('PRODUCTIVE_MCP_WEBHOOK_SECRETS', 'test-org=hook-secret');
+    });
+
+    afterEach(() => {
+      vi.unstubAllEnvs();
+    });
+
+    it('should report 404 when no webhook secret is configured', async () => {
+      vi.stubEnv('PRODUCTIVE_MCP_WEBHOOK_SECRETS', '');
+
+      const response = await postWebhook(task);
+
+      expect(response.status).toBe(404);
+    });
+
+    it('should reject an invalid secret', async () => {
+      const response = await postWebhook(task, 'wrong-secret');
+
+      expect(response.status).toBe(401);
+      expect(eventLog.list('test-org')).toHaveLength(0);
+    });
+
+    it('should record accepted events', async () => {
+      const response = await postWebhook(task);
+
+      expect(response.status).toBe(202);
+      expect(await response.json()).toEqual({ status: 'accepted', seq: 1 });
+      expect(eventLog.list('test-org')[0]).toMatchObject({
+        event: 'task.updated',
+        resourceType: 'tasks',
+        resourceId: '42',
+      });
+    });
+
+    it('should notify open GET streams of the organization', async () => {
+      const controller = new AbortController();
+      const stream = await fetch(`${baseUrl}/mcp`, {
+        headers: {
+          Accept: 'text/event-stream',
+          'MCP-Protocol-Version': '2025-11-25',
+          Authorization: `Bearer ${validToken}`,
+        },
+        signal: controller.signal,
+      });
+      expect(stream.status).toBe(200);
+
+      await postWebhook(task);
+
+      const reader = stream.body!.getReader();
+      const decoder = new TextDecoder();
+      let received = '';
+      while (!received.includes('notifications/resources/updated')) {
+        const { value, done } = await reader.read();
+        if (done) break;
+        received += decoder.decode(value);
+      }
+      controller.abort();
+
+      expect(received).toContain('"uri":"productive://events"');
+    });
+  });
+
+  describe('audit', () => {
+    function getAudit(query = '', token = 'audit-token') {
+      return fetch(`${baseUrl}/audit${query}`, { headers: { Authorization: `Bearer ${token}` } });
+    }
+
+    beforeEach(() => {
+      getAuditLog().clear();
+      vi.stubEnv('PRODUCTIVE_MCP_AUDIT_TOKEN', 'audit-token');
+    });
+
+    afterEach(() => {
+      vi.unstubAllEnvs();
+    });
+
+    it('should report 404 when no admin token is configured', async () => {
+      vi.stubEnv('PRODUCTIVE_MCP_AUDIT_TOKEN', '');
+
+      expect((await getAudit()).status).toBe(404);
+    });
+
+    it('should reject other tokens', async () => {
+      expect((await getAudit('', validToken)).status).toBe(401);
+    });
+
+    it('should return the tool calls recorded', async () => {
+      await mcpCall('tools/call', {
+        name: 'productive',
+        arguments: { resource: 'comments', action: 'create', body: 'Private note' },
+      });
+      await mcpCall('tools/call', { name: 'failing_tool', arguments: {} });
+
+      const response = await getAudit('?resource=comments');
+      const data = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(data.count).toBe(1);
+      expect(data.entries[0]).toMatchObject({
+        organization_id: 'test-org',
+        user_id: 'test-user',
+        tool: 'productive',
+        resource: 'comments',
+        action: 'create',
+        args: { body: '[12 chars]' },
+        outcome: 'success',
+        api_calls: 0,
+      });
+      expect(JSON.stringify(data)).not.toContain('test-token');
+
+      const failed = await (await getAudit('?outcome=error')).json();
+      expect(failed.entries[0]).toMatchObject({
+        tool: 'failing_tool',
+        error: 'Tool execution failed',
+      });
+    });
+
+    it('should record scripts run for a front server', async () => {
+      vi.stubEnv('PRODUCTIVE_MCP_RUN_RUNNER_TOKEN', 'runner-token');
+
+      const response = await fetch(`${baseUrl}/run`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', Authorization: 'Bearer runner-token' },
+        body: JSON.stringify({
+          code: 'return 1',
+          credentials: { organizationId: 'test-org', apiToken: 'test-token', userId: 'test-user' },
+        }),
+      });
+      const data = await (await getAudit('?tool=run_script')).json();
+
+      expect(response.status).toBe(200);
+      expect(data.entries).toEqual([
+        expect.objectContaining({
+          organization_id: 'test-org',
+          user_id: 'test-user',
+          tool: 'run_script',
+          outcome: 'success',
+        }),
+      ]);
+    });
+  });
+
+  describe('metrics', () => {
+    function getMetrics(token = 'metrics-token') {
+      return fetch(`${baseUrl}/metrics`, { headers: { Authorization: `Bearer ${token}` } });
+    }
+
+    beforeEach(() => {
+      vi.stubEnv('PRODUCTIVE_MCP_METRICS_TOKEN', 'metrics-token');
+    });
+
+    afterEach(() => {
+      vi.unstubAllEnvs();
+    });
+
+    it('should report 404 when no scrape token is configured', async () => {
+      vi.stubEnv('PRODUCTIVE_MCP_METRICS_TOKEN', '');
+
+      expect((await getMetrics()).status).toBe(404);
+    });
+
+    it('should reject other tokens', async () => {
+      expect((await getMetrics(validToken)).status).toBe(401);
+    });
+
+    it('should serve the Prometheus text format', async () => {
+      const response = await getMetrics();
+
+      expect(response.status).toBe(200);
+      expect(response.headers.get('content-type')).toContain('text/plain; version=0.0.4');
+      expect(await response.text()).toContain('# TYPE productive_mcp_tool_calls_total counter');
+    });
   });
 });
@@ -20,11 +20,14 @@ import {
   ListToolsRequestSchema,
   McpError,
   ReadResourceRequestSchema,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
 } from '@modelcontextprotocol/sdk/types.js';
 import { H3, defineHandler, type H3Event } from 'h3';
 
-const OAUTH_PROTECTED_RESOURCE_PATH = '/.well-known/oauth-protected-resource/mcp';
+import type { ToolResult } from './handlers/types.js';
 
+import { auditToolCall, handleAuditRequest } from './audit/index.js';
 import { parseAuthHeader, type ProductiveCredentials } from './auth.js';
 import { executeToolWithCredentials } from './handlers.js';
 import { executeRunRequest } from './handlers/run-endpoint.js';
@@ -36,10 +39,20 @@ import {
   authorizePostHandler,
   tokenHandler,
 } from './oauth.js';
-import { listResources, listResourceTemplates, readResource } from './resources.js';
+import { allowedTools } from './policy/index.js';
+import {
+  EVENTS_RESOURCE_URI,
+  listResources,
+  listResourceTemplates,
+  readResource,
+} from './resources.js';
 import { getAvailablePrompts, handlePrompt } from './stdio.js';
+import { handleMetricsRequest } from './telemetry/index.js';
 import { TOOLS } from './tools.js';
 import { VERSION } from './version.js';
+import { eventLog, handleWebhookRequest } from './webhooks.js';
+
+const OAUTH_PROTECTED_RESOURCE_PATH = '/.well-known/oauth-protected-resource/mcp';
 
 /**
  * JSON-RPC error response
@@ -76,7 +89,7 @@ export function handleInitialize() {
     capabilities: {
       tools: {},
       prompts: {},
-      resources: {},
+      resources: { subscribe: true },
     },
     instructions: INSTRUCTIONS,
   };
@@ -86,7 +99,7 @@ export function handleInitialize() {
  * Handle the tools/list JSON-RPC method
  */
 export function handleToolsList() {
-  return { tools: TOOLS };
+  return { tools: allowedTools(TOOLS) };
 }
 
 /**
@@ -140,14 +153,33 @@ function getCredentialsFromAuthInfo(authInfo: AuthInfo | undefined | null): Prod
     'userId' in credentials && typeof credentials.userId === 'string'
       ? credentials.userId
       : undefined;
+  const timezone =
+    'timezone' in credentials && typeof credentials.timezone === 'string'
+      ? credentials.timezone
+      : undefined;
 
   return {
     organizationId: credentials.organizationId,
     apiToken: credentials.apiToken,
     userId,
+    timezone,
   };
 }
 
+/**
+ * Execute a tool and record the call in the audit log, for both MCP tool
+ * calls and scripts forwarded to `/run`
+ */
+function executeAuditedTool(
+  name: string,
+  args: Record<string, unknown>,
+  credentials: ProductiveCredentials,
+): Promise<ToolResult> {
+  return auditToolCall(name, args, credentials, () =>
+    executeToolWithCredentials(name, args, credentials),
+  );
+}
+
 export function createHttpMcpServer(): Server {
   const server = new Server(
     {
@@ -158,14 +190,14 @@ export function createHttpMcpServer(): Server {
       capabilities: {
         tools: {},
         prompts: {},
-        resources: {},
+        resources: { subscribe: true },
       },
       instructions: INSTRUCTIONS,
     },
   );
 
   server.setRequestHandler(ListToolsRequestSchema, async () => {
-    return { tools: TOOLS };
+    return { tools: allowedTools(TOOLS) };
   });
 
   server.setRequestHandler(ListPromptsRequestSchema, async () => {
@@ -194,19 +226,31 @@ export function createHttpMcpServer(): Server {
     return readResource(request.params.uri, credentials);
   });
 
+  // The transport is stateless: updates for productive://events are pushed on
+  // the GET stream of every authenticated client (see createHttpApp), so
+  // subscriptions only need to be acknowledged here.
+  server.setRequestHandler(SubscribeRequestSchema, async () => ({}));
+  server.setRequestHandler(UnsubscribeRequestSchema, async () => ({}));
+
   server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
     const credentials = getCredentialsFromAuthInfo(extra.authInfo);
-    return executeToolWithCredentials(
-      request.params.name,
-      (request.params.arguments as Record<string, unknown>) || {},
-      credentials,
-    );
+    const name = request.params.name;
+    const args = (request.params.arguments as Record<string, unknown>) || {};
+    return executeAuditedTool(name, args, credentials);
   });
 
   return server;
 }
 
 export async function createHttpMcpTransport(): Promise<StreamableHTTPServerTransport> {
+  const { transport } = await connectHttpMcpServer();
+  return transport;
+}
+
+async function connectHttpMcpServer(): Promise<{
+  server: Server;
+  transport: StreamableHTTPServerTransport;
+}> {
   const transport = new StreamableHTTPServerTransport({
     sessionIdGenerator: undefined,
     enableJsonResponse: true,
@@ -215,7 +259,7 @@ export async function createHttpMcpTransport(): Promise<StreamableHTTPServerTran
   const server = createHttpMcpServer();
   await server.connect(transport);
 
-  return transport;
+  return { server, transport };
 }
 
 function setUnauthorizedResponseHeaders(event: H3Event) {
@@ -292,7 +336,7 @@ export function createHttpApp(): H3 {
       const result = await executeRunRequest(
         parsedBody,
         event.req.headers.get('authorization'),
-        executeToolWithCredentials,
+        executeAuditedTool,
       );
       event.res.status = result.status;
       event.res.headers.set('Content-Type', 'application/json');
@@ -300,6 +344,52 @@ export function createHttpApp(): H3 {
     }),
   );
 
+  // Productive webhooks. Only active when PRODUCTIVE_MCP_WEBHOOK_SECRETS is set
+  // (otherwise it reports 404). Authenticated by the secret of an organization,
+  // sent by Productive as a custom X-Webhook-Secret header.
+  app.post(
+    '/webhooks/productive',
+    defineHandler(async (event) => {
+      let parsedBody: unknown;
+      try {
+        parsedBody = await event.req.json();
+      } catch {
+        parsedBody = undefined;
+      }
+      const result = handleWebhookRequest(parsedBody, event.req.headers);
+      event.res.status = result.status;
+      event.res.headers.set('Content-Type', 'application/json');
+      return result.body;
+    }),
+  );
+
+  // Audit log queries. Only active when PRODUCTIVE_MCP_AUDIT_TOKEN is set
+  // (otherwise it reports 404). Authenticated by that admin token.
+  app.get(
+    '/audit',
+    defineHandler((event) => {
+      const result = handleAuditRequest(
+        new URL(event.req.url).searchParams,
+        event.req.headers.get('authorization'),
+      );
+      event.res.status = result.status;
+      event.res.headers.set('Content-Type', 'application/json');
+      return result.body;
+    }),
+  );
+
+  // Prometheus metrics. Only active when PRODUCTIVE_MCP_METRICS_TOKEN is set
+  // (otherwise it reports 404). Authenticated by that scrape token.
+  app.get(
+    '/metrics',
+    defineHandler((event) => {
+      const result = handleMetricsRequest(event.req.headers.get('authorization'));
+      event.res.status = result.status;
+      event.res.headers.set('Content-Type', result.contentType);
+      return result.body;
+    }),
+  );
+
   const mcpHandler = defineHandler(async (event) => {
     const authInfo = authenticateRequest(event);
 
@@ -345,7 +435,18 @@ export function createHttpApp(): H3 {
       }
     }
 
-    const transport = await createHttpMcpTransport();
+    const { server, transport } = await connectHttpMcpServer();
+
+    // A GET opens the standalone SSE stream: push event log updates on it for
+    // the client's organization until the connection closes.
+    if (event.req.method === 'GET') {
+      const { organizationId } = getCredentialsFromAuthInfo(authInfo);
+      const unsubscribe = eventLog.subscribe(organizationId, () => {
+        server.sendResourceUpdated({ uri: EVENTS_RESOURCE_URI }).catch(() => {});
+      });
+      nodeRes.on('close', unsubscribe);
+    }
+
     await transport.handleRequest(nodeReq, nodeRes, parsedBody);
 
     return undefined;
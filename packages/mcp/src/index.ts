@@ -34,6 +34,7 @@ import {
 import { getConfig } from '@studiometa/productive-api';
 
 import { INSTRUCTIONS } from './instructions.js';
+import { loadPolicyFromEnv, setPolicy } from './policy/index.js';
 import { listResources, listResourceTemplates, readResource } from './resources.js';
 import { getAvailableTools, getAvailablePrompts, handleToolCall, handlePrompt } from './stdio.js';
 import { VERSION } from './version.js';
@@ -98,6 +99,7 @@ export function createStdioServer(): Server {
       organizationId: config.organizationId,
       apiToken: config.apiToken,
       userId: config.userId,
+      timezone: config.timezone,
     });
   });
 
@@ -123,6 +125,7 @@ export function createStdioServer(): Server {
  * Start the stdio server
  */
 export async function startStdioServer(): Promise<void> {
+  setPolicy(await loadPolicyFromEnv());
   const server = createStdioServer();
   const transport = new StdioServerTransport();
   await server.connect(transport);
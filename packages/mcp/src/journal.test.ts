@@ -0,0 +1,46 @@
+import { describe, it, expect } from 'vitest';
+
+import { MemoryUndoJournal, UndoJournalRegistry } from './journal.js';
+
+const mutation = (id: string) => ({
+  method: 'POST' as const,
+  path: '/comments',
+  resourceType: 'comments',
+  resourceId: id,
+});
+
+describe('MemoryUndoJournal', () => {
+  it('keeps the last 100 writes', async () => {
+    const journal = new MemoryUndoJournal();
+    for (let i = 1; i <= 105; i++) await journal.record(mutation(String(i)));
+
+    const entries = journal.recent();
+
+    expect(entries).toHaveLength(100);
+    expect(entries[0]).toMatchObject({ id: 105 });
+    expect(entries.at(-1)).toMatchObject({ id: 6 });
+  });
+
+  it('leaves undone writes out of pending ones', async () => {
+    const journal = new MemoryUndoJournal();
+    await journal.record(mutation('1'));
+    await journal.record(mutation('2'));
+    await journal.record(mutation('3'));
+
+    journal.markUndone([3]);
+
+    expect(journal.recent({ limit: 1, pendingOnly: true })).toMatchObject([{ id: 2 }]);
+    expect(journal.since(1).map((entry) => entry.id)).toEqual([2, 1]);
+  });
+});
+
+describe('UndoJournalRegistry', () => {
+  it('gives each credential its own journal', () => {
+    const registry = new UndoJournalRegistry();
+    const alice = { apiToken: 'a', organizationId: 'org' };
+    const bob = { apiToken: 'b', organizationId: 'org' };
+
+    expect(registry.forCredentials(alice)).toBe(registry.forCredentials(alice));
+    expect(registry.forCredentials(alice)).not.toBe(registry.forCredentials(bob));
+  });
+});
@@ -0,0 +1,90 @@
+/**
+ * Undo journal of the MCP server.
+ *
+ * Every `ProductiveApi` the server builds for a tool call records its writes
+ * in the journal of its credential, so that agents can list and revert them
+ * with `resource=history`. Journals live in memory: they are lost on restart
+ * and not shared between the instances of an HTTP deployment.
+ */
+
+import type { MutationJournal, RecordedMutation } from '@studiometa/productive-api';
+import type { UndoEntry } from '@studiometa/productive-core';
+
+import type { ProductiveCredentials } from './auth.js';
+
+import { credentialNamespace } from './cache/api-cache.js';
+
+/** Writes kept per credential; older ones are dropped */
+const MAX_ENTRIES = 100;
+
+/** Credentials with a journal; the least recently used one is dropped beyond it. */
+const MAX_CREDENTIALS = 100;
+
+export interface McpUndoEntry extends UndoEntry {
+  /** When the write was reverted (epoch milliseconds) */
+  undoneAt?: number;
+}
+
+export class MemoryUndoJournal implements MutationJournal {
+  private entries: McpUndoEntry[] = [];
+  private nextId = 1;
+
+  async record(mutation: RecordedMutation): Promise<void> {
+    this.entries.push({ id: this.nextId++, recordedAt: Date.now(), mutation });
+    if (this.entries.length > MAX_ENTRIES) this.entries.shift();
+  }
+
+  /**
+   * Recorded writes, most recent first
+   */
+  recent(options: { limit?: number; pendingOnly?: boolean } = {}): McpUndoEntry[] {
+    const entries = this.entries
+      .filter((entry) => !options.pendingOnly || entry.undoneAt === undefined)
+      .toReversed();
+    return entries.slice(0, options.limit ?? entries.length);
+  }
+
+  /**
+   * Writes still in effect, from the most recent one down to `id`
+   */
+  since(id: number): McpUndoEntry[] {
+    return this.recent({ pendingOnly: true }).filter((entry) => entry.id >= id);
+  }
+
+  markUndone(ids: number[]): void {
+    const undoneAt = Date.now();
+    for (const entry of this.entries) {
+      if (ids.includes(entry.id)) entry.undoneAt = undoneAt;
+    }
+  }
+}
+
+/**
+ * Hands out one journal per credential.
+ */
+export class UndoJournalRegistry {
+  private journals = new Map<string, MemoryUndoJournal>();
+
+  forCredentials(credentials: ProductiveCredentials): MemoryUndoJournal {
+    const namespace = credentialNamespace(credentials.apiToken, credentials.organizationId);
+    const journal = this.journals.get(namespace) ?? new MemoryUndoJournal();
+
+    // Keep the credential map in LRU order
+    this.journals.delete(namespace);
+    this.journals.set(namespace, journal);
+    if (this.journals.size > MAX_CREDENTIALS) {
+      this.journals.delete(this.journals.keys().next().value as string);
+    }
+    return journal;
+  }
+}
+
+/** Process-wide registry shared by tool calls. */
+export const undoJournals = new UndoJournalRegistry();
+
+/**
+ * The undo journal of a credential, to pass to `new ProductiveApi({ journal })`.
+ */
+export function getUndoJournal(credentials: ProductiveCredentials): MemoryUndoJournal {
+  return undoJournals.forCredentials(credentials);
+}
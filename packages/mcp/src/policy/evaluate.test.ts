@@ -0,0 +1,176 @@
+import { describe, expect, it } from 'vitest';
+
+import type { ProductiveCredentials } from '../auth.js';
+
+import { apiRequestCall, evaluateApiRequest, evaluatePolicy, isToolAllowed } from './evaluate.js';
+import { parsePolicy } from './load.js';
+
+const credentials: ProductiveCredentials = {
+  apiToken: 'token',
+  organizationId: 'org',
+  userId: '42',
+};
+
+const policy = parsePolicy({
+  tools: { api_write: 'deny' },
+  rules: [
+    { resource: 'invoices', effect: 'deny', reason: 'Invoicing stays in Productive' },
+    { action: 'delete', confirm: true },
+    { resource: 'time', action: ['create', 'update', 'bulk_update'], max: { time: 720 } },
+    { resource: 'workflows', action: 'log_day', max: { duration_minutes: 720 } },
+    { resource: ['time', 'timers'], action: 'list', filter: { person_id: 'me' } },
+  ],
+});
+
+const check = (args: Record<string, unknown>, tool = 'productive') =>
+  evaluatePolicy(policy, tool, args, credentials);
+
+describe('evaluatePolicy', () => {
+  it('allows every call without a policy', () => {
+    expect(evaluatePolicy(null, 'api_write', {}, credentials)).toBeNull();
+  });
+
+  it('denies tools switched off by the policy', () => {
+    expect(check({}, 'api_write')?.message).toBe('Policy denies the api_write tool on this server');
+    expect(check({}, 'api_read')).toBeNull();
+  });
+
+  it('denies resource/action pairs matched by a deny rule', () => {
+    const violation = check({ resource: 'invoices', action: 'list' });
+
+    expect(violation?.message).toBe('Policy denies action="list" on resource="invoices"');
+    expect(violation?.hints?.[0]).toBe('Invoicing stays in Productive');
+  });
+
+  it('always allows documentation actions and dispatching resources', () => {
+    expect(check({ resource: 'invoices', action: 'help' })).toBeNull();
+    expect(check({ resource: 'batch', action: 'run' })).toBeNull();
+  });
+
+  it('only allows the calls of an allow rule under default deny', () => {
+    const strict = parsePolicy({
+      default: 'deny',
+      rules: [{ resource: 'tasks', action: ['list', 'get'], effect: 'allow' }],
+    });
+
+    expect(
+      evaluatePolicy(strict, 'productive', { resource: 'tasks', action: 'get' }, credentials),
+    ).toBeNull();
+    expect(
+      evaluatePolicy(strict, 'productive', { resource: 'tasks', action: 'delete' }, credentials),
+    ).not.toBeNull();
+    expect(evaluatePolicy(strict, 'run_script', {}, credentials)).not.toBeNull();
+  });
+
+  it('requires confirm=true', () => {
+    expect(check({ resource: 'tasks', action: 'delete', id: '1' })?.message).toBe(
+      'Policy requires confirm=true for action="delete" on resource="tasks"',
+    );
+    expect(check({ resource: 'tasks', action: 'delete', id: '1', confirm: true })).toBeNull();
+  });
+
+  it('caps numeric arguments, in bulk changes and workflow entries too', () => {
+    expect(check({ resource: 'time', action: 'create', time: 720 })).toBeNull();
+    expect(check({ resource: 'time', action: 'create', time: 800 })?.message).toBe(
+      'time=800 exceeds the policy maximum of 720 for action="create" on resource="time"',
+    );
+    expect(check({ resource: 'time', action: 'bulk_update', set: { time: '900' } })).not.toBeNull();
+    expect(
+      check({
+        resource: 'workflows',
+        action: 'log_day',
+        entries: [{ duration_minutes: 60 }, { duration_minutes: 800 }],
+      }),
+    ).not.toBeNull();
+  });
+
+  it('reads durations in capped arguments and rejects unreadable ones', () => {
+    expect(check({ resource: 'time', action: 'create', time: '1h30' })).toBeNull();
+    expect(check({ resource: 'time', action: 'bulk_update', set: { time: '13h' } })?.message).toBe(
+      'time=780 exceeds the policy maximum of 720 for action="bulk_update" on resource="time"',
+    );
+    expect(check({ resource: 'time', action: 'create', time: 'all day' })?.message).toBe(
+      'time=all day is not a number, the policy caps it at 720 for action="create" on resource="time"',
+    );
+  });
+
+  it('limits filters to the allowed values, me standing for the caller', () => {
+    expect(check({ resource: 'time', action: 'list', filter: { person_id: 'me' } })).toBeNull();
+    expect(check({ resource: 'time', action: 'list', filter: { person_id: '42' } })).toBeNull();
+    expect(check({ resource: 'time', action: 'list' })?.message).toBe(
+      'Policy requires filter.person_id for action="list" on resource="time"',
+    );
+    expect(
+      check({ resource: 'timers', action: 'list', filter: { person_id: '42,7' } })?.message,
+    ).toBe('Policy does not allow person_id=7 for action="list" on resource="timers"');
+  });
+});
+
+describe('raw API requests', () => {
+  const open = parsePolicy({ rules: policy.rules });
+
+  it('reads the resource and action of a request', () => {
+    expect(apiRequestCall('GET', '/api/v2/time_entries?filter[person_id]=42')).toEqual({
+      resource: 'time',
+      action: 'list',
+    });
+    expect(apiRequestCall('GET', '/tasks/1')).toEqual({ resource: 'tasks', action: 'get' });
+    expect(apiRequestCall('PUT', '/tasks/1')).toEqual({ resource: 'tasks', action: 'update' });
+    expect(apiRequestCall('PATCH', '/invoices/1/finalize')).toEqual({
+      resource: 'invoices',
+      action: 'finalize',
+    });
+  });
+
+  it('applies the rules to api_read and api_write', () => {
+    expect(evaluatePolicy(open, 'api_read', { path: '/invoices' }, credentials)?.message).toBe(
+      'Policy denies GET /invoices (action="list" on resource="invoices")',
+    );
+    expect(
+      evaluatePolicy(
+        open,
+        'api_write',
+        { method: 'POST', path: '/invoices', body: {}, confirm: true },
+        credentials,
+      ),
+    ).not.toBeNull();
+    expect(
+      evaluatePolicy(
+        open,
+        'api_write',
+        {
+          method: 'POST',
+          path: '/time_entries',
+          body: { data: { attributes: { time: 800 } } },
+          confirm: true,
+        },
+        credentials,
+      )?.message,
+    ).toContain('time=800 exceeds the policy maximum of 720');
+    expect(evaluatePolicy(open, 'api_read', { path: '/tasks/1' }, credentials)).toBeNull();
+    expect(
+      evaluatePolicy(open, 'api_read', { path: '/invoices', describe: true }, credentials),
+    ).toBeNull();
+  });
+
+  it('requires confirm=true on the requests a confirm rule matches', () => {
+    expect(
+      evaluateApiRequest(open, { method: 'DELETE', path: '/tasks/1' }, credentials)?.message,
+    ).toBe(
+      'Policy requires confirm=true for DELETE /tasks/1 (action="delete" on resource="tasks")',
+    );
+    expect(
+      evaluateApiRequest(open, { method: 'DELETE', path: '/tasks/1', confirm: true }, credentials),
+    ).toBeNull();
+  });
+});
+
+describe('isToolAllowed', () => {
+  it('falls back to the default effect for tools the policy does not name', () => {
+    const strict = parsePolicy({ default: 'deny', tools: { api_read: 'allow' } });
+
+    expect(isToolAllowed(strict, 'api_read')).toBe(true);
+    expect(isToolAllowed(strict, 'run_script')).toBe(false);
+    expect(isToolAllowed(strict, 'productive')).toBe(true);
+  });
+});
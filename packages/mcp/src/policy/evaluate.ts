@@ -0,0 +1,288 @@
+/**
+ * Checks tool calls against the deployment policy.
+ *
+ * Calls of the `productive` tool are matched against the rules by resource
+ * and action: any matching `deny` rule rejects the call, and under
+ * `default: deny` so does the lack of a matching `allow` rule. The
+ * constraints of every matching rule (confirm, max, filter) then apply.
+ *
+ * `api_read` and `api_write` requests are matched the same way once their
+ * method and path are read as a resource and an action (`DELETE /tasks/1` is
+ * a `delete` of `tasks`), so the raw tools cannot reach what the rules keep
+ * away from the `productive` tool.
+ *
+ * `help` and `schema` actions are always allowed. `batch` and `search` are not
+ * checked themselves: they run each of their operations through the tool
+ * again, which checks them one by one — and so does `run_script`.
+ */
+
+import { parseDuration } from '@studiometa/productive-core';
+
+import type { ProductiveCredentials } from '../auth.js';
+import type { Policy, PolicyEffect, PolicyRule, PolicyTool } from './types.js';
+
+import { UserInputError } from '../errors.js';
+
+const GATED_TOOLS = new Set<string>(['api_read', 'api_write', 'run_script']);
+
+/** Actions that only return documentation */
+const DOCUMENTATION_ACTIONS = new Set(['help', 'schema']);
+
+/** Resources that dispatch their operations back to the tool */
+const DISPATCHING_RESOURCES = new Set(['batch', 'search']);
+
+/** API types the `productive` tool names differently */
+const API_RESOURCES: Record<string, string> = { time_entries: 'time' };
+
+const METHOD_ACTIONS: Record<string, string> = {
+  POST: 'create',
+  PATCH: 'update',
+  PUT: 'update',
+  DELETE: 'delete',
+};
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function asList(value: string | string[] | undefined): string[] {
+  if (value === undefined) return ['*'];
+  return Array.isArray(value) ? value : [value];
+}
+
+function matches(patterns: string | string[] | undefined, value: string): boolean {
+  return asList(patterns).some((pattern) => pattern === '*' || pattern === value);
+}
+
+/**
+ * Whether the policy lets agents call a tool at all.
+ */
+export function isToolAllowed(policy: Policy | null, tool: string): boolean {
+  if (!policy || !GATED_TOOLS.has(tool)) return true;
+  const effect: PolicyEffect = policy.tools[tool as PolicyTool] ?? policy.default;
+  return effect === 'allow';
+}
+
+/**
+ * Values of a filter, or of the argument of the same name
+ */
+function filterValues(args: Record<string, unknown>, key: string): string[] | undefined {
+  const value = (isRecord(args.filter) ? args.filter[key] : undefined) ?? args[key];
+  if (value === undefined || value === null || value === '') return undefined;
+  const values = Array.isArray(value) ? value : String(value).split(',');
+  return values.map((item) => String(item).trim());
+}
+
+/**
+ * Numeric value of a capped argument, reading durations such as `13h` or
+ * `1:30` in minutes like the executors do. Undefined when it cannot be read.
+ */
+function cappedValue(value: unknown): number | undefined {
+  if (typeof value === 'number') return Number.isNaN(value) ? undefined : value;
+  if (typeof value !== 'string') return undefined;
+  const number = Number(value);
+  return value.trim() !== '' && !Number.isNaN(number) ? number : parseDuration(value);
+}
+
+/**
+ * Arguments the `max` constraints apply to: top-level ones, the changes of a
+ * bulk update and each of the entries of a workflow.
+ */
+function cappedArguments(
+  args: Record<string, unknown>,
+  field: string,
+): { raw: unknown; value: number | undefined }[] {
+  const sources = [
+    args,
+    ...(isRecord(args.set) ? [args.set] : []),
+    ...(Array.isArray(args.entries) ? args.entries.filter(isRecord) : []),
+  ];
+  return sources
+    .filter((source) => source[field] !== undefined && source[field] !== null)
+    .map((source) => ({ raw: source[field], value: cappedValue(source[field]) }));
+}
+
+/**
+ * The caller's person ID for `me`, so that both spellings compare equal
+ */
+function resolveMe(value: string, credentials: ProductiveCredentials): string {
+  return value === 'me' && credentials.userId ? credentials.userId : value;
+}
+
+function reasonHints(rule: PolicyRule, hints: string[]): string[] {
+  return rule.reason ? [rule.reason, ...hints] : hints;
+}
+
+/**
+ * Check a rule's constraints against a call
+ */
+function checkConstraints(
+  rule: PolicyRule,
+  call: string,
+  args: Record<string, unknown>,
+  credentials: ProductiveCredentials,
+): UserInputError | null {
+  if (rule.confirm && args.confirm !== true) {
+    return new UserInputError(
+      `Policy requires confirm=true for ${call}`,
+      reasonHints(rule, ['Check with the user first, then call again with confirm=true']),
+    );
+  }
+
+  for (const [field, max] of Object.entries(rule.max ?? {})) {
+    const values = cappedArguments(args, field);
+    const unreadable = values.find(({ value }) => value === undefined);
+    if (unreadable) {
+      return new UserInputError(
+        `${field}=${String(unreadable.raw)} is not a number, the policy caps it at ${max} for ${call}`,
+        reasonHints(rule, [`Pass ${field} as a number or a duration such as 90, 1h30 or 1.5h`]),
+      );
+    }
+    const exceeding = values.find(({ value }) => value !== undefined && value > max)?.value;
+    if (exceeding !== undefined) {
+      return new UserInputError(
+        `${field}=${exceeding} exceeds the policy maximum of ${max} for ${call}`,
+        reasonHints(rule, [`Keep ${field} at or below ${max}`]),
+      );
+    }
+  }
+
+  for (const [key, allowed] of Object.entries(rule.filter ?? {})) {
+    const allowedValues = asList(allowed);
+    const accepted = new Set(allowedValues.map((value) => resolveMe(value, credentials)));
+
+    const values = filterValues(args, key);
+    const hint = `Use filter.${key} with ${allowedValues.map((value) => `"${value}"`).join(' or ')}`;
+    if (!values) {
+      return new UserInputError(
+        `Policy requires filter.${key} for ${call}`,
+        reasonHints(rule, [hint]),
+      );
+    }
+    const rejected = values.filter((value) => !accepted.has(resolveMe(value, credentials)));
+    if (rejected.length > 0) {
+      return new UserInputError(
+        `Policy does not allow ${key}=${rejected.join(',')} for ${call}`,
+        reasonHints(rule, [hint]),
+      );
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Resource and action of a raw API request: `GET /time_entries` lists `time`,
+ * `PATCH /invoices/1/finalize` is a `finalize` of `invoices`.
+ */
+export function apiRequestCall(method: string, path: string): { resource: string; action: string } {
+  const [type = '', id, action] = path
+    .replace(/^\/api\/v2/, '')
+    .split('?')[0]
+    .split('/')
+    .filter(Boolean);
+  const resource = API_RESOURCES[type] ?? type;
+  if (action) return { resource, action };
+  if (method === 'GET') return { resource, action: id ? 'get' : 'list' };
+  return { resource, action: METHOD_ACTIONS[method] ?? method.toLowerCase() };
+}
+
+/**
+ * Check a call of `action` on `resource` against the rules
+ */
+function evaluateRules(
+  policy: Policy,
+  resource: string,
+  action: string,
+  call: string,
+  args: Record<string, unknown>,
+  credentials: ProductiveCredentials,
+): UserInputError | null {
+  const rules = policy.rules.filter(
+    (rule) => matches(rule.resource, resource) && matches(rule.action, action),
+  );
+
+  const denying = rules.find((rule) => rule.effect === 'deny');
+  if (denying || (policy.default === 'deny' && !rules.some((rule) => rule.effect === 'allow'))) {
+    return new UserInputError(
+      `Policy denies ${call}`,
+      reasonHints(denying ?? {}, [
+        'Do not retry: this server does not let agents make this call',
+        'Ask the user to do it in Productive directly',
+      ]),
+    );
+  }
+
+  for (const rule of rules) {
+    const violation = checkConstraints(rule, call, args, credentials);
+    if (violation) return violation;
+  }
+  return null;
+}
+
+/**
+ * Check a raw API request against the rules, as the call of the resource and
+ * action it maps to. `max` constraints read the attributes of the body.
+ *
+ * @returns The violation to report to the agent, or `null` when the request may run
+ */
+export function evaluateApiRequest(
+  policy: Policy | null,
+  request: { method: string; path: string; body?: unknown; confirm?: unknown; filter?: unknown },
+  credentials: ProductiveCredentials,
+): UserInputError | null {
+  if (!policy) return null;
+
+  const { resource, action } = apiRequestCall(request.method, request.path);
+  const data = isRecord(request.body) ? request.body.data : undefined;
+  const attributes = isRecord(data) && isRecord(data.attributes) ? data.attributes : {};
+  return evaluateRules(
+    policy,
+    resource,
+    action,
+    `${request.method} ${request.path} (action="${action}" on resource="${resource}")`,
+    { ...attributes, confirm: request.confirm, filter: request.filter },
+    credentials,
+  );
+}
+
+/**
+ * Check a tool call against the policy.
+ *
+ * @returns The violation to report to the agent, or `null` when the call may run
+ */
+export function evaluatePolicy(
+  policy: Policy | null,
+  tool: string,
+  args: Record<string, unknown>,
+  credentials: ProductiveCredentials,
+): UserInputError | null {
+  if (!policy) return null;
+
+  if (!isToolAllowed(policy, tool)) {
+    return new UserInputError(`Policy denies the ${tool} tool on this server`, [
+      'Use the productive tool instead',
+    ]);
+  }
+
+  if (tool === 'api_read' || tool === 'api_write') {
+    // Endpoint search and descriptions only return documentation
+    if (typeof args.path !== 'string' || args.describe === true) return null;
+    const method = tool === 'api_read' ? 'GET' : String(args.method ?? '');
+    return evaluateApiRequest(policy, { ...args, method, path: args.path }, credentials);
+  }
+  if (tool !== 'productive') return null;
+
+  const resource = typeof args.resource === 'string' ? args.resource : '';
+  const action = typeof args.action === 'string' ? args.action : '';
+  if (DOCUMENTATION_ACTIONS.has(action) || DISPATCHING_RESOURCES.has(resource)) return null;
+
+  return evaluateRules(
+    policy,
+    resource,
+    action,
+    `action="${action}" on resource="${resource}"`,
+    args,
+    credentials,
+  );
+}
@@ -0,0 +1,50 @@
+/**
+ * Deployment policy of the MCP server.
+ *
+ * Operators restrict what agents may do with a JSON file named by
+ * `PRODUCTIVE_MCP_POLICY`, loaded once when the server starts:
+ *
+ *   {
+ *     "default": "allow",
+ *     "tools": { "api_write": "deny", "run_script": "deny" },
+ *     "rules": [
+ *       { "resource": "invoices", "effect": "deny", "reason": "Invoicing stays in Productive" },
+ *       { "action": "delete", "confirm": true },
+ *       { "resource": "time", "action": ["create", "update"], "max": { "time": 720 } },
+ *       { "resource": ["time", "timers"], "action": "list", "filter": { "person_id": "me" } }
+ *     ]
+ *   }
+ *
+ * Rules also apply to `api_read` and `api_write` requests, and to the requests
+ * `history` undo sends, through the resource and action they map to.
+ *
+ * Without a policy file, every call is allowed.
+ */
+
+import type { Policy } from './types.js';
+
+import { isToolAllowed } from './evaluate.js';
+
+export { evaluateApiRequest, evaluatePolicy, isToolAllowed } from './evaluate.js';
+export { loadPolicy, loadPolicyFromEnv, parsePolicy } from './load.js';
+export type { Policy, PolicyEffect, PolicyRule, PolicyTool } from './types.js';
+
+let activePolicy: Policy | null = null;
+
+/**
+ * The policy tool calls are checked against, `null` when none is loaded
+ */
+export function getPolicy(): Policy | null {
+  return activePolicy;
+}
+
+export function setPolicy(policy: Policy | null): void {
+  activePolicy = policy;
+}
+
+/**
+ * The tools to advertise, without those the policy denies
+ */
+export function allowedTools<T extends { name: string }>(tools: T[]): T[] {
+  return tools.filter((tool) => isToolAllowed(activePolicy, tool.name));
+}
@@ -0,0 +1,56 @@
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+
+import { loadPolicy, loadPolicyFromEnv, parsePolicy } from './load.js';
+
+describe('parsePolicy', () => {
+  it('fills in the defaults', () => {
+    expect(parsePolicy({})).toEqual({ default: 'allow', tools: {}, rules: [] });
+  });
+
+  it('lists every invalid field', () => {
+    expect(() =>
+      parsePolicy({ default: 'maybe', rules: [{ resource: 'tasks', max: { time: 'long' } }] }),
+    ).toThrow(/default: .*\n.*rules\.0\.max\.time/);
+  });
+
+  it('rejects unknown fields', () => {
+    expect(() => parsePolicy({ rules: [{ resource: 'tasks', efect: 'deny' }] })).toThrow(
+      /rules\.0/,
+    );
+  });
+});
+
+describe('loadPolicy', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'productive-policy-'));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('reads the file named by PRODUCTIVE_MCP_POLICY', async () => {
+    const path = join(dir, 'policy.json');
+    await writeFile(path, JSON.stringify({ tools: { run_script: 'deny' } }));
+
+    const policy = await loadPolicyFromEnv({ PRODUCTIVE_MCP_POLICY: path });
+
+    expect(policy?.tools).toEqual({ run_script: 'deny' });
+  });
+
+  it('returns null without a policy file', async () => {
+    expect(await loadPolicyFromEnv({})).toBeNull();
+  });
+
+  it('fails on a file that is not JSON', async () => {
+    const path = join(dir, 'policy.json');
+    await writeFile(path, '{ rules: [] }');
+
+    await expect(loadPolicy(path)).rejects.toThrow(`Invalid policy file ${path}`);
+  });
+});
@@ -0,0 +1,77 @@
+/**
+ * Reading and validating the policy file.
+ */
+
+import { readFile } from 'node:fs/promises';
+import { z } from 'zod';
+
+import type { Policy } from './types.js';
+
+const EffectSchema = z.enum(['allow', 'deny']);
+const ListSchema = z.union([z.string(), z.array(z.string())]);
+
+const RuleSchema = z.strictObject({
+  resource: ListSchema.optional(),
+  action: ListSchema.optional(),
+  effect: EffectSchema.optional(),
+  reason: z.string().optional(),
+  confirm: z.boolean().optional(),
+  max: z.record(z.string(), z.number()).optional(),
+  filter: z.record(z.string(), ListSchema).optional(),
+});
+
+const PolicySchema = z.strictObject({
+  default: EffectSchema.default('allow'),
+  tools: z
+    .strictObject({
+      api_read: EffectSchema.optional(),
+      api_write: EffectSchema.optional(),
+      run_script: EffectSchema.optional(),
+    })
+    .default({}),
+  rules: z.array(RuleSchema).default([]),
+});
+
+/**
+ * Validate a parsed policy document.
+ *
+ * @throws Error listing every invalid field, prefixed with `source`
+ */
+export function parsePolicy(value: unknown, source = 'policy'): Policy {
+  const parsed = PolicySchema.safeParse(value);
+  if (!parsed.success) {
+    const issues = parsed.error.issues.map((issue) => {
+      const path = issue.path.length > 0 ? `${issue.path.join('.')}: ` : '';
+      return `  - ${path}${issue.message}`;
+    });
+    throw new Error(`Invalid ${source}:\n${issues.join('\n')}`);
+  }
+  return parsed.data;
+}
+
+/**
+ * Read a JSON policy file.
+ */
+export async function loadPolicy(path: string): Promise<Policy> {
+  const content = await readFile(path, 'utf8');
+  let value: unknown;
+  try {
+    value = JSON.parse(content);
+  } catch (error) {
+    throw new Error(`Invalid policy file ${path}: ${(error as Error).message}`, { cause: error });
+  }
+  return parsePolicy(value, `policy file ${path}`);
+}
+
+/**
+ * Read the policy file named by `PRODUCTIVE_MCP_POLICY`, or `null` when unset.
+ *
+ * A policy that cannot be read fails instead of falling back to no policy, so
+ * that a typo never opens up a deployment.
+ */
+export async function loadPolicyFromEnv(
+  env: NodeJS.ProcessEnv = process.env,
+): Promise<Policy | null> {
+  const path = env.PRODUCTIVE_MCP_POLICY;
+  return path ? loadPolicy(path) : null;
+}
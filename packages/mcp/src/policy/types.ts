@@ -0,0 +1,37 @@
+/**
+ * Types of the deployment policy file.
+ */
+
+export type PolicyEffect = 'allow' | 'deny';
+
+/** Tools a policy can switch off as a whole */
+export type PolicyTool = 'api_read' | 'api_write' | 'run_script';
+
+/**
+ * A rule of the policy, matching `productive` tool calls and raw API requests
+ * by resource and action.
+ *
+ * A rule without `effect` only adds constraints to the calls it matches.
+ */
+export interface PolicyRule {
+  /** Resources matched, all of them when missing or `*` */
+  resource?: string | string[];
+  /** Actions matched, all of them when missing or `*` */
+  action?: string | string[];
+  effect?: PolicyEffect;
+  /** Explanation shown to the agent when the rule rejects a call */
+  reason?: string;
+  /** Require `confirm: true` on the call */
+  confirm?: boolean;
+  /** Upper bound of numeric arguments, e.g. `{ "time": 720 }` */
+  max?: Record<string, number>;
+  /** Values a filter must be given, `me` standing for the caller, e.g. `{ "person_id": "me" }` */
+  filter?: Record<string, string | string[]>;
+}
+
+export interface Policy {
+  /** Effect of the calls no rule allows or denies (default `allow`) */
+  default: PolicyEffect;
+  tools: Partial<Record<PolicyTool, PolicyEffect>>;
+  rules: PolicyRule[];
+}
@@ -64,6 +64,7 @@ import {
   listResourceTemplates,
   readResource,
 } from './resources.js';
+import { eventLog } from './webhooks.js';
 
 // ---------------------------------------------------------------------------
 // Fixtures
@@ -132,6 +133,18 @@ describe('DYNAMIC_RESOURCES', () => {
     expect(res?.name).toBe('Team Pulse');
     expect(res?.mimeType).toBe('application/json');
   });
+
+  it('should include productive://events', () => {
+    const res = DYNAMIC_RESOURCES.find((r) => r.uri === 'productive://events');
+    expect(res).toBeDefined();
+    expect(res?.name).toBe('Events');
+  });
+
+  it('should include productive://cache', () => {
+    const res = DYNAMIC_RESOURCES.find((r) => r.uri === 'productive://cache');
+    expect(res).toBeDefined();
+    expect(res?.name).toBe('Cache');
+  });
 });
 
 describe('RESOURCE_TEMPLATES', () => {
@@ -283,6 +296,44 @@ describe('readResource – dynamic resources', () => {
     expect(mockHandleSummaries).toHaveBeenCalledWith('team_pulse', {}, expect.any(Object));
   });
 
+  it('should return the credential cache statistics from productive://cache', async () => {
+    const result = await readResource('productive://cache', credentials);
+
+    const parsed = JSON.parse(result.contents[0].text);
+    expect(parsed).toMatchObject({ enabled: true, backend: 'memory', entries: 0, hits: 0 });
+    expect(parsed.ttl.default).toBe(300);
+  });
+
+  it('should return the organization webhook events from productive://events', async () => {
+    eventLog.clear();
+    const event = {
+      event: 'task.updated',
+      resourceType: 'tasks',
+      resourceId: '42',
+      personIds: [credentials.userId],
+      receivedAt: '2024-01-15T10:00:00.000Z',
+      data: { id: '42', title: 'Review' },
+    };
+    eventLog.append({ ...event, organizationId: credentials.organizationId });
+    eventLog.append({ ...event, organizationId: 'other-org' });
+
+    const result = await readResource('productive://events', credentials);
+
+    const parsed = JSON.parse(result.contents[0].text);
+    expect(parsed.data).toEqual([
+      {
+        seq: 1,
+        event: 'task.updated',
+        resource_type: 'tasks',
+        resource_id: '42',
+        received_at: '2024-01-15T10:00:00.000Z',
+        mine: true,
+        data: { id: '42', title: 'Review' },
+      },
+    ]);
+    expect(parsed.meta.count).toBe(1);
+  });
+
   it('should propagate errors from summary handlers', async () => {
     mockHandleSummaries.mockResolvedValue(toolError('Summaries failed'));
 
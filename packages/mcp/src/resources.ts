@@ -19,6 +19,8 @@
  * Dynamic resources (computed):
  *   productive://summaries/my_day         — personal dashboard
  *   productive://summaries/team_pulse     — team activity
+ *   productive://events                   — recent webhook events (HTTP server)
+ *   productive://cache                    — API cache statistics
  */
 
 import type { ReadResourceResult as McpReadResourceResult } from '@modelcontextprotocol/sdk/types.js';
@@ -29,6 +31,7 @@ import { fromHandlerContext } from '@studiometa/productive-core';
 import type { ProductiveCredentials } from './auth.js';
 import type { HandlerContext } from './handlers/types.js';
 
+import { getApiCache, readCacheStats } from './cache/index.js';
 import { handleDeals } from './handlers/deals.js';
 import { handlePeople } from './handlers/people.js';
 import { handleProjects } from './handlers/projects.js';
@@ -37,10 +40,17 @@ import { handleServices } from './handlers/services.js';
 import { handleSummaries } from './handlers/summaries.js';
 import { handleTasks } from './handlers/tasks.js';
 import { INSTRUCTIONS } from './instructions.js';
+import { readEvents } from './webhooks.js';
 
 /** MIME type used for all resource content */
 const MIME_TYPE = 'application/json';
 
+/** URI of the API cache statistics */
+export const CACHE_RESOURCE_URI = 'productive://cache';
+
+/** URI of the webhook event log, also used for resources/updated notifications */
+export const EVENTS_RESOURCE_URI = 'productive://events';
+
 /**
  * A single resource content item returned in resources/read responses
  */
@@ -117,6 +127,20 @@ export const DYNAMIC_RESOURCES: StaticResource[] = [
     description: 'Team-wide time tracking activity for today',
     mimeType: MIME_TYPE,
   },
+  {
+    uri: EVENTS_RESOURCE_URI,
+    name: 'Events',
+    description:
+      'Recent Productive webhook events, newest first (HTTP server with webhooks configured); subscribe for updates',
+    mimeType: MIME_TYPE,
+  },
+  {
+    uri: CACHE_RESOURCE_URI,
+    name: 'Cache',
+    description:
+      'API response cache statistics for your credentials: backend, entries, hits, misses and TTLs',
+    mimeType: MIME_TYPE,
+  },
 ];
 
 // ---------------------------------------------------------------------------
@@ -205,6 +229,14 @@ const URI_PATTERNS: Array<{
       return extractJsonFromResult(result);
     },
   },
+  {
+    pattern: /^productive:\/\/events$/,
+    handler: async (_, credentials) => readEvents(credentials.organizationId, credentials.userId),
+  },
+  {
+    pattern: /^productive:\/\/cache$/,
+    handler: async (_, credentials) => readCacheStats(credentials),
+  },
 
   // Project nested resources (before single project to avoid conflict)
   {
@@ -278,9 +310,16 @@ function buildHandlerContext(
       userId: credentials.userId,
       baseUrl: process.env.PRODUCTIVE_BASE_URL,
     },
+    cache: getApiCache(credentials),
   });
 
-  const execCtx = fromHandlerContext({ api }, { userId: credentials.userId });
+  const execCtx = fromHandlerContext(
+    { api },
+    {
+      userId: credentials.userId,
+      timezone: credentials.timezone ?? process.env.PRODUCTIVE_TIMEZONE,
+    },
+  );
 
   return {
     formatOptions: { compact: false },
@@ -58,12 +58,16 @@ export interface Bridge {
 const MUTATING_ACTIONS = new Set([
   'create',
   'update',
+  'bulk_update',
   'delete',
   'start',
   'stop',
   'reopen',
+  'approve',
+  'reject',
   'complete_task',
   'log_day',
+  'undo',
 ]);
 
 /** Whether a call would mutate data (used for dry-run classification). */
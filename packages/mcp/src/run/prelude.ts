@@ -19,7 +19,14 @@ import { RESOURCES } from '@studiometa/productive-core';
  * still reachable through the low-level `productive(resource, action, params)`
  * call, just without a convenience accessor.
  */
-const NON_DATA_RESOURCES = new Set(['batch', 'search', 'summaries', 'workflows', 'reports']);
+const NON_DATA_RESOURCES = new Set([
+  'batch',
+  'search',
+  'summaries',
+  'workflows',
+  'reports',
+  'history',
+]);
 
 /** Resources that get a `productive.<resource>` convenience accessor. */
 export const SCRIPT_RESOURCES = RESOURCES.filter((r) => !NON_DATA_RESOURCES.has(r));
@@ -6,6 +6,7 @@ import {
   ActionSchema,
   ReportTypeSchema,
   ParamDate,
+  ParamDateExpression,
   ParamTimeMinutes,
   ApiReadToolInputSchema,
   ApiWriteToolInputSchema,
@@ -88,6 +89,17 @@ describe('schema', () => {
     });
   });
 
+  describe('ParamDateExpression', () => {
+    it('should accept dates and expressions', () => {
+      expect(parse(ParamDateExpression, '2024-01-15')).toBe('2024-01-15');
+      expect(parse(ParamDateExpression, ' last monday ')).toBe('last monday');
+    });
+
+    it('should reject empty values', () => {
+      expect(() => parse(ParamDateExpression, '  ')).toThrow();
+    });
+  });
+
   describe('ParamTimeMinutes', () => {
     it('should accept valid time values', () => {
       expect(parse(ParamTimeMinutes, 60)).toBe(60);
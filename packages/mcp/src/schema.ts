@@ -110,6 +110,15 @@ export const ParamDate = z
   .regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be in YYYY-MM-DD format')
   .describe('Date in YYYY-MM-DD format (e.g., "2024-01-15")');
 
+/**
+ * Date or date expression parameter, resolved to YYYY-MM-DD by the core date service
+ */
+export const ParamDateExpression = z
+  .string()
+  .trim()
+  .min(1, 'Date cannot be empty')
+  .describe('Date as YYYY-MM-DD or an expression like "last monday", "this-week" or "q3"');
+
 /**
  * Time in minutes parameter
  */
@@ -292,6 +301,32 @@ export const ProductiveToolInputSchema = z.object({
   ended_on: ParamDate.optional().describe('Booking end date (YYYY-MM-DD)'),
   event_id: z.string().trim().optional().describe('Event ID for the booking'),
 
+  // Holiday fields
+  holiday_calendar_id: z.string().trim().optional().describe('Holiday calendar ID'),
+
+  // Invoice fields
+  subject: z.string().trim().optional().describe('Invoice subject'),
+  currency: z.string().trim().optional().describe('Invoice currency code (e.g. EUR)'),
+  pay_on: ParamDate.optional().describe('Invoice due date (YYYY-MM-DD)'),
+  document_type_id: z.string().trim().optional().describe('Invoice document type ID'),
+  subsidiary_id: z.string().trim().optional().describe('Subsidiary issuing the invoice'),
+
+  // Expense fields
+  amount: z.number().nonnegative().optional().describe('Expense amount in currency units'),
+  reimbursable: z.boolean().optional().describe('Mark an expense as reimbursable'),
+  reason: z.string().trim().optional().describe('Rejection reason for expenses'),
+
+  // Task list, board and workflow status fields
+  board_id: z.string().trim().optional().describe('Board (task list folder) ID'),
+  workflow_id: z.string().trim().optional().describe('Workflow ID for workflow statuses'),
+  category: z
+    .string()
+    .trim()
+    .optional()
+    .describe('Workflow status category: not_started, started, closed'),
+  position: z.number().int().positive().optional().describe('Position used to reorder items'),
+  color_id: z.number().int().positive().optional().describe('Workflow status color ID'),
+
   // Report fields
   report_type: ReportTypeSchema.optional(),
   group: z
@@ -299,10 +334,37 @@ export const ProductiveToolInputSchema = z.object({
     .trim()
     .optional()
     .describe('Grouping for reports (e.g., "person", "project", "service")'),
-  from: ParamDate.optional().describe('Report start date (YYYY-MM-DD)'),
-  to: ParamDate.optional().describe('Report end date (YYYY-MM-DD)'),
+  from: ParamDateExpression.optional().describe(
+    'Report/availability start date (YYYY-MM-DD or an expression like "last monday")',
+  ),
+  to: ParamDateExpression.optional().describe(
+    'Report/availability end date (YYYY-MM-DD or an expression like "yesterday")',
+  ),
   status: z.string().trim().optional().describe('Status filter for reports'),
 
+  // Bulk update fields
+  set: z
+    .record(z.string(), z.union([z.string(), z.number(), z.boolean()]))
+    .optional()
+    .describe('Changes applied to every record matching filter (bulk_update)'),
+  confirm: z.boolean().optional().describe('Apply a bulk_update, otherwise only preview it'),
+  ids: z
+    .array(z.string().trim())
+    .optional()
+    .describe(
+      'IDs of the previewed records a confirmed bulk_update, approve or reject is limited to',
+    ),
+  limit: z.number().int().positive().optional().describe('Maximum records a bulk_update may touch'),
+  concurrency: z.number().int().min(1).max(10).optional().describe('Parallel bulk_update requests'),
+
+  // Forecast fields
+  lookback_days: z
+    .number()
+    .int()
+    .positive()
+    .optional()
+    .describe('Days of time entries a forecast burn rate is measured on'),
+
   // Batch fields
   operations: z
     .array(
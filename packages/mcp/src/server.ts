@@ -25,6 +25,8 @@ import { toNodeHandler } from 'h3';
 import { createServer, type Server } from 'node:http';
 
 import { createHttpApp } from './http.js';
+import { loadPolicyFromEnv, setPolicy } from './policy/index.js';
+import { resolveTracingConfig } from './telemetry/index.js';
 import { VERSION } from './version.js';
 
 const DEFAULT_PORT = 3000;
@@ -32,11 +34,17 @@ const DEFAULT_HOST = '0.0.0.0';
 
 /**
  * Start the HTTP server
+ *
+ * Loads the policy named by `PRODUCTIVE_MCP_POLICY` first, and refuses to
+ * start when it is invalid.
  */
-export function startHttpServer(
+export async function startHttpServer(
   port: number = DEFAULT_PORT,
   host: string = DEFAULT_HOST,
 ): Promise<Server> {
+  const policy = await loadPolicyFromEnv();
+  setPolicy(policy);
+
   return new Promise((resolve) => {
     const app = createHttpApp();
     const server = createServer(toNodeHandler(app));
@@ -51,6 +59,19 @@ export function startHttpServer(
       console.log('Endpoints:');
       console.log(`  POST http://${displayHost}:${port}/mcp - MCP JSON-RPC endpoint`);
       console.log(`  GET  http://${displayHost}:${port}/health - Health check`);
+      if (process.env.PRODUCTIVE_MCP_WEBHOOK_SECRETS) {
+        console.log(
+          `  POST http://${displayHost}:${port}/webhooks/productive - Productive webhooks`,
+        );
+      }
+      if (process.env.PRODUCTIVE_MCP_AUDIT_TOKEN) {
+        console.log(`  GET  http://${displayHost}:${port}/audit - Audit log (admin token)`);
+      }
+      if (process.env.PRODUCTIVE_MCP_METRICS_TOKEN) {
+        console.log(
+          `  GET  http://${displayHost}:${port}/metrics - Prometheus metrics (scrape token)`,
+        );
+      }
       console.log('');
       console.log('OAuth 2.0 (MCP auth spec compliant):');
       console.log(`  GET  http://${displayHost}:${port}/.well-known/oauth-authorization-server`);
@@ -63,6 +84,17 @@ export function startHttpServer(
       console.log('  Option 2: Bearer token in Authorization header');
       console.log('            Token format: base64(organizationId:apiToken:userId)');
       console.log('');
+      if (policy) {
+        console.log(
+          `Policy: ${process.env.PRODUCTIVE_MCP_POLICY} (${policy.rules.length} rules, default ${policy.default})`,
+        );
+        console.log('');
+      }
+      const tracing = resolveTracingConfig();
+      if (tracing.url) {
+        console.log(`Tracing: ${tracing.url} (service ${tracing.serviceName})`);
+        console.log('');
+      }
       if (!process.env.OAUTH_SECRET) {
         console.log('⚠️  WARNING: OAUTH_SECRET not set. Set it in production!');
         console.log('   export OAUTH_SECRET="your-random-secret-here"');
@@ -171,6 +171,7 @@ describe('stdio handlers', () => {
         organizationId: 'test-org',
         apiToken: 'super-secret-token',
         userId: 'test-user',
+        profile: 'sandbox',
       });
 
       const result = await handleGetConfigTool();
@@ -180,6 +181,7 @@ describe('stdio handlers', () => {
       expect(response.userId).toBe('test-user');
       expect(response.apiToken).toBe('***oken'); // Masked
       expect(response.configured).toBe(true);
+      expect(response.profile).toBe('sandbox');
     });
 
     it('should handle missing config', async () => {
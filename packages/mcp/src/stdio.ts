@@ -10,6 +10,7 @@ import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
 import { getConfig, setConfig } from '@studiometa/productive-api';
 
 import { executeToolWithCredentials } from './handlers.js';
+import { allowedTools } from './policy/index.js';
 import { PROMPT_DEFINITIONS, getPromptMessages } from './prompts/index.js';
 import { TOOLS, STDIO_ONLY_TOOLS } from './tools.js';
 
@@ -19,7 +20,7 @@ export type ToolResult = CallToolResult;
  * Get all available tools (including stdio-only configuration tools)
  */
 export function getAvailableTools() {
-  return [...TOOLS, ...STDIO_ONLY_TOOLS];
+  return [...allowedTools(TOOLS), ...STDIO_ONLY_TOOLS];
 }
 
 /**
@@ -115,6 +116,7 @@ export async function handleGetConfigTool(): Promise<ToolResult> {
               ? '***' + currentConfig.apiToken.slice(-4)
               : 'not configured',
             configured: !!(currentConfig.organizationId && currentConfig.apiToken),
+            profile: currentConfig.profile,
           },
           null,
           2,
@@ -159,6 +161,7 @@ export async function handleToolCall(
     organizationId: config.organizationId,
     apiToken: config.apiToken,
     userId: config.userId,
+    timezone: config.timezone,
   });
 }
 
@@ -160,6 +160,12 @@ describe('getTaskListSuggestions', () => {
     expect(getTaskListSuggestions([])).toEqual([]);
   });
 
+  it('compares due dates with the given day', () => {
+    const tasks = [makeTask({ due_date: TODAY, hasAssignee: true })];
+    expect(getTaskListSuggestions(tasks)).toEqual([]);
+    expect(getTaskListSuggestions(tasks, TOMORROW)).toHaveLength(1);
+  });
+
   it('returns empty array when no tasks are overdue or unassigned', () => {
     const tasks = [
       makeTask({ due_date: TOMORROW, hasAssignee: true }),
@@ -15,11 +15,13 @@
 import type { JsonApiResource } from '@studiometa/productive-api';
 import type { MyDaySummaryResult } from '@studiometa/productive-core';
 
+import { createDateService } from '@studiometa/productive-core';
+
 /**
- * Get today's date string in YYYY-MM-DD format
+ * Today's date in the system timezone, for callers without a date service
  */
-function getToday(): string {
-  return new Date().toISOString().split('T')[0];
+function systemToday(): string {
+  return createDateService().today();
 }
 
 /**
@@ -28,12 +30,13 @@ function getToday(): string {
  * - Warns about overdue tasks (due_date < today and not closed)
  * - Informs about unassigned tasks
  */
-export function getTaskListSuggestions(tasks: JsonApiResource[]): string[] {
+export function getTaskListSuggestions(
+  tasks: JsonApiResource[],
+  today: string = systemToday(),
+): string[] {
   const suggestions: string[] = [];
   if (!tasks || tasks.length === 0) return suggestions;
 
-  const today = getToday();
-
   let overdueCount = 0;
   let unassignedCount = 0;
 
@@ -76,12 +79,12 @@ export function getTaskListSuggestions(tasks: JsonApiResource[]): string[] {
 export function getTaskGetSuggestions(
   task: JsonApiResource,
   included?: JsonApiResource[],
+  today: string = systemToday(),
 ): string[] {
   const suggestions: string[] = [];
   if (!task) return suggestions;
 
   const attrs = task.attributes as Record<string, unknown>;
-  const today = getToday();
 
   // Check overdue
   const dueDate = attrs.due_date as string | undefined;
@@ -121,6 +124,7 @@ export function getTaskGetSuggestions(
 export function getTimeListSuggestions(
   entries: JsonApiResource[],
   filter?: Record<string, string>,
+  today: string = systemToday(),
 ): string[] {
   const suggestions: string[] = [];
   if (!entries || entries.length === 0) return suggestions;
@@ -134,7 +138,6 @@ export function getTimeListSuggestions(
   const totalHours = +(totalMinutes / 60).toFixed(1);
 
   // Detect if this is a "today" filter: after === today AND before === today
-  const today = getToday();
   const isToday = filter?.after === today && filter?.before === today;
 
   if (isToday) {
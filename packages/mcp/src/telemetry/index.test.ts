@@ -0,0 +1,141 @@
+import { afterEach, describe, expect, it } from 'vitest';
+
+import {
+  classifyScriptError,
+  handleMetricsRequest,
+  instrumentToolCall,
+  metrics,
+  recordApiRequest,
+  recordCacheLookup,
+} from './index.js';
+
+const ok = { content: [{ type: 'text' as const, text: '{}' }] };
+
+afterEach(() => {
+  metrics.reset();
+});
+
+describe('instrumentToolCall', () => {
+  it('counts calls by resource, action and outcome', async () => {
+    await instrumentToolCall('productive', { resource: 'tasks', action: 'list' }, async () => ok);
+    await instrumentToolCall('productive', { resource: 'tasks', action: 'list' }, async () => ({
+      ...ok,
+      isError: true,
+    }));
+
+    const output = metrics.render();
+    expect(output).toContain(
+      'productive_mcp_tool_calls_total{tool="productive",resource="tasks",action="list",outcome="success"} 1',
+    );
+    expect(output).toContain(
+      'productive_mcp_tool_calls_total{tool="productive",resource="tasks",action="list",outcome="error"} 1',
+    );
+    expect(output).toContain(
+      'productive_mcp_tool_call_duration_seconds_count{tool="productive",resource="tasks",action="list"} 2',
+    );
+  });
+
+  it('counts unknown resources as other', async () => {
+    await instrumentToolCall(
+      'productive',
+      { resource: 'whatever', action: 'list' },
+      async () => ok,
+    );
+
+    expect(metrics.render()).toContain('resource="other",action="list",outcome="success"} 1');
+  });
+
+  it('counts thrown errors', async () => {
+    await expect(
+      instrumentToolCall('api_read', {}, async () => {
+        throw new Error('boom');
+      }),
+    ).rejects.toThrow('boom');
+
+    expect(metrics.render()).toContain(
+      'productive_mcp_tool_calls_total{tool="api_read",resource="",action="",outcome="error"} 1',
+    );
+  });
+});
+
+describe('recordApiRequest', () => {
+  it('counts requests, rate limiter waits and retries', () => {
+    recordApiRequest({
+      method: 'GET',
+      path: '/tasks/12',
+      status: 429,
+      durationMs: 40,
+      attempt: 0,
+      throttledMs: 250,
+      backoffMs: 0,
+    });
+    recordApiRequest({
+      method: 'GET',
+      path: '/tasks/12',
+      status: 200,
+      durationMs: 60,
+      attempt: 1,
+      throttledMs: 0,
+      backoffMs: 1000,
+    });
+
+    const output = metrics.render();
+    expect(output).toContain(
+      'productive_mcp_api_requests_total{method="GET",resource="tasks",status="429"} 1',
+    );
+    expect(output).toContain(
+      'productive_mcp_api_requests_total{method="GET",resource="tasks",status="200"} 1',
+    );
+    expect(output).toContain('productive_mcp_rate_limit_waits_total 1');
+    expect(output).toContain('productive_mcp_rate_limit_wait_seconds_total 0.25');
+    expect(output).toContain('productive_mcp_api_retries_total 1');
+    expect(output).toContain('productive_mcp_api_retry_backoff_seconds_total 1');
+  });
+});
+
+describe('recordCacheLookup', () => {
+  it('reports the hit ratio', () => {
+    recordCacheLookup('people', true);
+    recordCacheLookup('people', true);
+    recordCacheLookup('tasks', false);
+    recordCacheLookup('tasks', true);
+
+    const output = metrics.render();
+    expect(output).toContain(
+      'productive_mcp_cache_lookups_total{resource="people",result="hit"} 2',
+    );
+    expect(output).toContain('productive_mcp_cache_hit_ratio 0.75');
+  });
+});
+
+describe('classifyScriptError', () => {
+  it.each([
+    ['Script execution timed out', 'timeout'],
+    ['InternalError: out of memory', 'memory'],
+    ['API call budget exceeded (max 50)', 'api_budget'],
+    ['TypeError: x is not a function', 'error'],
+  ])('classifies %s', (message, outcome) => {
+    expect(classifyScriptError(message)).toBe(outcome);
+  });
+});
+
+describe('handleMetricsRequest', () => {
+  const env = { PRODUCTIVE_MCP_METRICS_TOKEN: 'scrape' };
+
+  it('reports 404 without a scrape token', () => {
+    expect(handleMetricsRequest('Bearer scrape', {}).status).toBe(404);
+  });
+
+  it('rejects other tokens', () => {
+    expect(handleMetricsRequest('Bearer other', env).status).toBe(401);
+    expect(handleMetricsRequest(undefined, env).status).toBe(401);
+  });
+
+  it('renders the registry', () => {
+    const result = handleMetricsRequest('Bearer scrape', env);
+
+    expect(result.status).toBe(200);
+    expect(result.contentType).toBe('text/plain; version=0.0.4; charset=utf-8');
+    expect(result.body).toContain('# TYPE productive_mcp_info gauge');
+  });
+});
@@ -0,0 +1,288 @@
+/**
+ * Observability of the MCP server: Prometheus metrics and OpenTelemetry traces.
+ *
+ * Metrics are always collected in memory and served by `GET /metrics` when
+ * `PRODUCTIVE_MCP_METRICS_TOKEN` is set (the route reports 404 otherwise).
+ * Traces are exported over OTLP/HTTP when `OTEL_EXPORTER_OTLP_ENDPOINT` or
+ * `OTEL_EXPORTER_OTLP_TRACES_ENDPOINT` is set: each tool call gets a span,
+ * with its executor run and the Productive API requests it made as children.
+ */
+
+import type { ApiRequestEvent } from '@studiometa/productive-api';
+
+import { ACTIONS, RESOURCES } from '@studiometa/productive-core';
+
+import type { ToolResult } from '../handlers/types.js';
+
+import { bearerTokenMatches } from '../admin.js';
+import { VERSION } from '../version.js';
+import { Counter, Gauge, Histogram, MetricsRegistry } from './metrics.js';
+import { OtlpHttpExporter, resolveTracingConfig, Tracer } from './tracing.js';
+
+export { Counter, Gauge, Histogram, MetricsRegistry } from './metrics.js';
+export { OtlpHttpExporter, resolveTracingConfig, Tracer } from './tracing.js';
+export type { ActiveSpan, SpanData, SpanExporter, TracingConfig } from './tracing.js';
+
+const TOOL_BUCKETS = [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30];
+const API_BUCKETS = [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10];
+
+/** Tools, resources and actions an agent sends outside the known ones are counted as `other` */
+const KNOWN_TOOLS = ['productive', 'api_read', 'api_write', 'run_script', 'search_docs'];
+
+export type ScriptOutcome = 'success' | 'error' | 'timeout' | 'memory' | 'api_budget';
+
+/** Process-wide registry served by `/metrics`. */
+export const metrics = new MetricsRegistry();
+
+metrics.register(
+  new Gauge('productive_mcp_info', 'Version of the running server', () => [
+    { labels: { version: VERSION }, value: 1 },
+  ]),
+);
+metrics.register(
+  new Gauge('productive_mcp_uptime_seconds', 'Time since the server started', () => [
+    { value: process.uptime() },
+  ]),
+);
+metrics.register(
+  new Gauge('productive_mcp_resident_memory_bytes', 'Resident memory of the process', () => [
+    { value: process.memoryUsage.rss() },
+  ]),
+);
+
+const toolCalls = metrics.register(
+  new Counter(
+    'productive_mcp_tool_calls_total',
+    'Tool calls by tool, resource, action and outcome',
+  ),
+);
+const toolCallDuration = metrics.register(
+  new Histogram(
+    'productive_mcp_tool_call_duration_seconds',
+    'Duration of tool calls by tool, resource and action',
+    TOOL_BUCKETS,
+  ),
+);
+const apiRequests = metrics.register(
+  new Counter(
+    'productive_mcp_api_requests_total',
+    'HTTP requests sent to the Productive API by method, resource and status (0 without response)',
+  ),
+);
+const apiRequestDuration = metrics.register(
+  new Histogram(
+    'productive_mcp_api_request_duration_seconds',
+    'Duration of Productive API requests by method and resource',
+    API_BUCKETS,
+  ),
+);
+const rateLimitWaits = metrics.register(
+  new Counter(
+    'productive_mcp_rate_limit_waits_total',
+    'API requests held back by the rate limiter',
+  ),
+);
+const rateLimitWaitSeconds = metrics.register(
+  new Counter(
+    'productive_mcp_rate_limit_wait_seconds_total',
+    'Time API requests spent held back by the rate limiter',
+  ),
+);
+const apiRetries = metrics.register(
+  new Counter('productive_mcp_api_retries_total', 'API requests retried after a 429 response'),
+);
+const apiRetryBackoffSeconds = metrics.register(
+  new Counter(
+    'productive_mcp_api_retry_backoff_seconds_total',
+    'Time waited after 429 responses before retrying',
+  ),
+);
+const scriptRuns = metrics.register(
+  new Counter(
+    'productive_mcp_run_script_runs_total',
+    'run_script runs by outcome: success, error, timeout, memory or api_budget',
+  ),
+);
+const scriptDuration = metrics.register(
+  new Histogram(
+    'productive_mcp_run_script_duration_seconds',
+    'Duration of run_script runs',
+    [0.1, 0.5, 1, 2.5, 5, 10, 30],
+  ),
+);
+const cacheLookups = metrics.register(
+  new Counter('productive_mcp_cache_lookups_total', 'API cache lookups by resource and result'),
+);
+metrics.register(
+  new Gauge(
+    'productive_mcp_cache_hit_ratio',
+    'Share of API cache lookups served from the cache since the server started',
+    () => {
+      const total = cacheLookups.sum();
+      return total > 0 ? [{ value: cacheLookups.sum({ result: 'hit' }) / total }] : [];
+    },
+  ),
+);
+
+let tracer: Tracer | null = null;
+
+/**
+ * The process-wide tracer, created from the environment on first use
+ */
+export function getTracer(): Tracer {
+  if (!tracer) {
+    const config = resolveTracingConfig();
+    tracer = new Tracer(
+      config.url
+        ? new OtlpHttpExporter(config.url, {
+            headers: config.headers,
+            serviceName: config.serviceName,
+            serviceVersion: VERSION,
+          })
+        : null,
+    );
+  }
+  return tracer;
+}
+
+function label(value: unknown, known: readonly string[]): string {
+  return typeof value === 'string' && known.includes(value) ? value : 'other';
+}
+
+/** Collection path of an API endpoint, e.g. `/tasks/123` → `tasks` */
+function resourceOf(path: string): string {
+  return path.split('/').find(Boolean) ?? '';
+}
+
+/**
+ * Run a tool call in a span and count it
+ */
+export async function instrumentToolCall(
+  tool: string,
+  args: Record<string, unknown>,
+  run: () => Promise<ToolResult>,
+): Promise<ToolResult> {
+  const labels: Record<string, string> = {
+    tool: label(tool, KNOWN_TOOLS),
+    resource: tool === 'productive' ? label(args.resource, RESOURCES) : '',
+    action: tool === 'productive' ? label(args.action, ACTIONS) : '',
+  };
+  const attributes = {
+    'mcp.tool': tool,
+    ...(typeof args.resource === 'string' && { 'productive.resource': args.resource }),
+    ...(typeof args.action === 'string' && { 'productive.action': args.action }),
+  };
+  const startedAt = performance.now();
+  let outcome = 'error';
+
+  try {
+    return await getTracer().withSpan(`tool ${tool}`, attributes, async (span) => {
+      const result = await run();
+      if (result.isError) {
+        span.setError('Tool returned an error');
+      } else {
+        outcome = 'success';
+      }
+      return result;
+    });
+  } finally {
+    toolCalls.inc({ ...labels, outcome });
+    toolCallDuration.observe(labels, (performance.now() - startedAt) / 1000);
+  }
+}
+
+/**
+ * Run the executor of a `productive` call in a span
+ */
+export function instrumentExecutor<T>(
+  resource: string,
+  action: string,
+  run: () => Promise<T>,
+): Promise<T> {
+  return getTracer().withSpan(
+    `execute ${resource}.${action}`,
+    { 'productive.resource': resource, 'productive.action': action },
+    () => run(),
+  );
+}
+
+/**
+ * Record a request sent to the Productive API: its count and latency by method,
+ * resource and status, any rate limiter wait or retry, and a client span.
+ */
+export function recordApiRequest(event: ApiRequestEvent): void {
+  const resource = resourceOf(event.path);
+  apiRequests.inc({ method: event.method, resource, status: String(event.status) });
+  apiRequestDuration.observe({ method: event.method, resource }, event.durationMs / 1000);
+  if (event.throttledMs > 0) {
+    rateLimitWaits.inc();
+    rateLimitWaitSeconds.inc({}, event.throttledMs / 1000);
+  }
+  if (event.attempt > 0) {
+    apiRetries.inc();
+    apiRetryBackoffSeconds.inc({}, event.backoffMs / 1000);
+  }
+
+  const endTimeMs = Date.now();
+  getTracer().recordSpan(`${event.method} /${resource}`, {
+    kind: 'client',
+    startTimeMs: endTimeMs - Math.round(event.durationMs),
+    endTimeMs,
+    attributes: {
+      'http.request.method': event.method,
+      'url.path': event.path,
+      'http.response.status_code': event.status,
+      'http.request.resend_count': event.attempt,
+    },
+    ...((event.status === 0 || event.status >= 400) && { error: `HTTP ${event.status}` }),
+  });
+}
+
+/**
+ * Outcome of a failed run_script run, from its error message
+ */
+export function classifyScriptError(message: string): ScriptOutcome {
+  if (/timed out/i.test(message)) return 'timeout';
+  if (/out of memory/i.test(message)) return 'memory';
+  if (/API call budget exceeded/.test(message)) return 'api_budget';
+  return 'error';
+}
+
+export function recordScriptRun(outcome: ScriptOutcome, durationMs: number): void {
+  scriptRuns.inc({ outcome });
+  scriptDuration.observe({}, durationMs / 1000);
+}
+
+export function recordCacheLookup(resource: string, hit: boolean): void {
+  cacheLookups.inc({ resource, result: hit ? 'hit' : 'miss' });
+}
+
+export interface MetricsRequestResult {
+  status: number;
+  contentType: string;
+  body: string;
+}
+
+/**
+ * Core logic of the `GET /metrics` route, decoupled from the HTTP framework.
+ */
+export function handleMetricsRequest(
+  authHeader: string | null | undefined,
+  env: NodeJS.ProcessEnv = process.env,
+  registry: MetricsRegistry = metrics,
+): MetricsRequestResult {
+  const token = env.PRODUCTIVE_MCP_METRICS_TOKEN;
+  if (!token) {
+    return { status: 404, contentType: 'application/json', body: '{"error":"Not found"}' };
+  }
+
+  if (!bearerTokenMatches(authHeader, token)) {
+    return { status: 401, contentType: 'application/json', body: '{"error":"Unauthorized"}' };
+  }
+
+  return {
+    status: 200,
+    contentType: 'text/plain; version=0.0.4; charset=utf-8',
+    body: registry.render(),
+  };
+}
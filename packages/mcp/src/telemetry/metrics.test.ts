@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+
+import { Counter, Gauge, Histogram, MetricsRegistry } from './metrics.js';
+
+describe('MetricsRegistry', () => {
+  it('renders counters with their labels', () => {
+    const registry = new MetricsRegistry();
+    const counter = registry.register(new Counter('calls_total', 'Calls'));
+
+    counter.inc({ tool: 'productive', outcome: 'success' });
+    counter.inc({ tool: 'productive', outcome: 'success' });
+    counter.inc({ tool: 'run_script', outcome: 'error' }, 3);
+
+    expect(registry.render()).toBe(
+      [
+        '# HELP calls_total Calls',
+        '# TYPE calls_total counter',
+        'calls_total{tool="productive",outcome="success"} 2',
+        'calls_total{tool="run_script",outcome="error"} 3',
+        '',
+      ].join('\n'),
+    );
+    expect(counter.get({ outcome: 'success', tool: 'productive' })).toBe(2);
+    expect(counter.sum({ tool: 'productive' })).toBe(2);
+    expect(counter.sum()).toBe(5);
+  });
+
+  it('renders cumulative histogram buckets', () => {
+    const registry = new MetricsRegistry();
+    const histogram = registry.register(new Histogram('duration_seconds', 'Duration', [0.1, 1]));
+
+    histogram.observe({}, 0.05);
+    histogram.observe({}, 0.5);
+    histogram.observe({}, 2);
+
+    expect(registry.render()).toContain(
+      [
+        'duration_seconds_bucket{le="0.1"} 1',
+        'duration_seconds_bucket{le="1"} 2',
+        'duration_seconds_bucket{le="+Inf"} 3',
+        'duration_seconds_sum 2.55',
+        'duration_seconds_count 3',
+      ].join('\n'),
+    );
+  });
+
+  it('collects gauges when rendering and escapes label values', () => {
+    const registry = new MetricsRegistry();
+    let value = 1;
+    registry.register(new Gauge('level', 'Level', () => [{ labels: { name: 'a"b' }, value }]));
+
+    value = 7;
+
+    expect(registry.render()).toContain('level{name="a\\"b"} 7');
+  });
+
+  it('drops the recorded samples on reset', () => {
+    const registry = new MetricsRegistry();
+    const counter = registry.register(new Counter('calls_total', 'Calls'));
+    counter.inc();
+
+    registry.reset();
+
+    expect(counter.get()).toBe(0);
+    expect(registry.render()).toBe('# HELP calls_total Calls\n# TYPE calls_total counter\n');
+  });
+});
@@ -0,0 +1,176 @@
+/**
+ * Minimal Prometheus metrics: counters, histograms and gauges with labels,
+ * rendered in the text exposition format.
+ */
+
+export type Labels = Record<string, string>;
+
+function labelKey(labels: Labels): string {
+  return JSON.stringify(Object.entries(labels).toSorted(([a], [b]) => a.localeCompare(b)));
+}
+
+function escapeLabel(value: string): string {
+  return value.replaceAll('\\', '\\\\').replaceAll('"', '\\"').replaceAll('\n', '\\n');
+}
+
+function formatLabels(labels: Labels): string {
+  const pairs = Object.entries(labels).map(([name, value]) => `${name}="${escapeLabel(value)}"`);
+  return pairs.length > 0 ? `{${pairs.join(',')}}` : '';
+}
+
+function formatNumber(value: number): string {
+  if (value === Infinity) return '+Inf';
+  return Number.isInteger(value) ? String(value) : String(Math.round(value * 1e6) / 1e6);
+}
+
+interface Metric {
+  render(): string[];
+}
+
+abstract class LabeledMetric<T> implements Metric {
+  protected series = new Map<string, { labels: Labels; value: T }>();
+
+  constructor(
+    readonly name: string,
+    readonly help: string,
+    private readonly type: 'counter' | 'gauge' | 'histogram',
+  ) {}
+
+  protected entry(labels: Labels, create: () => T): { labels: Labels; value: T } {
+    const key = labelKey(labels);
+    let entry = this.series.get(key);
+    if (!entry) {
+      entry = { labels, value: create() };
+      this.series.set(key, entry);
+    }
+    return entry;
+  }
+
+  render(): string[] {
+    return [
+      `# HELP ${this.name} ${this.help}`,
+      `# TYPE ${this.name} ${this.type}`,
+      ...this.samples(),
+    ];
+  }
+
+  protected abstract samples(): string[];
+
+  reset(): void {
+    this.series.clear();
+  }
+}
+
+export class Counter extends LabeledMetric<number> {
+  constructor(name: string, help: string) {
+    super(name, help, 'counter');
+  }
+
+  inc(labels: Labels = {}, amount = 1): void {
+    this.entry(labels, () => 0).value += amount;
+  }
+
+  get(labels: Labels = {}): number {
+    return this.series.get(labelKey(labels))?.value ?? 0;
+  }
+
+  /** Sum of the series matching some labels */
+  sum(labels: Labels = {}): number {
+    let total = 0;
+    for (const entry of this.series.values()) {
+      if (Object.entries(labels).every(([name, value]) => entry.labels[name] === value)) {
+        total += entry.value;
+      }
+    }
+    return total;
+  }
+
+  protected samples(): string[] {
+    return [...this.series.values()].map(
+      (entry) => `${this.name}${formatLabels(entry.labels)} ${formatNumber(entry.value)}`,
+    );
+  }
+}
+
+interface HistogramValue {
+  counts: number[];
+  sum: number;
+  count: number;
+}
+
+export class Histogram extends LabeledMetric<HistogramValue> {
+  constructor(
+    name: string,
+    help: string,
+    private readonly buckets: number[],
+  ) {
+    super(name, help, 'histogram');
+  }
+
+  observe(labels: Labels, value: number): void {
+    const entry = this.entry(labels, () => ({
+      counts: this.buckets.map(() => 0),
+      sum: 0,
+      count: 0,
+    })).value;
+    this.buckets.forEach((bound, index) => {
+      if (value <= bound) entry.counts[index]++;
+    });
+    entry.sum += value;
+    entry.count++;
+  }
+
+  protected samples(): string[] {
+    return [...this.series.values()].flatMap(({ labels, value }) => [
+      ...this.buckets.map(
+        (bound, index) =>
+          `${this.name}_bucket${formatLabels({ ...labels, le: formatNumber(bound) })} ${value.counts[index]}`,
+      ),
+      `${this.name}_bucket${formatLabels({ ...labels, le: '+Inf' })} ${value.count}`,
+      `${this.name}_sum${formatLabels(labels)} ${formatNumber(value.sum)}`,
+      `${this.name}_count${formatLabels(labels)} ${value.count}`,
+    ]);
+  }
+}
+
+/**
+ * A gauge whose samples are computed when metrics are rendered
+ */
+export class Gauge implements Metric {
+  constructor(
+    readonly name: string,
+    readonly help: string,
+    private readonly collect: () => Array<{ labels?: Labels; value: number }>,
+  ) {}
+
+  render(): string[] {
+    return [
+      `# HELP ${this.name} ${this.help}`,
+      `# TYPE ${this.name} gauge`,
+      ...this.collect().map(
+        ({ labels = {}, value }) => `${this.name}${formatLabels(labels)} ${formatNumber(value)}`,
+      ),
+    ];
+  }
+}
+
+export class MetricsRegistry {
+  private metrics: Metric[] = [];
+
+  register<T extends Metric>(metric: T): T {
+    this.metrics.push(metric);
+    return metric;
+  }
+
+  /** All metrics in the Prometheus text exposition format */
+  render(): string {
+    return `${this.metrics.flatMap((metric) => metric.render()).join('\n')}\n`;
+  }
+
+  /** Drop every recorded sample, e.g. between tests */
+  reset(): void {
+    for (const metric of this.metrics) {
+      if (metric instanceof LabeledMetric) metric.reset();
+    }
+  }
+}
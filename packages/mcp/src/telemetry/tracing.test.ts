@@ -0,0 +1,165 @@
+import { describe, expect, it, vi } from 'vitest';
+
+import type { SpanData, SpanExporter } from './tracing.js';
+
+import { OtlpHttpExporter, resolveTracingConfig, Tracer } from './tracing.js';
+
+function memoryExporter(): SpanExporter & { spans: SpanData[] } {
+  const spans: SpanData[] = [];
+  return {
+    spans,
+    async export(batch) {
+      spans.push(...batch);
+    },
+  };
+}
+
+describe('Tracer', () => {
+  it('nests spans started within another span', async () => {
+    const exporter = memoryExporter();
+    const tracer = new Tracer(exporter);
+
+    await tracer.withSpan('tool productive', { 'mcp.tool': 'productive' }, async () => {
+      await tracer.withSpan('execute tasks.list', {}, async () => {
+        tracer.recordSpan('GET /tasks', {
+          kind: 'client',
+          startTimeMs: 1,
+          endTimeMs: 2,
+          attributes: {},
+        });
+      });
+    });
+    await tracer.flush();
+
+    const [request, executor, tool] = exporter.spans;
+    expect(tool).toMatchObject({ name: 'tool productive', kind: 'internal' });
+    expect(tool.parentSpanId).toBeUndefined();
+    expect(executor).toMatchObject({ traceId: tool.traceId, parentSpanId: tool.spanId });
+    expect(request).toMatchObject({
+      name: 'GET /tasks',
+      kind: 'client',
+      traceId: tool.traceId,
+      parentSpanId: executor.spanId,
+    });
+  });
+
+  it('marks a span as failed when its callback throws', async () => {
+    const exporter = memoryExporter();
+    const tracer = new Tracer(exporter);
+
+    await expect(
+      tracer.withSpan('tool productive', {}, async () => {
+        throw new Error('boom');
+      }),
+    ).rejects.toThrow('boom');
+    await tracer.flush();
+
+    expect(exporter.spans[0].error).toBe('boom');
+  });
+
+  it('ignores spans recorded outside of a span', async () => {
+    const exporter = memoryExporter();
+    const tracer = new Tracer(exporter);
+
+    tracer.recordSpan('GET /tasks', {
+      kind: 'client',
+      startTimeMs: 1,
+      endTimeMs: 2,
+      attributes: {},
+    });
+    await tracer.flush();
+
+    expect(exporter.spans).toEqual([]);
+  });
+
+  it('only runs the callback without an exporter', async () => {
+    const tracer = new Tracer(null);
+
+    expect(tracer.enabled).toBe(false);
+    await expect(tracer.withSpan('tool productive', {}, async () => 'done')).resolves.toBe('done');
+  });
+});
+
+describe('OtlpHttpExporter', () => {
+  const span: SpanData = {
+    traceId: 'a'.repeat(32),
+    spanId: 'b'.repeat(16),
+    name: 'GET /tasks',
+    kind: 'client',
+    startTimeMs: 1000,
+    endTimeMs: 1250,
+    attributes: { 'http.response.status_code': 200, 'url.path': '/tasks' },
+  };
+
+  it('posts spans as OTLP JSON', async () => {
+    const fetch = vi.fn().mockResolvedValue(new Response('{}'));
+    const exporter = new OtlpHttpExporter('http://collector:4318/v1/traces', {
+      headers: { 'x-api-key': 'key' },
+      serviceVersion: '1.0.0',
+      fetch,
+    });
+
+    await exporter.export([span]);
+
+    const [url, init] = fetch.mock.calls[0];
+    expect(url).toBe('http://collector:4318/v1/traces');
+    expect(init.headers).toMatchObject({ 'x-api-key': 'key' });
+    const body = JSON.parse(init.body);
+    expect(body.resourceSpans[0].resource.attributes).toContainEqual({
+      key: 'service.name',
+      value: { stringValue: 'productive-mcp' },
+    });
+    expect(body.resourceSpans[0].scopeSpans[0].spans[0]).toMatchObject({
+      traceId: span.traceId,
+      kind: 3,
+      startTimeUnixNano: '1000000000',
+      endTimeUnixNano: '1250000000',
+      attributes: expect.arrayContaining([
+        { key: 'http.response.status_code', value: { intValue: 200 } },
+      ]),
+      status: { code: 1 },
+    });
+  });
+
+  it('warns once when the collector cannot be reached', async () => {
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const fetch = vi.fn().mockRejectedValue(new Error('ECONNREFUSED'));
+    const exporter = new OtlpHttpExporter('http://collector:4318/v1/traces', { fetch });
+
+    await exporter.export([span]);
+    await exporter.export([span]);
+
+    expect(error).toHaveBeenCalledTimes(1);
+    error.mockRestore();
+  });
+});
+
+describe('resolveTracingConfig', () => {
+  it('is off without an endpoint', () => {
+    expect(resolveTracingConfig({}).url).toBeUndefined();
+  });
+
+  it('derives the traces endpoint and headers from the OTLP variables', () => {
+    expect(
+      resolveTracingConfig({
+        OTEL_EXPORTER_OTLP_ENDPOINT: 'http://collector:4318/',
+        OTEL_EXPORTER_OTLP_HEADERS: 'authorization=Basic%20abc,x-tenant=a',
+        OTEL_EXPORTER_OTLP_TRACES_HEADERS: 'x-tenant=b',
+        OTEL_SERVICE_NAME: 'mcp-eu',
+      }),
+    ).toEqual({
+      url: 'http://collector:4318/v1/traces',
+      headers: { authorization: 'Basic abc', 'x-tenant': 'b' },
+      serviceName: 'mcp-eu',
+    });
+  });
+
+  it('prefers the traces endpoint', () => {
+    expect(
+      resolveTracingConfig({
+        OTEL_EXPORTER_OTLP_ENDPOINT: 'http://collector:4318',
+        OTEL_EXPORTER_OTLP_TRACES_ENDPOINT: 'http://traces:4318/custom',
+      }).url,
+    ).toBe('http://traces:4318/custom');
+  });
+});
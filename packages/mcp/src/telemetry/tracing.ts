@@ -0,0 +1,262 @@
+/**
+ * Minimal OpenTelemetry tracing, exported over OTLP/HTTP as JSON.
+ *
+ * The active span is carried by an `AsyncLocalStorage`, so spans started
+ * within a tool call (executor runs, API requests, nested batch operations)
+ * become its children without threading a context through every handler.
+ * Without an exporter, `withSpan` only runs its callback.
+ */
+
+import { AsyncLocalStorage } from 'node:async_hooks';
+import { randomBytes } from 'node:crypto';
+
+export type SpanKind = 'internal' | 'server' | 'client';
+
+export type SpanAttributes = Record<string, string | number | boolean>;
+
+export interface SpanData {
+  traceId: string;
+  spanId: string;
+  parentSpanId?: string;
+  name: string;
+  kind: SpanKind;
+  startTimeMs: number;
+  endTimeMs: number;
+  attributes: SpanAttributes;
+  /** Error message, when the span failed */
+  error?: string;
+}
+
+export interface SpanExporter {
+  export(spans: SpanData[]): Promise<void>;
+}
+
+/**
+ * The span a callback of `withSpan` runs in
+ */
+export interface ActiveSpan {
+  setAttribute(name: string, value: string | number | boolean): void;
+  setError(message: string): void;
+}
+
+const NOOP_SPAN: ActiveSpan = {
+  setAttribute() {},
+  setError() {},
+};
+
+/** Spans buffered before an export is triggered */
+const MAX_BATCH_SIZE = 100;
+
+const FLUSH_INTERVAL_MS = 5000;
+
+/** OTLP span kinds */
+const KIND_CODES: Record<SpanKind, number> = { internal: 1, server: 2, client: 3 };
+
+export class Tracer {
+  private context = new AsyncLocalStorage<{ traceId: string; spanId: string }>();
+  private buffer: SpanData[] = [];
+  private timer: ReturnType<typeof setInterval> | null = null;
+
+  constructor(private readonly exporter: SpanExporter | null) {}
+
+  get enabled(): boolean {
+    return this.exporter !== null;
+  }
+
+  /**
+   * Run `fn` in a new span, child of the active one
+   */
+  async withSpan<T>(
+    name: string,
+    attributes: SpanAttributes,
+    fn: (span: ActiveSpan) => Promise<T>,
+    kind: SpanKind = 'internal',
+  ): Promise<T> {
+    if (!this.exporter) return fn(NOOP_SPAN);
+
+    const parent = this.context.getStore();
+    const span: SpanData = {
+      traceId: parent?.traceId ?? randomBytes(16).toString('hex'),
+      spanId: randomBytes(8).toString('hex'),
+      ...(parent && { parentSpanId: parent.spanId }),
+      name,
+      kind,
+      startTimeMs: Date.now(),
+      endTimeMs: 0,
+      attributes: { ...attributes },
+    };
+    const active: ActiveSpan = {
+      setAttribute: (key, value) => {
+        span.attributes[key] = value;
+      },
+      setError: (message) => {
+        span.error = message;
+      },
+    };
+
+    try {
+      return await this.context.run({ traceId: span.traceId, spanId: span.spanId }, () =>
+        fn(active),
+      );
+    } catch (error) {
+      span.error = error instanceof Error ? error.message : String(error);
+      throw error;
+    } finally {
+      span.endTimeMs = Date.now();
+      this.push(span);
+    }
+  }
+
+  /**
+   * Record a span that already ended, as a child of the active one.
+   * Does nothing outside of a span.
+   */
+  recordSpan(
+    name: string,
+    span: Omit<SpanData, 'traceId' | 'spanId' | 'parentSpanId' | 'name'>,
+  ): void {
+    const parent = this.context.getStore();
+    if (!this.exporter || !parent) return;
+
+    this.push({
+      ...span,
+      name,
+      traceId: parent.traceId,
+      spanId: randomBytes(8).toString('hex'),
+      parentSpanId: parent.spanId,
+    });
+  }
+
+  /** Export the buffered spans */
+  async flush(): Promise<void> {
+    if (!this.exporter || this.buffer.length === 0) return;
+    const spans = this.buffer;
+    this.buffer = [];
+    await this.exporter.export(spans);
+  }
+
+  private push(span: SpanData): void {
+    this.buffer.push(span);
+    if (this.buffer.length >= MAX_BATCH_SIZE) {
+      void this.flush();
+    } else if (!this.timer) {
+      this.timer = setInterval(() => void this.flush(), FLUSH_INTERVAL_MS);
+      this.timer.unref();
+    }
+  }
+}
+
+function attributeValue(value: string | number | boolean) {
+  if (typeof value === 'boolean') return { boolValue: value };
+  if (typeof value === 'number') {
+    return Number.isInteger(value) ? { intValue: value } : { doubleValue: value };
+  }
+  return { stringValue: value };
+}
+
+function toAttributes(attributes: SpanAttributes) {
+  return Object.entries(attributes).map(([key, value]) => ({ key, value: attributeValue(value) }));
+}
+
+/**
+ * Sends spans to an OTLP/HTTP collector endpoint (e.g. `http://collector:4318/v1/traces`)
+ * using the JSON encoding.
+ */
+export class OtlpHttpExporter implements SpanExporter {
+  private warned = false;
+
+  constructor(
+    readonly url: string,
+    private readonly options: {
+      headers?: Record<string, string>;
+      serviceName?: string;
+      serviceVersion?: string;
+      fetch?: typeof fetch;
+    } = {},
+  ) {}
+
+  async export(spans: SpanData[]): Promise<void> {
+    const body = {
+      resourceSpans: [
+        {
+          resource: {
+            attributes: toAttributes({
+              'service.name': this.options.serviceName ?? 'productive-mcp',
+              ...(this.options.serviceVersion && {
+                'service.version': this.options.serviceVersion,
+              }),
+            }),
+          },
+          scopeSpans: [
+            {
+              scope: { name: 'productive-mcp' },
+              spans: spans.map((span) => ({
+                traceId: span.traceId,
+                spanId: span.spanId,
+                ...(span.parentSpanId && { parentSpanId: span.parentSpanId }),
+                name: span.name,
+                kind: KIND_CODES[span.kind],
+                startTimeUnixNano: `${span.startTimeMs}000000`,
+                endTimeUnixNano: `${span.endTimeMs}000000`,
+                attributes: toAttributes(span.attributes),
+                status: span.error ? { code: 2, message: span.error } : { code: 1 },
+              })),
+            },
+          ],
+        },
+      ],
+    };
+
+    try {
+      const response = await (this.options.fetch ?? globalThis.fetch)(this.url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...this.options.headers },
+        body: JSON.stringify(body),
+        signal: AbortSignal.timeout(10_000),
+      });
+      if (!response.ok) throw new Error(`HTTP ${response.status}`);
+    } catch (error) {
+      if (!this.warned) {
+        this.warned = true;
+        console.error(
+          `Tracing: cannot export spans to ${this.url}: ${error instanceof Error ? error.message : String(error)}`,
+        );
+      }
+    }
+  }
+}
+
+export interface TracingConfig {
+  /** OTLP traces endpoint, tracing is off without it */
+  url?: string;
+  headers: Record<string, string>;
+  serviceName: string;
+}
+
+/**
+ * Parse `key=value` pairs, as in `OTEL_EXPORTER_OTLP_HEADERS`.
+ */
+function parseHeaders(value: string | undefined): Record<string, string> {
+  const headers: Record<string, string> = {};
+  for (const pair of (value ?? '').split(',')) {
+    const index = pair.indexOf('=');
+    if (index <= 0) continue;
+    headers[pair.slice(0, index).trim()] = decodeURIComponent(pair.slice(index + 1).trim());
+  }
+  return headers;
+}
+
+/**
+ * Resolve tracing from the standard OpenTelemetry variables.
+ */
+export function resolveTracingConfig(env: NodeJS.ProcessEnv = process.env): TracingConfig {
+  const base = env.OTEL_EXPORTER_OTLP_ENDPOINT?.replace(/\/+$/, '');
+  return {
+    url: env.OTEL_EXPORTER_OTLP_TRACES_ENDPOINT || (base ? `${base}/v1/traces` : undefined),
+    headers: {
+      ...parseHeaders(env.OTEL_EXPORTER_OTLP_HEADERS),
+      ...parseHeaders(env.OTEL_EXPORTER_OTLP_TRACES_HEADERS),
+    },
+    serviceName: env.OTEL_SERVICE_NAME || 'productive-mcp',
+  };
+}
@@ -139,15 +139,17 @@ describe('tools', () => {
   });
 
   describe('token optimization', () => {
+    // Raised for the bulk, approval and undo fields; details beyond the
+    // parameter descriptions belong in action=help
     it('should have reasonable tool schema size', () => {
       const totalSize = JSON.stringify(TOOLS).length;
-      expect(totalSize).toBeLessThan(10000);
+      expect(totalSize).toBeLessThan(10600);
     });
 
-    it('should estimate under 1700 tokens', () => {
+    it('should estimate under 2700 tokens', () => {
       const totalSize = JSON.stringify(TOOLS).length;
       const estimatedTokens = Math.ceil(totalSize / 4);
-      expect(estimatedTokens).toBeLessThan(2600);
+      expect(estimatedTokens).toBeLessThan(2700);
     });
   });
 });
@@ -17,7 +17,9 @@ function generateDescription(): string {
     'Output: compact=false for full detail (default for get; list defaults true).',
     'Search: query for text search on list actions. Cross-resource: resource=search action=run with query searches projects, companies, people, tasks simultaneously.',
     'Reports: resource=reports action=get with report_type, from, to.',
+    'Availability: resource=availability action=get with from, to, person_id (comma-separated).',
     'Batch: resource=batch action=run with operations=[{resource,action,...}] executes up to 10 ops in parallel.',
+    'Undo: resource=history action=undo reverts recent writes.',
     'Rich context: action=context on tasks/projects/deals for full context in one call.',
   ].join('\n');
 }
@@ -44,7 +46,7 @@ export const TOOLS: Tool[] = [
     annotations: {
       title: 'Productive.io',
       readOnlyHint: false,
-      destructiveHint: false,
+      destructiveHint: true,
       idempotentHint: false,
       openWorldHint: true,
     },
@@ -114,6 +116,27 @@ export const TOOLS: Tool[] = [
         started_on: { type: 'string', description: 'Booking date (YYYY-MM-DD)' },
         ended_on: { type: 'string', description: 'Booking end date (YYYY-MM-DD)' },
         event_id: { type: 'string' },
+        // Holiday fields
+        holiday_calendar_id: { type: 'string' },
+        // Invoice fields
+        subject: { type: 'string', description: 'Invoice subject' },
+        currency: { type: 'string', description: 'Invoice currency code (e.g. EUR)' },
+        pay_on: { type: 'string', description: 'Invoice due date (YYYY-MM-DD)' },
+        document_type_id: { type: 'string' },
+        subsidiary_id: { type: 'string' },
+        // Expense fields
+        amount: { type: 'number', description: 'Expense amount in currency units (e.g. 45.5)' },
+        reimbursable: { type: 'boolean', description: 'Mark an expense as reimbursable' },
+        reason: { type: 'string', description: 'Rejection reason' },
+        // Task list, board and workflow status fields
+        board_id: { type: 'string', description: 'Board (task list folder) ID' },
+        workflow_id: { type: 'string' },
+        category: {
+          type: 'string',
+          description: 'Workflow status category: not_started, started, closed',
+        },
+        position: { type: 'number', description: 'Position used to reorder lists/columns' },
+        color_id: { type: 'number' },
         // Report fields
         report_type: {
           type: 'string',
@@ -124,6 +147,9 @@ export const TOOLS: Tool[] = [
         from: { type: 'string', description: 'Report start (YYYY-MM-DD); filter.after for time' },
         to: { type: 'string', description: 'Report end (YYYY-MM-DD); filter.before for time' },
         status: { type: 'string' },
+        // Bulk update fields (limit and concurrency are documented in action=help)
+        set: { type: 'object' },
+        confirm: { type: 'boolean' },
         // Batch fields
         operations: {
           type: 'array',
@@ -0,0 +1,192 @@
+/**
+ * Tests for the webhook receiver and event log.
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+
+import {
+  EventLog,
+  handleWebhookRequest,
+  normalizeWebhookRecord,
+  parseWebhookSecrets,
+  readEvents,
+} from './webhooks.js';
+
+const env = (o: Record<string, string>): NodeJS.ProcessEnv => o as NodeJS.ProcessEnv;
+const webhookEnv = env({ PRODUCTIVE_MCP_WEBHOOK_SECRETS: 'org-1=secret,org-2=other-secret' });
+
+function headers(extra: Record<string, string> = {}): Headers {
+  return new Headers({ 'X-Webhook-Secret': 'secret', ...extra });
+}
+
+const task = {
+  id: '42',
+  type: 'tasks',
+  attributes: { title: 'Review PR', closed: false },
+  relationships: {
+    organization: { data: { type: 'organizations', id: 'org-1' } },
+    assignee: { data: { type: 'people', id: '7' } },
+  },
+};
+
+function event(organizationId: string, resourceId = '42') {
+  return {
+    event: 'task.updated',
+    organizationId,
+    resourceType: 'tasks',
+    resourceId,
+    personIds: [],
+    receivedAt: '2024-01-15T10:00:00.000Z',
+    data: { id: resourceId },
+  };
+}
+
+describe('handleWebhookRequest', () => {
+  it('returns 404 when no webhook secret is configured', () => {
+    const log = new EventLog();
+    const res = handleWebhookRequest({ data: task }, headers(), env({}), log);
+    expect(res.status).toBe(404);
+    expect(log.list('org-1')).toHaveLength(0);
+  });
+
+  it('returns 401 on a missing or wrong secret', () => {
+    const log = new EventLog();
+    expect(handleWebhookRequest({ data: task }, new Headers(), webhookEnv, log).status).toBe(401);
+    expect(
+      handleWebhookRequest({ data: task }, headers({ 'X-Webhook-Secret': 'nope' }), webhookEnv, log)
+        .status,
+    ).toBe(401);
+    expect(log.list('org-1')).toHaveLength(0);
+  });
+
+  it('returns 400 for a payload without a data resource', () => {
+    const log = new EventLog();
+    expect(handleWebhookRequest(undefined, headers(), webhookEnv, log).status).toBe(400);
+    expect(handleWebhookRequest({ data: [task] }, headers(), webhookEnv, log).status).toBe(400);
+    expect(handleWebhookRequest({ data: { id: '1' } }, headers(), webhookEnv, log).status).toBe(
+      400,
+    );
+  });
+
+  it('records events for the organization of the secret only', () => {
+    const log = new EventLog();
+    const { relationships: _, ...orphan } = task;
+    const otherSecret = headers({ 'X-Webhook-Secret': 'other-secret' });
+
+    expect(handleWebhookRequest({ data: orphan }, otherSecret, webhookEnv, log).status).toBe(202);
+    expect(handleWebhookRequest({ data: task }, otherSecret, webhookEnv, log).status).toBe(403);
+    expect(
+      handleWebhookRequest(
+        { data: orphan },
+        headers({ 'X-Webhook-Secret': 'other-secret', 'X-Organization-Id': 'org-1' }),
+        webhookEnv,
+        log,
+      ).status,
+    ).toBe(202);
+
+    expect(log.list('org-1')).toHaveLength(0);
+    expect(log.list('org-2')).toHaveLength(2);
+  });
+
+  it('records a normalized event', () => {
+    const log = new EventLog();
+    const res = handleWebhookRequest(
+      { data: task, meta: { event: 'task.updated' } },
+      headers(),
+      webhookEnv,
+      log,
+    );
+
+    expect(res).toEqual({ status: 202, body: { status: 'accepted', seq: 1 } });
+    const [stored] = log.list('org-1');
+    expect(stored).toMatchObject({
+      seq: 1,
+      event: 'task.updated',
+      resourceType: 'tasks',
+      resourceId: '42',
+      personIds: ['7'],
+    });
+    expect(stored.data).toMatchObject({ id: '42', title: 'Review PR' });
+  });
+
+  it('takes the event name from the header, then defaults to the type', () => {
+    const log = new EventLog();
+    handleWebhookRequest(
+      { data: task },
+      headers({ 'X-Webhook-Event': 'task.created' }),
+      webhookEnv,
+      log,
+    );
+    handleWebhookRequest({ data: task }, headers(), webhookEnv, log);
+
+    expect(log.list('org-1').map((e) => e.event)).toEqual(['tasks.changed', 'task.created']);
+  });
+});
+
+describe('parseWebhookSecrets', () => {
+  it('reads org-id=secret pairs, ignoring malformed ones', () => {
+    expect(parseWebhookSecrets(' org-1 = a=b , =nope, org-2=, org-3=c')).toEqual(
+      new Map([
+        ['org-1', 'a=b'],
+        ['org-3', 'c'],
+      ]),
+    );
+    expect(parseWebhookSecrets(undefined).size).toBe(0);
+  });
+});
+
+describe('normalizeWebhookRecord', () => {
+  it('resolves sideloaded records with the type formatter', () => {
+    const record = normalizeWebhookRecord(task, [
+      { id: '7', type: 'people', attributes: { first_name: 'Jane', last_name: 'Doe' } },
+    ]);
+    expect(record.assignee_name).toBe('Jane Doe');
+  });
+
+  it('flattens unknown types', () => {
+    expect(
+      normalizeWebhookRecord({ id: '3', type: 'widgets', attributes: { name: 'Chart' } }),
+    ).toEqual({ id: '3', name: 'Chart' });
+  });
+});
+
+describe('EventLog', () => {
+  it('keeps the most recent events up to its bound', () => {
+    const log = new EventLog(2);
+    log.append(event('org-1', '1'));
+    log.append(event('org-1', '2'));
+    log.append(event('org-1', '3'));
+
+    expect(log.list('org-1').map((e) => e.resourceId)).toEqual(['3', '2']);
+  });
+
+  it('notifies listeners of the same organization until unsubscribed', () => {
+    const log = new EventLog();
+    const listener = vi.fn();
+    const unsubscribe = log.subscribe('org-1', listener);
+
+    log.append(event('org-1'));
+    log.append(event('org-2'));
+    unsubscribe();
+    log.append(event('org-1'));
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener).toHaveBeenCalledWith(expect.objectContaining({ organizationId: 'org-1' }));
+  });
+});
+
+describe('readEvents', () => {
+  it('flags events concerning the reading user', () => {
+    const log = new EventLog(10);
+    log.append({ ...event('org-1', '1'), personIds: ['7'] });
+    log.append(event('org-1', '2'));
+
+    const result = readEvents('org-1', '7', log);
+
+    expect(result.data.map((e) => [e.resource_id, e.mine])).toEqual([
+      ['2', false],
+      ['1', true],
+    ]);
+    expect(result.meta).toEqual({ count: 2, max_events: 10 });
+  });
+});
@@ -0,0 +1,299 @@
+/**
+ * Productive webhook receiver and in-memory event log.
+ *
+ * `POST /webhooks/productive` accepts the payloads Productive delivers for a
+ * webhook — a JSON:API document of the record that changed. Productive does
+ * not sign payloads, but a webhook can send custom headers, so the receiver
+ * requires one named `X-Webhook-Secret` matching the secret of an organization
+ * in `PRODUCTIVE_MCP_WEBHOOK_SECRETS` (`org-id=secret` pairs). Without that
+ * variable the route reports as not found.
+ *
+ * Accepted payloads are normalized with the MCP formatters and kept in a
+ * bounded log (`PRODUCTIVE_MCP_WEBHOOK_MAX_EVENTS`, default 100) that agents
+ * read through the `productive://events` resource. Events are scoped to the
+ * organization the secret belongs to: a record of another organization is
+ * refused, so a secret only ever feeds the events of its own organization.
+ */
+
+import { timingSafeEqual } from 'node:crypto';
+
+import {
+  formatBooking,
+  formatComment,
+  formatCompany,
+  formatDeal,
+  formatDiscussion,
+  formatExpense,
+  formatInvoice,
+  formatPage,
+  formatPerson,
+  formatProject,
+  formatService,
+  formatTask,
+  formatTimeEntry,
+  formatTimer,
+  type JsonApiResource,
+  type McpFormatOptions,
+} from './formatters.js';
+
+const DEFAULT_MAX_EVENTS = 100;
+
+/** Relationships that point at the people a record concerns. */
+const PERSON_RELATIONSHIPS = ['assignee', 'person'];
+
+/** MCP formatters keyed by JSON:API resource type. */
+const FORMATTERS: Record<
+  string,
+  (resource: JsonApiResource, options?: McpFormatOptions) => Record<string, unknown>
+> = {
+  bookings: formatBooking,
+  comments: formatComment,
+  companies: formatCompany,
+  deals: formatDeal,
+  discussions: formatDiscussion,
+  expenses: formatExpense,
+  invoices: formatInvoice,
+  pages: formatPage,
+  people: formatPerson,
+  projects: formatProject,
+  services: formatService,
+  tasks: formatTask,
+  time_entries: formatTimeEntry,
+  timers: formatTimer,
+};
+
+/**
+ * A webhook event as stored in the log
+ */
+export interface WebhookEvent {
+  seq: number;
+  event: string;
+  organizationId: string;
+  resourceType: string;
+  resourceId: string;
+  /** IDs of the people the record is assigned to or logged for */
+  personIds: string[];
+  receivedAt: string;
+  data: Record<string, unknown>;
+}
+
+export type EventListener = (event: WebhookEvent) => void;
+
+export interface WebhookResult {
+  status: number;
+  body: unknown;
+}
+
+/**
+ * Bounded, in-memory log of received webhook events.
+ *
+ * The oldest events are dropped once `maxEvents` is reached. Listeners are
+ * notified synchronously for each event of their organization.
+ */
+export class EventLog {
+  private events: WebhookEvent[] = [];
+  private listeners = new Map<string, Set<EventListener>>();
+  private seq = 0;
+
+  constructor(readonly maxEvents: number = DEFAULT_MAX_EVENTS) {}
+
+  append(event: Omit<WebhookEvent, 'seq'>): WebhookEvent {
+    const stored = { ...event, seq: ++this.seq };
+    this.events.push(stored);
+    if (this.events.length > this.maxEvents) {
+      this.events.splice(0, this.events.length - this.maxEvents);
+    }
+
+    for (const listener of this.listeners.get(stored.organizationId) ?? []) {
+      listener(stored);
+    }
+
+    return stored;
+  }
+
+  /** Events of an organization, newest first */
+  list(organizationId: string): WebhookEvent[] {
+    return this.events.filter((event) => event.organizationId === organizationId).toReversed();
+  }
+
+  /** Listen for events of an organization. Returns the unsubscribe function. */
+  subscribe(organizationId: string, listener: EventListener): () => void {
+    const listeners = this.listeners.get(organizationId) ?? new Set();
+    listeners.add(listener);
+    this.listeners.set(organizationId, listeners);
+
+    return () => {
+      listeners.delete(listener);
+      if (listeners.size === 0) {
+        this.listeners.delete(organizationId);
+      }
+    };
+  }
+
+  clear(): void {
+    this.events = [];
+    this.listeners.clear();
+    this.seq = 0;
+  }
+}
+
+function resolveMaxEvents(env: NodeJS.ProcessEnv = process.env): number {
+  const value = Number.parseInt(env.PRODUCTIVE_MCP_WEBHOOK_MAX_EVENTS ?? '', 10);
+  return Number.isFinite(value) && value > 0 ? value : DEFAULT_MAX_EVENTS;
+}
+
+/** Process-wide event log shared by the webhook route and `productive://events`. */
+export const eventLog = new EventLog(resolveMaxEvents());
+
+/**
+ * Parse `org-id=secret` pairs, ignoring malformed ones.
+ */
+export function parseWebhookSecrets(value: string | undefined): Map<string, string> {
+  const secrets = new Map<string, string>();
+  for (const pair of (value ?? '').split(',')) {
+    const separator = pair.indexOf('=');
+    const organizationId = pair.slice(0, separator).trim();
+    const secret = pair.slice(separator + 1).trim();
+    if (separator > 0 && organizationId && secret) {
+      secrets.set(organizationId, secret);
+    }
+  }
+  return secrets;
+}
+
+/** Constant-time comparison of the configured and provided secrets. */
+function secretMatches(provided: string | null, expected: string): boolean {
+  if (!provided) return false;
+  const a = Buffer.from(provided);
+  const b = Buffer.from(expected);
+  if (a.length !== b.length) return false;
+  return timingSafeEqual(a, b);
+}
+
+function isResource(value: unknown): value is JsonApiResource {
+  if (!value || typeof value !== 'object') return false;
+  const resource = value as Record<string, unknown>;
+  return (
+    typeof resource.type === 'string' &&
+    resource.id != null &&
+    !!resource.attributes &&
+    typeof resource.attributes === 'object'
+  );
+}
+
+function relationshipId(resource: JsonApiResource, name: string): string | undefined {
+  const data = resource.relationships?.[name]?.data;
+  return data && !Array.isArray(data) ? String(data.id) : undefined;
+}
+
+/**
+ * Normalize a webhook record with the formatter used for its resource type.
+ * Unknown types are flattened to their id and attributes.
+ */
+export function normalizeWebhookRecord(
+  resource: JsonApiResource,
+  included?: JsonApiResource[],
+): Record<string, unknown> {
+  const formatter = FORMATTERS[resource.type];
+  if (formatter) {
+    return formatter(resource, { included });
+  }
+  return { id: resource.id, ...resource.attributes };
+}
+
+/** Organization whose secret was provided, comparing against every secret. */
+function organizationOfSecret(
+  provided: string | null,
+  secrets: Map<string, string>,
+): string | undefined {
+  let match: string | undefined;
+  for (const [organizationId, secret] of secrets) {
+    if (secretMatches(provided, secret)) match ??= organizationId;
+  }
+  return match;
+}
+
+/**
+ * Core logic for the webhook route, decoupled from the HTTP framework.
+ *
+ * The event name comes from `meta.event` in the payload or from an
+ * `X-Webhook-Event` header, and defaults to `<type>.changed`.
+ *
+ * @returns the HTTP status and JSON body to send back.
+ */
+export function handleWebhookRequest(
+  rawBody: unknown,
+  headers: Headers,
+  env: NodeJS.ProcessEnv = process.env,
+  log: EventLog = eventLog,
+): WebhookResult {
+  const secrets = parseWebhookSecrets(env.PRODUCTIVE_MCP_WEBHOOK_SECRETS);
+
+  if (secrets.size === 0) {
+    return { status: 404, body: { error: 'Not found' } };
+  }
+
+  const organizationId = organizationOfSecret(headers.get('x-webhook-secret'), secrets);
+  if (!organizationId) {
+    return { status: 401, body: { error: 'Unauthorized' } };
+  }
+
+  const body = rawBody as { data?: unknown; included?: unknown; meta?: { event?: unknown } };
+  if (!body || typeof body !== 'object' || !isResource(body.data)) {
+    return { status: 400, body: { error: 'Expected a JSON:API document with a data resource' } };
+  }
+
+  const resource = body.data;
+  const recordOrganizationId = relationshipId(resource, 'organization');
+  if (recordOrganizationId !== undefined && recordOrganizationId !== organizationId) {
+    return {
+      status: 403,
+      body: { error: 'The record belongs to another organization than the secret' },
+    };
+  }
+
+  const included = Array.isArray(body.included) ? body.included.filter(isResource) : undefined;
+  const event =
+    (typeof body.meta?.event === 'string' && body.meta.event) ||
+    headers.get('x-webhook-event') ||
+    `${resource.type}.changed`;
+
+  const stored = log.append({
+    event,
+    organizationId,
+    resourceType: resource.type,
+    resourceId: String(resource.id),
+    personIds: PERSON_RELATIONSHIPS.map((name) => relationshipId(resource, name)).filter(
+      (id): id is string => id !== undefined,
+    ),
+    receivedAt: new Date().toISOString(),
+    data: normalizeWebhookRecord(resource, included),
+  });
+
+  return { status: 202, body: { status: 'accepted', seq: stored.seq } };
+}
+
+/**
+ * Recent events of an organization as exposed by `productive://events`.
+ * `mine` flags records assigned to or logged for the reading user.
+ */
+export function readEvents(
+  organizationId: string,
+  userId?: string,
+  log: EventLog = eventLog,
+): { data: Record<string, unknown>[]; meta: { count: number; max_events: number } } {
+  const events = log.list(organizationId);
+
+  return {
+    data: events.map((event) => ({
+      seq: event.seq,
+      event: event.event,
+      resource_type: event.resourceType,
+      resource_id: event.resourceId,
+      received_at: event.receivedAt,
+      mine: userId !== undefined && event.personIds.includes(userId),
+      data: event.data,
+    })),
+    meta: { count: events.length, max_events: log.maxEvents },
+  };
+}
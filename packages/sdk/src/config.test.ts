@@ -8,18 +8,22 @@ vi.mock('node:child_process', () => ({
 }));
 
 // Mock ConfigStore (for config file access)
-vi.mock('@studiometa/productive-api', () => {
-  const store = new Map<string, string>();
+vi.mock('@studiometa/productive-api', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('@studiometa/productive-api')>();
+  const store = new Map<string, unknown>();
 
   class MockConfigStore {
-    store = store;
     didMigrate = false;
+    get store() {
+      return Object.fromEntries(store);
+    }
     get(key: string) {
       return store.get(key);
     }
   }
 
   return {
+    ...actual,
     ConfigStore: MockConfigStore,
     // Expose the store map for test manipulation
     __testStore: store,
@@ -44,12 +48,16 @@ describe('loadConfig', () => {
     delete process.env.PRODUCTIVE_API_TOKEN;
     delete process.env.PRODUCTIVE_ORG_ID;
     delete process.env.PRODUCTIVE_USER_ID;
+    delete process.env.PRODUCTIVE_PROFILE;
+    delete process.env.PRODUCTIVE_TIMEZONE;
   });
 
   afterEach(() => {
     delete process.env.PRODUCTIVE_API_TOKEN;
     delete process.env.PRODUCTIVE_ORG_ID;
     delete process.env.PRODUCTIVE_USER_ID;
+    delete process.env.PRODUCTIVE_PROFILE;
+    delete process.env.PRODUCTIVE_TIMEZONE;
   });
 
   describe('environment variables', () => {
@@ -98,6 +106,68 @@ describe('loadConfig', () => {
     });
   });
 
+  describe('timezone', () => {
+    it('reads the timezone from env vars, then the config file', () => {
+      configStore.set('apiToken', 'file-token');
+      configStore.set('organizationId', 'file-org');
+      configStore.set('timezone', 'Europe/Paris');
+
+      expect(loadConfig().timezone).toBe('Europe/Paris');
+
+      process.env.PRODUCTIVE_TIMEZONE = 'America/New_York';
+      expect(loadConfig().timezone).toBe('America/New_York');
+    });
+  });
+
+  describe('profiles', () => {
+    beforeEach(() => {
+      configStore.set('apiToken', 'default-token');
+      configStore.set('organizationId', 'default-org');
+      configStore.set('profiles', {
+        sandbox: { apiToken: 'sandbox-token', organizationId: 'sandbox-org' },
+      });
+    });
+
+    it('reads the default profile unless another is selected', () => {
+      expect(loadConfig()).toMatchObject({ token: 'default-token', profile: 'default' });
+    });
+
+    it('reads the profile passed as an option or PRODUCTIVE_PROFILE', () => {
+      expect(loadConfig({ profile: 'sandbox' })).toMatchObject({
+        token: 'sandbox-token',
+        organizationId: 'sandbox-org',
+        profile: 'sandbox',
+      });
+
+      process.env.PRODUCTIVE_PROFILE = 'sandbox';
+      expect(loadConfig().organizationId).toBe('sandbox-org');
+    });
+
+    it('reads the active profile of the config file', () => {
+      configStore.set('activeProfile', 'sandbox');
+      expect(loadConfig().profile).toBe('sandbox');
+    });
+
+    it('looks up the keychain token of the profile', () => {
+      Object.defineProperty(process, 'platform', { value: 'darwin', configurable: true });
+      resetPlatformCache();
+      vi.mocked(spawnSync).mockImplementation((_cmd, args) =>
+        args?.includes('apiToken:sandbox')
+          ? ({ status: 0, stdout: 'keychain-sandbox\n' } as ReturnType<typeof spawnSync>)
+          : ({ status: 1, stdout: '' } as ReturnType<typeof spawnSync>),
+      );
+
+      expect(loadConfig({ profile: 'sandbox' }).token).toBe('keychain-sandbox');
+      expect(loadConfig().token).toBe('default-token');
+
+      Object.defineProperty(process, 'platform', { value: 'linux', configurable: true });
+    });
+
+    it('throws ConfigurationError for unknown profiles', () => {
+      expect(() => loadConfig({ profile: 'missing' })).toThrow('profile "missing"');
+    });
+  });
+
   describe('keychain (macOS)', () => {
     it('loads token from macOS keychain', () => {
       // Simulate macOS
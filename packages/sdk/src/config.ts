@@ -6,6 +6,9 @@
  * 2. System keychain (macOS Keychain / Linux libsecret)
  * 3. Config file (~/.config/productive-cli or ~/Library/Application Support/productive-cli)
  *
+ * Keychain and config file values come from the CLI's selected credential
+ * profile: the `profile` option, `PRODUCTIVE_PROFILE`, or the active one.
+ *
  * This enables zero-config usage for anyone who already has the CLI configured:
  * ```ts
  * import { Productive } from '@studiometa/productive-sdk';
@@ -13,7 +16,14 @@
  * ```
  */
 
-import { ConfigStore } from '@studiometa/productive-api';
+import {
+  ConfigStore,
+  profileKeychainAccount,
+  readProfile,
+  resolveProfileName,
+  DEFAULT_PROFILE,
+  type StoredConfig,
+} from '@studiometa/productive-api';
 import { spawnSync } from 'node:child_process';
 
 import type { ProductiveOptions } from './productive.js';
@@ -23,6 +33,8 @@ export type ConfigSource = 'env' | 'keychain' | 'config';
 
 /** Result of loadConfig with provenance tracking */
 export interface LoadConfigResult extends ProductiveOptions {
+  /** Credential profile the keychain and config file values were read from */
+  profile: string;
   /** Where each credential was resolved from */
   _sources: {
     token: ConfigSource;
@@ -98,15 +110,8 @@ function getKeychainValue(key: string): string | null {
 // Config file access (reuses the API's ConfigStore)
 // ---------------------------------------------------------------------------
 
-interface CliConfig extends Record<string, unknown> {
-  apiToken?: string;
-  organizationId?: string;
-  userId?: string;
-  baseUrl?: string;
-}
-
-function getConfigStore(): ConfigStore<CliConfig> {
-  return new ConfigStore<CliConfig>('productive-cli');
+function getConfigStore(): ConfigStore<StoredConfig> {
+  return new ConfigStore<StoredConfig>('productive-cli');
 }
 
 // ---------------------------------------------------------------------------
@@ -120,23 +125,21 @@ interface ResolvedCredential {
 
 function resolveCredential(
   envVar: string,
-  keychainKey: string | null,
-  configKey: keyof CliConfig,
-  store: ConfigStore<CliConfig>,
+  keychainAccount: string | null,
+  configValue: string | undefined,
 ): ResolvedCredential | null {
   // 1. Environment variable
   const envValue = process.env[envVar];
   if (envValue) return { value: envValue, source: 'env' };
 
   // 2. System keychain
-  if (keychainKey) {
-    const keychainValue = getKeychainValue(keychainKey);
+  if (keychainAccount) {
+    const keychainValue = getKeychainValue(keychainAccount);
     if (keychainValue) return { value: keychainValue, source: 'keychain' };
   }
 
   // 3. Config file
-  const configValue = store.get(configKey);
-  if (configValue) return { value: String(configValue), source: 'config' };
+  if (configValue) return { value: configValue, source: 'config' };
 
   return null;
 }
@@ -163,6 +166,12 @@ export class ConfigurationError extends Error {
   }
 }
 
+/** Options of {@link loadConfig} */
+export interface LoadConfigOptions {
+  /** Credential profile to read, instead of `PRODUCTIVE_PROFILE` or the active one */
+  profile?: string;
+}
+
 /**
  * Load Productive.io credentials from environment, keychain, and config file.
  *
@@ -171,23 +180,38 @@ export class ConfigurationError extends Error {
  * 2. System keychain (macOS Keychain / Linux libsecret)
  * 3. Config file (`~/.config/productive-cli/config.json` or macOS equivalent)
  *
- * @throws {ConfigurationError} When required credentials (token, organizationId) are missing
+ * @throws {ConfigurationError} When required credentials (token, organizationId) are missing,
+ *   or the requested profile does not exist
  *
  * @example
  * ```ts
  * import { loadConfig, Productive } from '@studiometa/productive-sdk';
  *
- * const config = loadConfig();
+ * const config = loadConfig({ profile: 'sandbox' });
  * const p = new Productive(config);
  * ```
  */
-export function loadConfig(): LoadConfigResult {
-  const store = getConfigStore();
+export function loadConfig(options: LoadConfigOptions = {}): LoadConfigResult {
+  const stored = getConfigStore().store;
   const platform = getPlatform();
 
-  const token = resolveCredential('PRODUCTIVE_API_TOKEN', 'apiToken', 'apiToken', store);
-  const orgId = resolveCredential('PRODUCTIVE_ORG_ID', null, 'organizationId', store);
-  const userId = resolveCredential('PRODUCTIVE_USER_ID', null, 'userId', store);
+  const profile = resolveProfileName(stored, options.profile);
+  const values = readProfile(stored, profile);
+  if (!values) {
+    throw new ConfigurationError(
+      [`profile "${profile}"`],
+      ['config file (run "productive config profile list")'],
+    );
+  }
+
+  const token = resolveCredential(
+    'PRODUCTIVE_API_TOKEN',
+    profileKeychainAccount('apiToken', profile),
+    values.apiToken,
+  );
+  const orgId = resolveCredential('PRODUCTIVE_ORG_ID', null, values.organizationId);
+  const userId = resolveCredential('PRODUCTIVE_USER_ID', null, values.userId);
+  const timezone = process.env.PRODUCTIVE_TIMEZONE || values.timezone;
 
   // Build list of checked sources for error messages
   const checkedSources: string[] = ['env vars'];
@@ -195,7 +219,9 @@ export function loadConfig(): LoadConfigResult {
     const backend = platform === 'darwin' ? 'macOS Keychain' : 'libsecret';
     checkedSources.push(backend);
   }
-  checkedSources.push('config file');
+  checkedSources.push(
+    profile === DEFAULT_PROFILE ? 'config file' : `config file (profile ${profile})`,
+  );
 
   // Validate required credentials
   const missing: string[] = [];
@@ -210,6 +236,8 @@ export function loadConfig(): LoadConfigResult {
     token: token!.value,
     organizationId: orgId!.value,
     userId: userId?.value,
+    timezone,
+    profile,
     _sources: {
       token: token!.source,
       organizationId: orgId!.source,
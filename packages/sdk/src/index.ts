@@ -1,16 +1,43 @@
 export { Productive } from './productive.js';
 export type { ProductiveOptions } from './productive.js';
 export { loadConfig, ConfigurationError } from './config.js';
+export type { LoadConfigOptions } from './config.js';
 export type { LoadConfigResult, ConfigSource } from './config.js';
 export { AsyncPaginatedIterator, DEFAULT_PAGE_SIZE } from './pagination.js';
 export type { PageFetcher } from './pagination.js';
 export { QueryBuilder } from './query-builder.js';
 export type { BaseListOptions, IncludeOptions } from './query-builder.js';
+export {
+  buildTimeExportRows,
+  renderTimeExport,
+  TIME_EXPORT_FORMATS,
+  TIME_EXPORT_GROUP_BY,
+  TIME_EXPORT_INCLUDE,
+} from './time-export.js';
+export type {
+  BuildTimeExportOptions,
+  RenderTimeExportOptions,
+  TimeExportFormat,
+  TimeExportGroupBy,
+  TimeExportRow,
+} from './time-export.js';
+export { TimeCollection } from './resources/time.js';
+export type { TimeExportOptions, TimeExportResult } from './resources/time.js';
+export type { DealForecastOptions } from './resources/deals.js';
+export type {
+  BudgetForecast,
+  BudgetForecastStatus,
+  RevenueForecast,
+  ServiceForecast,
+} from '@studiometa/productive-api';
 export { resolveResource, resolveListResponse, resolveSingleResponse } from './json-api.js';
 export type { ResolvedResource } from './json-api.js';
 export type {
   ResourceRef,
   Task,
+  TaskList,
+  Board,
+  WorkflowStatus,
   Project,
   TimeEntry,
   Person,
@@ -20,6 +47,9 @@ export type {
   Comment,
   Timer,
   Discussion,
+  Invoice,
+  LineItem,
+  Expense,
   Booking,
   Page,
   Attachment,
@@ -43,6 +73,9 @@ export type { StatusMap, NumericStatusMap } from '@studiometa/productive-api';
 export {
   TASK_STATUS,
   TASK_OVERDUE_STATUS,
+  TASK_LIST_STATUS,
+  BOARD_STATUS,
+  WORKFLOW_STATUS_CATEGORY,
   PROJECT_STATUS,
   PROJECT_TYPE,
   DEAL_STATUS,
@@ -55,6 +88,9 @@ export {
   PERSON_TYPE,
   COMPANY_STATUS,
   DISCUSSION_STATUS,
+  INVOICE_STATUS,
+  INVOICE_TYPE,
+  EXPENSE_APPROVAL_STATUS,
   SERVICE_BUDGET_STATUS,
   SERVICE_BILLING_TYPE,
   CUSTOM_FIELD_DATA_TYPE,
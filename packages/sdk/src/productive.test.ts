@@ -4,19 +4,24 @@ import { afterEach, beforeEach, describe, expect, it } from 'vitest';
 import { Productive } from './productive.js';
 import { ActivitiesCollection } from './resources/activities.js';
 import { AttachmentsCollection } from './resources/attachments.js';
+import { BoardsCollection } from './resources/boards.js';
 import { BookingsCollection } from './resources/bookings.js';
 import { CommentsCollection } from './resources/comments.js';
 import { CompaniesCollection } from './resources/companies.js';
 import { CustomFieldsCollection } from './resources/custom-fields.js';
 import { DealsCollection } from './resources/deals.js';
 import { DiscussionsCollection } from './resources/discussions.js';
+import { ExpensesCollection } from './resources/expenses.js';
+import { InvoicesCollection } from './resources/invoices.js';
 import { PagesCollection } from './resources/pages.js';
 import { PeopleCollection } from './resources/people.js';
 import { ProjectsCollection } from './resources/projects.js';
 import { ServicesCollection } from './resources/services.js';
+import { TaskListsCollection } from './resources/task-lists.js';
 import { TasksCollection } from './resources/tasks.js';
 import { TimeCollection } from './resources/time.js';
 import { TimersCollection } from './resources/timers.js';
+import { WorkflowStatusesCollection } from './resources/workflow-statuses.js';
 
 const validOptions = {
   token: 'test-token',
@@ -33,6 +38,9 @@ describe('Productive constructor', () => {
     const p = new Productive(validOptions);
     expect(p.projects).toBeInstanceOf(ProjectsCollection);
     expect(p.tasks).toBeInstanceOf(TasksCollection);
+    expect(p.taskLists).toBeInstanceOf(TaskListsCollection);
+    expect(p.boards).toBeInstanceOf(BoardsCollection);
+    expect(p.workflowStatuses).toBeInstanceOf(WorkflowStatusesCollection);
     expect(p.time).toBeInstanceOf(TimeCollection);
     expect(p.people).toBeInstanceOf(PeopleCollection);
     expect(p.companies).toBeInstanceOf(CompaniesCollection);
@@ -42,6 +50,8 @@ describe('Productive constructor', () => {
     expect(p.comments).toBeInstanceOf(CommentsCollection);
     expect(p.timers).toBeInstanceOf(TimersCollection);
     expect(p.discussions).toBeInstanceOf(DiscussionsCollection);
+    expect(p.invoices).toBeInstanceOf(InvoicesCollection);
+    expect(p.expenses).toBeInstanceOf(ExpensesCollection);
     expect(p.bookings).toBeInstanceOf(BookingsCollection);
     expect(p.pages).toBeInstanceOf(PagesCollection);
     expect(p.attachments).toBeInstanceOf(AttachmentsCollection);
@@ -57,6 +67,9 @@ describe('Productive constructor', () => {
     const p = new Productive(validOptions);
     expect(typeof p.projects.where).toBe('function');
     expect(typeof p.tasks.where).toBe('function');
+    expect(typeof p.taskLists.where).toBe('function');
+    expect(typeof p.boards.where).toBe('function');
+    expect(typeof p.workflowStatuses.where).toBe('function');
     expect(typeof p.time.where).toBe('function');
     expect(typeof p.people.where).toBe('function');
     expect(typeof p.companies.where).toBe('function');
@@ -65,6 +78,8 @@ describe('Productive constructor', () => {
     expect(typeof p.comments.where).toBe('function');
     expect(typeof p.timers.where).toBe('function');
     expect(typeof p.discussions.where).toBe('function');
+    expect(typeof p.invoices.where).toBe('function');
+    expect(typeof p.expenses.where).toBe('function');
     expect(typeof p.bookings.where).toBe('function');
     expect(typeof p.pages.where).toBe('function');
     expect(typeof p.attachments.where).toBe('function');
@@ -1,27 +1,34 @@
 import { ProductiveApi } from '@studiometa/productive-api';
 
-import { loadConfig } from './config.js';
+import { loadConfig, type LoadConfigOptions } from './config.js';
 import { ActivitiesCollection } from './resources/activities.js';
 import { AttachmentsCollection } from './resources/attachments.js';
+import { BoardsCollection } from './resources/boards.js';
 import { BookingsCollection } from './resources/bookings.js';
 import { CommentsCollection } from './resources/comments.js';
 import { CompaniesCollection } from './resources/companies.js';
 import { CustomFieldsCollection } from './resources/custom-fields.js';
 import { DealsCollection } from './resources/deals.js';
 import { DiscussionsCollection } from './resources/discussions.js';
+import { ExpensesCollection } from './resources/expenses.js';
+import { InvoicesCollection } from './resources/invoices.js';
 import { PagesCollection } from './resources/pages.js';
 import { PeopleCollection } from './resources/people.js';
 import { ProjectsCollection } from './resources/projects.js';
 import { ServicesCollection } from './resources/services.js';
+import { TaskListsCollection } from './resources/task-lists.js';
 import { TasksCollection } from './resources/tasks.js';
 import { TimeCollection } from './resources/time.js';
 import { TimersCollection } from './resources/timers.js';
+import { WorkflowStatusesCollection } from './resources/workflow-statuses.js';
 
 export interface ProductiveOptions {
   token: string;
   organizationId: string;
   /** Optional user ID for people.me() support */
   userId?: string;
+  /** IANA timezone "today" is derived in, e.g. for deals.forecast() (default: the system timezone) */
+  timezone?: string;
 }
 
 export class Productive {
@@ -30,6 +37,9 @@ export class Productive {
 
   readonly projects: ProjectsCollection;
   readonly tasks: TasksCollection;
+  readonly taskLists: TaskListsCollection;
+  readonly boards: BoardsCollection;
+  readonly workflowStatuses: WorkflowStatusesCollection;
   readonly time: TimeCollection;
   readonly people: PeopleCollection;
   readonly companies: CompaniesCollection;
@@ -39,6 +49,8 @@ export class Productive {
   readonly comments: CommentsCollection;
   readonly timers: TimersCollection;
   readonly discussions: DiscussionsCollection;
+  readonly invoices: InvoicesCollection;
+  readonly expenses: ExpensesCollection;
   readonly bookings: BookingsCollection;
   readonly pages: PagesCollection;
   readonly attachments: AttachmentsCollection;
@@ -50,21 +62,27 @@ export class Productive {
         apiToken: options.token,
         organizationId: options.organizationId,
         userId: options.userId,
+        timezone: options.timezone,
       },
       useCache: false, // SDK users manage their own caching
     });
 
     this.projects = new ProjectsCollection(this.api);
     this.tasks = new TasksCollection(this.api);
+    this.taskLists = new TaskListsCollection(this.api);
+    this.boards = new BoardsCollection(this.api);
+    this.workflowStatuses = new WorkflowStatusesCollection(this.api);
     this.time = new TimeCollection(this.api);
     this.people = new PeopleCollection(this.api, options.userId);
     this.companies = new CompaniesCollection(this.api);
     this.customFields = new CustomFieldsCollection(this.api);
-    this.deals = new DealsCollection(this.api);
+    this.deals = new DealsCollection(this.api, options.timezone);
     this.services = new ServicesCollection(this.api);
     this.comments = new CommentsCollection(this.api);
     this.timers = new TimersCollection(this.api);
     this.discussions = new DiscussionsCollection(this.api);
+    this.invoices = new InvoicesCollection(this.api);
+    this.expenses = new ExpensesCollection(this.api);
     this.bookings = new BookingsCollection(this.api);
     this.pages = new PagesCollection(this.api);
     this.attachments = new AttachmentsCollection(this.api);
@@ -83,9 +101,12 @@ export class Productive {
    *
    * const p = Productive.fromEnv();
    * const { data: projects } = await p.projects.list();
+   *
+   * // Another credential profile of the CLI
+   * const sandbox = Productive.fromEnv({ profile: 'sandbox' });
    * ```
    */
-  static fromEnv(): Productive {
-    return new Productive(loadConfig());
+  static fromEnv(options: LoadConfigOptions = {}): Productive {
+    return new Productive(loadConfig(options));
   }
 }
@@ -0,0 +1,100 @@
+import type { ProductiveBoard, ProductiveApiMeta } from '@studiometa/productive-api';
+
+import type { Board } from '../types.js';
+
+import { resolveListResponse, resolveSingleResponse } from '../json-api.js';
+import { AsyncPaginatedIterator, DEFAULT_PAGE_SIZE } from '../pagination.js';
+import { QueryBuilder, type BaseListOptions, type IncludeOptions } from '../query-builder.js';
+import { BaseCollection } from './base.js';
+
+export type BoardListOptions = BaseListOptions;
+
+export type BoardGetOptions = IncludeOptions;
+
+export interface BoardCreateData {
+  name: string;
+  project_id: string;
+  position?: number;
+}
+
+export interface BoardUpdateData {
+  name?: string;
+  position?: number;
+}
+
+export interface BoardListResult {
+  data: Board[];
+  meta: ProductiveApiMeta | undefined;
+}
+
+export interface BoardGetResult {
+  data: Board;
+  meta: ProductiveApiMeta | undefined;
+}
+
+export class BoardsCollection extends BaseCollection {
+  /**
+   * List boards with optional filtering, pagination, and includes.
+   */
+  async list(options: BoardListOptions = {}): Promise<BoardListResult> {
+    const response = await this.wrapRequest(() => this.api.getBoards(options));
+    return resolveListResponse<ProductiveBoard, Board>(response);
+  }
+
+  /**
+   * Get a single board by ID, with optional includes.
+   */
+  async get(id: string, options: BoardGetOptions = {}): Promise<BoardGetResult> {
+    const response = await this.wrapRequest(() => this.api.getBoard(id, options));
+    return resolveSingleResponse<ProductiveBoard, Board>(response);
+  }
+
+  /**
+   * Create a board on a project.
+   */
+  async create(data: BoardCreateData): Promise<BoardGetResult> {
+    const response = await this.wrapRequest(() => this.api.createBoard(data));
+    return resolveSingleResponse<ProductiveBoard, Board>(response);
+  }
+
+  /**
+   * Rename or reorder a board.
+   */
+  async update(id: string, data: BoardUpdateData): Promise<BoardGetResult> {
+    const response = await this.wrapRequest(() => this.api.updateBoard(id, data));
+    return resolveSingleResponse<ProductiveBoard, Board>(response);
+  }
+
+  /**
+   * Archive a board, hiding it from active views.
+   */
+  async archive(id: string): Promise<BoardGetResult> {
+    const response = await this.wrapRequest(() => this.api.archiveBoard(id));
+    return resolveSingleResponse<ProductiveBoard, Board>(response);
+  }
+
+  /**
+   * Restore an archived board.
+   */
+  async restore(id: string): Promise<BoardGetResult> {
+    const response = await this.wrapRequest(() => this.api.restoreBoard(id));
+    return resolveSingleResponse<ProductiveBoard, Board>(response);
+  }
+
+  /**
+   * Start a fluent query builder for boards, optionally with initial filters.
+   */
+  where(filters: Record<string, string> = {}): QueryBuilder<Board, BoardListResult> {
+    return new QueryBuilder<Board, BoardListResult>(this).filter(filters);
+  }
+
+  /**
+   * Iterate over all boards across all pages.
+   */
+  all(options: Omit<BoardListOptions, 'page'> = {}): AsyncPaginatedIterator<Board> {
+    const perPage = options.perPage ?? DEFAULT_PAGE_SIZE;
+    return new AsyncPaginatedIterator<Board>(async (page) => {
+      return this.list({ ...options, page, perPage });
+    }, perPage);
+  }
+}
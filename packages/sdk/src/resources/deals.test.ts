@@ -1,7 +1,7 @@
 import { ProductiveApi } from '@studiometa/productive-api';
 import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
 
-import { RateLimitError } from '../errors.js';
+import { RateLimitError, ValidationError } from '../errors.js';
 import { AsyncPaginatedIterator } from '../pagination.js';
 import { QueryBuilder } from '../query-builder.js';
 import { createMockFetch } from '../test-utils.js';
@@ -116,6 +116,95 @@ describe('DealsCollection', () => {
     });
   });
 
+  describe('forecast()', () => {
+    it('fetches the deal records and projects its budget', async () => {
+      const mockFetch = createMockFetch((url) => {
+        if (url.includes('/deals/1')) {
+          return {
+            data: {
+              id: '1',
+              type: 'deals',
+              attributes: { name: 'Website', end_date: '2026-10-30', budget: true },
+            },
+          };
+        }
+        if (url.includes('/services')) {
+          return {
+            data: [
+              {
+                id: '10',
+                type: 'services',
+                attributes: { name: 'Design', budgeted_time: 600, worked_time: 300 },
+              },
+            ],
+            meta: { total_pages: 1 },
+          };
+        }
+        if (url.includes('/time_entries')) {
+          return {
+            data: [
+              {
+                id: '100',
+                type: 'time_entries',
+                attributes: { date: '2026-10-16', time: 560 },
+                relationships: { service: { data: { type: 'services', id: '10' } } },
+              },
+            ],
+            meta: { total_pages: 1 },
+          };
+        }
+        return { data: [], meta: { total_pages: 1 } };
+      });
+      vi.stubGlobal('fetch', mockFetch);
+
+      const col = new DealsCollection(createApi());
+      const forecast = await col.forecast('1', { today: '2026-10-19', lookbackDays: 7 });
+
+      const urls = vi.mocked(mockFetch).mock.calls.map(([url]) => decodeURIComponent(String(url)));
+      expect(urls).toContainEqual(expect.stringContaining('filter[after]=2026-10-12'));
+      expect(urls).toContainEqual(expect.stringContaining('filter[budget_id]=1'));
+      expect(forecast.lookback_days).toBe(7);
+      // 560 minutes over 7 days: 80 a day, so 300 remaining minutes run out on day 4
+      expect(forecast.services[0]).toMatchObject({
+        burn_rate_minutes_per_day: 80,
+        exhausted_on: '2026-10-23',
+        status: 'at_risk',
+      });
+      expect(forecast.overruns).toEqual(['10']);
+    });
+
+    it('takes today in the configured timezone', async () => {
+      vi.useFakeTimers({ toFake: ['Date'] });
+      vi.setSystemTime(new Date('2026-10-19T23:30:00Z'));
+      const mockFetch = createMockFetch((url) =>
+        url.includes('/deals/1')
+          ? { data: { id: '1', type: 'deals', attributes: { name: 'Website' } } }
+          : { data: [], meta: { total_pages: 1 } },
+      );
+      vi.stubGlobal('fetch', mockFetch);
+
+      try {
+        const forecast = await new DealsCollection(createApi(), 'Europe/Paris').forecast('1');
+
+        expect(forecast.today).toBe('2026-10-20');
+        const urls = vi
+          .mocked(mockFetch)
+          .mock.calls.map(([url]) => decodeURIComponent(String(url)));
+        expect(urls).toContainEqual(expect.stringContaining('filter[after]=2026-09-22'));
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+
+    it('rejects an invalid lookback window', async () => {
+      const col = new DealsCollection(createApi());
+      await expect(col.forecast('1', { lookbackDays: 0 })).rejects.toThrow(ValidationError);
+      await expect(col.forecast('1', { lookbackDays: 400 })).rejects.toMatchObject({
+        fieldErrors: [{ field: 'lookbackDays' }],
+      });
+    });
+  });
+
   describe('all()', () => {
     it('returns an AsyncPaginatedIterator', () => {
       const col = new DealsCollection(createApi());
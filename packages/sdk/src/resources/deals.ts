@@ -1,7 +1,19 @@
-import type { ProductiveDeal, ProductiveApiMeta } from '@studiometa/productive-api';
+import type {
+  BudgetForecast,
+  ProductiveApi,
+  ProductiveApiMeta,
+  ProductiveDeal,
+} from '@studiometa/productive-api';
+
+import {
+  ExecutorValidationError,
+  fromHandlerContext,
+  getDealForecast,
+} from '@studiometa/productive-core';
 
 import type { Deal } from '../types.js';
 
+import { ValidationError, wrapError } from '../errors.js';
 import { resolveListResponse, resolveSingleResponse } from '../json-api.js';
 import { AsyncPaginatedIterator, DEFAULT_PAGE_SIZE } from '../pagination.js';
 import { QueryBuilder, type BaseListOptions, type IncludeOptions } from '../query-builder.js';
@@ -28,6 +40,18 @@ export interface DealUpdateData {
   deal_status_id?: string;
 }
 
+export interface DealForecastOptions {
+  /**
+   * Days of time entries the burn rate is measured on
+   * @default 28
+   */
+  lookbackDays?: number;
+  /** Day the forecast is made, as YYYY-MM-DD (defaults to today in the configured timezone) */
+  today?: string;
+  /** How far to look for an exhaustion date past the deal end (default: a year) */
+  horizonDays?: number;
+}
+
 export interface DealListResult {
   data: Deal[];
   meta: ProductiveApiMeta | undefined;
@@ -39,6 +63,13 @@ export interface DealGetResult {
 }
 
 export class DealsCollection extends BaseCollection {
+  private timezone?: string;
+
+  constructor(api: ProductiveApi, timezone?: string) {
+    super(api);
+    this.timezone = timezone;
+  }
+
   /**
    * List deals with optional filtering, pagination, and includes.
    */
@@ -71,6 +102,30 @@ export class DealsCollection extends BaseCollection {
     return resolveSingleResponse<ProductiveDeal, Deal>(response);
   }
 
+  /**
+   * Project when the deal's services run out of budgeted hours and revenue,
+   * from the time logged over the lookback window and the upcoming bookings.
+   */
+  async forecast(id: string, options: DealForecastOptions = {}): Promise<BudgetForecast> {
+    const { today, lookbackDays, horizonDays } = options;
+    const ctx = fromHandlerContext(
+      { api: this.api },
+      today
+        ? { timezone: 'UTC', clock: () => new Date(`${today}T12:00:00Z`) }
+        : { timezone: this.timezone },
+    );
+
+    try {
+      const result = await getDealForecast({ id, lookbackDays, horizonDays }, ctx);
+      return result.data;
+    } catch (error) {
+      if (error instanceof ExecutorValidationError) {
+        throw new ValidationError(error.message, [{ field: error.field, message: error.message }]);
+      }
+      throw wrapError(error);
+    }
+  }
+
   /**
    * Start a fluent query builder for deals, optionally with initial filters.
    */
@@ -0,0 +1,145 @@
+import { ProductiveApi } from '@studiometa/productive-api';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { AsyncPaginatedIterator } from '../pagination.js';
+import { QueryBuilder } from '../query-builder.js';
+import { createMockFetch } from '../test-utils.js';
+import { ExpensesCollection } from './expenses.js';
+
+const validConfig = { apiToken: 'test-token', organizationId: 'test-org' };
+
+function createApi() {
+  return new ProductiveApi({ config: validConfig, useCache: false, rateLimit: { enabled: false } });
+}
+
+function makeExpense(id: string, name: string) {
+  return {
+    id,
+    type: 'expenses',
+    attributes: {
+      name,
+      date: '2024-01-15',
+      amount: '4500',
+      currency: 'EUR',
+      created_at: '2024-01-15',
+      updated_at: '2024-01-15',
+    },
+    relationships: {},
+  };
+}
+
+describe('ExpensesCollection', () => {
+  beforeEach(() => {
+    vi.stubGlobal(
+      'fetch',
+      createMockFetch(() => ({ data: [], meta: {} })),
+    );
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  describe('list()', () => {
+    it('calls getExpenses and resolves the response', async () => {
+      vi.stubGlobal(
+        'fetch',
+        createMockFetch(() => ({
+          data: [makeExpense('1', 'Train'), makeExpense('2', 'Hotel')],
+          meta: { total: 2 },
+        })),
+      );
+
+      const col = new ExpensesCollection(createApi());
+      const result = await col.list();
+      expect(result.data).toHaveLength(2);
+      expect(result.data[0]).toMatchObject({ id: '1', type: 'expenses', name: 'Train' });
+    });
+  });
+
+  describe('get()', () => {
+    it('forwards the include param to the request', async () => {
+      const mockFetch = createMockFetch(() => ({ data: makeExpense('42', 'Train') }));
+      vi.stubGlobal('fetch', mockFetch);
+
+      const col = new ExpensesCollection(createApi());
+      const result = await col.get('42', { include: ['deal'] });
+
+      expect(result.data).toMatchObject({ id: '42', name: 'Train' });
+      expect(mockFetch).toHaveBeenCalledWith(
+        expect.stringContaining('include=deal'),
+        expect.any(Object),
+      );
+    });
+  });
+
+  describe('create() / update()', () => {
+    it('creates an expense', async () => {
+      const mockFetch = createMockFetch(() => ({ data: makeExpense('99', 'Fonts') }));
+      vi.stubGlobal('fetch', mockFetch);
+
+      const col = new ExpensesCollection(createApi());
+      const result = await col.create({ name: 'Fonts', amount: 12000, service_id: '6' });
+
+      expect(mockFetch).toHaveBeenCalledWith(
+        expect.stringContaining('/expenses'),
+        expect.objectContaining({ method: 'POST' }),
+      );
+      expect(result.data).toMatchObject({ id: '99', name: 'Fonts' });
+    });
+
+    it('updates an expense', async () => {
+      vi.stubGlobal(
+        'fetch',
+        createMockFetch(() => ({ data: makeExpense('42', 'Updated') })),
+      );
+
+      const col = new ExpensesCollection(createApi());
+      const result = await col.update('42', { name: 'Updated' });
+      expect(result.data).toMatchObject({ id: '42', name: 'Updated' });
+    });
+  });
+
+  describe('approve() / reject()', () => {
+    it('patches the approve endpoint', async () => {
+      const mockFetch = createMockFetch(() => ({ data: makeExpense('1', 'Train') }));
+      vi.stubGlobal('fetch', mockFetch);
+
+      const col = new ExpensesCollection(createApi());
+      await col.approve('1');
+
+      expect(mockFetch).toHaveBeenCalledWith(
+        expect.stringContaining('/expenses/1/approve'),
+        expect.objectContaining({ method: 'PATCH' }),
+      );
+    });
+
+    it('patches the reject endpoint with a reason', async () => {
+      const mockFetch = createMockFetch(() => ({ data: makeExpense('1', 'Train') }));
+      vi.stubGlobal('fetch', mockFetch);
+
+      const col = new ExpensesCollection(createApi());
+      await col.reject('1', 'Missing receipt');
+
+      expect(mockFetch).toHaveBeenCalledWith(
+        expect.stringContaining('/expenses/1/reject'),
+        expect.objectContaining({
+          method: 'PATCH',
+          body: expect.stringContaining('Missing receipt'),
+        }),
+      );
+    });
+  });
+
+  describe('all() / where()', () => {
+    it('returns an AsyncPaginatedIterator', () => {
+      const col = new ExpensesCollection(createApi());
+      expect(col.all()).toBeInstanceOf(AsyncPaginatedIterator);
+    });
+
+    it('returns a QueryBuilder', () => {
+      const col = new ExpensesCollection(createApi());
+      expect(col.where({ deal_id: '5' })).toBeInstanceOf(QueryBuilder);
+    });
+  });
+});
@@ -0,0 +1,111 @@
+import type { ProductiveExpense, ProductiveApiMeta } from '@studiometa/productive-api';
+
+import type { Expense } from '../types.js';
+
+import { resolveListResponse, resolveSingleResponse } from '../json-api.js';
+import { AsyncPaginatedIterator, DEFAULT_PAGE_SIZE } from '../pagination.js';
+import { QueryBuilder, type BaseListOptions, type IncludeOptions } from '../query-builder.js';
+import { BaseCollection } from './base.js';
+
+export type ExpenseListOptions = BaseListOptions;
+
+export type ExpenseGetOptions = IncludeOptions;
+
+export interface ExpenseCreateData {
+  name: string;
+  /** Amount in cents */
+  amount: number;
+  date?: string;
+  currency?: string;
+  deal_id?: string;
+  service_id?: string;
+  person_id?: string;
+  reimbursable?: boolean;
+}
+
+export interface ExpenseUpdateData {
+  name?: string;
+  /** Amount in cents */
+  amount?: number;
+  date?: string;
+  currency?: string;
+  service_id?: string;
+  reimbursable?: boolean;
+}
+
+export interface ExpenseListResult {
+  data: Expense[];
+  meta: ProductiveApiMeta | undefined;
+}
+
+export interface ExpenseGetResult {
+  data: Expense;
+  meta: ProductiveApiMeta | undefined;
+}
+
+export class ExpensesCollection extends BaseCollection {
+  /**
+   * List expenses with optional filtering, pagination, and includes.
+   */
+  async list(options: ExpenseListOptions = {}): Promise<ExpenseListResult> {
+    const response = await this.wrapRequest(() => this.api.getExpenses(options));
+    return resolveListResponse<ProductiveExpense, Expense>(response);
+  }
+
+  /**
+   * Get a single expense by ID, with optional includes.
+   */
+  async get(id: string, options: ExpenseGetOptions = {}): Promise<ExpenseGetResult> {
+    const response = await this.wrapRequest(() => this.api.getExpense(id, options));
+    return resolveSingleResponse<ProductiveExpense, Expense>(response);
+  }
+
+  /**
+   * Create a new expense, optionally linked to a deal and service.
+   */
+  async create(data: ExpenseCreateData): Promise<ExpenseGetResult> {
+    const response = await this.wrapRequest(() => this.api.createExpense(data));
+    return resolveSingleResponse<ProductiveExpense, Expense>(response);
+  }
+
+  /**
+   * Update an existing expense.
+   */
+  async update(id: string, data: ExpenseUpdateData): Promise<ExpenseGetResult> {
+    const response = await this.wrapRequest(() => this.api.updateExpense(id, data));
+    return resolveSingleResponse<ProductiveExpense, Expense>(response);
+  }
+
+  /**
+   * Approve a pending expense.
+   */
+  async approve(id: string): Promise<ExpenseGetResult> {
+    const response = await this.wrapRequest(() => this.api.approveExpense(id));
+    return resolveSingleResponse<ProductiveExpense, Expense>(response);
+  }
+
+  /**
+   * Reject an expense, with an optional reason shown to the submitter.
+   */
+  async reject(id: string, reason?: string): Promise<ExpenseGetResult> {
+    const response = await this.wrapRequest(() => this.api.rejectExpense(id, reason));
+    return resolveSingleResponse<ProductiveExpense, Expense>(response);
+  }
+
+  /**
+   * Start a fluent query builder for expenses, optionally with initial filters.
+   */
+  where(filters: Record<string, string> = {}): QueryBuilder<Expense, ExpenseListResult> {
+    return new QueryBuilder<Expense, ExpenseListResult>(this).filter(filters);
+  }
+
+  /**
+   * Iterate over all expenses across all pages.
+   */
+  all(options: Omit<ExpenseListOptions, 'page'> = {}): AsyncPaginatedIterator<Expense> {
+    const perPage = options.perPage ?? DEFAULT_PAGE_SIZE;
+    return new AsyncPaginatedIterator<Expense>(async (page) => {
+      return this.list({ ...options, page, perPage });
+    }, perPage);
+  }
+}
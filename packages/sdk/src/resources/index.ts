@@ -17,6 +17,8 @@ export type {
   TimeUpdateData,
   TimeListResult,
   TimeGetResult,
+  TimeExportOptions,
+  TimeExportResult,
 } from './time.js';
 export { PeopleCollection } from './people.js';
 export type { PeopleListOptions, PeopleListResult, PeopleGetResult } from './people.js';
@@ -42,4 +44,5 @@ export type {
   DealUpdateData,
   DealListResult,
   DealGetResult,
+  DealForecastOptions,
 } from './deals.js';
@@ -0,0 +1,156 @@
+import { ProductiveApi } from '@studiometa/productive-api';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { AsyncPaginatedIterator } from '../pagination.js';
+import { QueryBuilder } from '../query-builder.js';
+import { createMockFetch } from '../test-utils.js';
+import { InvoicesCollection } from './invoices.js';
+
+const validConfig = { apiToken: 'test-token', organizationId: 'test-org' };
+
+function createApi() {
+  return new ProductiveApi({ config: validConfig, useCache: false, rateLimit: { enabled: false } });
+}
+
+function makeInvoice(id: string, subject: string) {
+  return {
+    id,
+    type: 'invoices',
+    attributes: {
+      subject,
+      number: `2024-${id}`,
+      currency: 'EUR',
+      amount: '100000',
+      created_at: '2024-01-01',
+      updated_at: '2024-01-01',
+    },
+    relationships: {},
+  };
+}
+
+describe('InvoicesCollection', () => {
+  beforeEach(() => {
+    vi.stubGlobal(
+      'fetch',
+      createMockFetch(() => ({ data: [], meta: {} })),
+    );
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  describe('list()', () => {
+    it('calls getInvoices and resolves the response', async () => {
+      vi.stubGlobal(
+        'fetch',
+        createMockFetch(() => ({
+          data: [makeInvoice('1', 'Phase 1'), makeInvoice('2', 'Phase 2')],
+          meta: { total: 2 },
+        })),
+      );
+
+      const col = new InvoicesCollection(createApi());
+      const result = await col.list();
+      expect(result.data).toHaveLength(2);
+      expect(result.data[0]).toMatchObject({ id: '1', type: 'invoices', subject: 'Phase 1' });
+    });
+  });
+
+  describe('get()', () => {
+    it('forwards the include param to the request', async () => {
+      const mockFetch = createMockFetch(() => ({ data: makeInvoice('42', 'Phase 1') }));
+      vi.stubGlobal('fetch', mockFetch);
+
+      const col = new InvoicesCollection(createApi());
+      const result = await col.get('42', { include: ['company'] });
+
+      expect(result.data).toMatchObject({ id: '42', subject: 'Phase 1' });
+      expect(mockFetch).toHaveBeenCalledWith(
+        expect.stringContaining('include=company'),
+        expect.any(Object),
+      );
+    });
+  });
+
+  describe('create() / update()', () => {
+    it('creates a draft invoice', async () => {
+      const mockFetch = createMockFetch(() => ({ data: makeInvoice('99', 'New') }));
+      vi.stubGlobal('fetch', mockFetch);
+
+      const col = new InvoicesCollection(createApi());
+      const result = await col.create({ company_id: '10', subject: 'New' });
+
+      expect(mockFetch).toHaveBeenCalledWith(
+        expect.stringContaining('/invoices'),
+        expect.objectContaining({ method: 'POST' }),
+      );
+      expect(result.data).toMatchObject({ id: '99', subject: 'New' });
+    });
+
+    it('updates an invoice', async () => {
+      vi.stubGlobal(
+        'fetch',
+        createMockFetch(() => ({ data: makeInvoice('42', 'Updated') })),
+      );
+
+      const col = new InvoicesCollection(createApi());
+      const result = await col.update('42', { subject: 'Updated' });
+      expect(result.data).toMatchObject({ id: '42', subject: 'Updated' });
+    });
+  });
+
+  describe('finalize()', () => {
+    it('patches the finalize endpoint', async () => {
+      const mockFetch = createMockFetch(() => ({ data: makeInvoice('1', 'Done') }));
+      vi.stubGlobal('fetch', mockFetch);
+
+      const col = new InvoicesCollection(createApi());
+      const result = await col.finalize('1');
+
+      expect(mockFetch).toHaveBeenCalledWith(
+        expect.stringContaining('/invoices/1/finalize'),
+        expect.objectContaining({ method: 'PATCH' }),
+      );
+      expect(result.data).toMatchObject({ id: '1', type: 'invoices' });
+    });
+  });
+
+  describe('lineItems()', () => {
+    it('lists line items filtered by invoice', async () => {
+      const mockFetch = createMockFetch(() => ({
+        data: [
+          {
+            id: '7',
+            type: 'line_items',
+            attributes: { description: 'Design', quantity: '10.0' },
+            relationships: {},
+          },
+        ],
+        meta: {},
+      }));
+      vi.stubGlobal('fetch', mockFetch);
+
+      const col = new InvoicesCollection(createApi());
+      const result = await col.lineItems('1');
+
+      expect(mockFetch).toHaveBeenCalledWith(
+        expect.stringContaining('filter%5Binvoice_id%5D=1'),
+        expect.any(Object),
+      );
+      expect(result.data[0]).toMatchObject({ id: '7', description: 'Design' });
+    });
+  });
+
+  describe('all() / where()', () => {
+    it('returns an AsyncPaginatedIterator', () => {
+      const col = new InvoicesCollection(createApi());
+      expect(col.all()).toBeInstanceOf(AsyncPaginatedIterator);
+    });
+
+    it('returns a QueryBuilder', () => {
+      const col = new InvoicesCollection(createApi());
+      expect(col.where({ company_id: '10' })).toBeInstanceOf(QueryBuilder);
+    });
+  });
+});
@@ -0,0 +1,123 @@
+import type {
+  ProductiveInvoice,
+  ProductiveLineItem,
+  ProductiveApiMeta,
+} from '@studiometa/productive-api';
+
+import type { Invoice, LineItem } from '../types.js';
+
+import { resolveListResponse, resolveSingleResponse } from '../json-api.js';
+import { AsyncPaginatedIterator, DEFAULT_PAGE_SIZE } from '../pagination.js';
+import { QueryBuilder, type BaseListOptions, type IncludeOptions } from '../query-builder.js';
+import { BaseCollection } from './base.js';
+
+export type InvoiceListOptions = BaseListOptions;
+
+export type InvoiceGetOptions = IncludeOptions;
+
+export type LineItemListOptions = Omit<BaseListOptions, 'filter'>;
+
+export interface InvoiceCreateData {
+  company_id: string;
+  document_type_id?: string;
+  subsidiary_id?: string;
+  invoiced_on?: string;
+  pay_on?: string;
+  currency?: string;
+  subject?: string;
+  note?: string;
+}
+
+export interface InvoiceUpdateData {
+  subject?: string;
+  invoiced_on?: string;
+  pay_on?: string;
+  delivery_on?: string;
+  currency?: string;
+  note?: string;
+  footer?: string;
+}
+
+export interface InvoiceListResult {
+  data: Invoice[];
+  meta: ProductiveApiMeta | undefined;
+}
+
+export interface InvoiceGetResult {
+  data: Invoice;
+  meta: ProductiveApiMeta | undefined;
+}
+
+export interface LineItemListResult {
+  data: LineItem[];
+  meta: ProductiveApiMeta | undefined;
+}
+
+export class InvoicesCollection extends BaseCollection {
+  /**
+   * List invoices with optional filtering, pagination, and includes.
+   */
+  async list(options: InvoiceListOptions = {}): Promise<InvoiceListResult> {
+    const response = await this.wrapRequest(() => this.api.getInvoices(options));
+    return resolveListResponse<ProductiveInvoice, Invoice>(response);
+  }
+
+  /**
+   * Get a single invoice by ID, with optional includes.
+   */
+  async get(id: string, options: InvoiceGetOptions = {}): Promise<InvoiceGetResult> {
+    const response = await this.wrapRequest(() => this.api.getInvoice(id, options));
+    return resolveSingleResponse<ProductiveInvoice, Invoice>(response);
+  }
+
+  /**
+   * Create a new draft invoice.
+   */
+  async create(data: InvoiceCreateData): Promise<InvoiceGetResult> {
+    const response = await this.wrapRequest(() => this.api.createInvoice(data));
+    return resolveSingleResponse<ProductiveInvoice, Invoice>(response);
+  }
+
+  /**
+   * Update an existing invoice.
+   */
+  async update(id: string, data: InvoiceUpdateData): Promise<InvoiceGetResult> {
+    const response = await this.wrapRequest(() => this.api.updateInvoice(id, data));
+    return resolveSingleResponse<ProductiveInvoice, Invoice>(response);
+  }
+
+  /**
+   * Finalize a draft invoice, assigning its number and locking it for edits.
+   */
+  async finalize(id: string): Promise<InvoiceGetResult> {
+    const response = await this.wrapRequest(() => this.api.finalizeInvoice(id));
+    return resolveSingleResponse<ProductiveInvoice, Invoice>(response);
+  }
+
+  /**
+   * List the line items of an invoice.
+   */
+  async lineItems(id: string, options: LineItemListOptions = {}): Promise<LineItemListResult> {
+    const response = await this.wrapRequest(() =>
+      this.api.getLineItems({ ...options, filter: { invoice_id: id } }),
+    );
+    return resolveListResponse<ProductiveLineItem, LineItem>(response);
+  }
+
+  /**
+   * Start a fluent query builder for invoices, optionally with initial filters.
+   */
+  where(filters: Record<string, string> = {}): QueryBuilder<Invoice, InvoiceListResult> {
+    return new QueryBuilder<Invoice, InvoiceListResult>(this).filter(filters);
+  }
+
+  /**
+   * Iterate over all invoices across all pages.
+   */
+  all(options: Omit<InvoiceListOptions, 'page'> = {}): AsyncPaginatedIterator<Invoice> {
+    const perPage = options.perPage ?? DEFAULT_PAGE_SIZE;
+    return new AsyncPaginatedIterator<Invoice>(async (page) => {
+      return this.list({ ...options, page, perPage });
+    }, perPage);
+  }
+}
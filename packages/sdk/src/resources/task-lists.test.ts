@@ -0,0 +1,129 @@
+import { ProductiveApi } from '@studiometa/productive-api';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { AsyncPaginatedIterator } from '../pagination.js';
+import { QueryBuilder } from '../query-builder.js';
+import { createMockFetch } from '../test-utils.js';
+import { TaskListsCollection } from './task-lists.js';
+
+const validConfig = { apiToken: 'test-token', organizationId: 'test-org' };
+
+function createApi() {
+  return new ProductiveApi({ config: validConfig, useCache: false, rateLimit: { enabled: false } });
+}
+
+function makeTaskList(id: string, name: string) {
+  return {
+    id,
+    type: 'task_lists',
+    attributes: { name, position: 1 },
+    relationships: {},
+  };
+}
+
+describe('TaskListsCollection', () => {
+  beforeEach(() => {
+    vi.stubGlobal(
+      'fetch',
+      createMockFetch(() => ({ data: [], meta: {} })),
+    );
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  describe('list()', () => {
+    it('calls getTaskLists and resolves the response', async () => {
+      vi.stubGlobal(
+        'fetch',
+        createMockFetch(() => ({
+          data: [makeTaskList('1', 'First'), makeTaskList('2', 'Second')],
+          meta: { total: 2 },
+        })),
+      );
+
+      const col = new TaskListsCollection(createApi());
+      const result = await col.list();
+      expect(result.data).toHaveLength(2);
+      expect(result.data[0]).toMatchObject({ id: '1', type: 'task_lists', name: 'First' });
+    });
+  });
+
+  describe('get()', () => {
+    it('fetches a single task list', async () => {
+      const mockFetch = createMockFetch(() => ({ data: makeTaskList('42', 'First') }));
+      vi.stubGlobal('fetch', mockFetch);
+
+      const col = new TaskListsCollection(createApi());
+      const result = await col.get('42');
+
+      expect(result.data).toMatchObject({ id: '42', name: 'First' });
+      expect(mockFetch).toHaveBeenCalledWith(
+        expect.stringContaining('/task_lists/42'),
+        expect.any(Object),
+      );
+    });
+  });
+
+  describe('create() / update()', () => {
+    it('creates a task list', async () => {
+      const mockFetch = createMockFetch(() => ({ data: makeTaskList('99', 'New') }));
+      vi.stubGlobal('fetch', mockFetch);
+
+      const col = new TaskListsCollection(createApi());
+      const result = await col.create({ name: 'New', project_id: '100', board_id: '20' });
+
+      expect(mockFetch).toHaveBeenCalledWith(
+        expect.stringContaining('/task_lists'),
+        expect.objectContaining({ method: 'POST' }),
+      );
+      expect(result.data).toMatchObject({ id: '99', name: 'New' });
+    });
+
+    it('updates the position of a task list', async () => {
+      const mockFetch = createMockFetch(() => ({ data: makeTaskList('42', 'First') }));
+      vi.stubGlobal('fetch', mockFetch);
+
+      const col = new TaskListsCollection(createApi());
+      await col.update('42', { position: 2 });
+
+      expect(mockFetch).toHaveBeenCalledWith(
+        expect.stringContaining('/task_lists/42'),
+        expect.objectContaining({ method: 'PATCH', body: expect.stringContaining('"position":2') }),
+      );
+    });
+  });
+
+  describe('archive() / restore()', () => {
+    it('patches the archive and restore endpoints', async () => {
+      const mockFetch = createMockFetch(() => ({ data: makeTaskList('1', 'First') }));
+      vi.stubGlobal('fetch', mockFetch);
+
+      const col = new TaskListsCollection(createApi());
+      await col.archive('1');
+      await col.restore('1');
+
+      expect(mockFetch).toHaveBeenCalledWith(
+        expect.stringContaining('/task_lists/1/archive'),
+        expect.objectContaining({ method: 'PATCH' }),
+      );
+      expect(mockFetch).toHaveBeenCalledWith(
+        expect.stringContaining('/task_lists/1/restore'),
+        expect.objectContaining({ method: 'PATCH' }),
+      );
+    });
+  });
+
+  describe('all() / where()', () => {
+    it('returns an AsyncPaginatedIterator', () => {
+      const col = new TaskListsCollection(createApi());
+      expect(col.all()).toBeInstanceOf(AsyncPaginatedIterator);
+    });
+
+    it('returns a QueryBuilder', () => {
+      const col = new TaskListsCollection(createApi());
+      expect(col.where({ project_id: '1' })).toBeInstanceOf(QueryBuilder);
+    });
+  });
+});
@@ -0,0 +1,102 @@
+import type { ProductiveTaskList, ProductiveApiMeta } from '@studiometa/productive-api';
+
+import type { TaskList } from '../types.js';
+
+import { resolveListResponse, resolveSingleResponse } from '../json-api.js';
+import { AsyncPaginatedIterator, DEFAULT_PAGE_SIZE } from '../pagination.js';
+import { QueryBuilder, type BaseListOptions, type IncludeOptions } from '../query-builder.js';
+import { BaseCollection } from './base.js';
+
+export type TaskListListOptions = BaseListOptions;
+
+export type TaskListGetOptions = IncludeOptions;
+
+export interface TaskListCreateData {
+  name: string;
+  project_id: string;
+  board_id: string;
+  position?: number;
+}
+
+export interface TaskListUpdateData {
+  name?: string;
+  position?: number;
+  board_id?: string;
+}
+
+export interface TaskListListResult {
+  data: TaskList[];
+  meta: ProductiveApiMeta | undefined;
+}
+
+export interface TaskListGetResult {
+  data: TaskList;
+  meta: ProductiveApiMeta | undefined;
+}
+
+export class TaskListsCollection extends BaseCollection {
+  /**
+   * List task lists with optional filtering, pagination, and includes.
+   */
+  async list(options: TaskListListOptions = {}): Promise<TaskListListResult> {
+    const response = await this.wrapRequest(() => this.api.getTaskLists(options));
+    return resolveListResponse<ProductiveTaskList, TaskList>(response);
+  }
+
+  /**
+   * Get a single task list by ID, with optional includes.
+   */
+  async get(id: string, options: TaskListGetOptions = {}): Promise<TaskListGetResult> {
+    const response = await this.wrapRequest(() => this.api.getTaskList(id, options));
+    return resolveSingleResponse<ProductiveTaskList, TaskList>(response);
+  }
+
+  /**
+   * Create a task list on a project board.
+   */
+  async create(data: TaskListCreateData): Promise<TaskListGetResult> {
+    const response = await this.wrapRequest(() => this.api.createTaskList(data));
+    return resolveSingleResponse<ProductiveTaskList, TaskList>(response);
+  }
+
+  /**
+   * Rename, reorder or move a task list to another board.
+   */
+  async update(id: string, data: TaskListUpdateData): Promise<TaskListGetResult> {
+    const response = await this.wrapRequest(() => this.api.updateTaskList(id, data));
+    return resolveSingleResponse<ProductiveTaskList, TaskList>(response);
+  }
+
+  /**
+   * Archive a task list, hiding it from active views.
+   */
+  async archive(id: string): Promise<TaskListGetResult> {
+    const response = await this.wrapRequest(() => this.api.archiveTaskList(id));
+    return resolveSingleResponse<ProductiveTaskList, TaskList>(response);
+  }
+
+  /**
+   * Restore an archived task list.
+   */
+  async restore(id: string): Promise<TaskListGetResult> {
+    const response = await this.wrapRequest(() => this.api.restoreTaskList(id));
+    return resolveSingleResponse<ProductiveTaskList, TaskList>(response);
+  }
+
+  /**
+   * Start a fluent query builder for task lists, optionally with initial filters.
+   */
+  where(filters: Record<string, string> = {}): QueryBuilder<TaskList, TaskListListResult> {
+    return new QueryBuilder<TaskList, TaskListListResult>(this).filter(filters);
+  }
+
+  /**
+   * Iterate over all task lists across all pages.
+   */
+  all(options: Omit<TaskListListOptions, 'page'> = {}): AsyncPaginatedIterator<TaskList> {
+    const perPage = options.perPage ?? DEFAULT_PAGE_SIZE;
+    return new AsyncPaginatedIterator<TaskList>(async (page) => {
+      return this.list({ ...options, page, perPage });
+    }, perPage);
+  }
+}
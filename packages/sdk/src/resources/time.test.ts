@@ -146,6 +146,49 @@ describe('TimeCollection', () => {
     });
   });
 
+  describe('export()', () => {
+    it('fetches every page of the period with names and renders the file', async () => {
+      let callCount = 0;
+      const mockFetch = createMockFetch(() => {
+        callCount++;
+        return {
+          data: [
+            {
+              ...makeEntry(String(callCount), 60 * callCount),
+              relationships: { project: { data: { type: 'projects', id: 'p1' } } },
+            },
+          ],
+          meta: { total_pages: 2 },
+          included: [{ id: 'p1', type: 'projects', attributes: { name: 'Acme' } }],
+        };
+      });
+      vi.stubGlobal('fetch', mockFetch);
+
+      const col = new TimeCollection(createApi());
+      const result = await col.export({
+        from: '2024-01-01',
+        to: '2024-01-31',
+        format: 'csv',
+        groupBy: ['project'],
+        filter: { person_id: '7' },
+      });
+
+      const url = decodeURIComponent(String(vi.mocked(mockFetch).mock.calls[0][0]));
+      expect(url).toContain('filter[after]=2024-01-01');
+      expect(url).toContain('filter[before]=2024-01-31');
+      expect(url).toContain('filter[person_id]=7');
+      expect(url).toContain('include=project,service,person');
+      expect(result).toMatchObject({ format: 'csv', entryCount: 2, totalMinutes: 180 });
+      expect(result.rows.map((r) => [r.kind, r.project, r.minutes])).toEqual([
+        ['entry', 'Acme', 60],
+        ['entry', 'Acme', 120],
+        ['subtotal', 'Acme', 180],
+        ['total', '', 180],
+      ]);
+      expect(result.content).toContain('Date,Project,Service,Person,Note,Hours,Minutes');
+    });
+  });
+
   describe('error wrapping', () => {
     it('wraps 404 into ResourceNotFoundError', async () => {
       vi.stubGlobal(
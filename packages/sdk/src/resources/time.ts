@@ -5,6 +5,14 @@ import type { TimeEntry } from '../types.js';
 import { resolveListResponse, resolveSingleResponse } from '../json-api.js';
 import { AsyncPaginatedIterator, DEFAULT_PAGE_SIZE } from '../pagination.js';
 import { QueryBuilder, type BaseListOptions, type IncludeOptions } from '../query-builder.js';
+import {
+  buildTimeExportRows,
+  renderTimeExport,
+  TIME_EXPORT_INCLUDE,
+  type TimeExportFormat,
+  type TimeExportGroupBy,
+  type TimeExportRow,
+} from '../time-export.js';
 import { BaseCollection } from './base.js';
 
 export type TimeListOptions = BaseListOptions;
@@ -36,6 +44,29 @@ export interface TimeGetResult {
   meta: ProductiveApiMeta | undefined;
 }
 
+export interface TimeExportOptions {
+  /** First day of the period (YYYY-MM-DD) */
+  from: string;
+  /** Last day of the period (YYYY-MM-DD) */
+  to: string;
+  format: TimeExportFormat;
+  /** Nested grouping levels, outermost first (default: project, then service) */
+  groupBy?: TimeExportGroupBy[];
+  /** Additional filters, e.g. `{ person_id: '42' }` */
+  filter?: Record<string, string>;
+  /** Sheet or calendar name */
+  title?: string;
+}
+
+export interface TimeExportResult {
+  format: TimeExportFormat;
+  /** CSV or iCalendar text, or XLSX workbook bytes */
+  content: string | Uint8Array;
+  rows: TimeExportRow[];
+  entryCount: number;
+  totalMinutes: number;
+}
+
 export class TimeCollection extends BaseCollection {
   /**
    * List time entries with optional filtering, pagination, and includes.
@@ -83,6 +114,29 @@ export class TimeCollection extends BaseCollection {
     return new QueryBuilder<TimeEntry, TimeListResult>(this).filter(filters);
   }
 
+  /**
+   * Export every time entry of a period as a timesheet file, grouped with
+   * subtotal rows. Fetches all pages, with project, service and person names.
+   */
+  async export(options: TimeExportOptions): Promise<TimeExportResult> {
+    const entries = await this.all({
+      filter: { ...options.filter, after: options.from, before: options.to },
+      include: TIME_EXPORT_INCLUDE,
+      perPage: 200,
+    }).toArray();
+    const rows = buildTimeExportRows(entries, { groupBy: options.groupBy });
+
+    return {
+      format: options.format,
+      content: renderTimeExport(rows, options.format, {
+        title: options.title ?? `Timesheet ${options.from} – ${options.to}`,
+      }),
+      rows,
+      entryCount: entries.length,
+      totalMinutes: entries.reduce((total, entry) => total + entry.time, 0),
+    };
+  }
+
   /**
    * Iterate over all time entries across all pages.
    */
@@ -0,0 +1,109 @@
+import { ProductiveApi } from '@studiometa/productive-api';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { AsyncPaginatedIterator } from '../pagination.js';
+import { QueryBuilder } from '../query-builder.js';
+import { createMockFetch } from '../test-utils.js';
+import { WorkflowStatusesCollection } from './workflow-statuses.js';
+
+const validConfig = { apiToken: 'test-token', organizationId: 'test-org' };
+
+function createApi() {
+  return new ProductiveApi({ config: validConfig, useCache: false, rateLimit: { enabled: false } });
+}
+
+function makeWorkflowStatus(id: string, name: string) {
+  return {
+    id,
+    type: 'workflow_statuses',
+    attributes: { name, position: 1, category_id: 1 },
+    relationships: {},
+  };
+}
+
+describe('WorkflowStatusesCollection', () => {
+  beforeEach(() => {
+    vi.stubGlobal(
+      'fetch',
+      createMockFetch(() => ({ data: [], meta: {} })),
+    );
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  describe('list()', () => {
+    it('calls getWorkflowStatuses and resolves the response', async () => {
+      vi.stubGlobal(
+        'fetch',
+        createMockFetch(() => ({
+          data: [makeWorkflowStatus('1', 'First'), makeWorkflowStatus('2', 'Second')],
+          meta: { total: 2 },
+        })),
+      );
+
+      const col = new WorkflowStatusesCollection(createApi());
+      const result = await col.list();
+      expect(result.data).toHaveLength(2);
+      expect(result.data[0]).toMatchObject({ id: '1', type: 'workflow_statuses', name: 'First' });
+    });
+  });
+
+  describe('get()', () => {
+    it('fetches a single workflow status', async () => {
+      const mockFetch = createMockFetch(() => ({ data: makeWorkflowStatus('42', 'First') }));
+      vi.stubGlobal('fetch', mockFetch);
+
+      const col = new WorkflowStatusesCollection(createApi());
+      const result = await col.get('42');
+
+      expect(result.data).toMatchObject({ id: '42', name: 'First' });
+      expect(mockFetch).toHaveBeenCalledWith(
+        expect.stringContaining('/workflow_statuses/42'),
+        expect.any(Object),
+      );
+    });
+  });
+
+  describe('create() / update()', () => {
+    it('creates a workflow status', async () => {
+      const mockFetch = createMockFetch(() => ({ data: makeWorkflowStatus('99', 'New') }));
+      vi.stubGlobal('fetch', mockFetch);
+
+      const col = new WorkflowStatusesCollection(createApi());
+      const result = await col.create({ name: 'New', workflow_id: '9', category_id: 1 });
+
+      expect(mockFetch).toHaveBeenCalledWith(
+        expect.stringContaining('/workflow_statuses'),
+        expect.objectContaining({ method: 'POST' }),
+      );
+      expect(result.data).toMatchObject({ id: '99', name: 'New' });
+    });
+
+    it('updates the position of a workflow status', async () => {
+      const mockFetch = createMockFetch(() => ({ data: makeWorkflowStatus('42', 'First') }));
+      vi.stubGlobal('fetch', mockFetch);
+
+      const col = new WorkflowStatusesCollection(createApi());
+      await col.update('42', { position: 2 });
+
+      expect(mockFetch).toHaveBeenCalledWith(
+        expect.stringContaining('/workflow_statuses/42'),
+        expect.objectContaining({ method: 'PATCH', body: expect.stringContaining('"position":2') }),
+      );
+    });
+  });
+
+  describe('all() / where()', () => {
+    it('returns an AsyncPaginatedIterator', () => {
+      const col = new WorkflowStatusesCollection(createApi());
+      expect(col.all()).toBeInstanceOf(AsyncPaginatedIterator);
+    });
+
+    it('returns a QueryBuilder', () => {
+      const col = new WorkflowStatusesCollection(createApi());
+      expect(col.where({ workflow_id: '1' })).toBeInstanceOf(QueryBuilder);
+    });
+  });
+});
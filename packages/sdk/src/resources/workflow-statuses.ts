@@ -0,0 +1,93 @@
+import type { ProductiveWorkflowStatus, ProductiveApiMeta } from '@studiometa/productive-api';
+
+import type { WorkflowStatus } from '../types.js';
+
+import { resolveListResponse, resolveSingleResponse } from '../json-api.js';
+import { AsyncPaginatedIterator, DEFAULT_PAGE_SIZE } from '../pagination.js';
+import { QueryBuilder, type BaseListOptions, type IncludeOptions } from '../query-builder.js';
+import { BaseCollection } from './base.js';
+
+export type WorkflowStatusListOptions = BaseListOptions;
+
+export type WorkflowStatusGetOptions = IncludeOptions;
+
+export interface WorkflowStatusCreateData {
+  name: string;
+  workflow_id: string;
+  /** 1 = not started, 2 = started, 3 = closed */
+  category_id: number;
+  position?: number;
+  color_id?: number;
+}
+
+export interface WorkflowStatusUpdateData {
+  name?: string;
+  category_id?: number;
+  position?: number;
+  color_id?: number;
+}
+
+export interface WorkflowStatusListResult {
+  data: WorkflowStatus[];
+  meta: ProductiveApiMeta | undefined;
+}
+
+export interface WorkflowStatusGetResult {
+  data: WorkflowStatus;
+  meta: ProductiveApiMeta | undefined;
+}
+
+export class WorkflowStatusesCollection extends BaseCollection {
+  /**
+   * List workflow statuses with optional filtering, pagination, and includes.
+   */
+  async list(options: WorkflowStatusListOptions = {}): Promise<WorkflowStatusListResult> {
+    const response = await this.wrapRequest(() => this.api.getWorkflowStatuses(options));
+    return resolveListResponse<ProductiveWorkflowStatus, WorkflowStatus>(response);
+  }
+
+  /**
+   * Get a single workflow status by ID, with optional includes.
+   */
+  async get(id: string, options: WorkflowStatusGetOptions = {}): Promise<WorkflowStatusGetResult> {
+    const response = await this.wrapRequest(() => this.api.getWorkflowStatus(id, options));
+    return resolveSingleResponse<ProductiveWorkflowStatus, WorkflowStatus>(response);
+  }
+
+  /**
+   * Add a status to a workflow.
+   */
+  async create(data: WorkflowStatusCreateData): Promise<WorkflowStatusGetResult> {
+    const response = await this.wrapRequest(() => this.api.createWorkflowStatus(data));
+    return resolveSingleResponse<ProductiveWorkflowStatus, WorkflowStatus>(response);
+  }
+
+  /**
+   * Rename, recategorise or reorder a workflow status.
+   */
+  async update(id: string, data: WorkflowStatusUpdateData): Promise<WorkflowStatusGetResult> {
+    const response = await this.wrapRequest(() => this.api.updateWorkflowStatus(id, data));
+    return resolveSingleResponse<ProductiveWorkflowStatus, WorkflowStatus>(response);
+  }
+
+  /**
+   * Start a fluent query builder for workflow statuses, optionally with initial filters.
+   */
+  where(
+    filters: Record<string, string> = {},
+  ): QueryBuilder<WorkflowStatus, WorkflowStatusListResult> {
+    return new QueryBuilder<WorkflowStatus, WorkflowStatusListResult>(this).filter(filters);
+  }
+
+  /**
+   * Iterate over all workflow statuses across all pages.
+   */
+  all(
+    options: Omit<WorkflowStatusListOptions, 'page'> = {},
+  ): AsyncPaginatedIterator<WorkflowStatus> {
+    const perPage = options.perPage ?? DEFAULT_PAGE_SIZE;
+    return new AsyncPaginatedIterator<WorkflowStatus>(async (page) => {
+      return this.list({ ...options, page, perPage });
+    }, perPage);
+  }
+}
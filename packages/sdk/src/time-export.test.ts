@@ -0,0 +1,159 @@
+import { describe, expect, it } from 'vitest';
+
+import type { TimeEntry } from './types.js';
+
+import { buildTimeExportRows, renderTimeExport } from './time-export.js';
+
+function entry(
+  id: string,
+  date: string,
+  time: number,
+  project: string,
+  service: string,
+  { person = 'Jane', note = '' } = {},
+): TimeEntry {
+  return {
+    id,
+    type: 'time_entries',
+    date,
+    time,
+    note,
+    created_at: '',
+    updated_at: '',
+    project: { id: `p-${project}`, type: 'projects', name: project },
+    service: { id: `s-${service}`, type: 'services', name: service },
+    person: { id: `u-${person}`, type: 'people', first_name: person, last_name: 'Doe' },
+  };
+}
+
+const entries = [
+  entry('3', '2024-01-16', 30, 'Beta', 'Design'),
+  entry('1', '2024-01-16', 90, 'Acme', 'Development', { note: 'Feature, part 1' }),
+  entry('2', '2024-01-15', 60, 'Acme', 'Development'),
+  entry('4', '2024-01-15', 45, 'Acme', 'Design', { person: 'John' }),
+];
+
+describe('buildTimeExportRows', () => {
+  it('groups by project then service with subtotals and a total', () => {
+    const rows = buildTimeExportRows(entries);
+
+    expect(rows.map((r) => [r.kind, r.id, r.project, r.service, r.minutes])).toEqual([
+      ['entry', '4', 'Acme', 'Design', 45],
+      ['subtotal', undefined, 'Acme', 'Design', 45],
+      ['entry', '2', 'Acme', 'Development', 60],
+      ['entry', '1', 'Acme', 'Development', 90],
+      ['subtotal', undefined, 'Acme', 'Development', 150],
+      ['subtotal', undefined, 'Acme', '', 195],
+      ['entry', '3', 'Beta', 'Design', 30],
+      ['subtotal', undefined, 'Beta', 'Design', 30],
+      ['subtotal', undefined, 'Beta', '', 30],
+      ['total', undefined, '', '', 225],
+    ]);
+  });
+
+  it('groups by person', () => {
+    const rows = buildTimeExportRows(entries, { groupBy: ['person'] });
+
+    expect(rows.filter((r) => r.kind !== 'entry').map((r) => [r.person, r.minutes])).toEqual([
+      ['Jane Doe', 180],
+      ['John Doe', 45],
+      ['', 225],
+    ]);
+  });
+
+  it('only adds the total without grouping', () => {
+    const rows = buildTimeExportRows(entries, { groupBy: [] });
+
+    expect(rows.map((r) => r.id ?? r.kind)).toEqual(['2', '4', '3', '1', 'total']);
+  });
+
+  it('labels missing relationships', () => {
+    const [row] = buildTimeExportRows([
+      {
+        ...entry('1', '2024-01-15', 30, 'Acme', 'Dev'),
+        project: null,
+        service: { id: '6', type: 'services' },
+      },
+    ]);
+
+    expect(row).toMatchObject({ project: '', service: '#6' });
+  });
+});
+
+describe('renderTimeExport', () => {
+  const rows = buildTimeExportRows(entries.slice(1, 3), { groupBy: ['project'] });
+
+  it('renders CSV with hours and minutes', () => {
+    expect(renderTimeExport(rows, 'csv')).toBe(
+      [
+        'Date,Project,Service,Person,Note,Hours,Minutes',
+        '2024-01-15,Acme,Development,Jane Doe,,1.00,60',
+        '2024-01-16,Acme,Development,Jane Doe,"Feature, part 1",1.50,90',
+        ',Acme,,,Subtotal,2.50,150',
+        ',,,,Total,2.50,150',
+        '',
+      ].join('\r\n'),
+    );
+  });
+
+  it('renders an XLSX workbook', () => {
+    const content = renderTimeExport(rows, 'xlsx');
+
+    expect(content).toBeInstanceOf(Uint8Array);
+    expect(Buffer.from(content as Uint8Array).readUInt32LE(0)).toBe(0x04034b50);
+  });
+
+  it('renders entries as consecutive iCalendar events', () => {
+    const ics = renderTimeExport(
+      buildTimeExportRows([...entries.slice(1, 3), entry('5', '2024-01-15', 30, 'Acme', 'QA')]),
+      'ics',
+      { title: 'January', now: new Date('2024-02-01T12:00:00Z') },
+    ) as string;
+
+    expect(ics.split('\r\n')).toEqual([
+      'BEGIN:VCALENDAR',
+      'VERSION:2.0',
+      'PRODID:-//studiometa//productive-sdk//EN',
+      'CALSCALE:GREGORIAN',
+      'X-WR-CALNAME:January',
+      'BEGIN:VEVENT',
+      'UID:time-entry-2@productive.io',
+      'DTSTAMP:20240201T120000Z',
+      'DTSTART:20240115T090000',
+      'DTEND:20240115T100000',
+      'SUMMARY:[Acme / Development]',
+      'DESCRIPTION:Jane Doe — 1.00h',
+      'END:VEVENT',
+      'BEGIN:VEVENT',
+      'UID:time-entry-5@productive.io',
+      'DTSTAMP:20240201T120000Z',
+      'DTSTART:20240115T100000',
+      'DTEND:20240115T103000',
+      'SUMMARY:[Acme / QA]',
+      'DESCRIPTION:Jane Doe — 0.50h',
+      'END:VEVENT',
+      'BEGIN:VEVENT',
+      'UID:time-entry-1@productive.io',
+      'DTSTAMP:20240201T120000Z',
+      'DTSTART:20240116T090000',
+      'DTEND:20240116T103000',
+      'SUMMARY:[Acme / Development] Feature\\, part 1',
+      'DESCRIPTION:Jane Doe — 1.50h',
+      'END:VEVENT',
+      'END:VCALENDAR',
+      '',
+    ]);
+  });
+
+  it('folds long iCalendar lines', () => {
+    const ics = renderTimeExport(
+      buildTimeExportRows([entry('1', '2024-01-15', 30, 'Acme', 'Dev', { note: 'x'.repeat(100) })]),
+      'ics',
+    ) as string;
+    const lines = ics.split('\r\n');
+    const summary = lines.findIndex((line) => line.startsWith('SUMMARY:'));
+
+    expect(lines[summary]).toHaveLength(75);
+    expect(lines[summary + 1]).toMatch(/^ x+$/);
+  });
+});
@@ -0,0 +1,305 @@
+/**
+ * Timesheet exports.
+ *
+ * Turns time entries (with their `project`, `service` and `person` included)
+ * into a grouped sheet with subtotal and total rows, then renders it as CSV,
+ * XLSX or iCalendar. Used by `TimeCollection.export()`; exported on its own
+ * for entries that were fetched some other way.
+ */
+
+import type { ResourceRef, TimeEntry } from './types.js';
+
+import { writeXlsx, type XlsxColumn } from './xlsx.js';
+
+export type TimeExportFormat = 'csv' | 'xlsx' | 'ics';
+
+export type TimeExportGroupBy = 'project' | 'service' | 'person';
+
+export const TIME_EXPORT_FORMATS: readonly TimeExportFormat[] = ['csv', 'xlsx', 'ics'];
+
+export const TIME_EXPORT_GROUP_BY: readonly TimeExportGroupBy[] = ['project', 'service', 'person'];
+
+/** Relationships to include when fetching entries for an export. */
+export const TIME_EXPORT_INCLUDE = ['project', 'service', 'person'];
+
+export interface TimeExportRow {
+  kind: 'entry' | 'subtotal' | 'total';
+  /** Time entry ID (entry rows only) */
+  id?: string;
+  date: string;
+  project: string;
+  service: string;
+  person: string;
+  note: string;
+  minutes: number;
+}
+
+export interface BuildTimeExportOptions {
+  /**
+   * Nested grouping levels, outermost first. A subtotal row closes every
+   * group; an empty list only adds the grand total.
+   * @default ['project', 'service']
+   */
+  groupBy?: TimeExportGroupBy[];
+}
+
+export interface RenderTimeExportOptions {
+  /** Sheet name (XLSX) or calendar name (iCalendar) */
+  title?: string;
+  /** Start time of the first entry of each day in iCalendar exports, as HH:MM */
+  dayStart?: string;
+  /** DTSTAMP of iCalendar events (defaults to now) */
+  now?: Date;
+}
+
+function refLabel(ref: ResourceRef | null | undefined): string {
+  if (!ref) return '';
+  if (typeof ref.name === 'string' && ref.name) return ref.name;
+  const name = [ref.first_name, ref.last_name].filter((part) => typeof part === 'string' && part);
+  return name.length > 0 ? name.join(' ') : `#${ref.id}`;
+}
+
+function toRow(entry: TimeEntry): TimeExportRow {
+  return {
+    kind: 'entry',
+    id: entry.id,
+    date: entry.date,
+    project: refLabel(entry.project),
+    service: refLabel(entry.service),
+    person: refLabel(entry.person),
+    note: entry.note ?? '',
+    minutes: entry.time,
+  };
+}
+
+function sum(rows: TimeExportRow[]): number {
+  return rows.reduce((total, row) => total + row.minutes, 0);
+}
+
+function groupRows(
+  rows: TimeExportRow[],
+  levels: TimeExportGroupBy[],
+  parent: Partial<Record<TimeExportGroupBy, string>>,
+): TimeExportRow[] {
+  const [level, ...rest] = levels;
+  if (!level) {
+    return rows.toSorted(
+      (a, b) => a.date.localeCompare(b.date) || a.person.localeCompare(b.person),
+    );
+  }
+
+  const groups = new Map<string, TimeExportRow[]>();
+  for (const row of rows) {
+    const members = groups.get(row[level]);
+    if (members) members.push(row);
+    else groups.set(row[level], [row]);
+  }
+  const labels = [...groups.keys()].toSorted((a, b) => a.localeCompare(b));
+
+  return labels.flatMap((label) => {
+    const members = groups.get(label) ?? [];
+    const path = { ...parent, [level]: label };
+    return [
+      ...groupRows(members, rest, path),
+      {
+        kind: 'subtotal' as const,
+        date: '',
+        project: path.project ?? '',
+        service: path.service ?? '',
+        person: path.person ?? '',
+        note: 'Subtotal',
+        minutes: sum(members),
+      },
+    ];
+  });
+}
+
+/**
+ * Group time entries into sheet rows: entries sorted by date within each
+ * group, a subtotal row after every group and a grand total row last.
+ */
+export function buildTimeExportRows(
+  entries: TimeEntry[],
+  options: BuildTimeExportOptions = {},
+): TimeExportRow[] {
+  const rows = entries.map(toRow);
+  const groupBy = options.groupBy ?? ['project', 'service'];
+
+  return [
+    ...groupRows(rows, groupBy, {}),
+    {
+      kind: 'total',
+      date: '',
+      project: '',
+      service: '',
+      person: '',
+      note: 'Total',
+      minutes: sum(rows),
+    },
+  ];
+}
+
+function hours(minutes: number): string {
+  return (minutes / 60).toFixed(2);
+}
+
+// ============ CSV ============
+
+function escapeCsv(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+function renderCsv(rows: TimeExportRow[]): string {
+  const header = ['Date', 'Project', 'Service', 'Person', 'Note', 'Hours', 'Minutes'];
+  const lines = rows.map((row) =>
+    [
+      row.date,
+      row.project,
+      row.service,
+      row.person,
+      row.note,
+      hours(row.minutes),
+      String(row.minutes),
+    ]
+      .map(escapeCsv)
+      .join(','),
+  );
+  return `${[header.join(','), ...lines].join('\r\n')}\r\n`;
+}
+
+// ============ XLSX ============
+
+const XLSX_COLUMNS: XlsxColumn[] = [
+  { header: 'Date', type: 'date', width: 12 },
+  { header: 'Project', width: 28 },
+  { header: 'Service', width: 24 },
+  { header: 'Person', width: 20 },
+  { header: 'Note', width: 48 },
+  { header: 'Hours', type: 'decimal', width: 10 },
+  { header: 'Minutes', type: 'number', width: 10 },
+];
+
+function renderXlsx(rows: TimeExportRow[], title: string): Uint8Array {
+  return writeXlsx({
+    name: title,
+    columns: XLSX_COLUMNS,
+    rows: rows.map((row) => ({
+      values: [
+        row.date,
+        row.project,
+        row.service,
+        row.person,
+        row.note,
+        Math.round((row.minutes / 60) * 100) / 100,
+        row.minutes,
+      ],
+      bold: row.kind !== 'entry',
+    })),
+  });
+}
+
+// ============ iCalendar ============
+
+function escapeIcs(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+/**
+ * Fold a content line at 75 octets, continuation lines starting with a space.
+ */
+function foldIcs(line: string): string {
+  const bytes = Buffer.from(line, 'utf8');
+  if (bytes.length <= 75) return line;
+
+  const parts: string[] = [];
+  let start = 0;
+  while (start < bytes.length) {
+    let end = Math.min(start + (parts.length === 0 ? 75 : 74), bytes.length);
+    // Never split a multi-byte character
+    while (end < bytes.length && (bytes[end] & 0xc0) === 0x80) end--;
+    parts.push(bytes.subarray(start, end).toString('utf8'));
+    start = end;
+  }
+  return parts.join('\r\n ');
+}
+
+function icsDateTime(date: string, minutes: number): string {
+  const day = new Date(`${date}T00:00:00Z`);
+  day.setUTCMinutes(minutes);
+  return day.toISOString().replace(/[-:]/g, '').slice(0, 15);
+}
+
+function icsSummary(row: TimeExportRow): string {
+  const context = [row.project, row.service].filter(Boolean).join(' / ');
+  return [context && `[${context}]`, row.note].filter(Boolean).join(' ') || 'Time entry';
+}
+
+/**
+ * Entries carry a date and a duration but no time of day, so each person's
+ * entries are laid end to end from `dayStart` (floating local time). Events
+ * use the `[Project / Service] Note` summary read back by `time import`.
+ */
+function renderIcs(rows: TimeExportRow[], options: RenderTimeExportOptions): string {
+  const [startHours, startMinutes] = (options.dayStart ?? '09:00').split(':').map(Number);
+  const dayStart = (startHours || 0) * 60 + (startMinutes || 0);
+  const stamp = (options.now ?? new Date()).toISOString().replace(/[-:]/g, '').slice(0, 15);
+  const cursors = new Map<string, number>();
+
+  const events = rows
+    .filter((row) => row.kind === 'entry')
+    .toSorted((a, b) => a.date.localeCompare(b.date))
+    .flatMap((row) => {
+      const key = `${row.date}|${row.person}`;
+      const start = cursors.get(key) ?? dayStart;
+      cursors.set(key, start + row.minutes);
+
+      return [
+        'BEGIN:VEVENT',
+        `UID:time-entry-${row.id}@productive.io`,
+        `DTSTAMP:${stamp}Z`,
+        `DTSTART:${icsDateTime(row.date, start)}`,
+        `DTEND:${icsDateTime(row.date, start + row.minutes)}`,
+        `SUMMARY:${escapeIcs(icsSummary(row))}`,
+        ...(row.person
+          ? [`DESCRIPTION:${escapeIcs(`${row.person} — ${hours(row.minutes)}h`)}`]
+          : []),
+        'END:VEVENT',
+      ];
+    });
+
+  return `${[
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//studiometa//productive-sdk//EN',
+    'CALSCALE:GREGORIAN',
+    ...(options.title ? [`X-WR-CALNAME:${escapeIcs(options.title)}`] : []),
+    ...events,
+    'END:VCALENDAR',
+  ]
+    .map(foldIcs)
+    .join('\r\n')}\r\n`;
+}
+
+/**
+ * Render export rows in the given format.
+ * CSV and iCalendar return text; XLSX returns the workbook bytes.
+ * iCalendar only carries the entries, not the subtotals.
+ */
+export function renderTimeExport(
+  rows: TimeExportRow[],
+  format: TimeExportFormat,
+  options: RenderTimeExportOptions = {},
+): string | Uint8Array {
+  switch (format) {
+    case 'csv':
+      return renderCsv(rows);
+    case 'xlsx':
+      return renderXlsx(rows, options.title ?? 'Timesheet');
+    case 'ics':
+      return renderIcs(rows, options);
+  }
+}
@@ -1,5 +1,8 @@
 import type {
   ProductiveTask,
+  ProductiveTaskList,
+  ProductiveBoard,
+  ProductiveWorkflowStatus,
   ProductiveProject,
   ProductiveTimeEntry,
   ProductivePerson,
@@ -9,6 +12,9 @@ import type {
   ProductiveComment,
   ProductiveTimer,
   ProductiveDiscussion,
+  ProductiveInvoice,
+  ProductiveLineItem,
+  ProductiveExpense,
   ProductiveBooking,
   ProductivePage,
   ProductiveAttachment,
@@ -49,6 +55,9 @@ type FlattenResource<T extends { id: string; type: string; attributes: object }>
 // ---------------------------------------------------------------------------
 
 export type Task = FlattenResource<ProductiveTask>;
+export type TaskList = FlattenResource<ProductiveTaskList>;
+export type Board = FlattenResource<ProductiveBoard>;
+export type WorkflowStatus = FlattenResource<ProductiveWorkflowStatus>;
 export type Project = FlattenResource<ProductiveProject>;
 export type TimeEntry = FlattenResource<ProductiveTimeEntry>;
 export type Person = FlattenResource<ProductivePerson>;
@@ -58,6 +67,9 @@ export type Service = FlattenResource<ProductiveService>;
 export type Comment = FlattenResource<ProductiveComment>;
 export type Timer = FlattenResource<ProductiveTimer>;
 export type Discussion = FlattenResource<ProductiveDiscussion>;
+export type Invoice = FlattenResource<ProductiveInvoice>;
+export type LineItem = FlattenResource<ProductiveLineItem>;
+export type Expense = FlattenResource<ProductiveExpense>;
 export type Booking = FlattenResource<ProductiveBooking>;
 export type Page = FlattenResource<ProductivePage>;
 export type Attachment = FlattenResource<ProductiveAttachment>;
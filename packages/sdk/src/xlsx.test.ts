@@ -0,0 +1,105 @@
+import { inflateRawSync } from 'node:zlib';
+import { describe, expect, it } from 'vitest';
+
+import { columnLetter, writeXlsx, zip } from './xlsx.js';
+
+/**
+ * Read back the files of a ZIP archive from its local headers.
+ */
+function unzip(archive: Uint8Array): Record<string, string> {
+  const buffer = Buffer.from(archive);
+  const files: Record<string, string> = {};
+  let offset = 0;
+  while (buffer.readUInt32LE(offset) === 0x04034b50) {
+    const compressedSize = buffer.readUInt32LE(offset + 18);
+    const nameLength = buffer.readUInt16LE(offset + 26);
+    const name = buffer.toString('utf8', offset + 30, offset + 30 + nameLength);
+    const start = offset + 30 + nameLength;
+    files[name] = inflateRawSync(buffer.subarray(start, start + compressedSize)).toString('utf8');
+    offset = start + compressedSize;
+  }
+  return files;
+}
+
+describe('columnLetter', () => {
+  it.each([
+    [0, 'A'],
+    [25, 'Z'],
+    [26, 'AA'],
+    [701, 'ZZ'],
+    [702, 'AAA'],
+  ])('converts %i to %s', (index, letter) => {
+    expect(columnLetter(index)).toBe(letter);
+  });
+});
+
+describe('zip', () => {
+  it('writes a readable archive with a central directory', () => {
+    const archive = zip([
+      ['a.txt', 'hello'],
+      ['dir/b.txt', 'world'],
+    ]);
+    const buffer = Buffer.from(archive);
+
+    expect(unzip(archive)).toEqual({ 'a.txt': 'hello', 'dir/b.txt': 'world' });
+    const end = buffer.length - 22;
+    expect(buffer.readUInt32LE(end)).toBe(0x06054b50);
+    expect(buffer.readUInt16LE(end + 10)).toBe(2);
+    expect(buffer.readUInt32LE(buffer.readUInt32LE(end + 16))).toBe(0x02014b50);
+  });
+
+  it('is reproducible', () => {
+    expect(zip([['a.txt', 'hello']])).toEqual(zip([['a.txt', 'hello']]));
+  });
+});
+
+describe('writeXlsx', () => {
+  it('writes a workbook with typed and styled cells', () => {
+    const files = unzip(
+      writeXlsx({
+        name: 'Timesheet: January',
+        columns: [
+          { header: 'Date', type: 'date' },
+          { header: 'Note' },
+          { header: 'Hours', type: 'decimal' },
+        ],
+        rows: [
+          { values: ['2024-01-15', 'R&D <draft>', 1.5] },
+          { values: ['', 'Total', 1.5], bold: true },
+        ],
+      }),
+    );
+
+    expect(Object.keys(files)).toEqual([
+      '[Content_Types].xml',
+      '_rels/.rels',
+      'xl/workbook.xml',
+      'xl/_rels/workbook.xml.rels',
+      'xl/styles.xml',
+      'xl/worksheets/sheet1.xml',
+    ]);
+    expect(files['xl/workbook.xml']).toContain('<sheet name="Timesheet  January"');
+
+    const sheet = files['xl/worksheets/sheet1.xml'];
+    expect(sheet).toContain(
+      '<c r="A1" s="1" t="inlineStr"><is><t xml:space="preserve">Date</t></is></c>',
+    );
+    expect(sheet).toContain('<c r="A2" s="2"><v>45306</v></c>');
+    expect(sheet).toContain('R&amp;D &lt;draft&gt;');
+    expect(sheet).toContain('<c r="C2" s="4"><v>1.5</v></c>');
+    expect(sheet).not.toContain('r="A3"');
+    expect(sheet).toContain('<c r="C3" s="5"><v>1.5</v></c>');
+  });
+
+  it('drops the control characters XML does not allow', () => {
+    const files = unzip(
+      writeXlsx({
+        name: 'Notes',
+        columns: [{ header: 'Note' }],
+        rows: [{ values: ['Line\u0001one\ttwo\u001F'] }],
+      }),
+    );
+
+    expect(files['xl/worksheets/sheet1.xml']).toContain('Lineone\ttwo</t>');
+  });
+});
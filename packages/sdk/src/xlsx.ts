@@ -0,0 +1,262 @@
+/**
+ * Minimal XLSX (Office Open XML spreadsheet) writer.
+ *
+ * Produces a single-sheet workbook that Excel, Numbers and LibreOffice open
+ * natively, without a third-party dependency: strings are stored inline, and
+ * the package is zipped with `node:zlib`.
+ */
+
+import { crc32, deflateRawSync } from 'node:zlib';
+
+export type XlsxColumnType = 'string' | 'number' | 'decimal' | 'date';
+
+export interface XlsxColumn {
+  header: string;
+  type?: XlsxColumnType;
+  /** Column width in characters */
+  width?: number;
+}
+
+export type XlsxValue = string | number | null | undefined;
+
+export interface XlsxRow {
+  values: XlsxValue[];
+  bold?: boolean;
+}
+
+export interface XlsxSheet {
+  name: string;
+  columns: XlsxColumn[];
+  rows: XlsxRow[];
+}
+
+// Cell style indexes into `cellXfs` below: plain, then bold, for each column type.
+const STYLE_INDEX: Record<XlsxColumnType, number> = {
+  string: 0,
+  number: 0,
+  date: 2,
+  decimal: 4,
+};
+
+const STYLES_XML =
+  '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+  '<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+  '<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font>' +
+  '<font><b/><sz val="11"/><name val="Calibri"/></font></fonts>' +
+  '<fills count="2"><fill><patternFill patternType="none"/></fill>' +
+  '<fill><patternFill patternType="gray125"/></fill></fills>' +
+  '<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>' +
+  '<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>' +
+  '<cellXfs count="6">' +
+  '<xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>' +
+  '<xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/>' +
+  '<xf numFmtId="14" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>' +
+  '<xf numFmtId="14" fontId="1" fillId="0" borderId="0" xfId="0" applyNumberFormat="1" applyFont="1"/>' +
+  '<xf numFmtId="2" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>' +
+  '<xf numFmtId="2" fontId="1" fillId="0" borderId="0" xfId="0" applyNumberFormat="1" applyFont="1"/>' +
+  '</cellXfs></styleSheet>';
+
+/**
+ * Whether a character is allowed in XML 1.0: control characters other than
+ * tab, line feed and carriage return are not.
+ */
+function isXmlChar(char: string): boolean {
+  const code = char.charCodeAt(0);
+  return code >= 0x20 || code === 0x09 || code === 0x0a || code === 0x0d;
+}
+
+function escapeXml(value: string): string {
+  return Array.from(value)
+    .filter(isXmlChar)
+    .join('')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * Convert a zero-based column index to its letter reference (0 → A, 26 → AA).
+ */
+export function columnLetter(index: number): string {
+  let letter = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    letter = String.fromCharCode(65 + ((n - 1) % 26)) + letter;
+  }
+  return letter;
+}
+
+/**
+ * Convert a YYYY-MM-DD date to an Excel serial date (days since 1899-12-30).
+ */
+function toSerialDate(value: string): number | undefined {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value);
+  if (!match) return undefined;
+  const time = Date.UTC(Number(match[1]), Number(match[2]) - 1, Number(match[3]));
+  return (time - Date.UTC(1899, 11, 30)) / 86_400_000;
+}
+
+function cellXml(ref: string, value: XlsxValue, type: XlsxColumnType, bold: boolean): string {
+  if (value === null || value === undefined || value === '') return '';
+
+  const style = STYLE_INDEX[type] + (bold ? 1 : 0);
+  const s = style ? ` s="${style}"` : '';
+
+  const serial = type === 'date' && typeof value === 'string' ? toSerialDate(value) : undefined;
+  if (serial !== undefined) {
+    return `<c r="${ref}"${s}><v>${serial}</v></c>`;
+  }
+  if (typeof value === 'number' && Number.isFinite(value)) {
+    return `<c r="${ref}"${s}><v>${value}</v></c>`;
+  }
+  return `<c r="${ref}"${s} t="inlineStr"><is><t xml:space="preserve">${escapeXml(String(value))}</t></is></c>`;
+}
+
+function sheetXml(sheet: XlsxSheet): string {
+  const rows = [
+    { values: sheet.columns.map((column) => column.header), bold: true, header: true },
+    ...sheet.rows,
+  ];
+
+  const rowsXml = rows
+    .map((row, r) => {
+      const cells = row.values
+        .map((value, c) => {
+          const type = 'header' in row ? 'string' : (sheet.columns[c]?.type ?? 'string');
+          return cellXml(`${columnLetter(c)}${r + 1}`, value, type, row.bold === true);
+        })
+        .join('');
+      return `<row r="${r + 1}">${cells}</row>`;
+    })
+    .join('');
+
+  const cols = sheet.columns
+    .map(
+      (column, c) =>
+        `<col min="${c + 1}" max="${c + 1}" width="${column.width ?? 12}" customWidth="1"/>`,
+    )
+    .join('');
+
+  return (
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+    '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+    '<sheetViews><sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/></sheetView></sheetViews>' +
+    `<cols>${cols}</cols>` +
+    `<sheetData>${rowsXml}</sheetData>` +
+    '</worksheet>'
+  );
+}
+
+function workbookFiles(sheet: XlsxSheet): Array<[string, string]> {
+  // Sheet names are limited to 31 characters and may not contain []:*?/\
+  const name = escapeXml(sheet.name.replace(/[[\]:*?/\\]/g, ' ').slice(0, 31) || 'Sheet1');
+
+  return [
+    [
+      '[Content_Types].xml',
+      '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+        '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+        '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+        '<Default Extension="xml" ContentType="application/xml"/>' +
+        '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+        '<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>' +
+        '<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>' +
+        '</Types>',
+    ],
+    [
+      '_rels/.rels',
+      '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+        '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+        '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>' +
+        '</Relationships>',
+    ],
+    [
+      'xl/workbook.xml',
+      '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+        '<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">' +
+        `<sheets><sheet name="${name}" sheetId="1" r:id="rId1"/></sheets>` +
+        '</workbook>',
+    ],
+    [
+      'xl/_rels/workbook.xml.rels',
+      '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+        '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+        '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/>' +
+        '<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>' +
+        '</Relationships>',
+    ],
+    ['xl/styles.xml', STYLES_XML],
+    ['xl/worksheets/sheet1.xml', sheetXml(sheet)],
+  ];
+}
+
+/**
+ * Build a ZIP archive of deflated files.
+ * Timestamps are fixed to 1980-01-01 so the output is reproducible.
+ */
+export function zip(files: Array<[string, string | Uint8Array]>): Uint8Array {
+  const encoder = new TextEncoder();
+  const DOS_DATE = (1 << 5) | 1;
+  const local: Buffer[] = [];
+  const central: Buffer[] = [];
+  let offset = 0;
+
+  for (const [name, content] of files) {
+    const nameBytes = Buffer.from(encoder.encode(name));
+    const data = typeof content === 'string' ? encoder.encode(content) : content;
+    const compressed = deflateRawSync(data);
+    const crc = crc32(data);
+
+    const header = Buffer.alloc(30);
+    header.writeUInt32LE(0x04034b50, 0);
+    header.writeUInt16LE(20, 4); // version needed
+    header.writeUInt16LE(0x0800, 6); // UTF-8 names
+    header.writeUInt16LE(8, 8); // deflate
+    header.writeUInt16LE(0, 10); // time
+    header.writeUInt16LE(DOS_DATE, 12);
+    header.writeUInt32LE(crc, 14);
+    header.writeUInt32LE(compressed.length, 18);
+    header.writeUInt32LE(data.length, 22);
+    header.writeUInt16LE(nameBytes.length, 26);
+    header.writeUInt16LE(0, 28);
+    local.push(header, nameBytes, compressed);
+
+    const entry = Buffer.alloc(46);
+    entry.writeUInt32LE(0x02014b50, 0);
+    entry.writeUInt16LE(20, 4); // version made by
+    entry.writeUInt16LE(20, 6); // version needed
+    entry.writeUInt16LE(0x0800, 8);
+    entry.writeUInt16LE(8, 10);
+    entry.writeUInt16LE(0, 12);
+    entry.writeUInt16LE(DOS_DATE, 14);
+    entry.writeUInt32LE(crc, 16);
+    entry.writeUInt32LE(compressed.length, 20);
+    entry.writeUInt32LE(data.length, 24);
+    entry.writeUInt16LE(nameBytes.length, 28);
+    entry.writeUInt32LE(offset, 42);
+    central.push(entry, nameBytes);
+
+    offset += header.length + nameBytes.length + compressed.length;
+  }
+
+  const centralSize = central.reduce((sum, part) => sum + part.length, 0);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(files.length, 8);
+  end.writeUInt16LE(files.length, 10);
+  end.writeUInt32LE(centralSize, 12);
+  end.writeUInt32LE(offset, 16);
+
+  return new Uint8Array(Buffer.concat([...local, ...central, end]));
+}
+
+/**
+ * Write a single-sheet XLSX workbook.
+ *
+ * The first row holds the column headers and stays frozen when scrolling.
+ * `date` columns take YYYY-MM-DD strings and are stored as real dates;
+ * `decimal` columns are shown with two decimals.
+ */
+export function writeXlsx(sheet: XlsxSheet): Uint8Array {
+  return zip(workbookFiles(sheet));
+}
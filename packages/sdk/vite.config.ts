@@ -5,7 +5,7 @@ import { createBuildConfig, createTestConfig } from '../../vite.config.base.ts';
 export default defineConfig({
   build: createBuildConfig({
     entry: { index: './src/index.ts' },
-    external: ['@studiometa/productive-api'],
+    external: ['@studiometa/productive-api', '@studiometa/productive-core'],
   }),
   test: createTestConfig({
     name: 'sdk',